@@ -117,4 +117,11 @@ describe( 'StrikethroughEditing', () => {
 			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal( '<p><s>foo</s>bar</p>' );
 		} );
 	} );
+
+	it( 'should add keystroke accessibility info', () => {
+		expect( editor.accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'common' ).keystrokes ).to.deep.include( {
+			label: 'Strikethrough text',
+			keystroke: 'CTRL+SHIFT+X'
+		} );
+	} );
 } );
@@ -0,0 +1,36 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	Bookmark,
+	BookmarkConfig,
+	BookmarkEditing,
+	BookmarkUI,
+	InsertBookmarkCommand,
+	UpdateBookmarkCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the bookmark feature. Introduced by the {@link module:bookmark/bookmarkui~BookmarkUI} feature.
+		 *
+		 * Read more in {@link module:bookmark/bookmarkconfig~BookmarkConfig}.
+		 */
+		bookmark?: BookmarkConfig;
+	}
+
+	interface PluginsMap {
+		[ Bookmark.pluginName ]: Bookmark;
+		[ BookmarkEditing.pluginName ]: BookmarkEditing;
+		[ BookmarkUI.pluginName ]: BookmarkUI;
+	}
+
+	interface CommandsMap {
+		insertBookmark: InsertBookmarkCommand;
+		updateBookmark: UpdateBookmarkCommand;
+	}
+}
@@ -0,0 +1,37 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module bookmark/bookmark
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { Widget } from 'ckeditor5/src/widget';
+
+import BookmarkEditing from './bookmarkediting';
+import BookmarkUI from './bookmarkui';
+
+/**
+ * The bookmark feature. It allows for inserting named anchors (`<a id="...">`) into the content, which can be used
+ * as the targets of the links, for instance `#chapter-1`.
+ *
+ * This is a "glue" plugin which loads the {@link module:bookmark/bookmarkediting~BookmarkEditing bookmark editing feature}
+ * and the {@link module:bookmark/bookmarkui~BookmarkUI bookmark UI feature}.
+ */
+export default class Bookmark extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'Bookmark' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ BookmarkEditing, BookmarkUI, Widget ] as const;
+	}
+}
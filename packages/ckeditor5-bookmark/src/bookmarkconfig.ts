@@ -0,0 +1,38 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module bookmark/bookmarkconfig
+ */
+
+import type { ToolbarConfigItem } from 'ckeditor5/src/core';
+
+/**
+ * The configuration of the {@link module:bookmark/bookmark~Bookmark bookmark feature}.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		bookmark: {
+ * 			toolbar: [ 'editBookmark', 'removeBookmark' ]
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor configuration options}.
+ */
+export interface BookmarkConfig {
+
+	/**
+	 * Items to be placed in the bookmark toolbar displayed when a bookmark is selected.
+	 *
+	 * Read more about configuring toolbar in {@link module:core/editor/editorconfig~EditorConfig#toolbar}.
+	 *
+	 * @default [ 'editBookmark', 'removeBookmark' ]
+	 */
+	toolbar?: Array<ToolbarConfigItem>;
+}
@@ -0,0 +1,164 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module bookmark/bookmarkediting
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import type { Element, UpcastElementEvent } from 'ckeditor5/src/engine';
+import { toWidget } from 'ckeditor5/src/widget';
+
+import InsertBookmarkCommand from './insertbookmarkcommand';
+import UpdateBookmarkCommand from './updatebookmarkcommand';
+
+import bookmarkIcon from '../theme/icons/bookmark.svg';
+import '../theme/bookmark.css';
+
+/**
+ * The bookmark editing feature.
+ *
+ * It introduces the `bookmark` inline object element in the model, representing the empty anchor with an id
+ * in the data, for instance `<a id="chapter-1"></a>`, and displays it as an inline widget in the editing view.
+ *
+ * It registers the `'insertBookmark'` and `'updateBookmark'` commands.
+ */
+export default class BookmarkEditing extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'BookmarkEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+
+		// The text attributes (like links) are not allowed, so the anchor is never nested in another anchor.
+		editor.model.schema.register( 'bookmark', {
+			allowWhere: '$text',
+			isInline: true,
+			isObject: true,
+			allowAttributes: [ 'bookmarkId' ]
+		} );
+
+		editor.commands.add( 'insertBookmark', new InsertBookmarkCommand( editor ) );
+		editor.commands.add( 'updateBookmark', new UpdateBookmarkCommand( editor ) );
+
+		this._defineConverters();
+	}
+
+	/**
+	 * Returns the ids of all bookmarks in the document, in the order of their appearance.
+	 */
+	public getBookmarkIds(): Array<string> {
+		return this._getBookmarks().map( bookmark => bookmark.getAttribute( 'bookmarkId' ) as string );
+	}
+
+	/**
+	 * Checks whether the bookmark with the given id exists in any root of the document.
+	 */
+	public hasBookmark( bookmarkId: string ): boolean {
+		return this.getBookmarkIds().includes( bookmarkId );
+	}
+
+	/**
+	 * Returns all bookmark elements in the document.
+	 */
+	private _getBookmarks(): Array<Element> {
+		const model = this.editor.model;
+		const bookmarks: Array<Element> = [];
+
+		for ( const rootName of model.document.getRootNames() ) {
+			for ( const item of model.createRangeIn( model.document.getRoot( rootName )! ).getItems() ) {
+				if ( item.is( 'element', 'bookmark' ) ) {
+					bookmarks.push( item );
+				}
+			}
+		}
+
+		return bookmarks;
+	}
+
+	/**
+	 * Defines the converters of the bookmark element.
+	 */
+	private _defineConverters(): void {
+		const editor = this.editor;
+		const conversion = editor.conversion;
+		const t = editor.t;
+
+		// The anchors without the `href` attribute are converted. The content of the anchor (if any) is kept after the bookmark.
+		conversion.for( 'upcast' ).add( dispatcher => {
+			dispatcher.on<UpcastElementEvent>( 'element:a', ( evt, data, conversionApi ) => {
+				const { consumable, writer } = conversionApi;
+				const viewItem = data.viewItem;
+				const bookmarkId = viewItem.getAttribute( 'id' );
+
+				if ( !bookmarkId || viewItem.hasAttribute( 'href' ) ) {
+					return;
+				}
+
+				if ( !consumable.test( viewItem, { name: true, attributes: 'id' } ) ) {
+					return;
+				}
+
+				const bookmark = writer.createElement( 'bookmark', { bookmarkId } );
+
+				if ( !conversionApi.safeInsert( bookmark, data.modelCursor ) ) {
+					return;
+				}
+
+				consumable.consume( viewItem, { name: true, attributes: 'id' } );
+				conversionApi.updateConversionResult( bookmark, data );
+
+				const { modelRange, modelCursor } = conversionApi.convertChildren( viewItem, data.modelCursor );
+
+				data.modelRange = writer.createRange( data.modelRange!.start, modelRange!.end );
+				data.modelCursor = modelCursor;
+			}, { priority: 'high' } );
+		} );
+
+		conversion.for( 'dataDowncast' ).elementToElement( {
+			model: {
+				name: 'bookmark',
+				attributes: [ 'bookmarkId' ]
+			},
+			view: ( modelElement, { writer } ) => writer.createEmptyElement( 'a', {
+				id: modelElement.getAttribute( 'bookmarkId' ) as string
+			} )
+		} );
+
+		conversion.for( 'editingDowncast' ).elementToElement( {
+			model: {
+				name: 'bookmark',
+				attributes: [ 'bookmarkId' ]
+			},
+			view: ( modelElement, { writer } ) => {
+				const bookmarkId = modelElement.getAttribute( 'bookmarkId' ) as string;
+
+				const iconElement = writer.createUIElement( 'span', { class: 'ck-bookmark__icon' }, function( domDocument ) {
+					const domElement = this.toDomElement( domDocument );
+
+					domElement.innerHTML = bookmarkIcon;
+
+					return domElement;
+				} );
+
+				const viewElement = writer.createContainerElement( 'span', {
+					class: 'ck-bookmark',
+					title: bookmarkId
+				}, iconElement );
+
+				writer.setCustomProperty( 'bookmark', true, viewElement );
+
+				return toWidget( viewElement, writer, { label: t( 'Bookmark: %0', bookmarkId ) } );
+			}
+		} );
+	}
+}
@@ -0,0 +1,417 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module bookmark/bookmarkui
+ */
+
+import { Plugin, icons, type Editor } from 'ckeditor5/src/core';
+import {
+	ButtonView,
+	ContextualBalloon,
+	CssTransitionDisablerMixin,
+	Model,
+	addListToDropdown,
+	clickOutsideHandler,
+	createDropdown,
+	type DropdownView,
+	type ListDropdownItemDefinition,
+	type ViewWithCssTransitionDisabler
+} from 'ckeditor5/src/ui';
+import { Collection, type ObservableChangeEvent, type PositionOptions } from 'ckeditor5/src/utils';
+import { WidgetToolbarRepository } from 'ckeditor5/src/widget';
+import type { LinkUI } from '@ckeditor/ckeditor5-link';
+
+import BookmarkEditing from './bookmarkediting';
+import BookmarkFormView, { type BookmarkFormCancelEvent, type BookmarkFormSubmitEvent } from './ui/bookmarkformview';
+import { getSelectedBookmarkWidget } from './utils';
+
+import bookmarkIcon from '../theme/icons/bookmark.svg';
+import removeBookmarkIcon from '../theme/icons/remove-bookmark.svg';
+import '../theme/bookmarkui.css';
+
+/**
+ * The bookmark UI plugin. It registers:
+ *
+ * * The `'bookmark'` button opening the balloon with the form to name a new bookmark (or to rename the selected one).
+ * * The `'editBookmark'` and `'removeBookmark'` buttons of the toolbar displayed when a bookmark is selected.
+ *
+ * When the {@link module:link/linkui~LinkUI link UI} is loaded, the link form is extended with the dropdown listing
+ * the bookmarks in the document, so one of them can be chosen as the link target.
+ */
+export default class BookmarkUI extends Plugin {
+	/**
+	 * The form view displayed in the balloon.
+	 */
+	private _form: BookmarkFormView & ViewWithCssTransitionDisabler | null = null;
+
+	/**
+	 * The contextual balloon plugin instance.
+	 */
+	private _balloon: ContextualBalloon | null = null;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ BookmarkEditing, ContextualBalloon, WidgetToolbarRepository ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'BookmarkUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'bookmark', {
+			toolbar: [ 'editBookmark', 'removeBookmark' ]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		this._balloon = this.editor.plugins.get( ContextualBalloon );
+
+		this._createButtons();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public afterInit(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.plugins.get( WidgetToolbarRepository ).register( 'bookmark', {
+			ariaLabel: t( 'Bookmark toolbar' ),
+			items: editor.config.get( 'bookmark.toolbar' )!,
+			getRelatedElement: getSelectedBookmarkWidget
+		} );
+
+		// The link UI may be loaded after this plugin, so it is looked up once all plugins are initialized.
+		if ( editor.plugins.has( 'LinkUI' ) ) {
+			this._extendLinkForm( editor.plugins.get( 'LinkUI' ) );
+		}
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		// Destroy created UI components as they are not automatically destroyed (see ckeditor5#1341).
+		if ( this._form ) {
+			this._form.destroy();
+		}
+	}
+
+	/**
+	 * Creates the buttons of the feature and registers them in the editor
+	 * {@link module:ui/componentfactory~ComponentFactory ComponentFactory}.
+	 */
+	private _createButtons(): void {
+		const editor = this.editor;
+		const t = editor.t;
+		const insertCommand = editor.commands.get( 'insertBookmark' )!;
+		const updateCommand = editor.commands.get( 'updateBookmark' )!;
+
+		editor.ui.componentFactory.add( 'bookmark', locale => {
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Bookmark' ),
+				icon: bookmarkIcon,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).toMany( [ insertCommand, updateCommand ], 'isEnabled',
+				( isInsertEnabled, isUpdateEnabled ) => isInsertEnabled || isUpdateEnabled
+			);
+
+			this.listenTo( view, 'execute', () => this._showForm() );
+
+			return view;
+		} );
+
+		editor.ui.componentFactory.add( 'editBookmark', locale => {
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Edit bookmark' ),
+				icon: icons.pencil,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).to( updateCommand );
+
+			this.listenTo( view, 'execute', () => this._showForm() );
+
+			return view;
+		} );
+
+		editor.ui.componentFactory.add( 'removeBookmark', locale => {
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Remove bookmark' ),
+				icon: removeBookmarkIcon,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).to( updateCommand );
+
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'delete' );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+	}
+
+	/**
+	 * Creates the {@link module:bookmark/ui/bookmarkformview~BookmarkFormView} form.
+	 */
+	private _createForm(): void {
+		const editor = this.editor;
+
+		this._form = new ( CssTransitionDisablerMixin( BookmarkFormView ) )( getFormValidators( editor ), editor.locale );
+
+		// Render the form so its #element is available for clickOutsideHandler.
+		this._form.render();
+
+		this.listenTo<BookmarkFormSubmitEvent>( this._form, 'submit', () => {
+			if ( !this._form!.isValid() ) {
+				return;
+			}
+
+			const commandName = editor.commands.get( 'updateBookmark' )!.isEnabled ? 'updateBookmark' : 'insertBookmark';
+
+			editor.execute( commandName, { bookmarkId: this._form!.id } );
+
+			this._hideForm( true );
+		} );
+
+		this.listenTo<BookmarkFormCancelEvent>( this._form, 'cancel', () => {
+			this._hideForm( true );
+		} );
+
+		// Close the form on Esc key press.
+		this._form.keystrokes.set( 'Esc', ( data, cancel ) => {
+			this._hideForm( true );
+			cancel();
+		} );
+
+		// Reposition the balloon when the editor UI changes, for instance when the content is scrolled.
+		this.listenTo( editor.ui, 'update', () => {
+			if ( this._isVisible ) {
+				this._balloon!.updatePosition( this._getBalloonPositionData() );
+			}
+		} );
+
+		// Close on click outside of balloon panel element.
+		clickOutsideHandler( {
+			emitter: this._form,
+			activator: () => this._isVisible,
+			contextElements: () => [ this._balloon!.view.element! ],
+			callback: () => this._hideForm()
+		} );
+	}
+
+	/**
+	 * Shows the {@link #_form} in the {@link #_balloon}. The id of the selected bookmark (if any) is filled in.
+	 */
+	private _showForm(): void {
+		if ( this._isVisible ) {
+			return;
+		}
+
+		if ( !this._form ) {
+			this._createForm();
+		}
+
+		const fieldView = this._form!.idInputView.fieldView;
+
+		this._form!.disableCssTransitions();
+
+		if ( !this._isInBalloon ) {
+			this._balloon!.add( {
+				view: this._form!,
+				position: this._getBalloonPositionData()
+			} );
+		}
+
+		this._form!.resetFormStatus();
+		fieldView.value = fieldView.element!.value = this.editor.commands.get( 'updateBookmark' )!.value || '';
+		fieldView.select();
+
+		this._form!.enableCssTransitions();
+	}
+
+	/**
+	 * Removes the {@link #_form} from the {@link #_balloon}.
+	 *
+	 * @param focusEditable Controls whether the editing view is focused afterwards.
+	 */
+	private _hideForm( focusEditable: boolean = false ): void {
+		if ( !this._isInBalloon ) {
+			return;
+		}
+
+		// Blur the input element before removing it from DOM to prevent issues in some browsers.
+		// See https://github.com/ckeditor/ckeditor5/issues/1501.
+		if ( this._form!.focusTracker.isFocused ) {
+			this._form!.saveButtonView.focus();
+		}
+
+		this._balloon!.remove( this._form! );
+
+		if ( focusEditable ) {
+			this.editor.editing.view.focus();
+		}
+	}
+
+	/**
+	 * Returns `true` when the {@link #_form} is the visible view in the {@link #_balloon}.
+	 */
+	private get _isVisible(): boolean {
+		return !!this._form && this._balloon!.visibleView === this._form;
+	}
+
+	/**
+	 * Returns `true` when the {@link #_form} is in the {@link #_balloon}.
+	 */
+	private get _isInBalloon(): boolean {
+		return !!this._form && this._balloon!.hasView( this._form );
+	}
+
+	/**
+	 * Returns the position of the balloon. It is attached to the selected bookmark or to the selection.
+	 */
+	private _getBalloonPositionData(): Partial<PositionOptions> {
+		const view = this.editor.editing.view;
+		const viewSelection = view.document.selection;
+
+		return {
+			target: () => {
+				const bookmarkWidget = getSelectedBookmarkWidget( viewSelection );
+
+				return bookmarkWidget ?
+					view.domConverter.mapViewToDom( bookmarkWidget )! :
+					view.domConverter.viewRangeToDom( viewSelection.getFirstRange()! );
+			}
+		};
+	}
+
+	/**
+	 * Adds the dropdown listing the bookmarks in the document to the link form, once it is created. Choosing a bookmark
+	 * fills in the link URL with the reference to the bookmark, for instance `#chapter-1`.
+	 */
+	private _extendLinkForm( linkUI: LinkUI ): void {
+		this.listenTo<ObservableChangeEvent<LinkUI[ 'formView' ]>>( linkUI, 'change:formView', ( evt, name, formView ) => {
+			if ( formView ) {
+				formView.addChildView( this._createLinkBookmarksDropdown( formView ) );
+			}
+		} );
+	}
+
+	/**
+	 * Creates the dropdown listing the bookmarks in the document for the given link form.
+	 */
+	private _createLinkBookmarksDropdown( formView: NonNullable<LinkUI[ 'formView' ]> ): DropdownView {
+		const editor = this.editor;
+		const t = editor.t;
+		const bookmarkEditing = editor.plugins.get( BookmarkEditing );
+		const dropdownView = createDropdown( editor.locale );
+		const items = new Collection<ListDropdownItemDefinition>();
+
+		dropdownView.buttonView.set( {
+			label: t( 'Bookmarks' ),
+			tooltip: t( 'Link to a bookmark' ),
+			withText: true
+		} );
+
+		dropdownView.extendTemplate( {
+			attributes: {
+				class: [ 'ck-bookmark-link-dropdown' ]
+			}
+		} );
+
+		dropdownView.bind( 'isEnabled' ).to( formView.urlInputView );
+
+		addListToDropdown( dropdownView, items, { ariaLabel: t( 'Bookmarks' ) } );
+
+		// List the bookmarks present in the document at the moment the dropdown is opened.
+		dropdownView.on<ObservableChangeEvent<boolean>>( 'change:isOpen', ( evt, name, isOpen ) => {
+			if ( !isOpen ) {
+				return;
+			}
+
+			const bookmarkIds = bookmarkEditing.getBookmarkIds();
+
+			items.clear();
+
+			if ( !bookmarkIds.length ) {
+				items.add( {
+					type: 'button',
+					model: new Model( { label: t( 'No bookmarks available' ), withText: true, isEnabled: false } )
+				} );
+			}
+
+			items.addMany( bookmarkIds.map( bookmarkId => ( {
+				type: 'button' as const,
+				model: new Model( { label: bookmarkId, bookmarkId, icon: bookmarkIcon, withText: true } )
+			} ) ) );
+		} );
+
+		dropdownView.on( 'execute', evt => {
+			const fieldView = formView.urlInputView.fieldView;
+
+			fieldView.value = fieldView.element!.value = '#' + ( evt.source as any ).bookmarkId;
+			formView.urlInputView.focus();
+		} );
+
+		return dropdownView;
+	}
+}
+
+/**
+ * Returns the validators of the bookmark form: the id must not be empty, must not contain spaces and must not be used
+ * by another bookmark in the document.
+ */
+function getFormValidators( editor: Editor ): Array<( form: BookmarkFormView ) => string | undefined> {
+	const t = editor.t;
+	const bookmarkEditing = editor.plugins.get( BookmarkEditing );
+
+	return [
+		form => {
+			if ( !form.id ) {
+				return t( 'Bookmark must not be empty.' );
+			}
+		},
+		form => {
+			if ( /\s/.test( form.id ) ) {
+				return t( 'Bookmark name cannot contain space characters.' );
+			}
+		},
+		form => {
+			const currentId = editor.commands.get( 'updateBookmark' )!.value;
+
+			if ( form.id !== currentId && bookmarkEditing.hasBookmark( form.id ) ) {
+				return t( 'Bookmark name already exists.' );
+			}
+		}
+	];
+}
@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module bookmark
+ */
+
+export { default as Bookmark } from './bookmark';
+export { default as BookmarkEditing } from './bookmarkediting';
+export { default as BookmarkUI } from './bookmarkui';
+export { default as InsertBookmarkCommand } from './insertbookmarkcommand';
+export { default as UpdateBookmarkCommand } from './updatebookmarkcommand';
+
+export type { BookmarkConfig } from './bookmarkconfig';
+
+import './augmentation';
@@ -0,0 +1,68 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module bookmark/insertbookmarkcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import { logWarning } from 'ckeditor5/src/utils';
+
+import { isBookmarkIdValid } from './utils';
+
+/**
+ * The insert bookmark command.
+ *
+ * The command is registered by {@link module:bookmark/bookmarkediting~BookmarkEditing} as `'insertBookmark'`.
+ *
+ * It inserts the bookmark with the given id at the beginning of the selection and selects it:
+ *
+ * ```ts
+ * editor.execute( 'insertBookmark', { bookmarkId: 'chapter-1' } );
+ * ```
+ *
+ * The id must not be empty, must not contain spaces and must not be used by another bookmark in the document.
+ */
+export default class InsertBookmarkCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const model = this.editor.model;
+		const position = model.document.selection.getFirstPosition();
+
+		this.isEnabled = !!position && model.schema.checkChild( position, 'bookmark' );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Options for the executed command.
+	 * @param options.bookmarkId The id of the inserted bookmark.
+	 * @fires execute
+	 */
+	public override execute( { bookmarkId }: { bookmarkId: string } ): void {
+		const editor = this.editor;
+		const model = editor.model;
+
+		if ( !isBookmarkIdValid( bookmarkId ) || editor.plugins.get( 'BookmarkEditing' ).hasBookmark( bookmarkId ) ) {
+			/**
+			 * The insert bookmark command can be executed only with the id that is not empty, does not contain spaces
+			 * and is not used by another bookmark.
+			 *
+			 * @error insert-bookmark-command-executed-with-invalid-id
+			 */
+			logWarning( 'insert-bookmark-command-executed-with-invalid-id', { bookmarkId } );
+
+			return;
+		}
+
+		model.change( writer => {
+			const bookmark = writer.createElement( 'bookmark', { bookmarkId } );
+
+			model.insertObject( bookmark, model.document.selection.getFirstPosition(), null, { setSelection: 'on' } );
+		} );
+	}
+}
@@ -0,0 +1,263 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module bookmark/ui/bookmarkformview
+ */
+
+import {
+	ButtonView,
+	FocusCycler,
+	LabeledFieldView,
+	View,
+	ViewCollection,
+	createLabeledInputText,
+	submitHandler,
+	type InputTextView
+} from 'ckeditor5/src/ui';
+import { FocusTracker, KeystrokeHandler, type Locale } from 'ckeditor5/src/utils';
+import { icons } from 'ckeditor5/src/core';
+
+// See: #8833.
+// eslint-disable-next-line ckeditor5-rules/ckeditor-imports
+import '@ckeditor/ckeditor5-ui/theme/components/responsive-form/responsiveform.css';
+import '../../theme/bookmarkform.css';
+
+/**
+ * The bookmark form view, used to name a new bookmark or to rename the selected one.
+ */
+export default class BookmarkFormView extends View {
+	/**
+	 * Tracks information about the DOM focus in the form.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * The bookmark id input view.
+	 */
+	public idInputView: LabeledFieldView<InputTextView>;
+
+	/**
+	 * The Save button view.
+	 */
+	public saveButtonView: ButtonView;
+
+	/**
+	 * The Cancel button view.
+	 */
+	public cancelButtonView: ButtonView;
+
+	/**
+	 * A collection of views that can be focused in the form.
+	 */
+	private readonly _focusables: ViewCollection;
+
+	/**
+	 * Helps cycling over {@link #_focusables} in the form.
+	 */
+	private readonly _focusCycler: FocusCycler;
+
+	/**
+	 * An array of form validators used by {@link #isValid}.
+	 */
+	private readonly _validators: Array<( v: BookmarkFormView ) => string | undefined>;
+
+	/**
+	 * @param validators Form validators used by {@link #isValid}.
+	 * @param locale The localization services instance.
+	 */
+	constructor( validators: Array<( v: BookmarkFormView ) => string | undefined>, locale: Locale ) {
+		super( locale );
+
+		const t = locale.t;
+
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+
+		this.idInputView = new LabeledFieldView( locale, createLabeledInputText );
+		this.idInputView.label = t( 'Bookmark name' );
+		this.idInputView.infoText = t( 'Enter the bookmark name without spaces.' );
+
+		this.saveButtonView = this._createButton( t( 'Save' ), icons.check, 'ck-button-save' );
+		this.saveButtonView.type = 'submit';
+
+		this.cancelButtonView = this._createButton( t( 'Cancel' ), icons.cancel, 'ck-button-cancel', 'cancel' );
+
+		this._focusables = new ViewCollection();
+
+		this._focusCycler = new FocusCycler( {
+			focusables: this._focusables,
+			focusTracker: this.focusTracker,
+			keystrokeHandler: this.keystrokes,
+			actions: {
+				// Navigate form fields backwards using the <kbd>Shift</kbd> + <kbd>Tab</kbd> keystroke.
+				focusPrevious: 'shift + tab',
+
+				// Navigate form fields forwards using the <kbd>Tab</kbd> key.
+				focusNext: 'tab'
+			}
+		} );
+
+		this._validators = validators;
+
+		this.setTemplate( {
+			tag: 'form',
+
+			attributes: {
+				class: [
+					'ck',
+					'ck-bookmark-form',
+					'ck-responsive-form'
+				],
+
+				tabindex: '-1'
+			},
+
+			children: [
+				this.idInputView,
+				this.saveButtonView,
+				this.cancelButtonView
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		submitHandler( {
+			view: this
+		} );
+
+		const childViews = [
+			this.idInputView,
+			this.saveButtonView,
+			this.cancelButtonView
+		];
+
+		childViews.forEach( v => {
+			// Register the view as focusable.
+			this._focusables.add( v );
+
+			// Register the view in the focus tracker.
+			this.focusTracker.add( v.element! );
+		} );
+
+		// Start listening for the keystrokes coming from #element.
+		this.keystrokes.listenTo( this.element! );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Focuses the fist {@link #_focusables} in the form.
+	 */
+	public focus(): void {
+		this._focusCycler.focusFirst();
+	}
+
+	/**
+	 * The native DOM `value` of the {@link #idInputView} element.
+	 */
+	public get id(): string {
+		return this.idInputView.fieldView.element!.value.trim();
+	}
+
+	/**
+	 * Validates the form and returns `false` when some fields are invalid.
+	 */
+	public isValid(): boolean {
+		this.resetFormStatus();
+
+		for ( const validator of this._validators ) {
+			const errorText = validator( this );
+
+			// One error per field is enough.
+			if ( errorText ) {
+				this.idInputView.errorText = errorText;
+
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Cleans up the error text of the {@link #idInputView}.
+	 *
+	 * See {@link #isValid}.
+	 */
+	public resetFormStatus(): void {
+		this.idInputView.errorText = null;
+	}
+
+	/**
+	 * Creates a button view.
+	 *
+	 * @param label The button label.
+	 * @param icon The button icon.
+	 * @param className The additional button CSS class name.
+	 * @param eventName An event name that the `ButtonView#execute` event will be delegated to.
+	 * @returns The button view instance.
+	 */
+	private _createButton( label: string, icon: string, className: string, eventName?: string ): ButtonView {
+		const button = new ButtonView( this.locale );
+
+		button.set( {
+			label,
+			icon,
+			tooltip: true
+		} );
+
+		button.extendTemplate( {
+			attributes: {
+				class: className
+			}
+		} );
+
+		if ( eventName ) {
+			button.delegate( 'execute' ).to( this, eventName );
+		}
+
+		return button;
+	}
+}
+
+/**
+ * Fired when the form view is submitted (when one of the children triggered the submit event),
+ * for example with a click on {@link ~BookmarkFormView#saveButtonView}.
+ *
+ * @eventName ~BookmarkFormView#submit
+ */
+export type BookmarkFormSubmitEvent = {
+	name: 'submit';
+	args: [];
+};
+
+/**
+ * Fired when the form view is canceled, for example with a click on {@link ~BookmarkFormView#cancelButtonView}.
+ *
+ * @eventName ~BookmarkFormView#cancel
+ */
+export type BookmarkFormCancelEvent = {
+	name: 'cancel';
+	args: [];
+};
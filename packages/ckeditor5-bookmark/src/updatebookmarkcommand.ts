@@ -0,0 +1,88 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module bookmark/updatebookmarkcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Element } from 'ckeditor5/src/engine';
+import { logWarning } from 'ckeditor5/src/utils';
+
+import { isBookmarkIdValid } from './utils';
+
+/**
+ * The update bookmark command.
+ *
+ * The command is registered by {@link module:bookmark/bookmarkediting~BookmarkEditing} as `'updateBookmark'`.
+ *
+ * It changes the id of the selected bookmark:
+ *
+ * ```ts
+ * editor.execute( 'updateBookmark', { bookmarkId: 'chapter-2' } );
+ * ```
+ *
+ * The id must not be empty, must not contain spaces and must not be used by another bookmark in the document.
+ */
+export default class UpdateBookmarkCommand extends Command {
+	/**
+	 * The id of the selected bookmark or `undefined` when no bookmark is selected.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: string | undefined;
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const bookmark = this._getSelectedBookmark();
+
+		this.isEnabled = !!bookmark;
+		this.value = bookmark ? bookmark.getAttribute( 'bookmarkId' ) as string : undefined;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Options for the executed command.
+	 * @param options.bookmarkId The new id of the selected bookmark.
+	 * @fires execute
+	 */
+	public override execute( { bookmarkId }: { bookmarkId: string } ): void {
+		const editor = this.editor;
+		const bookmark = this._getSelectedBookmark()!;
+
+		if ( bookmarkId == this.value ) {
+			return;
+		}
+
+		if ( !isBookmarkIdValid( bookmarkId ) || editor.plugins.get( 'BookmarkEditing' ).hasBookmark( bookmarkId ) ) {
+			/**
+			 * The update bookmark command can be executed only with the id that is not empty, does not contain spaces
+			 * and is not used by another bookmark.
+			 *
+			 * @error update-bookmark-command-executed-with-invalid-id
+			 */
+			logWarning( 'update-bookmark-command-executed-with-invalid-id', { bookmarkId } );
+
+			return;
+		}
+
+		editor.model.change( writer => {
+			writer.setAttribute( 'bookmarkId', bookmarkId, bookmark );
+		} );
+	}
+
+	/**
+	 * Returns the selected bookmark element, if any.
+	 */
+	private _getSelectedBookmark(): Element | null {
+		const element = this.editor.model.document.selection.getSelectedElement();
+
+		return element && element.is( 'element', 'bookmark' ) ? element : null;
+	}
+}
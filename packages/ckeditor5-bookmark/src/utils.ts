@@ -0,0 +1,41 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module bookmark/utils
+ */
+
+import type { ViewDocumentSelection, ViewElement } from 'ckeditor5/src/engine';
+import { isWidget } from 'ckeditor5/src/widget';
+
+/**
+ * Checks whether the given string can be used as the id of a bookmark: it must not be empty and must not contain
+ * any space characters, so the bookmark can be referenced by a link, for instance `#chapter-1`.
+ *
+ * The uniqueness of the id is checked by {@link module:bookmark/bookmarkediting~BookmarkEditing#hasBookmark}.
+ */
+export function isBookmarkIdValid( id: string ): boolean {
+	return !!id && !/\s/.test( id );
+}
+
+/**
+ * Returns the bookmark widget when it is the selected element, `null` otherwise.
+ */
+export function getSelectedBookmarkWidget( selection: ViewDocumentSelection ): ViewElement | null {
+	const viewElement = selection.getSelectedElement();
+
+	if ( viewElement && isBookmarkWidget( viewElement ) ) {
+		return viewElement;
+	}
+
+	return null;
+}
+
+/**
+ * Checks if the given view element is a bookmark widget.
+ */
+export function isBookmarkWidget( viewElement: ViewElement ): boolean {
+	return !!viewElement.getCustomProperty( 'bookmark' ) && isWidget( viewElement );
+}
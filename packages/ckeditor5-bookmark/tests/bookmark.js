@@ -0,0 +1,20 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { Widget } from '@ckeditor/ckeditor5-widget';
+
+import Bookmark from '../src/bookmark';
+import BookmarkEditing from '../src/bookmarkediting';
+import BookmarkUI from '../src/bookmarkui';
+
+describe( 'Bookmark', () => {
+	it( 'should be correctly named', () => {
+		expect( Bookmark.pluginName ).to.equal( 'Bookmark' );
+	} );
+
+	it( 'should require BookmarkEditing, BookmarkUI and Widget', () => {
+		expect( Bookmark.requires ).to.deep.equal( [ BookmarkEditing, BookmarkUI, Widget ] );
+	} );
+} );
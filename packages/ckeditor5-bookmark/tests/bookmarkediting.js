@@ -0,0 +1,194 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { getData as getViewData } from '@ckeditor/ckeditor5-engine/src/dev-utils/view';
+
+import BookmarkEditing from '../src/bookmarkediting';
+import InsertBookmarkCommand from '../src/insertbookmarkcommand';
+import UpdateBookmarkCommand from '../src/updatebookmarkcommand';
+
+describe( 'BookmarkEditing', () => {
+	let editor, model, plugin;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, BoldEditing, BookmarkEditing ]
+		} );
+
+		model = editor.model;
+		plugin = editor.plugins.get( BookmarkEditing );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( BookmarkEditing.pluginName ).to.equal( 'BookmarkEditing' );
+	} );
+
+	it( 'should register the commands', () => {
+		expect( editor.commands.get( 'insertBookmark' ) ).to.be.instanceOf( InsertBookmarkCommand );
+		expect( editor.commands.get( 'updateBookmark' ) ).to.be.instanceOf( UpdateBookmarkCommand );
+	} );
+
+	describe( 'schema', () => {
+		it( 'should allow the bookmark where the text is allowed', () => {
+			expect( model.schema.checkChild( [ '$root', 'paragraph' ], 'bookmark' ) ).to.be.true;
+			expect( model.schema.checkChild( [ '$root' ], 'bookmark' ) ).to.be.false;
+		} );
+
+		it( 'should register the bookmark as an inline object', () => {
+			expect( model.schema.isObject( 'bookmark' ) ).to.be.true;
+			expect( model.schema.isInline( 'bookmark' ) ).to.be.true;
+		} );
+
+		it( 'should allow the "bookmarkId" attribute but not the text attributes', () => {
+			expect( model.schema.checkAttribute( [ '$root', 'paragraph', 'bookmark' ], 'bookmarkId' ) ).to.be.true;
+			expect( model.schema.checkAttribute( [ '$root', 'paragraph', 'bookmark' ], 'bold' ) ).to.be.false;
+		} );
+	} );
+
+	describe( 'upcast', () => {
+		it( 'should convert the empty anchor with an id', () => {
+			editor.setData( '<p>foo<a id="chapter-1"></a>bar</p>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>foo<bookmark bookmarkId="chapter-1"></bookmark>bar</paragraph>'
+			);
+		} );
+
+		it( 'should keep the content of the anchor after the bookmark', () => {
+			editor.setData( '<p><a id="chapter-1">foo <strong>bar</strong></a></p>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph><bookmark bookmarkId="chapter-1"></bookmark>foo <$text bold="true">bar</$text></paragraph>'
+			);
+		} );
+
+		it( 'should wrap the anchor placed directly in the root in a paragraph', () => {
+			editor.setData( '<a id="chapter-1"></a>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph><bookmark bookmarkId="chapter-1"></bookmark></paragraph>'
+			);
+		} );
+
+		it( 'should not convert the anchor with the href attribute', () => {
+			editor.setData( '<p><a id="chapter-1" href="https://example.com">foo</a></p>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<paragraph>foo</paragraph>' );
+		} );
+
+		it( 'should not convert the anchor without an id', () => {
+			editor.setData( '<p><a>foo</a></p>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<paragraph>foo</paragraph>' );
+		} );
+
+		it( 'should not convert the anchor when its id was already consumed', () => {
+			editor.conversion.for( 'upcast' ).add( dispatcher => {
+				dispatcher.on( 'element:a', ( evt, data, conversionApi ) => {
+					conversionApi.consumable.consume( data.viewItem, { attributes: 'id' } );
+				}, { priority: 'highest' } );
+			} );
+
+			editor.setData( '<p>foo<a id="chapter-1"></a></p>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<paragraph>foo</paragraph>' );
+		} );
+	} );
+
+	describe( 'data downcast', () => {
+		it( 'should output the empty anchor with the id', () => {
+			setModelData( model, '<paragraph>foo<bookmark bookmarkId="chapter-1"></bookmark>bar</paragraph>' );
+
+			expect( editor.getData() ).to.equal( '<p>foo<a id="chapter-1"></a>bar</p>' );
+		} );
+
+		it( 'should output the changed id', () => {
+			setModelData( model, '<paragraph>[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+
+			editor.execute( 'updateBookmark', { bookmarkId: 'chapter-2' } );
+
+			expect( editor.getData() ).to.equal( '<p><a id="chapter-2"></a></p>' );
+		} );
+	} );
+
+	describe( 'editing downcast', () => {
+		it( 'should display the bookmark as an inline widget with an icon', () => {
+			setModelData( model, '<paragraph>foo<bookmark bookmarkId="chapter-1"></bookmark></paragraph>' );
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p>foo<span class="ck-bookmark ck-widget" contenteditable="false" title="chapter-1">' +
+					'<span class="ck-bookmark__icon"></span>' +
+				'</span></p>'
+			);
+		} );
+
+		it( 'should mark the widget as the bookmark and set its accessible label', () => {
+			setModelData( model, '<paragraph><bookmark bookmarkId="chapter-1"></bookmark></paragraph>' );
+
+			const viewElement = editor.editing.view.document.getRoot().getChild( 0 ).getChild( 0 );
+
+			expect( viewElement.getCustomProperty( 'bookmark' ) ).to.be.true;
+			expect( viewElement.getCustomProperty( 'widgetLabel' ) ).to.deep.equal( [ 'Bookmark: chapter-1' ] );
+		} );
+
+		it( 'should update the widget when the id changes', () => {
+			setModelData( model, '<paragraph>[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+
+			editor.execute( 'updateBookmark', { bookmarkId: 'chapter-2' } );
+
+			const viewElement = editor.editing.view.document.getRoot().getChild( 0 ).getChild( 0 );
+
+			expect( viewElement.getAttribute( 'title' ) ).to.equal( 'chapter-2' );
+		} );
+	} );
+
+	describe( 'getBookmarkIds()', () => {
+		it( 'should return the ids of the bookmarks in the order of their appearance', () => {
+			setModelData( model,
+				'<paragraph><bookmark bookmarkId="b"></bookmark>foo<bookmark bookmarkId="a"></bookmark></paragraph>' +
+				'<paragraph><bookmark bookmarkId="c"></bookmark></paragraph>'
+			);
+
+			expect( plugin.getBookmarkIds() ).to.deep.equal( [ 'b', 'a', 'c' ] );
+		} );
+
+		it( 'should return an empty array when there are no bookmarks', () => {
+			setModelData( model, '<paragraph>foo</paragraph>' );
+
+			expect( plugin.getBookmarkIds() ).to.deep.equal( [] );
+		} );
+
+		it( 'should return the bookmarks from all roots', () => {
+			setModelData( model, '<paragraph><bookmark bookmarkId="a"></bookmark></paragraph>' );
+
+			model.change( writer => {
+				const root = writer.addRoot( 'second' );
+				const paragraph = writer.createElement( 'paragraph' );
+
+				writer.insert( paragraph, root, 0 );
+				writer.insertElement( 'bookmark', { bookmarkId: 'b' }, paragraph, 0 );
+			} );
+
+			expect( plugin.getBookmarkIds() ).to.deep.equal( [ 'a', 'b' ] );
+		} );
+	} );
+
+	describe( 'hasBookmark()', () => {
+		it( 'should check whether the bookmark exists', () => {
+			setModelData( model, '<paragraph><bookmark bookmarkId="chapter-1"></bookmark></paragraph>' );
+
+			expect( plugin.hasBookmark( 'chapter-1' ) ).to.be.true;
+			expect( plugin.hasBookmark( 'chapter-2' ) ).to.be.false;
+		} );
+	} );
+} );
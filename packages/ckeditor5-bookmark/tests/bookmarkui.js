@@ -0,0 +1,423 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Event */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import ContextualBalloon from '@ckeditor/ckeditor5-ui/src/panel/balloon/contextualballoon';
+import ButtonView from '@ckeditor/ckeditor5-ui/src/button/buttonview';
+import DropdownView from '@ckeditor/ckeditor5-ui/src/dropdown/dropdownview';
+import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
+import { Widget, WidgetToolbarRepository } from '@ckeditor/ckeditor5-widget';
+import { LinkEditing, LinkUI } from '@ckeditor/ckeditor5-link';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import BookmarkEditing from '../src/bookmarkediting';
+import BookmarkUI from '../src/bookmarkui';
+import BookmarkFormView from '../src/ui/bookmarkformview';
+
+describe( 'BookmarkUI', () => {
+	let editor, model, element, plugin, balloon;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, Widget, BookmarkEditing, BookmarkUI, LinkEditing, LinkUI ]
+		} );
+
+		model = editor.model;
+		plugin = editor.plugins.get( BookmarkUI );
+		balloon = editor.plugins.get( ContextualBalloon );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( BookmarkUI.pluginName ).to.equal( 'BookmarkUI' );
+	} );
+
+	it( 'should require BookmarkEditing, ContextualBalloon and WidgetToolbarRepository', () => {
+		expect( BookmarkUI.requires ).to.deep.equal( [ BookmarkEditing, ContextualBalloon, WidgetToolbarRepository ] );
+	} );
+
+	it( 'should define the default toolbar configuration', () => {
+		expect( editor.config.get( 'bookmark.toolbar' ) ).to.deep.equal( [ 'editBookmark', 'removeBookmark' ] );
+	} );
+
+	it( 'should register the bookmark toolbar', () => {
+		const toolbarRepository = editor.plugins.get( WidgetToolbarRepository );
+
+		expect( toolbarRepository._toolbarDefinitions.has( 'bookmark' ) ).to.be.true;
+	} );
+
+	describe( 'the "bookmark" button', () => {
+		let button;
+
+		beforeEach( () => {
+			button = editor.ui.componentFactory.create( 'bookmark' );
+		} );
+
+		it( 'should be registered in the component factory', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.label ).to.equal( 'Bookmark' );
+			expect( button.icon ).to.match( /<svg / );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should be enabled when any of the commands is enabled', () => {
+			const insertCommand = editor.commands.get( 'insertBookmark' );
+			const updateCommand = editor.commands.get( 'updateBookmark' );
+
+			insertCommand.isEnabled = true;
+			updateCommand.isEnabled = false;
+			expect( button.isEnabled ).to.be.true;
+
+			insertCommand.isEnabled = false;
+			updateCommand.isEnabled = true;
+			expect( button.isEnabled ).to.be.true;
+
+			updateCommand.isEnabled = false;
+			expect( button.isEnabled ).to.be.false;
+		} );
+
+		it( 'should show the empty form on execute', () => {
+			setModelData( model, '<paragraph>foo[]</paragraph>' );
+
+			button.fire( 'execute' );
+
+			expect( balloon.visibleView ).to.be.instanceOf( BookmarkFormView );
+			expect( balloon.visibleView.idInputView.fieldView.element.value ).to.equal( '' );
+		} );
+
+		it( 'should show the form with the id of the selected bookmark on execute', () => {
+			setModelData( model, '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+
+			button.fire( 'execute' );
+
+			expect( balloon.visibleView.idInputView.fieldView.element.value ).to.equal( 'chapter-1' );
+		} );
+
+		it( 'should not show the form twice', () => {
+			setModelData( model, '<paragraph>foo[]</paragraph>' );
+
+			button.fire( 'execute' );
+			button.fire( 'execute' );
+
+			expect( balloon.visibleView ).to.be.instanceOf( BookmarkFormView );
+		} );
+	} );
+
+	describe( 'the "editBookmark" button', () => {
+		let button;
+
+		beforeEach( () => {
+			button = editor.ui.componentFactory.create( 'editBookmark' );
+		} );
+
+		it( 'should be registered in the component factory', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.label ).to.equal( 'Edit bookmark' );
+		} );
+
+		it( 'should be bound to the "updateBookmark" command', () => {
+			setModelData( model, '<paragraph>foo[]<bookmark bookmarkId="chapter-1"></bookmark></paragraph>' );
+			expect( button.isEnabled ).to.be.false;
+
+			setModelData( model, '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+			expect( button.isEnabled ).to.be.true;
+		} );
+
+		it( 'should show the form on execute', () => {
+			setModelData( model, '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+
+			button.fire( 'execute' );
+
+			expect( balloon.visibleView ).to.be.instanceOf( BookmarkFormView );
+			expect( balloon.visibleView.idInputView.fieldView.element.value ).to.equal( 'chapter-1' );
+		} );
+	} );
+
+	describe( 'the "removeBookmark" button', () => {
+		let button;
+
+		beforeEach( () => {
+			button = editor.ui.componentFactory.create( 'removeBookmark' );
+		} );
+
+		it( 'should be registered in the component factory', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.label ).to.equal( 'Remove bookmark' );
+		} );
+
+		it( 'should be bound to the "updateBookmark" command', () => {
+			setModelData( model, '<paragraph>foo[]</paragraph>' );
+			expect( button.isEnabled ).to.be.false;
+
+			setModelData( model, '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+			expect( button.isEnabled ).to.be.true;
+		} );
+
+		it( 'should remove the selected bookmark and focus the editing view', () => {
+			const spy = sinon.spy( editor.editing.view, 'focus' );
+
+			setModelData( model, '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+
+			button.fire( 'execute' );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>foo[]</paragraph>' );
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'form', () => {
+		let form;
+
+		function showForm( data ) {
+			setModelData( model, data );
+			editor.ui.componentFactory.create( 'bookmark' ).fire( 'execute' );
+			form = plugin._form;
+		}
+
+		function submit( id ) {
+			form.idInputView.fieldView.element.value = id;
+			form.fire( 'submit' );
+		}
+
+		it( 'should insert the bookmark on submit', () => {
+			showForm( '<paragraph>foo[]</paragraph>' );
+			submit( 'chapter-1' );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+			expect( balloon.hasView( form ) ).to.be.false;
+		} );
+
+		it( 'should rename the selected bookmark on submit', () => {
+			showForm( '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+			submit( 'chapter-2' );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>foo[<bookmark bookmarkId="chapter-2"></bookmark>]</paragraph>' );
+			expect( balloon.hasView( form ) ).to.be.false;
+		} );
+
+		it( 'should keep the name of the selected bookmark on submit', () => {
+			showForm( '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+			submit( 'chapter-1' );
+
+			expect( form.idInputView.errorText ).to.be.null;
+			expect( balloon.hasView( form ) ).to.be.false;
+		} );
+
+		it( 'should focus the editing view after submit', () => {
+			const spy = sinon.spy( editor.editing.view, 'focus' );
+
+			showForm( '<paragraph>foo[]</paragraph>' );
+			submit( 'chapter-1' );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should not accept the empty name', () => {
+			showForm( '<paragraph>foo[]</paragraph>' );
+			submit( '  ' );
+
+			expect( form.idInputView.errorText ).to.equal( 'Bookmark must not be empty.' );
+			expect( getModelData( model ) ).to.equal( '<paragraph>foo[]</paragraph>' );
+			expect( balloon.visibleView ).to.equal( form );
+		} );
+
+		it( 'should not accept the name with spaces', () => {
+			showForm( '<paragraph>foo[]</paragraph>' );
+			submit( 'chapter 1' );
+
+			expect( form.idInputView.errorText ).to.equal( 'Bookmark name cannot contain space characters.' );
+			expect( balloon.visibleView ).to.equal( form );
+		} );
+
+		it( 'should not accept the name of another bookmark', () => {
+			showForm( '<paragraph><bookmark bookmarkId="chapter-1"></bookmark>foo[]</paragraph>' );
+			submit( 'chapter-1' );
+
+			expect( form.idInputView.errorText ).to.equal( 'Bookmark name already exists.' );
+			expect( balloon.visibleView ).to.equal( form );
+		} );
+
+		it( 'should reset the error when the form is shown again', () => {
+			showForm( '<paragraph>foo[]</paragraph>' );
+			submit( '' );
+
+			form.fire( 'cancel' );
+			editor.ui.componentFactory.create( 'bookmark' ).fire( 'execute' );
+
+			expect( form.idInputView.errorText ).to.be.null;
+		} );
+
+		it( 'should be hidden on cancel', () => {
+			showForm( '<paragraph>foo[]</paragraph>' );
+
+			form.fire( 'cancel' );
+
+			expect( balloon.hasView( form ) ).to.be.false;
+		} );
+
+		it( 'should be hidden on Esc', () => {
+			const keyEvtData = {
+				keyCode: keyCodes.esc,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			showForm( '<paragraph>foo[]</paragraph>' );
+
+			form.keystrokes.press( keyEvtData );
+
+			expect( balloon.hasView( form ) ).to.be.false;
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+		} );
+
+		it( 'should be hidden on click outside', () => {
+			showForm( '<paragraph>foo[]</paragraph>' );
+
+			document.body.dispatchEvent( new Event( 'mousedown', { bubbles: true } ) );
+
+			expect( balloon.hasView( form ) ).to.be.false;
+		} );
+
+		it( 'should be repositioned on the editor UI update', () => {
+			showForm( '<paragraph>foo[]</paragraph>' );
+
+			const spy = sinon.spy( balloon, 'updatePosition' );
+
+			editor.ui.fire( 'update' );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should be destroyed with the plugin', () => {
+			showForm( '<paragraph>foo[]</paragraph>' );
+
+			const spy = sinon.spy( form, 'destroy' );
+
+			plugin.destroy();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'link form integration', () => {
+		let linkUI, linkFormView, dropdownView;
+
+		beforeEach( () => {
+			linkUI = editor.plugins.get( LinkUI );
+
+			setModelData( model,
+				'<paragraph><bookmark bookmarkId="chapter-1"></bookmark>foo</paragraph>' +
+				'<paragraph><bookmark bookmarkId="chapter-2"></bookmark>b[a]r</paragraph>'
+			);
+
+			linkUI._showUI( true );
+
+			linkFormView = linkUI.formView;
+			dropdownView = linkFormView.children.get( 1 );
+		} );
+
+		it( 'should add the bookmarks dropdown to the link form after the URL input', () => {
+			expect( dropdownView ).to.be.instanceOf( DropdownView );
+			expect( dropdownView.buttonView.label ).to.equal( 'Bookmarks' );
+			expect( dropdownView.buttonView.tooltip ).to.equal( 'Link to a bookmark' );
+			expect( dropdownView.element.classList.contains( 'ck-bookmark-link-dropdown' ) ).to.be.true;
+		} );
+
+		it( 'should bind the dropdown #isEnabled to the URL input', () => {
+			linkFormView.urlInputView.isEnabled = false;
+			expect( dropdownView.isEnabled ).to.be.false;
+
+			linkFormView.urlInputView.isEnabled = true;
+			expect( dropdownView.isEnabled ).to.be.true;
+		} );
+
+		it( 'should list the bookmarks of the document when opened', () => {
+			dropdownView.isOpen = true;
+
+			const labels = Array.from( dropdownView.listView.items ).map( item => item.children.first.label );
+
+			expect( labels ).to.deep.equal( [ 'chapter-1', 'chapter-2' ] );
+		} );
+
+		it( 'should refresh the list of the bookmarks when opened again', () => {
+			dropdownView.isOpen = true;
+			dropdownView.isOpen = false;
+
+			model.change( writer => {
+				writer.insertElement( 'bookmark', { bookmarkId: 'chapter-3' }, model.document.getRoot().getChild( 0 ), 'end' );
+			} );
+
+			dropdownView.isOpen = true;
+
+			const labels = Array.from( dropdownView.listView.items ).map( item => item.children.first.label );
+
+			expect( labels ).to.deep.equal( [ 'chapter-1', 'chapter-3', 'chapter-2' ] );
+		} );
+
+		it( 'should display a disabled item when there are no bookmarks', () => {
+			model.change( writer => {
+				writer.remove( model.document.getRoot().getChild( 0 ).getChild( 0 ) );
+				writer.remove( model.document.getRoot().getChild( 1 ).getChild( 0 ) );
+			} );
+
+			dropdownView.isOpen = true;
+
+			const buttonView = dropdownView.listView.items.first.children.first;
+
+			expect( dropdownView.listView.items.length ).to.equal( 1 );
+			expect( buttonView.label ).to.equal( 'No bookmarks available' );
+			expect( buttonView.isEnabled ).to.be.false;
+		} );
+
+		it( 'should fill in the link URL with the chosen bookmark', () => {
+			const spy = sinon.spy( linkFormView.urlInputView, 'focus' );
+
+			dropdownView.isOpen = true;
+			dropdownView.listView.items.get( 1 ).children.first.fire( 'execute' );
+
+			expect( linkFormView.urlInputView.fieldView.element.value ).to.equal( '#chapter-2' );
+			expect( dropdownView.isOpen ).to.be.false;
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should link to the chosen bookmark on submit', () => {
+			dropdownView.isOpen = true;
+			dropdownView.listView.items.get( 0 ).children.first.fire( 'execute' );
+
+			linkFormView.fire( 'submit' );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph><bookmark bookmarkId="chapter-1"></bookmark>foo</paragraph>' +
+				'<paragraph><bookmark bookmarkId="chapter-2"></bookmark>b[<$text linkHref="#chapter-1">a</$text>]r</paragraph>'
+			);
+		} );
+	} );
+
+	describe( 'without the link UI', () => {
+		it( 'should not require the link feature', async () => {
+			const editor = await ClassicTestEditor.create( element, {
+				plugins: [ Paragraph, Widget, BookmarkEditing, BookmarkUI ]
+			} );
+
+			expect( editor.plugins.has( 'LinkUI' ) ).to.be.false;
+
+			await editor.destroy();
+		} );
+	} );
+} );
@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	Bookmark as BookmarkDLL,
+	BookmarkEditing as BookmarkEditingDLL,
+	BookmarkUI as BookmarkUIDLL,
+	InsertBookmarkCommand as InsertBookmarkCommandDLL,
+	UpdateBookmarkCommand as UpdateBookmarkCommandDLL
+} from '../src';
+import Bookmark from '../src/bookmark';
+import BookmarkEditing from '../src/bookmarkediting';
+import BookmarkUI from '../src/bookmarkui';
+import InsertBookmarkCommand from '../src/insertbookmarkcommand';
+import UpdateBookmarkCommand from '../src/updatebookmarkcommand';
+
+describe( 'Bookmark DLL', () => {
+	it( 'exports Bookmark', () => {
+		expect( BookmarkDLL ).to.equal( Bookmark );
+	} );
+
+	it( 'exports BookmarkEditing', () => {
+		expect( BookmarkEditingDLL ).to.equal( BookmarkEditing );
+	} );
+
+	it( 'exports BookmarkUI', () => {
+		expect( BookmarkUIDLL ).to.equal( BookmarkUI );
+	} );
+
+	it( 'exports InsertBookmarkCommand', () => {
+		expect( InsertBookmarkCommandDLL ).to.equal( InsertBookmarkCommand );
+	} );
+
+	it( 'exports UpdateBookmarkCommand', () => {
+		expect( UpdateBookmarkCommandDLL ).to.equal( UpdateBookmarkCommand );
+	} );
+} );
@@ -0,0 +1,96 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global console */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import BookmarkEditing from '../src/bookmarkediting';
+
+describe( 'InsertBookmarkCommand', () => {
+	let editor, model, command;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, BookmarkEditing ]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'insertBookmark' );
+
+		model.schema.register( 'codeLine', { inheritAllFrom: '$block' } );
+		editor.conversion.elementToElement( { model: 'codeLine', view: 'pre' } );
+		model.schema.addChildCheck( ( context, childDefinition ) => {
+			if ( context.endsWith( 'codeLine' ) && childDefinition.name == 'bookmark' ) {
+				return false;
+			}
+		} );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true when the bookmark is allowed at the selection', () => {
+			setModelData( model, '<paragraph>foo[]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when the bookmark is not allowed at the selection', () => {
+			setModelData( model, '<codeLine>foo[]</codeLine>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should insert the bookmark at the selection and select it', () => {
+			setModelData( model, '<paragraph>foo[]bar</paragraph>' );
+
+			command.execute( { bookmarkId: 'chapter-1' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]bar</paragraph>' );
+		} );
+
+		it( 'should insert the bookmark at the beginning of the non-collapsed selection without removing the content', () => {
+			setModelData( model, '<paragraph>f[oo]</paragraph>' );
+
+			command.execute( { bookmarkId: 'chapter-1' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>f[<bookmark bookmarkId="chapter-1"></bookmark>]oo</paragraph>' );
+		} );
+
+		it( 'should not insert the bookmark with an invalid id', () => {
+			const warnStub = testUtils.sinon.stub( console, 'warn' );
+
+			setModelData( model, '<paragraph>foo[]</paragraph>' );
+
+			command.execute( { bookmarkId: 'chapter 1' } );
+			command.execute( { bookmarkId: '' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>foo[]</paragraph>' );
+			sinon.assert.calledTwice( warnStub );
+			expect( warnStub.firstCall.args[ 0 ] ).to.match( /^insert-bookmark-command-executed-with-invalid-id/ );
+		} );
+
+		it( 'should not insert the bookmark with an id used by another bookmark', () => {
+			const warnStub = testUtils.sinon.stub( console, 'warn' );
+
+			setModelData( model, '<paragraph><bookmark bookmarkId="chapter-1"></bookmark>foo[]</paragraph>' );
+
+			command.execute( { bookmarkId: 'chapter-1' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph><bookmark bookmarkId="chapter-1"></bookmark>foo[]</paragraph>' );
+			sinon.assert.calledOnce( warnStub );
+		} );
+	} );
+} );
@@ -0,0 +1,166 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global Event, document */
+
+import ButtonView from '@ckeditor/ckeditor5-ui/src/button/buttonview';
+import LabeledFieldView from '@ckeditor/ckeditor5-ui/src/labeledfield/labeledfieldview';
+import KeystrokeHandler from '@ckeditor/ckeditor5-utils/src/keystrokehandler';
+import FocusTracker from '@ckeditor/ckeditor5-utils/src/focustracker';
+import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import BookmarkFormView from '../../src/ui/bookmarkformview';
+
+describe( 'BookmarkFormView', () => {
+	let view, validators;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( () => {
+		validators = [];
+		view = new BookmarkFormView( validators, { t: val => val } );
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create the element from the template', () => {
+			expect( view.element.tagName ).to.equal( 'FORM' );
+			expect( view.element.classList.contains( 'ck-bookmark-form' ) ).to.true;
+			expect( view.element.classList.contains( 'ck-responsive-form' ) ).to.true;
+			expect( view.element.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+		} );
+
+		it( 'should create the child views', () => {
+			expect( view.idInputView ).to.be.instanceOf( LabeledFieldView );
+			expect( view.idInputView.label ).to.equal( 'Bookmark name' );
+			expect( view.saveButtonView ).to.be.instanceOf( ButtonView );
+			expect( view.saveButtonView.type ).to.equal( 'submit' );
+			expect( view.cancelButtonView ).to.be.instanceOf( ButtonView );
+
+			expect( view.element.childNodes[ 0 ] ).to.equal( view.idInputView.element );
+			expect( view.element.childNodes[ 1 ] ).to.equal( view.saveButtonView.element );
+			expect( view.element.childNodes[ 2 ] ).to.equal( view.cancelButtonView.element );
+		} );
+
+		it( 'should create #focusTracker and #keystrokes instances', () => {
+			expect( view.focusTracker ).to.be.instanceOf( FocusTracker );
+			expect( view.keystrokes ).to.be.instanceOf( KeystrokeHandler );
+		} );
+
+		it( 'should fire the "cancel" event on cancelButtonView#execute', () => {
+			const spy = sinon.spy();
+
+			view.on( 'cancel', spy );
+			view.cancelButtonView.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'render()', () => {
+		it( 'should fire the "submit" event when the form is submitted', () => {
+			const spy = sinon.spy();
+
+			view.on( 'submit', spy );
+			view.element.dispatchEvent( new Event( 'submit' ) );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should register the child views in #focusTracker', () => {
+			const view = new BookmarkFormView( [], { t: val => val } );
+			const spy = sinon.spy( view.focusTracker, 'add' );
+
+			view.render();
+
+			sinon.assert.calledWithExactly( spy, view.idInputView.element );
+			sinon.assert.calledWithExactly( spy, view.saveButtonView.element );
+			sinon.assert.calledWithExactly( spy, view.cancelButtonView.element );
+
+			view.destroy();
+		} );
+
+		it( 'should focus the next focusable view on "tab"', () => {
+			const keyEvtData = {
+				keyCode: keyCodes.tab,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			view.focusTracker.isFocused = true;
+			view.focusTracker.focusedElement = view.idInputView.element;
+
+			const spy = sinon.spy( view.saveButtonView, 'focus' );
+
+			view.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the #idInputView', () => {
+			const spy = sinon.spy( view.idInputView, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'id', () => {
+		it( 'should return the trimmed value of the input', () => {
+			view.idInputView.fieldView.element.value = '  chapter-1 ';
+
+			expect( view.id ).to.equal( 'chapter-1' );
+		} );
+	} );
+
+	describe( 'isValid()', () => {
+		it( 'should return true when all validators pass', () => {
+			validators.push( () => undefined );
+
+			expect( view.isValid() ).to.be.true;
+			expect( view.idInputView.errorText ).to.be.null;
+		} );
+
+		it( 'should display the error of the first failing validator', () => {
+			const lastValidator = sinon.spy();
+
+			validators.push( () => undefined, () => 'first error', () => 'second error', lastValidator );
+
+			expect( view.isValid() ).to.be.false;
+			expect( view.idInputView.errorText ).to.equal( 'first error' );
+			sinon.assert.notCalled( lastValidator );
+		} );
+
+		it( 'should pass the form to the validators', () => {
+			const validator = sinon.spy();
+
+			validators.push( validator );
+			view.isValid();
+
+			sinon.assert.calledWithExactly( validator, view );
+		} );
+	} );
+
+	describe( 'resetFormStatus()', () => {
+		it( 'should clear the error', () => {
+			view.idInputView.errorText = 'error';
+
+			view.resetFormStatus();
+
+			expect( view.idInputView.errorText ).to.be.null;
+		} );
+	} );
+} );
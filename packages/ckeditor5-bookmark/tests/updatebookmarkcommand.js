@@ -0,0 +1,98 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global console */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import BookmarkEditing from '../src/bookmarkediting';
+
+describe( 'UpdateBookmarkCommand', () => {
+	let editor, model, command;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, BookmarkEditing ]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'updateBookmark' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	describe( 'isEnabled and value', () => {
+		it( 'should be enabled and have the id of the selected bookmark', () => {
+			setModelData( model, '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.true;
+			expect( command.value ).to.equal( 'chapter-1' );
+		} );
+
+		it( 'should be disabled when no bookmark is selected', () => {
+			setModelData( model, '<paragraph>foo[]<bookmark bookmarkId="chapter-1"></bookmark></paragraph>' );
+
+			expect( command.isEnabled ).to.be.false;
+			expect( command.value ).to.be.undefined;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should change the id of the selected bookmark', () => {
+			setModelData( model, '<paragraph>foo[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+
+			command.execute( { bookmarkId: 'chapter-2' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>foo[<bookmark bookmarkId="chapter-2"></bookmark>]</paragraph>' );
+			expect( command.value ).to.equal( 'chapter-2' );
+		} );
+
+		it( 'should do nothing when the id does not change', () => {
+			const warnStub = testUtils.sinon.stub( console, 'warn' );
+			const spy = sinon.spy();
+
+			setModelData( model, '<paragraph>[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+			model.document.on( 'change', spy );
+
+			command.execute( { bookmarkId: 'chapter-1' } );
+
+			sinon.assert.notCalled( spy );
+			sinon.assert.notCalled( warnStub );
+		} );
+
+		it( 'should not change the id to an invalid one', () => {
+			const warnStub = testUtils.sinon.stub( console, 'warn' );
+
+			setModelData( model, '<paragraph>[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' );
+
+			command.execute( { bookmarkId: 'chapter 2' } );
+
+			expect( command.value ).to.equal( 'chapter-1' );
+			sinon.assert.calledOnce( warnStub );
+			expect( warnStub.firstCall.args[ 0 ] ).to.match( /^update-bookmark-command-executed-with-invalid-id/ );
+		} );
+
+		it( 'should not change the id to the one used by another bookmark', () => {
+			const warnStub = testUtils.sinon.stub( console, 'warn' );
+
+			setModelData( model,
+				'<paragraph>[<bookmark bookmarkId="chapter-1"></bookmark>]</paragraph>' +
+				'<paragraph><bookmark bookmarkId="chapter-2"></bookmark></paragraph>'
+			);
+
+			command.execute( { bookmarkId: 'chapter-2' } );
+
+			expect( command.value ).to.equal( 'chapter-1' );
+			sinon.assert.calledOnce( warnStub );
+		} );
+	} );
+} );
@@ -0,0 +1,80 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import ViewDocument from '@ckeditor/ckeditor5-engine/src/view/document';
+import ViewDowncastWriter from '@ckeditor/ckeditor5-engine/src/view/downcastwriter';
+import { StylesProcessor } from '@ckeditor/ckeditor5-engine/src/view/stylesmap';
+import { toWidget } from '@ckeditor/ckeditor5-widget';
+
+import { getSelectedBookmarkWidget, isBookmarkIdValid, isBookmarkWidget } from '../src/utils';
+
+describe( 'bookmark utils', () => {
+	let writer, viewDocument;
+
+	beforeEach( () => {
+		viewDocument = new ViewDocument( new StylesProcessor() );
+		writer = new ViewDowncastWriter( viewDocument );
+	} );
+
+	describe( 'isBookmarkIdValid()', () => {
+		it( 'should accept the ids without spaces', () => {
+			expect( isBookmarkIdValid( 'chapter-1' ) ).to.be.true;
+			expect( isBookmarkIdValid( 'a' ) ).to.be.true;
+		} );
+
+		it( 'should reject the empty id', () => {
+			expect( isBookmarkIdValid( '' ) ).to.be.false;
+		} );
+
+		it( 'should reject the ids with the space characters', () => {
+			expect( isBookmarkIdValid( 'chapter 1' ) ).to.be.false;
+			expect( isBookmarkIdValid( 'chapter\t1' ) ).to.be.false;
+			expect( isBookmarkIdValid( ' chapter' ) ).to.be.false;
+		} );
+	} );
+
+	describe( 'isBookmarkWidget()', () => {
+		it( 'should return true for the bookmark widget', () => {
+			const element = toWidget( writer.createContainerElement( 'span' ), writer );
+
+			writer.setCustomProperty( 'bookmark', true, element );
+
+			expect( isBookmarkWidget( element ) ).to.be.true;
+		} );
+
+		it( 'should return false for other widgets', () => {
+			expect( isBookmarkWidget( toWidget( writer.createContainerElement( 'span' ), writer ) ) ).to.be.false;
+		} );
+
+		it( 'should return false for the elements that are not widgets', () => {
+			const element = writer.createContainerElement( 'span' );
+
+			writer.setCustomProperty( 'bookmark', true, element );
+
+			expect( isBookmarkWidget( element ) ).to.be.false;
+		} );
+	} );
+
+	describe( 'getSelectedBookmarkWidget()', () => {
+		it( 'should return the selected bookmark widget', () => {
+			const element = toWidget( writer.createContainerElement( 'span' ), writer );
+
+			writer.setCustomProperty( 'bookmark', true, element );
+			writer.insert( writer.createPositionAt( writer.createDocumentFragment(), 0 ), element );
+			writer.setSelection( element, 'on' );
+
+			expect( getSelectedBookmarkWidget( viewDocument.selection ) ).to.equal( element );
+		} );
+
+		it( 'should return null when no bookmark widget is selected', () => {
+			const element = toWidget( writer.createContainerElement( 'span' ), writer );
+
+			writer.insert( writer.createPositionAt( writer.createDocumentFragment(), 0 ), element );
+			writer.setSelection( element, 'on' );
+
+			expect( getSelectedBookmarkWidget( viewDocument.selection ) ).to.be.null;
+		} );
+	} );
+} );
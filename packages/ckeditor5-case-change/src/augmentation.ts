@@ -0,0 +1,34 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	CaseChange,
+	CaseChangeCommand,
+	CaseChangeConfig,
+	CaseChangeEditing,
+	CaseChangeUI
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the {@link module:case-change/casechange~CaseChange case change feature}.
+		 *
+		 * Read more in {@link module:case-change/casechangeconfig~CaseChangeConfig}.
+		 */
+		caseChange?: CaseChangeConfig;
+	}
+
+	interface PluginsMap {
+		[ CaseChange.pluginName ]: CaseChange;
+		[ CaseChangeEditing.pluginName ]: CaseChangeEditing;
+		[ CaseChangeUI.pluginName ]: CaseChangeUI;
+	}
+
+	interface CommandsMap {
+		changeCase: CaseChangeCommand;
+	}
+}
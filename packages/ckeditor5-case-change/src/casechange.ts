@@ -0,0 +1,36 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module case-change/casechange
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import CaseChangeEditing from './casechangeediting';
+import CaseChangeUI from './casechangeui';
+
+/**
+ * The case change feature. It changes the case of the selected text to the upper case, the lower case, the title case
+ * or the sentence case.
+ *
+ * This is a "glue" plugin which loads the {@link module:case-change/casechangeediting~CaseChangeEditing case change editing
+ * feature} and the {@link module:case-change/casechangeui~CaseChangeUI case change UI feature}.
+ */
+export default class CaseChange extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'CaseChange' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ CaseChangeEditing, CaseChangeUI ] as const;
+	}
+}
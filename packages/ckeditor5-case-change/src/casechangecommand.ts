@@ -0,0 +1,281 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module case-change/casechangecommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Element, Position, Range, Writer } from 'ckeditor5/src/engine';
+
+import {
+	BLOCK_SEPARATOR,
+	TEXT_CASES,
+	changeCase,
+	getTextCase,
+	type ChangeCaseOptions,
+	type TextCase
+} from './utils';
+
+/**
+ * The character standing for the inline objects (for instance, the inline images) in the changed text. It separates the words.
+ */
+const OBJECT_REPLACEMENT_CHARACTER = '￼';
+
+/**
+ * The case change command. It is registered by the {@link module:case-change/casechangeediting~CaseChangeEditing} plugin
+ * as `'changeCase'`.
+ *
+ * It changes the case of the selected text, also across many blocks and the boundaries of the text attributes. The attributes
+ * of the text and the markers (for instance, the comments) are preserved.
+ *
+ * ```ts
+ * editor.execute( 'changeCase', { value: 'title' } );
+ * ```
+ *
+ * If the case is not specified, the text is changed to the next case of the
+ * {@link module:case-change/utils~TEXT_CASES text cases} list which changes the text.
+ */
+export default class CaseChangeCommand extends Command {
+	/**
+	 * The case of the selected text or `undefined` if the text has a mixed case.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: TextCase | undefined;
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const model = this.editor.model;
+		const selection = model.document.selection;
+		const segments = getTextSegments( selection.getRanges() );
+
+		this.isEnabled = segments.length > 0 && model.canEditAt( selection );
+		this.value = this.isEnabled ? getTextCase( joinTextSegments( segments ).text, this._getOptions() ) : undefined;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.value The case to change the selected text to. If not set, the next case is used.
+	 * @fires execute
+	 */
+	public override execute( options: { value?: TextCase } = {} ): void {
+		const model = this.editor.model;
+		const selection = model.document.selection;
+		const segments = getTextSegments( selection.getRanges() );
+		const { text, segmentStarts } = joinTextSegments( segments );
+		const changeCaseOptions = this._getOptions();
+		const characters = changeCase( text, options.value || this._getNextCase( text, changeCaseOptions ), changeCaseOptions );
+		const changes = getTextChanges( segments, segmentStarts, characters );
+
+		model.change( writer => {
+			const affectedMarkers = Array.from( model.markers ).filter( marker => {
+				return changes.has( marker.getStart().parent as Element ) || changes.has( marker.getEnd().parent as Element );
+			} );
+			const markerRanges = affectedMarkers.map( marker => marker.getRange() );
+			const selectionRanges = Array.from( selection.getRanges() );
+			const isBackward = selection.isBackward;
+
+			for ( const [ parent, parentChanges ] of changes ) {
+				// The changes are applied from the end of the element, so the offsets of the preceding changes remain valid.
+				for ( const { offset, oldLength, text, attributes } of [ ...parentChanges ].sort( ( a, b ) => b.offset - a.offset ) ) {
+					const start = writer.createPositionAt( parent, offset );
+					const end = writer.createPositionAt( parent, offset + oldLength );
+
+					writer.insertText( text, attributes, end );
+					writer.remove( writer.createRange( start, end ) );
+				}
+			}
+
+			// The changed text is replaced, so the ranges of the markers and the selection need to be restored.
+			affectedMarkers.forEach( ( marker, index ) => {
+				writer.updateMarker( marker, { range: mapRange( writer, markerRanges[ index ], changes ) } );
+			} );
+
+			writer.setSelection( selectionRanges.map( range => mapRange( writer, range, changes ) ), { backward: isBackward } );
+		} );
+	}
+
+	/**
+	 * Returns the first case (following the current case of the text) that changes the text.
+	 */
+	private _getNextCase( text: string, options: ChangeCaseOptions ): TextCase {
+		const currentIndex = TEXT_CASES.indexOf( getTextCase( text, options )! );
+
+		for ( let index = 1; index <= TEXT_CASES.length; index++ ) {
+			const textCase = TEXT_CASES[ ( currentIndex + index ) % TEXT_CASES.length ];
+
+			if ( changeCase( text, textCase, options ).join( '' ) != text ) {
+				return textCase;
+			}
+		}
+
+		return TEXT_CASES[ 0 ];
+	}
+
+	/**
+	 * Returns the options of the case change for the language of the content.
+	 */
+	private _getOptions(): ChangeCaseOptions {
+		const locale = this.editor.locale.contentLanguage;
+		const titleCaseExceptions = this.editor.config.get( 'caseChange.titleCaseExceptions' )!;
+
+		return {
+			locale,
+			titleCaseExceptions: titleCaseExceptions[ locale ] || titleCaseExceptions[ locale.split( '-' )[ 0 ] ] || []
+		};
+	}
+}
+
+/**
+ * A text node (or its part) of the selected text.
+ */
+interface TextSegment {
+	parent: Element;
+	offset: number;
+	data: string;
+	attributes: Map<string, unknown>;
+}
+
+/**
+ * A change of a part of a text node.
+ */
+interface TextChange {
+	offset: number;
+	oldLength: number;
+	text: string;
+	attributes: Map<string, unknown>;
+}
+
+/**
+ * Returns the selected text nodes (or their parts) in the document order.
+ */
+function getTextSegments( ranges: Iterable<Range> ): Array<TextSegment> {
+	const segments: Array<TextSegment> = [];
+
+	for ( const range of ranges ) {
+		for ( const item of range.getItems() ) {
+			if ( item.is( '$textProxy' ) ) {
+				segments.push( {
+					parent: item.parent as Element,
+					offset: item.startOffset!,
+					data: item.data,
+					attributes: new Map( item.getAttributes() )
+				} );
+			}
+		}
+	}
+
+	return segments;
+}
+
+/**
+ * Joins the text of the segments. The blocks are separated, so the words and the sentences end with the blocks.
+ * Returns the text and the indexes of the characters (code points) starting the segments.
+ */
+function joinTextSegments( segments: Array<TextSegment> ): { text: string; segmentStarts: Array<number> } {
+	const segmentStarts: Array<number> = [];
+	let text = '';
+	let length = 0;
+
+	segments.forEach( ( segment, index ) => {
+		const previous = segments[ index - 1 ];
+
+		if ( previous && previous.parent != segment.parent ) {
+			text += BLOCK_SEPARATOR;
+			length++;
+		} else if ( previous && previous.offset + previous.data.length != segment.offset ) {
+			text += OBJECT_REPLACEMENT_CHARACTER;
+			length++;
+		}
+
+		segmentStarts.push( length );
+		text += segment.data;
+		length += Array.from( segment.data ).length;
+	} );
+
+	return { text, segmentStarts };
+}
+
+/**
+ * Compares the text of the segments with the changed characters and returns the changes grouped by the parent elements.
+ * The changes of the adjacent characters are joined.
+ */
+function getTextChanges(
+	segments: Array<TextSegment>,
+	segmentStarts: Array<number>,
+	characters: Array<string>
+): Map<Element, Array<TextChange>> {
+	const changes = new Map<Element, Array<TextChange>>();
+
+	segments.forEach( ( segment, index ) => {
+		const parentChanges = changes.get( segment.parent ) || [];
+		let characterIndex = segmentStarts[ index ];
+		let offset = segment.offset;
+		let lastChange: TextChange | null = null;
+
+		for ( const character of segment.data ) {
+			const newCharacter = characters[ characterIndex++ ];
+
+			if ( newCharacter == character ) {
+				lastChange = null;
+			} else if ( lastChange ) {
+				lastChange.oldLength += character.length;
+				lastChange.text += newCharacter;
+			} else {
+				lastChange = { offset, oldLength: character.length, text: newCharacter, attributes: segment.attributes };
+				parentChanges.push( lastChange );
+			}
+
+			offset += character.length;
+		}
+
+		if ( parentChanges.length ) {
+			changes.set( segment.parent, parentChanges );
+		}
+	} );
+
+	return changes;
+}
+
+/**
+ * Maps a range from before the changes to the content after the changes.
+ */
+function mapRange( writer: Writer, range: Range, changes: Map<Element, Array<TextChange>> ): Range {
+	return writer.createRange( mapPosition( writer, range.start, changes ), mapPosition( writer, range.end, changes ) );
+}
+
+/**
+ * Maps a position from before the changes to the content after the changes. The positions inside the changed text are
+ * moved to the end of the new text if it is shorter.
+ */
+function mapPosition( writer: Writer, position: Position, changes: Map<Element, Array<TextChange>> ): Position {
+	const parentChanges = changes.get( position.parent as Element );
+
+	if ( !parentChanges ) {
+		return position;
+	}
+
+	let offset = position.offset;
+
+	for ( const change of parentChanges ) {
+		const newLength = change.text.length;
+
+		if ( position.offset >= change.offset + change.oldLength ) {
+			offset += newLength - change.oldLength;
+		} else if ( position.offset > change.offset ) {
+			const offsetInChange = position.offset - change.offset;
+
+			offset += Math.min( offsetInChange, newLength ) - offsetInChange;
+		}
+	}
+
+	return writer.createPositionAt( position.parent, offset );
+}
@@ -0,0 +1,52 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module case-change/casechangeconfig
+ */
+
+/**
+ * The configuration of the case change feature.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		caseChange: ... // Case change feature options.
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor options}.
+ */
+export interface CaseChangeConfig {
+
+	/**
+	 * The words that are not capitalized in the title case (for instance, the articles and the short prepositions),
+	 * unless they are the first or the last word of a block. The lists are defined for the
+	 * {@link module:core/editor/editorconfig~LanguageConfig#content languages of the content}. If there is no list for
+	 * a language with a region code (for instance, `'en-gb'`), the list of the language (`'en'`) is used.
+	 *
+	 * ```ts
+	 * ClassicEditor
+	 * 	.create( editorElement, {
+	 * 		plugins: [ CaseChange, ... ],
+	 * 		language: {
+	 * 			content: 'de'
+	 * 		},
+	 * 		caseChange: {
+	 * 			titleCaseExceptions: {
+	 * 				de: [ 'der', 'die', 'das', 'und', 'oder', 'von', 'zu' ]
+	 * 			}
+	 * 		}
+	 * 	} )
+	 * 	.then( ... )
+	 * 	.catch( ... );
+	 * ```
+	 *
+	 * By default, the list is defined for English.
+	 */
+	titleCaseExceptions?: Record<string, Array<string>>;
+}
@@ -0,0 +1,54 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module case-change/casechangeediting
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+
+import CaseChangeCommand from './casechangecommand';
+
+/**
+ * The case change editing plugin.
+ *
+ * It registers the {@link module:case-change/casechangecommand~CaseChangeCommand `'changeCase'`} command and
+ * the <kbd>Shift</kbd>+<kbd>F3</kbd> keystroke cycling through the cases of the selected text.
+ */
+export default class CaseChangeEditing extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'CaseChangeEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'caseChange', {
+			titleCaseExceptions: {
+				en: [
+					'a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'from', 'in', 'into', 'nor', 'of', 'on', 'onto', 'or', 'over',
+					'per', 'so', 'the', 'to', 'up', 'via', 'vs', 'with', 'yet'
+				]
+			}
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+
+		editor.commands.add( 'changeCase', new CaseChangeCommand( editor ) );
+
+		editor.keystrokes.set( 'Shift+F3', 'changeCase' );
+	}
+}
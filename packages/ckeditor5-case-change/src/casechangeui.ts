@@ -0,0 +1,99 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module case-change/casechangeui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import {
+	Model,
+	createDropdown,
+	addListToDropdown,
+	type ButtonExecuteEvent,
+	type ListDropdownItemDefinition
+} from 'ckeditor5/src/ui';
+import { Collection } from 'ckeditor5/src/utils';
+
+import type { TextCase } from './utils';
+
+import caseChangeIcon from '../theme/icons/case-change.svg';
+
+/**
+ * The case change UI plugin. It introduces the `'caseChange'` dropdown with the list of the text cases.
+ */
+export default class CaseChangeUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'CaseChangeUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+		const accessibleLabel = t( 'Change case' );
+		const titles: Record<TextCase, string> = {
+			upper: t( 'UPPER CASE' ),
+			lower: t( 'lower case' ),
+			title: t( 'Title Case' ),
+			sentence: t( 'Sentence case' )
+		};
+
+		editor.ui.componentFactory.add( 'caseChange', locale => {
+			const command = editor.commands.get( 'changeCase' )!;
+			const itemDefinitions: Collection<ListDropdownItemDefinition> = new Collection();
+
+			for ( const [ textCase, title ] of Object.entries( titles ) ) {
+				const def: ListDropdownItemDefinition = {
+					type: 'button',
+					model: new Model( {
+						commandValue: textCase,
+						label: title,
+						role: 'menuitemradio',
+						withText: true
+					} )
+				};
+
+				def.model.bind( 'isOn' ).to( command, 'value', value => value === textCase );
+
+				itemDefinitions.add( def );
+			}
+
+			const dropdownView = createDropdown( locale );
+
+			addListToDropdown( dropdownView, itemDefinitions, {
+				ariaLabel: accessibleLabel,
+				role: 'menu'
+			} );
+
+			dropdownView.buttonView.set( {
+				label: accessibleLabel,
+				icon: caseChangeIcon,
+				tooltip: true
+			} );
+
+			dropdownView.extendTemplate( {
+				attributes: {
+					class: 'ck-case-change-dropdown'
+				}
+			} );
+
+			dropdownView.bind( 'isEnabled' ).to( command );
+
+			// Execute command when an item from the dropdown is selected.
+			this.listenTo<ButtonExecuteEvent>( dropdownView, 'execute', evt => {
+				editor.execute( 'changeCase', { value: ( evt.source as any ).commandValue } );
+				editor.editing.view.focus();
+			} );
+
+			return dropdownView;
+		} );
+	}
+}
@@ -0,0 +1,19 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module case-change
+ */
+
+export { default as CaseChange } from './casechange';
+export { default as CaseChangeEditing } from './casechangeediting';
+export { default as CaseChangeUI } from './casechangeui';
+export { default as CaseChangeCommand } from './casechangecommand';
+export { changeCase, getTextCase, TEXT_CASES } from './utils';
+
+export type { CaseChangeConfig } from './casechangeconfig';
+export type { TextCase, ChangeCaseOptions } from './utils';
+
+import './augmentation';
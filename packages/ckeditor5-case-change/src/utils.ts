@@ -0,0 +1,149 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module case-change/utils
+ */
+
+/**
+ * The case of a text:
+ *
+ * * `'upper'` &ndash; UPPER CASE,
+ * * `'lower'` &ndash; lower case,
+ * * `'title'` &ndash; Title Case, with each word capitalized,
+ * * `'sentence'` &ndash; Sentence case, with the first word of each sentence capitalized.
+ */
+export type TextCase = 'upper' | 'lower' | 'title' | 'sentence';
+
+/**
+ * The text cases in the order in which they are cycled through.
+ */
+export const TEXT_CASES: ReadonlyArray<TextCase> = [ 'upper', 'lower', 'title', 'sentence' ];
+
+/**
+ * The character separating the blocks in the text passed to {@link module:case-change/utils~changeCase}.
+ */
+export const BLOCK_SEPARATOR = '\n';
+
+const LETTER_REGEXP = /\p{L}/u;
+const WORD_CHARACTER_REGEXP = /[\p{L}\p{N}'’]/u;
+const SENTENCE_END_REGEXP = /[.!?]/;
+
+/**
+ * The options of the text case change.
+ */
+export interface ChangeCaseOptions {
+
+	/**
+	 * The language code used by the locale-sensitive case mappings, for instance `'tr'`.
+	 */
+	locale?: string;
+
+	/**
+	 * The words that are not capitalized in the title case, unless they are the first or the last word of a block.
+	 */
+	titleCaseExceptions?: Array<string>;
+}
+
+/**
+ * Changes the case of a text.
+ *
+ * The result is an array of the changed characters (code points) of the text, so the change of each character can be applied
+ * separately. Note that the case change of a single character may produce many characters, for instance "ß" becomes "SS".
+ *
+ * ```ts
+ * changeCase( 'the lord of the rings', 'title', { titleCaseExceptions: [ 'of', 'the' ] } ).join( '' );
+ * // -> 'The Lord of the Rings'
+ * ```
+ *
+ * @param text The text to change. The blocks of the text are separated with the
+ * {@link module:case-change/utils~BLOCK_SEPARATOR block separator}.
+ * @param textCase The case to change the text to.
+ * @param options The options of the case change.
+ */
+export function changeCase( text: string, textCase: TextCase, options: ChangeCaseOptions = {} ): Array<string> {
+	const { locale, titleCaseExceptions = [] } = options;
+	const characters = Array.from( text );
+
+	if ( textCase == 'upper' ) {
+		return characters.map( character => character.toLocaleUpperCase( locale ) );
+	}
+
+	const result = characters.map( character => character.toLocaleLowerCase( locale ) );
+	const capitalize = ( index: number ) => {
+		result[ index ] = characters[ index ].toLocaleUpperCase( locale );
+	};
+
+	if ( textCase == 'title' ) {
+		const exceptions = titleCaseExceptions.map( word => word.toLocaleLowerCase( locale ) );
+
+		for ( const words of getBlockWords( characters ) ) {
+			words.forEach( ( { start, end }, index ) => {
+				const isFirstOrLast = index == 0 || index == words.length - 1;
+				const firstLetterIndex = characters.slice( start, end ).findIndex( character => LETTER_REGEXP.test( character ) );
+
+				if ( firstLetterIndex != -1 && ( isFirstOrLast || !exceptions.includes( result.slice( start, end ).join( '' ) ) ) ) {
+					capitalize( start + firstLetterIndex );
+				}
+			} );
+		}
+	} else if ( textCase == 'sentence' ) {
+		let isSentenceStart = true;
+
+		characters.forEach( ( character, index ) => {
+			if ( character == BLOCK_SEPARATOR || SENTENCE_END_REGEXP.test( character ) ) {
+				isSentenceStart = true;
+			} else if ( WORD_CHARACTER_REGEXP.test( character ) ) {
+				if ( isSentenceStart && LETTER_REGEXP.test( character ) ) {
+					capitalize( index );
+				}
+
+				isSentenceStart = false;
+			}
+		} );
+	}
+
+	return result;
+}
+
+/**
+ * Returns the case of the text or `undefined` if the text has a mixed case.
+ *
+ * A text may match many cases, for instance "Hello" is in both the title case and the sentence case. In such a case,
+ * the first case of the {@link module:case-change/utils~TEXT_CASES} list is returned.
+ *
+ * @param text The text to check.
+ * @param options The options of the case change.
+ */
+export function getTextCase( text: string, options: ChangeCaseOptions = {} ): TextCase | undefined {
+	return TEXT_CASES.find( textCase => changeCase( text, textCase, options ).join( '' ) == text );
+}
+
+/**
+ * Returns the words of each block of the text as the ranges of the character indexes.
+ */
+function getBlockWords( characters: Array<string> ): Array<Array<{ start: number; end: number }>> {
+	const blocks: Array<Array<{ start: number; end: number }>> = [ [] ];
+	let wordStart = -1;
+
+	// The loop goes one step further to close the last word.
+	for ( let index = 0; index <= characters.length; index++ ) {
+		const character = characters[ index ];
+		const isWordCharacter = index < characters.length && WORD_CHARACTER_REGEXP.test( character );
+
+		if ( isWordCharacter && wordStart == -1 ) {
+			wordStart = index;
+		} else if ( !isWordCharacter && wordStart != -1 ) {
+			blocks[ blocks.length - 1 ].push( { start: wordStart, end: index } );
+			wordStart = -1;
+		}
+
+		if ( character == BLOCK_SEPARATOR ) {
+			blocks.push( [] );
+		}
+	}
+
+	return blocks;
+}
@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import CaseChange from '../src/casechange';
+import CaseChangeEditing from '../src/casechangeediting';
+import CaseChangeUI from '../src/casechangeui';
+
+describe( 'CaseChange', () => {
+	it( 'should be correctly named', () => {
+		expect( CaseChange.pluginName ).to.equal( 'CaseChange' );
+	} );
+
+	it( 'should require CaseChangeEditing and CaseChangeUI', () => {
+		expect( CaseChange.requires ).to.deep.equal( [ CaseChangeEditing, CaseChangeUI ] );
+	} );
+} );
@@ -0,0 +1,298 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import LinkEditing from '@ckeditor/ckeditor5-link/src/linkediting';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import CaseChangeEditing from '../src/casechangeediting';
+
+describe( 'CaseChangeCommand', () => {
+	let editor, model, command;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, BoldEditing, LinkEditing, UndoEditing, CaseChangeEditing ]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'changeCase' );
+
+		model.schema.register( 'inlineObject', { inheritAllFrom: '$inlineObject' } );
+		editor.conversion.elementToElement( { model: 'inlineObject', view: 'inline-object' } );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true if the selection contains text', () => {
+			setModelData( model, '<paragraph>f[o]o</paragraph>' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false if the selection is collapsed', () => {
+			setModelData( model, '<paragraph>fo[]o</paragraph>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false if the selection contains no text', () => {
+			setModelData( model, '<paragraph>foo[<inlineObject></inlineObject>]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false in the read-only mode', () => {
+			setModelData( model, '<paragraph>f[o]o</paragraph>' );
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'value', () => {
+		it( 'should be the case of the selected text', () => {
+			setModelData( model, '<paragraph>[Foo <$text bold="true">BAR</$text>]</paragraph>' );
+			expect( command.value ).to.be.undefined;
+
+			setModelData( model, '<paragraph>[FOO <$text bold="true">BAR</$text>]</paragraph>' );
+			expect( command.value ).to.equal( 'upper' );
+
+			setModelData( model, '<paragraph>[Foo</paragraph><paragraph>Bar]</paragraph>' );
+			expect( command.value ).to.equal( 'title' );
+
+			setModelData( model, '<paragraph>[Foo bar</paragraph><paragraph>Baz]</paragraph>' );
+			expect( command.value ).to.equal( 'sentence' );
+		} );
+
+		it( 'should be undefined if the command is disabled', () => {
+			setModelData( model, '<paragraph>FOO[]</paragraph>' );
+
+			expect( command.value ).to.be.undefined;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should change the case of the selected text', () => {
+			setModelData( model, '<paragraph>foo [bar] baz</paragraph>' );
+
+			command.execute( { value: 'upper' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>foo [BAR] baz</paragraph>' );
+		} );
+
+		it( 'should change the case across the attribute boundaries and preserve the attributes', () => {
+			setModelData( model,
+				'<paragraph>[the <$text bold="true">lo</$text>rd <$text linkHref="foo">OF THE</$text> rings]</paragraph>'
+			);
+
+			command.execute( { value: 'title' } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>[The <$text bold="true">Lo</$text>rd <$text linkHref="foo">of the</$text> Rings]</paragraph>'
+			);
+		} );
+
+		it( 'should change the case across many blocks', () => {
+			setModelData( model, '<paragraph>f[oo. bar</paragraph><paragraph>BAZ. qux]x</paragraph>' );
+
+			command.execute( { value: 'sentence' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>f[Oo. Bar</paragraph><paragraph>Baz. Qux]x</paragraph>' );
+		} );
+
+		it( 'should treat the inline objects as the word boundaries', () => {
+			setModelData( model, '<paragraph>[foo<inlineObject></inlineObject>bar]</paragraph>' );
+
+			command.execute( { value: 'title' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[Foo<inlineObject></inlineObject>Bar]</paragraph>' );
+		} );
+
+		it( 'should keep the selection if the length of the text changes', () => {
+			setModelData( model, '<paragraph>[straße] foo</paragraph>' );
+
+			command.execute( { value: 'upper' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[STRASSE] foo</paragraph>' );
+		} );
+
+		it( 'should keep the backward selection', () => {
+			setModelData( model, '<paragraph>f[oo]</paragraph>', { lastRangeBackward: true } );
+
+			command.execute( { value: 'upper' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>f[OO]</paragraph>' );
+			expect( model.document.selection.isBackward ).to.be.true;
+		} );
+
+		it( 'should preserve the markers', () => {
+			setModelData( model, '<paragraph>[foo bar baz]</paragraph>' );
+
+			const paragraph = model.document.getRoot().getChild( 0 );
+
+			model.change( writer => {
+				writer.addMarker( 'comment:1', {
+					range: writer.createRange( writer.createPositionAt( paragraph, 4 ), writer.createPositionAt( paragraph, 7 ) ),
+					usingOperation: true,
+					affectsData: true
+				} );
+				writer.addMarker( 'comment:2', {
+					range: writer.createRange( writer.createPositionAt( paragraph, 5 ), writer.createPositionAt( paragraph, 11 ) ),
+					usingOperation: false
+				} );
+			} );
+
+			command.execute( { value: 'upper' } );
+
+			const firstRange = model.markers.get( 'comment:1' ).getRange();
+			const secondRange = model.markers.get( 'comment:2' ).getRange();
+
+			expect( firstRange.start.offset ).to.equal( 4 );
+			expect( firstRange.end.offset ).to.equal( 7 );
+			expect( secondRange.start.offset ).to.equal( 5 );
+			expect( secondRange.end.offset ).to.equal( 11 );
+		} );
+
+		it( 'should move the markers following the text which length changes', () => {
+			setModelData( model, '<paragraph>[ß foo]</paragraph>' );
+
+			const paragraph = model.document.getRoot().getChild( 0 );
+
+			model.change( writer => {
+				writer.addMarker( 'comment:1', {
+					range: writer.createRange( writer.createPositionAt( paragraph, 2 ), writer.createPositionAt( paragraph, 5 ) ),
+					usingOperation: true
+				} );
+			} );
+
+			command.execute( { value: 'upper' } );
+
+			const range = model.markers.get( 'comment:1' ).getRange();
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[SS FOO]</paragraph>' );
+			expect( range.start.offset ).to.equal( 3 );
+			expect( range.end.offset ).to.equal( 6 );
+		} );
+
+		it( 'should not change the text which case does not change', () => {
+			setModelData( model, '<paragraph>[FOO] bar</paragraph>' );
+
+			const spy = sinon.spy();
+
+			model.document.on( 'change:data', spy );
+			command.execute( { value: 'upper' } );
+
+			sinon.assert.notCalled( spy );
+		} );
+
+		it( 'should be undone in a single step', () => {
+			setModelData( model, '<paragraph>[foo</paragraph><paragraph>bar]</paragraph>' );
+
+			command.execute( { value: 'upper' } );
+			editor.execute( 'undo' );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[foo</paragraph><paragraph>bar]</paragraph>' );
+		} );
+
+		describe( 'without the case', () => {
+			it( 'should change the text to the upper case if the text has a mixed case', () => {
+				setModelData( model, '<paragraph>[fOO bar]</paragraph>' );
+
+				command.execute();
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>[FOO BAR]</paragraph>' );
+			} );
+
+			it( 'should cycle through the cases', () => {
+				setModelData( model, '<paragraph>[FOO bar]</paragraph>' );
+
+				const texts = [];
+
+				for ( let i = 0; i < 5; i++ ) {
+					command.execute();
+					texts.push( getModelData( model, { withoutSelection: true } ) );
+				}
+
+				expect( texts ).to.deep.equal( [
+					'<paragraph>FOO BAR</paragraph>',
+					'<paragraph>foo bar</paragraph>',
+					'<paragraph>Foo Bar</paragraph>',
+					'<paragraph>Foo bar</paragraph>',
+					'<paragraph>FOO BAR</paragraph>'
+				] );
+			} );
+
+			it( 'should skip the cases which do not change the text', () => {
+				setModelData( model, '<paragraph>[Foo]</paragraph>' );
+
+				command.execute();
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>[FOO]</paragraph>' );
+			} );
+		} );
+
+		describe( 'title case exceptions', () => {
+			it( 'should use the default exceptions for English', () => {
+				setModelData( model, '<paragraph>[the lord of the rings]</paragraph>' );
+
+				command.execute( { value: 'title' } );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>[The Lord of the Rings]</paragraph>' );
+			} );
+
+			it( 'should use the exceptions of the content language', async () => {
+				const editor = await VirtualTestEditor.create( {
+					plugins: [ Paragraph, CaseChangeEditing ],
+					language: { content: 'de' },
+					caseChange: {
+						titleCaseExceptions: { de: [ 'der', 'die', 'das' ] }
+					}
+				} );
+
+				setModelData( editor.model, '<paragraph>[DER HERR DER RINGE]</paragraph>' );
+				editor.execute( 'changeCase', { value: 'title' } );
+
+				expect( getModelData( editor.model ) ).to.equal( '<paragraph>[Der Herr der Ringe]</paragraph>' );
+
+				await editor.destroy();
+			} );
+
+			it( 'should use the exceptions of the language if there are no exceptions for its region', async () => {
+				const editor = await VirtualTestEditor.create( {
+					plugins: [ Paragraph, CaseChangeEditing ],
+					language: { content: 'en-gb' }
+				} );
+
+				setModelData( editor.model, '<paragraph>[the lord of the rings]</paragraph>' );
+				editor.execute( 'changeCase', { value: 'title' } );
+
+				expect( getModelData( editor.model ) ).to.equal( '<paragraph>[The Lord of the Rings]</paragraph>' );
+
+				await editor.destroy();
+			} );
+
+			it( 'should use no exceptions for other languages', async () => {
+				const editor = await VirtualTestEditor.create( {
+					plugins: [ Paragraph, CaseChangeEditing ],
+					language: { content: 'pl' }
+				} );
+
+				setModelData( editor.model, '<paragraph>[the lord of the rings]</paragraph>' );
+				editor.execute( 'changeCase', { value: 'title' } );
+
+				expect( getModelData( editor.model ) ).to.equal( '<paragraph>[The Lord Of The Rings]</paragraph>' );
+
+				await editor.destroy();
+			} );
+		} );
+	} );
+} );
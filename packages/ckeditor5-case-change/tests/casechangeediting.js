@@ -0,0 +1,58 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import CaseChangeEditing from '../src/casechangeediting';
+import CaseChangeCommand from '../src/casechangecommand';
+
+describe( 'CaseChangeEditing', () => {
+	let editor;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, CaseChangeEditing ]
+		} );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( CaseChangeEditing.pluginName ).to.equal( 'CaseChangeEditing' );
+	} );
+
+	it( 'should register the changeCase command', () => {
+		expect( editor.commands.get( 'changeCase' ) ).to.be.instanceOf( CaseChangeCommand );
+	} );
+
+	it( 'should define the English title case exceptions', () => {
+		expect( Object.keys( editor.config.get( 'caseChange.titleCaseExceptions' ) ) ).to.deep.equal( [ 'en' ] );
+		expect( editor.config.get( 'caseChange.titleCaseExceptions.en' ) ).to.include.members( [ 'a', 'an', 'the', 'of' ] );
+	} );
+
+	it( 'should cycle through the cases with Shift+F3', () => {
+		const keyEventData = {
+			keyCode: keyCodes.f3,
+			shiftKey: true,
+			preventDefault: sinon.spy(),
+			stopPropagation: sinon.spy()
+		};
+
+		setModelData( editor.model, '<paragraph>[foo bar]</paragraph>' );
+
+		editor.keystrokes.press( keyEventData );
+
+		expect( getModelData( editor.model ) ).to.equal( '<paragraph>[Foo Bar]</paragraph>' );
+		sinon.assert.calledOnce( keyEventData.preventDefault );
+	} );
+} );
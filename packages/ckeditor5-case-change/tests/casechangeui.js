@@ -0,0 +1,101 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import DropdownView from '@ckeditor/ckeditor5-ui/src/dropdown/dropdownview';
+import { setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import CaseChangeEditing from '../src/casechangeediting';
+import CaseChangeUI from '../src/casechangeui';
+
+describe( 'CaseChangeUI', () => {
+	let editor, element, dropdown, command;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, CaseChangeEditing, CaseChangeUI ]
+		} );
+
+		command = editor.commands.get( 'changeCase' );
+		dropdown = editor.ui.componentFactory.create( 'caseChange' );
+		dropdown.render();
+		document.body.appendChild( dropdown.element );
+
+		// Create the list of the dropdown.
+		dropdown.isOpen = true;
+	} );
+
+	afterEach( async () => {
+		dropdown.element.remove();
+		dropdown.destroy();
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	function getItems() {
+		return dropdown.listView.items.map( item => item.children.first );
+	}
+
+	it( 'should be correctly named', () => {
+		expect( CaseChangeUI.pluginName ).to.equal( 'CaseChangeUI' );
+	} );
+
+	describe( 'the "caseChange" dropdown', () => {
+		it( 'should be a dropdown', () => {
+			expect( dropdown ).to.be.instanceOf( DropdownView );
+		} );
+
+		it( 'should have a label, an icon and a tooltip', () => {
+			expect( dropdown.buttonView.label ).to.equal( 'Change case' );
+			expect( dropdown.buttonView.icon ).to.match( /^<svg/ );
+			expect( dropdown.buttonView.tooltip ).to.be.true;
+		} );
+
+		it( 'should have a class', () => {
+			expect( dropdown.element.classList.contains( 'ck-case-change-dropdown' ) ).to.be.true;
+		} );
+
+		it( 'should have #isEnabled bound to the command', () => {
+			command.isEnabled = false;
+			expect( dropdown.isEnabled ).to.be.false;
+
+			command.isEnabled = true;
+			expect( dropdown.isEnabled ).to.be.true;
+		} );
+
+		it( 'should list the cases', () => {
+			expect( getItems().map( item => item.label ) ).to.deep.equal( [ 'UPPER CASE', 'lower case', 'Title Case', 'Sentence case' ] );
+		} );
+
+		it( 'should mark the case of the selected text', () => {
+			setModelData( editor.model, '<paragraph>[Foo Bar]</paragraph>' );
+
+			expect( getItems().map( item => item.isOn ) ).to.deep.equal( [ false, false, true, false ] );
+		} );
+
+		it( 'should execute the command with the case and focus the editing view', () => {
+			const executeSpy = sinon.spy( editor, 'execute' );
+			const focusSpy = sinon.spy( editor.editing.view, 'focus' );
+
+			setModelData( editor.model, '<paragraph>[foo]</paragraph>' );
+
+			getItems()[ 3 ].fire( 'execute' );
+
+			sinon.assert.calledOnce( executeSpy );
+			sinon.assert.calledWithExactly( executeSpy, 'changeCase', { value: 'sentence' } );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+	} );
+} );
@@ -0,0 +1,49 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	CaseChange as CaseChangeDLL,
+	CaseChangeEditing as CaseChangeEditingDLL,
+	CaseChangeUI as CaseChangeUIDLL,
+	CaseChangeCommand as CaseChangeCommandDLL,
+	changeCase as changeCaseDLL,
+	getTextCase as getTextCaseDLL,
+	TEXT_CASES as TEXT_CASES_DLL
+} from '../src';
+import CaseChange from '../src/casechange';
+import CaseChangeEditing from '../src/casechangeediting';
+import CaseChangeUI from '../src/casechangeui';
+import CaseChangeCommand from '../src/casechangecommand';
+import { changeCase, getTextCase, TEXT_CASES } from '../src/utils';
+
+describe( 'CaseChange DLL', () => {
+	it( 'exports CaseChange', () => {
+		expect( CaseChangeDLL ).to.equal( CaseChange );
+	} );
+
+	it( 'exports CaseChangeEditing', () => {
+		expect( CaseChangeEditingDLL ).to.equal( CaseChangeEditing );
+	} );
+
+	it( 'exports CaseChangeUI', () => {
+		expect( CaseChangeUIDLL ).to.equal( CaseChangeUI );
+	} );
+
+	it( 'exports CaseChangeCommand', () => {
+		expect( CaseChangeCommandDLL ).to.equal( CaseChangeCommand );
+	} );
+
+	it( 'exports changeCase()', () => {
+		expect( changeCaseDLL ).to.equal( changeCase );
+	} );
+
+	it( 'exports getTextCase()', () => {
+		expect( getTextCaseDLL ).to.equal( getTextCase );
+	} );
+
+	it( 'exports TEXT_CASES', () => {
+		expect( TEXT_CASES_DLL ).to.equal( TEXT_CASES );
+	} );
+} );
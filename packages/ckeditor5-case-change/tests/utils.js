@@ -0,0 +1,116 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { changeCase, getTextCase, TEXT_CASES } from '../src/utils';
+
+describe( 'utils', () => {
+	describe( 'TEXT_CASES', () => {
+		it( 'should list the text cases', () => {
+			expect( TEXT_CASES ).to.deep.equal( [ 'upper', 'lower', 'title', 'sentence' ] );
+		} );
+	} );
+
+	describe( 'changeCase()', () => {
+		function change( text, textCase, options ) {
+			return changeCase( text, textCase, options ).join( '' );
+		}
+
+		it( 'should return the changed characters', () => {
+			expect( changeCase( 'Straße', 'upper' ) ).to.deep.equal( [ 'S', 'T', 'R', 'A', 'SS', 'E' ] );
+		} );
+
+		it( 'should keep the surrogate pairs', () => {
+			expect( changeCase( 'a😀b', 'upper' ) ).to.deep.equal( [ 'A', '😀', 'B' ] );
+		} );
+
+		describe( 'upper case', () => {
+			it( 'should change the text to the upper case', () => {
+				expect( change( 'Foo bar-Baz 42', 'upper' ) ).to.equal( 'FOO BAR-BAZ 42' );
+			} );
+
+			it( 'should use the locale', () => {
+				expect( change( 'istanbul', 'upper', { locale: 'tr' } ) ).to.equal( 'İSTANBUL' );
+			} );
+		} );
+
+		describe( 'lower case', () => {
+			it( 'should change the text to the lower case', () => {
+				expect( change( 'FOO Bar', 'lower' ) ).to.equal( 'foo bar' );
+			} );
+
+			it( 'should use the locale', () => {
+				expect( change( 'İSTANBUL', 'lower', { locale: 'tr' } ) ).to.equal( 'istanbul' );
+			} );
+		} );
+
+		describe( 'title case', () => {
+			it( 'should capitalize each word', () => {
+				expect( change( 'hELLO wORLD, how are you?', 'title' ) ).to.equal( 'Hello World, How Are You?' );
+			} );
+
+			it( 'should not capitalize the exceptions', () => {
+				expect( change( 'THE LORD OF THE RINGS', 'title', { titleCaseExceptions: [ 'of', 'The' ] } ) )
+					.to.equal( 'The Lord of the Rings' );
+			} );
+
+			it( 'should capitalize the exceptions at the start and at the end of each block', () => {
+				expect( change( 'the end of\nof the end', 'title', { titleCaseExceptions: [ 'of', 'the' ] } ) )
+					.to.equal( 'The End Of\nOf the End' );
+			} );
+
+			it( 'should capitalize the parts of the hyphenated words', () => {
+				expect( change( 'well-known', 'title' ) ).to.equal( 'Well-Known' );
+			} );
+
+			it( 'should keep the apostrophes in the words', () => {
+				expect( change( 'don\'t stop', 'title' ) ).to.equal( 'Don\'t Stop' );
+			} );
+
+			it( 'should capitalize the first letter of a word', () => {
+				expect( change( '3d models', 'title' ) ).to.equal( '3D Models' );
+			} );
+		} );
+
+		describe( 'sentence case', () => {
+			it( 'should capitalize the first word of each sentence', () => {
+				expect( change( 'HELLO WORLD. how are you? FINE! ok', 'sentence' ) ).to.equal( 'Hello world. How are you? Fine! Ok' );
+			} );
+
+			it( 'should capitalize the first word of each block', () => {
+				expect( change( 'foo bar\nbaz', 'sentence' ) ).to.equal( 'Foo bar\nBaz' );
+			} );
+
+			it( 'should not capitalize a word following a number', () => {
+				expect( change( '3 APPLES', 'sentence' ) ).to.equal( '3 apples' );
+			} );
+
+			it( 'should capitalize a word following the punctuation', () => {
+				expect( change( '"hello," she said', 'sentence' ) ).to.equal( '"Hello," she said' );
+			} );
+		} );
+	} );
+
+	describe( 'getTextCase()', () => {
+		it( 'should return the case of the text', () => {
+			expect( getTextCase( 'FOO BAR' ) ).to.equal( 'upper' );
+			expect( getTextCase( 'foo bar' ) ).to.equal( 'lower' );
+			expect( getTextCase( 'Foo Bar' ) ).to.equal( 'title' );
+			expect( getTextCase( 'Foo bar' ) ).to.equal( 'sentence' );
+		} );
+
+		it( 'should return undefined for a mixed case', () => {
+			expect( getTextCase( 'fOO bar' ) ).to.be.undefined;
+		} );
+
+		it( 'should return the first matching case', () => {
+			expect( getTextCase( '42' ) ).to.equal( 'upper' );
+			expect( getTextCase( 'Foo' ) ).to.equal( 'title' );
+		} );
+
+		it( 'should use the options', () => {
+			expect( getTextCase( 'Lord of the Rings', { titleCaseExceptions: [ 'of', 'the' ] } ) ).to.equal( 'title' );
+		} );
+	} );
+} );
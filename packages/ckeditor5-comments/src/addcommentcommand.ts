@@ -0,0 +1,70 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/addcommentcommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+
+import type { default as CommentThread, Comment } from './commentthread';
+
+/**
+ * The command adding a reply to a comment thread. It is registered by
+ * {@link module:comments/commentsediting~CommentsEditing} as `'addComment'`.
+ *
+ * ```ts
+ * // Reply in the thread with the given id.
+ * editor.execute( 'addComment', { threadId: 'e1d2f3', content: 'I agree.' } );
+ *
+ * // Reply in the thread at the selection.
+ * editor.execute( 'addComment', { content: 'I agree.' } );
+ * ```
+ */
+export default class AddCommentCommand extends Command {
+	/**
+	 * The thread at the selection that the comment will be added to when the command is executed without the `threadId` option.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: CommentThread | null;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		// Comment threads are stored outside the document, so commenting does not change the editor data.
+		this.affectsData = false;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.value = this.editor.plugins.get( 'CommentsEditing' ).getActiveCommentThread();
+		this.isEnabled = !!this.value;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.threadId The id of the thread. Defaults to the thread at the selection.
+	 * @param options.content The content of the comment.
+	 * @returns A promise resolved with the new comment once it is saved by the comments adapter.
+	 */
+	public override execute( { threadId, content }: { threadId?: string; content: string } ): Promise<Comment> | undefined {
+		const id = threadId || this.value && this.value.id;
+
+		if ( !id ) {
+			return;
+		}
+
+		return this.editor.plugins.get( 'CommentsEditing' ).addComment( id, content );
+	}
+}
@@ -0,0 +1,44 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/addcommentthreadcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+import type CommentThread from './commentthread';
+
+/**
+ * The command starting a new comment thread on the selected content. It is registered by
+ * {@link module:comments/commentsediting~CommentsEditing} as `'addCommentThread'`.
+ *
+ * ```ts
+ * editor.execute( 'addCommentThread', { content: 'Is this correct?' } );
+ * ```
+ *
+ * The thread is anchored to the first range of the selection.
+ */
+export default class AddCommentThreadCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = !this.editor.model.document.selection.isCollapsed;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.content The content of the first comment in the thread.
+	 * @returns A promise resolved with the new thread once it is saved by the comments adapter.
+	 */
+	public override execute( { content }: { content: string } ): Promise<CommentThread> {
+		const range = this.editor.model.document.selection.getFirstRange()!;
+
+		return this.editor.plugins.get( 'CommentsEditing' ).addCommentThread( range, content );
+	}
+}
@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	CommentsConfig,
+	Comments,
+	CommentsEditing,
+	CommentsUI,
+	AddCommentThreadCommand,
+	AddCommentCommand,
+	CommentThreadCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the {@link module:comments/comments~Comments} feature.
+		 *
+		 * Read more in {@link module:comments/commentsconfig~CommentsConfig}.
+		 */
+		comments?: CommentsConfig;
+	}
+
+	interface PluginsMap {
+		[ Comments.pluginName ]: Comments;
+		[ CommentsEditing.pluginName ]: CommentsEditing;
+		[ CommentsUI.pluginName ]: CommentsUI;
+	}
+
+	interface CommandsMap {
+		addCommentThread: AddCommentThreadCommand;
+		addComment: AddCommentCommand;
+		resolveCommentThread: CommentThreadCommand;
+		deleteCommentThread: CommentThreadCommand;
+	}
+}
@@ -0,0 +1,38 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/comments
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import CommentsEditing from './commentsediting';
+import CommentsUI from './commentsui';
+
+/**
+ * The comments feature.
+ *
+ * It allows for adding threads of comments to ranges of the content. The threads can be stored in a custom backend
+ * using a {@link module:comments/commentsadapter~CommentsAdapter comments adapter}.
+ *
+ * This is a "glue" plugin which loads the {@link module:comments/commentsediting~CommentsEditing comments editing feature}
+ * and the {@link module:comments/commentsui~CommentsUI comments UI feature}.
+ */
+export default class Comments extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'Comments' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ CommentsEditing, CommentsUI ] as const;
+	}
+}
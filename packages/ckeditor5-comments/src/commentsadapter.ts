@@ -0,0 +1,66 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/commentsadapter
+ */
+
+import type { Comment, CommentThreadData } from './commentthread';
+
+/**
+ * An interface that allows for storing comment threads in a custom backend.
+ *
+ * The adapter should be set as {@link module:comments/commentsediting~CommentsEditing#adapter} before the editor data is loaded,
+ * for instance, in the `init()` method of a custom plugin:
+ *
+ * ```ts
+ * class CommentsAdapterPlugin extends Plugin {
+ * 	static get requires() {
+ * 		return [ Comments ];
+ * 	}
+ *
+ * 	init() {
+ * 		this.editor.plugins.get( 'CommentsEditing' ).adapter = {
+ * 			getCommentThread: threadId => fetchThread( threadId ),
+ * 			addCommentThread: data => saveThread( data ),
+ * 			// ...
+ * 		};
+ * 	}
+ * }
+ * ```
+ *
+ * All methods return promises. While a promise returned by a saving method is pending, the editor has
+ * a {@link module:core/pendingactions~PendingActions pending action} registered.
+ *
+ * See {@link module:comments/localcommentsadapter~LocalCommentsAdapter} for an in-memory implementation.
+ */
+export interface CommentsAdapter {
+
+	/**
+	 * Called when a `comment:<threadId>` marker of a thread unknown to the editor appears in the content,
+	 * for instance, when the editor data is loaded. It should resolve with the thread data or `null` if the thread was not found.
+	 */
+	getCommentThread( threadId: string ): Promise<CommentThreadData | null>;
+
+	/**
+	 * Called when a new comment thread is created.
+	 */
+	addCommentThread( data: CommentThreadData ): Promise<unknown>;
+
+	/**
+	 * Called when a comment is added to an existing thread.
+	 */
+	addComment( threadId: string, comment: Comment ): Promise<unknown>;
+
+	/**
+	 * Called when a comment thread is resolved.
+	 */
+	resolveCommentThread( threadId: string ): Promise<unknown>;
+
+	/**
+	 * Called when a comment thread is deleted.
+	 */
+	removeCommentThread( threadId: string ): Promise<unknown>;
+}
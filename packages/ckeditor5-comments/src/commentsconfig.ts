@@ -0,0 +1,60 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/commentsconfig
+ */
+
+/**
+ * The configuration of the comments feature.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		comments: ... // Comments feature options.
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor options}.
+ */
+export interface CommentsConfig {
+
+	/**
+	 * The author of the comments created in the editor instance.
+	 *
+	 * ```ts
+	 * ClassicEditor
+	 * 	.create( editorElement, {
+	 * 		plugins: [ Comments, ... ],
+	 * 		comments: {
+	 * 			author: { id: 'u1', name: 'Jane Doe' }
+	 * 		}
+	 * 	} )
+	 * 	.then( ... )
+	 * 	.catch( ... );
+	 * ```
+	 *
+	 * Defaults to an anonymous author with the `'anonymous'` id.
+	 */
+	author?: CommentAuthor;
+}
+
+/**
+ * The author of a comment.
+ */
+export interface CommentAuthor {
+
+	/**
+	 * The unique id of the author. It is stored in the {@link module:comments/commentthread~Comment#authorId comments}.
+	 */
+	id: string;
+
+	/**
+	 * The name of the author displayed in the user interface.
+	 */
+	name: string;
+}
@@ -0,0 +1,501 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/commentsediting
+ */
+
+import { PendingActions, Plugin, type Editor } from 'ckeditor5/src/core';
+import { CKEditorError, Collection, uid } from 'ckeditor5/src/utils';
+import { Notification } from 'ckeditor5/src/ui';
+import {
+	LiveRange,
+	type DowncastWriter,
+	type MarkerCollectionUpdateEvent,
+	type Range,
+	type ViewElement
+} from 'ckeditor5/src/engine';
+
+import CommentThread, { type Comment } from './commentthread';
+import AddCommentThreadCommand from './addcommentthreadcommand';
+import AddCommentCommand from './addcommentcommand';
+import CommentThreadCommand from './commentthreadcommand';
+import { COMMENT_MARKER_GROUP, getCommentMarkerName, getCommentThreadId } from './utils';
+import type { CommentsAdapter } from './commentsadapter';
+import type { CommentAuthor } from './commentsconfig';
+
+import '../theme/comments.css';
+
+const ACTIVE_THREAD_CLASS = 'ck-comment-marker_active';
+
+/**
+ * The editing part of the comments feature.
+ *
+ * Every {@link module:comments/commentthread~CommentThread comment thread} is anchored to the content by
+ * a `comment:<threadId>` {@link module:engine/model/markercollection~Marker marker}, so the commented range
+ * follows the changes in the content. In the editor data, the markers are stored as `<comment-start>`
+ * and `<comment-end>` elements (or `data-comment-*` attributes) while the comments themselves are kept
+ * by the {@link ~CommentsEditing#adapter comments adapter}.
+ *
+ * The plugin registers the following commands:
+ *
+ * * `'addCommentThread'` &ndash; starts a new thread on the selected content,
+ * * `'addComment'` &ndash; adds a reply to a thread,
+ * * `'resolveCommentThread'` &ndash; resolves a thread,
+ * * `'deleteCommentThread'` &ndash; deletes a thread together with its marker.
+ *
+ * **Note:** Adding and deleting threads cannot be undone as the threads are stored outside the document.
+ *
+ * The changes are applied locally first. If the adapter fails to save a change, the change is reverted
+ * and a warning is displayed using the {@link module:ui/notification/notification~Notification notification plugin}.
+ */
+export default class CommentsEditing extends Plugin {
+	/**
+	 * The adapter storing the comment threads.
+	 *
+	 * When a thread marker appears in the content and the thread is not known yet, the thread is
+	 * loaded using {@link module:comments/commentsadapter~CommentsAdapter#getCommentThread}. All changes in the threads
+	 * are passed to the adapter as they happen. Without an adapter, the threads are only kept in memory.
+	 */
+	public adapter?: CommentsAdapter;
+
+	/**
+	 * The comment threads anchored in the content.
+	 */
+	public readonly threads: Collection<CommentThread> = new Collection();
+
+	/**
+	 * Known comment authors, by their ids.
+	 */
+	public readonly authors: Map<string, CommentAuthor> = new Map();
+
+	/**
+	 * The author of the comments created in this editor instance.
+	 */
+	public readonly currentAuthor: CommentAuthor;
+
+	/**
+	 * All threads ever anchored in the content, by their ids. It allows for restoring a thread
+	 * when its marker comes back, for instance, after undoing the removal of the commented content.
+	 */
+	private readonly _knownThreads: Map<string, CommentThread> = new Map();
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'CommentsEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ PendingActions, Notification ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'comments', {
+			author: {
+				id: 'anonymous',
+				name: editor.t( 'Anonymous' )
+			}
+		} );
+
+		this.currentAuthor = editor.config.get( 'comments.author' )!;
+		this.addAuthor( this.currentAuthor );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+
+		editor.commands.add( 'addCommentThread', new AddCommentThreadCommand( editor ) );
+		editor.commands.add( 'addComment', new AddCommentCommand( editor ) );
+		editor.commands.add( 'resolveCommentThread', new CommentThreadCommand( editor, 'resolve' ) );
+		editor.commands.add( 'deleteCommentThread', new CommentThreadCommand( editor, 'delete' ) );
+
+		editor.conversion.for( 'editingDowncast' ).markerToHighlight( {
+			model: COMMENT_MARKER_GROUP,
+			view: ( { markerName } ) => {
+				const thread = this.getCommentThread( getCommentThreadId( markerName )! );
+				const classes = [ 'ck-comment-marker' ];
+
+				if ( thread && thread.isResolved ) {
+					classes.push( 'ck-comment-marker_resolved' );
+				}
+
+				return {
+					classes,
+					attributes: {
+						'data-comment': getCommentThreadId( markerName )!
+					}
+				};
+			}
+		} );
+
+		editor.conversion.for( 'dataDowncast' ).markerToData( {
+			model: COMMENT_MARKER_GROUP
+		} );
+
+		editor.conversion.for( 'upcast' ).dataToMarker( {
+			view: COMMENT_MARKER_GROUP
+		} );
+
+		this.listenTo<MarkerCollectionUpdateEvent>( editor.model.markers, 'update', ( evt, marker, oldRange, newRange ) => {
+			const threadId = getCommentThreadId( marker.name );
+
+			if ( !threadId ) {
+				return;
+			}
+
+			if ( !oldRange && newRange ) {
+				this._attachThread( threadId );
+			} else if ( oldRange && !newRange && this.threads.has( threadId ) ) {
+				this.threads.remove( threadId );
+			}
+		} );
+
+		this._setupActiveThreadHighlighting();
+	}
+
+	/**
+	 * Registers a comment author so their name can be displayed in the user interface.
+	 */
+	public addAuthor( author: CommentAuthor ): void {
+		this.authors.set( author.id, author );
+	}
+
+	/**
+	 * Returns the author with the given id. For unknown authors, an author named after the id is returned.
+	 */
+	public getAuthor( id: string ): CommentAuthor {
+		return this.authors.get( id ) || { id, name: id };
+	}
+
+	/**
+	 * Returns the comment thread with the given id or `null` if the thread is not anchored in the content.
+	 */
+	public getCommentThread( threadId: string ): CommentThread | null {
+		return this.threads.get( threadId );
+	}
+
+	/**
+	 * Returns the unresolved comment thread at the model selection or `null` if the selection is not in a commented range.
+	 * If the selection intersects many threads, the one starting closest to the selection is returned.
+	 */
+	public getActiveCommentThread(): CommentThread | null {
+		const model = this.editor.model;
+		const selectionRange = model.document.selection.getFirstRange();
+		let activeThread: CommentThread | null = null;
+		let activeThreadRange: Range | null = null;
+
+		if ( !selectionRange ) {
+			return null;
+		}
+
+		for ( const marker of model.markers.getMarkersIntersectingRange( selectionRange ) ) {
+			const thread = this.getCommentThread( getCommentThreadId( marker.name ) || '' );
+			const range = marker.getRange();
+
+			if ( !thread || thread.isResolved ) {
+				continue;
+			}
+
+			if ( !activeThreadRange || range.start.isAfter( activeThreadRange.start ) ) {
+				activeThread = thread;
+				activeThreadRange = range;
+			}
+		}
+
+		return activeThread;
+	}
+
+	/**
+	 * Starts a new comment thread on the given range.
+	 *
+	 * @param range The commented range of the content.
+	 * @param content The content of the first comment in the thread.
+	 * @returns A promise resolved with the new thread once it is saved by the {@link #adapter}. If the adapter fails,
+	 * the thread is removed from the content and the promise is rejected.
+	 */
+	public addCommentThread( range: Range, content: string ): Promise<CommentThread> {
+		const model = this.editor.model;
+		const thread = this._createThread( uid() );
+		const markerName = getCommentMarkerName( thread.id );
+
+		thread.comments.add( this._createComment( content ) );
+
+		model.enqueueChange( { isUndoable: false }, writer => {
+			writer.addMarker( markerName, { range, usingOperation: true, affectsData: true } );
+		} );
+
+		return this._persist( adapter => adapter.addCommentThread( thread.toJSON() ), () => {
+			this._knownThreads.delete( thread.id );
+
+			model.enqueueChange( { isUndoable: false }, writer => {
+				if ( model.markers.has( markerName ) ) {
+					writer.removeMarker( markerName );
+				}
+			} );
+		} ).then( () => thread );
+	}
+
+	/**
+	 * Adds a comment to an existing thread.
+	 *
+	 * @param threadId The id of the thread.
+	 * @param content The content of the comment.
+	 * @returns A promise resolved with the new comment once it is saved by the {@link #adapter}. If the adapter fails,
+	 * the comment is removed from the thread and the promise is rejected.
+	 */
+	public addComment( threadId: string, content: string ): Promise<Comment> {
+		const thread = this._getThreadOrThrow( threadId );
+		const comment = this._createComment( content );
+
+		thread.comments.add( comment );
+
+		return this._persist( adapter => adapter.addComment( threadId, { ...comment } ), () => {
+			if ( thread.comments.has( comment.id ) ) {
+				thread.comments.remove( comment.id );
+			}
+		} ).then( () => comment );
+	}
+
+	/**
+	 * Resolves a comment thread. The thread marker stays in the content but it is no longer highlighted.
+	 *
+	 * @param threadId The id of the thread.
+	 * @returns A promise resolved once the change is saved by the {@link #adapter}. If the adapter fails,
+	 * the thread is reopened and the promise is rejected.
+	 */
+	public resolveCommentThread( threadId: string ): Promise<void> {
+		const thread = this._getThreadOrThrow( threadId );
+		const wasResolved = thread.isResolved;
+
+		thread.isResolved = true;
+
+		return this._persist( adapter => adapter.resolveCommentThread( threadId ), () => {
+			thread.isResolved = wasResolved;
+		} );
+	}
+
+	/**
+	 * Deletes a comment thread and removes its marker from the content.
+	 *
+	 * @param threadId The id of the thread.
+	 * @returns A promise resolved once the change is saved by the {@link #adapter}. If the adapter fails,
+	 * the thread and its marker are restored and the promise is rejected.
+	 */
+	public deleteCommentThread( threadId: string ): Promise<void> {
+		const model = this.editor.model;
+		const thread = this._getThreadOrThrow( threadId );
+		const markerName = getCommentMarkerName( threadId );
+
+		// The range follows the changes in the content, so the marker can be restored if the adapter fails.
+		const markerRange = LiveRange.fromRange( model.markers.get( markerName )!.getRange() );
+
+		this._knownThreads.delete( threadId );
+
+		model.enqueueChange( { isUndoable: false }, writer => {
+			writer.removeMarker( markerName );
+		} );
+
+		return this._persist( adapter => adapter.removeCommentThread( threadId ), () => {
+			this._knownThreads.set( threadId, thread );
+
+			// The commented content could have been removed in the meantime.
+			if ( markerRange.root != model.document.graveyard ) {
+				model.enqueueChange( { isUndoable: false }, writer => {
+					writer.addMarker( markerName, { range: markerRange.toRange(), usingOperation: true, affectsData: true } );
+				} );
+			}
+		} ).finally( () => {
+			markerRange.detach();
+		} );
+	}
+
+	/**
+	 * Adds the thread of a marker that appeared in the content to the {@link #threads} collection.
+	 * Threads that were not anchored in the content before are loaded using the {@link #adapter}.
+	 */
+	private _attachThread( threadId: string ): void {
+		let thread = this._knownThreads.get( threadId );
+
+		if ( !thread ) {
+			thread = this._createThread( threadId );
+
+			this._loadThread( thread );
+		}
+
+		if ( !this.threads.has( threadId ) ) {
+			this.threads.add( thread );
+		}
+	}
+
+	/**
+	 * Fills the thread with the data provided by the {@link #adapter}. A warning is displayed if the adapter fails.
+	 */
+	private _loadThread( thread: CommentThread ): void {
+		if ( !this.adapter ) {
+			return;
+		}
+
+		const t = this.editor.t;
+
+		this.adapter.getCommentThread( thread.id ).then( data => {
+			if ( !data ) {
+				return;
+			}
+
+			for ( const comment of data.comments ) {
+				if ( !thread.comments.has( comment.id ) ) {
+					thread.comments.add( { ...comment } );
+				}
+			}
+
+			thread.isResolved = data.isResolved;
+		}, () => {
+			this._showWarning( t( 'The comments could not be loaded.' ) );
+		} );
+	}
+
+	/**
+	 * Creates a new thread instance and registers it in the known threads.
+	 */
+	private _createThread( threadId: string ): CommentThread {
+		const thread = new CommentThread( threadId );
+
+		// The highlight of resolved threads is different, so the marker must be converted again.
+		this.listenTo( thread, 'change:isResolved', () => {
+			const markerName = getCommentMarkerName( threadId );
+
+			if ( this.editor.model.markers.has( markerName ) ) {
+				this.editor.editing.reconvertMarker( markerName );
+			}
+		} );
+
+		this._knownThreads.set( threadId, thread );
+
+		return thread;
+	}
+
+	/**
+	 * Creates a new comment authored by the {@link #currentAuthor}.
+	 */
+	private _createComment( content: string ): Comment {
+		return {
+			id: uid(),
+			authorId: this.currentAuthor.id,
+			content,
+			createdAt: new Date()
+		};
+	}
+
+	/**
+	 * Returns the thread with the given id. Throws if the thread is not anchored in the content.
+	 */
+	private _getThreadOrThrow( threadId: string ): CommentThread {
+		const thread = this.getCommentThread( threadId );
+
+		if ( !thread ) {
+			/**
+			 * The comment thread with the given id is not anchored in the editor content.
+			 *
+			 * @error comments-thread-not-found
+			 * @param threadId The id of the comment thread.
+			 */
+			throw new CKEditorError( 'comments-thread-not-found', this, { threadId } );
+		}
+
+		return thread;
+	}
+
+	/**
+	 * Passes a change to the {@link #adapter}. While the adapter saves the change, a pending action is registered in the editor.
+	 * If the adapter fails, the local change is reverted, a warning is displayed and the returned promise is rejected.
+	 *
+	 * @param callback Saves the change using the adapter.
+	 * @param revert Reverts the change applied locally.
+	 */
+	private _persist( callback: ( adapter: CommentsAdapter ) => Promise<unknown>, revert: () => void ): Promise<void> {
+		if ( !this.adapter ) {
+			return Promise.resolve();
+		}
+
+		const t = this.editor.t;
+		const pendingActions = this.editor.plugins.get( PendingActions );
+		const action = pendingActions.add( t( 'Saving comments' ) );
+
+		return callback( this.adapter )
+			.then( () => {
+				pendingActions.remove( action );
+			}, error => {
+				pendingActions.remove( action );
+				revert();
+				this._showWarning( t( 'The changes in the comments could not be saved.' ) );
+
+				throw error;
+			} );
+	}
+
+	/**
+	 * Displays a warning about a failure of the {@link #adapter}.
+	 */
+	private _showWarning( message: string ): void {
+		this.editor.plugins.get( Notification ).showWarning( message, {
+			title: this.editor.t( 'Comments error' ),
+			namespace: 'comments'
+		} );
+	}
+
+	/**
+	 * Adds a class to the view elements of the {@link #getActiveCommentThread active thread}.
+	 */
+	private _setupActiveThreadHighlighting(): void {
+		const editor = this.editor;
+		const view = editor.editing.view;
+		const highlightedElements = new Set<ViewElement>();
+
+		view.document.registerPostFixer( ( writer: DowncastWriter ): boolean => {
+			const thread = this.getActiveCommentThread();
+
+			if ( !thread ) {
+				return false;
+			}
+
+			for ( const viewElement of editor.editing.mapper.markerNameToElements( getCommentMarkerName( thread.id ) ) || [] ) {
+				writer.addClass( ACTIVE_THREAD_CLASS, viewElement );
+				highlightedElements.add( viewElement );
+			}
+
+			return false;
+		} );
+
+		editor.conversion.for( 'editingDowncast' ).add( dispatcher => {
+			// Make sure the highlight is removed on every possible event, before conversion is started.
+			dispatcher.on( 'insert', removeHighlight, { priority: 'highest' } );
+			dispatcher.on( 'remove', removeHighlight, { priority: 'highest' } );
+			dispatcher.on( 'attribute', removeHighlight, { priority: 'highest' } );
+			dispatcher.on( 'selection', removeHighlight, { priority: 'highest' } );
+
+			function removeHighlight() {
+				view.change( writer => {
+					for ( const viewElement of highlightedElements.values() ) {
+						writer.removeClass( ACTIVE_THREAD_CLASS, viewElement );
+						highlightedElements.delete( viewElement );
+					}
+				} );
+			}
+		} );
+	}
+}
@@ -0,0 +1,367 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/commentsui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { ClickObserver, type ViewDocumentClickEvent } from 'ckeditor5/src/engine';
+import {
+	ButtonView,
+	ContextualBalloon,
+	clickOutsideHandler
+} from 'ckeditor5/src/ui';
+import type { PositionOptions } from 'ckeditor5/src/utils';
+
+import CommentThreadView from './ui/commentthreadview';
+import CommentView from './ui/commentview';
+import { getCommentMarkerName } from './utils';
+import type CommentThread from './commentthread';
+import type CommentsEditing from './commentsediting';
+
+import commentIcon from '../theme/icons/comment.svg';
+
+const COMMENT_KEYSTROKE = 'Ctrl+Alt+M';
+
+/**
+ * The comments UI plugin. It introduces the `'comment'` button and the <kbd>Ctrl</kbd>+<kbd>Alt</kbd>+<kbd>M</kbd>
+ * keystroke starting a new comment thread on the selected content.
+ *
+ * It uses the {@link module:ui/panel/balloon/contextualballoon~ContextualBalloon contextual balloon plugin} to display
+ * the {@link module:comments/ui/commentthreadview~CommentThreadView thread view} when the selection is in a commented range.
+ */
+export default class CommentsUI extends Plugin {
+	/**
+	 * The view displaying the comment thread in the balloon.
+	 */
+	public threadView: CommentThreadView | null = null;
+
+	/**
+	 * The contextual balloon plugin instance.
+	 */
+	private _balloon!: ContextualBalloon;
+
+	/**
+	 * The thread displayed in the {@link #threadView} or `null` when the view is used to start a new thread.
+	 */
+	private _thread: CommentThread | null = null;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ ContextualBalloon ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'CommentsUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.editing.view.addObserver( ClickObserver );
+
+		this._balloon = editor.plugins.get( ContextualBalloon );
+
+		editor.ui.componentFactory.add( 'comment', locale => {
+			const command = editor.commands.get( 'addCommentThread' )!;
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Comment' ),
+				icon: commentIcon,
+				keystroke: COMMENT_KEYSTROKE,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).to( command );
+
+			this.listenTo( view, 'execute', () => this._showUI( true ) );
+
+			return view;
+		} );
+
+		// Show the thread when the selection is placed in a commented range but keep the focus in the editable.
+		this.listenTo<ViewDocumentClickEvent>( editor.editing.view.document, 'click', () => {
+			if ( this._getCommentsEditing().getActiveCommentThread() ) {
+				this._showUI();
+			}
+		} );
+
+		editor.keystrokes.set( COMMENT_KEYSTROKE, ( keyEvtData, cancel ) => {
+			cancel();
+
+			if ( editor.commands.get( 'addCommentThread' )!.isEnabled ) {
+				this._showUI( true );
+			}
+		} );
+
+		editor.accessibility.addKeystrokeInfos( {
+			keystrokes: [
+				{
+					label: t( 'Add a comment' ),
+					keystroke: COMMENT_KEYSTROKE
+				}
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		// Destroy created UI components as they are not automatically destroyed (see ckeditor5#1341).
+		if ( this.threadView ) {
+			this.threadView.destroy();
+		}
+	}
+
+	/**
+	 * Creates the {@link #threadView} and attaches its actions.
+	 */
+	private _createThreadView(): CommentThreadView {
+		const editor = this.editor;
+		const threadView = new CommentThreadView( editor.locale );
+
+		this.listenTo( threadView, 'submit', () => {
+			const content = threadView.content;
+
+			if ( !content ) {
+				return;
+			}
+
+			if ( this._thread ) {
+				catchAdapterError( editor.execute( 'addComment', { threadId: this._thread.id, content } ) );
+			} else {
+				catchAdapterError( editor.execute( 'addCommentThread', { content } ) );
+			}
+
+			threadView.content = '';
+			this._setThread( this._getCommentsEditing().getActiveCommentThread() );
+		} );
+
+		this.listenTo( threadView, 'resolve', () => {
+			catchAdapterError( editor.execute( 'resolveCommentThread', { threadId: this._thread!.id } ) );
+			this._hideUI();
+		} );
+
+		this.listenTo( threadView, 'delete', () => {
+			catchAdapterError( editor.execute( 'deleteCommentThread', { threadId: this._thread!.id } ) );
+			this._hideUI();
+		} );
+
+		this.listenTo( threadView, 'cancel', () => {
+			this._hideUI();
+		} );
+
+		// Close the panel on the Esc key press when the **thread view has focus**.
+		threadView.keystrokes.set( 'Esc', ( data, cancel ) => {
+			this._hideUI();
+			cancel();
+		} );
+
+		// Focus the thread view if the balloon is visible and the Tab key has been pressed.
+		editor.keystrokes.set( 'Tab', ( data, cancel ) => {
+			if ( this._isUIVisible && !threadView.focusTracker.isFocused ) {
+				threadView.focus();
+				cancel();
+			}
+		}, {
+			// Use the high priority because the comments UI navigation is more important
+			// than other feature's actions, e.g. list indentation.
+			priority: 'high'
+		} );
+
+		// Close the panel on the Esc key press when the editable has focus and the balloon is visible.
+		editor.keystrokes.set( 'Esc', ( data, cancel ) => {
+			if ( this._isUIVisible ) {
+				this._hideUI();
+				cancel();
+			}
+		} );
+
+		// Close on click outside of balloon panel element.
+		clickOutsideHandler( {
+			emitter: threadView,
+			activator: () => this._isUIInPanel,
+			contextElements: () => [ this._balloon.view.element! ],
+			callback: () => this._hideUI()
+		} );
+
+		return threadView;
+	}
+
+	/**
+	 * Shows the {@link #threadView} in the balloon.
+	 *
+	 * @param isNewThread Whether the view should start a new thread on the selected content. Otherwise,
+	 * the thread at the selection is displayed.
+	 */
+	private _showUI( isNewThread: boolean = false ): void {
+		const thread = isNewThread ? null : this._getCommentsEditing().getActiveCommentThread();
+
+		if ( !isNewThread && !thread ) {
+			return;
+		}
+
+		if ( !this.threadView ) {
+			this.threadView = this._createThreadView();
+		}
+
+		this._setThread( thread );
+
+		if ( !this._isUIInPanel ) {
+			this._balloon.add( {
+				view: this.threadView,
+				position: this._getBalloonPositionData()
+			} );
+
+			this._startUpdatingUI();
+		}
+
+		this.threadView.content = '';
+
+		this._balloon.showStack( 'main' );
+
+		if ( isNewThread ) {
+			this.threadView.focus();
+		}
+	}
+
+	/**
+	 * Removes the {@link #threadView} from the balloon.
+	 */
+	private _hideUI(): void {
+		if ( !this._isUIInPanel ) {
+			return;
+		}
+
+		const editor = this.editor;
+
+		this.stopListening( editor.ui, 'update' );
+
+		// Make sure the focus always gets back to the editable _before_ removing the focused view.
+		editor.editing.view.focus();
+
+		this._balloon.remove( this.threadView! );
+		this._setThread( null );
+	}
+
+	/**
+	 * Makes the UI react to the {@link module:ui/editorui/editorui~EditorUI#event:update} event to follow the selection.
+	 */
+	private _startUpdatingUI(): void {
+		this.listenTo( this.editor.ui, 'update', () => {
+			if ( !this._isUIVisible ) {
+				return;
+			}
+
+			const activeThread = this._getCommentsEditing().getActiveCommentThread();
+
+			// Hide the panel if the selection left the displayed thread or, when starting a new thread,
+			// there is no content to comment on anymore.
+			if ( this.threadView!.isNewThread ? !this.editor.commands.get( 'addCommentThread' )!.isEnabled : !activeThread ) {
+				this._hideUI();
+
+				return;
+			}
+
+			if ( !this.threadView!.isNewThread && activeThread !== this._thread ) {
+				this._setThread( activeThread );
+			}
+
+			this._balloon.updatePosition( this._getBalloonPositionData() );
+		} );
+	}
+
+	/**
+	 * Displays the comments of the given thread in the {@link #threadView}.
+	 *
+	 * @param thread The thread to display or `null` to start a new thread.
+	 */
+	private _setThread( thread: CommentThread | null ): void {
+		const threadView = this.threadView!;
+		const commentsView = threadView.commentsView;
+		const commentsEditing = this._getCommentsEditing();
+		const commentViews = Array.from( commentsView );
+
+		this._thread = thread;
+
+		commentsView.clear();
+		commentViews.forEach( view => view.destroy() );
+
+		threadView.isNewThread = !thread;
+
+		if ( thread ) {
+			commentsView.bindTo( thread.comments ).using( comment => new CommentView( this.editor.locale, {
+				authorName: commentsEditing.getAuthor( comment.authorId ).name,
+				content: comment.content,
+				createdAt: comment.createdAt
+			} ) );
+		}
+	}
+
+	/**
+	 * Returns positioning options for the balloon. When a thread is displayed, the balloon is attached to
+	 * the commented range. Otherwise, it is attached to the selection.
+	 */
+	private _getBalloonPositionData(): Partial<PositionOptions> {
+		const editing = this.editor.editing;
+		const view = editing.view;
+
+		// Make sure the target is calculated on demand at the last moment because a cached DOM range
+		// can desynchronize with the state of the editing view.
+		const target = () => {
+			const marker = this._thread && this.editor.model.markers.get( getCommentMarkerName( this._thread.id ) );
+			const viewRange = marker ? editing.mapper.toViewRange( marker.getRange() ) : view.document.selection.getFirstRange()!;
+
+			return view.domConverter.viewRangeToDom( viewRange );
+		};
+
+		return { target };
+	}
+
+	/**
+	 * Returns `true` when the {@link #threadView} is in the balloon.
+	 */
+	private get _isUIInPanel(): boolean {
+		return !!this.threadView && this._balloon.hasView( this.threadView );
+	}
+
+	/**
+	 * Returns `true` when the {@link #threadView} is in the balloon and it is currently visible.
+	 */
+	private get _isUIVisible(): boolean {
+		return !!this.threadView && this._balloon.visibleView === this.threadView;
+	}
+
+	/**
+	 * Returns the comments editing plugin.
+	 */
+	private _getCommentsEditing(): CommentsEditing {
+		return this.editor.plugins.get( 'CommentsEditing' );
+	}
+}
+
+/**
+ * Handles the rejection of the promise returned by a comments command. The failures of the comments adapter are
+ * already reported and reverted by {@link module:comments/commentsediting~CommentsEditing}.
+ */
+function catchAdapterError( promise: Promise<unknown> | undefined ): void {
+	if ( promise ) {
+		promise.catch( () => {} );
+	}
+}
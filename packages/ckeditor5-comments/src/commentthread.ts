@@ -0,0 +1,105 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/commentthread
+ */
+
+import { Collection, ObservableMixin } from 'ckeditor5/src/utils';
+
+/**
+ * A thread of comments anchored to a range of the content by the `comment:<threadId>`
+ * {@link module:engine/model/markercollection~Marker marker}.
+ */
+export default class CommentThread extends ObservableMixin() {
+	/**
+	 * The unique id of the thread.
+	 */
+	public readonly id: string;
+
+	/**
+	 * The comments in the thread, in the order they were added.
+	 */
+	public readonly comments: Collection<Comment> = new Collection();
+
+	/**
+	 * Indicates whether the thread was resolved. Resolved threads are no longer highlighted in the content.
+	 *
+	 * @observable
+	 */
+	declare public isResolved: boolean;
+
+	/**
+	 * Creates an instance of the comment thread.
+	 *
+	 * @param id The unique id of the thread.
+	 */
+	constructor( id: string ) {
+		super();
+
+		this.id = id;
+
+		this.set( 'isResolved', false );
+	}
+
+	/**
+	 * Returns the data of the thread in the format used by {@link module:comments/commentsadapter~CommentsAdapter comments adapters}.
+	 */
+	public toJSON(): CommentThreadData {
+		return {
+			threadId: this.id,
+			comments: this.comments.map( comment => ( { ...comment } ) ),
+			isResolved: this.isResolved
+		};
+	}
+}
+
+/**
+ * A single comment in a {@link module:comments/commentthread~CommentThread comment thread}.
+ */
+export interface Comment {
+
+	/**
+	 * The unique id of the comment.
+	 */
+	id: string;
+
+	/**
+	 * The id of the {@link module:comments/commentsconfig~CommentAuthor comment author}.
+	 */
+	authorId: string;
+
+	/**
+	 * The plain text content of the comment.
+	 */
+	content: string;
+
+	/**
+	 * The date when the comment was created.
+	 */
+	createdAt: Date;
+}
+
+/**
+ * The data of a {@link module:comments/commentthread~CommentThread comment thread} exchanged with
+ * {@link module:comments/commentsadapter~CommentsAdapter comments adapters}.
+ */
+export interface CommentThreadData {
+
+	/**
+	 * The unique id of the thread.
+	 */
+	threadId: string;
+
+	/**
+	 * The comments in the thread.
+	 */
+	comments: Array<Comment>;
+
+	/**
+	 * Indicates whether the thread was resolved.
+	 */
+	isResolved: boolean;
+}
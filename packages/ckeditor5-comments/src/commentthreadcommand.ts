@@ -0,0 +1,83 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/commentthreadcommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+
+import type CommentThread from './commentthread';
+
+/**
+ * The command resolving or deleting a comment thread. It is registered by
+ * {@link module:comments/commentsediting~CommentsEditing} as `'resolveCommentThread'` and `'deleteCommentThread'`.
+ *
+ * ```ts
+ * // Resolve the thread with the given id.
+ * editor.execute( 'resolveCommentThread', { threadId: 'e1d2f3' } );
+ *
+ * // Delete the thread at the selection.
+ * editor.execute( 'deleteCommentThread' );
+ * ```
+ */
+export default class CommentThreadCommand extends Command {
+	/**
+	 * The thread at the selection that will be resolved or deleted when the command is executed without the `threadId` option.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: CommentThread | null;
+
+	/**
+	 * Whether the command resolves or deletes threads.
+	 */
+	public readonly action: 'resolve' | 'delete';
+
+	/**
+	 * Creates an instance of the command.
+	 *
+	 * @param action Whether the command resolves or deletes threads.
+	 */
+	constructor( editor: Editor, action: 'resolve' | 'delete' ) {
+		super( editor );
+
+		this.action = action;
+
+		// Resolving a thread does not change the editor data.
+		this.affectsData = action == 'delete';
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.value = this.editor.plugins.get( 'CommentsEditing' ).getActiveCommentThread();
+		this.isEnabled = !!this.value;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.threadId The id of the thread. Defaults to the thread at the selection.
+	 * @returns A promise resolved once the change is saved by the comments adapter.
+	 */
+	public override execute( options: { threadId?: string } = {} ): Promise<void> | undefined {
+		const commentsEditing = this.editor.plugins.get( 'CommentsEditing' );
+		const threadId = options.threadId || this.value && this.value.id;
+
+		if ( !threadId ) {
+			return;
+		}
+
+		if ( this.action == 'resolve' ) {
+			return commentsEditing.resolveCommentThread( threadId );
+		}
+
+		return commentsEditing.deleteCommentThread( threadId );
+	}
+}
@@ -0,0 +1,24 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments
+ */
+
+export { default as Comments } from './comments';
+export { default as CommentsEditing } from './commentsediting';
+export { default as CommentsUI } from './commentsui';
+export { default as CommentThread, type Comment, type CommentThreadData } from './commentthread';
+export { default as AddCommentThreadCommand } from './addcommentthreadcommand';
+export { default as AddCommentCommand } from './addcommentcommand';
+export { default as CommentThreadCommand } from './commentthreadcommand';
+export { default as LocalCommentsAdapter } from './localcommentsadapter';
+export { default as CommentThreadView } from './ui/commentthreadview';
+export { default as CommentView } from './ui/commentview';
+export { getCommentMarkerName, getCommentThreadId } from './utils';
+export type { CommentsAdapter } from './commentsadapter';
+export type { CommentsConfig, CommentAuthor } from './commentsconfig';
+
+import './augmentation';
@@ -0,0 +1,120 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/localcommentsadapter
+ */
+
+import { CKEditorError } from 'ckeditor5/src/utils';
+
+import type { CommentsAdapter } from './commentsadapter';
+import type { Comment, CommentThreadData } from './commentthread';
+
+/**
+ * A {@link module:comments/commentsadapter~CommentsAdapter comments adapter} keeping comment threads in memory.
+ *
+ * It is useful for testing and prototyping an integration. The stored data is lost when the adapter instance is garbage collected.
+ *
+ * ```ts
+ * const adapter = new LocalCommentsAdapter( [
+ * 	{ threadId: 't1', isResolved: false, comments: [ ... ] }
+ * ] );
+ *
+ * editor.plugins.get( 'CommentsEditing' ).adapter = adapter;
+ * ```
+ */
+export default class LocalCommentsAdapter implements CommentsAdapter {
+	/**
+	 * The stored comment threads, by their ids.
+	 */
+	public readonly threads: Map<string, CommentThreadData> = new Map();
+
+	/**
+	 * Creates an instance of the adapter.
+	 *
+	 * @param threads The initial comment threads.
+	 */
+	constructor( threads: Array<CommentThreadData> = [] ) {
+		for ( const data of threads ) {
+			this.threads.set( data.threadId, cloneThreadData( data ) );
+		}
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public getCommentThread( threadId: string ): Promise<CommentThreadData | null> {
+		const data = this.threads.get( threadId );
+
+		return Promise.resolve( data ? cloneThreadData( data ) : null );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public addCommentThread( data: CommentThreadData ): Promise<void> {
+		this.threads.set( data.threadId, cloneThreadData( data ) );
+
+		return Promise.resolve();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public addComment( threadId: string, comment: Comment ): Promise<void> {
+		const data = this.threads.get( threadId );
+
+		if ( !data ) {
+			return Promise.reject( createThreadNotFoundError( threadId ) );
+		}
+
+		data.comments.push( { ...comment } );
+
+		return Promise.resolve();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public resolveCommentThread( threadId: string ): Promise<void> {
+		const data = this.threads.get( threadId );
+
+		if ( !data ) {
+			return Promise.reject( createThreadNotFoundError( threadId ) );
+		}
+
+		data.isResolved = true;
+
+		return Promise.resolve();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public removeCommentThread( threadId: string ): Promise<void> {
+		this.threads.delete( threadId );
+
+		return Promise.resolve();
+	}
+}
+
+function cloneThreadData( data: CommentThreadData ): CommentThreadData {
+	return {
+		threadId: data.threadId,
+		comments: data.comments.map( comment => ( { ...comment } ) ),
+		isResolved: data.isResolved
+	};
+}
+
+function createThreadNotFoundError( threadId: string ): CKEditorError {
+	/**
+	 * The comment thread with the given id is not stored in the
+	 * {@link module:comments/localcommentsadapter~LocalCommentsAdapter local comments adapter}.
+	 *
+	 * @error local-comments-adapter-thread-not-found
+	 * @param threadId The id of the comment thread.
+	 */
+	return new CKEditorError( 'local-comments-adapter-thread-not-found', null, { threadId } );
+}
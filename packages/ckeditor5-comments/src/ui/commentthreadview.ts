@@ -0,0 +1,307 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/ui/commentthreadview
+ */
+
+import {
+	ButtonView,
+	FocusCycler,
+	LabeledFieldView,
+	View,
+	ViewCollection,
+	createLabeledInputText,
+	submitHandler,
+	type InputTextView
+} from 'ckeditor5/src/ui';
+import { FocusTracker, KeystrokeHandler, type Locale } from 'ckeditor5/src/utils';
+import { icons } from 'ckeditor5/src/core';
+
+import type CommentView from './commentview';
+
+// eslint-disable-next-line ckeditor5-rules/ckeditor-imports
+import '@ckeditor/ckeditor5-ui/theme/components/responsive-form/responsiveform.css';
+import '../../theme/commentthread.css';
+
+/**
+ * The view displaying the comments of a thread together with a form for adding a new comment.
+ *
+ * When {@link #isNewThread} is `true`, the view serves as a form for starting a new thread.
+ */
+export default class CommentThreadView extends View {
+	/**
+	 * Tracks information about the DOM focus in the view.
+	 */
+	public readonly focusTracker = new FocusTracker();
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes = new KeystrokeHandler();
+
+	/**
+	 * The collection of the {@link module:comments/ui/commentview~CommentView comment views}.
+	 */
+	public readonly commentsView: ViewCollection<CommentView>;
+
+	/**
+	 * The input for the content of a new comment.
+	 */
+	public readonly inputView: LabeledFieldView<InputTextView>;
+
+	/**
+	 * The button submitting a new comment.
+	 */
+	public readonly submitButtonView: ButtonView;
+
+	/**
+	 * The button resolving the thread.
+	 */
+	public readonly resolveButtonView: ButtonView;
+
+	/**
+	 * The button deleting the thread.
+	 */
+	public readonly deleteButtonView: ButtonView;
+
+	/**
+	 * The button closing the view.
+	 */
+	public readonly cancelButtonView: ButtonView;
+
+	/**
+	 * Indicates whether the view is used to start a new thread. In that case, the list of comments
+	 * and the thread actions are hidden.
+	 *
+	 * @observable
+	 */
+	declare public isNewThread: boolean;
+
+	/**
+	 * A collection of views that can be focused in the view.
+	 */
+	private readonly _focusables = new ViewCollection();
+
+	/**
+	 * Helps cycling over {@link #_focusables} in the view.
+	 */
+	private readonly _focusCycler: FocusCycler;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const t = locale.t;
+		const bind = this.bindTemplate;
+
+		this.set( 'isNewThread', false );
+
+		this.commentsView = this.createCollection();
+		this.inputView = this._createInput();
+		this.resolveButtonView = this._createButton( t( 'Resolve' ), icons.check, 'ck-button-resolve', 'resolve' );
+		this.deleteButtonView = this._createButton( t( 'Delete' ), icons.eraser, 'ck-button-delete', 'delete' );
+		this.cancelButtonView = this._createButton( t( 'Cancel' ), icons.cancel, 'ck-button-cancel', 'cancel' );
+		this.submitButtonView = this._createButton( t( 'Submit' ), icons.check, 'ck-button-save' );
+		this.submitButtonView.type = 'submit';
+
+		this.resolveButtonView.bind( 'isVisible' ).to( this, 'isNewThread', isNewThread => !isNewThread );
+		this.deleteButtonView.bind( 'isVisible' ).to( this, 'isNewThread', isNewThread => !isNewThread );
+
+		this._focusCycler = new FocusCycler( {
+			focusables: this._focusables,
+			focusTracker: this.focusTracker,
+			keystrokeHandler: this.keystrokes,
+			actions: {
+				// Navigate form fields backwards using the Shift + Tab keystroke.
+				focusPrevious: 'shift + tab',
+
+				// Navigate form fields forwards using the Tab key.
+				focusNext: 'tab'
+			}
+		} );
+
+		this.setTemplate( {
+			tag: 'form',
+
+			attributes: {
+				class: [ 'ck', 'ck-comment-thread', 'ck-responsive-form', 'ck-vertical-form' ],
+
+				// https://github.com/ckeditor/ckeditor5-link/issues/90
+				tabindex: '-1'
+			},
+
+			children: [
+				{
+					tag: 'div',
+					attributes: {
+						class: [
+							'ck',
+							'ck-comment-thread__comments',
+							bind.if( 'isNewThread', 'ck-hidden' )
+						]
+					},
+					children: this.commentsView
+				},
+				this.inputView,
+				{
+					tag: 'div',
+					attributes: {
+						class: [ 'ck', 'ck-comment-thread__actions' ]
+					},
+					children: [
+						this.resolveButtonView,
+						this.deleteButtonView,
+						this.cancelButtonView,
+						this.submitButtonView
+					]
+				}
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		submitHandler( {
+			view: this
+		} );
+
+		const childViews = [
+			this.inputView,
+			this.resolveButtonView,
+			this.deleteButtonView,
+			this.cancelButtonView,
+			this.submitButtonView
+		];
+
+		childViews.forEach( v => {
+			// Register the view as focusable.
+			this._focusables.add( v );
+
+			// Register the view in the focus tracker.
+			this.focusTracker.add( v.element! );
+		} );
+
+		// Start listening for the keystrokes coming from #element.
+		this.keystrokes.listenTo( this.element! );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Focuses the {@link #inputView}.
+	 */
+	public focus(): void {
+		this._focusCycler.focusFirst();
+	}
+
+	/**
+	 * The content of the new comment typed in the {@link #inputView}.
+	 */
+	public get content(): string {
+		return this.inputView.fieldView.element!.value.trim();
+	}
+
+	public set content( content: string ) {
+		this.inputView.fieldView.element!.value = content;
+	}
+
+	/**
+	 * Creates the labeled input for the content of a new comment.
+	 */
+	private _createInput(): LabeledFieldView<InputTextView> {
+		const t = this.locale!.t;
+		const labeledInput = new LabeledFieldView( this.locale, createLabeledInputText );
+
+		labeledInput.bind( 'label' ).to( this, 'isNewThread', isNewThread => isNewThread ? t( 'Comment' ) : t( 'Reply' ) );
+
+		return labeledInput;
+	}
+
+	/**
+	 * Creates a button view.
+	 *
+	 * @param label The button label.
+	 * @param icon The button icon.
+	 * @param className The additional button CSS class name.
+	 * @param eventName An event name that the `CommentThreadView#execute` event will be delegated to.
+	 */
+	private _createButton( label: string, icon: string, className: string, eventName?: string ): ButtonView {
+		const button = new ButtonView( this.locale );
+
+		button.set( {
+			label,
+			icon,
+			tooltip: true
+		} );
+
+		button.extendTemplate( {
+			attributes: {
+				class: className
+			}
+		} );
+
+		if ( eventName ) {
+			button.delegate( 'execute' ).to( this, eventName );
+		}
+
+		return button;
+	}
+}
+
+/**
+ * Fired when the form view is submitted (when one of the children triggered the submit event),
+ * for example, with a click on {@link ~CommentThreadView#submitButtonView}.
+ *
+ * @eventName ~CommentThreadView#submit
+ */
+export type CommentThreadViewSubmitEvent = {
+	name: 'submit';
+	args: [];
+};
+
+/**
+ * Fired when the {@link ~CommentThreadView#resolveButtonView} is clicked.
+ *
+ * @eventName ~CommentThreadView#resolve
+ */
+export type CommentThreadViewResolveEvent = {
+	name: 'resolve';
+	args: [];
+};
+
+/**
+ * Fired when the {@link ~CommentThreadView#deleteButtonView} is clicked.
+ *
+ * @eventName ~CommentThreadView#delete
+ */
+export type CommentThreadViewDeleteEvent = {
+	name: 'delete';
+	args: [];
+};
+
+/**
+ * Fired when the {@link ~CommentThreadView#cancelButtonView} is clicked.
+ *
+ * @eventName ~CommentThreadView#cancel
+ */
+export type CommentThreadViewCancelEvent = {
+	name: 'cancel';
+	args: [];
+};
@@ -0,0 +1,93 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/ui/commentview
+ */
+
+import { View } from 'ckeditor5/src/ui';
+import type { Locale } from 'ckeditor5/src/utils';
+
+import '../../theme/commentthread.css';
+
+/**
+ * The view displaying a single comment in the {@link module:comments/ui/commentthreadview~CommentThreadView}.
+ */
+export default class CommentView extends View {
+	/**
+	 * The name of the comment author.
+	 *
+	 * @observable
+	 */
+	declare public authorName: string;
+
+	/**
+	 * The content of the comment.
+	 *
+	 * @observable
+	 */
+	declare public content: string;
+
+	/**
+	 * The date when the comment was created.
+	 *
+	 * @observable
+	 */
+	declare public createdAt: Date;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale, { authorName, content, createdAt }: { authorName: string; content: string; createdAt: Date } ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+
+		this.set( { authorName, content, createdAt } );
+
+		this.setTemplate( {
+			tag: 'div',
+
+			attributes: {
+				class: [ 'ck', 'ck-comment' ]
+			},
+
+			children: [
+				{
+					tag: 'div',
+					attributes: {
+						class: [ 'ck', 'ck-comment__header' ]
+					},
+					children: [
+						{
+							tag: 'span',
+							attributes: {
+								class: [ 'ck', 'ck-comment__author' ]
+							},
+							children: [ { text: bind.to( 'authorName' ) } ]
+						},
+						{
+							tag: 'time',
+							attributes: {
+								class: [ 'ck', 'ck-comment__date' ],
+								datetime: bind.to( 'createdAt', date => date.toISOString() )
+							},
+							children: [
+								{ text: bind.to( 'createdAt', date => date.toLocaleString( locale.uiLanguage ) ) }
+							]
+						}
+					]
+				},
+				{
+					tag: 'p',
+					attributes: {
+						class: [ 'ck', 'ck-comment__content' ]
+					},
+					children: [ { text: bind.to( 'content' ) } ]
+				}
+			]
+		} );
+	}
+}
@@ -0,0 +1,38 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module comments/utils
+ */
+
+/**
+ * The name of the marker group used by all comment threads.
+ */
+export const COMMENT_MARKER_GROUP = 'comment';
+
+/**
+ * Returns the name of the marker anchoring the comment thread with the given id.
+ *
+ * ```ts
+ * getCommentMarkerName( 'e1d2' ); // -> 'comment:e1d2'
+ * ```
+ */
+export function getCommentMarkerName( threadId: string ): string {
+	return `${ COMMENT_MARKER_GROUP }:${ threadId }`;
+}
+
+/**
+ * Returns the id of the comment thread anchored by the marker with the given name or `null`
+ * if the marker does not belong to a comment thread.
+ */
+export function getCommentThreadId( markerName: string ): string | null {
+	const prefix = `${ COMMENT_MARKER_GROUP }:`;
+
+	if ( !markerName.startsWith( prefix ) || markerName.length == prefix.length ) {
+		return null;
+	}
+
+	return markerName.slice( prefix.length );
+}
@@ -0,0 +1,107 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import ModelTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/modeltesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+
+import CommentsEditing from '../src/commentsediting';
+
+describe( 'AddCommentCommand', () => {
+	let editor, model, command, plugin;
+
+	beforeEach( async () => {
+		editor = await ModelTestEditor.create( {
+			plugins: [ Paragraph, CommentsEditing ]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'addComment' );
+		plugin = editor.plugins.get( 'CommentsEditing' );
+
+		editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>bar</p>' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	it( 'should not affect data', () => {
+		expect( command.affectsData ).to.be.false;
+	} );
+
+	describe( '#value', () => {
+		it( 'should be the thread at the selection', () => {
+			setSelection( 2 );
+
+			expect( command.value ).to.equal( plugin.getCommentThread( 't1' ) );
+		} );
+
+		it( 'should be null when the selection is not in a thread', () => {
+			setSelection( 5 );
+
+			expect( command.value ).to.be.null;
+		} );
+	} );
+
+	describe( '#isEnabled', () => {
+		it( 'should be true when the selection is in a thread', () => {
+			setSelection( 2 );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when the selection is not in a thread', () => {
+			setSelection( 5 );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be true when the editor is read-only', () => {
+			setSelection( 2 );
+
+			editor.enableReadOnlyMode( 'unit-test' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should add a comment to the thread at the selection', async () => {
+			setSelection( 2 );
+
+			const comment = await command.execute( { content: 'Bar.' } );
+
+			expect( plugin.getCommentThread( 't1' ).comments.get( 0 ) ).to.equal( comment );
+		} );
+
+		it( 'should add a comment to the thread with the given id', async () => {
+			editor.setData(
+				'<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>' +
+				'<comment-start name="t2"></comment-start>bar<comment-end name="t2"></comment-end></p>'
+			);
+
+			setSelection( 5 );
+
+			const comment = await command.execute( { threadId: 't1', content: 'Bar.' } );
+
+			expect( plugin.getCommentThread( 't1' ).comments.get( 0 ) ).to.equal( comment );
+		} );
+
+		it( 'should do nothing when there is no thread', () => {
+			const spy = sinon.spy( plugin, 'addComment' );
+
+			setSelection( 5 );
+
+			expect( command.execute( { content: 'Bar.' } ) ).to.be.undefined;
+			sinon.assert.notCalled( spy );
+		} );
+	} );
+
+	function setSelection( offset ) {
+		model.change( writer => {
+			writer.setSelection( model.document.getRoot().getChild( 0 ), offset );
+		} );
+	}
+} );
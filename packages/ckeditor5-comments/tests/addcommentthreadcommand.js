@@ -0,0 +1,73 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import ModelTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/modeltesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import CommentsEditing from '../src/commentsediting';
+
+describe( 'AddCommentThreadCommand', () => {
+	let editor, model, command;
+
+	beforeEach( async () => {
+		editor = await ModelTestEditor.create( {
+			plugins: [ Paragraph, CommentsEditing ]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'addCommentThread' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	describe( '#isEnabled', () => {
+		it( 'should be false when the selection is collapsed', () => {
+			setModelData( model, '<paragraph>f[]oo</paragraph>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be true when the selection is not collapsed', () => {
+			setModelData( model, '<paragraph>f[oo]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when the editor is read-only', () => {
+			setModelData( model, '<paragraph>f[oo]</paragraph>' );
+
+			editor.enableReadOnlyMode( 'unit-test' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should start a new thread on the selected content', async () => {
+			setModelData( model, '<paragraph>f[oo]</paragraph>' );
+
+			const thread = await command.execute( { content: 'Foo?' } );
+			const marker = model.markers.get( `comment:${ thread.id }` );
+
+			expect( marker.getRange().isEqual( model.document.selection.getFirstRange() ) ).to.be.true;
+			expect( thread.comments.get( 0 ).content ).to.equal( 'Foo?' );
+		} );
+
+		it( 'should use the plugin API', () => {
+			const spy = sinon.spy( editor.plugins.get( 'CommentsEditing' ), 'addCommentThread' );
+
+			setModelData( model, '<paragraph>f[oo]</paragraph>' );
+
+			command.execute( { content: 'Foo?' } );
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 0 ].isEqual( model.document.selection.getFirstRange() ) ).to.be.true;
+			expect( spy.firstCall.args[ 1 ] ).to.equal( 'Foo?' );
+		} );
+	} );
+} );
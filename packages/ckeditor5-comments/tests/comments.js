@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Comments from '../src/comments';
+import CommentsEditing from '../src/commentsediting';
+import CommentsUI from '../src/commentsui';
+
+describe( 'Comments', () => {
+	it( 'should be correctly named', () => {
+		expect( Comments.pluginName ).to.equal( 'Comments' );
+	} );
+
+	it( 'should require CommentsEditing and CommentsUI', () => {
+		expect( Comments.requires ).to.deep.equal( [ CommentsEditing, CommentsUI ] );
+	} );
+} );
@@ -0,0 +1,612 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import { PendingActions } from '@ckeditor/ckeditor5-core';
+import { Notification } from '@ckeditor/ckeditor5-ui';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import { setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { getData as getViewData } from '@ckeditor/ckeditor5-engine/src/dev-utils/view';
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+import CommentsEditing from '../src/commentsediting';
+import CommentThread from '../src/commentthread';
+import AddCommentThreadCommand from '../src/addcommentthreadcommand';
+import AddCommentCommand from '../src/addcommentcommand';
+import CommentThreadCommand from '../src/commentthreadcommand';
+import LocalCommentsAdapter from '../src/localcommentsadapter';
+
+describe( 'CommentsEditing', () => {
+	let editor, model, plugin;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, UndoEditing, CommentsEditing ],
+			comments: {
+				author: { id: 'jd', name: 'John Doe' }
+			}
+		} );
+
+		model = editor.model;
+		plugin = editor.plugins.get( CommentsEditing );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( CommentsEditing.pluginName ).to.equal( 'CommentsEditing' );
+	} );
+
+	it( 'should require PendingActions and Notification', () => {
+		expect( CommentsEditing.requires ).to.deep.equal( [ PendingActions, Notification ] );
+	} );
+
+	it( 'should register the commands', () => {
+		expect( editor.commands.get( 'addCommentThread' ) ).to.be.instanceOf( AddCommentThreadCommand );
+		expect( editor.commands.get( 'addComment' ) ).to.be.instanceOf( AddCommentCommand );
+		expect( editor.commands.get( 'resolveCommentThread' ) ).to.be.instanceOf( CommentThreadCommand );
+		expect( editor.commands.get( 'deleteCommentThread' ) ).to.be.instanceOf( CommentThreadCommand );
+	} );
+
+	describe( 'authors', () => {
+		it( 'should use the configured author as the current author', () => {
+			expect( plugin.currentAuthor ).to.deep.equal( { id: 'jd', name: 'John Doe' } );
+			expect( plugin.getAuthor( 'jd' ) ).to.equal( plugin.currentAuthor );
+		} );
+
+		it( 'should use an anonymous author by default', async () => {
+			const editor = await VirtualTestEditor.create( { plugins: [ CommentsEditing ] } );
+
+			expect( editor.plugins.get( CommentsEditing ).currentAuthor ).to.deep.equal( { id: 'anonymous', name: 'Anonymous' } );
+
+			await editor.destroy();
+		} );
+
+		it( 'should allow registering other authors', () => {
+			plugin.addAuthor( { id: 'mr', name: 'Mary Roe' } );
+
+			expect( plugin.getAuthor( 'mr' ) ).to.deep.equal( { id: 'mr', name: 'Mary Roe' } );
+		} );
+
+		it( 'should return an author named after the id for unknown authors', () => {
+			expect( plugin.getAuthor( 'xyz' ) ).to.deep.equal( { id: 'xyz', name: 'xyz' } );
+		} );
+	} );
+
+	describe( 'conversion', () => {
+		it( 'should upcast the comment markers', () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+
+			const marker = model.markers.get( 'comment:t1' );
+
+			expect( marker.getStart().path ).to.deep.equal( [ 0, 1 ] );
+			expect( marker.getEnd().path ).to.deep.equal( [ 0, 3 ] );
+			expect( marker.managedUsingOperations ).to.be.true;
+			expect( marker.affectsData ).to.be.true;
+		} );
+
+		it( 'should downcast the comment markers to the data', () => {
+			const data = '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>';
+
+			editor.setData( data );
+
+			expect( editor.getData() ).to.equal( data );
+		} );
+
+		it( 'should highlight the commented content in the editing view', () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>bar</p>' );
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p>f<span class="ck-comment-marker" data-comment="t1">oo</span>bar</p>'
+			);
+		} );
+
+		it( 'should highlight the resolved threads differently', () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>bar</p>' );
+
+			plugin.getCommentThread( 't1' ).isResolved = true;
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p>f<span class="ck-comment-marker ck-comment-marker_resolved" data-comment="t1">oo</span>bar</p>'
+			);
+		} );
+
+		it( 'should highlight the active thread', () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>bar</p>' );
+
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 0 ), 2 );
+			} );
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p>f<span class="ck-comment-marker ck-comment-marker_active" data-comment="t1">oo</span>bar</p>'
+			);
+
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 0 ), 5 );
+			} );
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p>f<span class="ck-comment-marker" data-comment="t1">oo</span>bar</p>'
+			);
+		} );
+	} );
+
+	describe( '#threads', () => {
+		it( 'should contain the threads of the markers in the content', () => {
+			editor.setData(
+				'<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>' +
+				'<comment-start name="t2"></comment-start>bar<comment-end name="t2"></comment-end></p>'
+			);
+
+			expect( Array.from( plugin.threads, thread => thread.id ) ).to.deep.equal( [ 't1', 't2' ] );
+			expect( plugin.getCommentThread( 't1' ) ).to.be.instanceOf( CommentThread );
+		} );
+
+		it( 'should remove the thread when its marker is removed', () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+
+			model.change( writer => {
+				writer.removeMarker( 'comment:t1' );
+			} );
+
+			expect( plugin.threads.length ).to.equal( 0 );
+			expect( plugin.getCommentThread( 't1' ) ).to.be.null;
+		} );
+
+		it( 'should restore the same thread when its marker comes back', () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+
+			const thread = plugin.getCommentThread( 't1' );
+
+			model.change( writer => {
+				writer.removeMarker( 'comment:t1' );
+			} );
+
+			editor.execute( 'undo' );
+
+			expect( plugin.getCommentThread( 't1' ) ).to.equal( thread );
+		} );
+	} );
+
+	describe( 'loading threads', () => {
+		let adapter;
+
+		beforeEach( () => {
+			adapter = new LocalCommentsAdapter( [
+				{
+					threadId: 't1',
+					comments: [ { id: 'c1', authorId: 'mr', content: 'Foo', createdAt: new Date( 2023, 0, 1 ) } ],
+					isResolved: true
+				}
+			] );
+
+			plugin.adapter = adapter;
+		} );
+
+		it( 'should load a thread using the adapter when its marker appears in the content', async () => {
+			const spy = sinon.spy( adapter, 'getCommentThread' );
+
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+
+			sinon.assert.calledOnceWithExactly( spy, 't1' );
+
+			await spy.firstCall.returnValue;
+
+			const thread = plugin.getCommentThread( 't1' );
+
+			expect( thread.isResolved ).to.be.true;
+			expect( thread.comments.length ).to.equal( 1 );
+			expect( thread.comments.get( 0 ).content ).to.equal( 'Foo' );
+		} );
+
+		it( 'should not load a thread again when its marker comes back', () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+
+			const spy = sinon.spy( adapter, 'getCommentThread' );
+
+			model.change( writer => {
+				writer.removeMarker( 'comment:t1' );
+			} );
+
+			editor.execute( 'undo' );
+
+			sinon.assert.notCalled( spy );
+		} );
+
+		it( 'should keep an empty thread when the adapter does not know it', async () => {
+			const spy = sinon.spy( adapter, 'getCommentThread' );
+
+			editor.setData( '<p>f<comment-start name="t2"></comment-start>oo<comment-end name="t2"></comment-end></p>' );
+
+			await spy.firstCall.returnValue;
+
+			expect( plugin.getCommentThread( 't2' ).comments.length ).to.equal( 0 );
+		} );
+
+		it( 'should keep the thread and show a warning when the adapter fails', async () => {
+			const showWarningStub = sinon.stub( editor.plugins.get( Notification ), 'showWarning' );
+			const stub = sinon.stub( adapter, 'getCommentThread' ).rejects( new Error( 'Network error.' ) );
+
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+
+			await stub.firstCall.returnValue.catch( () => {} );
+
+			expect( plugin.getCommentThread( 't1' ).comments.length ).to.equal( 0 );
+			sinon.assert.calledOnceWithExactly( showWarningStub, 'The comments could not be loaded.', {
+				title: 'Comments error',
+				namespace: 'comments'
+			} );
+		} );
+
+		it( 'should not duplicate the comments added before the thread was loaded', async () => {
+			const spy = sinon.spy( adapter, 'getCommentThread' );
+
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+
+			plugin.getCommentThread( 't1' ).comments.add( { id: 'c1', authorId: 'mr', content: 'Foo', createdAt: new Date() } );
+
+			await spy.firstCall.returnValue;
+
+			expect( plugin.getCommentThread( 't1' ).comments.length ).to.equal( 1 );
+		} );
+	} );
+
+	describe( 'getActiveCommentThread()', () => {
+		beforeEach( () => {
+			editor.setData(
+				'<p>f<comment-start name="t1"></comment-start>oo' +
+				'<comment-start name="t2"></comment-start>ba<comment-end name="t2"></comment-end>' +
+				'r<comment-end name="t1"></comment-end>baz</p>'
+			);
+		} );
+
+		it( 'should return null when the selection is not in a commented range', () => {
+			setSelection( 7 );
+
+			expect( plugin.getActiveCommentThread() ).to.be.null;
+		} );
+
+		it( 'should return null when the selection is collapsed at the boundary of a commented range', () => {
+			setSelection( 1 );
+
+			expect( plugin.getActiveCommentThread() ).to.be.null;
+		} );
+
+		it( 'should return the thread at the selection', () => {
+			setSelection( 2 );
+
+			expect( plugin.getActiveCommentThread() ).to.equal( plugin.getCommentThread( 't1' ) );
+		} );
+
+		it( 'should return the thread starting closest to the selection', () => {
+			setSelection( 4 );
+
+			expect( plugin.getActiveCommentThread() ).to.equal( plugin.getCommentThread( 't2' ) );
+		} );
+
+		it( 'should return the thread intersecting a non-collapsed selection', () => {
+			setSelection( 0, 2 );
+
+			expect( plugin.getActiveCommentThread() ).to.equal( plugin.getCommentThread( 't1' ) );
+		} );
+
+		it( 'should skip the resolved threads', () => {
+			plugin.getCommentThread( 't2' ).isResolved = true;
+
+			setSelection( 4 );
+
+			expect( plugin.getActiveCommentThread() ).to.equal( plugin.getCommentThread( 't1' ) );
+		} );
+
+		function setSelection( start, end = start ) {
+			model.change( writer => {
+				const paragraph = model.document.getRoot().getChild( 0 );
+
+				writer.setSelection( writer.createRange(
+					writer.createPositionAt( paragraph, start ),
+					writer.createPositionAt( paragraph, end )
+				) );
+			} );
+		}
+	} );
+
+	describe( 'addCommentThread()', () => {
+		let range;
+
+		beforeEach( () => {
+			setModelData( model, '<paragraph>f[oo]</paragraph>', { batchType: { isUndoable: false } } );
+
+			range = model.document.selection.getFirstRange();
+		} );
+
+		it( 'should anchor a new thread in the given range', async () => {
+			const thread = await plugin.addCommentThread( range, 'Foo?' );
+			const marker = model.markers.get( `comment:${ thread.id }` );
+
+			expect( marker.getRange().isEqual( range ) ).to.be.true;
+			expect( marker.managedUsingOperations ).to.be.true;
+			expect( marker.affectsData ).to.be.true;
+			expect( plugin.getCommentThread( thread.id ) ).to.equal( thread );
+		} );
+
+		it( 'should add the first comment authored by the current author', async () => {
+			const thread = await plugin.addCommentThread( range, 'Foo?' );
+			const comment = thread.comments.get( 0 );
+
+			expect( thread.comments.length ).to.equal( 1 );
+			expect( comment.id ).to.be.a( 'string' );
+			expect( comment.authorId ).to.equal( 'jd' );
+			expect( comment.content ).to.equal( 'Foo?' );
+			expect( comment.createdAt ).to.be.instanceOf( Date );
+		} );
+
+		it( 'should not be undoable', async () => {
+			await plugin.addCommentThread( range, 'Foo?' );
+
+			expect( editor.commands.get( 'undo' ).isEnabled ).to.be.false;
+		} );
+
+		it( 'should save the thread using the adapter', async () => {
+			const adapter = plugin.adapter = new LocalCommentsAdapter();
+			const thread = await plugin.addCommentThread( range, 'Foo?' );
+
+			expect( adapter.threads.get( thread.id ) ).to.deep.equal( thread.toJSON() );
+		} );
+	} );
+
+	describe( 'addComment()', () => {
+		beforeEach( () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+		} );
+
+		it( 'should add a comment authored by the current author to the thread', async () => {
+			const comment = await plugin.addComment( 't1', 'Bar.' );
+			const thread = plugin.getCommentThread( 't1' );
+
+			expect( thread.comments.get( 0 ) ).to.equal( comment );
+			expect( comment.authorId ).to.equal( 'jd' );
+			expect( comment.content ).to.equal( 'Bar.' );
+		} );
+
+		it( 'should save the comment using the adapter', async () => {
+			const adapter = plugin.adapter = new LocalCommentsAdapter( [ { threadId: 't1', comments: [], isResolved: false } ] );
+			const comment = await plugin.addComment( 't1', 'Bar.' );
+
+			expect( adapter.threads.get( 't1' ).comments ).to.deep.equal( [ comment ] );
+		} );
+
+		it( 'should throw for an unknown thread', () => {
+			expectToThrowCKEditorError( () => {
+				plugin.addComment( 'unknown', 'Bar.' );
+			}, 'comments-thread-not-found', plugin, { threadId: 'unknown' } );
+		} );
+	} );
+
+	describe( 'resolveCommentThread()', () => {
+		beforeEach( () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+		} );
+
+		it( 'should resolve the thread', async () => {
+			await plugin.resolveCommentThread( 't1' );
+
+			expect( plugin.getCommentThread( 't1' ).isResolved ).to.be.true;
+			expect( model.markers.has( 'comment:t1' ) ).to.be.true;
+		} );
+
+		it( 'should save the change using the adapter', async () => {
+			const adapter = plugin.adapter = new LocalCommentsAdapter( [ { threadId: 't1', comments: [], isResolved: false } ] );
+
+			await plugin.resolveCommentThread( 't1' );
+
+			expect( adapter.threads.get( 't1' ).isResolved ).to.be.true;
+		} );
+
+		it( 'should throw for an unknown thread', () => {
+			expectToThrowCKEditorError( () => {
+				plugin.resolveCommentThread( 'unknown' );
+			}, 'comments-thread-not-found', plugin, { threadId: 'unknown' } );
+		} );
+	} );
+
+	describe( 'deleteCommentThread()', () => {
+		beforeEach( () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+		} );
+
+		it( 'should remove the thread and its marker', async () => {
+			await plugin.deleteCommentThread( 't1' );
+
+			expect( model.markers.has( 'comment:t1' ) ).to.be.false;
+			expect( plugin.getCommentThread( 't1' ) ).to.be.null;
+			expect( editor.getData() ).to.equal( '<p>foo</p>' );
+		} );
+
+		it( 'should not be undoable', async () => {
+			await plugin.deleteCommentThread( 't1' );
+
+			expect( editor.commands.get( 'undo' ).isEnabled ).to.be.false;
+		} );
+
+		it( 'should remove the thread using the adapter', async () => {
+			const adapter = plugin.adapter = new LocalCommentsAdapter( [ { threadId: 't1', comments: [], isResolved: false } ] );
+
+			await plugin.deleteCommentThread( 't1' );
+
+			expect( adapter.threads.has( 't1' ) ).to.be.false;
+		} );
+
+		it( 'should throw for an unknown thread', () => {
+			expectToThrowCKEditorError( () => {
+				plugin.deleteCommentThread( 'unknown' );
+			}, 'comments-thread-not-found', plugin, { threadId: 'unknown' } );
+		} );
+	} );
+
+	describe( 'saving', () => {
+		let pendingActions;
+
+		beforeEach( () => {
+			pendingActions = editor.plugins.get( PendingActions );
+
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+		} );
+
+		it( 'should not register a pending action without an adapter', () => {
+			plugin.resolveCommentThread( 't1' );
+
+			expect( pendingActions.hasAny ).to.be.false;
+		} );
+
+		it( 'should register a pending action until the adapter saves the change', async () => {
+			plugin.adapter = new LocalCommentsAdapter( [ { threadId: 't1', comments: [], isResolved: false } ] );
+
+			const promise = plugin.resolveCommentThread( 't1' );
+
+			expect( pendingActions.hasAny ).to.be.true;
+			expect( pendingActions.first.message ).to.equal( 'Saving comments' );
+
+			await promise;
+
+			expect( pendingActions.hasAny ).to.be.false;
+		} );
+
+		it( 'should remove the pending action and reject when the adapter fails', async () => {
+			const error = new Error( 'Network error.' );
+
+			sinon.stub( editor.plugins.get( Notification ), 'showWarning' );
+			plugin.adapter = new LocalCommentsAdapter();
+			sinon.stub( plugin.adapter, 'resolveCommentThread' ).rejects( error );
+
+			try {
+				await plugin.resolveCommentThread( 't1' );
+			} catch ( err ) {
+				expect( err ).to.equal( error );
+				expect( pendingActions.hasAny ).to.be.false;
+
+				return;
+			}
+
+			throw new Error( 'Expected to be rejected.' );
+		} );
+	} );
+
+	describe( 'failed saving', () => {
+		let adapter, showWarningStub;
+
+		beforeEach( () => {
+			showWarningStub = sinon.stub( editor.plugins.get( Notification ), 'showWarning' );
+			adapter = plugin.adapter = new LocalCommentsAdapter( [ { threadId: 't1', comments: [], isResolved: false } ] );
+
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>' );
+		} );
+
+		it( 'should show a warning', async () => {
+			sinon.stub( adapter, 'resolveCommentThread' ).rejects( new Error( 'Network error.' ) );
+
+			await expectRejection( plugin.resolveCommentThread( 't1' ) );
+
+			sinon.assert.calledOnceWithExactly( showWarningStub, 'The changes in the comments could not be saved.', {
+				title: 'Comments error',
+				namespace: 'comments'
+			} );
+		} );
+
+		it( 'should remove the new thread and its marker', async () => {
+			sinon.stub( adapter, 'addCommentThread' ).rejects( new Error( 'Network error.' ) );
+
+			const root = model.document.getRoot();
+			const range = model.createRange(
+				model.createPositionAt( root.getChild( 0 ), 0 ),
+				model.createPositionAt( root.getChild( 0 ), 1 )
+			);
+			const promise = plugin.addCommentThread( range, 'Foo?' );
+
+			expect( plugin.threads.length ).to.equal( 2 );
+
+			await expectRejection( promise );
+
+			expect( plugin.threads.length ).to.equal( 1 );
+			expect( Array.from( model.markers ).map( marker => marker.name ) ).to.deep.equal( [ 'comment:t1' ] );
+			expect( editor.commands.get( 'undo' ).isEnabled ).to.be.false;
+		} );
+
+		it( 'should remove the new comment from the thread', async () => {
+			sinon.stub( adapter, 'addComment' ).rejects( new Error( 'Network error.' ) );
+
+			const promise = plugin.addComment( 't1', 'Bar.' );
+
+			expect( plugin.getCommentThread( 't1' ).comments.length ).to.equal( 1 );
+
+			await expectRejection( promise );
+
+			expect( plugin.getCommentThread( 't1' ).comments.length ).to.equal( 0 );
+		} );
+
+		it( 'should reopen the resolved thread', async () => {
+			sinon.stub( adapter, 'resolveCommentThread' ).rejects( new Error( 'Network error.' ) );
+
+			const promise = plugin.resolveCommentThread( 't1' );
+
+			expect( plugin.getCommentThread( 't1' ).isResolved ).to.be.true;
+
+			await expectRejection( promise );
+
+			expect( plugin.getCommentThread( 't1' ).isResolved ).to.be.false;
+		} );
+
+		it( 'should restore the deleted thread and its marker', async () => {
+			sinon.stub( adapter, 'removeCommentThread' ).rejects( new Error( 'Network error.' ) );
+
+			const thread = plugin.getCommentThread( 't1' );
+			const promise = plugin.deleteCommentThread( 't1' );
+
+			expect( model.markers.has( 'comment:t1' ) ).to.be.false;
+
+			model.change( writer => {
+				writer.insertText( 'xx', model.document.getRoot().getChild( 0 ), 0 );
+			} );
+
+			await expectRejection( promise );
+
+			expect( plugin.getCommentThread( 't1' ) ).to.equal( thread );
+			expect( editor.getData() ).to.equal(
+				'<p>xxf<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end></p>'
+			);
+		} );
+
+		it( 'should not restore the marker of the deleted thread if the commented content was removed', async () => {
+			sinon.stub( adapter, 'removeCommentThread' ).rejects( new Error( 'Network error.' ) );
+
+			const promise = plugin.deleteCommentThread( 't1' );
+
+			model.change( writer => {
+				writer.remove( model.document.getRoot().getChild( 0 ) );
+			} );
+
+			await expectRejection( promise );
+
+			expect( model.markers.has( 'comment:t1' ) ).to.be.false;
+			expect( plugin.getCommentThread( 't1' ) ).to.be.null;
+		} );
+
+		async function expectRejection( promise ) {
+			try {
+				await promise;
+			} catch ( err ) {
+				return;
+			}
+
+			throw new Error( 'Expected to be rejected.' );
+		}
+	} );
+} );
@@ -0,0 +1,345 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { global, keyCodes } from '@ckeditor/ckeditor5-utils';
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { ButtonView, ContextualBalloon } from '@ckeditor/ckeditor5-ui';
+import { setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import CommentsEditing from '../src/commentsediting';
+import CommentsUI from '../src/commentsui';
+import CommentThreadView from '../src/ui/commentthreadview';
+import CommentView from '../src/ui/commentview';
+
+describe( 'CommentsUI', () => {
+	let editor, element, model, plugin, balloon;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = global.document.createElement( 'div' );
+		global.document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, CommentsEditing, CommentsUI ],
+			comments: {
+				author: { id: 'jd', name: 'John Doe' }
+			}
+		} );
+
+		model = editor.model;
+		plugin = editor.plugins.get( CommentsUI );
+		balloon = editor.plugins.get( ContextualBalloon );
+
+		// There is no point to execute BalloonPanelView attachTo and pin methods so lets override it.
+		testUtils.sinon.stub( balloon.view, 'attachTo' ).returns( {} );
+		testUtils.sinon.stub( balloon.view, 'pin' ).returns( {} );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( CommentsUI.pluginName ).to.equal( 'CommentsUI' );
+	} );
+
+	it( 'should require ContextualBalloon', () => {
+		expect( CommentsUI.requires ).to.deep.equal( [ ContextualBalloon ] );
+	} );
+
+	it( 'should not create the thread view until it is needed', () => {
+		expect( plugin.threadView ).to.be.null;
+	} );
+
+	it( 'should add the keystroke to the accessibility help', () => {
+		const keystrokes = editor.accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'common' ).keystrokes;
+
+		expect( keystrokes.find( ( { label } ) => label == 'Add a comment' ).keystroke ).to.equal( 'Ctrl+Alt+M' );
+	} );
+
+	describe( 'the "comment" button', () => {
+		let button, command;
+
+		beforeEach( () => {
+			button = editor.ui.componentFactory.create( 'comment' );
+			command = editor.commands.get( 'addCommentThread' );
+		} );
+
+		it( 'should be a button with a label, an icon, a keystroke and a tooltip', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.label ).to.equal( 'Comment' );
+			expect( button.icon ).to.match( /^<svg/ );
+			expect( button.keystroke ).to.equal( 'Ctrl+Alt+M' );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should have #isEnabled bound to the "addCommentThread" command', () => {
+			command.isEnabled = true;
+			expect( button.isEnabled ).to.be.true;
+
+			command.isEnabled = false;
+			expect( button.isEnabled ).to.be.false;
+		} );
+
+		it( 'should show the thread view for a new thread', () => {
+			setModelData( model, '<paragraph>f[oo]</paragraph>' );
+
+			button.fire( 'execute' );
+
+			expect( balloon.visibleView ).to.equal( plugin.threadView );
+			expect( plugin.threadView ).to.be.instanceOf( CommentThreadView );
+			expect( plugin.threadView.isNewThread ).to.be.true;
+			expect( plugin.threadView.commentsView.length ).to.equal( 0 );
+		} );
+	} );
+
+	describe( 'keystroke', () => {
+		it( 'should show the thread view for a new thread', () => {
+			setModelData( model, '<paragraph>f[oo]</paragraph>' );
+
+			pressCommentKeystroke();
+
+			expect( balloon.visibleView ).to.equal( plugin.threadView );
+			expect( plugin.threadView.isNewThread ).to.be.true;
+		} );
+
+		it( 'should do nothing when the "addCommentThread" command is disabled', () => {
+			setModelData( model, '<paragraph>f[]oo</paragraph>' );
+
+			pressCommentKeystroke();
+
+			expect( plugin.threadView ).to.be.null;
+		} );
+
+		function pressCommentKeystroke() {
+			editor.keystrokes.press( {
+				keyCode: keyCodes.m,
+				ctrlKey: !global.window.navigator.platform.includes( 'Mac' ),
+				metaKey: global.window.navigator.platform.includes( 'Mac' ),
+				altKey: true,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			} );
+		}
+	} );
+
+	describe( 'showing a thread', () => {
+		beforeEach( async () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>bar</p>' );
+
+			const commentsEditing = editor.plugins.get( CommentsEditing );
+
+			commentsEditing.addAuthor( { id: 'mr', name: 'Mary Roe' } );
+			await commentsEditing.addComment( 't1', 'Foo?' );
+			commentsEditing.getCommentThread( 't1' ).comments.add( { id: 'c2', authorId: 'mr', content: 'Bar.', createdAt: new Date() } );
+		} );
+
+		it( 'should show the thread when the view document is clicked in a commented range', () => {
+			setSelection( 2 );
+
+			editor.editing.view.document.fire( 'click', { domEvent: {} } );
+
+			const commentsView = plugin.threadView.commentsView;
+
+			expect( balloon.visibleView ).to.equal( plugin.threadView );
+			expect( plugin.threadView.isNewThread ).to.be.false;
+			expect( commentsView.length ).to.equal( 2 );
+			expect( commentsView.get( 0 ) ).to.be.instanceOf( CommentView );
+			expect( commentsView.get( 0 ).authorName ).to.equal( 'John Doe' );
+			expect( commentsView.get( 1 ).authorName ).to.equal( 'Mary Roe' );
+			expect( commentsView.get( 1 ).content ).to.equal( 'Bar.' );
+		} );
+
+		it( 'should not show the thread when the view document is clicked outside of a commented range', () => {
+			setSelection( 5 );
+
+			editor.editing.view.document.fire( 'click', { domEvent: {} } );
+
+			expect( plugin.threadView ).to.be.null;
+		} );
+
+		it( 'should add the views of the comments added to the displayed thread', () => {
+			showThread();
+
+			editor.execute( 'addComment', { threadId: 't1', content: 'Baz!' } );
+
+			expect( plugin.threadView.commentsView.length ).to.equal( 3 );
+			expect( plugin.threadView.commentsView.get( 2 ).content ).to.equal( 'Baz!' );
+		} );
+
+		it( 'should hide the thread when the selection leaves the commented range', () => {
+			showThread();
+
+			setSelection( 5 );
+			editor.ui.update();
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should keep the thread visible when the selection moves within the commented range', () => {
+			showThread();
+
+			model.change( writer => {
+				const paragraph = model.document.getRoot().getChild( 0 );
+
+				writer.setSelection( writer.createRange(
+					writer.createPositionAt( paragraph, 1 ),
+					writer.createPositionAt( paragraph, 3 )
+				) );
+			} );
+			editor.ui.update();
+
+			expect( balloon.visibleView ).to.equal( plugin.threadView );
+		} );
+
+		it( 'should focus the thread view on Tab', () => {
+			showThread();
+
+			const spy = sinon.spy( plugin.threadView, 'focus' );
+
+			editor.keystrokes.press( {
+				keyCode: keyCodes.tab,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			} );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should hide the thread on Esc pressed in the editing view', () => {
+			showThread();
+
+			editor.keystrokes.press( {
+				keyCode: keyCodes.esc,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			} );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should hide the thread on Esc pressed in the thread view', () => {
+			showThread();
+
+			plugin.threadView.keystrokes.press( {
+				keyCode: keyCodes.esc,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			} );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+	} );
+
+	describe( 'thread view actions', () => {
+		beforeEach( () => {
+			editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>bar</p>' );
+		} );
+
+		it( 'should start a new thread on submit and display it', () => {
+			setModelData( model, '<paragraph>foo[bar]</paragraph>' );
+			editor.ui.componentFactory.create( 'comment' ).fire( 'execute' );
+
+			plugin.threadView.content = 'Bar?';
+			plugin.threadView.fire( 'submit' );
+
+			const thread = editor.plugins.get( CommentsEditing ).getActiveCommentThread();
+
+			expect( thread.comments.get( 0 ).content ).to.equal( 'Bar?' );
+			expect( plugin.threadView.isNewThread ).to.be.false;
+			expect( plugin.threadView.commentsView.length ).to.equal( 1 );
+			expect( plugin.threadView.content ).to.equal( '' );
+		} );
+
+		it( 'should add a reply to the displayed thread on submit', () => {
+			const spy = sinon.spy( editor, 'execute' );
+
+			showThread();
+
+			plugin.threadView.content = 'Foo?';
+			plugin.threadView.fire( 'submit' );
+
+			sinon.assert.calledOnceWithExactly( spy, 'addComment', { threadId: 't1', content: 'Foo?' } );
+			expect( plugin.threadView.commentsView.length ).to.equal( 1 );
+		} );
+
+		it( 'should do nothing on submit when the content is empty', () => {
+			const spy = sinon.spy( editor, 'execute' );
+
+			showThread();
+
+			plugin.threadView.content = '   ';
+			plugin.threadView.fire( 'submit' );
+
+			sinon.assert.notCalled( spy );
+		} );
+
+		it( 'should resolve the displayed thread and hide the view', () => {
+			const spy = sinon.spy( editor, 'execute' );
+
+			showThread();
+			plugin.threadView.fire( 'resolve' );
+
+			sinon.assert.calledOnceWithExactly( spy, 'resolveCommentThread', { threadId: 't1' } );
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should delete the displayed thread and hide the view', () => {
+			const spy = sinon.spy( editor, 'execute' );
+
+			showThread();
+			plugin.threadView.fire( 'delete' );
+
+			sinon.assert.calledOnceWithExactly( spy, 'deleteCommentThread', { threadId: 't1' } );
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should handle the rejected promises of the commands', () => {
+			const promise = Promise.reject( new Error( 'Network error.' ) );
+			const catchSpy = sinon.spy( promise, 'catch' );
+
+			sinon.stub( editor, 'execute' ).returns( promise );
+
+			showThread();
+			plugin.threadView.content = 'Foo?';
+			plugin.threadView.fire( 'submit' );
+
+			showThread();
+			plugin.threadView.fire( 'resolve' );
+
+			showThread();
+			plugin.threadView.fire( 'delete' );
+
+			expect( catchSpy.callCount ).to.equal( 3 );
+		} );
+
+		it( 'should hide the view and focus the editing view on cancel', () => {
+			const spy = sinon.spy( editor.editing.view, 'focus' );
+
+			showThread();
+			plugin.threadView.fire( 'cancel' );
+
+			expect( balloon.visibleView ).to.be.null;
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	function setSelection( offset ) {
+		model.change( writer => {
+			writer.setSelection( model.document.getRoot().getChild( 0 ), offset );
+		} );
+	}
+
+	function showThread() {
+		setSelection( 2 );
+
+		editor.editing.view.document.fire( 'click', { domEvent: {} } );
+	}
+} );
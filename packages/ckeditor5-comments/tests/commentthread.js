@@ -0,0 +1,61 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { Collection } from '@ckeditor/ckeditor5-utils';
+
+import CommentThread from '../src/commentthread';
+
+describe( 'CommentThread', () => {
+	let thread;
+
+	beforeEach( () => {
+		thread = new CommentThread( 't1' );
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should set the thread id', () => {
+			expect( thread.id ).to.equal( 't1' );
+		} );
+
+		it( 'should create an empty collection of comments', () => {
+			expect( thread.comments ).to.be.instanceOf( Collection );
+			expect( thread.comments.length ).to.equal( 0 );
+		} );
+
+		it( 'should set the observable #isResolved to false', () => {
+			const spy = sinon.spy();
+
+			expect( thread.isResolved ).to.be.false;
+
+			thread.on( 'change:isResolved', spy );
+			thread.isResolved = true;
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'toJSON()', () => {
+		it( 'should return the thread data', () => {
+			const createdAt = new Date( 2023, 0, 1 );
+
+			thread.comments.add( { id: 'c1', authorId: 'jd', content: 'Foo', createdAt } );
+			thread.isResolved = true;
+
+			expect( thread.toJSON() ).to.deep.equal( {
+				threadId: 't1',
+				comments: [ { id: 'c1', authorId: 'jd', content: 'Foo', createdAt } ],
+				isResolved: true
+			} );
+		} );
+
+		it( 'should copy the comments', () => {
+			const comment = { id: 'c1', authorId: 'jd', content: 'Foo', createdAt: new Date() };
+
+			thread.comments.add( comment );
+
+			expect( thread.toJSON().comments[ 0 ] ).to.not.equal( comment );
+		} );
+	} );
+} );
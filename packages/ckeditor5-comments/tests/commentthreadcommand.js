@@ -0,0 +1,116 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import ModelTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/modeltesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+
+import CommentsEditing from '../src/commentsediting';
+
+describe( 'CommentThreadCommand', () => {
+	let editor, model, plugin, resolveCommand, deleteCommand;
+
+	beforeEach( async () => {
+		editor = await ModelTestEditor.create( {
+			plugins: [ Paragraph, CommentsEditing ]
+		} );
+
+		model = editor.model;
+		plugin = editor.plugins.get( 'CommentsEditing' );
+		resolveCommand = editor.commands.get( 'resolveCommentThread' );
+		deleteCommand = editor.commands.get( 'deleteCommentThread' );
+
+		editor.setData( '<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>bar</p>' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should set the action', () => {
+			expect( resolveCommand.action ).to.equal( 'resolve' );
+			expect( deleteCommand.action ).to.equal( 'delete' );
+		} );
+
+		it( 'should only affect data when deleting threads', () => {
+			expect( resolveCommand.affectsData ).to.be.false;
+			expect( deleteCommand.affectsData ).to.be.true;
+		} );
+	} );
+
+	describe( '#value and #isEnabled', () => {
+		it( 'should reflect the thread at the selection', () => {
+			setSelection( 2 );
+
+			expect( resolveCommand.value ).to.equal( plugin.getCommentThread( 't1' ) );
+			expect( resolveCommand.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be null and disabled when the selection is not in a thread', () => {
+			setSelection( 5 );
+
+			expect( resolveCommand.value ).to.be.null;
+			expect( resolveCommand.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be refreshed when the thread is resolved', () => {
+			setSelection( 2 );
+
+			resolveCommand.execute();
+
+			expect( resolveCommand.value ).to.be.null;
+			expect( resolveCommand.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should resolve the thread at the selection', () => {
+			setSelection( 2 );
+
+			resolveCommand.execute();
+
+			expect( plugin.getCommentThread( 't1' ).isResolved ).to.be.true;
+		} );
+
+		it( 'should delete the thread with the given id', () => {
+			editor.setData(
+				'<p>f<comment-start name="t1"></comment-start>oo<comment-end name="t1"></comment-end>' +
+				'<comment-start name="t2"></comment-start>bar<comment-end name="t2"></comment-end></p>'
+			);
+
+			setSelection( 5 );
+
+			deleteCommand.execute( { threadId: 't1' } );
+
+			expect( plugin.getCommentThread( 't1' ) ).to.be.null;
+			expect( model.markers.has( 'comment:t1' ) ).to.be.false;
+		} );
+
+		it( 'should return the promise of the plugin API', async () => {
+			setSelection( 2 );
+
+			const promise = resolveCommand.execute();
+
+			expect( promise ).to.be.instanceOf( Promise );
+
+			await promise;
+		} );
+
+		it( 'should do nothing when there is no thread', () => {
+			const spy = sinon.spy( plugin, 'deleteCommentThread' );
+
+			setSelection( 5 );
+
+			expect( deleteCommand.execute() ).to.be.undefined;
+			sinon.assert.notCalled( spy );
+		} );
+	} );
+
+	function setSelection( offset ) {
+		model.change( writer => {
+			writer.setSelection( model.document.getRoot().getChild( 0 ), offset );
+		} );
+	}
+} );
@@ -0,0 +1,27 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	Comments as CommentsDLL,
+	CommentsEditing as CommentsEditingDLL,
+	LocalCommentsAdapter as LocalCommentsAdapterDLL
+} from '../src';
+import Comments from '../src/comments';
+import CommentsEditing from '../src/commentsediting';
+import LocalCommentsAdapter from '../src/localcommentsadapter';
+
+describe( 'Comments DLL', () => {
+	it( 'exports Comments', () => {
+		expect( CommentsDLL ).to.equal( Comments );
+	} );
+
+	it( 'exports CommentsEditing', () => {
+		expect( CommentsEditingDLL ).to.equal( CommentsEditing );
+	} );
+
+	it( 'exports LocalCommentsAdapter', () => {
+		expect( LocalCommentsAdapterDLL ).to.equal( LocalCommentsAdapter );
+	} );
+} );
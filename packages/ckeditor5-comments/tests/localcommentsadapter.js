@@ -0,0 +1,106 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { CKEditorError } from '@ckeditor/ckeditor5-utils';
+
+import LocalCommentsAdapter from '../src/localcommentsadapter';
+
+describe( 'LocalCommentsAdapter', () => {
+	let adapter, comment;
+
+	beforeEach( () => {
+		comment = { id: 'c1', authorId: 'jd', content: 'Foo', createdAt: new Date( 2023, 0, 1 ) };
+		adapter = new LocalCommentsAdapter( [
+			{ threadId: 't1', comments: [ comment ], isResolved: false }
+		] );
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should store copies of the initial threads', () => {
+			expect( adapter.threads.get( 't1' ) ).to.deep.equal( { threadId: 't1', comments: [ comment ], isResolved: false } );
+			expect( adapter.threads.get( 't1' ).comments[ 0 ] ).to.not.equal( comment );
+		} );
+
+		it( 'should work without the initial threads', () => {
+			expect( new LocalCommentsAdapter().threads.size ).to.equal( 0 );
+		} );
+	} );
+
+	describe( 'getCommentThread()', () => {
+		it( 'should resolve with a copy of the stored thread', async () => {
+			const data = await adapter.getCommentThread( 't1' );
+
+			expect( data ).to.deep.equal( { threadId: 't1', comments: [ comment ], isResolved: false } );
+			expect( data ).to.not.equal( adapter.threads.get( 't1' ) );
+		} );
+
+		it( 'should resolve with null for an unknown thread', async () => {
+			expect( await adapter.getCommentThread( 'unknown' ) ).to.be.null;
+		} );
+	} );
+
+	describe( 'addCommentThread()', () => {
+		it( 'should store the thread', async () => {
+			const data = { threadId: 't2', comments: [], isResolved: false };
+
+			await adapter.addCommentThread( data );
+
+			expect( adapter.threads.get( 't2' ) ).to.deep.equal( data );
+			expect( adapter.threads.get( 't2' ) ).to.not.equal( data );
+		} );
+	} );
+
+	describe( 'addComment()', () => {
+		it( 'should add the comment to the stored thread', async () => {
+			const reply = { id: 'c2', authorId: 'jd', content: 'Bar', createdAt: new Date() };
+
+			await adapter.addComment( 't1', reply );
+
+			expect( adapter.threads.get( 't1' ).comments ).to.deep.equal( [ comment, reply ] );
+		} );
+
+		it( 'should reject for an unknown thread', async () => {
+			try {
+				await adapter.addComment( 'unknown', comment );
+			} catch ( error ) {
+				expect( error ).to.be.instanceOf( CKEditorError );
+				expect( error.message ).to.match( /^local-comments-adapter-thread-not-found/ );
+
+				return;
+			}
+
+			throw new Error( 'Expected to be rejected.' );
+		} );
+	} );
+
+	describe( 'resolveCommentThread()', () => {
+		it( 'should mark the stored thread as resolved', async () => {
+			await adapter.resolveCommentThread( 't1' );
+
+			expect( adapter.threads.get( 't1' ).isResolved ).to.be.true;
+		} );
+
+		it( 'should reject for an unknown thread', async () => {
+			try {
+				await adapter.resolveCommentThread( 'unknown' );
+			} catch ( error ) {
+				expect( error ).to.be.instanceOf( CKEditorError );
+				expect( error.message ).to.match( /^local-comments-adapter-thread-not-found/ );
+
+				return;
+			}
+
+			throw new Error( 'Expected to be rejected.' );
+		} );
+	} );
+
+	describe( 'removeCommentThread()', () => {
+		it( 'should remove the stored thread', async () => {
+			await adapter.removeCommentThread( 't1' );
+
+			expect( adapter.threads.has( 't1' ) ).to.be.false;
+		} );
+	} );
+} );
@@ -0,0 +1,70 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals window, document, console */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+import { Plugin } from '@ckeditor/ckeditor5-core';
+
+import Comments from '../../src/comments';
+import LocalCommentsAdapter from '../../src/localcommentsadapter';
+
+const adapter = new LocalCommentsAdapter( [
+	{
+		threadId: 't1',
+		isResolved: false,
+		comments: [
+			{ id: 'c1', authorId: 'ann', content: 'Should we rephrase this?', createdAt: new Date( 2023, 5, 1, 10, 0 ) },
+			{ id: 'c2', authorId: 'bob', content: 'I think it is fine.', createdAt: new Date( 2023, 5, 1, 11, 30 ) }
+		]
+	},
+	{
+		threadId: 't2',
+		isResolved: true,
+		comments: [
+			{ id: 'c3', authorId: 'bob', content: 'Typo here.', createdAt: new Date( 2023, 5, 2, 9, 15 ) }
+		]
+	}
+] );
+
+class CommentsAdapterPlugin extends Plugin {
+	static get requires() {
+		return [ Comments ];
+	}
+
+	init() {
+		const commentsEditing = this.editor.plugins.get( 'CommentsEditing' );
+
+		commentsEditing.addAuthor( { id: 'ann', name: 'Ann' } );
+		commentsEditing.addAuthor( { id: 'bob', name: 'Bob' } );
+		commentsEditing.adapter = adapter;
+	}
+}
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [ ArticlePluginSet, CommentsAdapterPlugin ],
+		toolbar: [
+			'comment', '|', 'heading', '|', 'bold', 'italic', 'link', '|', 'bulletedList', 'numberedList', 'blockQuote', 'insertTable',
+			'|', 'undo', 'redo'
+		],
+		image: {
+			toolbar: [ 'imageStyle:inline', 'imageStyle:block', 'imageStyle:side', '|', 'imageTextAlternative' ]
+		},
+		table: {
+			contentToolbar: [ 'tableColumn', 'tableRow', 'mergeTableCells' ]
+		},
+		comments: {
+			author: { id: 'jd', name: 'John Doe' }
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+		window.commentsAdapter = adapter;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
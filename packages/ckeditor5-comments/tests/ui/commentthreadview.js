@@ -0,0 +1,165 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals document */
+
+import { ButtonView, FocusCycler, LabeledFieldView, ViewCollection } from '@ckeditor/ckeditor5-ui';
+import { FocusTracker, KeystrokeHandler, keyCodes } from '@ckeditor/ckeditor5-utils';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import CommentThreadView from '../../src/ui/commentthreadview';
+import CommentView from '../../src/ui/commentview';
+
+describe( 'CommentThreadView', () => {
+	let view;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( () => {
+		view = new CommentThreadView( { t: val => val } );
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create an element from the template', () => {
+			expect( view.element.tagName ).to.equal( 'FORM' );
+			expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-comment-thread' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-responsive-form' ) ).to.be.true;
+			expect( view.element.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+		} );
+
+		it( 'should create child views', () => {
+			expect( view.commentsView ).to.be.instanceOf( ViewCollection );
+			expect( view.inputView ).to.be.instanceOf( LabeledFieldView );
+			expect( view.submitButtonView ).to.be.instanceOf( ButtonView );
+			expect( view.resolveButtonView ).to.be.instanceOf( ButtonView );
+			expect( view.deleteButtonView ).to.be.instanceOf( ButtonView );
+			expect( view.cancelButtonView ).to.be.instanceOf( ButtonView );
+
+			expect( view.submitButtonView.type ).to.equal( 'submit' );
+			expect( view.submitButtonView.element.classList.contains( 'ck-button-save' ) ).to.be.true;
+			expect( view.resolveButtonView.element.classList.contains( 'ck-button-resolve' ) ).to.be.true;
+			expect( view.deleteButtonView.element.classList.contains( 'ck-button-delete' ) ).to.be.true;
+			expect( view.cancelButtonView.element.classList.contains( 'ck-button-cancel' ) ).to.be.true;
+		} );
+
+		it( 'should render the comments in the comments container', () => {
+			const commentView = new CommentView( { t: val => val }, { authorName: 'John Doe', content: 'Foo?', createdAt: new Date() } );
+
+			view.commentsView.add( commentView );
+
+			expect( view.element.querySelector( '.ck-comment-thread__comments' ).firstChild ).to.equal( commentView.element );
+		} );
+
+		it( 'should create #focusTracker and #keystrokes', () => {
+			expect( view.focusTracker ).to.be.instanceOf( FocusTracker );
+			expect( view.keystrokes ).to.be.instanceOf( KeystrokeHandler );
+		} );
+
+		it( 'should create a focus cycler', () => {
+			expect( view._focusCycler ).to.be.instanceOf( FocusCycler );
+		} );
+
+		it( 'should delegate the buttons #execute to the view events', () => {
+			const spy = sinon.spy();
+
+			view.on( 'resolve', spy );
+			view.on( 'delete', spy );
+			view.on( 'cancel', spy );
+
+			view.resolveButtonView.fire( 'execute' );
+			view.deleteButtonView.fire( 'execute' );
+			view.cancelButtonView.fire( 'execute' );
+
+			expect( spy.args.map( args => args[ 0 ].name ) ).to.deep.equal( [ 'resolve', 'delete', 'cancel' ] );
+		} );
+	} );
+
+	describe( '#isNewThread', () => {
+		it( 'should be false by default', () => {
+			expect( view.isNewThread ).to.be.false;
+			expect( view.inputView.label ).to.equal( 'Reply' );
+			expect( view.resolveButtonView.isVisible ).to.be.true;
+			expect( view.deleteButtonView.isVisible ).to.be.true;
+		} );
+
+		it( 'should hide the comments and the thread actions when true', () => {
+			view.isNewThread = true;
+
+			expect( view.inputView.label ).to.equal( 'Comment' );
+			expect( view.resolveButtonView.isVisible ).to.be.false;
+			expect( view.deleteButtonView.isVisible ).to.be.false;
+			expect( view.element.querySelector( '.ck-comment-thread__comments' ).classList.contains( 'ck-hidden' ) ).to.be.true;
+		} );
+	} );
+
+	describe( '#content', () => {
+		it( 'should return the trimmed value of the input', () => {
+			view.inputView.fieldView.element.value = '  Foo?  ';
+
+			expect( view.content ).to.equal( 'Foo?' );
+		} );
+
+		it( 'should set the value of the input', () => {
+			view.content = 'Bar.';
+
+			expect( view.inputView.fieldView.element.value ).to.equal( 'Bar.' );
+		} );
+	} );
+
+	describe( 'render()', () => {
+		it( 'should register the focusable child views in the focus tracker', () => {
+			const view = new CommentThreadView( { t: val => val } );
+			const spy = sinon.spy( view.focusTracker, 'add' );
+
+			view.render();
+
+			sinon.assert.callCount( spy, 5 );
+
+			view.destroy();
+		} );
+
+		it( 'should fire #submit when the form is submitted', () => {
+			const spy = sinon.spy();
+
+			view.on( 'submit', spy );
+			view.element.dispatchEvent( new document.defaultView.Event( 'submit' ) );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should start listening for the keystrokes on the element', () => {
+			const spy = sinon.spy( view._focusCycler, 'focusNext' );
+
+			view.focusTracker.isFocused = true;
+			view.focusTracker.focusedElement = view.inputView.element;
+
+			view.keystrokes.press( {
+				keyCode: keyCodes.tab,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			} );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the first focusable child view', () => {
+			const spy = sinon.spy( view._focusCycler, 'focusFirst' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+} );
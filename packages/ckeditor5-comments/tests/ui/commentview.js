@@ -0,0 +1,49 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import CommentView from '../../src/ui/commentview';
+
+describe( 'CommentView', () => {
+	let view, createdAt;
+
+	beforeEach( () => {
+		createdAt = new Date( Date.UTC( 2023, 0, 1, 12 ) );
+		view = new CommentView( { t: val => val, uiLanguage: 'en' }, { authorName: 'John Doe', content: 'Foo?', createdAt } );
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	it( 'should create an element from the template', () => {
+		expect( view.element.tagName ).to.equal( 'DIV' );
+		expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+		expect( view.element.classList.contains( 'ck-comment' ) ).to.be.true;
+	} );
+
+	it( 'should render the author name', () => {
+		expect( view.element.querySelector( '.ck-comment__author' ).textContent ).to.equal( 'John Doe' );
+	} );
+
+	it( 'should render the creation date', () => {
+		const timeElement = view.element.querySelector( 'time.ck-comment__date' );
+
+		expect( timeElement.getAttribute( 'datetime' ) ).to.equal( '2023-01-01T12:00:00.000Z' );
+		expect( timeElement.textContent ).to.equal( createdAt.toLocaleString( 'en' ) );
+	} );
+
+	it( 'should render the content', () => {
+		expect( view.element.querySelector( '.ck-comment__content' ).textContent ).to.equal( 'Foo?' );
+	} );
+
+	it( 'should update the element when the observable properties change', () => {
+		view.content = 'Bar.';
+		view.authorName = 'Mary Roe';
+
+		expect( view.element.querySelector( '.ck-comment__content' ).textContent ).to.equal( 'Bar.' );
+		expect( view.element.querySelector( '.ck-comment__author' ).textContent ).to.equal( 'Mary Roe' );
+	} );
+} );
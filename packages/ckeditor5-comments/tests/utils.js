@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { COMMENT_MARKER_GROUP, getCommentMarkerName, getCommentThreadId } from '../src/utils';
+
+describe( 'comments utils', () => {
+	describe( 'COMMENT_MARKER_GROUP', () => {
+		it( 'should be "comment"', () => {
+			expect( COMMENT_MARKER_GROUP ).to.equal( 'comment' );
+		} );
+	} );
+
+	describe( 'getCommentMarkerName()', () => {
+		it( 'should prefix the thread id with the marker group', () => {
+			expect( getCommentMarkerName( 'e1d2' ) ).to.equal( 'comment:e1d2' );
+		} );
+	} );
+
+	describe( 'getCommentThreadId()', () => {
+		it( 'should return the thread id of a comment marker', () => {
+			expect( getCommentThreadId( 'comment:e1d2' ) ).to.equal( 'e1d2' );
+		} );
+
+		it( 'should keep the separators in the thread id', () => {
+			expect( getCommentThreadId( 'comment:e1:d2' ) ).to.equal( 'e1:d2' );
+		} );
+
+		it( 'should return null for markers of other groups', () => {
+			expect( getCommentThreadId( 'suggestion:insertion:e1d2:jd' ) ).to.be.null;
+			expect( getCommentThreadId( 'commentary:e1d2' ) ).to.be.null;
+		} );
+
+		it( 'should return null for a marker without the thread id', () => {
+			expect( getCommentThreadId( 'comment:' ) ).to.be.null;
+		} );
+	} );
+} );
@@ -0,0 +1,34 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	ContentLintConfig,
+	ContentLint,
+	ContentLintEditing,
+	ContentLintUI,
+	FixContentLintIssueCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the {@link module:content-lint/contentlint~ContentLint content lint feature}.
+		 *
+		 * Read more in {@link module:content-lint/contentlintconfig~ContentLintConfig}.
+		 */
+		contentLint?: ContentLintConfig;
+	}
+
+	interface PluginsMap {
+		[ ContentLint.pluginName ]: ContentLint;
+		[ ContentLintEditing.pluginName ]: ContentLintEditing;
+		[ ContentLintUI.pluginName ]: ContentLintUI;
+	}
+
+	interface CommandsMap {
+		fixContentLintIssue: FixContentLintIssueCommand;
+	}
+}
@@ -0,0 +1,38 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint/contentlint
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import ContentLintEditing from './contentlintediting';
+import ContentLintUI from './contentlintui';
+
+/**
+ * The content lint feature. It validates the content against the
+ * {@link module:content-lint/contentlintconfig~ContentLintConfig#rules configured rules}, for instance, it reports
+ * the empty headings, the skipped heading levels, the images without the text alternative and the tables without headers.
+ * The elements with issues are outlined in the editing view and the issues are listed in the dropdown, with the quick fixes.
+ *
+ * This is a "glue" plugin which loads the {@link module:content-lint/contentlintediting~ContentLintEditing content lint editing feature}
+ * and the {@link module:content-lint/contentlintui~ContentLintUI content lint UI feature}.
+ */
+export default class ContentLint extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'ContentLint' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ ContentLintEditing, ContentLintUI ] as const;
+	}
+}
@@ -0,0 +1,43 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint/contentlintconfig
+ */
+
+import type { ContentLintRule } from './contentlintrule';
+
+/**
+ * The configuration of the {@link module:content-lint/contentlint~ContentLint content lint feature}.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		contentLint: {
+ * 			rules: [ emptyHeadingRule, headingLevelRule ]
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor configuration options}.
+ */
+export interface ContentLintConfig {
+
+	/**
+	 * The rules the content is validated against.
+	 *
+	 * Defaults to {@link module:content-lint/rules~defaultContentLintRules all built-in rules}.
+	 */
+	rules?: Array<ContentLintRule>;
+
+	/**
+	 * The time (in milliseconds) of inactivity after which the changed content is validated.
+	 *
+	 * @default 500
+	 */
+	checkDelay?: number;
+}
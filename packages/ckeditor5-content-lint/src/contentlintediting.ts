@@ -0,0 +1,295 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint/contentlintediting
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import type {
+	DocumentChangeEvent,
+	DowncastAddMarkerEvent,
+	DowncastRemoveMarkerEvent,
+	Element,
+	Marker,
+	RootElement
+} from 'ckeditor5/src/engine';
+import { uid } from 'ckeditor5/src/utils';
+import { debounce, type DebouncedFunc } from 'lodash-es';
+
+import FixContentLintIssueCommand from './fixcontentlintissuecommand';
+import { defaultContentLintRules } from './rules';
+import type { ContentLintRule, ContentLintRuleIssue } from './contentlintrule';
+
+import '../theme/contentlint.css';
+
+/**
+ * The group of the markers of the issues. The name of a marker is `contentLint:<rule id>:<unique id>`.
+ */
+const MARKER_GROUP = 'contentLint';
+
+/**
+ * The class of the view elements with issues.
+ */
+const ISSUE_CLASS = 'ck-content-lint-issue';
+
+/**
+ * The content lint editing feature.
+ *
+ * It validates all roots of the document against the {@link module:content-lint/contentlintconfig~ContentLintConfig#rules
+ * configured rules} whenever the content changes and marks the elements with issues with the `contentLint:*` markers,
+ * displayed as outlined elements in the editing view. The found issues are listed in the {@link #issues} property.
+ *
+ * It also registers the `'fixContentLintIssue'` command applying the quick fix of an issue.
+ */
+export default class ContentLintEditing extends Plugin {
+	/**
+	 * The issues found in the content, in the document order.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public issues: Array<ContentLintIssue>;
+
+	/**
+	 * The rules the content is validated against.
+	 */
+	private _rules: Array<ContentLintRule> = [];
+
+	/**
+	 * Validates the content after a period of inactivity.
+	 */
+	private readonly _lintDebounced: DebouncedFunc<() => void>;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'ContentLintEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'contentLint', {
+			rules: defaultContentLintRules,
+			checkDelay: 500
+		} );
+
+		this.set( 'issues', [] );
+
+		this._lintDebounced = debounce( () => {
+			this.lint();
+		}, editor.config.get( 'contentLint.checkDelay' ) );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const model = editor.model;
+
+		this._rules = editor.config.get( 'contentLint.rules' )!;
+
+		editor.commands.add( 'fixContentLintIssue', new FixContentLintIssueCommand( editor ) );
+
+		this._defineConverters();
+
+		// Validate the content changed by the user as well as the content loaded to the editor. The issues of the removed
+		// elements are forgotten right away, so they are not listed until the content is validated again.
+		this.listenTo<DocumentChangeEvent>( model.document, 'change:data', () => {
+			if ( this.issues.some( issue => !isInDocument( issue.marker ) ) ) {
+				this.issues = this.issues.filter( issue => isInDocument( issue.marker ) );
+			}
+
+			this._lintDebounced();
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this._lintDebounced.cancel();
+	}
+
+	/**
+	 * Validates the whole content immediately, updates the markers of the issues and the {@link #issues} property.
+	 */
+	public lint(): void {
+		const editor = this.editor;
+		const model = editor.model;
+		const foundIssues: Array<ContentLintRuleIssue & { rule: ContentLintRule }> = [];
+
+		this._lintDebounced.cancel();
+
+		for ( const rootName of model.document.getRootNames() ) {
+			const root = model.document.getRoot( rootName )!;
+
+			for ( const rule of this._rules ) {
+				for ( const issue of rule.check( root, editor ) ) {
+					foundIssues.push( { ...issue, rule } );
+				}
+			}
+		}
+
+		// Keep the markers of the issues that are still there, so the issues do not jump in the UI.
+		const staleMarkers = new Set( model.markers.getMarkersGroup( MARKER_GROUP ) );
+		const markers = foundIssues.map( ( { element, rule } ) => {
+			const range = model.createRangeOn( element );
+
+			for ( const marker of staleMarkers ) {
+				if ( marker.name.startsWith( `${ MARKER_GROUP }:${ rule.id }:` ) && marker.getRange().isEqual( range ) ) {
+					staleMarkers.delete( marker );
+
+					return marker;
+				}
+			}
+
+			return null;
+		} );
+
+		if ( staleMarkers.size || markers.includes( null ) ) {
+			model.change( writer => {
+				for ( const marker of staleMarkers ) {
+					writer.removeMarker( marker );
+				}
+
+				foundIssues.forEach( ( { element, rule }, index ) => {
+					if ( !markers[ index ] ) {
+						markers[ index ] = writer.addMarker( `${ MARKER_GROUP }:${ rule.id }:${ uid() }`, {
+							range: model.createRangeOn( element ),
+							usingOperation: false,
+							affectsData: false
+						} );
+					}
+				} );
+			} );
+		}
+
+		// The issues are found root by root, so the stable sort keeps the order of the roots.
+		this.issues = foundIssues
+			.map( ( { element, rule, message, fixLabel }, index ) => ( { marker: markers[ index ]!, element, rule, message, fixLabel } ) )
+			.sort( ( issueA, issueB ) => {
+				const relation = issueA.marker.getStart().compareWith( issueB.marker.getStart() );
+
+				if ( relation == 'same' || relation == 'different' ) {
+					return 0;
+				}
+
+				return relation == 'before' ? -1 : 1;
+			} );
+	}
+
+	/**
+	 * Returns the issue marked with the given marker, or `null` if there is no such issue.
+	 */
+	public getIssue( markerName: string ): ContentLintIssue | null {
+		return this.issues.find( issue => issue.marker.name == markerName ) || null;
+	}
+
+	/**
+	 * Moves the selection to the element of the issue: on the element if it is an object (for instance, an image or a table),
+	 * or to the beginning of the element otherwise.
+	 */
+	public selectIssue( markerName: string ): void {
+		const model = this.editor.model;
+		const issue = this.getIssue( markerName );
+
+		if ( !issue ) {
+			return;
+		}
+
+		model.change( writer => {
+			if ( model.schema.isObject( issue.element ) ) {
+				writer.setSelection( issue.element, 'on' );
+			} else {
+				writer.setSelection( issue.element, 0 );
+			}
+		} );
+	}
+
+	/**
+	 * Defines the conversion of the markers of the issues to the class of the elements in the editing view.
+	 */
+	private _defineConverters(): void {
+		const model = this.editor.model;
+
+		this.editor.conversion.for( 'editingDowncast' ).add( dispatcher => {
+			dispatcher.on<DowncastAddMarkerEvent>( `addMarker:${ MARKER_GROUP }`, ( evt, data, conversionApi ) => {
+				const viewElement = conversionApi.mapper.toViewElement( data.markerRange.start.nodeAfter as Element );
+
+				// The whole marker is consumed, so the event is not fired for each item of the element.
+				if ( viewElement && conversionApi.consumable.consume( data.markerRange, evt.name ) ) {
+					conversionApi.writer.addClass( ISSUE_CLASS, viewElement );
+				}
+			} );
+
+			dispatcher.on<DowncastRemoveMarkerEvent>( `removeMarker:${ MARKER_GROUP }`, ( evt, data, conversionApi ) => {
+				const element = data.markerRange.start.nodeAfter as Element | null;
+				const viewElement = element && conversionApi.mapper.toViewElement( element );
+
+				if ( !viewElement ) {
+					return;
+				}
+
+				// The element may have more issues.
+				const hasOtherIssues = Array.from( model.markers.getMarkersGroup( MARKER_GROUP ) ).some( marker => {
+					return marker.name != data.markerName && marker.getRange().isEqual( data.markerRange );
+				} );
+
+				if ( !hasOtherIssues ) {
+					conversionApi.writer.removeClass( ISSUE_CLASS, viewElement );
+				}
+			} );
+		} );
+	}
+}
+
+/**
+ * The issue found in the content by the {@link module:content-lint/contentlintediting~ContentLintEditing content lint feature}.
+ */
+export interface ContentLintIssue {
+
+	/**
+	 * The marker of the issue. Its range is on the {@link #element}.
+	 */
+	marker: Marker;
+
+	/**
+	 * The element with the issue.
+	 */
+	element: Element;
+
+	/**
+	 * The rule that found the issue.
+	 */
+	rule: ContentLintRule;
+
+	/**
+	 * The description of the issue.
+	 */
+	message: string;
+
+	/**
+	 * The label of the quick fix of the issue.
+	 */
+	fixLabel?: string;
+}
+
+/**
+ * Checks whether the marker is in an attached root of the document, that is, its element was not removed.
+ */
+function isInDocument( marker: Marker ): boolean {
+	const root = marker.getRange().root as RootElement;
+
+	return root.rootName != '$graveyard' && root.isAttached();
+}
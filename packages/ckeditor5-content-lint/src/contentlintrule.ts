@@ -0,0 +1,92 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint/contentlintrule
+ */
+
+import type { Editor } from 'ckeditor5/src/core';
+import type { Element, RootElement } from 'ckeditor5/src/engine';
+
+/**
+ * The rule validating the content, used by the {@link module:content-lint/contentlint~ContentLint content lint feature}.
+ *
+ * The rule finds the model elements breaking it. Optionally, it fixes the element with an issue
+ * when the user chooses the quick fix of the issue:
+ *
+ * ```ts
+ * const noEmptyParagraphsRule: ContentLintRule = {
+ * 	id: 'noEmptyParagraphs',
+ *
+ * 	check( root, editor ) {
+ * 		return Array.from( editor.model.createRangeIn( root ).getItems() )
+ * 			.filter( item => item.is( 'element', 'paragraph' ) && item.isEmpty )
+ * 			.map( element => ( { element, message: 'Empty paragraph', fixLabel: 'Remove paragraph' } ) );
+ * 	},
+ *
+ * 	fix( element, editor ) {
+ * 		editor.model.change( writer => writer.remove( element ) );
+ * 	}
+ * };
+ *
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		contentLint: {
+ * 			rules: [ ...defaultContentLintRules, noEmptyParagraphsRule ]
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:content-lint/rules} for the built-in rules.
+ */
+export interface ContentLintRule {
+
+	/**
+	 * The unique identifier of the rule.
+	 */
+	id: string;
+
+	/**
+	 * Returns the issues found in the root. It is called for each root of the document whenever the content changes,
+	 * so it should not modify the model.
+	 *
+	 * @param root The checked root.
+	 * @param editor The editor instance.
+	 */
+	check( root: RootElement, editor: Editor ): Array<ContentLintRuleIssue>;
+
+	/**
+	 * Fixes the issue of the element, for instance, by changing the model or by displaying the UI of another feature.
+	 * When the function is not provided, the issues of the rule have no quick fix.
+	 *
+	 * @param element The element with the issue, as returned by {@link #check}.
+	 * @param editor The editor instance.
+	 */
+	fix?( element: Element, editor: Editor ): void;
+}
+
+/**
+ * The issue found by the {@link module:content-lint/contentlintrule~ContentLintRule#check} function.
+ */
+export interface ContentLintRuleIssue {
+
+	/**
+	 * The element with the issue.
+	 */
+	element: Element;
+
+	/**
+	 * The description of the issue displayed in the list of the issues.
+	 */
+	message: string;
+
+	/**
+	 * The label of the quick fix of the issue. Defaults to "Fix". It is used only if the rule has the
+	 * {@link module:content-lint/contentlintrule~ContentLintRule#fix} function.
+	 */
+	fixLabel?: string;
+}
@@ -0,0 +1,105 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint/contentlintui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { createDropdown } from 'ckeditor5/src/ui';
+
+import ContentLintIssuesView, {
+	type ContentLintIssuesFixEvent,
+	type ContentLintIssuesSelectEvent,
+	type ContentLintIssuesViewItem
+} from './ui/contentlintissuesview';
+import type FixContentLintIssueCommand from './fixcontentlintissuecommand';
+
+import contentLintIcon from '../theme/icons/content-lint.svg';
+
+/**
+ * The content lint UI plugin. It registers the `'contentLint'` dropdown listing the issues found in the content:
+ *
+ * * Choosing an issue moves the selection to the element with the issue and scrolls the editing view to it.
+ * * Choosing the quick fix of an issue executes the `'fixContentLintIssue'` command.
+ */
+export default class ContentLintUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'ContentLintUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+		const contentLint = editor.plugins.get( 'ContentLintEditing' );
+
+		// Add the `contentLint` dropdown to feature components.
+		editor.ui.componentFactory.add( 'contentLint', locale => {
+			const command: FixContentLintIssueCommand = editor.commands.get( 'fixContentLintIssue' )!;
+			const dropdownView = createDropdown( locale );
+			let issuesView: ContentLintIssuesView;
+
+			dropdownView.buttonView.set( {
+				icon: contentLintIcon,
+				tooltip: true
+			} );
+
+			dropdownView.buttonView.bind( 'label' ).to( contentLint, 'issues', issues => t( 'Content issues: %0', issues.length ) );
+
+			dropdownView.on( 'change:isOpen', () => {
+				if ( !issuesView ) {
+					issuesView = new ContentLintIssuesView( locale );
+					issuesView.bind( 'areFixesEnabled' ).to( command, 'isEnabled' );
+
+					issuesView.on<ContentLintIssuesSelectEvent>( 'select', ( evt, { markerName } ) => {
+						dropdownView.isOpen = false;
+
+						contentLint.selectIssue( markerName );
+
+						editor.editing.view.focus();
+						editor.editing.view.scrollToTheSelection();
+					} );
+
+					// The editing view is focused before the quick fix, so the fix can move the focus, for instance, to a form.
+					issuesView.on<ContentLintIssuesFixEvent>( 'fix', ( evt, { markerName } ) => {
+						dropdownView.isOpen = false;
+
+						editor.editing.view.focus();
+						editor.execute( 'fixContentLintIssue', { markerName } );
+					} );
+
+					dropdownView.panelView.children.add( issuesView );
+				}
+
+				if ( dropdownView.isOpen ) {
+					issuesView.setIssues( getIssuesViewItems() );
+				}
+			} );
+
+			// Keep the list up to date while it is displayed.
+			this.listenTo( contentLint, 'change:issues', () => {
+				if ( dropdownView.isOpen ) {
+					issuesView.setIssues( getIssuesViewItems() );
+				}
+			} );
+
+			return dropdownView;
+		} );
+
+		function getIssuesViewItems(): Array<ContentLintIssuesViewItem> {
+			return contentLint.issues.map( ( { marker, rule, message, fixLabel } ) => ( {
+				markerName: marker.name,
+				message,
+				fixLabel: rule.fix ? fixLabel || t( 'Fix' ) : undefined
+			} ) );
+		}
+	}
+}
@@ -0,0 +1,44 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint/fixcontentlintissuecommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+/**
+ * The fix content lint issue command. It is registered by the
+ * {@link module:content-lint/contentlintediting~ContentLintEditing content lint editing feature} as `'fixContentLintIssue'`.
+ *
+ * It applies the {@link module:content-lint/contentlintrule~ContentLintRule#fix quick fix} of the rule that found the issue
+ * and validates the content again:
+ *
+ * ```ts
+ * editor.execute( 'fixContentLintIssue', { markerName: 'contentLint:emptyHeading:e3b1f' } );
+ * ```
+ */
+export default class FixContentLintIssueCommand extends Command {
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 * @param options Command options.
+	 * @param options.markerName The name of the marker of the issue.
+	 */
+	public override execute( { markerName }: { markerName: string } ): void {
+		const editor = this.editor;
+		const contentLint = editor.plugins.get( 'ContentLintEditing' );
+		const issue = contentLint.getIssue( markerName );
+
+		if ( !issue || !issue.rule.fix ) {
+			return;
+		}
+
+		issue.rule.fix( issue.element, editor );
+
+		contentLint.lint();
+	}
+}
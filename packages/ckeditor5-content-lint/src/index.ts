@@ -0,0 +1,26 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint
+ */
+
+export { default as ContentLint } from './contentlint';
+export { default as ContentLintEditing } from './contentlintediting';
+export { default as ContentLintUI } from './contentlintui';
+export { default as FixContentLintIssueCommand } from './fixcontentlintissuecommand';
+export {
+	emptyHeadingRule,
+	headingLevelRule,
+	imageTextAlternativeRule,
+	tableHeadersRule,
+	defaultContentLintRules
+} from './rules';
+
+export type { ContentLintConfig } from './contentlintconfig';
+export type { ContentLintIssue } from './contentlintediting';
+export type { ContentLintRule, ContentLintRuleIssue } from './contentlintrule';
+
+import './augmentation';
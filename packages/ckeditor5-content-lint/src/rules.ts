@@ -0,0 +1,149 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint/rules
+ */
+
+import type { RootElement } from 'ckeditor5/src/engine';
+import type { ImageTextAlternativeUI } from '@ckeditor/ckeditor5-image';
+
+import type { ContentLintRule } from './contentlintrule';
+import { findElements, getHeadingLevel, hasContent } from './utils';
+
+/**
+ * Reports the headings (`heading1` to `heading6`) without the text. The quick fix removes the heading.
+ */
+export const emptyHeadingRule: ContentLintRule = {
+	id: 'emptyHeading',
+
+	check( root, editor ) {
+		const t = editor.t;
+
+		return findElements( editor.model, root, element => !!getHeadingLevel( element ) && !hasContent( element ) )
+			.map( element => ( {
+				element,
+				message: t( 'Empty heading' ),
+				fixLabel: t( 'Remove heading' )
+			} ) );
+	},
+
+	fix( element, editor ) {
+		editor.model.change( writer => {
+			writer.remove( element );
+		} );
+	}
+};
+
+/**
+ * Reports the headings whose level is more than one level deeper than the level of the preceding heading,
+ * for instance, `heading3` following `heading1`. The quick fix changes the heading to the level following the preceding heading.
+ */
+export const headingLevelRule: ContentLintRule = {
+	id: 'headingLevel',
+
+	check( root, editor ) {
+		const t = editor.t;
+		const headings = findElements( editor.model, root, element => !!getHeadingLevel( element ) );
+
+		return headings
+			.filter( ( heading, index ) => index > 0 && getHeadingLevel( heading )! > getHeadingLevel( headings[ index - 1 ] )! + 1 )
+			.map( element => ( {
+				element,
+				message: t( 'Skipped heading level' ),
+				fixLabel: t( 'Fix heading level' )
+			} ) );
+	},
+
+	fix( element, editor ) {
+		const model = editor.model;
+		const headings = findElements( model, element.root as RootElement, item => !!getHeadingLevel( item ) );
+		const previousHeading = headings[ headings.indexOf( element ) - 1 ];
+
+		if ( !previousHeading ) {
+			return;
+		}
+
+		const name = `heading${ getHeadingLevel( previousHeading )! + 1 }`;
+
+		if ( model.schema.isRegistered( name ) ) {
+			model.change( writer => {
+				writer.rename( element, name );
+			} );
+		}
+	}
+};
+
+/**
+ * Reports the block and inline images without the text alternative (the `alt` attribute). The quick fix selects the image
+ * and displays the form of the text alternative, if the {@link module:image/imagetextalternative~ImageTextAlternative} plugin
+ * is loaded.
+ */
+export const imageTextAlternativeRule: ContentLintRule = {
+	id: 'imageTextAlternative',
+
+	check( root, editor ) {
+		const t = editor.t;
+
+		return findElements( editor.model, root, element => {
+			const isImage = element.is( 'element', 'imageBlock' ) || element.is( 'element', 'imageInline' );
+
+			return isImage && !String( element.getAttribute( 'alt' ) || '' ).trim();
+		} ).map( element => ( {
+			element,
+			message: t( 'Image without text alternative' ),
+			fixLabel: t( 'Add text alternative' )
+		} ) );
+	},
+
+	fix( element, editor ) {
+		editor.model.change( writer => {
+			writer.setSelection( element, 'on' );
+		} );
+
+		if ( editor.plugins.has( 'ImageTextAlternativeUI' ) ) {
+			( editor.plugins.get( 'ImageTextAlternativeUI' ) as ImageTextAlternativeUI )._showForm();
+		}
+	}
+};
+
+/**
+ * Reports the tables without the header rows and columns. The quick fix turns the first row of the table into the header row.
+ */
+export const tableHeadersRule: ContentLintRule = {
+	id: 'tableHeaders',
+
+	check( root, editor ) {
+		const t = editor.t;
+
+		return findElements( editor.model, root, element => {
+			return element.is( 'element', 'table' ) && !element.getAttribute( 'headingRows' ) && !element.getAttribute( 'headingColumns' );
+		} ).map( element => ( {
+			element,
+			message: t( 'Table without headers' ),
+			fixLabel: t( 'Add header row' )
+		} ) );
+	},
+
+	fix( element, editor ) {
+		// The command works on the selected table cells, so the selection is moved to the first cell first.
+		editor.model.change( writer => {
+			writer.setSelection( element.getNodeByPath( [ 0, 0 ] ), 'in' );
+		} );
+
+		editor.execute( 'setTableRowHeader', { forceValue: true } );
+	}
+};
+
+/**
+ * All built-in rules. It is the default value of the
+ * {@link module:content-lint/contentlintconfig~ContentLintConfig#rules `config.contentLint.rules`} option.
+ */
+export const defaultContentLintRules: Array<ContentLintRule> = [
+	emptyHeadingRule,
+	headingLevelRule,
+	imageTextAlternativeRule,
+	tableHeadersRule
+];
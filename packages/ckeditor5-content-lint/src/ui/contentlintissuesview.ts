@@ -0,0 +1,176 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint/ui/contentlintissuesview
+ */
+
+import { ButtonView, ListItemView, ListView, View } from 'ckeditor5/src/ui';
+import type { Locale } from 'ckeditor5/src/utils';
+
+import '../../theme/contentlintui.css';
+
+/**
+ * The list of the content issues displayed in the panel of the content lint dropdown. Each issue is a button selecting
+ * the element with the issue, optionally followed by the button of the quick fix.
+ */
+export default class ContentLintIssuesView extends View<HTMLDivElement> {
+	/**
+	 * The list of the issues.
+	 */
+	public readonly listView: ListView;
+
+	/**
+	 * Whether any issue is listed.
+	 *
+	 * @observable
+	 */
+	declare public hasIssues: boolean;
+
+	/**
+	 * Whether the quick fixes can be applied. They cannot when the content cannot be edited, for instance in the read-only mode.
+	 *
+	 * @observable
+	 */
+	declare public areFixesEnabled: boolean;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const t = locale.t;
+		const bind = this.bindTemplate;
+
+		this.set( {
+			hasIssues: false,
+			areFixesEnabled: true
+		} );
+
+		this.listView = new ListView( locale );
+		this.listView.extendTemplate( {
+			attributes: {
+				class: [ 'ck-content-lint-issues__list', bind.if( 'hasIssues', 'ck-hidden', value => !value ) ]
+			}
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-content-lint-issues' ],
+				tabindex: '-1'
+			},
+			children: [
+				this.listView,
+				{
+					tag: 'p',
+					attributes: {
+						class: [ 'ck', 'ck-content-lint-issues__no-issues', bind.if( 'hasIssues', 'ck-hidden' ) ]
+					},
+					children: [ t( 'No issues found' ) ]
+				}
+			]
+		} );
+	}
+
+	/**
+	 * Focuses the first issue.
+	 */
+	public focus(): void {
+		this.listView.focus();
+	}
+
+	/**
+	 * Replaces the listed issues.
+	 */
+	public setIssues( issues: Array<ContentLintIssuesViewItem> ): void {
+		this.listView.items.clear();
+		this.listView.items.addMany( issues.map( issue => this._createListItem( issue ) ) );
+
+		this.hasIssues = issues.length > 0;
+	}
+
+	/**
+	 * Creates the list item of the issue with the button selecting the element and the button of the quick fix.
+	 */
+	private _createListItem( { markerName, message, fixLabel }: ContentLintIssuesViewItem ): ListItemView {
+		const listItemView = new ListItemView( this.locale );
+		const selectButtonView = new ButtonView( this.locale );
+
+		selectButtonView.set( {
+			label: message,
+			class: 'ck-content-lint-issues__issue',
+			withText: true
+		} );
+
+		selectButtonView.on( 'execute', () => {
+			this.fire<ContentLintIssuesSelectEvent>( 'select', { markerName } );
+		} );
+
+		listItemView.children.add( selectButtonView );
+
+		if ( fixLabel ) {
+			const fixButtonView = new ButtonView( this.locale );
+
+			fixButtonView.set( {
+				label: fixLabel,
+				class: 'ck-content-lint-issues__fix',
+				withText: true
+			} );
+
+			fixButtonView.bind( 'isEnabled' ).to( this, 'areFixesEnabled' );
+
+			fixButtonView.on( 'execute', () => {
+				this.fire<ContentLintIssuesFixEvent>( 'fix', { markerName } );
+			} );
+
+			listItemView.children.add( fixButtonView );
+		}
+
+		return listItemView;
+	}
+}
+
+/**
+ * The issue listed in the {@link module:content-lint/ui/contentlintissuesview~ContentLintIssuesView}.
+ */
+export interface ContentLintIssuesViewItem {
+
+	/**
+	 * The name of the marker of the issue.
+	 */
+	markerName: string;
+
+	/**
+	 * The description of the issue.
+	 */
+	message: string;
+
+	/**
+	 * The label of the quick fix. The quick fix button is not displayed if it is not set.
+	 */
+	fixLabel?: string;
+}
+
+/**
+ * Fired when the issue is chosen.
+ *
+ * @eventName ~ContentLintIssuesView#select
+ */
+export type ContentLintIssuesSelectEvent = {
+	name: 'select';
+	args: [ { markerName: string } ];
+};
+
+/**
+ * Fired when the quick fix of the issue is chosen.
+ *
+ * @eventName ~ContentLintIssuesView#fix
+ */
+export type ContentLintIssuesFixEvent = {
+	name: 'fix';
+	args: [ { markerName: string } ];
+};
@@ -0,0 +1,52 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module content-lint/utils
+ */
+
+import type { Element, Item, Model, RootElement } from 'ckeditor5/src/engine';
+
+/**
+ * Returns the level of the heading model element (`1` for `heading1`, `2` for `heading2`, etc.)
+ * or `null` if the item is not a heading.
+ */
+export function getHeadingLevel( item: Item | null | undefined ): number | null {
+	if ( !item || !item.is( 'element' ) ) {
+		return null;
+	}
+
+	const match = item.name.match( /^heading([1-6])$/ );
+
+	return match ? Number( match[ 1 ] ) : null;
+}
+
+/**
+ * Returns the model elements of the given root that match the callback, in the document order.
+ */
+export function findElements( model: Model, root: RootElement, callback: ( element: Element ) => boolean ): Array<Element> {
+	const elements: Array<Element> = [];
+
+	for ( const item of model.createRangeIn( root ).getItems() ) {
+		if ( item.is( 'element' ) && callback( item ) ) {
+			elements.push( item );
+		}
+	}
+
+	return elements;
+}
+
+/**
+ * Checks whether the element contains anything but the white space, for instance, some text or an inline image.
+ */
+export function hasContent( element: Element ): boolean {
+	for ( const child of element.getChildren() ) {
+		if ( !child.is( '$text' ) || child.data.trim() ) {
+			return true;
+		}
+	}
+
+	return false;
+}
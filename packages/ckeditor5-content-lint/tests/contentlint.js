@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import ContentLint from '../src/contentlint';
+import ContentLintEditing from '../src/contentlintediting';
+import ContentLintUI from '../src/contentlintui';
+
+describe( 'ContentLint', () => {
+	it( 'should be correctly named', () => {
+		expect( ContentLint.pluginName ).to.equal( 'ContentLint' );
+	} );
+
+	it( 'should require ContentLintEditing and ContentLintUI', () => {
+		expect( ContentLint.requires ).to.deep.equal( [ ContentLintEditing, ContentLintUI ] );
+	} );
+} );
@@ -0,0 +1,367 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import HeadingEditing from '@ckeditor/ckeditor5-heading/src/headingediting';
+import ImageBlockEditing from '@ckeditor/ckeditor5-image/src/image/imageblockediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { getData as getViewData } from '@ckeditor/ckeditor5-engine/src/dev-utils/view';
+
+import ContentLintEditing from '../src/contentlintediting';
+import FixContentLintIssueCommand from '../src/fixcontentlintissuecommand';
+import { defaultContentLintRules, emptyHeadingRule } from '../src/rules';
+
+describe( 'ContentLintEditing', () => {
+	let editor, model, element, root, contentLint;
+
+	// Reports the paragraphs with the "x" text.
+	const noXRule = {
+		id: 'noX',
+
+		check( root, editor ) {
+			return Array.from( editor.model.createRangeIn( root ).getItems() )
+				.filter( item => item.is( 'element', 'paragraph' ) && item.childCount && item.getChild( 0 ).data == 'x' )
+				.map( element => ( { element, message: 'No x' } ) );
+		}
+	};
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await createEditor( [ emptyHeadingRule, noXRule ] );
+		model = editor.model;
+		root = model.document.getRoot();
+		contentLint = editor.plugins.get( ContentLintEditing );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( ContentLintEditing.pluginName ).to.equal( 'ContentLintEditing' );
+	} );
+
+	it( 'should register the "fixContentLintIssue" command', () => {
+		expect( editor.commands.get( 'fixContentLintIssue' ) ).to.be.instanceOf( FixContentLintIssueCommand );
+	} );
+
+	it( 'should define the default configuration', async () => {
+		const defaultEditor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, ContentLintEditing ]
+		} );
+
+		expect( defaultEditor.config.get( 'contentLint.rules' ) ).to.deep.equal( defaultContentLintRules );
+		expect( defaultEditor.config.get( 'contentLint.checkDelay' ) ).to.equal( 500 );
+
+		await defaultEditor.destroy();
+	} );
+
+	it( 'should have no issues by default', () => {
+		expect( contentLint.issues ).to.deep.equal( [] );
+	} );
+
+	describe( 'lint()', () => {
+		it( 'should list the issues found by all rules in the document order', () => {
+			setModelData( model, '<paragraph>x</paragraph><heading1></heading1><paragraph>y</paragraph><paragraph>x</paragraph>' );
+
+			contentLint.lint();
+
+			expect( getIssues() ).to.deep.equal( [ 'noX:0', 'emptyHeading:1', 'noX:3' ] );
+		} );
+
+		it( 'should set the properties of the issues', () => {
+			setModelData( model, '<heading1></heading1>' );
+
+			contentLint.lint();
+
+			const [ issue ] = contentLint.issues;
+
+			expect( issue.element ).to.equal( root.getChild( 0 ) );
+			expect( issue.rule.id ).to.equal( 'emptyHeading' );
+			expect( issue.message ).to.equal( 'Empty heading' );
+			expect( issue.fixLabel ).to.equal( 'Remove heading' );
+			expect( issue.marker.name ).to.match( /^contentLint:emptyHeading:/ );
+			expect( issue.marker.getRange().isEqual( model.createRangeOn( root.getChild( 0 ) ) ) ).to.be.true;
+		} );
+
+		it( 'should mark the issues with the markers that do not affect the data', () => {
+			setModelData( model, '<heading1></heading1><paragraph>x</paragraph>' );
+
+			contentLint.lint();
+
+			const markers = Array.from( model.markers.getMarkersGroup( 'contentLint' ) );
+
+			expect( markers.length ).to.equal( 2 );
+			expect( markers.every( marker => !marker.affectsData && !marker.managedUsingOperations ) ).to.be.true;
+			expect( editor.getData() ).to.equal( '<h2>&nbsp;</h2><p>x</p>' );
+		} );
+
+		it( 'should keep the markers of the issues that are still there', () => {
+			setModelData( model, '<paragraph>x</paragraph><paragraph>y</paragraph>' );
+
+			contentLint.lint();
+
+			const markerName = contentLint.issues[ 0 ].marker.name;
+
+			model.change( writer => {
+				writer.insertElement( 'heading1', root, 0 );
+			} );
+
+			contentLint.lint();
+
+			expect( getIssues() ).to.deep.equal( [ 'emptyHeading:0', 'noX:1' ] );
+			expect( contentLint.issues[ 1 ].marker.name ).to.equal( markerName );
+		} );
+
+		it( 'should remove the markers of the fixed issues', () => {
+			setModelData( model, '<paragraph>x</paragraph><paragraph>x</paragraph>' );
+
+			contentLint.lint();
+
+			model.change( writer => {
+				writer.insertText( 'y', root.getChild( 1 ), 0 );
+			} );
+
+			contentLint.lint();
+
+			expect( getIssues() ).to.deep.equal( [ 'noX:0' ] );
+			expect( Array.from( model.markers.getMarkersGroup( 'contentLint' ) ).length ).to.equal( 1 );
+		} );
+
+		it( 'should not change the model if the markers are up to date', () => {
+			setModelData( model, '<paragraph>x</paragraph>' );
+
+			contentLint.lint();
+
+			const spy = testUtils.sinon.spy( model, 'change' );
+
+			contentLint.lint();
+
+			sinon.assert.notCalled( spy );
+		} );
+
+		it( 'should fire the change:issues event', () => {
+			const spy = sinon.spy();
+
+			contentLint.on( 'change:issues', spy );
+			contentLint.lint();
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should validate all roots', async () => {
+			setModelData( model, '<paragraph>x</paragraph>' );
+
+			model.change( writer => {
+				const otherRoot = model.document.createRoot( '$root', 'other' );
+
+				writer.insertElement( 'heading1', otherRoot, 0 );
+			} );
+
+			contentLint.lint();
+
+			expect( contentLint.issues.map( issue => issue.element.root.rootName ) ).to.deep.equal( [ 'main', 'other' ] );
+		} );
+	} );
+
+	describe( 'validation on changes', () => {
+		let clock;
+
+		// The timers are faked before the editor is created, so the validation of the initial content is delayed by the fake timer too.
+		beforeEach( async () => {
+			await editor.destroy();
+
+			clock = testUtils.sinon.useFakeTimers();
+
+			editor = await createEditor( [ emptyHeadingRule, noXRule ] );
+			model = editor.model;
+			root = model.document.getRoot();
+			contentLint = editor.plugins.get( ContentLintEditing );
+		} );
+
+		it( 'should validate the content after the configured delay', () => {
+			model.change( writer => {
+				writer.insertText( 'x', root.getChild( 0 ), 0 );
+			} );
+
+			clock.tick( 499 );
+			expect( contentLint.issues ).to.deep.equal( [] );
+
+			clock.tick( 1 );
+			expect( getIssues() ).to.deep.equal( [ 'noX:0' ] );
+		} );
+
+		it( 'should not validate the content on the changes that do not affect the data', () => {
+			// Validate the initial content.
+			clock.tick( 500 );
+
+			const spy = testUtils.sinon.spy( contentLint, 'lint' );
+
+			model.change( writer => {
+				writer.setSelection( root, 0 );
+			} );
+
+			clock.tick( 500 );
+
+			sinon.assert.notCalled( spy );
+		} );
+
+		it( 'should forget the issues of the removed elements right away', () => {
+			setModelData( model, '<paragraph>x</paragraph><paragraph>x</paragraph>' );
+			contentLint.lint();
+
+			model.change( writer => {
+				writer.remove( root.getChild( 0 ) );
+			} );
+
+			expect( getIssues() ).to.deep.equal( [ 'noX:0' ] );
+		} );
+
+		it( 'should not validate the content once the editor is destroyed', async () => {
+			const spy = testUtils.sinon.spy( contentLint, 'lint' );
+
+			setModelData( model, '<paragraph>x</paragraph>' );
+
+			await editor.destroy();
+			clock.tick( 500 );
+
+			sinon.assert.notCalled( spy );
+
+			editor = await createEditor( [] );
+		} );
+	} );
+
+	describe( 'getIssue()', () => {
+		it( 'should return the issue of the marker', () => {
+			setModelData( model, '<paragraph>x</paragraph>' );
+			contentLint.lint();
+
+			const [ issue ] = contentLint.issues;
+
+			expect( contentLint.getIssue( issue.marker.name ) ).to.equal( issue );
+		} );
+
+		it( 'should return null for an unknown marker', () => {
+			expect( contentLint.getIssue( 'contentLint:noX:foo' ) ).to.be.null;
+		} );
+	} );
+
+	describe( 'selectIssue()', () => {
+		it( 'should move the selection to the beginning of the element', () => {
+			setModelData( model, '<paragraph>[]Foo</paragraph><paragraph>x</paragraph>' );
+			contentLint.lint();
+
+			contentLint.selectIssue( contentLint.issues[ 0 ].marker.name );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>Foo</paragraph><paragraph>[]x</paragraph>' );
+		} );
+
+		it( 'should select the object element', async () => {
+			const imageRule = {
+				id: 'image',
+				check: root => Array.from( root.getChildren() )
+					.filter( child => child.is( 'element', 'imageBlock' ) )
+					.map( element => ( { element, message: 'Image' } ) )
+			};
+			const editorWithImages = await createEditor( [ imageRule ] );
+			const imagesContentLint = editorWithImages.plugins.get( ContentLintEditing );
+
+			setModelData( editorWithImages.model, '<paragraph>[]Foo</paragraph><imageBlock src="/a.png"></imageBlock>' );
+			imagesContentLint.lint();
+
+			imagesContentLint.selectIssue( imagesContentLint.issues[ 0 ].marker.name );
+
+			expect( getModelData( editorWithImages.model ) ).to.equal(
+				'<paragraph>Foo</paragraph>[<imageBlock src="/a.png"></imageBlock>]'
+			);
+
+			await editorWithImages.destroy();
+		} );
+
+		it( 'should do nothing for an unknown marker', () => {
+			setModelData( model, '<paragraph>[]Foo</paragraph>' );
+
+			contentLint.selectIssue( 'contentLint:noX:foo' );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[]Foo</paragraph>' );
+		} );
+	} );
+
+	describe( 'editing view', () => {
+		it( 'should mark the elements with issues', () => {
+			setModelData( model, '<paragraph>x</paragraph><heading1></heading1><paragraph>y</paragraph>' );
+			contentLint.lint();
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p class="ck-content-lint-issue">x</p><h2 class="ck-content-lint-issue"></h2><p>y</p>'
+			);
+		} );
+
+		it( 'should unmark the elements once the issues are fixed', () => {
+			setModelData( model, '<paragraph>x</paragraph>' );
+			contentLint.lint();
+
+			model.change( writer => {
+				writer.insertText( 'y', root.getChild( 0 ), 0 );
+			} );
+
+			contentLint.lint();
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal( '<p>yx</p>' );
+		} );
+
+		it( 'should keep the element marked as long as it has any issue', () => {
+			const emptyRule = { ...emptyHeadingRule, id: 'other' };
+
+			contentLint._rules = [ emptyHeadingRule, emptyRule ];
+
+			setModelData( model, '<heading1></heading1>' );
+			contentLint.lint();
+
+			contentLint._rules = [ emptyHeadingRule ];
+			contentLint.lint();
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal( '<h2 class="ck-content-lint-issue"></h2>' );
+
+			contentLint._rules = [];
+			contentLint.lint();
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal( '<h2></h2>' );
+		} );
+
+		it( 'should mark the element again when it is converted again', () => {
+			setModelData( model, '<heading1></heading1>' );
+			contentLint.lint();
+
+			model.change( writer => {
+				writer.rename( root.getChild( 0 ), 'heading2' );
+			} );
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal( '<h3 class="ck-content-lint-issue"></h3>' );
+		} );
+	} );
+
+	// Returns the issues as `<rule id>:<index of the element in the root>`.
+	function getIssues() {
+		return contentLint.issues.map( issue => `${ issue.rule.id }:${ issue.element.index }` );
+	}
+
+	function createEditor( rules ) {
+		return ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, HeadingEditing, ImageBlockEditing, ContentLintEditing ],
+			contentLint: { rules }
+		} );
+	}
+} );
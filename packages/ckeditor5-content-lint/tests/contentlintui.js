@@ -0,0 +1,228 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import HeadingEditing from '@ckeditor/ckeditor5-heading/src/headingediting';
+import DropdownView from '@ckeditor/ckeditor5-ui/src/dropdown/dropdownview';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import ContentLintEditing from '../src/contentlintediting';
+import ContentLintUI from '../src/contentlintui';
+import ContentLintIssuesView from '../src/ui/contentlintissuesview';
+import { emptyHeadingRule } from '../src/rules';
+
+describe( 'ContentLintUI', () => {
+	let editor, model, element, dropdown, contentLint;
+
+	// Reports the paragraphs without a quick fix.
+	const paragraphRule = {
+		id: 'paragraph',
+		check: root => Array.from( root.getChildren() )
+			.filter( child => child.is( 'element', 'paragraph' ) )
+			.map( element => ( { element, message: 'Paragraph' } ) )
+	};
+
+	// Reports the `heading2` elements with a quick fix without a label.
+	const heading2Rule = {
+		id: 'heading2',
+		check: root => Array.from( root.getChildren() )
+			.filter( child => child.is( 'element', 'heading2' ) )
+			.map( element => ( { element, message: 'Heading 2' } ) ),
+		fix: () => {}
+	};
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, HeadingEditing, ContentLintEditing, ContentLintUI ],
+			contentLint: {
+				rules: [ emptyHeadingRule, paragraphRule, heading2Rule ]
+			}
+		} );
+
+		model = editor.model;
+		contentLint = editor.plugins.get( ContentLintEditing );
+		dropdown = editor.ui.componentFactory.create( 'contentLint' );
+
+		setModelData( model, '<heading2>Foo</heading2><paragraph>Bar[]</paragraph><heading1></heading1>' );
+		contentLint.lint();
+	} );
+
+	afterEach( async () => {
+		element.remove();
+		dropdown.destroy();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be named', () => {
+		expect( ContentLintUI.pluginName ).to.equal( 'ContentLintUI' );
+	} );
+
+	describe( 'the "contentLint" dropdown', () => {
+		it( 'should be registered', () => {
+			expect( dropdown ).to.be.instanceOf( DropdownView );
+		} );
+
+		it( 'should have the button with the icon and the tooltip', () => {
+			expect( dropdown.buttonView.icon ).to.be.a( 'string' );
+			expect( dropdown.buttonView.tooltip ).to.be.true;
+		} );
+
+		it( 'should have the label with the number of the issues', () => {
+			expect( dropdown.buttonView.label ).to.equal( 'Content issues: 3' );
+
+			contentLint.issues = [];
+
+			expect( dropdown.buttonView.label ).to.equal( 'Content issues: 0' );
+		} );
+
+		it( 'should create the list of the issues when opened for the first time', () => {
+			expect( dropdown.panelView.children.length ).to.equal( 0 );
+
+			dropdown.isOpen = true;
+
+			expect( dropdown.panelView.children.length ).to.equal( 1 );
+			expect( dropdown.panelView.children.first ).to.be.instanceOf( ContentLintIssuesView );
+
+			dropdown.isOpen = false;
+			dropdown.isOpen = true;
+
+			expect( dropdown.panelView.children.length ).to.equal( 1 );
+		} );
+
+		it( 'should list the issues when opened', () => {
+			dropdown.isOpen = true;
+
+			expect( getListedIssues() ).to.deep.equal( [
+				[ 'Heading 2', 'Fix' ],
+				[ 'Paragraph' ],
+				[ 'Empty heading', 'Remove heading' ]
+			] );
+		} );
+
+		it( 'should update the list of the issues when opened again', () => {
+			dropdown.isOpen = true;
+			dropdown.isOpen = false;
+
+			model.change( writer => {
+				writer.remove( model.document.getRoot().getChild( 0 ) );
+			} );
+			contentLint.lint();
+
+			dropdown.isOpen = true;
+
+			expect( getListedIssues() ).to.deep.equal( [
+				[ 'Paragraph' ],
+				[ 'Empty heading', 'Remove heading' ]
+			] );
+		} );
+
+		it( 'should update the list of the issues while opened', () => {
+			dropdown.isOpen = true;
+
+			model.change( writer => {
+				writer.remove( model.document.getRoot().getChild( 2 ) );
+			} );
+			contentLint.lint();
+
+			expect( getListedIssues() ).to.deep.equal( [
+				[ 'Heading 2', 'Fix' ],
+				[ 'Paragraph' ]
+			] );
+		} );
+
+		it( 'should not update the list of the issues while closed', () => {
+			dropdown.isOpen = true;
+			dropdown.isOpen = false;
+
+			const setIssuesSpy = sinon.spy( dropdown.panelView.children.first, 'setIssues' );
+
+			contentLint.issues = [];
+
+			sinon.assert.notCalled( setIssuesSpy );
+		} );
+
+		it( 'should disable the quick fixes when the command is disabled', () => {
+			dropdown.isOpen = true;
+
+			const issuesView = dropdown.panelView.children.first;
+
+			editor.enableReadOnlyMode( 'unit-test' );
+			expect( issuesView.areFixesEnabled ).to.be.false;
+
+			editor.disableReadOnlyMode( 'unit-test' );
+			expect( issuesView.areFixesEnabled ).to.be.true;
+		} );
+
+		describe( 'choosing an issue', () => {
+			it( 'should close the dropdown and select the element with the issue', () => {
+				dropdown.isOpen = true;
+
+				getIssueButtons( 2 ).first.fire( 'execute' );
+
+				expect( dropdown.isOpen ).to.be.false;
+				expect( getModelData( model ) ).to.equal( '<heading2>Foo</heading2><paragraph>Bar</paragraph><heading1>[]</heading1>' );
+			} );
+
+			it( 'should focus the editing view and scroll to the selection', () => {
+				const focusSpy = testUtils.sinon.spy( editor.editing.view, 'focus' );
+				const scrollSpy = testUtils.sinon.stub( editor.editing.view, 'scrollToTheSelection' );
+
+				dropdown.isOpen = true;
+
+				getIssueButtons( 0 ).first.fire( 'execute' );
+
+				sinon.assert.calledOnce( focusSpy );
+				sinon.assert.calledOnce( scrollSpy );
+			} );
+		} );
+
+		describe( 'choosing a quick fix', () => {
+			it( 'should close the dropdown and execute the command', () => {
+				const executeSpy = testUtils.sinon.spy( editor, 'execute' );
+				const markerName = contentLint.issues[ 2 ].marker.name;
+
+				dropdown.isOpen = true;
+
+				getIssueButtons( 2 ).last.fire( 'execute' );
+
+				expect( dropdown.isOpen ).to.be.false;
+				sinon.assert.calledOnceWithExactly( executeSpy, 'fixContentLintIssue', { markerName } );
+				expect( getModelData( model ) ).to.equal( '<heading2>Foo</heading2><paragraph>Bar[]</paragraph>' );
+			} );
+
+			it( 'should focus the editing view before executing the command', () => {
+				const focusSpy = testUtils.sinon.spy( editor.editing.view, 'focus' );
+				const executeSpy = testUtils.sinon.spy( editor, 'execute' );
+
+				dropdown.isOpen = true;
+
+				getIssueButtons( 0 ).last.fire( 'execute' );
+
+				sinon.assert.calledOnce( focusSpy );
+				sinon.assert.calledOnce( executeSpy );
+				expect( focusSpy.calledBefore( executeSpy ) ).to.be.true;
+			} );
+		} );
+	} );
+
+	function getIssueButtons( index ) {
+		return dropdown.panelView.children.first.listView.items.get( index ).children;
+	}
+
+	function getListedIssues() {
+		return Array.from( dropdown.panelView.children.first.listView.items )
+			.map( item => Array.from( item.children ).map( button => button.label ) );
+	}
+} );
@@ -0,0 +1,108 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import HeadingEditing from '@ckeditor/ckeditor5-heading/src/headingediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import ContentLintEditing from '../src/contentlintediting';
+import { emptyHeadingRule } from '../src/rules';
+
+describe( 'FixContentLintIssueCommand', () => {
+	let editor, model, element, command, contentLint;
+
+	// Reports the paragraphs without a quick fix.
+	const paragraphRule = {
+		id: 'paragraph',
+		check: root => Array.from( root.getChildren() )
+			.filter( child => child.is( 'element', 'paragraph' ) )
+			.map( element => ( { element, message: 'Paragraph' } ) )
+	};
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, HeadingEditing, ContentLintEditing ],
+			contentLint: {
+				rules: [ emptyHeadingRule, paragraphRule ]
+			}
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'fixContentLintIssue' );
+		contentLint = editor.plugins.get( ContentLintEditing );
+
+		setModelData( model, '<paragraph>[]Foo</paragraph><heading1></heading1>' );
+		contentLint.lint();
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true by default', () => {
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'unit-test' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should apply the quick fix of the issue', () => {
+			command.execute( { markerName: getMarkerName( 'emptyHeading' ) } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[]Foo</paragraph>' );
+		} );
+
+		it( 'should pass the element and the editor to the quick fix', () => {
+			const issue = contentLint.getIssue( getMarkerName( 'emptyHeading' ) );
+			const fixStub = testUtils.sinon.stub( issue.rule, 'fix' );
+
+			command.execute( { markerName: issue.marker.name } );
+
+			sinon.assert.calledOnceWithExactly( fixStub, model.document.getRoot().getChild( 1 ), editor );
+		} );
+
+		it( 'should validate the content right away', () => {
+			command.execute( { markerName: getMarkerName( 'emptyHeading' ) } );
+
+			expect( contentLint.issues.map( issue => issue.rule.id ) ).to.deep.equal( [ 'paragraph' ] );
+		} );
+
+		it( 'should do nothing if the rule has no quick fix', () => {
+			const lintSpy = testUtils.sinon.spy( contentLint, 'lint' );
+
+			command.execute( { markerName: getMarkerName( 'paragraph' ) } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[]Foo</paragraph><heading1></heading1>' );
+			sinon.assert.notCalled( lintSpy );
+		} );
+
+		it( 'should do nothing for an unknown marker', () => {
+			command.execute( { markerName: 'contentLint:emptyHeading:foo' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[]Foo</paragraph><heading1></heading1>' );
+		} );
+	} );
+
+	function getMarkerName( ruleId ) {
+		return contentLint.issues.find( issue => issue.rule.id == ruleId ).marker.name;
+	}
+} );
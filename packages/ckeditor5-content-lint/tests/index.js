@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	ContentLint as ContentLintDLL,
+	ContentLintEditing as ContentLintEditingDLL,
+	ContentLintUI as ContentLintUIDLL,
+	FixContentLintIssueCommand as FixContentLintIssueCommandDLL,
+	defaultContentLintRules as defaultContentLintRulesDLL
+} from '../src';
+import ContentLint from '../src/contentlint';
+import ContentLintEditing from '../src/contentlintediting';
+import ContentLintUI from '../src/contentlintui';
+import FixContentLintIssueCommand from '../src/fixcontentlintissuecommand';
+import { defaultContentLintRules } from '../src/rules';
+
+describe( 'ContentLint DLL', () => {
+	it( 'exports ContentLint', () => {
+		expect( ContentLintDLL ).to.equal( ContentLint );
+	} );
+
+	it( 'exports ContentLintEditing', () => {
+		expect( ContentLintEditingDLL ).to.equal( ContentLintEditing );
+	} );
+
+	it( 'exports ContentLintUI', () => {
+		expect( ContentLintUIDLL ).to.equal( ContentLintUI );
+	} );
+
+	it( 'exports FixContentLintIssueCommand', () => {
+		expect( FixContentLintIssueCommandDLL ).to.equal( FixContentLintIssueCommand );
+	} );
+
+	it( 'exports defaultContentLintRules', () => {
+		expect( defaultContentLintRulesDLL ).to.equal( defaultContentLintRules );
+	} );
+} );
@@ -0,0 +1,244 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import HeadingEditing from '@ckeditor/ckeditor5-heading/src/headingediting';
+import ImageBlockEditing from '@ckeditor/ckeditor5-image/src/image/imageblockediting';
+import ImageInlineEditing from '@ckeditor/ckeditor5-image/src/image/imageinlineediting';
+import ImageTextAlternative from '@ckeditor/ckeditor5-image/src/imagetextalternative';
+import TableEditing from '@ckeditor/ckeditor5-table/src/tableediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import ContentLintEditing from '../src/contentlintediting';
+import {
+	defaultContentLintRules,
+	emptyHeadingRule,
+	headingLevelRule,
+	imageTextAlternativeRule,
+	tableHeadersRule
+} from '../src/rules';
+
+describe( 'content lint rules', () => {
+	let editor, model, element, root;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [
+				Paragraph, HeadingEditing, ImageBlockEditing, ImageInlineEditing, ImageTextAlternative, TableEditing, ContentLintEditing
+			],
+			heading: {
+				options: [
+					{ model: 'paragraph', title: 'Paragraph' },
+					{ model: 'heading1', view: 'h2', title: 'Heading 1' },
+					{ model: 'heading2', view: 'h3', title: 'Heading 2' },
+					{ model: 'heading3', view: 'h4', title: 'Heading 3' },
+					{ model: 'heading4', view: 'h5', title: 'Heading 4' }
+				]
+			}
+		} );
+
+		model = editor.model;
+		root = model.document.getRoot();
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	describe( 'defaultContentLintRules', () => {
+		it( 'should contain all built-in rules', () => {
+			expect( defaultContentLintRules ).to.deep.equal( [
+				emptyHeadingRule, headingLevelRule, imageTextAlternativeRule, tableHeadersRule
+			] );
+		} );
+	} );
+
+	describe( 'emptyHeadingRule', () => {
+		it( 'should report the headings without text', () => {
+			setModelData( model,
+				'<heading1></heading1>' +
+				'<heading2>Foo</heading2>' +
+				'<paragraph></paragraph>' +
+				'<heading2><imageInline src="/sample.png"></imageInline></heading2>'
+			);
+
+			model.change( writer => {
+				writer.insertText( '  ', root.getChild( 2 ), 0 );
+				writer.insertElement( 'heading3', root, 3 );
+				writer.insertText( '  ', root.getChild( 3 ), 0 );
+			} );
+
+			const issues = emptyHeadingRule.check( root, editor );
+
+			expect( issues.map( issue => issue.element ) ).to.deep.equal( [ root.getChild( 0 ), root.getChild( 3 ) ] );
+			expect( issues[ 0 ].message ).to.equal( 'Empty heading' );
+			expect( issues[ 0 ].fixLabel ).to.equal( 'Remove heading' );
+		} );
+
+		it( 'should remove the heading when fixed', () => {
+			setModelData( model, '<paragraph>Foo</paragraph><heading1></heading1><paragraph>Bar</paragraph>' );
+
+			emptyHeadingRule.fix( root.getChild( 1 ), editor );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<paragraph>Foo</paragraph><paragraph>Bar</paragraph>' );
+		} );
+	} );
+
+	describe( 'headingLevelRule', () => {
+		it( 'should report the headings skipping a level', () => {
+			setModelData( model,
+				'<heading2>A</heading2>' +
+				'<heading3>B</heading3>' +
+				'<heading1>C</heading1>' +
+				'<heading3>D</heading3>' +
+				'<heading4>E</heading4>' +
+				'<paragraph>F</paragraph>' +
+				'<heading2>G</heading2>' +
+				'<heading4>H</heading4>'
+			);
+
+			const issues = headingLevelRule.check( root, editor );
+
+			expect( issues.map( issue => issue.element.getChild( 0 ).data ) ).to.deep.equal( [ 'D', 'H' ] );
+			expect( issues[ 0 ].message ).to.equal( 'Skipped heading level' );
+			expect( issues[ 0 ].fixLabel ).to.equal( 'Fix heading level' );
+		} );
+
+		it( 'should not report the first heading', () => {
+			setModelData( model, '<paragraph>Foo</paragraph><heading3>Bar</heading3>' );
+
+			expect( headingLevelRule.check( root, editor ) ).to.deep.equal( [] );
+		} );
+
+		it( 'should change the level of the heading to the level following the preceding heading when fixed', () => {
+			setModelData( model, '<heading1>Foo</heading1><paragraph>Bar</paragraph><heading4>Baz</heading4>' );
+
+			headingLevelRule.fix( root.getChild( 2 ), editor );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<heading1>Foo</heading1><paragraph>Bar</paragraph><heading2>Baz</heading2>'
+			);
+		} );
+
+		it( 'should not change the heading if there is no preceding heading', () => {
+			setModelData( model, '<heading3>Foo</heading3>' );
+
+			headingLevelRule.fix( root.getChild( 0 ), editor );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<heading3>Foo</heading3>' );
+		} );
+
+		it( 'should not change the heading to the level that is not configured', async () => {
+			const editorWithTwoLevels = await ClassicTestEditor.create( element, {
+				plugins: [ Paragraph, HeadingEditing ],
+				heading: {
+					options: [
+						{ model: 'paragraph', title: 'Paragraph' },
+						{ model: 'heading1', view: 'h2', title: 'Heading 1' },
+						{ model: 'heading3', view: 'h4', title: 'Heading 3' }
+					]
+				}
+			} );
+
+			setModelData( editorWithTwoLevels.model, '<heading1>Foo</heading1><heading3>Bar</heading3>' );
+
+			headingLevelRule.fix( editorWithTwoLevels.model.document.getRoot().getChild( 1 ), editorWithTwoLevels );
+
+			expect( getModelData( editorWithTwoLevels.model, { withoutSelection: true } ) ).to.equal(
+				'<heading1>Foo</heading1><heading3>Bar</heading3>'
+			);
+
+			await editorWithTwoLevels.destroy();
+		} );
+	} );
+
+	describe( 'imageTextAlternativeRule', () => {
+		it( 'should report the block and inline images without the text alternative', () => {
+			setModelData( model,
+				'<imageBlock src="/a.png"></imageBlock>' +
+				'<imageBlock alt="A cat" src="/b.png"></imageBlock>' +
+				'<paragraph>' +
+					'<imageInline alt=" " src="/c.png"></imageInline><imageInline alt="A dog" src="/d.png"></imageInline>' +
+				'</paragraph>'
+			);
+
+			const issues = imageTextAlternativeRule.check( root, editor );
+
+			expect( issues.map( issue => issue.element.getAttribute( 'src' ) ) ).to.deep.equal( [ '/a.png', '/c.png' ] );
+			expect( issues[ 0 ].message ).to.equal( 'Image without text alternative' );
+			expect( issues[ 0 ].fixLabel ).to.equal( 'Add text alternative' );
+		} );
+
+		it( 'should select the image and show the text alternative form when fixed', () => {
+			const textAlternativeUI = editor.plugins.get( 'ImageTextAlternativeUI' );
+			const showFormSpy = testUtils.sinon.stub( textAlternativeUI, '_showForm' );
+
+			setModelData( model, '<paragraph>[]Foo</paragraph><imageBlock src="/a.png"></imageBlock>' );
+
+			imageTextAlternativeRule.fix( root.getChild( 1 ), editor );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>Foo</paragraph>[<imageBlock src="/a.png"></imageBlock>]' );
+			sinon.assert.calledOnce( showFormSpy );
+		} );
+
+		it( 'should only select the image if the text alternative UI is not loaded', async () => {
+			const editorWithoutUI = await ClassicTestEditor.create( element, {
+				plugins: [ Paragraph, ImageBlockEditing ]
+			} );
+
+			setModelData( editorWithoutUI.model, '<paragraph>[]Foo</paragraph><imageBlock src="/a.png"></imageBlock>' );
+
+			imageTextAlternativeRule.fix( editorWithoutUI.model.document.getRoot().getChild( 1 ), editorWithoutUI );
+
+			expect( getModelData( editorWithoutUI.model ) ).to.equal(
+				'<paragraph>Foo</paragraph>[<imageBlock src="/a.png"></imageBlock>]'
+			);
+
+			await editorWithoutUI.destroy();
+		} );
+	} );
+
+	describe( 'tableHeadersRule', () => {
+		it( 'should report the tables without the header rows and columns', () => {
+			setModelData( model,
+				'<table><tableRow><tableCell><paragraph>A</paragraph></tableCell></tableRow></table>' +
+				'<table headingRows="1"><tableRow><tableCell><paragraph>B</paragraph></tableCell></tableRow></table>' +
+				'<table headingColumns="1"><tableRow><tableCell><paragraph>C</paragraph></tableCell></tableRow></table>'
+			);
+
+			const issues = tableHeadersRule.check( root, editor );
+
+			expect( issues.map( issue => issue.element ) ).to.deep.equal( [ root.getChild( 0 ) ] );
+			expect( issues[ 0 ].message ).to.equal( 'Table without headers' );
+			expect( issues[ 0 ].fixLabel ).to.equal( 'Add header row' );
+		} );
+
+		it( 'should turn the first row into the header row when fixed', () => {
+			setModelData( model,
+				'<paragraph>[]Foo</paragraph>' +
+				'<table>' +
+					'<tableRow><tableCell><paragraph>A</paragraph></tableCell><tableCell><paragraph>B</paragraph></tableCell></tableRow>' +
+					'<tableRow><tableCell><paragraph>C</paragraph></tableCell><tableCell><paragraph>D</paragraph></tableCell></tableRow>' +
+				'</table>'
+			);
+
+			tableHeadersRule.fix( root.getChild( 1 ), editor );
+
+			expect( root.getChild( 1 ).getAttribute( 'headingRows' ) ).to.equal( 1 );
+			expect( tableHeadersRule.check( root, editor ) ).to.deep.equal( [] );
+		} );
+	} );
+} );
@@ -0,0 +1,129 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import { Locale } from '@ckeditor/ckeditor5-utils';
+import ListView from '@ckeditor/ckeditor5-ui/src/list/listview';
+
+import ContentLintIssuesView from '../../src/ui/contentlintissuesview';
+
+describe( 'ContentLintIssuesView', () => {
+	let view;
+
+	beforeEach( () => {
+		view = new ContentLintIssuesView( new Locale() );
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create the element', () => {
+			expect( view.element.classList.contains( 'ck-content-lint-issues' ) ).to.be.true;
+			expect( view.element.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+		} );
+
+		it( 'should set the default values of the observables', () => {
+			expect( view.hasIssues ).to.be.false;
+			expect( view.areFixesEnabled ).to.be.true;
+		} );
+
+		it( 'should create the list of the issues', () => {
+			expect( view.listView ).to.be.instanceOf( ListView );
+			expect( view.listView.element.classList.contains( 'ck-content-lint-issues__list' ) ).to.be.true;
+		} );
+	} );
+
+	describe( 'setIssues()', () => {
+		it( 'should list the issues with the quick fixes', () => {
+			view.setIssues( [
+				{ markerName: 'contentLint:a:1', message: 'Empty heading', fixLabel: 'Remove heading' },
+				{ markerName: 'contentLint:b:2', message: 'Table without headers' }
+			] );
+
+			const [ first, second ] = Array.from( view.listView.items );
+
+			expect( Array.from( first.children ).map( button => button.label ) ).to.deep.equal( [ 'Empty heading', 'Remove heading' ] );
+			expect( Array.from( second.children ).map( button => button.label ) ).to.deep.equal( [ 'Table without headers' ] );
+			expect( first.children.first.withText ).to.be.true;
+			expect( first.children.last.withText ).to.be.true;
+			expect( first.children.first.class ).to.equal( 'ck-content-lint-issues__issue' );
+			expect( first.children.last.class ).to.equal( 'ck-content-lint-issues__fix' );
+			expect( view.hasIssues ).to.be.true;
+		} );
+
+		it( 'should replace the previous issues', () => {
+			view.setIssues( [ { markerName: 'contentLint:a:1', message: 'Foo' }, { markerName: 'contentLint:a:2', message: 'Bar' } ] );
+			view.setIssues( [ { markerName: 'contentLint:a:3', message: 'Baz' } ] );
+
+			expect( view.listView.items.length ).to.equal( 1 );
+		} );
+
+		it( 'should display the information when there are no issues', () => {
+			const noIssuesElement = view.element.querySelector( '.ck-content-lint-issues__no-issues' );
+
+			view.setIssues( [] );
+
+			expect( view.hasIssues ).to.be.false;
+			expect( noIssuesElement.textContent ).to.equal( 'No issues found' );
+			expect( noIssuesElement.classList.contains( 'ck-hidden' ) ).to.be.false;
+			expect( view.listView.element.classList.contains( 'ck-hidden' ) ).to.be.true;
+
+			view.setIssues( [ { markerName: 'contentLint:a:1', message: 'Foo' } ] );
+
+			expect( noIssuesElement.classList.contains( 'ck-hidden' ) ).to.be.true;
+			expect( view.listView.element.classList.contains( 'ck-hidden' ) ).to.be.false;
+		} );
+
+		it( 'should fire the "select" event when the issue is executed', () => {
+			const spy = sinon.spy();
+
+			view.on( 'select', spy );
+			view.setIssues( [ { markerName: 'contentLint:a:1', message: 'Foo', fixLabel: 'Fix' } ] );
+			view.listView.items.first.children.first.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 1 ] ).to.deep.equal( { markerName: 'contentLint:a:1' } );
+		} );
+
+		it( 'should fire the "fix" event when the quick fix is executed', () => {
+			const spy = sinon.spy();
+
+			view.on( 'fix', spy );
+			view.setIssues( [ { markerName: 'contentLint:a:1', message: 'Foo', fixLabel: 'Fix' } ] );
+			view.listView.items.first.children.last.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 1 ] ).to.deep.equal( { markerName: 'contentLint:a:1' } );
+		} );
+
+		it( 'should bind the quick fix buttons to #areFixesEnabled', () => {
+			view.setIssues( [ { markerName: 'contentLint:a:1', message: 'Foo', fixLabel: 'Fix' } ] );
+
+			const fixButtonView = view.listView.items.first.children.last;
+
+			view.areFixesEnabled = false;
+			expect( fixButtonView.isEnabled ).to.be.false;
+
+			view.areFixesEnabled = true;
+			expect( fixButtonView.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the list of the issues', () => {
+			const spy = sinon.spy( view.listView, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+} );
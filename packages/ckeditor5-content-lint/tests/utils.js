@@ -0,0 +1,92 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Model from '@ckeditor/ckeditor5-engine/src/model/model';
+import { setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import { findElements, getHeadingLevel, hasContent } from '../src/utils';
+
+describe( 'content lint utils', () => {
+	let model, root;
+
+	beforeEach( () => {
+		model = new Model();
+		root = model.document.createRoot();
+
+		model.schema.register( 'paragraph', { inheritAllFrom: '$block' } );
+		model.schema.register( 'heading1', { inheritAllFrom: '$block' } );
+		model.schema.register( 'heading2', { inheritAllFrom: '$block' } );
+		model.schema.register( 'blockQuote', { inheritAllFrom: '$container' } );
+		model.schema.register( 'imageInline', { inheritAllFrom: '$inlineObject' } );
+	} );
+
+	describe( 'getHeadingLevel()', () => {
+		it( 'should return the level of the heading', () => {
+			setModelData( model, '<heading1>Foo</heading1><heading2>Bar</heading2>' );
+
+			expect( getHeadingLevel( root.getChild( 0 ) ) ).to.equal( 1 );
+			expect( getHeadingLevel( root.getChild( 1 ) ) ).to.equal( 2 );
+		} );
+
+		it( 'should return null for other items', () => {
+			setModelData( model, '<paragraph>Foo</paragraph>' );
+
+			expect( getHeadingLevel( root.getChild( 0 ) ) ).to.be.null;
+			expect( getHeadingLevel( root.getChild( 0 ).getChild( 0 ) ) ).to.be.null;
+			expect( getHeadingLevel( null ) ).to.be.null;
+		} );
+	} );
+
+	describe( 'findElements()', () => {
+		it( 'should return the matching elements in the document order, including the nested ones', () => {
+			setModelData( model,
+				'<heading1>Foo</heading1>' +
+				'<blockQuote><heading2>Bar</heading2></blockQuote>' +
+				'<paragraph>Baz</paragraph>' +
+				'<heading2>Qux</heading2>'
+			);
+
+			const elements = findElements( model, root, element => !!getHeadingLevel( element ) );
+
+			expect( elements.map( element => element.getChild( 0 ).data ) ).to.deep.equal( [ 'Foo', 'Bar', 'Qux' ] );
+		} );
+
+		it( 'should return an empty array if no element matches', () => {
+			setModelData( model, '<paragraph>Foo</paragraph>' );
+
+			expect( findElements( model, root, () => false ) ).to.deep.equal( [] );
+		} );
+	} );
+
+	describe( 'hasContent()', () => {
+		it( 'should return true for the element with text', () => {
+			setModelData( model, '<paragraph>Foo</paragraph>' );
+
+			expect( hasContent( root.getChild( 0 ) ) ).to.be.true;
+		} );
+
+		it( 'should return true for the element with an inline object', () => {
+			setModelData( model, '<paragraph><imageInline></imageInline></paragraph>' );
+
+			expect( hasContent( root.getChild( 0 ) ) ).to.be.true;
+		} );
+
+		it( 'should return false for the empty element', () => {
+			setModelData( model, '<paragraph></paragraph>' );
+
+			expect( hasContent( root.getChild( 0 ) ) ).to.be.false;
+		} );
+
+		it( 'should return false for the element with the white space only', () => {
+			setModelData( model, '<paragraph></paragraph>' );
+
+			model.change( writer => {
+				writer.insertText( '   ', root.getChild( 0 ), 0 );
+			} );
+
+			expect( hasContent( root.getChild( 0 ) ) ).to.be.false;
+		} );
+	} );
+} );
@@ -0,0 +1,479 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module core/accessibility
+ */
+
+import { CKEditorError } from '@ckeditor/ckeditor5-utils';
+import type Editor from './editor/editor';
+
+/**
+ * The ID of the default category of keystrokes used for editing the content.
+ */
+export const DEFAULT_CATEGORY_ID = 'contentEditing' as const;
+
+/**
+ * The ID of the default group of keystrokes in every category.
+ */
+export const DEFAULT_GROUP_ID = 'common' as const;
+
+/**
+ * A common namespace for various accessibility features of the editor.
+ *
+ * **Information about editor keystrokes**
+ *
+ * * The information about keystrokes available in the editor is stored in the {@link #keystrokeInfos} property.
+ * * New info entries can be added using the {@link #addKeystrokeInfoCategory}, {@link #addKeystrokeInfoGroup},
+ * and {@link #addKeystrokeInfos} methods.
+ *
+ * The information is used, for instance, by the {@link module:ui/editorui/accessibilityhelp/accessibilityhelp~AccessibilityHelp
+ * accessibility help} dialog that lists all keystrokes available in the editor:
+ *
+ * ```ts
+ * editor.accessibility.addKeystrokeInfos( {
+ * 	keystrokes: [
+ * 		{
+ * 			label: 'Insert a custom widget',
+ * 			keystroke: 'Ctrl+Shift+W'
+ * 		}
+ * 	]
+ * } );
+ * ```
+ */
+export default class Accessibility {
+	/**
+	 * Stores information about keystrokes brought by editor features for the users to interact with the editor, mainly
+	 * keystroke combinations and their accessible labels.
+	 *
+	 * The information is organized in categories (e.g. "Content editing" or "User interface"), each containing
+	 * groups of keystrokes (e.g. "Keystrokes that can be used in a table cell").
+	 */
+	public readonly keystrokeInfos: KeystrokeInfos = new Map();
+
+	/**
+	 * The editor instance.
+	 */
+	private readonly _editor: Editor;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		this._editor = editor;
+
+		const t = editor.locale.t;
+
+		this.addKeystrokeInfoCategory( {
+			id: DEFAULT_CATEGORY_ID,
+			label: t( 'Content editing keystrokes' ),
+			description: t( 'These keyboard shortcuts allow for quick access to content editing features.' )
+		} );
+
+		this.addKeystrokeInfoCategory( {
+			id: 'navigation',
+			label: t( 'User interface and content navigation keystrokes' ),
+			description: t( 'Use the following keystrokes for more efficient navigation in the CKEditor 5 user interface.' ),
+			groups: [
+				{
+					id: DEFAULT_GROUP_ID,
+					keystrokes: [
+						{
+							label: t( 'Close contextual balloons, dropdowns, and dialogs' ),
+							keystroke: 'Esc'
+						},
+						{
+							label: t( 'Move focus to the visible contextual balloon' ),
+							keystroke: 'Tab'
+						},
+						{
+							label: t( 'Move focus between fields (inputs and buttons) in balloons and dialogs' ),
+							keystroke: [ 'Tab', 'Shift+Tab' ]
+						},
+						{
+							label: t( 'Move focus to the toolbar, navigate between toolbars' ),
+							keystroke: 'Alt+F10'
+						},
+						{
+							label: t( 'Move focus to the menu bar' ),
+							keystroke: 'Alt+F9'
+						},
+						{
+							label: t( 'Navigate through the toolbar or the menu bar' ),
+							keystroke: [ 'arrowup', 'arrowright', 'arrowdown', 'arrowleft' ]
+						},
+						{
+							label: t( 'Execute the currently focused button' ),
+							keystroke: [ 'Enter', 'Space' ]
+						}
+					]
+				}
+			]
+		} );
+	}
+
+	/**
+	 * Adds a top-level category in the {@link #keystrokeInfos keystroke information database} with a label and an optional description.
+	 *
+	 * Categories organize keystrokes and help users to find the right keystroke. Each category can have multiple groups
+	 * of keystrokes that narrow down the context in which the keystrokes are available. Every keystroke category comes
+	 * with a `'common'` group by default.
+	 *
+	 * By default, two categories are available:
+	 * * `'contentEditing'` for keystrokes related to content creation,
+	 * * `'navigation'` for keystrokes related to navigation in the UI and the content.
+	 *
+	 * To create a new keystroke category with new groups, use the following code:
+	 *
+	 * ```ts
+	 * class MyPlugin extends Plugin {
+	 * 	// ...
+	 * 	init() {
+	 * 		const editor = this.editor;
+	 * 		const t = editor.t;
+	 *
+	 * 		// ...
+	 *
+	 * 		editor.accessibility.addKeystrokeInfoCategory( {
+	 * 			id: 'myCategory',
+	 * 			label: t( 'My category' ),
+	 * 			description: t( 'These keystrokes apply only to my plugin.' ),
+	 * 			groups: [
+	 * 				{
+	 * 					id: 'myGroup',
+	 * 					label: t( 'My keystrokes' ),
+	 * 					keystrokes: [
+	 * 						{
+	 * 							label: t( 'Keystroke label 1' ),
+	 * 							keystroke: 'Ctrl+Shift+N'
+	 * 						},
+	 * 						{
+	 * 							label: t( 'Keystroke label 2' ),
+	 * 							keystroke: 'Ctrl+Shift+M'
+	 * 						}
+	 * 					]
+	 * 				}
+	 * 			]
+	 * 		} );
+	 * 	}
+	 * }
+	 * ```
+	 *
+	 * See {@link #keystrokeInfos}, {@link #addKeystrokeInfoGroup}, and {@link #addKeystrokeInfos}.
+	 */
+	public addKeystrokeInfoCategory( { id, label, description, groups }: KeystrokeInfoCategoryDefinition ): void {
+		this.keystrokeInfos.set( id, {
+			id,
+			label,
+			description,
+			groups: new Map()
+		} );
+
+		this.addKeystrokeInfoGroup( {
+			categoryId: id,
+			id: DEFAULT_GROUP_ID
+		} );
+
+		if ( groups ) {
+			groups.forEach( group => {
+				this.addKeystrokeInfoGroup( {
+					categoryId: id,
+					...group
+				} );
+			} );
+		}
+	}
+
+	/**
+	 * Adds a group of keystrokes in a specific category to the {@link #keystrokeInfos keystroke information database}.
+	 *
+	 * Groups narrow down the context in which the keystrokes are available. When `categoryId` is not specified,
+	 * the group goes to the `'contentEditing'` category (default).
+	 *
+	 * To create a new group within an existing category, use the following code:
+	 *
+	 * ```ts
+	 * class MyPlugin extends Plugin {
+	 * 	// ...
+	 * 	init() {
+	 * 		const editor = this.editor;
+	 * 		const t = editor.t;
+	 *
+	 * 		// ...
+	 *
+	 * 		editor.accessibility.addKeystrokeInfoGroup( {
+	 * 			id: 'myGroup',
+	 * 			label: t( 'My keystrokes' ),
+	 * 			keystrokes: [
+	 * 				{
+	 * 					label: t( 'Keystroke label 1' ),
+	 * 					keystroke: 'Ctrl+Shift+N'
+	 * 				},
+	 * 				{
+	 * 					label: t( 'Keystroke label 2' ),
+	 * 					keystroke: 'Ctrl+Shift+M'
+	 * 				}
+	 * 			]
+	 * 		} );
+	 * 	}
+	 * }
+	 * ```
+	 *
+	 * See {@link #keystrokeInfos}, {@link #addKeystrokeInfoCategory}, and {@link #addKeystrokeInfos}.
+	 */
+	public addKeystrokeInfoGroup( {
+		categoryId = DEFAULT_CATEGORY_ID,
+		id,
+		label,
+		keystrokes
+	}: KeystrokeInfoGroupDefinition ): void {
+		const category = this.keystrokeInfos.get( categoryId );
+
+		if ( !category ) {
+			/**
+			 * Cannot add a keystroke info group to an unknown category. Make sure the category was added
+			 * using {@link module:core/accessibility~Accessibility#addKeystrokeInfoCategory `addKeystrokeInfoCategory()`}.
+			 *
+			 * @error accessibility-unknown-keystroke-info-category
+			 * @param groupId The id of the group.
+			 * @param categoryId The id of the unknown keystroke category.
+			 */
+			throw new CKEditorError( 'accessibility-unknown-keystroke-info-category', this._editor, { groupId: id, categoryId } );
+		}
+
+		category.groups.set( id, {
+			id,
+			label,
+			keystrokes: keystrokes || []
+		} );
+	}
+
+	/**
+	 * Adds information about keystrokes to the {@link #keystrokeInfos keystroke information database}.
+	 *
+	 * Keystrokes without specified `groupId` or `categoryId` go to the `'common'` group in the `'contentEditing'` category (default).
+	 *
+	 * To add a keystroke brought by your plugin (using default group and category), use the following code:
+	 *
+	 * ```ts
+	 * class MyPlugin extends Plugin {
+	 * 	// ...
+	 * 	init() {
+	 * 		const editor = this.editor;
+	 * 		const t = editor.t;
+	 *
+	 * 		// ...
+	 *
+	 * 		editor.accessibility.addKeystrokeInfos( {
+	 * 			keystrokes: [
+	 * 				{
+	 * 					label: t( 'Keystroke label' ),
+	 * 					keystroke: 'CTRL+B'
+	 * 				}
+	 * 			]
+	 * 		} );
+	 * 	}
+	 * }
+	 * ```
+	 *
+	 * To add a keystroke in another group, for instance, the one created using
+	 * {@link #addKeystrokeInfoGroup}, specify `groupId` (and `categoryId` if the group does not belong
+	 * to the `'contentEditing'` category):
+	 *
+	 * ```ts
+	 * editor.accessibility.addKeystrokeInfos( {
+	 * 	groupId: 'myGroup',
+	 * 	keystrokes: [
+	 * 		{
+	 * 			label: t( 'Keystroke label' ),
+	 * 			keystroke: 'Ctrl+Shift+N'
+	 * 		}
+	 * 	]
+	 * } );
+	 * ```
+	 *
+	 * See {@link #keystrokeInfos}, {@link #addKeystrokeInfoGroup}, and {@link #addKeystrokeInfoCategory}.
+	 */
+	public addKeystrokeInfos( {
+		categoryId = DEFAULT_CATEGORY_ID,
+		groupId = DEFAULT_GROUP_ID,
+		keystrokes
+	}: AddKeystrokeInfosData ): void {
+		const category = this.keystrokeInfos.get( categoryId );
+
+		if ( !category ) {
+			/**
+			 * Cannot add keystrokes in an unknown category. Make sure the category was added
+			 * using {@link module:core/accessibility~Accessibility#addKeystrokeInfoCategory `addKeystrokeInfoCategory()`}.
+			 *
+			 * @error accessibility-unknown-keystroke-info-category
+			 * @param categoryId The id of the unknown keystroke category.
+			 * @param keystrokes Keystroke definitions about to be added.
+			 */
+			throw new CKEditorError( 'accessibility-unknown-keystroke-info-category', this._editor, { categoryId, keystrokes } );
+		}
+
+		const group = category.groups.get( groupId );
+
+		if ( !group ) {
+			/**
+			 * Cannot add keystrokes to an unknown group. Make sure the group was added
+			 * using {@link module:core/accessibility~Accessibility#addKeystrokeInfoGroup `addKeystrokeInfoGroup()`}.
+			 *
+			 * @error accessibility-unknown-keystroke-info-group
+			 * @param groupId The id of the unknown keystroke group.
+			 * @param categoryId The id of category the unknown group should belong to.
+			 * @param keystrokes Keystroke definitions about to be added.
+			 */
+			throw new CKEditorError( 'accessibility-unknown-keystroke-info-group', this._editor, { groupId, categoryId, keystrokes } );
+		}
+
+		group.keystrokes.push( ...keystrokes );
+	}
+}
+
+/**
+ * A description of category of keystrokes accepted by the {@link module:core/accessibility~Accessibility#addKeystrokeInfoCategory} method.
+ */
+export interface KeystrokeInfoCategoryDefinition {
+
+	/**
+	 * The unique id of the category.
+	 */
+	id: string;
+
+	/**
+	 * The label of the category.
+	 */
+	label: string;
+
+	/**
+	 * The description of the category (optional).
+	 */
+	description?: string;
+
+	/**
+	 * Groups of keystrokes within the category.
+	 */
+	groups?: Array<KeystrokeInfoGroupDefinition>;
+}
+
+/**
+ * A description of keystroke group accepted by the {@link module:core/accessibility~Accessibility#addKeystrokeInfoGroup} method.
+ */
+export interface KeystrokeInfoGroupDefinition {
+
+	/**
+	 * The id of the category the group belongs to. `'contentEditing'` by default.
+	 */
+	categoryId?: string;
+
+	/**
+	 * The unique id of the group.
+	 */
+	id: string;
+
+	/**
+	 * The label of the group (optional).
+	 */
+	label?: string;
+
+	/**
+	 * Keystroke definitions within the group.
+	 */
+	keystrokes?: Array<KeystrokeInfoDefinition>;
+}
+
+/**
+ * Information about keystrokes accepted by the {@link module:core/accessibility~Accessibility#addKeystrokeInfos} method.
+ */
+export interface AddKeystrokeInfosData {
+
+	/**
+	 * Keystroke definitions.
+	 */
+	keystrokes: Array<KeystrokeInfoDefinition>;
+
+	/**
+	 * The id of the category the keystrokes belong to. `'contentEditing'` by default.
+	 */
+	categoryId?: string;
+
+	/**
+	 * The id of the group the keystrokes belong to. `'common'` by default.
+	 */
+	groupId?: string;
+}
+
+/**
+ * A single keystroke info definition.
+ */
+export interface KeystrokeInfoDefinition {
+
+	/**
+	 * The label of the keystroke. It should briefly describe the action that the keystroke performs.
+	 */
+	label: string;
+
+	/**
+	 * The keystroke string (or an array of alternative keystroke strings). Its format should be consistent with
+	 * the format of the keystrokes accepted by the {@link module:utils/keystrokehandler~KeystrokeHandler}
+	 * (e.g. `'Ctrl+B'` or `[ 'Ctrl+Y', 'Ctrl+Shift+Z' ]`).
+	 */
+	keystroke: string | Array<string>;
+}
+
+/**
+ * The keystroke information database: a map of {@link module:core/accessibility~KeystrokeInfoCategory categories}
+ * (by their IDs).
+ */
+export type KeystrokeInfos = Map<string, KeystrokeInfoCategory>;
+
+/**
+ * A category of keystrokes in the {@link module:core/accessibility~Accessibility#keystrokeInfos keystroke information database}.
+ */
+export interface KeystrokeInfoCategory {
+
+	/**
+	 * The unique id of the category.
+	 */
+	id: string;
+
+	/**
+	 * The label of the category.
+	 */
+	label: string;
+
+	/**
+	 * The description of the category (optional).
+	 */
+	description?: string;
+
+	/**
+	 * Groups of keystrokes within the category (by their IDs).
+	 */
+	groups: Map<string, KeystrokeInfoGroup>;
+}
+
+/**
+ * A group of keystrokes in a {@link module:core/accessibility~KeystrokeInfoCategory category}.
+ */
+export interface KeystrokeInfoGroup {
+
+	/**
+	 * The unique id of the group.
+	 */
+	id: string;
+
+	/**
+	 * The label of the group (optional).
+	 */
+	label?: string;
+
+	/**
+	 * Keystroke definitions within the group.
+	 */
+	keystrokes: Array<KeystrokeInfoDefinition>;
+}
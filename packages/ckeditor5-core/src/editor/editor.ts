@@ -27,6 +27,7 @@ import {
 import type { EditorUI } from '@ckeditor/ckeditor5-ui';
 
 import Context from '../context';
+import Accessibility from '../accessibility';
 import PluginCollection from '../plugincollection';
 import CommandCollection, { type CommandsMap } from '../commandcollection';
 import EditingKeystrokeHandler from '../editingkeystrokehandler';
@@ -144,6 +145,23 @@ export default abstract class Editor extends ObservableMixin() {
 	 */
 	public readonly keystrokes: EditingKeystrokeHandler;
 
+	/**
+	 * A namespace for the accessibility features of the editor, for instance, the information about
+	 * keystrokes available in the editor.
+	 *
+	 * ```ts
+	 * editor.accessibility.addKeystrokeInfos( {
+	 * 	keystrokes: [
+	 * 		{
+	 * 			label: t( 'Insert a custom widget' ),
+	 * 			keystroke: 'Ctrl+Shift+W'
+	 * 		}
+	 * 	]
+	 * } );
+	 * ```
+	 */
+	public readonly accessibility: Accessibility;
+
 	/**
 	 * Shorthand for {@link module:utils/locale~Locale#t}.
 	 *
@@ -321,6 +339,8 @@ export default abstract class Editor extends ObservableMixin() {
 
 		this.keystrokes = new EditingKeystrokeHandler( this );
 		this.keystrokes.listenTo( this.editing.view.document );
+
+		this.accessibility = new Accessibility( this );
 	}
 
 	/**
@@ -178,6 +178,83 @@ export interface EditorConfig {
 	 */
 	language?: string | LanguageConfig;
 
+	/**
+	 * The configuration of the application-style menu bar (with menus like "File", "Edit" or "Format") available
+	 * in the {@link module:editor-classic/classiceditor~ClassicEditor classic} and
+	 * {@link module:editor-decoupled/decouplededitor~DecoupledEditor decoupled} editors.
+	 *
+	 * ```ts
+	 * ClassicEditor
+	 * 	.create( document.querySelector( '#editor' ), {
+	 * 		menuBar: {
+	 * 			isVisible: true,
+	 * 			items: [
+	 * 				{
+	 * 					menuId: 'edit',
+	 * 					label: 'Edit',
+	 * 					items: [ 'undo', 'redo', '|', 'selectAll' ]
+	 * 				},
+	 * 				{
+	 * 					menuId: 'format',
+	 * 					label: 'Format',
+	 * 					items: [
+	 * 						'bold',
+	 * 						'italic',
+	 * 						'|',
+	 * 						{
+	 * 							menuId: 'headings',
+	 * 							label: 'Heading',
+	 * 							items: [
+	 * 								{ command: 'heading', commandValue: 'heading1', label: 'Heading 1' },
+	 * 								{ command: 'heading', commandValue: 'heading2', label: 'Heading 2' }
+	 * 							]
+	 * 						}
+	 * 					]
+	 * 				}
+	 * 			]
+	 * 		}
+	 * 	} )
+	 * 	.then( ... )
+	 * 	.catch( ... );
+	 * ```
+	 *
+	 * Options which can be set using the menu bar configuration:
+	 *
+	 * * **`menuBar.items`** &ndash; An array of top-level menu definitions. Each menu has a unique `menuId`, a `label` and
+	 * an array of `items` that can be:
+	 *	* names of {@link module:core/editor/editor~Editor#commands editor commands} (e.g. `'bold'`). The label, the icon and the keystroke
+	 *	of such item are taken from the component of the same name in the {@link module:ui/editorui/editorui~EditorUI#componentFactory}
+	 *	(if available),
+	 *	* objects describing commands in detail (see {@link module:core/editor/editorconfig~MenuBarCommandItemConfig}),
+	 *	* nested menu definitions,
+	 *	* `'|'` separators.
+	 * * **`menuBar.isVisible`** &ndash; When set to `true`, the classic editor displays the menu bar above the toolbar.
+	 * Defaults to `false`.
+	 * The decoupled editor always creates the menu bar but it is up to the integration to place
+	 * {@link module:editor-decoupled/decouplededitoruiview~DecoupledEditorUIView#menuBarView its element} in the DOM.
+	 *
+	 * The menu items can also be passed directly as an array. It is a shorthand for a visible menu bar:
+	 *
+	 * ```ts
+	 * ClassicEditor
+	 * 	.create( document.querySelector( '#editor' ), {
+	 * 		// The same as `menuBar: { isVisible: true, items: [ ... ] }`.
+	 * 		menuBar: [
+	 * 			{
+	 * 				menuId: 'edit',
+	 * 				label: 'Edit',
+	 * 				items: [ 'undo', 'redo', '|', 'selectAll' ]
+	 * 			}
+	 * 		]
+	 * 	} )
+	 * 	.then( ... )
+	 * 	.catch( ... );
+	 * ```
+	 *
+	 * The menu bar can be focused using the <kbd>Alt</kbd> + <kbd>F9</kbd> keystroke.
+	 */
+	menuBar?: MenuBarConfig;
+
 	/**
 	 * Specifies the text displayed in the editor when there is no content (editor is empty). It is intended to
 	 * help users locate the editor in the application (form) and prompt them to input the content. Work similarly
@@ -591,6 +668,74 @@ export type ToolbarConfigItem = string | {
 	tooltip?: boolean | string | ( ( label: string, keystroke: string | undefined ) => string );
 };
 
+/**
+ * The configuration of the editor menu bar. See {@link module:core/editor/editorconfig~EditorConfig#menuBar}.
+ */
+export type MenuBarConfig = Array<MenuBarMenuConfig> | {
+	items?: Array<MenuBarMenuConfig>;
+	isVisible?: boolean;
+};
+
+/**
+ * The definition of a single (top-level or nested) menu in the {@link module:core/editor/editorconfig~EditorConfig#menuBar menu bar}.
+ */
+export interface MenuBarMenuConfig {
+
+	/**
+	 * The unique identifier of the menu, e.g. `'format'`.
+	 */
+	menuId: string;
+
+	/**
+	 * The label of the menu button, e.g. `'Format'`.
+	 */
+	label: string;
+
+	/**
+	 * Items of the menu.
+	 */
+	items: Array<MenuBarMenuItemConfig>;
+}
+
+/**
+ * An item of a {@link module:core/editor/editorconfig~MenuBarMenuConfig menu}. It can be a name of a command, a detailed
+ * command item definition, a nested menu definition or a `'|'` separator.
+ */
+export type MenuBarMenuItemConfig = string | MenuBarCommandItemConfig | MenuBarMenuConfig;
+
+/**
+ * The definition of a menu item that executes an {@link module:core/editor/editor~Editor#commands editor command}.
+ */
+export interface MenuBarCommandItemConfig {
+
+	/**
+	 * The name of the command to execute, e.g. `'heading'`.
+	 */
+	command: string;
+
+	/**
+	 * The value passed to the command as `{ value: commandValue }` when executed. When specified, the item is displayed
+	 * as "on" when the value of the command equals `commandValue`.
+	 */
+	commandValue?: unknown;
+
+	/**
+	 * The label of the item. If not specified, the label of the component registered under the name of the command
+	 * in the {@link module:ui/editorui/editorui~EditorUI#componentFactory} is used.
+	 */
+	label?: string;
+
+	/**
+	 * The SVG icon of the item.
+	 */
+	icon?: string;
+
+	/**
+	 * The keystroke displayed next to the label of the item, e.g. `'Ctrl+B'`.
+	 */
+	keystroke?: string;
+}
+
 /**
  * The “Powered by CKEditor” logo configuration options.
  **/
@@ -21,6 +21,10 @@ export { default as Editor, type EditorReadyEvent, type EditorDestroyEvent } fro
 export type {
 	EditorConfig,
 	LanguageConfig,
+	MenuBarConfig,
+	MenuBarMenuConfig,
+	MenuBarMenuItemConfig,
+	MenuBarCommandItemConfig,
 	ToolbarConfig,
 	ToolbarConfigItem,
 	UiConfig
@@ -33,6 +37,19 @@ export { default as secureSourceElement } from './editor/utils/securesourceeleme
 
 export { default as PendingActions, type PendingAction } from './pendingactions';
 
+export {
+	default as Accessibility,
+	DEFAULT_CATEGORY_ID as DEFAULT_KEYSTROKE_INFO_CATEGORY_ID,
+	DEFAULT_GROUP_ID as DEFAULT_KEYSTROKE_INFO_GROUP_ID,
+	type AddKeystrokeInfosData,
+	type KeystrokeInfoCategory,
+	type KeystrokeInfoCategoryDefinition,
+	type KeystrokeInfoDefinition,
+	type KeystrokeInfoGroup,
+	type KeystrokeInfoGroupDefinition,
+	type KeystrokeInfos
+} from './accessibility';
+
 import cancel from './../theme/icons/cancel.svg';
 import caption from './../theme/icons/caption.svg';
 import check from './../theme/icons/check.svg';
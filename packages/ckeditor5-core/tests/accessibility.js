@@ -0,0 +1,226 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from './_utils/virtualtesteditor';
+import Accessibility from '../src/accessibility';
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+describe( 'Accessibility', () => {
+	let editor, accessibility;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create();
+		accessibility = editor.accessibility;
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	it( 'should be available in the editor', () => {
+		expect( accessibility ).to.be.instanceOf( Accessibility );
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should register the default categories', () => {
+			expect( [ ...accessibility.keystrokeInfos.keys() ] ).to.deep.equal( [ 'contentEditing', 'navigation' ] );
+
+			expect( accessibility.keystrokeInfos.get( 'contentEditing' ) ).to.include( {
+				id: 'contentEditing',
+				label: 'Content editing keystrokes',
+				description: 'These keyboard shortcuts allow for quick access to content editing features.'
+			} );
+
+			expect( accessibility.keystrokeInfos.get( 'navigation' ) ).to.include( {
+				id: 'navigation',
+				label: 'User interface and content navigation keystrokes',
+				description: 'Use the following keystrokes for more efficient navigation in the CKEditor 5 user interface.'
+			} );
+		} );
+
+		it( 'should register the "common" group in the default categories', () => {
+			expect( accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'common' ) ).to.deep.equal( {
+				id: 'common',
+				label: undefined,
+				keystrokes: []
+			} );
+
+			expect( accessibility.keystrokeInfos.get( 'navigation' ).groups.get( 'common' ).keystrokes ).to.deep.include( {
+				label: 'Move focus to the toolbar, navigate between toolbars',
+				keystroke: 'Alt+F10'
+			} );
+		} );
+
+		it( 'should register the navigation keystrokes', () => {
+			const labels = accessibility.keystrokeInfos.get( 'navigation' ).groups.get( 'common' ).keystrokes.map( info => info.label );
+
+			expect( labels ).to.deep.equal( [
+				'Close contextual balloons, dropdowns, and dialogs',
+				'Move focus to the visible contextual balloon',
+				'Move focus between fields (inputs and buttons) in balloons and dialogs',
+				'Move focus to the toolbar, navigate between toolbars',
+				'Move focus to the menu bar',
+				'Navigate through the toolbar or the menu bar',
+				'Execute the currently focused button'
+			] );
+		} );
+	} );
+
+	describe( 'addKeystrokeInfoCategory()', () => {
+		it( 'should add a new category with the "common" group', () => {
+			accessibility.addKeystrokeInfoCategory( {
+				id: 'foo',
+				label: 'Foo',
+				description: 'Foo description'
+			} );
+
+			const category = accessibility.keystrokeInfos.get( 'foo' );
+
+			expect( category ).to.include( {
+				id: 'foo',
+				label: 'Foo',
+				description: 'Foo description'
+			} );
+
+			expect( [ ...category.groups.keys() ] ).to.deep.equal( [ 'common' ] );
+		} );
+
+		it( 'should add a new category with groups', () => {
+			accessibility.addKeystrokeInfoCategory( {
+				id: 'foo',
+				label: 'Foo',
+				groups: [
+					{
+						id: 'bar',
+						label: 'Bar',
+						keystrokes: [
+							{ label: 'Baz', keystroke: 'Ctrl+B' }
+						]
+					}
+				]
+			} );
+
+			const category = accessibility.keystrokeInfos.get( 'foo' );
+
+			expect( [ ...category.groups.keys() ] ).to.deep.equal( [ 'common', 'bar' ] );
+			expect( category.groups.get( 'bar' ) ).to.deep.equal( {
+				id: 'bar',
+				label: 'Bar',
+				keystrokes: [
+					{ label: 'Baz', keystroke: 'Ctrl+B' }
+				]
+			} );
+		} );
+	} );
+
+	describe( 'addKeystrokeInfoGroup()', () => {
+		it( 'should add a group to the "contentEditing" category by default', () => {
+			accessibility.addKeystrokeInfoGroup( {
+				id: 'foo',
+				label: 'Foo',
+				keystrokes: [
+					{ label: 'Bar', keystroke: 'Ctrl+B' }
+				]
+			} );
+
+			expect( accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'foo' ) ).to.deep.equal( {
+				id: 'foo',
+				label: 'Foo',
+				keystrokes: [
+					{ label: 'Bar', keystroke: 'Ctrl+B' }
+				]
+			} );
+		} );
+
+		it( 'should add a group to a specific category', () => {
+			accessibility.addKeystrokeInfoGroup( {
+				categoryId: 'navigation',
+				id: 'foo'
+			} );
+
+			expect( accessibility.keystrokeInfos.get( 'navigation' ).groups.get( 'foo' ) ).to.deep.equal( {
+				id: 'foo',
+				label: undefined,
+				keystrokes: []
+			} );
+		} );
+
+		it( 'should throw when the category does not exist', () => {
+			expectToThrowCKEditorError( () => {
+				accessibility.addKeystrokeInfoGroup( {
+					categoryId: 'unknown',
+					id: 'foo'
+				} );
+			}, 'accessibility-unknown-keystroke-info-category', editor, {
+				groupId: 'foo',
+				categoryId: 'unknown'
+			} );
+		} );
+	} );
+
+	describe( 'addKeystrokeInfos()', () => {
+		it( 'should add keystrokes to the "common" group of the "contentEditing" category by default', () => {
+			accessibility.addKeystrokeInfos( {
+				keystrokes: [
+					{ label: 'Foo', keystroke: 'Ctrl+F' },
+					{ label: 'Bar', keystroke: [ 'Ctrl+B', 'Ctrl+Shift+B' ] }
+				]
+			} );
+
+			expect( accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'common' ).keystrokes ).to.deep.equal( [
+				{ label: 'Foo', keystroke: 'Ctrl+F' },
+				{ label: 'Bar', keystroke: [ 'Ctrl+B', 'Ctrl+Shift+B' ] }
+			] );
+		} );
+
+		it( 'should add keystrokes to a specific group and category', () => {
+			accessibility.addKeystrokeInfoGroup( {
+				categoryId: 'navigation',
+				id: 'foo'
+			} );
+
+			accessibility.addKeystrokeInfos( {
+				categoryId: 'navigation',
+				groupId: 'foo',
+				keystrokes: [
+					{ label: 'Foo', keystroke: 'Ctrl+F' }
+				]
+			} );
+
+			expect( accessibility.keystrokeInfos.get( 'navigation' ).groups.get( 'foo' ).keystrokes ).to.deep.equal( [
+				{ label: 'Foo', keystroke: 'Ctrl+F' }
+			] );
+		} );
+
+		it( 'should throw when the category does not exist', () => {
+			const keystrokes = [ { label: 'Foo', keystroke: 'Ctrl+F' } ];
+
+			expectToThrowCKEditorError( () => {
+				accessibility.addKeystrokeInfos( {
+					categoryId: 'unknown',
+					keystrokes
+				} );
+			}, 'accessibility-unknown-keystroke-info-category', editor, {
+				categoryId: 'unknown',
+				keystrokes
+			} );
+		} );
+
+		it( 'should throw when the group does not exist', () => {
+			const keystrokes = [ { label: 'Foo', keystroke: 'Ctrl+F' } ];
+
+			expectToThrowCKEditorError( () => {
+				accessibility.addKeystrokeInfos( {
+					groupId: 'unknown',
+					keystrokes
+				} );
+			}, 'accessibility-unknown-keystroke-info-group', editor, {
+				groupId: 'unknown',
+				categoryId: 'contentEditing',
+				keystrokes
+			} );
+		} );
+	} );
+} );
@@ -15,6 +15,7 @@ import CommandCollection from '../../src/commandcollection';
 import Locale from '@ckeditor/ckeditor5-utils/src/locale';
 import Command from '../../src/command';
 import EditingKeystrokeHandler from '../../src/editingkeystrokehandler';
+import Accessibility from '../../src/accessibility';
 import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
 import CKEditorError from '@ckeditor/ckeditor5-utils/src/ckeditorerror';
 
@@ -132,6 +133,7 @@ describe( 'Editor', () => {
 			expect( editor.commands ).to.be.an.instanceof( CommandCollection );
 			expect( editor.editing ).to.be.instanceof( EditingController );
 			expect( editor.keystrokes ).to.be.instanceof( EditingKeystrokeHandler );
+			expect( editor.accessibility ).to.be.instanceof( Accessibility );
 
 			expect( editor.plugins ).to.be.an.instanceof( PluginCollection );
 			expect( getPlugins( editor ) ).to.be.empty;
@@ -0,0 +1,48 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	TableOfContents,
+	TableOfContentsConfig,
+	TableOfContentsEditing,
+	TableOfContentsUI,
+	InsertTableOfContentsCommand,
+	DocumentOutline,
+	DocumentOutlineConfig,
+	MoveHeadingSectionCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the table of contents feature. Introduced by the
+		 * {@link module:document-outline/tableofcontents/tableofcontentsediting~TableOfContentsEditing} feature.
+		 *
+		 * Read more in {@link module:document-outline/tableofcontentsconfig~TableOfContentsConfig}.
+		 */
+		tableOfContents?: TableOfContentsConfig;
+
+		/**
+		 * The configuration of the document outline feature. Introduced by the
+		 * {@link module:document-outline/documentoutline~DocumentOutline} feature.
+		 *
+		 * Read more in {@link module:document-outline/documentoutlineconfig~DocumentOutlineConfig}.
+		 */
+		documentOutline?: DocumentOutlineConfig;
+	}
+
+	interface PluginsMap {
+		[ TableOfContents.pluginName ]: TableOfContents;
+		[ TableOfContentsEditing.pluginName ]: TableOfContentsEditing;
+		[ TableOfContentsUI.pluginName ]: TableOfContentsUI;
+		[ DocumentOutline.pluginName ]: DocumentOutline;
+	}
+
+	interface CommandsMap {
+		insertTableOfContents: InsertTableOfContentsCommand;
+		moveHeadingSection: MoveHeadingSectionCommand;
+	}
+}
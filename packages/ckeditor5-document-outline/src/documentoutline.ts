@@ -0,0 +1,223 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/documentoutline
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import type { DocumentChangeEvent, DocumentSelectionChangeRangeEvent, Element, RootElement } from 'ckeditor5/src/engine';
+import { CKEditorError, Rect } from 'ckeditor5/src/utils';
+
+import DocumentOutlineView from './documentoutline/documentoutlineview';
+import DocumentOutlineItemView, { type DocumentOutlineItemDragEvent } from './documentoutline/documentoutlineitemview';
+import MoveHeadingSectionCommand from './documentoutline/moveheadingsectioncommand';
+import { getHeadingLevel, getHeadingText, getHeadings, getRootsWithChangedHeadings } from './utils';
+
+import '../theme/documentoutline.css';
+
+/**
+ * The document outline feature.
+ *
+ * It renders a live tree of the headings (`heading1` to `heading6`) of the main root into the
+ * {@link module:document-outline/documentoutlineconfig~DocumentOutlineConfig#container configured container}:
+ *
+ * * The item of the section containing the selection is highlighted.
+ * * Clicking an item moves the selection to the beginning of the heading and scrolls the editing view to it.
+ * * Dragging an item moves the whole section of the heading (the heading and its following content) before another
+ * heading or after its section. See the
+ * {@link module:document-outline/documentoutline/moveheadingsectioncommand~MoveHeadingSectionCommand}.
+ *
+ * The headings without the text are not listed.
+ */
+export default class DocumentOutline extends Plugin {
+	/**
+	 * The view of the outline.
+	 */
+	private _outlineView: DocumentOutlineView | null = null;
+
+	/**
+	 * The headings of the listed items, in the order of the items.
+	 */
+	private _headings: Array<Element> = [];
+
+	/**
+	 * The heading of the item being dragged, if any.
+	 */
+	private _draggedHeading: Element | null = null;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'DocumentOutline' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const model = editor.model;
+		const container = editor.config.get( 'documentOutline.container' );
+
+		if ( !container ) {
+			/**
+			 * The document outline feature requires the
+			 * {@link module:document-outline/documentoutlineconfig~DocumentOutlineConfig#container `config.documentOutline.container`}
+			 * DOM element to render the outline into.
+			 *
+			 * @error document-outline-missing-container
+			 */
+			throw new CKEditorError( 'document-outline-missing-container', editor );
+		}
+
+		editor.commands.add( 'moveHeadingSection', new MoveHeadingSectionCommand( editor ) );
+
+		this._outlineView = new DocumentOutlineView( editor.locale );
+		this._outlineView.render();
+
+		container.appendChild( this._outlineView.element! );
+
+		this.listenTo<DocumentChangeEvent>( model.document, 'change:data', () => {
+			if ( getRootsWithChangedHeadings( model.document.differ ).has( this._getRoot() ) ) {
+				this._refreshItems();
+			}
+		} );
+
+		this.listenTo<DocumentSelectionChangeRangeEvent>( model.document.selection, 'change:range', () => {
+			this._refreshActiveItem();
+		} );
+
+		this._refreshItems();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		if ( this._outlineView ) {
+			this._outlineView.element!.remove();
+			this._outlineView.destroy();
+		}
+	}
+
+	/**
+	 * Returns the root whose headings are listed in the outline.
+	 */
+	private _getRoot(): RootElement {
+		return this.editor.model.document.getRoot()!;
+	}
+
+	/**
+	 * Recreates the items of the outline from the current headings of the root.
+	 */
+	private _refreshItems(): void {
+		const model = this.editor.model;
+		const items = this._outlineView!.items;
+
+		this._headings = getHeadings( model, this._getRoot() ).filter( heading => getHeadingText( model, heading ).trim() );
+
+		items.clear();
+		items.addMany( this._headings.map( heading => this._createItemView( heading ) ) );
+
+		this._refreshActiveItem();
+	}
+
+	/**
+	 * Highlights the item of the section containing the selection, that is the item of the last heading starting before the selection.
+	 */
+	private _refreshActiveItem(): void {
+		const model = this.editor.model;
+		const selectionPosition = model.document.selection.getFirstPosition();
+		let activeIndex = -1;
+
+		if ( selectionPosition && selectionPosition.root == this._getRoot() ) {
+			this._headings.forEach( ( heading, index ) => {
+				if ( model.createPositionBefore( heading ).isBefore( selectionPosition ) ) {
+					activeIndex = index;
+				}
+			} );
+		}
+
+		Array.from( this._outlineView!.items ).forEach( ( itemView, index ) => {
+			itemView.isActive = index == activeIndex;
+		} );
+	}
+
+	/**
+	 * Creates the view of the outline item of the heading.
+	 */
+	private _createItemView( heading: Element ): DocumentOutlineItemView {
+		const editor = this.editor;
+		const model = editor.model;
+		const view = editor.editing.view;
+		const command: MoveHeadingSectionCommand = editor.commands.get( 'moveHeadingSection' )!;
+		const itemView = new DocumentOutlineItemView( editor.locale );
+		const label = getHeadingText( model, heading ).trim();
+
+		itemView.set( {
+			label,
+			level: getHeadingLevel( heading )!
+		} );
+
+		// Clicking the item -> the selection at the beginning of the heading.
+		itemView.on( 'execute', () => {
+			model.change( writer => {
+				writer.setSelection( heading, 0 );
+			} );
+
+			view.focus();
+			view.scrollToTheSelection();
+		} );
+
+		// Dragging the item -> the section of the heading moved before or after the section of the item it is dropped on.
+		itemView.on<DocumentOutlineItemDragEvent>( 'dragstart', ( evt, domEvent ) => {
+			this._draggedHeading = heading;
+
+			domEvent.dataTransfer!.effectAllowed = 'move';
+			domEvent.dataTransfer!.setData( 'text/plain', label );
+		} );
+
+		itemView.on<DocumentOutlineItemDragEvent>( 'dragover', ( evt, domEvent ) => {
+			if ( !this._draggedHeading || this._draggedHeading == heading || !command.isEnabled ) {
+				return;
+			}
+
+			const rect = new Rect( itemView.element! );
+
+			domEvent.preventDefault();
+			domEvent.dataTransfer!.dropEffect = 'move';
+
+			itemView.dropPlacement = domEvent.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+		} );
+
+		itemView.on<DocumentOutlineItemDragEvent>( 'dragleave', () => {
+			itemView.dropPlacement = null;
+		} );
+
+		itemView.on<DocumentOutlineItemDragEvent>( 'drop', ( evt, domEvent ) => {
+			const draggedHeading = this._draggedHeading;
+			const placement = itemView.dropPlacement;
+
+			domEvent.preventDefault();
+
+			this._draggedHeading = null;
+			itemView.dropPlacement = null;
+
+			if ( draggedHeading && placement ) {
+				editor.execute( 'moveHeadingSection', { heading: draggedHeading, targetHeading: heading, placement } );
+			}
+		} );
+
+		itemView.on<DocumentOutlineItemDragEvent>( 'dragend', () => {
+			this._draggedHeading = null;
+		} );
+
+		return itemView;
+	}
+}
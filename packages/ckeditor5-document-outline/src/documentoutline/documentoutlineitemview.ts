@@ -0,0 +1,106 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/documentoutline/documentoutlineitemview
+ */
+
+import { View } from 'ckeditor5/src/ui';
+import type { Locale } from 'ckeditor5/src/utils';
+
+/**
+ * The view of a single heading in the document outline. The item can be clicked and dragged.
+ *
+ * The native `dragstart`, `dragover`, `dragleave`, `drop` and `dragend` DOM events of the item are fired on the view
+ * as {@link module:document-outline/documentoutline/documentoutlineitemview~DocumentOutlineItemDragEvent}.
+ *
+ * @internal
+ */
+export default class DocumentOutlineItemView extends View<HTMLLIElement> {
+	/**
+	 * The text of the heading.
+	 *
+	 * @observable
+	 */
+	declare public label: string;
+
+	/**
+	 * The level of the heading (`1` for `heading1`, `2` for `heading2`, etc.).
+	 *
+	 * @observable
+	 */
+	declare public level: number;
+
+	/**
+	 * Whether the section of the heading contains the selection.
+	 *
+	 * @observable
+	 */
+	declare public isActive: boolean;
+
+	/**
+	 * Where the dragged section would be dropped relative to this item, if it is dragged over the item.
+	 *
+	 * @observable
+	 */
+	declare public dropPlacement: 'before' | 'after' | null;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+
+		this.set( 'label', '' );
+		this.set( 'level', 1 );
+		this.set( 'isActive', false );
+		this.set( 'dropPlacement', null );
+
+		this.setTemplate( {
+			tag: 'li',
+			attributes: {
+				class: [
+					'ck',
+					'ck-document-outline__item',
+					bind.to( 'level', level => `ck-document-outline__item_level-${ level }` ),
+					bind.if( 'isActive', 'ck-document-outline__item_active' ),
+					bind.to( 'dropPlacement', placement => placement ? `ck-document-outline__item_drop-${ placement }` : '' )
+				],
+				role: 'treeitem',
+				'aria-level': bind.to( 'level' ),
+				'aria-current': bind.if( 'isActive', 'location' ),
+				draggable: 'true'
+			},
+			children: [
+				{ text: bind.to( 'label' ) }
+			],
+			on: {
+				click: bind.to( 'execute' ),
+				dragstart: bind.to( 'dragstart' ),
+				dragover: bind.to( 'dragover' ),
+				dragleave: bind.to( 'dragleave' ),
+				drop: bind.to( 'drop' ),
+				dragend: bind.to( 'dragend' )
+			}
+		} );
+	}
+}
+
+/**
+ * Fired when a native drag and drop DOM event is fired on the item.
+ *
+ * @eventName ~DocumentOutlineItemView#dragstart
+ * @eventName ~DocumentOutlineItemView#dragover
+ * @eventName ~DocumentOutlineItemView#dragleave
+ * @eventName ~DocumentOutlineItemView#drop
+ * @eventName ~DocumentOutlineItemView#dragend
+ * @param domEvent The native DOM event.
+ */
+export type DocumentOutlineItemDragEvent = {
+	name: 'dragstart' | 'dragover' | 'dragleave' | 'drop' | 'dragend';
+	args: [ domEvent: DragEvent ];
+};
@@ -0,0 +1,61 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/documentoutline/documentoutlineview
+ */
+
+import { View, type ViewCollection } from 'ckeditor5/src/ui';
+import type { Locale } from 'ckeditor5/src/utils';
+
+import type DocumentOutlineItemView from './documentoutlineitemview';
+
+/**
+ * The view of the document outline. It lists the headings of the document as a flat tree, the levels of the headings
+ * are reflected by the indentation of the items.
+ *
+ * @internal
+ */
+export default class DocumentOutlineView extends View {
+	/**
+	 * The collection of the item views of the headings.
+	 */
+	public readonly items: ViewCollection<DocumentOutlineItemView>;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const t = locale.t;
+
+		this.items = this.createCollection();
+
+		this.setTemplate( {
+			tag: 'nav',
+			attributes: {
+				class: [
+					'ck',
+					'ck-document-outline'
+				],
+				'aria-label': t( 'Document outline' )
+			},
+			children: [
+				{
+					tag: 'ul',
+					attributes: {
+						class: [
+							'ck',
+							'ck-document-outline__list'
+						],
+						role: 'tree'
+					},
+					children: this.items
+				}
+			]
+		} );
+	}
+}
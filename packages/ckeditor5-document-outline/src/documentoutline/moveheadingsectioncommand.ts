@@ -0,0 +1,66 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/documentoutline/moveheadingsectioncommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Element } from 'ckeditor5/src/engine';
+
+import { getHeadingLevel, getHeadingSectionRange } from '../utils';
+
+/**
+ * The move heading section command.
+ *
+ * The command is registered by {@link module:document-outline/documentoutline~DocumentOutline} as `'moveHeadingSection'`.
+ *
+ * It moves the section started by a heading, that is the heading and its following content up to the next heading of the same
+ * or a higher level, before another heading or after the section of another heading:
+ *
+ * ```ts
+ * editor.execute( 'moveHeadingSection', { heading, targetHeading, placement: 'after' } );
+ * ```
+ *
+ * The section can be moved only among the siblings of the heading and not into itself. Otherwise the command does nothing.
+ */
+export default class MoveHeadingSectionCommand extends Command {
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Options for the executed command.
+	 * @param options.heading The heading starting the moved section.
+	 * @param options.targetHeading The heading relative to which the section is moved.
+	 * @param options.placement Whether the section should be moved before the target heading or after its section.
+	 * @fires execute
+	 */
+	public override execute(
+		{ heading, targetHeading, placement = 'before' }: { heading: Element; targetHeading: Element; placement?: 'before' | 'after' }
+	): void {
+		const model = this.editor.model;
+
+		if ( !getHeadingLevel( heading ) || !getHeadingLevel( targetHeading ) || heading.parent != targetHeading.parent ) {
+			return;
+		}
+
+		const sectionRange = getHeadingSectionRange( model, heading );
+
+		if ( sectionRange.containsItem( targetHeading ) ) {
+			return;
+		}
+
+		const targetPosition = placement == 'before' ?
+			model.createPositionBefore( targetHeading ) :
+			getHeadingSectionRange( model, targetHeading ).end;
+
+		if ( targetPosition.isEqual( sectionRange.start ) || targetPosition.isEqual( sectionRange.end ) ) {
+			return;
+		}
+
+		model.change( writer => {
+			writer.move( sectionRange, targetPosition );
+		} );
+	}
+}
@@ -0,0 +1,32 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/documentoutlineconfig
+ */
+
+/**
+ * The configuration of the {@link module:document-outline/documentoutline~DocumentOutline document outline feature}.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		documentOutline: {
+ * 			container: document.querySelector( '#outline' )
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor configuration options}.
+ */
+export interface DocumentOutlineConfig {
+
+	/**
+	 * The DOM element the document outline is rendered into.
+	 */
+	container: HTMLElement;
+}
@@ -0,0 +1,20 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline
+ */
+
+export { default as TableOfContents } from './tableofcontents';
+export { default as TableOfContentsEditing } from './tableofcontents/tableofcontentsediting';
+export { default as TableOfContentsUI } from './tableofcontents/tableofcontentsui';
+export { default as InsertTableOfContentsCommand } from './tableofcontents/inserttableofcontentscommand';
+export { default as DocumentOutline } from './documentoutline';
+export { default as MoveHeadingSectionCommand } from './documentoutline/moveheadingsectioncommand';
+
+export type { TableOfContentsConfig } from './tableofcontentsconfig';
+export type { DocumentOutlineConfig } from './documentoutlineconfig';
+
+import './augmentation';
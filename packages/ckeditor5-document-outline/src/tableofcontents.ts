@@ -0,0 +1,38 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/tableofcontents
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { Widget } from 'ckeditor5/src/widget';
+
+import TableOfContentsEditing from './tableofcontents/tableofcontentsediting';
+import TableOfContentsUI from './tableofcontents/tableofcontentsui';
+
+/**
+ * The table of contents feature. It allows for inserting a table of contents generated automatically from the headings
+ * of the document.
+ *
+ * This is a "glue" plugin which loads the
+ * {@link module:document-outline/tableofcontents/tableofcontentsediting~TableOfContentsEditing table of contents editing feature}
+ * and the {@link module:document-outline/tableofcontents/tableofcontentsui~TableOfContentsUI table of contents UI feature}.
+ */
+export default class TableOfContents extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'TableOfContents' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ TableOfContentsEditing, TableOfContentsUI, Widget ] as const;
+	}
+}
@@ -0,0 +1,56 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/tableofcontents/inserttableofcontentscommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Element } from 'ckeditor5/src/engine';
+import { findOptimalInsertionRange } from 'ckeditor5/src/widget';
+
+/**
+ * The insert table of contents command.
+ *
+ * The command is registered by {@link module:document-outline/tableofcontents/tableofcontentsediting~TableOfContentsEditing}
+ * as `'insertTableOfContents'`.
+ *
+ * To insert a table of contents at the current selection, execute the command:
+ *
+ * ```ts
+ * editor.execute( 'insertTableOfContents' );
+ * ```
+ */
+export default class InsertTableOfContentsCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const model = this.editor.model;
+		const insertionRange = findOptimalInsertionRange( model.document.selection, model );
+		let parent = insertionRange.start.parent;
+
+		if ( parent.isEmpty && !parent.is( 'rootElement' ) ) {
+			parent = parent.parent!;
+		}
+
+		this.isEnabled = model.schema.checkChild( parent as Element, 'tableOfContents' );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 */
+	public override execute(): void {
+		const model = this.editor.model;
+
+		model.change( writer => {
+			const tableOfContents = writer.createElement( 'tableOfContents' );
+
+			model.insertObject( tableOfContents, null, null, { setSelection: 'after' } );
+		} );
+	}
+}
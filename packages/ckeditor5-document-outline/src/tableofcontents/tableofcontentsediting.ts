@@ -0,0 +1,235 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/tableofcontents/tableofcontentsediting
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import {
+	ClickObserver,
+	type DocumentChangeEvent,
+	type DowncastWriter,
+	type Element,
+	type RootElement,
+	type ViewContainerElement,
+	type ViewDocumentClickEvent
+} from 'ckeditor5/src/engine';
+import { toWidget } from 'ckeditor5/src/widget';
+
+import InsertTableOfContentsCommand from './inserttableofcontentscommand';
+import { MAX_HEADING_LEVEL, getHeadingLevel, getHeadingText, getHeadings, getRootsWithChangedHeadings } from '../utils';
+
+import '../../theme/tableofcontents.css';
+
+/**
+ * The table of contents editing feature.
+ *
+ * It introduces the `tableOfContents` model element, a block object without any content. Its view is generated from the headings
+ * (`heading1` to `heading6`) of the root. The data output is a static list of the headings:
+ *
+ * ```html
+ * <nav class="table-of-contents">
+ * 	<ol>
+ * 		<li>Introduction
+ * 			<ol>
+ * 				<li>Background</li>
+ * 			</ol>
+ * 		</li>
+ * 	</ol>
+ * </nav>
+ * ```
+ *
+ * The editing view is regenerated whenever the headings change. Its entries can be clicked to move the selection to the heading
+ * and scroll the editing view to it.
+ *
+ * It also registers the `'insertTableOfContents'` command.
+ */
+export default class TableOfContentsEditing extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'TableOfContentsEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'tableOfContents', {
+			depth: MAX_HEADING_LEVEL
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.model.schema.register( 'tableOfContents', {
+			inheritAllFrom: '$blockObject'
+		} );
+
+		// The generated content is not meaningful for the model, so it is not parsed at all.
+		editor.data.registerRawContentMatcher( {
+			name: 'nav',
+			classes: 'table-of-contents'
+		} );
+
+		editor.conversion.for( 'upcast' ).elementToElement( {
+			view: {
+				name: 'nav',
+				classes: 'table-of-contents'
+			},
+			model: 'tableOfContents'
+		} );
+
+		editor.conversion.for( 'dataDowncast' ).elementToElement( {
+			model: 'tableOfContents',
+			view: ( modelElement, { writer } ) => {
+				const listView = this._createListView( modelElement, writer, false );
+
+				return writer.createContainerElement( 'nav', { class: 'table-of-contents' }, listView.childCount ? listView : [] );
+			}
+		} );
+
+		editor.conversion.for( 'editingDowncast' ).elementToElement( {
+			model: 'tableOfContents',
+			view: ( modelElement, { writer } ) => {
+				const listView = this._createListView( modelElement, writer, true );
+				const viewElement = writer.createContainerElement( 'nav', { class: 'ck-table-of-contents table-of-contents' },
+					listView.childCount ? listView : writer.createContainerElement( 'p', { class: 'ck-table-of-contents__placeholder' },
+						writer.createText( t( 'Add headings to the document to create the table of contents.' ) )
+					)
+				);
+
+				return toWidget( viewElement, writer, { label: t( 'Table of contents' ) } );
+			}
+		} );
+
+		editor.commands.add( 'insertTableOfContents', new InsertTableOfContentsCommand( editor ) );
+
+		this._enableRefreshing();
+		this._enableNavigation();
+	}
+
+	/**
+	 * Reconverts the tables of contents in the editing view when the headings of their roots change.
+	 */
+	private _enableRefreshing(): void {
+		const editor = this.editor;
+		const model = editor.model;
+
+		this.listenTo<DocumentChangeEvent>( model.document, 'change:data', () => {
+			for ( const root of getRootsWithChangedHeadings( model.document.differ ) ) {
+				for ( const { item } of model.createRangeIn( root ) ) {
+					if ( item.is( 'element', 'tableOfContents' ) ) {
+						editor.editing.reconvertItem( item );
+					}
+				}
+			}
+		}, { priority: 'high' } );
+	}
+
+	/**
+	 * Makes the entries of the tables of contents in the editing view clickable. A clicked entry moves the selection
+	 * to the beginning of the heading and scrolls the editing view to it.
+	 */
+	private _enableNavigation(): void {
+		const editor = this.editor;
+		const model = editor.model;
+		const view = editor.editing.view;
+
+		view.addObserver( ClickObserver );
+
+		this.listenTo<ViewDocumentClickEvent>( view.document, 'click', ( evt, data ) => {
+			const domEntry = data.domTarget.closest( '.ck-table-of-contents__entry' );
+
+			if ( !domEntry ) {
+				return;
+			}
+
+			const viewTableOfContents = view.domConverter.mapDomToView( domEntry.closest( '.ck-table-of-contents' ) as HTMLElement );
+			const tableOfContents = viewTableOfContents && viewTableOfContents.is( 'element' ) &&
+				editor.editing.mapper.toModelElement( viewTableOfContents );
+
+			if ( !tableOfContents ) {
+				return;
+			}
+
+			const headings = getHeadings( model, tableOfContents.root as RootElement, editor.config.get( 'tableOfContents.depth' ) );
+			const heading = headings[ Number( domEntry.getAttribute( 'data-heading-index' ) ) ];
+
+			if ( !heading ) {
+				return;
+			}
+
+			evt.stop();
+			data.preventDefault();
+
+			model.change( writer => {
+				writer.setSelection( heading, 0 );
+			} );
+
+			view.focus();
+			view.scrollToTheSelection();
+		} );
+	}
+
+	/**
+	 * Creates the nested list of the headings of the root of the table of contents. The headings without the text are skipped.
+	 *
+	 * @param isEditingView Whether the entries of the list should be clickable in the editing view.
+	 */
+	private _createListView( modelElement: Element, writer: DowncastWriter, isEditingView: boolean ): ViewContainerElement {
+		const model = this.editor.model;
+		const headings = getHeadings( model, modelElement.root as RootElement, this.editor.config.get( 'tableOfContents.depth' ) );
+		const rootList = writer.createContainerElement( 'ol' );
+
+		// The stack of the list items of the ancestor entries of the current entry, with their levels.
+		const stack: Array<{ level: number; listItem: ViewContainerElement | null; list: ViewContainerElement | null }> = [
+			{ level: 0, listItem: null, list: rootList }
+		];
+
+		headings.forEach( ( heading, index ) => {
+			const text = getHeadingText( model, heading ).trim();
+			const level = getHeadingLevel( heading )!;
+
+			if ( !text ) {
+				return;
+			}
+
+			while ( stack[ stack.length - 1 ].level >= level ) {
+				stack.pop();
+			}
+
+			const parent = stack[ stack.length - 1 ];
+
+			if ( !parent.list ) {
+				parent.list = writer.createContainerElement( 'ol' );
+				writer.insert( writer.createPositionAt( parent.listItem!, 'end' ), parent.list );
+			}
+
+			const textNode = writer.createText( text );
+			const listItem = writer.createContainerElement( 'li', null, isEditingView ?
+				writer.createContainerElement( 'span', {
+					class: 'ck-table-of-contents__entry',
+					'data-heading-index': String( index )
+				}, textNode ) :
+				textNode
+			);
+
+			writer.insert( writer.createPositionAt( parent.list, 'end' ), listItem );
+			stack.push( { level, listItem, list: null } );
+		} );
+
+		return rootList;
+	}
+}
@@ -0,0 +1,56 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/tableofcontents/tableofcontentsui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { ButtonView } from 'ckeditor5/src/ui';
+
+import type InsertTableOfContentsCommand from './inserttableofcontentscommand';
+import tableOfContentsIcon from '../../theme/icons/table-of-contents.svg';
+
+/**
+ * The table of contents UI plugin. It registers the `'tableOfContents'` button inserting a table of contents.
+ */
+export default class TableOfContentsUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'TableOfContentsUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		// Add the `tableOfContents` button to feature components.
+		editor.ui.componentFactory.add( 'tableOfContents', locale => {
+			const command: InsertTableOfContentsCommand = editor.commands.get( 'insertTableOfContents' )!;
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Table of contents' ),
+				icon: tableOfContentsIcon,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).to( command, 'isEnabled' );
+
+			// Execute the command.
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'insertTableOfContents' );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+	}
+}
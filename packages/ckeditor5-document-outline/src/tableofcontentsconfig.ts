@@ -0,0 +1,35 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/tableofcontentsconfig
+ */
+
+/**
+ * The configuration of the {@link module:document-outline/tableofcontents~TableOfContents table of contents feature}.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		tableOfContents: {
+ * 			depth: 3
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor configuration options}.
+ */
+export interface TableOfContentsConfig {
+
+	/**
+	 * The deepest level of the headings listed in the table of contents. For instance, for `2` only the `heading1`
+	 * and `heading2` elements are listed.
+	 *
+	 * @default 6
+	 */
+	depth?: number;
+}
@@ -0,0 +1,109 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module document-outline/utils
+ */
+
+import type { Differ, Element, Item, Model, Range, RootElement } from 'ckeditor5/src/engine';
+
+/**
+ * The deepest level of the headings (`heading6`).
+ */
+export const MAX_HEADING_LEVEL = 6;
+
+/**
+ * Returns the level of the heading model element (`1` for `heading1`, `2` for `heading2`, etc.)
+ * or `null` if the item is not a heading.
+ */
+export function getHeadingLevel( item: Item | null | undefined ): number | null {
+	if ( !item || !item.is( 'element' ) ) {
+		return null;
+	}
+
+	const match = item.name.match( /^heading([1-6])$/ );
+
+	return match ? Number( match[ 1 ] ) : null;
+}
+
+/**
+ * Returns the heading model elements of the given root in the document order.
+ *
+ * @param maxLevel The deepest level of the returned headings.
+ */
+export function getHeadings( model: Model, root: RootElement, maxLevel: number = MAX_HEADING_LEVEL ): Array<Element> {
+	const headings: Array<Element> = [];
+
+	for ( const item of model.createRangeIn( root ).getItems() ) {
+		const level = getHeadingLevel( item );
+
+		if ( level && level <= maxLevel ) {
+			headings.push( item as Element );
+		}
+	}
+
+	return headings;
+}
+
+/**
+ * Returns the text of the heading model element. The inline objects are skipped.
+ */
+export function getHeadingText( model: Model, heading: Element ): string {
+	let text = '';
+
+	for ( const item of model.createRangeIn( heading ).getItems() ) {
+		if ( item.is( '$textProxy' ) ) {
+			text += item.data;
+		}
+	}
+
+	return text;
+}
+
+/**
+ * Returns the range of the section started by the heading model element. The section consists of the heading and the following
+ * siblings up to the next heading of the same or a higher level (or the end of the parent).
+ */
+export function getHeadingSectionRange( model: Model, heading: Element ): Range {
+	const level = getHeadingLevel( heading )!;
+	let sibling = heading.nextSibling;
+
+	while ( sibling ) {
+		const siblingLevel = getHeadingLevel( sibling );
+
+		if ( siblingLevel && siblingLevel <= level ) {
+			break;
+		}
+
+		sibling = sibling.nextSibling;
+	}
+
+	return model.createRange(
+		model.createPositionBefore( heading ),
+		sibling ? model.createPositionBefore( sibling ) : model.createPositionAt( heading.parent!, 'end' )
+	);
+}
+
+/**
+ * Returns the roots in which the headings might have changed according to the changes buffered in the differ.
+ * Any inserted or removed element may be (or contain) a heading while the text changes matter only inside the headings.
+ */
+export function getRootsWithChangedHeadings( differ: Differ ): Set<RootElement> {
+	const roots = new Set<RootElement>();
+
+	for ( const change of differ.getChanges() ) {
+		if ( change.type == 'attribute' ) {
+			continue;
+		}
+
+		const root = change.position.root as RootElement;
+
+		if ( root.rootName != '$graveyard' && ( change.name != '$text' || getHeadingLevel( change.position.parent as Element ) ) ) {
+			roots.add( root );
+		}
+	}
+
+	return roots;
+}
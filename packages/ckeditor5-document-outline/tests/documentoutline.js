@@ -0,0 +1,382 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Event */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import HeadingEditing from '@ckeditor/ckeditor5-heading/src/headingediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import DocumentOutline from '../src/documentoutline';
+import MoveHeadingSectionCommand from '../src/documentoutline/moveheadingsectioncommand';
+
+describe( 'DocumentOutline', () => {
+	let editor, model, view, element, container;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		container = document.createElement( 'div' );
+		document.body.appendChild( element );
+		document.body.appendChild( container );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, HeadingEditing, DocumentOutline ],
+			documentOutline: {
+				container
+			}
+		} );
+
+		model = editor.model;
+		view = editor.editing.view;
+	} );
+
+	afterEach( async () => {
+		element.remove();
+		container.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( DocumentOutline.pluginName ).to.equal( 'DocumentOutline' );
+	} );
+
+	it( 'should register the command', () => {
+		expect( editor.commands.get( 'moveHeadingSection' ) ).to.be.instanceOf( MoveHeadingSectionCommand );
+	} );
+
+	it( 'should render the outline into the configured container', () => {
+		const outlineElement = container.firstChild;
+
+		expect( outlineElement.tagName ).to.equal( 'NAV' );
+		expect( outlineElement.classList.contains( 'ck-document-outline' ) ).to.be.true;
+		expect( outlineElement.getAttribute( 'aria-label' ) ).to.equal( 'Document outline' );
+	} );
+
+	it( 'should throw when the container is not configured', async () => {
+		const editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph ]
+		} );
+
+		expectToThrowCKEditorError( () => {
+			new DocumentOutline( editor ).init();
+		}, 'document-outline-missing-container', editor );
+
+		await editor.destroy();
+	} );
+
+	it( 'should remove the outline from the container on destroy', async () => {
+		await editor.destroy();
+
+		expect( container.childNodes.length ).to.equal( 0 );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph ]
+		} );
+	} );
+
+	describe( 'items', () => {
+		it( 'should list the headings with their levels', () => {
+			setModelData( model,
+				'<heading1>Foo</heading1>' +
+				'<paragraph>Text</paragraph>' +
+				'<heading2>Bar</heading2>' +
+				'<heading3>Baz</heading3>'
+			);
+
+			expect( getItems() ).to.deep.equal( [
+				{ label: 'Foo', level: '1' },
+				{ label: 'Bar', level: '2' },
+				{ label: 'Baz', level: '3' }
+			] );
+		} );
+
+		it( 'should skip the headings without the text', () => {
+			setModelData( model, '<heading1>Foo</heading1><heading1> </heading1><heading2></heading2>' );
+
+			expect( getItems() ).to.deep.equal( [ { label: 'Foo', level: '1' } ] );
+		} );
+
+		it( 'should update the items when a heading is inserted', () => {
+			setModelData( model, '<heading1>Foo</heading1><paragraph>Bar[]</paragraph>' );
+
+			model.change( writer => {
+				writer.rename( model.document.getRoot().getChild( 1 ), 'heading2' );
+			} );
+
+			expect( getItems() ).to.deep.equal( [
+				{ label: 'Foo', level: '1' },
+				{ label: 'Bar', level: '2' }
+			] );
+		} );
+
+		it( 'should update the items when the text of a heading changes', () => {
+			setModelData( model, '<heading1>Foo</heading1>' );
+
+			model.change( writer => {
+				writer.insertText( 'Bar', model.document.getRoot().getChild( 0 ), 'end' );
+			} );
+
+			expect( getItems() ).to.deep.equal( [ { label: 'FooBar', level: '1' } ] );
+		} );
+
+		it( 'should update the items when a heading is removed', () => {
+			setModelData( model, '<heading1>Foo</heading1><paragraph>Bar[]</paragraph>' );
+
+			model.change( writer => {
+				writer.remove( model.document.getRoot().getChild( 0 ) );
+			} );
+
+			expect( getItems() ).to.deep.equal( [] );
+		} );
+
+		it( 'should not update the items when the text of a paragraph changes', () => {
+			setModelData( model, '<heading1>Foo</heading1><paragraph>Bar[]</paragraph>' );
+
+			const itemElement = container.querySelector( '.ck-document-outline__item' );
+
+			model.change( writer => {
+				writer.insertText( 'Baz', model.document.getRoot().getChild( 1 ), 'end' );
+			} );
+
+			expect( container.querySelector( '.ck-document-outline__item' ) ).to.equal( itemElement );
+		} );
+	} );
+
+	describe( 'active item', () => {
+		beforeEach( () => {
+			setModelData( model,
+				'<paragraph>Intro[]</paragraph>' +
+				'<heading1>Foo</heading1>' +
+				'<paragraph>Text</paragraph>' +
+				'<heading2>Bar</heading2>' +
+				'<paragraph>Text</paragraph>'
+			);
+		} );
+
+		it( 'should not highlight any item when the selection is before the first heading', () => {
+			expect( getActiveItemLabels() ).to.deep.equal( [] );
+		} );
+
+		it( 'should highlight the item of the heading containing the selection', () => {
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 1 ), 0 );
+			} );
+
+			expect( getActiveItemLabels() ).to.deep.equal( [ 'Foo' ] );
+		} );
+
+		it( 'should highlight the item of the section containing the selection', () => {
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 4 ), 0 );
+			} );
+
+			expect( getActiveItemLabels() ).to.deep.equal( [ 'Bar' ] );
+		} );
+
+		it( 'should set the aria-current attribute of the active item', () => {
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 2 ), 0 );
+			} );
+
+			const itemElements = container.querySelectorAll( '.ck-document-outline__item' );
+
+			expect( itemElements[ 0 ].getAttribute( 'aria-current' ) ).to.equal( 'location' );
+			expect( itemElements[ 1 ].hasAttribute( 'aria-current' ) ).to.be.false;
+		} );
+
+		it( 'should highlight the item after the items are updated', () => {
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 4 ), 0 );
+				writer.insertText( 'Baz', model.document.getRoot().getChild( 3 ), 'end' );
+			} );
+
+			expect( getActiveItemLabels() ).to.deep.equal( [ 'BarBaz' ] );
+		} );
+	} );
+
+	describe( 'navigation', () => {
+		it( 'should move the selection to the heading of the clicked item and scroll to it', () => {
+			setModelData( model,
+				'<paragraph>[]Intro</paragraph><heading1>Foo</heading1><paragraph>Text</paragraph><heading2>Bar</heading2>'
+			);
+
+			const focusSpy = sinon.stub( view, 'focus' );
+			const scrollSpy = sinon.stub( view, 'scrollToTheSelection' );
+
+			container.querySelectorAll( '.ck-document-outline__item' )[ 1 ].click();
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Intro</paragraph><heading1>Foo</heading1><paragraph>Text</paragraph><heading2>[]Bar</heading2>'
+			);
+			expect( focusSpy.calledOnce ).to.be.true;
+			expect( scrollSpy.calledOnce ).to.be.true;
+			expect( getActiveItemLabels() ).to.deep.equal( [ 'Bar' ] );
+		} );
+	} );
+
+	describe( 'reordering', () => {
+		let itemElements;
+
+		beforeEach( () => {
+			setModelData( model,
+				'<heading1>Foo</heading1>' +
+				'<paragraph>Foo text[]</paragraph>' +
+				'<heading1>Bar</heading1>' +
+				'<paragraph>Bar text</paragraph>' +
+				'<heading1>Baz</heading1>'
+			);
+
+			itemElements = container.querySelectorAll( '.ck-document-outline__item' );
+
+			for ( const itemElement of itemElements ) {
+				sinon.stub( itemElement, 'getBoundingClientRect' ).returns( {
+					top: 100, height: 20, bottom: 120, left: 0, width: 100, right: 100
+				} );
+			}
+		} );
+
+		it( 'should make the items draggable', () => {
+			expect( itemElements[ 0 ].getAttribute( 'draggable' ) ).to.equal( 'true' );
+		} );
+
+		it( 'should set the data of the drag operation', () => {
+			const event = fireDragEvent( itemElements[ 0 ], 'dragstart' );
+
+			expect( event.dataTransfer.effectAllowed ).to.equal( 'move' );
+			expect( event.dataTransfer.setData.calledWith( 'text/plain', 'Foo' ) ).to.be.true;
+		} );
+
+		it( 'should indicate dropping before the item dragged over its upper half', () => {
+			fireDragEvent( itemElements[ 0 ], 'dragstart' );
+
+			const event = fireDragEvent( itemElements[ 2 ], 'dragover', 105 );
+
+			expect( event.preventDefault.calledOnce ).to.be.true;
+			expect( event.dataTransfer.dropEffect ).to.equal( 'move' );
+			expect( itemElements[ 2 ].classList.contains( 'ck-document-outline__item_drop-before' ) ).to.be.true;
+		} );
+
+		it( 'should indicate dropping after the item dragged over its lower half', () => {
+			fireDragEvent( itemElements[ 0 ], 'dragstart' );
+			fireDragEvent( itemElements[ 2 ], 'dragover', 115 );
+
+			expect( itemElements[ 2 ].classList.contains( 'ck-document-outline__item_drop-after' ) ).to.be.true;
+		} );
+
+		it( 'should remove the drop indicator when the item is left', () => {
+			fireDragEvent( itemElements[ 0 ], 'dragstart' );
+			fireDragEvent( itemElements[ 2 ], 'dragover', 115 );
+			fireDragEvent( itemElements[ 2 ], 'dragleave' );
+
+			expect( itemElements[ 2 ].classList.contains( 'ck-document-outline__item_drop-after' ) ).to.be.false;
+		} );
+
+		it( 'should not allow dropping an item on itself', () => {
+			fireDragEvent( itemElements[ 0 ], 'dragstart' );
+
+			const event = fireDragEvent( itemElements[ 0 ], 'dragover', 115 );
+
+			expect( event.preventDefault.called ).to.be.false;
+		} );
+
+		it( 'should not allow dropping when no item is dragged', () => {
+			const event = fireDragEvent( itemElements[ 0 ], 'dragover', 115 );
+
+			expect( event.preventDefault.called ).to.be.false;
+		} );
+
+		it( 'should not allow dropping when the editor is read-only', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			fireDragEvent( itemElements[ 0 ], 'dragstart' );
+
+			const event = fireDragEvent( itemElements[ 2 ], 'dragover', 115 );
+
+			expect( event.preventDefault.called ).to.be.false;
+		} );
+
+		it( 'should move the section of the dragged item before the item it is dropped on', () => {
+			fireDragEvent( itemElements[ 2 ], 'dragstart' );
+			fireDragEvent( itemElements[ 0 ], 'dragover', 105 );
+			fireDragEvent( itemElements[ 0 ], 'drop', 105 );
+
+			expect( getModelData( model ) ).to.equal(
+				'<heading1>Baz</heading1>' +
+				'<heading1>Foo</heading1>' +
+				'<paragraph>Foo text[]</paragraph>' +
+				'<heading1>Bar</heading1>' +
+				'<paragraph>Bar text</paragraph>'
+			);
+		} );
+
+		it( 'should move the section of the dragged item after the section of the item it is dropped on', () => {
+			fireDragEvent( itemElements[ 0 ], 'dragstart' );
+			fireDragEvent( itemElements[ 1 ], 'dragover', 115 );
+			fireDragEvent( itemElements[ 1 ], 'drop', 115 );
+
+			expect( getModelData( model ) ).to.equal(
+				'<heading1>Bar</heading1>' +
+				'<paragraph>Bar text</paragraph>' +
+				'<heading1>Foo</heading1>' +
+				'<paragraph>Foo text[]</paragraph>' +
+				'<heading1>Baz</heading1>'
+			);
+
+			expect( getItems().map( item => item.label ) ).to.deep.equal( [ 'Bar', 'Foo', 'Baz' ] );
+		} );
+
+		it( 'should not move anything when dropped without dragging over the item', () => {
+			const spy = sinon.spy( editor, 'execute' );
+
+			fireDragEvent( itemElements[ 0 ], 'dragstart' );
+			fireDragEvent( itemElements[ 1 ], 'drop', 115 );
+
+			expect( spy.called ).to.be.false;
+		} );
+
+		it( 'should not move anything when dropped after the drag has ended', () => {
+			fireDragEvent( itemElements[ 0 ], 'dragstart' );
+			fireDragEvent( itemElements[ 1 ], 'dragover', 115 );
+			fireDragEvent( itemElements[ 0 ], 'dragend' );
+
+			const spy = sinon.spy( editor, 'execute' );
+
+			fireDragEvent( itemElements[ 1 ], 'drop', 115 );
+
+			expect( spy.called ).to.be.false;
+		} );
+
+		function fireDragEvent( itemElement, type, clientY = 0 ) {
+			const event = new Event( type, { bubbles: true, cancelable: true } );
+
+			event.clientY = clientY;
+			event.dataTransfer = { setData: sinon.spy() };
+			sinon.spy( event, 'preventDefault' );
+
+			itemElement.dispatchEvent( event );
+
+			return event;
+		}
+	} );
+
+	function getItems() {
+		return Array.from( container.querySelectorAll( '.ck-document-outline__item' ) ).map( itemElement => ( {
+			label: itemElement.textContent,
+			level: itemElement.getAttribute( 'aria-level' )
+		} ) );
+	}
+
+	function getActiveItemLabels() {
+		const itemElements = container.querySelectorAll( '.ck-document-outline__item_active' );
+
+		return Array.from( itemElements ).map( itemElement => itemElement.textContent );
+	}
+} );
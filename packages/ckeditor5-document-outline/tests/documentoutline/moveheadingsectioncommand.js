@@ -0,0 +1,147 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import ModelTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/modeltesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import HeadingEditing from '@ckeditor/ckeditor5-heading/src/headingediting';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import MoveHeadingSectionCommand from '../../src/documentoutline/moveheadingsectioncommand';
+
+describe( 'MoveHeadingSectionCommand', () => {
+	let editor, model, root, command;
+
+	beforeEach( async () => {
+		editor = await ModelTestEditor.create( {
+			plugins: [ Paragraph, HeadingEditing, UndoEditing ]
+		} );
+
+		model = editor.model;
+		root = model.document.getRoot();
+		command = new MoveHeadingSectionCommand( editor );
+
+		editor.commands.add( 'moveHeadingSection', command );
+
+		setModelData( model,
+			'<heading1>A</heading1>' +
+			'<paragraph>A text[]</paragraph>' +
+			'<heading2>A.1</heading2>' +
+			'<paragraph>A.1 text</paragraph>' +
+			'<heading1>B</heading1>' +
+			'<paragraph>B text</paragraph>'
+		);
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true by default', () => {
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when the editor is read-only', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should move the section with its subsections before the target heading', () => {
+			command.execute( { heading: root.getChild( 4 ), targetHeading: root.getChild( 0 ) } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<heading1>B</heading1>' +
+				'<paragraph>B text</paragraph>' +
+				'<heading1>A</heading1>' +
+				'<paragraph>A text[]</paragraph>' +
+				'<heading2>A.1</heading2>' +
+				'<paragraph>A.1 text</paragraph>'
+			);
+		} );
+
+		it( 'should move the section after the section of the target heading', () => {
+			command.execute( { heading: root.getChild( 0 ), targetHeading: root.getChild( 4 ), placement: 'after' } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<heading1>B</heading1>' +
+				'<paragraph>B text</paragraph>' +
+				'<heading1>A</heading1>' +
+				'<paragraph>A text[]</paragraph>' +
+				'<heading2>A.1</heading2>' +
+				'<paragraph>A.1 text</paragraph>'
+			);
+		} );
+
+		it( 'should move a subsection out of its parent section', () => {
+			command.execute( { heading: root.getChild( 2 ), targetHeading: root.getChild( 4 ), placement: 'after' } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<heading1>A</heading1>' +
+				'<paragraph>A text[]</paragraph>' +
+				'<heading1>B</heading1>' +
+				'<paragraph>B text</paragraph>' +
+				'<heading2>A.1</heading2>' +
+				'<paragraph>A.1 text</paragraph>'
+			);
+		} );
+
+		it( 'should be undoable in a single step', () => {
+			command.execute( { heading: root.getChild( 4 ), targetHeading: root.getChild( 0 ) } );
+			editor.execute( 'undo' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<heading1>A</heading1>' +
+				'<paragraph>A text</paragraph>' +
+				'<heading2>A.1</heading2>' +
+				'<paragraph>A.1 text</paragraph>' +
+				'<heading1>B</heading1>' +
+				'<paragraph>B text</paragraph>'
+			);
+		} );
+
+		it( 'should do nothing when the section would be moved into itself', () => {
+			const spy = sinon.spy( model, 'change' );
+
+			command.execute( { heading: root.getChild( 0 ), targetHeading: root.getChild( 2 ), placement: 'after' } );
+			command.execute( { heading: root.getChild( 0 ), targetHeading: root.getChild( 0 ) } );
+
+			expect( spy.called ).to.be.false;
+		} );
+
+		it( 'should do nothing when the section would not change its position', () => {
+			const spy = sinon.spy( model, 'change' );
+
+			command.execute( { heading: root.getChild( 0 ), targetHeading: root.getChild( 4 ) } );
+			command.execute( { heading: root.getChild( 2 ), targetHeading: root.getChild( 0 ), placement: 'after' } );
+
+			expect( spy.called ).to.be.false;
+		} );
+
+		it( 'should do nothing when the elements are not headings', () => {
+			const spy = sinon.spy( model, 'change' );
+
+			command.execute( { heading: root.getChild( 1 ), targetHeading: root.getChild( 0 ) } );
+			command.execute( { heading: root.getChild( 4 ), targetHeading: root.getChild( 1 ) } );
+
+			expect( spy.called ).to.be.false;
+		} );
+
+		it( 'should do nothing when the headings have different parents', () => {
+			model.schema.register( 'blockQuote', { allowWhere: '$block', allowContentOf: '$root' } );
+			editor.conversion.elementToElement( { model: 'blockQuote', view: 'blockquote' } );
+			setModelData( model, '<heading1>A</heading1><blockQuote><heading1>B</heading1></blockQuote>' );
+
+			const spy = sinon.spy( model, 'change' );
+
+			command.execute( { heading: root.getChild( 1 ).getChild( 0 ), targetHeading: root.getChild( 0 ) } );
+
+			expect( spy.called ).to.be.false;
+		} );
+	} );
+} );
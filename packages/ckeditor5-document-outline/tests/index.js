@@ -0,0 +1,45 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	TableOfContents as TableOfContentsDLL,
+	TableOfContentsEditing as TableOfContentsEditingDLL,
+	TableOfContentsUI as TableOfContentsUIDLL,
+	InsertTableOfContentsCommand as InsertTableOfContentsCommandDLL,
+	DocumentOutline as DocumentOutlineDLL,
+	MoveHeadingSectionCommand as MoveHeadingSectionCommandDLL
+} from '../src';
+import TableOfContents from '../src/tableofcontents';
+import TableOfContentsEditing from '../src/tableofcontents/tableofcontentsediting';
+import TableOfContentsUI from '../src/tableofcontents/tableofcontentsui';
+import InsertTableOfContentsCommand from '../src/tableofcontents/inserttableofcontentscommand';
+import DocumentOutline from '../src/documentoutline';
+import MoveHeadingSectionCommand from '../src/documentoutline/moveheadingsectioncommand';
+
+describe( 'DocumentOutline DLL', () => {
+	it( 'exports TableOfContents', () => {
+		expect( TableOfContentsDLL ).to.equal( TableOfContents );
+	} );
+
+	it( 'exports TableOfContentsEditing', () => {
+		expect( TableOfContentsEditingDLL ).to.equal( TableOfContentsEditing );
+	} );
+
+	it( 'exports TableOfContentsUI', () => {
+		expect( TableOfContentsUIDLL ).to.equal( TableOfContentsUI );
+	} );
+
+	it( 'exports InsertTableOfContentsCommand', () => {
+		expect( InsertTableOfContentsCommandDLL ).to.equal( InsertTableOfContentsCommand );
+	} );
+
+	it( 'exports DocumentOutline', () => {
+		expect( DocumentOutlineDLL ).to.equal( DocumentOutline );
+	} );
+
+	it( 'exports MoveHeadingSectionCommand', () => {
+		expect( MoveHeadingSectionCommandDLL ).to.equal( MoveHeadingSectionCommand );
+	} );
+} );
@@ -0,0 +1,20 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Widget from '@ckeditor/ckeditor5-widget/src/widget';
+
+import TableOfContents from '../src/tableofcontents';
+import TableOfContentsEditing from '../src/tableofcontents/tableofcontentsediting';
+import TableOfContentsUI from '../src/tableofcontents/tableofcontentsui';
+
+describe( 'TableOfContents', () => {
+	it( 'should be correctly named', () => {
+		expect( TableOfContents.pluginName ).to.equal( 'TableOfContents' );
+	} );
+
+	it( 'should require TableOfContentsEditing, TableOfContentsUI and Widget', () => {
+		expect( TableOfContents.requires ).to.deep.equal( [ TableOfContentsEditing, TableOfContentsUI, Widget ] );
+	} );
+} );
@@ -0,0 +1,88 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import HeadingEditing from '@ckeditor/ckeditor5-heading/src/headingediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import TableOfContentsEditing from '../../src/tableofcontents/tableofcontentsediting';
+
+describe( 'InsertTableOfContentsCommand', () => {
+	let editor, model, command;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, HeadingEditing, TableOfContentsEditing ]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'insertTableOfContents' );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true when the selection is in a paragraph', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be true when the selection is on a table of contents', () => {
+			setModelData( model, '[<tableOfContents></tableOfContents>]' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when the table of contents is not allowed in the parent', () => {
+			model.schema.register( 'blockQuote', { allowWhere: '$block', allowContentOf: '$root' } );
+			editor.conversion.elementToElement( { model: 'blockQuote', view: 'blockquote' } );
+			model.schema.addChildCheck( ( context, childDefinition ) => {
+				if ( childDefinition.name == 'tableOfContents' && context.endsWith( 'blockQuote' ) ) {
+					return false;
+				}
+			} );
+
+			setModelData( model, '<blockQuote><paragraph>Foo[]</paragraph></blockQuote>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should insert the table of contents after the block with the selection', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph><heading1>Bar</heading1>' );
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Foo</paragraph><tableOfContents></tableOfContents><heading1>[]Bar</heading1>'
+			);
+		} );
+
+		it( 'should replace an empty paragraph with the table of contents', () => {
+			setModelData( model, '<paragraph>[]</paragraph><heading1>Bar</heading1>' );
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal(
+				'<tableOfContents></tableOfContents><heading1>[]Bar</heading1>'
+			);
+		} );
+
+		it( 'should insert a paragraph after the table of contents at the end of the document', () => {
+			setModelData( model, '<heading1>Foo</heading1><paragraph>[]</paragraph>' );
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal(
+				'<heading1>Foo</heading1><tableOfContents></tableOfContents><paragraph>[]</paragraph>'
+			);
+		} );
+	} );
+} );
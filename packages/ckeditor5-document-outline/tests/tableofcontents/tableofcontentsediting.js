@@ -0,0 +1,338 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import Bold from '@ckeditor/ckeditor5-basic-styles/src/bold';
+import HeadingEditing from '@ckeditor/ckeditor5-heading/src/headingediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { getData as getViewData } from '@ckeditor/ckeditor5-engine/src/dev-utils/view';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import TableOfContentsEditing from '../../src/tableofcontents/tableofcontentsediting';
+import InsertTableOfContentsCommand from '../../src/tableofcontents/inserttableofcontentscommand';
+
+describe( 'TableOfContentsEditing', () => {
+	let editor, model, view, element;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, Bold, HeadingEditing, TableOfContentsEditing ]
+		} );
+
+		model = editor.model;
+		view = editor.editing.view;
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( TableOfContentsEditing.pluginName ).to.equal( 'TableOfContentsEditing' );
+	} );
+
+	it( 'should register the command', () => {
+		expect( editor.commands.get( 'insertTableOfContents' ) ).to.be.instanceOf( InsertTableOfContentsCommand );
+	} );
+
+	it( 'should define the default configuration', () => {
+		expect( editor.config.get( 'tableOfContents' ) ).to.deep.equal( { depth: 6 } );
+	} );
+
+	describe( 'schema', () => {
+		it( 'should allow the table of contents in the root', () => {
+			expect( model.schema.checkChild( [ '$root' ], 'tableOfContents' ) ).to.be.true;
+			expect( model.schema.checkChild( [ '$root', 'paragraph' ], 'tableOfContents' ) ).to.be.false;
+		} );
+
+		it( 'should register the table of contents as a block object', () => {
+			expect( model.schema.isObject( 'tableOfContents' ) ).to.be.true;
+			expect( model.schema.isBlock( 'tableOfContents' ) ).to.be.true;
+		} );
+
+		it( 'should not allow any content in the table of contents', () => {
+			expect( model.schema.checkChild( [ '$root', 'tableOfContents' ], '$text' ) ).to.be.false;
+			expect( model.schema.checkChild( [ '$root', 'tableOfContents' ], 'paragraph' ) ).to.be.false;
+		} );
+	} );
+
+	describe( 'data pipeline', () => {
+		it( 'should upcast the table of contents and ignore its content', () => {
+			editor.setData(
+				'<nav class="table-of-contents"><ol><li>Foo<ol><li>Bar</li></ol></li></ol></nav>' +
+				'<h2>Foo</h2>'
+			);
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<tableOfContents></tableOfContents><heading1>Foo</heading1>'
+			);
+		} );
+
+		it( 'should not upcast a nav element without the class', () => {
+			editor.setData( '<nav><p>Foo</p></nav>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<paragraph>Foo</paragraph>' );
+		} );
+
+		it( 'should downcast the nested list of the headings', () => {
+			setModelData( model,
+				'<tableOfContents></tableOfContents>' +
+				'<heading1>A</heading1>' +
+				'<paragraph>Text</paragraph>' +
+				'<heading2>A.1</heading2>' +
+				'<heading3>A.1.1</heading3>' +
+				'<heading2>A.2</heading2>' +
+				'<heading1>B</heading1>'
+			);
+
+			expect( editor.getData() ).to.equal(
+				'<nav class="table-of-contents">' +
+					'<ol>' +
+						'<li>A' +
+							'<ol>' +
+								'<li>A.1<ol><li>A.1.1</li></ol></li>' +
+								'<li>A.2</li>' +
+							'</ol>' +
+						'</li>' +
+						'<li>B</li>' +
+					'</ol>' +
+				'</nav>' +
+				'<h2>A</h2><p>Text</p><h3>A.1</h3><h4>A.1.1</h4><h3>A.2</h3><h2>B</h2>'
+			);
+		} );
+
+		it( 'should list a heading deeper than its predecessor by more than one level as its direct child', () => {
+			setModelData( model, '<tableOfContents></tableOfContents><heading1>A</heading1><heading3>B</heading3><heading2>C</heading2>' );
+
+			expect( editor.getData() ).to.equal(
+				'<nav class="table-of-contents"><ol><li>A<ol><li>B</li><li>C</li></ol></li></ol></nav>' +
+				'<h2>A</h2><h4>B</h4><h3>C</h3>'
+			);
+		} );
+
+		it( 'should list the headings preceding the table of contents', () => {
+			setModelData( model, '<heading1>A</heading1><tableOfContents></tableOfContents><heading1>B</heading1>' );
+
+			expect( editor.getData() ).to.equal(
+				'<h2>A</h2><nav class="table-of-contents"><ol><li>A</li><li>B</li></ol></nav><h2>B</h2>'
+			);
+		} );
+
+		it( 'should use the plain text of the headings', () => {
+			setModelData( model, '<tableOfContents></tableOfContents><heading1><$text bold="true">Foo</$text> bar</heading1>' );
+
+			expect( editor.getData() ).to.equal(
+				'<nav class="table-of-contents"><ol><li>Foo bar</li></ol></nav><h2><strong>Foo</strong> bar</h2>'
+			);
+		} );
+
+		it( 'should skip the empty headings', () => {
+			setModelData( model, '<tableOfContents></tableOfContents><heading1>A</heading1><heading1> </heading1><heading1></heading1>' );
+
+			expect( editor.getData() ).to.equal(
+				'<nav class="table-of-contents"><ol><li>A</li></ol></nav><h2>A</h2><h2>&nbsp;</h2><h2>&nbsp;</h2>'
+			);
+		} );
+
+		it( 'should output an empty element when there are no headings', () => {
+			setModelData( model, '<tableOfContents></tableOfContents><paragraph>Foo</paragraph>' );
+
+			expect( editor.getData() ).to.equal( '<nav class="table-of-contents">&nbsp;</nav><p>Foo</p>' );
+		} );
+
+		it( 'should respect the configured depth', async () => {
+			const editor = await ClassicTestEditor.create( element, {
+				plugins: [ Paragraph, HeadingEditing, TableOfContentsEditing ],
+				tableOfContents: {
+					depth: 1
+				}
+			} );
+
+			setModelData( editor.model, '<tableOfContents></tableOfContents><heading1>A</heading1><heading2>B</heading2>' );
+
+			expect( editor.getData() ).to.equal(
+				'<nav class="table-of-contents"><ol><li>A</li></ol></nav><h2>A</h2><h3>B</h3>'
+			);
+
+			await editor.destroy();
+		} );
+	} );
+
+	describe( 'editing pipeline', () => {
+		it( 'should convert the table of contents to a widget with clickable entries', () => {
+			setModelData( model, '<tableOfContents></tableOfContents><heading1>A</heading1><heading2>B</heading2>' );
+
+			expect( getViewData( view, { withoutSelection: true } ) ).to.equal(
+				'<nav class="ck-table-of-contents ck-widget table-of-contents" contenteditable="false">' +
+					'<ol>' +
+						'<li>' +
+							'<span class="ck-table-of-contents__entry" data-heading-index="0">A</span>' +
+							'<ol><li><span class="ck-table-of-contents__entry" data-heading-index="1">B</span></li></ol>' +
+						'</li>' +
+					'</ol>' +
+				'</nav>' +
+				'<h2>A</h2><h3>B</h3>'
+			);
+		} );
+
+		it( 'should set the accessible label of the widget', () => {
+			setModelData( model, '<tableOfContents></tableOfContents>' );
+
+			const viewElement = view.document.getRoot().getChild( 0 );
+
+			expect( viewElement.getCustomProperty( 'widgetLabel' ) ).to.deep.equal( [ 'Table of contents' ] );
+		} );
+
+		it( 'should display a placeholder when there are no headings', () => {
+			setModelData( model, '<tableOfContents></tableOfContents><paragraph>Foo</paragraph>' );
+
+			expect( getViewData( view, { withoutSelection: true } ) ).to.equal(
+				'<nav class="ck-table-of-contents ck-widget table-of-contents" contenteditable="false">' +
+					'<p class="ck-table-of-contents__placeholder">Add headings to the document to create the table of contents.</p>' +
+				'</nav>' +
+				'<p>Foo</p>'
+			);
+		} );
+
+		describe( 'refreshing', () => {
+			beforeEach( () => {
+				setModelData( model, '<tableOfContents></tableOfContents><heading1>Foo</heading1><paragraph>Bar[]</paragraph>' );
+			} );
+
+			it( 'should refresh the table of contents when a heading is inserted', () => {
+				model.change( writer => {
+					writer.insertElement( 'heading2', model.document.getRoot(), 'end' );
+					writer.insertText( 'Baz', model.document.getRoot().getChild( 3 ), 0 );
+				} );
+
+				expect( getEntries() ).to.deep.equal( [ 'Foo', 'Baz' ] );
+			} );
+
+			it( 'should refresh the table of contents when a heading is removed', () => {
+				model.change( writer => {
+					writer.remove( model.document.getRoot().getChild( 1 ) );
+				} );
+
+				expect( getEntries() ).to.deep.equal( [] );
+			} );
+
+			it( 'should refresh the table of contents when the text of a heading changes', () => {
+				model.change( writer => {
+					writer.insertText( 'Qux', model.document.getRoot().getChild( 1 ), 'end' );
+				} );
+
+				expect( getEntries() ).to.deep.equal( [ 'FooQux' ] );
+			} );
+
+			it( 'should refresh the table of contents when a paragraph is turned into a heading', () => {
+				model.change( writer => {
+					writer.rename( model.document.getRoot().getChild( 2 ), 'heading1' );
+				} );
+
+				expect( getEntries() ).to.deep.equal( [ 'Foo', 'Bar' ] );
+			} );
+
+			it( 'should not refresh the table of contents when the text of a paragraph changes', () => {
+				const spy = sinon.spy( editor.editing, 'reconvertItem' );
+
+				model.change( writer => {
+					writer.insertText( 'Qux', model.document.getRoot().getChild( 2 ), 'end' );
+				} );
+
+				expect( spy.called ).to.be.false;
+			} );
+
+			it( 'should not refresh the table of contents when an attribute changes', () => {
+				const spy = sinon.spy( editor.editing, 'reconvertItem' );
+
+				model.change( writer => {
+					writer.setAttribute( 'bold', true, writer.createRangeIn( model.document.getRoot().getChild( 1 ) ) );
+				} );
+
+				expect( spy.called ).to.be.false;
+			} );
+
+			function getEntries() {
+				const domElement = view.domConverter.mapViewToDom( view.document.getRoot().getChild( 0 ) );
+
+				return Array.from( domElement.querySelectorAll( '.ck-table-of-contents__entry' ) ).map( entry => entry.textContent );
+			}
+		} );
+	} );
+
+	describe( 'navigation', () => {
+		beforeEach( () => {
+			setModelData( model,
+				'<tableOfContents></tableOfContents>' +
+				'<heading1>Foo</heading1>' +
+				'<paragraph>Text</paragraph>' +
+				'<heading2>Bar</heading2>'
+			);
+
+			sinon.stub( view, 'scrollToTheSelection' );
+		} );
+
+		it( 'should move the selection to the heading of the clicked entry and scroll to it', () => {
+			const focusSpy = sinon.spy( view, 'focus' );
+			const data = fireClick( getDomEntries()[ 1 ] );
+
+			expect( getModelData( model ) ).to.equal(
+				'<tableOfContents></tableOfContents>' +
+				'<heading1>Foo</heading1>' +
+				'<paragraph>Text</paragraph>' +
+				'<heading2>[]Bar</heading2>'
+			);
+
+			expect( data.preventDefault.calledOnce ).to.be.true;
+			expect( focusSpy.calledOnce ).to.be.true;
+			expect( view.scrollToTheSelection.calledOnce ).to.be.true;
+		} );
+
+		it( 'should do nothing when the table of contents is clicked outside of the entries', () => {
+			const domElement = view.domConverter.mapViewToDom( view.document.getRoot().getChild( 0 ) );
+
+			fireClick( domElement );
+
+			expect( view.scrollToTheSelection.called ).to.be.false;
+		} );
+
+		it( 'should do nothing when the heading of the entry does not exist', () => {
+			const domEntry = getDomEntries()[ 1 ];
+
+			domEntry.setAttribute( 'data-heading-index', '5' );
+			fireClick( domEntry );
+
+			expect( view.scrollToTheSelection.called ).to.be.false;
+		} );
+
+		function getDomEntries() {
+			const domElement = view.domConverter.mapViewToDom( view.document.getRoot().getChild( 0 ) );
+
+			return domElement.querySelectorAll( '.ck-table-of-contents__entry' );
+		}
+
+		function fireClick( domTarget ) {
+			const data = {
+				domTarget,
+				domEvent: {},
+				preventDefault: sinon.spy()
+			};
+
+			view.document.fire( 'click', data );
+
+			return data;
+		}
+	} );
+} );
@@ -0,0 +1,166 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Model from '@ckeditor/ckeditor5-engine/src/model/model';
+import { setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import { getHeadingLevel, getHeadings, getHeadingText, getHeadingSectionRange, getRootsWithChangedHeadings } from '../src/utils';
+
+describe( 'document outline utils', () => {
+	let model, root;
+
+	beforeEach( () => {
+		model = new Model();
+		root = model.document.createRoot();
+
+		model.schema.register( 'paragraph', { inheritAllFrom: '$block' } );
+		model.schema.register( 'heading1', { inheritAllFrom: '$block' } );
+		model.schema.register( 'heading2', { inheritAllFrom: '$block' } );
+		model.schema.register( 'heading7', { inheritAllFrom: '$block' } );
+		model.schema.register( 'title', { inheritAllFrom: '$block' } );
+		model.schema.register( 'softBreak', { allowWhere: '$text', isInline: true } );
+		model.schema.extend( '$text', { allowAttributes: 'bold' } );
+	} );
+
+	describe( 'getHeadingLevel()', () => {
+		it( 'should return the level of a heading', () => {
+			setModelData( model, '<heading1></heading1><heading2></heading2>' );
+
+			expect( getHeadingLevel( root.getChild( 0 ) ) ).to.equal( 1 );
+			expect( getHeadingLevel( root.getChild( 1 ) ) ).to.equal( 2 );
+		} );
+
+		it( 'should return null for other items', () => {
+			setModelData( model, '<paragraph>Foo</paragraph><title></title><heading7></heading7>' );
+
+			expect( getHeadingLevel( root.getChild( 0 ) ) ).to.be.null;
+			expect( getHeadingLevel( root.getChild( 0 ).getChild( 0 ) ) ).to.be.null;
+			expect( getHeadingLevel( root.getChild( 1 ) ) ).to.be.null;
+			expect( getHeadingLevel( root.getChild( 2 ) ) ).to.be.null;
+			expect( getHeadingLevel( null ) ).to.be.null;
+		} );
+	} );
+
+	describe( 'getHeadings()', () => {
+		it( 'should return the headings in the document order', () => {
+			setModelData( model, '<heading2>A</heading2><paragraph>B</paragraph><heading1>C</heading1><title>D</title>' );
+
+			expect( getHeadings( model, root ) ).to.deep.equal( [ root.getChild( 0 ), root.getChild( 2 ) ] );
+		} );
+
+		it( 'should skip the headings deeper than the given level', () => {
+			setModelData( model, '<heading2>A</heading2><heading1>B</heading1>' );
+
+			expect( getHeadings( model, root, 1 ) ).to.deep.equal( [ root.getChild( 1 ) ] );
+		} );
+	} );
+
+	describe( 'getHeadingText()', () => {
+		it( 'should return the text of the heading', () => {
+			setModelData( model, '<heading1><$text bold="true">Foo</$text><softBreak></softBreak> bar</heading1>' );
+
+			expect( getHeadingText( model, root.getChild( 0 ) ) ).to.equal( 'Foo bar' );
+		} );
+	} );
+
+	describe( 'getHeadingSectionRange()', () => {
+		beforeEach( () => {
+			setModelData( model,
+				'<heading1>A</heading1>' +
+				'<paragraph>A text</paragraph>' +
+				'<heading2>A.1</heading2>' +
+				'<paragraph>A.1 text</paragraph>' +
+				'<heading1>B</heading1>' +
+				'<paragraph>B text</paragraph>'
+			);
+		} );
+
+		it( 'should end the section before the next heading of the same level', () => {
+			const range = getHeadingSectionRange( model, root.getChild( 0 ) );
+
+			expect( range.start.path ).to.deep.equal( [ 0 ] );
+			expect( range.end.path ).to.deep.equal( [ 4 ] );
+		} );
+
+		it( 'should end the section before the next heading of a higher level', () => {
+			const range = getHeadingSectionRange( model, root.getChild( 2 ) );
+
+			expect( range.start.path ).to.deep.equal( [ 2 ] );
+			expect( range.end.path ).to.deep.equal( [ 4 ] );
+		} );
+
+		it( 'should end the last section at the end of the parent', () => {
+			const range = getHeadingSectionRange( model, root.getChild( 4 ) );
+
+			expect( range.start.path ).to.deep.equal( [ 4 ] );
+			expect( range.end.path ).to.deep.equal( [ 6 ] );
+		} );
+	} );
+
+	describe( 'getRootsWithChangedHeadings()', () => {
+		let otherRoot;
+
+		beforeEach( () => {
+			otherRoot = model.document.createRoot( '$root', 'other' );
+
+			setModelData( model, '<heading1>Foo</heading1><paragraph>Bar</paragraph>' );
+		} );
+
+		it( 'should return the roots with inserted or removed elements', () => {
+			const roots = getChangedRoots( writer => {
+				writer.insertElement( 'paragraph', otherRoot, 0 );
+				writer.remove( root.getChild( 1 ) );
+			} );
+
+			expect( roots ).to.have.length( 2 );
+			expect( roots ).to.include( root );
+			expect( roots ).to.include( otherRoot );
+		} );
+
+		it( 'should return the root when the text of a heading changes', () => {
+			const roots = getChangedRoots( writer => {
+				writer.insertText( 'Baz', root.getChild( 0 ), 'end' );
+			} );
+
+			expect( roots ).to.deep.equal( [ root ] );
+		} );
+
+		it( 'should return the root when an element is renamed', () => {
+			const roots = getChangedRoots( writer => {
+				writer.rename( root.getChild( 1 ), 'heading2' );
+			} );
+
+			expect( roots ).to.deep.equal( [ root ] );
+		} );
+
+		it( 'should not return the root when the text of another element changes', () => {
+			const roots = getChangedRoots( writer => {
+				writer.insertText( 'Baz', root.getChild( 1 ), 'end' );
+			} );
+
+			expect( roots ).to.deep.equal( [] );
+		} );
+
+		it( 'should not return the root when an attribute changes', () => {
+			const roots = getChangedRoots( writer => {
+				writer.setAttribute( 'bold', true, writer.createRangeIn( root.getChild( 0 ) ) );
+			} );
+
+			expect( roots ).to.deep.equal( [] );
+		} );
+
+		function getChangedRoots( callback ) {
+			let roots;
+
+			model.document.on( 'change', () => {
+				roots = Array.from( getRootsWithChangedHeadings( model.document.differ ) );
+			}, { priority: 'high' } );
+
+			model.change( callback );
+
+			return roots;
+		}
+	} );
+} );
@@ -19,6 +19,7 @@ import {
 	type EditorConfig,
 	type EditorReadyEvent
 } from 'ckeditor5/src/core';
+import { normalizeMenuBarConfig } from 'ckeditor5/src/ui';
 import { getDataFromElement, CKEditorError } from 'ckeditor5/src/utils';
 
 import { ContextWatchdog, EditorWatchdog } from 'ckeditor5/src/watchdog';
@@ -87,7 +88,8 @@ export default class ClassicEditor extends DataApiMixin( ElementApiMixin( Editor
 
 		const shouldToolbarGroupWhenFull = !this.config.get( 'toolbar.shouldNotGroupWhenFull' );
 		const view = new ClassicEditorUIView( this.locale, this.editing.view, {
-			shouldToolbarGroupWhenFull
+			shouldToolbarGroupWhenFull,
+			useMenuBar: normalizeMenuBarConfig( this.config.get( 'menuBar' ) ).isVisible
 		} );
 
 		this.ui = new ClassicEditorUI( this, view );
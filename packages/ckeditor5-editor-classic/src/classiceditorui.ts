@@ -106,6 +106,7 @@ export default class ClassicEditorUI extends EditorUI {
 		}
 
 		this._initPlaceholder();
+		this._initMenuBar();
 		this._initToolbar();
 		this.fire<EditorUIReadyEvent>( 'ready' );
 	}
@@ -124,6 +125,15 @@ export default class ClassicEditorUI extends EditorUI {
 		view.destroy();
 	}
 
+	/**
+	 * Initializes the editor menu bar, if the view provides one.
+	 */
+	private _initMenuBar(): void {
+		if ( this.view.menuBarView ) {
+			this.initMenuBar( this.view.menuBarView );
+		}
+	}
+
 	/**
 	 * Initializes the editor toolbar.
 	 */
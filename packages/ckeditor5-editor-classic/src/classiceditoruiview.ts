@@ -7,7 +7,7 @@
  * @module editor-classic/classiceditoruiview
  */
 
-import { BoxedEditorUIView, InlineEditableUIView, StickyPanelView, ToolbarView } from 'ckeditor5/src/ui';
+import { BoxedEditorUIView, InlineEditableUIView, MenuBarView, StickyPanelView, ToolbarView } from 'ckeditor5/src/ui';
 import type { Locale } from 'ckeditor5/src/utils';
 import type { View } from 'ckeditor5/src/engine';
 
@@ -20,7 +20,7 @@ import '../theme/classiceditor.css';
 export default class ClassicEditorUIView extends BoxedEditorUIView {
 	/**
 	 * Sticky panel view instance. This is a parent view of a {@link #toolbar}
-	 * that makes toolbar sticky.
+	 * (and the {@link #menuBarView}, if used) that makes toolbar sticky.
 	 */
 	public readonly stickyPanel: StickyPanelView;
 
@@ -29,6 +29,12 @@ export default class ClassicEditorUIView extends BoxedEditorUIView {
 	 */
 	public readonly toolbar: ToolbarView;
 
+	/**
+	 * Menu bar view instance. Available only when the view was created with the `useMenuBar` option
+	 * (see {@link module:core/editor/editorconfig~EditorConfig#menuBar `config.menuBar.isVisible`}).
+	 */
+	public readonly menuBarView?: MenuBarView;
+
 	/**
 	 * Editable UI view.
 	 */
@@ -43,12 +49,15 @@ export default class ClassicEditorUIView extends BoxedEditorUIView {
 	 * @param options.shouldToolbarGroupWhenFull When set `true` enables automatic items grouping
 	 * in the main {@link module:editor-classic/classiceditoruiview~ClassicEditorUIView#toolbar toolbar}.
 	 * See {@link module:ui/toolbar/toolbarview~ToolbarOptions#shouldGroupWhenFull} to learn more.
+	 * @param options.useMenuBar When set `true`, the view creates the {@link #menuBarView} and displays it above the
+	 * {@link #toolbar}.
 	 */
 	constructor(
 		locale: Locale,
 		editingView: View,
 		options: {
 			shouldToolbarGroupWhenFull?: boolean;
+			useMenuBar?: boolean;
 		} = {}
 	) {
 		super( locale );
@@ -59,6 +68,10 @@ export default class ClassicEditorUIView extends BoxedEditorUIView {
 			shouldGroupWhenFull: options.shouldToolbarGroupWhenFull
 		} );
 
+		if ( options.useMenuBar ) {
+			this.menuBarView = new MenuBarView( locale );
+		}
+
 		this.editable = new InlineEditableUIView( locale, editingView );
 	}
 
@@ -68,7 +81,11 @@ export default class ClassicEditorUIView extends BoxedEditorUIView {
 	public override render(): void {
 		super.render();
 
-		// Set toolbar as a child of a stickyPanel and makes toolbar sticky.
+		// Set the menu bar (if any) and the toolbar as children of a stickyPanel and make them sticky.
+		if ( this.menuBarView ) {
+			this.stickyPanel.content.add( this.menuBarView );
+		}
+
 		this.stickyPanel.content.add( this.toolbar );
 
 		this.top.add( this.stickyPanel );
@@ -8,6 +8,7 @@
 import ClassicEditor from '../src/classiceditor';
 import ClassicEditorUI from '../src/classiceditorui';
 import ClassicEditorUIView from '../src/classiceditoruiview';
+import MenuBarView from '@ckeditor/ckeditor5-ui/src/menubar/menubarview';
 
 import HtmlDataProcessor from '@ckeditor/ckeditor5-engine/src/dataprocessor/htmldataprocessor';
 
@@ -129,6 +130,43 @@ describe( 'ClassicEditor', () => {
 					editorElement.remove();
 				} );
 			} );
+
+			describe( 'menu bar', () => {
+				it( 'should not be created by default', () => {
+					const editorElement = document.createElement( 'div' );
+					const editor = new ClassicEditor( editorElement );
+
+					expect( editor.ui.view.menuBarView ).to.be.undefined;
+
+					editorElement.remove();
+				} );
+
+				it( 'should be created when config.menuBar.isVisible is true', () => {
+					const editorElement = document.createElement( 'div' );
+					const editor = new ClassicEditor( editorElement, {
+						menuBar: {
+							isVisible: true
+						}
+					} );
+
+					expect( editor.ui.view.menuBarView ).to.be.instanceOf( MenuBarView );
+
+					editorElement.remove();
+				} );
+
+				it( 'should be created when config.menuBar is an array of menus', () => {
+					const editorElement = document.createElement( 'div' );
+					const editor = new ClassicEditor( editorElement, {
+						menuBar: [
+							{ menuId: 'edit', label: 'Edit', items: [ 'undo' ] }
+						]
+					} );
+
+					expect( editor.ui.view.menuBarView ).to.be.instanceOf( MenuBarView );
+
+					editorElement.remove();
+				} );
+			} );
 		} );
 
 		describe( 'config.initialData', () => {
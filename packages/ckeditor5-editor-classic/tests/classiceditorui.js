@@ -8,6 +8,7 @@
 import View from '@ckeditor/ckeditor5-ui/src/view';
 
 import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Command from '@ckeditor/ckeditor5-core/src/command';
 import ClassicEditor from '../src/classiceditor';
 import ClassicEditorUI from '../src/classiceditorui';
 import EditorUI from '@ckeditor/ckeditor5-ui/src/editorui/editorui';
@@ -273,6 +274,34 @@ describe( 'ClassicEditorUI', () => {
 		} );
 	} );
 
+	describe( 'view.menuBarView', () => {
+		it( 'is not initialized when not created by the view', () => {
+			expect( view.menuBarView ).to.be.undefined;
+		} );
+
+		it( 'is filled with the config.menuBar and registered in the UI', () => {
+			return VirtualClassicTestEditor
+				.create( '', {
+					menuBar: {
+						isVisible: true,
+						items: [
+							{ menuId: 'edit', label: 'Edit', items: [ 'fooCommand' ] }
+						]
+					},
+					plugins: [ FooCommandPlugin ]
+				} )
+				.then( editor => {
+					const menuBarView = editor.ui.view.menuBarView;
+
+					expect( menuBarView.children.length ).to.equal( 1 );
+					expect( menuBarView.children.first.menuId ).to.equal( 'edit' );
+					expect( editor.ui.focusTracker._elements.has( menuBarView.element ) ).to.be.true;
+
+					return editor.destroy();
+				} );
+		} );
+	} );
+
 	describe( 'destroy()', () => {
 		it( 'detaches the DOM root then destroys the UI view', () => {
 			return VirtualClassicTestEditor.create( '' )
@@ -642,6 +671,10 @@ describe( 'Focus handling and navigation between editing root and editor toolbar
 	}
 } );
 
+function FooCommandPlugin( editor ) {
+	editor.commands.add( 'fooCommand', new Command( editor ) );
+}
+
 function viewCreator( name ) {
 	return locale => {
 		const view = new View( locale );
@@ -661,7 +694,9 @@ class VirtualClassicTestEditor extends VirtualTestEditor {
 			this.sourceElement = sourceElementOrData;
 		}
 
-		const view = new ClassicEditorUIView( this.locale, this.editing.view );
+		const view = new ClassicEditorUIView( this.locale, this.editing.view, {
+			useMenuBar: !!( config && config.menuBar && config.menuBar.isVisible )
+		} );
 		this.ui = new ClassicEditorUI( this, view );
 
 		this.ui.componentFactory.add( 'foo', viewCreator( 'foo' ) );
@@ -7,6 +7,7 @@ import ClassicEditorUIView from '../src/classiceditoruiview';
 import EditingView from '@ckeditor/ckeditor5-engine/src/view/view';
 import StickyPanelView from '@ckeditor/ckeditor5-ui/src/panel/sticky/stickypanelview';
 import ToolbarView from '@ckeditor/ckeditor5-ui/src/toolbar/toolbarview';
+import MenuBarView from '@ckeditor/ckeditor5-ui/src/menubar/menubarview';
 import InlineEditableUIView from '@ckeditor/ckeditor5-ui/src/editableui/inline/inlineeditableuiview';
 import Locale from '@ckeditor/ckeditor5-utils/src/locale';
 import createRoot from '@ckeditor/ckeditor5-engine/tests/view/_utils/createroot.js';
@@ -82,6 +83,45 @@ describe( 'ClassicEditorUIView', () => {
 			} );
 		} );
 
+		describe( '#menuBarView', () => {
+			it( 'is not created by default', () => {
+				expect( view.menuBarView ).to.be.undefined;
+			} );
+
+			describe( 'when options.useMenuBar is set', () => {
+				let view;
+
+				beforeEach( () => {
+					const editingView = new EditingView();
+					const editingViewRoot = createRoot( editingView.document );
+
+					view = new ClassicEditorUIView( locale, editingView, {
+						useMenuBar: true
+					} );
+
+					view.editable.name = editingViewRoot.rootName;
+					view.render();
+				} );
+
+				afterEach( () => {
+					view.destroy();
+				} );
+
+				it( 'is created', () => {
+					expect( view.menuBarView ).to.be.instanceof( MenuBarView );
+				} );
+
+				it( 'is given a locate object', () => {
+					expect( view.menuBarView.locale ).to.equal( locale );
+				} );
+
+				it( 'is put into the "stickyPanel.content" collection before the toolbar', () => {
+					expect( view.stickyPanel.content.get( 0 ) ).to.equal( view.menuBarView );
+					expect( view.stickyPanel.content.get( 1 ) ).to.equal( view.toolbar );
+				} );
+			} );
+		} );
+
 		describe( '#editable', () => {
 			it( 'is created', () => {
 				expect( view.editable ).to.be.instanceof( InlineEditableUIView );
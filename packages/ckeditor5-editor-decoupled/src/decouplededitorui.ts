@@ -80,6 +80,7 @@ export default class DecoupledEditorUI extends EditorUI {
 		editingView.attachDomRoot( editableElement );
 
 		this._initPlaceholder();
+		this.initMenuBar( this.view.menuBarView );
 		this._initToolbar();
 		this.fire<EditorUIReadyEvent>( 'ready' );
 	}
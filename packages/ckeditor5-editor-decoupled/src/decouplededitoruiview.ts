@@ -7,7 +7,7 @@
  * @module editor-decoupled/decouplededitoruiview
  */
 
-import { EditorUIView, InlineEditableUIView, ToolbarView } from 'ckeditor5/src/ui';
+import { EditorUIView, InlineEditableUIView, MenuBarView, ToolbarView } from 'ckeditor5/src/ui';
 import type { Locale } from 'ckeditor5/src/utils';
 import type { View } from 'ckeditor5/src/engine';
 
@@ -26,6 +26,17 @@ export default class DecoupledEditorUIView extends EditorUIView {
 	 */
 	public readonly toolbar: ToolbarView;
 
+	/**
+	 * The menu bar of the decoupled editor UI. Like the {@link #toolbar}, it must be placed in the DOM by the integration, e.g.:
+	 *
+	 * ```ts
+	 * document.querySelector( '#menu-bar-container' ).appendChild( editor.ui.view.menuBarView.element );
+	 * ```
+	 *
+	 * See {@link module:core/editor/editorconfig~EditorConfig#menuBar `config.menuBar`} to learn how to configure it.
+	 */
+	public readonly menuBarView: MenuBarView;
+
 	/**
 	 * The editable of the decoupled editor UI.
 	 */
@@ -59,6 +70,8 @@ export default class DecoupledEditorUIView extends EditorUIView {
 			shouldGroupWhenFull: options.shouldToolbarGroupWhenFull
 		} );
 
+		this.menuBarView = new MenuBarView( locale );
+
 		this.editable = new InlineEditableUIView( locale, editingView, options.editableElement, {
 			label: editableView => {
 				return t( 'Rich Text Editor. Editing area: %0', editableView.name! );
@@ -78,6 +91,17 @@ export default class DecoupledEditorUIView extends EditorUIView {
 				dir: locale.uiLanguageDirection
 			}
 		} );
+
+		// Same as above, the menu bar may be placed anywhere in the page.
+		this.menuBarView.extendTemplate( {
+			attributes: {
+				class: [
+					'ck-reset_all',
+					'ck-rounded-corners'
+				],
+				dir: locale.uiLanguageDirection
+			}
+		} );
 	}
 
 	/**
@@ -86,6 +110,6 @@ export default class DecoupledEditorUIView extends EditorUIView {
 	public override render(): void {
 		super.render();
 
-		this.registerChild( [ this.toolbar, this.editable ] );
+		this.registerChild( [ this.menuBarView, this.toolbar, this.editable ] );
 	}
 }
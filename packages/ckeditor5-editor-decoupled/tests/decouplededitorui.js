@@ -15,6 +15,7 @@ import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
 import { Image, ImageCaption, ImageToolbar } from '@ckeditor/ckeditor5-image';
 
 import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Command from '@ckeditor/ckeditor5-core/src/command';
 import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
 import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
 import { assertBinding } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
@@ -192,6 +193,27 @@ describe( 'DecoupledEditorUI', () => {
 		} );
 	} );
 
+	describe( 'view.menuBarView', () => {
+		it( 'is filled with the config.menuBar and registered in the UI', () => {
+			return VirtualDecoupledTestEditor
+				.create( '', {
+					menuBar: [
+						{ menuId: 'edit', label: 'Edit', items: [ 'fooCommand' ] }
+					],
+					plugins: [ FooCommandPlugin ]
+				} )
+				.then( editor => {
+					const menuBarView = editor.ui.view.menuBarView;
+
+					expect( menuBarView.children.length ).to.equal( 1 );
+					expect( menuBarView.children.first.menuId ).to.equal( 'edit' );
+					expect( editor.ui.focusTracker._elements.has( menuBarView.element ) ).to.be.true;
+
+					return editor.destroy();
+				} );
+		} );
+	} );
+
 	describe( 'destroy()', () => {
 		it( 'detaches the DOM root then destroys the UI view', () => {
 			return VirtualDecoupledTestEditor.create( '' )
@@ -418,6 +440,10 @@ function viewCreator( name ) {
 	};
 }
 
+function FooCommandPlugin( editor ) {
+	editor.commands.add( 'fooCommand', new Command( editor ) );
+}
+
 class VirtualDecoupledTestEditor extends VirtualTestEditor {
 	constructor( sourceElementOrData, config ) {
 		super( config );
@@ -8,6 +8,7 @@
 import DecoupledEditorUIView from '../src/decouplededitoruiview';
 import EditingView from '@ckeditor/ckeditor5-engine/src/view/view';
 import ToolbarView from '@ckeditor/ckeditor5-ui/src/toolbar/toolbarview';
+import MenuBarView from '@ckeditor/ckeditor5-ui/src/menubar/menubarview';
 import InlineEditableUIView from '@ckeditor/ckeditor5-ui/src/editableui/inline/inlineeditableuiview';
 import Locale from '@ckeditor/ckeditor5-utils/src/locale';
 import createRoot from '@ckeditor/ckeditor5-engine/tests/view/_utils/createroot.js';
@@ -69,6 +70,20 @@ describe( 'DecoupledEditorUIView', () => {
 			} );
 		} );
 
+		describe( '#menuBarView', () => {
+			it( 'is created', () => {
+				expect( view.menuBarView ).to.be.instanceof( MenuBarView );
+			} );
+
+			it( 'is given a locale object', () => {
+				expect( view.menuBarView.locale ).to.equal( locale );
+			} );
+
+			it( 'is not rendered', () => {
+				expect( view.menuBarView.isRendered ).to.be.false;
+			} );
+		} );
+
 		describe( '#editable', () => {
 			it( 'is created', () => {
 				expect( view.editable ).to.be.instanceof( InlineEditableUIView );
@@ -131,6 +146,22 @@ describe( 'DecoupledEditorUIView', () => {
 			} );
 		} );
 
+		describe( '#menuBarView', () => {
+			it( 'is rendered but gets no parent', () => {
+				expect( view.menuBarView.isRendered ).to.be.true;
+				expect( view.menuBarView.element.parentElement ).to.be.null;
+			} );
+
+			it( 'gets the CSS classes', () => {
+				expect( view.menuBarView.element.classList.contains( 'ck-reset_all' ) ).to.be.true;
+				expect( view.menuBarView.element.classList.contains( 'ck-rounded-corners' ) ).to.be.true;
+			} );
+
+			it( 'gets the "dir" attribute corresponding to Locale#uiLanguageDirection', () => {
+				expect( view.menuBarView.element.getAttribute( 'dir' ) ).to.equal( 'ltr' );
+			} );
+		} );
+
 		describe( '#editable', () => {
 			it( 'is rendered but gets no parent', () => {
 				expect( view.isRendered ).to.be.true;
@@ -154,6 +185,14 @@ describe( 'DecoupledEditorUIView', () => {
 			sinon.assert.calledOnce( editableSpy );
 		} );
 
+		it( 'destroys #menuBarView', () => {
+			const spy = sinon.spy( view.menuBarView, 'destroy' );
+
+			view.destroy();
+
+			sinon.assert.calledOnce( spy );
+		} );
+
 		it( 'does not touch the toolbar#element and editable#element by default', () => {
 			document.body.appendChild( view.toolbar.element );
 			document.body.appendChild( view.editable.element );
@@ -0,0 +1,32 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	Emoji,
+	EmojiConfig,
+	EmojiPicker,
+	EmojiAutocomplete,
+	EmojiRepository
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the emoji feature. Introduced by the
+		 * {@link module:emoji/emojirepository~EmojiRepository} feature.
+		 *
+		 * Read more in {@link module:emoji/emojiconfig~EmojiConfig}.
+		 */
+		emoji?: EmojiConfig;
+	}
+
+	interface PluginsMap {
+		[ Emoji.pluginName ]: Emoji;
+		[ EmojiPicker.pluginName ]: EmojiPicker;
+		[ EmojiAutocomplete.pluginName ]: EmojiAutocomplete;
+		[ EmojiRepository.pluginName ]: EmojiRepository;
+	}
+}
@@ -0,0 +1,38 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/emoji
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import EmojiPicker from './emojipicker';
+import EmojiAutocomplete from './emojiautocomplete';
+
+/**
+ * The emoji feature.
+ *
+ * It allows inserting the emoji from the {@link module:emoji/emojipicker~EmojiPicker emoji picker} and by typing their
+ * shortcodes, for instance `:smile`, with the {@link module:emoji/emojiautocomplete~EmojiAutocomplete shortcode autocompletion}.
+ * The emoji are bundled with the feature, so no external service is needed.
+ *
+ * This is a "glue" plugin that loads both features.
+ */
+export default class Emoji extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ EmojiPicker, EmojiAutocomplete ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'Emoji' as const;
+	}
+}
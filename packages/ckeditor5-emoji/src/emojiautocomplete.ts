@@ -0,0 +1,278 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/emojiautocomplete
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import type { Range, ViewDocumentKeyDownEvent, ViewRenderEvent } from 'ckeditor5/src/engine';
+import { BalloonPanelView, ContextualBalloon, clickOutsideHandler } from 'ckeditor5/src/ui';
+import { Rect, keyCodes, type PositionOptions } from 'ckeditor5/src/utils';
+import { TextWatcher, Typing, type TextWatcherMatchedEvent } from 'ckeditor5/src/typing';
+
+import EmojiRepository from './emojirepository';
+import EmojiAutocompleteView, { type EmojiAutocompleteExecuteEvent } from './ui/emojiautocompleteview';
+
+/**
+ * The name of the marker spanning the typed shortcode, starting with `:`.
+ */
+const MARKER_NAME = 'emoji:autocomplete';
+
+/**
+ * The pattern matching the typed shortcode, for instance `:smi`, at the beginning of the text or after a whitespace
+ * or an opening bracket, so the times like `10:30` do not open the suggestions. The first group is the search query.
+ */
+const AUTOCOMPLETE_PATTERN = /(?:^|[\s(]):([\w+-]{2,})$/;
+
+/**
+ * The emoji shortcode autocompletion feature.
+ *
+ * Typing `:` followed by at least two characters of the shortcode or the name of an emoji, for instance `:smi`, opens
+ * the list of the matching emoji next to the caret. The list is navigated with the <kbd>Arrow up</kbd> and
+ * <kbd>Arrow down</kbd> keys, the selected emoji replaces the typed text on <kbd>Enter</kbd> or <kbd>Tab</kbd>,
+ * and <kbd>Esc</kbd> closes the list.
+ */
+export default class EmojiAutocomplete extends Plugin {
+	/**
+	 * The list of the suggested emoji.
+	 */
+	private _view: EmojiAutocompleteView | null = null;
+
+	/**
+	 * The contextual balloon plugin instance.
+	 */
+	private _balloon: ContextualBalloon | null = null;
+
+	/**
+	 * Whether the list of suggestions should be shown (or repositioned) once the editing view is rendered.
+	 */
+	private _isUIPending = false;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'EmojiAutocomplete' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ EmojiRepository, ContextualBalloon, Typing ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const repository = editor.plugins.get( EmojiRepository );
+		const handledKeyCodes = [ keyCodes.arrowup, keyCodes.arrowdown, keyCodes.enter, keyCodes.tab, keyCodes.esc ];
+
+		this._balloon = editor.plugins.get( ContextualBalloon );
+		this._view = new EmojiAutocompleteView( editor.locale );
+
+		this._view.on<EmojiAutocompleteExecuteEvent>( 'execute', ( evt, { definition } ) => {
+			const range = this._getTypedTextRange();
+
+			this._hideUIAndRemoveMarker();
+
+			if ( range ) {
+				editor.execute( 'insertText', { text: repository.getEmojiText( definition ), range } );
+				repository.addRecentlyUsed( definition );
+			}
+
+			editor.editing.view.focus();
+		} );
+
+		// Key listener that handles navigation in the list of suggestions.
+		this.listenTo<ViewDocumentKeyDownEvent>( editor.editing.view.document, 'keydown', ( evt, data ) => {
+			if ( !handledKeyCodes.includes( data.keyCode ) || !this._isUIVisible ) {
+				return;
+			}
+
+			data.preventDefault();
+			evt.stop(); // Required for Enter key overriding.
+
+			if ( data.keyCode == keyCodes.arrowdown ) {
+				this._view!.selectNext();
+			} else if ( data.keyCode == keyCodes.arrowup ) {
+				this._view!.selectPrevious();
+			} else if ( data.keyCode == keyCodes.esc ) {
+				this._hideUIAndRemoveMarker();
+			} else {
+				this._view!.executeSelected();
+			}
+		}, { priority: 'highest' } ); // Required to override the Enter key.
+
+		// Close the list upon clicking outside of it.
+		clickOutsideHandler( {
+			emitter: this._view,
+			activator: () => this._isUIVisible,
+			contextElements: () => [ this._balloon!.view.element! ],
+			callback: () => this._hideUIAndRemoveMarker()
+		} );
+
+		this.listenTo( editor, 'change:isReadOnly', () => {
+			this._hideUIAndRemoveMarker();
+		} );
+
+		this._setupTextWatcher();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		// Destroy created UI components as they are not automatically destroyed (see ckeditor5#1341).
+		if ( this._view ) {
+			this._view.destroy();
+		}
+	}
+
+	/**
+	 * Whether the list of suggestions is displayed.
+	 */
+	private get _isUIVisible(): boolean {
+		return this._balloon!.visibleView === this._view;
+	}
+
+	/**
+	 * Creates the text watcher that shows the list of suggestions when a shortcode is typed and hides it when the typed text
+	 * does not match anymore.
+	 */
+	private _setupTextWatcher(): void {
+		const editor = this.editor;
+		const watcher = new TextWatcher( editor.model, text => {
+			const match = text.match( AUTOCOMPLETE_PATTERN );
+
+			return match && { query: match[ 1 ] };
+		} );
+
+		watcher.on<TextWatcherMatchedEvent<{ query: string }>>( 'matched', ( evt, { query } ) => {
+			this._updateSuggestions( query );
+		} );
+
+		watcher.on( 'unmatched', () => {
+			this._hideUIAndRemoveMarker();
+		} );
+
+		// The balloon is attached to the typed text so it can be positioned only when the text is rendered.
+		this.listenTo<ViewRenderEvent>( editor.editing.view, 'render', () => {
+			if ( this._isUIPending ) {
+				this._isUIPending = false;
+				this._showOrUpdateUI();
+			}
+		}, { priority: 'low' } );
+
+		watcher.bind( 'isEnabled' ).to( editor.commands.get( 'insertText' )! );
+	}
+
+	/**
+	 * Marks the typed shortcode and lists the emoji matching the query. The list is hidden if no emoji matches.
+	 */
+	private _updateSuggestions( query: string ): void {
+		const editor = this.editor;
+		const model = editor.model;
+		const repository = editor.plugins.get( EmojiRepository );
+		const focus = model.document.selection.focus!;
+		const range = model.createRange( focus.getShiftedBy( -( query.length + 1 ) ), focus );
+		const definitions = repository.find( query, editor.config.get( 'emoji.suggestionsLimit' ) );
+
+		if ( !definitions.length ) {
+			this._hideUIAndRemoveMarker();
+
+			return;
+		}
+
+		model.change( writer => {
+			const marker = model.markers.get( MARKER_NAME );
+
+			if ( marker ) {
+				writer.updateMarker( marker, { range } );
+			} else {
+				writer.addMarker( MARKER_NAME, { range, usingOperation: false, affectsData: false } );
+			}
+		} );
+
+		this._view!.setDefinitions( definitions, definition => repository.getEmojiText( definition ) );
+		this._isUIPending = true;
+	}
+
+	/**
+	 * Returns the range from the beginning of the typed shortcode to the selection.
+	 */
+	private _getTypedTextRange(): Range | null {
+		const model = this.editor.model;
+		const marker = model.markers.get( MARKER_NAME );
+
+		if ( !marker ) {
+			return null;
+		}
+
+		return model.createRange( marker.getStart(), model.document.selection.focus! );
+	}
+
+	/**
+	 * Shows the list of suggestions. If it is already visible, it is repositioned.
+	 */
+	private _showOrUpdateUI(): void {
+		if ( this._isUIVisible ) {
+			this._balloon!.updatePosition( this._getBalloonPositionData() );
+		} else {
+			this._balloon!.add( {
+				view: this._view!,
+				position: this._getBalloonPositionData(),
+				singleViewMode: true
+			} );
+		}
+	}
+
+	/**
+	 * Hides the list of suggestions and removes the marker of the typed shortcode.
+	 */
+	private _hideUIAndRemoveMarker(): void {
+		this._isUIPending = false;
+
+		// Remove the view from the balloon before removing the marker - it is used by the balloon position target().
+		if ( this._balloon!.hasView( this._view! ) ) {
+			this._balloon!.remove( this._view! );
+		}
+
+		if ( this.editor.model.markers.has( MARKER_NAME ) ) {
+			this.editor.model.change( writer => writer.removeMarker( MARKER_NAME ) );
+		}
+	}
+
+	/**
+	 * Returns the position of the balloon below (or above) the typed shortcode.
+	 */
+	private _getBalloonPositionData(): Partial<PositionOptions> {
+		const editor = this.editor;
+		const model = editor.model;
+		const editing = editor.editing;
+		const defaultPositions = BalloonPanelView.defaultPositions;
+
+		return {
+			target: () => {
+				const marker = model.markers.get( MARKER_NAME );
+				const modelRange = marker ? marker.getRange() : model.document.selection.getFirstRange()!;
+				const viewRange = editing.mapper.toViewRange( modelRange );
+
+				return Rect.getDomRangeRects( editing.view.domConverter.viewRangeToDom( viewRange ) ).pop()!;
+			},
+			positions: [
+				defaultPositions.southArrowNorthWest,
+				defaultPositions.southArrowNorthEast,
+				defaultPositions.northArrowSouthWest,
+				defaultPositions.northArrowSouthEast
+			]
+		};
+	}
+}
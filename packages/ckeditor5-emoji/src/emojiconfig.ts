@@ -0,0 +1,55 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/emojiconfig
+ */
+
+/**
+ * The configuration of the {@link module:emoji/emoji~Emoji emoji feature}.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		emoji: {
+ * 			skinTone: 'medium',
+ * 			recentlyUsedLimit: 8,
+ * 			suggestionsLimit: 5
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor configuration options}.
+ */
+export interface EmojiConfig {
+
+	/**
+	 * The initial skin tone of the emoji supporting the skin tones. The user can change it in the emoji picker.
+	 *
+	 * @default 'default'
+	 */
+	skinTone?: EmojiSkinTone;
+
+	/**
+	 * The maximal number of the emoji in the "Recently used" category of the emoji picker.
+	 *
+	 * @default 18
+	 */
+	recentlyUsedLimit?: number;
+
+	/**
+	 * The maximal number of the emoji suggested while typing a shortcode, for instance `:smi`.
+	 *
+	 * @default 8
+	 */
+	suggestionsLimit?: number;
+}
+
+/**
+ * The skin tone applied to the emoji supporting the skin tone modifiers.
+ */
+export type EmojiSkinTone = 'default' | 'light' | 'medium-light' | 'medium' | 'medium-dark' | 'dark';
@@ -0,0 +1,491 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/emojidata
+ */
+
+/**
+ * The emoji bundled with the feature, divided into categories. The names follow the Unicode CLDR short names
+ * and the shortcodes follow the ones commonly used by the chat and code hosting applications.
+ *
+ * The labels of the categories are translated by the {@link module:emoji/emojirepository~EmojiRepository} plugin.
+ */
+const EMOJI_CATEGORIES: Array<EmojiCategoryDefinition> = [
+	{
+		id: 'smileys',
+		icon: '😀',
+		emojis: [
+			{ emoji: '😀', name: 'grinning face', shortcodes: [ 'grinning' ] },
+			{ emoji: '😃', name: 'grinning face with big eyes', shortcodes: [ 'smiley' ] },
+			{ emoji: '😄', name: 'grinning face with smiling eyes', shortcodes: [ 'smile' ] },
+			{ emoji: '😁', name: 'beaming face with smiling eyes', shortcodes: [ 'grin' ] },
+			{ emoji: '😆', name: 'grinning squinting face', shortcodes: [ 'laughing', 'satisfied' ] },
+			{ emoji: '😅', name: 'grinning face with sweat', shortcodes: [ 'sweat_smile' ] },
+			{ emoji: '🤣', name: 'rolling on the floor laughing', shortcodes: [ 'rofl' ] },
+			{ emoji: '😂', name: 'face with tears of joy', shortcodes: [ 'joy' ] },
+			{ emoji: '🙂', name: 'slightly smiling face', shortcodes: [ 'slightly_smiling_face' ] },
+			{ emoji: '🙃', name: 'upside-down face', shortcodes: [ 'upside_down_face' ] },
+			{ emoji: '😉', name: 'winking face', shortcodes: [ 'wink' ] },
+			{ emoji: '😊', name: 'smiling face with smiling eyes', shortcodes: [ 'blush' ] },
+			{ emoji: '😇', name: 'smiling face with halo', shortcodes: [ 'innocent' ] },
+			{ emoji: '🥰', name: 'smiling face with hearts', shortcodes: [ 'smiling_face_with_three_hearts' ] },
+			{ emoji: '😍', name: 'smiling face with heart-eyes', shortcodes: [ 'heart_eyes' ] },
+			{ emoji: '🤩', name: 'star-struck', shortcodes: [ 'star_struck' ] },
+			{ emoji: '😘', name: 'face blowing a kiss', shortcodes: [ 'kissing_heart' ] },
+			{ emoji: '😋', name: 'face savoring food', shortcodes: [ 'yum' ] },
+			{ emoji: '😛', name: 'face with tongue', shortcodes: [ 'stuck_out_tongue' ] },
+			{ emoji: '😜', name: 'winking face with tongue', shortcodes: [ 'stuck_out_tongue_winking_eye' ] },
+			{ emoji: '🤪', name: 'zany face', shortcodes: [ 'zany_face' ] },
+			{ emoji: '🤔', name: 'thinking face', shortcodes: [ 'thinking' ] },
+			{ emoji: '🤐', name: 'zipper-mouth face', shortcodes: [ 'zipper_mouth_face' ] },
+			{ emoji: '🤨', name: 'face with raised eyebrow', shortcodes: [ 'raised_eyebrow' ] },
+			{ emoji: '😐', name: 'neutral face', shortcodes: [ 'neutral_face' ] },
+			{ emoji: '😑', name: 'expressionless face', shortcodes: [ 'expressionless' ] },
+			{ emoji: '😶', name: 'face without mouth', shortcodes: [ 'no_mouth' ] },
+			{ emoji: '😏', name: 'smirking face', shortcodes: [ 'smirk' ] },
+			{ emoji: '😒', name: 'unamused face', shortcodes: [ 'unamused' ] },
+			{ emoji: '🙄', name: 'face with rolling eyes', shortcodes: [ 'roll_eyes' ] },
+			{ emoji: '😬', name: 'grimacing face', shortcodes: [ 'grimacing' ] },
+			{ emoji: '😌', name: 'relieved face', shortcodes: [ 'relieved' ] },
+			{ emoji: '😔', name: 'pensive face', shortcodes: [ 'pensive' ] },
+			{ emoji: '😪', name: 'sleepy face', shortcodes: [ 'sleepy' ] },
+			{ emoji: '😴', name: 'sleeping face', shortcodes: [ 'sleeping' ] },
+			{ emoji: '😷', name: 'face with medical mask', shortcodes: [ 'mask' ] },
+			{ emoji: '🤒', name: 'face with thermometer', shortcodes: [ 'face_with_thermometer' ] },
+			{ emoji: '🤢', name: 'nauseated face', shortcodes: [ 'nauseated_face' ] },
+			{ emoji: '🥵', name: 'hot face', shortcodes: [ 'hot_face' ] },
+			{ emoji: '🥶', name: 'cold face', shortcodes: [ 'cold_face' ] },
+			{ emoji: '😵', name: 'face with crossed-out eyes', shortcodes: [ 'dizzy_face' ] },
+			{ emoji: '🤯', name: 'exploding head', shortcodes: [ 'exploding_head' ] },
+			{ emoji: '🥳', name: 'partying face', shortcodes: [ 'partying_face' ] },
+			{ emoji: '😎', name: 'smiling face with sunglasses', shortcodes: [ 'sunglasses' ] },
+			{ emoji: '🤓', name: 'nerd face', shortcodes: [ 'nerd_face' ] },
+			{ emoji: '😕', name: 'confused face', shortcodes: [ 'confused' ] },
+			{ emoji: '😟', name: 'worried face', shortcodes: [ 'worried' ] },
+			{ emoji: '😮', name: 'face with open mouth', shortcodes: [ 'open_mouth' ] },
+			{ emoji: '😲', name: 'astonished face', shortcodes: [ 'astonished' ] },
+			{ emoji: '😳', name: 'flushed face', shortcodes: [ 'flushed' ] },
+			{ emoji: '🥺', name: 'pleading face', shortcodes: [ 'pleading_face' ] },
+			{ emoji: '😢', name: 'crying face', shortcodes: [ 'cry' ] },
+			{ emoji: '😭', name: 'loudly crying face', shortcodes: [ 'sob' ] },
+			{ emoji: '😱', name: 'face screaming in fear', shortcodes: [ 'scream' ] },
+			{ emoji: '😖', name: 'confounded face', shortcodes: [ 'confounded' ] },
+			{ emoji: '😩', name: 'weary face', shortcodes: [ 'weary' ] },
+			{ emoji: '😤', name: 'face with steam from nose', shortcodes: [ 'triumph' ] },
+			{ emoji: '😡', name: 'enraged face', shortcodes: [ 'rage' ] },
+			{ emoji: '😠', name: 'angry face', shortcodes: [ 'angry' ] },
+			{ emoji: '🤬', name: 'face with symbols on mouth', shortcodes: [ 'cursing_face' ] },
+			{ emoji: '😈', name: 'smiling face with horns', shortcodes: [ 'smiling_imp' ] },
+			{ emoji: '💀', name: 'skull', shortcodes: [ 'skull' ] },
+			{ emoji: '💩', name: 'pile of poo', shortcodes: [ 'poop', 'hankey' ] },
+			{ emoji: '🤡', name: 'clown face', shortcodes: [ 'clown_face' ] },
+			{ emoji: '👻', name: 'ghost', shortcodes: [ 'ghost' ] },
+			{ emoji: '👽', name: 'alien', shortcodes: [ 'alien' ] },
+			{ emoji: '🤖', name: 'robot', shortcodes: [ 'robot' ] },
+			{ emoji: '😺', name: 'grinning cat', shortcodes: [ 'smiley_cat' ] },
+			{ emoji: '😻', name: 'smiling cat with heart-eyes', shortcodes: [ 'heart_eyes_cat' ] },
+			{ emoji: '🙈', name: 'see-no-evil monkey', shortcodes: [ 'see_no_evil' ] },
+			{ emoji: '🙉', name: 'hear-no-evil monkey', shortcodes: [ 'hear_no_evil' ] },
+			{ emoji: '🙊', name: 'speak-no-evil monkey', shortcodes: [ 'speak_no_evil' ] }
+		]
+	},
+	{
+		id: 'people',
+		icon: '👋',
+		emojis: [
+			{ emoji: '👋', name: 'waving hand', shortcodes: [ 'wave' ], skinTones: true },
+			{ emoji: '🤚', name: 'raised back of hand', shortcodes: [ 'raised_back_of_hand' ], skinTones: true },
+			{ emoji: '✋', name: 'raised hand', shortcodes: [ 'raised_hand' ], skinTones: true },
+			{ emoji: '🖖', name: 'vulcan salute', shortcodes: [ 'vulcan_salute' ], skinTones: true },
+			{ emoji: '👌', name: 'OK hand', shortcodes: [ 'ok_hand' ], skinTones: true },
+			{ emoji: '🤌', name: 'pinched fingers', shortcodes: [ 'pinched_fingers' ], skinTones: true },
+			{ emoji: '✌️', name: 'victory hand', shortcodes: [ 'v' ], skinTones: true },
+			{ emoji: '🤞', name: 'crossed fingers', shortcodes: [ 'crossed_fingers' ], skinTones: true },
+			{ emoji: '🤟', name: 'love-you gesture', shortcodes: [ 'love_you_gesture' ], skinTones: true },
+			{ emoji: '🤘', name: 'sign of the horns', shortcodes: [ 'metal' ], skinTones: true },
+			{ emoji: '🤙', name: 'call me hand', shortcodes: [ 'call_me_hand' ], skinTones: true },
+			{ emoji: '👈', name: 'backhand index pointing left', shortcodes: [ 'point_left' ], skinTones: true },
+			{ emoji: '👉', name: 'backhand index pointing right', shortcodes: [ 'point_right' ], skinTones: true },
+			{ emoji: '👆', name: 'backhand index pointing up', shortcodes: [ 'point_up_2' ], skinTones: true },
+			{ emoji: '👇', name: 'backhand index pointing down', shortcodes: [ 'point_down' ], skinTones: true },
+			{ emoji: '👍', name: 'thumbs up', shortcodes: [ '+1', 'thumbsup' ], skinTones: true },
+			{ emoji: '👎', name: 'thumbs down', shortcodes: [ '-1', 'thumbsdown' ], skinTones: true },
+			{ emoji: '✊', name: 'raised fist', shortcodes: [ 'fist' ], skinTones: true },
+			{ emoji: '👊', name: 'oncoming fist', shortcodes: [ 'punch', 'fist_oncoming' ], skinTones: true },
+			{ emoji: '👏', name: 'clapping hands', shortcodes: [ 'clap' ], skinTones: true },
+			{ emoji: '🙌', name: 'raising hands', shortcodes: [ 'raised_hands' ], skinTones: true },
+			{ emoji: '👐', name: 'open hands', shortcodes: [ 'open_hands' ], skinTones: true },
+			{ emoji: '🤝', name: 'handshake', shortcodes: [ 'handshake' ] },
+			{ emoji: '🙏', name: 'folded hands', shortcodes: [ 'pray' ], skinTones: true },
+			{ emoji: '✍️', name: 'writing hand', shortcodes: [ 'writing_hand' ], skinTones: true },
+			{ emoji: '💪', name: 'flexed biceps', shortcodes: [ 'muscle' ], skinTones: true },
+			{ emoji: '👀', name: 'eyes', shortcodes: [ 'eyes' ] },
+			{ emoji: '🧠', name: 'brain', shortcodes: [ 'brain' ] },
+			{ emoji: '👶', name: 'baby', shortcodes: [ 'baby' ], skinTones: true },
+			{ emoji: '🧒', name: 'child', shortcodes: [ 'child' ], skinTones: true },
+			{ emoji: '👦', name: 'boy', shortcodes: [ 'boy' ], skinTones: true },
+			{ emoji: '👧', name: 'girl', shortcodes: [ 'girl' ], skinTones: true },
+			{ emoji: '🧑', name: 'person', shortcodes: [ 'adult' ], skinTones: true },
+			{ emoji: '👨', name: 'man', shortcodes: [ 'man' ], skinTones: true },
+			{ emoji: '👩', name: 'woman', shortcodes: [ 'woman' ], skinTones: true },
+			{ emoji: '🧓', name: 'older person', shortcodes: [ 'older_adult' ], skinTones: true },
+			{ emoji: '🧑‍💻', name: 'technologist', shortcodes: [ 'technologist' ], skinTones: true },
+			{ emoji: '🧑‍🏫', name: 'teacher', shortcodes: [ 'teacher' ], skinTones: true },
+			{ emoji: '🧑‍⚕️', name: 'health worker', shortcodes: [ 'health_worker' ], skinTones: true },
+			{ emoji: '🧑‍🍳', name: 'cook', shortcodes: [ 'cook' ], skinTones: true },
+			{ emoji: '🤷', name: 'person shrugging', shortcodes: [ 'shrug' ], skinTones: true },
+			{ emoji: '🤦', name: 'person facepalming', shortcodes: [ 'facepalm' ], skinTones: true },
+			{ emoji: '🙋', name: 'person raising hand', shortcodes: [ 'raising_hand' ], skinTones: true },
+			{ emoji: '🏃', name: 'person running', shortcodes: [ 'runner' ], skinTones: true },
+			{ emoji: '💃', name: 'woman dancing', shortcodes: [ 'dancer' ], skinTones: true }
+		]
+	},
+	{
+		id: 'nature',
+		icon: '🐻',
+		emojis: [
+			{ emoji: '🐶', name: 'dog face', shortcodes: [ 'dog' ] },
+			{ emoji: '🐱', name: 'cat face', shortcodes: [ 'cat' ] },
+			{ emoji: '🐭', name: 'mouse face', shortcodes: [ 'mouse' ] },
+			{ emoji: '🐹', name: 'hamster', shortcodes: [ 'hamster' ] },
+			{ emoji: '🐰', name: 'rabbit face', shortcodes: [ 'rabbit' ] },
+			{ emoji: '🦊', name: 'fox', shortcodes: [ 'fox_face' ] },
+			{ emoji: '🐻', name: 'bear', shortcodes: [ 'bear' ] },
+			{ emoji: '🐼', name: 'panda', shortcodes: [ 'panda_face' ] },
+			{ emoji: '🐨', name: 'koala', shortcodes: [ 'koala' ] },
+			{ emoji: '🐯', name: 'tiger face', shortcodes: [ 'tiger' ] },
+			{ emoji: '🦁', name: 'lion', shortcodes: [ 'lion' ] },
+			{ emoji: '🐮', name: 'cow face', shortcodes: [ 'cow' ] },
+			{ emoji: '🐷', name: 'pig face', shortcodes: [ 'pig' ] },
+			{ emoji: '🐸', name: 'frog', shortcodes: [ 'frog' ] },
+			{ emoji: '🐵', name: 'monkey face', shortcodes: [ 'monkey_face' ] },
+			{ emoji: '🐔', name: 'chicken', shortcodes: [ 'chicken' ] },
+			{ emoji: '🐧', name: 'penguin', shortcodes: [ 'penguin' ] },
+			{ emoji: '🐦', name: 'bird', shortcodes: [ 'bird' ] },
+			{ emoji: '🦆', name: 'duck', shortcodes: [ 'duck' ] },
+			{ emoji: '🦉', name: 'owl', shortcodes: [ 'owl' ] },
+			{ emoji: '🐝', name: 'honeybee', shortcodes: [ 'bee' ] },
+			{ emoji: '🦋', name: 'butterfly', shortcodes: [ 'butterfly' ] },
+			{ emoji: '🐢', name: 'turtle', shortcodes: [ 'turtle' ] },
+			{ emoji: '🐍', name: 'snake', shortcodes: [ 'snake' ] },
+			{ emoji: '🐙', name: 'octopus', shortcodes: [ 'octopus' ] },
+			{ emoji: '🐬', name: 'dolphin', shortcodes: [ 'dolphin' ] },
+			{ emoji: '🐳', name: 'spouting whale', shortcodes: [ 'whale' ] },
+			{ emoji: '🦈', name: 'shark', shortcodes: [ 'shark' ] },
+			{ emoji: '🌵', name: 'cactus', shortcodes: [ 'cactus' ] },
+			{ emoji: '🌲', name: 'evergreen tree', shortcodes: [ 'evergreen_tree' ] },
+			{ emoji: '🌳', name: 'deciduous tree', shortcodes: [ 'deciduous_tree' ] },
+			{ emoji: '🌴', name: 'palm tree', shortcodes: [ 'palm_tree' ] },
+			{ emoji: '🌱', name: 'seedling', shortcodes: [ 'seedling' ] },
+			{ emoji: '🍀', name: 'four leaf clover', shortcodes: [ 'four_leaf_clover' ] },
+			{ emoji: '🍁', name: 'maple leaf', shortcodes: [ 'maple_leaf' ] },
+			{ emoji: '🌷', name: 'tulip', shortcodes: [ 'tulip' ] },
+			{ emoji: '🌹', name: 'rose', shortcodes: [ 'rose' ] },
+			{ emoji: '🌻', name: 'sunflower', shortcodes: [ 'sunflower' ] },
+			{ emoji: '🌸', name: 'cherry blossom', shortcodes: [ 'cherry_blossom' ] },
+			{ emoji: '🌞', name: 'sun with face', shortcodes: [ 'sun_with_face' ] },
+			{ emoji: '🌙', name: 'crescent moon', shortcodes: [ 'crescent_moon' ] },
+			{ emoji: '⭐', name: 'star', shortcodes: [ 'star' ] },
+			{ emoji: '🌈', name: 'rainbow', shortcodes: [ 'rainbow' ] },
+			{ emoji: '⚡', name: 'high voltage', shortcodes: [ 'zap' ] },
+			{ emoji: '❄️', name: 'snowflake', shortcodes: [ 'snowflake' ] },
+			{ emoji: '🔥', name: 'fire', shortcodes: [ 'fire' ] },
+			{ emoji: '💧', name: 'droplet', shortcodes: [ 'droplet' ] },
+			{ emoji: '🌊', name: 'water wave', shortcodes: [ 'ocean' ] }
+		]
+	},
+	{
+		id: 'food',
+		icon: '🍔',
+		emojis: [
+			{ emoji: '🍏', name: 'green apple', shortcodes: [ 'green_apple' ] },
+			{ emoji: '🍎', name: 'red apple', shortcodes: [ 'apple' ] },
+			{ emoji: '🍐', name: 'pear', shortcodes: [ 'pear' ] },
+			{ emoji: '🍊', name: 'tangerine', shortcodes: [ 'tangerine' ] },
+			{ emoji: '🍋', name: 'lemon', shortcodes: [ 'lemon' ] },
+			{ emoji: '🍌', name: 'banana', shortcodes: [ 'banana' ] },
+			{ emoji: '🍉', name: 'watermelon', shortcodes: [ 'watermelon' ] },
+			{ emoji: '🍇', name: 'grapes', shortcodes: [ 'grapes' ] },
+			{ emoji: '🍓', name: 'strawberry', shortcodes: [ 'strawberry' ] },
+			{ emoji: '🍒', name: 'cherries', shortcodes: [ 'cherries' ] },
+			{ emoji: '🍑', name: 'peach', shortcodes: [ 'peach' ] },
+			{ emoji: '🥑', name: 'avocado', shortcodes: [ 'avocado' ] },
+			{ emoji: '🥕', name: 'carrot', shortcodes: [ 'carrot' ] },
+			{ emoji: '🌽', name: 'ear of corn', shortcodes: [ 'corn' ] },
+			{ emoji: '🥦', name: 'broccoli', shortcodes: [ 'broccoli' ] },
+			{ emoji: '🍞', name: 'bread', shortcodes: [ 'bread' ] },
+			{ emoji: '🧀', name: 'cheese wedge', shortcodes: [ 'cheese' ] },
+			{ emoji: '🥚', name: 'egg', shortcodes: [ 'egg' ] },
+			{ emoji: '🥓', name: 'bacon', shortcodes: [ 'bacon' ] },
+			{ emoji: '🍔', name: 'hamburger', shortcodes: [ 'hamburger' ] },
+			{ emoji: '🍟', name: 'french fries', shortcodes: [ 'fries' ] },
+			{ emoji: '🍕', name: 'pizza', shortcodes: [ 'pizza' ] },
+			{ emoji: '🌭', name: 'hot dog', shortcodes: [ 'hotdog' ] },
+			{ emoji: '🌮', name: 'taco', shortcodes: [ 'taco' ] },
+			{ emoji: '🍝', name: 'spaghetti', shortcodes: [ 'spaghetti' ] },
+			{ emoji: '🍣', name: 'sushi', shortcodes: [ 'sushi' ] },
+			{ emoji: '🍜', name: 'steaming bowl', shortcodes: [ 'ramen' ] },
+			{ emoji: '🍦', name: 'soft ice cream', shortcodes: [ 'icecream' ] },
+			{ emoji: '🍩', name: 'doughnut', shortcodes: [ 'doughnut' ] },
+			{ emoji: '🍪', name: 'cookie', shortcodes: [ 'cookie' ] },
+			{ emoji: '🎂', name: 'birthday cake', shortcodes: [ 'birthday' ] },
+			{ emoji: '🍰', name: 'shortcake', shortcodes: [ 'cake' ] },
+			{ emoji: '🍫', name: 'chocolate bar', shortcodes: [ 'chocolate_bar' ] },
+			{ emoji: '🍿', name: 'popcorn', shortcodes: [ 'popcorn' ] },
+			{ emoji: '☕', name: 'hot beverage', shortcodes: [ 'coffee' ] },
+			{ emoji: '🍵', name: 'teacup without handle', shortcodes: [ 'tea' ] },
+			{ emoji: '🍺', name: 'beer mug', shortcodes: [ 'beer' ] },
+			{ emoji: '🍻', name: 'clinking beer mugs', shortcodes: [ 'beers' ] },
+			{ emoji: '🍷', name: 'wine glass', shortcodes: [ 'wine_glass' ] },
+			{ emoji: '🥂', name: 'clinking glasses', shortcodes: [ 'champagne_glass' ] }
+		]
+	},
+	{
+		id: 'travel',
+		icon: '✈️',
+		emojis: [
+			{ emoji: '🚗', name: 'automobile', shortcodes: [ 'car' ] },
+			{ emoji: '🚕', name: 'taxi', shortcodes: [ 'taxi' ] },
+			{ emoji: '🚌', name: 'bus', shortcodes: [ 'bus' ] },
+			{ emoji: '🚑', name: 'ambulance', shortcodes: [ 'ambulance' ] },
+			{ emoji: '🚒', name: 'fire engine', shortcodes: [ 'fire_engine' ] },
+			{ emoji: '🚓', name: 'police car', shortcodes: [ 'police_car' ] },
+			{ emoji: '🚚', name: 'delivery truck', shortcodes: [ 'truck' ] },
+			{ emoji: '🚲', name: 'bicycle', shortcodes: [ 'bike' ] },
+			{ emoji: '🛵', name: 'motor scooter', shortcodes: [ 'motor_scooter' ] },
+			{ emoji: '🚂', name: 'locomotive', shortcodes: [ 'steam_locomotive' ] },
+			{ emoji: '🚆', name: 'train', shortcodes: [ 'train2' ] },
+			{ emoji: '✈️', name: 'airplane', shortcodes: [ 'airplane' ] },
+			{ emoji: '🚀', name: 'rocket', shortcodes: [ 'rocket' ] },
+			{ emoji: '🚁', name: 'helicopter', shortcodes: [ 'helicopter' ] },
+			{ emoji: '⛵', name: 'sailboat', shortcodes: [ 'boat', 'sailboat' ] },
+			{ emoji: '🚢', name: 'ship', shortcodes: [ 'ship' ] },
+			{ emoji: '⚓', name: 'anchor', shortcodes: [ 'anchor' ] },
+			{ emoji: '🚦', name: 'vertical traffic light', shortcodes: [ 'vertical_traffic_light' ] },
+			{ emoji: '🗺️', name: 'world map', shortcodes: [ 'world_map' ] },
+			{ emoji: '🧭', name: 'compass', shortcodes: [ 'compass' ] },
+			{ emoji: '🏔️', name: 'snow-capped mountain', shortcodes: [ 'mountain_snow' ] },
+			{ emoji: '🏖️', name: 'beach with umbrella', shortcodes: [ 'beach_umbrella' ] },
+			{ emoji: '🏝️', name: 'desert island', shortcodes: [ 'desert_island' ] },
+			{ emoji: '🏠', name: 'house', shortcodes: [ 'house' ] },
+			{ emoji: '🏢', name: 'office building', shortcodes: [ 'office' ] },
+			{ emoji: '🏥', name: 'hospital', shortcodes: [ 'hospital' ] },
+			{ emoji: '🏫', name: 'school', shortcodes: [ 'school' ] },
+			{ emoji: '🏰', name: 'castle', shortcodes: [ 'european_castle' ] },
+			{ emoji: '🗽', name: 'Statue of Liberty', shortcodes: [ 'statue_of_liberty' ] },
+			{ emoji: '🌍', name: 'globe showing Europe-Africa', shortcodes: [ 'earth_africa' ] },
+			{ emoji: '🌎', name: 'globe showing Americas', shortcodes: [ 'earth_americas' ] },
+			{ emoji: '🌏', name: 'globe showing Asia-Australia', shortcodes: [ 'earth_asia' ] }
+		]
+	},
+	{
+		id: 'activities',
+		icon: '⚽',
+		emojis: [
+			{ emoji: '⚽', name: 'soccer ball', shortcodes: [ 'soccer' ] },
+			{ emoji: '🏀', name: 'basketball', shortcodes: [ 'basketball' ] },
+			{ emoji: '🏈', name: 'american football', shortcodes: [ 'football' ] },
+			{ emoji: '⚾', name: 'baseball', shortcodes: [ 'baseball' ] },
+			{ emoji: '🎾', name: 'tennis', shortcodes: [ 'tennis' ] },
+			{ emoji: '🏐', name: 'volleyball', shortcodes: [ 'volleyball' ] },
+			{ emoji: '🏓', name: 'ping pong', shortcodes: [ 'ping_pong' ] },
+			{ emoji: '⛳', name: 'flag in hole', shortcodes: [ 'golf' ] },
+			{ emoji: '🎣', name: 'fishing pole', shortcodes: [ 'fishing_pole_and_fish' ] },
+			{ emoji: '🎿', name: 'skis', shortcodes: [ 'ski' ] },
+			{ emoji: '🏆', name: 'trophy', shortcodes: [ 'trophy' ] },
+			{ emoji: '🥇', name: '1st place medal', shortcodes: [ '1st_place_medal' ] },
+			{ emoji: '🥈', name: '2nd place medal', shortcodes: [ '2nd_place_medal' ] },
+			{ emoji: '🥉', name: '3rd place medal', shortcodes: [ '3rd_place_medal' ] },
+			{ emoji: '🎯', name: 'bullseye', shortcodes: [ 'dart' ] },
+			{ emoji: '🎮', name: 'video game', shortcodes: [ 'video_game' ] },
+			{ emoji: '🎲', name: 'game die', shortcodes: [ 'game_die' ] },
+			{ emoji: '🧩', name: 'puzzle piece', shortcodes: [ 'jigsaw' ] },
+			{ emoji: '♟️', name: 'chess pawn', shortcodes: [ 'chess_pawn' ] },
+			{ emoji: '🎨', name: 'artist palette', shortcodes: [ 'art' ] },
+			{ emoji: '🎭', name: 'performing arts', shortcodes: [ 'performing_arts' ] },
+			{ emoji: '🎬', name: 'clapper board', shortcodes: [ 'clapper' ] },
+			{ emoji: '🎤', name: 'microphone', shortcodes: [ 'microphone' ] },
+			{ emoji: '🎧', name: 'headphone', shortcodes: [ 'headphones' ] },
+			{ emoji: '🎸', name: 'guitar', shortcodes: [ 'guitar' ] },
+			{ emoji: '🎹', name: 'musical keyboard', shortcodes: [ 'musical_keyboard' ] },
+			{ emoji: '🎉', name: 'party popper', shortcodes: [ 'tada' ] },
+			{ emoji: '🎈', name: 'balloon', shortcodes: [ 'balloon' ] },
+			{ emoji: '🎁', name: 'wrapped gift', shortcodes: [ 'gift' ] },
+			{ emoji: '🎄', name: 'Christmas tree', shortcodes: [ 'christmas_tree' ] },
+			{ emoji: '🎃', name: 'jack-o-lantern', shortcodes: [ 'jack_o_lantern' ] },
+			{ emoji: '🎆', name: 'fireworks', shortcodes: [ 'fireworks' ] }
+		]
+	},
+	{
+		id: 'objects',
+		icon: '💡',
+		emojis: [
+			{ emoji: '⌚', name: 'watch', shortcodes: [ 'watch' ] },
+			{ emoji: '📱', name: 'mobile phone', shortcodes: [ 'iphone' ] },
+			{ emoji: '💻', name: 'laptop', shortcodes: [ 'computer' ] },
+			{ emoji: '⌨️', name: 'keyboard', shortcodes: [ 'keyboard' ] },
+			{ emoji: '🖥️', name: 'desktop computer', shortcodes: [ 'desktop_computer' ] },
+			{ emoji: '🖨️', name: 'printer', shortcodes: [ 'printer' ] },
+			{ emoji: '🖱️', name: 'computer mouse', shortcodes: [ 'computer_mouse' ] },
+			{ emoji: '💾', name: 'floppy disk', shortcodes: [ 'floppy_disk' ] },
+			{ emoji: '📷', name: 'camera', shortcodes: [ 'camera' ] },
+			{ emoji: '📞', name: 'telephone receiver', shortcodes: [ 'telephone_receiver' ] },
+			{ emoji: '📺', name: 'television', shortcodes: [ 'tv' ] },
+			{ emoji: '⏰', name: 'alarm clock', shortcodes: [ 'alarm_clock' ] },
+			{ emoji: '⏳', name: 'hourglass not done', shortcodes: [ 'hourglass_flowing_sand' ] },
+			{ emoji: '🔋', name: 'battery', shortcodes: [ 'battery' ] },
+			{ emoji: '🔌', name: 'electric plug', shortcodes: [ 'electric_plug' ] },
+			{ emoji: '💡', name: 'light bulb', shortcodes: [ 'bulb' ] },
+			{ emoji: '🔦', name: 'flashlight', shortcodes: [ 'flashlight' ] },
+			{ emoji: '💰', name: 'money bag', shortcodes: [ 'moneybag' ] },
+			{ emoji: '💳', name: 'credit card', shortcodes: [ 'credit_card' ] },
+			{ emoji: '💎', name: 'gem stone', shortcodes: [ 'gem' ] },
+			{ emoji: '🔧', name: 'wrench', shortcodes: [ 'wrench' ] },
+			{ emoji: '🔨', name: 'hammer', shortcodes: [ 'hammer' ] },
+			{ emoji: '⚙️', name: 'gear', shortcodes: [ 'gear' ] },
+			{ emoji: '🔒', name: 'locked', shortcodes: [ 'lock' ] },
+			{ emoji: '🔑', name: 'key', shortcodes: [ 'key' ] },
+			{ emoji: '✉️', name: 'envelope', shortcodes: [ 'envelope' ] },
+			{ emoji: '📦', name: 'package', shortcodes: [ 'package' ] },
+			{ emoji: '📅', name: 'calendar', shortcodes: [ 'date' ] },
+			{ emoji: '📈', name: 'chart increasing', shortcodes: [ 'chart_with_upwards_trend' ] },
+			{ emoji: '📉', name: 'chart decreasing', shortcodes: [ 'chart_with_downwards_trend' ] },
+			{ emoji: '📊', name: 'bar chart', shortcodes: [ 'bar_chart' ] },
+			{ emoji: '📋', name: 'clipboard', shortcodes: [ 'clipboard' ] },
+			{ emoji: '📌', name: 'pushpin', shortcodes: [ 'pushpin' ] },
+			{ emoji: '📎', name: 'paperclip', shortcodes: [ 'paperclip' ] },
+			{ emoji: '✂️', name: 'scissors', shortcodes: [ 'scissors' ] },
+			{ emoji: '📝', name: 'memo', shortcodes: [ 'memo' ] },
+			{ emoji: '✏️', name: 'pencil', shortcodes: [ 'pencil2' ] },
+			{ emoji: '📚', name: 'books', shortcodes: [ 'books' ] },
+			{ emoji: '📖', name: 'open book', shortcodes: [ 'book' ] },
+			{ emoji: '🔍', name: 'magnifying glass tilted left', shortcodes: [ 'mag' ] }
+		]
+	},
+	{
+		id: 'symbols',
+		icon: '❤️',
+		emojis: [
+			{ emoji: '❤️', name: 'red heart', shortcodes: [ 'heart' ] },
+			{ emoji: '🧡', name: 'orange heart', shortcodes: [ 'orange_heart' ] },
+			{ emoji: '💛', name: 'yellow heart', shortcodes: [ 'yellow_heart' ] },
+			{ emoji: '💚', name: 'green heart', shortcodes: [ 'green_heart' ] },
+			{ emoji: '💙', name: 'blue heart', shortcodes: [ 'blue_heart' ] },
+			{ emoji: '💜', name: 'purple heart', shortcodes: [ 'purple_heart' ] },
+			{ emoji: '🖤', name: 'black heart', shortcodes: [ 'black_heart' ] },
+			{ emoji: '🤍', name: 'white heart', shortcodes: [ 'white_heart' ] },
+			{ emoji: '💔', name: 'broken heart', shortcodes: [ 'broken_heart' ] },
+			{ emoji: '💕', name: 'two hearts', shortcodes: [ 'two_hearts' ] },
+			{ emoji: '💯', name: 'hundred points', shortcodes: [ '100' ] },
+			{ emoji: '💢', name: 'anger symbol', shortcodes: [ 'anger' ] },
+			{ emoji: '💬', name: 'speech balloon', shortcodes: [ 'speech_balloon' ] },
+			{ emoji: '💤', name: 'zzz', shortcodes: [ 'zzz' ] },
+			{ emoji: '✅', name: 'check mark button', shortcodes: [ 'white_check_mark' ] },
+			{ emoji: '✔️', name: 'check mark', shortcodes: [ 'heavy_check_mark' ] },
+			{ emoji: '❌', name: 'cross mark', shortcodes: [ 'x' ] },
+			{ emoji: '❓', name: 'red question mark', shortcodes: [ 'question' ] },
+			{ emoji: '❗', name: 'red exclamation mark', shortcodes: [ 'exclamation' ] },
+			{ emoji: '⚠️', name: 'warning', shortcodes: [ 'warning' ] },
+			{ emoji: '⛔', name: 'no entry', shortcodes: [ 'no_entry' ] },
+			{ emoji: '🚫', name: 'prohibited', shortcodes: [ 'no_entry_sign' ] },
+			{ emoji: '♻️', name: 'recycling symbol', shortcodes: [ 'recycle' ] },
+			{ emoji: '➕', name: 'plus', shortcodes: [ 'heavy_plus_sign' ] },
+			{ emoji: '➖', name: 'minus', shortcodes: [ 'heavy_minus_sign' ] },
+			{ emoji: '➡️', name: 'right arrow', shortcodes: [ 'arrow_right' ] },
+			{ emoji: '⬅️', name: 'left arrow', shortcodes: [ 'arrow_left' ] },
+			{ emoji: '⬆️', name: 'up arrow', shortcodes: [ 'arrow_up' ] },
+			{ emoji: '⬇️', name: 'down arrow', shortcodes: [ 'arrow_down' ] },
+			{ emoji: '🔴', name: 'red circle', shortcodes: [ 'red_circle' ] },
+			{ emoji: '🟢', name: 'green circle', shortcodes: [ 'green_circle' ] },
+			{ emoji: '🔵', name: 'blue circle', shortcodes: [ 'large_blue_circle' ] },
+			{ emoji: '✨', name: 'sparkles', shortcodes: [ 'sparkles' ] },
+			{ emoji: '🎵', name: 'musical note', shortcodes: [ 'musical_note' ] },
+			{ emoji: '🆕', name: 'NEW button', shortcodes: [ 'new' ] },
+			{ emoji: '🆗', name: 'OK button', shortcodes: [ 'ok' ] }
+		]
+	},
+	{
+		id: 'flags',
+		icon: '🏁',
+		emojis: [
+			{ emoji: '🏁', name: 'chequered flag', shortcodes: [ 'checkered_flag' ] },
+			{ emoji: '🚩', name: 'triangular flag', shortcodes: [ 'triangular_flag_on_post' ] },
+			{ emoji: '🏳️', name: 'white flag', shortcodes: [ 'white_flag' ] },
+			{ emoji: '🏴', name: 'black flag', shortcodes: [ 'black_flag' ] },
+			{ emoji: '🏳️‍🌈', name: 'rainbow flag', shortcodes: [ 'rainbow_flag' ] },
+			{ emoji: '🇪🇺', name: 'flag: European Union', shortcodes: [ 'eu' ] },
+			{ emoji: '🇺🇳', name: 'flag: United Nations', shortcodes: [ 'united_nations' ] },
+			{ emoji: '🇺🇸', name: 'flag: United States', shortcodes: [ 'us' ] },
+			{ emoji: '🇬🇧', name: 'flag: United Kingdom', shortcodes: [ 'uk' ] },
+			{ emoji: '🇨🇦', name: 'flag: Canada', shortcodes: [ 'canada' ] },
+			{ emoji: '🇦🇺', name: 'flag: Australia', shortcodes: [ 'australia' ] },
+			{ emoji: '🇩🇪', name: 'flag: Germany', shortcodes: [ 'de' ] },
+			{ emoji: '🇫🇷', name: 'flag: France', shortcodes: [ 'fr' ] },
+			{ emoji: '🇪🇸', name: 'flag: Spain', shortcodes: [ 'es' ] },
+			{ emoji: '🇮🇹', name: 'flag: Italy', shortcodes: [ 'it' ] },
+			{ emoji: '🇵🇱', name: 'flag: Poland', shortcodes: [ 'poland' ] },
+			{ emoji: '🇳🇱', name: 'flag: Netherlands', shortcodes: [ 'netherlands' ] },
+			{ emoji: '🇸🇪', name: 'flag: Sweden', shortcodes: [ 'sweden' ] },
+			{ emoji: '🇺🇦', name: 'flag: Ukraine', shortcodes: [ 'ukraine' ] },
+			{ emoji: '🇧🇷', name: 'flag: Brazil', shortcodes: [ 'brazil' ] },
+			{ emoji: '🇲🇽', name: 'flag: Mexico', shortcodes: [ 'mexico' ] },
+			{ emoji: '🇮🇳', name: 'flag: India', shortcodes: [ 'india' ] },
+			{ emoji: '🇨🇳', name: 'flag: China', shortcodes: [ 'cn' ] },
+			{ emoji: '🇯🇵', name: 'flag: Japan', shortcodes: [ 'jp' ] },
+			{ emoji: '🇰🇷', name: 'flag: South Korea', shortcodes: [ 'kr' ] },
+			{ emoji: '🇿🇦', name: 'flag: South Africa', shortcodes: [ 'south_africa' ] }
+		]
+	}
+];
+
+export default EMOJI_CATEGORIES;
+
+/**
+ * The definition of a category of emoji.
+ */
+export interface EmojiCategoryDefinition {
+
+	/**
+	 * The unique identifier of the category, for instance `'smileys'`.
+	 */
+	id: string;
+
+	/**
+	 * The emoji representing the category in the category navigation of the emoji picker.
+	 */
+	icon: string;
+
+	/**
+	 * The emoji of the category.
+	 */
+	emojis: Array<EmojiDefinition>;
+}
+
+/**
+ * The definition of a single emoji.
+ */
+export interface EmojiDefinition {
+
+	/**
+	 * The emoji character sequence without a skin tone, for instance `'👍'`.
+	 */
+	emoji: string;
+
+	/**
+	 * The human-readable name of the emoji, for instance `'thumbs up'`.
+	 */
+	name: string;
+
+	/**
+	 * The shortcodes of the emoji without the colons, for instance `[ '+1' ]`. Typing `:+1` in the editor suggests the emoji.
+	 */
+	shortcodes: Array<string>;
+
+	/**
+	 * Whether the emoji supports the skin tone modifiers.
+	 */
+	skinTones?: boolean;
+}
@@ -0,0 +1,90 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/emojipicker
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { Typing, type InsertTextCommand } from 'ckeditor5/src/typing';
+import { createDropdown } from 'ckeditor5/src/ui';
+
+import EmojiRepository from './emojirepository';
+import EmojiPickerView, { type EmojiPickerViewExecuteEvent } from './ui/emojipickerview';
+
+import emojiIcon from '../theme/icons/emoji.svg';
+
+/**
+ * The emoji picker feature.
+ *
+ * Introduces the `'emoji'` dropdown with the emoji divided into categories, the search field, the skin tone selection
+ * and the recently used emoji.
+ */
+export default class EmojiPicker extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ EmojiRepository, Typing ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'EmojiPicker' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+		const repository = editor.plugins.get( EmojiRepository );
+
+		const inputCommand: InsertTextCommand = editor.commands.get( 'insertText' )!;
+
+		// Add the `emoji` dropdown button to feature components.
+		editor.ui.componentFactory.add( 'emoji', locale => {
+			const dropdownView = createDropdown( locale );
+			let emojiPickerView: EmojiPickerView;
+
+			dropdownView.buttonView.set( {
+				label: t( 'Emoji' ),
+				icon: emojiIcon,
+				tooltip: true
+			} );
+
+			dropdownView.bind( 'isEnabled' ).to( inputCommand );
+
+			// Insert the emoji when a tile was clicked.
+			dropdownView.on<EmojiPickerViewExecuteEvent>( 'execute', ( evt, data ) => {
+				dropdownView.isOpen = false;
+
+				editor.execute( 'insertText', { text: data.emoji } );
+				repository.addRecentlyUsed( data.definition );
+
+				editor.editing.view.focus();
+			} );
+
+			dropdownView.on( 'change:isOpen', () => {
+				if ( !emojiPickerView ) {
+					emojiPickerView = new EmojiPickerView( locale, repository );
+					emojiPickerView.delegate( 'execute' ).to( dropdownView );
+
+					dropdownView.panelView.children.add( emojiPickerView );
+				}
+
+				// Display the recently used emoji again when the dropdown is reopened. The panel focuses the search field by itself.
+				if ( dropdownView.isOpen ) {
+					emojiPickerView.reset();
+				}
+			} );
+
+			return dropdownView;
+		} );
+	}
+}
@@ -0,0 +1,187 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/emojirepository
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+
+import EMOJI_CATEGORIES, { type EmojiDefinition } from './emojidata';
+import type { EmojiSkinTone } from './emojiconfig';
+import { applySkinTone } from './utils';
+
+/**
+ * The emoji repository plugin. It provides the {@link module:emoji/emojidata bundled emoji} to the emoji picker
+ * and the shortcode autocompletion, and keeps the state shared by them: the selected skin tone and the recently used emoji.
+ */
+export default class EmojiRepository extends Plugin {
+	/**
+	 * The skin tone applied to the inserted emoji supporting the skin tones.
+	 *
+	 * @observable
+	 */
+	declare public skinTone: EmojiSkinTone;
+
+	/**
+	 * The recently inserted emoji, starting with the most recent one.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public recentlyUsed: Array<EmojiDefinition>;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'EmojiRepository' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'emoji', {
+			skinTone: 'default',
+			recentlyUsedLimit: 18,
+			suggestionsLimit: 8
+		} );
+
+		this.set( 'skinTone', editor.config.get( 'emoji.skinTone' )! );
+		this.set( 'recentlyUsed', [] );
+	}
+
+	/**
+	 * Returns the categories of the emoji with their translated labels.
+	 */
+	public getCategories(): Array<EmojiCategory> {
+		const t = this.editor.t;
+		const labels: Record<string, string> = {
+			smileys: t( 'Smileys & emotion' ),
+			people: t( 'People & body' ),
+			nature: t( 'Animals & nature' ),
+			food: t( 'Food & drink' ),
+			travel: t( 'Travel & places' ),
+			activities: t( 'Activities' ),
+			objects: t( 'Objects' ),
+			symbols: t( 'Symbols' ),
+			flags: t( 'Flags' )
+		};
+
+		return EMOJI_CATEGORIES.map( ( { id, icon, emojis } ) => ( { id, icon, emojis, label: labels[ id ] } ) );
+	}
+
+	/**
+	 * Returns the emoji whose shortcodes or names match the query, the best matches first:
+	 *
+	 * * the emoji with the shortcode equal to the query,
+	 * * the emoji with a shortcode or a word of the name starting with the query,
+	 * * the emoji with a shortcode or a name containing the query.
+	 *
+	 * The search is case-insensitive and the colons around the query are ignored. An empty query matches no emoji.
+	 *
+	 * @param query The searched text, for instance `'smi'` or `':thumbs'`.
+	 * @param limit The maximal number of the returned emoji.
+	 */
+	public find( query: string, limit = Infinity ): Array<EmojiDefinition> {
+		const normalizedQuery = query.trim().toLowerCase().replace( /^:|:$/g, '' );
+
+		if ( !normalizedQuery ) {
+			return [];
+		}
+
+		const results: Array<{ definition: EmojiDefinition; rank: number }> = [];
+
+		for ( const { emojis } of EMOJI_CATEGORIES ) {
+			for ( const definition of emojis ) {
+				const rank = getMatchRank( definition, normalizedQuery );
+
+				if ( rank !== null ) {
+					results.push( { definition, rank } );
+				}
+			}
+		}
+
+		// The sort is stable, so the emoji with the same rank stay in the order of the categories.
+		return results
+			.sort( ( a, b ) => a.rank - b.rank )
+			.slice( 0, limit )
+			.map( ( { definition } ) => definition );
+	}
+
+	/**
+	 * Returns the emoji text to insert, with the {@link #skinTone} applied if the emoji supports the skin tones.
+	 */
+	public getEmojiText( definition: EmojiDefinition ): string {
+		return definition.skinTones ? applySkinTone( definition.emoji, this.skinTone ) : definition.emoji;
+	}
+
+	/**
+	 * Moves the emoji to the beginning of the {@link #recentlyUsed} list. The list is limited to
+	 * {@link module:emoji/emojiconfig~EmojiConfig#recentlyUsedLimit `config.emoji.recentlyUsedLimit`} emoji.
+	 */
+	public addRecentlyUsed( definition: EmojiDefinition ): void {
+		const limit = this.editor.config.get( 'emoji.recentlyUsedLimit' )!;
+
+		this.recentlyUsed = [
+			definition,
+			...this.recentlyUsed.filter( item => item.emoji !== definition.emoji )
+		].slice( 0, limit );
+	}
+}
+
+/**
+ * Returns the rank of the match of the emoji with the query (the lower, the better) or `null` if the emoji does not match.
+ */
+function getMatchRank( { name, shortcodes }: EmojiDefinition, query: string ): number | null {
+	const lowerCaseName = name.toLowerCase();
+
+	if ( shortcodes.includes( query ) ) {
+		return 0;
+	}
+
+	if ( shortcodes.some( shortcode => shortcode.startsWith( query ) ) ) {
+		return 1;
+	}
+
+	if ( lowerCaseName.split( /[\s:-]+/ ).some( word => word.startsWith( query ) ) ) {
+		return 2;
+	}
+
+	if ( lowerCaseName.includes( query ) || shortcodes.some( shortcode => shortcode.includes( query ) ) ) {
+		return 3;
+	}
+
+	return null;
+}
+
+/**
+ * The category of the emoji with its translated label.
+ */
+export interface EmojiCategory {
+
+	/**
+	 * The unique identifier of the category, for instance `'smileys'`.
+	 */
+	id: string;
+
+	/**
+	 * The translated label of the category, for instance "Smileys & emotion".
+	 */
+	label: string;
+
+	/**
+	 * The emoji representing the category.
+	 */
+	icon: string;
+
+	/**
+	 * The emoji of the category.
+	 */
+	emojis: Array<EmojiDefinition>;
+}
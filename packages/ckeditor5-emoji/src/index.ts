@@ -0,0 +1,19 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji
+ */
+
+export { default as Emoji } from './emoji';
+export { default as EmojiPicker } from './emojipicker';
+export { default as EmojiAutocomplete } from './emojiautocomplete';
+export { default as EmojiRepository } from './emojirepository';
+
+export type { EmojiCategory } from './emojirepository';
+export type { EmojiDefinition, EmojiCategoryDefinition } from './emojidata';
+export type { EmojiConfig, EmojiSkinTone } from './emojiconfig';
+
+import './augmentation';
@@ -0,0 +1,147 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/ui/emojiautocompleteview
+ */
+
+import { ButtonView, ListItemView, ListView } from 'ckeditor5/src/ui';
+import { Rect, type Locale } from 'ckeditor5/src/utils';
+
+import type { EmojiDefinition } from '../emojidata';
+import { getShortcodeText } from '../utils';
+
+import '../../theme/emojiautocomplete.css';
+
+/**
+ * The list of the emoji suggested while typing a shortcode, for instance `:smi`, in the editor. One of the emoji is always
+ * selected; the selection is moved with the keyboard by the {@link module:emoji/emojiautocomplete~EmojiAutocomplete} plugin.
+ *
+ * Choosing an emoji fires the `execute` event of the view with the definition of the emoji.
+ *
+ * @internal
+ */
+export default class EmojiAutocompleteView extends ListView {
+	/**
+	 * The index of the selected emoji.
+	 *
+	 * @observable
+	 */
+	declare public selectedIndex: number;
+
+	/**
+	 * The definitions of the listed emoji, in the order of the items.
+	 */
+	private _definitions: Array<EmojiDefinition> = [];
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		this.set( 'selectedIndex', 0 );
+
+		this.extendTemplate( {
+			attributes: {
+				class: [
+					'ck-emoji-autocomplete'
+				],
+
+				tabindex: '-1'
+			}
+		} );
+	}
+
+	/**
+	 * Replaces the listed emoji and selects the first one.
+	 *
+	 * @param definitions The definitions of the emoji.
+	 * @param getEmojiText The callback returning the displayed emoji, for instance with a skin tone applied.
+	 */
+	public setDefinitions( definitions: Array<EmojiDefinition>, getEmojiText: ( definition: EmojiDefinition ) => string ): void {
+		this._definitions = definitions;
+
+		this.items.clear();
+		this.items.addMany( definitions.map( ( definition, index ) => {
+			return this._createListItem( definition, getEmojiText( definition ), index );
+		} ) );
+
+		this.select( 0 );
+	}
+
+	/**
+	 * Selects the emoji at the given index. The index out of bounds cycles over the list.
+	 */
+	public select( index: number ): void {
+		const length = this._definitions.length;
+
+		this.selectedIndex = length ? ( index % length + length ) % length : 0;
+
+		const item = this.items.get( this.selectedIndex );
+
+		// Scroll the list to the selected emoji. The list is not rendered until it is displayed for the first time.
+		if ( this.isRendered && item && !new Rect( this.element! ).contains( new Rect( item.element! ) ) ) {
+			this.element!.scrollTop = item.element!.offsetTop;
+		}
+	}
+
+	/**
+	 * Selects the emoji after the selected one.
+	 */
+	public selectNext(): void {
+		this.select( this.selectedIndex + 1 );
+	}
+
+	/**
+	 * Selects the emoji before the selected one.
+	 */
+	public selectPrevious(): void {
+		this.select( this.selectedIndex - 1 );
+	}
+
+	/**
+	 * Fires the `execute` event for the selected emoji.
+	 */
+	public executeSelected(): void {
+		if ( this._definitions.length ) {
+			this.fire<EmojiAutocompleteExecuteEvent>( 'execute', { definition: this._definitions[ this.selectedIndex ] } );
+		}
+	}
+
+	/**
+	 * Creates the list item with the button of the emoji, highlighted when the emoji is selected.
+	 */
+	private _createListItem( definition: EmojiDefinition, emoji: string, index: number ): ListItemView {
+		const listItemView = new ListItemView( this.locale );
+		const buttonView = new ButtonView( this.locale );
+
+		buttonView.set( {
+			label: `${ emoji } ${ getShortcodeText( definition.shortcodes[ 0 ] ) }`,
+			tooltip: definition.name,
+			withText: true
+		} );
+
+		buttonView.bind( 'isOn' ).to( this, 'selectedIndex', selectedIndex => selectedIndex === index );
+
+		buttonView.on( 'execute', () => {
+			this.fire<EmojiAutocompleteExecuteEvent>( 'execute', { definition } );
+		} );
+
+		listItemView.children.add( buttonView );
+
+		return listItemView;
+	}
+}
+
+/**
+ * Fired when an emoji is chosen from the list.
+ *
+ * @eventName ~EmojiAutocompleteView#execute
+ */
+export type EmojiAutocompleteExecuteEvent = {
+	name: 'execute';
+	args: [ { definition: EmojiDefinition } ];
+};
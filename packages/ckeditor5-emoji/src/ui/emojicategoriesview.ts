@@ -0,0 +1,149 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/ui/emojicategoriesview
+ */
+
+import { ButtonView, FocusCycler, View, type ViewCollection } from 'ckeditor5/src/ui';
+import { FocusTracker, KeystrokeHandler, type Locale } from 'ckeditor5/src/utils';
+
+/**
+ * The navigation between the categories of the emoji picker. Each category is represented by a button with its emoji.
+ * The buttons are navigated with the arrow keys.
+ */
+export default class EmojiCategoriesView extends View<HTMLDivElement> {
+	/**
+	 * The id of the category whose emoji are displayed or `null` if no category is selected (e.g. when the emoji are searched).
+	 *
+	 * @observable
+	 */
+	declare public currentCategoryId: string | null;
+
+	/**
+	 * The buttons of the categories.
+	 */
+	public readonly buttonViews: ViewCollection<ButtonView>;
+
+	/**
+	 * Tracks information about the DOM focus in the view.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * Helps cycling over the {@link #buttonViews}.
+	 */
+	private readonly _focusCycler: FocusCycler;
+
+	/**
+	 * The buttons of the categories by the ids of the categories.
+	 */
+	private readonly _buttonViewsById = new Map<string, ButtonView>();
+
+	/**
+	 * Creates an instance of the view.
+	 *
+	 * @param locale The localization services instance.
+	 * @param categories The ids, the labels and the emoji representing the categories.
+	 */
+	constructor( locale: Locale, categories: Array<{ id: string; label: string; icon: string }> ) {
+		super( locale );
+
+		const isRtl = locale.uiLanguageDirection === 'rtl';
+
+		this.set( 'currentCategoryId', null );
+
+		this.buttonViews = this.createCollection() as ViewCollection<ButtonView>;
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+
+		this._focusCycler = new FocusCycler( {
+			focusables: this.buttonViews,
+			focusTracker: this.focusTracker,
+			keystrokeHandler: this.keystrokes,
+			actions: {
+				focusPrevious: isRtl ? 'arrowright' : 'arrowleft',
+				focusNext: isRtl ? 'arrowleft' : 'arrowright'
+			}
+		} );
+
+		for ( const category of categories ) {
+			const buttonView = new ButtonView( locale );
+
+			buttonView.set( {
+				label: category.icon,
+				ariaLabel: category.label,
+				tooltip: category.label,
+				withText: true,
+				class: 'ck-emoji-categories__button'
+			} );
+
+			buttonView.bind( 'isOn' ).to( this, 'currentCategoryId', id => id === category.id );
+
+			buttonView.on( 'execute', () => {
+				this.currentCategoryId = category.id;
+			} );
+
+			this.buttonViews.add( buttonView );
+			this._buttonViewsById.set( category.id, buttonView );
+		}
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-emoji-categories' ]
+			},
+			children: this.buttonViews
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		for ( const buttonView of this.buttonViews ) {
+			this.focusTracker.add( buttonView.element! );
+		}
+
+		this.keystrokes.listenTo( this.element! );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Returns the button of the category.
+	 */
+	public getButtonView( categoryId: string ): ButtonView | undefined {
+		return this._buttonViewsById.get( categoryId );
+	}
+
+	/**
+	 * Focuses the button of the current category or the first button if no category is selected.
+	 */
+	public focus(): void {
+		const buttonView = this.currentCategoryId && this.getButtonView( this.currentCategoryId );
+
+		if ( buttonView ) {
+			buttonView.focus();
+		} else {
+			this._focusCycler.focusFirst();
+		}
+	}
+}
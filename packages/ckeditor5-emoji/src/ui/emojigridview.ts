@@ -0,0 +1,220 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/ui/emojigridview
+ */
+
+import {
+	View,
+	ButtonView,
+	addKeyboardHandlingForGrid,
+	type ViewCollection
+} from 'ckeditor5/src/ui';
+import {
+	KeystrokeHandler,
+	FocusTracker,
+	global,
+	type Locale
+} from 'ckeditor5/src/utils';
+
+import type { EmojiDefinition } from '../emojidata';
+
+/**
+ * A grid of emoji tiles. It allows browsing the emoji and selecting the emoji to be inserted into the content.
+ */
+export default class EmojiGridView extends View<HTMLDivElement> {
+	/**
+	 * A collection of the child tile views. Each tile represents a particular emoji.
+	 */
+	public readonly tiles: ViewCollection<ButtonView>;
+
+	/**
+	 * Tracks information about the DOM focus in the grid.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * Creates an instance of an emoji grid.
+	 *
+	 * @param locale The localization services instance.
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		this.tiles = this.createCollection() as ViewCollection<ButtonView>;
+
+		this.setTemplate( {
+			tag: 'div',
+			children: [
+				{
+					tag: 'div',
+					attributes: {
+						class: [
+							'ck',
+							'ck-emoji-grid__tiles'
+						]
+					},
+					children: this.tiles
+				}
+			],
+			attributes: {
+				class: [
+					'ck',
+					'ck-emoji-grid'
+				]
+			}
+		} );
+
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+
+		addKeyboardHandlingForGrid( {
+			keystrokeHandler: this.keystrokes,
+			focusTracker: this.focusTracker,
+			gridItems: this.tiles,
+			numberOfColumns: () => global.window
+				.getComputedStyle( this.element!.firstChild as Element ) // Responsive .ck-emoji-grid__tiles
+				.getPropertyValue( 'grid-template-columns' )
+				.split( ' ' )
+				.length,
+			uiLanguageDirection: this.locale && this.locale.uiLanguageDirection
+		} );
+	}
+
+	/**
+	 * Creates a new tile for the grid.
+	 *
+	 * @param definition The definition of the emoji.
+	 * @param emoji The displayed emoji, for instance with a skin tone applied.
+	 */
+	public createTile( definition: EmojiDefinition, emoji: string ): ButtonView {
+		const tile = new ButtonView( this.locale );
+
+		tile.set( {
+			label: emoji,
+			withText: true,
+			class: 'ck-emoji-grid__tile'
+		} );
+
+		// Use the native title attribute, like in the character grid of the special characters feature.
+		tile.extendTemplate( {
+			attributes: {
+				title: definition.name
+			},
+			on: {
+				mouseover: tile.bindTemplate.to( 'mouseover' ),
+				focus: tile.bindTemplate.to( 'focus' )
+			}
+		} );
+
+		tile.on( 'mouseover', () => {
+			this.fire<EmojiGridViewTileHoverEvent>( 'tileHover', { definition, emoji } );
+		} );
+
+		tile.on( 'focus', () => {
+			this.fire<EmojiGridViewTileFocusEvent>( 'tileFocus', { definition, emoji } );
+		} );
+
+		tile.on( 'execute', () => {
+			this.fire<EmojiGridViewExecuteEvent>( 'execute', { definition, emoji } );
+		} );
+
+		return tile;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		for ( const item of this.tiles ) {
+			this.focusTracker.add( item.element! );
+		}
+
+		this.tiles.on( 'change', ( eventInfo, { added, removed } ) => {
+			for ( const item of added ) {
+				this.focusTracker.add( item.element );
+			}
+
+			for ( const item of removed ) {
+				this.focusTracker.remove( item.element );
+			}
+		} );
+
+		this.keystrokes.listenTo( this.element! );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Focuses the first tile of the grid.
+	 */
+	public focus(): void {
+		if ( this.tiles.first ) {
+			this.tiles.first.focus();
+		}
+	}
+}
+
+/**
+ * Fired when any of {@link ~EmojiGridView#tiles grid tiles} is clicked.
+ *
+ * @eventName ~EmojiGridView#execute
+ * @param data Additional information about the event.
+ */
+export type EmojiGridViewExecuteEvent = {
+	name: 'execute';
+	args: [ data: EmojiGridViewEventData ];
+};
+
+/**
+ * Fired when a mouse or another pointing device caused the cursor to move onto any {@link ~EmojiGridView#tiles grid tile}.
+ *
+ * @eventName ~EmojiGridView#tileHover
+ * @param data Additional information about the event.
+ */
+export type EmojiGridViewTileHoverEvent = {
+	name: 'tileHover';
+	args: [ data: EmojiGridViewEventData ];
+};
+
+/**
+ * Fired when {@link ~EmojiGridView#tiles grid tile} is focused (e.g. by navigating with arrow keys).
+ *
+ * @eventName ~EmojiGridView#tileFocus
+ * @param data Additional information about the event.
+ */
+export type EmojiGridViewTileFocusEvent = {
+	name: 'tileFocus';
+	args: [ data: EmojiGridViewEventData ];
+};
+
+export interface EmojiGridViewEventData {
+
+	/**
+	 * The definition of the emoji of the tile that caused the event.
+	 */
+	definition: EmojiDefinition;
+
+	/**
+	 * The emoji displayed in the tile, for instance with a skin tone applied.
+	 */
+	emoji: string;
+}
@@ -0,0 +1,78 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/ui/emojiinfoview
+ */
+
+import type { Locale } from 'ckeditor5/src/utils';
+import { View } from 'ckeditor5/src/ui';
+
+/**
+ * The view displaying the name and the shortcode of an emoji, e.g. upon hovering it with a mouse.
+ */
+export default class EmojiInfoView extends View<HTMLDivElement> {
+	/**
+	 * The name of the emoji. For instance, "grinning face".
+	 *
+	 * @observable
+	 */
+	declare public name: string | null;
+
+	/**
+	 * The shortcode of the emoji, with the colons. For instance, ":grinning:".
+	 *
+	 * @observable
+	 */
+	declare public shortcode: string | null;
+
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+
+		this.set( 'name', null );
+		this.set( 'shortcode', null );
+
+		this.setTemplate( {
+			tag: 'div',
+			children: [
+				{
+					tag: 'span',
+					attributes: {
+						class: [
+							'ck-emoji-info__name'
+						]
+					},
+					children: [
+						{
+							// Note: ZWSP to prevent vertical collapsing.
+							text: bind.to( 'name', name => name ? name : '\u200B' )
+						}
+					]
+				},
+				{
+					tag: 'span',
+					attributes: {
+						class: [
+							'ck-emoji-info__shortcode'
+						]
+					},
+					children: [
+						{
+							text: bind.to( 'shortcode', shortcode => shortcode || '' )
+						}
+					]
+				}
+			],
+			attributes: {
+				class: [
+					'ck',
+					'ck-emoji-info'
+				]
+			}
+		} );
+	}
+}
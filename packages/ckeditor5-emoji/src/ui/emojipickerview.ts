@@ -0,0 +1,392 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/ui/emojipickerview
+ */
+
+import {
+	FocusCycler,
+	LabeledFieldView,
+	Model,
+	View,
+	ViewCollection,
+	addListToDropdown,
+	createDropdown,
+	createLabeledInputText,
+	type DropdownView,
+	type InputView,
+	type ListDropdownButtonDefinition
+} from 'ckeditor5/src/ui';
+import { Collection, FocusTracker, KeystrokeHandler, type Locale } from 'ckeditor5/src/utils';
+
+import EmojiCategoriesView from './emojicategoriesview';
+import EmojiGridView, {
+	type EmojiGridViewExecuteEvent,
+	type EmojiGridViewTileFocusEvent,
+	type EmojiGridViewTileHoverEvent
+} from './emojigridview';
+import EmojiInfoView from './emojiinfoview';
+import type EmojiRepository from '../emojirepository';
+import type { EmojiSkinTone } from '../emojiconfig';
+import { applySkinTone, getShortcodeText } from '../utils';
+
+import '../../theme/emojipicker.css';
+
+/**
+ * The id of the category of the recently used emoji.
+ */
+const RECENTLY_USED_CATEGORY_ID = 'recent';
+
+/**
+ * The emoji presenting the skin tones in the skin tone dropdown.
+ */
+const SKIN_TONE_SAMPLE = '👋';
+
+/**
+ * The view of the emoji dropdown panel. It glues together:
+ *
+ * * the search field and the skin tone dropdown,
+ * * the navigation between the categories (allows selecting the displayed category, including the recently used emoji),
+ * * the grid of the emoji of the selected category or the emoji matching the search query,
+ * * and the info view (displays the name and the shortcode of the hovered or focused emoji).
+ *
+ * Choosing an emoji fires the {@link module:emoji/ui/emojigridview~EmojiGridViewExecuteEvent `execute`} event of the view.
+ */
+export default class EmojiPickerView extends View<HTMLDivElement> {
+	/**
+	 * The labeled input of the search query.
+	 */
+	public readonly filterInputView: LabeledFieldView<InputView>;
+
+	/**
+	 * The dropdown selecting the skin tone of the emoji.
+	 */
+	public readonly skinToneDropdownView: DropdownView;
+
+	/**
+	 * The navigation between the categories.
+	 */
+	public readonly categoriesView: EmojiCategoriesView;
+
+	/**
+	 * The grid of the displayed emoji.
+	 */
+	public readonly gridView: EmojiGridView;
+
+	/**
+	 * The view displaying the name and the shortcode of the hovered or focused emoji.
+	 */
+	public readonly infoView: EmojiInfoView;
+
+	/**
+	 * Tracks information about the DOM focus in the view.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * Whether any emoji is displayed in the grid.
+	 *
+	 * @observable
+	 */
+	declare public hasResults: boolean;
+
+	/**
+	 * The emoji repository plugin instance.
+	 */
+	private readonly _repository: EmojiRepository;
+
+	/**
+	 * The searched text.
+	 */
+	private _query = '';
+
+	/**
+	 * The focusable children of the view.
+	 */
+	private readonly _focusables: ViewCollection;
+
+	/**
+	 * Helps cycling over {@link #_focusables} in the view.
+	 */
+	private readonly _focusCycler: FocusCycler;
+
+	/**
+	 * Creates an instance of the view.
+	 *
+	 * @param locale The localization services instance.
+	 * @param repository The emoji repository plugin instance providing the emoji, the skin tone and the recently used emoji.
+	 */
+	constructor( locale: Locale, repository: EmojiRepository ) {
+		super( locale );
+
+		const t = locale.t;
+		const bind = this.bindTemplate;
+
+		this._repository = repository;
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+		this._focusables = new ViewCollection();
+
+		this.set( 'hasResults', true );
+
+		this.filterInputView = new LabeledFieldView( locale, createLabeledInputText );
+		this.filterInputView.label = t( 'Search emoji' );
+		this.filterInputView.fieldView.on( 'input', () => {
+			this._query = ( this.filterInputView.fieldView.element as HTMLInputElement ).value.trim();
+			this._showCategory( this._query ? null : this._getDefaultCategoryId() );
+		} );
+
+		this.skinToneDropdownView = this._createSkinToneDropdown();
+
+		this.categoriesView = new EmojiCategoriesView( locale, [
+			{ id: RECENTLY_USED_CATEGORY_ID, label: t( 'Recently used' ), icon: '🕒' },
+			...repository.getCategories()
+		] );
+
+		this.categoriesView.getButtonView( RECENTLY_USED_CATEGORY_ID )!
+			.bind( 'isVisible' ).to( repository, 'recentlyUsed', recentlyUsed => !!recentlyUsed.length );
+
+		// Choosing a category displays its emoji instead of the search results.
+		this.categoriesView.on( 'change:currentCategoryId', ( evt, name, categoryId ) => {
+			if ( categoryId ) {
+				this._clearQuery();
+			}
+
+			this._updateGrid();
+		} );
+
+		this.gridView = new EmojiGridView( locale );
+		this.infoView = new EmojiInfoView( locale );
+
+		this.gridView.delegate( 'execute' ).to( this );
+
+		this.gridView.on<EmojiGridViewTileHoverEvent>( 'tileHover', ( evt, { definition } ) => {
+			this.infoView.set( { name: definition.name, shortcode: getShortcodeText( definition.shortcodes[ 0 ] ) } );
+		} );
+
+		this.gridView.on<EmojiGridViewTileFocusEvent>( 'tileFocus', ( evt, { definition } ) => {
+			this.infoView.set( { name: definition.name, shortcode: getShortcodeText( definition.shortcodes[ 0 ] ) } );
+		} );
+
+		// Display the emoji with the new skin tone.
+		this.listenTo( repository, 'change:skinTone', () => this._updateGrid() );
+
+		this._focusCycler = new FocusCycler( {
+			focusables: this._focusables,
+			focusTracker: this.focusTracker,
+			keystrokeHandler: this.keystrokes,
+			actions: {
+				focusPrevious: 'shift + tab',
+				focusNext: 'tab'
+			}
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-emoji-picker' ],
+				// Avoid focus loss when the user clicks the area of the picker that is not a button.
+				tabindex: '-1'
+			},
+			children: [
+				{
+					tag: 'div',
+					attributes: {
+						class: [ 'ck', 'ck-emoji-picker__header' ]
+					},
+					children: [
+						this.filterInputView,
+						this.skinToneDropdownView
+					]
+				},
+				this.categoriesView,
+				this.gridView,
+				{
+					tag: 'p',
+					attributes: {
+						class: [ 'ck', 'ck-emoji-picker__no-results', bind.if( 'hasResults', 'ck-hidden' ) ]
+					},
+					children: [ t( 'No emoji found' ) ]
+				},
+				this.infoView
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		for ( const view of [ this.filterInputView, this.skinToneDropdownView, this.categoriesView, this.gridView ] ) {
+			this._focusables.add( view );
+			this.focusTracker.add( view.element! );
+		}
+
+		// Start listening for the keystrokes coming from #element.
+		this.keystrokes.listenTo( this.element! );
+
+		// The panel is in the dropdown which is a child of the toolbar, so the toolbar's keystroke handler would
+		// take over the arrow keys in the search field.
+		const stopPropagation = ( data: KeyboardEvent ) => data.stopPropagation();
+
+		this.keystrokes.set( 'arrowright', stopPropagation );
+		this.keystrokes.set( 'arrowleft', stopPropagation );
+
+		this.reset();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Focuses the search field.
+	 */
+	public focus(): void {
+		this.filterInputView.focus();
+	}
+
+	/**
+	 * Clears the search query and displays the recently used emoji or, if there are none, the first category.
+	 */
+	public reset(): void {
+		this._clearQuery();
+		this._showCategory( this._getDefaultCategoryId() );
+
+		this.infoView.set( { name: null, shortcode: null } );
+	}
+
+	/**
+	 * Selects the category (or no category to display the search results) and updates the grid.
+	 */
+	private _showCategory( categoryId: string | null ): void {
+		if ( this.categoriesView.currentCategoryId === categoryId ) {
+			this._updateGrid();
+		} else {
+			this.categoriesView.currentCategoryId = categoryId;
+		}
+	}
+
+	/**
+	 * Returns the id of the category displayed when nothing is searched.
+	 */
+	private _getDefaultCategoryId(): string {
+		return this._repository.recentlyUsed.length ? RECENTLY_USED_CATEGORY_ID : this._repository.getCategories()[ 0 ].id;
+	}
+
+	/**
+	 * Clears the search field.
+	 */
+	private _clearQuery(): void {
+		const fieldView = this.filterInputView.fieldView;
+
+		this._query = '';
+
+		if ( fieldView.element ) {
+			fieldView.value = fieldView.element.value = '';
+		}
+	}
+
+	/**
+	 * Fills the grid with the emoji matching the search query or the emoji of the current category.
+	 */
+	private _updateGrid(): void {
+		const repository = this._repository;
+		const categoryId = this.categoriesView.currentCategoryId;
+		let definitions;
+
+		if ( this._query ) {
+			definitions = repository.find( this._query );
+		} else if ( categoryId === RECENTLY_USED_CATEGORY_ID ) {
+			definitions = repository.recentlyUsed;
+		} else {
+			definitions = repository.getCategories().find( category => category.id === categoryId )!.emojis;
+		}
+
+		this.gridView.tiles.clear();
+		this.gridView.tiles.addMany( definitions.map( definition => {
+			return this.gridView.createTile( definition, repository.getEmojiText( definition ) );
+		} ) );
+
+		this.hasResults = !!definitions.length;
+	}
+
+	/**
+	 * Creates the dropdown selecting the skin tone of the emoji. The button of the dropdown presents the selected skin tone.
+	 */
+	private _createSkinToneDropdown(): DropdownView {
+		const locale = this.locale!;
+		const t = locale.t;
+		const repository = this._repository;
+		const dropdownView = createDropdown( locale );
+		const accessibleLabel = t( 'Skin tone' );
+		const skinTones: Array<[ EmojiSkinTone, string ]> = [
+			[ 'default', t( 'Default skin tone' ) ],
+			[ 'light', t( 'Light skin tone' ) ],
+			[ 'medium-light', t( 'Medium-light skin tone' ) ],
+			[ 'medium', t( 'Medium skin tone' ) ],
+			[ 'medium-dark', t( 'Medium-dark skin tone' ) ],
+			[ 'dark', t( 'Dark skin tone' ) ]
+		];
+		const itemDefinitions = new Collection<ListDropdownButtonDefinition>();
+
+		for ( const [ skinTone, label ] of skinTones ) {
+			const model = new Model( {
+				skinTone,
+				label: `${ applySkinTone( SKIN_TONE_SAMPLE, skinTone ) } ${ label }`,
+				withText: true,
+				role: 'menuitemradio'
+			} );
+
+			model.bind( 'isOn' ).to( repository, 'skinTone', value => value === skinTone );
+
+			itemDefinitions.add( { type: 'button', model } );
+		}
+
+		dropdownView.buttonView.set( {
+			withText: true,
+			tooltip: accessibleLabel,
+			ariaLabel: accessibleLabel,
+			ariaLabelledBy: undefined,
+			class: 'ck-emoji-picker__skin-tone'
+		} );
+
+		dropdownView.buttonView.bind( 'label' ).to( repository, 'skinTone', skinTone => applySkinTone( SKIN_TONE_SAMPLE, skinTone ) );
+
+		dropdownView.panelPosition = locale.uiLanguageDirection === 'rtl' ? 'se' : 'sw';
+
+		addListToDropdown( dropdownView, itemDefinitions, {
+			ariaLabel: accessibleLabel,
+			role: 'menu'
+		} );
+
+		dropdownView.on( 'execute', evt => {
+			repository.skinTone = ( evt.source as Model ).skinTone as EmojiSkinTone;
+		} );
+
+		return dropdownView;
+	}
+}
+
+/**
+ * Fired when an emoji is chosen in the view.
+ *
+ * @eventName ~EmojiPickerView#execute
+ */
+export type EmojiPickerViewExecuteEvent = EmojiGridViewExecuteEvent;
@@ -0,0 +1,60 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module emoji/utils
+ */
+
+import type { EmojiSkinTone } from './emojiconfig';
+
+/**
+ * The Unicode modifiers of the skin tones.
+ */
+const SKIN_TONE_MODIFIERS: Record<Exclude<EmojiSkinTone, 'default'>, string> = {
+	'light': '\u{1F3FB}',
+	'medium-light': '\u{1F3FC}',
+	'medium': '\u{1F3FD}',
+	'medium-dark': '\u{1F3FE}',
+	'dark': '\u{1F3FF}'
+};
+
+/**
+ * The emoji variation selector, replaced by the skin tone modifier.
+ */
+const VARIATION_SELECTOR = '\uFE0F';
+
+/**
+ * Returns the emoji with the given skin tone. The modifier follows the first code point of the emoji, so the skin tone
+ * is applied to the person in the emoji sequences like "🧑‍💻".
+ *
+ * ```ts
+ * applySkinTone( '👍', 'medium' ); // -> '👍🏽'
+ * applySkinTone( '✌️', 'dark' ); // -> '✌🏿'
+ * ```
+ *
+ * @internal
+ */
+export function applySkinTone( emoji: string, skinTone: EmojiSkinTone ): string {
+	if ( skinTone == 'default' ) {
+		return emoji;
+	}
+
+	const [ base, ...rest ] = Array.from( emoji );
+
+	if ( rest[ 0 ] == VARIATION_SELECTOR ) {
+		rest.shift();
+	}
+
+	return base + SKIN_TONE_MODIFIERS[ skinTone ] + rest.join( '' );
+}
+
+/**
+ * Returns the text of the shortcode with the colons, for instance `:smile:`.
+ *
+ * @internal
+ */
+export function getShortcodeText( shortcode: string ): string {
+	return `:${ shortcode }:`;
+}
@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Emoji from '../src/emoji';
+import EmojiPicker from '../src/emojipicker';
+import EmojiAutocomplete from '../src/emojiautocomplete';
+
+describe( 'Emoji', () => {
+	it( 'should be correctly named', () => {
+		expect( Emoji.pluginName ).to.equal( 'Emoji' );
+	} );
+
+	it( 'should require EmojiPicker and EmojiAutocomplete', () => {
+		expect( Emoji.requires ).to.deep.equal( [ EmojiPicker, EmojiAutocomplete ] );
+	} );
+} );
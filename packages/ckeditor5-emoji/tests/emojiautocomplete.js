@@ -0,0 +1,232 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import Typing from '@ckeditor/ckeditor5-typing/src/typing';
+import ContextualBalloon from '@ckeditor/ckeditor5-ui/src/panel/balloon/contextualballoon';
+import DomEventData from '@ckeditor/ckeditor5-engine/src/view/observer/domeventdata';
+import EventInfo from '@ckeditor/ckeditor5-utils/src/eventinfo';
+import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import EmojiAutocomplete from '../src/emojiautocomplete';
+import EmojiRepository from '../src/emojirepository';
+import EmojiAutocompleteView from '../src/ui/emojiautocompleteview';
+
+describe( 'EmojiAutocomplete', () => {
+	let editor, model, element, balloon, repository, autocompleteView;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, EmojiAutocomplete ],
+			emoji: {
+				suggestionsLimit: 3
+			}
+		} );
+
+		model = editor.model;
+		balloon = editor.plugins.get( ContextualBalloon );
+		repository = editor.plugins.get( EmojiRepository );
+		autocompleteView = editor.plugins.get( EmojiAutocomplete )._view;
+
+		setModelData( model, '<paragraph>Hello []</paragraph>' );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( EmojiAutocomplete.pluginName ).to.equal( 'EmojiAutocomplete' );
+	} );
+
+	it( 'should require EmojiRepository, ContextualBalloon and Typing', () => {
+		expect( EmojiAutocomplete.requires ).to.deep.equal( [ EmojiRepository, ContextualBalloon, Typing ] );
+	} );
+
+	it( 'should create the list view', () => {
+		expect( autocompleteView ).to.be.instanceOf( EmojiAutocompleteView );
+	} );
+
+	describe( 'typing a shortcode', () => {
+		it( 'should show the matching emoji', () => {
+			type( ':smi' );
+
+			expect( balloon.visibleView ).to.equal( autocompleteView );
+			expect( getLabels() ).to.deep.equal( [ '😃 :smiley:', '😄 :smile:', '🥰 :smiling_face_with_three_hearts:' ] );
+			expect( autocompleteView.selectedIndex ).to.equal( 0 );
+		} );
+
+		it( 'should add the marker on the typed shortcode', () => {
+			type( ':smi' );
+
+			const marker = model.markers.get( 'emoji:autocomplete' );
+
+			expect( marker.getStart().offset ).to.equal( 6 );
+			expect( marker.getEnd().offset ).to.equal( 10 );
+		} );
+
+		it( 'should update the matching emoji while typing', () => {
+			type( ':piz' );
+			type( 'z' );
+
+			expect( getLabels() ).to.deep.equal( [ '🍕 :pizza:' ] );
+		} );
+
+		it( 'should display the emoji with the selected skin tone', () => {
+			repository.skinTone = 'dark';
+
+			type( ':wave' );
+
+			expect( getLabels()[ 0 ] ).to.equal( '👋\u{1F3FF} :wave:' );
+		} );
+
+		it( 'should not show the list for a single character', () => {
+			type( ':s' );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should not show the list when the colon follows a word', () => {
+			setModelData( model, '<paragraph>10[]</paragraph>' );
+
+			type( ':30' );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should show the list at the beginning of the paragraph and after a bracket', () => {
+			setModelData( model, '<paragraph>[]</paragraph>' );
+			type( ':pizza' );
+
+			expect( balloon.visibleView ).to.equal( autocompleteView );
+
+			setModelData( model, '<paragraph>Great ([]</paragraph>' );
+			type( ':pizza' );
+
+			expect( balloon.visibleView ).to.equal( autocompleteView );
+		} );
+
+		it( 'should hide the list when no emoji matches the query', () => {
+			type( ':foobar' );
+
+			expect( balloon.visibleView ).to.be.null;
+			expect( model.markers.has( 'emoji:autocomplete' ) ).to.be.false;
+		} );
+
+		it( 'should hide the list when the typed text does not match anymore', () => {
+			type( ':smi' );
+			type( ' ' );
+
+			expect( balloon.visibleView ).to.be.null;
+			expect( model.markers.has( 'emoji:autocomplete' ) ).to.be.false;
+		} );
+
+		it( 'should hide the list when the editor becomes read-only', () => {
+			type( ':smi' );
+
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+	} );
+
+	describe( 'keyboard navigation', () => {
+		beforeEach( () => {
+			type( ':smi' );
+		} );
+
+		it( 'should select the next and the previous emoji with the arrow keys', () => {
+			fireKeyDownEvent( keyCodes.arrowdown );
+			expect( autocompleteView.selectedIndex ).to.equal( 1 );
+
+			fireKeyDownEvent( keyCodes.arrowup );
+			fireKeyDownEvent( keyCodes.arrowup );
+			expect( autocompleteView.selectedIndex ).to.equal( 2 );
+		} );
+
+		it( 'should insert the selected emoji in the place of the typed shortcode on Enter', () => {
+			fireKeyDownEvent( keyCodes.arrowdown );
+			fireKeyDownEvent( keyCodes.enter );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>Hello 😄[]</paragraph>' );
+			expect( balloon.visibleView ).to.be.null;
+			expect( model.markers.has( 'emoji:autocomplete' ) ).to.be.false;
+		} );
+
+		it( 'should insert the selected emoji on Tab', () => {
+			fireKeyDownEvent( keyCodes.tab );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>Hello 😃[]</paragraph>' );
+		} );
+
+		it( 'should add the inserted emoji to the recently used emoji', () => {
+			fireKeyDownEvent( keyCodes.enter );
+
+			expect( repository.recentlyUsed.map( definition => definition.emoji ) ).to.deep.equal( [ '😃' ] );
+		} );
+
+		it( 'should hide the list on Esc', () => {
+			const data = fireKeyDownEvent( keyCodes.esc );
+
+			expect( balloon.visibleView ).to.be.null;
+			expect( model.markers.has( 'emoji:autocomplete' ) ).to.be.false;
+			expect( getModelData( model ) ).to.equal( '<paragraph>Hello :smi[]</paragraph>' );
+			sinon.assert.calledOnce( data.preventDefault );
+		} );
+
+		it( 'should not handle the keys when the list is hidden', () => {
+			fireKeyDownEvent( keyCodes.esc );
+
+			const data = fireKeyDownEvent( keyCodes.enter );
+
+			sinon.assert.notCalled( data.preventDefault );
+		} );
+	} );
+
+	it( 'should insert the clicked emoji with the skin tone and focus the editing view', () => {
+		const focusSpy = sinon.spy( editor.editing.view, 'focus' );
+
+		repository.skinTone = 'light';
+		type( ':+1' );
+
+		autocompleteView.items.get( 0 ).children.first.fire( 'execute' );
+
+		expect( getModelData( model ) ).to.equal( '<paragraph>Hello 👍\u{1F3FB}[]</paragraph>' );
+		sinon.assert.calledOnce( focusSpy );
+	} );
+
+	function type( text ) {
+		model.change( writer => {
+			writer.insertText( text, model.document.selection.getFirstPosition() );
+		} );
+	}
+
+	function getLabels() {
+		return Array.from( autocompleteView.items ).map( item => item.children.first.label );
+	}
+
+	function fireKeyDownEvent( keyCode ) {
+		const view = editor.editing.view;
+		const options = { keyCode, preventDefault: sinon.spy(), stopPropagation: sinon.spy() };
+
+		const eventInfo = new EventInfo( view.document, 'keydown' );
+
+		view.document.fire( eventInfo, new DomEventData( view.document, { target: document.body }, options ) );
+
+		return options;
+	}
+} );
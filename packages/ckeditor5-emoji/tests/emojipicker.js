@@ -0,0 +1,123 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import Typing from '@ckeditor/ckeditor5-typing/src/typing';
+import DropdownView from '@ckeditor/ckeditor5-ui/src/dropdown/dropdownview';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import EmojiPicker from '../src/emojipicker';
+import EmojiRepository from '../src/emojirepository';
+import EmojiPickerView from '../src/ui/emojipickerview';
+import emojiIcon from '../theme/icons/emoji.svg';
+
+describe( 'EmojiPicker', () => {
+	let editor, element, dropdown, repository;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, EmojiPicker ]
+		} );
+
+		repository = editor.plugins.get( EmojiRepository );
+		dropdown = editor.ui.componentFactory.create( 'emoji' );
+		dropdown.render();
+		document.body.appendChild( dropdown.element );
+	} );
+
+	afterEach( async () => {
+		dropdown.element.remove();
+		dropdown.destroy();
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( EmojiPicker.pluginName ).to.equal( 'EmojiPicker' );
+	} );
+
+	it( 'should require EmojiRepository and Typing', () => {
+		expect( EmojiPicker.requires ).to.deep.equal( [ EmojiRepository, Typing ] );
+	} );
+
+	describe( 'the "emoji" dropdown', () => {
+		it( 'should be a dropdown', () => {
+			expect( dropdown ).to.be.instanceOf( DropdownView );
+		} );
+
+		it( 'should have a label, an icon and a tooltip', () => {
+			expect( dropdown.buttonView.label ).to.equal( 'Emoji' );
+			expect( dropdown.buttonView.icon ).to.equal( emojiIcon );
+			expect( dropdown.buttonView.tooltip ).to.be.true;
+		} );
+
+		it( 'should bind #isEnabled to the "insertText" command', () => {
+			const command = editor.commands.get( 'insertText' );
+
+			command.isEnabled = false;
+			expect( dropdown.isEnabled ).to.be.false;
+
+			command.isEnabled = true;
+			expect( dropdown.isEnabled ).to.be.true;
+		} );
+
+		it( 'should create the panel content when opened for the first time', () => {
+			expect( dropdown.panelView.children.length ).to.equal( 0 );
+
+			dropdown.isOpen = true;
+
+			expect( dropdown.panelView.children.first ).to.be.instanceOf( EmojiPickerView );
+		} );
+
+		it( 'should reset the picker and focus the search field when opened', () => {
+			dropdown.isOpen = true;
+
+			const pickerView = dropdown.panelView.children.first;
+			const resetSpy = sinon.spy( pickerView, 'reset' );
+			const focusSpy = sinon.spy( pickerView, 'focus' );
+
+			dropdown.isOpen = false;
+			dropdown.isOpen = true;
+
+			sinon.assert.calledOnce( resetSpy );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should insert the chosen emoji, close the dropdown and focus the editing view', () => {
+			const focusSpy = sinon.stub( editor.editing.view, 'focus' );
+			const definition = repository.getCategories()[ 1 ].emojis[ 0 ];
+
+			setModelData( editor.model, '<paragraph>Hi []</paragraph>' );
+
+			dropdown.isOpen = true;
+			dropdown.panelView.children.first.fire( 'execute', { definition, emoji: '👋\u{1F3FD}' } );
+
+			expect( getModelData( editor.model ) ).to.equal( '<paragraph>Hi 👋\u{1F3FD}[]</paragraph>' );
+			expect( dropdown.isOpen ).to.be.false;
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should add the chosen emoji to the recently used emoji', () => {
+			const definition = repository.getCategories()[ 0 ].emojis[ 0 ];
+
+			setModelData( editor.model, '<paragraph>[]</paragraph>' );
+
+			dropdown.isOpen = true;
+			dropdown.panelView.children.first.fire( 'execute', { definition, emoji: definition.emoji } );
+
+			expect( repository.recentlyUsed ).to.deep.equal( [ definition ] );
+		} );
+	} );
+} );
@@ -0,0 +1,171 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+
+import EmojiRepository from '../src/emojirepository';
+import EMOJI_CATEGORIES from '../src/emojidata';
+
+describe( 'EmojiRepository', () => {
+	let editor, repository;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ EmojiRepository ]
+		} );
+
+		repository = editor.plugins.get( EmojiRepository );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( EmojiRepository.pluginName ).to.equal( 'EmojiRepository' );
+	} );
+
+	it( 'should define the default configuration', () => {
+		expect( editor.config.get( 'emoji' ) ).to.deep.equal( {
+			skinTone: 'default',
+			recentlyUsedLimit: 18,
+			suggestionsLimit: 8
+		} );
+	} );
+
+	it( 'should set the skin tone from the configuration', async () => {
+		const customEditor = await VirtualTestEditor.create( {
+			plugins: [ EmojiRepository ],
+			emoji: { skinTone: 'dark' }
+		} );
+
+		expect( customEditor.plugins.get( EmojiRepository ).skinTone ).to.equal( 'dark' );
+
+		await customEditor.destroy();
+	} );
+
+	it( 'should have no recently used emoji', () => {
+		expect( repository.recentlyUsed ).to.deep.equal( [] );
+	} );
+
+	describe( 'bundled emoji', () => {
+		it( 'should have the unique emoji and shortcodes', () => {
+			const definitions = EMOJI_CATEGORIES.flatMap( category => category.emojis );
+			const shortcodes = definitions.flatMap( definition => definition.shortcodes );
+
+			expect( new Set( definitions.map( definition => definition.emoji ) ).size ).to.equal( definitions.length );
+			expect( new Set( shortcodes ).size ).to.equal( shortcodes.length );
+		} );
+	} );
+
+	describe( 'getCategories()', () => {
+		it( 'should return the categories with their labels', () => {
+			const categories = repository.getCategories();
+
+			expect( categories.map( category => category.label ) ).to.deep.equal( [
+				'Smileys & emotion', 'People & body', 'Animals & nature', 'Food & drink', 'Travel & places',
+				'Activities', 'Objects', 'Symbols', 'Flags'
+			] );
+
+			expect( categories[ 0 ].id ).to.equal( 'smileys' );
+			expect( categories[ 0 ].icon ).to.equal( '😀' );
+			expect( categories[ 0 ].emojis ).to.equal( EMOJI_CATEGORIES[ 0 ].emojis );
+		} );
+	} );
+
+	describe( 'find()', () => {
+		it( 'should return no emoji for an empty query', () => {
+			expect( repository.find( '' ) ).to.deep.equal( [] );
+			expect( repository.find( ' : ' ) ).to.deep.equal( [] );
+		} );
+
+		it( 'should return the emoji with the shortcode equal to the query first', () => {
+			expect( repository.find( 'smile' )[ 0 ].emoji ).to.equal( '😄' );
+		} );
+
+		it( 'should return the emoji with the shortcodes starting with the query before the names containing it', () => {
+			const emojis = repository.find( 'heart' ).map( definition => definition.emoji );
+
+			expect( emojis.slice( 0, 2 ) ).to.deep.equal( [ '❤️', '😍' ] );
+			expect( emojis ).to.include( '🥰' );
+		} );
+
+		it( 'should match the words of the names', () => {
+			expect( repository.find( 'thumbs' ).map( definition => definition.emoji ) ).to.deep.equal( [ '👍', '👎' ] );
+		} );
+
+		it( 'should ignore the case and the colons', () => {
+			expect( repository.find( ':PIZZA:' ).map( definition => definition.emoji ) ).to.deep.equal( [ '🍕' ] );
+		} );
+
+		it( 'should limit the number of the results', () => {
+			expect( repository.find( 'face', 3 ) ).to.have.length( 3 );
+		} );
+
+		it( 'should return no emoji when nothing matches', () => {
+			expect( repository.find( 'foobarbaz' ) ).to.deep.equal( [] );
+		} );
+	} );
+
+	describe( 'getEmojiText()', () => {
+		const thumbsUp = { emoji: '👍', name: 'thumbs up', shortcodes: [ '+1' ], skinTones: true };
+		const pizza = { emoji: '🍕', name: 'pizza', shortcodes: [ 'pizza' ] };
+
+		it( 'should return the emoji with the default skin tone', () => {
+			expect( repository.getEmojiText( thumbsUp ) ).to.equal( '👍' );
+		} );
+
+		it( 'should apply the skin tone to the emoji supporting the skin tones', () => {
+			repository.skinTone = 'medium';
+
+			expect( repository.getEmojiText( thumbsUp ) ).to.equal( '👍\u{1F3FD}' );
+			expect( repository.getEmojiText( pizza ) ).to.equal( '🍕' );
+		} );
+	} );
+
+	describe( 'addRecentlyUsed()', () => {
+		const [ grinning, smiley, smile ] = EMOJI_CATEGORIES[ 0 ].emojis;
+
+		it( 'should add the emoji at the beginning of the list', () => {
+			repository.addRecentlyUsed( grinning );
+			repository.addRecentlyUsed( smiley );
+
+			expect( repository.recentlyUsed ).to.deep.equal( [ smiley, grinning ] );
+		} );
+
+		it( 'should move the emoji that was already used to the beginning of the list', () => {
+			repository.addRecentlyUsed( grinning );
+			repository.addRecentlyUsed( smiley );
+			repository.addRecentlyUsed( grinning );
+
+			expect( repository.recentlyUsed ).to.deep.equal( [ grinning, smiley ] );
+		} );
+
+		it( 'should limit the number of the recently used emoji', async () => {
+			const customEditor = await VirtualTestEditor.create( {
+				plugins: [ EmojiRepository ],
+				emoji: { recentlyUsedLimit: 2 }
+			} );
+			const customRepository = customEditor.plugins.get( EmojiRepository );
+
+			customRepository.addRecentlyUsed( grinning );
+			customRepository.addRecentlyUsed( smiley );
+			customRepository.addRecentlyUsed( smile );
+
+			expect( customRepository.recentlyUsed ).to.deep.equal( [ smile, smiley ] );
+
+			await customEditor.destroy();
+		} );
+
+		it( 'should fire the change event', () => {
+			const spy = sinon.spy();
+
+			repository.on( 'change:recentlyUsed', spy );
+			repository.addRecentlyUsed( grinning );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+} );
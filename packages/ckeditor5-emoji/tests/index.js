@@ -0,0 +1,33 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	Emoji as EmojiDLL,
+	EmojiPicker as EmojiPickerDLL,
+	EmojiAutocomplete as EmojiAutocompleteDLL,
+	EmojiRepository as EmojiRepositoryDLL
+} from '../src';
+import Emoji from '../src/emoji';
+import EmojiPicker from '../src/emojipicker';
+import EmojiAutocomplete from '../src/emojiautocomplete';
+import EmojiRepository from '../src/emojirepository';
+
+describe( 'Emoji DLL', () => {
+	it( 'exports Emoji', () => {
+		expect( EmojiDLL ).to.equal( Emoji );
+	} );
+
+	it( 'exports EmojiPicker', () => {
+		expect( EmojiPickerDLL ).to.equal( EmojiPicker );
+	} );
+
+	it( 'exports EmojiAutocomplete', () => {
+		expect( EmojiAutocompleteDLL ).to.equal( EmojiAutocomplete );
+	} );
+
+	it( 'exports EmojiRepository', () => {
+		expect( EmojiRepositoryDLL ).to.equal( EmojiRepository );
+	} );
+} );
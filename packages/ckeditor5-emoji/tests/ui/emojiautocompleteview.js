@@ -0,0 +1,95 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { Locale } from '@ckeditor/ckeditor5-utils';
+
+import EmojiAutocompleteView from '../../src/ui/emojiautocompleteview';
+
+describe( 'EmojiAutocompleteView', () => {
+	let view;
+
+	const definitions = [
+		{ emoji: '😄', name: 'grinning face with smiling eyes', shortcodes: [ 'smile' ] },
+		{ emoji: '👍', name: 'thumbs up', shortcodes: [ '+1', 'thumbsup' ], skinTones: true }
+	];
+
+	beforeEach( () => {
+		view = new EmojiAutocompleteView( new Locale() );
+		view.render();
+		view.setDefinitions( definitions, definition => definition.emoji + '!' );
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	it( 'should create the element', () => {
+		expect( view.element.classList.contains( 'ck-emoji-autocomplete' ) ).to.be.true;
+		expect( view.element.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+	} );
+
+	describe( 'setDefinitions()', () => {
+		it( 'should list the emoji with their first shortcodes', () => {
+			const buttons = Array.from( view.items ).map( item => item.children.first );
+
+			expect( buttons.map( button => button.label ) ).to.deep.equal( [ '😄! :smile:', '👍! :+1:' ] );
+			expect( buttons[ 1 ].tooltip ).to.equal( 'thumbs up' );
+		} );
+
+		it( 'should select the first emoji', () => {
+			view.select( 1 );
+			view.setDefinitions( definitions, definition => definition.emoji );
+
+			expect( view.selectedIndex ).to.equal( 0 );
+			expect( view.items.first.children.first.isOn ).to.be.true;
+		} );
+	} );
+
+	describe( 'select()', () => {
+		it( 'should cycle over the list', () => {
+			view.selectNext();
+			expect( view.selectedIndex ).to.equal( 1 );
+
+			view.selectNext();
+			expect( view.selectedIndex ).to.equal( 0 );
+
+			view.selectPrevious();
+			expect( view.selectedIndex ).to.equal( 1 );
+			expect( view.items.last.children.first.isOn ).to.be.true;
+		} );
+	} );
+
+	describe( 'executeSelected()', () => {
+		it( 'should fire the execute event with the selected emoji', () => {
+			const spy = sinon.spy();
+
+			view.on( 'execute', spy );
+			view.selectNext();
+			view.executeSelected();
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 1 ] ).to.deep.equal( { definition: definitions[ 1 ] } );
+		} );
+
+		it( 'should not fire the execute event for an empty list', () => {
+			const spy = sinon.spy();
+
+			view.setDefinitions( [], definition => definition.emoji );
+			view.on( 'execute', spy );
+			view.executeSelected();
+
+			sinon.assert.notCalled( spy );
+		} );
+	} );
+
+	it( 'should fire the execute event when an emoji is clicked', () => {
+		const spy = sinon.spy();
+
+		view.on( 'execute', spy );
+		view.items.first.children.first.fire( 'execute' );
+
+		expect( spy.firstCall.args[ 1 ] ).to.deep.equal( { definition: definitions[ 0 ] } );
+	} );
+} );
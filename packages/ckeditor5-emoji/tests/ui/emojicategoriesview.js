@@ -0,0 +1,108 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import { Locale } from '@ckeditor/ckeditor5-utils';
+import FocusCycler from '@ckeditor/ckeditor5-ui/src/focuscycler';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import EmojiCategoriesView from '../../src/ui/emojicategoriesview';
+
+describe( 'EmojiCategoriesView', () => {
+	let view;
+
+	const categories = [
+		{ id: 'smileys', label: 'Smileys & emotion', icon: '😀' },
+		{ id: 'food', label: 'Food & drink', icon: '🍔' }
+	];
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( () => {
+		view = new EmojiCategoriesView( new Locale(), categories );
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create the element', () => {
+			expect( view.element.classList.contains( 'ck-emoji-categories' ) ).to.be.true;
+		} );
+
+		it( 'should have no current category', () => {
+			expect( view.currentCategoryId ).to.be.null;
+		} );
+
+		it( 'should create the buttons of the categories', () => {
+			const [ smileysButton, foodButton ] = view.buttonViews;
+
+			expect( view.buttonViews.length ).to.equal( 2 );
+			expect( smileysButton.label ).to.equal( '😀' );
+			expect( smileysButton.ariaLabel ).to.equal( 'Smileys & emotion' );
+			expect( smileysButton.tooltip ).to.equal( 'Smileys & emotion' );
+			expect( foodButton.label ).to.equal( '🍔' );
+		} );
+
+		it( 'should create the focus cycler navigated with the arrow keys', () => {
+			expect( view._focusCycler ).to.be.instanceOf( FocusCycler );
+			expect( view._focusCycler.actions ).to.deep.equal( { focusPrevious: 'arrowleft', focusNext: 'arrowright' } );
+		} );
+
+		it( 'should swap the arrow keys for the right-to-left languages', () => {
+			const rtlView = new EmojiCategoriesView( new Locale( { uiLanguage: 'ar' } ), categories );
+
+			expect( rtlView._focusCycler.actions ).to.deep.equal( { focusPrevious: 'arrowright', focusNext: 'arrowleft' } );
+
+			rtlView.destroy();
+		} );
+	} );
+
+	describe( 'buttons', () => {
+		it( 'should set the current category when clicked', () => {
+			view.getButtonView( 'food' ).fire( 'execute' );
+
+			expect( view.currentCategoryId ).to.equal( 'food' );
+		} );
+
+		it( 'should be on when their category is the current one', () => {
+			view.currentCategoryId = 'smileys';
+
+			expect( view.getButtonView( 'smileys' ).isOn ).to.be.true;
+			expect( view.getButtonView( 'food' ).isOn ).to.be.false;
+		} );
+	} );
+
+	describe( 'getButtonView()', () => {
+		it( 'should return the button of the category', () => {
+			expect( view.getButtonView( 'food' ) ).to.equal( view.buttonViews.last );
+			expect( view.getButtonView( 'foo' ) ).to.be.undefined;
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the button of the current category', () => {
+			const spy = sinon.spy( view.getButtonView( 'food' ), 'focus' );
+
+			view.currentCategoryId = 'food';
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should focus the first button without the current category', () => {
+			const spy = sinon.spy( view._focusCycler, 'focusFirst' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+} );
@@ -0,0 +1,124 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ViewCollection from '@ckeditor/ckeditor5-ui/src/viewcollection';
+import ButtonView from '@ckeditor/ckeditor5-ui/src/button/buttonview';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import EmojiGridView from '../../src/ui/emojigridview';
+
+describe( 'EmojiGridView', () => {
+	let view;
+
+	const definition = { emoji: '👍', name: 'thumbs up', shortcodes: [ '+1' ], skinTones: true };
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( () => {
+		view = new EmojiGridView();
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'creates view#tiles collection', () => {
+			expect( view.tiles ).to.be.instanceOf( ViewCollection );
+		} );
+
+		it( 'creates #element from template', () => {
+			const tile = view.createTile( definition, '👍' );
+			const tilesElement = view.element.firstChild;
+
+			view.tiles.add( tile );
+
+			expect( view.element.classList.contains( 'ck-emoji-grid' ) ).to.be.true;
+			expect( tilesElement.classList.contains( 'ck-emoji-grid__tiles' ) ).to.be.true;
+			expect( tile.element.parentNode ).to.equal( tilesElement );
+		} );
+	} );
+
+	describe( 'createTile()', () => {
+		let tile;
+
+		beforeEach( () => {
+			tile = view.createTile( definition, '👍\u{1F3FD}' );
+			view.tiles.add( tile );
+		} );
+
+		it( 'creates a button with the displayed emoji and the name in the title', () => {
+			expect( tile ).to.be.instanceOf( ButtonView );
+			expect( tile.label ).to.equal( '👍\u{1F3FD}' );
+			expect( tile.withText ).to.be.true;
+			expect( tile.class ).to.equal( 'ck-emoji-grid__tile' );
+			expect( tile.element.getAttribute( 'title' ) ).to.equal( 'thumbs up' );
+		} );
+
+		it( 'delegates #execute to the grid view', () => {
+			const spy = sinon.spy();
+
+			view.on( 'execute', spy );
+			tile.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 1 ] ).to.deep.equal( { definition, emoji: '👍\u{1F3FD}' } );
+		} );
+
+		it( 'fires #tileHover when the tile is hovered', () => {
+			const spy = sinon.spy();
+
+			view.on( 'tileHover', spy );
+			tile.fire( 'mouseover' );
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 1 ] ).to.deep.equal( { definition, emoji: '👍\u{1F3FD}' } );
+		} );
+
+		it( 'fires #tileFocus when the tile is focused', () => {
+			const spy = sinon.spy();
+
+			view.on( 'tileFocus', spy );
+			tile.fire( 'focus' );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'render()', () => {
+		it( 'tracks the focus of the added and the removed tiles', () => {
+			const tile = view.createTile( definition, '👍' );
+			const addSpy = sinon.spy( view.focusTracker, 'add' );
+			const removeSpy = sinon.spy( view.focusTracker, 'remove' );
+
+			view.tiles.add( tile );
+			sinon.assert.calledOnceWithExactly( addSpy, tile.element );
+
+			view.tiles.remove( tile );
+			sinon.assert.calledOnceWithExactly( removeSpy, tile.element );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'focuses the first tile', () => {
+			const tile = view.createTile( definition, '👍' );
+			const spy = sinon.spy( tile, 'focus' );
+
+			view.tiles.add( tile );
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'does nothing when the grid is empty', () => {
+			expect( () => view.focus() ).to.not.throw();
+		} );
+	} );
+} );
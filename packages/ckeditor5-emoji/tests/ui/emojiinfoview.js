@@ -0,0 +1,35 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import EmojiInfoView from '../../src/ui/emojiinfoview';
+
+describe( 'EmojiInfoView', () => {
+	let view;
+
+	beforeEach( () => {
+		view = new EmojiInfoView();
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	it( 'should create the element', () => {
+		expect( view.element.classList.contains( 'ck-emoji-info' ) ).to.be.true;
+	} );
+
+	it( 'should display the name and the shortcode of the emoji', () => {
+		view.set( { name: 'thumbs up', shortcode: ':+1:' } );
+
+		expect( view.element.querySelector( '.ck-emoji-info__name' ).textContent ).to.equal( 'thumbs up' );
+		expect( view.element.querySelector( '.ck-emoji-info__shortcode' ).textContent ).to.equal( ':+1:' );
+	} );
+
+	it( 'should display the zero-width space without the name', () => {
+		expect( view.element.querySelector( '.ck-emoji-info__name' ).textContent ).to.equal( '\u200B' );
+		expect( view.element.querySelector( '.ck-emoji-info__shortcode' ).textContent ).to.equal( '' );
+	} );
+} );
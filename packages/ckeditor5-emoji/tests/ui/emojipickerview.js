@@ -0,0 +1,265 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Event */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import FocusCycler from '@ckeditor/ckeditor5-ui/src/focuscycler';
+import LabeledFieldView from '@ckeditor/ckeditor5-ui/src/labeledfield/labeledfieldview';
+import DropdownView from '@ckeditor/ckeditor5-ui/src/dropdown/dropdownview';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import EmojiRepository from '../../src/emojirepository';
+import EmojiPickerView from '../../src/ui/emojipickerview';
+import EmojiCategoriesView from '../../src/ui/emojicategoriesview';
+import EmojiGridView from '../../src/ui/emojigridview';
+import EmojiInfoView from '../../src/ui/emojiinfoview';
+
+describe( 'EmojiPickerView', () => {
+	let editor, repository, view;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ EmojiRepository ]
+		} );
+
+		repository = editor.plugins.get( EmojiRepository );
+
+		view = new EmojiPickerView( editor.locale, repository );
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( async () => {
+		view.element.remove();
+		view.destroy();
+
+		await editor.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create the element', () => {
+			expect( view.element.classList.contains( 'ck-emoji-picker' ) ).to.be.true;
+			expect( view.element.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+		} );
+
+		it( 'should create the child views', () => {
+			expect( view.filterInputView ).to.be.instanceOf( LabeledFieldView );
+			expect( view.filterInputView.label ).to.equal( 'Search emoji' );
+			expect( view.skinToneDropdownView ).to.be.instanceOf( DropdownView );
+			expect( view.categoriesView ).to.be.instanceOf( EmojiCategoriesView );
+			expect( view.gridView ).to.be.instanceOf( EmojiGridView );
+			expect( view.infoView ).to.be.instanceOf( EmojiInfoView );
+		} );
+
+		it( 'should create the focus cycler', () => {
+			expect( view._focusCycler ).to.be.instanceOf( FocusCycler );
+		} );
+
+		it( 'should create the buttons of the recently used emoji and all categories', () => {
+			expect( view.categoriesView.buttonViews.length ).to.equal( 10 );
+			expect( view.categoriesView.buttonViews.first.ariaLabel ).to.equal( 'Recently used' );
+		} );
+
+		it( 'should hide the button of the recently used emoji when there are none', () => {
+			const recentButton = view.categoriesView.getButtonView( 'recent' );
+
+			expect( recentButton.isVisible ).to.be.false;
+
+			repository.addRecentlyUsed( repository.getCategories()[ 0 ].emojis[ 0 ] );
+
+			expect( recentButton.isVisible ).to.be.true;
+		} );
+	} );
+
+	describe( 'render()', () => {
+		it( 'should display the first category without the recently used emoji', () => {
+			expect( view.categoriesView.currentCategoryId ).to.equal( 'smileys' );
+			expect( getEmojis().slice( 0, 3 ) ).to.deep.equal( [ '😀', '😃', '😄' ] );
+			expect( view.hasResults ).to.be.true;
+		} );
+	} );
+
+	describe( 'categories', () => {
+		it( 'should display the emoji of the chosen category', () => {
+			view.categoriesView.getButtonView( 'food' ).fire( 'execute' );
+
+			expect( getEmojis().slice( 0, 2 ) ).to.deep.equal( [ '🍏', '🍎' ] );
+		} );
+
+		it( 'should clear the search query when a category is chosen', () => {
+			search( 'pizza' );
+
+			view.categoriesView.getButtonView( 'food' ).fire( 'execute' );
+
+			expect( view.filterInputView.fieldView.element.value ).to.equal( '' );
+			expect( getEmojis().length ).to.equal( repository.getCategories()[ 3 ].emojis.length );
+		} );
+	} );
+
+	describe( 'search', () => {
+		it( 'should display the emoji matching the query and deselect the category', () => {
+			search( 'pizza' );
+
+			expect( getEmojis() ).to.deep.equal( [ '🍕' ] );
+			expect( view.categoriesView.currentCategoryId ).to.be.null;
+		} );
+
+		it( 'should display the message when no emoji matches', () => {
+			const messageElement = view.element.querySelector( '.ck-emoji-picker__no-results' );
+
+			expect( messageElement.classList.contains( 'ck-hidden' ) ).to.be.true;
+
+			search( 'foobarbaz' );
+
+			expect( view.gridView.tiles.length ).to.equal( 0 );
+			expect( view.hasResults ).to.be.false;
+			expect( messageElement.classList.contains( 'ck-hidden' ) ).to.be.false;
+		} );
+
+		it( 'should display the default category again when the query is removed', () => {
+			search( 'pizza' );
+			search( '' );
+
+			expect( view.categoriesView.currentCategoryId ).to.equal( 'smileys' );
+		} );
+	} );
+
+	describe( 'skin tone dropdown', () => {
+		let dropdown;
+
+		beforeEach( () => {
+			dropdown = view.skinToneDropdownView;
+			dropdown.isOpen = true;
+		} );
+
+		it( 'should present the selected skin tone', () => {
+			expect( dropdown.buttonView.label ).to.equal( '👋' );
+			expect( dropdown.buttonView.tooltip ).to.equal( 'Skin tone' );
+
+			repository.skinTone = 'medium';
+
+			expect( dropdown.buttonView.label ).to.equal( '👋\u{1F3FD}' );
+		} );
+
+		it( 'should list the skin tones', () => {
+			const buttons = getSkinToneButtons();
+
+			expect( buttons.map( button => button.label ) ).to.deep.equal( [
+				'👋 Default skin tone',
+				'👋\u{1F3FB} Light skin tone',
+				'👋\u{1F3FC} Medium-light skin tone',
+				'👋\u{1F3FD} Medium skin tone',
+				'👋\u{1F3FE} Medium-dark skin tone',
+				'👋\u{1F3FF} Dark skin tone'
+			] );
+			expect( buttons[ 0 ].isOn ).to.be.true;
+		} );
+
+		it( 'should change the skin tone of the displayed emoji', () => {
+			view.categoriesView.getButtonView( 'people' ).fire( 'execute' );
+
+			getSkinToneButtons()[ 5 ].fire( 'execute' );
+
+			expect( repository.skinTone ).to.equal( 'dark' );
+			expect( getEmojis()[ 0 ] ).to.equal( '👋\u{1F3FF}' );
+			expect( getSkinToneButtons()[ 5 ].isOn ).to.be.true;
+		} );
+
+		function getSkinToneButtons() {
+			return Array.from( dropdown.listView.items ).map( item => item.children.first );
+		}
+	} );
+
+	describe( 'info view', () => {
+		it( 'should display the name and the shortcode of the hovered emoji', () => {
+			view.gridView.tiles.get( 2 ).fire( 'mouseover' );
+
+			expect( view.infoView.name ).to.equal( 'grinning face with smiling eyes' );
+			expect( view.infoView.shortcode ).to.equal( ':smile:' );
+		} );
+
+		it( 'should display the name and the shortcode of the focused emoji', () => {
+			view.gridView.tiles.get( 0 ).fire( 'focus' );
+
+			expect( view.infoView.shortcode ).to.equal( ':grinning:' );
+		} );
+	} );
+
+	describe( 'reset()', () => {
+		it( 'should clear the search query and the info', () => {
+			search( 'pizza' );
+			view.gridView.tiles.get( 0 ).fire( 'mouseover' );
+
+			view.reset();
+
+			expect( view.filterInputView.fieldView.element.value ).to.equal( '' );
+			expect( view.infoView.name ).to.be.null;
+			expect( view.categoriesView.currentCategoryId ).to.equal( 'smileys' );
+		} );
+
+		it( 'should display the recently used emoji if there are any', () => {
+			const [ , people ] = repository.getCategories();
+
+			repository.addRecentlyUsed( people.emojis[ 1 ] );
+			repository.addRecentlyUsed( people.emojis[ 0 ] );
+
+			view.reset();
+
+			expect( view.categoriesView.currentCategoryId ).to.equal( 'recent' );
+			expect( getEmojis() ).to.deep.equal( [ '👋', '🤚' ] );
+		} );
+
+		it( 'should refresh the displayed recently used emoji', () => {
+			const [ smileys ] = repository.getCategories();
+
+			repository.addRecentlyUsed( smileys.emojis[ 0 ] );
+			view.reset();
+
+			repository.addRecentlyUsed( smileys.emojis[ 1 ] );
+			view.reset();
+
+			expect( getEmojis() ).to.deep.equal( [ '😃', '😀' ] );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the search field', () => {
+			const spy = sinon.spy( view.filterInputView, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'execute event', () => {
+		it( 'should be fired when an emoji is chosen', () => {
+			const spy = sinon.spy();
+
+			view.on( 'execute', spy );
+			view.gridView.tiles.get( 2 ).fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 1 ] ).to.deep.equal( {
+				definition: repository.getCategories()[ 0 ].emojis[ 2 ],
+				emoji: '😄'
+			} );
+		} );
+	} );
+
+	function search( query ) {
+		const inputElement = view.filterInputView.fieldView.element;
+
+		inputElement.value = query;
+		inputElement.dispatchEvent( new Event( 'input' ) );
+	}
+
+	function getEmojis() {
+		return Array.from( view.gridView.tiles ).map( tile => tile.label );
+	}
+} );
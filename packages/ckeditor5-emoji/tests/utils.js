@@ -0,0 +1,36 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { applySkinTone, getShortcodeText } from '../src/utils';
+
+describe( 'emoji utils', () => {
+	describe( 'applySkinTone()', () => {
+		it( 'should return the emoji unchanged for the default skin tone', () => {
+			expect( applySkinTone( '👍', 'default' ) ).to.equal( '👍' );
+		} );
+
+		it( 'should append the skin tone modifier to the emoji', () => {
+			expect( applySkinTone( '👍', 'light' ) ).to.equal( '👍\u{1F3FB}' );
+			expect( applySkinTone( '👍', 'medium-light' ) ).to.equal( '👍\u{1F3FC}' );
+			expect( applySkinTone( '👍', 'medium' ) ).to.equal( '👍\u{1F3FD}' );
+			expect( applySkinTone( '👍', 'medium-dark' ) ).to.equal( '👍\u{1F3FE}' );
+			expect( applySkinTone( '👍', 'dark' ) ).to.equal( '👍\u{1F3FF}' );
+		} );
+
+		it( 'should replace the variation selector with the skin tone modifier', () => {
+			expect( applySkinTone( '✌️', 'dark' ) ).to.equal( '✌\u{1F3FF}' );
+		} );
+
+		it( 'should apply the skin tone to the person in the emoji sequence', () => {
+			expect( applySkinTone( '🧑‍💻', 'medium' ) ).to.equal( '🧑\u{1F3FD}‍💻' );
+		} );
+	} );
+
+	describe( 'getShortcodeText()', () => {
+		it( 'should return the shortcode with the colons', () => {
+			expect( getShortcodeText( 'smile' ) ).to.equal( ':smile:' );
+		} );
+	} );
+} );
@@ -14,6 +14,7 @@ export { default as EditingController } from './controller/editingcontroller';
 export {
 	default as DataController,
 	type DataControllerInitEvent,
+	type DataControllerReadyEvent,
 	type DataControllerSetEvent,
 	type DataControllerToModelEvent,
 	type DataControllerToViewEvent
@@ -88,7 +89,7 @@ export { default as History } from './model/history';
 export { default as Text } from './model/text';
 export { default as TextProxy } from './model/textproxy';
 export type { default as Document, ModelPostFixer } from './model/document';
-export type { Marker } from './model/markercollection';
+export type { Marker, MarkerCollectionUpdateEvent } from './model/markercollection';
 export type { default as Batch } from './model/batch';
 export type { default as Differ, DiffItem, DiffItemAttribute, DiffItemInsert, DiffItemRemove } from './model/differ';
 export type { default as Item } from './model/item';
@@ -0,0 +1,30 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	ExportPdfConfig,
+	ExportPdf,
+	ExportPdfCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the {@link module:export-pdf/exportpdf~ExportPdf} feature.
+		 *
+		 * Read more in {@link module:export-pdf/exportpdfconfig~ExportPdfConfig}.
+		 */
+		exportPdf?: ExportPdfConfig;
+	}
+
+	interface PluginsMap {
+		[ ExportPdf.pluginName ]: ExportPdf;
+	}
+
+	interface CommandsMap {
+		exportPdf: ExportPdfCommand;
+	}
+}
@@ -0,0 +1,87 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-pdf/exportpdf
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import { ButtonView } from 'ckeditor5/src/ui';
+
+import ExportPdfCommand from './exportpdfcommand';
+import { EDITOR_STYLES } from './printdocumentwriter';
+
+import exportPdfIcon from '../theme/icons/export-pdf.svg';
+
+/**
+ * The export to PDF feature. It allows for printing the editor content or saving it as a PDF file.
+ *
+ * The plugin registers the `'exportPdf'` {@link module:export-pdf/exportpdfcommand~ExportPdfCommand command}
+ * and the `'exportPdf'` toolbar button. The print document is created in the browser, without any cloud service,
+ * and styled with the content styles loaded on the page.
+ *
+ * See {@link module:export-pdf/exportpdfconfig~ExportPdfConfig} to learn how to configure the page size, the margins,
+ * the header, the footer, and the page numbers.
+ */
+export default class ExportPdf extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'ExportPdf' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'exportPdf', {
+			title: 'document',
+			stylesheets: [ EDITOR_STYLES ],
+			page: {
+				size: 'A4',
+				orientation: 'portrait',
+				margins: {
+					top: '20mm',
+					right: '15mm',
+					bottom: '20mm',
+					left: '15mm'
+				}
+			},
+			pageNumbers: false
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.commands.add( 'exportPdf', new ExportPdfCommand( editor ) );
+
+		editor.ui.componentFactory.add( 'exportPdf', locale => {
+			const command = editor.commands.get( 'exportPdf' )!;
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Export to PDF' ),
+				icon: exportPdfIcon,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).to( command );
+
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'exportPdf' );
+			} );
+
+			return view;
+		} );
+	}
+}
@@ -0,0 +1,129 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-pdf/exportpdfcommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+import { CKEditorError, global } from 'ckeditor5/src/utils';
+
+import PrintDocumentWriter from './printdocumentwriter';
+
+/**
+ * The command printing the editor content or saving it as a PDF file. It is registered by
+ * {@link module:export-pdf/exportpdf~ExportPdf} as `'exportPdf'`.
+ *
+ * ```ts
+ * editor.execute( 'exportPdf' );
+ * ```
+ *
+ * The print document is created by {@link module:export-pdf/printdocumentwriter~PrintDocumentWriter} and printed
+ * from a hidden frame. The browser print dialog allows for choosing a printer or saving the document as a PDF file.
+ */
+export default class ExportPdfCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		// Exporting does not change the content, so it is possible in the read-only mode.
+		this.affectsData = false;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = true;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.rootName The name of the exported root. Defaults to `'main'`.
+	 * @returns A promise resolved once the print dialog is closed.
+	 */
+	public override execute( options: { rootName?: string } = {} ): Promise<void> {
+		const rootName = options.rootName || 'main';
+		const root = this.editor.model.document.getRoot( rootName );
+
+		if ( !root ) {
+			/**
+			 * The root to export does not exist.
+			 *
+			 * @error export-pdf-root-not-found
+			 * @param rootName The name of the root.
+			 */
+			throw new CKEditorError( 'export-pdf-root-not-found', this, { rootName } );
+		}
+
+		return printDocument( new PrintDocumentWriter( this.editor ).write( root ) );
+	}
+}
+
+/**
+ * Prints the document using a hidden frame. The document is printed once its images, style sheets and fonts are loaded.
+ */
+function printDocument( html: string ): Promise<void> {
+	const frame = global.document.createElement( 'iframe' );
+
+	frame.style.position = 'fixed';
+	frame.style.width = '0';
+	frame.style.height = '0';
+	frame.style.border = '0';
+
+	global.document.body.appendChild( frame );
+
+	const frameWindow = frame.contentWindow!;
+	const frameDocument = frameWindow.document;
+
+	frameDocument.open();
+	frameDocument.write( html );
+	frameDocument.close();
+
+	return waitForResources( frameDocument ).then( () => new Promise( resolve => {
+		const cleanUp = () => {
+			frameWindow.removeEventListener( 'afterprint', cleanUp );
+			global.window.removeEventListener( 'focus', cleanUp );
+
+			frame.remove();
+			resolve();
+		};
+
+		frameWindow.addEventListener( 'afterprint', cleanUp );
+
+		frameWindow.focus();
+		frameWindow.print();
+
+		// Some browsers do not fire the `afterprint` event, so the frame is also removed once the user returns to the page.
+		// The listener is added after the `print()` call so the focus moved to the frame before printing is not taken into account.
+		if ( frame.isConnected ) {
+			global.window.addEventListener( 'focus', cleanUp );
+		}
+	} ) );
+}
+
+/**
+ * Returns a promise resolved once the images, the style sheets and the fonts of the document are loaded or failed to load.
+ */
+function waitForResources( document: Document ): Promise<unknown> {
+	const pendingImages = Array.from( document.images ).filter( image => !image.complete );
+	const pendingStylesheets = Array.from( document.querySelectorAll<HTMLLinkElement>( 'link[rel="stylesheet"]' ) )
+		.filter( link => !link.sheet );
+	const promises: Array<Promise<unknown>> = [ ...pendingImages, ...pendingStylesheets ].map( element => new Promise( resolve => {
+		element.addEventListener( 'load', resolve, { once: true } );
+		element.addEventListener( 'error', resolve, { once: true } );
+	} ) );
+
+	// The font loading API is not available in all environments.
+	if ( document.fonts ) {
+		promises.push( document.fonts.ready );
+	}
+
+	return Promise.all( promises );
+}
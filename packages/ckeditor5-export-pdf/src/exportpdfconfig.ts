@@ -0,0 +1,182 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-pdf/exportpdfconfig
+ */
+
+/**
+ * The configuration of the export to PDF feature.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		exportPdf: ... // Export to PDF feature options.
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor options}.
+ */
+export interface ExportPdfConfig {
+
+	/**
+	 * The title of the print document. The browsers use it as the default name of the PDF file.
+	 *
+	 * Defaults to `'document'`.
+	 */
+	title?: string;
+
+	/**
+	 * The style sheets of the print document. The `'EDITOR_STYLES'` item stands for the
+	 * {@glink installation/advanced/content-styles content styles} loaded on the page, which are collected from the rules
+	 * of the `.ck-content` class and the CSS variables of the theme. Other items are the URLs of the style sheets.
+	 *
+	 * ```ts
+	 * ClassicEditor
+	 * 	.create( editorElement, {
+	 * 		plugins: [ ExportPdf, ... ],
+	 * 		exportPdf: {
+	 * 			stylesheets: [ 'EDITOR_STYLES', './fonts.css', './print.css' ]
+	 * 		}
+	 * 	} )
+	 * 	.then( ... )
+	 * 	.catch( ... );
+	 * ```
+	 *
+	 * Defaults to `[ 'EDITOR_STYLES' ]`.
+	 */
+	stylesheets?: Array<string>;
+
+	/**
+	 * The size, the orientation, and the margins of the pages.
+	 */
+	page?: ExportPdfPageConfig;
+
+	/**
+	 * The texts printed at the top of each page.
+	 *
+	 * ```ts
+	 * ClassicEditor
+	 * 	.create( editorElement, {
+	 * 		plugins: [ ExportPdf, ... ],
+	 * 		exportPdf: {
+	 * 			header: { left: 'ACME Inc.', right: 'Confidential' }
+	 * 		}
+	 * 	} )
+	 * 	.then( ... )
+	 * 	.catch( ... );
+	 * ```
+	 */
+	header?: ExportPdfMarginTexts;
+
+	/**
+	 * The texts printed at the bottom of each page.
+	 */
+	footer?: ExportPdfMarginTexts;
+
+	/**
+	 * The page numbers printed in the header or the footer. Set to `false` to skip the page numbers.
+	 *
+	 * ```ts
+	 * ClassicEditor
+	 * 	.create( editorElement, {
+	 * 		plugins: [ ExportPdf, ... ],
+	 * 		exportPdf: {
+	 * 			pageNumbers: { alignment: 'right', format: 'Page {page} of {pages}' }
+	 * 		}
+	 * 	} )
+	 * 	.then( ... )
+	 * 	.catch( ... );
+	 * ```
+	 *
+	 * Defaults to `false`.
+	 */
+	pageNumbers?: ExportPdfPageNumbersConfig | false;
+}
+
+/**
+ * The configuration of the pages of the print document.
+ */
+export interface ExportPdfPageConfig {
+
+	/**
+	 * The size of the pages: a CSS page size keyword, for instance `'A4'`, `'A5'`, `'letter'` or `'legal'`,
+	 * or the width and the height, for instance `'210mm 297mm'`.
+	 *
+	 * Defaults to `'A4'`.
+	 */
+	size?: string;
+
+	/**
+	 * The orientation of the pages.
+	 *
+	 * Defaults to `'portrait'`.
+	 */
+	orientation?: 'portrait' | 'landscape';
+
+	/**
+	 * The margins of the pages as CSS lengths. The header and the footer are printed inside the top and the bottom margins.
+	 *
+	 * Defaults to `20mm` for the top and the bottom margins and `15mm` for the left and the right margins.
+	 */
+	margins?: {
+		top?: string;
+		right?: string;
+		bottom?: string;
+		left?: string;
+	};
+}
+
+/**
+ * The texts printed in the header or the footer of each page.
+ */
+export interface ExportPdfMarginTexts {
+
+	/**
+	 * The text aligned to the left.
+	 */
+	left?: string;
+
+	/**
+	 * The centered text.
+	 */
+	center?: string;
+
+	/**
+	 * The text aligned to the right.
+	 */
+	right?: string;
+}
+
+/**
+ * The configuration of the page numbers.
+ */
+export interface ExportPdfPageNumbersConfig {
+
+	/**
+	 * Whether the page numbers are printed in the header or in the footer.
+	 *
+	 * Defaults to `'footer'`.
+	 */
+	position?: 'header' | 'footer';
+
+	/**
+	 * The alignment of the page numbers. If there is a text in the same place of the header or the footer,
+	 * the page number follows it.
+	 *
+	 * Defaults to `'center'`.
+	 */
+	alignment?: 'left' | 'center' | 'right';
+
+	/**
+	 * The format of the page numbers. The `{page}` placeholder is replaced with the page number and
+	 * the `{pages}` placeholder is replaced with the number of pages.
+	 *
+	 * Defaults to `'{page} / {pages}'`.
+	 */
+	format?: string;
+}
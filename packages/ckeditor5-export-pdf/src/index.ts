@@ -0,0 +1,21 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-pdf
+ */
+
+export { default as ExportPdf } from './exportpdf';
+export { default as ExportPdfCommand } from './exportpdfcommand';
+export { default as PrintDocumentWriter, EDITOR_STYLES } from './printdocumentwriter';
+
+export type {
+	ExportPdfConfig,
+	ExportPdfPageConfig,
+	ExportPdfMarginTexts,
+	ExportPdfPageNumbersConfig
+} from './exportpdfconfig';
+
+import './augmentation';
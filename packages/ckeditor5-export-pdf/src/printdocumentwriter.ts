@@ -0,0 +1,179 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-pdf/printdocumentwriter
+ */
+
+import type { Editor } from 'ckeditor5/src/core';
+import type { DocumentFragment, RootElement } from 'ckeditor5/src/engine';
+
+import { escapeHtml, getEditorStyles, toCssString } from './utils';
+import type { ExportPdfConfig, ExportPdfMarginTexts } from './exportpdfconfig';
+
+/**
+ * The item of the {@link module:export-pdf/exportpdfconfig~ExportPdfConfig#stylesheets `config.exportPdf.stylesheets`}
+ * option standing for the content styles loaded on the page.
+ */
+export const EDITOR_STYLES = 'EDITOR_STYLES';
+
+/**
+ * The styles making the content print-ready: the page break elements start new pages, the headings are kept
+ * with the following content, and the backgrounds (for instance, the highlights and the table cell backgrounds) are printed.
+ */
+const PRINT_STYLES = [
+	'html, body { margin: 0; padding: 0; background: #fff; -webkit-print-color-adjust: exact; print-color-adjust: exact; }',
+	'.ck-content .page-break { break-after: page; padding: 0; }',
+	'.ck-content .page-break::after { display: none; }',
+	'.ck-content h1, .ck-content h2, .ck-content h3, .ck-content h4, .ck-content h5, .ck-content h6 { break-after: avoid; }',
+	'.ck-content figure, .ck-content tr, .ck-content img { break-inside: avoid; }'
+].join( '\n' );
+
+/**
+ * The styles of the header and the footer.
+ */
+const MARGIN_BOX_STYLES = 'font-family: Helvetica, Arial, sans-serif; font-size: 9pt; color: #555;';
+
+/**
+ * Creates print documents from the editor content. The print documents are HTML documents that can be printed by the browsers
+ * or saved as PDF files.
+ *
+ * ```ts
+ * const writer = new PrintDocumentWriter( editor );
+ * const html = writer.write( editor.model.document.getRoot() );
+ * ```
+ *
+ * The print document contains the editor data in the `.ck-content` element and the
+ * {@link module:export-pdf/exportpdfconfig~ExportPdfConfig#stylesheets configured style sheets}. The page size, the margins,
+ * the header, the footer and the page numbers are defined by the `@page` rule created from the
+ * {@link module:export-pdf/exportpdfconfig~ExportPdfConfig export to PDF configuration}. The page break elements
+ * of the {@link module:page-break/pagebreak~PageBreak page break} feature start new pages.
+ */
+export default class PrintDocumentWriter {
+	/**
+	 * The editor instance.
+	 */
+	public readonly editor: Editor;
+
+	/**
+	 * Creates an instance of the writer.
+	 *
+	 * @param editor The editor instance.
+	 */
+	constructor( editor: Editor ) {
+		this.editor = editor;
+	}
+
+	/**
+	 * Converts the content of a model root or a document fragment to a print document.
+	 *
+	 * @param root The model root or the document fragment to convert.
+	 * @returns The HTML of the print document.
+	 */
+	public write( root: RootElement | DocumentFragment ): string {
+		const editor = this.editor;
+		const config = editor.config.get( 'exportPdf' )!;
+		const { contentLanguage, contentLanguageDirection } = editor.locale;
+
+		return '<!DOCTYPE html>' +
+			`<html lang="${ escapeHtml( contentLanguage ) }" dir="${ contentLanguageDirection }">` +
+				'<head>' +
+					'<meta charset="utf-8">' +
+					`<title>${ escapeHtml( config.title! ) }</title>` +
+					config.stylesheets!.map( createStylesheet ).join( '' ) +
+					`<style>${ PRINT_STYLES }\n${ createPageStyles( config ) }</style>` +
+				'</head>' +
+				'<body>' +
+					`<div class="ck-content" lang="${ escapeHtml( contentLanguage ) }" dir="${ contentLanguageDirection }">` +
+						editor.data.stringify( root ) +
+					'</div>' +
+				'</body>' +
+			'</html>';
+	}
+}
+
+/**
+ * Creates the `<style>` element with the content styles or the `<link>` element loading a style sheet.
+ */
+function createStylesheet( stylesheet: string ): string {
+	if ( stylesheet == EDITOR_STYLES ) {
+		return `<style>${ getEditorStyles() }</style>`;
+	}
+
+	return `<link rel="stylesheet" href="${ escapeHtml( stylesheet ) }">`;
+}
+
+/**
+ * Creates the `@page` rule defining the size and the margins of the pages, and the content of the page margin boxes.
+ */
+function createPageStyles( config: ExportPdfConfig ): string {
+	const page = config.page!;
+	const margins = page.margins!;
+	const marginBoxes = [
+		...getMarginBoxes( 'top', config.header ),
+		...getMarginBoxes( 'bottom', config.footer )
+	];
+
+	if ( config.pageNumbers ) {
+		const { position = 'footer', alignment = 'center', format = '{page} / {pages}' } = config.pageNumbers;
+		const name = `${ position == 'header' ? 'top' : 'bottom' }-${ alignment }`;
+		const marginBox = marginBoxes.find( box => box.name == name );
+		const content = getPageNumberContent( format );
+
+		if ( marginBox ) {
+			marginBox.content += ` " " ${ content }`;
+		} else {
+			marginBoxes.push( { name, content } );
+		}
+	}
+
+	const rules = [
+		`size: ${ getPageSize( page.size!, page.orientation! ) };`,
+		`margin: ${ margins.top } ${ margins.right } ${ margins.bottom } ${ margins.left };`,
+		...marginBoxes.map( ( { name, content } ) => `@${ name } { content: ${ content }; ${ MARGIN_BOX_STYLES } }` )
+	];
+
+	return `@page { ${ rules.join( ' ' ) } }`;
+}
+
+/**
+ * Returns the value of the `size` property of the `@page` rule.
+ */
+function getPageSize( size: string, orientation: 'portrait' | 'landscape' ): string {
+	const lengths = size.trim().split( /\s+/ );
+
+	// The orientation cannot be combined with the lengths in CSS, so the width and the height are swapped instead.
+	if ( /^[\d.]/.test( lengths[ 0 ] ) ) {
+		return orientation == 'landscape' && lengths.length == 2 ? `${ lengths[ 1 ] } ${ lengths[ 0 ] }` : lengths.join( ' ' );
+	}
+
+	return `${ size } ${ orientation }`;
+}
+
+/**
+ * Returns the page margin boxes (for instance, `top-left`) with the texts of the header or the footer.
+ */
+function getMarginBoxes( side: 'top' | 'bottom', texts: ExportPdfMarginTexts = {} ): Array<{ name: string; content: string }> {
+	return ( [ 'left', 'center', 'right' ] as const )
+		.filter( alignment => texts[ alignment ] )
+		.map( alignment => ( { name: `${ side }-${ alignment }`, content: toCssString( texts[ alignment ]! ) } ) );
+}
+
+/**
+ * Returns the value of the `content` property printing the page numbers in the given format.
+ */
+function getPageNumberContent( format: string ): string {
+	return format
+		.split( /(\{pages?\})/ )
+		.filter( part => part )
+		.map( part => {
+			if ( part == '{page}' ) {
+				return 'counter(page)';
+			}
+
+			return part == '{pages}' ? 'counter(pages)' : toCssString( part );
+		} )
+		.join( ' ' );
+}
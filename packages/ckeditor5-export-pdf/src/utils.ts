@@ -0,0 +1,89 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-pdf/utils
+ */
+
+import { global } from 'ckeditor5/src/utils';
+
+/**
+ * The HTML entities of the characters that are escaped.
+ */
+const HTML_ENTITIES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;'
+};
+
+/**
+ * Escapes the text so it can be used in the HTML content and attribute values.
+ *
+ * @param text The text to escape.
+ */
+export function escapeHtml( text: string ): string {
+	return text.replace( /[&<>"]/g, character => HTML_ENTITIES[ character ] );
+}
+
+/**
+ * Converts the text to a CSS string, for instance to be used as the `content` property value.
+ *
+ * The `<` character is escaped, too, so the string cannot close the `<style>` element.
+ *
+ * @param text The text to convert.
+ */
+export function toCssString( text: string ): string {
+	const escapedText = text
+		.replace( /["\\]/g, '\\$&' )
+		.replace( /\n/g, '\\A ' )
+		.replace( /</g, '\\3C ' );
+
+	return `"${ escapedText }"`;
+}
+
+/**
+ * Collects the {@glink installation/advanced/content-styles content styles} from the style sheets loaded on the page.
+ *
+ * The rules with the `.ck-content` class in their selectors, the `:root` rules defining the CSS variables of the theme,
+ * and the `@font-face` rules are collected. The media and other conditional rules are collected if they contain
+ * the content rules. The style sheets loaded from other domains cannot be read, so they are skipped.
+ *
+ * @returns The CSS text of the collected rules.
+ */
+export function getEditorStyles(): string {
+	const rules: Array<string> = [];
+
+	for ( const styleSheet of Array.from( global.document.styleSheets ) ) {
+		let styleSheetRules: Array<CSSRule>;
+
+		try {
+			styleSheetRules = Array.from( styleSheet.cssRules );
+		} catch {
+			continue;
+		}
+
+		rules.push( ...styleSheetRules.filter( isContentRule ).map( rule => rule.cssText ) );
+	}
+
+	return rules.join( '\n' );
+}
+
+/**
+ * Checks whether the CSS rule styles the editor content.
+ */
+function isContentRule( rule: CSSRule ): boolean {
+	if ( 'selectorText' in rule ) {
+		const selectorText = ( rule as CSSStyleRule ).selectorText;
+
+		return selectorText.includes( '.ck-content' ) || selectorText == ':root';
+	}
+
+	if ( 'cssRules' in rule ) {
+		return Array.from( ( rule as CSSGroupingRule ).cssRules ).some( isContentRule );
+	}
+
+	return rule.cssText.startsWith( '@font-face' );
+}
@@ -0,0 +1,131 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import ButtonView from '@ckeditor/ckeditor5-ui/src/button/buttonview';
+
+import ExportPdf from '../src/exportpdf';
+import ExportPdfCommand from '../src/exportpdfcommand';
+
+describe( 'ExportPdf', () => {
+	let editor, editorElement;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, ExportPdf ]
+		} );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+	} );
+
+	it( 'should have a name', () => {
+		expect( ExportPdf.pluginName ).to.equal( 'ExportPdf' );
+	} );
+
+	it( 'should register the exportPdf command', () => {
+		expect( editor.commands.get( 'exportPdf' ) ).to.be.instanceOf( ExportPdfCommand );
+	} );
+
+	it( 'should define the default configuration', () => {
+		expect( editor.config.get( 'exportPdf' ) ).to.deep.equal( {
+			title: 'document',
+			stylesheets: [ 'EDITOR_STYLES' ],
+			page: {
+				size: 'A4',
+				orientation: 'portrait',
+				margins: {
+					top: '20mm',
+					right: '15mm',
+					bottom: '20mm',
+					left: '15mm'
+				}
+			},
+			pageNumbers: false
+		} );
+	} );
+
+	it( 'should merge the configuration with the defaults', async () => {
+		const editorElement = document.createElement( 'div' );
+
+		document.body.appendChild( editorElement );
+
+		const editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, ExportPdf ],
+			exportPdf: {
+				page: {
+					orientation: 'landscape',
+					margins: { top: '1in' }
+				}
+			}
+		} );
+
+		expect( editor.config.get( 'exportPdf.page' ) ).to.deep.equal( {
+			size: 'A4',
+			orientation: 'landscape',
+			margins: {
+				top: '1in',
+				right: '15mm',
+				bottom: '20mm',
+				left: '15mm'
+			}
+		} );
+
+		await editor.destroy();
+		editorElement.remove();
+	} );
+
+	describe( 'the exportPdf button', () => {
+		let button;
+
+		beforeEach( () => {
+			button = editor.ui.componentFactory.create( 'exportPdf' );
+		} );
+
+		afterEach( () => {
+			button.destroy();
+		} );
+
+		it( 'should be a button', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+		} );
+
+		it( 'should have a label, an icon and a tooltip', () => {
+			expect( button.label ).to.equal( 'Export to PDF' );
+			expect( button.icon ).to.match( /<svg / );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should be bound to the command state', () => {
+			const command = editor.commands.get( 'exportPdf' );
+
+			command.isEnabled = false;
+			expect( button.isEnabled ).to.be.false;
+
+			command.isEnabled = true;
+			expect( button.isEnabled ).to.be.true;
+		} );
+
+		it( 'should execute the command', () => {
+			const executeStub = sinon.stub( editor, 'execute' );
+
+			button.fire( 'execute' );
+
+			sinon.assert.calledOnce( executeStub );
+			sinon.assert.calledWithExactly( executeStub, 'exportPdf' );
+		} );
+	} );
+} );
@@ -0,0 +1,152 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, window, setTimeout */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+import ExportPdf from '../src/exportpdf';
+
+describe( 'ExportPdfCommand', () => {
+	let editor, editorElement, command, frame, printStub;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, ExportPdf ],
+			initialData: '<p>Foo</p>',
+			exportPdf: {
+				title: 'Report',
+				stylesheets: []
+			}
+		} );
+
+		command = editor.commands.get( 'exportPdf' );
+
+		const appendChild = document.body.appendChild;
+
+		frame = null;
+
+		// Stub the printing, which is not possible in tests.
+		sinon.stub( document.body, 'appendChild' ).callsFake( function( element ) {
+			const result = appendChild.call( this, element );
+
+			if ( element.tagName == 'IFRAME' ) {
+				const frameWindow = element.contentWindow;
+
+				frame = element;
+				sinon.stub( frameWindow, 'focus' );
+				printStub = sinon.stub( frameWindow, 'print' ).callsFake( () => {
+					frameWindow.dispatchEvent( new frameWindow.Event( 'afterprint' ) );
+				} );
+			}
+
+			return result;
+		} );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true', () => {
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be true in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+	} );
+
+	it( 'should not affect data', () => {
+		expect( command.affectsData ).to.be.false;
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should print the print document in a hidden frame', async () => {
+			let printedHtml;
+
+			const promise = command.execute();
+
+			printStub.callsFake( () => {
+				printedHtml = frame.contentDocument.documentElement.outerHTML;
+				frame.contentWindow.dispatchEvent( new frame.contentWindow.Event( 'afterprint' ) );
+			} );
+
+			await promise;
+
+			sinon.assert.calledOnce( printStub );
+			expect( frame.style.width ).to.equal( '0px' );
+			expect( frame.style.height ).to.equal( '0px' );
+			expect( printedHtml ).to.contain( '<title>Report</title>' );
+			expect( printedHtml ).to.contain( '<body><div class="ck-content" lang="en" dir="ltr"><p>Foo</p></div></body>' );
+		} );
+
+		it( 'should remove the frame after printing', async () => {
+			await command.execute();
+
+			expect( frame.isConnected ).to.be.false;
+		} );
+
+		it( 'should remove the frame once the user returns to the page if the afterprint event is not fired', async () => {
+			const promise = command.execute();
+
+			printStub.callsFake( () => {} );
+
+			await new Promise( resolve => setTimeout( resolve ) );
+
+			sinon.assert.calledOnce( printStub );
+			expect( frame.isConnected ).to.be.true;
+
+			window.dispatchEvent( new window.Event( 'focus' ) );
+
+			await promise;
+
+			expect( frame.isConnected ).to.be.false;
+		} );
+
+		it( 'should not listen to the focus of the page after the frame is removed', async () => {
+			const addEventListenerSpy = sinon.spy( window, 'addEventListener' );
+
+			await command.execute();
+
+			expect( addEventListenerSpy.args.some( ( [ eventName ] ) => eventName == 'focus' ) ).to.be.false;
+		} );
+
+		it( 'should print once the style sheets are loaded', async () => {
+			editor.config.set( 'exportPdf.stylesheets', [ './print.css' ] );
+
+			const promise = command.execute();
+			const link = frame.contentDocument.querySelector( 'link' );
+
+			await new Promise( resolve => setTimeout( resolve ) );
+
+			sinon.assert.notCalled( printStub );
+
+			link.dispatchEvent( new frame.contentWindow.Event( 'error' ) );
+
+			await promise;
+
+			sinon.assert.calledOnce( printStub );
+		} );
+
+		it( 'should throw if the root does not exist', () => {
+			expectToThrowCKEditorError( () => {
+				command.execute( { rootName: 'foo' } );
+			}, 'export-pdf-root-not-found', command, { rootName: 'foo' } );
+		} );
+	} );
+} );
@@ -0,0 +1,32 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	ExportPdf as ExportPdfDLL,
+	ExportPdfCommand as ExportPdfCommandDLL,
+	PrintDocumentWriter as PrintDocumentWriterDLL,
+	EDITOR_STYLES as EDITOR_STYLES_DLL
+} from '../src';
+import ExportPdf from '../src/exportpdf';
+import ExportPdfCommand from '../src/exportpdfcommand';
+import PrintDocumentWriter, { EDITOR_STYLES } from '../src/printdocumentwriter';
+
+describe( 'ExportPdf DLL', () => {
+	it( 'exports ExportPdf', () => {
+		expect( ExportPdfDLL ).to.equal( ExportPdf );
+	} );
+
+	it( 'exports ExportPdfCommand', () => {
+		expect( ExportPdfCommandDLL ).to.equal( ExportPdfCommand );
+	} );
+
+	it( 'exports PrintDocumentWriter', () => {
+		expect( PrintDocumentWriterDLL ).to.equal( PrintDocumentWriter );
+	} );
+
+	it( 'exports EDITOR_STYLES', () => {
+		expect( EDITOR_STYLES_DLL ).to.equal( EDITOR_STYLES );
+	} );
+} );
@@ -0,0 +1,46 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals console, window, document */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+import PageBreak from '@ckeditor/ckeditor5-page-break/src/pagebreak';
+
+import ExportPdf from '../../src/exportpdf';
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [ ArticlePluginSet, PageBreak, ExportPdf ],
+		toolbar: [
+			'heading', '|', 'bold', 'italic', 'link', 'bulletedList', 'numberedList', 'blockQuote', 'insertTable', 'pageBreak',
+			'|', 'undo', 'redo', '|', 'exportPdf'
+		],
+		exportPdf: {
+			title: 'The report',
+			header: {
+				left: 'ACME Inc.',
+				right: 'Confidential'
+			},
+			footer: {
+				left: 'The report'
+			},
+			pageNumbers: {
+				alignment: 'right',
+				format: 'Page {page} of {pages}'
+			}
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+
+		document.querySelector( '#export-pdf' ).addEventListener( 'click', () => {
+			editor.config.set( 'exportPdf.page', { size: 'A5', orientation: 'landscape' } );
+			editor.execute( 'exportPdf' );
+		} );
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
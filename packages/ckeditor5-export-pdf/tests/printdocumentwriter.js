@@ -0,0 +1,203 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import PageBreak from '@ckeditor/ckeditor5-page-break/src/pagebreak';
+
+import ExportPdf from '../src/exportpdf';
+import PrintDocumentWriter from '../src/printdocumentwriter';
+
+describe( 'PrintDocumentWriter', () => {
+	let editor, editorElement, writer;
+
+	beforeEach( async () => {
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, PageBreak, ExportPdf ],
+			initialData: '<p>Foo</p>',
+			exportPdf: {
+				stylesheets: []
+			}
+		} );
+
+		writer = new PrintDocumentWriter( editor );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+	} );
+
+	function write() {
+		return writer.write( editor.model.document.getRoot() );
+	}
+
+	function getPageRule() {
+		return write().match( /@page \{.*\} \}|@page \{[^}]*\}/ )[ 0 ];
+	}
+
+	describe( 'write()', () => {
+		it( 'should create the print document', () => {
+			const html = write();
+
+			expect( html ).to.match(
+				/^<!DOCTYPE html><html lang="en" dir="ltr"><head><meta charset="utf-8"><title>document<\/title><style>/
+			);
+			expect( html ).to.match(
+				/<\/style><\/head><body><div class="ck-content" lang="en" dir="ltr"><p>Foo<\/p><\/div><\/body><\/html>$/
+			);
+		} );
+
+		it( 'should write a document fragment', () => {
+			const fragment = editor.data.parse( '<p>Bar</p>' );
+
+			expect( writer.write( fragment ) ).to.contain( '<div class="ck-content" lang="en" dir="ltr"><p>Bar</p></div>' );
+		} );
+
+		it( 'should use the configured title', () => {
+			editor.config.set( 'exportPdf.title', 'Q1 <report>' );
+
+			expect( write() ).to.contain( '<title>Q1 &lt;report&gt;</title>' );
+		} );
+
+		it( 'should use the content language', async () => {
+			const editorElement = document.createElement( 'div' );
+
+			document.body.appendChild( editorElement );
+
+			const editor = await ClassicTestEditor.create( editorElement, {
+				plugins: [ Paragraph, ExportPdf ],
+				language: { content: 'ar' }
+			} );
+
+			const html = new PrintDocumentWriter( editor ).write( editor.model.document.getRoot() );
+
+			expect( html ).to.contain( '<html lang="ar" dir="rtl">' );
+			expect( html ).to.contain( '<div class="ck-content" lang="ar" dir="rtl">' );
+
+			await editor.destroy();
+			editorElement.remove();
+		} );
+
+		it( 'should start a new page after the page break elements', () => {
+			editor.setData( '<p>Foo</p><div style="page-break-after:always;"></div><p>Bar</p>' );
+
+			const html = write();
+
+			expect( html ).to.contain( '<p>Foo</p><div class="page-break" style="page-break-after:always;">' );
+			expect( html ).to.contain( '.ck-content .page-break { break-after: page; padding: 0; }' );
+			expect( html ).to.contain( '.ck-content .page-break::after { display: none; }' );
+		} );
+
+		describe( 'style sheets', () => {
+			let styleElement;
+
+			beforeEach( () => {
+				styleElement = document.createElement( 'style' );
+				styleElement.textContent = '.ck-content .test-export-pdf { color: red; }';
+
+				document.head.appendChild( styleElement );
+			} );
+
+			afterEach( () => {
+				styleElement.remove();
+			} );
+
+			it( 'should include the editor styles', () => {
+				editor.config.set( 'exportPdf.stylesheets', [ 'EDITOR_STYLES' ] );
+
+				expect( write() ).to.match( /<title>document<\/title><style>[^<]*\.ck-content \.test-export-pdf \{/ );
+			} );
+
+			it( 'should link the style sheets', () => {
+				editor.config.set( 'exportPdf.stylesheets', [ './fonts.css', 'EDITOR_STYLES', './print.css?a=1&b=2' ] );
+
+				const html = write();
+
+				expect( html ).to.contain( '<title>document</title><link rel="stylesheet" href="./fonts.css"><style>' );
+				expect( html ).to.contain( '</style><link rel="stylesheet" href="./print.css?a=1&amp;b=2"><style>' );
+				expect( html ).to.contain( '.test-export-pdf' );
+			} );
+
+			it( 'should not include the editor styles if not configured', () => {
+				expect( write() ).to.not.contain( '.test-export-pdf' );
+			} );
+		} );
+
+		describe( 'page styles', () => {
+			it( 'should set the default page size and margins', () => {
+				expect( getPageRule() ).to.equal( '@page { size: A4 portrait; margin: 20mm 15mm 20mm 15mm; }' );
+			} );
+
+			it( 'should set the configured page size, orientation and margins', () => {
+				editor.config.set( 'exportPdf.page', {
+					size: 'letter',
+					orientation: 'landscape',
+					margins: { top: '1in', right: '0.5in', bottom: '1in', left: '0.5in' }
+				} );
+
+				expect( getPageRule() ).to.equal( '@page { size: letter landscape; margin: 1in 0.5in 1in 0.5in; }' );
+			} );
+
+			it( 'should set the page size with lengths', () => {
+				editor.config.set( 'exportPdf.page.size', '148mm 210mm' );
+
+				expect( getPageRule() ).to.contain( 'size: 148mm 210mm;' );
+			} );
+
+			it( 'should swap the page size lengths in the landscape orientation', () => {
+				editor.config.set( 'exportPdf.page.size', '148mm 210mm' );
+				editor.config.set( 'exportPdf.page.orientation', 'landscape' );
+
+				expect( getPageRule() ).to.contain( 'size: 210mm 148mm;' );
+			} );
+
+			it( 'should print the header and the footer', () => {
+				editor.config.set( 'exportPdf.header', { left: 'ACME Inc.', right: 'Confidential' } );
+				editor.config.set( 'exportPdf.footer', { center: 'Footer' } );
+
+				const rule = getPageRule();
+
+				expect( rule ).to.contain( '@top-left { content: "ACME Inc."; ' );
+				expect( rule ).to.contain( '@top-right { content: "Confidential"; ' );
+				expect( rule ).to.contain( '@bottom-center { content: "Footer"; ' );
+				expect( rule ).to.not.contain( '@top-center' );
+			} );
+
+			it( 'should escape the header texts', () => {
+				editor.config.set( 'exportPdf.header', { center: '"Foo"</style>' } );
+
+				expect( getPageRule() ).to.contain( '@top-center { content: "\\"Foo\\"\\3C /style>"; ' );
+			} );
+
+			it( 'should print the page numbers with the default options', () => {
+				editor.config.set( 'exportPdf.pageNumbers', {} );
+
+				expect( getPageRule() ).to.contain( '@bottom-center { content: counter(page) " / " counter(pages); ' );
+			} );
+
+			it( 'should print the page numbers in the configured place and format', () => {
+				editor.config.set( 'exportPdf.pageNumbers', { position: 'header', alignment: 'right', format: 'Page {page} of {pages}' } );
+
+				expect( getPageRule() ).to.contain( '@top-right { content: "Page " counter(page) " of " counter(pages); ' );
+			} );
+
+			it( 'should print the page numbers after the text in the same place', () => {
+				editor.config.set( 'exportPdf.footer', { right: 'Report' } );
+				editor.config.set( 'exportPdf.pageNumbers', { alignment: 'right', format: '{page}' } );
+
+				const rule = getPageRule();
+
+				expect( rule ).to.contain( '@bottom-right { content: "Report" " " counter(page); ' );
+				expect( rule.match( /@bottom-right/g ) ).to.have.length( 1 );
+			} );
+		} );
+	} );
+} );
@@ -0,0 +1,66 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import { escapeHtml, getEditorStyles, toCssString } from '../src/utils';
+
+describe( 'utils', () => {
+	describe( 'escapeHtml()', () => {
+		it( 'should escape the special characters', () => {
+			expect( escapeHtml( '<a href="x">Tom & Jerry\'s</a>' ) ).to.equal( '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry\'s&lt;/a&gt;' );
+		} );
+	} );
+
+	describe( 'toCssString()', () => {
+		it( 'should quote the text', () => {
+			expect( toCssString( 'Foo bar' ) ).to.equal( '"Foo bar"' );
+		} );
+
+		it( 'should escape the quotes, the backslashes and the line breaks', () => {
+			expect( toCssString( 'Foo "bar"\\\nbaz' ) ).to.equal( '"Foo \\"bar\\"\\\\\\A baz"' );
+		} );
+
+		it( 'should escape the "<" character', () => {
+			expect( toCssString( '</style>' ) ).to.equal( '"\\3C /style>"' );
+		} );
+	} );
+
+	describe( 'getEditorStyles()', () => {
+		let styleElement;
+
+		beforeEach( () => {
+			styleElement = document.createElement( 'style' );
+			styleElement.textContent = [
+				':root { --test-export-pdf-color: red; }',
+				'.ck-content .test-export-pdf { color: var(--test-export-pdf-color); }',
+				'.ck-editor__editable .test-export-pdf-editing { color: blue; }',
+				'@media print { .ck-content .test-export-pdf-print { display: none; } }',
+				'@media print { .test-export-pdf-other { display: none; } }'
+			].join( '\n' );
+
+			document.head.appendChild( styleElement );
+		} );
+
+		afterEach( () => {
+			styleElement.remove();
+		} );
+
+		it( 'should collect the content rules and the CSS variables', () => {
+			const styles = getEditorStyles();
+
+			expect( styles ).to.contain( '--test-export-pdf-color: red;' );
+			expect( styles ).to.contain( '.ck-content .test-export-pdf {' );
+			expect( styles ).to.contain( '.ck-content .test-export-pdf-print {' );
+		} );
+
+		it( 'should skip other rules', () => {
+			const styles = getEditorStyles();
+
+			expect( styles ).to.not.contain( '.test-export-pdf-editing' );
+			expect( styles ).to.not.contain( '.test-export-pdf-other' );
+		} );
+	} );
+} );
@@ -0,0 +1,30 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	ExportWordConfig,
+	ExportWord,
+	ExportWordCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the {@link module:export-word/exportword~ExportWord} feature.
+		 *
+		 * Read more in {@link module:export-word/exportwordconfig~ExportWordConfig}.
+		 */
+		exportWord?: ExportWordConfig;
+	}
+
+	interface PluginsMap {
+		[ ExportWord.pluginName ]: ExportWord;
+	}
+
+	interface CommandsMap {
+		exportWord: ExportWordCommand;
+	}
+}
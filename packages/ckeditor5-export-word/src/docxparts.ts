@@ -0,0 +1,326 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-word/docxparts
+ */
+
+import { escapeXml } from './utils';
+
+/**
+ * A relationship between the main document part and another part or an external resource.
+ */
+export interface DocxRelationship {
+
+	/**
+	 * The id of the relationship referenced in the document, for instance `'rId3'`.
+	 */
+	id: string;
+
+	/**
+	 * The type of the relationship, for instance {@link module:export-word/docxparts~RELATIONSHIP_TYPES.image}.
+	 */
+	type: string;
+
+	/**
+	 * The path of the target part relative to the `word/` directory or the URL of an external resource.
+	 */
+	target: string;
+
+	/**
+	 * Whether the target is an external resource.
+	 */
+	isExternal?: boolean;
+}
+
+/**
+ * A list in the document. Each list is numbered separately.
+ */
+export interface DocxList {
+
+	/**
+	 * The id of the numbering definition instance referenced by the list items.
+	 */
+	numId: number;
+
+	/**
+	 * The level of the list.
+	 */
+	level: number;
+
+	/**
+	 * The number format of the list level, for instance `'decimal'`, `'lowerRoman'` or `'bullet'`.
+	 */
+	format: string;
+
+	/**
+	 * The text of the bullet for bulleted lists.
+	 */
+	bullet?: string;
+
+	/**
+	 * The number of the first list item.
+	 */
+	start: number;
+}
+
+/**
+ * The types of the relationships used in the document.
+ */
+export const RELATIONSHIP_TYPES = {
+	officeDocument: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+	styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+	numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+	image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+	hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink'
+} as const;
+
+/**
+ * The relationships of the main document part that are always present.
+ */
+export const DEFAULT_RELATIONSHIPS: Array<DocxRelationship> = [
+	{ id: 'rId1', type: RELATIONSHIP_TYPES.styles, target: 'styles.xml' },
+	{ id: 'rId2', type: RELATIONSHIP_TYPES.numbering, target: 'numbering.xml' }
+];
+
+/**
+ * The default font size of the document in half-points.
+ */
+export const DEFAULT_FONT_SIZE = 24;
+
+/**
+ * The width of the text area of an A4 page with one inch margins in twentieths of a point.
+ */
+export const TEXT_WIDTH = 9026;
+
+/**
+ * The indentation of a list level in twentieths of a point.
+ */
+export const LIST_INDENT = 720;
+
+/**
+ * The declaration starting the XML parts.
+ */
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * The bullets of the subsequent levels of bulleted lists.
+ */
+const BULLETS = [ '•', '◦', '▪' ];
+
+/**
+ * Creates the `[Content_Types].xml` part.
+ *
+ * @param mediaExtensions The extensions of the image files stored in the package.
+ */
+export function createContentTypesPart( mediaExtensions: Iterable<string> ): string {
+	const imageDefaults = Array.from( new Set( mediaExtensions ) )
+		.map( extension => `<Default Extension="${ extension }" ContentType="image/${ extension }"/>` )
+		.join( '' );
+
+	return XML_DECLARATION +
+		'<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+			'<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+			'<Default Extension="xml" ContentType="application/xml"/>' +
+			imageDefaults +
+			'<Override PartName="/word/document.xml" ' +
+				'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+			'<Override PartName="/word/styles.xml" ' +
+				'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+			'<Override PartName="/word/numbering.xml" ' +
+				'ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+		'</Types>';
+}
+
+/**
+ * Creates a relationships part, for instance `_rels/.rels` or `word/_rels/document.xml.rels`.
+ *
+ * @param relationships The relationships.
+ */
+export function createRelationshipsPart( relationships: Array<DocxRelationship> ): string {
+	const items = relationships.map( ( { id, type, target, isExternal } ) => (
+		`<Relationship Id="${ id }" Type="${ type }" Target="${ escapeXml( target ) }"${ isExternal ? ' TargetMode="External"' : '' }/>`
+	) );
+
+	return XML_DECLARATION +
+		'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+			items.join( '' ) +
+		'</Relationships>';
+}
+
+/**
+ * Creates the `word/document.xml` part.
+ *
+ * @param body The content of the document body.
+ */
+export function createDocumentPart( body: string ): string {
+	return XML_DECLARATION +
+		'<w:document ' +
+			'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+			'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+			'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ' +
+			'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+			'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+			'<w:body>' +
+				body +
+				'<w:sectPr>' +
+					'<w:pgSz w:w="11906" w:h="16838"/>' +
+					'<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/>' +
+				'</w:sectPr>' +
+			'</w:body>' +
+		'</w:document>';
+}
+
+/**
+ * Creates the `word/styles.xml` part with the styles used by the exported content.
+ */
+export function createStylesPart(): string {
+	const headingSizes = [ 40, 32, 28, 24, 22, 22 ];
+	const headingStyles = headingSizes.map( ( size, index ) => (
+		`<w:style w:type="paragraph" w:styleId="Heading${ index + 1 }">` +
+			`<w:name w:val="heading ${ index + 1 }"/>` +
+			'<w:basedOn w:val="Normal"/>' +
+			'<w:next w:val="Normal"/>' +
+			'<w:qFormat/>' +
+			'<w:pPr>' +
+				'<w:keepNext/>' +
+				'<w:spacing w:before="240" w:after="120"/>' +
+				`<w:outlineLvl w:val="${ index }"/>` +
+			'</w:pPr>' +
+			`<w:rPr><w:b/><w:sz w:val="${ size }"/><w:szCs w:val="${ size }"/></w:rPr>` +
+		'</w:style>'
+	) );
+
+	return XML_DECLARATION +
+		'<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+			'<w:docDefaults>' +
+				'<w:rPrDefault>' +
+					'<w:rPr>' +
+						'<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+						`<w:sz w:val="${ DEFAULT_FONT_SIZE }"/>` +
+						`<w:szCs w:val="${ DEFAULT_FONT_SIZE }"/>` +
+					'</w:rPr>' +
+				'</w:rPrDefault>' +
+				'<w:pPrDefault>' +
+					'<w:pPr><w:spacing w:after="160" w:line="259" w:lineRule="auto"/></w:pPr>' +
+				'</w:pPrDefault>' +
+			'</w:docDefaults>' +
+			'<w:style w:type="paragraph" w:default="1" w:styleId="Normal">' +
+				'<w:name w:val="Normal"/>' +
+				'<w:qFormat/>' +
+			'</w:style>' +
+			'<w:style w:type="paragraph" w:styleId="Title">' +
+				'<w:name w:val="Title"/>' +
+				'<w:basedOn w:val="Normal"/>' +
+				'<w:next w:val="Normal"/>' +
+				'<w:qFormat/>' +
+				'<w:rPr><w:sz w:val="56"/><w:szCs w:val="56"/></w:rPr>' +
+			'</w:style>' +
+			headingStyles.join( '' ) +
+			'<w:style w:type="paragraph" w:styleId="Quote">' +
+				'<w:name w:val="Quote"/>' +
+				'<w:basedOn w:val="Normal"/>' +
+				'<w:qFormat/>' +
+				'<w:pPr>' +
+					'<w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="CCCCCC"/></w:pBdr>' +
+					'<w:ind w:left="360"/>' +
+				'</w:pPr>' +
+				'<w:rPr><w:i/><w:color w:val="595959"/></w:rPr>' +
+			'</w:style>' +
+			'<w:style w:type="paragraph" w:styleId="Code">' +
+				'<w:name w:val="Code"/>' +
+				'<w:basedOn w:val="Normal"/>' +
+				'<w:pPr>' +
+					'<w:shd w:val="clear" w:color="auto" w:fill="F5F5F5"/>' +
+					'<w:spacing w:after="160" w:line="240" w:lineRule="auto"/>' +
+				'</w:pPr>' +
+				'<w:rPr>' +
+					'<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:eastAsia="Courier New" w:cs="Courier New"/>' +
+					'<w:sz w:val="20"/>' +
+					'<w:szCs w:val="20"/>' +
+				'</w:rPr>' +
+			'</w:style>' +
+			'<w:style w:type="paragraph" w:styleId="Caption">' +
+				'<w:name w:val="caption"/>' +
+				'<w:basedOn w:val="Normal"/>' +
+				'<w:next w:val="Normal"/>' +
+				'<w:qFormat/>' +
+				'<w:pPr><w:jc w:val="center"/></w:pPr>' +
+				'<w:rPr><w:i/><w:color w:val="595959"/><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr>' +
+			'</w:style>' +
+			'<w:style w:type="character" w:styleId="Hyperlink">' +
+				'<w:name w:val="Hyperlink"/>' +
+				'<w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr>' +
+			'</w:style>' +
+			'<w:style w:type="table" w:styleId="TableGrid">' +
+				'<w:name w:val="Table Grid"/>' +
+				'<w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>' +
+				'<w:tblPr>' +
+					'<w:tblBorders>' +
+						[ 'top', 'left', 'bottom', 'right', 'insideH', 'insideV' ]
+							.map( side => `<w:${ side } w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>` )
+							.join( '' ) +
+					'</w:tblBorders>' +
+					'<w:tblCellMar>' +
+						'<w:top w:w="57" w:type="dxa"/>' +
+						'<w:left w:w="108" w:type="dxa"/>' +
+						'<w:bottom w:w="57" w:type="dxa"/>' +
+						'<w:right w:w="108" w:type="dxa"/>' +
+					'</w:tblCellMar>' +
+				'</w:tblPr>' +
+			'</w:style>' +
+		'</w:styles>';
+}
+
+/**
+ * Creates the `word/numbering.xml` part defining the numbering of the lists.
+ *
+ * @param lists The lists in the document.
+ */
+export function createNumberingPart( lists: Array<DocxList> ): string {
+	const abstractNumberings = lists.map( ( list, index ) => {
+		const levels = [];
+
+		for ( let level = 0; level < 9; level++ ) {
+			const isListLevel = level == list.level;
+			const format = isListLevel ? list.format : getDefaultFormat( list.format );
+			const text = format == 'bullet' ?
+				escapeXml( isListLevel && list.bullet ? list.bullet : BULLETS[ level % BULLETS.length ] ) :
+				`%${ level + 1 }.`;
+
+			levels.push(
+				`<w:lvl w:ilvl="${ level }">` +
+					`<w:start w:val="${ isListLevel ? list.start : 1 }"/>` +
+					`<w:numFmt w:val="${ format }"/>` +
+					`<w:lvlText w:val="${ text }"/>` +
+					'<w:lvlJc w:val="left"/>' +
+					`<w:pPr><w:ind w:left="${ LIST_INDENT * ( level + 1 ) }" w:hanging="360"/></w:pPr>` +
+				'</w:lvl>'
+			);
+		}
+
+		return `<w:abstractNum w:abstractNumId="${ index }">` +
+			'<w:multiLevelType w:val="hybridMultilevel"/>' +
+			levels.join( '' ) +
+		'</w:abstractNum>';
+	} );
+
+	const numberings = lists.map( ( list, index ) => (
+		`<w:num w:numId="${ list.numId }"><w:abstractNumId w:val="${ index }"/></w:num>`
+	) );
+
+	return XML_DECLARATION +
+		'<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+			abstractNumberings.join( '' ) +
+			numberings.join( '' ) +
+		'</w:numbering>';
+}
+
+/**
+ * Returns the format of the levels of a list other than the level of the list itself.
+ */
+function getDefaultFormat( format: string ): string {
+	return format == 'bullet' ? 'bullet' : 'decimal';
+}
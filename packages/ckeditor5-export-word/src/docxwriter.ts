@@ -0,0 +1,686 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-word/docxwriter
+ */
+
+import type { Editor } from 'ckeditor5/src/core';
+import type { DocumentFragment, Element, Node, Schema } from 'ckeditor5/src/engine';
+import type { TableUtils } from '@ckeditor/ckeditor5-table';
+
+import { createZip, type ZipEntry } from './zip';
+import { escapeXml, getImageInfo, toHexColor, type ImageInfo } from './utils';
+import {
+	createContentTypesPart,
+	createDocumentPart,
+	createNumberingPart,
+	createRelationshipsPart,
+	createStylesPart,
+	DEFAULT_FONT_SIZE,
+	DEFAULT_RELATIONSHIPS,
+	LIST_INDENT,
+	RELATIONSHIP_TYPES,
+	TEXT_WIDTH,
+	type DocxList,
+	type DocxRelationship
+} from './docxparts';
+
+/**
+ * The MIME type of Word documents.
+ */
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Creates Word documents (`.docx`) from the editor model.
+ *
+ * ```ts
+ * const writer = new DocxWriter( editor );
+ * const blob = await writer.write( editor.model.document.getRoot() );
+ * ```
+ *
+ * The writer walks the model and converts:
+ *
+ * * paragraphs, headings, the document title, block quotes and code blocks,
+ * * lists created by the {@link module:list/documentlist~DocumentList document list} and the {@link module:list/list~List list}
+ * features, including their styles and start numbers,
+ * * tables, including merged cells and heading rows,
+ * * block and inline images (PNG, JPEG and GIF) together with their captions and alternative texts,
+ * * links, page breaks, horizontal lines and media embeds (as links),
+ * * the text alignment and block indentation,
+ * * the basic styles (bold, italic, underline, strikethrough, code, subscript and superscript), highlights
+ * and the font size, family, color and background color.
+ *
+ * Other elements are converted to paragraphs when they can contain text. The content of other elements is converted recursively.
+ * The document is created in the browser, without sending the content to any service.
+ */
+export default class DocxWriter {
+	/**
+	 * The editor instance.
+	 */
+	public readonly editor: Editor;
+
+	/**
+	 * Creates an instance of the writer.
+	 *
+	 * @param editor The editor instance.
+	 */
+	constructor( editor: Editor ) {
+		this.editor = editor;
+	}
+
+	/**
+	 * Converts the content of a model root or a document fragment to a Word document.
+	 *
+	 * The images are fetched from their sources first. Images that cannot be fetched or are not supported
+	 * by Word are replaced with their alternative texts.
+	 *
+	 * @param root The model root or the document fragment to convert.
+	 * @returns A promise resolved with the document.
+	 */
+	public async write( root: Element | DocumentFragment ): Promise<Blob> {
+		const images = await this._loadImages( root );
+		const conversion = new DocxConversion( this.editor, images );
+		const body = conversion.convertBlocks( root.getChildren() );
+
+		const entries: Array<ZipEntry> = [
+			{ name: '[Content_Types].xml', data: createContentTypesPart( conversion.media.map( ( { extension } ) => extension ) ) },
+			{ name: '_rels/.rels', data: createRelationshipsPart( [
+				{ id: 'rId1', type: RELATIONSHIP_TYPES.officeDocument, target: 'word/document.xml' }
+			] ) },
+			{ name: 'word/document.xml', data: createDocumentPart( body ) },
+			{ name: 'word/_rels/document.xml.rels', data: createRelationshipsPart( conversion.relationships ) },
+			{ name: 'word/styles.xml', data: createStylesPart() },
+			{ name: 'word/numbering.xml', data: createNumberingPart( conversion.lists ) },
+			...conversion.media.map( ( { name, data } ) => ( { name: `word/media/${ name }`, data } ) )
+		];
+
+		return new Blob( [ createZip( entries ) ], { type: DOCX_MIME_TYPE } );
+	}
+
+	/**
+	 * Fetches the images from the converted content.
+	 */
+	private async _loadImages( root: Element | DocumentFragment ): Promise<Map<Element, LoadedImage | null>> {
+		const images = new Map<Element, LoadedImage | null>();
+		const requests: Array<Promise<unknown>> = [];
+
+		for ( const item of this.editor.model.createRangeIn( root ).getItems() ) {
+			if ( !item.is( 'element', 'imageBlock' ) && !item.is( 'element', 'imageInline' ) ) {
+				continue;
+			}
+
+			const src = item.getAttribute( 'src' ) as string | undefined;
+
+			if ( src ) {
+				requests.push( loadImage( src ).then( image => images.set( item, image ) ) );
+			}
+		}
+
+		await Promise.all( requests );
+
+		return images;
+	}
+}
+
+/**
+ * An image fetched from its source.
+ */
+interface LoadedImage extends ImageInfo {
+	data: Uint8Array;
+}
+
+/**
+ * The paragraph styles of the model elements.
+ */
+const PARAGRAPH_STYLES: Record<string, string> = {
+	heading1: 'Heading1',
+	heading2: 'Heading2',
+	heading3: 'Heading3',
+	heading4: 'Heading4',
+	heading5: 'Heading5',
+	heading6: 'Heading6',
+	'title-content': 'Title',
+	codeBlock: 'Code',
+	caption: 'Caption'
+};
+
+/**
+ * The paragraph justifications corresponding to the values of the `alignment` attribute.
+ */
+const ALIGNMENTS: Record<string, string> = {
+	left: 'left',
+	right: 'right',
+	center: 'center',
+	justify: 'both'
+};
+
+/**
+ * The highlights and text colors corresponding to the values of the `highlight` attribute.
+ */
+const HIGHLIGHTS: Record<string, { marker?: string; color?: string }> = {
+	yellowMarker: { marker: 'yellow' },
+	greenMarker: { marker: 'green' },
+	pinkMarker: { marker: 'magenta' },
+	blueMarker: { marker: 'cyan' },
+	redPen: { color: 'E71313' },
+	greenPen: { color: '128A00' }
+};
+
+/**
+ * The number formats corresponding to the values of the `listStyle` attribute.
+ */
+const LIST_STYLES: Record<string, [ string, string? ]> = {
+	disc: [ 'bullet', '•' ],
+	circle: [ 'bullet', '◦' ],
+	square: [ 'bullet', '▪' ],
+	decimal: [ 'decimal' ],
+	'decimal-leading-zero': [ 'decimalZero' ],
+	'lower-roman': [ 'lowerRoman' ],
+	'upper-roman': [ 'upperRoman' ],
+	'lower-latin': [ 'lowerLetter' ],
+	'lower-alpha': [ 'lowerLetter' ],
+	'upper-latin': [ 'upperLetter' ],
+	'upper-alpha': [ 'upperLetter' ]
+};
+
+/**
+ * The sizes of the named font sizes relative to the default font size.
+ */
+const NAMED_FONT_SIZES: Record<string, number> = {
+	tiny: 0.7,
+	small: 0.85,
+	big: 1.4,
+	huge: 1.8
+};
+
+/**
+ * The number of the English Metric Units per pixel.
+ */
+const EMUS_PER_PIXEL = 9525;
+
+/**
+ * The maximum width of an image, equal to the width of the text area, in pixels.
+ */
+const MAX_IMAGE_WIDTH = Math.floor( TEXT_WIDTH / 15 );
+
+/**
+ * The state of a single conversion of the model to the document body.
+ */
+class DocxConversion {
+	/**
+	 * The relationships of the main document part.
+	 */
+	public readonly relationships: Array<DocxRelationship> = [ ...DEFAULT_RELATIONSHIPS ];
+
+	/**
+	 * The lists in the document.
+	 */
+	public readonly lists: Array<DocxList> = [];
+
+	/**
+	 * The image files stored in the package.
+	 */
+	public readonly media: Array<{ name: string; extension: string; data: Uint8Array }> = [];
+
+	private readonly _editor: Editor;
+	private readonly _schema: Schema;
+	private readonly _images: Map<Element, LoadedImage | null>;
+
+	/**
+	 * The lists containing the last converted list item, indexed by their level.
+	 */
+	private _listStack: Array<DocxList | undefined> = [];
+
+	/**
+	 * The id of the last converted list item.
+	 */
+	private _lastListItemId: string | null = null;
+
+	constructor( editor: Editor, images: Map<Element, LoadedImage | null> ) {
+		this._editor = editor;
+		this._schema = editor.model.schema;
+		this._images = images;
+	}
+
+	/**
+	 * Converts the block elements.
+	 *
+	 * @param nodes The elements to convert.
+	 * @param style The paragraph style applied to the paragraphs without their own style.
+	 */
+	public convertBlocks( nodes: Iterable<Node>, style?: string ): string {
+		let xml = '';
+
+		for ( const node of nodes ) {
+			if ( node.is( 'element' ) ) {
+				xml += this._convertBlock( node, style );
+			}
+		}
+
+		return xml;
+	}
+
+	/**
+	 * Converts a block element.
+	 */
+	private _convertBlock( element: Element, style?: string ): string {
+		if ( !element.hasAttribute( 'listType' ) ) {
+			this._listStack = [];
+			this._lastListItemId = null;
+		}
+
+		switch ( element.name ) {
+			case 'table':
+				return this._convertTable( element );
+			case 'imageBlock':
+				return this._convertImageBlock( element );
+			case 'blockQuote':
+				return this.convertBlocks( element.getChildren(), 'Quote' );
+			case 'pageBreak':
+				return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+			case 'horizontalLine':
+				return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+			case 'media':
+				return this._convertMedia( element );
+		}
+
+		if ( this._schema.checkChild( element, '$text' ) ) {
+			return this._convertParagraph( element, style );
+		}
+
+		return this.convertBlocks( element.getChildren(), style );
+	}
+
+	/**
+	 * Converts an element containing text to a paragraph.
+	 */
+	private _convertParagraph( element: Element, style?: string ): string {
+		const properties: Array<string> = [];
+		const paragraphStyle = PARAGRAPH_STYLES[ element.name ] || style;
+		const numbering = element.hasAttribute( 'listType' ) ? this._createNumberingProperties( element ) : '';
+		const alignment = element.getAttribute( 'alignment' ) as string | undefined;
+		const blockIndent = element.getAttribute( 'blockIndent' ) as string | undefined;
+
+		if ( paragraphStyle ) {
+			properties.push( `<w:pStyle w:val="${ paragraphStyle }"/>` );
+		}
+
+		if ( numbering ) {
+			properties.push( numbering );
+		} else if ( blockIndent ) {
+			const indent = toTwips( blockIndent );
+
+			if ( indent ) {
+				properties.push( `<w:ind w:left="${ indent }"/>` );
+			}
+		}
+
+		if ( alignment && ALIGNMENTS[ alignment ] ) {
+			properties.push( `<w:jc w:val="${ ALIGNMENTS[ alignment ] }"/>` );
+		}
+
+		return '<w:p>' +
+			( properties.length ? `<w:pPr>${ properties.join( '' ) }</w:pPr>` : '' ) +
+			this._convertInline( element ) +
+		'</w:p>';
+	}
+
+	/**
+	 * Returns the numbering properties of a list item. The blocks following the first block of a list item
+	 * are indented without the list marker.
+	 */
+	private _createNumberingProperties( element: Element ): string {
+		const level = Math.min( ( element.getAttribute( 'listIndent' ) as number | undefined ) || 0, 8 );
+		const listItemId = element.getAttribute( 'listItemId' ) as string | undefined;
+
+		if ( listItemId && listItemId === this._lastListItemId ) {
+			return `<w:ind w:left="${ LIST_INDENT * ( level + 1 ) }"/>`;
+		}
+
+		const [ format, bullet ] = getListFormat( element );
+
+		this._lastListItemId = listItemId || null;
+		this._listStack.length = level + 1;
+
+		let list = this._listStack[ level ];
+
+		if ( !list || list.format != format || list.bullet != bullet ) {
+			const start = element.getAttribute( 'listStart' ) as number | undefined;
+
+			list = { numId: this.lists.length + 1, level, format, bullet, start: start === undefined ? 1 : start };
+
+			this.lists.push( list );
+			this._listStack[ level ] = list;
+		}
+
+		return `<w:numPr><w:ilvl w:val="${ level }"/><w:numId w:val="${ list.numId }"/></w:numPr>`;
+	}
+
+	/**
+	 * Converts the inline content of a block. The consecutive text nodes with the same link are wrapped with a single hyperlink.
+	 */
+	private _convertInline( element: Element ): string {
+		const groups: Array<{ href?: string; runs: Array<string> }> = [];
+
+		for ( const child of element.getChildren() ) {
+			const href = child.getAttribute( 'linkHref' ) as string | undefined;
+			let run: string;
+
+			if ( child.is( '$text' ) ) {
+				run = this._createTextRun( child.data, child );
+			} else if ( child.is( 'element', 'softBreak' ) ) {
+				run = '<w:r><w:br/></w:r>';
+			} else if ( child.is( 'element', 'imageInline' ) ) {
+				run = this._createImageRun( child );
+			} else {
+				continue;
+			}
+
+			const lastGroup = groups[ groups.length - 1 ];
+
+			if ( lastGroup && lastGroup.href === href ) {
+				lastGroup.runs.push( run );
+			} else {
+				groups.push( { href, runs: [ run ] } );
+			}
+		}
+
+		return groups.map( ( { href, runs } ) => {
+			if ( !href ) {
+				return runs.join( '' );
+			}
+
+			const target = href.startsWith( '#' ) ?
+				`w:anchor="${ escapeXml( href.slice( 1 ) ) }"` :
+				`r:id="${ this._addRelationship( RELATIONSHIP_TYPES.hyperlink, href, true ) }"`;
+
+			return `<w:hyperlink ${ target }>${ runs.join( '' ) }</w:hyperlink>`;
+		} ).join( '' );
+	}
+
+	/**
+	 * Creates a run containing the text formatted according to the attributes of the node.
+	 */
+	private _createTextRun( text: string, node?: Node ): string {
+		const properties = node ? this._createRunProperties( node ) : '';
+		const content = text.split( '\t' ).map( part => part ? `<w:t xml:space="preserve">${ escapeXml( part ) }</w:t>` : '' );
+
+		return `<w:r>${ properties ? `<w:rPr>${ properties }</w:rPr>` : '' }${ content.join( '<w:tab/>' ) }</w:r>`;
+	}
+
+	/**
+	 * Creates the run properties corresponding to the text attributes of the node.
+	 */
+	private _createRunProperties( node: Node ): string {
+		const properties: Array<string> = [];
+		const fontFamily = node.getAttribute( 'fontFamily' ) as string | undefined;
+		const fontColor = toHexColor( ( node.getAttribute( 'fontColor' ) as string | undefined ) || '' );
+		const fontSize = getFontSize( ( node.getAttribute( 'fontSize' ) as string | undefined ) || '' );
+		const backgroundColor = toHexColor( ( node.getAttribute( 'fontBackgroundColor' ) as string | undefined ) || '' );
+		const highlight = HIGHLIGHTS[ node.getAttribute( 'highlight' ) as string ];
+
+		if ( node.hasAttribute( 'linkHref' ) ) {
+			properties.push( '<w:rStyle w:val="Hyperlink"/>' );
+		}
+
+		if ( node.hasAttribute( 'code' ) || fontFamily ) {
+			const font = escapeXml( node.hasAttribute( 'code' ) ? 'Courier New' : getFirstFontFamily( fontFamily! ) );
+
+			properties.push( `<w:rFonts w:ascii="${ font }" w:hAnsi="${ font }" w:eastAsia="${ font }" w:cs="${ font }"/>` );
+		}
+
+		if ( node.hasAttribute( 'bold' ) ) {
+			properties.push( '<w:b/>' );
+		}
+
+		if ( node.hasAttribute( 'italic' ) ) {
+			properties.push( '<w:i/>' );
+		}
+
+		if ( node.hasAttribute( 'strikethrough' ) ) {
+			properties.push( '<w:strike/>' );
+		}
+
+		if ( fontColor || ( highlight && highlight.color ) ) {
+			properties.push( `<w:color w:val="${ fontColor || highlight!.color }"/>` );
+		}
+
+		if ( fontSize ) {
+			properties.push( `<w:sz w:val="${ fontSize }"/><w:szCs w:val="${ fontSize }"/>` );
+		}
+
+		if ( highlight && highlight.marker ) {
+			properties.push( `<w:highlight w:val="${ highlight.marker }"/>` );
+		}
+
+		if ( node.hasAttribute( 'underline' ) ) {
+			properties.push( '<w:u w:val="single"/>' );
+		}
+
+		if ( backgroundColor ) {
+			properties.push( `<w:shd w:val="clear" w:color="auto" w:fill="${ backgroundColor }"/>` );
+		}
+
+		if ( node.hasAttribute( 'subscript' ) ) {
+			properties.push( '<w:vertAlign w:val="subscript"/>' );
+		} else if ( node.hasAttribute( 'superscript' ) ) {
+			properties.push( '<w:vertAlign w:val="superscript"/>' );
+		}
+
+		return properties.join( '' );
+	}
+
+	/**
+	 * Converts a table. The merged cells are represented by the horizontally spanned cells
+	 * and the vertically merged cells in the subsequent rows.
+	 */
+	private _convertTable( table: Element ): string {
+		const tableUtils: TableUtils = this._editor.plugins.get( 'TableUtils' );
+		const columnCount = tableUtils.getColumns( table );
+		const columnWidth = Math.floor( TEXT_WIDTH / columnCount );
+		const headingRows = ( table.getAttribute( 'headingRows' ) as number | undefined ) || 0;
+		const rows: Array<Array<string>> = Array.from( { length: tableUtils.getRows( table ) }, () => [] );
+
+		for ( const slot of tableUtils.createTableWalker( table, { includeAllSlots: true } ) ) {
+			const { row, column, cellAnchorRow, cellAnchorColumn, cellWidth, cellHeight } = slot;
+
+			// The slots covered by a horizontally spanned cell are not represented in the document.
+			if ( column != cellAnchorColumn ) {
+				continue;
+			}
+
+			const properties = [ `<w:tcW w:w="${ columnWidth * cellWidth }" w:type="dxa"/>` ];
+
+			if ( cellWidth > 1 ) {
+				properties.push( `<w:gridSpan w:val="${ cellWidth }"/>` );
+			}
+
+			if ( cellHeight > 1 ) {
+				properties.push( row == cellAnchorRow ? '<w:vMerge w:val="restart"/>' : '<w:vMerge/>' );
+			}
+
+			const content = row == cellAnchorRow ? this.convertBlocks( slot.cell.getChildren() ) : '';
+
+			// Each table cell must end with a paragraph.
+			rows[ row ].push(
+				`<w:tc><w:tcPr>${ properties.join( '' ) }</w:tcPr>${ content.endsWith( '</w:p>' ) ? content : content + '<w:p/>' }</w:tc>`
+			);
+		}
+
+		const caption = Array.from( table.getChildren() ).find( child => child.is( 'element', 'caption' ) ) as Element | undefined;
+
+		return '<w:tbl>' +
+			'<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>' +
+			`<w:tblGrid>${ `<w:gridCol w:w="${ columnWidth }"/>`.repeat( columnCount ) }</w:tblGrid>` +
+			rows.map( ( cells, index ) => (
+				`<w:tr>${ index < headingRows ? '<w:trPr><w:tblHeader/></w:trPr>' : '' }${ cells.join( '' ) }</w:tr>`
+			) ).join( '' ) +
+		'</w:tbl>' +
+		( caption ? this._convertParagraph( caption ) : '' );
+	}
+
+	/**
+	 * Converts a block image and its caption.
+	 */
+	private _convertImageBlock( image: Element ): string {
+		const caption = Array.from( image.getChildren() ).find( child => child.is( 'element', 'caption' ) ) as Element | undefined;
+
+		return `<w:p><w:pPr><w:jc w:val="center"/></w:pPr>${ this._createImageRun( image ) }</w:p>` +
+			( caption ? this._convertParagraph( caption ) : '' );
+	}
+
+	/**
+	 * Creates a run containing an image. The images that could not be loaded are replaced with their alternative texts.
+	 */
+	private _createImageRun( image: Element ): string {
+		const loadedImage = this._images.get( image );
+		const alt = ( image.getAttribute( 'alt' ) as string | undefined ) || '';
+
+		if ( !loadedImage ) {
+			return alt ? this._createTextRun( alt ) : '';
+		}
+
+		const id = this.media.length + 1;
+		const fileName = `image${ id }.${ loadedImage.extension }`;
+		const relationshipId = this._addRelationship( RELATIONSHIP_TYPES.image, `media/${ fileName }` );
+		const width = getImageWidth( loadedImage, image.getAttribute( 'width' ) as string | undefined );
+		const cx = Math.round( width * EMUS_PER_PIXEL );
+		const cy = Math.round( width * loadedImage.height / loadedImage.width * EMUS_PER_PIXEL );
+
+		this.media.push( { name: fileName, extension: loadedImage.extension, data: loadedImage.data } );
+
+		return '<w:r><w:drawing>' +
+			'<wp:inline distT="0" distB="0" distL="0" distR="0">' +
+				`<wp:extent cx="${ cx }" cy="${ cy }"/>` +
+				`<wp:docPr id="${ id }" name="Picture ${ id }" descr="${ escapeXml( alt ) }"/>` +
+				'<a:graphic>' +
+					'<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+						'<pic:pic>' +
+							`<pic:nvPicPr><pic:cNvPr id="${ id }" name="${ fileName }"/><pic:cNvPicPr/></pic:nvPicPr>` +
+							`<pic:blipFill><a:blip r:embed="${ relationshipId }"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+							'<pic:spPr>' +
+								`<a:xfrm><a:off x="0" y="0"/><a:ext cx="${ cx }" cy="${ cy }"/></a:xfrm>` +
+								'<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>' +
+							'</pic:spPr>' +
+						'</pic:pic>' +
+					'</a:graphicData>' +
+				'</a:graphic>' +
+			'</wp:inline>' +
+		'</w:drawing></w:r>';
+	}
+
+	/**
+	 * Converts an embedded media to a paragraph with a link to the media.
+	 */
+	private _convertMedia( media: Element ): string {
+		const url = media.getAttribute( 'url' ) as string | undefined;
+
+		if ( !url ) {
+			return '';
+		}
+
+		const relationshipId = this._addRelationship( RELATIONSHIP_TYPES.hyperlink, url, true );
+		const run = `<w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t xml:space="preserve">${ escapeXml( url ) }</w:t></w:r>`;
+
+		return `<w:p><w:hyperlink r:id="${ relationshipId }">${ run }</w:hyperlink></w:p>`;
+	}
+
+	/**
+	 * Adds a relationship of the main document part and returns its id.
+	 */
+	private _addRelationship( type: string, target: string, isExternal?: boolean ): string {
+		const id = `rId${ this.relationships.length + 1 }`;
+
+		this.relationships.push( { id, type, target, isExternal } );
+
+		return id;
+	}
+}
+
+/**
+ * Fetches an image and reads its type and dimensions. Resolves with `null` if the image cannot be fetched or is not supported.
+ */
+function loadImage( src: string ): Promise<LoadedImage | null> {
+	return fetch( src )
+		.then( response => response.arrayBuffer() )
+		.then( buffer => {
+			const data = new Uint8Array( buffer );
+			const info = getImageInfo( data );
+
+			return info && info.width && info.height ? { ...info, data } : null;
+		} )
+		.catch( () => null );
+}
+
+/**
+ * Returns the number format and the bullet of a list item.
+ */
+function getListFormat( element: Element ): [ string, string? ] {
+	const listStyle = LIST_STYLES[ element.getAttribute( 'listStyle' ) as string ];
+	const isNumbered = element.getAttribute( 'listType' ) == 'numbered';
+
+	if ( listStyle && ( listStyle[ 0 ] != 'bullet' ) == isNumbered ) {
+		return listStyle;
+	}
+
+	return isNumbered ? [ 'decimal' ] : [ 'bullet' ];
+}
+
+/**
+ * Returns the font size in half-points for the value of the `fontSize` attribute.
+ */
+function getFontSize( value: string ): number | null {
+	if ( NAMED_FONT_SIZES[ value ] ) {
+		return Math.round( DEFAULT_FONT_SIZE * NAMED_FONT_SIZES[ value ] );
+	}
+
+	const size = parseFloat( value );
+
+	if ( !size ) {
+		return null;
+	}
+
+	if ( value.endsWith( 'pt' ) ) {
+		return Math.round( size * 2 );
+	}
+
+	if ( value.endsWith( 'em' ) || value.endsWith( '%' ) ) {
+		return Math.round( DEFAULT_FONT_SIZE * ( value.endsWith( '%' ) ? size / 100 : size ) );
+	}
+
+	return Math.round( size * 1.5 );
+}
+
+/**
+ * Returns the first font from the value of the `font-family` CSS property.
+ */
+function getFirstFontFamily( value: string ): string {
+	return value.split( ',' )[ 0 ].trim().replace( /^["']|["']$/g, '' );
+}
+
+/**
+ * Converts a CSS length in pixels or points to twentieths of a point.
+ */
+function toTwips( value: string ): number {
+	const size = parseFloat( value ) || 0;
+
+	return Math.round( value.endsWith( 'pt' ) ? size * 20 : size * 15 );
+}
+
+/**
+ * Returns the width of an image in pixels, taking its resized width into account.
+ */
+function getImageWidth( image: LoadedImage, resizedWidth?: string ): number {
+	let width = image.width;
+
+	if ( resizedWidth && resizedWidth.endsWith( '%' ) ) {
+		width = MAX_IMAGE_WIDTH * parseFloat( resizedWidth ) / 100;
+	} else if ( resizedWidth && parseFloat( resizedWidth ) ) {
+		width = parseFloat( resizedWidth );
+	}
+
+	return Math.min( width, MAX_IMAGE_WIDTH );
+}
@@ -0,0 +1,72 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-word/exportword
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import { ButtonView } from 'ckeditor5/src/ui';
+
+import ExportWordCommand from './exportwordcommand';
+
+import exportWordIcon from '../theme/icons/export-word.svg';
+
+/**
+ * The export to Word feature. It allows for saving the editor content as a Word document (`.docx`).
+ *
+ * The plugin registers the `'exportWord'` {@link module:export-word/exportwordcommand~ExportWordCommand command}
+ * and the `'exportWord'` toolbar button. The document is created in the browser, without any cloud service.
+ *
+ * See {@link module:export-word/exportwordconfig~ExportWordConfig} to learn how to configure the feature.
+ */
+export default class ExportWord extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'ExportWord' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'exportWord', {
+			fileName: 'document.docx'
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.commands.add( 'exportWord', new ExportWordCommand( editor ) );
+
+		editor.ui.componentFactory.add( 'exportWord', locale => {
+			const command = editor.commands.get( 'exportWord' )!;
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Export to Word' ),
+				icon: exportWordIcon,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).to( command );
+
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'exportWord' );
+			} );
+
+			return view;
+		} );
+	}
+}
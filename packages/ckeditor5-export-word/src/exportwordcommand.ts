@@ -0,0 +1,89 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-word/exportwordcommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+import { CKEditorError, global } from 'ckeditor5/src/utils';
+
+import DocxWriter from './docxwriter';
+
+/**
+ * The command saving the editor content as a Word document. It is registered by
+ * {@link module:export-word/exportword~ExportWord} as `'exportWord'`.
+ *
+ * ```ts
+ * editor.execute( 'exportWord' );
+ * editor.execute( 'exportWord', { fileName: 'report.docx' } );
+ * ```
+ *
+ * The document is created in the browser by {@link module:export-word/docxwriter~DocxWriter} and downloaded as a file.
+ */
+export default class ExportWordCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		// Exporting does not change the content, so it is possible in the read-only mode.
+		this.affectsData = false;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = true;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.fileName The name of the downloaded file. Defaults to
+	 * {@link module:export-word/exportwordconfig~ExportWordConfig#fileName `config.exportWord.fileName`}.
+	 * @param options.rootName The name of the exported root. Defaults to `'main'`.
+	 * @returns A promise resolved once the document is downloaded.
+	 */
+	public override execute( options: { fileName?: string; rootName?: string } = {} ): Promise<void> {
+		const editor = this.editor;
+		const rootName = options.rootName || 'main';
+		const fileName = options.fileName || editor.config.get( 'exportWord.fileName' )!;
+		const root = editor.model.document.getRoot( rootName );
+
+		if ( !root ) {
+			/**
+			 * The root to export does not exist.
+			 *
+			 * @error export-word-root-not-found
+			 * @param rootName The name of the root.
+			 */
+			throw new CKEditorError( 'export-word-root-not-found', this, { rootName } );
+		}
+
+		return new DocxWriter( editor ).write( root ).then( blob => downloadFile( blob, fileName ) );
+	}
+}
+
+/**
+ * Saves the file using a temporary link.
+ */
+function downloadFile( blob: Blob, fileName: string ): void {
+	const url = global.window.URL.createObjectURL( blob );
+	const link = global.document.createElement( 'a' );
+
+	link.href = url;
+	link.download = fileName;
+	link.style.display = 'none';
+
+	global.document.body.appendChild( link );
+	link.click();
+	link.remove();
+
+	global.window.URL.revokeObjectURL( url );
+}
@@ -0,0 +1,17 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-word
+ */
+
+export { default as ExportWord } from './exportword';
+export { default as ExportWordCommand } from './exportwordcommand';
+export { default as DocxWriter, DOCX_MIME_TYPE } from './docxwriter';
+export { createZip, type ZipEntry } from './zip';
+
+export type { ExportWordConfig } from './exportwordconfig';
+
+import './augmentation';
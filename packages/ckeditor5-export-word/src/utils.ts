@@ -0,0 +1,143 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-word/utils
+ */
+
+/**
+ * The information about an image that can be embedded in a Word document.
+ */
+export interface ImageInfo {
+
+	/**
+	 * The file extension of the image.
+	 */
+	extension: 'png' | 'jpeg' | 'gif';
+
+	/**
+	 * The width of the image in pixels.
+	 */
+	width: number;
+
+	/**
+	 * The height of the image in pixels.
+	 */
+	height: number;
+}
+
+/**
+ * The XML entities of the characters that are escaped.
+ */
+const XML_ENTITIES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	'\'': '&apos;'
+};
+
+/**
+ * Escapes the text so it can be used in the XML content and attribute values.
+ *
+ * @param text The text to escape.
+ */
+export function escapeXml( text: string ): string {
+	return text.replace( /[&<>"']/g, character => XML_ENTITIES[ character ] );
+}
+
+/**
+ * Converts a CSS color to the hexadecimal format used in Office Open XML, for instance `'FF0000'`.
+ *
+ * The hex, `rgb()`, `rgba()`, `hsl()` and `hsla()` notations are supported. Returns `null` for other values.
+ *
+ * @param color The CSS color.
+ */
+export function toHexColor( color: string ): string | null {
+	const value = color.trim().toLowerCase();
+	const hexMatch = value.match( /^#([0-9a-f]{3}|[0-9a-f]{6})$/ );
+
+	if ( hexMatch ) {
+		const hex = hexMatch[ 1 ];
+
+		return ( hex.length == 3 ? hex.replace( /./g, '$&$&' ) : hex ).toUpperCase();
+	}
+
+	const functionMatch = value.match( /^(rgba?|hsla?)\(([^)]*)\)$/ );
+
+	if ( !functionMatch ) {
+		return null;
+	}
+
+	const channels = functionMatch[ 2 ].split( /[\s,/]+/ ).filter( Boolean ).map( channel => parseFloat( channel ) );
+
+	if ( channels.length < 3 || channels.some( channel => isNaN( channel ) ) ) {
+		return null;
+	}
+
+	const [ red, green, blue ] = functionMatch[ 1 ].startsWith( 'rgb' ) ?
+		channels :
+		hslToRgb( channels[ 0 ], channels[ 1 ], channels[ 2 ] );
+
+	return [ red, green, blue ]
+		.map( channel => Math.round( Math.min( Math.max( channel, 0 ), 255 ) ).toString( 16 ).padStart( 2, '0' ) )
+		.join( '' )
+		.toUpperCase();
+}
+
+/**
+ * Reads the type and the dimensions of a PNG, JPEG or GIF image. Returns `null` for other or invalid images.
+ *
+ * @param data The content of the image file.
+ */
+export function getImageInfo( data: Uint8Array ): ImageInfo | null {
+	const view = new DataView( data.buffer, data.byteOffset, data.byteLength );
+
+	// PNG: the dimensions are stored in the IHDR chunk that follows the signature.
+	if ( data.length >= 24 && view.getUint32( 0 ) == 0x89504e47 ) {
+		return { extension: 'png', width: view.getUint32( 16 ), height: view.getUint32( 20 ) };
+	}
+
+	// GIF: the dimensions of the logical screen follow the signature.
+	if ( data.length >= 10 && view.getUint32( 0 ) == 0x47494638 ) {
+		return { extension: 'gif', width: view.getUint16( 6, true ), height: view.getUint16( 8, true ) };
+	}
+
+	// JPEG: the dimensions are stored in the "start of frame" segment.
+	if ( data.length >= 4 && view.getUint16( 0 ) == 0xffd8 ) {
+		let offset = 2;
+
+		while ( offset + 9 < data.length ) {
+			if ( data[ offset ] != 0xff ) {
+				return null;
+			}
+
+			const marker = data[ offset + 1 ];
+
+			if ( marker >= 0xc0 && marker <= 0xcf && marker != 0xc4 && marker != 0xc8 && marker != 0xcc ) {
+				return { extension: 'jpeg', width: view.getUint16( offset + 7 ), height: view.getUint16( offset + 5 ) };
+			}
+
+			offset += 2 + view.getUint16( offset + 2 );
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Converts an HSL color to RGB channels. The saturation and the lightness are percentages, which avoids
+ * the floating-point rounding errors of fractions.
+ */
+function hslToRgb( hue: number, saturation: number, lightness: number ): Array<number> {
+	const chroma = ( 100 - Math.abs( 2 * lightness - 100 ) ) * saturation / 100;
+	const getChannel = ( n: number ) => {
+		const k = ( n + hue / 30 ) % 12;
+
+		return ( lightness - chroma / 2 * Math.max( -1, Math.min( k - 3, 9 - k, 1 ) ) ) * 255 / 100;
+	};
+
+	return [ getChannel( 0 ), getChannel( 8 ), getChannel( 4 ) ];
+}
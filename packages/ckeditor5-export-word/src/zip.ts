@@ -0,0 +1,197 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module export-word/zip
+ */
+
+/**
+ * A file stored in a ZIP archive.
+ */
+export interface ZipEntry {
+
+	/**
+	 * The path of the file in the archive, for instance `'word/document.xml'`.
+	 */
+	name: string;
+
+	/**
+	 * The content of the file. Strings are encoded as UTF-8.
+	 */
+	data: string | Uint8Array;
+}
+
+/**
+ * The version of the ZIP specification needed to extract the files (2.0).
+ */
+const ZIP_VERSION = 20;
+
+/**
+ * The general purpose flag informing that the file names are encoded as UTF-8.
+ */
+const UTF8_FLAG = 0x0800;
+
+/**
+ * The DOS date of the files (1980-01-01). The modification time of the files is not stored.
+ */
+const DOS_DATE = 0x0021;
+
+/**
+ * The lookup table for the CRC-32 checksum.
+ */
+const CRC_TABLE = ( () => {
+	const table = new Uint32Array( 256 );
+
+	for ( let i = 0; i < 256; i++ ) {
+		let value = i;
+
+		for ( let bit = 0; bit < 8; bit++ ) {
+			value = value & 1 ? 0xedb88320 ^ ( value >>> 1 ) : value >>> 1;
+		}
+
+		table[ i ] = value;
+	}
+
+	return table;
+} )();
+
+/**
+ * Creates a ZIP archive containing the given files.
+ *
+ * The files are stored without compression. It keeps the implementation small and it is enough for the Office Open XML
+ * packages, as they are usually small and the images they contain are already compressed.
+ *
+ * @param entries The files to store in the archive.
+ * @returns The content of the archive.
+ */
+export function createZip( entries: Array<ZipEntry> ): Uint8Array {
+	const encoder = new TextEncoder();
+	const localParts: Array<Uint8Array> = [];
+	const centralParts: Array<Uint8Array> = [];
+
+	let offset = 0;
+
+	for ( const entry of entries ) {
+		const name = encoder.encode( entry.name );
+		const data = typeof entry.data == 'string' ? encoder.encode( entry.data ) : entry.data;
+		const crc = crc32( data );
+
+		const localHeader = new ZipDataWriter( 30 + name.length );
+
+		localHeader.writeUint32( 0x04034b50 );
+		writeEntryProperties( localHeader, name, data, crc );
+		localHeader.writeUint16( 0 );
+		localHeader.writeBytes( name );
+
+		const centralHeader = new ZipDataWriter( 46 + name.length );
+
+		centralHeader.writeUint32( 0x02014b50 );
+		centralHeader.writeUint16( ZIP_VERSION );
+		writeEntryProperties( centralHeader, name, data, crc );
+		centralHeader.writeUint16( 0 );
+		centralHeader.writeUint16( 0 );
+		centralHeader.writeUint16( 0 );
+		centralHeader.writeUint16( 0 );
+		centralHeader.writeUint32( 0 );
+		centralHeader.writeUint32( offset );
+		centralHeader.writeBytes( name );
+
+		localParts.push( localHeader.bytes, data );
+		centralParts.push( centralHeader.bytes );
+
+		offset += localHeader.bytes.length + data.length;
+	}
+
+	const centralDirectorySize = centralParts.reduce( ( size, part ) => size + part.length, 0 );
+	const end = new ZipDataWriter( 22 );
+
+	end.writeUint32( 0x06054b50 );
+	end.writeUint16( 0 );
+	end.writeUint16( 0 );
+	end.writeUint16( entries.length );
+	end.writeUint16( entries.length );
+	end.writeUint32( centralDirectorySize );
+	end.writeUint32( offset );
+	end.writeUint16( 0 );
+
+	return concatBytes( [ ...localParts, ...centralParts, end.bytes ] );
+}
+
+/**
+ * Calculates the CRC-32 checksum of the data.
+ *
+ * @param data The data to calculate the checksum for.
+ */
+export function crc32( data: Uint8Array ): number {
+	let crc = 0xffffffff;
+
+	for ( const byte of data ) {
+		crc = CRC_TABLE[ ( crc ^ byte ) & 0xff ] ^ ( crc >>> 8 );
+	}
+
+	return ( crc ^ 0xffffffff ) >>> 0;
+}
+
+/**
+ * Writes the properties of an entry shared by its local file header and its central directory header.
+ */
+function writeEntryProperties( writer: ZipDataWriter, name: Uint8Array, data: Uint8Array, crc: number ): void {
+	writer.writeUint16( ZIP_VERSION );
+	writer.writeUint16( UTF8_FLAG );
+	// Compression method: stored.
+	writer.writeUint16( 0 );
+	writer.writeUint16( 0 );
+	writer.writeUint16( DOS_DATE );
+	writer.writeUint32( crc );
+	writer.writeUint32( data.length );
+	writer.writeUint32( data.length );
+	writer.writeUint16( name.length );
+}
+
+/**
+ * Joins the byte arrays.
+ */
+function concatBytes( parts: Array<Uint8Array> ): Uint8Array {
+	const result = new Uint8Array( parts.reduce( ( length, part ) => length + part.length, 0 ) );
+
+	let offset = 0;
+
+	for ( const part of parts ) {
+		result.set( part, offset );
+		offset += part.length;
+	}
+
+	return result;
+}
+
+/**
+ * Writes the little-endian values of the ZIP headers.
+ */
+class ZipDataWriter {
+	public readonly bytes: Uint8Array;
+
+	private readonly _view: DataView;
+	private _offset = 0;
+
+	constructor( length: number ) {
+		this.bytes = new Uint8Array( length );
+		this._view = new DataView( this.bytes.buffer );
+	}
+
+	public writeUint16( value: number ): void {
+		this._view.setUint16( this._offset, value, true );
+		this._offset += 2;
+	}
+
+	public writeUint32( value: number ): void {
+		this._view.setUint32( this._offset, value, true );
+		this._offset += 4;
+	}
+
+	public writeBytes( bytes: Uint8Array ): void {
+		this.bytes.set( bytes, this._offset );
+		this._offset += bytes.length;
+	}
+}
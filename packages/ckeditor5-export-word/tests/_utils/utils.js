@@ -0,0 +1,54 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global TextDecoder */
+
+/**
+ * Reads the files stored (without compression) in a ZIP archive.
+ *
+ * @param {Uint8Array} bytes The content of the archive.
+ * @returns {Map.<String,Uint8Array>} The content of the files by their names.
+ */
+export function readZip( bytes ) {
+	const view = new DataView( bytes.buffer, bytes.byteOffset, bytes.byteLength );
+	const decoder = new TextDecoder();
+	const files = new Map();
+
+	let offset = 0;
+
+	while ( view.getUint32( offset, true ) == 0x04034b50 ) {
+		const size = view.getUint32( offset + 18, true );
+		const nameLength = view.getUint16( offset + 26, true );
+		const extraLength = view.getUint16( offset + 28, true );
+		const name = decoder.decode( bytes.subarray( offset + 30, offset + 30 + nameLength ) );
+		const dataOffset = offset + 30 + nameLength + extraLength;
+
+		files.set( name, bytes.subarray( dataOffset, dataOffset + size ) );
+
+		offset = dataOffset + size;
+	}
+
+	return files;
+}
+
+/**
+ * Reads the parts of a Word document.
+ *
+ * @param {Blob} blob The document.
+ * @returns {Promise.<Object>} The XML parts by their names and the `body` of the `word/document.xml` part.
+ */
+export async function readDocx( blob ) {
+	const files = readZip( new Uint8Array( await blob.arrayBuffer() ) );
+	const decoder = new TextDecoder();
+	const parts = {};
+
+	for ( const [ name, data ] of files ) {
+		parts[ name ] = name.endsWith( '.xml' ) || name.endsWith( '.rels' ) ? decoder.decode( data ) : data;
+	}
+
+	parts.body = parts[ 'word/document.xml' ].match( /<w:body>(.*)<w:sectPr>/ )[ 1 ];
+
+	return parts;
+}
@@ -0,0 +1,434 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import HeadingEditing from '@ckeditor/ckeditor5-heading/src/headingediting';
+import BlockQuoteEditing from '@ckeditor/ckeditor5-block-quote/src/blockquoteediting';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import ItalicEditing from '@ckeditor/ckeditor5-basic-styles/src/italic/italicediting';
+import UnderlineEditing from '@ckeditor/ckeditor5-basic-styles/src/underline/underlineediting';
+import StrikethroughEditing from '@ckeditor/ckeditor5-basic-styles/src/strikethrough/strikethroughediting';
+import CodeEditing from '@ckeditor/ckeditor5-basic-styles/src/code/codeediting';
+import SubscriptEditing from '@ckeditor/ckeditor5-basic-styles/src/subscript/subscriptediting';
+import SuperscriptEditing from '@ckeditor/ckeditor5-basic-styles/src/superscript/superscriptediting';
+import FontFamilyEditing from '@ckeditor/ckeditor5-font/src/fontfamily/fontfamilyediting';
+import FontSizeEditing from '@ckeditor/ckeditor5-font/src/fontsize/fontsizeediting';
+import FontColorEditing from '@ckeditor/ckeditor5-font/src/fontcolor/fontcolorediting';
+import FontBackgroundColorEditing from '@ckeditor/ckeditor5-font/src/fontbackgroundcolor/fontbackgroundcolorediting';
+import HighlightEditing from '@ckeditor/ckeditor5-highlight/src/highlightediting';
+import AlignmentEditing from '@ckeditor/ckeditor5-alignment/src/alignmentediting';
+import LinkEditing from '@ckeditor/ckeditor5-link/src/linkediting';
+import CodeBlockEditing from '@ckeditor/ckeditor5-code-block/src/codeblockediting';
+import DocumentListPropertiesEditing from '@ckeditor/ckeditor5-list/src/documentlistproperties/documentlistpropertiesediting';
+import TableEditing from '@ckeditor/ckeditor5-table/src/tableediting';
+import ImageBlockEditing from '@ckeditor/ckeditor5-image/src/image/imageblockediting';
+import ImageInlineEditing from '@ckeditor/ckeditor5-image/src/image/imageinlineediting';
+import ImageCaptionEditing from '@ckeditor/ckeditor5-image/src/imagecaption/imagecaptionediting';
+import ImageResizeEditing from '@ckeditor/ckeditor5-image/src/imageresize/imageresizeediting';
+import PageBreakEditing from '@ckeditor/ckeditor5-page-break/src/pagebreakediting';
+import HorizontalLineEditing from '@ckeditor/ckeditor5-horizontal-line/src/horizontallineediting';
+import MediaEmbedEditing from '@ckeditor/ckeditor5-media-embed/src/mediaembedediting';
+import { setData as setModelData, parse as parseModel } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import DocxWriter, { DOCX_MIME_TYPE } from '../src/docxwriter';
+import { readDocx } from './_utils/utils';
+
+// A PNG image with the size of 2x1 pixels.
+const PNG_SRC = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAIAAAABCAAAAADRSSBWAAAAC0lEQVR4nGNgYAAAAAMAAbitOmMAAAAASUVORK5CYII=';
+const SVG_SRC = 'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPjwvc3ZnPg==';
+
+describe( 'DocxWriter', () => {
+	let editor, writer;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [
+				Paragraph, HeadingEditing, BlockQuoteEditing, BoldEditing, ItalicEditing, UnderlineEditing, StrikethroughEditing,
+				CodeEditing, SubscriptEditing, SuperscriptEditing, FontFamilyEditing, FontSizeEditing, FontColorEditing,
+				FontBackgroundColorEditing, HighlightEditing, AlignmentEditing, LinkEditing, CodeBlockEditing,
+				DocumentListPropertiesEditing, TableEditing, ImageBlockEditing, ImageInlineEditing, ImageCaptionEditing, ImageResizeEditing,
+				PageBreakEditing, HorizontalLineEditing, MediaEmbedEditing
+			],
+			fontSize: {
+				options: [ 'default', 'big', 18 ]
+			},
+			list: {
+				properties: { styles: true, startIndex: true }
+			}
+		} );
+
+		writer = new DocxWriter( editor );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	describe( 'write()', () => {
+		it( 'should create a Word document', async () => {
+			editor.setData( '<p>Foo</p>' );
+
+			const blob = await writer.write( editor.model.document.getRoot() );
+			const docx = await readDocx( blob );
+
+			expect( blob.type ).to.equal( DOCX_MIME_TYPE );
+			expect( Object.keys( docx ) ).to.include.members( [
+				'[Content_Types].xml', '_rels/.rels', 'word/document.xml', 'word/_rels/document.xml.rels', 'word/styles.xml',
+				'word/numbering.xml'
+			] );
+			expect( docx[ '_rels/.rels' ] ).to.include( 'Target="word/document.xml"' );
+			expect( docx[ 'word/_rels/document.xml.rels' ] ).to.include( 'Id="rId1"' ).and.to.include( 'Target="styles.xml"' );
+			expect( docx[ 'word/styles.xml' ] ).to.include( 'w:styleId="Heading1"' );
+			expect( docx.body ).to.equal( `<w:p>${ run( 'Foo' ) }</w:p>` );
+		} );
+
+		it( 'should convert a document fragment', async () => {
+			const fragment = editor.data.parse( '<p>Foo</p><p>Bar</p>' );
+
+			expect( await getBody( fragment ) ).to.equal( `<w:p>${ run( 'Foo' ) }</w:p><w:p>${ run( 'Bar' ) }</w:p>` );
+		} );
+
+		it( 'should escape the text', async () => {
+			editor.setData( '<p>a &lt; b &amp; "c"</p>' );
+
+			expect( await getBody() ).to.equal( `<w:p>${ run( 'a &lt; b &amp; &quot;c&quot;' ) }</w:p>` );
+		} );
+
+		describe( 'blocks', () => {
+			it( 'should convert the paragraphs', async () => {
+				editor.setData( '<p>Foo</p><p></p>' );
+
+				expect( await getBody() ).to.equal( `<w:p>${ run( 'Foo' ) }</w:p><w:p></w:p>` );
+			} );
+
+			it( 'should convert the headings', async () => {
+				editor.setData( '<h2>Foo</h2><h3>Bar</h3>' );
+
+				expect( await getBody() ).to.equal(
+					`<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr>${ run( 'Foo' ) }</w:p>` +
+					`<w:p><w:pPr><w:pStyle w:val="Heading2"/></w:pPr>${ run( 'Bar' ) }</w:p>`
+				);
+			} );
+
+			it( 'should convert the block quotes', async () => {
+				editor.setData( '<blockquote><p>Foo</p><h2>Bar</h2></blockquote>' );
+
+				expect( await getBody() ).to.equal(
+					`<w:p><w:pPr><w:pStyle w:val="Quote"/></w:pPr>${ run( 'Foo' ) }</w:p>` +
+					`<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr>${ run( 'Bar' ) }</w:p>`
+				);
+			} );
+
+			it( 'should convert the code blocks', async () => {
+				editor.setData( '<pre><code class="language-plaintext">a\tb\nc</code></pre>' );
+
+				expect( await getBody() ).to.equal(
+					'<w:p><w:pPr><w:pStyle w:val="Code"/></w:pPr>' +
+						'<w:r><w:t xml:space="preserve">a</w:t><w:tab/><w:t xml:space="preserve">b</w:t></w:r>' +
+						'<w:r><w:br/></w:r>' +
+						run( 'c' ) +
+					'</w:p>'
+				);
+			} );
+
+			it( 'should convert the alignment', async () => {
+				editor.setData( '<p style="text-align:center">Foo</p><p style="text-align:justify">Bar</p>' );
+
+				expect( await getBody() ).to.equal(
+					`<w:p><w:pPr><w:jc w:val="center"/></w:pPr>${ run( 'Foo' ) }</w:p>` +
+					`<w:p><w:pPr><w:jc w:val="both"/></w:pPr>${ run( 'Bar' ) }</w:p>`
+				);
+			} );
+
+			it( 'should convert the block indentation', async () => {
+				editor.model.schema.extend( 'paragraph', { allowAttributes: 'blockIndent' } );
+				setModelData( editor.model, '<paragraph blockIndent="40px">Foo</paragraph>' );
+
+				expect( await getBody() ).to.equal( `<w:p><w:pPr><w:ind w:left="600"/></w:pPr>${ run( 'Foo' ) }</w:p>` );
+			} );
+
+			it( 'should convert the page breaks, horizontal lines and media embeds', async () => {
+				setModelData( editor.model,
+					'<pageBreak></pageBreak>' +
+					'<horizontalLine></horizontalLine>' +
+					'<media url="https://www.youtube.com/watch?v=H08tGjXNHO4"></media>'
+				);
+
+				const docx = await readDocx( await writer.write( editor.model.document.getRoot() ) );
+
+				expect( docx.body ).to.equal(
+					'<w:p><w:r><w:br w:type="page"/></w:r></w:p>' +
+					'<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>' +
+					'<w:p><w:hyperlink r:id="rId3">' +
+						'<w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr>' +
+						'<w:t xml:space="preserve">https://www.youtube.com/watch?v=H08tGjXNHO4</w:t></w:r>' +
+					'</w:hyperlink></w:p>'
+				);
+				expect( docx[ 'word/_rels/document.xml.rels' ] ).to.include(
+					'<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" ' +
+					'Target="https://www.youtube.com/watch?v=H08tGjXNHO4" TargetMode="External"/>'
+				);
+			} );
+
+			it( 'should convert the unknown elements that can contain text to paragraphs', async () => {
+				editor.model.schema.register( 'customBlock', { inheritAllFrom: '$block' } );
+
+				const fragment = parseModel( '<customBlock>Foo</customBlock><paragraph>Bar</paragraph>', editor.model.schema );
+
+				expect( await getBody( fragment ) ).to.equal( `<w:p>${ run( 'Foo' ) }</w:p><w:p>${ run( 'Bar' ) }</w:p>` );
+			} );
+
+			it( 'should convert the content of other unknown elements', async () => {
+				editor.model.schema.register( 'customContainer', { inheritAllFrom: '$container' } );
+
+				const fragment = parseModel( '<customContainer><paragraph>Foo</paragraph></customContainer><paragraph>Bar</paragraph>',
+					editor.model.schema );
+
+				expect( await getBody( fragment ) ).to.equal( `<w:p>${ run( 'Foo' ) }</w:p><w:p>${ run( 'Bar' ) }</w:p>` );
+			} );
+		} );
+
+		describe( 'text attributes', () => {
+			it( 'should convert the basic styles', async () => {
+				editor.setData( '<p><strong>a</strong><i>b</i><u>c</u><s>d</s><code>e</code><sub>f</sub><sup>g</sup></p>' );
+
+				expect( await getBody() ).to.equal(
+					'<w:p>' +
+						run( 'a', '<w:b/>' ) +
+						run( 'b', '<w:i/>' ) +
+						run( 'c', '<w:u w:val="single"/>' ) +
+						run( 'd', '<w:strike/>' ) +
+						run( 'e', '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:eastAsia="Courier New" w:cs="Courier New"/>' ) +
+						run( 'f', '<w:vertAlign w:val="subscript"/>' ) +
+						run( 'g', '<w:vertAlign w:val="superscript"/>' ) +
+					'</w:p>'
+				);
+			} );
+
+			it( 'should convert the font attributes', async () => {
+				editor.setData(
+					'<p>' +
+						'<span style="font-family:Georgia, serif;font-size:18px;color:hsl(0, 75%, 60%);background-color:#00ff00;">' +
+							'a' +
+						'</span>' +
+						'<span class="text-big">b</span>' +
+					'</p>'
+				);
+
+				expect( await getBody() ).to.equal(
+					'<w:p>' +
+						run( 'a',
+							'<w:rFonts w:ascii="Georgia" w:hAnsi="Georgia" w:eastAsia="Georgia" w:cs="Georgia"/>' +
+							'<w:color w:val="E64D4D"/>' +
+							'<w:sz w:val="27"/><w:szCs w:val="27"/>' +
+							'<w:shd w:val="clear" w:color="auto" w:fill="00FF00"/>'
+						) +
+						run( 'b', '<w:sz w:val="34"/><w:szCs w:val="34"/>' ) +
+					'</w:p>'
+				);
+			} );
+
+			it( 'should convert the highlights', async () => {
+				editor.setData( '<p><mark class="marker-yellow">a</mark><mark class="pen-red">b</mark></p>' );
+
+				expect( await getBody() ).to.equal(
+					'<w:p>' +
+						run( 'a', '<w:highlight w:val="yellow"/>' ) +
+						run( 'b', '<w:color w:val="E71313"/>' ) +
+					'</w:p>'
+				);
+			} );
+
+			it( 'should convert the links', async () => {
+				editor.setData( '<p><a href="https://example.com?a=1&amp;b=2">Foo <b>bar</b></a> baz <a href="#anchor">qux</a></p>' );
+
+				const docx = await readDocx( await writer.write( editor.model.document.getRoot() ) );
+
+				expect( docx.body ).to.equal(
+					'<w:p>' +
+						'<w:hyperlink r:id="rId3">' +
+							run( 'Foo ', '<w:rStyle w:val="Hyperlink"/>' ) +
+							run( 'bar', '<w:rStyle w:val="Hyperlink"/><w:b/>' ) +
+						'</w:hyperlink>' +
+						run( ' baz ' ) +
+						`<w:hyperlink w:anchor="anchor">${ run( 'qux', '<w:rStyle w:val="Hyperlink"/>' ) }</w:hyperlink>` +
+					'</w:p>'
+				);
+				expect( docx[ 'word/_rels/document.xml.rels' ] ).to.include(
+					'<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" ' +
+					'Target="https://example.com?a=1&amp;b=2" TargetMode="External"/>'
+				);
+			} );
+		} );
+
+		describe( 'lists', () => {
+			it( 'should convert the nested lists', async () => {
+				editor.setData( '<ul><li>A<ul><li>B</li></ul></li><li>C</li></ul>' );
+
+				const docx = await readDocx( await writer.write( editor.model.document.getRoot() ) );
+
+				expect( docx.body ).to.equal(
+					`<w:p><w:pPr>${ numbering( 0, 1 ) }</w:pPr>${ run( 'A' ) }</w:p>` +
+					`<w:p><w:pPr>${ numbering( 1, 2 ) }</w:pPr>${ run( 'B' ) }</w:p>` +
+					`<w:p><w:pPr>${ numbering( 0, 1 ) }</w:pPr>${ run( 'C' ) }</w:p>`
+				);
+				expect( docx[ 'word/numbering.xml' ] ).to.include(
+					'<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num><w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>'
+				);
+				expect( docx[ 'word/numbering.xml' ] ).to.include(
+					'<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>' +
+					'<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/>'
+				);
+			} );
+
+			it( 'should indent the subsequent blocks of a list item without a marker', async () => {
+				editor.setData( '<ol><li><p>A</p><p>B</p></li></ol>' );
+
+				expect( await getBody() ).to.equal(
+					`<w:p><w:pPr>${ numbering( 0, 1 ) }</w:pPr>${ run( 'A' ) }</w:p>` +
+					`<w:p><w:pPr><w:ind w:left="720"/></w:pPr>${ run( 'B' ) }</w:p>`
+				);
+			} );
+
+			it( 'should number the separate lists separately', async () => {
+				editor.setData( '<ol><li>A</li></ol><p>B</p><ol><li>C</li></ol><ul><li>D</li></ul>' );
+
+				expect( await getBody() ).to.equal(
+					`<w:p><w:pPr>${ numbering( 0, 1 ) }</w:pPr>${ run( 'A' ) }</w:p>` +
+					`<w:p>${ run( 'B' ) }</w:p>` +
+					`<w:p><w:pPr>${ numbering( 0, 2 ) }</w:pPr>${ run( 'C' ) }</w:p>` +
+					`<w:p><w:pPr>${ numbering( 0, 3 ) }</w:pPr>${ run( 'D' ) }</w:p>`
+				);
+			} );
+
+			it( 'should convert the list styles and start numbers', async () => {
+				editor.setData(
+					'<ol style="list-style-type:lower-roman;" start="3"><li>A</li></ol>' +
+					'<ul style="list-style-type:square;"><li>B</li></ul>'
+				);
+
+				const docx = await readDocx( await writer.write( editor.model.document.getRoot() ) );
+
+				expect( docx[ 'word/numbering.xml' ] ).to.include(
+					'<w:lvl w:ilvl="0"><w:start w:val="3"/><w:numFmt w:val="lowerRoman"/><w:lvlText w:val="%1."/>'
+				);
+				expect( docx[ 'word/numbering.xml' ] ).to.include(
+					'<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="▪"/>'
+				);
+			} );
+		} );
+
+		describe( 'tables', () => {
+			it( 'should convert the tables with merged cells and heading rows', async () => {
+				editor.setData(
+					'<figure class="table"><table>' +
+						'<thead><tr><th colspan="2">A</th></tr></thead>' +
+						'<tbody><tr><td rowspan="2">B</td><td>C</td></tr><tr><td>D</td></tr></tbody>' +
+					'</table></figure>'
+				);
+
+				expect( await getBody() ).to.equal(
+					'<w:tbl>' +
+						'<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>' +
+						'<w:tblGrid><w:gridCol w:w="4513"/><w:gridCol w:w="4513"/></w:tblGrid>' +
+						'<w:tr><w:trPr><w:tblHeader/></w:trPr>' +
+							'<w:tc><w:tcPr><w:tcW w:w="9026" w:type="dxa"/><w:gridSpan w:val="2"/></w:tcPr>' +
+								`<w:p>${ run( 'A' ) }</w:p>` +
+							'</w:tc>' +
+						'</w:tr>' +
+						'<w:tr>' +
+							'<w:tc><w:tcPr><w:tcW w:w="4513" w:type="dxa"/><w:vMerge w:val="restart"/></w:tcPr>' +
+								`<w:p>${ run( 'B' ) }</w:p>` +
+							'</w:tc>' +
+							`<w:tc><w:tcPr><w:tcW w:w="4513" w:type="dxa"/></w:tcPr><w:p>${ run( 'C' ) }</w:p></w:tc>` +
+						'</w:tr>' +
+						'<w:tr>' +
+							'<w:tc><w:tcPr><w:tcW w:w="4513" w:type="dxa"/><w:vMerge/></w:tcPr><w:p/></w:tc>' +
+							`<w:tc><w:tcPr><w:tcW w:w="4513" w:type="dxa"/></w:tcPr><w:p>${ run( 'D' ) }</w:p></w:tc>` +
+						'</w:tr>' +
+					'</w:tbl>'
+				);
+			} );
+		} );
+
+		describe( 'images', () => {
+			it( 'should embed the block images with their captions', async () => {
+				editor.setData( `<figure class="image"><img src="${ PNG_SRC }" alt="Foo &amp; bar"><figcaption>Baz</figcaption></figure>` );
+
+				const docx = await readDocx( await writer.write( editor.model.document.getRoot() ) );
+
+				expect( docx.body ).to.equal(
+					'<w:p><w:pPr><w:jc w:val="center"/></w:pPr>' +
+						drawing( 1, 'rId3', 19050, 9525, 'Foo &amp; bar', 'image1.png' ) +
+					'</w:p>' +
+					`<w:p><w:pPr><w:pStyle w:val="Caption"/></w:pPr>${ run( 'Baz' ) }</w:p>`
+				);
+				expect( docx[ 'word/media/image1.png' ] ).to.be.instanceOf( Uint8Array );
+				expect( docx[ 'word/_rels/document.xml.rels' ] ).to.include(
+					'<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" ' +
+					'Target="media/image1.png"/>'
+				);
+				expect( docx[ '[Content_Types].xml' ] ).to.include( '<Default Extension="png" ContentType="image/png"/>' );
+			} );
+
+			it( 'should embed the resized inline images', async () => {
+				setModelData( editor.model, `<paragraph>a<imageInline src="${ PNG_SRC }" width="50%"></imageInline></paragraph>` );
+
+				expect( await getBody() ).to.equal(
+					`<w:p>${ run( 'a' ) }${ drawing( 1, 'rId3', 2862263, 1431131, '', 'image1.png' ) }</w:p>`
+				);
+			} );
+
+			it( 'should replace the images that cannot be embedded with their alternative texts', async () => {
+				setModelData( editor.model,
+					`<paragraph>a<imageInline src="${ SVG_SRC }" alt="Logo"></imageInline></paragraph>` +
+					`<imageBlock src="${ SVG_SRC }"></imageBlock>`
+				);
+
+				const docx = await readDocx( await writer.write( editor.model.document.getRoot() ) );
+
+				expect( docx.body ).to.equal(
+					`<w:p>${ run( 'a' ) }${ run( 'Logo' ) }</w:p>` +
+					'<w:p><w:pPr><w:jc w:val="center"/></w:pPr></w:p>'
+				);
+				expect( Object.keys( docx ).some( name => name.startsWith( 'word/media/' ) ) ).to.be.false;
+			} );
+		} );
+	} );
+
+	async function getBody( root = editor.model.document.getRoot() ) {
+		return ( await readDocx( await writer.write( root ) ) ).body;
+	}
+
+	function run( text, properties = '' ) {
+		return `<w:r>${ properties ? `<w:rPr>${ properties }</w:rPr>` : '' }<w:t xml:space="preserve">${ text }</w:t></w:r>`;
+	}
+
+	function numbering( level, numId ) {
+		return `<w:numPr><w:ilvl w:val="${ level }"/><w:numId w:val="${ numId }"/></w:numPr>`;
+	}
+
+	function drawing( id, relationshipId, cx, cy, alt, fileName ) {
+		return '<w:r><w:drawing>' +
+			'<wp:inline distT="0" distB="0" distL="0" distR="0">' +
+				`<wp:extent cx="${ cx }" cy="${ cy }"/>` +
+				`<wp:docPr id="${ id }" name="Picture ${ id }" descr="${ alt }"/>` +
+				'<a:graphic>' +
+					'<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+						'<pic:pic>' +
+							`<pic:nvPicPr><pic:cNvPr id="${ id }" name="${ fileName }"/><pic:cNvPicPr/></pic:nvPicPr>` +
+							`<pic:blipFill><a:blip r:embed="${ relationshipId }"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+							'<pic:spPr>' +
+								`<a:xfrm><a:off x="0" y="0"/><a:ext cx="${ cx }" cy="${ cy }"/></a:xfrm>` +
+								'<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>' +
+							'</pic:spPr>' +
+						'</pic:pic>' +
+					'</a:graphicData>' +
+				'</a:graphic>' +
+			'</wp:inline>' +
+		'</w:drawing></w:r>';
+	}
+} );
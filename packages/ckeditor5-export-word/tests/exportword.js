@@ -0,0 +1,79 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { ButtonView } from '@ckeditor/ckeditor5-ui';
+
+import ExportWord from '../src/exportword';
+import ExportWordCommand from '../src/exportwordcommand';
+
+describe( 'ExportWord', () => {
+	let editor, editorElement;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, ExportWord ]
+		} );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( ExportWord.pluginName ).to.equal( 'ExportWord' );
+	} );
+
+	it( 'should define the default configuration', () => {
+		expect( editor.config.get( 'exportWord.fileName' ) ).to.equal( 'document.docx' );
+	} );
+
+	it( 'should register the command', () => {
+		expect( editor.commands.get( 'exportWord' ) ).to.be.instanceOf( ExportWordCommand );
+	} );
+
+	describe( 'the "exportWord" button', () => {
+		let button;
+
+		beforeEach( () => {
+			button = editor.ui.componentFactory.create( 'exportWord' );
+		} );
+
+		afterEach( () => {
+			button.destroy();
+		} );
+
+		it( 'should be registered in the component factory', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.label ).to.equal( 'Export to Word' );
+			expect( button.icon ).to.match( /^<svg/ );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should be bound to the command', () => {
+			editor.commands.get( 'exportWord' ).forceDisabled( 'test' );
+
+			expect( button.isEnabled ).to.be.false;
+		} );
+
+		it( 'should execute the command', () => {
+			const spy = sinon.stub( editor, 'execute' );
+
+			button.fire( 'execute' );
+
+			sinon.assert.calledWithExactly( spy, 'exportWord' );
+		} );
+	} );
+} );
@@ -0,0 +1,95 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, window, HTMLAnchorElement */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+import ExportWord from '../src/exportword';
+import { DOCX_MIME_TYPE } from '../src/docxwriter';
+import { readDocx } from './_utils/utils';
+
+describe( 'ExportWordCommand', () => {
+	let editor, editorElement, command, createObjectURLStub, revokeObjectURLStub, clickStub;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, ExportWord ],
+			initialData: '<p>Foo</p>'
+		} );
+
+		command = editor.commands.get( 'exportWord' );
+
+		createObjectURLStub = sinon.stub( window.URL, 'createObjectURL' ).returns( 'blob:document' );
+		revokeObjectURLStub = sinon.stub( window.URL, 'revokeObjectURL' );
+		clickStub = sinon.stub( HTMLAnchorElement.prototype, 'click' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true', () => {
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be true in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should download the Word document', async () => {
+			await command.execute();
+
+			const blob = createObjectURLStub.firstCall.args[ 0 ];
+			const link = clickStub.firstCall.thisValue;
+
+			expect( blob.type ).to.equal( DOCX_MIME_TYPE );
+			expect( ( await readDocx( blob ) ).body ).to.equal( '<w:p><w:r><w:t xml:space="preserve">Foo</w:t></w:r></w:p>' );
+			expect( link.href ).to.equal( 'blob:document' );
+			expect( link.download ).to.equal( 'document.docx' );
+			expect( link.isConnected ).to.be.false;
+			sinon.assert.calledWithExactly( revokeObjectURLStub, 'blob:document' );
+		} );
+
+		it( 'should use the configured file name', async () => {
+			const editor = await ClassicTestEditor.create( editorElement, {
+				plugins: [ Paragraph, ExportWord ],
+				exportWord: { fileName: 'report.docx' }
+			} );
+
+			await editor.execute( 'exportWord' );
+
+			expect( clickStub.firstCall.thisValue.download ).to.equal( 'report.docx' );
+
+			await editor.destroy();
+		} );
+
+		it( 'should use the file name passed in the options', async () => {
+			await command.execute( { fileName: 'notes.docx' } );
+
+			expect( clickStub.firstCall.thisValue.download ).to.equal( 'notes.docx' );
+		} );
+
+		it( 'should throw for a root that does not exist', () => {
+			expectToThrowCKEditorError( () => {
+				command.execute( { rootName: 'unknown' } );
+			}, /^export-word-root-not-found/, command, { rootName: 'unknown' } );
+		} );
+	} );
+} );
@@ -0,0 +1,33 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	ExportWord as ExportWordDLL,
+	ExportWordCommand as ExportWordCommandDLL,
+	DocxWriter as DocxWriterDLL,
+	createZip as createZipDLL
+} from '../src';
+import ExportWord from '../src/exportword';
+import ExportWordCommand from '../src/exportwordcommand';
+import DocxWriter from '../src/docxwriter';
+import { createZip } from '../src/zip';
+
+describe( 'ExportWord DLL', () => {
+	it( 'exports ExportWord', () => {
+		expect( ExportWordDLL ).to.equal( ExportWord );
+	} );
+
+	it( 'exports ExportWordCommand', () => {
+		expect( ExportWordCommandDLL ).to.equal( ExportWordCommand );
+	} );
+
+	it( 'exports DocxWriter', () => {
+		expect( DocxWriterDLL ).to.equal( DocxWriter );
+	} );
+
+	it( 'exports createZip()', () => {
+		expect( createZipDLL ).to.equal( createZip );
+	} );
+} );
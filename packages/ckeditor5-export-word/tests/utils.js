@@ -0,0 +1,83 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global TextEncoder */
+
+import { escapeXml, getImageInfo, toHexColor } from '../src/utils';
+
+describe( 'utils', () => {
+	describe( 'escapeXml()', () => {
+		it( 'should escape the special characters', () => {
+			expect( escapeXml( '<a href="x">Tom & Jerry\'s</a>' ) ).to.equal(
+				'&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;'
+			);
+		} );
+	} );
+
+	describe( 'toHexColor()', () => {
+		it( 'should convert the hex colors', () => {
+			expect( toHexColor( '#ff0000' ) ).to.equal( 'FF0000' );
+			expect( toHexColor( '#0f0' ) ).to.equal( '00FF00' );
+		} );
+
+		it( 'should convert the rgb() colors', () => {
+			expect( toHexColor( 'rgb(255, 128, 0)' ) ).to.equal( 'FF8000' );
+			expect( toHexColor( 'rgba( 0, 0, 255, 0.5 )' ) ).to.equal( '0000FF' );
+		} );
+
+		it( 'should convert the hsl() colors', () => {
+			expect( toHexColor( 'hsl(0, 75%, 60%)' ) ).to.equal( 'E64D4D' );
+			expect( toHexColor( 'hsl( 120, 100%, 25% )' ) ).to.equal( '008000' );
+			expect( toHexColor( 'hsla(0, 0%, 100%, 1)' ) ).to.equal( 'FFFFFF' );
+		} );
+
+		it( 'should return null for other values', () => {
+			expect( toHexColor( 'red' ) ).to.be.null;
+			expect( toHexColor( 'rgb(foo)' ) ).to.be.null;
+			expect( toHexColor( '' ) ).to.be.null;
+		} );
+	} );
+
+	describe( 'getImageInfo()', () => {
+		it( 'should read a PNG image', () => {
+			const data = new Uint8Array( 24 );
+			const view = new DataView( data.buffer );
+
+			view.setUint32( 0, 0x89504e47 );
+			view.setUint32( 16, 640 );
+			view.setUint32( 20, 480 );
+
+			expect( getImageInfo( data ) ).to.deep.equal( { extension: 'png', width: 640, height: 480 } );
+		} );
+
+		it( 'should read a GIF image', () => {
+			const data = new Uint8Array( [ 0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x20, 0x00, 0x10, 0x00 ] );
+
+			expect( getImageInfo( data ) ).to.deep.equal( { extension: 'gif', width: 32, height: 16 } );
+		} );
+
+		it( 'should read a JPEG image', () => {
+			const data = new Uint8Array( [
+				0xff, 0xd8,
+				// APP0 segment.
+				0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+				// Start of frame segment.
+				0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0x2c, 0x01, 0x90, 0x03
+			] );
+
+			expect( getImageInfo( data ) ).to.deep.equal( { extension: 'jpeg', width: 400, height: 300 } );
+		} );
+
+		it( 'should return null for an invalid JPEG image', () => {
+			const data = new Uint8Array( [ 0xff, 0xd8, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00 ] );
+
+			expect( getImageInfo( data ) ).to.be.null;
+		} );
+
+		it( 'should return null for other images', () => {
+			expect( getImageInfo( new TextEncoder().encode( '<svg xmlns="http://www.w3.org/2000/svg"></svg>' ) ) ).to.be.null;
+		} );
+	} );
+} );
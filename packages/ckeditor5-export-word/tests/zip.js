@@ -0,0 +1,62 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global TextEncoder, TextDecoder */
+
+import { createZip, crc32 } from '../src/zip';
+import { readZip } from './_utils/utils';
+
+describe( 'zip', () => {
+	describe( 'crc32()', () => {
+		it( 'should calculate the checksum', () => {
+			expect( crc32( new Uint8Array() ) ).to.equal( 0 );
+			expect( crc32( new TextEncoder().encode( 'The quick brown fox jumps over the lazy dog' ) ) ).to.equal( 0x414fa339 );
+		} );
+	} );
+
+	describe( 'createZip()', () => {
+		it( 'should store the files', () => {
+			const bytes = createZip( [
+				{ name: 'foo.txt', data: 'Foo' },
+				{ name: 'bar/baz.bin', data: new Uint8Array( [ 1, 2, 3 ] ) }
+			] );
+			const files = readZip( bytes );
+
+			expect( Array.from( files.keys() ) ).to.deep.equal( [ 'foo.txt', 'bar/baz.bin' ] );
+			expect( new TextDecoder().decode( files.get( 'foo.txt' ) ) ).to.equal( 'Foo' );
+			expect( Array.from( files.get( 'bar/baz.bin' ) ) ).to.deep.equal( [ 1, 2, 3 ] );
+		} );
+
+		it( 'should encode the names and the text as UTF-8', () => {
+			const files = readZip( createZip( [ { name: 'zażółć.txt', data: 'gęślą' } ] ) );
+
+			expect( new TextDecoder().decode( files.get( 'zażółć.txt' ) ) ).to.equal( 'gęślą' );
+		} );
+
+		it( 'should store the checksums of the files', () => {
+			const bytes = createZip( [ { name: 'foo.txt', data: 'Foo' } ] );
+			const view = new DataView( bytes.buffer );
+
+			expect( view.getUint32( 14, true ) ).to.equal( crc32( new TextEncoder().encode( 'Foo' ) ) );
+		} );
+
+		it( 'should end with the central directory', () => {
+			const bytes = createZip( [ { name: 'foo.txt', data: 'Foo' }, { name: 'bar.txt', data: 'Bar' } ] );
+			const view = new DataView( bytes.buffer );
+			const endOffset = bytes.length - 22;
+			const centralDirectoryOffset = view.getUint32( endOffset + 16, true );
+
+			expect( view.getUint32( endOffset, true ) ).to.equal( 0x06054b50 );
+			expect( view.getUint16( endOffset + 10, true ) ).to.equal( 2 );
+			expect( view.getUint32( endOffset + 12, true ) ).to.equal( endOffset - centralDirectoryOffset );
+			expect( view.getUint32( centralDirectoryOffset, true ) ).to.equal( 0x02014b50 );
+			expect( view.getUint32( centralDirectoryOffset + 42, true ) ).to.equal( 0 );
+		} );
+
+		it( 'should create an empty archive', () => {
+			expect( createZip( [] ).length ).to.equal( 22 );
+		} );
+	} );
+} );
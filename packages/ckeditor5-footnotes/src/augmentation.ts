@@ -0,0 +1,27 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	Footnotes,
+	FootnotesEditing,
+	FootnotesUI,
+	GoToFootnoteCommand,
+	GoToFootnoteReferenceCommand,
+	InsertFootnoteCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface PluginsMap {
+		[ Footnotes.pluginName ]: Footnotes;
+		[ FootnotesEditing.pluginName ]: FootnotesEditing;
+		[ FootnotesUI.pluginName ]: FootnotesUI;
+	}
+
+	interface CommandsMap {
+		insertFootnote: InsertFootnoteCommand;
+		goToFootnote: GoToFootnoteCommand;
+		goToFootnoteReference: GoToFootnoteReferenceCommand;
+	}
+}
@@ -0,0 +1,37 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module footnotes/footnotes
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { Widget } from 'ckeditor5/src/widget';
+
+import FootnotesEditing from './footnotesediting';
+import FootnotesUI from './footnotesui';
+
+/**
+ * The footnotes feature. It allows for inserting automatically numbered footnote references into the content.
+ * The notes are edited in the footnotes section at the end of the document.
+ *
+ * This is a "glue" plugin which loads the {@link module:footnotes/footnotesediting~FootnotesEditing footnotes editing feature}
+ * and the {@link module:footnotes/footnotesui~FootnotesUI footnotes UI feature}.
+ */
+export default class Footnotes extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'Footnotes' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ FootnotesEditing, FootnotesUI, Widget ] as const;
+	}
+}
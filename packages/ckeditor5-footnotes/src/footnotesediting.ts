@@ -0,0 +1,500 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module footnotes/footnotesediting
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import {
+	ClickObserver,
+	type DowncastWriter,
+	type Element,
+	type Model,
+	type RootElement,
+	type ViewDocumentClickEvent,
+	type ViewElement,
+	type Writer
+} from 'ckeditor5/src/engine';
+import { toWidget, toWidgetEditable } from 'ckeditor5/src/widget';
+import { env, uid } from 'ckeditor5/src/utils';
+
+import InsertFootnoteCommand from './insertfootnotecommand';
+import GoToFootnoteCommand from './gotofootnotecommand';
+import GoToFootnoteReferenceCommand from './gotofootnotereferencecommand';
+import {
+	createFootnoteItem,
+	getFootnoteItemElementId,
+	getFootnoteReferenceElementId,
+	getFootnoteReferences,
+	getFootnotesSections
+} from './utils';
+
+import '../theme/footnotes.css';
+
+/**
+ * The keystroke that moves the selection between a footnote reference and its note.
+ */
+const NAVIGATION_KEYSTROKE = 'Alt+Enter';
+
+/**
+ * The footnotes editing feature.
+ *
+ * It introduces the following model elements:
+ *
+ * * `footnoteReference` – an inline object marking the place in the content that the note refers to. It is converted to
+ * `<sup class="footnote-reference"><a href="#footnote-...">1</a></sup>`.
+ * * `footnotes` – the section containing all notes of the root. It is always the last child of the root and it is converted
+ * to `<ol class="footnotes">`.
+ * * `footnoteItem` – a single note with editable content. It is converted to `<li class="footnote-item">`.
+ *
+ * The references and the notes are linked with the `footnoteId` attribute. The numbers of the references are stored
+ * in the `footnoteIndex` attribute and they are kept in sync with the order of the references in the content by a model post-fixer.
+ * The post-fixer also reorders the notes, removes the notes whose references were removed and creates empty notes for the references
+ * without notes.
+ *
+ * It also registers the `'insertFootnote'`, `'goToFootnote'` and `'goToFootnoteReference'` commands.
+ */
+export default class FootnotesEditing extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FootnotesEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.commands.add( 'insertFootnote', new InsertFootnoteCommand( editor ) );
+		editor.commands.add( 'goToFootnote', new GoToFootnoteCommand( editor ) );
+		editor.commands.add( 'goToFootnoteReference', new GoToFootnoteReferenceCommand( editor ) );
+
+		this._defineSchema();
+		this._defineConverters();
+
+		editor.model.document.registerPostFixer( writer => this._fixFootnotes( writer ) );
+
+		this._enableNavigation();
+
+		editor.accessibility.addKeystrokeInfos( {
+			keystrokes: [
+				{
+					label: t( 'Move between a footnote reference and its note' ),
+					keystroke: NAVIGATION_KEYSTROKE
+				}
+			]
+		} );
+	}
+
+	/**
+	 * Registers the footnotes model elements in the schema.
+	 */
+	private _defineSchema(): void {
+		const schema = this.editor.model.schema;
+
+		schema.register( 'footnoteReference', {
+			allowWhere: '$text',
+			isInline: true,
+			isObject: true,
+			allowAttributesOf: '$text',
+			allowAttributes: [ 'footnoteId', 'footnoteIndex' ]
+		} );
+
+		schema.register( 'footnotes', {
+			allowIn: '$root',
+			isBlock: true,
+			isObject: true
+		} );
+
+		schema.register( 'footnoteItem', {
+			allowIn: 'footnotes',
+			allowContentOf: '$container',
+			allowAttributes: [ 'footnoteId' ],
+			isLimit: true
+		} );
+
+		// Footnotes cannot be nested.
+		schema.addChildCheck( ( context, childDefinition ) => {
+			if ( childDefinition.name == 'footnoteReference' && Array.from( context.getNames() ).includes( 'footnoteItem' ) ) {
+				return false;
+			}
+		} );
+	}
+
+	/**
+	 * Registers the converters of the footnotes model elements.
+	 */
+	private _defineConverters(): void {
+		const editor = this.editor;
+		const conversion = editor.conversion;
+		const t = editor.t;
+
+		// The footnote references.
+		conversion.for( 'upcast' ).elementToElement( {
+			view: {
+				name: 'sup',
+				classes: 'footnote-reference',
+				attributes: { 'data-footnote-id': true }
+			},
+			model: ( viewElement, { writer } ) => writer.createElement( 'footnoteReference', {
+				footnoteId: viewElement.getAttribute( 'data-footnote-id' )
+			} ),
+			converterPriority: 'high'
+		} );
+
+		conversion.for( 'dataDowncast' ).elementToElement( {
+			model: {
+				name: 'footnoteReference',
+				attributes: [ 'footnoteId', 'footnoteIndex' ]
+			},
+			view: ( modelElement, { writer } ) => createFootnoteReferenceView( modelElement, writer, true )
+		} );
+
+		conversion.for( 'editingDowncast' ).elementToElement( {
+			model: {
+				name: 'footnoteReference',
+				attributes: [ 'footnoteId', 'footnoteIndex' ]
+			},
+			view: ( modelElement, { writer } ) => {
+				const viewElement = createFootnoteReferenceView( modelElement, writer, false );
+
+				writer.addClass( 'ck-footnote-reference', viewElement );
+
+				return toWidget( viewElement, writer, { label: t( 'Footnote reference' ) } );
+			}
+		} );
+
+		// The footnotes section.
+		conversion.for( 'upcast' ).elementToElement( {
+			view: {
+				name: 'ol',
+				classes: 'footnotes'
+			},
+			model: 'footnotes',
+			converterPriority: 'high'
+		} );
+
+		conversion.for( 'dataDowncast' ).elementToElement( {
+			model: 'footnotes',
+			view: ( modelElement, { writer } ) => writer.createContainerElement( 'ol', { class: 'footnotes' } )
+		} );
+
+		conversion.for( 'editingDowncast' ).elementToElement( {
+			model: 'footnotes',
+			view: ( modelElement, { writer } ) => {
+				const viewElement = writer.createContainerElement( 'ol', { class: 'footnotes ck-footnotes' } );
+
+				return toWidget( viewElement, writer, { label: t( 'Footnotes' ) } );
+			}
+		} );
+
+		// The notes.
+		conversion.for( 'upcast' ).elementToElement( {
+			view: {
+				name: 'li',
+				attributes: { 'data-footnote-id': true }
+			},
+			model: ( viewElement, { writer } ) => writer.createElement( 'footnoteItem', {
+				footnoteId: viewElement.getAttribute( 'data-footnote-id' )
+			} ),
+			converterPriority: 'high'
+		} );
+
+		conversion.for( 'dataDowncast' ).elementToElement( {
+			model: {
+				name: 'footnoteItem',
+				attributes: [ 'footnoteId' ]
+			},
+			view: ( modelElement, { writer } ) => writer.createContainerElement( 'li', getFootnoteItemAttributes( modelElement ) )
+		} );
+
+		conversion.for( 'editingDowncast' ).elementToElement( {
+			model: {
+				name: 'footnoteItem',
+				attributes: [ 'footnoteId' ]
+			},
+			view: ( modelElement, { writer } ) => {
+				const viewElement = writer.createEditableElement( 'li', getFootnoteItemAttributes( modelElement ) );
+
+				// The content of the note is always mapped before the UI element, so the link stays at the end of the note.
+				writer.insert( writer.createPositionAt( viewElement, 0 ), createBackLinkView( writer, t( 'Back to the reference' ) ) );
+
+				return toWidgetEditable( viewElement, writer, { label: t( 'Footnote' ) } );
+			}
+		} );
+	}
+
+	/**
+	 * Makes the footnote references and notes navigable. A footnote reference clicked with the <kbd>Ctrl</kbd>
+	 * (<kbd>Cmd</kbd> on Mac) key pressed moves the selection to its note. The link displayed at the end of the note moves the
+	 * selection back to the reference. The <kbd>Alt</kbd>+<kbd>Enter</kbd> keystroke works in both directions.
+	 */
+	private _enableNavigation(): void {
+		const editor = this.editor;
+		const model = editor.model;
+		const view = editor.editing.view;
+
+		view.addObserver( ClickObserver );
+
+		// The commands navigate from the current selection, so the clicked element is selected first.
+		this.listenTo<ViewDocumentClickEvent>( view.document, 'click', ( evt, data ) => {
+			const domTarget = data.domTarget;
+			const domBackLink = domTarget.closest( '.ck-footnote-back-link' );
+			const domReference = domTarget.closest( '.ck-footnote-reference' );
+			const shouldNavigate = env.isMac ? data.domEvent.metaKey : data.domEvent.ctrlKey;
+
+			if ( domBackLink ) {
+				const item = this._mapDomToModelElement( domBackLink.closest( 'li' ) as HTMLElement );
+
+				if ( item ) {
+					evt.stop();
+					data.preventDefault();
+
+					model.change( writer => {
+						writer.setSelection( model.schema.getNearestSelectionRange( writer.createPositionAt( item, 0 ) ) );
+					} );
+
+					editor.execute( 'goToFootnoteReference' );
+				}
+			} else if ( domReference && shouldNavigate ) {
+				const reference = this._mapDomToModelElement( domReference as HTMLElement );
+
+				if ( reference ) {
+					evt.stop();
+					data.preventDefault();
+
+					model.change( writer => {
+						writer.setSelection( reference, 'on' );
+					} );
+
+					editor.execute( 'goToFootnote' );
+				}
+			}
+		}, { context: '$capture', priority: 'high' } );
+
+		editor.keystrokes.set( NAVIGATION_KEYSTROKE, ( keyEvtData, cancel ) => {
+			for ( const commandName of [ 'goToFootnote', 'goToFootnoteReference' ] as const ) {
+				if ( editor.commands.get( commandName )!.isEnabled ) {
+					editor.execute( commandName );
+					cancel();
+
+					return;
+				}
+			}
+		} );
+	}
+
+	/**
+	 * Returns the model element of the given DOM element of the editing view, if any.
+	 */
+	private _mapDomToModelElement( domElement: HTMLElement ): Element | undefined {
+		const editing = this.editor.editing;
+		const viewElement = editing.view.domConverter.mapDomToView( domElement );
+
+		return viewElement && viewElement.is( 'element' ) ? editing.mapper.toModelElement( viewElement ) : undefined;
+	}
+
+	/**
+	 * The post-fixer keeping the footnotes of the changed roots consistent.
+	 */
+	private _fixFootnotes( writer: Writer ): boolean {
+		const model = this.editor.model;
+		const changedRoots = new Set<RootElement>();
+
+		for ( const change of model.document.differ.getChanges() ) {
+			if ( change.type == 'attribute' ) {
+				if ( change.attributeKey == 'footnoteId' || change.attributeKey == 'footnoteIndex' ) {
+					changedRoots.add( change.range.root as RootElement );
+				}
+			} else if ( change.name != '$text' ) {
+				changedRoots.add( change.position.root as RootElement );
+			}
+		}
+
+		let wasFixed = false;
+
+		for ( const root of changedRoots ) {
+			if ( root.rootName != '$graveyard' && root.isAttached() ) {
+				wasFixed = fixRootFootnotes( model, writer, root ) || wasFixed;
+			}
+		}
+
+		return wasFixed;
+	}
+}
+
+/**
+ * Keeps the footnotes of the root consistent:
+ *
+ * * The references are numbered in the document order. The repeated footnote ids (for instance, after pasting a copied reference)
+ * get new ids and copies of the original notes.
+ * * There is one footnotes section at the end of the root if there are any references and there is no section otherwise.
+ * * The notes are in the order of their references. Each reference has a note and each note has a reference.
+ * * Each note has some content.
+ *
+ * @returns Whether the model was changed.
+ */
+function fixRootFootnotes( model: Model, writer: Writer, root: RootElement ): boolean {
+	const references = getFootnoteReferences( model, root );
+	const sections = getFootnotesSections( root );
+
+	if ( !references.length ) {
+		for ( const section of sections ) {
+			writer.remove( section );
+		}
+
+		return sections.length > 0;
+	}
+
+	let wasFixed = false;
+	let section = sections.shift();
+
+	if ( !section ) {
+		section = writer.createElement( 'footnotes' );
+		writer.insert( section, root, 'end' );
+
+		wasFixed = true;
+	}
+
+	// Merge the other sections into the first one.
+	for ( const otherSection of sections ) {
+		writer.move( writer.createRangeIn( otherSection ), section, 'end' );
+		writer.remove( otherSection );
+
+		wasFixed = true;
+	}
+
+	if ( section.nextSibling ) {
+		writer.move( writer.createRangeOn( section ), root, 'end' );
+
+		wasFixed = true;
+	}
+
+	const itemsById = new Map<string, Element>();
+
+	for ( const item of section.getChildren() as IterableIterator<Element> ) {
+		const footnoteId = item.getAttribute( 'footnoteId' ) as string;
+
+		if ( !itemsById.has( footnoteId ) ) {
+			itemsById.set( footnoteId, item );
+		}
+	}
+
+	const orderedItems: Array<Element> = [];
+	const usedIds = new Set<string>();
+
+	for ( const reference of references ) {
+		let footnoteId = reference.getAttribute( 'footnoteId' ) as string | undefined;
+		let item = footnoteId ? itemsById.get( footnoteId ) : undefined;
+
+		if ( !footnoteId || usedIds.has( footnoteId ) ) {
+			footnoteId = uid();
+			item = item && writer.cloneElement( item ) as Element;
+
+			writer.setAttribute( 'footnoteId', footnoteId, reference );
+
+			if ( item ) {
+				writer.setAttribute( 'footnoteId', footnoteId, item );
+				writer.insert( item, section, 'end' );
+			}
+
+			wasFixed = true;
+		}
+
+		if ( !item ) {
+			item = createFootnoteItem( writer, footnoteId );
+			writer.insert( item, section, 'end' );
+
+			wasFixed = true;
+		}
+
+		usedIds.add( footnoteId );
+		orderedItems.push( item );
+
+		if ( reference.getAttribute( 'footnoteIndex' ) !== orderedItems.length ) {
+			writer.setAttribute( 'footnoteIndex', orderedItems.length, reference );
+
+			wasFixed = true;
+		}
+	}
+
+	for ( const item of Array.from( section.getChildren() ) ) {
+		if ( !orderedItems.includes( item as Element ) ) {
+			writer.remove( item );
+
+			wasFixed = true;
+		}
+	}
+
+	orderedItems.forEach( ( item, index ) => {
+		if ( section!.getChild( index ) !== item ) {
+			writer.move( writer.createRangeOn( item ), section!, index );
+
+			wasFixed = true;
+		}
+
+		if ( item.isEmpty ) {
+			writer.insertElement( 'paragraph', item );
+
+			wasFixed = true;
+		}
+	} );
+
+	return wasFixed;
+}
+
+/**
+ * Creates the view element of the footnote reference. The link is not rendered in the editing view, so it does not compete
+ * with the navigation provided by the feature.
+ */
+function createFootnoteReferenceView( modelElement: Element, writer: DowncastWriter, isDataPipeline: boolean ): ViewElement {
+	const footnoteId = modelElement.getAttribute( 'footnoteId' ) as string;
+	const footnoteIndex = modelElement.getAttribute( 'footnoteIndex' ) as number | undefined;
+
+	const linkElement = writer.createContainerElement( 'a', isDataPipeline ? { href: `#${ getFootnoteItemElementId( footnoteId ) }` } : {},
+		writer.createText( String( footnoteIndex || '' ) )
+	);
+
+	return writer.createContainerElement( 'sup', {
+		class: 'footnote-reference',
+		id: getFootnoteReferenceElementId( footnoteId ),
+		'data-footnote-id': footnoteId
+	}, linkElement );
+}
+
+/**
+ * Returns the attributes of the view element of the footnote item.
+ */
+function getFootnoteItemAttributes( modelElement: Element ): Record<string, string> {
+	const footnoteId = modelElement.getAttribute( 'footnoteId' ) as string;
+
+	return {
+		class: 'footnote-item',
+		id: getFootnoteItemElementId( footnoteId ),
+		'data-footnote-id': footnoteId
+	};
+}
+
+/**
+ * Creates the UI element of the link moving the selection from the note back to its reference.
+ */
+function createBackLinkView( writer: DowncastWriter, label: string ) {
+	return writer.createUIElement( 'span', {
+		class: 'ck-footnote-back-link',
+		contenteditable: 'false',
+		title: label
+	}, function( domDocument ) {
+		const domElement = this.toDomElement( domDocument );
+
+		domElement.textContent = '^';
+
+		return domElement;
+	} );
+}
@@ -0,0 +1,56 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module footnotes/footnotesui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { ButtonView } from 'ckeditor5/src/ui';
+
+import type InsertFootnoteCommand from './insertfootnotecommand';
+import footnoteIcon from '../theme/icons/footnote.svg';
+
+/**
+ * The footnotes UI plugin. It registers the `'footnote'` button inserting a new footnote.
+ */
+export default class FootnotesUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FootnotesUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		// Add the `footnote` button to feature components.
+		editor.ui.componentFactory.add( 'footnote', locale => {
+			const command: InsertFootnoteCommand = editor.commands.get( 'insertFootnote' )!;
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Insert footnote' ),
+				icon: footnoteIcon,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).to( command, 'isEnabled' );
+
+			// Execute the command.
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'insertFootnote' );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+	}
+}
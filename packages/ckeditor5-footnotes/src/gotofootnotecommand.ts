@@ -0,0 +1,68 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module footnotes/gotofootnotecommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Element, RootElement } from 'ckeditor5/src/engine';
+
+import { getFootnoteItem, getSelectedFootnoteReference } from './utils';
+
+/**
+ * The go to footnote command. It moves the selection from a footnote reference to the beginning of its note in the footnotes section.
+ *
+ * The command is registered by {@link module:footnotes/footnotesediting~FootnotesEditing} as `'goToFootnote'`.
+ *
+ * The command is enabled when a footnote reference is selected:
+ *
+ * ```ts
+ * editor.execute( 'goToFootnote' );
+ * ```
+ */
+export default class GoToFootnoteCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = !!this._getFootnoteItem();
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 */
+	public override execute(): void {
+		const editor = this.editor;
+		const model = editor.model;
+		const item = this._getFootnoteItem();
+
+		if ( !item ) {
+			return;
+		}
+
+		model.change( writer => {
+			writer.setSelection( model.schema.getNearestSelectionRange( model.createPositionAt( item, 0 ), 'forward' ) );
+		} );
+
+		editor.editing.view.focus();
+		editor.editing.view.scrollToTheSelection();
+	}
+
+	/**
+	 * Returns the footnote item of the selected footnote reference.
+	 */
+	private _getFootnoteItem(): Element | null {
+		const reference = getSelectedFootnoteReference( this.editor.model.document.selection );
+
+		if ( !reference ) {
+			return null;
+		}
+
+		return getFootnoteItem( reference.root as RootElement, reference.getAttribute( 'footnoteId' ) as string );
+	}
+}
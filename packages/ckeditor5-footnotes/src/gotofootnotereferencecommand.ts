@@ -0,0 +1,69 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module footnotes/gotofootnotereferencecommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Element, RootElement } from 'ckeditor5/src/engine';
+
+import { getFootnoteReference, getSelectedFootnoteItem } from './utils';
+
+/**
+ * The go to footnote reference command. It moves the selection from a note in the footnotes section back to its reference
+ * in the content. The reference gets selected.
+ *
+ * The command is registered by {@link module:footnotes/footnotesediting~FootnotesEditing} as `'goToFootnoteReference'`.
+ *
+ * The command is enabled when the selection is in a note:
+ *
+ * ```ts
+ * editor.execute( 'goToFootnoteReference' );
+ * ```
+ */
+export default class GoToFootnoteReferenceCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = !!this._getFootnoteReference();
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 */
+	public override execute(): void {
+		const editor = this.editor;
+		const reference = this._getFootnoteReference();
+
+		if ( !reference ) {
+			return;
+		}
+
+		editor.model.change( writer => {
+			writer.setSelection( reference, 'on' );
+		} );
+
+		editor.editing.view.focus();
+		editor.editing.view.scrollToTheSelection();
+	}
+
+	/**
+	 * Returns the footnote reference of the footnote item containing the selection.
+	 */
+	private _getFootnoteReference(): Element | null {
+		const model = this.editor.model;
+		const item = getSelectedFootnoteItem( model.document.selection );
+
+		if ( !item ) {
+			return null;
+		}
+
+		return getFootnoteReference( model, item.root as RootElement, item.getAttribute( 'footnoteId' ) as string );
+	}
+}
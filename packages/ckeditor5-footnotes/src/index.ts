@@ -0,0 +1,17 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module footnotes
+ */
+
+export { default as Footnotes } from './footnotes';
+export { default as FootnotesEditing } from './footnotesediting';
+export { default as FootnotesUI } from './footnotesui';
+export { default as InsertFootnoteCommand } from './insertfootnotecommand';
+export { default as GoToFootnoteCommand } from './gotofootnotecommand';
+export { default as GoToFootnoteReferenceCommand } from './gotofootnotereferencecommand';
+
+import './augmentation';
@@ -0,0 +1,72 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module footnotes/insertfootnotecommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { RootElement } from 'ckeditor5/src/engine';
+import { uid } from 'ckeditor5/src/utils';
+
+import { createFootnoteItem, getFootnotesSection } from './utils';
+
+/**
+ * The insert footnote command.
+ *
+ * The command is registered by {@link module:footnotes/footnotesediting~FootnotesEditing} as `'insertFootnote'`.
+ *
+ * It inserts a footnote reference at the current selection and adds a new empty note to the footnotes section at the end
+ * of the root. The selection is then moved to the new note so the user can type its content right away:
+ *
+ * ```ts
+ * editor.execute( 'insertFootnote' );
+ * ```
+ *
+ * The numbers of the footnotes are assigned automatically, according to the order of the references in the content.
+ */
+export default class InsertFootnoteCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const model = this.editor.model;
+		const position = model.document.selection.getFirstPosition();
+
+		this.isEnabled = !!position && model.schema.checkChild( position, 'footnoteReference' );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 */
+	public override execute(): void {
+		const model = this.editor.model;
+
+		model.change( writer => {
+			const footnoteId = uid();
+			const reference = writer.createElement( 'footnoteReference', { footnoteId } );
+
+			model.insertContent( reference );
+
+			const root = reference.root as RootElement;
+			let section = getFootnotesSection( root );
+
+			if ( !section ) {
+				section = writer.createElement( 'footnotes' );
+
+				writer.insert( section, root, 'end' );
+			}
+
+			const item = createFootnoteItem( writer, footnoteId );
+
+			writer.insert( item, section, 'end' );
+			writer.setSelection( item.getChild( 0 )!, 0 );
+		} );
+
+		this.editor.editing.view.scrollToTheSelection();
+	}
+}
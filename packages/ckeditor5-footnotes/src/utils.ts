@@ -0,0 +1,124 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module footnotes/utils
+ */
+
+import type {
+	DocumentSelection,
+	Element,
+	Item,
+	Model,
+	RootElement,
+	Selection,
+	Writer
+} from 'ckeditor5/src/engine';
+
+/**
+ * Returns all footnote references of the given root in the document order.
+ */
+export function getFootnoteReferences( model: Model, root: RootElement ): Array<Element> {
+	const references: Array<Element> = [];
+
+	for ( const item of model.createRangeIn( root ).getItems() ) {
+		if ( isFootnoteReference( item ) ) {
+			references.push( item );
+		}
+	}
+
+	return references;
+}
+
+/**
+ * Returns the first footnote reference with the given footnote id in the given root, if any.
+ */
+export function getFootnoteReference( model: Model, root: RootElement, footnoteId: string ): Element | null {
+	return getFootnoteReferences( model, root ).find( reference => reference.getAttribute( 'footnoteId' ) == footnoteId ) || null;
+}
+
+/**
+ * Returns the footnotes section of the given root, if any.
+ */
+export function getFootnotesSection( root: RootElement ): Element | null {
+	return getFootnotesSections( root )[ 0 ] || null;
+}
+
+/**
+ * Returns all footnotes sections of the given root. There should be at most one section in the root but, for instance,
+ * pasted content may bring another one before the post-fixer merges them.
+ */
+export function getFootnotesSections( root: RootElement ): Array<Element> {
+	return Array.from( root.getChildren() ).filter( child => child.is( 'element', 'footnotes' ) ) as Array<Element>;
+}
+
+/**
+ * Returns the footnote item with the given footnote id in the footnotes section of the given root, if any.
+ */
+export function getFootnoteItem( root: RootElement, footnoteId: string ): Element | null {
+	const section = getFootnotesSection( root );
+
+	if ( !section ) {
+		return null;
+	}
+
+	for ( const item of section.getChildren() ) {
+		if ( item.is( 'element', 'footnoteItem' ) && item.getAttribute( 'footnoteId' ) == footnoteId ) {
+			return item;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Creates an empty footnote item with the given footnote id. The item contains an empty paragraph.
+ */
+export function createFootnoteItem( writer: Writer, footnoteId: string ): Element {
+	const item = writer.createElement( 'footnoteItem', { footnoteId } );
+
+	writer.insertElement( 'paragraph', item );
+
+	return item;
+}
+
+/**
+ * Returns the footnote reference selected by the given selection, if any.
+ */
+export function getSelectedFootnoteReference( selection: Selection | DocumentSelection ): Element | null {
+	const selectedElement = selection.getSelectedElement();
+
+	return isFootnoteReference( selectedElement ) ? selectedElement : null;
+}
+
+/**
+ * Returns the footnote item containing the given selection, if any.
+ */
+export function getSelectedFootnoteItem( selection: Selection | DocumentSelection ): Element | null {
+	const position = selection.getFirstPosition();
+
+	return position && position.findAncestor( 'footnoteItem' );
+}
+
+/**
+ * Checks whether the given model item is a footnote reference.
+ */
+export function isFootnoteReference( item: Item | null ): item is Element {
+	return !!item && item.is( 'element', 'footnoteReference' );
+}
+
+/**
+ * Returns the id of the view element (and the fragment of the URL) of the footnote item with the given footnote id.
+ */
+export function getFootnoteItemElementId( footnoteId: string ): string {
+	return `footnote-${ footnoteId }`;
+}
+
+/**
+ * Returns the id of the view element (and the fragment of the URL) of the footnote reference with the given footnote id.
+ */
+export function getFootnoteReferenceElementId( footnoteId: string ): string {
+	return `footnote-reference-${ footnoteId }`;
+}
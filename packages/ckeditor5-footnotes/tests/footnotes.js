@@ -0,0 +1,20 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Widget from '@ckeditor/ckeditor5-widget/src/widget';
+
+import Footnotes from '../src/footnotes';
+import FootnotesEditing from '../src/footnotesediting';
+import FootnotesUI from '../src/footnotesui';
+
+describe( 'Footnotes', () => {
+	it( 'should be correctly named', () => {
+		expect( Footnotes.pluginName ).to.equal( 'Footnotes' );
+	} );
+
+	it( 'should require FootnotesEditing, FootnotesUI and Widget', () => {
+		expect( Footnotes.requires ).to.deep.equal( [ FootnotesEditing, FootnotesUI, Widget ] );
+	} );
+} );
@@ -0,0 +1,561 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import Bold from '@ckeditor/ckeditor5-basic-styles/src/bold';
+import Superscript from '@ckeditor/ckeditor5-basic-styles/src/superscript';
+import DocumentList from '@ckeditor/ckeditor5-list/src/documentlist';
+import Link from '@ckeditor/ckeditor5-link/src/link';
+import Undo from '@ckeditor/ckeditor5-undo/src/undo';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { getData as getViewData } from '@ckeditor/ckeditor5-engine/src/dev-utils/view';
+import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
+import env from '@ckeditor/ckeditor5-utils/src/env';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import stubUid from '@ckeditor/ckeditor5-list/tests/documentlist/_utils/uid';
+
+import FootnotesEditing from '../src/footnotesediting';
+import InsertFootnoteCommand from '../src/insertfootnotecommand';
+import GoToFootnoteCommand from '../src/gotofootnotecommand';
+import GoToFootnoteReferenceCommand from '../src/gotofootnotereferencecommand';
+
+describe( 'FootnotesEditing', () => {
+	let editor, model, view, element;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, Bold, FootnotesEditing ]
+		} );
+
+		model = editor.model;
+		view = editor.editing.view;
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( FootnotesEditing.pluginName ).to.equal( 'FootnotesEditing' );
+	} );
+
+	it( 'should register the commands', () => {
+		expect( editor.commands.get( 'insertFootnote' ) ).to.be.instanceOf( InsertFootnoteCommand );
+		expect( editor.commands.get( 'goToFootnote' ) ).to.be.instanceOf( GoToFootnoteCommand );
+		expect( editor.commands.get( 'goToFootnoteReference' ) ).to.be.instanceOf( GoToFootnoteReferenceCommand );
+	} );
+
+	it( 'should add the keystroke info to the accessibility help', () => {
+		const keystrokeInfos = editor.accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'common' ).keystrokes;
+
+		expect( keystrokeInfos.find( info => info.keystroke == 'Alt+Enter' ) ).to.deep.include( {
+			label: 'Move between a footnote reference and its note'
+		} );
+	} );
+
+	describe( 'schema', () => {
+		it( 'should allow the footnote references where the text is allowed', () => {
+			expect( model.schema.checkChild( [ '$root', 'paragraph' ], 'footnoteReference' ) ).to.be.true;
+			expect( model.schema.checkChild( [ '$root' ], 'footnoteReference' ) ).to.be.false;
+			expect( model.schema.isInline( 'footnoteReference' ) ).to.be.true;
+			expect( model.schema.isObject( 'footnoteReference' ) ).to.be.true;
+		} );
+
+		it( 'should allow the attributes of text on the footnote references', () => {
+			expect( model.schema.checkAttribute( [ '$root', 'paragraph', 'footnoteReference' ], 'bold' ) ).to.be.true;
+			expect( model.schema.checkAttribute( [ '$root', 'paragraph', 'footnoteReference' ], 'footnoteId' ) ).to.be.true;
+			expect( model.schema.checkAttribute( [ '$root', 'paragraph', 'footnoteReference' ], 'footnoteIndex' ) ).to.be.true;
+		} );
+
+		it( 'should allow the footnotes section in the root only', () => {
+			expect( model.schema.checkChild( [ '$root' ], 'footnotes' ) ).to.be.true;
+			expect( model.schema.checkChild( [ '$root', 'footnotes', 'footnoteItem' ], 'footnotes' ) ).to.be.false;
+			expect( model.schema.isObject( 'footnotes' ) ).to.be.true;
+		} );
+
+		it( 'should allow the blocks in the footnote items', () => {
+			expect( model.schema.checkChild( [ '$root', 'footnotes' ], 'footnoteItem' ) ).to.be.true;
+			expect( model.schema.checkChild( [ '$root', 'footnotes', 'footnoteItem' ], 'paragraph' ) ).to.be.true;
+			expect( model.schema.checkChild( [ '$root', 'footnotes', 'footnoteItem' ], '$text' ) ).to.be.false;
+			expect( model.schema.checkAttribute( [ '$root', 'footnotes', 'footnoteItem' ], 'footnoteId' ) ).to.be.true;
+			expect( model.schema.isLimit( 'footnoteItem' ) ).to.be.true;
+		} );
+
+		it( 'should not allow the footnote references in the footnote items', () => {
+			expect( model.schema.checkChild( [ '$root', 'footnotes', 'footnoteItem', 'paragraph' ], 'footnoteReference' ) ).to.be.false;
+		} );
+	} );
+
+	describe( 'conversion', () => {
+		describe( 'upcast', () => {
+			it( 'should convert the footnote references and the footnotes section', () => {
+				editor.setData(
+					'<p>Foo<sup class="footnote-reference" data-footnote-id="a"><a href="#footnote-a">1</a></sup> bar.</p>' +
+					'<ol class="footnotes"><li class="footnote-item" data-footnote-id="a"><p>Note.</p></li></ol>'
+				);
+
+				expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+					'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference> bar.</paragraph>' +
+					'<footnotes><footnoteItem footnoteId="a"><paragraph>Note.</paragraph></footnoteItem></footnotes>'
+				);
+			} );
+
+			it( 'should wrap the text of the notes with paragraphs', () => {
+				editor.setData(
+					'<p>Foo<sup class="footnote-reference" data-footnote-id="a"><a href="#footnote-a">1</a></sup></p>' +
+					'<ol class="footnotes"><li data-footnote-id="a">Note.</li></ol>'
+				);
+
+				expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+					'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+					'<footnotes><footnoteItem footnoteId="a"><paragraph>Note.</paragraph></footnoteItem></footnotes>'
+				);
+			} );
+
+			it( 'should not convert the superscript without the footnote id', async () => {
+				await editor.destroy();
+
+				editor = await ClassicTestEditor.create( element, {
+					plugins: [ Paragraph, Superscript, FootnotesEditing ]
+				} );
+
+				editor.setData( '<p>Foo<sup class="footnote-reference">1</sup></p>' );
+
+				expect( getModelData( editor.model, { withoutSelection: true } ) ).to.equal(
+					'<paragraph>Foo<$text superscript="true">1</$text></paragraph>'
+				);
+			} );
+
+			it( 'should convert the footnotes next to the document lists', async () => {
+				await editor.destroy();
+
+				editor = await ClassicTestEditor.create( element, {
+					plugins: [ Paragraph, DocumentList, Link, FootnotesEditing ]
+				} );
+
+				stubUid();
+
+				editor.setData(
+					'<ol><li>Foo<sup class="footnote-reference" data-footnote-id="a"><a href="#footnote-a">1</a></sup></li></ol>' +
+					'<ol class="footnotes"><li class="footnote-item" data-footnote-id="a"><p>Note.</p></li></ol>'
+				);
+
+				expect( getModelData( editor.model, { withoutSelection: true } ) ).to.equal(
+					'<paragraph listIndent="0" listItemId="a00" listType="numbered">' +
+						'Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference>' +
+					'</paragraph>' +
+					'<footnotes><footnoteItem footnoteId="a"><paragraph>Note.</paragraph></footnoteItem></footnotes>'
+				);
+			} );
+		} );
+
+		describe( 'data downcast', () => {
+			it( 'should convert the footnote references and the footnotes section', () => {
+				setModelData( model,
+					'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference>.</paragraph>' +
+					'<footnotes><footnoteItem footnoteId="a"><paragraph>Note.</paragraph></footnoteItem></footnotes>'
+				);
+
+				expect( editor.getData() ).to.equal(
+					'<p>Foo' +
+						'<sup class="footnote-reference" id="footnote-reference-a" data-footnote-id="a"><a href="#footnote-a">1</a></sup>' +
+					'.</p>' +
+					'<ol class="footnotes"><li class="footnote-item" id="footnote-a" data-footnote-id="a"><p>Note.</p></li></ol>'
+				);
+			} );
+
+			it( 'should produce the same data after loading it', () => {
+				const data =
+					'<p>Foo' +
+						'<sup class="footnote-reference" id="footnote-reference-a" data-footnote-id="a"><a href="#footnote-a">1</a></sup>' +
+						'<sup class="footnote-reference" id="footnote-reference-b" data-footnote-id="b"><a href="#footnote-b">2</a></sup>' +
+					'</p>' +
+					'<ol class="footnotes">' +
+						'<li class="footnote-item" id="footnote-a" data-footnote-id="a"><p>Note <strong>A</strong>.</p></li>' +
+						'<li class="footnote-item" id="footnote-b" data-footnote-id="b"><p>Note B.</p><p>Second paragraph.</p></li>' +
+					'</ol>';
+
+				editor.setData( data );
+
+				expect( editor.getData() ).to.equal( data );
+			} );
+		} );
+
+		describe( 'editing downcast', () => {
+			it( 'should convert the footnote references and the footnotes section to widgets', () => {
+				setModelData( model,
+					'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+					'<footnotes><footnoteItem footnoteId="a"><paragraph>Note.</paragraph></footnoteItem></footnotes>'
+				);
+
+				expect( getViewData( view, { withoutSelection: true } ) ).to.equal(
+					'<p>Foo' +
+						'<sup class="ck-footnote-reference ck-widget footnote-reference" contenteditable="false" ' +
+							'data-footnote-id="a" id="footnote-reference-a"><a>1</a></sup>' +
+					'</p>' +
+					'<ol class="ck-footnotes ck-widget footnotes" contenteditable="false">' +
+						'<li aria-label="Footnote" class="ck-editor__editable ck-editor__nested-editable footnote-item" ' +
+							'contenteditable="true" data-footnote-id="a" id="footnote-a" role="textbox">' +
+							'<p>Note.</p>' +
+							'<span class="ck-footnote-back-link" contenteditable="false" title="Back to the reference"></span>' +
+						'</li>' +
+					'</ol>'
+				);
+			} );
+
+			it( 'should update the number of the footnote reference', () => {
+				setModelData( model,
+					'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+					'<footnotes><footnoteItem footnoteId="a"><paragraph>Note.</paragraph></footnoteItem></footnotes>'
+				);
+
+				model.change( writer => {
+					writer.insert(
+						writer.createElement( 'footnoteReference', { footnoteId: 'b' } ),
+						model.document.getRoot().getChild( 0 ), 0
+					);
+				} );
+
+				const viewParagraph = view.document.getRoot().getChild( 0 );
+
+				expect( viewParagraph.getChild( 0 ).getChild( 0 ).getChild( 0 ).data ).to.equal( '1' );
+				expect( viewParagraph.getChild( 2 ).getChild( 0 ).getChild( 0 ).data ).to.equal( '2' );
+			} );
+
+			it( 'should keep the link back to the reference at the end of the note', () => {
+				setModelData( model,
+					'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+					'<footnotes><footnoteItem footnoteId="a"><paragraph>Note.</paragraph></footnoteItem></footnotes>'
+				);
+
+				model.change( writer => {
+					const item = model.document.getRoot().getChild( 1 ).getChild( 0 );
+
+					writer.insertElement( 'paragraph', item, 0 );
+					writer.insertElement( 'paragraph', item, 'end' );
+				} );
+
+				const viewItem = view.document.getRoot().getChild( 1 ).getChild( 0 );
+
+				expect( viewItem.childCount ).to.equal( 4 );
+				expect( viewItem.getChild( 3 ).is( 'uiElement' ) ).to.be.true;
+			} );
+		} );
+	} );
+
+	describe( 'post-fixer', () => {
+		it( 'should number the footnote references in the document order', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<paragraph>Bar<footnoteReference footnoteId="b"></footnoteReference></paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<paragraph>Bar<footnoteReference footnoteId="b" footnoteIndex="2"></footnoteReference></paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+		} );
+
+		it( 'should renumber the footnote references and reorder the notes when a reference is moved', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<paragraph>Bar<footnoteReference footnoteId="b"></footnoteReference></paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+
+			model.change( writer => {
+				const root = model.document.getRoot();
+
+				writer.move( writer.createRangeOn( root.getChild( 1 ) ), root, 0 );
+			} );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Bar<footnoteReference footnoteId="b" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="2"></footnoteReference></paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+		} );
+
+		it( 'should renumber the footnote references and remove the note when a reference is removed', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<paragraph>Bar<footnoteReference footnoteId="b"></footnoteReference></paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+
+			model.change( writer => {
+				writer.remove( model.document.getRoot().getChild( 0 ).getChild( 1 ) );
+			} );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Foo</paragraph>' +
+				'<paragraph>Bar<footnoteReference footnoteId="b" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+		} );
+
+		it( 'should remove the footnotes section when the last reference is removed', () => {
+			setModelData( model,
+				'<paragraph>Foo[<footnoteReference footnoteId="a"></footnoteReference>]</paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+
+			model.change( () => {
+				model.deleteContent( model.document.selection );
+			} );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<paragraph>Foo</paragraph>' );
+		} );
+
+		it( 'should restore the removed note and the footnotes section on undo', async () => {
+			await editor.destroy();
+
+			editor = await ClassicTestEditor.create( element, {
+				plugins: [ Paragraph, Undo, FootnotesEditing ]
+			} );
+
+			const data =
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>';
+
+			setModelData( editor.model, data );
+
+			editor.model.change( writer => {
+				writer.remove( editor.model.document.getRoot().getChild( 0 ).getChild( 1 ) );
+			} );
+
+			editor.execute( 'undo' );
+
+			expect( getModelData( editor.model, { withoutSelection: true } ) ).to.equal( data );
+		} );
+
+		it( 'should create an empty note for a reference without a note', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>'
+			);
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph></paragraph></footnoteItem></footnotes>'
+			);
+		} );
+
+		it( 'should fill an empty note with a paragraph', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"></footnoteItem></footnotes>'
+			);
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph></paragraph></footnoteItem></footnotes>'
+			);
+		} );
+
+		it( 'should move the footnotes section to the end of the root', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>' +
+				'<paragraph>Bar</paragraph>'
+			);
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<paragraph>Bar</paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+		} );
+
+		it( 'should merge the footnotes sections', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem></footnotes>' +
+				'<paragraph>Bar<footnoteReference footnoteId="b"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<paragraph>Bar<footnoteReference footnoteId="b" footnoteIndex="2"></footnoteReference></paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+		} );
+
+		it( 'should give a new id and a copy of the note to a repeated footnote reference', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<paragraph>Bar<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+
+			const root = model.document.getRoot();
+			const copiedReference = root.getChild( 1 ).getChild( 1 );
+			const copiedItem = root.getChild( 2 ).getChild( 1 );
+			const footnoteId = copiedReference.getAttribute( 'footnoteId' );
+
+			expect( footnoteId ).to.be.a( 'string' ).and.not.equal( 'a' );
+			expect( copiedReference.getAttribute( 'footnoteIndex' ) ).to.equal( 2 );
+			expect( copiedItem.getAttribute( 'footnoteId' ) ).to.equal( footnoteId );
+			expect( copiedItem.getChild( 0 ).getChild( 0 ).data ).to.equal( 'A' );
+			expect( root.getChild( 2 ).childCount ).to.equal( 2 );
+		} );
+
+		it( 'should remove the notes without references', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="a"><paragraph>A2</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+		} );
+
+		it( 'should not change the model if the footnotes are consistent', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+
+			const spy = sinon.spy();
+
+			model.document.on( 'change:data', spy );
+
+			model.change( writer => {
+				writer.insertText( 'Bar', model.document.getRoot().getChild( 0 ), 0 );
+			} );
+
+			expect( spy.calledOnce ).to.be.true;
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>BarFoo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+		} );
+	} );
+
+	describe( 'navigation', () => {
+		beforeEach( () => {
+			setModelData( model,
+				'<paragraph>Foo[<footnoteReference footnoteId="a"></footnoteReference>]</paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+		} );
+
+		it( 'should go to the note on Alt+Enter when a footnote reference is selected', () => {
+			const spy = sinon.spy( editor, 'execute' );
+
+			editor.keystrokes.press( { keyCode: keyCodes.enter, altKey: true, preventDefault() {}, stopPropagation() {} } );
+
+			expect( spy.calledWith( 'goToFootnote' ) ).to.be.true;
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>[]A</paragraph></footnoteItem></footnotes>'
+			);
+		} );
+
+		it( 'should go back to the reference on Alt+Enter in a note', () => {
+			editor.execute( 'goToFootnote' );
+
+			editor.keystrokes.press( { keyCode: keyCodes.enter, altKey: true, preventDefault() {}, stopPropagation() {} } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Foo[<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference>]</paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+		} );
+
+		it( 'should not handle Alt+Enter outside the footnotes', () => {
+			const spy = sinon.spy( editor, 'execute' );
+
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 0 ), 1 );
+			} );
+
+			editor.keystrokes.press( { keyCode: keyCodes.enter, altKey: true, preventDefault() {}, stopPropagation() {} } );
+
+			expect( spy.called ).to.be.false;
+		} );
+
+		it( 'should go to the note when a footnote reference is clicked with the Ctrl (Cmd) key', () => {
+			const domReference = view.domConverter.mapViewToDom( view.document.getRoot().getChild( 0 ).getChild( 1 ) );
+
+			fireClick( domReference.firstChild, { [ env.isMac ? 'metaKey' : 'ctrlKey' ]: true } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Foo<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>[]A</paragraph></footnoteItem></footnotes>'
+			);
+		} );
+
+		it( 'should not go to the note when a footnote reference is clicked without the Ctrl (Cmd) key', () => {
+			const domReference = view.domConverter.mapViewToDom( view.document.getRoot().getChild( 0 ).getChild( 1 ) );
+			const spy = sinon.spy( editor, 'execute' );
+
+			fireClick( domReference.firstChild, {} );
+
+			expect( spy.called ).to.be.false;
+		} );
+
+		it( 'should go back to the reference when the link in a note is clicked', () => {
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 0 ), 0 );
+			} );
+
+			const domItem = view.domConverter.mapViewToDom( view.document.getRoot().getChild( 1 ).getChild( 0 ) );
+
+			fireClick( domItem.querySelector( '.ck-footnote-back-link' ), {} );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Foo[<footnoteReference footnoteId="a" footnoteIndex="1"></footnoteReference>]</paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+		} );
+
+		function fireClick( domTarget, modifiers ) {
+			view.document.fire( 'click', {
+				domTarget,
+				domEvent: Object.assign( { ctrlKey: false, metaKey: false }, modifiers ),
+				preventDefault: sinon.spy()
+			} );
+		}
+	} );
+} );
@@ -0,0 +1,74 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import ButtonView from '@ckeditor/ckeditor5-ui/src/button/buttonview';
+
+import FootnotesEditing from '../src/footnotesediting';
+import FootnotesUI from '../src/footnotesui';
+import footnoteIcon from '../theme/icons/footnote.svg';
+
+describe( 'FootnotesUI', () => {
+	let editor, element, button, command;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, FootnotesEditing, FootnotesUI ]
+		} );
+
+		command = editor.commands.get( 'insertFootnote' );
+		button = editor.ui.componentFactory.create( 'footnote' );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( FootnotesUI.pluginName ).to.equal( 'FootnotesUI' );
+	} );
+
+	describe( 'the "footnote" button', () => {
+		it( 'should be a button', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+		} );
+
+		it( 'should have a label, an icon and a tooltip', () => {
+			expect( button.label ).to.equal( 'Insert footnote' );
+			expect( button.icon ).to.equal( footnoteIcon );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should bind #isEnabled to the command', () => {
+			command.isEnabled = true;
+			expect( button.isEnabled ).to.be.true;
+
+			command.isEnabled = false;
+			expect( button.isEnabled ).to.be.false;
+		} );
+
+		it( 'should execute the command and focus the editing view', () => {
+			const executeSpy = sinon.stub( editor, 'execute' );
+			const focusSpy = sinon.stub( editor.editing.view, 'focus' );
+
+			button.fire( 'execute' );
+
+			expect( executeSpy.calledOnce ).to.be.true;
+			expect( executeSpy.calledWith( 'insertFootnote' ) ).to.be.true;
+			expect( focusSpy.calledOnce ).to.be.true;
+		} );
+	} );
+} );
@@ -0,0 +1,77 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import FootnotesEditing from '../src/footnotesediting';
+
+describe( 'GoToFootnoteReferenceCommand', () => {
+	let editor, model, command;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, FootnotesEditing ]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'goToFootnoteReference' );
+
+		sinon.stub( editor.editing.view, 'scrollToTheSelection' );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true when the selection is in a note', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A[]</paragraph></footnoteItem></footnotes>'
+			);
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when the selection is outside the notes', () => {
+			setModelData( model,
+				'<paragraph>Foo[]<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should select the reference of the note containing the selection', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="b"></footnoteReference></paragraph>' +
+				'<paragraph>Bar<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="a"><paragraph>A[]</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Foo<footnoteReference footnoteId="b" footnoteIndex="1"></footnoteReference></paragraph>' +
+				'<paragraph>Bar[<footnoteReference footnoteId="a" footnoteIndex="2"></footnoteReference>]</paragraph>' +
+				'<footnotes>' +
+					'<footnoteItem footnoteId="b"><paragraph>B</paragraph></footnoteItem>' +
+					'<footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem>' +
+				'</footnotes>'
+			);
+			expect( editor.editing.view.scrollToTheSelection.calledOnce ).to.be.true;
+		} );
+	} );
+} );
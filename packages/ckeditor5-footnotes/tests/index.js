@@ -0,0 +1,45 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	Footnotes as FootnotesDLL,
+	FootnotesEditing as FootnotesEditingDLL,
+	FootnotesUI as FootnotesUIDLL,
+	InsertFootnoteCommand as InsertFootnoteCommandDLL,
+	GoToFootnoteCommand as GoToFootnoteCommandDLL,
+	GoToFootnoteReferenceCommand as GoToFootnoteReferenceCommandDLL
+} from '../src';
+import Footnotes from '../src/footnotes';
+import FootnotesEditing from '../src/footnotesediting';
+import FootnotesUI from '../src/footnotesui';
+import InsertFootnoteCommand from '../src/insertfootnotecommand';
+import GoToFootnoteCommand from '../src/gotofootnotecommand';
+import GoToFootnoteReferenceCommand from '../src/gotofootnotereferencecommand';
+
+describe( 'Footnotes DLL', () => {
+	it( 'exports Footnotes', () => {
+		expect( FootnotesDLL ).to.equal( Footnotes );
+	} );
+
+	it( 'exports FootnotesEditing', () => {
+		expect( FootnotesEditingDLL ).to.equal( FootnotesEditing );
+	} );
+
+	it( 'exports FootnotesUI', () => {
+		expect( FootnotesUIDLL ).to.equal( FootnotesUI );
+	} );
+
+	it( 'exports InsertFootnoteCommand', () => {
+		expect( InsertFootnoteCommandDLL ).to.equal( InsertFootnoteCommand );
+	} );
+
+	it( 'exports GoToFootnoteCommand', () => {
+		expect( GoToFootnoteCommandDLL ).to.equal( GoToFootnoteCommand );
+	} );
+
+	it( 'exports GoToFootnoteReferenceCommand', () => {
+		expect( GoToFootnoteReferenceCommandDLL ).to.equal( GoToFootnoteReferenceCommand );
+	} );
+} );
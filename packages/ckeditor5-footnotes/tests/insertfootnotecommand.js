@@ -0,0 +1,118 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import FootnotesEditing from '../src/footnotesediting';
+
+describe( 'InsertFootnoteCommand', () => {
+	let editor, model, command;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, UndoEditing, FootnotesEditing ]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'insertFootnote' );
+
+		sinon.stub( editor.editing.view, 'scrollToTheSelection' );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true when the selection is in a paragraph', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when the selection is in a note', () => {
+			setModelData( model,
+				'<paragraph>Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A[]</paragraph></footnoteItem></footnotes>'
+			);
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false when the footnote references are not allowed', () => {
+			model.schema.addChildCheck( ( context, childDefinition ) => {
+				if ( childDefinition.name == 'footnoteReference' ) {
+					return false;
+				}
+			} );
+
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should insert a footnote reference and a note and move the selection to the note', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			command.execute();
+
+			const root = model.document.getRoot();
+			const reference = root.getChild( 0 ).getChild( 1 );
+			const item = root.getChild( 1 ).getChild( 0 );
+
+			expect( reference.name ).to.equal( 'footnoteReference' );
+			expect( reference.getAttribute( 'footnoteIndex' ) ).to.equal( 1 );
+			expect( item.name ).to.equal( 'footnoteItem' );
+			expect( item.getAttribute( 'footnoteId' ) ).to.equal( reference.getAttribute( 'footnoteId' ) );
+			expect( model.document.selection.getFirstPosition().parent ).to.equal( item.getChild( 0 ) );
+			expect( editor.editing.view.scrollToTheSelection.calledOnce ).to.be.true;
+		} );
+
+		it( 'should add the note in the order of the references', () => {
+			setModelData( model,
+				'<paragraph>[]Foo<footnoteReference footnoteId="a"></footnoteReference></paragraph>' +
+				'<footnotes><footnoteItem footnoteId="a"><paragraph>A</paragraph></footnoteItem></footnotes>'
+			);
+
+			command.execute();
+
+			const root = model.document.getRoot();
+			const newFootnoteId = root.getChild( 0 ).getChild( 0 ).getAttribute( 'footnoteId' );
+			const newItem = root.getChild( 1 ).getChild( 0 );
+
+			expect( root.getChild( 0 ).getChild( 2 ).getAttribute( 'footnoteIndex' ) ).to.equal( 2 );
+			expect( newItem.getAttribute( 'footnoteId' ) ).to.equal( newFootnoteId );
+			expect( root.getChild( 1 ).getChild( 1 ).getAttribute( 'footnoteId' ) ).to.equal( 'a' );
+			expect( model.document.selection.getFirstPosition().findAncestor( 'footnoteItem' ) ).to.equal( newItem );
+		} );
+
+		it( 'should replace the selected content', () => {
+			setModelData( model, '<paragraph>F[oo]</paragraph>' );
+
+			command.execute();
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.match(
+				/^<paragraph>F<footnoteReference footnoteId="\w+" footnoteIndex="1"><\/footnoteReference><\/paragraph><footnotes>/
+			);
+		} );
+
+		it( 'should be undone in a single step', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			command.execute();
+			editor.execute( 'undo' );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>Foo[]</paragraph>' );
+		} );
+	} );
+} );
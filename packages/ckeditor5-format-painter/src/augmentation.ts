@@ -0,0 +1,25 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	FormatPainter,
+	FormatPainterEditing,
+	FormatPainterUI,
+	CopyFormatCommand,
+	PasteFormatCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface PluginsMap {
+		[ FormatPainter.pluginName ]: FormatPainter;
+		[ FormatPainterEditing.pluginName ]: FormatPainterEditing;
+		[ FormatPainterUI.pluginName ]: FormatPainterUI;
+	}
+
+	interface CommandsMap {
+		copyFormat: CopyFormatCommand;
+		pasteFormat: PasteFormatCommand;
+	}
+}
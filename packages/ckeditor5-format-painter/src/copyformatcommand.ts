@@ -0,0 +1,124 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module format-painter/copyformatcommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+import { first } from 'ckeditor5/src/utils';
+import type { DocumentSelection, Element, Schema } from 'ckeditor5/src/engine';
+import type { StyleCommand } from '@ckeditor/ckeditor5-style';
+
+/**
+ * The copy format command. It is registered by the {@link module:format-painter/formatpainterediting~FormatPainterEditing}
+ * plugin as `'copyFormat'`.
+ *
+ * It copies the formatting of the selection, which is then applied by the
+ * {@link module:format-painter/pasteformatcommand~PasteFormatCommand paste format command}. Executing the command
+ * when the formatting is already copied turns the format painter off.
+ *
+ * ```ts
+ * // Copy the formatting and apply it once.
+ * editor.execute( 'copyFormat' );
+ *
+ * // Copy the formatting and apply it until the format painter is turned off.
+ * editor.execute( 'copyFormat', { sticky: true } );
+ * ```
+ */
+export default class CopyFormatCommand extends Command {
+	/**
+	 * The copied formatting or `null` if the format painter is off.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: CopiedFormat | null;
+
+	/**
+	 * Whether the copied formatting is kept after it is applied, so it can be applied many times.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public isSticky: boolean;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		// Copying the formatting does not change the content, so it is possible in the read-only mode.
+		this.affectsData = false;
+
+		this.value = null;
+		this.set( 'isSticky', false );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.sticky Whether the copied formatting should be kept after it is applied. If not set and the formatting
+	 * is already copied, the format painter is turned off.
+	 * @fires execute
+	 */
+	public override execute( options: { sticky?: boolean } = {} ): void {
+		if ( this.value && !options.sticky ) {
+			this.reset();
+
+			return;
+		}
+
+		const model = this.editor.model;
+		const selection = model.document.selection;
+		const block = first( selection.getSelectedBlocks() );
+		const styleCommand: StyleCommand | undefined = this.editor.commands.get( 'style' );
+
+		this.isSticky = !!options.sticky;
+		this.value = {
+			textAttributes: getFormattingAttributes( selection, model.schema ),
+			blockAttributes: block ? getFormattingAttributes( block, model.schema ) : new Map(),
+			styles: styleCommand ? [ ...styleCommand.value ] : []
+		};
+	}
+
+	/**
+	 * Discards the copied formatting, which turns the format painter off.
+	 */
+	public reset(): void {
+		this.value = null;
+		this.isSticky = false;
+	}
+}
+
+/**
+ * The formatting copied by the {@link module:format-painter/copyformatcommand~CopyFormatCommand copy format command}.
+ */
+export interface CopiedFormat {
+
+	/**
+	 * The formatting attributes of the text, for instance `bold` or `fontColor`.
+	 */
+	textAttributes: Map<string, unknown>;
+
+	/**
+	 * The formatting attributes of the block, for instance `alignment`.
+	 */
+	blockAttributes: Map<string, unknown>;
+
+	/**
+	 * The names of the styles of the {@link module:style/style~Style style feature}.
+	 */
+	styles: Array<string>;
+}
+
+/**
+ * Returns the attributes of the selection or the block marked with the `isFormatting` property in the schema.
+ */
+function getFormattingAttributes( item: DocumentSelection | Element, schema: Schema ): Map<string, unknown> {
+	return new Map( Array.from( item.getAttributes() ).filter( ( [ key ] ) => schema.getAttributeProperties( key ).isFormatting ) );
+}
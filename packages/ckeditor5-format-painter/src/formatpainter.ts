@@ -0,0 +1,40 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module format-painter/formatpainter
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import FormatPainterEditing from './formatpainterediting';
+import FormatPainterUI from './formatpainterui';
+
+/**
+ * The format painter feature.
+ *
+ * It copies the formatting of the selection and applies it to the content selected next. The copied formatting
+ * consists of the attributes marked with the `isFormatting` property in the {@link module:engine/model/schema~Schema schema}
+ * (for instance bold, font color or highlight), the formatting attributes of the block (for instance alignment) and the styles
+ * of the {@link module:style/style~Style style feature}.
+ *
+ * This is a "glue" plugin which loads the {@link module:format-painter/formatpainterediting~FormatPainterEditing format painter
+ * editing feature} and the {@link module:format-painter/formatpainterui~FormatPainterUI format painter UI feature}.
+ */
+export default class FormatPainter extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FormatPainter' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ FormatPainterEditing, FormatPainterUI ] as const;
+	}
+}
@@ -0,0 +1,77 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module format-painter/formatpainterediting
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { MouseObserver, type ViewDocumentMouseUpEvent } from 'ckeditor5/src/engine';
+import type { ObservableChangeEvent } from 'ckeditor5/src/utils';
+
+import CopyFormatCommand, { type CopiedFormat } from './copyformatcommand';
+import PasteFormatCommand from './pasteformatcommand';
+
+const ACTIVE_CLASS_NAME = 'ck-format-painter_active';
+
+/**
+ * The format painter editing plugin.
+ *
+ * It registers the {@link module:format-painter/copyformatcommand~CopyFormatCommand `'copyFormat'`} and
+ * {@link module:format-painter/pasteformatcommand~PasteFormatCommand `'pasteFormat'`} commands. When the formatting is copied,
+ * it is applied to the content selected with the mouse. The <kbd>Esc</kbd> key turns the format painter off.
+ */
+export default class FormatPainterEditing extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FormatPainterEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const view = editor.editing.view;
+		const copyFormatCommand = new CopyFormatCommand( editor );
+		const pasteFormatCommand = new PasteFormatCommand( editor );
+
+		editor.commands.add( 'copyFormat', copyFormatCommand );
+		editor.commands.add( 'pasteFormat', pasteFormatCommand );
+
+		pasteFormatCommand.listenTo( copyFormatCommand, 'change:value', () => pasteFormatCommand.refresh() );
+
+		view.addObserver( MouseObserver );
+
+		// The view selection is already updated when the mouse button is released.
+		this.listenTo<ViewDocumentMouseUpEvent>( view.document, 'mouseup', () => {
+			if ( pasteFormatCommand.isEnabled ) {
+				editor.execute( 'pasteFormat' );
+			}
+		} );
+
+		editor.keystrokes.set( 'Esc', ( data, cancel ) => {
+			if ( copyFormatCommand.value ) {
+				copyFormatCommand.reset();
+				cancel();
+			}
+		} );
+
+		// Change the mouse cursor over the editing roots while the format painter is on.
+		this.listenTo<ObservableChangeEvent<CopiedFormat | null>>( copyFormatCommand, 'change:value', ( evt, name, value ) => {
+			view.change( writer => {
+				for ( const root of view.document.roots ) {
+					if ( value ) {
+						writer.addClass( ACTIVE_CLASS_NAME, root );
+					} else {
+						writer.removeClass( ACTIVE_CLASS_NAME, root );
+					}
+				}
+			} );
+		} );
+	}
+}
@@ -0,0 +1,72 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module format-painter/formatpainterui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { ButtonView } from 'ckeditor5/src/ui';
+
+import formatPainterIcon from '../theme/icons/format-painter.svg';
+import '../theme/formatpainter.css';
+
+/**
+ * The format painter UI plugin. It registers the `'formatPainter'` button which can be used in the toolbar.
+ *
+ * Clicking the button copies the formatting of the selection, which is applied once to the content selected next.
+ * Double-clicking the button keeps the format painter on until the button is clicked again or the <kbd>Esc</kbd> key is pressed.
+ */
+export default class FormatPainterUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FormatPainterUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+
+		editor.ui.componentFactory.add( 'formatPainter', locale => {
+			const command = editor.commands.get( 'copyFormat' )!;
+			const view = new ButtonView( locale );
+			const t = locale.t;
+
+			view.set( {
+				label: t( 'Format painter' ),
+				icon: formatPainterIcon,
+				tooltip: true
+			} );
+
+			view.bind( 'isOn' ).to( command, 'value', value => !!value );
+			view.bind( 'isEnabled' ).to( command );
+
+			view.extendTemplate( {
+				on: {
+					// The first click of the double-click turns the format painter on and the second one turns it off,
+					// so the formatting is copied again in the sticky mode.
+					dblclick: view.bindTemplate.to( () => {
+						if ( view.isEnabled ) {
+							editor.execute( 'copyFormat', { sticky: true } );
+							editor.editing.view.focus();
+						}
+					} )
+				}
+			} );
+
+			// Execute the command.
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'copyFormat' );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+	}
+}
@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module format-painter
+ */
+
+export { default as FormatPainter } from './formatpainter';
+export { default as FormatPainterEditing } from './formatpainterediting';
+export { default as FormatPainterUI } from './formatpainterui';
+export { default as CopyFormatCommand } from './copyformatcommand';
+export { default as PasteFormatCommand } from './pasteformatcommand';
+
+export type { CopiedFormat } from './copyformatcommand';
+
+import './augmentation';
@@ -0,0 +1,144 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module format-painter/pasteformatcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { DocumentSelection, Element, Item, Range, Schema, Writer } from 'ckeditor5/src/engine';
+import type { StyleCommand } from '@ckeditor/ckeditor5-style';
+
+/**
+ * The paste format command. It is registered by the {@link module:format-painter/formatpainterediting~FormatPainterEditing}
+ * plugin as `'pasteFormat'`.
+ *
+ * It replaces the formatting of the selection with the formatting copied by the
+ * {@link module:format-painter/copyformatcommand~CopyFormatCommand copy format command}. Unless the formatting was copied
+ * in the sticky mode, the format painter is turned off afterwards.
+ *
+ * ```ts
+ * editor.execute( 'pasteFormat' );
+ * ```
+ */
+export default class PasteFormatCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const copyFormatCommand = this.editor.commands.get( 'copyFormat' );
+		const model = this.editor.model;
+
+		this.isEnabled = !!copyFormatCommand && !!copyFormatCommand.value && model.canEditAt( model.document.selection );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override execute(): void {
+		const editor = this.editor;
+		const model = editor.model;
+		const selection = model.document.selection;
+		const copyFormatCommand = editor.commands.get( 'copyFormat' )!;
+		const styleCommand: StyleCommand | undefined = editor.commands.get( 'style' );
+		const { textAttributes, blockAttributes, styles } = copyFormatCommand.value!;
+
+		model.change( writer => {
+			pasteTextFormat( writer, selection, model.schema, textAttributes );
+
+			for ( const block of selection.getSelectedBlocks() ) {
+				replaceBlockFormat( writer, block, model.schema, blockAttributes );
+			}
+
+			if ( styleCommand ) {
+				// Find the styles applied to the selection once the text formatting is replaced.
+				styleCommand.refresh();
+
+				const currentStyles = styleCommand.value;
+
+				for ( const styleName of currentStyles.filter( styleName => !styles.includes( styleName ) ) ) {
+					editor.execute( 'style', { styleName, forceValue: false } );
+				}
+
+				for ( const styleName of styles.filter( styleName => !currentStyles.includes( styleName ) ) ) {
+					if ( styleCommand.enabledStyles.includes( styleName ) ) {
+						editor.execute( 'style', { styleName, forceValue: true } );
+					}
+				}
+			}
+		} );
+
+		if ( !copyFormatCommand.isSticky ) {
+			copyFormatCommand.reset();
+		}
+	}
+}
+
+/**
+ * Replaces the formatting of the selected text. If the selection is collapsed, the formatting of the selection is replaced,
+ * so it applies to the typed text.
+ */
+function pasteTextFormat( writer: Writer, selection: DocumentSelection, schema: Schema, attributes: Map<string, unknown> ) {
+	if ( selection.isCollapsed ) {
+		for ( const key of getFormattingAttributeKeys( selection, schema ) ) {
+			writer.removeSelectionAttribute( key );
+		}
+
+		for ( const [ key, value ] of attributes ) {
+			if ( schema.checkAttributeInSelection( selection, key ) ) {
+				writer.setSelectionAttribute( key, value );
+			}
+		}
+
+		return;
+	}
+
+	const ranges = Array.from( selection.getRanges() );
+	const formattedItems: Array<{ range: Range; keys: Array<string> }> = [];
+
+	for ( const range of ranges ) {
+		for ( const item of range.getItems() ) {
+			// The formatting of the blocks is replaced separately.
+			if ( !schema.isBlock( item ) ) {
+				formattedItems.push( { range: writer.createRangeOn( item ), keys: getFormattingAttributeKeys( item, schema ) } );
+			}
+		}
+	}
+
+	// The ranges of the items are created before the changes, as the text proxies become invalid once the text nodes are merged.
+	for ( const { range, keys } of formattedItems ) {
+		for ( const key of keys ) {
+			writer.removeAttribute( key, range );
+		}
+	}
+
+	for ( const [ key, value ] of attributes ) {
+		for ( const range of schema.getValidRanges( ranges, key ) ) {
+			writer.setAttribute( key, value, range );
+		}
+	}
+}
+
+/**
+ * Removes the formatting attributes of the block and sets the given attributes which are allowed on it.
+ */
+function replaceBlockFormat( writer: Writer, block: Element, schema: Schema, attributes: Map<string, unknown> ) {
+	for ( const key of getFormattingAttributeKeys( block, schema ) ) {
+		writer.removeAttribute( key, block );
+	}
+
+	for ( const [ key, value ] of attributes ) {
+		if ( schema.checkAttribute( block, key ) ) {
+			writer.setAttribute( key, value, block );
+		}
+	}
+}
+
+/**
+ * Returns the names of the attributes of the item marked with the `isFormatting` property in the schema.
+ */
+function getFormattingAttributeKeys( item: Item | DocumentSelection, schema: Schema ): Array<string> {
+	return Array.from( item.getAttributeKeys() ).filter( key => schema.getAttributeProperties( key ).isFormatting );
+}
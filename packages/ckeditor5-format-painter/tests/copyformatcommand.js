@@ -0,0 +1,153 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import ItalicEditing from '@ckeditor/ckeditor5-basic-styles/src/italic/italicediting';
+import FontColorEditing from '@ckeditor/ckeditor5-font/src/fontcolor/fontcolorediting';
+import AlignmentEditing from '@ckeditor/ckeditor5-alignment/src/alignmentediting';
+import LinkEditing from '@ckeditor/ckeditor5-link/src/linkediting';
+import { setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import FormatPainterEditing from '../src/formatpainterediting';
+
+describe( 'CopyFormatCommand', () => {
+	let editor, command;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, BoldEditing, ItalicEditing, FontColorEditing, AlignmentEditing, LinkEditing, FormatPainterEditing ]
+		} );
+
+		command = editor.commands.get( 'copyFormat' );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	it( 'should not affect data', () => {
+		expect( command.affectsData ).to.be.false;
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true', () => {
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be true in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( 'value', () => {
+		it( 'should be null by default', () => {
+			expect( command.value ).to.be.null;
+		} );
+
+		it( 'should not change when the selection changes', () => {
+			setModelData( editor.model, '<paragraph>[]Foo</paragraph><paragraph>Bar</paragraph>' );
+
+			command.execute();
+
+			const value = command.value;
+
+			editor.model.change( writer => {
+				writer.setSelection( editor.model.document.getRoot().getChild( 1 ), 'in' );
+			} );
+
+			expect( command.value ).to.equal( value );
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should copy the formatting attributes of the selected text', () => {
+			setModelData( editor.model,
+				'<paragraph><$text bold="true" fontColor="red" linkHref="foo">[Foo</$text>]bar</paragraph>'
+			);
+
+			command.execute();
+
+			expect( Array.from( command.value.textAttributes ) ).to.deep.equal( [ [ 'bold', true ], [ 'fontColor', 'red' ] ] );
+		} );
+
+		it( 'should copy the formatting attributes of the collapsed selection', () => {
+			setModelData( editor.model, '<paragraph><$text italic="true">Foo[]</$text>bar</paragraph>' );
+
+			command.execute();
+
+			expect( Array.from( command.value.textAttributes ) ).to.deep.equal( [ [ 'italic', true ] ] );
+		} );
+
+		it( 'should copy the formatting attributes of the first selected block', () => {
+			setModelData( editor.model,
+				'<paragraph alignment="center">F[oo</paragraph><paragraph alignment="right">Ba]r</paragraph>'
+			);
+
+			command.execute();
+
+			expect( Array.from( command.value.blockAttributes ) ).to.deep.equal( [ [ 'alignment', 'center' ] ] );
+		} );
+
+		it( 'should copy no styles if the style feature is not loaded', () => {
+			setModelData( editor.model, '<paragraph>[]Foo</paragraph>' );
+
+			command.execute();
+
+			expect( command.value.styles ).to.deep.equal( [] );
+		} );
+
+		it( 'should not be sticky by default', () => {
+			setModelData( editor.model, '<paragraph>[]Foo</paragraph>' );
+
+			command.execute();
+
+			expect( command.isSticky ).to.be.false;
+		} );
+
+		it( 'should be sticky if requested', () => {
+			setModelData( editor.model, '<paragraph>[]Foo</paragraph>' );
+
+			command.execute( { sticky: true } );
+
+			expect( command.isSticky ).to.be.true;
+		} );
+
+		it( 'should turn the format painter off if the formatting is copied', () => {
+			setModelData( editor.model, '<paragraph>[]Foo</paragraph>' );
+
+			command.execute();
+			command.execute();
+
+			expect( command.value ).to.be.null;
+			expect( command.isSticky ).to.be.false;
+		} );
+
+		it( 'should copy the formatting again in the sticky mode if the formatting is copied', () => {
+			setModelData( editor.model, '<paragraph><$text bold="true">[]Foo</$text></paragraph>' );
+
+			command.execute();
+			command.execute( { sticky: true } );
+
+			expect( Array.from( command.value.textAttributes ) ).to.deep.equal( [ [ 'bold', true ] ] );
+			expect( command.isSticky ).to.be.true;
+		} );
+	} );
+
+	describe( 'reset()', () => {
+		it( 'should discard the copied formatting', () => {
+			setModelData( editor.model, '<paragraph>[]Foo</paragraph>' );
+
+			command.execute( { sticky: true } );
+			command.reset();
+
+			expect( command.value ).to.be.null;
+			expect( command.isSticky ).to.be.false;
+		} );
+	} );
+} );
@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import FormatPainter from '../src/formatpainter';
+import FormatPainterEditing from '../src/formatpainterediting';
+import FormatPainterUI from '../src/formatpainterui';
+
+describe( 'FormatPainter', () => {
+	it( 'should be correctly named', () => {
+		expect( FormatPainter.pluginName ).to.equal( 'FormatPainter' );
+	} );
+
+	it( 'should require FormatPainterEditing and FormatPainterUI', () => {
+		expect( FormatPainter.requires ).to.deep.equal( [ FormatPainterEditing, FormatPainterUI ] );
+	} );
+} );
@@ -0,0 +1,123 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import FormatPainterEditing from '../src/formatpainterediting';
+import CopyFormatCommand from '../src/copyformatcommand';
+import PasteFormatCommand from '../src/pasteformatcommand';
+
+describe( 'FormatPainterEditing', () => {
+	let editor, model, viewDocument, copyFormatCommand;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, BoldEditing, FormatPainterEditing ]
+		} );
+
+		model = editor.model;
+		viewDocument = editor.editing.view.document;
+		copyFormatCommand = editor.commands.get( 'copyFormat' );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	function pressEsc() {
+		const keyEventData = {
+			keyCode: keyCodes.esc,
+			preventDefault: sinon.spy(),
+			stopPropagation: sinon.spy()
+		};
+
+		editor.keystrokes.press( keyEventData );
+
+		return keyEventData;
+	}
+
+	it( 'should be correctly named', () => {
+		expect( FormatPainterEditing.pluginName ).to.equal( 'FormatPainterEditing' );
+	} );
+
+	it( 'should register the copyFormat command', () => {
+		expect( copyFormatCommand ).to.be.instanceOf( CopyFormatCommand );
+	} );
+
+	it( 'should register the pasteFormat command', () => {
+		expect( editor.commands.get( 'pasteFormat' ) ).to.be.instanceOf( PasteFormatCommand );
+	} );
+
+	describe( 'applying the formatting', () => {
+		it( 'should paste the formatting when the mouse button is released', () => {
+			setModelData( model, '<paragraph><$text bold="true">F[]oo</$text></paragraph><paragraph>Bar</paragraph>' );
+			editor.execute( 'copyFormat' );
+
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 1 ), 'in' );
+			} );
+
+			viewDocument.fire( 'mouseup', {} );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph><$text bold="true">Foo</$text></paragraph><paragraph>[<$text bold="true">Bar</$text>]</paragraph>'
+			);
+		} );
+
+		it( 'should not paste the formatting if it is not copied', () => {
+			const executeSpy = sinon.spy( editor, 'execute' );
+
+			setModelData( model, '<paragraph>[Foo]</paragraph>' );
+
+			viewDocument.fire( 'mouseup', {} );
+
+			sinon.assert.notCalled( executeSpy );
+		} );
+	} );
+
+	describe( 'the Esc key', () => {
+		it( 'should turn the format painter off', () => {
+			setModelData( model, '<paragraph>[]Foo</paragraph>' );
+			editor.execute( 'copyFormat', { sticky: true } );
+
+			const keyEventData = pressEsc();
+
+			expect( copyFormatCommand.value ).to.be.null;
+			sinon.assert.calledOnce( keyEventData.preventDefault );
+			sinon.assert.calledOnce( keyEventData.stopPropagation );
+		} );
+
+		it( 'should not be handled if the format painter is off', () => {
+			const keyEventData = pressEsc();
+
+			sinon.assert.notCalled( keyEventData.preventDefault );
+			sinon.assert.notCalled( keyEventData.stopPropagation );
+		} );
+	} );
+
+	describe( 'the active class', () => {
+		it( 'should be added to the editing root when the formatting is copied', () => {
+			setModelData( model, '<paragraph>[]Foo</paragraph>' );
+			editor.execute( 'copyFormat' );
+
+			expect( viewDocument.getRoot().hasClass( 'ck-format-painter_active' ) ).to.be.true;
+		} );
+
+		it( 'should be removed from the editing root when the format painter is turned off', () => {
+			setModelData( model, '<paragraph>[]Foo</paragraph>' );
+			editor.execute( 'copyFormat' );
+			editor.execute( 'copyFormat' );
+
+			expect( viewDocument.getRoot().hasClass( 'ck-format-painter_active' ) ).to.be.false;
+		} );
+	} );
+} );
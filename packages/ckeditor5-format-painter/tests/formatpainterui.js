@@ -0,0 +1,104 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Event */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import ButtonView from '@ckeditor/ckeditor5-ui/src/button/buttonview';
+
+import FormatPainterEditing from '../src/formatpainterediting';
+import FormatPainterUI from '../src/formatpainterui';
+
+describe( 'FormatPainterUI', () => {
+	let editor, element, button, command;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, FormatPainterEditing, FormatPainterUI ]
+		} );
+
+		command = editor.commands.get( 'copyFormat' );
+		button = editor.ui.componentFactory.create( 'formatPainter' );
+		button.render();
+	} );
+
+	afterEach( async () => {
+		button.destroy();
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( FormatPainterUI.pluginName ).to.equal( 'FormatPainterUI' );
+	} );
+
+	describe( 'the "formatPainter" button', () => {
+		it( 'should be an instance of ButtonView', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+		} );
+
+		it( 'should have a label, an icon and a tooltip', () => {
+			expect( button.label ).to.equal( 'Format painter' );
+			expect( button.icon ).to.match( /^<svg/ );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should have #isEnabled bound to the command', () => {
+			command.isEnabled = false;
+			expect( button.isEnabled ).to.be.false;
+
+			command.isEnabled = true;
+			expect( button.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be on when the formatting is copied', () => {
+			expect( button.isOn ).to.be.false;
+
+			command.execute();
+			expect( button.isOn ).to.be.true;
+
+			command.reset();
+			expect( button.isOn ).to.be.false;
+		} );
+
+		it( 'should execute the command and focus the editing view', () => {
+			const executeSpy = sinon.spy( editor, 'execute' );
+			const focusSpy = sinon.spy( editor.editing.view, 'focus' );
+
+			button.fire( 'execute' );
+
+			sinon.assert.calledOnce( executeSpy );
+			sinon.assert.calledWithExactly( executeSpy, 'copyFormat' );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should copy the formatting in the sticky mode on double-click', () => {
+			const executeSpy = sinon.spy( editor, 'execute' );
+
+			button.element.dispatchEvent( new Event( 'dblclick' ) );
+
+			sinon.assert.calledOnce( executeSpy );
+			sinon.assert.calledWithExactly( executeSpy, 'copyFormat', { sticky: true } );
+			expect( command.isSticky ).to.be.true;
+		} );
+
+		it( 'should not copy the formatting on double-click if the button is disabled', () => {
+			const executeSpy = sinon.spy( editor, 'execute' );
+
+			command.isEnabled = false;
+			button.element.dispatchEvent( new Event( 'dblclick' ) );
+
+			sinon.assert.notCalled( executeSpy );
+		} );
+	} );
+} );
@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	FormatPainter as FormatPainterDLL,
+	FormatPainterEditing as FormatPainterEditingDLL,
+	FormatPainterUI as FormatPainterUIDLL,
+	CopyFormatCommand as CopyFormatCommandDLL,
+	PasteFormatCommand as PasteFormatCommandDLL
+} from '../src';
+import FormatPainter from '../src/formatpainter';
+import FormatPainterEditing from '../src/formatpainterediting';
+import FormatPainterUI from '../src/formatpainterui';
+import CopyFormatCommand from '../src/copyformatcommand';
+import PasteFormatCommand from '../src/pasteformatcommand';
+
+describe( 'FormatPainter DLL', () => {
+	it( 'exports FormatPainter', () => {
+		expect( FormatPainterDLL ).to.equal( FormatPainter );
+	} );
+
+	it( 'exports FormatPainterEditing', () => {
+		expect( FormatPainterEditingDLL ).to.equal( FormatPainterEditing );
+	} );
+
+	it( 'exports FormatPainterUI', () => {
+		expect( FormatPainterUIDLL ).to.equal( FormatPainterUI );
+	} );
+
+	it( 'exports CopyFormatCommand', () => {
+		expect( CopyFormatCommandDLL ).to.equal( CopyFormatCommand );
+	} );
+
+	it( 'exports PasteFormatCommand', () => {
+		expect( PasteFormatCommandDLL ).to.equal( PasteFormatCommand );
+	} );
+} );
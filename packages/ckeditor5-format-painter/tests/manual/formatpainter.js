@@ -0,0 +1,44 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals console, window, document */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import Essentials from '@ckeditor/ckeditor5-essentials/src/essentials';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import Heading from '@ckeditor/ckeditor5-heading/src/heading';
+import { Bold, Italic, Underline } from '@ckeditor/ckeditor5-basic-styles';
+import { FontColor, FontSize } from '@ckeditor/ckeditor5-font';
+import Highlight from '@ckeditor/ckeditor5-highlight/src/highlight';
+import Alignment from '@ckeditor/ckeditor5-alignment/src/alignment';
+import GeneralHtmlSupport from '@ckeditor/ckeditor5-html-support/src/generalhtmlsupport';
+import Style from '@ckeditor/ckeditor5-style/src/style';
+
+import FormatPainter from '../../src/formatpainter';
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [
+			Essentials, Paragraph, Heading, Bold, Italic, Underline, FontColor, FontSize, Highlight, Alignment,
+			GeneralHtmlSupport, Style, FormatPainter
+		],
+		toolbar: [
+			'formatPainter', '|', 'heading', 'style', '|', 'bold', 'italic', 'underline', 'fontColor', 'fontSize', 'highlight',
+			'alignment', '|', 'undo', 'redo'
+		],
+		style: {
+			definitions: [
+				{ name: 'Title', element: 'h2', classes: [ 'title' ] },
+				{ name: 'Info box', element: 'p', classes: [ 'info-box' ] },
+				{ name: 'Marker', element: 'span', classes: [ 'marker' ] }
+			]
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
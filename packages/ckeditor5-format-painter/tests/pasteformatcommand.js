@@ -0,0 +1,290 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import Heading from '@ckeditor/ckeditor5-heading/src/heading';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import ItalicEditing from '@ckeditor/ckeditor5-basic-styles/src/italic/italicediting';
+import CodeEditing from '@ckeditor/ckeditor5-basic-styles/src/code/codeediting';
+import FontColorEditing from '@ckeditor/ckeditor5-font/src/fontcolor/fontcolorediting';
+import AlignmentEditing from '@ckeditor/ckeditor5-alignment/src/alignmentediting';
+import LinkEditing from '@ckeditor/ckeditor5-link/src/linkediting';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import GeneralHtmlSupport from '@ckeditor/ckeditor5-html-support/src/generalhtmlsupport';
+import Style from '@ckeditor/ckeditor5-style/src/style';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import FormatPainterEditing from '../src/formatpainterediting';
+
+describe( 'PasteFormatCommand', () => {
+	let editor, model, command, copyFormatCommand;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [
+				Paragraph, BoldEditing, ItalicEditing, CodeEditing, FontColorEditing, AlignmentEditing, LinkEditing, UndoEditing,
+				FormatPainterEditing
+			]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'pasteFormat' );
+		copyFormatCommand = editor.commands.get( 'copyFormat' );
+
+		model.schema.register( 'codeLine', { inheritAllFrom: '$block' } );
+		editor.conversion.elementToElement( { model: 'codeLine', view: 'pre' } );
+		model.schema.addAttributeCheck( ( context, attributeName ) => {
+			if ( context.endsWith( 'codeLine $text' ) && attributeName != 'code' ) {
+				return false;
+			}
+		} );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	function copyFormat( data, options ) {
+		setModelData( model, data );
+		copyFormatCommand.execute( options );
+	}
+
+	describe( 'isEnabled', () => {
+		it( 'should be false if the formatting is not copied', () => {
+			setModelData( model, '<paragraph>[]Foo</paragraph>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be true if the formatting is copied', () => {
+			copyFormat( '<paragraph>[]Foo</paragraph>' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false once the format painter is turned off', () => {
+			copyFormat( '<paragraph>[]Foo</paragraph>' );
+			copyFormatCommand.reset();
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false in the read-only mode', () => {
+			copyFormat( '<paragraph>[]Foo</paragraph>' );
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should apply the copied text formatting to the selected text', () => {
+			copyFormat( '<paragraph><$text bold="true" fontColor="red">F[]oo</$text></paragraph><paragraph>Bar</paragraph>' );
+
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 1 ), 'in' );
+			} );
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph><$text bold="true" fontColor="red">Foo</$text></paragraph>' +
+				'<paragraph>[<$text bold="true" fontColor="red">Bar</$text>]</paragraph>'
+			);
+		} );
+
+		it( 'should replace the formatting of the selected text', () => {
+			copyFormat( '<paragraph><$text bold="true">F[]oo</$text></paragraph>' );
+
+			setModelData( model, '<paragraph>[<$text fontColor="red" italic="true">Foo</$text>b]ar</paragraph>' );
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[<$text bold="true">Foob</$text>]ar</paragraph>' );
+		} );
+
+		it( 'should not remove the attributes other than the formatting ones', () => {
+			copyFormat( '<paragraph><$text bold="true">F[]oo</$text></paragraph>' );
+
+			setModelData( model, '<paragraph>[<$text italic="true" linkHref="foo">Foo</$text>]</paragraph>' );
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[<$text bold="true" linkHref="foo">Foo</$text>]</paragraph>' );
+		} );
+
+		it( 'should apply the formatting to the text across many blocks', () => {
+			copyFormat( '<paragraph><$text italic="true">F[]oo</$text></paragraph>' );
+
+			setModelData( model, '<paragraph>F[oo</paragraph><paragraph><$text bold="true">Ba]r</$text></paragraph>' );
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>F[<$text italic="true">oo</$text></paragraph>' +
+				'<paragraph><$text italic="true">Ba</$text>]<$text bold="true">r</$text></paragraph>'
+			);
+		} );
+
+		it( 'should not apply the attributes which are not allowed on the selected text', () => {
+			copyFormat( '<paragraph><$text bold="true" code="true">F[]oo</$text></paragraph>' );
+
+			setModelData( model, '<codeLine>[Foo]</codeLine>' );
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal( '<codeLine>[<$text code="true">Foo</$text>]</codeLine>' );
+		} );
+
+		it( 'should replace the formatting of the collapsed selection', () => {
+			copyFormat( '<paragraph><$text bold="true">F[]oo</$text></paragraph>' );
+
+			setModelData( model, '<paragraph><$text italic="true">Foo[]</$text></paragraph>' );
+
+			command.execute();
+
+			expect( Array.from( model.document.selection.getAttributeKeys() ) ).to.deep.equal( [ 'bold' ] );
+		} );
+
+		it( 'should replace the formatting of the selected blocks', () => {
+			copyFormat( '<paragraph alignment="center">F[]oo</paragraph>' );
+
+			setModelData( model,
+				'<paragraph alignment="right">F[oo</paragraph><paragraph>Bar</paragraph><paragraph alignment="right">Ba]z</paragraph>'
+			);
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph alignment="center">F[oo</paragraph>' +
+				'<paragraph alignment="center">Bar</paragraph>' +
+				'<paragraph alignment="center">Ba]z</paragraph>'
+			);
+		} );
+
+		it( 'should remove the formatting of the selected blocks if the copied block has no formatting', () => {
+			copyFormat( '<paragraph>F[]oo</paragraph>' );
+
+			setModelData( model, '<paragraph alignment="right">[]Foo</paragraph>' );
+
+			command.execute();
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[]Foo</paragraph>' );
+		} );
+
+		it( 'should turn the format painter off', () => {
+			copyFormat( '<paragraph><$text bold="true">F[]oo</$text></paragraph><paragraph>Bar</paragraph>' );
+
+			command.execute();
+
+			expect( copyFormatCommand.value ).to.be.null;
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should keep the format painter on in the sticky mode', () => {
+			copyFormat( '<paragraph><$text bold="true">F[]oo</$text></paragraph><paragraph>Bar</paragraph>', { sticky: true } );
+
+			const value = copyFormatCommand.value;
+
+			command.execute();
+
+			expect( copyFormatCommand.value ).to.equal( value );
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be undone in a single step', () => {
+			copyFormat( '<paragraph alignment="center"><$text bold="true">F[]oo</$text></paragraph>' );
+
+			setModelData( model, '<paragraph>[Foo]</paragraph>' );
+
+			command.execute();
+			editor.execute( 'undo' );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[Foo]</paragraph>' );
+		} );
+	} );
+
+	describe( 'with the style feature', () => {
+		let editor, element, model;
+
+		beforeEach( async () => {
+			element = document.createElement( 'div' );
+			document.body.appendChild( element );
+
+			editor = await ClassicTestEditor.create( element, {
+				plugins: [ Paragraph, Heading, BoldEditing, GeneralHtmlSupport, Style, FormatPainterEditing ],
+				style: {
+					definitions: [
+						{ name: 'Info box', element: 'p', classes: [ 'info-box' ] },
+						{ name: 'Title', element: 'h2', classes: [ 'title' ] },
+						{ name: 'Marker', element: 'span', classes: [ 'marker' ] }
+					]
+				}
+			} );
+
+			model = editor.model;
+		} );
+
+		afterEach( async () => {
+			await editor.destroy();
+			element.remove();
+		} );
+
+		function paste( targetIndex ) {
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( targetIndex ), 'in' );
+			} );
+
+			editor.execute( 'pasteFormat' );
+		}
+
+		it( 'should copy the block styles', () => {
+			editor.setData( '<p class="info-box">Foo</p><p>Bar</p>' );
+			editor.execute( 'copyFormat' );
+
+			paste( 1 );
+
+			expect( editor.getData() ).to.equal( '<p class="info-box">Foo</p><p class="info-box">Bar</p>' );
+		} );
+
+		it( 'should remove the block styles which are not copied', () => {
+			editor.setData( '<p>Foo</p><p class="info-box">Bar</p>' );
+			editor.execute( 'copyFormat' );
+
+			paste( 1 );
+
+			expect( editor.getData() ).to.equal( '<p>Foo</p><p>Bar</p>' );
+		} );
+
+		it( 'should not apply the block styles which cannot be applied to the selected blocks', () => {
+			editor.setData( '<p class="info-box">Foo</p><h2>Bar</h2>' );
+			editor.execute( 'copyFormat' );
+
+			paste( 1 );
+
+			expect( editor.getData() ).to.equal( '<p class="info-box">Foo</p><h2>Bar</h2>' );
+		} );
+
+		it( 'should copy the inline styles', () => {
+			editor.setData( '<p><span class="marker"><strong>Foo</strong></span></p><p>Bar</p>' );
+
+			model.change( writer => {
+				writer.setSelection( model.document.getRoot().getChild( 0 ), 1 );
+			} );
+
+			editor.execute( 'copyFormat' );
+
+			paste( 1 );
+
+			expect( editor.getData() ).to.equal(
+				'<p><span class="marker"><strong>Foo</strong></span></p><p><span class="marker"><strong>Bar</strong></span></p>'
+			);
+		} );
+	} );
+} );
@@ -0,0 +1,23 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	Fullscreen,
+	FullscreenEditing,
+	FullscreenUI,
+	FullscreenCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface PluginsMap {
+		[ Fullscreen.pluginName ]: Fullscreen;
+		[ FullscreenEditing.pluginName ]: FullscreenEditing;
+		[ FullscreenUI.pluginName ]: FullscreenUI;
+	}
+
+	interface CommandsMap {
+		toggleFullscreen: FullscreenCommand;
+	}
+}
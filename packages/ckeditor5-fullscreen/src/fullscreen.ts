@@ -0,0 +1,36 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module fullscreen/fullscreen
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import FullscreenEditing from './fullscreenediting';
+import FullscreenUI from './fullscreenui';
+
+/**
+ * The fullscreen mode feature. It allows editing the content in the container covering the whole browser window,
+ * which is useful for long documents. It works with the classic, decoupled and multi-root editors.
+ *
+ * This is a "glue" plugin which loads the {@link module:fullscreen/fullscreenediting~FullscreenEditing fullscreen editing feature}
+ * and the {@link module:fullscreen/fullscreenui~FullscreenUI fullscreen UI feature}.
+ */
+export default class Fullscreen extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'Fullscreen' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ FullscreenEditing, FullscreenUI ] as const;
+	}
+}
@@ -0,0 +1,77 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module fullscreen/fullscreencommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+
+import FullscreenHandler from './fullscreenhandler';
+
+/**
+ * The toggle fullscreen command.
+ *
+ * The command is registered by {@link module:fullscreen/fullscreenediting~FullscreenEditing} as `'toggleFullscreen'`.
+ *
+ * It moves the toolbar and the editable elements of the editor to the container covering the whole browser window,
+ * or moves them back when the fullscreen mode is enabled:
+ *
+ * ```ts
+ * editor.execute( 'toggleFullscreen' );
+ * ```
+ */
+export default class FullscreenCommand extends Command {
+	/**
+	 * Whether the fullscreen mode is enabled.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: boolean;
+
+	/**
+	 * Moves the editor UI to the fullscreen container and back.
+	 */
+	private readonly _handler: FullscreenHandler;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		// It does not affect data so should be enabled in read-only mode.
+		this.affectsData = false;
+
+		this.value = false;
+		this._handler = new FullscreenHandler( editor );
+	}
+
+	/**
+	 * Toggles the fullscreen mode.
+	 *
+	 * @fires execute
+	 */
+	public override execute(): void {
+		if ( this.value ) {
+			this._handler.disable();
+		} else {
+			this._handler.enable();
+		}
+
+		this.value = !this.value;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		// Bring the editor UI back to the page, so it can be destroyed like in the regular mode.
+		this._handler.disable();
+
+		super.destroy();
+	}
+}
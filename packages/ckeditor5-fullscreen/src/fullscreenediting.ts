@@ -0,0 +1,48 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module fullscreen/fullscreenediting
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import FullscreenCommand from './fullscreencommand';
+
+import '../theme/fullscreen.css';
+
+/**
+ * The fullscreen editing feature. It registers the `'toggleFullscreen'` command
+ * and the <kbd>Ctrl</kbd>+<kbd>Shift</kbd>+<kbd>F</kbd> keystroke executing it.
+ */
+export default class FullscreenEditing extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FullscreenEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.commands.add( 'toggleFullscreen', new FullscreenCommand( editor ) );
+
+		editor.keystrokes.set( 'CTRL+SHIFT+F', 'toggleFullscreen' );
+
+		editor.accessibility.addKeystrokeInfos( {
+			keystrokes: [
+				{
+					label: t( 'Toggle fullscreen mode' ),
+					keystroke: 'CTRL+SHIFT+F'
+				}
+			]
+		} );
+	}
+}
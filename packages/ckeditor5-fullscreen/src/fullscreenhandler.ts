@@ -0,0 +1,242 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module fullscreen/fullscreenhandler
+ */
+
+import type { Editor } from 'ckeditor5/src/core';
+import type { RootElement } from 'ckeditor5/src/engine';
+import type { EditorUIView, StickyPanelView, View } from 'ckeditor5/src/ui';
+import { EmitterMixin, createElement, global } from 'ckeditor5/src/utils';
+
+/**
+ * The editor UI view with the optional parts that are moved to the fullscreen container (or updated) when they are present.
+ */
+type FullscreenEditorUIView = EditorUIView & {
+	menuBarView?: View;
+	toolbar?: View;
+	stickyPanel?: StickyPanelView;
+};
+
+/**
+ * The events fired by the multi-root editor when a root is added or detached. The handler does not depend on
+ * the multi-root editor, so the events are declared here.
+ */
+type RootEvent = {
+	name: 'addRoot' | 'detachRoot';
+	args: [ root: RootElement ];
+};
+
+/**
+ * Moves the editor UI to the fullscreen container and back.
+ *
+ * When enabled, the container covering the whole browser window is appended to the `<body>` element and the following
+ * elements are moved into it, leaving placeholders in their original places:
+ *
+ * * The menu bar and the main toolbar of the editor, unless they are displayed in a floating panel (like the toolbar
+ * of the inline editor). It covers the classic, decoupled and multi-root editors.
+ * * The editable elements of all roots of the editor. The editable elements of the roots added to the multi-root editor
+ * in the fullscreen mode are moved to the container, too, and the editable elements of the detached roots are moved back.
+ *
+ * The rest of the editor UI (like the frame of the classic editor) is hidden. When disabled, all elements are moved back
+ * to their placeholders.
+ *
+ * @internal
+ */
+export default class FullscreenHandler extends EmitterMixin() {
+	/**
+	 * The editor instance.
+	 */
+	private readonly _editor: Editor;
+
+	/**
+	 * The fullscreen container, or `null` when the fullscreen mode is disabled.
+	 */
+	private _container: HTMLElement | null = null;
+
+	/**
+	 * The element of the fullscreen container holding the editable elements, or `null` when the fullscreen mode is disabled.
+	 */
+	private _editablesElement: HTMLElement | null = null;
+
+	/**
+	 * The placeholders left in the original places of the moved elements.
+	 */
+	private readonly _placeholders = new Map<HTMLElement, HTMLElement>();
+
+	/**
+	 * The element of the editor UI hidden in the fullscreen mode.
+	 */
+	private _hiddenElement: HTMLElement | null = null;
+
+	/**
+	 * @param editor The editor instance.
+	 */
+	constructor( editor: Editor ) {
+		super();
+
+		this._editor = editor;
+	}
+
+	/**
+	 * The fullscreen container, or `null` when the fullscreen mode is disabled.
+	 */
+	public get container(): HTMLElement | null {
+		return this._container;
+	}
+
+	/**
+	 * Moves the editor UI to the fullscreen container.
+	 */
+	public enable(): void {
+		if ( this._container ) {
+			return;
+		}
+
+		const editor = this._editor;
+		const document = global.document;
+		const view = editor.ui.view as FullscreenEditorUIView;
+		const bodyCollectionContainer = view.body.bodyCollectionContainer;
+		const topElement = createElement( document, 'div', { class: 'ck ck-fullscreen__top' } );
+
+		this._editablesElement = createElement( document, 'div', { class: 'ck ck-fullscreen__editables' } );
+		this._container = createElement( document, 'div', {
+			class: 'ck ck-fullscreen__main-container',
+			dir: editor.locale.uiLanguageDirection
+		}, [ topElement, this._editablesElement ] );
+
+		for ( const barView of [ view.menuBarView, view.toolbar ] ) {
+			const element = barView && barView.element;
+
+			// The toolbars displayed in floating panels are positioned next to the editable, so they are left in place.
+			if ( element && !( bodyCollectionContainer && bodyCollectionContainer.contains( element ) ) ) {
+				this._moveElement( element, topElement );
+			}
+		}
+
+		for ( const rootName of editor.ui.getEditableElementsNames() ) {
+			this._moveEditableElement( editor.ui.getEditableElement( rootName )! );
+		}
+
+		// The editable element of the root added to the multi-root editor is created and inserted into the page
+		// by the integration in the `addRoot` event listener, so it is moved to the container after that.
+		this.listenTo<RootEvent>( editor, 'addRoot', ( evt, root ) => {
+			const element = editor.ui.getEditableElement( root.rootName );
+
+			if ( element && !this._placeholders.has( element ) ) {
+				this._moveEditableElement( element );
+			}
+		}, { priority: 'lowest' } );
+
+		// The editable element of the detached root is moved back before the integration removes it from the page
+		// in the `detachRoot` event listener, so it is not left in the container.
+		this.listenTo<RootEvent>( editor, 'detachRoot', ( evt, root ) => {
+			const element = editor.ui.getEditableElement( root.rootName );
+
+			if ( element && this._placeholders.has( element ) ) {
+				this._restoreEditableElement( element );
+			}
+		}, { priority: 'highest' } );
+
+		// Hide the remaining editor UI, for instance, the frame of the classic editor with the empty sticky panel.
+		if ( editor.ui.element && !this._placeholders.has( editor.ui.element ) ) {
+			this._hiddenElement = editor.ui.element;
+			this._hiddenElement.classList.add( 'ck-fullscreen__hidden' );
+		}
+
+		document.body.appendChild( this._container );
+		document.documentElement.classList.add( 'ck-fullscreen' );
+
+		this._updateUI();
+	}
+
+	/**
+	 * Moves the editor UI back to its original places and removes the fullscreen container.
+	 */
+	public disable(): void {
+		if ( !this._container ) {
+			return;
+		}
+
+		this.stopListening( this._editor );
+
+		for ( const [ element, placeholder ] of this._placeholders ) {
+			placeholder.replaceWith( element );
+		}
+
+		this._placeholders.clear();
+
+		if ( this._hiddenElement ) {
+			this._hiddenElement.classList.remove( 'ck-fullscreen__hidden' );
+			this._hiddenElement = null;
+		}
+
+		this._container.remove();
+		this._container = null;
+		this._editablesElement = null;
+
+		global.document.documentElement.classList.remove( 'ck-fullscreen' );
+
+		this._updateUI();
+	}
+
+	/**
+	 * Moves the editable element to a new editable container in the fullscreen container.
+	 */
+	private _moveEditableElement( element: HTMLElement ): void {
+		const editableContainer = createElement( global.document, 'div', { class: 'ck ck-fullscreen__editable' } );
+
+		this._editablesElement!.appendChild( editableContainer );
+		this._moveElement( element, editableContainer );
+	}
+
+	/**
+	 * Moves the editable element back to its placeholder and removes its editable container from the fullscreen container.
+	 */
+	private _restoreEditableElement( element: HTMLElement ): void {
+		const editableContainer = element.parentElement!;
+
+		this._placeholders.get( element )!.replaceWith( element );
+		this._placeholders.delete( element );
+
+		editableContainer.remove();
+	}
+
+	/**
+	 * Replaces the element with a placeholder and moves it to the given target element.
+	 */
+	private _moveElement( element: HTMLElement, target: HTMLElement ): void {
+		const placeholder = createElement( global.document, 'div', { class: 'ck-fullscreen__placeholder' } );
+
+		element.replaceWith( placeholder );
+		target.appendChild( element );
+
+		this._placeholders.set( element, placeholder );
+	}
+
+	/**
+	 * Updates the positions of the editor UI parts that depend on the position of the editable elements.
+	 */
+	private _updateUI(): void {
+		const editor = this._editor;
+		const stickyPanel = ( editor.ui.view as FullscreenEditorUIView ).stickyPanel;
+
+		// The sticky panel is not sticky in the fullscreen mode, but it must be updated once the editor is back in the page.
+		if ( stickyPanel ) {
+			stickyPanel.checkIfShouldBeSticky();
+		}
+
+		if ( editor.plugins.has( 'ContextualBalloon' ) ) {
+			const balloon = editor.plugins.get( 'ContextualBalloon' );
+
+			if ( balloon.visibleView ) {
+				balloon.updatePosition();
+			}
+		}
+
+		editor.ui.update();
+	}
+}
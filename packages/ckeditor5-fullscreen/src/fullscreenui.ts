@@ -0,0 +1,58 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module fullscreen/fullscreenui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { ButtonView } from 'ckeditor5/src/ui';
+
+import fullscreenEnterIcon from '../theme/icons/fullscreen-enter.svg';
+import fullscreenLeaveIcon from '../theme/icons/fullscreen-leave.svg';
+
+/**
+ * The fullscreen UI plugin. It registers the `'fullscreen'` button toggling the fullscreen mode.
+ */
+export default class FullscreenUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'FullscreenUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+
+		editor.ui.componentFactory.add( 'fullscreen', locale => {
+			const command = editor.commands.get( 'toggleFullscreen' )!;
+			const view = new ButtonView( locale );
+			const t = locale.t;
+
+			view.set( {
+				keystroke: 'CTRL+SHIFT+F',
+				tooltip: true,
+				isToggleable: true
+			} );
+
+			view.bind( 'label' ).to( command, 'value', value => value ? t( 'Leave fullscreen mode' ) : t( 'Enter fullscreen mode' ) );
+			view.bind( 'icon' ).to( command, 'value', value => value ? fullscreenLeaveIcon : fullscreenEnterIcon );
+			view.bind( 'isOn' ).to( command, 'value' );
+			view.bind( 'isEnabled' ).to( command );
+
+			// Execute the command. The editable element was moved, so the focus must be restored in its new place.
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'toggleFullscreen' );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+	}
+}
@@ -0,0 +1,15 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module fullscreen
+ */
+
+export { default as Fullscreen } from './fullscreen';
+export { default as FullscreenEditing } from './fullscreenediting';
+export { default as FullscreenUI } from './fullscreenui';
+export { default as FullscreenCommand } from './fullscreencommand';
+
+import './augmentation';
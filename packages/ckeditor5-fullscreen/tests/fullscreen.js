@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Fullscreen from '../src/fullscreen';
+import FullscreenEditing from '../src/fullscreenediting';
+import FullscreenUI from '../src/fullscreenui';
+
+describe( 'Fullscreen', () => {
+	it( 'should be correctly named', () => {
+		expect( Fullscreen.pluginName ).to.equal( 'Fullscreen' );
+	} );
+
+	it( 'should require FullscreenEditing and FullscreenUI', () => {
+		expect( Fullscreen.requires ).to.deep.equal( [ FullscreenEditing, FullscreenUI ] );
+	} );
+} );
@@ -0,0 +1,339 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { global } from '@ckeditor/ckeditor5-utils';
+import { Command } from 'ckeditor5/src/core';
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import DecoupledEditor from '@ckeditor/ckeditor5-editor-decoupled/src/decouplededitor';
+import MultiRootEditor from '@ckeditor/ckeditor5-editor-multi-root/src/multirooteditor';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { Essentials } from '@ckeditor/ckeditor5-essentials';
+import { Link } from '@ckeditor/ckeditor5-link';
+
+import FullscreenEditing from '../src/fullscreenediting';
+import FullscreenCommand from '../src/fullscreencommand';
+
+describe( 'FullscreenCommand', () => {
+	let editor, domElement, command;
+
+	beforeEach( async () => {
+		domElement = global.document.createElement( 'div' );
+		global.document.body.appendChild( domElement );
+
+		editor = await ClassicEditor.create( domElement, {
+			plugins: [ Paragraph, Essentials, Link, FullscreenEditing ],
+			toolbar: [ 'link', 'undo' ]
+		} );
+
+		command = editor.commands.get( 'toggleFullscreen' );
+	} );
+
+	afterEach( async () => {
+		domElement.remove();
+		await editor.destroy();
+	} );
+
+	function getContainer() {
+		return global.document.body.querySelector( '.ck-fullscreen__main-container' );
+	}
+
+	describe( 'constructor', () => {
+		it( 'should be a command instance', () => {
+			expect( command ).to.be.instanceOf( Command );
+			expect( command ).to.be.instanceOf( FullscreenCommand );
+		} );
+
+		it( 'should set "#affectsData" property to false', () => {
+			expect( command.affectsData ).to.be.false;
+		} );
+
+		it( 'should set "#value" property to false', () => {
+			expect( command.value ).to.be.false;
+		} );
+
+		it( 'should be enabled in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( '#execute()', () => {
+		it( 'should toggle the value', () => {
+			editor.execute( 'toggleFullscreen' );
+
+			expect( command.value ).to.be.true;
+
+			editor.execute( 'toggleFullscreen' );
+
+			expect( command.value ).to.be.false;
+		} );
+
+		it( 'should append the fullscreen container to the body', () => {
+			editor.execute( 'toggleFullscreen' );
+
+			const container = getContainer();
+
+			expect( container ).to.not.be.null;
+			expect( container.parentNode ).to.equal( global.document.body );
+			expect( container.getAttribute( 'dir' ) ).to.equal( 'ltr' );
+			expect( global.document.documentElement.classList.contains( 'ck-fullscreen' ) ).to.be.true;
+		} );
+
+		it( 'should move the toolbar and the editable to the fullscreen container', () => {
+			const toolbarElement = editor.ui.view.toolbar.element;
+			const editableElement = editor.ui.getEditableElement();
+
+			editor.execute( 'toggleFullscreen' );
+
+			const container = getContainer();
+
+			expect( toolbarElement.parentNode ).to.equal( container.querySelector( '.ck-fullscreen__top' ) );
+			expect( editableElement.parentNode.classList.contains( 'ck-fullscreen__editable' ) ).to.be.true;
+			expect( container.querySelector( '.ck-fullscreen__editables' ).contains( editableElement ) ).to.be.true;
+		} );
+
+		it( 'should hide the rest of the editor UI', () => {
+			editor.execute( 'toggleFullscreen' );
+
+			expect( editor.ui.element.classList.contains( 'ck-fullscreen__hidden' ) ).to.be.true;
+		} );
+
+		it( 'should restore the editor UI when leaving the fullscreen mode', () => {
+			const toolbarElement = editor.ui.view.toolbar.element;
+			const toolbarParent = toolbarElement.parentNode;
+			const editableElement = editor.ui.getEditableElement();
+			const editableParent = editableElement.parentNode;
+
+			editor.execute( 'toggleFullscreen' );
+			editor.execute( 'toggleFullscreen' );
+
+			expect( toolbarElement.parentNode ).to.equal( toolbarParent );
+			expect( editableElement.parentNode ).to.equal( editableParent );
+			expect( editor.ui.element.classList.contains( 'ck-fullscreen__hidden' ) ).to.be.false;
+			expect( editor.ui.element.querySelector( '.ck-fullscreen__placeholder' ) ).to.be.null;
+			expect( getContainer() ).to.be.null;
+			expect( global.document.documentElement.classList.contains( 'ck-fullscreen' ) ).to.be.false;
+		} );
+
+		it( 'should update the sticky panel and the editor UI', () => {
+			const stickySpy = sinon.spy( editor.ui.view.stickyPanel, 'checkIfShouldBeSticky' );
+			const updateSpy = sinon.spy();
+
+			editor.ui.on( 'update', updateSpy );
+
+			editor.execute( 'toggleFullscreen' );
+
+			sinon.assert.calledOnce( stickySpy );
+			sinon.assert.called( updateSpy );
+
+			editor.execute( 'toggleFullscreen' );
+
+			sinon.assert.calledTwice( stickySpy );
+		} );
+
+		it( 'should update the position of the visible contextual balloon', () => {
+			const balloon = editor.plugins.get( 'ContextualBalloon' );
+			const updatePositionSpy = sinon.spy( balloon, 'updatePosition' );
+
+			editor.execute( 'toggleFullscreen' );
+
+			sinon.assert.notCalled( updatePositionSpy );
+
+			editor.plugins.get( 'LinkUI' )._showUI();
+			editor.execute( 'toggleFullscreen' );
+
+			sinon.assert.called( updatePositionSpy );
+		} );
+	} );
+
+	describe( '#destroy()', () => {
+		it( 'should leave the fullscreen mode', async () => {
+			editor.execute( 'toggleFullscreen' );
+
+			await editor.destroy();
+
+			expect( getContainer() ).to.be.null;
+			expect( global.document.documentElement.classList.contains( 'ck-fullscreen' ) ).to.be.false;
+
+			editor = await ClassicEditor.create( domElement, { plugins: [ Paragraph, FullscreenEditing ] } );
+		} );
+	} );
+
+	describe( 'in the decoupled editor', () => {
+		let decoupledEditor, toolbarContainer;
+
+		beforeEach( async () => {
+			decoupledEditor = await DecoupledEditor.create( '<p>foo</p>', {
+				plugins: [ Paragraph, Essentials, FullscreenEditing ]
+			} );
+
+			toolbarContainer = global.document.createElement( 'div' );
+			toolbarContainer.appendChild( decoupledEditor.ui.view.toolbar.element );
+			toolbarContainer.appendChild( decoupledEditor.ui.getEditableElement() );
+			global.document.body.appendChild( toolbarContainer );
+		} );
+
+		afterEach( async () => {
+			await decoupledEditor.destroy();
+			toolbarContainer.remove();
+		} );
+
+		it( 'should move the toolbar and the editable to the fullscreen container and back', () => {
+			const toolbarElement = decoupledEditor.ui.view.toolbar.element;
+			const editableElement = decoupledEditor.ui.getEditableElement();
+
+			decoupledEditor.execute( 'toggleFullscreen' );
+
+			const container = getContainer();
+
+			expect( container.querySelector( '.ck-fullscreen__top' ).contains( toolbarElement ) ).to.be.true;
+			expect( container.querySelector( '.ck-fullscreen__editables' ).contains( editableElement ) ).to.be.true;
+
+			decoupledEditor.execute( 'toggleFullscreen' );
+
+			expect( Array.from( toolbarContainer.childNodes ) ).to.deep.equal( [ toolbarElement, editableElement ] );
+			expect( getContainer() ).to.be.null;
+		} );
+	} );
+
+	describe( 'in the multi-root editor', () => {
+		let multirootEditor, domHeaderElement, domContentElement, toolbarContainer;
+
+		beforeEach( async () => {
+			domHeaderElement = global.document.createElement( 'div' );
+			domContentElement = global.document.createElement( 'div' );
+			toolbarContainer = global.document.createElement( 'div' );
+			global.document.body.appendChild( toolbarContainer );
+			global.document.body.appendChild( domHeaderElement );
+			global.document.body.appendChild( domContentElement );
+
+			multirootEditor = await MultiRootEditor.create( {
+				header: domHeaderElement,
+				content: domContentElement
+			}, {
+				plugins: [ Paragraph, Essentials, FullscreenEditing ]
+			} );
+
+			toolbarContainer.appendChild( multirootEditor.ui.view.toolbar.element );
+		} );
+
+		afterEach( async () => {
+			await multirootEditor.destroy();
+			toolbarContainer.remove();
+			domHeaderElement.remove();
+			domContentElement.remove();
+		} );
+
+		it( 'should move the editables of all roots to the fullscreen container', () => {
+			multirootEditor.execute( 'toggleFullscreen' );
+
+			const editableContainers = getContainer().querySelectorAll( '.ck-fullscreen__editable' );
+
+			expect( editableContainers.length ).to.equal( 2 );
+			expect( editableContainers[ 0 ].firstChild ).to.equal( multirootEditor.ui.getEditableElement( 'header' ) );
+			expect( editableContainers[ 1 ].firstChild ).to.equal( multirootEditor.ui.getEditableElement( 'content' ) );
+			expect( getContainer().querySelector( '.ck-fullscreen__top' ).firstChild )
+				.to.equal( multirootEditor.ui.view.toolbar.element );
+		} );
+
+		it( 'should restore the editables of all roots', () => {
+			multirootEditor.execute( 'toggleFullscreen' );
+			multirootEditor.execute( 'toggleFullscreen' );
+
+			expect( domHeaderElement.parentNode ).to.equal( global.document.body );
+			expect( domContentElement.parentNode ).to.equal( global.document.body );
+			expect( toolbarContainer.firstChild ).to.equal( multirootEditor.ui.view.toolbar.element );
+			expect( getContainer() ).to.be.null;
+		} );
+
+		it( 'should restore the editables when the editor is destroyed in the fullscreen mode', async () => {
+			multirootEditor.execute( 'toggleFullscreen' );
+
+			await multirootEditor.destroy();
+
+			expect( domHeaderElement.parentNode ).to.equal( global.document.body );
+			expect( domContentElement.parentNode ).to.equal( global.document.body );
+			expect( getContainer() ).to.be.null;
+
+			multirootEditor = await MultiRootEditor.create( { header: domHeaderElement }, { plugins: [ Paragraph ] } );
+		} );
+
+		describe( 'when the roots are added or detached in the fullscreen mode', () => {
+			let rootsContainer;
+
+			beforeEach( () => {
+				rootsContainer = global.document.createElement( 'div' );
+				global.document.body.appendChild( rootsContainer );
+
+				multirootEditor.on( 'addRoot', ( evt, root ) => {
+					rootsContainer.appendChild( multirootEditor.createEditable( root ) );
+				} );
+
+				multirootEditor.on( 'detachRoot', ( evt, root ) => {
+					multirootEditor.detachEditable( root ).remove();
+				} );
+			} );
+
+			afterEach( () => {
+				rootsContainer.remove();
+			} );
+
+			it( 'should move the editable of the added root to the fullscreen container', () => {
+				multirootEditor.execute( 'toggleFullscreen' );
+				multirootEditor.addRoot( 'footer' );
+
+				const editableContainers = getContainer().querySelectorAll( '.ck-fullscreen__editable' );
+
+				expect( editableContainers.length ).to.equal( 3 );
+				expect( editableContainers[ 2 ].firstChild ).to.equal( multirootEditor.ui.getEditableElement( 'footer' ) );
+			} );
+
+			it( 'should restore the editable of the added root', () => {
+				multirootEditor.execute( 'toggleFullscreen' );
+				multirootEditor.addRoot( 'footer' );
+				multirootEditor.execute( 'toggleFullscreen' );
+
+				expect( rootsContainer.firstChild ).to.equal( multirootEditor.ui.getEditableElement( 'footer' ) );
+				expect( rootsContainer.childNodes.length ).to.equal( 1 );
+			} );
+
+			it( 'should remove the editable of the detached root from the fullscreen container', () => {
+				multirootEditor.execute( 'toggleFullscreen' );
+
+				const headerElement = multirootEditor.ui.getEditableElement( 'header' );
+
+				multirootEditor.detachRoot( 'header' );
+
+				const editableContainers = getContainer().querySelectorAll( '.ck-fullscreen__editable' );
+
+				expect( editableContainers.length ).to.equal( 1 );
+				expect( editableContainers[ 0 ].firstChild ).to.equal( multirootEditor.ui.getEditableElement( 'content' ) );
+				expect( headerElement.isConnected ).to.be.false;
+			} );
+
+			it( 'should not restore the editable of the detached root', () => {
+				multirootEditor.execute( 'toggleFullscreen' );
+
+				const headerElement = multirootEditor.ui.getEditableElement( 'header' );
+
+				multirootEditor.detachRoot( 'header' );
+				multirootEditor.execute( 'toggleFullscreen' );
+
+				expect( headerElement.isConnected ).to.be.false;
+				expect( domContentElement.parentNode ).to.equal( global.document.body );
+				expect( global.document.body.querySelector( '.ck-fullscreen__placeholder' ) ).to.be.null;
+			} );
+
+			it( 'should not move the editables of the roots added after leaving the fullscreen mode', () => {
+				multirootEditor.execute( 'toggleFullscreen' );
+				multirootEditor.execute( 'toggleFullscreen' );
+				multirootEditor.addRoot( 'footer' );
+
+				expect( rootsContainer.firstChild ).to.equal( multirootEditor.ui.getEditableElement( 'footer' ) );
+			} );
+		} );
+	} );
+} );
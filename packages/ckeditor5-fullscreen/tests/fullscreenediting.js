@@ -0,0 +1,65 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { global, env, keyCodes } from '@ckeditor/ckeditor5-utils';
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+
+import FullscreenEditing from '../src/fullscreenediting';
+import FullscreenCommand from '../src/fullscreencommand';
+
+describe( 'FullscreenEditing', () => {
+	let editor, domElement;
+
+	beforeEach( async () => {
+		domElement = global.document.createElement( 'div' );
+		global.document.body.appendChild( domElement );
+
+		editor = await ClassicTestEditor.create( domElement, {
+			plugins: [ Paragraph, FullscreenEditing ]
+		} );
+	} );
+
+	afterEach( async () => {
+		domElement.remove();
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( FullscreenEditing.pluginName ).to.equal( 'FullscreenEditing' );
+	} );
+
+	it( 'should register the "toggleFullscreen" command', () => {
+		expect( editor.commands.get( 'toggleFullscreen' ) ).to.be.instanceOf( FullscreenCommand );
+	} );
+
+	it( 'should toggle the fullscreen mode on CTRL+SHIFT+F', () => {
+		const keyEventData = {
+			keyCode: keyCodes.f,
+			ctrlKey: !env.isMac,
+			metaKey: env.isMac,
+			shiftKey: true,
+			preventDefault: sinon.spy(),
+			stopPropagation: sinon.spy()
+		};
+
+		const wasHandled = editor.keystrokes.press( keyEventData );
+
+		expect( wasHandled ).to.be.true;
+		expect( keyEventData.preventDefault.calledOnce ).to.be.true;
+		expect( editor.commands.get( 'toggleFullscreen' ).value ).to.be.true;
+
+		editor.keystrokes.press( keyEventData );
+
+		expect( editor.commands.get( 'toggleFullscreen' ).value ).to.be.false;
+	} );
+
+	it( 'should add keystroke accessibility info', () => {
+		expect( editor.accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'common' ).keystrokes ).to.deep.include( {
+			label: 'Toggle fullscreen mode',
+			keystroke: 'CTRL+SHIFT+F'
+		} );
+	} );
+} );
@@ -0,0 +1,92 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { global } from '@ckeditor/ckeditor5-utils';
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import { ButtonView } from '@ckeditor/ckeditor5-ui';
+
+import FullscreenEditing from '../src/fullscreenediting';
+import FullscreenUI from '../src/fullscreenui';
+
+describe( 'FullscreenUI', () => {
+	let editor, element, button, command;
+
+	beforeEach( async () => {
+		element = global.document.createElement( 'div' );
+		global.document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ FullscreenEditing, FullscreenUI ]
+		} );
+
+		button = editor.ui.componentFactory.create( 'fullscreen' );
+		command = editor.commands.get( 'toggleFullscreen' );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( FullscreenUI.pluginName ).to.equal( 'FullscreenUI' );
+	} );
+
+	describe( 'the "fullscreen" button', () => {
+		it( 'should be an instance of ButtonView', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+		} );
+
+		it( 'should have a tooltip and a keystroke', () => {
+			expect( button.tooltip ).to.be.true;
+			expect( button.keystroke ).to.equal( 'CTRL+SHIFT+F' );
+		} );
+
+		it( 'should be toggleable', () => {
+			expect( button.isToggleable ).to.be.true;
+		} );
+
+		it( 'should have the label and the icon depending on the command value', () => {
+			const enterIcon = button.icon;
+
+			expect( button.label ).to.equal( 'Enter fullscreen mode' );
+			expect( enterIcon ).to.match( /^<svg/ );
+
+			command.value = true;
+
+			expect( button.label ).to.equal( 'Leave fullscreen mode' );
+			expect( button.icon ).to.match( /^<svg/ );
+			expect( button.icon ).to.not.equal( enterIcon );
+		} );
+
+		it( 'should have #isOn bound to the command value', () => {
+			expect( button.isOn ).to.be.false;
+
+			command.value = true;
+
+			expect( button.isOn ).to.be.true;
+		} );
+
+		it( 'should have #isEnabled bound to the command isEnabled', () => {
+			expect( button.isEnabled ).to.be.true;
+
+			command.isEnabled = false;
+
+			expect( button.isEnabled ).to.be.false;
+		} );
+
+		it( 'should execute the command and focus the editing view', () => {
+			const executeSpy = sinon.spy( editor, 'execute' );
+			const focusSpy = sinon.spy( editor.editing.view, 'focus' );
+
+			button.fire( 'execute' );
+
+			sinon.assert.calledOnce( executeSpy );
+			sinon.assert.calledWithExactly( executeSpy, 'toggleFullscreen' );
+			sinon.assert.calledOnce( focusSpy );
+			expect( command.value ).to.be.true;
+		} );
+	} );
+} );
@@ -0,0 +1,33 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	Fullscreen as FullscreenDLL,
+	FullscreenEditing as FullscreenEditingDLL,
+	FullscreenUI as FullscreenUIDLL,
+	FullscreenCommand as FullscreenCommandDLL
+} from '../src';
+import Fullscreen from '../src/fullscreen';
+import FullscreenEditing from '../src/fullscreenediting';
+import FullscreenUI from '../src/fullscreenui';
+import FullscreenCommand from '../src/fullscreencommand';
+
+describe( 'Fullscreen DLL', () => {
+	it( 'exports Fullscreen', () => {
+		expect( FullscreenDLL ).to.equal( Fullscreen );
+	} );
+
+	it( 'exports FullscreenEditing', () => {
+		expect( FullscreenEditingDLL ).to.equal( FullscreenEditing );
+	} );
+
+	it( 'exports FullscreenUI', () => {
+		expect( FullscreenUIDLL ).to.equal( FullscreenUI );
+	} );
+
+	it( 'exports FullscreenCommand', () => {
+		expect( FullscreenCommandDLL ).to.equal( FullscreenCommand );
+	} );
+} );
@@ -0,0 +1,79 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals console, window, document */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import DecoupledEditor from '@ckeditor/ckeditor5-editor-decoupled/src/decouplededitor';
+import MultiRootEditor from '@ckeditor/ckeditor5-editor-multi-root/src/multirooteditor';
+
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+import Fullscreen from '../../src/fullscreen';
+
+window.editors = {};
+
+const config = {
+	plugins: [ ArticlePluginSet, Fullscreen ],
+	toolbar: [
+		'fullscreen',
+		'|',
+		'heading',
+		'|',
+		'bold',
+		'italic',
+		'link',
+		'bulletedList',
+		'numberedList',
+		'|',
+		'blockQuote',
+		'insertTable',
+		'undo',
+		'redo'
+	],
+	image: {
+		toolbar: [ 'imageStyle:inline', 'imageStyle:block', 'imageStyle:side', '|', 'imageTextAlternative' ]
+	},
+	table: {
+		contentToolbar: [ 'tableColumn', 'tableRow', 'mergeTableCells' ]
+	}
+};
+
+ClassicEditor
+	.create( document.querySelector( '#editor-classic' ), {
+		...config,
+		initialData: document.querySelector( '#fixtures' ).innerHTML
+	} )
+	.then( editor => {
+		window.editors.classic = editor;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
+
+DecoupledEditor
+	.create( document.querySelector( '#fixtures' ).innerHTML, config )
+	.then( editor => {
+		window.editors.decoupled = editor;
+
+		document.querySelector( '#editor-document-toolbar' ).appendChild( editor.ui.view.toolbar.element );
+		document.querySelector( '#editor-document' ).appendChild( editor.ui.getEditableElement() );
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
+
+MultiRootEditor
+	.create( {
+		header: document.querySelector( '#editor-multi-root-header' ),
+		content: document.querySelector( '#editor-multi-root-content' )
+	}, config )
+	.then( editor => {
+		window.editors.multiRoot = editor;
+
+		document.querySelector( '#editor-multi-root-toolbar' ).appendChild( editor.ui.view.toolbar.element );
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
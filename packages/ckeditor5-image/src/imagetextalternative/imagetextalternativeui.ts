@@ -155,8 +155,10 @@ export default class ImageTextAlternativeUI extends Plugin {
 
 	/**
 	 * Shows the {@link #_form} in the {@link #_balloon}.
+	 *
+	 * @internal
 	 */
-	private _showForm(): void {
+	public _showForm(): void {
 		if ( this._isVisible ) {
 			return;
 		}
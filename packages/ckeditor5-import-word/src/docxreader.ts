@@ -0,0 +1,1100 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module import-word/docxreader
+ */
+
+import { global } from 'ckeditor5/src/utils';
+
+import { readZip } from './unzip';
+import { escapeHtml, throwInvalidFileError, toBase64 } from './utils';
+
+/**
+ * The MIME type of Word documents.
+ */
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Converts Word documents (`.docx`) to HTML.
+ *
+ * ```ts
+ * const html = await new DocxReader().read( file );
+ * ```
+ *
+ * The HTML has the same form as the HTML that Microsoft Word puts in the clipboard. For instance, the list items are paragraphs
+ * with the `mso-list` style and the list styles are defined in the `@list` rules of the style sheet. Thanks to that, it can be
+ * normalized by the {@link module:paste-from-office/pastefromoffice~PasteFromOffice paste from Office} feature like
+ * the content pasted from Word.
+ *
+ * The paragraphs, headings, quotes, code, lists, tables, images, links, and the basic text formatting are converted.
+ */
+export default class DocxReader {
+	/**
+	 * Converts a Word document to HTML.
+	 *
+	 * The promise is rejected with the `import-word-invalid-file` error if the file is not a valid Word document.
+	 *
+	 * @param file The Word document.
+	 * @returns A promise resolved with the HTML.
+	 */
+	public async read( file: Blob ): Promise<string> {
+		const files = readZip( new Uint8Array( await file.arrayBuffer() ) );
+		const packageRelationships = readRelationships( files, '' );
+		const documentRelationship = Array.from( packageRelationships.values() ).find( ( { type } ) => type == 'officeDocument' );
+		const documentPart = documentRelationship && parseXmlPart( files, documentRelationship.target );
+		const body = documentPart && getChild( documentPart.documentElement, 'w:body' );
+
+		if ( !body ) {
+			return throwInvalidFileError();
+		}
+
+		const conversion = new DocxConversion( files, readRelationships( files, documentRelationship.target ) );
+
+		return conversion.convert( body );
+	}
+}
+
+/**
+ * The namespaces of the Office Open XML elements and attributes mapped by their usual prefixes.
+ */
+const NAMESPACES: Record<string, string> = {
+	w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+	r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+	wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+	a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+	v: 'urn:schemas-microsoft-com:vml',
+	o: 'urn:schemas-microsoft-com:office:office',
+	rel: 'http://schemas.openxmlformats.org/package/2006/relationships'
+};
+
+/**
+ * The types of the blocks created by the paragraph style names (lowercase). Other paragraphs become `<p>` elements.
+ */
+const PARAGRAPH_STYLES: Record<string, string> = {
+	'title': 'h1',
+	'heading 1': 'h2',
+	'heading 2': 'h3',
+	'heading 3': 'h4',
+	'heading 4': 'h5',
+	'heading 5': 'h6',
+	'heading 6': 'h6',
+	'quote': 'quote',
+	'intense quote': 'quote',
+	'code': 'code',
+	'html preformatted': 'code',
+	'caption': 'caption'
+};
+
+/**
+ * The text alignments corresponding to the paragraph justifications.
+ */
+const ALIGNMENTS: Record<string, string> = {
+	center: 'center',
+	right: 'right',
+	end: 'right',
+	both: 'justify',
+	distribute: 'justify'
+};
+
+/**
+ * The list number formats used in the Word HTML corresponding to the numbering formats of the Word documents.
+ * The decimal numbering is the default one.
+ */
+const LIST_FORMATS: Record<string, string> = {
+	bullet: 'bullet',
+	decimalZero: 'arabic-leading-zero',
+	lowerRoman: 'roman-lower',
+	upperRoman: 'roman-upper',
+	lowerLetter: 'alpha-lower',
+	upperLetter: 'alpha-upper'
+};
+
+/**
+ * The list markers used in the Word HTML, which define the list style of bulleted lists, corresponding to
+ * the bullets of the Word documents.
+ */
+const BULLETS: Record<string, string> = {
+	'': '·',
+	'•': '·',
+	'o': 'o',
+	'◦': 'o',
+	'': '§',
+	'▪': '§',
+	'■': '§'
+};
+
+/**
+ * The highlights that correspond to the markers of the highlight feature.
+ */
+const HIGHLIGHT_MARKERS: Record<string, string> = {
+	yellow: 'marker-yellow',
+	green: 'marker-green',
+	magenta: 'marker-pink',
+	cyan: 'marker-blue'
+};
+
+/**
+ * The colors of other highlights.
+ */
+const HIGHLIGHT_COLORS: Record<string, string> = {
+	black: '000000',
+	blue: '0000FF',
+	red: 'FF0000',
+	white: 'FFFFFF',
+	darkBlue: '000080',
+	darkCyan: '008080',
+	darkGreen: '008000',
+	darkMagenta: '800080',
+	darkRed: '800000',
+	darkYellow: '808000',
+	darkGray: '808080',
+	lightGray: 'C0C0C0'
+};
+
+/**
+ * The MIME types of the supported images mapped by their file extensions.
+ */
+const IMAGE_TYPES: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	bmp: 'image/bmp',
+	svg: 'image/svg+xml',
+	webp: 'image/webp'
+};
+
+/**
+ * The page break in the Word HTML.
+ */
+const PAGE_BREAK = '<br clear="all" style="page-break-before:always">';
+
+/**
+ * The number of the English Metric Units per pixel.
+ */
+const EMUS_PER_PIXEL = 9525;
+
+/**
+ * A relationship of a document part.
+ */
+interface Relationship {
+	type: string;
+	target: string;
+	isExternal: boolean;
+}
+
+/**
+ * A style defined in the `styles.xml` part.
+ */
+interface Style {
+	name: string;
+	basedOn: string | null;
+	numbering: Element | null;
+	runProperties: Element | null;
+}
+
+/**
+ * A level of a list defined in the `numbering.xml` part.
+ */
+interface ListLevel {
+	format: string;
+	text: string;
+	start: number;
+}
+
+/**
+ * The formatting of a run of text.
+ */
+interface RunProperties {
+	bold?: boolean;
+	italic?: boolean;
+	underline?: boolean;
+	strikethrough?: boolean;
+	verticalAlign?: string;
+	color?: string;
+	fontSize?: number;
+	fontFamily?: string;
+	highlight?: string;
+	background?: string;
+}
+
+/**
+ * A converted block. The quotes, code lines, images, tables, and captions are grouped or combined when the blocks are joined.
+ */
+interface Block {
+	type: 'html' | 'quote' | 'code' | 'image' | 'table' | 'caption';
+	html: string;
+	alignment?: string;
+}
+
+/**
+ * A converted table cell.
+ */
+interface TableCell {
+	html: string;
+	colspan: number;
+	rowspan: number;
+	background: string | null;
+}
+
+/**
+ * A field (for instance, a hyperlink) in a paragraph. Only the result of the field is converted.
+ */
+interface Field {
+	instruction: string;
+	isResult: boolean;
+}
+
+/**
+ * The state of a single conversion of a Word document to HTML.
+ */
+class DocxConversion {
+	/**
+	 * The files of the document package.
+	 */
+	private readonly _files: Map<string, Uint8Array>;
+
+	/**
+	 * The relationships of the main document part.
+	 */
+	private readonly _relationships: Map<string, Relationship>;
+
+	/**
+	 * The styles mapped by their IDs.
+	 */
+	private readonly _styles = new Map<string, Style>();
+
+	/**
+	 * The levels of the lists mapped by the numbering IDs.
+	 */
+	private readonly _lists = new Map<string, Array<ListLevel>>();
+
+	/**
+	 * The `@list` rules of the lists used in the document mapped by the list IDs and levels.
+	 */
+	private readonly _listRules = new Map<string, string>();
+
+	/**
+	 * The images converted to data URLs mapped by the relationship IDs.
+	 */
+	private readonly _images = new Map<string, string | null>();
+
+	/**
+	 * The fields of the currently converted paragraph.
+	 */
+	private _fields: Array<Field> = [];
+
+	constructor( files: Map<string, Uint8Array>, relationships: Map<string, Relationship> ) {
+		this._files = files;
+		this._relationships = relationships;
+
+		for ( const { type, target } of relationships.values() ) {
+			if ( type == 'styles' ) {
+				this._readStyles( target );
+			} else if ( type == 'numbering' ) {
+				this._readNumbering( target );
+			}
+		}
+	}
+
+	/**
+	 * Converts the document body to the HTML document.
+	 */
+	public convert( body: Element ): string {
+		const content = this._convertBlocks( body );
+
+		// The browsers ignore the style sheets without valid rules (the `@list` rules are not valid CSS),
+		// so the rule of the default paragraph style is always added, like in the HTML copied from Word.
+		const styles = [ 'p.MsoNormal { margin:0cm; }', ...this._listRules.values() ];
+
+		return '<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word">' +
+			`<head><style>${ styles.join( '\n' ) }</style></head>` +
+			`<body>${ content }</body>` +
+		'</html>';
+	}
+
+	/**
+	 * Reads the styles from the `styles.xml` part.
+	 */
+	private _readStyles( path: string ): void {
+		const part = parseXmlPart( this._files, path );
+
+		if ( !part ) {
+			return;
+		}
+
+		for ( const style of getChildren( part.documentElement, 'w:style' ) ) {
+			const paragraphProperties = getChild( style, 'w:pPr' );
+
+			this._styles.set( getAttribute( style, 'w:styleId' ) || '', {
+				name: getChildValue( style, 'w:name' ) || '',
+				basedOn: getChildValue( style, 'w:basedOn' ),
+				numbering: paragraphProperties && getChild( paragraphProperties, 'w:numPr' ),
+				runProperties: getChild( style, 'w:rPr' )
+			} );
+		}
+	}
+
+	/**
+	 * Reads the list definitions from the `numbering.xml` part.
+	 */
+	private _readNumbering( path: string ): void {
+		const part = parseXmlPart( this._files, path );
+
+		if ( !part ) {
+			return;
+		}
+
+		const abstractLists = new Map<string, Array<ListLevel>>();
+
+		for ( const abstractList of getChildren( part.documentElement, 'w:abstractNum' ) ) {
+			const levels = getChildren( abstractList, 'w:lvl' ).map( level => ( {
+				format: getChildValue( level, 'w:numFmt' ) || 'decimal',
+				text: getChildValue( level, 'w:lvlText' ) || '',
+				start: parseInt( getChildValue( level, 'w:start' ) || '1' )
+			} ) );
+
+			abstractLists.set( getAttribute( abstractList, 'w:abstractNumId' ) || '', levels );
+		}
+
+		for ( const list of getChildren( part.documentElement, 'w:num' ) ) {
+			const levels = ( abstractLists.get( getChildValue( list, 'w:abstractNumId' ) || '' ) || [] ).map( level => ( { ...level } ) );
+
+			for ( const override of getChildren( list, 'w:lvlOverride' ) ) {
+				const level = levels[ parseInt( getAttribute( override, 'w:ilvl' ) || '0' ) ];
+				const start = getChildValue( override, 'w:startOverride' );
+
+				if ( level && start ) {
+					level.start = parseInt( start );
+				}
+			}
+
+			this._lists.set( getAttribute( list, 'w:numId' ) || '', levels );
+		}
+	}
+
+	/**
+	 * Converts the blocks of the body, a table cell, or a content control.
+	 */
+	private _convertBlocks( parent: Element ): string {
+		const blocks = this._getBlocks( parent );
+
+		let html = '';
+
+		for ( let i = 0; i < blocks.length; i++ ) {
+			const block = blocks[ i ];
+
+			if ( block.type == 'quote' || block.type == 'code' ) {
+				const group = [ block.html ];
+
+				while ( blocks[ i + 1 ] && blocks[ i + 1 ].type == block.type ) {
+					group.push( blocks[ ++i ].html );
+				}
+
+				html += block.type == 'quote' ?
+					`<blockquote>${ group.join( '' ) }</blockquote>` :
+					`<pre><code class="language-plaintext">${ group.join( '<br>' ) }</code></pre>`;
+			} else if ( block.type == 'image' || block.type == 'table' ) {
+				const hasCaption = blocks[ i + 1 ] && blocks[ i + 1 ].type == 'caption';
+				const caption = hasCaption ? `<figcaption>${ blocks[ ++i ].html }</figcaption>` : '';
+				const figure = block.type == 'image' || hasCaption ?
+					`<figure class="${ block.type }">${ block.html }${ caption }</figure>` :
+					block.html;
+
+				html += block.alignment ? `<div align="${ block.alignment }">${ figure }</div>` : figure;
+			} else if ( block.type == 'caption' ) {
+				html += `<p>${ block.html }</p>`;
+			} else {
+				html += block.html;
+			}
+		}
+
+		return html;
+	}
+
+	/**
+	 * Converts the child paragraphs and tables to blocks. The content of the content controls and custom XML elements is
+	 * converted as well.
+	 */
+	private _getBlocks( parent: Element ): Array<Block> {
+		const blocks: Array<Block> = [];
+
+		for ( const child of getChildren( parent ) ) {
+			if ( isElement( child, 'w:p' ) ) {
+				blocks.push( this._convertParagraph( child ) );
+			} else if ( isElement( child, 'w:tbl' ) ) {
+				blocks.push( this._convertTable( child ) );
+			} else if ( isElement( child, 'w:sdt' ) ) {
+				const content = getChild( child, 'w:sdtContent' );
+
+				if ( content ) {
+					blocks.push( ...this._getBlocks( content ) );
+				}
+			} else if ( isElement( child, 'w:customXml' ) ) {
+				blocks.push( ...this._getBlocks( child ) );
+			}
+		}
+
+		return blocks;
+	}
+
+	/**
+	 * Converts a paragraph.
+	 */
+	private _convertParagraph( paragraph: Element ): Block {
+		const properties = getChild( paragraph, 'w:pPr' );
+		const styleId = properties && getChildValue( properties, 'w:pStyle' );
+		const numbering = ( properties && getChild( properties, 'w:numPr' ) ) || this._getStyleNumbering( styleId );
+		const listId = numbering && getChildValue( numbering, 'w:numId' );
+		const type = this._getParagraphType( styleId );
+
+		this._fields = [];
+
+		let content = this._convertInlineContent( paragraph );
+
+		if ( properties && isToggleOn( getChild( properties, 'w:pageBreakBefore' ) ) ) {
+			content = PAGE_BREAK + content;
+		}
+
+		if ( listId && this._lists.has( listId ) ) {
+			const level = parseInt( getChildValue( numbering!, 'w:ilvl' ) || '0' );
+			const tagName = type.startsWith( 'h' ) ? type : 'p';
+			const styles = [ `mso-list:l${ listId } level${ level + 1 } lfo${ listId }`, ...getParagraphStyles( properties, false ) ];
+
+			return {
+				type: 'html',
+				html: `<${ tagName } style="${ styles.join( ';' ) }">` +
+					`<span style="mso-list:Ignore">${ escapeHtml( this._getListMarker( listId, level ) ) }</span>${ content }` +
+				`</${ tagName }>`
+			};
+		}
+
+		if ( type == 'code' ) {
+			return { type: 'code', html: escapeHtml( getTextContent( paragraph ) ) };
+		}
+
+		if ( type == 'caption' ) {
+			return { type: 'caption', html: content };
+		}
+
+		if ( /^<img [^>]*>$/.test( content ) ) {
+			return { type: 'image', html: content, alignment: getParagraphAlignment( properties ) };
+		}
+
+		const styles = getParagraphStyles( properties, true );
+		const tagName = type == 'quote' ? 'p' : type;
+		const html = `<${ tagName }${ styles.length ? ` style="${ styles.join( ';' ) }"` : '' }>${ content }</${ tagName }>`;
+
+		return { type: type == 'quote' ? 'quote' : 'html', html };
+	}
+
+	/**
+	 * Returns the type of a paragraph (the name of the HTML element, `'quote'`, `'code'` or `'caption'`) based on its style
+	 * or the styles the style is based on.
+	 */
+	private _getParagraphType( styleId: string | null ): string {
+		const visitedStyles = new Set<string>();
+
+		while ( styleId && !visitedStyles.has( styleId ) ) {
+			const style = this._styles.get( styleId );
+			const name = style ? style.name : styleId.replace( /(\D)(\d)$/, '$1 $2' );
+			const type = PARAGRAPH_STYLES[ name.toLowerCase() ];
+
+			if ( type ) {
+				return type;
+			}
+
+			visitedStyles.add( styleId );
+			styleId = style ? style.basedOn : null;
+		}
+
+		return 'p';
+	}
+
+	/**
+	 * Returns the numbering of the paragraphs with the style.
+	 */
+	private _getStyleNumbering( styleId: string | null ): Element | null {
+		const style = styleId ? this._styles.get( styleId ) : null;
+
+		return style ? style.numbering : null;
+	}
+
+	/**
+	 * Returns the marker of a list item and saves the `@list` rule of the list level.
+	 */
+	private _getListMarker( listId: string, level: number ): string {
+		const listLevel: ListLevel = this._lists.get( listId )![ level ] || { format: 'decimal', text: '', start: 1 };
+		const format = LIST_FORMATS[ listLevel.format ];
+		const properties = [ `mso-level-start-at:${ listLevel.start };` ];
+
+		if ( format ) {
+			properties.unshift( `mso-level-number-format:${ format };` );
+		}
+
+		this._listRules.set( `${ listId }:${ level }`, `@list l${ listId }:level${ level + 1 } { ${ properties.join( ' ' ) } }` );
+
+		if ( listLevel.format == 'bullet' ) {
+			return BULLETS[ listLevel.text ] || '·';
+		}
+
+		return listLevel.text.replace( /%\d/g, String( listLevel.start ) );
+	}
+
+	/**
+	 * Converts the inline content of a paragraph, a hyperlink, or another inline container.
+	 */
+	private _convertInlineContent( parent: Element ): string {
+		let html = '';
+
+		for ( const child of getChildren( parent ) ) {
+			if ( isElement( child, 'w:r' ) ) {
+				html += this._convertRun( child );
+			} else if ( isElement( child, 'w:hyperlink' ) ) {
+				const href = this._getHyperlinkTarget( child );
+				const content = this._convertInlineContent( child );
+
+				html += href ? `<a href="${ escapeHtml( href ) }">${ content }</a>` : content;
+			} else if ( isElement( child, 'w:fldSimple' ) ) {
+				const href = getHyperlinkInstructionTarget( getAttribute( child, 'w:instr' ) || '' );
+				const content = this._convertInlineContent( child );
+
+				html += href ? `<a href="${ escapeHtml( href ) }">${ content }</a>` : content;
+			} else if ( isElement( child, 'w:sdt' ) ) {
+				const content = getChild( child, 'w:sdtContent' );
+
+				html += content ? this._convertInlineContent( content ) : '';
+			} else if ( [ 'w:ins', 'w:moveTo', 'w:smartTag', 'w:customXml' ].some( name => isElement( child, name ) ) ) {
+				html += this._convertInlineContent( child );
+			}
+		}
+
+		return html;
+	}
+
+	/**
+	 * Converts a run. Only the results of the fields are converted.
+	 */
+	private _convertRun( run: Element ): string {
+		const properties = this._getRunProperties( run );
+
+		let html = '';
+		let text = '';
+
+		const appendText = () => {
+			if ( text ) {
+				html += formatText( escapeHtml( text ).replace( / {2,}/g, '<span style="mso-spacerun:yes">$&</span>' ), properties );
+				text = '';
+			}
+		};
+
+		for ( const child of getChildren( run ) ) {
+			if ( isElement( child, 'w:fldChar' ) ) {
+				this._updateFields( getAttribute( child, 'w:fldCharType' ) );
+			} else if ( isElement( child, 'w:instrText' ) ) {
+				if ( this._fields.length ) {
+					this._fields[ this._fields.length - 1 ].instruction += child.textContent;
+				}
+			} else if ( this._fields.some( field => !field.isResult ) ) {
+				continue;
+			} else if ( isElement( child, 'w:t' ) ) {
+				text += child.textContent;
+			} else if ( isElement( child, 'w:tab' ) ) {
+				text += '\t';
+			} else if ( isElement( child, 'w:noBreakHyphen' ) ) {
+				text += '-';
+			} else if ( isElement( child, 'w:br' ) || isElement( child, 'w:cr' ) ) {
+				appendText();
+				html += getAttribute( child, 'w:type' ) == 'page' ? PAGE_BREAK : '<br>';
+			} else if ( isElement( child, 'w:drawing' ) || isElement( child, 'w:pict' ) ) {
+				appendText();
+				html += this._convertImage( child );
+			}
+		}
+
+		appendText();
+
+		const href = this._fields.reduce<string | null>(
+			( target, field ) => getHyperlinkInstructionTarget( field.instruction ) || target,
+			null
+		);
+
+		return href && html ? `<a href="${ escapeHtml( href ) }">${ html }</a>` : html;
+	}
+
+	/**
+	 * Updates the fields of the paragraph when a field character is found.
+	 */
+	private _updateFields( type: string | null ): void {
+		if ( type == 'begin' ) {
+			this._fields.push( { instruction: '', isResult: false } );
+		} else if ( type == 'separate' && this._fields.length ) {
+			this._fields[ this._fields.length - 1 ].isResult = true;
+		} else if ( type == 'end' ) {
+			this._fields.pop();
+		}
+	}
+
+	/**
+	 * Returns the formatting of a run, including the formatting defined by its character style.
+	 */
+	private _getRunProperties( run: Element ): RunProperties {
+		const element = getChild( run, 'w:rPr' );
+		const styleProperties: Array<Element> = [];
+		const visitedStyles = new Set<string>();
+
+		let styleId = element && getChildValue( element, 'w:rStyle' );
+
+		while ( styleId && !visitedStyles.has( styleId ) ) {
+			const style = this._styles.get( styleId );
+
+			// The formatting of the hyperlink style is skipped, as the links are styled by the editor.
+			if ( !style || style.name.toLowerCase() == 'hyperlink' ) {
+				break;
+			}
+
+			if ( style.runProperties ) {
+				styleProperties.unshift( style.runProperties );
+			}
+
+			visitedStyles.add( styleId );
+			styleId = style.basedOn;
+		}
+
+		return Object.assign( {}, ...[ ...styleProperties, element ].map( readRunProperties ) );
+	}
+
+	/**
+	 * Returns the target of a hyperlink.
+	 */
+	private _getHyperlinkTarget( hyperlink: Element ): string | null {
+		const relationship = this._relationships.get( getAttribute( hyperlink, 'r:id' ) || '' );
+		const anchor = getAttribute( hyperlink, 'w:anchor' );
+
+		if ( relationship && relationship.isExternal ) {
+			return relationship.target;
+		}
+
+		return anchor ? `#${ anchor }` : null;
+	}
+
+	/**
+	 * Converts a DrawingML or VML image to the `<img>` element. Returns an empty string if the image cannot be converted,
+	 * for instance, when it is a shape or its format is not supported by the browsers.
+	 */
+	private _convertImage( element: Element ): string {
+		const blip = getDescendant( element, 'a:blip' );
+		const imageData = getDescendant( element, 'v:imagedata' );
+		const src = this._getImageSource( blip ? getAttribute( blip, 'r:embed' ) : imageData && getAttribute( imageData, 'r:id' ) );
+
+		if ( !src ) {
+			return '';
+		}
+
+		const attributes = [ `src="${ src }"` ];
+		const extent = getDescendant( element, 'wp:extent' );
+		const properties = getDescendant( element, 'wp:docPr' );
+		const shape = getDescendant( element, 'v:shape' );
+		const alt = properties ? getAttribute( properties, 'descr' ) : imageData && getAttribute( imageData, 'o:title' );
+
+		if ( alt ) {
+			attributes.push( `alt="${ escapeHtml( alt ) }"` );
+		}
+
+		if ( extent ) {
+			attributes.push(
+				`width="${ Math.round( parseInt( getAttribute( extent, 'cx' ) || '0' ) / EMUS_PER_PIXEL ) }"`,
+				`height="${ Math.round( parseInt( getAttribute( extent, 'cy' ) || '0' ) / EMUS_PER_PIXEL ) }"`
+			);
+		} else if ( shape ) {
+			const style = getAttribute( shape, 'style' ) || '';
+
+			for ( const dimension of [ 'width', 'height' ] ) {
+				const match = style.match( new RegExp( `(?:^|;)\\s*${ dimension }:\\s*([\\d.]+)pt` ) );
+
+				if ( match ) {
+					attributes.push( `${ dimension }="${ Math.round( parseFloat( match[ 1 ] ) * 4 / 3 ) }"` );
+				}
+			}
+		}
+
+		return `<img ${ attributes.join( ' ' ) }>`;
+	}
+
+	/**
+	 * Returns the data URL of an image stored in the document package.
+	 */
+	private _getImageSource( relationshipId: string | null ): string | null {
+		if ( !relationshipId ) {
+			return null;
+		}
+
+		if ( !this._images.has( relationshipId ) ) {
+			const relationship = this._relationships.get( relationshipId );
+			const data = relationship && !relationship.isExternal && this._files.get( relationship.target );
+			const type = relationship && IMAGE_TYPES[ relationship.target.split( '.' ).pop()!.toLowerCase() ];
+
+			this._images.set( relationshipId, data && type ? `data:${ type };base64,${ toBase64( data ) }` : null );
+		}
+
+		return this._images.get( relationshipId )!;
+	}
+
+	/**
+	 * Converts a table. The merged cells are converted to the cells with the `colspan` and `rowspan` attributes and
+	 * the rows repeated on each page are converted to the heading rows.
+	 */
+	private _convertTable( table: Element ): Block {
+		const properties = getChild( table, 'w:tblPr' );
+		const rows: Array<Array<TableCell>> = [];
+		const verticallyMergedCells = new Map<number, TableCell>();
+
+		let headingRowCount = 0;
+
+		for ( const row of getChildren( table, 'w:tr' ) ) {
+			const rowProperties = getChild( row, 'w:trPr' );
+			const cells = [];
+
+			let column = parseInt( ( rowProperties && getChildValue( rowProperties, 'w:gridBefore' ) ) || '0' );
+
+			if ( headingRowCount == rows.length && rowProperties && isToggleOn( getChild( rowProperties, 'w:tblHeader' ) ) ) {
+				headingRowCount++;
+			}
+
+			for ( const cell of getChildren( row, 'w:tc' ) ) {
+				const cellProperties = getChild( cell, 'w:tcPr' );
+				const colspan = parseInt( ( cellProperties && getChildValue( cellProperties, 'w:gridSpan' ) ) || '1' );
+				const verticalMerge = cellProperties && getChild( cellProperties, 'w:vMerge' );
+				const mergedCell = verticallyMergedCells.get( column );
+
+				if ( verticalMerge && getAttribute( verticalMerge, 'w:val' ) != 'restart' && mergedCell ) {
+					mergedCell.rowspan++;
+				} else {
+					const shading = cellProperties && getChild( cellProperties, 'w:shd' );
+					const convertedCell: TableCell = {
+						html: this._convertBlocks( cell ),
+						colspan,
+						rowspan: 1,
+						background: shading && toColor( getAttribute( shading, 'w:fill' ) )
+					};
+
+					cells.push( convertedCell );
+
+					if ( verticalMerge ) {
+						verticallyMergedCells.set( column, convertedCell );
+					} else {
+						verticallyMergedCells.delete( column );
+					}
+				}
+
+				column += colspan;
+			}
+
+			rows.push( cells );
+		}
+
+		const rowsHtml = rows.map( ( cells, index ) => {
+			const tagName = index < headingRowCount ? 'th' : 'td';
+
+			return '<tr>' + cells.map( cell => {
+				const attributes = [
+					cell.colspan > 1 ? ` colspan="${ cell.colspan }"` : '',
+					cell.rowspan > 1 ? ` rowspan="${ cell.rowspan }"` : '',
+					cell.background ? ` style="background-color:${ cell.background }"` : ''
+				];
+
+				return `<${ tagName }${ attributes.join( '' ) }>${ cell.html }</${ tagName }>`;
+			} ).join( '' ) + '</tr>';
+		} );
+
+		const head = headingRowCount ? `<thead>${ rowsHtml.slice( 0, headingRowCount ).join( '' ) }</thead>` : '';
+		const body = rowsHtml.length > headingRowCount ? `<tbody>${ rowsHtml.slice( headingRowCount ).join( '' ) }</tbody>` : '';
+		const justification = properties && getChildValue( properties, 'w:jc' );
+
+		return {
+			type: 'table',
+			html: `<table>${ head }${ body }</table>`,
+			alignment: justification ? ALIGNMENTS[ justification ] : undefined
+		};
+	}
+}
+
+/**
+ * Reads the relationships of a document part. The targets of the internal relationships are resolved to the paths
+ * of the files in the package. The types are shortened to their last segment, for instance `'image'`.
+ *
+ * @param files The files of the document package.
+ * @param partPath The path of the part. An empty string for the relationships of the package.
+ */
+function readRelationships( files: Map<string, Uint8Array>, partPath: string ): Map<string, Relationship> {
+	const directory = partPath.slice( 0, partPath.lastIndexOf( '/' ) + 1 );
+	const fileName = partPath.slice( directory.length );
+	const part = parseXmlPart( files, `${ directory }_rels/${ fileName }.rels` );
+	const relationships = new Map<string, Relationship>();
+
+	if ( !part ) {
+		return relationships;
+	}
+
+	for ( const relationship of getChildren( part.documentElement, 'rel:Relationship' ) ) {
+		const isExternal = getAttribute( relationship, 'TargetMode' ) == 'External';
+		const target = getAttribute( relationship, 'Target' ) || '';
+
+		relationships.set( getAttribute( relationship, 'Id' ) || '', {
+			type: ( getAttribute( relationship, 'Type' ) || '' ).split( '/' ).pop()!,
+			target: isExternal ? target : resolvePath( directory, target ),
+			isExternal
+		} );
+	}
+
+	return relationships;
+}
+
+/**
+ * Resolves the target of a relationship relatively to the directory of the part.
+ */
+function resolvePath( directory: string, target: string ): string {
+	const segments = target.startsWith( '/' ) ? [] : directory.split( '/' ).filter( Boolean );
+
+	for ( const segment of target.split( '/' ) ) {
+		if ( segment == '..' ) {
+			segments.pop();
+		} else if ( segment && segment != '.' ) {
+			segments.push( segment );
+		}
+	}
+
+	return segments.join( '/' );
+}
+
+/**
+ * Parses an XML part of the package. Returns `null` if the part does not exist.
+ */
+function parseXmlPart( files: Map<string, Uint8Array>, path: string ): Document | null {
+	const data = files.get( path );
+
+	if ( !data ) {
+		return null;
+	}
+
+	const document = new global.window.DOMParser().parseFromString( new TextDecoder().decode( data ), 'application/xml' );
+
+	if ( document.getElementsByTagName( 'parsererror' ).length ) {
+		throwInvalidFileError();
+	}
+
+	return document;
+}
+
+/**
+ * Checks whether the element has the prefixed name, for instance `'w:p'`.
+ */
+function isElement( element: Element, name: string ): boolean {
+	const [ prefix, localName ] = name.split( ':' );
+
+	return element.localName == localName && element.namespaceURI == NAMESPACES[ prefix ];
+}
+
+/**
+ * Returns the child elements, optionally only the ones with the prefixed name.
+ */
+function getChildren( element: Element, name?: string ): Array<Element> {
+	return Array.from( element.children ).filter( child => !name || isElement( child, name ) );
+}
+
+/**
+ * Returns the first child element with the prefixed name.
+ */
+function getChild( element: Element, name: string ): Element | null {
+	return getChildren( element, name )[ 0 ] || null;
+}
+
+/**
+ * Returns the first descendant element with the prefixed name.
+ */
+function getDescendant( element: Element, name: string ): Element | null {
+	const [ prefix, localName ] = name.split( ':' );
+
+	return element.getElementsByTagNameNS( NAMESPACES[ prefix ], localName )[ 0 ] || null;
+}
+
+/**
+ * Returns the value of the attribute. The attributes with a prefix, for instance `'w:val'`, are namespaced.
+ */
+function getAttribute( element: Element, name: string ): string | null {
+	const [ prefix, localName ] = name.split( ':' );
+
+	return localName ? element.getAttributeNS( NAMESPACES[ prefix ], localName ) : element.getAttribute( name );
+}
+
+/**
+ * Returns the `w:val` attribute of the first child element with the prefixed name.
+ */
+function getChildValue( element: Element, name: string ): string | null {
+	const child = getChild( element, name );
+
+	return child && getAttribute( child, 'w:val' );
+}
+
+/**
+ * Checks whether a toggle property, for instance `<w:b/>`, is on.
+ */
+function isToggleOn( element: Element | null ): boolean {
+	return !!element && ![ '0', 'false', 'off' ].includes( getAttribute( element, 'w:val' ) || '' );
+}
+
+/**
+ * Converts a color of a Word document to the CSS hex color. Returns `null` for the automatic color.
+ */
+function toColor( value: string | null ): string | null {
+	return value && /^[0-9a-f]{6}$/i.test( value ) ? `#${ value.toUpperCase() }` : null;
+}
+
+/**
+ * Returns the CSS styles of a paragraph: the alignment and, optionally, the indentation.
+ */
+function getParagraphStyles( properties: Element | null, includeIndentation: boolean ): Array<string> {
+	const styles = [];
+	const alignment = getParagraphAlignment( properties );
+	const indentation = properties && getChild( properties, 'w:ind' );
+	const left = indentation && parseInt( getAttribute( indentation, 'w:left' ) || getAttribute( indentation, 'w:start' ) || '0' );
+
+	if ( alignment ) {
+		styles.push( `text-align:${ alignment }` );
+	}
+
+	if ( includeIndentation && left && left > 0 ) {
+		styles.push( `margin-left:${ Math.round( left / 15 ) }px` );
+	}
+
+	return styles;
+}
+
+/**
+ * Returns the CSS text alignment of a paragraph.
+ */
+function getParagraphAlignment( properties: Element | null ): string | undefined {
+	const justification = properties && getChildValue( properties, 'w:jc' );
+
+	return justification ? ALIGNMENTS[ justification ] : undefined;
+}
+
+/**
+ * Returns the text of a paragraph. The line breaks are converted to `'\n'`.
+ */
+function getTextContent( paragraph: Element ): string {
+	let text = '';
+
+	for ( const element of Array.from( paragraph.getElementsByTagNameNS( NAMESPACES.w, '*' ) ) ) {
+		if ( isElement( element, 'w:t' ) ) {
+			text += element.textContent;
+		} else if ( isElement( element, 'w:tab' ) && !isElement( element.parentElement!, 'w:tabs' ) ) {
+			text += '\t';
+		}
+	}
+
+	return text;
+}
+
+/**
+ * Returns the target of the `HYPERLINK` field instruction, for instance `HYPERLINK "https://example.com"`.
+ */
+function getHyperlinkInstructionTarget( instruction: string ): string | null {
+	const match = instruction.match( /^\s*HYPERLINK\s+(?:\\l\s+)?"([^"]*)"(.*)$/ );
+
+	if ( !match ) {
+		return null;
+	}
+
+	return /\\l\b/.test( instruction ) ? `#${ match[ 1 ] }` : match[ 1 ];
+}
+
+/**
+ * Reads the formatting from the run properties.
+ */
+function readRunProperties( element: Element | null ): RunProperties {
+	const properties: RunProperties = {};
+
+	if ( !element ) {
+		return properties;
+	}
+
+	for ( const child of getChildren( element ) ) {
+		const value = getAttribute( child, 'w:val' );
+
+		if ( isElement( child, 'w:b' ) ) {
+			properties.bold = isToggleOn( child );
+		} else if ( isElement( child, 'w:i' ) ) {
+			properties.italic = isToggleOn( child );
+		} else if ( isElement( child, 'w:u' ) ) {
+			properties.underline = value != 'none';
+		} else if ( isElement( child, 'w:strike' ) || isElement( child, 'w:dstrike' ) ) {
+			properties.strikethrough = isToggleOn( child );
+		} else if ( isElement( child, 'w:vertAlign' ) ) {
+			properties.verticalAlign = value || undefined;
+		} else if ( isElement( child, 'w:color' ) ) {
+			properties.color = toColor( value ) || undefined;
+		} else if ( isElement( child, 'w:sz' ) ) {
+			properties.fontSize = parseInt( value || '0' ) / 2 || undefined;
+		} else if ( isElement( child, 'w:rFonts' ) ) {
+			properties.fontFamily = getAttribute( child, 'w:ascii' ) || getAttribute( child, 'w:hAnsi' ) || properties.fontFamily;
+		} else if ( isElement( child, 'w:highlight' ) ) {
+			properties.highlight = value && value != 'none' ? value : undefined;
+		} else if ( isElement( child, 'w:shd' ) ) {
+			properties.background = toColor( getAttribute( child, 'w:fill' ) ) || undefined;
+		}
+	}
+
+	return properties;
+}
+
+/**
+ * Wraps the text with the elements applying the formatting of the run.
+ */
+function formatText( html: string, properties: RunProperties ): string {
+	const styles = [];
+	const background = properties.highlight && HIGHLIGHT_COLORS[ properties.highlight ] ?
+		`#${ HIGHLIGHT_COLORS[ properties.highlight ] }` :
+		properties.background;
+
+	if ( properties.verticalAlign == 'superscript' ) {
+		html = `<sup>${ html }</sup>`;
+	} else if ( properties.verticalAlign == 'subscript' ) {
+		html = `<sub>${ html }</sub>`;
+	}
+
+	for ( const [ property, tagName ] of [ [ 'strikethrough', 's' ], [ 'underline', 'u' ], [ 'italic', 'i' ], [ 'bold', 'strong' ] ] ) {
+		if ( properties[ property as keyof RunProperties ] ) {
+			html = `<${ tagName }>${ html }</${ tagName }>`;
+		}
+	}
+
+	if ( properties.fontFamily ) {
+		styles.push( `font-family:${ escapeHtml( properties.fontFamily ) }` );
+	}
+
+	if ( properties.fontSize ) {
+		styles.push( `font-size:${ properties.fontSize }pt` );
+	}
+
+	if ( properties.color ) {
+		styles.push( `color:${ properties.color }` );
+	}
+
+	if ( background ) {
+		styles.push( `background-color:${ background }` );
+	}
+
+	if ( styles.length ) {
+		html = `<span style="${ styles.join( ';' ) }">${ html }</span>`;
+	}
+
+	if ( properties.highlight && HIGHLIGHT_MARKERS[ properties.highlight ] ) {
+		html = `<mark class="${ HIGHLIGHT_MARKERS[ properties.highlight ] }">${ html }</mark>`;
+	}
+
+	return html;
+}
@@ -0,0 +1,94 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module import-word/importword
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { ClipboardPipeline } from 'ckeditor5/src/clipboard';
+import { Notification } from 'ckeditor5/src/ui';
+import { FileDialogButtonView } from 'ckeditor5/src/upload';
+
+import ImportWordCommand from './importwordcommand';
+import { DOCX_MIME_TYPE } from './docxreader';
+
+import importWordIcon from '../theme/icons/import-word.svg';
+
+/**
+ * The import from Word feature. It allows for opening a Word document (`.docx`) and inserting its content into the editor.
+ *
+ * The plugin registers the `'importWord'` {@link module:import-word/importwordcommand~ImportWordCommand command}
+ * and the `'importWord'` toolbar button, which opens the file dialog. The document is converted in the browser,
+ * without any cloud service, and the content is normalized by the
+ * {@link module:paste-from-office/pastefromoffice~PasteFromOffice paste from Office} feature, which is required.
+ */
+export default class ImportWord extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'ImportWord' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ ClipboardPipeline, Notification, 'PasteFromOffice' ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.commands.add( 'importWord', new ImportWordCommand( editor ) );
+
+		editor.ui.componentFactory.add( 'importWord', locale => {
+			const command = editor.commands.get( 'importWord' )!;
+			const view = new FileDialogButtonView( locale );
+
+			view.set( {
+				acceptedType: `.docx,${ DOCX_MIME_TYPE }`,
+				allowMultipleFiles: false
+			} );
+
+			view.buttonView.set( {
+				label: t( 'Import from Word' ),
+				icon: importWordIcon,
+				tooltip: true
+			} );
+
+			view.buttonView.bind( 'isEnabled' ).to( command );
+
+			view.on( 'done', ( evt, files: FileList ) => {
+				this._importFile( files[ 0 ] );
+			} );
+
+			return view;
+		} );
+	}
+
+	/**
+	 * Imports the file chosen in the file dialog. A warning is shown if the file cannot be imported.
+	 */
+	private _importFile( file: File ): Promise<void> {
+		const editor = this.editor;
+		const t = editor.t;
+		const notification = editor.plugins.get( Notification );
+
+		editor.editing.view.focus();
+
+		return editor.execute( 'importWord', { file } ).catch( () => {
+			notification.showWarning( t( 'The Word document could not be imported.' ), {
+				title: t( 'Import failed' ),
+				namespace: 'importWord'
+			} );
+		} );
+	}
+}
@@ -0,0 +1,71 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module import-word/importwordcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import { DataTransfer } from 'ckeditor5/src/engine';
+import { global } from 'ckeditor5/src/utils';
+import type { ClipboardInputTransformationEvent } from 'ckeditor5/src/clipboard';
+
+import DocxReader from './docxreader';
+
+/**
+ * The command inserting the content of a Word document into the editor. It is registered by
+ * {@link module:import-word/importword~ImportWord} as `'importWord'`.
+ *
+ * ```ts
+ * editor.execute( 'importWord', { file } );
+ * ```
+ *
+ * The document is converted to HTML by {@link module:import-word/docxreader~DocxReader} and inserted at the selection
+ * like the content pasted from Word. It means that the content goes through the
+ * {@glink framework/deep-dive/clipboard#input-pipeline clipboard input pipeline}, where it is normalized by the
+ * {@link module:paste-from-office/pastefromoffice~PasteFromOffice paste from Office} feature, and its insertion
+ * can be undone in a single step.
+ */
+export default class ImportWordCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const model = this.editor.model;
+
+		this.isEnabled = model.canEditAt( model.document.selection );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.file The Word document (`.docx`).
+	 * @returns A promise resolved once the content is inserted. It is rejected with the `import-word-invalid-file` error
+	 * if the file is not a valid Word document.
+	 */
+	public override async execute( options: { file: Blob } ): Promise<void> {
+		const editor = this.editor;
+		const html = await new DocxReader().read( options.file );
+
+		// The document could be changed to read-only while the file was read.
+		if ( !this.isEnabled ) {
+			return;
+		}
+
+		const nativeDataTransfer = new global.window.DataTransfer();
+
+		nativeDataTransfer.setData( 'text/html', html );
+
+		editor.plugins.get( 'ClipboardPipeline' ).fire<ClipboardInputTransformationEvent>( 'inputTransformation', {
+			content: editor.data.htmlProcessor.toView( html ),
+			dataTransfer: new DataTransfer( nativeDataTransfer ),
+			targetRanges: null,
+			method: 'paste'
+		} );
+
+		editor.editing.view.scrollToTheSelection();
+	}
+}
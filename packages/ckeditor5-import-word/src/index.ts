@@ -0,0 +1,15 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module import-word
+ */
+
+export { default as ImportWord } from './importword';
+export { default as ImportWordCommand } from './importwordcommand';
+export { default as DocxReader, DOCX_MIME_TYPE } from './docxreader';
+export { readZip } from './unzip';
+
+import './augmentation';
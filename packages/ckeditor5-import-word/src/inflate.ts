@@ -0,0 +1,329 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module import-word/inflate
+ */
+
+import { throwInvalidFileError } from './utils';
+
+/**
+ * A canonical Huffman code. `counts` holds the number of codes of each length and `symbols` holds the symbols
+ * ordered by their codes.
+ */
+interface HuffmanTable {
+	counts: Uint16Array;
+	symbols: Uint16Array;
+}
+
+/**
+ * The base lengths of the length symbols (257-285).
+ */
+const LENGTH_BASES = [
+	3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258
+];
+
+/**
+ * The numbers of extra bits of the length symbols (257-285).
+ */
+const LENGTH_EXTRA_BITS = [
+	0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0
+];
+
+/**
+ * The base distances of the distance symbols (0-29).
+ */
+const DISTANCE_BASES = [
+	1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+	8193, 12289, 16385, 24577
+];
+
+/**
+ * The numbers of extra bits of the distance symbols (0-29).
+ */
+const DISTANCE_EXTRA_BITS = [
+	0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13
+];
+
+/**
+ * The order in which the lengths of the code length codes are stored in a block with dynamic Huffman codes.
+ */
+const CODE_LENGTH_ORDER = [ 16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15 ];
+
+/**
+ * The literal/length code used by the blocks compressed with fixed Huffman codes.
+ */
+const FIXED_LITERAL_TABLE = createHuffmanTable( [
+	...new Array( 144 ).fill( 8 ),
+	...new Array( 112 ).fill( 9 ),
+	...new Array( 24 ).fill( 7 ),
+	...new Array( 8 ).fill( 8 )
+] );
+
+/**
+ * The distance code used by the blocks compressed with fixed Huffman codes.
+ */
+const FIXED_DISTANCE_TABLE = createHuffmanTable( new Array( 30 ).fill( 5 ) );
+
+/**
+ * Decompresses the data compressed with the DEFLATE algorithm ([RFC 1951](https://www.rfc-editor.org/rfc/rfc1951)),
+ * which is used by the ZIP archives.
+ *
+ * @param data The compressed data.
+ * @param size The size of the decompressed data.
+ * @returns The decompressed data.
+ */
+export function inflate( data: Uint8Array, size: number ): Uint8Array {
+	const reader = new BitReader( data );
+	const output = new Uint8Array( size );
+
+	let length = 0;
+	let isLastBlock = false;
+
+	while ( !isLastBlock ) {
+		isLastBlock = reader.readBits( 1 ) == 1;
+
+		const blockType = reader.readBits( 2 );
+
+		if ( blockType == 0 ) {
+			length = copyStoredBlock( reader, output, length );
+		} else if ( blockType == 1 ) {
+			length = inflateBlock( reader, output, length, FIXED_LITERAL_TABLE, FIXED_DISTANCE_TABLE );
+		} else if ( blockType == 2 ) {
+			const [ literalTable, distanceTable ] = readDynamicTables( reader );
+
+			length = inflateBlock( reader, output, length, literalTable, distanceTable );
+		} else {
+			throwInvalidFileError();
+		}
+	}
+
+	if ( length != size ) {
+		throwInvalidFileError();
+	}
+
+	return output;
+}
+
+/**
+ * Reads the bits of the compressed data, starting from the least significant bit of each byte.
+ */
+class BitReader {
+	private readonly _data: Uint8Array;
+	private _position = 0;
+	private _buffer = 0;
+	private _bufferLength = 0;
+
+	constructor( data: Uint8Array ) {
+		this._data = data;
+	}
+
+	public readBits( count: number ): number {
+		while ( this._bufferLength < count ) {
+			if ( this._position >= this._data.length ) {
+				throwInvalidFileError();
+			}
+
+			this._buffer |= this._data[ this._position++ ] << this._bufferLength;
+			this._bufferLength += 8;
+		}
+
+		const value = this._buffer & ( ( 1 << count ) - 1 );
+
+		this._buffer >>>= count;
+		this._bufferLength -= count;
+
+		return value;
+	}
+
+	/**
+	 * Skips the remaining bits of the current byte and reads the following bytes.
+	 */
+	public readBytes( count: number ): Uint8Array {
+		this._buffer = 0;
+		this._bufferLength = 0;
+
+		if ( this._position + count > this._data.length ) {
+			throwInvalidFileError();
+		}
+
+		const bytes = this._data.subarray( this._position, this._position + count );
+
+		this._position += count;
+
+		return bytes;
+	}
+}
+
+/**
+ * Creates a canonical Huffman code from the lengths of the codes of the subsequent symbols.
+ */
+function createHuffmanTable( lengths: ArrayLike<number> ): HuffmanTable {
+	const counts = new Uint16Array( 16 );
+	const offsets = new Uint16Array( 16 );
+	const symbols = new Uint16Array( lengths.length );
+
+	for ( let symbol = 0; symbol < lengths.length; symbol++ ) {
+		counts[ lengths[ symbol ] ]++;
+	}
+
+	counts[ 0 ] = 0;
+
+	for ( let length = 1; length < 16; length++ ) {
+		offsets[ length ] = offsets[ length - 1 ] + counts[ length - 1 ];
+	}
+
+	for ( let symbol = 0; symbol < lengths.length; symbol++ ) {
+		if ( lengths[ symbol ] ) {
+			symbols[ offsets[ lengths[ symbol ] ]++ ] = symbol;
+		}
+	}
+
+	return { counts, symbols };
+}
+
+/**
+ * Reads a symbol encoded with the Huffman code.
+ */
+function readSymbol( reader: BitReader, table: HuffmanTable ): number {
+	let code = 0;
+	let first = 0;
+	let index = 0;
+
+	for ( let length = 1; length < 16; length++ ) {
+		code |= reader.readBits( 1 );
+
+		const count = table.counts[ length ];
+
+		if ( code - first < count ) {
+			return table.symbols[ index + code - first ];
+		}
+
+		index += count;
+		first = ( first + count ) << 1;
+		code <<= 1;
+	}
+
+	return throwInvalidFileError();
+}
+
+/**
+ * Reads the Huffman codes of a block compressed with dynamic Huffman codes.
+ */
+function readDynamicTables( reader: BitReader ): [ HuffmanTable, HuffmanTable ] {
+	const literalCount = reader.readBits( 5 ) + 257;
+	const distanceCount = reader.readBits( 5 ) + 1;
+	const codeLengthCount = reader.readBits( 4 ) + 4;
+	const codeLengths = new Uint8Array( 19 );
+
+	for ( let i = 0; i < codeLengthCount; i++ ) {
+		codeLengths[ CODE_LENGTH_ORDER[ i ] ] = reader.readBits( 3 );
+	}
+
+	const codeLengthTable = createHuffmanTable( codeLengths );
+	const lengths = new Uint8Array( literalCount + distanceCount );
+
+	for ( let i = 0; i < lengths.length; ) {
+		const symbol = readSymbol( reader, codeLengthTable );
+
+		if ( symbol < 16 ) {
+			lengths[ i++ ] = symbol;
+
+			continue;
+		}
+
+		let value = 0;
+		let repeat;
+
+		if ( symbol == 16 ) {
+			if ( i == 0 ) {
+				throwInvalidFileError();
+			}
+
+			value = lengths[ i - 1 ];
+			repeat = 3 + reader.readBits( 2 );
+		} else if ( symbol == 17 ) {
+			repeat = 3 + reader.readBits( 3 );
+		} else {
+			repeat = 11 + reader.readBits( 7 );
+		}
+
+		if ( i + repeat > lengths.length ) {
+			throwInvalidFileError();
+		}
+
+		lengths.fill( value, i, i += repeat );
+	}
+
+	return [
+		createHuffmanTable( lengths.subarray( 0, literalCount ) ),
+		createHuffmanTable( lengths.subarray( literalCount ) )
+	];
+}
+
+/**
+ * Copies an uncompressed block to the output. Returns the new length of the output.
+ */
+function copyStoredBlock( reader: BitReader, output: Uint8Array, length: number ): number {
+	const header = reader.readBytes( 4 );
+	const blockLength = header[ 0 ] | header[ 1 ] << 8;
+
+	if ( ( blockLength ^ ( header[ 2 ] | header[ 3 ] << 8 ) ) != 0xffff || length + blockLength > output.length ) {
+		throwInvalidFileError();
+	}
+
+	output.set( reader.readBytes( blockLength ), length );
+
+	return length + blockLength;
+}
+
+/**
+ * Decompresses a block compressed with Huffman codes. Returns the new length of the output.
+ */
+function inflateBlock(
+	reader: BitReader,
+	output: Uint8Array,
+	length: number,
+	literalTable: HuffmanTable,
+	distanceTable: HuffmanTable
+): number {
+	for ( let symbol = readSymbol( reader, literalTable ); symbol != 256; symbol = readSymbol( reader, literalTable ) ) {
+		if ( symbol < 256 ) {
+			if ( length >= output.length ) {
+				throwInvalidFileError();
+			}
+
+			output[ length++ ] = symbol;
+
+			continue;
+		}
+
+		const lengthIndex = symbol - 257;
+
+		if ( lengthIndex >= LENGTH_BASES.length ) {
+			throwInvalidFileError();
+		}
+
+		const copyLength = LENGTH_BASES[ lengthIndex ] + reader.readBits( LENGTH_EXTRA_BITS[ lengthIndex ] );
+		const distanceIndex = readSymbol( reader, distanceTable );
+
+		if ( distanceIndex >= DISTANCE_BASES.length ) {
+			throwInvalidFileError();
+		}
+
+		const distance = DISTANCE_BASES[ distanceIndex ] + reader.readBits( DISTANCE_EXTRA_BITS[ distanceIndex ] );
+
+		if ( distance > length || length + copyLength > output.length ) {
+			throwInvalidFileError();
+		}
+
+		// The copied sequence may overlap the copied bytes, so the bytes are copied one by one.
+		for ( let i = 0; i < copyLength; i++, length++ ) {
+			output[ length ] = output[ length - distance ];
+		}
+	}
+
+	return length;
+}
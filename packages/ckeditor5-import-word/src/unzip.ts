@@ -0,0 +1,104 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module import-word/unzip
+ */
+
+import { inflate } from './inflate';
+import { throwInvalidFileError } from './utils';
+
+/**
+ * The signature of the "end of central directory" record.
+ */
+const END_SIGNATURE = 0x06054b50;
+
+/**
+ * The signature of a central directory header.
+ */
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+
+/**
+ * The signature of a local file header.
+ */
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * The maximum length of the comment of a ZIP archive.
+ */
+const MAX_COMMENT_LENGTH = 0xffff;
+
+/**
+ * Reads the files stored in a ZIP archive. The stored and the DEFLATE-compressed files are supported.
+ *
+ * Throws the `import-word-invalid-file` error if the data is not a valid ZIP archive.
+ *
+ * @param data The content of the archive.
+ * @returns The content of the files mapped by their paths. The directories are omitted.
+ */
+export function readZip( data: Uint8Array ): Map<string, Uint8Array> {
+	const view = new DataView( data.buffer, data.byteOffset, data.byteLength );
+	const decoder = new TextDecoder();
+	const files = new Map<string, Uint8Array>();
+	const endOffset = findEndOfCentralDirectory( view );
+	const entryCount = view.getUint16( endOffset + 10, true );
+
+	let offset = view.getUint32( endOffset + 16, true );
+
+	for ( let i = 0; i < entryCount; i++ ) {
+		if ( offset + 46 > data.length || view.getUint32( offset, true ) != CENTRAL_HEADER_SIGNATURE ) {
+			throwInvalidFileError();
+		}
+
+		const method = view.getUint16( offset + 10, true );
+		const compressedSize = view.getUint32( offset + 20, true );
+		const size = view.getUint32( offset + 24, true );
+		const nameLength = view.getUint16( offset + 28, true );
+		const localOffset = view.getUint32( offset + 42, true );
+		const name = decoder.decode( data.subarray( offset + 46, offset + 46 + nameLength ) );
+
+		offset += 46 + nameLength + view.getUint16( offset + 30, true ) + view.getUint16( offset + 32, true );
+
+		if ( name.endsWith( '/' ) ) {
+			continue;
+		}
+
+		if ( localOffset + 30 > data.length || view.getUint32( localOffset, true ) != LOCAL_HEADER_SIGNATURE ) {
+			throwInvalidFileError();
+		}
+
+		const dataOffset = localOffset + 30 + view.getUint16( localOffset + 26, true ) + view.getUint16( localOffset + 28, true );
+		const compressedData = data.subarray( dataOffset, dataOffset + compressedSize );
+
+		if ( compressedData.length != compressedSize ) {
+			throwInvalidFileError();
+		}
+
+		if ( method == 0 ) {
+			files.set( name, compressedData );
+		} else if ( method == 8 ) {
+			files.set( name, inflate( compressedData, size ) );
+		} else {
+			throwInvalidFileError();
+		}
+	}
+
+	return files;
+}
+
+/**
+ * Finds the offset of the "end of central directory" record, which is placed at the end of the archive before its comment.
+ */
+function findEndOfCentralDirectory( view: DataView ): number {
+	const minOffset = Math.max( 0, view.byteLength - 22 - MAX_COMMENT_LENGTH );
+
+	for ( let offset = view.byteLength - 22; offset >= minOffset; offset-- ) {
+		if ( view.getUint32( offset, true ) == END_SIGNATURE ) {
+			return offset;
+		}
+	}
+
+	return throwInvalidFileError();
+}
@@ -0,0 +1,57 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module import-word/utils
+ */
+
+import { CKEditorError, global } from 'ckeditor5/src/utils';
+
+/**
+ * The HTML entities of the characters that are escaped.
+ */
+const HTML_ENTITIES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;'
+};
+
+/**
+ * Escapes the text so it can be used in the HTML content and attribute values.
+ *
+ * @param text The text to escape.
+ */
+export function escapeHtml( text: string ): string {
+	return text.replace( /[&<>"]/g, character => HTML_ENTITIES[ character ] );
+}
+
+/**
+ * Encodes the data as a Base64 string.
+ *
+ * @param data The data to encode.
+ */
+export function toBase64( data: Uint8Array ): string {
+	const chunks = [];
+
+	// Converting the data in chunks avoids exceeding the maximum number of the function arguments.
+	for ( let offset = 0; offset < data.length; offset += 0x8000 ) {
+		chunks.push( String.fromCharCode( ...data.subarray( offset, offset + 0x8000 ) ) );
+	}
+
+	return global.window.btoa( chunks.join( '' ) );
+}
+
+/**
+ * Throws the error informing that the imported file is not a valid Word document.
+ */
+export function throwInvalidFileError(): never {
+	/**
+	 * The imported file is not a valid Word document (`.docx`).
+	 *
+	 * @error import-word-invalid-file
+	 */
+	throw new CKEditorError( 'import-word-invalid-file', null );
+}
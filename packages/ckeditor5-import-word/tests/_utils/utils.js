@@ -0,0 +1,158 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global Blob, CompressionStream, Response, TextEncoder */
+
+import { createZip } from '@ckeditor/ckeditor5-export-word/src/zip';
+
+import { DOCX_MIME_TYPE } from '../../src/docxreader';
+
+const NAMESPACES = [
+	'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+	'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+	'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+	'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+	'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+	'xmlns:v="urn:schemas-microsoft-com:vml"',
+	'xmlns:o="urn:schemas-microsoft-com:office:office"'
+].join( ' ' );
+
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/';
+
+/**
+ * Creates a Word document.
+ *
+ * @param {String} body The content of the `<w:body>` element.
+ * @param {Object} [options]
+ * @param {String} [options.styles] The content of the `<w:styles>` element. The part is omitted if not set.
+ * @param {String} [options.numbering] The content of the `<w:numbering>` element. The part is omitted if not set.
+ * @param {Array.<Object>} [options.relationships] Additional relationships of the document part (`id`, `type`, `target`
+ * and `isExternal`).
+ * @param {Object.<String,Uint8Array>} [options.files] Additional files of the package by their paths.
+ * @returns {Blob}
+ */
+export function createDocx( body, options = {} ) {
+	const relationships = [ ...( options.relationships || [] ) ];
+	const entries = [
+		{
+			name: '_rels/.rels',
+			data: createRelationships( [ { id: 'rId1', type: 'officeDocument', target: 'word/document.xml' } ] )
+		},
+		{
+			name: 'word/document.xml',
+			data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+				`<w:document ${ NAMESPACES }><w:body>${ body }</w:body></w:document>`
+		}
+	];
+
+	if ( options.styles ) {
+		relationships.push( { id: 'rIdStyles', type: 'styles', target: 'styles.xml' } );
+		entries.push( { name: 'word/styles.xml', data: `<w:styles ${ NAMESPACES }>${ options.styles }</w:styles>` } );
+	}
+
+	if ( options.numbering ) {
+		relationships.push( { id: 'rIdNumbering', type: 'numbering', target: 'numbering.xml' } );
+		entries.push( { name: 'word/numbering.xml', data: `<w:numbering ${ NAMESPACES }>${ options.numbering }</w:numbering>` } );
+	}
+
+	entries.push( { name: 'word/_rels/document.xml.rels', data: createRelationships( relationships ) } );
+
+	for ( const [ name, data ] of Object.entries( options.files || {} ) ) {
+		entries.push( { name, data } );
+	}
+
+	return new Blob( [ createZip( entries ) ], { type: DOCX_MIME_TYPE } );
+}
+
+/**
+ * Compresses the data with the DEFLATE algorithm.
+ *
+ * @param {Uint8Array} data
+ * @returns {Promise.<Uint8Array>}
+ */
+export async function deflate( data ) {
+	const stream = new CompressionStream( 'deflate-raw' );
+	const writer = stream.writable.getWriter();
+
+	writer.write( data );
+	writer.close();
+
+	return new Uint8Array( await new Response( stream.readable ).arrayBuffer() );
+}
+
+/**
+ * Creates a ZIP archive with the files compressed with the DEFLATE algorithm. The checksums are not calculated.
+ *
+ * @param {Array.<Object>} entries The files (`name` and `data`).
+ * @returns {Promise.<Uint8Array>}
+ */
+export async function createCompressedZip( entries ) {
+	const encoder = new TextEncoder();
+	const localParts = [];
+	const centralParts = [];
+
+	let offset = 0;
+
+	for ( const entry of entries ) {
+		const name = encoder.encode( entry.name );
+		const data = typeof entry.data == 'string' ? encoder.encode( entry.data ) : entry.data;
+		const compressedData = await deflate( data );
+		const localHeader = createHeader( 30, name, [
+			[ 0, 0x04034b50, 4 ], [ 8, 8, 2 ], [ 18, compressedData.length, 4 ], [ 22, data.length, 4 ], [ 26, name.length, 2 ]
+		] );
+		const centralHeader = createHeader( 46, name, [
+			[ 0, 0x02014b50, 4 ], [ 10, 8, 2 ], [ 20, compressedData.length, 4 ], [ 24, data.length, 4 ], [ 28, name.length, 2 ],
+			[ 42, offset, 4 ]
+		] );
+
+		localParts.push( localHeader, compressedData );
+		centralParts.push( centralHeader );
+		offset += localHeader.length + compressedData.length;
+	}
+
+	const centralSize = centralParts.reduce( ( size, part ) => size + part.length, 0 );
+	const endRecord = createHeader( 22, new Uint8Array(), [
+		[ 0, 0x06054b50, 4 ], [ 8, entries.length, 2 ], [ 10, entries.length, 2 ], [ 12, centralSize, 4 ], [ 16, offset, 4 ]
+	] );
+
+	return new Uint8Array( await new Blob( [ ...localParts, ...centralParts, endRecord ] ).arrayBuffer() );
+}
+
+/**
+ * Returns the content of the `<body>` element of the HTML created by the reader.
+ *
+ * @param {String} html
+ * @returns {String}
+ */
+export function getBody( html ) {
+	return html.match( /<body>(.*)<\/body>/s )[ 1 ];
+}
+
+function createRelationships( relationships ) {
+	const elements = relationships.map( ( { id, type, target, isExternal } ) =>
+		`<Relationship Id="${ id }" Type="${ RELATIONSHIP_TYPE }${ type }" Target="${ target.replace( /&/g, '&amp;' ) }"` +
+		`${ isExternal ? ' TargetMode="External"' : '' }/>`
+	);
+
+	return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+		`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${ elements.join( '' ) }</Relationships>`;
+}
+
+function createHeader( size, name, fields ) {
+	const header = new Uint8Array( size + name.length );
+	const view = new DataView( header.buffer );
+
+	for ( const [ offset, value, length ] of fields ) {
+		if ( length == 4 ) {
+			view.setUint32( offset, value, true );
+		} else {
+			view.setUint16( offset, value, true );
+		}
+	}
+
+	header.set( name, size );
+
+	return header;
+}
@@ -0,0 +1,536 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global Blob */
+
+import { createZip } from '@ckeditor/ckeditor5-export-word/src/zip';
+import CKEditorError from '@ckeditor/ckeditor5-utils/src/ckeditorerror';
+
+import DocxReader from '../src/docxreader';
+import { createDocx, getBody } from './_utils/utils';
+
+const IMAGE_DATA = new Uint8Array( [ 1, 2, 3 ] );
+const IMAGE_SRC = 'data:image/png;base64,AQID';
+
+describe( 'DocxReader', () => {
+	let reader;
+
+	beforeEach( () => {
+		reader = new DocxReader();
+	} );
+
+	async function read( body, options ) {
+		return getBody( await reader.read( createDocx( body, options ) ) );
+	}
+
+	function paragraph( text, properties = '' ) {
+		return `<w:p>${ properties ? `<w:pPr>${ properties }</w:pPr>` : '' }<w:r><w:t>${ text }</w:t></w:r></w:p>`;
+	}
+
+	function run( text, properties ) {
+		return `<w:p><w:r><w:rPr>${ properties }</w:rPr><w:t xml:space="preserve">${ text }</w:t></w:r></w:p>`;
+	}
+
+	function style( id, name, content = '', type = 'paragraph' ) {
+		return `<w:style w:type="${ type }" w:styleId="${ id }"><w:name w:val="${ name }"/>${ content }</w:style>`;
+	}
+
+	function drawing( relationshipId, extra = '' ) {
+		return '<w:r><w:drawing><wp:inline>' +
+			'<wp:extent cx="952500" cy="476250"/>' +
+			`<wp:docPr id="1" name="Picture 1"${ extra }/>` +
+			'<a:graphic><a:graphicData><pic:pic><pic:blipFill>' +
+				`<a:blip r:embed="${ relationshipId }"/>` +
+			'</pic:blipFill></pic:pic></a:graphicData></a:graphic>' +
+		'</wp:inline></w:drawing></w:r>';
+	}
+
+	const imageOptions = {
+		relationships: [ { id: 'rIdImage', type: 'image', target: 'media/image1.png' } ],
+		files: { 'word/media/image1.png': IMAGE_DATA }
+	};
+
+	describe( 'read()', () => {
+		it( 'should create the HTML like the HTML copied from Word', async () => {
+			const html = await reader.read( createDocx( paragraph( 'Foo' ) ) );
+
+			expect( html ).to.equal(
+				'<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word">' +
+					'<head><style>p.MsoNormal { margin:0cm; }</style></head>' +
+					'<body><p>Foo</p></body>' +
+				'</html>'
+			);
+		} );
+
+		it( 'should reject if the file is not a ZIP archive', async () => {
+			await expectInvalidFile( new Blob( [ 'Foo' ] ) );
+		} );
+
+		it( 'should reject if the package has no main document part', async () => {
+			await expectInvalidFile( new Blob( [ createZip( [ { name: 'foo.xml', data: '<foo/>' } ] ) ] ) );
+		} );
+
+		it( 'should reject if a part is not a valid XML document', async () => {
+			await expectInvalidFile( createDocx( '<w:p>' ) );
+		} );
+
+		it( 'should resolve the main document part relative to the package', async () => {
+			const file = new Blob( [ createZip( [
+				{
+					name: '_rels/.rels',
+					data: '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+						'<Relationship Id="rId1" Target="/docs/./main.xml" ' +
+							'Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument"/>' +
+					'</Relationships>'
+				},
+				{
+					name: 'docs/main.xml',
+					data: '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+						`<w:body>${ paragraph( 'Foo' ) }</w:body>` +
+					'</w:document>'
+				}
+			] ) ] );
+
+			expect( getBody( await reader.read( file ) ) ).to.equal( '<p>Foo</p>' );
+		} );
+
+		async function expectInvalidFile( file ) {
+			try {
+				await reader.read( file );
+			} catch ( error ) {
+				expect( error ).to.be.instanceOf( CKEditorError );
+				expect( error.message ).to.match( /^import-word-invalid-file/ );
+
+				return;
+			}
+
+			throw new Error( 'Expected to be rejected.' );
+		}
+	} );
+
+	describe( 'paragraphs', () => {
+		it( 'should convert the paragraphs', async () => {
+			expect( await read( paragraph( 'Foo' ) + '<w:p/>' + paragraph( 'Bar' ) ) ).to.equal( '<p>Foo</p><p></p><p>Bar</p>' );
+		} );
+
+		it( 'should convert the headings and the title', async () => {
+			const styles = style( 'Title', 'Title' ) + style( 'Heading1', 'heading 1' ) + style( 'Heading6', 'heading 6' ) +
+				style( 'Heading9', 'heading 9' );
+			const body = paragraph( 'Title', '<w:pStyle w:val="Title"/>' ) +
+				paragraph( 'Foo', '<w:pStyle w:val="Heading1"/>' ) +
+				paragraph( 'Bar', '<w:pStyle w:val="Heading6"/>' ) +
+				paragraph( 'Baz', '<w:pStyle w:val="Heading9"/>' );
+
+			expect( await read( body, { styles } ) ).to.equal( '<h1>Title</h1><h2>Foo</h2><h6>Bar</h6><p>Baz</p>' );
+		} );
+
+		it( 'should use the style IDs if the styles are not defined', async () => {
+			expect( await read( paragraph( 'Foo', '<w:pStyle w:val="Heading2"/>' ) ) ).to.equal( '<h3>Foo</h3>' );
+		} );
+
+		it( 'should use the styles that the paragraph style is based on', async () => {
+			const styles = style( 'Heading1', 'heading 1' ) +
+				style( 'Custom', 'Custom heading', '<w:basedOn w:val="Heading1"/>' ) +
+				style( 'Loop', 'Loop', '<w:basedOn w:val="Loop"/>' );
+			const body = paragraph( 'Foo', '<w:pStyle w:val="Custom"/>' ) + paragraph( 'Bar', '<w:pStyle w:val="Loop"/>' );
+
+			expect( await read( body, { styles } ) ).to.equal( '<h2>Foo</h2><p>Bar</p>' );
+		} );
+
+		it( 'should convert the alignment and the indentation', async () => {
+			const body = paragraph( 'Foo', '<w:jc w:val="center"/>' ) +
+				paragraph( 'Bar', '<w:jc w:val="both"/><w:ind w:left="720"/>' ) +
+				paragraph( 'Baz', '<w:jc w:val="left"/><w:ind w:start="360" w:hanging="360"/>' );
+
+			expect( await read( body ) ).to.equal(
+				'<p style="text-align:center">Foo</p>' +
+				'<p style="text-align:justify;margin-left:48px">Bar</p>' +
+				'<p style="margin-left:24px">Baz</p>'
+			);
+		} );
+
+		it( 'should convert the page breaks', async () => {
+			const body = paragraph( 'Foo', '<w:pageBreakBefore/>' ) +
+				'<w:p><w:r><w:t>Bar</w:t><w:br w:type="page"/><w:t>Baz</w:t></w:r></w:p>';
+
+			expect( await read( body ) ).to.equal(
+				'<p><br clear="all" style="page-break-before:always">Foo</p>' +
+				'<p>Bar<br clear="all" style="page-break-before:always">Baz</p>'
+			);
+		} );
+
+		it( 'should group the quotes', async () => {
+			const styles = style( 'Quote', 'Quote' ) + style( 'IntenseQuote', 'Intense Quote' );
+			const body = paragraph( 'Foo', '<w:pStyle w:val="Quote"/>' ) +
+				paragraph( 'Bar', '<w:pStyle w:val="IntenseQuote"/>' ) +
+				paragraph( 'Baz' ) +
+				paragraph( 'Qux', '<w:pStyle w:val="Quote"/>' );
+
+			expect( await read( body, { styles } ) ).to.equal(
+				'<blockquote><p>Foo</p><p>Bar</p></blockquote><p>Baz</p><blockquote><p>Qux</p></blockquote>'
+			);
+		} );
+
+		it( 'should group the code lines', async () => {
+			const body = paragraph( 'let a = 1;', '<w:pStyle w:val="Code"/>' ) +
+				'<w:p><w:pPr><w:pStyle w:val="Code"/><w:tabs><w:tab w:val="left" w:pos="720"/></w:tabs></w:pPr>' +
+					'<w:r><w:tab/><w:t>if ( a &lt; 2 ) {}</w:t></w:r>' +
+				'</w:p>' +
+				paragraph( 'Foo' );
+
+			expect( await read( body, { styles: style( 'Code', 'Code' ) } ) ).to.equal(
+				'<pre><code class="language-plaintext">let a = 1;<br>\tif ( a &lt; 2 ) {}</code></pre><p>Foo</p>'
+			);
+		} );
+
+		it( 'should convert the content of the content controls', async () => {
+			const body = `<w:sdt><w:sdtPr/><w:sdtContent>${ paragraph( 'Foo' ) }</w:sdtContent></w:sdt>` +
+				`<w:customXml>${ paragraph( 'Bar' ) }</w:customXml>` +
+				'<w:sdt><w:sdtPr/></w:sdt>' +
+				'<w:sectPr/>';
+
+			expect( await read( body ) ).to.equal( '<p>Foo</p><p>Bar</p>' );
+		} );
+	} );
+
+	describe( 'text', () => {
+		it( 'should escape the text', async () => {
+			expect( await read( paragraph( '&lt;b&gt; &amp; "' ) ) ).to.equal( '<p>&lt;b&gt; &amp; &quot;</p>' );
+		} );
+
+		it( 'should preserve the sequences of spaces', async () => {
+			expect( await read( run( 'Foo   Bar', '' ) ) ).to.equal( '<p>Foo<span style="mso-spacerun:yes">   </span>Bar</p>' );
+		} );
+
+		it( 'should convert the special characters and the line breaks', async () => {
+			const body = '<w:p><w:r><w:t>Foo</w:t><w:tab/><w:t>Bar</w:t><w:noBreakHyphen/><w:t>Baz</w:t><w:br/>' +
+				'<w:t>Qux</w:t><w:cr/></w:r></w:p>';
+
+			expect( await read( body ) ).to.equal( '<p>Foo\tBar-Baz<br>Qux<br></p>' );
+		} );
+
+		it( 'should convert the inserted text and skip the deleted text', async () => {
+			const body = '<w:p>' +
+				'<w:ins w:id="1" w:author="John"><w:r><w:t>Foo</w:t></w:r></w:ins>' +
+				'<w:del w:id="2" w:author="John"><w:r><w:delText>Bar</w:delText></w:r></w:del>' +
+				'<w:moveFrom w:id="3" w:author="John"><w:r><w:t>Baz</w:t></w:r></w:moveFrom>' +
+				'<w:smartTag><w:r><w:t>Qux</w:t></w:r></w:smartTag>' +
+				'<w:sdt><w:sdtContent><w:r><w:t>Quux</w:t></w:r></w:sdtContent></w:sdt>' +
+				'<w:proofErr w:type="spellStart"/>' +
+			'</w:p>';
+
+			expect( await read( body ) ).to.equal( '<p>FooQuxQuux</p>' );
+		} );
+	} );
+
+	describe( 'formatting', () => {
+		it( 'should convert the basic styles', async () => {
+			const body = run( 'Foo', '<w:b/><w:i/><w:u w:val="single"/><w:strike/><w:vertAlign w:val="superscript"/>' ) +
+				run( 'Bar', '<w:b w:val="0"/><w:i w:val="false"/><w:u w:val="none"/><w:dstrike/><w:vertAlign w:val="subscript"/>' );
+
+			expect( await read( body ) ).to.equal(
+				'<p><strong><i><u><s><sup>Foo</sup></s></u></i></strong></p>' +
+				'<p><s><sub>Bar</sub></s></p>'
+			);
+		} );
+
+		it( 'should convert the font properties', async () => {
+			const body = run( 'Foo', '<w:rFonts w:ascii="Arial" w:hAnsi="Arial"/><w:color w:val="ff0000"/><w:sz w:val="28"/>' ) +
+				run( 'Bar', '<w:rFonts w:hAnsi="Georgia"/><w:color w:val="auto"/><w:shd w:val="clear" w:fill="00FF00"/>' );
+
+			expect( await read( body ) ).to.equal(
+				'<p><span style="font-family:Arial;font-size:14pt;color:#FF0000">Foo</span></p>' +
+				'<p><span style="font-family:Georgia;background-color:#00FF00">Bar</span></p>'
+			);
+		} );
+
+		it( 'should convert the highlights', async () => {
+			const body = run( 'Foo', '<w:highlight w:val="yellow"/>' ) +
+				run( 'Bar', '<w:highlight w:val="cyan"/><w:b/>' ) +
+				run( 'Baz', '<w:highlight w:val="darkBlue"/>' ) +
+				run( 'Qux', '<w:highlight w:val="none"/>' );
+
+			expect( await read( body ) ).to.equal(
+				'<p><mark class="marker-yellow">Foo</mark></p>' +
+				'<p><mark class="marker-blue"><strong>Bar</strong></mark></p>' +
+				'<p><span style="background-color:#000080">Baz</span></p>' +
+				'<p>Qux</p>'
+			);
+		} );
+
+		it( 'should apply the character styles', async () => {
+			const styles = style( 'Strong', 'Strong', '<w:rPr><w:b/></w:rPr>', 'character' ) +
+				style( 'RedStrong', 'Red strong', '<w:basedOn w:val="Strong"/><w:rPr><w:color w:val="FF0000"/></w:rPr>', 'character' );
+			const body = run( 'Foo', '<w:rStyle w:val="RedStrong"/>' ) +
+				run( 'Bar', '<w:rStyle w:val="RedStrong"/><w:b w:val="0"/>' ) +
+				run( 'Baz', '<w:rStyle w:val="Unknown"/>' );
+
+			expect( await read( body, { styles } ) ).to.equal(
+				'<p><span style="color:#FF0000"><strong>Foo</strong></span></p>' +
+				'<p><span style="color:#FF0000">Bar</span></p>' +
+				'<p>Baz</p>'
+			);
+		} );
+	} );
+
+	describe( 'links', () => {
+		it( 'should convert the hyperlinks', async () => {
+			const styles = style( 'Hyperlink', 'Hyperlink', '<w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr>', 'character' );
+			const body = '<w:p>' +
+				'<w:hyperlink r:id="rIdLink"><w:r><w:rPr><w:rStyle w:val="Hyperlink"/></w:rPr><w:t>Foo</w:t></w:r></w:hyperlink>' +
+				'<w:hyperlink w:anchor="bookmark"><w:r><w:t>Bar</w:t></w:r></w:hyperlink>' +
+				'<w:hyperlink><w:r><w:t>Baz</w:t></w:r></w:hyperlink>' +
+			'</w:p>';
+			const relationships = [ { id: 'rIdLink', type: 'hyperlink', target: 'https://ckeditor.com/?a=1&b=2', isExternal: true } ];
+
+			expect( await read( body, { styles, relationships } ) ).to.equal(
+				'<p><a href="https://ckeditor.com/?a=1&amp;b=2">Foo</a><a href="#bookmark">Bar</a>Baz</p>'
+			);
+		} );
+
+		it( 'should convert the hyperlink fields', async () => {
+			const body = '<w:p>' +
+				'<w:r><w:fldChar w:fldCharType="begin"/></w:r>' +
+				'<w:r><w:instrText xml:space="preserve"> HYPERLINK "https://ckeditor.com" </w:instrText></w:r>' +
+				'<w:r><w:fldChar w:fldCharType="separate"/></w:r>' +
+				'<w:r><w:rPr><w:b/></w:rPr><w:t>Foo</w:t></w:r>' +
+				'<w:r><w:fldChar w:fldCharType="end"/></w:r>' +
+				'<w:fldSimple w:instr=" HYPERLINK \\l &quot;bookmark&quot; "><w:r><w:t>Bar</w:t></w:r></w:fldSimple>' +
+			'</w:p>';
+
+			expect( await read( body ) ).to.equal(
+				'<p><a href="https://ckeditor.com"><strong>Foo</strong></a><a href="#bookmark">Bar</a></p>'
+			);
+		} );
+
+		it( 'should convert the results of other fields', async () => {
+			const body = '<w:p>' +
+				'<w:r><w:fldChar w:fldCharType="begin"/><w:instrText> PAGE </w:instrText><w:fldChar w:fldCharType="separate"/>' +
+				'<w:t>1</w:t><w:fldChar w:fldCharType="end"/></w:r>' +
+				'<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText> TOC </w:instrText></w:r>' +
+				'<w:r><w:fldChar w:fldCharType="end"/></w:r>' +
+				'<w:fldSimple w:instr=" NUMPAGES "><w:r><w:t>2</w:t></w:r></w:fldSimple>' +
+			'</w:p>';
+
+			expect( await read( body ) ).to.equal( '<p>12</p>' );
+		} );
+	} );
+
+	describe( 'lists', () => {
+		const numbering = '<w:abstractNum w:abstractNumId="0">' +
+				'<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="&#xF0B7;"/></w:lvl>' +
+				'<w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="o"/></w:lvl>' +
+				'<w:lvl w:ilvl="2"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="&#xF0A7;"/></w:lvl>' +
+			'</w:abstractNum>' +
+			'<w:abstractNum w:abstractNumId="1">' +
+				'<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>' +
+				'<w:lvl w:ilvl="1"><w:start w:val="1"/><w:numFmt w:val="lowerLetter"/><w:lvlText w:val="%2)"/></w:lvl>' +
+			'</w:abstractNum>' +
+			'<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>' +
+			'<w:num w:numId="2"><w:abstractNumId w:val="1"/></w:num>' +
+			'<w:num w:numId="3"><w:abstractNumId w:val="1"/>' +
+				'<w:lvlOverride w:ilvl="0"><w:startOverride w:val="5"/></w:lvlOverride>' +
+			'</w:num>';
+
+		function listItem( text, numId, level, properties = '' ) {
+			return paragraph( text, `<w:numPr><w:ilvl w:val="${ level }"/><w:numId w:val="${ numId }"/></w:numPr>${ properties }` );
+		}
+
+		it( 'should convert the bulleted lists', async () => {
+			const body = listItem( 'Foo', 1, 0 ) + listItem( 'Bar', 1, 1 ) + listItem( 'Baz', 1, 2 );
+			const html = await reader.read( createDocx( body, { numbering } ) );
+
+			expect( getBody( html ) ).to.equal(
+				'<p style="mso-list:l1 level1 lfo1"><span style="mso-list:Ignore">·</span>Foo</p>' +
+				'<p style="mso-list:l1 level2 lfo1"><span style="mso-list:Ignore">o</span>Bar</p>' +
+				'<p style="mso-list:l1 level3 lfo1"><span style="mso-list:Ignore">§</span>Baz</p>'
+			);
+
+			expect( html ).to.contain(
+				'<style>p.MsoNormal { margin:0cm; }\n' +
+					'@list l1:level1 { mso-level-number-format:bullet; mso-level-start-at:1; }\n' +
+					'@list l1:level2 { mso-level-number-format:bullet; mso-level-start-at:1; }\n' +
+					'@list l1:level3 { mso-level-number-format:bullet; mso-level-start-at:1; }' +
+				'</style>'
+			);
+		} );
+
+		it( 'should convert the numbered lists', async () => {
+			const body = listItem( 'Foo', 2, 0, '<w:jc w:val="center"/><w:ind w:left="720"/>' ) + listItem( 'Bar', 2, 1 ) +
+				listItem( 'Baz', 3, 0 );
+			const html = await reader.read( createDocx( body, { numbering } ) );
+
+			expect( getBody( html ) ).to.equal(
+				'<p style="mso-list:l2 level1 lfo2;text-align:center"><span style="mso-list:Ignore">1.</span>Foo</p>' +
+				'<p style="mso-list:l2 level2 lfo2"><span style="mso-list:Ignore">1)</span>Bar</p>' +
+				'<p style="mso-list:l3 level1 lfo3"><span style="mso-list:Ignore">5.</span>Baz</p>'
+			);
+
+			expect( html ).to.contain(
+				'<style>p.MsoNormal { margin:0cm; }\n' +
+					'@list l2:level1 { mso-level-start-at:1; }\n' +
+					'@list l2:level2 { mso-level-number-format:alpha-lower; mso-level-start-at:1; }\n' +
+					'@list l3:level1 { mso-level-start-at:5; }' +
+				'</style>'
+			);
+		} );
+
+		it( 'should convert the list items with the numbering of the paragraph style', async () => {
+			const styles = style( 'ListBullet', 'List Bullet', '<w:pPr><w:numPr><w:numId w:val="1"/></w:numPr></w:pPr>' ) +
+				style( 'Heading1', 'heading 1' );
+			const body = paragraph( 'Foo', '<w:pStyle w:val="ListBullet"/>' ) +
+				listItem( 'Bar', 2, 0, '<w:pStyle w:val="Heading1"/>' );
+
+			expect( await read( body, { styles, numbering } ) ).to.equal(
+				'<p style="mso-list:l1 level1 lfo1"><span style="mso-list:Ignore">·</span>Foo</p>' +
+				'<h2 style="mso-list:l2 level1 lfo2"><span style="mso-list:Ignore">1.</span>Bar</h2>'
+			);
+		} );
+
+		it( 'should convert the paragraphs with the removed or unknown numbering', async () => {
+			const body = listItem( 'Foo', 0, 0 ) + listItem( 'Bar', 7, 0 );
+
+			expect( await read( body, { numbering } ) ).to.equal( '<p>Foo</p><p>Bar</p>' );
+		} );
+	} );
+
+	describe( 'images', () => {
+		it( 'should convert the block images', async () => {
+			const body = `<w:p><w:pPr><w:jc w:val="center"/></w:pPr>${ drawing( 'rIdImage', ' descr="Foo &amp; bar"' ) }</w:p>`;
+
+			expect( await read( body, imageOptions ) ).to.equal(
+				`<div align="center"><figure class="image"><img src="${ IMAGE_SRC }" alt="Foo &amp; bar" width="100" height="50">` +
+				'</figure></div>'
+			);
+		} );
+
+		it( 'should convert the image captions', async () => {
+			const body = `<w:p>${ drawing( 'rIdImage' ) }</w:p>` + paragraph( 'Foo', '<w:pStyle w:val="Caption"/>' ) +
+				paragraph( 'Bar', '<w:pStyle w:val="Caption"/>' );
+
+			expect( await read( body, { ...imageOptions, styles: style( 'Caption', 'caption' ) } ) ).to.equal(
+				`<figure class="image"><img src="${ IMAGE_SRC }" width="100" height="50"><figcaption>Foo</figcaption></figure>` +
+				'<p>Bar</p>'
+			);
+		} );
+
+		it( 'should convert the inline images', async () => {
+			const body = `<w:p><w:r><w:t>Foo</w:t></w:r>${ drawing( 'rIdImage' ) }</w:p>`;
+
+			expect( await read( body, imageOptions ) ).to.equal( `<p>Foo<img src="${ IMAGE_SRC }" width="100" height="50"></p>` );
+		} );
+
+		it( 'should convert the VML images', async () => {
+			const body = '<w:p><w:r><w:pict>' +
+				'<v:shape style="width:75pt;height:37.5pt"><v:imagedata r:id="rIdImage" o:title="Foo"/></v:shape>' +
+			'</w:pict></w:r></w:p>';
+
+			expect( await read( body, imageOptions ) ).to.equal(
+				`<figure class="image"><img src="${ IMAGE_SRC }" alt="Foo" width="100" height="50"></figure>`
+			);
+		} );
+
+		it( 'should skip the images that cannot be converted', async () => {
+			const body = `<w:p><w:r><w:t>Foo</w:t></w:r>${ drawing( 'rIdMetafile' ) }${ drawing( 'rIdMissing' ) }` +
+				`${ drawing( 'rIdExternal' ) }${ drawing( 'rIdUnknown' ) }</w:p>` +
+				'<w:p><w:r><w:drawing><wp:anchor><wp:docPr id="2" name="Shape"/></wp:anchor></w:drawing></w:r></w:p>';
+			const relationships = [
+				{ id: 'rIdMetafile', type: 'image', target: 'media/image2.emf' },
+				{ id: 'rIdMissing', type: 'image', target: 'media/image3.png' },
+				{ id: 'rIdExternal', type: 'image', target: 'https://example.com/image.png', isExternal: true }
+			];
+
+			expect( await read( body, { relationships, files: { 'word/media/image2.emf': IMAGE_DATA } } ) ).to.equal(
+				'<p>Foo</p><p></p>'
+			);
+		} );
+	} );
+
+	describe( 'tables', () => {
+		function cell( content, properties = '' ) {
+			return `<w:tc>${ properties ? `<w:tcPr>${ properties }</w:tcPr>` : '' }${ content }</w:tc>`;
+		}
+
+		it( 'should convert the tables', async () => {
+			const body = '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/></w:tblPr><w:tblGrid/>' +
+				`<w:tr>${ cell( paragraph( 'Foo' ) ) }${ cell( paragraph( 'Bar' ) + paragraph( 'Baz' ) ) }</w:tr>` +
+			'</w:tbl>';
+
+			expect( await read( body ) ).to.equal(
+				'<table><tbody><tr><td><p>Foo</p></td><td><p>Bar</p><p>Baz</p></td></tr></tbody></table>'
+			);
+		} );
+
+		it( 'should convert the merged cells', async () => {
+			const body = '<w:tbl>' +
+				'<w:tr>' +
+					cell( paragraph( 'A' ), '<w:gridSpan w:val="2"/>' ) +
+					cell( paragraph( 'B' ), '<w:vMerge w:val="restart"/>' ) +
+				'</w:tr>' +
+				'<w:tr>' +
+					cell( paragraph( 'C' ), '<w:vMerge w:val="restart"/>' ) +
+					cell( paragraph( 'D' ) ) +
+					cell( '<w:p/>', '<w:vMerge/>' ) +
+				'</w:tr>' +
+				'<w:tr>' +
+					cell( '<w:p/>', '<w:vMerge/>' ) +
+					cell( paragraph( 'E' ) ) +
+					cell( paragraph( 'F' ) ) +
+				'</w:tr>' +
+				'<w:tr><w:trPr><w:gridBefore w:val="2"/></w:trPr>' +
+					cell( paragraph( 'G' ), '<w:vMerge/>' ) +
+				'</w:tr>' +
+			'</w:tbl>';
+
+			expect( await read( body ) ).to.equal(
+				'<table><tbody>' +
+					'<tr><td colspan="2"><p>A</p></td><td rowspan="2"><p>B</p></td></tr>' +
+					'<tr><td rowspan="2"><p>C</p></td><td><p>D</p></td></tr>' +
+					'<tr><td><p>E</p></td><td><p>F</p></td></tr>' +
+					'<tr><td><p>G</p></td></tr>' +
+				'</tbody></table>'
+			);
+		} );
+
+		it( 'should convert the heading rows and the cell backgrounds', async () => {
+			const body = '<w:tbl>' +
+				`<w:tr><w:trPr><w:tblHeader/></w:trPr>${ cell( paragraph( 'Foo' ), '<w:shd w:val="clear" w:fill="FFFF00"/>' ) }</w:tr>` +
+				`<w:tr>${ cell( paragraph( 'Bar' ), '<w:shd w:val="clear" w:fill="auto"/>' ) }</w:tr>` +
+				`<w:tr><w:trPr><w:tblHeader/></w:trPr>${ cell( paragraph( 'Baz' ) ) }</w:tr>` +
+			'</w:tbl>';
+
+			expect( await read( body ) ).to.equal(
+				'<table>' +
+					'<thead><tr><th style="background-color:#FFFF00"><p>Foo</p></th></tr></thead>' +
+					'<tbody><tr><td><p>Bar</p></td></tr><tr><td><p>Baz</p></td></tr></tbody>' +
+				'</table>'
+			);
+		} );
+
+		it( 'should convert the table alignment and caption', async () => {
+			const body = '<w:tbl><w:tblPr><w:jc w:val="right"/></w:tblPr>' +
+				`<w:tr>${ cell( paragraph( 'Foo' ) ) }</w:tr>` +
+			'</w:tbl>' +
+			paragraph( 'Bar', '<w:pStyle w:val="Caption"/>' );
+
+			expect( await read( body, { styles: style( 'Caption', 'caption' ) } ) ).to.equal(
+				'<div align="right"><figure class="table">' +
+					'<table><tbody><tr><td><p>Foo</p></td></tr></tbody></table><figcaption>Bar</figcaption>' +
+				'</figure></div>'
+			);
+		} );
+
+		it( 'should convert the nested tables', async () => {
+			const nestedTable = `<w:tbl><w:tr>${ cell( paragraph( 'Bar' ) ) }</w:tr></w:tbl>`;
+			const body = `<w:tbl><w:tr>${ cell( paragraph( 'Foo' ) + nestedTable + '<w:p/>' ) }</w:tr></w:tbl>`;
+
+			expect( await read( body ) ).to.equal(
+				'<table><tbody><tr><td>' +
+					'<p>Foo</p><table><tbody><tr><td><p>Bar</p></td></tr></tbody></table><p></p>' +
+				'</td></tr></tbody></table>'
+			);
+		} );
+	} );
+} );
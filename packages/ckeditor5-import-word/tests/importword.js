@@ -0,0 +1,126 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Blob, File */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import PasteFromOffice from '@ckeditor/ckeditor5-paste-from-office/src/pastefromoffice';
+import ClipboardPipeline from '@ckeditor/ckeditor5-clipboard/src/clipboardpipeline';
+import Notification from '@ckeditor/ckeditor5-ui/src/notification/notification';
+import FileDialogButtonView from '@ckeditor/ckeditor5-upload/src/ui/filedialogbuttonview';
+
+import ImportWord from '../src/importword';
+import ImportWordCommand from '../src/importwordcommand';
+import { DOCX_MIME_TYPE } from '../src/docxreader';
+import { createDocx } from './_utils/utils';
+
+describe( 'ImportWord', () => {
+	let editor, editorElement;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, PasteFromOffice, ImportWord ]
+		} );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+	} );
+
+	it( 'should have a name', () => {
+		expect( ImportWord.pluginName ).to.equal( 'ImportWord' );
+	} );
+
+	it( 'should require ClipboardPipeline, Notification and PasteFromOffice', () => {
+		expect( ImportWord.requires ).to.deep.equal( [ ClipboardPipeline, Notification, 'PasteFromOffice' ] );
+	} );
+
+	it( 'should register the importWord command', () => {
+		expect( editor.commands.get( 'importWord' ) ).to.be.instanceOf( ImportWordCommand );
+	} );
+
+	describe( 'the importWord button', () => {
+		let view, button;
+
+		beforeEach( () => {
+			view = editor.ui.componentFactory.create( 'importWord' );
+			button = view.buttonView;
+		} );
+
+		afterEach( () => {
+			view.destroy();
+		} );
+
+		it( 'should be a file dialog button', () => {
+			expect( view ).to.be.instanceOf( FileDialogButtonView );
+			expect( view.acceptedType ).to.equal( `.docx,${ DOCX_MIME_TYPE }` );
+			expect( view.allowMultipleFiles ).to.be.false;
+		} );
+
+		it( 'should have a label, an icon and a tooltip', () => {
+			expect( button.label ).to.equal( 'Import from Word' );
+			expect( button.icon ).to.match( /<svg / );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should be bound to the command state', () => {
+			const command = editor.commands.get( 'importWord' );
+
+			command.isEnabled = false;
+			expect( button.isEnabled ).to.be.false;
+
+			command.isEnabled = true;
+			expect( button.isEnabled ).to.be.true;
+		} );
+
+		it( 'should execute the command with the chosen file and focus the editing view', () => {
+			const file = new File( [ 'Foo' ], 'document.docx' );
+			const executeStub = sinon.stub( editor, 'execute' ).resolves();
+			const focusSpy = sinon.spy( editor.editing.view, 'focus' );
+
+			view.fire( 'done', [ file ] );
+
+			sinon.assert.calledOnce( executeStub );
+			sinon.assert.calledWithExactly( executeStub, 'importWord', { file } );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should insert the content of the chosen file', async () => {
+			const file = createDocx( '<w:p><w:r><w:t>Foo</w:t></w:r></w:p>' );
+			const executeSpy = sinon.spy( editor, 'execute' );
+
+			view.fire( 'done', [ file ] );
+
+			await executeSpy.firstCall.returnValue;
+
+			expect( editor.getData() ).to.equal( '<p>Foo</p>' );
+		} );
+
+		it( 'should show a warning if the file cannot be imported', async () => {
+			const notification = editor.plugins.get( Notification );
+			const showWarningStub = sinon.stub( notification, 'showWarning' );
+			const executeSpy = sinon.spy( editor, 'execute' );
+
+			view.fire( 'done', [ new Blob( [ 'Foo' ] ) ] );
+
+			await executeSpy.firstCall.returnValue.catch( () => {} );
+			await Promise.resolve();
+
+			sinon.assert.calledOnce( showWarningStub );
+			sinon.assert.calledWithExactly( showWarningStub, 'The Word document could not be imported.', {
+				title: 'Import failed',
+				namespace: 'importWord'
+			} );
+		} );
+	} );
+} );
@@ -0,0 +1,163 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Blob */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import Heading from '@ckeditor/ckeditor5-heading/src/heading';
+import BlockQuote from '@ckeditor/ckeditor5-block-quote/src/blockquote';
+import Bold from '@ckeditor/ckeditor5-basic-styles/src/bold';
+import Italic from '@ckeditor/ckeditor5-basic-styles/src/italic';
+import Link from '@ckeditor/ckeditor5-link/src/link';
+import List from '@ckeditor/ckeditor5-list/src/list';
+import Table from '@ckeditor/ckeditor5-table/src/table';
+import Image from '@ckeditor/ckeditor5-image/src/image';
+import ImageCaption from '@ckeditor/ckeditor5-image/src/imagecaption';
+import PasteFromOffice from '@ckeditor/ckeditor5-paste-from-office/src/pastefromoffice';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import DocxWriter from '@ckeditor/ckeditor5-export-word/src/docxwriter';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import ImportWord from '../src/importword';
+import { createDocx } from './_utils/utils';
+
+describe( 'ImportWordCommand', () => {
+	let editor, editorElement, command;
+
+	beforeEach( async () => {
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [
+				Paragraph, Heading, BlockQuote, Bold, Italic, Link, List, Table, Image, ImageCaption, PasteFromOffice, UndoEditing,
+				ImportWord
+			]
+		} );
+
+		command = editor.commands.get( 'importWord' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true if the selection is in an editable place', () => {
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false if the selection cannot be edited', () => {
+			editor.model.on( 'canEditAt', evt => {
+				evt.return = false;
+				evt.stop();
+			}, { priority: 'highest' } );
+
+			command.refresh();
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should insert the content of the document at the selection', async () => {
+			setModelData( editor.model, '<paragraph>Foo</paragraph><paragraph>[]</paragraph>' );
+
+			await command.execute( { file: createDocx(
+				'<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Bar</w:t></w:r></w:p>' +
+				'<w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Baz</w:t></w:r></w:p>'
+			) } );
+
+			expect( editor.getData() ).to.equal( '<p>Foo</p><h2>Bar</h2><p><strong>Baz</strong></p>' );
+		} );
+
+		it( 'should normalize the content like the content pasted from Word', async () => {
+			const numbering = '<w:abstractNum w:abstractNumId="0">' +
+					'<w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/></w:lvl>' +
+					'<w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/><w:lvlText w:val="o"/></w:lvl>' +
+				'</w:abstractNum>' +
+				'<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>';
+			const listItem = ( text, level ) => '<w:p><w:pPr><w:numPr>' +
+				`<w:ilvl w:val="${ level }"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>${ text }</w:t></w:r>` +
+			'</w:p>';
+
+			const body = listItem( 'Foo', 0 ) + listItem( 'Bar', 1 ) + listItem( 'Baz', 0 );
+
+			await command.execute( { file: createDocx( body, { numbering } ) } );
+
+			expect( editor.getData() ).to.equal(
+				'<ol>' +
+					'<li>Foo' +
+						'<ul><li>Bar</li></ul>' +
+					'</li>' +
+					'<li>Baz</li>' +
+				'</ol>'
+			);
+		} );
+
+		it( 'should insert the content in a single undo step', async () => {
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+
+			await command.execute( { file: createDocx( '<w:p><w:r><w:t>Bar</w:t></w:r></w:p><w:p><w:r><w:t>Baz</w:t></w:r></w:p>' ) } );
+
+			editor.execute( 'undo' );
+
+			expect( getModelData( editor.model ) ).to.equal( '<paragraph>Foo[]</paragraph>' );
+		} );
+
+		it( 'should reject if the file is not a Word document', async () => {
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+
+			try {
+				await command.execute( { file: new Blob( [ 'Bar' ] ) } );
+			} catch ( error ) {
+				expect( error.message ).to.match( /^import-word-invalid-file/ );
+				expect( getModelData( editor.model ) ).to.equal( '<paragraph>Foo[]</paragraph>' );
+
+				return;
+			}
+
+			throw new Error( 'Expected to be rejected.' );
+		} );
+
+		it( 'should not insert the content if the command was disabled while the file was read', async () => {
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+
+			const promise = command.execute( { file: createDocx( '<w:p><w:r><w:t>Bar</w:t></w:r></w:p>' ) } );
+
+			editor.enableReadOnlyMode( 'test' );
+
+			await promise;
+
+			expect( getModelData( editor.model ) ).to.equal( '<paragraph>Foo[]</paragraph>' );
+		} );
+
+		it( 'should import the documents exported to Word', async () => {
+			const data = '<h2>Foo</h2>' +
+				'<p><strong>Bar</strong> <i>baz</i> <a href="https://ckeditor.com">qux</a></p>' +
+				'<blockquote><p>Quote</p></blockquote>' +
+				'<ul><li>One</li><li>Two</li></ul>' +
+				'<figure class="table"><table><tbody><tr><td>A</td><td>B</td></tr></tbody></table></figure>';
+
+			editor.setData( data );
+
+			const file = await new DocxWriter( editor ).write( editor.model.document.getRoot() );
+
+			editor.setData( '' );
+
+			await command.execute( { file } );
+
+			expect( editor.getData() ).to.equal( data );
+		} );
+	} );
+} );
@@ -0,0 +1,33 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	ImportWord as ImportWordDLL,
+	ImportWordCommand as ImportWordCommandDLL,
+	DocxReader as DocxReaderDLL,
+	readZip as readZipDLL
+} from '../src';
+import ImportWord from '../src/importword';
+import ImportWordCommand from '../src/importwordcommand';
+import DocxReader from '../src/docxreader';
+import { readZip } from '../src/unzip';
+
+describe( 'ImportWord DLL', () => {
+	it( 'exports ImportWord', () => {
+		expect( ImportWordDLL ).to.equal( ImportWord );
+	} );
+
+	it( 'exports ImportWordCommand', () => {
+		expect( ImportWordCommandDLL ).to.equal( ImportWordCommand );
+	} );
+
+	it( 'exports DocxReader', () => {
+		expect( DocxReaderDLL ).to.equal( DocxReader );
+	} );
+
+	it( 'exports readZip()', () => {
+		expect( readZipDLL ).to.equal( readZip );
+	} );
+} );
@@ -0,0 +1,78 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global TextDecoder, TextEncoder */
+
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+import { inflate } from '../src/inflate';
+import { deflate } from './_utils/utils';
+
+describe( 'inflate()', () => {
+	const encoder = new TextEncoder();
+	const decoder = new TextDecoder();
+
+	it( 'should decompress a block compressed with fixed Huffman codes', async () => {
+		const data = encoder.encode( 'Hello, hello, hello!' );
+
+		expect( decoder.decode( inflate( await deflate( data ), data.length ) ) ).to.equal( 'Hello, hello, hello!' );
+	} );
+
+	it( 'should decompress blocks compressed with dynamic Huffman codes', async () => {
+		const text = Array.from( { length: 2000 }, ( value, index ) => `Paragraph ${ index } of the document. ` ).join( '' );
+		const data = encoder.encode( text );
+
+		expect( decoder.decode( inflate( await deflate( data ), data.length ) ) ).to.equal( text );
+	} );
+
+	it( 'should decompress binary data', async () => {
+		const data = new Uint8Array( 70000 ).map( ( value, index ) => ( index * 7919 ) % 251 );
+
+		expect( inflate( await deflate( data ), data.length ) ).to.deep.equal( data );
+	} );
+
+	it( 'should copy stored blocks', () => {
+		const compressedData = new Uint8Array( [
+			0x00, 0x02, 0x00, 0xfd, 0xff, 0x61, 0x62,
+			0x01, 0x01, 0x00, 0xfe, 0xff, 0x63
+		] );
+
+		expect( decoder.decode( inflate( compressedData, 3 ) ) ).to.equal( 'abc' );
+	} );
+
+	it( 'should throw if the block type is invalid', () => {
+		expectToThrowCKEditorError( () => {
+			inflate( new Uint8Array( [ 0x07 ] ), 0 );
+		}, 'import-word-invalid-file' );
+	} );
+
+	it( 'should throw if the length of a stored block is invalid', () => {
+		expectToThrowCKEditorError( () => {
+			inflate( new Uint8Array( [ 0x01, 0x01, 0x00, 0x00, 0x00, 0x61 ] ), 1 );
+		}, 'import-word-invalid-file' );
+	} );
+
+	it( 'should throw if the data ends unexpectedly', async () => {
+		const data = encoder.encode( 'Hello, hello, hello!' );
+		const compressedData = await deflate( data );
+
+		expectToThrowCKEditorError( () => {
+			inflate( compressedData.subarray( 0, compressedData.length - 2 ), data.length );
+		}, 'import-word-invalid-file' );
+	} );
+
+	it( 'should throw if the size of the decompressed data is different', async () => {
+		const data = encoder.encode( 'Hello, hello, hello!' );
+		const compressedData = await deflate( data );
+
+		expectToThrowCKEditorError( () => {
+			inflate( compressedData, data.length + 1 );
+		}, 'import-word-invalid-file' );
+
+		expectToThrowCKEditorError( () => {
+			inflate( compressedData, data.length - 1 );
+		}, 'import-word-invalid-file' );
+	} );
+} );
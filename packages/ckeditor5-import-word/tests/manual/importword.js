@@ -0,0 +1,54 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals window, document, console */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+import Alignment from '@ckeditor/ckeditor5-alignment/src/alignment';
+import CodeBlock from '@ckeditor/ckeditor5-code-block/src/codeblock';
+import Font from '@ckeditor/ckeditor5-font/src/font';
+import Highlight from '@ckeditor/ckeditor5-highlight/src/highlight';
+import Underline from '@ckeditor/ckeditor5-basic-styles/src/underline';
+import Strikethrough from '@ckeditor/ckeditor5-basic-styles/src/strikethrough';
+import Subscript from '@ckeditor/ckeditor5-basic-styles/src/subscript';
+import Superscript from '@ckeditor/ckeditor5-basic-styles/src/superscript';
+import ListProperties from '@ckeditor/ckeditor5-list/src/listproperties';
+import PageBreak from '@ckeditor/ckeditor5-page-break/src/pagebreak';
+import PasteFromOffice from '@ckeditor/ckeditor5-paste-from-office/src/pastefromoffice';
+import ExportWord from '@ckeditor/ckeditor5-export-word/src/exportword';
+
+import ImportWord from '../../src/importword';
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [
+			ArticlePluginSet, Alignment, CodeBlock, Font, Highlight, Underline, Strikethrough, Subscript, Superscript,
+			ListProperties, PageBreak, PasteFromOffice, ExportWord, ImportWord
+		],
+		toolbar: [
+			'importWord', 'exportWord', '|', 'heading', '|', 'bold', 'italic', 'underline', 'strikethrough', 'link', '|',
+			'fontFamily', 'fontSize', 'fontColor', 'highlight', 'alignment', '|', 'bulletedList', 'numberedList', 'blockQuote',
+			'codeBlock', 'insertTable', 'pageBreak', '|', 'undo', 'redo'
+		],
+		image: {
+			toolbar: [ 'imageStyle:inline', 'imageStyle:block', 'imageStyle:side', '|', 'imageTextAlternative' ]
+		},
+		table: {
+			contentToolbar: [ 'tableColumn', 'tableRow', 'mergeTableCells' ]
+		},
+		list: {
+			properties: { styles: true, startIndex: true }
+		},
+		exportWord: {
+			fileName: 'sample.docx'
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
@@ -0,0 +1,83 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global TextDecoder */
+
+import { createZip } from '@ckeditor/ckeditor5-export-word/src/zip';
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+import { readZip } from '../src/unzip';
+import { createCompressedZip } from './_utils/utils';
+
+describe( 'readZip()', () => {
+	const decoder = new TextDecoder();
+
+	it( 'should read the stored files', () => {
+		const files = readZip( createZip( [
+			{ name: 'foo.txt', data: 'Foo' },
+			{ name: 'dir/bar.bin', data: new Uint8Array( [ 1, 2, 3 ] ) }
+		] ) );
+
+		expect( Array.from( files.keys() ) ).to.deep.equal( [ 'foo.txt', 'dir/bar.bin' ] );
+		expect( decoder.decode( files.get( 'foo.txt' ) ) ).to.equal( 'Foo' );
+		expect( files.get( 'dir/bar.bin' ) ).to.deep.equal( new Uint8Array( [ 1, 2, 3 ] ) );
+	} );
+
+	it( 'should read the compressed files', async () => {
+		const files = readZip( await createCompressedZip( [
+			{ name: 'foo.txt', data: 'Foo '.repeat( 100 ) },
+			{ name: 'zażółć.txt', data: 'Bar' }
+		] ) );
+
+		expect( decoder.decode( files.get( 'foo.txt' ) ) ).to.equal( 'Foo '.repeat( 100 ) );
+		expect( decoder.decode( files.get( 'zażółć.txt' ) ) ).to.equal( 'Bar' );
+	} );
+
+	it( 'should skip the directories', () => {
+		const files = readZip( createZip( [
+			{ name: 'dir/', data: '' },
+			{ name: 'dir/foo.txt', data: 'Foo' }
+		] ) );
+
+		expect( Array.from( files.keys() ) ).to.deep.equal( [ 'dir/foo.txt' ] );
+	} );
+
+	it( 'should read an archive with a comment', () => {
+		const archive = createZip( [ { name: 'foo.txt', data: 'Foo' } ] );
+		const commentedArchive = new Uint8Array( archive.length + 3 );
+
+		commentedArchive.set( archive );
+		commentedArchive.set( [ 0x61, 0x62, 0x63 ], archive.length );
+		commentedArchive[ archive.length - 2 ] = 3;
+
+		expect( decoder.decode( readZip( commentedArchive ).get( 'foo.txt' ) ) ).to.equal( 'Foo' );
+	} );
+
+	it( 'should throw if the data is not a ZIP archive', () => {
+		expectToThrowCKEditorError( () => {
+			readZip( new Uint8Array( 100 ) );
+		}, 'import-word-invalid-file' );
+	} );
+
+	it( 'should throw if the archive is truncated', () => {
+		const archive = createZip( [ { name: 'foo.txt', data: 'Foo' } ] );
+		const truncatedArchive = new Uint8Array( [ ...archive.subarray( 0, 10 ), ...archive.subarray( archive.length - 22 ) ] );
+
+		expectToThrowCKEditorError( () => {
+			readZip( truncatedArchive );
+		}, 'import-word-invalid-file' );
+	} );
+
+	it( 'should throw if the compression method is not supported', () => {
+		const archive = createZip( [ { name: 'foo.txt', data: 'Foo' } ] );
+		const centralHeaderOffset = 30 + 'foo.txt'.length + 3;
+
+		archive[ centralHeaderOffset + 10 ] = 14;
+
+		expectToThrowCKEditorError( () => {
+			readZip( archive );
+		}, 'import-word-invalid-file' );
+	} );
+} );
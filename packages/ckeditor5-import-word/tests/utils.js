@@ -0,0 +1,36 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+import { escapeHtml, throwInvalidFileError, toBase64 } from '../src/utils';
+
+describe( 'utils', () => {
+	describe( 'escapeHtml()', () => {
+		it( 'should escape the special characters', () => {
+			expect( escapeHtml( '<a href="x">Tom & Jerry\'s</a>' ) ).to.equal( '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry\'s&lt;/a&gt;' );
+		} );
+	} );
+
+	describe( 'toBase64()', () => {
+		it( 'should encode the data', () => {
+			expect( toBase64( new Uint8Array( [ 0x66, 0x6f, 0x6f, 0xff ] ) ) ).to.equal( 'Zm9v/w==' );
+		} );
+
+		it( 'should encode large data', () => {
+			const data = new Uint8Array( 100000 ).fill( 0x61 );
+
+			expect( toBase64( data ) ).to.equal( 'YWFh'.repeat( 33333 ) + 'YQ==' );
+		} );
+	} );
+
+	describe( 'throwInvalidFileError()', () => {
+		it( 'should throw the error', () => {
+			expectToThrowCKEditorError( () => {
+				throwInvalidFileError();
+			}, 'import-word-invalid-file', null );
+		} );
+	} );
+} );
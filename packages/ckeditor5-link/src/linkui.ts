@@ -49,8 +49,13 @@ export default class LinkUI extends Plugin {
 
 	/**
 	 * The form view displayed inside the balloon.
+	 *
+	 * The form is created when the balloon is displayed for the first time. Other features can extend the form
+	 * (for instance using {@link module:link/ui/linkformview~LinkFormView#addChildView}) once the property changes.
+	 *
+	 * @observable
 	 */
-	public formView: LinkFormView & ViewWithCssTransitionDisabler | null = null;
+	declare public formView: LinkFormView & ViewWithCssTransitionDisabler | null;
 
 	/**
 	 * The contextual balloon plugin instance.
@@ -76,6 +81,9 @@ export default class LinkUI extends Plugin {
 	 */
 	public init(): void {
 		const editor = this.editor;
+		const t = editor.t;
+
+		this.set( 'formView', null );
 
 		editor.editing.view.addObserver( ClickObserver );
 
@@ -85,6 +93,15 @@ export default class LinkUI extends Plugin {
 		this._createToolbarLinkButton();
 		this._enableBalloonActivators();
 
+		editor.accessibility.addKeystrokeInfos( {
+			keystrokes: [
+				{
+					label: t( 'Create link' ),
+					keystroke: LINK_KEYSTROKE
+				}
+			]
+		} );
+
 		// Renders a fake visual selection marker on an expanded selection.
 		editor.conversion.for( 'editingDowncast' ).markerToHighlight( {
 			model: VISUAL_SELECTION_MARKER_NAME,
@@ -16,6 +16,7 @@ import {
 	ViewCollection,
 	createLabeledInputText,
 	submitHandler,
+	type FocusableView,
 	type InputTextView
 } from 'ckeditor5/src/ui';
 import {
@@ -82,6 +83,11 @@ export default class LinkFormView extends View {
 	 */
 	private readonly _focusables = new ViewCollection();
 
+	/**
+	 * The views added to the form by {@link #addChildView}.
+	 */
+	private readonly _additionalViews: Array<FocusableView> = [];
+
 	/**
 	 * Helps cycling over {@link #_focusables} in the form.
 	 */
@@ -168,6 +174,7 @@ export default class LinkFormView extends View {
 
 		const childViews = [
 			this.urlInputView,
+			...this._additionalViews,
 			...this._manualDecoratorSwitches,
 			this.saveButtonView,
 			this.cancelButtonView
@@ -202,6 +209,27 @@ export default class LinkFormView extends View {
 		this._focusCycler.focusFirst();
 	}
 
+	/**
+	 * Adds a view to the form, right after the {@link #urlInputView} and the views added before. It allows other
+	 * features to extend the form, for instance with a picker of the link targets they provide.
+	 *
+	 * The view is also registered as focusable, so it can be reached with the keyboard.
+	 *
+	 * @param view The view to add.
+	 */
+	public addChildView( view: FocusableView ): void {
+		const index = this._additionalViews.length + 1;
+
+		this._additionalViews.push( view );
+		this.children.add( view, index );
+
+		// The views are registered as focusable when the form is rendered.
+		if ( this.isRendered ) {
+			this._focusables.add( view, index );
+			this.focusTracker.add( view.element! );
+		}
+	}
+
 	/**
 	 * Creates a labeled input view.
 	 *
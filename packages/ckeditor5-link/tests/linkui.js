@@ -80,6 +80,13 @@ describe( 'LinkUI', () => {
 			expect( linkUIFeature.formView ).to.be.null;
 		} );
 
+		it( 'should add keystroke accessibility info', () => {
+			expect( editor.accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'common' ).keystrokes ).to.deep.include( {
+				label: 'Create link',
+				keystroke: 'Ctrl+K'
+			} );
+		} );
+
 		describe( 'link toolbar button', () => {
 			it( 'should be registered', () => {
 				expect( linkButton ).to.be.instanceOf( ButtonView );
@@ -138,6 +145,21 @@ describe( 'LinkUI', () => {
 			expect( linkUIFeature.formView ).to.be.instanceOf( LinkFormView );
 		} );
 
+		it( 'should fire the #change:formView event before the form is rendered', () => {
+			const spy = sinon.spy();
+
+			linkUIFeature.on( 'change:formView', ( evt, name, formView ) => {
+				spy( formView, formView.isRendered );
+			} );
+
+			setModelData( editor.model, '<paragraph>f[o]o</paragraph>' );
+
+			linkUIFeature._showUI();
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledWithExactly( spy, linkUIFeature.formView, false );
+		} );
+
 		it( 'should not throw if the UI is already visible', () => {
 			setModelData( editor.model, '<paragraph>f[o]o</paragraph>' );
 
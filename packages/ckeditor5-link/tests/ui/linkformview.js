@@ -7,6 +7,7 @@
 
 import LinkFormView from '../../src/ui/linkformview';
 import View from '@ckeditor/ckeditor5-ui/src/view';
+import ButtonView from '@ckeditor/ckeditor5-ui/src/button/buttonview';
 import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
 import KeystrokeHandler from '@ckeditor/ckeditor5-utils/src/keystrokehandler';
 import FocusTracker from '@ckeditor/ckeditor5-utils/src/focustracker';
@@ -214,6 +215,55 @@ describe( 'LinkFormView', () => {
 		} );
 	} );
 
+	describe( 'addChildView()', () => {
+		let childView;
+
+		beforeEach( () => {
+			childView = new ButtonView();
+		} );
+
+		it( 'should add the view after the #urlInputView', () => {
+			view.addChildView( childView );
+
+			expect( view.children.get( 1 ) ).to.equal( childView );
+			expect( view.element.childNodes[ 1 ] ).to.equal( childView.element );
+		} );
+
+		it( 'should add the views in the order of the calls', () => {
+			const otherChildView = new ButtonView();
+
+			view.addChildView( childView );
+			view.addChildView( otherChildView );
+
+			expect( view.children.get( 1 ) ).to.equal( childView );
+			expect( view.children.get( 2 ) ).to.equal( otherChildView );
+			expect( view._focusables.get( 1 ) ).to.equal( childView );
+			expect( view._focusables.get( 2 ) ).to.equal( otherChildView );
+		} );
+
+		it( 'should register the view as focusable when the form is rendered', () => {
+			const spy = sinon.spy( view.focusTracker, 'add' );
+
+			view.addChildView( childView );
+
+			expect( view._focusables.get( 1 ) ).to.equal( childView );
+			sinon.assert.calledWithExactly( spy, childView.element );
+		} );
+
+		it( 'should register the view as focusable once the form is rendered', () => {
+			const view = new LinkFormView( { t: val => val }, { manualDecorators: [] } );
+
+			view.addChildView( childView );
+			view.render();
+
+			expect( view.children.get( 1 ) ).to.equal( childView );
+			expect( view._focusables.get( 1 ) ).to.equal( childView );
+			expect( view._focusables.length ).to.equal( 4 );
+
+			view.destroy();
+		} );
+	} );
+
 	describe( 'manual decorators', () => {
 		let view, collection, linkCommand;
 
@@ -36,6 +36,7 @@ import type {
 	DocumentListStartCommand,
 	ListReversedCommand,
 	DocumentListReversedCommand,
+	DocumentListMultiLevelCommand,
 	CheckTodoListCommand
 } from '.';
 
@@ -83,6 +84,7 @@ declare module '@ckeditor/ckeditor5-core' {
 		listStyle: ListStyleCommand | DocumentListStyleCommand;
 		listStart: ListStartCommand | DocumentListStartCommand;
 		listReversed: ListReversedCommand | DocumentListReversedCommand;
+		listMultiLevel: DocumentListMultiLevelCommand;
 		todoList: ListCommand;
 		checkTodoList: CheckTodoListCommand;
 	}
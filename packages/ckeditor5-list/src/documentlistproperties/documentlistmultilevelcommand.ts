@@ -0,0 +1,96 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module list/documentlistproperties/documentlistmultilevelcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import { first } from 'ckeditor5/src/utils';
+import {
+	expandListBlocksToCompleteList,
+	isListItemBlock,
+	type ListElement
+} from '../documentlist/utils/model';
+import ListWalker from '../documentlist/utils/listwalker';
+
+/**
+ * The multi-level list command. It changes the `listMultiLevel` attribute of the selected list items,
+ * letting the user to number an ordered list hierarchically, for instance `1.`, `1.1.`, `1.1.1.`.
+ * It is used by the {@link module:list/documentlistproperties~DocumentListProperties list properties feature}.
+ *
+ * The attribute is changed in the top-level numbered list, so the whole list including the nested numbered lists
+ * is numbered the same way.
+ */
+export default class DocumentListMultiLevelCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	declare public value: boolean | null;
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const value = this._getValue();
+
+		this.value = value;
+		this.isEnabled = value != null;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 * @param options.multiLevel Whether the list should be numbered in the multi-level mode.
+	 */
+	public override execute( options: { multiLevel?: boolean } = {} ): void {
+		const model = this.editor.model;
+		const document = model.document;
+
+		let blocks = Array.from( document.selection.getSelectedBlocks() )
+			.filter( block => isListItemBlock( block ) && block.getAttribute( 'listType' ) == 'numbered' )
+			.map( block => getMultiLevelListRoot( block as ListElement ) );
+
+		blocks = expandListBlocksToCompleteList( blocks );
+
+		model.change( writer => {
+			for ( const block of blocks ) {
+				writer.setAttribute( 'listMultiLevel', !!options.multiLevel, block );
+			}
+		} );
+	}
+
+	/**
+	 * Checks the command's {@link #value}.
+	 */
+	private _getValue() {
+		const model = this.editor.model;
+		const document = model.document;
+
+		const block = first( document.selection.getSelectedBlocks() );
+
+		if ( isListItemBlock( block ) && block.getAttribute( 'listType' ) == 'numbered' ) {
+			return block.getAttribute( 'listMultiLevel' ) as boolean;
+		}
+
+		return null;
+	}
+}
+
+/**
+ * Returns the block of the top-level numbered list that contains the given numbered list block. The numbered lists nested
+ * in the numbered list items belong to the same multi-level list.
+ */
+function getMultiLevelListRoot( block: ListElement ): ListElement {
+	let parentBlock = ListWalker.first( block, { lowerIndent: true } );
+
+	while ( parentBlock && parentBlock.getAttribute( 'listType' ) == 'numbered' ) {
+		block = parentBlock;
+		parentBlock = ListWalker.first( block, { lowerIndent: true } );
+	}
+
+	return block;
+}
@@ -8,6 +8,7 @@
  */
 
 import { Plugin, type Editor } from 'ckeditor5/src/core';
+import { createElement, global, uid, type CollectionAddEvent } from 'ckeditor5/src/utils';
 
 import type {
 	Consumables,
@@ -15,7 +16,8 @@ import type {
 	Element,
 	Item,
 	UpcastElementEvent,
-	ViewElement
+	ViewElement,
+	ViewRootEditableElement
 } from 'ckeditor5/src/engine';
 
 import DocumentListEditing, {
@@ -27,6 +29,7 @@ import DocumentListEditing, {
 import DocumentListStartCommand from './documentliststartcommand';
 import DocumentListStyleCommand from './documentliststylecommand';
 import DocumentListReversedCommand from './documentlistreversedcommand';
+import DocumentListMultiLevelCommand from './documentlistmultilevelcommand';
 import { listPropertiesUpcastConverter } from './converters';
 import {
 	getAllSupportedStyleTypes,
@@ -34,20 +37,29 @@ import {
 	getListStyleTypeFromTypeAttribute,
 	getTypeAttributeFromListStyleType
 } from './utils/style';
+import { MULTI_LEVEL_LIST_CLASS, getMultiLevelListStyles } from './utils/multilevel';
 import DocumentListPropertiesUtils from './documentlistpropertiesutils';
 
 import type { DocumentListIndentCommandAfterExecuteEvent } from '../documentlist/documentlistindentcommand';
 import type { ListPropertiesConfig } from '../listconfig';
 
+import '../../theme/documentlistmultilevel.css';
+
 const DEFAULT_LIST_TYPE = 'default';
 
 /**
  * The document list properties engine feature.
  *
- * It registers the `'listStyle'`, `'listReversed'` and `'listStart'` commands if they are enabled in the configuration.
+ * It registers the `'listStyle'`, `'listReversed'`, `'listStart'` and `'listMultiLevel'` commands if they are enabled
+ * in the configuration.
  * Read more in {@link module:list/listconfig~ListPropertiesConfig}.
  */
 export default class DocumentListPropertiesEditing extends Plugin {
+	/**
+	 * The element with the styles of the configured formats of the multi-level list markers.
+	 */
+	private _multiLevelStyleElement: HTMLStyleElement | null = null;
+
 	/**
 	 * @inheritDoc
 	 */
@@ -72,7 +84,8 @@ export default class DocumentListPropertiesEditing extends Plugin {
 			properties: {
 				styles: true,
 				startIndex: false,
-				reversed: false
+				reversed: false,
+				multiLevel: false
 			}
 		} );
 	}
@@ -227,6 +240,87 @@ export default class DocumentListPropertiesEditing extends Plugin {
 				}
 			}
 		} );
+
+		if ( enabledProperties.multiLevel ) {
+			this._setupMultiLevelLists();
+		}
+	}
+
+	/**
+	 * Makes sure that the numbered lists nested in the multi-level lists are numbered in the multi-level mode, too,
+	 * and adds the styles of the configured formats of the multi-level list markers to the page.
+	 */
+	private _setupMultiLevelLists() {
+		const editor = this.editor;
+		const documentListEditing = editor.plugins.get( DocumentListEditing );
+		const multiLevelConfig = editor.config.get( 'list.properties.multiLevel' );
+
+		// The numbered list nested in a numbered list item inherits the mode of the parent list.
+		documentListEditing.on<DocumentListEditingPostFixerEvent>( 'postFixer', ( evt, { listNodes, writer } ) => {
+			const parentNodesByIndent = []; // Last seen nodes of lower indented lists.
+
+			for ( const { node } of listNodes ) {
+				const nodeIndent = node.getAttribute( 'listIndent' );
+
+				parentNodesByIndent[ nodeIndent ] = node;
+				parentNodesByIndent.length = nodeIndent + 1;
+
+				if ( !nodeIndent || node.getAttribute( 'listType' ) != 'numbered' ) {
+					continue;
+				}
+
+				const parentNode = parentNodesByIndent[ nodeIndent - 1 ];
+
+				if ( !parentNode || parentNode.getAttribute( 'listType' ) != 'numbered' ) {
+					continue;
+				}
+
+				const value = parentNode.getAttribute( 'listMultiLevel' );
+
+				if ( node.getAttribute( 'listMultiLevel' ) != value ) {
+					writer.setAttribute( 'listMultiLevel', value, node );
+					evt.return = true;
+				}
+			}
+		} );
+
+		// The default formats are styled by the content styles of the feature. The configured formats are scoped
+		// to the editing roots of this editor so they do not affect other editors on the same page.
+		if ( typeof multiLevelConfig == 'object' && multiLevelConfig.levels ) {
+			const view = editor.editing.view;
+			const scopeClass = `ck-multi-level-list_${ uid() }`;
+			const addScopeClass = ( root: ViewRootEditableElement ) => {
+				view.change( writer => writer.addClass( scopeClass, root ) );
+			};
+
+			for ( const root of view.document.roots ) {
+				addScopeClass( root );
+			}
+
+			// The roots can be added later, for instance, in the multi-root editor.
+			this.listenTo<CollectionAddEvent<ViewRootEditableElement>>( view.document.roots, 'add', ( evt, root ) => {
+				addScopeClass( root );
+			} );
+
+			const styleElement = createElement( global.document, 'style', {}, [
+				getMultiLevelListStyles( multiLevelConfig.levels, `.ck-content.${ scopeClass }` )
+			] );
+
+			global.document.head.appendChild( styleElement );
+
+			this._multiLevelStyleElement = styleElement;
+		}
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		if ( this._multiLevelStyleElement ) {
+			this._multiLevelStyleElement.remove();
+		}
 	}
 }
 
@@ -425,6 +519,38 @@ function createAttributeStrategies( enabledProperties: ListPropertiesConfig ) {
 		} );
 	}
 
+	if ( enabledProperties.multiLevel ) {
+		strategies.push( {
+			attributeName: 'listMultiLevel',
+			defaultValue: false,
+			viewConsumables: { classes: MULTI_LEVEL_LIST_CLASS },
+
+			addCommand( editor ) {
+				editor.commands.add( 'listMultiLevel', new DocumentListMultiLevelCommand( editor ) );
+			},
+
+			appliesToListItem( item ) {
+				return item.getAttribute( 'listType' ) == 'numbered';
+			},
+
+			hasValidAttribute( item ) {
+				return this.appliesToListItem( item ) == item.hasAttribute( 'listMultiLevel' );
+			},
+
+			setAttributeOnDowncast( writer, listMultiLevel, element ) {
+				if ( listMultiLevel ) {
+					writer.addClass( MULTI_LEVEL_LIST_CLASS, element );
+				} else {
+					writer.removeClass( MULTI_LEVEL_LIST_CLASS, element );
+				}
+			},
+
+			getAttributeOnUpcast( listParent ) {
+				return listParent.hasClass( MULTI_LEVEL_LIST_CLASS );
+			}
+		} );
+	}
+
 	return strategies;
 }
 
@@ -433,6 +559,7 @@ declare module '../documentlist/documentlistediting' {
 		listStyle?: string;
 		listStart?: number;
 		listReversed?: boolean;
+		listMultiLevel?: boolean;
 	}
 }
 
@@ -440,6 +567,6 @@ declare module '../documentlist/utils/model' {
 	interface ListElement {
 		getAttribute( key: 'listStyle' ): string;
 		getAttribute( key: 'listStart' ): number;
-		getAttribute( key: 'listReversed' ): boolean;
+		getAttribute( key: 'listReversed' | 'listMultiLevel' ): boolean;
 	}
 }
@@ -0,0 +1,116 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module list/documentlistproperties/utils/multilevel
+ */
+
+import type { ListMultiLevelFormat } from '../../listconfig';
+
+/**
+ * The class of the `<ol>` elements numbered in the multi-level mode.
+ */
+export const MULTI_LEVEL_LIST_CLASS = 'multi-level-list';
+
+/**
+ * The maximal number of levels of the multi-level lists that can be referenced by the markers (`%1` to `%9`).
+ */
+const MAX_LEVELS = 9;
+
+/**
+ * Returns the default formats of the multi-level lists: the decimal numbers separated by dots at all levels,
+ * for instance `1.`, `1.1.` and `1.1.1.`.
+ */
+export function getDefaultMultiLevelFormats(): Array<ListMultiLevelFormat> {
+	const formats: Array<ListMultiLevelFormat> = [];
+
+	for ( let level = 1; level <= MAX_LEVELS; level++ ) {
+		const placeholders = [];
+
+		for ( let index = 1; index <= level; index++ ) {
+			placeholders.push( `%${ index }.` );
+		}
+
+		formats.push( { style: 'decimal', marker: placeholders.join( '' ) } );
+	}
+
+	return formats;
+}
+
+/**
+ * Creates the styles of the multi-level lists with the given formats of markers. The markers are rendered using CSS counters,
+ * one counter for each level of the list.
+ *
+ * ```ts
+ * const styles = getMultiLevelListStyles( [
+ * 	{ style: 'upper-roman', marker: '%1.' },
+ * 	{ style: 'decimal', marker: '%1.%2.' }
+ * ] );
+ * ```
+ *
+ * The styles can be used to display the content created in the editor outside the editor with the same markers.
+ * The data output of the editor contains only the class of the multi-level lists, so the styles must be added
+ * to the page that displays the data.
+ *
+ * @param formats The formats of the list levels.
+ * @param rootSelector The selector of the element containing the lists the styles apply to.
+ * @returns The CSS text of the multi-level lists.
+ */
+export function getMultiLevelListStyles( formats: Array<ListMultiLevelFormat>, rootSelector: string = '.ck-content' ): string {
+	const rules = [];
+
+	for ( let level = 1; level <= Math.min( formats.length, MAX_LEVELS ); level++ ) {
+		const listSelector = rootSelector + ' ' + new Array( level ).fill( `ol.${ MULTI_LEVEL_LIST_CLASS }` ).join( ' ' );
+		const counterName = getCounterName( level );
+
+		rules.push(
+			`${ listSelector } { counter-reset: ${ counterName }; }`,
+			`${ listSelector } > li { counter-increment: ${ counterName }; }`,
+			`${ listSelector } > li::marker { content: ${ getMarkerContent( formats, level ) }; }`
+		);
+	}
+
+	return rules.join( '\n' );
+}
+
+/**
+ * Returns the name of the CSS counter of the given level.
+ */
+function getCounterName( level: number ): string {
+	return `${ MULTI_LEVEL_LIST_CLASS }-${ level }`;
+}
+
+/**
+ * Returns the value of the `content` property of the markers of the given level.
+ */
+function getMarkerContent( formats: Array<ListMultiLevelFormat>, level: number ): string {
+	const { marker } = formats[ level - 1 ];
+	const content = marker
+		.split( /(%[1-9])/ )
+		.filter( part => part )
+		.map( part => {
+			const match = part.match( /^%([1-9])$/ );
+
+			// The levels that are deeper than the current one are not counted yet, so they are skipped.
+			if ( match ) {
+				const referencedLevel = Number( match[ 1 ] );
+
+				return referencedLevel <= level ?
+					`counter(${ getCounterName( referencedLevel ) }, ${ formats[ referencedLevel - 1 ].style })` : '';
+			}
+
+			return toCssString( part );
+		} )
+		.filter( part => part );
+
+	return [ ...content, '" "' ].join( ' ' );
+}
+
+/**
+ * Converts the text to a CSS string.
+ */
+function toCssString( text: string ): string {
+	return `"${ text.replace( /["\\]/g, '\\$&' ).replace( /</g, '\\3C ' ) }"`;
+}
@@ -27,7 +27,9 @@ export { default as TodoList } from './todolist';
 export { default as TodoListEditing } from './todolist/todolistediting';
 export { default as TodoListUI } from './todolist/todolistui';
 
-export type { ListConfig, ListPropertiesConfig } from './listconfig';
+export { getMultiLevelListStyles } from './documentlistproperties/utils/multilevel';
+
+export type { ListConfig, ListPropertiesConfig, ListPropertiesMultiLevelConfig, ListMultiLevelFormat } from './listconfig';
 export type { default as ListStyle } from './liststyle';
 export type { default as DocumentListCommand } from './documentlist/documentlistcommand';
 export type { default as DocumentListMergeCommand } from './documentlist/documentlistmergecommand';
@@ -35,6 +37,7 @@ export type { default as DocumentListSplitCommand } from './documentlist/documen
 export type { default as DocumentListReversedCommand } from './documentlistproperties/documentlistreversedcommand';
 export type { default as DocumentListStartCommand } from './documentlistproperties/documentliststartcommand';
 export type { default as DocumentListStyleCommand } from './documentlistproperties/documentliststylecommand';
+export type { default as DocumentListMultiLevelCommand } from './documentlistproperties/documentlistmultilevelcommand';
 export type { default as ListCommand } from './list/listcommand';
 export type { default as ListReversedCommand } from './listproperties/listreversedcommand';
 export type { default as ListStartCommand } from './listproperties/liststartcommand';
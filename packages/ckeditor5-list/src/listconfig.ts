@@ -96,6 +96,23 @@ export interface ListPropertiesConfig {
 	 * @default false
 	 */
 	reversed?: boolean;
+
+	/**
+	 * When set, the multi-level list feature will be enabled. It allows numbering the numbered lists hierarchically, for instance
+	 * `1.`, `1.1.`, `1.1.1.`, as it is common in legal and technical documents. The nested numbered lists of a multi-level list
+	 * are numbered in the multi-level mode, too.
+	 *
+	 * The formats of the markers can be configured for each list level ({@link module:list/listconfig~ListPropertiesMultiLevelConfig
+	 * learn more}).
+	 *
+	 * **Note**: This configuration does not affect bulleted and to-do lists.
+	 *
+	 * **Note**: This configuration works only with
+	 * {@link module:list/documentlistproperties~DocumentListProperties document list properties}.
+	 *
+	 * @default false
+	 */
+	multiLevel?: boolean | ListPropertiesMultiLevelConfig;
 }
 
 export interface ListPropertiesStyleConfig {
@@ -129,3 +146,62 @@ export interface ListPropertiesStyleConfig {
 	 */
 	useAttribute?: boolean;
 }
+
+export interface ListPropertiesMultiLevelConfig {
+
+	/**
+	 * The formats of the markers of the multi-level lists. The first format is used by the top-level list, the second one
+	 * by the lists nested in it, and so on. The last format is used by the lists nested deeper than the number of formats.
+	 *
+	 * ```ts
+	 * {
+	 * 	list: {
+	 * 		properties: {
+	 * 			multiLevel: {
+	 * 				levels: [
+	 * 					{ style: 'upper-roman', marker: '%1.' },
+	 * 					{ style: 'decimal', marker: '%1.%2.' },
+	 * 					{ style: 'lower-latin', marker: '%1.%2.%3)' }
+	 * 				]
+	 * 			},
+	 *
+	 * 			// ...
+	 * 		}
+	 * 	},
+	 *
+	 * 	// ...
+	 * }
+	 * ```
+	 *
+	 * The markers are rendered using CSS counters. When the formats are configured, the editor adds the styles of the markers
+	 * to the page, scoped to its own editing roots. The data output contains only the `multi-level-list` class of the lists,
+	 * not the formats. To display the markers outside the editor, add the styles returned by
+	 * {@link module:list/documentlistproperties/utils/multilevel~getMultiLevelListStyles `getMultiLevelListStyles()`}
+	 * to the page displaying the content.
+	 *
+	 * The counters of the multi-level lists always start from `1` and count up, so the `listStart` and `listReversed`
+	 * properties do not affect their markers.
+	 *
+	 * By default, all levels use the decimal numbers separated by dots, for instance `1.2.3.`.
+	 */
+	levels?: Array<ListMultiLevelFormat>;
+}
+
+/**
+ * The format of the markers of a single level of the multi-level lists.
+ */
+export interface ListMultiLevelFormat {
+
+	/**
+	 * The counter style of the level number, for instance `'decimal'`, `'lower-latin'` or `'upper-roman'`.
+	 * It accepts the values of the `list-style-type` CSS property.
+	 */
+	style: string;
+
+	/**
+	 * The template of the marker. The `%1` to `%9` placeholders are replaced with the numbers of the list items
+	 * at the corresponding levels, formatted with the counter styles of these levels. For instance, the `'%1.%2.'` marker
+	 * of the second level renders `3.1.` for the first item of a list nested in the third item of the top-level list.
+	 */
+	marker: string;
+}
@@ -27,6 +27,7 @@ import type ListStartCommand from './liststartcommand';
 import type DocumentListStartCommand from '../documentlistproperties/documentliststartcommand';
 import type ListReversedCommand from './listreversedcommand';
 import type DocumentListReversedCommand from '../documentlistproperties/documentlistreversedcommand';
+import type DocumentListMultiLevelCommand from '../documentlistproperties/documentlistmultilevelcommand';
 
 import bulletedListIcon from '../../theme/icons/bulletedlist.svg';
 import numberedListIcon from '../../theme/icons/numberedlist.svg';
@@ -99,7 +100,7 @@ export default class ListPropertiesUI extends Plugin {
 		// Note: When this plugin does not register the "numberedList" dropdown due to properties configuration,
 		// a simple button will be still registered under the same name by ListUI as a fallback. This should happen
 		// in most editor configuration because the List plugin automatically requires ListUI.
-		if ( enabledProperties.styles || enabledProperties.startIndex || enabledProperties.reversed ) {
+		if ( enabledProperties.styles || enabledProperties.startIndex || enabledProperties.reversed || enabledProperties.multiLevel ) {
 			editor.ui.componentFactory.add( 'numberedList', getDropdownViewCreator( {
 				editor,
 				parentCommandName: 'numberedList',
@@ -311,6 +312,11 @@ function createListPropertiesView( {
 		enabledProperties.reversed = false;
 	}
 
+	// The multi-level lists are supported only by the document lists.
+	if ( parentCommandName != 'numberedList' || !editor.commands.get( 'listMultiLevel' ) ) {
+		enabledProperties.multiLevel = false;
+	}
+
 	if ( enabledProperties.styles ) {
 		const listStyleCommand: ListStyleCommand | DocumentListStyleCommand = editor.commands.get( 'listStyle' )!;
 
@@ -361,6 +367,18 @@ function createListPropertiesView( {
 		} );
 	}
 
+	if ( enabledProperties.multiLevel ) {
+		const listMultiLevelCommand: DocumentListMultiLevelCommand = editor.commands.get( 'listMultiLevel' )!;
+
+		listPropertiesView.multiLevelSwitchButtonView!.bind( 'isEnabled' ).to( listMultiLevelCommand );
+		listPropertiesView.multiLevelSwitchButtonView!.bind( 'isOn' ).to( listMultiLevelCommand, 'value', value => !!value );
+		listPropertiesView.on( 'listMultiLevel', () => {
+			const isMultiLevel = listMultiLevelCommand.value;
+
+			editor.execute( 'listMultiLevel', { multiLevel: !isMultiLevel } );
+		} );
+	}
+
 	// Make sure applying styles closes the dropdown.
 	listPropertiesView.delegate( 'execute' ).to( dropdownView );
 
@@ -35,7 +35,7 @@ import '../../../theme/listproperties.css';
 /**
  * The list properties view to be displayed in the list dropdown.
  *
- * Contains a grid of available list styles and, for numbered list, also the list start index and reversed fields.
+ * Contains a grid of available list styles and, for numbered list, also the list start index, reversed and multi-level fields.
  *
  * @internal
  */
@@ -56,13 +56,14 @@ export default class ListPropertiesView extends View {
 	public readonly stylesView: StylesView | null = null;
 
 	/**
-	 * A collapsible view that hosts additional list property fields ({@link #startIndexFieldView} and
-	 * {@link #reversedSwitchButtonView}) to visually separate them from the {@link #stylesView grid of styles}.
+	 * A collapsible view that hosts additional list property fields ({@link #startIndexFieldView},
+	 * {@link #reversedSwitchButtonView} and {@link #multiLevelSwitchButtonView}) to visually separate them
+	 * from the {@link #stylesView grid of styles}.
 	 *
 	 * **Note**: Only present when:
 	 * * the view represents **numbered** list properties,
 	 * * and the {@link #stylesView} is rendered,
-	 * * and either {@link #startIndexFieldView} or {@link #reversedSwitchButtonView} is rendered.
+	 * * and either {@link #startIndexFieldView}, {@link #reversedSwitchButtonView} or {@link #multiLevelSwitchButtonView} is rendered.
 	 *
 	 * @readonly
 	 */
@@ -86,6 +87,15 @@ export default class ListPropertiesView extends View {
 	 */
 	public reversedSwitchButtonView: SwitchButtonView | null = null;
 
+	/**
+	 * A switch button allowing the user to number the edited list in the multi-level mode.
+	 *
+	 * **Note**: Only present when the view represents **numbered** list properties.
+	 *
+	 * @readonly
+	 */
+	public multiLevelSwitchButtonView: SwitchButtonView | null = null;
+
 	/**
 	 * Tracks information about the DOM focus in the view.
 	 */
@@ -158,7 +168,7 @@ export default class ListPropertiesView extends View {
 
 		// The rendering of the numbered list property views is also conditional. It only makes sense for the numbered list
 		// dropdown. The unordered list does not have such properties.
-		if ( enabledProperties.startIndex || enabledProperties.reversed ) {
+		if ( enabledProperties.startIndex || enabledProperties.reversed || enabledProperties.multiLevel ) {
 			this._addNumberedListPropertyViews( enabledProperties );
 
 			elementCssClasses.push( 'ck-list-properties_with-numbered-properties' );
@@ -184,7 +194,7 @@ export default class ListPropertiesView extends View {
 			this.focusTracker.add( this.stylesView.element! );
 
 			// Register the collapsible toggle button to the focus system.
-			if ( this.startIndexFieldView || this.reversedSwitchButtonView ) {
+			if ( this.startIndexFieldView || this.reversedSwitchButtonView || this.multiLevelSwitchButtonView ) {
 				this.focusables.add( ( this.children.last as any ).buttonView );
 				this.focusTracker.add( ( this.children.last as any ).buttonView.element );
 			}
@@ -228,6 +238,11 @@ export default class ListPropertiesView extends View {
 			this.focusTracker.add( this.reversedSwitchButtonView.element! );
 		}
 
+		if ( this.multiLevelSwitchButtonView ) {
+			this.focusables.add( this.multiLevelSwitchButtonView );
+			this.focusTracker.add( this.multiLevelSwitchButtonView.element! );
+		}
+
 		// Start listening for the keystrokes coming from #element.
 		this.keystrokes.listenTo( this.element! );
 	}
@@ -297,7 +312,8 @@ export default class ListPropertiesView extends View {
 	}
 
 	/**
-	 * Renders {@link #startIndexFieldView} and/or {@link #reversedSwitchButtonView} depending on the configuration of the properties view.
+	 * Renders {@link #startIndexFieldView}, {@link #reversedSwitchButtonView} and/or {@link #multiLevelSwitchButtonView} depending
+	 * on the configuration of the properties view.
 	 *
 	 * @param enabledProperties An object containing the configuration of enabled list property names
 	 * (see {@link #constructor}).
@@ -316,6 +332,11 @@ export default class ListPropertiesView extends View {
 			numberedPropertyViews.push( this.reversedSwitchButtonView );
 		}
 
+		if ( enabledProperties.multiLevel ) {
+			this.multiLevelSwitchButtonView = this._createMultiLevelSwitchButton();
+			numberedPropertyViews.push( this.multiLevelSwitchButtonView );
+		}
+
 		// When there are some style buttons, pack the numbered list properties into a collapsible to separate them.
 		if ( enabledProperties.styles ) {
 			this.additionalPropertiesCollapsibleView = new CollapsibleView( this.locale, numberedPropertyViews );
@@ -396,6 +417,24 @@ export default class ListPropertiesView extends View {
 
 		return reversedButtonView;
 	}
+
+	/**
+	 * Creates the multi-level list switch button.
+	 */
+	private _createMultiLevelSwitchButton() {
+		const t = this.locale.t;
+		const multiLevelButtonView = new SwitchButtonView( this.locale );
+
+		multiLevelButtonView.set( {
+			withText: true,
+			label: t( 'Multi-level numbering' ),
+			class: 'ck-numbered-list-properties__multi-level'
+		} );
+
+		multiLevelButtonView.delegate( 'execute' ).to( this, 'listMultiLevel' );
+
+		return multiLevelButtonView;
+	}
 }
 
 export type StylesView = View & {
@@ -424,3 +463,13 @@ export type ListPropertiesViewListReversedEvent = {
 	name: 'listReversed';
 	args: [];
 };
+
+/**
+ * Fired when the multi-level mode of the list has changed via {@link ~ListPropertiesView#multiLevelSwitchButtonView}.
+ *
+ * @eventName ~ListPropertiesView#listMultiLevel
+ */
+export type ListPropertiesViewListMultiLevelEvent = {
+	name: 'listMultiLevel';
+	args: [];
+};
@@ -268,7 +268,7 @@ export function modelList( lines, { ignoreIdConflicts = false } = {} ) {
 					listItemId: String( idx ).padStart( 3, '0' )
 				};
 
-				content = content.replace( /\s*{(?:(id|style|start|reversed):)([^}]+)}\s*/g, ( match, key, value ) => {
+				content = content.replace( /\s*{(?:(id|style|start|reversed|multiLevel):)([^}]+)}\s*/g, ( match, key, value ) => {
 					switch ( key ) {
 						case 'id':
 							props.listItemId = value;
@@ -282,6 +282,9 @@ export function modelList( lines, { ignoreIdConflicts = false } = {} ) {
 						case 'reversed':
 							props.listReversed = value;
 							break;
+						case 'multiLevel':
+							props.listMultiLevel = value;
+							break;
 					}
 
 					return '';
@@ -0,0 +1,183 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Editor from '@ckeditor/ckeditor5-core/src/editor/editor';
+import Model from '@ckeditor/ckeditor5-engine/src/model/model';
+import { setData, getData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import DocumentListMultiLevelCommand from '../../src/documentlistproperties/documentlistmultilevelcommand';
+import { modelList } from '../documentlist/_utils/utils';
+
+describe( 'DocumentListMultiLevelCommand', () => {
+	let editor, model, listMultiLevelCommand;
+
+	beforeEach( async () => {
+		editor = new Editor();
+
+		await editor.initPlugins();
+
+		editor.model = new Model();
+
+		model = editor.model;
+		model.document.createRoot();
+
+		model.schema.register( 'paragraph', { inheritAllFrom: '$block' } );
+		model.schema.extend( '$container', { allowAttributes: [ 'listType', 'listIndent', 'listItemId', 'listMultiLevel' ] } );
+		model.schema.extend( '$block', { allowAttributes: [ 'listType', 'listIndent', 'listItemId', 'listMultiLevel' ] } );
+		model.schema.extend( '$blockObject', { allowAttributes: [ 'listType', 'listIndent', 'listItemId', 'listMultiLevel' ] } );
+
+		listMultiLevelCommand = new DocumentListMultiLevelCommand( editor );
+
+		editor.commands.add( 'listMultiLevel', listMultiLevelCommand );
+	} );
+
+	describe( '#isEnabled', () => {
+		it( 'should be false if selected a paragraph', () => {
+			setData( model, modelList( [ 'Foo[]' ] ) );
+
+			expect( listMultiLevelCommand.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false if selection is inside a listItem (listType: bulleted)', () => {
+			setData( model, modelList( [ '* Foo[]' ] ) );
+
+			expect( listMultiLevelCommand.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be true if selection is inside a listItem (listType: numbered)', () => {
+			setData( model, modelList( [ '# Foo[] {multiLevel:false}' ] ) );
+
+			expect( listMultiLevelCommand.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( '#value', () => {
+		it( 'should return null if selected a paragraph', () => {
+			setData( model, modelList( [ 'Foo[]' ] ) );
+
+			expect( listMultiLevelCommand.value ).to.be.null;
+		} );
+
+		it( 'should return null if selection is inside a listItem (listType: bulleted)', () => {
+			setData( model, modelList( [ '* Foo[]' ] ) );
+
+			expect( listMultiLevelCommand.value ).to.be.null;
+		} );
+
+		it( 'should return the value of `listMultiLevel` attribute if selection is inside a list item', () => {
+			setData( model, modelList( [ '# Foo[] {multiLevel:true}' ] ) );
+
+			expect( listMultiLevelCommand.value ).to.be.true;
+
+			setData( model, modelList( [ '# Foo[] {multiLevel:false}' ] ) );
+
+			expect( listMultiLevelCommand.value ).to.be.false;
+		} );
+
+		it( 'should return the value of `listMultiLevel` attribute for the selection inside a nested list', () => {
+			setData( model, modelList( `
+				# 1. {multiLevel:true}
+				  # 1.1.[] {multiLevel:true}
+				# 2.
+			` ) );
+
+			expect( listMultiLevelCommand.value ).to.be.true;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should set the `listMultiLevel` attribute for collapsed selection', () => {
+			setData( model, modelList( [ '# 1.[] {multiLevel:false}' ] ) );
+
+			listMultiLevelCommand.execute( { multiLevel: true } );
+
+			expect( getData( model ) ).to.equalMarkup( modelList( [ '# 1.[] {multiLevel:true}' ] ) );
+
+			listMultiLevelCommand.execute( { multiLevel: false } );
+
+			expect( getData( model ) ).to.equalMarkup( modelList( [ '# 1.[] {multiLevel:false}' ] ) );
+		} );
+
+		it( 'should set the `listMultiLevel` attribute for all the same list items', () => {
+			setData( model, modelList( `
+				# 1. {multiLevel:false}
+				# 2.[]
+				# 3.
+			` ) );
+
+			listMultiLevelCommand.execute( { multiLevel: true } );
+
+			expect( getData( model ) ).to.equalMarkup( modelList( `
+				# 1. {multiLevel:true}
+				# 2.[]
+				# 3.
+			` ) );
+		} );
+
+		it( 'should set the `listMultiLevel` attribute in the top-level numbered list (selection in nested list)', () => {
+			setData( model, modelList( `
+				# 1. {multiLevel:false}
+				# 2.
+				  # 2.1. {multiLevel:false}
+				    # 2.1.1.[] {multiLevel:false}
+				# 3.
+			` ) );
+
+			listMultiLevelCommand.execute( { multiLevel: true } );
+
+			expect( getData( model ) ).to.equalMarkup( modelList( `
+				# 1. {multiLevel:true}
+				# 2.
+				  # 2.1. {multiLevel:false}
+				    # 2.1.1.[] {multiLevel:false}
+				# 3.
+			` ) );
+		} );
+
+		it( 'should set the `listMultiLevel` attribute in the numbered list nested in a bulleted list', () => {
+			setData( model, modelList( `
+				* 1.
+				  # 1.1. {multiLevel:false}
+				  # 1.2.[]
+				* 2.
+			` ) );
+
+			listMultiLevelCommand.execute( { multiLevel: true } );
+
+			expect( getData( model ) ).to.equalMarkup( modelList( `
+				* 1.
+				  # 1.1. {multiLevel:true}
+				  # 1.2.[]
+				* 2.
+			` ) );
+		} );
+
+		it( 'should not change the following list of a different type', () => {
+			setData( model, modelList( `
+				Foo.
+				# 1.[] {multiLevel:false}
+				# 2.
+				* 1.
+			` ) );
+
+			listMultiLevelCommand.execute( { multiLevel: true } );
+
+			expect( getData( model ) ).to.equalMarkup( modelList( `
+				Foo.
+				# 1.[] {multiLevel:true}
+				# 2.
+				* 1.
+			` ) );
+		} );
+
+		it( 'should use `false` value if not specified', () => {
+			setData( model, modelList( [ '# 1.[] {multiLevel:true}' ] ) );
+
+			listMultiLevelCommand.execute();
+
+			expect( getData( model ) ).to.equalMarkup( modelList( [ '# 1.[] {multiLevel:false}' ] ) );
+		} );
+	} );
+} );
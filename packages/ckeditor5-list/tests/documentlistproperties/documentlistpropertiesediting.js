@@ -3,12 +3,16 @@
  * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
  */
 
+/* global document */
+
 import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
 import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
 import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
 import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
 import { getData, setData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
 import DocumentListPropertiesEditing from '../../src/documentlistproperties/documentlistpropertiesediting';
+import DocumentListMultiLevelCommand from '../../src/documentlistproperties/documentlistmultilevelcommand';
+import { getMultiLevelListStyles } from '../../src/documentlistproperties/utils/multilevel';
 import { modelList } from '../documentlist/_utils/utils';
 import stubUid from '../documentlist/_utils/uid';
 
@@ -37,7 +41,8 @@ describe( 'DocumentListPropertiesEditing', () => {
 				properties: {
 					styles: true,
 					startIndex: false,
-					reversed: false
+					reversed: false,
+					multiLevel: false
 				}
 			} );
 		} );
@@ -933,4 +938,300 @@ describe( 'DocumentListPropertiesEditing', () => {
 			} );
 		} );
 	} );
+
+	describe( 'listMultiLevel', () => {
+		beforeEach( async () => {
+			editor = await VirtualTestEditor.create( {
+				plugins: [ Paragraph, DocumentListPropertiesEditing, UndoEditing ],
+				list: {
+					properties: { styles: false, startIndex: false, reversed: false, multiLevel: true }
+				}
+			} );
+
+			model = editor.model;
+
+			stubUid();
+		} );
+
+		afterEach( () => {
+			return editor.destroy();
+		} );
+
+		describe( 'command', () => {
+			it( 'should register `listMultiLevel` command', () => {
+				expect( editor.commands.get( 'listMultiLevel' ) ).to.be.instanceOf( DocumentListMultiLevelCommand );
+			} );
+
+			it( 'should not register `listMultiLevel` command if not enabled in the configuration', async () => {
+				const editor = await VirtualTestEditor.create( {
+					plugins: [ Paragraph, DocumentListPropertiesEditing ]
+				} );
+
+				expect( editor.commands.get( 'listMultiLevel' ) ).to.be.undefined;
+
+				await editor.destroy();
+			} );
+		} );
+
+		describe( 'schema rules', () => {
+			it( 'should allow set `listMultiLevel` on the `paragraph`', () => {
+				expect( model.schema.checkAttribute( [ '$root', 'paragraph' ], 'listMultiLevel' ) ).to.be.true;
+			} );
+		} );
+
+		describe( 'post-fixer', () => {
+			it( 'should ensure that all item in a single list have the same `listMultiLevel` attribute', () => {
+				setData( model, modelList( `
+					# 1. {multiLevel:true}
+					# 2. {multiLevel:false}
+					# 3.
+				` ) );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equalMarkup( modelList( `
+					# 1. {multiLevel:true}
+					# 2.
+					# 3.
+				` ) );
+			} );
+
+			it( 'should set the `listMultiLevel` attribute of the nested numbered lists to the value of the parent list', () => {
+				setData( model, modelList( `
+					# 1. {multiLevel:true}
+					  # 1.1. {multiLevel:false}
+					    # 1.1.1. {multiLevel:false}
+					# 2.
+					  # 2.1. {multiLevel:false}
+				` ) );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equalMarkup( modelList( `
+					# 1. {multiLevel:true}
+					  # 1.1. {multiLevel:true}
+					    # 1.1.1. {multiLevel:true}
+					# 2.
+					  # 2.1. {multiLevel:true}
+				` ) );
+			} );
+
+			it( 'should not change the `listMultiLevel` attribute of the numbered lists nested in a bulleted list', () => {
+				setData( model, modelList( `
+					* 1.
+					  # 1.1. {multiLevel:true}
+					    # 1.1.1. {multiLevel:false}
+					* 2.
+					  # 2.1. {multiLevel:false}
+				` ) );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equalMarkup( modelList( `
+					* 1.
+					  # 1.1. {multiLevel:true}
+					    # 1.1.1. {multiLevel:true}
+					* 2.
+					  # 2.1. {multiLevel:false}
+				` ) );
+			} );
+
+			it( 'should update the nested lists after the `listMultiLevel` attribute of the top-level list is changed', () => {
+				setData( model, modelList( `
+					# 1. {multiLevel:false}
+					  # 1.1.
+					# 2.
+				` ) );
+
+				editor.execute( 'listMultiLevel', { multiLevel: true } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equalMarkup( modelList( `
+					# 1. {multiLevel:true}
+					  # 1.1. {multiLevel:true}
+					# 2.
+				` ) );
+			} );
+
+			it( 'should not set the `listMultiLevel` attribute on the bulleted list items', () => {
+				setData( model, modelList( `
+					* 1. {multiLevel:true}
+					  * 1.1.
+				` ) );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equalMarkup( modelList( `
+					* 1.
+					  * 1.1.
+				` ) );
+			} );
+		} );
+
+		describe( 'conversion', () => {
+			describe( 'upcast', () => {
+				it( 'should upcast the `multi-level-list` class to `listMultiLevel` property', () => {
+					editor.setData(
+						'<ol class="multi-level-list">' +
+							'<li>Foo' +
+								'<ol class="multi-level-list"><li>Bar</li></ol>' +
+							'</li>' +
+						'</ol>'
+					);
+
+					expect( getData( model, { withoutSelection: true } ) ).to.equalMarkup( modelList( `
+						# Foo {id:a01} {multiLevel:true}
+						  # Bar {id:a00} {multiLevel:true}
+					` ) );
+				} );
+
+				it( 'should upcast the `listMultiLevel` property of the nested list from the parent list', () => {
+					editor.setData(
+						'<ol class="multi-level-list">' +
+							'<li>Foo' +
+								'<ol><li>Bar</li></ol>' +
+							'</li>' +
+						'</ol>'
+					);
+
+					expect( getData( model, { withoutSelection: true } ) ).to.equalMarkup( modelList( `
+						# Foo {id:a01} {multiLevel:true}
+						  # Bar {id:a00} {multiLevel:true}
+					` ) );
+				} );
+
+				it( 'should upcast the list without the class to `listMultiLevel` property set to false', () => {
+					editor.setData( '<ol><li>Foo</li></ol>' );
+
+					expect( getData( model, { withoutSelection: true } ) ).to.equalMarkup( modelList( `
+						# Foo {id:a00} {multiLevel:false}
+					` ) );
+				} );
+			} );
+
+			describe( 'downcast', () => {
+				it( 'should downcast the `listMultiLevel` property to the `multi-level-list` class', () => {
+					setData( model, modelList( `
+						# Foo {multiLevel:true}
+						  # Bar
+					` ) );
+
+					expect( editor.getData() ).to.equal(
+						'<ol class="multi-level-list">' +
+							'<li>Foo' +
+								'<ol class="multi-level-list"><li>Bar</li></ol>' +
+							'</li>' +
+						'</ol>'
+					);
+				} );
+
+				it( 'should not add the `multi-level-list` class if the list is not a multi-level list', () => {
+					setData( model, modelList( `
+						# Foo {multiLevel:false}
+					` ) );
+
+					expect( editor.getData() ).to.equal( '<ol><li>Foo</li></ol>' );
+				} );
+
+				it( 'should remove the `multi-level-list` class in the editing view', () => {
+					setData( model, modelList( `
+						# Foo {multiLevel:true}
+					` ) );
+
+					editor.execute( 'listMultiLevel', { multiLevel: false } );
+
+					expect( editor.getData() ).to.equal( '<ol><li>Foo</li></ol>' );
+				} );
+			} );
+		} );
+
+		describe( 'indenting lists', () => {
+			it( 'should set the `listMultiLevel` attribute of the indented item to the value of the parent list', () => {
+				setData( model, modelList( `
+					# 1. {multiLevel:true}
+					# 2.[]
+				` ) );
+
+				editor.execute( 'indentList' );
+
+				expect( getData( model ) ).to.equalMarkup( modelList( `
+					# 1. {multiLevel:true}
+					  # 2.[] {multiLevel:true}
+				` ) );
+			} );
+		} );
+
+		describe( 'styles of the configured formats', () => {
+			it( 'should not add the styles if the formats are not configured', () => {
+				expect( Array.from( document.head.querySelectorAll( 'style' ) ).some(
+					style => style.textContent.includes( 'multi-level-list-1' )
+				) ).to.be.false;
+			} );
+
+			it( 'should add the styles of the configured formats to the page and remove them on destroy', async () => {
+				const editor = await VirtualTestEditor.create( {
+					plugins: [ Paragraph, DocumentListPropertiesEditing ],
+					list: {
+						properties: {
+							multiLevel: {
+								levels: [ { style: 'upper-roman', marker: '%1.' } ]
+							}
+						}
+					}
+				} );
+
+				const styleElement = Array.from( document.head.querySelectorAll( 'style' ) ).find(
+					style => style.textContent.includes( 'multi-level-list-1' )
+				);
+
+				expect( styleElement.textContent ).to.include( 'counter(multi-level-list-1, upper-roman) "."' );
+
+				await editor.destroy();
+
+				expect( styleElement.parentNode ).to.be.null;
+			} );
+
+			it( 'should scope the styles of the configured formats to the editing roots of the editor', async () => {
+				const editorA = await createEditorWithLevels( [ { style: 'upper-roman', marker: '%1.' } ] );
+				const editorB = await createEditorWithLevels( [ { style: 'lower-latin', marker: '%1)' } ] );
+
+				const scopeClassA = getScopeClass( editorA );
+				const scopeClassB = getScopeClass( editorB );
+
+				expect( scopeClassA ).to.match( /^ck-multi-level-list_/ );
+				expect( scopeClassB ).to.match( /^ck-multi-level-list_/ );
+				expect( scopeClassA ).to.not.equal( scopeClassB );
+
+				const styles = Array.from( document.head.querySelectorAll( 'style' ) ).map( style => style.textContent );
+
+				expect( styles ).to.include.members( [
+					getMultiLevelListStyles( [ { style: 'upper-roman', marker: '%1.' } ], `.ck-content.${ scopeClassA }` ),
+					getMultiLevelListStyles( [ { style: 'lower-latin', marker: '%1)' } ], `.ck-content.${ scopeClassB }` )
+				] );
+
+				await editorA.destroy();
+				await editorB.destroy();
+			} );
+
+			it( 'should add the scope class to the editing roots added later', async () => {
+				const editor = await createEditorWithLevels( [ { style: 'upper-roman', marker: '%1.' } ] );
+				const scopeClass = getScopeClass( editor );
+
+				editor.model.change( writer => {
+					writer.addRoot( 'second' );
+				} );
+
+				expect( editor.editing.view.document.getRoot( 'second' ).hasClass( scopeClass ) ).to.be.true;
+
+				await editor.destroy();
+			} );
+
+			function createEditorWithLevels( levels ) {
+				return VirtualTestEditor.create( {
+					plugins: [ Paragraph, DocumentListPropertiesEditing ],
+					list: {
+						properties: {
+							multiLevel: { levels }
+						}
+					}
+				} );
+			}
+
+			function getScopeClass( editor ) {
+				return Array.from( editor.editing.view.document.getRoot().getClassNames() )
+					.find( className => className.startsWith( 'ck-multi-level-list_' ) );
+			}
+		} );
+	} );
 } );
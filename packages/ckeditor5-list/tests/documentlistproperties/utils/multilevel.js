@@ -0,0 +1,87 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	MULTI_LEVEL_LIST_CLASS,
+	getDefaultMultiLevelFormats,
+	getMultiLevelListStyles
+} from '../../../src/documentlistproperties/utils/multilevel';
+
+describe( 'DocumentListProperties - utils - multilevel', () => {
+	it( 'should define the class of the multi-level lists', () => {
+		expect( MULTI_LEVEL_LIST_CLASS ).to.equal( 'multi-level-list' );
+	} );
+
+	describe( 'getDefaultMultiLevelFormats()', () => {
+		it( 'should return the decimal formats of 9 levels', () => {
+			const formats = getDefaultMultiLevelFormats();
+
+			expect( formats ).to.have.length( 9 );
+			expect( formats.every( format => format.style == 'decimal' ) ).to.be.true;
+		} );
+
+		it( 'should return the markers with the numbers of all levels separated by dots', () => {
+			const formats = getDefaultMultiLevelFormats();
+
+			expect( formats[ 0 ].marker ).to.equal( '%1.' );
+			expect( formats[ 1 ].marker ).to.equal( '%1.%2.' );
+			expect( formats[ 8 ].marker ).to.equal( '%1.%2.%3.%4.%5.%6.%7.%8.%9.' );
+		} );
+	} );
+
+	describe( 'getMultiLevelListStyles()', () => {
+		it( 'should create the rules of the first level', () => {
+			const styles = getMultiLevelListStyles( [ { style: 'upper-roman', marker: '%1.' } ] );
+
+			expect( styles.split( '\n' ) ).to.deep.equal( [
+				'.ck-content ol.multi-level-list { counter-reset: multi-level-list-1; }',
+				'.ck-content ol.multi-level-list > li { counter-increment: multi-level-list-1; }',
+				'.ck-content ol.multi-level-list > li::marker { content: counter(multi-level-list-1, upper-roman) "." " "; }'
+			] );
+		} );
+
+		it( 'should create the rules of the nested levels with the counters of the parent levels', () => {
+			const styles = getMultiLevelListStyles( [
+				{ style: 'upper-roman', marker: '%1.' },
+				{ style: 'lower-latin', marker: '%1.%2)' }
+			] );
+
+			expect( styles.split( '\n' ).slice( 3 ) ).to.deep.equal( [
+				'.ck-content ol.multi-level-list ol.multi-level-list { counter-reset: multi-level-list-2; }',
+				'.ck-content ol.multi-level-list ol.multi-level-list > li { counter-increment: multi-level-list-2; }',
+				'.ck-content ol.multi-level-list ol.multi-level-list > li::marker { ' +
+					'content: counter(multi-level-list-1, upper-roman) "." counter(multi-level-list-2, lower-latin) ")" " "; }'
+			] );
+		} );
+
+		it( 'should create the rules scoped to the given root selector', () => {
+			const styles = getMultiLevelListStyles( [ { style: 'decimal', marker: '%1.' } ], '.ck-content.foo' );
+
+			expect( styles.split( '\n' ) ).to.deep.equal( [
+				'.ck-content.foo ol.multi-level-list { counter-reset: multi-level-list-1; }',
+				'.ck-content.foo ol.multi-level-list > li { counter-increment: multi-level-list-1; }',
+				'.ck-content.foo ol.multi-level-list > li::marker { content: counter(multi-level-list-1, decimal) "." " "; }'
+			] );
+		} );
+
+		it( 'should skip the placeholders of the levels deeper than the current one', () => {
+			const styles = getMultiLevelListStyles( [ { style: 'decimal', marker: '%1-%2' } ] );
+
+			expect( styles ).to.include( 'content: counter(multi-level-list-1, decimal) "-" " ";' );
+		} );
+
+		it( 'should escape the texts of the markers', () => {
+			const styles = getMultiLevelListStyles( [ { style: 'decimal', marker: '"%1"\\<' } ] );
+
+			expect( styles ).to.include( 'content: "\\"" counter(multi-level-list-1, decimal) "\\"\\\\\\3C " " ";' );
+		} );
+
+		it( 'should create the rules of up to 9 levels', () => {
+			const formats = new Array( 10 ).fill( { style: 'decimal', marker: '%1.' } );
+
+			expect( getMultiLevelListStyles( formats ).split( '\n' ) ).to.have.length( 27 );
+		} );
+	} );
+} );
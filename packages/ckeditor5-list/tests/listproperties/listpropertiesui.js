@@ -6,6 +6,7 @@
 /* globals document */
 
 import ListProperties from '../../src/listproperties';
+import DocumentListProperties from '../../src/documentlistproperties';
 import ListPropertiesUI from '../../src/listproperties/listpropertiesui';
 
 import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
@@ -466,6 +467,51 @@ describe( 'ListPropertiesUI', () => {
 					} );
 				} );
 
+				it( 'should not have the multi-level switch when the document lists are not used', () => {
+					return withEditor( {
+						styles: true,
+						multiLevel: true
+					}, editor => {
+						const numberedListDropdown = editor.ui.componentFactory.create( 'numberedList' );
+
+						numberedListDropdown.render();
+						document.body.appendChild( numberedListDropdown.element );
+
+						// Trigger lazy init.
+						numberedListDropdown.isOpen = true;
+						numberedListDropdown.isOpen = false;
+
+						const listPropertiesView = numberedListDropdown.panelView.children.first;
+
+						expect( listPropertiesView.multiLevelSwitchButtonView ).to.be.null;
+
+						numberedListDropdown.element.remove();
+					} );
+				} );
+
+				it( 'should have the multi-level switch when it is enabled in the config of the document lists', () => {
+					return withEditor( {
+						styles: true,
+						multiLevel: true
+					}, editor => {
+						const numberedListDropdown = editor.ui.componentFactory.create( 'numberedList' );
+
+						numberedListDropdown.render();
+						document.body.appendChild( numberedListDropdown.element );
+
+						// Trigger lazy init.
+						numberedListDropdown.isOpen = true;
+						numberedListDropdown.isOpen = false;
+
+						const listPropertiesView = numberedListDropdown.panelView.children.first;
+
+						expect( listPropertiesView.startIndexFieldView ).to.be.null;
+						expect( listPropertiesView.multiLevelSwitchButtonView ).to.be.instanceOf( SwitchButtonView );
+
+						numberedListDropdown.element.remove();
+					}, [ Paragraph, DocumentListProperties ] );
+				} );
+
 				it( 'should have only the numbered list property UI when styles are disabled', async () => {
 					return withEditor( {
 						styles: false,
@@ -836,12 +882,76 @@ describe( 'ListPropertiesUI', () => {
 		} );
 	} );
 
-	async function withEditor( listPropertiesConfig, callback ) {
+	describe( 'multi-level list switch button', () => {
+		let editorElement, editor, listMultiLevelCommand, multiLevelSwitchButtonView, numberedListDropdown, listPropertiesView;
+
+		beforeEach( async () => {
+			editorElement = document.createElement( 'div' );
+			document.body.appendChild( editorElement );
+
+			editor = await ClassicTestEditor.create( editorElement, {
+				plugins: [ Paragraph, DocumentListProperties ],
+				list: {
+					properties: {
+						styles: true,
+						multiLevel: true
+					}
+				}
+			} );
+
+			listMultiLevelCommand = editor.commands.get( 'listMultiLevel' );
+			numberedListDropdown = editor.ui.componentFactory.create( 'numberedList' );
+
+			numberedListDropdown.render();
+			document.body.appendChild( numberedListDropdown.element );
+
+			// Trigger lazy init.
+			numberedListDropdown.isOpen = true;
+			numberedListDropdown.isOpen = false;
+
+			listPropertiesView = numberedListDropdown.panelView.children.first;
+			multiLevelSwitchButtonView = listPropertiesView.multiLevelSwitchButtonView;
+		} );
+
+		afterEach( async () => {
+			numberedListDropdown.element.remove();
+			editorElement.remove();
+
+			await editor.destroy();
+		} );
+
+		it( 'should bind #isEnabled to the multi-level list command', () => {
+			listMultiLevelCommand.isEnabled = true;
+			expect( multiLevelSwitchButtonView.isEnabled ).to.be.true;
+
+			listMultiLevelCommand.isEnabled = false;
+			expect( multiLevelSwitchButtonView.isEnabled ).to.be.false;
+		} );
+
+		it( 'should bind #isOn to the multi-level list command', () => {
+			listMultiLevelCommand.value = true;
+			expect( multiLevelSwitchButtonView.isOn ).to.be.true;
+
+			listMultiLevelCommand.value = false;
+			expect( multiLevelSwitchButtonView.isOn ).to.be.false;
+		} );
+
+		it( 'should execute the multi-level list command when the list property view fires #listMultiLevel', () => {
+			const spy = sinon.spy( editor, 'execute' );
+
+			listPropertiesView.fire( 'listMultiLevel' );
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledWithExactly( spy, 'listMultiLevel', { multiLevel: true } );
+		} );
+	} );
+
+	async function withEditor( listPropertiesConfig, callback, plugins = [ ListProperties ] ) {
 		const editorElement = document.createElement( 'div' );
 		document.body.appendChild( editorElement );
 
 		const editor = await ClassicTestEditor.create( editorElement, {
-			plugins: [ ListProperties ],
+			plugins,
 			list: {
 				properties: listPropertiesConfig
 			}
@@ -233,6 +233,54 @@ describe( 'ListPropertiesView', () => {
 					view.destroy();
 				} );
 			} );
+
+			describe( 'when only multi-level property is enabled', () => {
+				let view;
+
+				beforeEach( () => {
+					view = new ListPropertiesView( locale, {
+						enabledProperties: {
+							multiLevel: true
+						},
+						styleButtonViews: [],
+						styleGridAriaLabel: 'Foo'
+					} );
+
+					view.render();
+				} );
+
+				afterEach( () => {
+					view.destroy();
+				} );
+
+				it( 'should have only #multiLevelSwitchButtonView', () => {
+					expect( view.stylesView ).to.be.null;
+					expect( view.startIndexFieldView ).to.be.null;
+					expect( view.reversedSwitchButtonView ).to.be.null;
+					expect( view.multiLevelSwitchButtonView ).to.be.instanceOf( SwitchButtonView );
+					expect( view.children.first ).to.equal( view.multiLevelSwitchButtonView );
+					expect( view.element.classList.contains( 'ck-list-properties_with-numbered-properties' ) ).to.be.true;
+				} );
+
+				it( 'should have basic properties of #multiLevelSwitchButtonView', () => {
+					expect( view.multiLevelSwitchButtonView.withText ).to.be.true;
+					expect( view.multiLevelSwitchButtonView.label ).to.equal( 'Multi-level numbering' );
+					expect( view.multiLevelSwitchButtonView.class ).to.equal( 'ck-numbered-list-properties__multi-level' );
+				} );
+
+				it( 'should register #multiLevelSwitchButtonView in #focusables', () => {
+					expect( view.focusables.map( f => f ) ).to.have.members( [ view.multiLevelSwitchButtonView ] );
+				} );
+
+				it( 'should fire #listMultiLevel when #multiLevelSwitchButtonView is executed', () => {
+					const spy = sinon.spy();
+
+					view.on( 'listMultiLevel', spy );
+					view.multiLevelSwitchButtonView.fire( 'execute' );
+
+					sinon.assert.calledOnce( spy );
+				} );
+			} );
 		} );
 
 		it( 'should have a #children collection', () => {
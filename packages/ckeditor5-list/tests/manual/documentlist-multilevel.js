@@ -0,0 +1,63 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals console, window, document, CKEditorInspector */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import Essentials from '@ckeditor/ckeditor5-essentials/src/essentials';
+import Heading from '@ckeditor/ckeditor5-heading/src/heading';
+import Indent from '@ckeditor/ckeditor5-indent/src/indent';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import PasteFromOffice from '@ckeditor/ckeditor5-paste-from-office/src/pastefromoffice';
+import SourceEditing from '@ckeditor/ckeditor5-source-editing/src/sourceediting';
+
+import DocumentList from '../../src/documentlist';
+import DocumentListProperties from '../../src/documentlistproperties';
+
+const config = {
+	plugins: [
+		Essentials, Heading, Indent, Paragraph, PasteFromOffice, SourceEditing, DocumentList, DocumentListProperties
+	],
+	toolbar: [
+		'sourceEditing', '|',
+		'numberedList', 'bulletedList',
+		'outdent', 'indent', '|',
+		'heading', '|',
+		'undo', 'redo'
+	]
+};
+
+function createEditor( idSuffix, multiLevel ) {
+	ClassicEditor
+		.create( document.querySelector( '#editor-' + idSuffix ), {
+			...config,
+			list: {
+				properties: {
+					styles: true,
+					startIndex: true,
+					reversed: true,
+					multiLevel
+				}
+			}
+		} )
+		.then( editor => {
+			window[ 'editor_' + idSuffix ] = editor;
+
+			CKEditorInspector.attach( { [ idSuffix ]: editor } );
+		} )
+		.catch( err => {
+			console.error( err.stack );
+		} );
+}
+
+createEditor( 'default', true );
+
+createEditor( 'custom', {
+	levels: [
+		{ style: 'upper-roman', marker: '%1.' },
+		{ style: 'decimal', marker: '%1.%2.' },
+		{ style: 'lower-latin', marker: '%1.%2.%3)' }
+	]
+} );
@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	MergeFields,
+	MergeFieldsConfig,
+	MergeFieldsEditing,
+	MergeFieldsUI,
+	MergeFieldsAutocomplete,
+	InsertMergeFieldCommand,
+	PreviewMergeFieldsCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the merge fields feature. Introduced by the
+		 * {@link module:merge-fields/mergefieldsediting~MergeFieldsEditing} feature.
+		 *
+		 * Read more in {@link module:merge-fields/mergefieldsconfig~MergeFieldsConfig}.
+		 */
+		mergeFields?: MergeFieldsConfig;
+	}
+
+	interface PluginsMap {
+		[ MergeFields.pluginName ]: MergeFields;
+		[ MergeFieldsEditing.pluginName ]: MergeFieldsEditing;
+		[ MergeFieldsUI.pluginName ]: MergeFieldsUI;
+		[ MergeFieldsAutocomplete.pluginName ]: MergeFieldsAutocomplete;
+	}
+
+	interface CommandsMap {
+		insertMergeField: InsertMergeFieldCommand;
+		previewMergeFields: PreviewMergeFieldsCommand;
+	}
+}
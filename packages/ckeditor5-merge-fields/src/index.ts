@@ -0,0 +1,19 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields
+ */
+
+export { default as MergeFields } from './mergefields';
+export { default as MergeFieldsEditing } from './mergefieldsediting';
+export { default as MergeFieldsUI } from './mergefieldsui';
+export { default as MergeFieldsAutocomplete } from './mergefieldsautocomplete';
+export { default as InsertMergeFieldCommand } from './insertmergefieldcommand';
+export { default as PreviewMergeFieldsCommand } from './previewmergefieldscommand';
+
+export type { MergeFieldsConfig, MergeFieldDefinition, MergeFieldsGroupDefinition } from './mergefieldsconfig';
+
+import './augmentation';
@@ -0,0 +1,65 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/insertmergefieldcommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Range } from 'ckeditor5/src/engine';
+
+/**
+ * The insert merge field command.
+ *
+ * The command is registered by {@link module:merge-fields/mergefieldsediting~MergeFieldsEditing} as `'insertMergeField'`.
+ *
+ * It inserts the merge field with the given id at the current selection:
+ *
+ * ```ts
+ * editor.execute( 'insertMergeField', { id: 'customer.name' } );
+ * ```
+ *
+ * The merge field may also replace the given range, for instance the text typed to find the merge field:
+ *
+ * ```ts
+ * editor.execute( 'insertMergeField', { id: 'customer.name', range } );
+ * ```
+ *
+ * The merge field gets the attributes of the selection (like bold) and the selection is moved after it.
+ */
+export default class InsertMergeFieldCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const model = this.editor.model;
+		const position = model.document.selection.getFirstPosition();
+
+		this.isEnabled = !!position && model.schema.checkChild( position, 'mergeField' );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Options for the executed command.
+	 * @param options.id The id of the inserted merge field.
+	 * @param options.range The range replaced by the merge field. The current selection is used when not set.
+	 * @fires execute
+	 */
+	public override execute( { id, range }: { id: string; range?: Range } ): void {
+		const model = this.editor.model;
+		const selection = model.document.selection;
+
+		model.change( writer => {
+			const mergeField = writer.createElement( 'mergeField', {
+				...Object.fromEntries( selection.getAttributes() ),
+				mergeFieldId: id
+			} );
+
+			model.insertContent( mergeField, range );
+			writer.setSelection( mergeField, 'after' );
+		} );
+	}
+}
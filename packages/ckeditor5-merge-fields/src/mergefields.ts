@@ -0,0 +1,40 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/mergefields
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { Widget } from 'ckeditor5/src/widget';
+
+import MergeFieldsEditing from './mergefieldsediting';
+import MergeFieldsUI from './mergefieldsui';
+import MergeFieldsAutocomplete from './mergefieldsautocomplete';
+
+/**
+ * The merge fields feature. It allows for inserting placeholders like `{{customer.name}}` into the content of templates
+ * and previewing them with sample values.
+ *
+ * This is a "glue" plugin which loads the
+ * {@link module:merge-fields/mergefieldsediting~MergeFieldsEditing merge fields editing feature},
+ * the {@link module:merge-fields/mergefieldsui~MergeFieldsUI merge fields UI feature}
+ * and the {@link module:merge-fields/mergefieldsautocomplete~MergeFieldsAutocomplete merge fields autocompletion feature}.
+ */
+export default class MergeFields extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'MergeFields' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ MergeFieldsEditing, MergeFieldsUI, MergeFieldsAutocomplete, Widget ] as const;
+	}
+}
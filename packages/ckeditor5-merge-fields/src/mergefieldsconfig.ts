@@ -0,0 +1,101 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/mergefieldsconfig
+ */
+
+/**
+ * The configuration of the {@link module:merge-fields/mergefields~MergeFields merge fields feature}.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		mergeFields: {
+ * 			definitions: [
+ * 				{ id: 'date', label: 'Current date', sampleValue: 'June 1, 2023' },
+ * 				{
+ * 					groupId: 'customer',
+ * 					groupLabel: 'Customer',
+ * 					definitions: [
+ * 						{ id: 'customer.name', label: 'Name', sampleValue: 'John Smith' },
+ * 						{ id: 'customer.email', label: 'Email', sampleValue: 'john.smith@example.com' }
+ * 					]
+ * 				}
+ * 			],
+ * 			dataFormat: 'markup'
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor configuration options}.
+ */
+export interface MergeFieldsConfig {
+
+	/**
+	 * The merge fields available in the editor and the groups of the merge fields.
+	 *
+	 * The merge fields present in the content but not listed here are still preserved and displayed using their ids.
+	 */
+	definitions?: Array<MergeFieldDefinition | MergeFieldsGroupDefinition>;
+
+	/**
+	 * The format of the merge fields in the editor data:
+	 *
+	 * * `'text'` &ndash; The plain text, for instance `{{customer.name}}`.
+	 * * `'markup'` &ndash; The `<span>` element with the id of the merge field, for instance
+	 * `<span class="merge-field" data-merge-field-id="customer.name">{{customer.name}}</span>`.
+	 *
+	 * Both formats are recognized when the data is loaded, the plain text only when the `'text'` format is used.
+	 *
+	 * @default 'text'
+	 */
+	dataFormat?: 'text' | 'markup';
+}
+
+/**
+ * The definition of a merge field.
+ */
+export interface MergeFieldDefinition {
+
+	/**
+	 * The unique id of the merge field. It may contain letters, digits, underscores, hyphens and dots, for instance `customer.name`.
+	 */
+	id: string;
+
+	/**
+	 * The human-readable label of the merge field, displayed in the content and in the user interface.
+	 * When not set, the id is used instead.
+	 */
+	label?: string;
+
+	/**
+	 * The value displayed in the place of the merge field in the preview mode. When not set, the label is displayed.
+	 */
+	sampleValue?: string;
+}
+
+/**
+ * The definition of a group of merge fields. The groups are displayed as separate sections of the merge fields dropdown.
+ */
+export interface MergeFieldsGroupDefinition {
+
+	/**
+	 * The unique id of the group.
+	 */
+	groupId: string;
+
+	/**
+	 * The human-readable label of the group.
+	 */
+	groupLabel: string;
+
+	/**
+	 * The merge fields of the group.
+	 */
+	definitions: Array<MergeFieldDefinition>;
+}
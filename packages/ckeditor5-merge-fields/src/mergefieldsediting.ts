@@ -0,0 +1,267 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/mergefieldsediting
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import {
+	UpcastWriter,
+	type DataControllerToModelEvent,
+	type DataControllerToViewEvent,
+	type DowncastWriter,
+	type ViewDocumentFragment,
+	type ViewElement,
+	type ViewItem,
+	type ViewText
+} from 'ckeditor5/src/engine';
+import { toWidget } from 'ckeditor5/src/widget';
+
+import InsertMergeFieldCommand from './insertmergefieldcommand';
+import PreviewMergeFieldsCommand from './previewmergefieldscommand';
+import { MERGE_FIELD_PATTERN, getMergeFieldDefinition, getMergeFieldText } from './utils';
+
+import '../theme/mergefields.css';
+
+/**
+ * The merge fields editing feature.
+ *
+ * It introduces the `mergeField` model element, an inline object with the `mergeFieldId` attribute. Depending on the
+ * {@link module:merge-fields/mergefieldsconfig~MergeFieldsConfig#dataFormat `config.mergeFields.dataFormat`}, the merge fields
+ * are represented in the data as the plain text:
+ *
+ * ```html
+ * <p>Dear {{customer.name}},</p>
+ * ```
+ *
+ * or as the `<span>` elements:
+ *
+ * ```html
+ * <p>Dear <span class="merge-field" data-merge-field-id="customer.name">{{customer.name}}</span>,</p>
+ * ```
+ *
+ * In the editing view the merge fields are inline widgets displaying the labels of the merge fields or, in the preview mode,
+ * their sample values.
+ *
+ * It also registers the `'insertMergeField'` and `'previewMergeFields'` commands.
+ */
+export default class MergeFieldsEditing extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'MergeFieldsEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'mergeFields', {
+			definitions: [],
+			dataFormat: 'text'
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+
+		editor.model.schema.register( 'mergeField', {
+			inheritAllFrom: '$inlineObject',
+			allowAttributes: [ 'mergeFieldId' ]
+		} );
+
+		editor.commands.add( 'insertMergeField', new InsertMergeFieldCommand( editor ) );
+		editor.commands.add( 'previewMergeFields', new PreviewMergeFieldsCommand( editor ) );
+
+		this._defineConverters();
+
+		if ( editor.config.get( 'mergeFields.dataFormat' ) == 'text' ) {
+			this._enableTextDataFormat();
+		}
+
+		// Refresh the merge fields in the editing view when the preview mode changes.
+		this.listenTo( editor.commands.get( 'previewMergeFields' )!, 'change:value', () => {
+			for ( const rootName of editor.model.document.getRootNames() ) {
+				for ( const item of editor.model.createRangeIn( editor.model.document.getRoot( rootName )! ).getItems() ) {
+					if ( item.is( 'element', 'mergeField' ) ) {
+						editor.editing.reconvertItem( item );
+					}
+				}
+			}
+		} );
+	}
+
+	/**
+	 * Registers the converters of the `mergeField` model element.
+	 */
+	private _defineConverters(): void {
+		const editor = this.editor;
+		const conversion = editor.conversion;
+		const t = editor.t;
+
+		// The content of the span (the plain text of the merge field) is not allowed in the model element, so it is dropped.
+		conversion.for( 'upcast' ).elementToElement( {
+			view: {
+				name: 'span',
+				classes: 'merge-field',
+				attributes: { 'data-merge-field-id': true }
+			},
+			model: ( viewElement, { writer } ) => writer.createElement( 'mergeField', {
+				mergeFieldId: viewElement.getAttribute( 'data-merge-field-id' )
+			} ),
+			converterPriority: 'high'
+		} );
+
+		conversion.for( 'dataDowncast' ).elementToElement( {
+			model: {
+				name: 'mergeField',
+				attributes: [ 'mergeFieldId' ]
+			},
+			view: ( modelElement, { writer } ) => createMergeFieldDataView( modelElement.getAttribute( 'mergeFieldId' ) as string, writer )
+		} );
+
+		conversion.for( 'editingDowncast' ).elementToElement( {
+			model: {
+				name: 'mergeField',
+				attributes: [ 'mergeFieldId' ]
+			},
+			view: ( modelElement, { writer } ) => {
+				const id = modelElement.getAttribute( 'mergeFieldId' ) as string;
+				const definition = getMergeFieldDefinition( editor, id );
+				const isPreviewMode = editor.commands.get( 'previewMergeFields' )!.value;
+				const label = definition ? definition.label : id;
+				let text = label;
+
+				if ( isPreviewMode && definition && definition.sampleValue !== undefined ) {
+					text = definition.sampleValue;
+				}
+
+				const viewElement = writer.createContainerElement( 'span', {
+					class: [
+						'ck-merge-field',
+						...( isPreviewMode ? [ 'ck-merge-field_preview' ] : [] ),
+						...( definition ? [] : [ 'ck-merge-field_unknown' ] )
+					].join( ' ' ),
+					title: getMergeFieldText( id )
+				}, writer.createText( text ) );
+
+				return toWidget( viewElement, writer, { label: t( 'Merge field: %0', label ) } );
+			}
+		} );
+	}
+
+	/**
+	 * Makes the merge fields represented by the plain text in the data, for instance `{{customer.name}}`.
+	 *
+	 * The plain text merge fields are turned into the merge field `<span>` elements before the view is converted to the model,
+	 * and the other way around after the model is converted to the view.
+	 */
+	private _enableTextDataFormat(): void {
+		const data = this.editor.data;
+
+		this.listenTo<DataControllerToModelEvent>( data, 'toModel', ( evt, [ viewElementOrFragment ] ) => {
+			const writer = new UpcastWriter( data.viewDocument );
+
+			for ( const textNode of getTextNodes( writer, viewElementOrFragment ) ) {
+				const nodes = splitMergeFieldsText( textNode.data, writer );
+
+				if ( nodes.length == 1 && nodes[ 0 ].is( '$text' ) ) {
+					continue;
+				}
+
+				const parent = textNode.parent!;
+				const index = parent.getChildIndex( textNode );
+
+				writer.remove( textNode );
+				writer.insertChild( index, nodes, parent );
+			}
+		}, { priority: 'high' } );
+
+		this.listenTo<DataControllerToViewEvent>( data, 'toView', evt => {
+			const viewFragment = evt.return as ViewDocumentFragment;
+			const writer = new UpcastWriter( data.viewDocument );
+
+			for ( const viewElement of getMergeFieldElements( writer, viewFragment ) ) {
+				const parent = viewElement.parent!;
+				const index = parent.getChildIndex( viewElement );
+				const text = writer.createText( getMergeFieldText( viewElement.getAttribute( 'data-merge-field-id' )! ) );
+
+				writer.remove( viewElement );
+				writer.insertChild( index, text, parent );
+			}
+		}, { priority: 'low' } );
+	}
+}
+
+/**
+ * Creates the view of the merge field in the data.
+ */
+function createMergeFieldDataView( id: string, writer: DowncastWriter ): ViewElement {
+	return writer.createContainerElement( 'span', {
+		class: 'merge-field',
+		'data-merge-field-id': id
+	}, writer.createText( getMergeFieldText( id ) ) );
+}
+
+/**
+ * Checks whether the view node is a merge field element.
+ */
+function isMergeFieldElement( node: ViewItem | ViewDocumentFragment | null ): node is ViewElement {
+	return !!node && node.is( 'element', 'span' ) && node.hasClass( 'merge-field' ) && node.hasAttribute( 'data-merge-field-id' );
+}
+
+/**
+ * Returns the text nodes of the view element or document fragment, except for the content of the merge field elements.
+ */
+function getTextNodes( writer: UpcastWriter, viewElementOrFragment: ViewElement | ViewDocumentFragment ): Array<ViewText> {
+	const textNodes: Array<ViewText> = [];
+
+	for ( const { item } of writer.createRangeIn( viewElementOrFragment ) ) {
+		if ( item.is( '$textProxy' ) && !item.getAncestors().some( isMergeFieldElement ) ) {
+			textNodes.push( item.textNode );
+		}
+	}
+
+	return textNodes;
+}
+
+/**
+ * Returns the merge field elements of the view document fragment.
+ */
+function getMergeFieldElements( writer: UpcastWriter, viewFragment: ViewDocumentFragment ): Array<ViewElement> {
+	return Array.from( writer.createRangeIn( viewFragment ).getItems( { shallow: false } ) ).filter( isMergeFieldElement );
+}
+
+/**
+ * Splits the text into the text nodes and the merge field elements for the plain text merge fields.
+ */
+function splitMergeFieldsText( text: string, writer: UpcastWriter ): Array<ViewText | ViewElement> {
+	const nodes: Array<ViewText | ViewElement> = [];
+	const pattern = new RegExp( MERGE_FIELD_PATTERN.source, 'g' );
+	let lastIndex = 0;
+	let match;
+
+	while ( ( match = pattern.exec( text ) ) ) {
+		if ( match.index > lastIndex ) {
+			nodes.push( writer.createText( text.slice( lastIndex, match.index ) ) );
+		}
+
+		nodes.push( writer.createElement( 'span', { class: 'merge-field', 'data-merge-field-id': match[ 1 ] } ) );
+		lastIndex = pattern.lastIndex;
+	}
+
+	if ( lastIndex < text.length ) {
+		nodes.push( writer.createText( text.slice( lastIndex ) ) );
+	}
+
+	return nodes;
+}
@@ -0,0 +1,104 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/mergefieldsui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { ButtonView, createDropdown } from 'ckeditor5/src/ui';
+
+import MergeFieldsView, { type MergeFieldsExecuteEvent } from './ui/mergefieldsview';
+import type InsertMergeFieldCommand from './insertmergefieldcommand';
+import type PreviewMergeFieldsCommand from './previewmergefieldscommand';
+import { getMergeFieldDefinitions } from './utils';
+
+import mergeFieldsIcon from '../theme/icons/merge-fields.svg';
+import previewMergeFieldsIcon from '../theme/icons/preview-merge-fields.svg';
+
+/**
+ * The merge fields UI plugin. It registers:
+ *
+ * * The `'mergeFields'` dropdown with the searchable list of the configured merge fields. Choosing a merge field inserts it.
+ * * The `'previewMergeFields'` button toggling the preview of the sample values of the merge fields.
+ */
+export default class MergeFieldsUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'MergeFieldsUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		// Add the `mergeFields` dropdown to feature components.
+		editor.ui.componentFactory.add( 'mergeFields', locale => {
+			const command: InsertMergeFieldCommand = editor.commands.get( 'insertMergeField' )!;
+			const dropdownView = createDropdown( locale );
+			let mergeFieldsView: MergeFieldsView;
+
+			dropdownView.buttonView.set( {
+				label: t( 'Insert merge field' ),
+				icon: mergeFieldsIcon,
+				tooltip: true
+			} );
+
+			dropdownView.bind( 'isEnabled' ).to( command );
+
+			// Insert the merge field when it was chosen from the list.
+			dropdownView.on<MergeFieldsExecuteEvent>( 'execute', ( evt, data ) => {
+				dropdownView.isOpen = false;
+
+				editor.execute( 'insertMergeField', { id: data.id } );
+				editor.editing.view.focus();
+			} );
+
+			dropdownView.on( 'change:isOpen', () => {
+				if ( !mergeFieldsView ) {
+					mergeFieldsView = new MergeFieldsView( locale, getMergeFieldDefinitions( editor ) );
+					mergeFieldsView.delegate( 'execute' ).to( dropdownView );
+
+					dropdownView.panelView.children.add( mergeFieldsView );
+				}
+
+				// Display all merge fields again when the dropdown is reopened. The panel focuses the search field by itself.
+				if ( dropdownView.isOpen ) {
+					mergeFieldsView.reset();
+				}
+			} );
+
+			return dropdownView;
+		} );
+
+		// Add the `previewMergeFields` button to feature components.
+		editor.ui.componentFactory.add( 'previewMergeFields', locale => {
+			const command: PreviewMergeFieldsCommand = editor.commands.get( 'previewMergeFields' )!;
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Preview merge fields' ),
+				icon: previewMergeFieldsIcon,
+				tooltip: true,
+				isToggleable: true
+			} );
+
+			view.bind( 'isOn', 'isEnabled' ).to( command, 'value', 'isEnabled' );
+
+			// Execute the command.
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'previewMergeFields' );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+	}
+}
@@ -0,0 +1,64 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/previewmergefieldscommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+
+/**
+ * The preview merge fields command.
+ *
+ * The command is registered by {@link module:merge-fields/mergefieldsediting~MergeFieldsEditing} as `'previewMergeFields'`.
+ *
+ * It toggles the preview mode in which the merge fields in the editing view display the
+ * {@link module:merge-fields/mergefieldsconfig~MergeFieldDefinition#sampleValue sample values} instead of the labels:
+ *
+ * ```ts
+ * editor.execute( 'previewMergeFields' );
+ * ```
+ *
+ * The preview mode does not change the editor data.
+ */
+export default class PreviewMergeFieldsCommand extends Command {
+	/**
+	 * Whether the preview mode is on.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: boolean;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		this.value = false;
+
+		// The preview is only a different presentation of the content so it should be available in the read-only mode too.
+		this.affectsData = false;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = true;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Options for the executed command.
+	 * @param options.forceValue When set, the preview mode is turned on (`true`) or off (`false`) instead of being toggled.
+	 * @fires execute
+	 */
+	public override execute( { forceValue }: { forceValue?: boolean } = {} ): void {
+		this.value = forceValue === undefined ? !this.value : forceValue;
+	}
+}
@@ -0,0 +1,141 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/ui/mergefieldsautocompleteview
+ */
+
+import { ButtonView, ListItemView, ListView } from 'ckeditor5/src/ui';
+import { Rect, type Locale } from 'ckeditor5/src/utils';
+
+import { getMergeFieldText, type NormalizedMergeFieldDefinition } from '../utils';
+
+import '../../theme/mergefieldsui.css';
+
+/**
+ * The list of the merge fields suggested while typing `{{` in the editor. One of the merge fields is always selected;
+ * the selection is moved with the keyboard by the {@link module:merge-fields/mergefieldsautocomplete~MergeFieldsAutocomplete} plugin.
+ *
+ * Choosing a merge field fires the `execute` event of the view with the id of the merge field.
+ *
+ * @internal
+ */
+export default class MergeFieldsAutocompleteView extends ListView {
+	/**
+	 * The index of the selected merge field.
+	 *
+	 * @observable
+	 */
+	declare public selectedIndex: number;
+
+	/**
+	 * The ids of the listed merge fields, in the order of the items.
+	 */
+	private _ids: Array<string> = [];
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		this.set( 'selectedIndex', 0 );
+
+		this.extendTemplate( {
+			attributes: {
+				class: [
+					'ck-merge-fields-autocomplete'
+				],
+
+				tabindex: '-1'
+			}
+		} );
+	}
+
+	/**
+	 * Replaces the listed merge fields and selects the first one.
+	 */
+	public setDefinitions( definitions: Array<NormalizedMergeFieldDefinition> ): void {
+		this._ids = definitions.map( definition => definition.id );
+
+		this.items.clear();
+		this.items.addMany( definitions.map( ( definition, index ) => this._createListItem( definition, index ) ) );
+
+		this.select( 0 );
+	}
+
+	/**
+	 * Selects the merge field at the given index. The index out of bounds cycles over the list.
+	 */
+	public select( index: number ): void {
+		const length = this._ids.length;
+
+		this.selectedIndex = length ? ( index % length + length ) % length : 0;
+
+		const item = this.items.get( this.selectedIndex );
+
+		// Scroll the list to the selected merge field. The list is not rendered until it is displayed for the first time.
+		if ( this.isRendered && item && !new Rect( this.element! ).contains( new Rect( item.element! ) ) ) {
+			this.element!.scrollTop = item.element!.offsetTop;
+		}
+	}
+
+	/**
+	 * Selects the merge field after the selected one.
+	 */
+	public selectNext(): void {
+		this.select( this.selectedIndex + 1 );
+	}
+
+	/**
+	 * Selects the merge field before the selected one.
+	 */
+	public selectPrevious(): void {
+		this.select( this.selectedIndex - 1 );
+	}
+
+	/**
+	 * Fires the `execute` event for the selected merge field.
+	 */
+	public executeSelected(): void {
+		if ( this._ids.length ) {
+			this.fire<MergeFieldsAutocompleteExecuteEvent>( 'execute', { id: this._ids[ this.selectedIndex ] } );
+		}
+	}
+
+	/**
+	 * Creates the list item with the button of the merge field, highlighted when the merge field is selected.
+	 */
+	private _createListItem( definition: NormalizedMergeFieldDefinition, index: number ): ListItemView {
+		const listItemView = new ListItemView( this.locale );
+		const buttonView = new ButtonView( this.locale );
+
+		buttonView.set( {
+			label: definition.groupLabel ? `${ definition.groupLabel }: ${ definition.label }` : definition.label,
+			tooltip: getMergeFieldText( definition.id ),
+			withText: true
+		} );
+
+		buttonView.bind( 'isOn' ).to( this, 'selectedIndex', selectedIndex => selectedIndex === index );
+
+		buttonView.on( 'execute', () => {
+			this.fire<MergeFieldsAutocompleteExecuteEvent>( 'execute', { id: definition.id } );
+		} );
+
+		listItemView.children.add( buttonView );
+
+		return listItemView;
+	}
+}
+
+/**
+ * Fired when a merge field is chosen from the list.
+ *
+ * @eventName ~MergeFieldsAutocompleteView#execute
+ */
+export type MergeFieldsAutocompleteExecuteEvent = {
+	name: 'execute';
+	args: [ { id: string } ];
+};
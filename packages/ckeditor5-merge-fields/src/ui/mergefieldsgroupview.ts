@@ -0,0 +1,99 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/ui/mergefieldsgroupview
+ */
+
+import { ButtonView, ListItemView, ListView, View } from 'ckeditor5/src/ui';
+import type { Locale } from 'ckeditor5/src/utils';
+
+import { getMergeFieldText, type NormalizedMergeFieldDefinition } from '../utils';
+
+/**
+ * The view of the group of merge fields in the {@link module:merge-fields/ui/mergefieldsview~MergeFieldsView}. It displays
+ * the label of the group (if any) and the list of buttons inserting its merge fields.
+ *
+ * Executing a button fires the `execute` event of the view with the id of the merge field.
+ *
+ * @internal
+ */
+export default class MergeFieldsGroupView extends View {
+	/**
+	 * The list of the merge fields of the group.
+	 */
+	public readonly listView: ListView;
+
+	/**
+	 * Creates an instance of the view.
+	 *
+	 * @param locale The localization services instance.
+	 * @param definitions The definitions of the merge fields of the group.
+	 * @param label The label of the group. The merge fields that do not belong to any group are displayed without the label.
+	 */
+	constructor( locale: Locale, definitions: Array<NormalizedMergeFieldDefinition>, label?: string ) {
+		super( locale );
+
+		this.listView = new ListView( locale );
+		this.listView.ariaLabel = label;
+		this.listView.items.addMany( definitions.map( definition => this._createListItem( definition ) ) );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-merge-fields__group' ]
+			},
+			children: [
+				...( label ? [ {
+					tag: 'div',
+					attributes: {
+						class: [ 'ck', 'ck-merge-fields__group-label' ]
+					},
+					children: [ label ]
+				} ] : [] ),
+				this.listView
+			]
+		} );
+	}
+
+	/**
+	 * Focuses the first merge field of the group.
+	 */
+	public focus(): void {
+		this.listView.focus();
+	}
+
+	/**
+	 * Creates the list item with the button inserting the merge field.
+	 */
+	private _createListItem( definition: NormalizedMergeFieldDefinition ): ListItemView {
+		const listItemView = new ListItemView( this.locale );
+		const buttonView = new ButtonView( this.locale );
+
+		buttonView.set( {
+			label: definition.label,
+			tooltip: getMergeFieldText( definition.id ),
+			withText: true
+		} );
+
+		buttonView.on( 'execute', () => {
+			this.fire<MergeFieldsGroupExecuteEvent>( 'execute', { id: definition.id } );
+		} );
+
+		listItemView.children.add( buttonView );
+
+		return listItemView;
+	}
+}
+
+/**
+ * Fired when a merge field is chosen from the list.
+ *
+ * @eventName ~MergeFieldsGroupView#execute
+ */
+export type MergeFieldsGroupExecuteEvent = {
+	name: 'execute';
+	args: [ { id: string } ];
+};
@@ -0,0 +1,234 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/ui/mergefieldsview
+ */
+
+import {
+	FocusCycler,
+	LabeledFieldView,
+	View,
+	ViewCollection,
+	createLabeledInputText,
+	type InputView
+} from 'ckeditor5/src/ui';
+import { FocusTracker, KeystrokeHandler, type Locale } from 'ckeditor5/src/utils';
+
+import MergeFieldsGroupView, { type MergeFieldsGroupExecuteEvent } from './mergefieldsgroupview';
+import { filterMergeFieldDefinitions, type NormalizedMergeFieldDefinition } from '../utils';
+
+import '../../theme/mergefieldsui.css';
+
+/**
+ * The view of the merge fields dropdown panel. It displays the search field and the merge fields matching the search query,
+ * divided into their groups.
+ *
+ * Choosing a merge field fires the {@link ~MergeFieldsExecuteEvent `execute`} event of the view.
+ */
+export default class MergeFieldsView extends View<HTMLDivElement> {
+	/**
+	 * The labeled input of the search query.
+	 */
+	public readonly filterInputView: LabeledFieldView<InputView>;
+
+	/**
+	 * The views of the groups of merge fields matching the search query.
+	 */
+	public readonly groupViews: ViewCollection<MergeFieldsGroupView>;
+
+	/**
+	 * Tracks information about the DOM focus in the view.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * Whether any merge field matches the search query.
+	 *
+	 * @observable
+	 */
+	declare public hasResults: boolean;
+
+	/**
+	 * The definitions of all merge fields.
+	 */
+	private readonly _definitions: Array<NormalizedMergeFieldDefinition>;
+
+	/**
+	 * The focusable children of the view: the search field and the lists of the groups.
+	 */
+	private readonly _focusables: ViewCollection;
+
+	/**
+	 * Helps cycling over {@link #_focusables} in the view.
+	 */
+	private readonly _focusCycler: FocusCycler;
+
+	/**
+	 * Creates an instance of the view.
+	 *
+	 * @param locale The localization services instance.
+	 * @param definitions The definitions of all merge fields.
+	 */
+	constructor( locale: Locale, definitions: Array<NormalizedMergeFieldDefinition> ) {
+		super( locale );
+
+		const t = locale.t;
+		const bind = this.bindTemplate;
+
+		this._definitions = definitions;
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+		this.groupViews = this.createCollection();
+		this._focusables = new ViewCollection();
+
+		this.set( 'hasResults', true );
+
+		this.filterInputView = new LabeledFieldView( locale, createLabeledInputText );
+		this.filterInputView.label = t( 'Search merge fields' );
+		this.filterInputView.fieldView.on( 'input', () => {
+			this.filter( ( this.filterInputView.fieldView.element as HTMLInputElement ).value );
+		} );
+
+		this._focusCycler = new FocusCycler( {
+			focusables: this._focusables,
+			focusTracker: this.focusTracker,
+			keystrokeHandler: this.keystrokes,
+			actions: {
+				focusPrevious: 'shift + tab',
+				focusNext: 'tab'
+			}
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-merge-fields' ],
+				tabindex: '-1'
+			},
+			children: [
+				this.filterInputView,
+				{
+					tag: 'div',
+					attributes: {
+						class: [ 'ck', 'ck-merge-fields__groups' ]
+					},
+					children: this.groupViews
+				},
+				{
+					tag: 'p',
+					attributes: {
+						class: [ 'ck', 'ck-merge-fields__no-results', bind.if( 'hasResults', 'ck-hidden' ) ]
+					},
+					children: [ t( 'No merge fields found' ) ]
+				}
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		this._focusables.add( this.filterInputView );
+		this.focusTracker.add( this.filterInputView.element! );
+
+		// Start listening for the keystrokes coming from #element.
+		this.keystrokes.listenTo( this.element! );
+
+		// The panel is in the dropdown which is a child of the toolbar, so the toolbar's keystroke handler would
+		// take over the arrow keys in the search field.
+		const stopPropagation = ( data: KeyboardEvent ) => data.stopPropagation();
+
+		this.keystrokes.set( 'arrowright', stopPropagation );
+		this.keystrokes.set( 'arrowleft', stopPropagation );
+
+		this.filter( '' );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Focuses the search field.
+	 */
+	public focus(): void {
+		this.filterInputView.focus();
+	}
+
+	/**
+	 * Resets the search query and displays all merge fields.
+	 */
+	public reset(): void {
+		const fieldView = this.filterInputView.fieldView;
+
+		fieldView.value = fieldView.element!.value = '';
+		this.filter( '' );
+	}
+
+	/**
+	 * Displays the merge fields whose ids or labels contain the query.
+	 */
+	public filter( query: string ): void {
+		const definitions = filterMergeFieldDefinitions( this._definitions, query );
+		const groups = new Map<string | undefined, Array<NormalizedMergeFieldDefinition>>();
+
+		for ( const definition of definitions ) {
+			if ( !groups.has( definition.groupLabel ) ) {
+				groups.set( definition.groupLabel, [] );
+			}
+
+			groups.get( definition.groupLabel )!.push( definition );
+		}
+
+		const previousGroupViews = Array.from( this.groupViews );
+
+		this.groupViews.clear();
+
+		for ( const groupView of previousGroupViews ) {
+			this._focusables.remove( groupView.listView );
+			this.focusTracker.remove( groupView.listView.element! );
+			groupView.destroy();
+		}
+
+		for ( const [ label, groupDefinitions ] of groups ) {
+			const groupView = new MergeFieldsGroupView( this.locale!, groupDefinitions, label );
+
+			groupView.on<MergeFieldsGroupExecuteEvent>( 'execute', ( evt, data ) => {
+				this.fire<MergeFieldsExecuteEvent>( 'execute', data );
+			} );
+
+			this.groupViews.add( groupView );
+			this._focusables.add( groupView.listView );
+			this.focusTracker.add( groupView.listView.element! );
+		}
+
+		this.hasResults = !!definitions.length;
+	}
+}
+
+/**
+ * Fired when a merge field is chosen in the view.
+ *
+ * @eventName ~MergeFieldsView#execute
+ */
+export type MergeFieldsExecuteEvent = {
+	name: 'execute';
+	args: [ { id: string } ];
+};
@@ -0,0 +1,96 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module merge-fields/utils
+ */
+
+import type { Editor } from 'ckeditor5/src/core';
+
+import type { MergeFieldDefinition, MergeFieldsGroupDefinition } from './mergefieldsconfig';
+
+/**
+ * The pattern matching the merge fields in the plain text, for instance `{{customer.name}}` or `{{ customer.name }}`.
+ * The first group is the id of the merge field.
+ */
+export const MERGE_FIELD_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * The normalized merge field definition with the label of its group, if any.
+ */
+export type NormalizedMergeFieldDefinition = Required<Pick<MergeFieldDefinition, 'id' | 'label'>> & {
+	sampleValue?: string;
+	groupLabel?: string;
+};
+
+/**
+ * Returns the plain text representation of the merge field with the given id.
+ */
+export function getMergeFieldText( id: string ): string {
+	return `{{${ id }}}`;
+}
+
+/**
+ * Returns the definitions of all configured merge fields, in the order of the configuration. The definitions of the groups
+ * are flattened.
+ */
+export function getMergeFieldDefinitions( editor: Editor ): Array<NormalizedMergeFieldDefinition> {
+	const definitions = editor.config.get( 'mergeFields.definitions' ) || [];
+	const normalized: Array<NormalizedMergeFieldDefinition> = [];
+
+	for ( const definition of definitions ) {
+		if ( isGroupDefinition( definition ) ) {
+			for ( const groupItem of definition.definitions ) {
+				normalized.push( normalizeDefinition( groupItem, definition.groupLabel ) );
+			}
+		} else {
+			normalized.push( normalizeDefinition( definition ) );
+		}
+	}
+
+	return normalized;
+}
+
+/**
+ * Returns the definition of the merge field with the given id, if it is configured.
+ */
+export function getMergeFieldDefinition( editor: Editor, id: string ): NormalizedMergeFieldDefinition | undefined {
+	return getMergeFieldDefinitions( editor ).find( definition => definition.id == id );
+}
+
+/**
+ * Returns the merge field definitions whose ids or labels contain the query, case-insensitive.
+ */
+export function filterMergeFieldDefinitions(
+	definitions: Array<NormalizedMergeFieldDefinition>,
+	query: string
+): Array<NormalizedMergeFieldDefinition> {
+	const normalizedQuery = query.trim().toLowerCase();
+
+	return definitions.filter( definition => {
+		return definition.id.toLowerCase().includes( normalizedQuery ) || definition.label.toLowerCase().includes( normalizedQuery );
+	} );
+}
+
+function isGroupDefinition( definition: MergeFieldDefinition | MergeFieldsGroupDefinition ): definition is MergeFieldsGroupDefinition {
+	return 'groupId' in definition;
+}
+
+function normalizeDefinition( definition: MergeFieldDefinition, groupLabel?: string ): NormalizedMergeFieldDefinition {
+	const normalized: NormalizedMergeFieldDefinition = {
+		id: definition.id,
+		label: definition.label || definition.id
+	};
+
+	if ( definition.sampleValue !== undefined ) {
+		normalized.sampleValue = definition.sampleValue;
+	}
+
+	if ( groupLabel ) {
+		normalized.groupLabel = groupLabel;
+	}
+
+	return normalized;
+}
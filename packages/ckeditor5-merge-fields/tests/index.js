@@ -0,0 +1,45 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	MergeFields as MergeFieldsDLL,
+	MergeFieldsEditing as MergeFieldsEditingDLL,
+	MergeFieldsUI as MergeFieldsUIDLL,
+	MergeFieldsAutocomplete as MergeFieldsAutocompleteDLL,
+	InsertMergeFieldCommand as InsertMergeFieldCommandDLL,
+	PreviewMergeFieldsCommand as PreviewMergeFieldsCommandDLL
+} from '../src';
+import MergeFields from '../src/mergefields';
+import MergeFieldsEditing from '../src/mergefieldsediting';
+import MergeFieldsUI from '../src/mergefieldsui';
+import MergeFieldsAutocomplete from '../src/mergefieldsautocomplete';
+import InsertMergeFieldCommand from '../src/insertmergefieldcommand';
+import PreviewMergeFieldsCommand from '../src/previewmergefieldscommand';
+
+describe( 'MergeFields DLL', () => {
+	it( 'exports MergeFields', () => {
+		expect( MergeFieldsDLL ).to.equal( MergeFields );
+	} );
+
+	it( 'exports MergeFieldsEditing', () => {
+		expect( MergeFieldsEditingDLL ).to.equal( MergeFieldsEditing );
+	} );
+
+	it( 'exports MergeFieldsUI', () => {
+		expect( MergeFieldsUIDLL ).to.equal( MergeFieldsUI );
+	} );
+
+	it( 'exports MergeFieldsAutocomplete', () => {
+		expect( MergeFieldsAutocompleteDLL ).to.equal( MergeFieldsAutocomplete );
+	} );
+
+	it( 'exports InsertMergeFieldCommand', () => {
+		expect( InsertMergeFieldCommandDLL ).to.equal( InsertMergeFieldCommand );
+	} );
+
+	it( 'exports PreviewMergeFieldsCommand', () => {
+		expect( PreviewMergeFieldsCommandDLL ).to.equal( PreviewMergeFieldsCommand );
+	} );
+} );
@@ -0,0 +1,109 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import MergeFieldsEditing from '../src/mergefieldsediting';
+
+describe( 'InsertMergeFieldCommand', () => {
+	let editor, model, command;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, BoldEditing, MergeFieldsEditing ]
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'insertMergeField' );
+
+		model.schema.register( 'codeBlock', { inheritAllFrom: '$block' } );
+		model.schema.addChildCheck( ( context, childDefinition ) => {
+			if ( context.endsWith( 'codeBlock' ) && childDefinition.name == 'mergeField' ) {
+				return false;
+			}
+		} );
+		editor.conversion.elementToElement( { model: 'codeBlock', view: 'pre' } );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true when the selection is in a paragraph', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when the merge field is not allowed at the selection', () => {
+			setModelData( model, '<codeBlock>Foo[]</codeBlock>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should insert the merge field at the selection', () => {
+			setModelData( model, '<paragraph>Foo[]bar</paragraph>' );
+
+			command.execute( { id: 'customer.name' } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Foo<mergeField mergeFieldId="customer.name"></mergeField>[]bar</paragraph>'
+			);
+		} );
+
+		it( 'should replace the selected content', () => {
+			setModelData( model, '<paragraph>F[oo]bar</paragraph>' );
+
+			command.execute( { id: 'date' } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>F<mergeField mergeFieldId="date"></mergeField>[]bar</paragraph>'
+			);
+		} );
+
+		it( 'should replace the given range', () => {
+			setModelData( model, '<paragraph>Foo bar[]</paragraph>' );
+
+			const paragraph = model.document.getRoot().getChild( 0 );
+			const range = model.createRange( model.createPositionAt( paragraph, 4 ), model.createPositionAt( paragraph, 7 ) );
+
+			command.execute( { id: 'date', range } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Foo <mergeField mergeFieldId="date"></mergeField>[]</paragraph>'
+			);
+		} );
+
+		it( 'should copy the attributes of the selection to the merge field', () => {
+			setModelData( model, '<paragraph><$text bold="true">Foo[]</$text></paragraph>' );
+
+			command.execute( { id: 'date' } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>' +
+					'<$text bold="true">Foo</$text><mergeField bold="true" mergeFieldId="date"></mergeField><$text bold="true">[]</$text>' +
+				'</paragraph>'
+			);
+		} );
+
+		it( 'should insert the merge field in a single undo step', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			const spy = sinon.spy();
+
+			model.document.on( 'change', spy );
+
+			command.execute( { id: 'date' } );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+} );
@@ -0,0 +1,56 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals console, window, document, URLSearchParams */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+
+import MergeFields from '../../src/mergefields';
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [ ArticlePluginSet, MergeFields ],
+		toolbar: [
+			'heading', '|', 'bold', 'italic', 'link', 'bulletedList', 'numberedList', '|',
+			'mergeFields', 'previewMergeFields', '|', 'undo', 'redo'
+		],
+		mergeFields: {
+			definitions: [
+				{ id: 'date', label: 'Current date', sampleValue: 'June 1, 2023' },
+				{
+					groupId: 'customer',
+					groupLabel: 'Customer',
+					definitions: [
+						{ id: 'customer.name', label: 'Name', sampleValue: 'John Smith' },
+						{ id: 'customer.email', label: 'Email', sampleValue: 'john.smith@example.com' },
+						{ id: 'customer.address', label: 'Address', sampleValue: '742 Evergreen Terrace, Springfield' }
+					]
+				},
+				{
+					groupId: 'order',
+					groupLabel: 'Order',
+					definitions: [
+						{ id: 'order.id', label: 'Order number', sampleValue: '#10482' },
+						{ id: 'order.total', label: 'Total', sampleValue: '$128.00' }
+					]
+				},
+				{
+					groupId: 'company',
+					groupLabel: 'Company',
+					definitions: [
+						{ id: 'company.name', label: 'Company name', sampleValue: 'ACME Inc.' }
+					]
+				}
+			],
+			dataFormat: new URLSearchParams( window.location.search ).get( 'dataFormat' ) || 'text'
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
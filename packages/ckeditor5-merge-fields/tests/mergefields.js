@@ -0,0 +1,21 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Widget from '@ckeditor/ckeditor5-widget/src/widget';
+
+import MergeFields from '../src/mergefields';
+import MergeFieldsEditing from '../src/mergefieldsediting';
+import MergeFieldsUI from '../src/mergefieldsui';
+import MergeFieldsAutocomplete from '../src/mergefieldsautocomplete';
+
+describe( 'MergeFields', () => {
+	it( 'should be correctly named', () => {
+		expect( MergeFields.pluginName ).to.equal( 'MergeFields' );
+	} );
+
+	it( 'should require MergeFieldsEditing, MergeFieldsUI, MergeFieldsAutocomplete and Widget', () => {
+		expect( MergeFields.requires ).to.deep.equal( [ MergeFieldsEditing, MergeFieldsUI, MergeFieldsAutocomplete, Widget ] );
+	} );
+} );
@@ -0,0 +1,215 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import ContextualBalloon from '@ckeditor/ckeditor5-ui/src/panel/balloon/contextualballoon';
+import DomEventData from '@ckeditor/ckeditor5-engine/src/view/observer/domeventdata';
+import EventInfo from '@ckeditor/ckeditor5-utils/src/eventinfo';
+import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import MergeFieldsEditing from '../src/mergefieldsediting';
+import MergeFieldsAutocomplete from '../src/mergefieldsautocomplete';
+import MergeFieldsAutocompleteView from '../src/ui/mergefieldsautocompleteview';
+
+describe( 'MergeFieldsAutocomplete', () => {
+	let editor, model, element, balloon, autocompleteView;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, MergeFieldsEditing, MergeFieldsAutocomplete ],
+			mergeFields: {
+				definitions: [
+					{ id: 'date', label: 'Current date' },
+					{
+						groupId: 'customer',
+						groupLabel: 'Customer',
+						definitions: [
+							{ id: 'customer.name', label: 'Name' },
+							{ id: 'customer.email', label: 'Email' }
+						]
+					}
+				]
+			}
+		} );
+
+		model = editor.model;
+		balloon = editor.plugins.get( ContextualBalloon );
+		autocompleteView = editor.plugins.get( MergeFieldsAutocomplete )._view;
+
+		setModelData( model, '<paragraph>Dear []</paragraph>' );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( MergeFieldsAutocomplete.pluginName ).to.equal( 'MergeFieldsAutocomplete' );
+	} );
+
+	it( 'should require the ContextualBalloon plugin', () => {
+		expect( MergeFieldsAutocomplete.requires ).to.deep.equal( [ ContextualBalloon ] );
+	} );
+
+	it( 'should create the list view', () => {
+		expect( autocompleteView ).to.be.instanceOf( MergeFieldsAutocompleteView );
+	} );
+
+	describe( 'typing "{{"', () => {
+		it( 'should show all merge fields', () => {
+			type( '{{' );
+
+			expect( balloon.visibleView ).to.equal( autocompleteView );
+			expect( getLabels() ).to.deep.equal( [ 'Current date', 'Customer: Name', 'Customer: Email' ] );
+			expect( autocompleteView.selectedIndex ).to.equal( 0 );
+		} );
+
+		it( 'should add the marker on the typed text', () => {
+			type( '{{' );
+
+			const marker = model.markers.get( 'mergeFields:autocomplete' );
+
+			expect( marker.getStart().offset ).to.equal( 5 );
+			expect( marker.getEnd().offset ).to.equal( 7 );
+		} );
+
+		it( 'should filter the merge fields by the typed query', () => {
+			type( '{{' );
+			type( 'na' );
+
+			expect( balloon.visibleView ).to.equal( autocompleteView );
+			expect( getLabels() ).to.deep.equal( [ 'Customer: Name' ] );
+		} );
+
+		it( 'should hide the list when no merge field matches the query', () => {
+			type( '{{foo' );
+
+			expect( balloon.visibleView ).to.be.null;
+			expect( model.markers.has( 'mergeFields:autocomplete' ) ).to.be.false;
+		} );
+
+		it( 'should hide the list when the typed text does not match anymore', () => {
+			type( '{{' );
+			type( ' ' );
+
+			expect( balloon.visibleView ).to.be.null;
+			expect( model.markers.has( 'mergeFields:autocomplete' ) ).to.be.false;
+		} );
+
+		it( 'should not show the list when the merge field cannot be inserted', () => {
+			editor.commands.get( 'insertMergeField' ).forceDisabled( 'test' );
+
+			type( '{{' );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should hide the list when the editor becomes read-only', () => {
+			type( '{{' );
+
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+	} );
+
+	describe( 'keyboard navigation', () => {
+		beforeEach( () => {
+			type( '{{cust' );
+		} );
+
+		it( 'should select the next and the previous merge field with the arrow keys', () => {
+			fireKeyDownEvent( keyCodes.arrowdown );
+			expect( autocompleteView.selectedIndex ).to.equal( 1 );
+
+			fireKeyDownEvent( keyCodes.arrowdown );
+			expect( autocompleteView.selectedIndex ).to.equal( 0 );
+
+			fireKeyDownEvent( keyCodes.arrowup );
+			expect( autocompleteView.selectedIndex ).to.equal( 1 );
+		} );
+
+		it( 'should insert the selected merge field in the place of the typed text on Enter', () => {
+			fireKeyDownEvent( keyCodes.arrowdown );
+			fireKeyDownEvent( keyCodes.enter );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Dear <mergeField mergeFieldId="customer.email"></mergeField>[]</paragraph>'
+			);
+			expect( balloon.visibleView ).to.be.null;
+			expect( model.markers.has( 'mergeFields:autocomplete' ) ).to.be.false;
+		} );
+
+		it( 'should insert the selected merge field on Tab', () => {
+			fireKeyDownEvent( keyCodes.tab );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Dear <mergeField mergeFieldId="customer.name"></mergeField>[]</paragraph>'
+			);
+		} );
+
+		it( 'should hide the list on Esc', () => {
+			const data = fireKeyDownEvent( keyCodes.esc );
+
+			expect( balloon.visibleView ).to.be.null;
+			expect( model.markers.has( 'mergeFields:autocomplete' ) ).to.be.false;
+			sinon.assert.calledOnce( data.preventDefault );
+		} );
+
+		it( 'should not handle the keys when the list is hidden', () => {
+			fireKeyDownEvent( keyCodes.esc );
+
+			const data = fireKeyDownEvent( keyCodes.enter );
+
+			sinon.assert.notCalled( data.preventDefault );
+		} );
+	} );
+
+	it( 'should insert the clicked merge field and focus the editing view', () => {
+		const focusSpy = sinon.spy( editor.editing.view, 'focus' );
+
+		type( '{{' );
+
+		autocompleteView.items.get( 0 ).children.first.fire( 'execute' );
+
+		expect( getModelData( model ) ).to.equal(
+			'<paragraph>Dear <mergeField mergeFieldId="date"></mergeField>[]</paragraph>'
+		);
+		sinon.assert.calledOnce( focusSpy );
+	} );
+
+	function type( text ) {
+		model.change( writer => {
+			writer.insertText( text, model.document.selection.getFirstPosition() );
+		} );
+	}
+
+	function getLabels() {
+		return Array.from( autocompleteView.items ).map( item => item.children.first.label );
+	}
+
+	function fireKeyDownEvent( keyCode ) {
+		const view = editor.editing.view;
+		const options = { keyCode, preventDefault: sinon.spy(), stopPropagation: sinon.spy() };
+
+		const eventInfo = new EventInfo( view.document, 'keydown' );
+
+		view.document.fire( eventInfo, new DomEventData( view.document, { target: document.body }, options ) );
+
+		return options;
+	}
+} );
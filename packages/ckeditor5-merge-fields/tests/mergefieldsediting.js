@@ -0,0 +1,255 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import Bold from '@ckeditor/ckeditor5-basic-styles/src/bold';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { getData as getViewData } from '@ckeditor/ckeditor5-engine/src/dev-utils/view';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import MergeFieldsEditing from '../src/mergefieldsediting';
+import InsertMergeFieldCommand from '../src/insertmergefieldcommand';
+import PreviewMergeFieldsCommand from '../src/previewmergefieldscommand';
+
+describe( 'MergeFieldsEditing', () => {
+	let editor, model, element;
+
+	const definitions = [
+		{ id: 'date', label: 'Current date', sampleValue: 'June 1, 2023' },
+		{
+			groupId: 'customer',
+			groupLabel: 'Customer',
+			definitions: [
+				{ id: 'customer.name', label: 'Name', sampleValue: 'John Smith' },
+				{ id: 'customer.email' }
+			]
+		}
+	];
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await createEditor();
+		model = editor.model;
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( MergeFieldsEditing.pluginName ).to.equal( 'MergeFieldsEditing' );
+	} );
+
+	it( 'should register the commands', () => {
+		expect( editor.commands.get( 'insertMergeField' ) ).to.be.instanceOf( InsertMergeFieldCommand );
+		expect( editor.commands.get( 'previewMergeFields' ) ).to.be.instanceOf( PreviewMergeFieldsCommand );
+	} );
+
+	it( 'should define the default configuration', async () => {
+		const defaultEditor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, MergeFieldsEditing ]
+		} );
+
+		expect( defaultEditor.config.get( 'mergeFields' ) ).to.deep.equal( { definitions: [], dataFormat: 'text' } );
+
+		await defaultEditor.destroy();
+	} );
+
+	describe( 'schema', () => {
+		it( 'should allow the merge field where the text is allowed', () => {
+			expect( model.schema.checkChild( [ '$root', 'paragraph' ], 'mergeField' ) ).to.be.true;
+			expect( model.schema.checkChild( [ '$root' ], 'mergeField' ) ).to.be.false;
+		} );
+
+		it( 'should register the merge field as an inline object', () => {
+			expect( model.schema.isObject( 'mergeField' ) ).to.be.true;
+			expect( model.schema.isInline( 'mergeField' ) ).to.be.true;
+		} );
+
+		it( 'should allow the "mergeFieldId" and the text attributes on the merge field', () => {
+			expect( model.schema.checkAttribute( [ '$root', 'paragraph', 'mergeField' ], 'mergeFieldId' ) ).to.be.true;
+			expect( model.schema.checkAttribute( [ '$root', 'paragraph', 'mergeField' ], 'bold' ) ).to.be.true;
+		} );
+	} );
+
+	describe( 'the "text" data format', () => {
+		it( 'should convert the plain text merge fields to the model', () => {
+			editor.setData( '<p>Dear {{customer.name}}, today is {{ date }}.</p>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Dear <mergeField mergeFieldId="customer.name"></mergeField>, ' +
+				'today is <mergeField mergeFieldId="date"></mergeField>.</paragraph>'
+			);
+		} );
+
+		it( 'should convert the plain text merge fields with the text attributes', () => {
+			editor.setData( '<p><strong>{{date}}</strong></p>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph><mergeField bold="true" mergeFieldId="date"></mergeField></paragraph>'
+			);
+		} );
+
+		it( 'should convert the merge field markup to the model', () => {
+			editor.setData( '<p><span class="merge-field" data-merge-field-id="date">{{date}}</span></p>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph><mergeField mergeFieldId="date"></mergeField></paragraph>'
+			);
+		} );
+
+		it( 'should not convert the text that is not a merge field', () => {
+			editor.setData( '<p>{{ not a field }} {date}</p>' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>{{ not a field }} {date}</paragraph>'
+			);
+		} );
+
+		it( 'should output the merge fields as the plain text', () => {
+			setModelData( model, '<paragraph>Dear <mergeField mergeFieldId="customer.name"></mergeField>!</paragraph>' );
+
+			expect( editor.getData() ).to.equal( '<p>Dear {{customer.name}}!</p>' );
+		} );
+
+		it( 'should output the plain text merge fields unchanged', () => {
+			editor.setData( '<p>{{date}} and {{unknown}}</p>' );
+
+			expect( editor.getData() ).to.equal( '<p>{{date}} and {{unknown}}</p>' );
+		} );
+	} );
+
+	describe( 'the "markup" data format', () => {
+		let markupEditor;
+
+		beforeEach( async () => {
+			markupEditor = await createEditor( 'markup' );
+		} );
+
+		afterEach( async () => {
+			await markupEditor.destroy();
+		} );
+
+		it( 'should convert the merge field markup to the model', () => {
+			markupEditor.setData( '<p>Dear <span class="merge-field" data-merge-field-id="customer.name">{{customer.name}}</span></p>' );
+
+			expect( getModelData( markupEditor.model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Dear <mergeField mergeFieldId="customer.name"></mergeField></paragraph>'
+			);
+		} );
+
+		it( 'should not convert the plain text merge fields', () => {
+			markupEditor.setData( '<p>Dear {{customer.name}}</p>' );
+
+			expect( getModelData( markupEditor.model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>Dear {{customer.name}}</paragraph>'
+			);
+		} );
+
+		it( 'should output the merge fields as the markup', () => {
+			setModelData( markupEditor.model, '<paragraph><mergeField mergeFieldId="date"></mergeField></paragraph>' );
+
+			expect( markupEditor.getData() ).to.equal(
+				'<p><span class="merge-field" data-merge-field-id="date">{{date}}</span></p>'
+			);
+		} );
+	} );
+
+	describe( 'editing view', () => {
+		it( 'should display the merge field as a widget with its label', () => {
+			setModelData( model, '<paragraph><mergeField mergeFieldId="customer.name"></mergeField></paragraph>' );
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p><span class="ck-merge-field ck-widget" contenteditable="false" title="{{customer.name}}">Name</span></p>'
+			);
+		} );
+
+		it( 'should display the id of the merge field without the label', () => {
+			setModelData( model, '<paragraph><mergeField mergeFieldId="customer.email"></mergeField></paragraph>' );
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p><span class="ck-merge-field ck-widget" contenteditable="false" title="{{customer.email}}">customer.email</span></p>'
+			);
+		} );
+
+		it( 'should mark the merge field that is not configured', () => {
+			setModelData( model, '<paragraph><mergeField mergeFieldId="unknown"></mergeField></paragraph>' );
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p><span class="ck-merge-field ck-merge-field_unknown ck-widget" contenteditable="false" title="{{unknown}}">' +
+					'unknown' +
+				'</span></p>'
+			);
+		} );
+
+		it( 'should set the accessible label of the widget', () => {
+			setModelData( model, '<paragraph><mergeField mergeFieldId="date"></mergeField></paragraph>' );
+
+			const viewElement = editor.editing.view.document.getRoot().getChild( 0 ).getChild( 0 );
+
+			expect( viewElement.getCustomProperty( 'widgetLabel' ) ).to.deep.equal( [ 'Merge field: Current date' ] );
+		} );
+
+		describe( 'preview mode', () => {
+			it( 'should display the sample values of the merge fields', () => {
+				setModelData( model, '<paragraph><mergeField mergeFieldId="date"></mergeField></paragraph>' );
+
+				editor.execute( 'previewMergeFields' );
+
+				expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+					'<p><span class="ck-merge-field ck-merge-field_preview ck-widget" contenteditable="false" title="{{date}}">' +
+						'June 1, 2023' +
+					'</span></p>'
+				);
+			} );
+
+			it( 'should display the label of the merge field without the sample value', () => {
+				setModelData( model, '<paragraph><mergeField mergeFieldId="customer.email"></mergeField></paragraph>' );
+
+				editor.execute( 'previewMergeFields' );
+
+				expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+					'<p><span class="ck-merge-field ck-merge-field_preview ck-widget" contenteditable="false" ' +
+						'title="{{customer.email}}">customer.email</span></p>'
+				);
+			} );
+
+			it( 'should restore the labels when the preview mode is turned off', () => {
+				setModelData( model, '<paragraph><mergeField mergeFieldId="date"></mergeField></paragraph>' );
+
+				editor.execute( 'previewMergeFields' );
+				editor.execute( 'previewMergeFields' );
+
+				expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+					'<p><span class="ck-merge-field ck-widget" contenteditable="false" title="{{date}}">Current date</span></p>'
+				);
+			} );
+
+			it( 'should not change the data', () => {
+				setModelData( model, '<paragraph><mergeField mergeFieldId="date"></mergeField></paragraph>' );
+
+				editor.execute( 'previewMergeFields' );
+
+				expect( editor.getData() ).to.equal( '<p>{{date}}</p>' );
+			} );
+		} );
+	} );
+
+	function createEditor( dataFormat ) {
+		return ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, Bold, MergeFieldsEditing ],
+			mergeFields: { definitions, ...( dataFormat ? { dataFormat } : {} ) }
+		} );
+	}
+} );
@@ -0,0 +1,165 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import ButtonView from '@ckeditor/ckeditor5-ui/src/button/buttonview';
+import DropdownView from '@ckeditor/ckeditor5-ui/src/dropdown/dropdownview';
+
+import MergeFieldsEditing from '../src/mergefieldsediting';
+import MergeFieldsUI from '../src/mergefieldsui';
+import MergeFieldsView from '../src/ui/mergefieldsview';
+import mergeFieldsIcon from '../theme/icons/merge-fields.svg';
+import previewMergeFieldsIcon from '../theme/icons/preview-merge-fields.svg';
+
+describe( 'MergeFieldsUI', () => {
+	let editor, element;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, MergeFieldsEditing, MergeFieldsUI ],
+			mergeFields: {
+				definitions: [
+					{ id: 'date', label: 'Current date' },
+					{
+						groupId: 'customer',
+						groupLabel: 'Customer',
+						definitions: [
+							{ id: 'customer.name', label: 'Name' }
+						]
+					}
+				]
+			}
+		} );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( MergeFieldsUI.pluginName ).to.equal( 'MergeFieldsUI' );
+	} );
+
+	describe( 'the "mergeFields" dropdown', () => {
+		let dropdown, command;
+
+		beforeEach( () => {
+			command = editor.commands.get( 'insertMergeField' );
+			dropdown = editor.ui.componentFactory.create( 'mergeFields' );
+			dropdown.render();
+			document.body.appendChild( dropdown.element );
+		} );
+
+		afterEach( () => {
+			dropdown.element.remove();
+			dropdown.destroy();
+		} );
+
+		it( 'should be a dropdown', () => {
+			expect( dropdown ).to.be.instanceOf( DropdownView );
+		} );
+
+		it( 'should have a label, an icon and a tooltip', () => {
+			expect( dropdown.buttonView.label ).to.equal( 'Insert merge field' );
+			expect( dropdown.buttonView.icon ).to.equal( mergeFieldsIcon );
+			expect( dropdown.buttonView.tooltip ).to.be.true;
+		} );
+
+		it( 'should bind #isEnabled to the command', () => {
+			command.isEnabled = false;
+			expect( dropdown.isEnabled ).to.be.false;
+
+			command.isEnabled = true;
+			expect( dropdown.isEnabled ).to.be.true;
+		} );
+
+		it( 'should create the panel content when opened for the first time', () => {
+			expect( dropdown.panelView.children.length ).to.equal( 0 );
+
+			dropdown.isOpen = true;
+
+			expect( dropdown.panelView.children.first ).to.be.instanceOf( MergeFieldsView );
+			expect( dropdown.panelView.children.first.groupViews.length ).to.equal( 2 );
+		} );
+
+		it( 'should reset the search query and focus the search field when opened', () => {
+			dropdown.isOpen = true;
+
+			const mergeFieldsView = dropdown.panelView.children.first;
+			const focusSpy = sinon.spy( mergeFieldsView, 'focus' );
+
+			mergeFieldsView.filter( 'date' );
+			dropdown.isOpen = false;
+			dropdown.isOpen = true;
+
+			expect( mergeFieldsView.groupViews.length ).to.equal( 2 );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should insert the chosen merge field, close the dropdown and focus the editing view', () => {
+			const executeSpy = sinon.stub( editor, 'execute' );
+			const focusSpy = sinon.stub( editor.editing.view, 'focus' );
+
+			dropdown.isOpen = true;
+			dropdown.panelView.children.first.fire( 'execute', { id: 'customer.name' } );
+
+			expect( dropdown.isOpen ).to.be.false;
+			sinon.assert.calledOnceWithExactly( executeSpy, 'insertMergeField', { id: 'customer.name' } );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+	} );
+
+	describe( 'the "previewMergeFields" button', () => {
+		let button, command;
+
+		beforeEach( () => {
+			command = editor.commands.get( 'previewMergeFields' );
+			button = editor.ui.componentFactory.create( 'previewMergeFields' );
+		} );
+
+		afterEach( () => {
+			button.destroy();
+		} );
+
+		it( 'should be a toggleable button', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.isToggleable ).to.be.true;
+		} );
+
+		it( 'should have a label, an icon and a tooltip', () => {
+			expect( button.label ).to.equal( 'Preview merge fields' );
+			expect( button.icon ).to.equal( previewMergeFieldsIcon );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should bind #isOn and #isEnabled to the command', () => {
+			command.value = true;
+			expect( button.isOn ).to.be.true;
+
+			command.isEnabled = false;
+			expect( button.isEnabled ).to.be.false;
+		} );
+
+		it( 'should toggle the preview mode and focus the editing view', () => {
+			const focusSpy = sinon.stub( editor.editing.view, 'focus' );
+
+			button.fire( 'execute' );
+
+			expect( command.value ).to.be.true;
+			sinon.assert.calledOnce( focusSpy );
+		} );
+	} );
+} );
@@ -0,0 +1,70 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+
+import MergeFieldsEditing from '../src/mergefieldsediting';
+
+describe( 'PreviewMergeFieldsCommand', () => {
+	let editor, command;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, MergeFieldsEditing ]
+		} );
+
+		command = editor.commands.get( 'previewMergeFields' );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	it( 'should not affect data', () => {
+		expect( command.affectsData ).to.be.false;
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true', () => {
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be true in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( 'value', () => {
+		it( 'should be false by default', () => {
+			expect( command.value ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should toggle the preview mode', () => {
+			command.execute();
+
+			expect( command.value ).to.be.true;
+
+			command.execute();
+
+			expect( command.value ).to.be.false;
+		} );
+
+		it( 'should force the preview mode on or off', () => {
+			command.execute( { forceValue: true } );
+			command.execute( { forceValue: true } );
+
+			expect( command.value ).to.be.true;
+
+			command.execute( { forceValue: false } );
+
+			expect( command.value ).to.be.false;
+		} );
+	} );
+} );
@@ -0,0 +1,143 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Event */
+
+import { Locale } from '@ckeditor/ckeditor5-utils';
+import FocusCycler from '@ckeditor/ckeditor5-ui/src/focuscycler';
+import LabeledFieldView from '@ckeditor/ckeditor5-ui/src/labeledfield/labeledfieldview';
+
+import MergeFieldsView from '../../src/ui/mergefieldsview';
+import MergeFieldsGroupView from '../../src/ui/mergefieldsgroupview';
+
+describe( 'MergeFieldsView', () => {
+	let view;
+
+	const definitions = [
+		{ id: 'date', label: 'Current date' },
+		{ id: 'customer.name', label: 'Name', groupLabel: 'Customer' },
+		{ id: 'customer.email', label: 'Email', groupLabel: 'Customer' }
+	];
+
+	beforeEach( () => {
+		view = new MergeFieldsView( new Locale(), definitions );
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create the element', () => {
+			expect( view.element.classList.contains( 'ck-merge-fields' ) ).to.be.true;
+			expect( view.element.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+		} );
+
+		it( 'should create the search field', () => {
+			expect( view.filterInputView ).to.be.instanceOf( LabeledFieldView );
+			expect( view.filterInputView.label ).to.equal( 'Search merge fields' );
+		} );
+
+		it( 'should create the focus cycler', () => {
+			expect( view._focusCycler ).to.be.instanceOf( FocusCycler );
+		} );
+	} );
+
+	describe( 'render()', () => {
+		it( 'should display all merge fields divided into the groups', () => {
+			expect( view.groupViews.length ).to.equal( 2 );
+			expect( view.groupViews.get( 0 ) ).to.be.instanceOf( MergeFieldsGroupView );
+			expect( getLabels( view.groupViews.get( 0 ) ) ).to.deep.equal( [ 'Current date' ] );
+			expect( getLabels( view.groupViews.get( 1 ) ) ).to.deep.equal( [ 'Name', 'Email' ] );
+		} );
+
+		it( 'should display the labels of the groups', () => {
+			expect( view.groupViews.get( 0 ).element.querySelector( '.ck-merge-fields__group-label' ) ).to.be.null;
+			expect( view.groupViews.get( 1 ).element.querySelector( '.ck-merge-fields__group-label' ).textContent ).to.equal( 'Customer' );
+		} );
+
+		it( 'should display the merge fields as the list buttons with the tooltips', () => {
+			const buttonView = view.groupViews.get( 1 ).listView.items.first.children.first;
+
+			expect( buttonView.withText ).to.be.true;
+			expect( buttonView.tooltip ).to.equal( '{{customer.name}}' );
+		} );
+	} );
+
+	describe( 'filter()', () => {
+		it( 'should display only the matching merge fields', () => {
+			view.filter( 'mail' );
+
+			expect( view.groupViews.length ).to.equal( 1 );
+			expect( getLabels( view.groupViews.get( 0 ) ) ).to.deep.equal( [ 'Email' ] );
+			expect( view.hasResults ).to.be.true;
+		} );
+
+		it( 'should display the message when no merge field matches', () => {
+			const messageElement = view.element.querySelector( '.ck-merge-fields__no-results' );
+
+			expect( messageElement.classList.contains( 'ck-hidden' ) ).to.be.true;
+
+			view.filter( 'foo' );
+
+			expect( view.groupViews.length ).to.equal( 0 );
+			expect( view.hasResults ).to.be.false;
+			expect( messageElement.classList.contains( 'ck-hidden' ) ).to.be.false;
+		} );
+
+		it( 'should be called when the search query is typed', () => {
+			const inputElement = view.filterInputView.fieldView.element;
+
+			inputElement.value = 'date';
+			inputElement.dispatchEvent( new Event( 'input' ) );
+
+			expect( view.groupViews.length ).to.equal( 1 );
+			expect( getLabels( view.groupViews.get( 0 ) ) ).to.deep.equal( [ 'Current date' ] );
+		} );
+	} );
+
+	describe( 'reset()', () => {
+		it( 'should clear the search query and display all merge fields', () => {
+			const inputElement = view.filterInputView.fieldView.element;
+
+			inputElement.value = 'date';
+			inputElement.dispatchEvent( new Event( 'input' ) );
+
+			view.reset();
+
+			expect( inputElement.value ).to.equal( '' );
+			expect( view.groupViews.length ).to.equal( 2 );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the search field', () => {
+			const spy = sinon.spy( view.filterInputView, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'execute event', () => {
+		it( 'should be fired when a merge field is chosen', () => {
+			const spy = sinon.spy();
+
+			view.on( 'execute', spy );
+			view.groupViews.get( 1 ).listView.items.last.children.first.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 1 ] ).to.deep.equal( { id: 'customer.email' } );
+		} );
+	} );
+
+	function getLabels( groupView ) {
+		return Array.from( groupView.listView.items ).map( item => item.children.first.label );
+	}
+} );
@@ -0,0 +1,102 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+
+import {
+	MERGE_FIELD_PATTERN,
+	filterMergeFieldDefinitions,
+	getMergeFieldDefinition,
+	getMergeFieldDefinitions,
+	getMergeFieldText
+} from '../src/utils';
+
+describe( 'merge fields utils', () => {
+	let editor;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			mergeFields: {
+				definitions: [
+					{ id: 'date', label: 'Current date', sampleValue: 'June 1, 2023' },
+					{
+						groupId: 'customer',
+						groupLabel: 'Customer',
+						definitions: [
+							{ id: 'customer.name', label: 'Name' },
+							{ id: 'customer.email' }
+						]
+					}
+				]
+			}
+		} );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'MERGE_FIELD_PATTERN', () => {
+		it( 'should match the merge fields with and without the spaces', () => {
+			const text = 'Dear {{customer.name}}, today is {{ date }}. {{not valid}}';
+
+			expect( text.match( MERGE_FIELD_PATTERN ) ).to.deep.equal( [ '{{customer.name}}', '{{ date }}' ] );
+		} );
+	} );
+
+	describe( 'getMergeFieldText()', () => {
+		it( 'should return the plain text of the merge field', () => {
+			expect( getMergeFieldText( 'customer.name' ) ).to.equal( '{{customer.name}}' );
+		} );
+	} );
+
+	describe( 'getMergeFieldDefinitions()', () => {
+		it( 'should return the flattened and normalized definitions', () => {
+			expect( getMergeFieldDefinitions( editor ) ).to.deep.equal( [
+				{ id: 'date', label: 'Current date', sampleValue: 'June 1, 2023' },
+				{ id: 'customer.name', label: 'Name', groupLabel: 'Customer' },
+				{ id: 'customer.email', label: 'customer.email', groupLabel: 'Customer' }
+			] );
+		} );
+
+		it( 'should return an empty array when no merge fields are configured', async () => {
+			const emptyEditor = await VirtualTestEditor.create( {} );
+
+			expect( getMergeFieldDefinitions( emptyEditor ) ).to.deep.equal( [] );
+
+			await emptyEditor.destroy();
+		} );
+	} );
+
+	describe( 'getMergeFieldDefinition()', () => {
+		it( 'should return the definition of the merge field', () => {
+			expect( getMergeFieldDefinition( editor, 'customer.name' ) ).to.deep.equal(
+				{ id: 'customer.name', label: 'Name', groupLabel: 'Customer' }
+			);
+		} );
+
+		it( 'should return undefined for the merge field that is not configured', () => {
+			expect( getMergeFieldDefinition( editor, 'unknown' ) ).to.be.undefined;
+		} );
+	} );
+
+	describe( 'filterMergeFieldDefinitions()', () => {
+		it( 'should match the ids and the labels case-insensitively', () => {
+			const definitions = getMergeFieldDefinitions( editor );
+
+			expect( filterMergeFieldDefinitions( definitions, 'CUSTOMER' ).map( ( { id } ) => id ) ).to.deep.equal(
+				[ 'customer.name', 'customer.email' ]
+			);
+			expect( filterMergeFieldDefinitions( definitions, 'date' ).map( ( { id } ) => id ) ).to.deep.equal( [ 'date' ] );
+			expect( filterMergeFieldDefinitions( definitions, 'nam' ).map( ( { id } ) => id ) ).to.deep.equal( [ 'customer.name' ] );
+		} );
+
+		it( 'should return all definitions for an empty query', () => {
+			const definitions = getMergeFieldDefinitions( editor );
+
+			expect( filterMergeFieldDefinitions( definitions, '  ' ) ).to.deep.equal( definitions );
+		} );
+	} );
+} );
@@ -160,6 +160,10 @@ function findAllItemLikeElements(
  * It contains `mso-level-number-format` property which defines list numbering/bullet style. If this property
  * is not defined it means default `decimal` numbering.
  *
+ * The `mso-level-text` property defines the marker of the list level. The numbered list is a multi-level list
+ * (numbered hierarchically, for instance `1.`, `1.1.`, `1.1.1.`) if the marker of any of its levels
+ * includes the numbers of multiple levels, for instance `"%1\.%2\."`.
+ *
  * Here CSS string representation is used as `mso-level-number-format` property is an invalid CSS property
  * and will be removed during CSS parsing.
  *
@@ -173,6 +177,7 @@ function findAllItemLikeElements(
  * * style - List style, for example: `decimal`, `lower-roman`, etc. It is extracted
  *     directly from Word stylesheet and adjusted to represent proper values for the CSS `list-style-type` property.
  *     If it cannot be adjusted, the `null` value is returned.
+ * * isMultiLevel - Whether the ordered list is numbered hierarchically.
  */
 function detectListStyle( listLikeItem: ListLikeElement, stylesString: string ) {
 	const listStyleRegexp = new RegExp( `@list l${ listLikeItem.id }:level${ listLikeItem.indent }\\s*({[^}]*)`, 'gi' );
@@ -215,10 +220,31 @@ function detectListStyle( listLikeItem: ListLikeElement, stylesString: string )
 	return {
 		type,
 		startIndex,
-		style: mapListStyleDefinition( listStyleType )
+		style: mapListStyleDefinition( listStyleType ),
+		isMultiLevel: type == 'ol' && isMultiLevelList( listLikeItem.id, stylesString )
 	};
 }
 
+/**
+ * Checks whether the marker (`mso-level-text`) of any level of the list with the given id includes the numbers of multiple levels.
+ */
+function isMultiLevelList( listId: string, stylesString: string ) {
+	const listLevelStyleRegexp = new RegExp( `@list l${ listId }:level\\d+\\s*{([^}]*)`, 'gi' );
+	const listLevelTextRegexp = /mso-level-text:([^;]{0,100});/i;
+
+	let listLevelStyleMatch;
+
+	while ( ( listLevelStyleMatch = listLevelStyleRegexp.exec( stylesString ) ) ) {
+		const listLevelTextMatch = listLevelTextRegexp.exec( listLevelStyleMatch[ 1 ] );
+
+		if ( listLevelTextMatch && ( listLevelTextMatch[ 1 ].match( /%\d/g ) || [] ).length > 1 ) {
+			return true;
+		}
+	}
+
+	return false;
+}
+
 /**
  * Tries to extract the `list-style-type` value based on the marker element for bulleted list.
  */
@@ -334,6 +360,11 @@ function insertNewEmptyList(
 		writer.setAttribute( 'start', listStyle.startIndex, list );
 	}
 
+	// The class of the multi-level lists of the document list properties feature.
+	if ( listStyle.isMultiLevel ) {
+		writer.addClass( 'multi-level-list', list );
+	}
+
 	return list;
 }
 
@@ -477,6 +477,62 @@ describe( 'PasteFromOffice - filters', () => {
 					} );
 				}
 			} );
+
+			describe( 'multi-level lists', () => {
+				const level1 = 'style="mso-list:l0 level1 lfo0"';
+				const level2 = 'style="mso-list:l0 level2 lfo0"';
+
+				it( 'should add the "multi-level-list" class to the lists if the markers include the numbers of multiple levels', () => {
+					const styles = '@list l0:level1\n{mso-level-text:"%1\\.";}\n' +
+						'@list l0:level2\n{mso-level-text:"%1\\.%2\\.";}';
+					const html = `<p ${ level1 }>Foo</p><p ${ level2 }>Bar</p>`;
+					const view = htmlDataProcessor.toView( html );
+
+					transformListItemLikeElementsIntoLists( view, styles );
+
+					expect( stringify( view ) ).to.equal(
+						`<ol class="multi-level-list"><li ${ level1 }>Foo` +
+							`<ol class="multi-level-list"><li ${ level2 }>Bar</li></ol>` +
+						'</li></ol>'
+					);
+				} );
+
+				it( 'should not add the "multi-level-list" class if the markers include the numbers of single levels', () => {
+					const styles = '@list l0:level1\n{mso-level-text:"%1\\.";}\n' +
+						'@list l0:level2\n{mso-level-text:"%2\\)";}';
+					const html = `<p ${ level1 }>Foo</p><p ${ level2 }>Bar</p>`;
+					const view = htmlDataProcessor.toView( html );
+
+					transformListItemLikeElementsIntoLists( view, styles );
+
+					expect( stringify( view ) ).to.equal(
+						`<ol><li ${ level1 }>Foo` +
+							`<ol><li ${ level2 }>Bar</li></ol>` +
+						'</li></ol>'
+					);
+				} );
+
+				it( 'should not add the "multi-level-list" class if only the markers of other lists include multiple levels', () => {
+					const styles = '@list l1:level1\n{mso-level-text:"%1\\.";}\n' +
+						'@list l1:level2\n{mso-level-text:"%1\\.%2\\.";}';
+					const html = `<p ${ level1 }>Foo</p>`;
+					const view = htmlDataProcessor.toView( html );
+
+					transformListItemLikeElementsIntoLists( view, styles );
+
+					expect( stringify( view ) ).to.equal( `<ol><li ${ level1 }>Foo</li></ol>` );
+				} );
+
+				it( 'should not add the "multi-level-list" class to the bulleted lists', () => {
+					const styles = '@list l0:level1\n{mso-level-number-format:bullet;mso-level-text:"%1\\.%2";}';
+					const html = `<p ${ level1 }>Foo</p>`;
+					const view = htmlDataProcessor.toView( html );
+
+					transformListItemLikeElementsIntoLists( view, styles );
+
+					expect( stringify( view ) ).to.equal( `<ul><li ${ level1 }>Foo</li></ul>` );
+				} );
+			} );
 		} );
 	} );
 
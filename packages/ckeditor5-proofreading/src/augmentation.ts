@@ -0,0 +1,34 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	ProofreadingConfig,
+	Proofreading,
+	ProofreadingEditing,
+	ProofreadingUI,
+	ReplaceProofreadingIssueCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the {@link module:proofreading/proofreading~Proofreading proofreading feature}.
+		 *
+		 * Read more in {@link module:proofreading/proofreadingconfig~ProofreadingConfig}.
+		 */
+		proofreading?: ProofreadingConfig;
+	}
+
+	interface PluginsMap {
+		[ Proofreading.pluginName ]: Proofreading;
+		[ ProofreadingEditing.pluginName ]: ProofreadingEditing;
+		[ ProofreadingUI.pluginName ]: ProofreadingUI;
+	}
+
+	interface CommandsMap {
+		replaceProofreadingIssue: ReplaceProofreadingIssueCommand;
+	}
+}
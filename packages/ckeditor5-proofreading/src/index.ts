@@ -0,0 +1,20 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading
+ */
+
+export { default as Proofreading } from './proofreading';
+export { default as ProofreadingEditing } from './proofreadingediting';
+export { default as ProofreadingUI } from './proofreadingui';
+export { default as ReplaceProofreadingIssueCommand } from './replaceproofreadingissuecommand';
+export { default as LocalDictionaryProvider } from './localdictionaryprovider';
+
+export type { ProofreadingConfig } from './proofreadingconfig';
+export type { ProofreadingMarkedIssue } from './proofreadingediting';
+export type { SpellCheckerProvider, SpellCheckerIssue } from './spellcheckerprovider';
+
+import './augmentation';
@@ -0,0 +1,124 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading/localdictionaryprovider
+ */
+
+import type { SpellCheckerIssue, SpellCheckerProvider } from './spellcheckerprovider';
+
+/**
+ * The maximal number of the suggestions of a word.
+ */
+const SUGGESTIONS_LIMIT = 5;
+
+/**
+ * The maximal edit distance between the word and its suggestions.
+ */
+const MAX_SUGGESTION_DISTANCE = 2;
+
+/**
+ * The {@link module:proofreading/spellcheckerprovider~SpellCheckerProvider spell checker provider} based on the word lists
+ * passed to the constructor. It is meant for testing and demonstration purposes rather than for the production use.
+ *
+ * A word is reported when it is missing from the list of its language. The words starting with a capital letter
+ * are also accepted when their lowercase form is listed. The words in the languages without the list are not reported.
+ *
+ * ```ts
+ * const provider = new LocalDictionaryProvider( {
+ * 	en: [ 'the', 'quick', 'brown', 'fox' ],
+ * 	de: [ 'der', 'schnelle', 'braune', 'Fuchs' ]
+ * } );
+ * ```
+ *
+ * The suggestions are the listed words most similar to the reported word.
+ */
+export default class LocalDictionaryProvider implements SpellCheckerProvider {
+	/**
+	 * The known words, by the language code.
+	 */
+	private readonly _dictionaries = new Map<string, Set<string>>();
+
+	/**
+	 * @param dictionaries The lists of the known words, by the language code.
+	 */
+	constructor( dictionaries: Record<string, Array<string>> ) {
+		for ( const [ language, words ] of Object.entries( dictionaries ) ) {
+			this._dictionaries.set( language, new Set( words ) );
+		}
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public check( words: Array<string>, language: string ): Promise<Array<SpellCheckerIssue>> {
+		const dictionary = this._dictionaries.get( language );
+
+		if ( !dictionary ) {
+			return Promise.resolve( [] );
+		}
+
+		const issues = words
+			.filter( word => !dictionary.has( word ) && !dictionary.has( word.toLowerCase() ) )
+			.map( word => ( { word, suggestions: getSuggestions( word, dictionary ) } ) );
+
+		return Promise.resolve( issues );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public addToDictionary( word: string, language: string ): void {
+		if ( !this._dictionaries.has( language ) ) {
+			this._dictionaries.set( language, new Set() );
+		}
+
+		this._dictionaries.get( language )!.add( word );
+	}
+}
+
+/**
+ * Returns the words from the dictionary most similar to the given word. The suggestions of the capitalized word are capitalized.
+ */
+function getSuggestions( word: string, dictionary: Set<string> ): Array<string> {
+	const isCapitalized = word[ 0 ] !== word[ 0 ].toLowerCase();
+	const lowerCaseWord = word.toLowerCase();
+	const candidates: Array<{ suggestion: string; distance: number }> = [];
+
+	for ( const dictionaryWord of dictionary ) {
+		const distance = getEditDistance( lowerCaseWord, dictionaryWord.toLowerCase() );
+
+		if ( distance <= MAX_SUGGESTION_DISTANCE ) {
+			const suggestion = isCapitalized ? dictionaryWord[ 0 ].toUpperCase() + dictionaryWord.slice( 1 ) : dictionaryWord;
+
+			candidates.push( { suggestion, distance } );
+		}
+	}
+
+	candidates.sort( ( a, b ) => a.distance - b.distance || a.suggestion.localeCompare( b.suggestion ) );
+
+	return Array.from( new Set( candidates.map( candidate => candidate.suggestion ) ) ).slice( 0, SUGGESTIONS_LIMIT );
+}
+
+/**
+ * Returns the Levenshtein distance between two strings.
+ */
+function getEditDistance( a: string, b: string ): number {
+	let previousRow = Array.from( { length: b.length + 1 }, ( value, index ) => index );
+
+	for ( let i = 1; i <= a.length; i++ ) {
+		const currentRow = [ i ];
+
+		for ( let j = 1; j <= b.length; j++ ) {
+			const cost = a[ i - 1 ] === b[ j - 1 ] ? 0 : 1;
+
+			currentRow[ j ] = Math.min( previousRow[ j ] + 1, currentRow[ j - 1 ] + 1, previousRow[ j - 1 ] + cost );
+		}
+
+		previousRow = currentRow;
+	}
+
+	return previousRow[ b.length ];
+}
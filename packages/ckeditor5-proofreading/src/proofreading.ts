@@ -0,0 +1,37 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading/proofreading
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import ProofreadingEditing from './proofreadingediting';
+import ProofreadingUI from './proofreadingui';
+
+/**
+ * The proofreading feature. It checks the spelling and grammar of the content with the configured
+ * {@link module:proofreading/spellcheckerprovider~SpellCheckerProvider spell checker provider}, underlines the issues found
+ * and suggests the corrections, independently of the spell checker of the browser.
+ *
+ * This is a "glue" plugin which loads the {@link module:proofreading/proofreadingediting~ProofreadingEditing proofreading editing feature}
+ * and the {@link module:proofreading/proofreadingui~ProofreadingUI proofreading UI feature}.
+ */
+export default class Proofreading extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'Proofreading' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ ProofreadingEditing, ProofreadingUI ] as const;
+	}
+}
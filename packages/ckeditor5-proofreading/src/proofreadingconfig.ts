@@ -0,0 +1,61 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading/proofreadingconfig
+ */
+
+import type { SpellCheckerProvider } from './spellcheckerprovider';
+
+/**
+ * The configuration of the {@link module:proofreading/proofreading~Proofreading proofreading feature}.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		proofreading: {
+ * 			provider: new LocalDictionaryProvider( [ 'the', 'quick', 'brown', 'fox' ] ),
+ * 			ignoredWords: [ 'CKEditor' ]
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor configuration options}.
+ */
+export interface ProofreadingConfig {
+
+	/**
+	 * The checker of the words. The content is not checked when the provider is not configured.
+	 *
+	 * Note that the editor configuration is cloned, so the editor uses a copy of the provider. To share the provider instance,
+	 * set the {@link module:proofreading/proofreadingediting~ProofreadingEditing#provider} property instead.
+	 */
+	provider?: SpellCheckerProvider;
+
+	/**
+	 * The code of the language of the content. The text marked with a different language
+	 * (for instance, by the {@link module:language/textpartlanguage~TextPartLanguage text part language feature})
+	 * is checked in that language.
+	 *
+	 * Defaults to the {@link module:core/editor/editorconfig~LanguageConfig#content content language} of the editor.
+	 */
+	language?: string;
+
+	/**
+	 * The words that are never reported, regardless of their language. The words are case-sensitive.
+	 *
+	 * @default []
+	 */
+	ignoredWords?: Array<string>;
+
+	/**
+	 * The time (in milliseconds) of inactivity after which the changed content is checked.
+	 *
+	 * @default 500
+	 */
+	checkDelay?: number;
+}
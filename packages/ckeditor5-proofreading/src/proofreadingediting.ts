@@ -0,0 +1,502 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading/proofreadingediting
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import type { DocumentChangeEvent, Element, Item, Marker, MarkerCollectionUpdateEvent, Position } from 'ckeditor5/src/engine';
+import { Notification } from 'ckeditor5/src/ui';
+import { logWarning, uid } from 'ckeditor5/src/utils';
+import { debounce, type DebouncedFunc } from 'lodash-es';
+
+import ReplaceProofreadingIssueCommand from './replaceproofreadingissuecommand';
+import { getBlockWords, isProofreadBlock } from './utils';
+import type { SpellCheckerIssue, SpellCheckerProvider } from './spellcheckerprovider';
+
+import '../theme/proofreading.css';
+
+/**
+ * The group of the markers of the issues. The name of a marker is `proofreading:<issue type>:<unique id>`.
+ */
+const MARKER_GROUP = 'proofreading';
+
+/**
+ * The proofreading editing feature.
+ *
+ * It passes the words of the content to the configured {@link module:proofreading/spellcheckerprovider~SpellCheckerProvider}
+ * and marks the issues found with the `proofreading:*` markers, displayed as underlines in the editing view. Once the content
+ * is checked, only the blocks changed since then are checked again, and only the words not checked yet are passed to the provider.
+ *
+ * It also registers the `'replaceProofreadingIssue'` command replacing the marked word with a suggestion.
+ *
+ * If the provider fails to check the words, a warning is displayed using
+ * the {@link module:ui/notification/notification~Notification notification plugin} and the blocks are checked again
+ * after the next change.
+ */
+export default class ProofreadingEditing extends Plugin {
+	/**
+	 * The checker of the words. It defaults to the
+	 * {@link module:proofreading/proofreadingconfig~ProofreadingConfig#provider `config.proofreading.provider`} option
+	 * but it can also be set by another plugin, in its `init()` method:
+	 *
+	 * ```ts
+	 * editor.plugins.get( 'ProofreadingEditing' ).provider = new MyProvider( editor );
+	 * ```
+	 */
+	public provider: SpellCheckerProvider | null = null;
+
+	/**
+	 * The words that are not reported: the configured ignored words and the words ignored or added to the dictionary by the user.
+	 */
+	private _acceptedWords = new Set<string>();
+
+	/**
+	 * The results of the checked words, by the language code. A word without issues is mapped to `null`.
+	 */
+	private readonly _checkedWords = new Map<string, Map<string, SpellCheckerIssue | null>>();
+
+	/**
+	 * The issues marked in the content, by the marker name.
+	 */
+	private readonly _markedIssues = new Map<string, { word: string; language: string; issue: SpellCheckerIssue }>();
+
+	/**
+	 * The blocks changed since the last check.
+	 */
+	private readonly _changedBlocks = new Set<Element>();
+
+	/**
+	 * Checks the changed blocks after a period of inactivity.
+	 */
+	private readonly _checkChangedBlocksDebounced: DebouncedFunc<() => void>;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'ProofreadingEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ Notification ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'proofreading', {
+			ignoredWords: [],
+			checkDelay: 500
+		} );
+
+		// The failure of the provider is already reported by the warning.
+		this._checkChangedBlocksDebounced = debounce( () => {
+			this._checkChangedBlocks().catch( () => {} );
+		}, editor.config.get( 'proofreading.checkDelay' ) );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const model = editor.model;
+
+		this.provider = editor.config.get( 'proofreading.provider' ) || null;
+		this._acceptedWords = new Set( editor.config.get( 'proofreading.ignoredWords' ) );
+
+		editor.commands.add( 'replaceProofreadingIssue', new ReplaceProofreadingIssueCommand( editor ) );
+
+		this._defineConverters();
+
+		// Forget the issues whose markers were removed, for instance, when the word was replaced with a suggestion.
+		this.listenTo<MarkerCollectionUpdateEvent>( model.markers, `update:${ MARKER_GROUP }`, ( evt, marker, oldRange, newRange ) => {
+			if ( !newRange ) {
+				this._markedIssues.delete( marker.name );
+			}
+		} );
+
+		// Check the blocks changed by the user as well as the content loaded to the editor.
+		this.listenTo<DocumentChangeEvent>( model.document, 'change:data', () => {
+			this._handleDocumentChange();
+			this._checkChangedBlocksDebounced();
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public afterInit(): void {
+		if ( !this.provider ) {
+			/**
+			 * The proofreading feature requires the spell checker provider to check the content. Set it in
+			 * the {@link module:proofreading/proofreadingconfig~ProofreadingConfig#provider `config.proofreading.provider`}
+			 * configuration option or in the {@link module:proofreading/proofreadingediting~ProofreadingEditing#provider} property.
+			 *
+			 * @error proofreading-missing-provider
+			 */
+			logWarning( 'proofreading-missing-provider' );
+		}
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this._checkChangedBlocksDebounced.cancel();
+	}
+
+	/**
+	 * The code of the language of the content, except for the text marked with another language.
+	 */
+	public get language(): string {
+		return this.editor.config.get( 'proofreading.language' ) || this.editor.locale.contentLanguage;
+	}
+
+	/**
+	 * Checks the whole content immediately. The promise is resolved once the issues are marked.
+	 */
+	public checkDocument(): Promise<void> {
+		const model = this.editor.model;
+
+		for ( const rootName of model.document.getRootNames() ) {
+			for ( const item of model.createRangeIn( model.document.getRoot( rootName )! ).getItems() ) {
+				if ( isProofreadBlock( item, model.schema ) ) {
+					this._changedBlocks.add( item );
+				}
+			}
+		}
+
+		this._checkChangedBlocksDebounced.cancel();
+
+		return this._checkChangedBlocks();
+	}
+
+	/**
+	 * Returns the issue marked with the given marker, or `null` if the marker does not mark an issue.
+	 */
+	public getIssue( markerName: string ): ProofreadingMarkedIssue | null {
+		const marker = this.editor.model.markers.get( markerName );
+		const markedIssue = this._markedIssues.get( markerName );
+
+		if ( !marker || !markedIssue ) {
+			return null;
+		}
+
+		return { marker, ...markedIssue };
+	}
+
+	/**
+	 * Returns the issue marked at the focus of the document selection, or `null` if there is no issue there.
+	 */
+	public getIssueAtSelection(): ProofreadingMarkedIssue | null {
+		const model = this.editor.model;
+		const focus = model.document.selection.focus;
+
+		if ( !focus ) {
+			return null;
+		}
+
+		const marker = this._getMarkersAt( focus ).next().value;
+
+		return marker ? this.getIssue( marker.name ) : null;
+	}
+
+	/**
+	 * Stops reporting the word until the editor is destroyed and removes the markers of its issues.
+	 */
+	public ignoreWord( word: string ): void {
+		this._acceptedWords.add( word );
+
+		this.editor.model.change( writer => {
+			for ( const [ markerName, markedIssue ] of this._markedIssues ) {
+				if ( markedIssue.word == word ) {
+					writer.removeMarker( markerName );
+				}
+			}
+		} );
+	}
+
+	/**
+	 * Adds the word to the dictionary of the {@link module:proofreading/spellcheckerprovider~SpellCheckerProvider provider}
+	 * (if it supports it) and stops reporting it.
+	 */
+	public addToDictionary( word: string, language: string ): void {
+		if ( this.provider && this.provider.addToDictionary ) {
+			this.provider.addToDictionary( word, language );
+		}
+
+		this.ignoreWord( word );
+	}
+
+	/**
+	 * Defines the conversion of the markers of the issues to the underlined words in the editing view.
+	 */
+	private _defineConverters(): void {
+		this.editor.conversion.for( 'editingDowncast' ).markerToHighlight( {
+			model: MARKER_GROUP,
+			view: ( { markerName } ) => {
+				const [ , type, id ] = markerName.split( ':' );
+
+				// A unique attribute for each marker prevents merging the highlights of the adjacent words.
+				return {
+					name: 'span',
+					classes: [ 'ck-proofreading-issue', `ck-proofreading-issue_${ type }` ],
+					attributes: {
+						'data-proofreading-issue': id
+					}
+				};
+			}
+		} );
+	}
+
+	/**
+	 * Remembers the blocks changed in the document to check them later. The markers of the edited words are removed
+	 * right away, so the words being typed are not underlined.
+	 */
+	private _handleDocumentChange(): void {
+		const model = this.editor.model;
+		const differ = model.document.differ;
+		const staleMarkerNames = new Set<string>();
+
+		for ( const change of differ.getChanges() ) {
+			if ( change.type == 'attribute' ) {
+				this._addChangedBlockAt( change.range.start );
+				this._addChangedBlocksIn( change.range.getItems() );
+
+				continue;
+			}
+
+			this._addChangedBlockAt( change.position );
+
+			if ( change.type == 'insert' && change.position.nodeAfter ) {
+				this._addChangedBlocksIn( model.createRangeOn( change.position.nodeAfter ).getItems() );
+			}
+
+			for ( const marker of this._getMarkersAt( change.position ) ) {
+				staleMarkerNames.add( marker.name );
+			}
+		}
+
+		// The markers of the removed content are moved to the graveyard.
+		for ( const { name, data: { newRange } } of differ.getChangedMarkers() ) {
+			if ( this._markedIssues.has( name ) && newRange && newRange.root.rootName == '$graveyard' ) {
+				staleMarkerNames.add( name );
+			}
+		}
+
+		if ( staleMarkerNames.size ) {
+			model.change( writer => {
+				for ( const markerName of staleMarkerNames ) {
+					writer.removeMarker( markerName );
+				}
+			} );
+		}
+	}
+
+	/**
+	 * Returns the markers of the issues containing the position, including the markers starting or ending at the position.
+	 */
+	private* _getMarkersAt( position: Position ): IterableIterator<Marker> {
+		for ( const marker of this.editor.model.markers.getMarkersGroup( MARKER_GROUP ) ) {
+			const range = marker.getRange();
+
+			if ( this._markedIssues.has( marker.name ) && ( range.containsPosition( position ) || range.start.isEqual( position ) ||
+				range.end.isEqual( position ) ) ) {
+				yield marker;
+			}
+		}
+	}
+
+	/**
+	 * Remembers the proofread block containing the position, if any.
+	 */
+	private _addChangedBlockAt( position: Position ): void {
+		const schema = this.editor.model.schema;
+		const block = position.parent.getAncestors( { includeSelf: true, parentFirst: true } )
+			.find( element => isProofreadBlock( element, schema ) );
+
+		if ( block ) {
+			this._changedBlocks.add( block as Element );
+		}
+	}
+
+	/**
+	 * Remembers the proofread blocks among the items.
+	 */
+	private _addChangedBlocksIn( items: Iterable<Item> ): void {
+		const schema = this.editor.model.schema;
+
+		for ( const item of items ) {
+			if ( isProofreadBlock( item, schema ) ) {
+				this._changedBlocks.add( item );
+			}
+		}
+	}
+
+	/**
+	 * Checks the words of the changed blocks that were not checked yet and marks the issues in these blocks.
+	 */
+	private async _checkChangedBlocks(): Promise<void> {
+		const provider = this.provider;
+		const blocks = Array.from( this._changedBlocks );
+		const wordsToCheck = new Map<string, Set<string>>();
+
+		this._changedBlocks.clear();
+
+		if ( !provider ) {
+			return;
+		}
+
+		for ( const block of blocks.filter( isInDocument ) ) {
+			for ( const { word, language } of getBlockWords( block, this.language ) ) {
+				if ( this._acceptedWords.has( word ) || this._getCheckedWords( language ).has( word ) ) {
+					continue;
+				}
+
+				if ( !wordsToCheck.has( language ) ) {
+					wordsToCheck.set( language, new Set() );
+				}
+
+				wordsToCheck.get( language )!.add( word );
+			}
+		}
+
+		try {
+			await Promise.all( Array.from( wordsToCheck, async ( [ language, words ] ) => {
+				const issues = await provider.check( Array.from( words ), language );
+				const checkedWords = this._getCheckedWords( language );
+
+				for ( const word of words ) {
+					checkedWords.set( word, null );
+				}
+
+				for ( const issue of issues ) {
+					if ( words.has( issue.word ) ) {
+						checkedWords.set( issue.word, issue );
+					}
+				}
+			} ) );
+		} catch ( error ) {
+			if ( this.editor.state != 'destroyed' ) {
+				// The blocks are checked again after the next change.
+				for ( const block of blocks.filter( isInDocument ) ) {
+					this._changedBlocks.add( block );
+				}
+
+				this._showWarning( this.editor.t( 'The spelling could not be checked.' ) );
+			}
+
+			throw error;
+		}
+
+		if ( this.editor.state == 'destroyed' ) {
+			return;
+		}
+
+		// The blocks could be changed or removed while the provider was checking the words. The changed ones are checked again later,
+		// but for now, they are marked using the current content.
+		this._markIssues( blocks.filter( isInDocument ) );
+	}
+
+	/**
+	 * Displays a warning about a failure of the {@link #provider}.
+	 */
+	private _showWarning( message: string ): void {
+		this.editor.plugins.get( Notification ).showWarning( message, {
+			title: this.editor.t( 'Proofreading error' ),
+			namespace: 'proofreading'
+		} );
+	}
+
+	/**
+	 * Replaces the markers of the issues in the blocks with the markers of the checked words.
+	 */
+	private _markIssues( blocks: Array<Element> ): void {
+		const model = this.editor.model;
+
+		model.change( writer => {
+			for ( const block of blocks ) {
+				for ( const marker of model.markers.getMarkersIntersectingRange( model.createRangeIn( block ) ) ) {
+					if ( this._markedIssues.has( marker.name ) ) {
+						writer.removeMarker( marker );
+					}
+				}
+
+				for ( const { word, language, start, end } of getBlockWords( block, this.language ) ) {
+					const issue = this._getCheckedWords( language ).get( word );
+
+					if ( !issue || this._acceptedWords.has( word ) ) {
+						continue;
+					}
+
+					const markerName = `${ MARKER_GROUP }:${ issue.type || 'spelling' }:${ uid() }`;
+
+					writer.addMarker( markerName, {
+						range: writer.createRange( writer.createPositionAt( block, start ), writer.createPositionAt( block, end ) ),
+						usingOperation: false,
+						affectsData: false
+					} );
+
+					this._markedIssues.set( markerName, { word, language, issue } );
+				}
+			}
+		} );
+	}
+
+	/**
+	 * Returns the results of the checked words in the language.
+	 */
+	private _getCheckedWords( language: string ): Map<string, SpellCheckerIssue | null> {
+		if ( !this._checkedWords.has( language ) ) {
+			this._checkedWords.set( language, new Map() );
+		}
+
+		return this._checkedWords.get( language )!;
+	}
+}
+
+/**
+ * The issue marked in the content.
+ */
+export interface ProofreadingMarkedIssue {
+
+	/**
+	 * The marker of the word with the issue.
+	 */
+	marker: Marker;
+
+	/**
+	 * The word with the issue.
+	 */
+	word: string;
+
+	/**
+	 * The code of the language in which the word was checked.
+	 */
+	language: string;
+
+	/**
+	 * The issue reported by the provider.
+	 */
+	issue: SpellCheckerIssue;
+}
+
+/**
+ * Checks whether the block was not removed from the document.
+ */
+function isInDocument( block: Element ): boolean {
+	return block.root.is( 'rootElement' ) && block.root.rootName != '$graveyard';
+}
@@ -0,0 +1,226 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading/proofreadingui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { ClickObserver, type ViewDocumentClickEvent } from 'ckeditor5/src/engine';
+import { BalloonPanelView, ContextualBalloon, clickOutsideHandler } from 'ckeditor5/src/ui';
+import type { PositionOptions } from 'ckeditor5/src/utils';
+
+import ProofreadingSuggestionsView, {
+	type ProofreadingSuggestionsAddToDictionaryEvent,
+	type ProofreadingSuggestionsIgnoreEvent,
+	type ProofreadingSuggestionsReplaceEvent
+} from './ui/proofreadingsuggestionsview';
+import type { ProofreadingMarkedIssue } from './proofreadingediting';
+
+/**
+ * The proofreading UI plugin. Clicking a word underlined by the {@link module:proofreading/proofreadingediting~ProofreadingEditing}
+ * plugin displays the balloon with the suggestions of the word and the buttons ignoring the word and adding it to the dictionary.
+ */
+export default class ProofreadingUI extends Plugin {
+	/**
+	 * The view displayed in the balloon, created when the balloon is displayed for the first time.
+	 */
+	public suggestionsView: ProofreadingSuggestionsView | null = null;
+
+	/**
+	 * The contextual balloon plugin instance.
+	 */
+	private _balloon: ContextualBalloon | null = null;
+
+	/**
+	 * The name of the marker of the issue displayed in the balloon.
+	 */
+	private _markerName: string | null = null;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'ProofreadingUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ ContextualBalloon ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const proofreading = editor.plugins.get( 'ProofreadingEditing' );
+
+		this._balloon = editor.plugins.get( ContextualBalloon );
+
+		editor.editing.view.addObserver( ClickObserver );
+
+		// Show the suggestions upon clicking the underlined word.
+		this.listenTo<ViewDocumentClickEvent>( editor.editing.view.document, 'click', () => {
+			const markedIssue = proofreading.getIssueAtSelection();
+
+			if ( markedIssue ) {
+				this._showUI( markedIssue );
+			}
+		} );
+
+		// Hide the balloon when the selection leaves the word or when the issue is gone, for instance, after the word was corrected.
+		this.listenTo( editor.ui, 'update', () => {
+			if ( !this._isUIVisible ) {
+				return;
+			}
+
+			const markedIssue = proofreading.getIssueAtSelection();
+
+			if ( !markedIssue || markedIssue.marker.name != this._markerName ) {
+				this._hideUI( false );
+			} else {
+				this._balloon!.updatePosition( this._getBalloonPositionData() );
+			}
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		// Destroy created UI components as they are not automatically destroyed (see ckeditor5#1341).
+		if ( this.suggestionsView ) {
+			this.suggestionsView.destroy();
+		}
+	}
+
+	/**
+	 * Whether the balloon with the suggestions is displayed.
+	 */
+	private get _isUIVisible(): boolean {
+		return !!this.suggestionsView && this._balloon!.visibleView === this.suggestionsView;
+	}
+
+	/**
+	 * Creates the {@link #suggestionsView} and handles its actions.
+	 */
+	private _createSuggestionsView(): ProofreadingSuggestionsView {
+		const editor = this.editor;
+		const proofreading = editor.plugins.get( 'ProofreadingEditing' );
+		const view = new ProofreadingSuggestionsView( editor.locale );
+
+		view.bind( 'areSuggestionsEnabled' ).to( editor.commands.get( 'replaceProofreadingIssue' )!, 'isEnabled' );
+
+		// The balloon is hidden before the replacement, otherwise the removal of the marker would hide it without focusing the editable.
+		this.listenTo<ProofreadingSuggestionsReplaceEvent>( view, 'replace', ( evt, { suggestion } ) => {
+			const markerName = this._markerName!;
+
+			this._hideUI();
+
+			editor.execute( 'replaceProofreadingIssue', { suggestion, markerName } );
+		} );
+
+		this.listenTo<ProofreadingSuggestionsIgnoreEvent>( view, 'ignore', () => {
+			proofreading.ignoreWord( proofreading.getIssue( this._markerName! )!.word );
+
+			this._hideUI();
+		} );
+
+		this.listenTo<ProofreadingSuggestionsAddToDictionaryEvent>( view, 'addToDictionary', () => {
+			const { word, language } = proofreading.getIssue( this._markerName! )!;
+
+			proofreading.addToDictionary( word, language );
+
+			this._hideUI();
+		} );
+
+		// Close the balloon on the Esc key press.
+		view.keystrokes.set( 'Esc', ( data, cancel ) => {
+			this._hideUI();
+			cancel();
+		} );
+
+		// Close the balloon upon clicking outside of it.
+		clickOutsideHandler( {
+			emitter: view,
+			activator: () => this._isUIVisible,
+			contextElements: () => [ this._balloon!.view.element! ],
+			callback: () => this._hideUI( false )
+		} );
+
+		return view;
+	}
+
+	/**
+	 * Displays the suggestions of the issue in the balloon.
+	 */
+	private _showUI( markedIssue: ProofreadingMarkedIssue ): void {
+		if ( !this.suggestionsView ) {
+			this.suggestionsView = this._createSuggestionsView();
+		}
+
+		this._markerName = markedIssue.marker.name;
+		this.suggestionsView.setSuggestions( markedIssue.issue.suggestions, markedIssue.issue.message );
+
+		if ( this._isUIVisible ) {
+			this._balloon!.updatePosition( this._getBalloonPositionData() );
+		} else {
+			this._balloon!.add( {
+				view: this.suggestionsView,
+				position: this._getBalloonPositionData()
+			} );
+		}
+	}
+
+	/**
+	 * Hides the balloon with the suggestions.
+	 *
+	 * @param focusEditable Whether the editing view should be focused afterwards.
+	 */
+	private _hideUI( focusEditable = true ): void {
+		if ( !this.suggestionsView || !this._balloon!.hasView( this.suggestionsView ) ) {
+			return;
+		}
+
+		// The balloon is removed before focusing the editable, so the focus is not moved back to the balloon.
+		this._balloon!.remove( this.suggestionsView );
+		this._markerName = null;
+
+		if ( focusEditable ) {
+			this.editor.editing.view.focus();
+		}
+	}
+
+	/**
+	 * Returns the position of the balloon below (or above) the word with the issue.
+	 */
+	private _getBalloonPositionData(): Partial<PositionOptions> {
+		const editor = this.editor;
+		const editing = editor.editing;
+		const defaultPositions = BalloonPanelView.defaultPositions;
+
+		return {
+			target: () => {
+				const marker = editor.model.markers.get( this._markerName! )!;
+				const viewRange = editing.mapper.toViewRange( marker.getRange() );
+
+				return editing.view.domConverter.viewRangeToDom( viewRange );
+			},
+			positions: [
+				defaultPositions.southArrowNorth,
+				defaultPositions.southArrowNorthWest,
+				defaultPositions.southArrowNorthEast,
+				defaultPositions.northArrowSouth,
+				defaultPositions.northArrowSouthWest,
+				defaultPositions.northArrowSouthEast
+			]
+		};
+	}
+}
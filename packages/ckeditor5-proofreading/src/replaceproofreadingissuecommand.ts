@@ -0,0 +1,71 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading/replaceproofreadingissuecommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+import type { ProofreadingMarkedIssue } from './proofreadingediting';
+
+/**
+ * The replace proofreading issue command. It is registered by the
+ * {@link module:proofreading/proofreadingediting~ProofreadingEditing proofreading editing feature} as `'replaceProofreadingIssue'`.
+ *
+ * It replaces the word with the issue at the selection (or with the issue of the given marker) with the suggestion,
+ * keeping the attributes of the word:
+ *
+ * ```ts
+ * editor.execute( 'replaceProofreadingIssue', { suggestion: 'receive' } );
+ * ```
+ */
+export default class ReplaceProofreadingIssueCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const markedIssue = this._getMarkedIssue();
+
+		this.isEnabled = !!markedIssue && this.editor.model.canEditAt( markedIssue.marker.getRange() );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @fires execute
+	 * @param options Command options.
+	 * @param options.suggestion The replacement of the word.
+	 * @param options.markerName The name of the marker of the issue. Defaults to the issue at the selection.
+	 */
+	public override execute( { suggestion, markerName }: { suggestion: string; markerName?: string } ): void {
+		const model = this.editor.model;
+		const markedIssue = this._getMarkedIssue( markerName );
+
+		if ( !markedIssue ) {
+			return;
+		}
+
+		model.change( writer => {
+			const range = markedIssue.marker.getRange();
+			const attributes = ( range.start.textNode || range.start.nodeAfter )!.getAttributes();
+
+			writer.removeMarker( markedIssue.marker );
+
+			const insertionRange = model.insertContent( writer.createText( suggestion, attributes ), range );
+
+			writer.setSelection( insertionRange.end );
+		} );
+	}
+
+	/**
+	 * Returns the issue of the given marker or the issue at the selection.
+	 */
+	private _getMarkedIssue( markerName?: string ): ProofreadingMarkedIssue | null {
+		const proofreading = this.editor.plugins.get( 'ProofreadingEditing' );
+
+		return markerName ? proofreading.getIssue( markerName ) : proofreading.getIssueAtSelection();
+	}
+}
@@ -0,0 +1,90 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading/spellcheckerprovider
+ */
+
+/**
+ * The checker interface used by the {@link module:proofreading/proofreading~Proofreading proofreading feature}.
+ * The provider is a bridge between the editor and the spell or grammar checking service (or library).
+ *
+ * The editor splits the changed content into words and passes the words that it has not checked yet to the provider,
+ * grouped by their language. The provider resolves with the issues found in these words:
+ *
+ * ```ts
+ * class MyProvider implements SpellCheckerProvider {
+ * 	public async check( words: Array<string>, language: string ): Promise<Array<SpellCheckerIssue>> {
+ * 		const response = await fetch( `/spellcheck?lang=${ language }`, {
+ * 			method: 'POST',
+ * 			body: JSON.stringify( words )
+ * 		} );
+ *
+ * 		return response.json();
+ * 	}
+ * }
+ *
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		proofreading: {
+ * 			provider: new MyProvider()
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:proofreading/localdictionaryprovider~LocalDictionaryProvider} for a simple implementation.
+ */
+export interface SpellCheckerProvider {
+
+	/**
+	 * Checks the words. The returned promise should resolve with the issues found in the words. The words without issues
+	 * should not be listed.
+	 *
+	 * @param words The unique words to check.
+	 * @param language The code of the language of the words, for instance `'en'`.
+	 */
+	check( words: Array<string>, language: string ): Promise<Array<SpellCheckerIssue>>;
+
+	/**
+	 * Adds the word to the dictionary of the checker, so it is not reported anymore. It is called when the user chooses
+	 * the "Add to dictionary" action.
+	 *
+	 * When the method is not implemented, the word is accepted by the editor until it is destroyed.
+	 *
+	 * @param word The word to add.
+	 * @param language The code of the language of the word.
+	 */
+	addToDictionary?( word: string, language: string ): void | Promise<void>;
+}
+
+/**
+ * The issue found by the {@link module:proofreading/spellcheckerprovider~SpellCheckerProvider} in a word.
+ */
+export interface SpellCheckerIssue {
+
+	/**
+	 * The word with the issue. It must be one of the checked words.
+	 */
+	word: string;
+
+	/**
+	 * The type of the issue. It decides how the word is underlined in the editor.
+	 *
+	 * @default 'spelling'
+	 */
+	type?: 'spelling' | 'grammar';
+
+	/**
+	 * The optional description of the issue displayed above the suggestions.
+	 */
+	message?: string;
+
+	/**
+	 * The suggested replacements of the word, starting from the best one. It may be empty.
+	 */
+	suggestions: Array<string>;
+}
@@ -0,0 +1,269 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading/ui/proofreadingsuggestionsview
+ */
+
+import {
+	ButtonView,
+	FocusCycler,
+	ListItemView,
+	ListView,
+	View,
+	ViewCollection
+} from 'ckeditor5/src/ui';
+import { FocusTracker, KeystrokeHandler, type Locale } from 'ckeditor5/src/utils';
+
+import '../../theme/proofreadingui.css';
+
+/**
+ * The view displayed in the balloon next to the word with an issue. It lists the suggested replacements of the word
+ * and the buttons ignoring the word and adding it to the dictionary.
+ */
+export default class ProofreadingSuggestionsView extends View<HTMLDivElement> {
+	/**
+	 * Tracks information about the DOM focus in the view.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * The list of the suggestions.
+	 */
+	public readonly suggestionsView: ListView;
+
+	/**
+	 * The "Ignore" button view.
+	 */
+	public readonly ignoreButtonView: ButtonView;
+
+	/**
+	 * The "Add to dictionary" button view.
+	 */
+	public readonly addToDictionaryButtonView: ButtonView;
+
+	/**
+	 * The description of the issue, or an empty string.
+	 *
+	 * @observable
+	 */
+	declare public message: string;
+
+	/**
+	 * Whether any suggestion is listed.
+	 *
+	 * @observable
+	 */
+	declare public hasSuggestions: boolean;
+
+	/**
+	 * Whether the suggestions can be chosen. They cannot when the content cannot be edited, for instance in the read-only mode.
+	 *
+	 * @observable
+	 */
+	declare public areSuggestionsEnabled: boolean;
+
+	/**
+	 * A collection of views that can be focused in the view.
+	 */
+	private readonly _focusables: ViewCollection;
+
+	/**
+	 * Helps cycling over {@link #_focusables} in the view.
+	 */
+	private readonly _focusCycler: FocusCycler;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const t = locale.t;
+		const bind = this.bindTemplate;
+
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+		this._focusables = new ViewCollection();
+
+		this.set( {
+			message: '',
+			hasSuggestions: false,
+			areSuggestionsEnabled: true
+		} );
+
+		this.suggestionsView = new ListView( locale );
+		this.suggestionsView.extendTemplate( {
+			attributes: {
+				class: [ 'ck-proofreading-suggestions__list', bind.if( 'hasSuggestions', 'ck-hidden', value => !value ) ]
+			}
+		} );
+
+		this.ignoreButtonView = this._createButton( t( 'Ignore' ), 'ignore' );
+		this.addToDictionaryButtonView = this._createButton( t( 'Add to dictionary' ), 'addToDictionary' );
+
+		this._focusCycler = new FocusCycler( {
+			focusables: this._focusables,
+			focusTracker: this.focusTracker,
+			keystrokeHandler: this.keystrokes,
+			actions: {
+				focusPrevious: 'shift + tab',
+				focusNext: 'tab'
+			}
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-proofreading-suggestions' ],
+				tabindex: '-1'
+			},
+			children: [
+				{
+					tag: 'p',
+					attributes: {
+						class: [ 'ck', 'ck-proofreading-suggestions__message', bind.if( 'message', 'ck-hidden', value => !value ) ]
+					},
+					children: [ { text: bind.to( 'message' ) } ]
+				},
+				this.suggestionsView,
+				{
+					tag: 'p',
+					attributes: {
+						class: [ 'ck', 'ck-proofreading-suggestions__no-suggestions', bind.if( 'hasSuggestions', 'ck-hidden' ) ]
+					},
+					children: [ t( 'No suggestions' ) ]
+				},
+				{
+					tag: 'div',
+					attributes: {
+						class: [ 'ck', 'ck-proofreading-suggestions__actions' ]
+					},
+					children: [
+						this.ignoreButtonView,
+						this.addToDictionaryButtonView
+					]
+				}
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		for ( const view of [ this.suggestionsView, this.ignoreButtonView, this.addToDictionaryButtonView ] ) {
+			this._focusables.add( view );
+			this.focusTracker.add( view.element! );
+		}
+
+		// Start listening for the keystrokes coming from #element.
+		this.keystrokes.listenTo( this.element! );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Focuses the first focusable element in the view.
+	 */
+	public focus(): void {
+		this._focusCycler.focusFirst();
+	}
+
+	/**
+	 * Displays the suggestions and the description of the issue.
+	 */
+	public setSuggestions( suggestions: Array<string>, message = '' ): void {
+		this.suggestionsView.items.clear();
+		this.suggestionsView.items.addMany( suggestions.map( suggestion => this._createSuggestionItem( suggestion ) ) );
+
+		this.hasSuggestions = suggestions.length > 0;
+		this.message = message;
+	}
+
+	/**
+	 * Creates the list item with the button of the suggestion.
+	 */
+	private _createSuggestionItem( suggestion: string ): ListItemView {
+		const listItemView = new ListItemView( this.locale );
+		const buttonView = new ButtonView( this.locale );
+
+		buttonView.set( {
+			label: suggestion,
+			withText: true
+		} );
+
+		buttonView.bind( 'isEnabled' ).to( this, 'areSuggestionsEnabled' );
+
+		buttonView.on( 'execute', () => {
+			this.fire<ProofreadingSuggestionsReplaceEvent>( 'replace', { suggestion } );
+		} );
+
+		listItemView.children.add( buttonView );
+
+		return listItemView;
+	}
+
+	/**
+	 * Creates the button delegating its `execute` event as the given event of the view.
+	 */
+	private _createButton( label: string, eventName: string ): ButtonView {
+		const button = new ButtonView( this.locale );
+
+		button.set( {
+			label,
+			withText: true
+		} );
+
+		button.delegate( 'execute' ).to( this, eventName );
+
+		return button;
+	}
+}
+
+/**
+ * Fired when a suggestion is chosen.
+ *
+ * @eventName ~ProofreadingSuggestionsView#replace
+ */
+export type ProofreadingSuggestionsReplaceEvent = {
+	name: 'replace';
+	args: [ { suggestion: string } ];
+};
+
+/**
+ * Fired when the {@link ~ProofreadingSuggestionsView#ignoreButtonView} is executed.
+ *
+ * @eventName ~ProofreadingSuggestionsView#ignore
+ */
+export type ProofreadingSuggestionsIgnoreEvent = {
+	name: 'ignore';
+	args: [];
+};
+
+/**
+ * Fired when the {@link ~ProofreadingSuggestionsView#addToDictionaryButtonView} is executed.
+ *
+ * @eventName ~ProofreadingSuggestionsView#addToDictionary
+ */
+export type ProofreadingSuggestionsAddToDictionaryEvent = {
+	name: 'addToDictionary';
+	args: [];
+};
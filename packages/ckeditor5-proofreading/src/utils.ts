@@ -0,0 +1,115 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module proofreading/utils
+ */
+
+import type { DocumentFragment, Element, Item, Schema } from 'ckeditor5/src/engine';
+
+/**
+ * The pattern matching a word: the letters (with their combining marks), optionally joined by apostrophes, like in "don't".
+ */
+const WORD_PATTERN = /[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)*/gu;
+
+/**
+ * The word found in a block by {@link ~getBlockWords}.
+ *
+ * @internal
+ */
+export interface ProofreadingWord {
+
+	/**
+	 * The word.
+	 */
+	word: string;
+
+	/**
+	 * The code of the language of the word.
+	 */
+	language: string;
+
+	/**
+	 * The offset of the beginning of the word in the block.
+	 */
+	start: number;
+
+	/**
+	 * The offset of the end of the word in the block.
+	 */
+	end: number;
+}
+
+/**
+ * Checks whether the content of the node is proofread, that is, whether it is a block that allows text. The code blocks are skipped.
+ *
+ * @internal
+ */
+export function isProofreadBlock( node: Item | DocumentFragment, schema: Schema ): node is Element {
+	return node.is( 'element' ) && !node.is( 'element', 'codeBlock' ) && schema.isBlock( node ) && schema.checkChild( node, '$text' );
+}
+
+/**
+ * Returns the words in the block with their languages and offsets. The inline objects and the inline code separate the words
+ * and are not checked.
+ *
+ * @internal
+ * @param block The block to split into words.
+ * @param defaultLanguage The language of the text not marked with the `language` attribute.
+ */
+export function getBlockWords( block: Element, defaultLanguage: string ): Array<ProofreadingWord> {
+	const words: Array<ProofreadingWord> = [];
+	let text = '';
+	let textStart = 0;
+	let language = defaultLanguage;
+
+	const collectWords = () => {
+		let match;
+
+		WORD_PATTERN.lastIndex = 0;
+
+		while ( ( match = WORD_PATTERN.exec( text ) ) ) {
+			const start = textStart + match.index;
+
+			words.push( { word: match[ 0 ], language, start, end: start + match[ 0 ].length } );
+		}
+
+		text = '';
+	};
+
+	for ( const child of block.getChildren() ) {
+		if ( !child.is( '$text' ) || child.hasAttribute( 'code' ) ) {
+			collectWords();
+
+			continue;
+		}
+
+		const childLanguage = getLanguageCode( child.getAttribute( 'language' ) ) || defaultLanguage;
+
+		// The differently formatted parts of a word (like "<b>un</b>known") are joined, unless they are in different languages.
+		if ( !text || childLanguage != language ) {
+			collectWords();
+
+			language = childLanguage;
+			textStart = child.startOffset!;
+		}
+
+		text += child.data;
+	}
+
+	collectWords();
+
+	return words;
+}
+
+/**
+ * Returns the language code from the value of the `language` text attribute set by the text part language feature,
+ * for instance `'ar'` for `'ar:rtl'`.
+ *
+ * @internal
+ */
+export function getLanguageCode( attributeValue: unknown ): string | null {
+	return typeof attributeValue == 'string' ? attributeValue.split( ':' )[ 0 ] : null;
+}
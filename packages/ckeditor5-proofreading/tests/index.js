@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	Proofreading as ProofreadingDLL,
+	ProofreadingEditing as ProofreadingEditingDLL,
+	ProofreadingUI as ProofreadingUIDLL,
+	ReplaceProofreadingIssueCommand as ReplaceProofreadingIssueCommandDLL,
+	LocalDictionaryProvider as LocalDictionaryProviderDLL
+} from '../src';
+import Proofreading from '../src/proofreading';
+import ProofreadingEditing from '../src/proofreadingediting';
+import ProofreadingUI from '../src/proofreadingui';
+import ReplaceProofreadingIssueCommand from '../src/replaceproofreadingissuecommand';
+import LocalDictionaryProvider from '../src/localdictionaryprovider';
+
+describe( 'Proofreading DLL', () => {
+	it( 'exports Proofreading', () => {
+		expect( ProofreadingDLL ).to.equal( Proofreading );
+	} );
+
+	it( 'exports ProofreadingEditing', () => {
+		expect( ProofreadingEditingDLL ).to.equal( ProofreadingEditing );
+	} );
+
+	it( 'exports ProofreadingUI', () => {
+		expect( ProofreadingUIDLL ).to.equal( ProofreadingUI );
+	} );
+
+	it( 'exports ReplaceProofreadingIssueCommand', () => {
+		expect( ReplaceProofreadingIssueCommandDLL ).to.equal( ReplaceProofreadingIssueCommand );
+	} );
+
+	it( 'exports LocalDictionaryProvider', () => {
+		expect( LocalDictionaryProviderDLL ).to.equal( LocalDictionaryProvider );
+	} );
+} );
@@ -0,0 +1,85 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import LocalDictionaryProvider from '../src/localdictionaryprovider';
+
+describe( 'LocalDictionaryProvider', () => {
+	let provider;
+
+	beforeEach( () => {
+		provider = new LocalDictionaryProvider( {
+			en: [ 'the', 'cat', 'cart', 'cast', 'coat', 'at', 'Paris' ],
+			de: [ 'die', 'Katze' ]
+		} );
+	} );
+
+	describe( 'check()', () => {
+		it( 'should not report the listed words', async () => {
+			expect( await provider.check( [ 'the', 'cat' ], 'en' ) ).to.deep.equal( [] );
+		} );
+
+		it( 'should accept the capitalized form of the listed lowercase words', async () => {
+			expect( await provider.check( [ 'The', 'Paris' ], 'en' ) ).to.deep.equal( [] );
+		} );
+
+		it( 'should report the lowercase form of the listed capitalized words', async () => {
+			const issues = await provider.check( [ 'paris' ], 'en' );
+
+			expect( issues.map( issue => issue.word ) ).to.deep.equal( [ 'paris' ] );
+		} );
+
+		it( 'should check the words in their language', async () => {
+			expect( await provider.check( [ 'Katze' ], 'de' ) ).to.deep.equal( [] );
+			expect( ( await provider.check( [ 'Katze' ], 'en' ) ).map( issue => issue.word ) ).to.deep.equal( [ 'Katze' ] );
+		} );
+
+		it( 'should not report the words in the language without the dictionary', async () => {
+			expect( await provider.check( [ 'chat' ], 'fr' ) ).to.deep.equal( [] );
+		} );
+
+		it( 'should suggest the most similar words first', async () => {
+			const [ issue ] = await provider.check( [ 'caat' ], 'en' );
+
+			expect( issue ).to.deep.equal( {
+				word: 'caat',
+				suggestions: [ 'cart', 'cast', 'cat', 'coat', 'at' ]
+			} );
+		} );
+
+		it( 'should capitalize the suggestions of the capitalized word', async () => {
+			const [ issue ] = await provider.check( [ 'Teh' ], 'en' );
+
+			expect( issue.suggestions ).to.deep.equal( [ 'The' ] );
+		} );
+
+		it( 'should limit the number of the suggestions', async () => {
+			provider.addToDictionary( 'cut', 'en' );
+
+			const [ issue ] = await provider.check( [ 'caat' ], 'en' );
+
+			expect( issue.suggestions ).to.deep.equal( [ 'cart', 'cast', 'cat', 'coat', 'at' ] );
+		} );
+
+		it( 'should not suggest the words that are not similar', async () => {
+			const [ issue ] = await provider.check( [ 'xylophone' ], 'en' );
+
+			expect( issue.suggestions ).to.deep.equal( [] );
+		} );
+	} );
+
+	describe( 'addToDictionary()', () => {
+		it( 'should stop reporting the word', async () => {
+			provider.addToDictionary( 'ckeditor', 'en' );
+
+			expect( await provider.check( [ 'ckeditor' ], 'en' ) ).to.deep.equal( [] );
+		} );
+
+		it( 'should create the dictionary of a new language', async () => {
+			provider.addToDictionary( 'chat', 'fr' );
+
+			expect( ( await provider.check( [ 'chat', 'chien' ], 'fr' ) ).map( issue => issue.word ) ).to.deep.equal( [ 'chien' ] );
+		} );
+	} );
+} );
@@ -0,0 +1,47 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals console, window, document */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+import CodeBlock from '@ckeditor/ckeditor5-code-block/src/codeblock';
+import TextPartLanguage from '@ckeditor/ckeditor5-language/src/textpartlanguage';
+
+import Proofreading from '../../src/proofreading';
+import LocalDictionaryProvider from '../../src/localdictionaryprovider';
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [ ArticlePluginSet, CodeBlock, TextPartLanguage, Proofreading ],
+		toolbar: [
+			'heading', '|', 'bold', 'italic', 'link', 'bulletedList', 'numberedList', '|',
+			'codeBlock', 'textPartLanguage', '|', 'undo', 'redo'
+		],
+		language: {
+			textPartLanguage: [
+				{ title: 'English', languageCode: 'en' },
+				{ title: 'German', languageCode: 'de' }
+			]
+		},
+		proofreading: {
+			provider: new LocalDictionaryProvider( {
+				en: [
+					'the', 'proofreading', 'feature', 'underlines', 'misspelled', 'words', 'while', 'you', 'type', 'click', 'an',
+					'underlined', 'word', 'to', 'see', 'suggestions', 'checker', 'uses', 'a', 'small', 'dictionary', 'so', 'most',
+					'of', 'in', 'this', 'paragraph', 'are', 'not', 'recognized', 'and', 'will', 'be', 'sentence', 'is', 'written',
+					'german', 'checked', 'that', 'language'
+				],
+				de: [ 'die', 'katze', 'sitzt', 'auf', 'der', 'matte' ]
+			} ),
+			ignoredWords: [ 'CKEditor' ]
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Proofreading from '../src/proofreading';
+import ProofreadingEditing from '../src/proofreadingediting';
+import ProofreadingUI from '../src/proofreadingui';
+
+describe( 'Proofreading', () => {
+	it( 'should be correctly named', () => {
+		expect( Proofreading.pluginName ).to.equal( 'Proofreading' );
+	} );
+
+	it( 'should require ProofreadingEditing and ProofreadingUI', () => {
+		expect( Proofreading.requires ).to.deep.equal( [ ProofreadingEditing, ProofreadingUI ] );
+	} );
+} );
@@ -0,0 +1,492 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, window, console, setTimeout */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Notification from '@ckeditor/ckeditor5-ui/src/notification/notification';
+
+import ProofreadingEditing from '../src/proofreadingediting';
+import ReplaceProofreadingIssueCommand from '../src/replaceproofreadingissuecommand';
+import LocalDictionaryProvider from '../src/localdictionaryprovider';
+
+describe( 'ProofreadingEditing', () => {
+	let editor, model, element, provider, proofreading;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		provider = new LocalDictionaryProvider( {
+			en: [ 'the', 'cat', 'sat', 'on', 'mat', 'a', 'dog' ],
+			de: [ 'die', 'Katze' ]
+		} );
+
+		editor = await createEditor();
+		model = editor.model;
+		proofreading = editor.plugins.get( ProofreadingEditing );
+
+		// The editor uses a copy of the configured provider.
+		provider = proofreading.provider;
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( ProofreadingEditing.pluginName ).to.equal( 'ProofreadingEditing' );
+	} );
+
+	it( 'should register the "replaceProofreadingIssue" command', () => {
+		expect( editor.commands.get( 'replaceProofreadingIssue' ) ).to.be.instanceOf( ReplaceProofreadingIssueCommand );
+	} );
+
+	it( 'should use the configured provider', () => {
+		expect( provider ).to.be.instanceOf( LocalDictionaryProvider );
+	} );
+
+	it( 'should define the default configuration', () => {
+		expect( editor.config.get( 'proofreading.ignoredWords' ) ).to.deep.equal( [] );
+		expect( editor.config.get( 'proofreading.checkDelay' ) ).to.equal( 500 );
+	} );
+
+	it( 'should warn and not check the content when the provider is not configured', async () => {
+		const warnStub = testUtils.sinon.stub( console, 'warn' );
+		const editorWithoutProvider = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, ProofreadingEditing ]
+		} );
+
+		expect( warnStub.firstCall.args[ 0 ] ).to.match( /^proofreading-missing-provider/ );
+
+		setModelData( editorWithoutProvider.model, '<paragraph>Teh cat</paragraph>' );
+		await editorWithoutProvider.plugins.get( 'ProofreadingEditing' ).checkDocument();
+
+		expect( Array.from( editorWithoutProvider.model.markers ) ).to.deep.equal( [] );
+
+		await editorWithoutProvider.destroy();
+	} );
+
+	describe( '#language', () => {
+		it( 'should default to the content language of the editor', () => {
+			expect( proofreading.language ).to.equal( 'en' );
+		} );
+
+		it( 'should be configurable', async () => {
+			const germanEditor = await createEditor( { language: 'de' } );
+
+			expect( germanEditor.plugins.get( 'ProofreadingEditing' ).language ).to.equal( 'de' );
+
+			await germanEditor.destroy();
+		} );
+	} );
+
+	describe( 'checkDocument()', () => {
+		it( 'should mark the misspelled words', async () => {
+			setModelData( model, '<paragraph>Teh cat sat on teh mat</paragraph><paragraph>A dgo</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:Teh', 'spelling:teh', 'spelling:dgo' ] );
+		} );
+
+		it( 'should pass each word to the provider only once', async () => {
+			const checkSpy = testUtils.sinon.spy( provider, 'check' );
+
+			setModelData( model, '<paragraph>Teh cat sat on teh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+			await proofreading.checkDocument();
+
+			sinon.assert.calledOnce( checkSpy );
+			expect( checkSpy.firstCall.args ).to.deep.equal( [ [ 'Teh', 'cat', 'sat', 'on', 'teh' ], 'en' ] );
+		} );
+
+		it( 'should check the words in the language of the text part', async () => {
+			model.schema.extend( '$text', { allowAttributes: 'language' } );
+
+			const checkSpy = testUtils.sinon.spy( provider, 'check' );
+
+			setModelData( model, '<paragraph>The <$text language="de:ltr">Katze Hund</$text></paragraph>' );
+
+			await proofreading.checkDocument();
+
+			sinon.assert.calledTwice( checkSpy );
+			expect( checkSpy.args ).to.deep.equal( [
+				[ [ 'The' ], 'en' ],
+				[ [ 'Katze', 'Hund' ], 'de' ]
+			] );
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:Hund' ] );
+		} );
+
+		it( 'should use the type of the issue', async () => {
+			testUtils.sinon.stub( provider, 'check' ).resolves( [ { word: 'a', type: 'grammar', suggestions: [ 'an' ] } ] );
+
+			setModelData( model, '<paragraph>a apple</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			expect( getMarkedWords() ).to.deep.equal( [ 'grammar:a' ] );
+		} );
+
+		it( 'should ignore the issues of the words that were not checked', async () => {
+			testUtils.sinon.stub( provider, 'check' ).resolves( [ { word: 'foo', suggestions: [] } ] );
+
+			setModelData( model, '<paragraph>cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			expect( getMarkedWords() ).to.deep.equal( [] );
+		} );
+
+		it( 'should not report the configured ignored words', async () => {
+			const editorWithIgnoredWords = await createEditor( { ignoredWords: [ 'CKEditor' ] } );
+			const proofreadingWithIgnoredWords = editorWithIgnoredWords.plugins.get( 'ProofreadingEditing' );
+			const checkSpy = testUtils.sinon.spy( proofreadingWithIgnoredWords.provider, 'check' );
+
+			setModelData( editorWithIgnoredWords.model, '<paragraph>CKEditor ckeditor</paragraph>' );
+
+			await proofreadingWithIgnoredWords.checkDocument();
+
+			expect( checkSpy.firstCall.args[ 0 ] ).to.deep.equal( [ 'ckeditor' ] );
+
+			await editorWithIgnoredWords.destroy();
+		} );
+
+		it( 'should not mark the issues once the editor is destroyed', async () => {
+			setModelData( model, '<paragraph>Teh cat</paragraph>' );
+
+			const promise = proofreading.checkDocument();
+			const changeSpy = testUtils.sinon.spy( model, 'change' );
+
+			await editor.destroy();
+			await promise;
+
+			sinon.assert.notCalled( changeSpy );
+
+			editor = await createEditor();
+		} );
+
+		it( 'should not change the data', async () => {
+			setModelData( model, '<paragraph>Teh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			expect( editor.getData() ).to.equal( '<p>Teh cat</p>' );
+		} );
+
+		it( 'should underline the words in the editing view', async () => {
+			setModelData( model, '<paragraph>Teh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			const viewElement = editor.editing.view.document.getRoot().getChild( 0 ).getChild( 0 );
+
+			expect( viewElement.name ).to.equal( 'span' );
+			expect( Array.from( viewElement.getClassNames() ) ).to.have.members( [
+				'ck-proofreading-issue', 'ck-proofreading-issue_spelling'
+			] );
+			expect( viewElement.getAttribute( 'data-proofreading-issue' ) ).to.be.a( 'string' );
+			expect( viewElement.getChild( 0 ).data ).to.equal( 'Teh' );
+		} );
+	} );
+
+	describe( 'checking the changed content', () => {
+		let clock, checkSpy;
+
+		beforeEach( async () => {
+			setModelData( model, '<paragraph>Teh cat[]</paragraph><paragraph>A dgo</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			checkSpy = testUtils.sinon.spy( provider, 'check' );
+			clock = testUtils.sinon.useFakeTimers();
+		} );
+
+		it( 'should check the changed block after the delay', async () => {
+			const checkChangedBlocksSpy = testUtils.sinon.spy( proofreading, '_checkChangedBlocks' );
+
+			model.change( writer => writer.insertText( ' sta', model.document.selection.getFirstPosition() ) );
+
+			clock.tick( 499 );
+			sinon.assert.notCalled( checkSpy );
+
+			clock.tick( 1 );
+			await checkChangedBlocksSpy.lastCall.returnValue;
+
+			sinon.assert.calledOnce( checkSpy );
+			expect( checkSpy.firstCall.args ).to.deep.equal( [ [ 'sta' ], 'en' ] );
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:Teh', 'spelling:sta', 'spelling:dgo' ] );
+		} );
+
+		it( 'should check the inserted blocks', async () => {
+			const checkChangedBlocksSpy = testUtils.sinon.spy( proofreading, '_checkChangedBlocks' );
+
+			model.change( writer => {
+				writer.insertElement( 'paragraph', model.document.getRoot(), 'end' );
+				writer.insertText( 'mta', model.document.getRoot().getChild( 2 ), 0 );
+			} );
+
+			clock.tick( 500 );
+			await checkChangedBlocksSpy.lastCall.returnValue;
+
+			expect( checkSpy.firstCall.args ).to.deep.equal( [ [ 'mta' ], 'en' ] );
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:Teh', 'spelling:dgo', 'spelling:mta' ] );
+		} );
+
+		it( 'should check the blocks with the changed attributes', async () => {
+			model.schema.extend( '$text', { allowAttributes: 'language' } );
+
+			const checkChangedBlocksSpy = testUtils.sinon.spy( proofreading, '_checkChangedBlocks' );
+
+			model.change( writer => {
+				writer.setAttribute( 'language', 'de:ltr', writer.createRangeIn( model.document.getRoot().getChild( 1 ) ) );
+			} );
+
+			clock.tick( 500 );
+			await checkChangedBlocksSpy.lastCall.returnValue;
+
+			expect( checkSpy.firstCall.args ).to.deep.equal( [ [ 'A', 'dgo' ], 'de' ] );
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:Teh', 'spelling:A', 'spelling:dgo' ] );
+		} );
+
+		it( 'should remove the marker of the edited word immediately', () => {
+			model.change( writer => writer.insertText( 'h', model.document.getRoot().getChild( 0 ), 1 ) );
+
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:dgo' ] );
+		} );
+
+		it( 'should remove the marker of the word typed at its end', () => {
+			model.change( writer => writer.insertText( 'x', model.document.getRoot().getChild( 1 ), 'end' ) );
+
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:Teh' ] );
+		} );
+
+		it( 'should remove the markers of the removed content', () => {
+			model.change( writer => writer.remove( model.document.getRoot().getChild( 1 ) ) );
+
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:Teh' ] );
+			expect( getModelData( model ) ).to.equal( '<paragraph>Teh cat[]</paragraph>' );
+		} );
+	} );
+
+	describe( 'provider failures', () => {
+		let showWarningStub, unhandledRejectionSpy, isFailing;
+
+		beforeEach( () => {
+			const check = provider.check.bind( provider );
+
+			isFailing = true;
+			testUtils.sinon.stub( provider, 'check' ).callsFake( ( words, language ) => {
+				return isFailing ? Promise.reject( new Error( 'Network error' ) ) : check( words, language );
+			} );
+
+			showWarningStub = testUtils.sinon.stub( editor.plugins.get( Notification ), 'showWarning' );
+			unhandledRejectionSpy = sinon.spy();
+			window.addEventListener( 'unhandledrejection', unhandledRejectionSpy );
+		} );
+
+		afterEach( () => {
+			window.removeEventListener( 'unhandledrejection', unhandledRejectionSpy );
+		} );
+
+		it( 'should require the Notification plugin', () => {
+			expect( ProofreadingEditing.requires ).to.deep.equal( [ Notification ] );
+		} );
+
+		it( 'should show a warning when checking the changed blocks fails', async () => {
+			const warned = new Promise( resolve => showWarningStub.callsFake( resolve ) );
+
+			setModelData( model, '<paragraph>Teh cat[]</paragraph>' );
+			proofreading._checkChangedBlocksDebounced.flush();
+
+			await warned;
+			await new Promise( resolve => setTimeout( resolve, 10 ) );
+
+			sinon.assert.calledOnce( showWarningStub );
+			expect( showWarningStub.firstCall.args ).to.deep.equal( [ 'The spelling could not be checked.', {
+				title: 'Proofreading error',
+				namespace: 'proofreading'
+			} ] );
+			sinon.assert.notCalled( unhandledRejectionSpy );
+		} );
+
+		it( 'should check the blocks again after the next change', async () => {
+			const warned = new Promise( resolve => showWarningStub.callsFake( resolve ) );
+
+			setModelData( model, '<paragraph>Teh cat[]</paragraph><paragraph>A dgo</paragraph>' );
+			proofreading._checkChangedBlocksDebounced.flush();
+
+			await warned;
+
+			expect( getMarkedWords() ).to.deep.equal( [] );
+
+			isFailing = false;
+
+			const checkChangedBlocksSpy = testUtils.sinon.spy( proofreading, '_checkChangedBlocks' );
+
+			model.change( writer => writer.insertText( ' sta', model.document.selection.getFirstPosition() ) );
+			proofreading._checkChangedBlocksDebounced.flush();
+
+			await checkChangedBlocksSpy.lastCall.returnValue;
+
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:Teh', 'spelling:sta', 'spelling:dgo' ] );
+		} );
+
+		it( 'should reject the promise returned by checkDocument()', async () => {
+			setModelData( model, '<paragraph>Teh cat</paragraph>' );
+
+			let error;
+
+			try {
+				await proofreading.checkDocument();
+			} catch ( err ) {
+				error = err;
+			}
+
+			expect( error.message ).to.equal( 'Network error' );
+			sinon.assert.calledOnce( showWarningStub );
+		} );
+	} );
+
+	describe( 'getIssue()', () => {
+		it( 'should return the issue of the marker', async () => {
+			setModelData( model, '<paragraph>Teh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			const marker = Array.from( model.markers.getMarkersGroup( 'proofreading' ) )[ 0 ];
+			const markedIssue = proofreading.getIssue( marker.name );
+
+			expect( markedIssue.marker ).to.equal( marker );
+			expect( markedIssue.word ).to.equal( 'Teh' );
+			expect( markedIssue.language ).to.equal( 'en' );
+			expect( markedIssue.issue ).to.deep.equal( { word: 'Teh', suggestions: [ 'The' ] } );
+		} );
+
+		it( 'should return null for an unknown marker', () => {
+			expect( proofreading.getIssue( 'proofreading:spelling:foo' ) ).to.be.null;
+		} );
+	} );
+
+	describe( 'getIssueAtSelection()', () => {
+		beforeEach( async () => {
+			setModelData( model, '<paragraph>Teh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+		} );
+
+		it( 'should return the issue of the word at the selection', () => {
+			model.change( writer => writer.setSelection( model.document.getRoot().getChild( 0 ), 2 ) );
+
+			expect( proofreading.getIssueAtSelection().word ).to.equal( 'Teh' );
+		} );
+
+		it( 'should return the issue at the beginning of the word', () => {
+			model.change( writer => writer.setSelection( model.document.getRoot().getChild( 0 ), 0 ) );
+
+			expect( proofreading.getIssueAtSelection().word ).to.equal( 'Teh' );
+		} );
+
+		it( 'should return the issue at the end of the word', () => {
+			model.change( writer => writer.setSelection( model.document.getRoot().getChild( 0 ), 3 ) );
+
+			expect( proofreading.getIssueAtSelection().word ).to.equal( 'Teh' );
+		} );
+
+		it( 'should return null if there is no issue at the selection', () => {
+			model.change( writer => writer.setSelection( model.document.getRoot().getChild( 0 ), 5 ) );
+
+			expect( proofreading.getIssueAtSelection() ).to.be.null;
+		} );
+	} );
+
+	describe( 'ignoreWord()', () => {
+		it( 'should remove the markers of all occurrences of the word', async () => {
+			setModelData( model, '<paragraph>Teh cat teh Teh</paragraph><paragraph>dgo</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			proofreading.ignoreWord( 'Teh' );
+
+			expect( getMarkedWords() ).to.deep.equal( [ 'spelling:teh', 'spelling:dgo' ] );
+		} );
+
+		it( 'should not report the word anymore', async () => {
+			setModelData( model, '<paragraph>Teh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			proofreading.ignoreWord( 'Teh' );
+
+			await proofreading.checkDocument();
+
+			expect( getMarkedWords() ).to.deep.equal( [] );
+		} );
+	} );
+
+	describe( 'addToDictionary()', () => {
+		it( 'should add the word to the dictionary of the provider', async () => {
+			const addSpy = testUtils.sinon.spy( provider, 'addToDictionary' );
+
+			setModelData( model, '<paragraph>Teh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			proofreading.addToDictionary( 'Teh', 'en' );
+
+			sinon.assert.calledWithExactly( addSpy, 'Teh', 'en' );
+			expect( getMarkedWords() ).to.deep.equal( [] );
+		} );
+
+		it( 'should stop reporting the word when the provider does not support the dictionary', async () => {
+			const simpleProvider = {
+				check: words => Promise.resolve( words.map( word => ( { word, suggestions: [] } ) ) )
+			};
+			const simpleEditor = await ClassicTestEditor.create( element, {
+				plugins: [ Paragraph, ProofreadingEditing ],
+				proofreading: { provider: simpleProvider }
+			} );
+			const simpleProofreading = simpleEditor.plugins.get( 'ProofreadingEditing' );
+
+			setModelData( simpleEditor.model, '<paragraph>foo</paragraph>' );
+
+			await simpleProofreading.checkDocument();
+
+			simpleProofreading.addToDictionary( 'foo', 'en' );
+
+			await simpleProofreading.checkDocument();
+
+			expect( Array.from( simpleEditor.model.markers.getMarkersGroup( 'proofreading' ) ) ).to.deep.equal( [] );
+
+			await simpleEditor.destroy();
+		} );
+	} );
+
+	function getMarkedWords() {
+		return Array.from( model.markers.getMarkersGroup( 'proofreading' ) )
+			.sort( ( a, b ) => a.getStart().isBefore( b.getStart() ) ? -1 : 1 )
+			.map( marker => {
+				const text = Array.from( marker.getRange().getItems() ).map( item => item.data ).join( '' );
+
+				return `${ marker.name.split( ':' )[ 1 ] }:${ text }`;
+			} );
+	}
+
+	function createEditor( proofreadingConfig = {} ) {
+		return ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, BoldEditing, ProofreadingEditing ],
+			proofreading: { provider, ...proofreadingConfig }
+		} );
+	}
+} );
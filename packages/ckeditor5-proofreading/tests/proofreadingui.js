@@ -0,0 +1,224 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, window */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import ContextualBalloon from '@ckeditor/ckeditor5-ui/src/panel/balloon/contextualballoon';
+import DomEventData from '@ckeditor/ckeditor5-engine/src/view/observer/domeventdata';
+import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import ProofreadingEditing from '../src/proofreadingediting';
+import ProofreadingUI from '../src/proofreadingui';
+import LocalDictionaryProvider from '../src/localdictionaryprovider';
+import ProofreadingSuggestionsView from '../src/ui/proofreadingsuggestionsview';
+
+describe( 'ProofreadingUI', () => {
+	let editor, model, element, balloon, proofreading, proofreadingUI;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, ProofreadingEditing, ProofreadingUI ],
+			proofreading: {
+				provider: new LocalDictionaryProvider( { en: [ 'the', 'cat', 'sat', 'on', 'mat' ] } )
+			}
+		} );
+
+		model = editor.model;
+		balloon = editor.plugins.get( ContextualBalloon );
+		proofreading = editor.plugins.get( ProofreadingEditing );
+		proofreadingUI = editor.plugins.get( ProofreadingUI );
+
+		setModelData( model, '<paragraph>[]Teh cat sat on teh mta</paragraph>' );
+
+		await proofreading.checkDocument();
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( ProofreadingUI.pluginName ).to.equal( 'ProofreadingUI' );
+	} );
+
+	it( 'should require the ContextualBalloon plugin', () => {
+		expect( ProofreadingUI.requires ).to.deep.equal( [ ContextualBalloon ] );
+	} );
+
+	it( 'should not create the suggestions view until it is needed', () => {
+		expect( proofreadingUI.suggestionsView ).to.be.null;
+	} );
+
+	describe( 'clicking the word with an issue', () => {
+		it( 'should show the suggestions of the word', () => {
+			clickAt( 1 );
+
+			expect( balloon.visibleView ).to.be.instanceOf( ProofreadingSuggestionsView );
+			expect( balloon.visibleView ).to.equal( proofreadingUI.suggestionsView );
+			expect( getSuggestions() ).to.deep.equal( [ 'The' ] );
+		} );
+
+		it( 'should show the suggestions of another word', () => {
+			clickAt( 1 );
+			clickAt( 22 );
+
+			expect( balloon.visibleView ).to.equal( proofreadingUI.suggestionsView );
+			expect( getSuggestions() ).to.deep.equal( [ 'mat' ] );
+		} );
+
+		it( 'should display the message of the issue', async () => {
+			proofreading.provider.check = async words => words.map( word => ( {
+				word,
+				type: 'grammar',
+				message: 'Check the grammar',
+				suggestions: []
+			} ) );
+
+			setModelData( model, '<paragraph>[]Foo</paragraph>' );
+			await proofreading.checkDocument();
+
+			clickAt( 1 );
+
+			expect( proofreadingUI.suggestionsView.message ).to.equal( 'Check the grammar' );
+			expect( proofreadingUI.suggestionsView.hasSuggestions ).to.be.false;
+		} );
+
+		it( 'should not show the balloon when the word has no issue', () => {
+			clickAt( 5 );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should attach the balloon to the word', () => {
+			const spy = testUtils.sinon.spy( balloon, 'add' );
+
+			clickAt( 1 );
+
+			const target = spy.firstCall.args[ 0 ].position.target();
+
+			expect( target ).to.be.instanceOf( window.Range );
+			expect( target.toString() ).to.equal( 'Teh' );
+		} );
+	} );
+
+	describe( 'when the balloon is visible', () => {
+		beforeEach( () => {
+			clickAt( 1 );
+		} );
+
+		it( 'should hide the balloon when the selection leaves the word', () => {
+			model.change( writer => writer.setSelection( model.document.getRoot().getChild( 0 ), 6 ) );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should update the position of the balloon when the selection moves within the word', () => {
+			const spy = testUtils.sinon.spy( balloon, 'updatePosition' );
+
+			model.change( writer => writer.setSelection( model.document.getRoot().getChild( 0 ), 2 ) );
+
+			sinon.assert.called( spy );
+			expect( balloon.visibleView ).to.equal( proofreadingUI.suggestionsView );
+		} );
+
+		it( 'should replace the word when a suggestion is chosen', () => {
+			const focusSpy = testUtils.sinon.spy( editor.editing.view, 'focus' );
+
+			proofreadingUI.suggestionsView.suggestionsView.items.first.children.first.fire( 'execute' );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>The[] cat sat on teh mta</paragraph>' );
+			expect( balloon.visibleView ).to.be.null;
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should ignore the word when the "Ignore" button is executed', () => {
+			const spy = testUtils.sinon.spy( proofreading, 'ignoreWord' );
+
+			proofreadingUI.suggestionsView.ignoreButtonView.fire( 'execute' );
+
+			sinon.assert.calledOnceWithExactly( spy, 'Teh' );
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should add the word to the dictionary when the "Add to dictionary" button is executed', () => {
+			const spy = testUtils.sinon.spy( proofreading, 'addToDictionary' );
+
+			proofreadingUI.suggestionsView.addToDictionaryButtonView.fire( 'execute' );
+
+			sinon.assert.calledOnceWithExactly( spy, 'Teh', 'en' );
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should disable the suggestions in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'unit-test' );
+
+			expect( proofreadingUI.suggestionsView.areSuggestionsEnabled ).to.be.false;
+		} );
+
+		it( 'should hide the balloon on the Esc key press', () => {
+			const keyEvtData = {
+				keyCode: keyCodes.esc,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			proofreadingUI.suggestionsView.keystrokes.press( keyEvtData );
+
+			expect( balloon.visibleView ).to.be.null;
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+		} );
+
+		it( 'should hide the balloon upon clicking outside of it', () => {
+			document.body.dispatchEvent( new window.Event( 'mousedown', { bubbles: true } ) );
+
+			expect( balloon.visibleView ).to.be.null;
+		} );
+
+		it( 'should not hide the balloon upon clicking inside of it', () => {
+			balloon.view.element.dispatchEvent( new window.Event( 'mousedown', { bubbles: true } ) );
+
+			expect( balloon.visibleView ).to.equal( proofreadingUI.suggestionsView );
+		} );
+	} );
+
+	it( 'should destroy the suggestions view', async () => {
+		clickAt( 1 );
+
+		const spy = testUtils.sinon.spy( proofreadingUI.suggestionsView, 'destroy' );
+
+		await editor.destroy();
+
+		sinon.assert.called( spy );
+
+		editor = await ClassicTestEditor.create( element );
+	} );
+
+	// Moves the selection to the given offset in the first paragraph and fires the click event in the editing view.
+	function clickAt( offset ) {
+		const view = editor.editing.view;
+
+		model.change( writer => writer.setSelection( model.document.getRoot().getChild( 0 ), offset ) );
+
+		view.document.fire( 'click', new DomEventData( view, {
+			target: view.getDomRoot(),
+			preventDefault: sinon.spy()
+		} ) );
+	}
+
+	function getSuggestions() {
+		return Array.from( proofreadingUI.suggestionsView.suggestionsView.items ).map( item => item.children.first.label );
+	}
+} );
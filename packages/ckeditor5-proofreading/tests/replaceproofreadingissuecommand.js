@@ -0,0 +1,123 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import ProofreadingEditing from '../src/proofreadingediting';
+import LocalDictionaryProvider from '../src/localdictionaryprovider';
+
+describe( 'ReplaceProofreadingIssueCommand', () => {
+	let editor, model, element, command, proofreading;
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, BoldEditing, ProofreadingEditing ],
+			proofreading: {
+				provider: new LocalDictionaryProvider( { en: [ 'the', 'cat', 'sat' ] } )
+			}
+		} );
+
+		model = editor.model;
+		command = editor.commands.get( 'replaceProofreadingIssue' );
+		proofreading = editor.plugins.get( 'ProofreadingEditing' );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true when the selection is in the word with an issue', async () => {
+			setModelData( model, '<paragraph>T[]eh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when the selection is not in the word with an issue', async () => {
+			setModelData( model, '<paragraph>Teh c[]at</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false in the read-only mode', async () => {
+			setModelData( model, '<paragraph>T[]eh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			editor.enableReadOnlyMode( 'unit-test' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should replace the word with an issue at the selection', async () => {
+			setModelData( model, '<paragraph>T[]eh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			command.execute( { suggestion: 'The' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>The[] cat</paragraph>' );
+		} );
+
+		it( 'should replace the word with the issue of the given marker', async () => {
+			setModelData( model, '<paragraph>[]Teh cat sta</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			const marker = Array.from( model.markers.getMarkersGroup( 'proofreading' ) )
+				.find( marker => marker.getStart().offset == 8 );
+
+			command.execute( { suggestion: 'sat', markerName: marker.name } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>Teh cat sat[]</paragraph>' );
+		} );
+
+		it( 'should keep the attributes of the word', async () => {
+			setModelData( model, '<paragraph><$text bold="true">T[]eh</$text> cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			command.execute( { suggestion: 'The' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph><$text bold="true">The[]</$text> cat</paragraph>' );
+		} );
+
+		it( 'should remove the marker of the issue', async () => {
+			setModelData( model, '<paragraph>T[]eh cat</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			command.execute( { suggestion: 'The' } );
+
+			expect( Array.from( model.markers.getMarkersGroup( 'proofreading' ) ) ).to.deep.equal( [] );
+		} );
+
+		it( 'should do nothing when there is no issue at the selection', async () => {
+			setModelData( model, '<paragraph>Teh c[]at</paragraph>' );
+
+			await proofreading.checkDocument();
+
+			command.execute( { suggestion: 'The' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>Teh c[]at</paragraph>' );
+		} );
+	} );
+} );
@@ -0,0 +1,181 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, window */
+
+import { Locale } from '@ckeditor/ckeditor5-utils';
+import FocusCycler from '@ckeditor/ckeditor5-ui/src/focuscycler';
+import ButtonView from '@ckeditor/ckeditor5-ui/src/button/buttonview';
+import ListView from '@ckeditor/ckeditor5-ui/src/list/listview';
+
+import ProofreadingSuggestionsView from '../../src/ui/proofreadingsuggestionsview';
+
+describe( 'ProofreadingSuggestionsView', () => {
+	let view;
+
+	beforeEach( () => {
+		view = new ProofreadingSuggestionsView( new Locale() );
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create the element', () => {
+			expect( view.element.classList.contains( 'ck-proofreading-suggestions' ) ).to.be.true;
+			expect( view.element.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+		} );
+
+		it( 'should set the default values of the observables', () => {
+			expect( view.message ).to.equal( '' );
+			expect( view.hasSuggestions ).to.be.false;
+			expect( view.areSuggestionsEnabled ).to.be.true;
+		} );
+
+		it( 'should create the list of the suggestions', () => {
+			expect( view.suggestionsView ).to.be.instanceOf( ListView );
+			expect( view.suggestionsView.element.classList.contains( 'ck-proofreading-suggestions__list' ) ).to.be.true;
+		} );
+
+		it( 'should create the action buttons', () => {
+			expect( view.ignoreButtonView ).to.be.instanceOf( ButtonView );
+			expect( view.ignoreButtonView.label ).to.equal( 'Ignore' );
+			expect( view.ignoreButtonView.withText ).to.be.true;
+
+			expect( view.addToDictionaryButtonView ).to.be.instanceOf( ButtonView );
+			expect( view.addToDictionaryButtonView.label ).to.equal( 'Add to dictionary' );
+			expect( view.addToDictionaryButtonView.withText ).to.be.true;
+		} );
+
+		it( 'should create the focus cycler', () => {
+			expect( view._focusCycler ).to.be.instanceOf( FocusCycler );
+		} );
+
+		it( 'should fire the "ignore" event when the "Ignore" button is executed', () => {
+			const spy = sinon.spy();
+
+			view.on( 'ignore', spy );
+			view.ignoreButtonView.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should fire the "addToDictionary" event when the "Add to dictionary" button is executed', () => {
+			const spy = sinon.spy();
+
+			view.on( 'addToDictionary', spy );
+			view.addToDictionaryButtonView.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'render()', () => {
+		it( 'should register the focusable children in the focus tracker', () => {
+			const element = view.addToDictionaryButtonView.element;
+
+			element.dispatchEvent( new window.Event( 'focus' ) );
+
+			expect( view.focusTracker.focusedElement ).to.equal( element );
+		} );
+	} );
+
+	describe( 'setSuggestions()', () => {
+		it( 'should list the suggestions as the buttons', () => {
+			view.setSuggestions( [ 'cat', 'cart' ] );
+
+			const labels = Array.from( view.suggestionsView.items ).map( item => item.children.first.label );
+
+			expect( labels ).to.deep.equal( [ 'cat', 'cart' ] );
+			expect( view.hasSuggestions ).to.be.true;
+		} );
+
+		it( 'should replace the previous suggestions', () => {
+			view.setSuggestions( [ 'cat', 'cart' ] );
+			view.setSuggestions( [ 'mat' ] );
+
+			expect( view.suggestionsView.items.length ).to.equal( 1 );
+		} );
+
+		it( 'should display the message of the issue', () => {
+			const messageElement = view.element.querySelector( '.ck-proofreading-suggestions__message' );
+
+			view.setSuggestions( [], 'Possible typo' );
+
+			expect( view.message ).to.equal( 'Possible typo' );
+			expect( messageElement.textContent ).to.equal( 'Possible typo' );
+			expect( messageElement.classList.contains( 'ck-hidden' ) ).to.be.false;
+
+			view.setSuggestions( [] );
+
+			expect( messageElement.classList.contains( 'ck-hidden' ) ).to.be.true;
+		} );
+
+		it( 'should display the information when there are no suggestions', () => {
+			const noSuggestionsElement = view.element.querySelector( '.ck-proofreading-suggestions__no-suggestions' );
+
+			view.setSuggestions( [] );
+
+			expect( view.hasSuggestions ).to.be.false;
+			expect( noSuggestionsElement.textContent ).to.equal( 'No suggestions' );
+			expect( noSuggestionsElement.classList.contains( 'ck-hidden' ) ).to.be.false;
+			expect( view.suggestionsView.element.classList.contains( 'ck-hidden' ) ).to.be.true;
+
+			view.setSuggestions( [ 'cat' ] );
+
+			expect( noSuggestionsElement.classList.contains( 'ck-hidden' ) ).to.be.true;
+			expect( view.suggestionsView.element.classList.contains( 'ck-hidden' ) ).to.be.false;
+		} );
+
+		it( 'should fire the "replace" event when a suggestion is executed', () => {
+			const spy = sinon.spy();
+
+			view.on( 'replace', spy );
+			view.setSuggestions( [ 'cat', 'cart' ] );
+			view.suggestionsView.items.get( 1 ).children.first.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 1 ] ).to.deep.equal( { suggestion: 'cart' } );
+		} );
+
+		it( 'should bind the suggestion buttons to #areSuggestionsEnabled', () => {
+			view.setSuggestions( [ 'cat' ] );
+
+			const buttonView = view.suggestionsView.items.first.children.first;
+
+			view.areSuggestionsEnabled = false;
+			expect( buttonView.isEnabled ).to.be.false;
+
+			view.areSuggestionsEnabled = true;
+			expect( buttonView.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the first focusable child', () => {
+			const spy = sinon.spy( view._focusCycler, 'focusFirst' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'destroy()', () => {
+		it( 'should destroy the focus tracker and the keystroke handler', () => {
+			const focusTrackerSpy = sinon.spy( view.focusTracker, 'destroy' );
+			const keystrokesSpy = sinon.spy( view.keystrokes, 'destroy' );
+
+			view.destroy();
+
+			sinon.assert.calledOnce( focusTrackerSpy );
+			sinon.assert.calledOnce( keystrokesSpy );
+		} );
+	} );
+} );
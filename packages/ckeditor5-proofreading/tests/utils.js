@@ -0,0 +1,130 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Model from '@ckeditor/ckeditor5-engine/src/model/model';
+import { setData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import { getBlockWords, getLanguageCode, isProofreadBlock } from '../src/utils';
+
+describe( 'proofreading utils', () => {
+	let model, root;
+
+	beforeEach( () => {
+		model = new Model();
+		root = model.document.createRoot();
+
+		model.schema.register( 'paragraph', { inheritAllFrom: '$block' } );
+		model.schema.register( 'codeBlock', { inheritAllFrom: '$block' } );
+		model.schema.register( 'blockQuote', { inheritAllFrom: '$container' } );
+		model.schema.register( 'imageInline', { allowWhere: '$text', isInline: true, isObject: true } );
+		model.schema.extend( '$text', { allowAttributes: [ 'bold', 'code', 'language' ] } );
+	} );
+
+	describe( 'isProofreadBlock()', () => {
+		it( 'should return true for the blocks allowing text', () => {
+			setData( model, '<paragraph>foo</paragraph>' );
+
+			expect( isProofreadBlock( root.getChild( 0 ), model.schema ) ).to.be.true;
+		} );
+
+		it( 'should return false for the elements not allowing text', () => {
+			setData( model, '<blockQuote><paragraph>foo</paragraph></blockQuote>' );
+
+			expect( isProofreadBlock( root.getChild( 0 ), model.schema ) ).to.be.false;
+			expect( isProofreadBlock( root.getChild( 0 ).getChild( 0 ), model.schema ) ).to.be.true;
+		} );
+
+		it( 'should return false for the code blocks', () => {
+			setData( model, '<codeBlock>foo</codeBlock>' );
+
+			expect( isProofreadBlock( root.getChild( 0 ), model.schema ) ).to.be.false;
+		} );
+
+		it( 'should return false for the text and the root', () => {
+			setData( model, '<paragraph>foo</paragraph>' );
+
+			expect( isProofreadBlock( root.getChild( 0 ).getChild( 0 ), model.schema ) ).to.be.false;
+			expect( isProofreadBlock( root, model.schema ) ).to.be.false;
+		} );
+	} );
+
+	describe( 'getBlockWords()', () => {
+		it( 'should return the words with their offsets', () => {
+			setData( model, '<paragraph>The quick, brown fox.</paragraph>' );
+
+			expect( getBlockWords( root.getChild( 0 ), 'en' ) ).to.deep.equal( [
+				{ word: 'The', language: 'en', start: 0, end: 3 },
+				{ word: 'quick', language: 'en', start: 4, end: 9 },
+				{ word: 'brown', language: 'en', start: 11, end: 16 },
+				{ word: 'fox', language: 'en', start: 17, end: 20 }
+			] );
+		} );
+
+		it( 'should keep the apostrophes inside the words and skip the digits', () => {
+			setData( model, '<paragraph>don’t isn\'t \'quoted\' 2023</paragraph>' );
+
+			expect( getBlockWords( root.getChild( 0 ), 'en' ).map( ( { word } ) => word ) ).to.deep.equal( [
+				'don’t', 'isn\'t', 'quoted'
+			] );
+		} );
+
+		it( 'should match the letters of any alphabet', () => {
+			setData( model, '<paragraph>zażółć Привет</paragraph>' );
+
+			expect( getBlockWords( root.getChild( 0 ), 'en' ).map( ( { word } ) => word ) ).to.deep.equal( [ 'zażółć', 'Привет' ] );
+		} );
+
+		it( 'should join the differently formatted parts of a word', () => {
+			setData( model, '<paragraph>un<$text bold="true">known</$text> word</paragraph>' );
+
+			expect( getBlockWords( root.getChild( 0 ), 'en' ) ).to.deep.equal( [
+				{ word: 'unknown', language: 'en', start: 0, end: 7 },
+				{ word: 'word', language: 'en', start: 8, end: 12 }
+			] );
+		} );
+
+		it( 'should use the language of the text part', () => {
+			setData( model, '<paragraph>Hello <$text language="de:ltr">Welt</$text>s</paragraph>' );
+
+			expect( getBlockWords( root.getChild( 0 ), 'en' ) ).to.deep.equal( [
+				{ word: 'Hello', language: 'en', start: 0, end: 5 },
+				{ word: 'Welt', language: 'de', start: 6, end: 10 },
+				{ word: 's', language: 'en', start: 10, end: 11 }
+			] );
+		} );
+
+		it( 'should skip the inline code', () => {
+			setData( model, '<paragraph>Call <$text code="true">getData</$text> now</paragraph>' );
+
+			expect( getBlockWords( root.getChild( 0 ), 'en' ).map( ( { word } ) => word ) ).to.deep.equal( [ 'Call', 'now' ] );
+		} );
+
+		it( 'should split the words at the inline objects', () => {
+			setData( model, '<paragraph>foo<imageInline></imageInline>bar</paragraph>' );
+
+			expect( getBlockWords( root.getChild( 0 ), 'en' ) ).to.deep.equal( [
+				{ word: 'foo', language: 'en', start: 0, end: 3 },
+				{ word: 'bar', language: 'en', start: 4, end: 7 }
+			] );
+		} );
+
+		it( 'should return an empty array for the empty block', () => {
+			setData( model, '<paragraph></paragraph>' );
+
+			expect( getBlockWords( root.getChild( 0 ), 'en' ) ).to.deep.equal( [] );
+		} );
+	} );
+
+	describe( 'getLanguageCode()', () => {
+		it( 'should return the language code of the attribute value', () => {
+			expect( getLanguageCode( 'ar:rtl' ) ).to.equal( 'ar' );
+			expect( getLanguageCode( 'pl' ) ).to.equal( 'pl' );
+		} );
+
+		it( 'should return null for the missing attribute', () => {
+			expect( getLanguageCode( undefined ) ).to.be.null;
+		} );
+	} );
+} );
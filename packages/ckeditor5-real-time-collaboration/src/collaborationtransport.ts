@@ -0,0 +1,111 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module real-time-collaboration/collaborationtransport
+ */
+
+/**
+ * An interface of the channel connecting the {@link module:real-time-collaboration/realtimecollaboration~RealTimeCollaboration}
+ * plugins of all editors editing the same document with the service that orders their changes.
+ *
+ * The service keeps the history of accepted batches of operations and its version, which is the number of operations in
+ * that history. It must follow these rules:
+ *
+ * * A batch sent by a client is accepted only if its {@link ~CollaborationClientMessage#baseVersion `baseVersion`} is equal to
+ * the current version of the service. Otherwise, it is rejected and the client sends it again once it has transformed the batch
+ * against the operations it has missed.
+ * * An accepted batch is confirmed to its author with an {@link ~CollaborationAcceptMessage `'accept'` message} and broadcast
+ * to all other clients as an {@link ~CollaborationOperationsMessage `'operations'` message}.
+ * * The messages are delivered to each client in the order in which the service sent them.
+ *
+ * All clients must start editing with the same initial editor data.
+ *
+ * See {@link module:real-time-collaboration/loopbacktransport~LoopbackTransport} for an in-process implementation.
+ */
+export interface CollaborationTransport {
+
+	/**
+	 * Connects a client to the service.
+	 *
+	 * Right after connecting, the service should send the client all batches accepted after the given version
+	 * as {@link ~CollaborationOperationsMessage `'operations'` messages}.
+	 *
+	 * @param clientId The unique identifier of the client.
+	 * @param version The version of the service that the client has already caught up with.
+	 * @param receive The callback that should be called with every message sent by the service to the client.
+	 */
+	connect( clientId: string, version: number, receive: ( message: CollaborationServerMessage ) => void ): void;
+
+	/**
+	 * Disconnects a client from the service. The client should not receive any more messages.
+	 *
+	 * @param clientId The unique identifier of the client.
+	 */
+	disconnect( clientId: string ): void;
+
+	/**
+	 * Sends a batch of operations to the service.
+	 */
+	send( message: CollaborationClientMessage ): void;
+}
+
+/**
+ * A batch of operations sent by a client to the service.
+ */
+export interface CollaborationClientMessage {
+
+	/**
+	 * The unique identifier of the client.
+	 */
+	clientId: string;
+
+	/**
+	 * The version of the service the operations were created on.
+	 */
+	baseVersion: number;
+
+	/**
+	 * The operations serialized with {@link module:engine/model/operation/operation~Operation#toJSON `Operation#toJSON()`}.
+	 * They can be deserialized with {@link module:engine/model/operation/operationfactory~OperationFactory.fromJSON}.
+	 */
+	operations: Array<unknown>;
+}
+
+/**
+ * A batch of operations accepted by the service, sent to all clients but its author.
+ */
+export interface CollaborationOperationsMessage extends CollaborationClientMessage {
+	type: 'operations';
+}
+
+/**
+ * The message confirming to the author that its batch was accepted.
+ */
+export interface CollaborationAcceptMessage {
+	type: 'accept';
+
+	/**
+	 * The version of the service after the batch was added to its history.
+	 */
+	version: number;
+}
+
+/**
+ * The message informing the author that its batch was rejected because it was created on an outdated version.
+ */
+export interface CollaborationRejectMessage {
+	type: 'reject';
+
+	/**
+	 * The current version of the service.
+	 */
+	version: number;
+}
+
+/**
+ * A message sent by the service to a client.
+ */
+export type CollaborationServerMessage = CollaborationOperationsMessage | CollaborationAcceptMessage | CollaborationRejectMessage;
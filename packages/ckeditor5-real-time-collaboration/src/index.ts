@@ -0,0 +1,21 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module real-time-collaboration
+ */
+
+export { default as RealTimeCollaboration } from './realtimecollaboration';
+export { default as LoopbackTransport } from './loopbacktransport';
+export type {
+	CollaborationTransport,
+	CollaborationClientMessage,
+	CollaborationServerMessage,
+	CollaborationOperationsMessage,
+	CollaborationAcceptMessage,
+	CollaborationRejectMessage
+} from './collaborationtransport';
+
+import './augmentation';
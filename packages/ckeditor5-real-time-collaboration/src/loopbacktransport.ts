@@ -0,0 +1,170 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module real-time-collaboration/loopbacktransport
+ */
+
+import type {
+	CollaborationClientMessage,
+	CollaborationServerMessage,
+	CollaborationTransport
+} from './collaborationtransport';
+
+/**
+ * A {@link module:real-time-collaboration/collaborationtransport~CollaborationTransport collaboration transport} that plays the role
+ * of the service within a single page. It allows connecting many editors on the same page, which is useful for testing and
+ * prototyping an integration.
+ *
+ * ```ts
+ * const transport = new LoopbackTransport();
+ *
+ * editor1.plugins.get( 'RealTimeCollaboration' ).connect( transport );
+ * editor2.plugins.get( 'RealTimeCollaboration' ).connect( transport );
+ * ```
+ *
+ * All messages are serialized to JSON and put in a queue, just like they would be sent over the network. By default,
+ * the queue is processed asynchronously. When {@link #autoFlush} is disabled, the queue is processed only when {@link #flush}
+ * is called, which allows simulating network latency and conflicting changes.
+ */
+export default class LoopbackTransport implements CollaborationTransport {
+	/**
+	 * The history of the accepted batches of operations.
+	 */
+	public readonly history: Array<CollaborationClientMessage> = [];
+
+	/**
+	 * The current version of the document, that is the number of accepted operations.
+	 */
+	public version = 0;
+
+	/**
+	 * Whether the queued messages are processed automatically. When set to `false`, {@link #flush} must be called.
+	 */
+	public autoFlush: boolean;
+
+	/**
+	 * The callbacks of the connected clients, by their ids.
+	 */
+	private readonly _clients = new Map<string, ( message: CollaborationServerMessage ) => void>();
+
+	/**
+	 * The queue of the messages waiting to be processed.
+	 */
+	private readonly _queue: Array<() => void> = [];
+
+	/**
+	 * Whether processing of the queue has already been scheduled.
+	 */
+	private _isFlushScheduled = false;
+
+	/**
+	 * Creates an instance of the transport.
+	 *
+	 * @param options.autoFlush Whether the queued messages are processed automatically. Defaults to `true`.
+	 */
+	constructor( { autoFlush = true }: { autoFlush?: boolean } = {} ) {
+		this.autoFlush = autoFlush;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public connect( clientId: string, version: number, receive: ( message: CollaborationServerMessage ) => void ): void {
+		this._clients.set( clientId, receive );
+
+		let batchVersion = 0;
+
+		for ( const batch of this.history ) {
+			if ( batchVersion >= version ) {
+				this._sendToClient( clientId, { type: 'operations', ...batch } );
+			}
+
+			batchVersion += batch.operations.length;
+		}
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public disconnect( clientId: string ): void {
+		this._clients.delete( clientId );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public send( message: CollaborationClientMessage ): void {
+		const batch: CollaborationClientMessage = JSON.parse( JSON.stringify( message ) );
+
+		this._enqueue( () => this._receive( batch ) );
+	}
+
+	/**
+	 * Processes all queued messages, including the ones queued while processing.
+	 */
+	public flush(): void {
+		while ( this._queue.length ) {
+			this._queue.shift()!();
+		}
+	}
+
+	/**
+	 * Handles a batch of operations sent by a client.
+	 */
+	private _receive( batch: CollaborationClientMessage ): void {
+		if ( batch.baseVersion !== this.version ) {
+			this._sendToClient( batch.clientId, { type: 'reject', version: this.version } );
+
+			return;
+		}
+
+		this.history.push( batch );
+		this.version += batch.operations.length;
+
+		this._sendToClient( batch.clientId, { type: 'accept', version: this.version } );
+
+		for ( const clientId of this._clients.keys() ) {
+			if ( clientId !== batch.clientId ) {
+				this._sendToClient( clientId, { type: 'operations', ...batch } );
+			}
+		}
+	}
+
+	/**
+	 * Queues a message for a client. The message is not delivered if the client disconnects in the meantime.
+	 */
+	private _sendToClient( clientId: string, message: CollaborationServerMessage ): void {
+		const receive = this._clients.get( clientId );
+
+		if ( !receive ) {
+			return;
+		}
+
+		const data = JSON.stringify( message );
+
+		this._enqueue( () => {
+			if ( this._clients.get( clientId ) === receive ) {
+				receive( JSON.parse( data ) );
+			}
+		} );
+	}
+
+	/**
+	 * Adds a callback to the queue and schedules processing of the queue if {@link #autoFlush} is enabled.
+	 */
+	private _enqueue( callback: () => void ): void {
+		this._queue.push( callback );
+
+		if ( this.autoFlush && !this._isFlushScheduled ) {
+			this._isFlushScheduled = true;
+
+			Promise.resolve().then( () => {
+				this._isFlushScheduled = false;
+				this.flush();
+			} );
+		}
+	}
+}
@@ -0,0 +1,291 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module real-time-collaboration/realtimecollaboration
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import {
+	OperationFactory,
+	transformSets,
+	type DataControllerReadyEvent,
+	type DocumentChangeEvent,
+	type ModelApplyOperationEvent,
+	type Operation
+} from 'ckeditor5/src/engine';
+import { CKEditorError, uid } from 'ckeditor5/src/utils';
+
+import type {
+	CollaborationOperationsMessage,
+	CollaborationServerMessage,
+	CollaborationTransport
+} from './collaborationtransport';
+
+/**
+ * The real-time collaboration plugin. It synchronizes the content of editors editing the same document.
+ *
+ * Local changes are collected as model operations, serialized and sent to the service through
+ * a {@link module:real-time-collaboration/collaborationtransport~CollaborationTransport collaboration transport}.
+ * The operations created by other clients are received from the service, transformed against the local operations
+ * that have not been accepted by the service yet and applied to the model.
+ *
+ * ```ts
+ * const transport = new LoopbackTransport();
+ *
+ * editor.plugins.get( 'RealTimeCollaboration' ).connect( transport );
+ * ```
+ *
+ * The editor should be connected once it is ready and all editors must be initialized with the same data.
+ */
+export default class RealTimeCollaboration extends Plugin {
+	/**
+	 * The unique identifier of this client.
+	 */
+	public readonly clientId: string = uid();
+
+	/**
+	 * The transport the editor is connected with or `null` when it is not connected.
+	 */
+	public transport: CollaborationTransport | null = null;
+
+	/**
+	 * Whether the editor is connected to the service.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public isConnected: boolean;
+
+	/**
+	 * The version of the service the local content is synchronized with.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public version: number;
+
+	/**
+	 * The local operations that have not been sent to the service yet.
+	 */
+	private _pendingOperations: Array<Operation> = [];
+
+	/**
+	 * The local operations sent to the service and waiting for its response or `null` if no response is awaited.
+	 *
+	 * When remote operations are received while waiting for the response, the sent batch is bound to be rejected.
+	 * Its operations are then transformed and moved back to {@link #_pendingOperations} and this array is emptied.
+	 */
+	private _sentOperations: Array<Operation> | null = null;
+
+	/**
+	 * Whether the local operations are collected. It happens once the editor data is loaded.
+	 */
+	private _isCollecting = false;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'RealTimeCollaboration' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const model = editor.model;
+
+		this.set( 'isConnected', false );
+		this.set( 'version', 0 );
+
+		// The initial data is not a part of the collaboration history. All clients load it on their own.
+		// Use the lowest priority to also skip the empty roots fixed by the data controller when it is ready.
+		this.listenTo<DataControllerReadyEvent>( editor.data, 'ready', () => {
+			this._isCollecting = true;
+		}, { priority: 'lowest' } );
+
+		this.listenTo<ModelApplyOperationEvent>( model, 'applyOperation', ( evt, args ) => {
+			const operation = args[ 0 ];
+
+			if ( this._isCollecting && operation.isDocumentOperation && operation.batch!.isLocal ) {
+				this._pendingOperations.push( operation );
+			}
+		}, { priority: 'low' } );
+
+		// Send the collected operations once the whole change block is done.
+		this.listenTo<DocumentChangeEvent>( model.document, 'change', () => {
+			this._send();
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		this.disconnect();
+
+		super.destroy();
+	}
+
+	/**
+	 * Connects the editor to the service through the given transport.
+	 *
+	 * The local changes done while the editor was disconnected are sent once it is connected again.
+	 */
+	public connect( transport: CollaborationTransport ): void {
+		if ( this.transport ) {
+			/**
+			 * The real-time collaboration plugin is already connected. Call
+			 * {@link module:real-time-collaboration/realtimecollaboration~RealTimeCollaboration#disconnect} first.
+			 *
+			 * @error real-time-collaboration-already-connected
+			 */
+			throw new CKEditorError( 'real-time-collaboration-already-connected', this );
+		}
+
+		this.transport = transport;
+		this.isConnected = true;
+
+		transport.connect( this.clientId, this.version, message => this._receive( message ) );
+
+		// Send again the operations whose fate is unknown. If they were accepted before the connection was lost,
+		// they will be replayed as the first missed batch and this batch will be rejected.
+		if ( this._sentOperations && this._sentOperations.length ) {
+			this._sendOperations( this._sentOperations );
+		} else {
+			this._sentOperations = null;
+			this._send();
+		}
+	}
+
+	/**
+	 * Disconnects the editor from the service. The local changes are still collected and will be sent after connecting again.
+	 */
+	public disconnect(): void {
+		if ( !this.transport ) {
+			return;
+		}
+
+		this.transport.disconnect( this.clientId );
+		this.transport = null;
+		this.isConnected = false;
+	}
+
+	/**
+	 * Returns `true` if there are local changes that have not been accepted by the service yet.
+	 */
+	public get hasPendingChanges(): boolean {
+		return !!this._pendingOperations.length || !!( this._sentOperations && this._sentOperations.length );
+	}
+
+	/**
+	 * Sends the pending operations to the service unless a response to the previously sent batch is awaited.
+	 */
+	private _send(): void {
+		if ( !this.transport || this._sentOperations || !this._pendingOperations.length ) {
+			return;
+		}
+
+		this._sendOperations( this._pendingOperations );
+		this._pendingOperations = [];
+	}
+
+	/**
+	 * Serializes the operations and sends them to the service as a single batch.
+	 */
+	private _sendOperations( operations: Array<Operation> ): void {
+		this._sentOperations = operations;
+
+		this.transport!.send( {
+			clientId: this.clientId,
+			baseVersion: this.version,
+			operations: operations.map( operation => operation.toJSON() )
+		} );
+	}
+
+	/**
+	 * Handles a message sent by the service.
+	 */
+	private _receive( message: CollaborationServerMessage ): void {
+		switch ( message.type ) {
+			case 'operations':
+				if ( message.clientId === this.clientId ) {
+					// This client's batch accepted before the connection was lost, replayed after connecting again.
+					this._sentOperations = [];
+					this.version = message.baseVersion + message.operations.length;
+				} else {
+					this._applyRemoteOperations( message );
+				}
+
+				break;
+
+			case 'accept':
+				this._sentOperations = null;
+				this.version = message.version;
+				this._send();
+
+				break;
+
+			case 'reject':
+				// The rejected operations were already transformed and moved back to the pending operations
+				// when the missed remote operations were received.
+				if ( this._sentOperations ) {
+					this._pendingOperations = [ ...this._sentOperations, ...this._pendingOperations ];
+				}
+
+				this._sentOperations = null;
+				this._send();
+
+				break;
+		}
+	}
+
+	/**
+	 * Transforms the operations created by another client against the local operations that have not been accepted
+	 * by the service yet and applies them to the model.
+	 */
+	private _applyRemoteOperations( message: CollaborationOperationsMessage ): void {
+		const model = this.editor.model;
+		const document = model.document;
+
+		if ( message.baseVersion !== this.version ) {
+			/**
+			 * The remote operations were created on a different version than the one the local content is synchronized with.
+			 * Make sure that the collaboration transport delivers messages in the order in which the service sent them.
+			 *
+			 * @error real-time-collaboration-unexpected-version
+			 * @param version The version of the local content.
+			 * @param baseVersion The version the remote operations were created on.
+			 */
+			throw new CKEditorError( 'real-time-collaboration-unexpected-version', this, {
+				version: this.version,
+				baseVersion: message.baseVersion
+			} );
+		}
+
+		this.version = message.baseVersion + message.operations.length;
+
+		model.enqueueChange( model.createBatch( { isUndoable: false, isLocal: false } ), writer => {
+			const remoteOperations = message.operations.map( json => OperationFactory.fromJSON( json, document ) );
+			const localOperations = [ ...this._sentOperations || [], ...this._pendingOperations ];
+
+			// The remote operations were accepted by the service first, so they win in case of a conflict.
+			const { operationsA, operationsB } = transformSets( remoteOperations, localOperations, { document } );
+
+			// The sent batch, if any, will be rejected, so its transformed operations are sent again with the pending ones.
+			this._sentOperations = this._sentOperations && [];
+			this._pendingOperations = operationsB;
+
+			for ( const operation of operationsA ) {
+				operation.baseVersion = document.version;
+
+				writer.batch.addOperation( operation );
+				model.applyOperation( operation );
+			}
+		} );
+	}
+}
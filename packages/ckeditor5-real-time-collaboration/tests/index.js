@@ -0,0 +1,21 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	RealTimeCollaboration as RealTimeCollaborationDLL,
+	LoopbackTransport as LoopbackTransportDLL
+} from '../src';
+import RealTimeCollaboration from '../src/realtimecollaboration';
+import LoopbackTransport from '../src/loopbacktransport';
+
+describe( 'RealTimeCollaboration DLL', () => {
+	it( 'exports RealTimeCollaboration', () => {
+		expect( RealTimeCollaborationDLL ).to.equal( RealTimeCollaboration );
+	} );
+
+	it( 'exports LoopbackTransport', () => {
+		expect( LoopbackTransportDLL ).to.equal( LoopbackTransport );
+	} );
+} );
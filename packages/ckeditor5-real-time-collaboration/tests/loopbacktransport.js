@@ -0,0 +1,153 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import LoopbackTransport from '../src/loopbacktransport';
+
+describe( 'LoopbackTransport', () => {
+	let transport, receiveA, receiveB;
+
+	beforeEach( () => {
+		transport = new LoopbackTransport( { autoFlush: false } );
+		receiveA = sinon.spy();
+		receiveB = sinon.spy();
+	} );
+
+	it( 'should be empty initially', () => {
+		expect( transport.history ).to.deep.equal( [] );
+		expect( transport.version ).to.equal( 0 );
+	} );
+
+	it( 'should flush automatically by default', async () => {
+		transport = new LoopbackTransport();
+		transport.connect( 'a', 0, receiveA );
+
+		transport.send( { clientId: 'a', baseVersion: 0, operations: [ { foo: 1 } ] } );
+
+		sinon.assert.notCalled( receiveA );
+
+		await Promise.resolve();
+
+		sinon.assert.calledOnceWithExactly( receiveA, { type: 'accept', version: 1 } );
+	} );
+
+	it( 'should not process the messages until flushed when auto flushing is disabled', () => {
+		transport.connect( 'a', 0, receiveA );
+		transport.send( { clientId: 'a', baseVersion: 0, operations: [ { foo: 1 } ] } );
+
+		expect( transport.history ).to.deep.equal( [] );
+		sinon.assert.notCalled( receiveA );
+
+		transport.flush();
+
+		expect( transport.history.length ).to.equal( 1 );
+		sinon.assert.calledOnce( receiveA );
+	} );
+
+	describe( 'send()', () => {
+		beforeEach( () => {
+			transport.connect( 'a', 0, receiveA );
+			transport.connect( 'b', 0, receiveB );
+		} );
+
+		it( 'should accept a batch created on the current version and broadcast it to other clients', () => {
+			transport.send( { clientId: 'a', baseVersion: 0, operations: [ { foo: 1 }, { foo: 2 } ] } );
+			transport.flush();
+
+			expect( transport.version ).to.equal( 2 );
+			expect( transport.history ).to.deep.equal( [ { clientId: 'a', baseVersion: 0, operations: [ { foo: 1 }, { foo: 2 } ] } ] );
+
+			sinon.assert.calledOnceWithExactly( receiveA, { type: 'accept', version: 2 } );
+			sinon.assert.calledOnceWithExactly( receiveB, {
+				type: 'operations', clientId: 'a', baseVersion: 0, operations: [ { foo: 1 }, { foo: 2 } ]
+			} );
+		} );
+
+		it( 'should reject a batch created on an outdated version', () => {
+			transport.send( { clientId: 'a', baseVersion: 0, operations: [ { foo: 1 } ] } );
+			transport.send( { clientId: 'b', baseVersion: 0, operations: [ { bar: 1 } ] } );
+			transport.flush();
+
+			expect( transport.version ).to.equal( 1 );
+			expect( transport.history.length ).to.equal( 1 );
+
+			expect( receiveB.firstCall.args[ 0 ].type ).to.equal( 'operations' );
+			expect( receiveB.secondCall.args[ 0 ] ).to.deep.equal( { type: 'reject', version: 1 } );
+		} );
+
+		it( 'should serialize the messages', () => {
+			const operation = { foo: 1, toJSON: () => ( { foo: 2 } ) };
+
+			transport.send( { clientId: 'a', baseVersion: 0, operations: [ operation ] } );
+			operation.foo = 3;
+			transport.flush();
+
+			expect( transport.history[ 0 ].operations ).to.deep.equal( [ { foo: 2 } ] );
+			expect( receiveB.firstCall.args[ 0 ].operations ).to.not.equal( transport.history[ 0 ].operations );
+		} );
+	} );
+
+	describe( 'connect()', () => {
+		beforeEach( () => {
+			transport.connect( 'a', 0, receiveA );
+			transport.send( { clientId: 'a', baseVersion: 0, operations: [ { foo: 1 } ] } );
+			transport.send( { clientId: 'a', baseVersion: 1, operations: [ { foo: 2 }, { foo: 3 } ] } );
+			transport.flush();
+		} );
+
+		it( 'should send the whole history to a new client', () => {
+			transport.connect( 'b', 0, receiveB );
+			transport.flush();
+
+			sinon.assert.calledTwice( receiveB );
+			expect( receiveB.firstCall.args[ 0 ] ).to.deep.equal( {
+				type: 'operations', clientId: 'a', baseVersion: 0, operations: [ { foo: 1 } ]
+			} );
+			expect( receiveB.secondCall.args[ 0 ] ).to.deep.equal( {
+				type: 'operations', clientId: 'a', baseVersion: 1, operations: [ { foo: 2 }, { foo: 3 } ]
+			} );
+		} );
+
+		it( 'should send the batches accepted after the given version', () => {
+			transport.connect( 'b', 1, receiveB );
+			transport.flush();
+
+			sinon.assert.calledOnce( receiveB );
+			expect( receiveB.firstCall.args[ 0 ].baseVersion ).to.equal( 1 );
+		} );
+	} );
+
+	describe( 'disconnect()', () => {
+		it( 'should stop sending messages to the client', () => {
+			transport.connect( 'a', 0, receiveA );
+			transport.connect( 'b', 0, receiveB );
+
+			transport.send( { clientId: 'a', baseVersion: 0, operations: [ { foo: 1 } ] } );
+			transport.flush();
+			transport.send( { clientId: 'a', baseVersion: 1, operations: [ { foo: 2 } ] } );
+			transport.disconnect( 'b' );
+			transport.flush();
+
+			sinon.assert.calledOnce( receiveB );
+		} );
+
+		it( 'should not deliver the messages queued before the client connected again', () => {
+			transport.connect( 'a', 0, receiveA );
+			transport.send( { clientId: 'a', baseVersion: 0, operations: [ { foo: 1 } ] } );
+			transport.flush();
+			transport.send( { clientId: 'a', baseVersion: 1, operations: [ { foo: 2 } ] } );
+			transport.flush();
+
+			const receiveAgain = sinon.spy();
+
+			transport.connect( 'b', 0, receiveB );
+			transport.disconnect( 'b' );
+			transport.connect( 'b', 1, receiveAgain );
+			transport.flush();
+
+			sinon.assert.notCalled( receiveB );
+			sinon.assert.calledOnce( receiveAgain );
+		} );
+	} );
+} );
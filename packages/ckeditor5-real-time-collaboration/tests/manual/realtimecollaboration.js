@@ -0,0 +1,70 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals window, document, console */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+
+import RealTimeCollaboration from '../../src/realtimecollaboration';
+import LoopbackTransport from '../../src/loopbacktransport';
+
+const transport = new LoopbackTransport();
+
+const config = {
+	plugins: [ ArticlePluginSet, RealTimeCollaboration ],
+	toolbar: [
+		'heading', '|', 'bold', 'italic', 'link', '|', 'bulletedList', 'numberedList', 'blockQuote', 'insertTable', '|', 'undo', 'redo'
+	],
+	image: {
+		toolbar: [ 'imageStyle:inline', 'imageStyle:block', 'imageStyle:side', '|', 'imageTextAlternative' ]
+	},
+	table: {
+		contentToolbar: [ 'tableColumn', 'tableRow', 'mergeTableCells' ]
+	}
+};
+
+Promise.all( [
+	ClassicEditor.create( document.querySelector( '#editor-a' ), config ),
+	ClassicEditor.create( document.querySelector( '#editor-b' ), config )
+] )
+	.then( ( [ editorA, editorB ] ) => {
+		window.editorA = editorA;
+		window.editorB = editorB;
+		window.transport = transport;
+
+		setUpConnection( editorA, document.querySelector( '#toggle-a' ) );
+		setUpConnection( editorB, document.querySelector( '#toggle-b' ) );
+
+		document.querySelector( '#auto-flush' ).addEventListener( 'change', evt => {
+			transport.autoFlush = evt.target.checked;
+			transport.flush();
+		} );
+
+		document.querySelector( '#flush' ).addEventListener( 'click', () => {
+			transport.flush();
+		} );
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
+
+function setUpConnection( editor, button ) {
+	const plugin = editor.plugins.get( 'RealTimeCollaboration' );
+
+	plugin.connect( transport );
+
+	plugin.on( 'change:isConnected', () => {
+		button.textContent = plugin.isConnected ? 'Disconnect' : 'Connect';
+	} );
+
+	button.addEventListener( 'click', () => {
+		if ( plugin.isConnected ) {
+			plugin.disconnect();
+		} else {
+			plugin.connect( transport );
+		}
+	} );
+}
@@ -0,0 +1,395 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import Enter from '@ckeditor/ckeditor5-enter/src/enter';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import { getData as getModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+import RealTimeCollaboration from '../src/realtimecollaboration';
+import LoopbackTransport from '../src/loopbacktransport';
+
+describe( 'RealTimeCollaboration', () => {
+	let editorA, editorB, pluginA, pluginB, transport;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editorA = await createEditor();
+		editorB = await createEditor();
+
+		pluginA = editorA.plugins.get( RealTimeCollaboration );
+		pluginB = editorB.plugins.get( RealTimeCollaboration );
+
+		transport = new LoopbackTransport( { autoFlush: false } );
+	} );
+
+	afterEach( async () => {
+		await editorA.destroy();
+		await editorB.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( RealTimeCollaboration.pluginName ).to.equal( 'RealTimeCollaboration' );
+	} );
+
+	it( 'should have a unique client id', () => {
+		expect( pluginA.clientId ).to.be.a( 'string' );
+		expect( pluginA.clientId ).to.not.equal( pluginB.clientId );
+	} );
+
+	it( 'should not be connected initially', () => {
+		expect( pluginA.isConnected ).to.be.false;
+		expect( pluginA.transport ).to.be.null;
+		expect( pluginA.version ).to.equal( 0 );
+		expect( pluginA.hasPendingChanges ).to.be.false;
+	} );
+
+	it( 'should not collect the operations loading the initial data', async () => {
+		const editor = await createEditor( '' );
+
+		expect( editor.plugins.get( RealTimeCollaboration ).hasPendingChanges ).to.be.false;
+
+		await editor.destroy();
+	} );
+
+	describe( 'connect()', () => {
+		it( 'should connect to the transport', () => {
+			const spy = sinon.spy( transport, 'connect' );
+
+			pluginA.connect( transport );
+
+			expect( pluginA.isConnected ).to.be.true;
+			expect( pluginA.transport ).to.equal( transport );
+			sinon.assert.calledOnceWithExactly( spy, pluginA.clientId, 0, sinon.match.func );
+		} );
+
+		it( 'should throw when already connected', () => {
+			pluginA.connect( transport );
+
+			expectToThrowCKEditorError( () => {
+				pluginA.connect( new LoopbackTransport() );
+			}, 'real-time-collaboration-already-connected', pluginA );
+		} );
+
+		it( 'should send the changes done before connecting', () => {
+			insertText( editorA, 'x', [ 0, 0 ] );
+
+			pluginA.connect( transport );
+			pluginB.connect( transport );
+			transport.flush();
+
+			expectSynchronized( '<paragraph>xfoo</paragraph><paragraph>bar</paragraph>' );
+		} );
+
+		it( 'should receive the changes accepted before connecting', () => {
+			pluginA.connect( transport );
+			insertText( editorA, 'x', [ 0, 0 ] );
+			transport.flush();
+
+			pluginB.connect( transport );
+			transport.flush();
+
+			expectSynchronized( '<paragraph>xfoo</paragraph><paragraph>bar</paragraph>' );
+		} );
+	} );
+
+	describe( 'disconnect()', () => {
+		it( 'should disconnect from the transport', () => {
+			const spy = sinon.spy( transport, 'disconnect' );
+
+			pluginA.connect( transport );
+			pluginA.disconnect();
+
+			expect( pluginA.isConnected ).to.be.false;
+			expect( pluginA.transport ).to.be.null;
+			sinon.assert.calledOnceWithExactly( spy, pluginA.clientId );
+		} );
+
+		it( 'should do nothing when not connected', () => {
+			expect( () => pluginA.disconnect() ).to.not.throw();
+		} );
+
+		it( 'should be called when the editor is destroyed', async () => {
+			const editor = await createEditor();
+			const plugin = editor.plugins.get( RealTimeCollaboration );
+
+			plugin.connect( transport );
+
+			await editor.destroy();
+
+			expect( plugin.isConnected ).to.be.false;
+		} );
+
+		it( 'should synchronize the changes done while disconnected after connecting again', () => {
+			connect();
+
+			pluginB.disconnect();
+			insertText( editorA, 'x', [ 0, 0 ] );
+			insertText( editorB, 'y', [ 1, 3 ] );
+			transport.flush();
+
+			pluginB.connect( transport );
+			transport.flush();
+
+			expectSynchronized( '<paragraph>xfoo</paragraph><paragraph>bary</paragraph>' );
+		} );
+
+		it( 'should not duplicate a batch accepted after the connection was lost', () => {
+			connect();
+
+			insertText( editorB, 'y', [ 1, 3 ] );
+			pluginB.disconnect();
+			transport.flush();
+
+			pluginB.connect( transport );
+			transport.flush();
+
+			expect( transport.history.length ).to.equal( 1 );
+			expectSynchronized( '<paragraph>foo</paragraph><paragraph>bary</paragraph>' );
+		} );
+
+		it( 'should send again a batch rejected after the connection was lost', () => {
+			connect();
+
+			insertText( editorA, 'x', [ 0, 0 ] );
+			insertText( editorB, 'y', [ 1, 3 ] );
+			pluginB.disconnect();
+			transport.flush();
+
+			pluginB.connect( transport );
+			transport.flush();
+
+			expect( transport.history.length ).to.equal( 2 );
+			expectSynchronized( '<paragraph>xfoo</paragraph><paragraph>bary</paragraph>' );
+		} );
+	} );
+
+	describe( 'synchronization', () => {
+		beforeEach( () => {
+			connect();
+		} );
+
+		it( 'should send the local operations serialized to JSON', () => {
+			const spy = sinon.spy( transport, 'send' );
+
+			insertText( editorA, 'x', [ 0, 0 ] );
+
+			sinon.assert.calledOnce( spy );
+
+			const message = spy.firstCall.args[ 0 ];
+
+			expect( message.clientId ).to.equal( pluginA.clientId );
+			expect( message.baseVersion ).to.equal( 0 );
+			expect( message.operations.length ).to.equal( 1 );
+			expect( JSON.parse( JSON.stringify( message.operations[ 0 ] ) ) ).to.include( { __className: 'InsertOperation' } );
+		} );
+
+		it( 'should apply the remote operations', () => {
+			insertText( editorA, 'x', [ 0, 0 ] );
+
+			expect( getModelData( editorB.model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>foo</paragraph><paragraph>bar</paragraph>'
+			);
+
+			transport.flush();
+
+			expectSynchronized( '<paragraph>xfoo</paragraph><paragraph>bar</paragraph>' );
+			expect( pluginA.version ).to.equal( 1 );
+			expect( pluginB.version ).to.equal( 1 );
+			expect( pluginA.hasPendingChanges ).to.be.false;
+		} );
+
+		it( 'should apply the remote operations in a non-local and non-undoable batch', () => {
+			const spy = sinon.spy();
+
+			editorB.model.document.on( 'change', ( evt, batch ) => spy( batch ) );
+
+			insertText( editorA, 'x', [ 0, 0 ] );
+			transport.flush();
+
+			const batch = spy.lastCall.args[ 0 ];
+
+			expect( batch.isLocal ).to.be.false;
+			expect( batch.isUndoable ).to.be.false;
+		} );
+
+		it( 'should not send the remote operations back', () => {
+			insertText( editorA, 'x', [ 0, 0 ] );
+			transport.flush();
+
+			expect( pluginB.hasPendingChanges ).to.be.false;
+			expect( transport.history.length ).to.equal( 1 );
+		} );
+
+		it( 'should send the local changes done while waiting for a response after the sent batch is accepted', () => {
+			const spy = sinon.spy( transport, 'send' );
+
+			insertText( editorA, 'x', [ 0, 0 ] );
+			insertText( editorA, 'y', [ 0, 1 ] );
+
+			sinon.assert.calledOnce( spy );
+			expect( pluginA.hasPendingChanges ).to.be.true;
+
+			transport.flush();
+
+			sinon.assert.calledTwice( spy );
+			expect( spy.secondCall.args[ 0 ].baseVersion ).to.equal( 1 );
+			expectSynchronized( '<paragraph>xyfoo</paragraph><paragraph>bar</paragraph>' );
+		} );
+
+		it( 'should synchronize concurrent changes in different places', () => {
+			insertText( editorA, 'x', [ 0, 0 ] );
+			insertText( editorB, 'y', [ 1, 3 ] );
+			transport.flush();
+
+			expectSynchronized( '<paragraph>xfoo</paragraph><paragraph>bary</paragraph>' );
+			expect( transport.history.length ).to.equal( 2 );
+		} );
+
+		it( 'should synchronize concurrent insertions at the same position', () => {
+			insertText( editorA, 'x', [ 0, 1 ] );
+			insertText( editorB, 'y', [ 0, 1 ] );
+			transport.flush();
+
+			expect( getModelData( editorA.model, { withoutSelection: true } ) ).to.equal(
+				getModelData( editorB.model, { withoutSelection: true } )
+			);
+		} );
+
+		it( 'should synchronize a remote change conflicting with a local structural change', () => {
+			editorA.model.change( writer => {
+				writer.setSelection( editorA.model.document.getRoot().getChild( 0 ), 2 );
+			} );
+			editorA.execute( 'enter' );
+
+			insertText( editorB, 'x', [ 0, 3 ] );
+			editorB.model.change( writer => {
+				writer.setAttribute( 'bold', true, writer.createRange(
+					writer.createPositionFromPath( editorB.model.document.getRoot(), [ 0, 0 ] ),
+					writer.createPositionFromPath( editorB.model.document.getRoot(), [ 0, 4 ] )
+				) );
+			} );
+
+			transport.flush();
+
+			expectSynchronized(
+				'<paragraph><$text bold="true">fo</$text></paragraph>' +
+				'<paragraph><$text bold="true">ox</$text></paragraph>' +
+				'<paragraph>bar</paragraph>'
+			);
+		} );
+
+		it( 'should synchronize a remote removal of the content changed locally', () => {
+			editorA.model.change( writer => {
+				writer.remove( editorA.model.document.getRoot().getChild( 1 ) );
+			} );
+
+			insertText( editorB, 'x', [ 1, 1 ] );
+			transport.flush();
+
+			expectSynchronized( '<paragraph>foo</paragraph>' );
+		} );
+
+		it( 'should synchronize the markers', () => {
+			editorA.model.change( writer => {
+				const root = editorA.model.document.getRoot();
+				const range = writer.createRange(
+					writer.createPositionFromPath( root, [ 0, 1 ] ),
+					writer.createPositionFromPath( root, [ 0, 3 ] )
+				);
+
+				writer.addMarker( 'comment:1', {
+					range,
+					usingOperation: true,
+					affectsData: true
+				} );
+			} );
+
+			insertText( editorB, 'x', [ 0, 0 ] );
+			transport.flush();
+
+			const markerA = editorA.model.markers.get( 'comment:1' );
+			const markerB = editorB.model.markers.get( 'comment:1' );
+
+			expect( markerB ).to.not.be.null;
+			expect( markerA.getStart().path ).to.deep.equal( [ 0, 2 ] );
+			expect( markerB.getStart().path ).to.deep.equal( [ 0, 2 ] );
+			expect( markerB.getEnd().path ).to.deep.equal( markerA.getEnd().path );
+		} );
+
+		it( 'should synchronize undoing a local change after a remote change', () => {
+			insertText( editorA, 'x', [ 0, 3 ] );
+			transport.flush();
+
+			insertText( editorB, 'y', [ 0, 0 ] );
+			transport.flush();
+
+			editorA.execute( 'undo' );
+			transport.flush();
+
+			expectSynchronized( '<paragraph>yfoo</paragraph><paragraph>bar</paragraph>' );
+		} );
+
+		it( 'should synchronize more than two editors', async () => {
+			const editorC = await createEditor();
+
+			editorC.plugins.get( RealTimeCollaboration ).connect( transport );
+
+			insertText( editorA, 'x', [ 0, 0 ] );
+			insertText( editorB, 'y', [ 1, 0 ] );
+			insertText( editorC, 'z', [ 1, 3 ] );
+			transport.flush();
+
+			expectSynchronized( '<paragraph>xfoo</paragraph><paragraph>ybarz</paragraph>' );
+			expect( getModelData( editorC.model, { withoutSelection: true } ) ).to.equal(
+				'<paragraph>xfoo</paragraph><paragraph>ybarz</paragraph>'
+			);
+
+			await editorC.destroy();
+		} );
+
+		it( 'should throw when the remote operations were created on an unexpected version', () => {
+			const receive = sinon.spy( transport, 'connect' );
+
+			pluginA.disconnect();
+			pluginA.connect( transport );
+
+			const receiveCallback = receive.firstCall.args[ 2 ];
+
+			expectToThrowCKEditorError( () => {
+				receiveCallback( { type: 'operations', clientId: 'other', baseVersion: 5, operations: [] } );
+			}, 'real-time-collaboration-unexpected-version', pluginA, { version: 0, baseVersion: 5 } );
+		} );
+	} );
+
+	function createEditor( initialData = '<p>foo</p><p>bar</p>' ) {
+		return VirtualTestEditor.create( {
+			plugins: [ Paragraph, BoldEditing, Enter, UndoEditing, RealTimeCollaboration ],
+			initialData
+		} );
+	}
+
+	function connect() {
+		pluginA.connect( transport );
+		pluginB.connect( transport );
+		transport.flush();
+	}
+
+	function insertText( editor, text, path ) {
+		editor.model.change( writer => {
+			writer.insertText( text, writer.createPositionFromPath( editor.model.document.getRoot(), path ) );
+		} );
+	}
+
+	function expectSynchronized( data ) {
+		expect( getModelData( editorA.model, { withoutSelection: true } ) ).to.equal( data );
+		expect( getModelData( editorB.model, { withoutSelection: true } ) ).to.equal( data );
+	}
+} );
@@ -0,0 +1,36 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	RevisionHistoryConfig,
+	RevisionHistory,
+	RevisionHistoryEditing,
+	RevisionHistoryUI,
+	SaveRevisionCommand,
+	RestoreRevisionCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the {@link module:revision-history/revisionhistory~RevisionHistory} feature.
+		 *
+		 * Read more in {@link module:revision-history/revisionhistoryconfig~RevisionHistoryConfig}.
+		 */
+		revisionHistory?: RevisionHistoryConfig;
+	}
+
+	interface PluginsMap {
+		[ RevisionHistory.pluginName ]: RevisionHistory;
+		[ RevisionHistoryEditing.pluginName ]: RevisionHistoryEditing;
+		[ RevisionHistoryUI.pluginName ]: RevisionHistoryUI;
+	}
+
+	interface CommandsMap {
+		saveRevision: SaveRevisionCommand;
+		restoreRevision: RestoreRevisionCommand;
+	}
+}
@@ -0,0 +1,22 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history
+ */
+
+export { default as RevisionHistory } from './revisionhistory';
+export { default as RevisionHistoryEditing } from './revisionhistoryediting';
+export { default as RevisionHistoryUI } from './revisionhistoryui';
+export { default as SaveRevisionCommand } from './saverevisioncommand';
+export { default as RestoreRevisionCommand } from './restorerevisioncommand';
+export { default as LocalRevisionHistoryAdapter } from './localrevisionhistoryadapter';
+export { default as RevisionHistoryView } from './ui/revisionhistoryview';
+export { createRevisionDiff, type RevisionDiffType } from './utils';
+export type { Revision } from './revision';
+export type { RevisionHistoryAdapter } from './revisionhistoryadapter';
+export type { RevisionHistoryConfig } from './revisionhistoryconfig';
+
+import './augmentation';
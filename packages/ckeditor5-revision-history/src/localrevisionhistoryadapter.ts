@@ -0,0 +1,67 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/localrevisionhistoryadapter
+ */
+
+import type { RevisionHistoryAdapter } from './revisionhistoryadapter';
+import type { Revision } from './revision';
+
+/**
+ * A {@link module:revision-history/revisionhistoryadapter~RevisionHistoryAdapter revision history adapter} keeping revisions in memory.
+ *
+ * It is useful for testing and prototyping an integration. The stored data is lost when the adapter instance is garbage collected.
+ *
+ * ```ts
+ * const adapter = new LocalRevisionHistoryAdapter( [
+ * 	{ id: 'r1', name: 'Draft', createdAt: new Date(), version: 0, data: { main: '<p>Foo</p>' } }
+ * ] );
+ *
+ * editor.plugins.get( 'RevisionHistoryEditing' ).adapter = adapter;
+ * ```
+ */
+export default class LocalRevisionHistoryAdapter implements RevisionHistoryAdapter {
+	/**
+	 * The stored revisions, from the oldest to the newest one.
+	 */
+	public readonly revisions: Array<Revision>;
+
+	/**
+	 * Creates an instance of the adapter.
+	 *
+	 * @param revisions The initial revisions.
+	 */
+	constructor( revisions: Array<Revision> = [] ) {
+		this.revisions = revisions.map( cloneRevision );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public getRevisions(): Promise<Array<Revision>> {
+		return Promise.resolve( this.revisions.map( cloneRevision ) );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public addRevision( revision: Revision ): Promise<void> {
+		this.revisions.push( cloneRevision( revision ) );
+
+		return Promise.resolve();
+	}
+}
+
+/**
+ * Returns a copy of the revision, so the stored one cannot be changed by the editor.
+ */
+function cloneRevision( revision: Revision ): Revision {
+	return {
+		...revision,
+		createdAt: new Date( revision.createdAt.getTime() ),
+		data: { ...revision.data }
+	};
+}
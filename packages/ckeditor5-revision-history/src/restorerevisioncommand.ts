@@ -0,0 +1,50 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/restorerevisioncommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+
+/**
+ * The command replacing the content with a revision. It is registered by
+ * {@link module:revision-history/revisionhistoryediting~RevisionHistoryEditing} as `'restoreRevision'`.
+ *
+ * ```ts
+ * editor.execute( 'restoreRevision', { revisionId: 'r1' } );
+ * ```
+ *
+ * The command is enabled when there is at least one revision. Restoring a revision can be undone.
+ */
+export default class RestoreRevisionCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		const revisions = editor.plugins.get( 'RevisionHistoryEditing' ).revisions;
+
+		this.listenTo( revisions, 'change', () => this.refresh() );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = this.editor.plugins.get( 'RevisionHistoryEditing' ).revisions.length > 0;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.revisionId The id of the revision to restore.
+	 */
+	public override execute( { revisionId }: { revisionId: string } ): void {
+		this.editor.plugins.get( 'RevisionHistoryEditing' ).restoreRevision( revisionId );
+	}
+}
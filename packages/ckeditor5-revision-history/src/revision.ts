@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/revision
+ */
+
+/**
+ * A named snapshot of the editor data.
+ */
+export interface Revision {
+
+	/**
+	 * The unique id of the revision.
+	 */
+	id: string;
+
+	/**
+	 * The name of the revision displayed in the user interface.
+	 */
+	name: string;
+
+	/**
+	 * The date of creating the revision.
+	 */
+	createdAt: Date;
+
+	/**
+	 * The {@link module:engine/model/document~Document#version version of the document} when the revision was created.
+	 */
+	version: number;
+
+	/**
+	 * The editor data of all roots, by their names.
+	 */
+	data: Record<string, string>;
+}
@@ -0,0 +1,40 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/revisionhistory
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import RevisionHistoryEditing from './revisionhistoryediting';
+import RevisionHistoryUI from './revisionhistoryui';
+
+/**
+ * The revision history feature.
+ *
+ * It saves named revisions of the content, allows for previewing them together with the changes since the previous revision
+ * and for restoring them. The revisions can be stored in a custom backend using
+ * a {@link module:revision-history/revisionhistoryadapter~RevisionHistoryAdapter revision history adapter}.
+ *
+ * This is a "glue" plugin which loads the {@link module:revision-history/revisionhistoryediting~RevisionHistoryEditing
+ * revision history editing feature} and the {@link module:revision-history/revisionhistoryui~RevisionHistoryUI revision history
+ * UI feature}.
+ */
+export default class RevisionHistory extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'RevisionHistory' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ RevisionHistoryEditing, RevisionHistoryUI ] as const;
+	}
+}
@@ -0,0 +1,49 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/revisionhistoryadapter
+ */
+
+import type { Revision } from './revision';
+
+/**
+ * An interface that allows for storing revisions in a custom backend.
+ *
+ * The adapter should be set as {@link module:revision-history/revisionhistoryediting~RevisionHistoryEditing#adapter} before
+ * the editor data is loaded, for instance, in the `init()` method of a custom plugin:
+ *
+ * ```ts
+ * class RevisionHistoryAdapterPlugin extends Plugin {
+ * 	static get requires() {
+ * 		return [ RevisionHistory ];
+ * 	}
+ *
+ * 	init() {
+ * 		this.editor.plugins.get( 'RevisionHistoryEditing' ).adapter = {
+ * 			getRevisions: () => fetchRevisions(),
+ * 			addRevision: revision => saveRevision( revision )
+ * 		};
+ * 	}
+ * }
+ * ```
+ *
+ * While a promise returned by {@link #addRevision} is pending, the editor has
+ * a {@link module:core/pendingactions~PendingActions pending action} registered.
+ *
+ * See {@link module:revision-history/localrevisionhistoryadapter~LocalRevisionHistoryAdapter} for an in-memory implementation.
+ */
+export interface RevisionHistoryAdapter {
+
+	/**
+	 * Called when the editor data is loaded. It should resolve with the stored revisions, from the oldest to the newest one.
+	 */
+	getRevisions(): Promise<Array<Revision>>;
+
+	/**
+	 * Called when a new revision is saved.
+	 */
+	addRevision( revision: Revision ): Promise<unknown>;
+}
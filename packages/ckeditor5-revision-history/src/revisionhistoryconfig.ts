@@ -0,0 +1,45 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/revisionhistoryconfig
+ */
+
+/**
+ * The configuration of the revision history feature.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		revisionHistory: ... // Revision history feature options.
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor options}.
+ */
+export interface RevisionHistoryConfig {
+
+	/**
+	 * The minimum time in milliseconds between two revisions saved automatically. A revision is saved automatically
+	 * only when the content has changed since the previous one.
+	 *
+	 * ```ts
+	 * ClassicEditor
+	 * 	.create( editorElement, {
+	 * 		plugins: [ RevisionHistory, ... ],
+	 * 		revisionHistory: {
+	 * 			autoSaveInterval: 5 * 60 * 1000
+	 * 		}
+	 * 	} )
+	 * 	.then( ... )
+	 * 	.catch( ... );
+	 * ```
+	 *
+	 * Defaults to 10 minutes. Set to `0` to save revisions only on demand.
+	 */
+	autoSaveInterval?: number;
+}
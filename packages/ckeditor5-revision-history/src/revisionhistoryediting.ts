@@ -0,0 +1,318 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/revisionhistoryediting
+ */
+
+import { PendingActions, Plugin, type Editor } from 'ckeditor5/src/core';
+import { CKEditorError, Collection, uid } from 'ckeditor5/src/utils';
+import { Notification } from 'ckeditor5/src/ui';
+import type { DataControllerReadyEvent, DocumentChangeEvent, DocumentFragment } from 'ckeditor5/src/engine';
+
+import { throttle, type DebouncedFunc } from 'lodash-es';
+
+import SaveRevisionCommand from './saverevisioncommand';
+import RestoreRevisionCommand from './restorerevisioncommand';
+import { REVISION_DIFF_MARKER_GROUP, createRevisionDiff } from './utils';
+import type { Revision } from './revision';
+import type { RevisionHistoryAdapter } from './revisionhistoryadapter';
+
+import '../theme/revisionhistory.css';
+
+/**
+ * The editing part of the revision history feature.
+ *
+ * A {@link module:revision-history/revision~Revision revision} is a named snapshot of the editor data. Revisions are saved
+ * automatically when the content changes (see {@link module:revision-history/revisionhistoryconfig~RevisionHistoryConfig}) and
+ * on demand. They are kept in the {@link #revisions} collection and stored by the {@link #adapter revision history adapter}.
+ *
+ * The plugin registers the following commands:
+ *
+ * * `'saveRevision'` &ndash; saves the current content as a new revision,
+ * * `'restoreRevision'` &ndash; replaces the content with a revision. The change can be undone.
+ *
+ * The content of a revision together with the changes since the previous one can be obtained with {@link #getRevisionPreview}.
+ *
+ * If the adapter fails to load or save the revisions, a warning is displayed using
+ * the {@link module:ui/notification/notification~Notification notification plugin}.
+ */
+export default class RevisionHistoryEditing extends Plugin {
+	/**
+	 * The adapter storing the revisions.
+	 *
+	 * The stored revisions are loaded using {@link module:revision-history/revisionhistoryadapter~RevisionHistoryAdapter#getRevisions}
+	 * when the editor data is ready. Without an adapter, the revisions are only kept in memory.
+	 */
+	public adapter?: RevisionHistoryAdapter;
+
+	/**
+	 * The revisions of the document, from the oldest to the newest one.
+	 */
+	public readonly revisions: Collection<Revision> = new Collection();
+
+	/**
+	 * The throttled method saving a revision automatically.
+	 */
+	private _throttledAutoSave: DebouncedFunc<() => void> | null = null;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'RevisionHistoryEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ PendingActions, Notification ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'revisionHistory', {
+			autoSaveInterval: 10 * 60 * 1000
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const autoSaveInterval = editor.config.get( 'revisionHistory.autoSaveInterval' )!;
+
+		editor.commands.add( 'saveRevision', new SaveRevisionCommand( editor ) );
+		editor.commands.add( 'restoreRevision', new RestoreRevisionCommand( editor ) );
+
+		// The differences between revisions are displayed only in the revision preview.
+		editor.conversion.for( 'dataDowncast' ).markerToHighlight( {
+			model: REVISION_DIFF_MARKER_GROUP,
+			view: ( { markerName } ) => {
+				const type = markerName.split( ':' )[ 1 ];
+
+				return {
+					classes: [ 'ck-revision-diff', `ck-revision-diff_${ type }` ]
+				};
+			}
+		} );
+
+		this.listenTo<DataControllerReadyEvent>( editor.data, 'ready', () => {
+			this._loadRevisions();
+
+			if ( autoSaveInterval ) {
+				this._throttledAutoSave = throttle( () => this._autoSave(), autoSaveInterval, { leading: false } );
+
+				this.listenTo<DocumentChangeEvent>( editor.model.document, 'change:data', () => {
+					this._throttledAutoSave!();
+				} );
+			}
+		}, { priority: 'lowest' } );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		if ( this._throttledAutoSave ) {
+			this._throttledAutoSave.cancel();
+		}
+	}
+
+	/**
+	 * Returns the revision with the given id or `null` if it does not exist.
+	 */
+	public getRevision( revisionId: string ): Revision | null {
+		return this.revisions.get( revisionId );
+	}
+
+	/**
+	 * Saves the current content as a new revision.
+	 *
+	 * @param name The name of the revision. By default, the revisions are named after their number.
+	 * @returns A promise resolved with the new revision once it is saved by the {@link #adapter}. If the adapter fails,
+	 * the revision is removed from the {@link #revisions} collection and the promise is rejected.
+	 */
+	public saveRevision( name?: string ): Promise<Revision> {
+		const editor = this.editor;
+		const t = editor.t;
+		const revision: Revision = {
+			id: uid(),
+			name: name || t( 'Revision %0', this.revisions.length + 1 ),
+			createdAt: new Date(),
+			version: editor.model.document.version,
+			data: this._getData()
+		};
+
+		if ( this._throttledAutoSave ) {
+			this._throttledAutoSave.cancel();
+		}
+
+		this.revisions.add( revision );
+
+		return this._persist( adapter => adapter.addRevision( { ...revision, data: { ...revision.data } } ) )
+			.then( () => revision, error => {
+				if ( this.revisions.has( revision.id ) ) {
+					this.revisions.remove( revision.id );
+				}
+
+				throw error;
+			} );
+	}
+
+	/**
+	 * Replaces the editor content with the content of a revision. The change can be undone.
+	 *
+	 * @param revisionId The id of the revision.
+	 */
+	public restoreRevision( revisionId: string ): void {
+		const editor = this.editor;
+		const revision = this._getRevisionOrThrow( revisionId );
+		const data: Record<string, string> = {};
+
+		// Roots that do not exist in the editor anymore cannot be restored.
+		for ( const rootName of editor.model.document.getRootNames() ) {
+			data[ rootName ] = revision.data[ rootName ] || '';
+		}
+
+		editor.data.set( data, { batchType: { isUndoable: true } } );
+	}
+
+	/**
+	 * Returns the data of a revision ready to be displayed in a read-only preview.
+	 *
+	 * When another revision is passed as `options.compareWith`, the content removed and inserted since that revision
+	 * is wrapped with the `<span class="ck-revision-diff ck-revision-diff_deletion">` and
+	 * `<span class="ck-revision-diff ck-revision-diff_insertion">` elements.
+	 *
+	 * @param revisionId The id of the revision.
+	 * @param options.compareWith The id of the revision to compare with, usually the previous one.
+	 * @param options.rootName The name of the root. Defaults to `'main'`.
+	 */
+	public getRevisionPreview( revisionId: string, options: { compareWith?: string; rootName?: string } = {} ): string {
+		const editor = this.editor;
+		const model = editor.model;
+		const { compareWith, rootName = 'main' } = options;
+		const revision = this._getRevisionOrThrow( revisionId );
+		const previousRevision = compareWith ? this._getRevisionOrThrow( compareWith ) : null;
+
+		return model.change( writer => {
+			let content: DocumentFragment = editor.data.parse( revision.data[ rootName ] || '' );
+
+			if ( previousRevision ) {
+				content = createRevisionDiff( model.schema, writer, editor.data.parse( previousRevision.data[ rootName ] || '' ), content );
+			}
+
+			return editor.data.stringify( content );
+		} );
+	}
+
+	/**
+	 * Returns the current data of all roots.
+	 */
+	private _getData(): Record<string, string> {
+		const data: Record<string, string> = {};
+
+		for ( const rootName of this.editor.model.document.getRootNames() ) {
+			data[ rootName ] = this.editor.data.get( { rootName } );
+		}
+
+		return data;
+	}
+
+	/**
+	 * Saves a revision unless the content has not changed since the last revision. A failure of the {@link #adapter}
+	 * is already reported by {@link #saveRevision}.
+	 */
+	private _autoSave(): void {
+		const lastRevision = this.revisions.last;
+		const data = this._getData();
+
+		if ( lastRevision && Object.keys( data ).every( rootName => data[ rootName ] === lastRevision.data[ rootName ] ) ) {
+			return;
+		}
+
+		this.saveRevision().catch( () => {} );
+	}
+
+	/**
+	 * Loads the revisions stored by the {@link #adapter}. A warning is displayed if the adapter fails.
+	 */
+	private _loadRevisions(): void {
+		if ( !this.adapter ) {
+			return;
+		}
+
+		const t = this.editor.t;
+
+		this.adapter.getRevisions().then( revisions => {
+			// Keep the revisions saved in the meantime as the newest ones.
+			this.revisions.addMany( revisions.filter( revision => !this.revisions.has( revision.id ) ), 0 );
+		}, () => {
+			this._showWarning( t( 'The revisions could not be loaded.' ) );
+		} );
+	}
+
+	/**
+	 * Passes a change to the {@link #adapter} and keeps a pending action until it is saved. If the adapter fails,
+	 * a warning is displayed and the returned promise is rejected.
+	 */
+	private _persist( callback: ( adapter: RevisionHistoryAdapter ) => Promise<unknown> ): Promise<void> {
+		if ( !this.adapter ) {
+			return Promise.resolve();
+		}
+
+		const t = this.editor.t;
+		const pendingActions = this.editor.plugins.get( PendingActions );
+		const action = pendingActions.add( t( 'Saving revisions' ) );
+
+		return callback( this.adapter )
+			.then( () => {
+				pendingActions.remove( action );
+			}, error => {
+				pendingActions.remove( action );
+				this._showWarning( t( 'The revision could not be saved.' ) );
+
+				throw error;
+			} );
+	}
+
+	/**
+	 * Displays a warning about a failure of the {@link #adapter}.
+	 */
+	private _showWarning( message: string ): void {
+		this.editor.plugins.get( Notification ).showWarning( message, {
+			title: this.editor.t( 'Revision history error' ),
+			namespace: 'revisionHistory'
+		} );
+	}
+
+	/**
+	 * Returns the revision with the given id or throws an error if it does not exist.
+	 */
+	private _getRevisionOrThrow( revisionId: string ): Revision {
+		const revision = this.getRevision( revisionId );
+
+		if ( !revision ) {
+			/**
+			 * The revision with the given id does not exist.
+			 *
+			 * @error revision-history-revision-not-found
+			 * @param revisionId The id of the revision.
+			 */
+			throw new CKEditorError( 'revision-history-revision-not-found', this, { revisionId } );
+		}
+
+		return revision;
+	}
+}
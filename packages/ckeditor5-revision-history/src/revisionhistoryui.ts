@@ -0,0 +1,176 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/revisionhistoryui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { ButtonView, Dialog } from 'ckeditor5/src/ui';
+
+import RevisionHistoryView from './ui/revisionhistoryview';
+
+import revisionHistoryIcon from '../theme/icons/revision-history.svg';
+import saveRevisionIcon from '../theme/icons/save-revision.svg';
+
+/**
+ * The revision history UI plugin. It introduces the following buttons:
+ *
+ * * `'saveRevision'` &ndash; saves the current content as a new revision,
+ * * `'revisionHistory'` &ndash; opens a dialog with the list of revisions. The selected revision is displayed in a read-only
+ * preview with the changes since the previous revision highlighted. It can be restored from the dialog.
+ */
+export default class RevisionHistoryUI extends Plugin {
+	/**
+	 * The view displayed in the revision history dialog. Created when the dialog is opened for the first time.
+	 */
+	public view: RevisionHistoryView | null = null;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ Dialog ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'RevisionHistoryUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.ui.componentFactory.add( 'saveRevision', locale => {
+			const command = editor.commands.get( 'saveRevision' )!;
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Save revision' ),
+				icon: saveRevisionIcon,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).to( command );
+
+			this.listenTo( view, 'execute', () => {
+				// A failure of the revision history adapter is reported by the revision history editing plugin.
+				editor.execute( 'saveRevision' ).catch( () => {} );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+
+		editor.ui.componentFactory.add( 'revisionHistory', locale => {
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Revision history' ),
+				icon: revisionHistoryIcon,
+				tooltip: true
+			} );
+
+			this.listenTo( view, 'execute', () => this._showDialog() );
+
+			return view;
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		// Destroy created UI components as they are not automatically destroyed (see ckeditor5#1341).
+		if ( this.view ) {
+			this.view.destroy();
+		}
+	}
+
+	/**
+	 * Shows the revision history dialog with the newest revision selected.
+	 */
+	private _showDialog(): void {
+		const editor = this.editor;
+		const dialog = editor.plugins.get( 'Dialog' );
+		const revisions = editor.plugins.get( 'RevisionHistoryEditing' ).revisions;
+		const t = editor.t;
+
+		if ( !this.view ) {
+			this.view = new RevisionHistoryView( editor.locale, revisions );
+
+			this.view.on( 'change:selectedRevisionId', () => this._updatePreview() );
+		}
+
+		const view = this.view;
+
+		dialog.show( {
+			id: 'revisionHistory',
+			className: 'ck-revision-history-dialog',
+			title: t( 'Revision history' ),
+			icon: revisionHistoryIcon,
+			hasCloseButton: true,
+			content: view,
+			isModal: true,
+			actionButtons: [
+				{
+					label: t( 'Restore this revision' ),
+					class: 'ck-button-action',
+					withText: true,
+					onExecute: () => {
+						const command = editor.commands.get( 'restoreRevision' )!;
+
+						if ( view.selectedRevisionId && command.isEnabled ) {
+							editor.execute( 'restoreRevision', { revisionId: view.selectedRevisionId } );
+						}
+
+						dialog.hide();
+					}
+				}
+			],
+			onShow: () => {
+				view.selectedRevisionId = revisions.last ? revisions.last.id : null;
+
+				this._updatePreview();
+				view.focus();
+			}
+		} );
+	}
+
+	/**
+	 * Displays the selected revision in the preview together with the changes since the previous revision.
+	 */
+	private _updatePreview(): void {
+		const editor = this.editor;
+		const view = this.view!;
+		const revisionHistoryEditing = editor.plugins.get( 'RevisionHistoryEditing' );
+		const revisionId = view.selectedRevisionId;
+
+		if ( !view.isRendered ) {
+			return;
+		}
+
+		if ( !revisionId ) {
+			view.setPreviewData( '' );
+
+			return;
+		}
+
+		const previousRevision = revisionHistoryEditing.revisions.get( revisionHistoryEditing.revisions.getIndex( revisionId ) - 1 );
+
+		view.setPreviewData( revisionHistoryEditing.getRevisionPreview( revisionId, {
+			compareWith: previousRevision ? previousRevision.id : undefined,
+			rootName: editor.model.document.selection.getFirstPosition()!.root.rootName
+		} ) );
+	}
+}
@@ -0,0 +1,50 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/saverevisioncommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+
+import type { Revision } from './revision';
+
+/**
+ * The command saving the current content as a new revision. It is registered by
+ * {@link module:revision-history/revisionhistoryediting~RevisionHistoryEditing} as `'saveRevision'`.
+ *
+ * ```ts
+ * editor.execute( 'saveRevision', { name: 'Final draft' } );
+ * ```
+ */
+export default class SaveRevisionCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		// Saving a revision does not change the content, so it is possible in the read-only mode.
+		this.affectsData = false;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = true;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.name The name of the revision. By default, the revisions are named after their number.
+	 * @returns A promise resolved with the new revision once it is saved by the revision history adapter.
+	 */
+	public override execute( { name }: { name?: string } = {} ): Promise<Revision> {
+		return this.editor.plugins.get( 'RevisionHistoryEditing' ).saveRevision( name );
+	}
+}
@@ -0,0 +1,176 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/ui/revisionhistoryview
+ */
+
+import { ButtonView, ListItemView, ListView, View } from 'ckeditor5/src/ui';
+import type { Collection, Locale } from 'ckeditor5/src/utils';
+
+import type { Revision } from '../revision';
+
+import '../../theme/revisionhistoryview.css';
+
+/**
+ * The view displaying the list of revisions and a read-only preview of the selected revision.
+ */
+export default class RevisionHistoryView extends View {
+	/**
+	 * The list of revisions, from the oldest to the newest one.
+	 */
+	public readonly listView: ListView;
+
+	/**
+	 * The view displaying the data of the selected revision.
+	 */
+	public readonly previewView: View;
+
+	/**
+	 * The id of the selected revision or `null` if no revision is selected.
+	 *
+	 * @observable
+	 */
+	declare public selectedRevisionId: string | null;
+
+	/**
+	 * Whether there are revisions to display.
+	 *
+	 * @observable
+	 */
+	declare public hasRevisions: boolean;
+
+	/**
+	 * Creates an instance of the view.
+	 *
+	 * @param locale The localization services instance.
+	 * @param revisions The revisions to display.
+	 */
+	constructor( locale: Locale, revisions: Collection<Revision> ) {
+		super( locale );
+
+		const t = locale.t;
+		const bind = this.bindTemplate;
+
+		this.set( 'selectedRevisionId', null );
+		this.set( 'hasRevisions', !!revisions.length );
+
+		this.listenTo( revisions, 'change', () => {
+			this.hasRevisions = !!revisions.length;
+		} );
+
+		this.listView = new ListView( locale );
+		this.listView.ariaLabel = t( 'Revisions' );
+		this.listView.items.bindTo( revisions ).using( revision => this._createListItem( revision ) );
+
+		this.previewView = new View( locale );
+		this.previewView.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck-content', 'ck-revision-history__preview' ]
+			}
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-revision-history' ]
+			},
+			children: [
+				{
+					tag: 'div',
+					attributes: {
+						class: [ 'ck', 'ck-revision-history__revisions' ]
+					},
+					children: [
+						{
+							tag: 'p',
+							attributes: {
+								class: [ 'ck', 'ck-revision-history__empty', bind.if( 'hasRevisions', 'ck-hidden' ) ]
+							},
+							children: [ t( 'No revisions saved yet.' ) ]
+						},
+						this.listView
+					]
+				},
+				this.previewView
+			]
+		} );
+	}
+
+	/**
+	 * Focuses the {@link #listView}.
+	 */
+	public focus(): void {
+		this.listView.focus();
+	}
+
+	/**
+	 * Displays the HTML data in the {@link #previewView}.
+	 */
+	public setPreviewData( data: string ): void {
+		this.previewView.element!.innerHTML = data;
+	}
+
+	/**
+	 * Creates the item of the {@link #listView} selecting the revision.
+	 */
+	private _createListItem( revision: Revision ): ListItemView {
+		const locale = this.locale!;
+		const listItemView = new ListItemView( locale );
+		const buttonView = new RevisionButtonView( locale, revision.createdAt );
+
+		buttonView.set( {
+			label: revision.name,
+			withText: true
+		} );
+
+		buttonView.bind( 'isOn' ).to( this, 'selectedRevisionId', selectedRevisionId => selectedRevisionId === revision.id );
+
+		this.listenTo( buttonView, 'execute', () => {
+			this.selectedRevisionId = revision.id;
+		} );
+
+		listItemView.children.add( buttonView );
+
+		return listItemView;
+	}
+}
+
+/**
+ * The button of a revision displaying its date next to its name.
+ */
+class RevisionButtonView extends ButtonView {
+	/**
+	 * The view displaying the date of the revision.
+	 */
+	public readonly dateView: View;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale, createdAt: Date ) {
+		super( locale );
+
+		this.dateView = new View( locale );
+		this.dateView.setTemplate( {
+			tag: 'time',
+			attributes: {
+				class: [ 'ck', 'ck-revision-history__date' ],
+				datetime: createdAt.toISOString()
+			},
+			children: [ createdAt.toLocaleString( locale.uiLanguage ) ]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		this.children.add( this.dateView );
+	}
+}
@@ -0,0 +1,293 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module revision-history/utils
+ */
+
+import { diff, type DiffResult } from 'ckeditor5/src/utils';
+import type {
+	DocumentFragment,
+	Element,
+	Node,
+	Schema,
+	Writer
+} from 'ckeditor5/src/engine';
+
+/**
+ * The name of the marker group used to highlight the differences between revisions.
+ */
+export const REVISION_DIFF_MARKER_GROUP = 'revisionDiff';
+
+/**
+ * The type of a difference between revisions.
+ */
+export type RevisionDiffType = 'insertion' | 'deletion';
+
+/**
+ * Creates a document fragment containing the content of a revision together with the content removed since the previous revision.
+ *
+ * The differences are marked with the `revisionDiff:insertion:<index>` and `revisionDiff:deletion:<index>`
+ * {@link module:engine/model/documentfragment~DocumentFragment#markers markers}.
+ *
+ * The top-level blocks are compared first. The text of the changed blocks that can contain text is compared character by
+ * character (including their attributes). Other changed blocks, for instance tables, are marked as removed and inserted entirely.
+ *
+ * @param schema The model schema.
+ * @param writer The model writer.
+ * @param oldContent The content of the previous revision.
+ * @param newContent The content of the revision.
+ */
+export function createRevisionDiff(
+	schema: Schema,
+	writer: Writer,
+	oldContent: DocumentFragment,
+	newContent: DocumentFragment
+): DocumentFragment {
+	const result = writer.createDocumentFragment();
+	const oldBlocks = Array.from( oldContent.getChildren() );
+	const newBlocks = Array.from( newContent.getChildren() );
+	const changes = diff( oldBlocks.map( getNodeKey ), newBlocks.map( getNodeKey ) );
+
+	let markerIndex = 0;
+	let oldIndex = 0;
+	let newIndex = 0;
+	let deletedBlocks: Array<Node> = [];
+	let insertedBlocks: Array<Node> = [];
+
+	const addMarker = ( type: RevisionDiffType, parent: DocumentFragment | Element, startOffset: number ) => {
+		const range = writer.createRange(
+			writer.createPositionAt( parent, startOffset ),
+			writer.createPositionAt( parent, 'end' )
+		);
+
+		result.markers.set( `${ REVISION_DIFF_MARKER_GROUP }:${ type }:${ markerIndex++ }`, range );
+	};
+
+	const appendBlock = ( block: Node, type?: RevisionDiffType ) => {
+		const startOffset = result.maxOffset;
+
+		writer.append( cloneNode( writer, block ), result );
+
+		if ( type ) {
+			addMarker( type, result, startOffset );
+		}
+	};
+
+	const appendChangedBlocks = () => {
+		for ( let i = 0; i < Math.max( deletedBlocks.length, insertedBlocks.length ); i++ ) {
+			const deletedBlock = deletedBlocks[ i ];
+			const insertedBlock = insertedBlocks[ i ];
+
+			if ( deletedBlock && insertedBlock && canCompareText( schema, deletedBlock, insertedBlock ) ) {
+				const block = writer.cloneElement( insertedBlock as Element, false );
+
+				writer.append( block, result );
+
+				for ( const { type, items } of compareText( deletedBlock as Element, insertedBlock as Element ) ) {
+					const startOffset = block.maxOffset;
+
+					appendInlineItems( writer, items, block );
+
+					if ( type ) {
+						addMarker( type, block, startOffset );
+					}
+				}
+
+				continue;
+			}
+
+			if ( deletedBlock ) {
+				appendBlock( deletedBlock, 'deletion' );
+			}
+
+			if ( insertedBlock ) {
+				appendBlock( insertedBlock, 'insertion' );
+			}
+		}
+
+		deletedBlocks = [];
+		insertedBlocks = [];
+	};
+
+	for ( const change of changes ) {
+		if ( change == 'delete' ) {
+			deletedBlocks.push( oldBlocks[ oldIndex++ ] );
+		} else if ( change == 'insert' ) {
+			insertedBlocks.push( newBlocks[ newIndex++ ] );
+		} else {
+			appendChangedBlocks();
+			appendBlock( newBlocks[ newIndex++ ] );
+			oldIndex++;
+		}
+	}
+
+	appendChangedBlocks();
+
+	return result;
+}
+
+/**
+ * The types of the differences between revisions for the results of the `diff()` function.
+ */
+const DIFF_TYPES: Record<DiffResult, RevisionDiffType | undefined> = {
+	insert: 'insertion',
+	delete: 'deletion',
+	equal: undefined
+};
+
+/**
+ * A character or an inline element together with a key that allows for comparing it.
+ */
+interface InlineItem {
+	key: string;
+	item: string | Element;
+	attributes: Array<[ string, unknown ]>;
+}
+
+/**
+ * Compares the inline content of two blocks. Returns the consecutive items grouped by the type of the change.
+ */
+function compareText( oldBlock: Element, newBlock: Element ): Array<{ type?: RevisionDiffType; items: Array<InlineItem> }> {
+	const oldItems = getInlineItems( oldBlock );
+	const newItems = getInlineItems( newBlock );
+	const changes = orderChanges( diff( oldItems.map( item => item.key ), newItems.map( item => item.key ) ) );
+	const groups: Array<{ change: DiffResult; items: Array<InlineItem> }> = [];
+
+	let oldIndex = 0;
+	let newIndex = 0;
+
+	for ( const change of changes ) {
+		const item = change == 'delete' ? oldItems[ oldIndex ] : newItems[ newIndex ];
+		const lastGroup = groups[ groups.length - 1 ];
+
+		if ( change != 'insert' ) {
+			oldIndex++;
+		}
+
+		if ( change != 'delete' ) {
+			newIndex++;
+		}
+
+		if ( lastGroup && lastGroup.change == change ) {
+			lastGroup.items.push( item );
+		} else {
+			groups.push( { change, items: [ item ] } );
+		}
+	}
+
+	return groups.map( ( { change, items } ) => ( { type: DIFF_TYPES[ change ], items } ) );
+}
+
+/**
+ * Reorders the changes so the removed content is placed before the content inserted in its place.
+ */
+function orderChanges( changes: Array<DiffResult> ): Array<DiffResult> {
+	const result: Array<DiffResult> = [];
+	let deletions: Array<DiffResult> = [];
+	let insertions: Array<DiffResult> = [];
+
+	for ( const change of changes ) {
+		if ( change == 'delete' ) {
+			deletions.push( change );
+		} else if ( change == 'insert' ) {
+			insertions.push( change );
+		} else {
+			result.push( ...deletions, ...insertions, change );
+			deletions = [];
+			insertions = [];
+		}
+	}
+
+	result.push( ...deletions, ...insertions );
+
+	return result;
+}
+
+/**
+ * Splits the content of a block into characters and inline elements.
+ */
+function getInlineItems( block: Element ): Array<InlineItem> {
+	const items: Array<InlineItem> = [];
+
+	for ( const child of block.getChildren() ) {
+		const attributes = Array.from( child.getAttributes() ).sort( ( [ a ], [ b ] ) => a.localeCompare( b ) );
+
+		if ( child.is( '$text' ) ) {
+			const attributesKey = JSON.stringify( attributes );
+
+			for ( const character of child.data ) {
+				items.push( { key: character + attributesKey, item: character, attributes } );
+			}
+		} else {
+			items.push( { key: getNodeKey( child ), item: child as Element, attributes } );
+		}
+	}
+
+	return items;
+}
+
+/**
+ * Appends the characters and inline elements to the block. Consecutive characters with the same attributes
+ * are appended as a single text node.
+ */
+function appendInlineItems( writer: Writer, items: Array<InlineItem>, block: Element ): void {
+	let text = '';
+	let textAttributes: Array<[ string, unknown ]> = [];
+
+	const appendText = () => {
+		if ( text ) {
+			writer.appendText( text, textAttributes, block );
+			text = '';
+		}
+	};
+
+	for ( const { item, attributes } of items ) {
+		if ( typeof item == 'string' ) {
+			if ( attributes !== textAttributes ) {
+				appendText();
+				textAttributes = attributes;
+			}
+
+			text += item;
+		} else {
+			appendText();
+			writer.append( writer.cloneElement( item ), block );
+		}
+	}
+
+	appendText();
+}
+
+/**
+ * Checks whether the text of two blocks can be compared. It is possible for blocks of the same type that contain only
+ * text and inline elements.
+ */
+function canCompareText( schema: Schema, oldBlock: Node, newBlock: Node ): boolean {
+	return [ oldBlock, newBlock ].every( block => (
+		block.is( 'element', ( oldBlock as Element ).name ) &&
+		schema.isBlock( block ) &&
+		!schema.isObject( block ) &&
+		Array.from( block.getChildren() ).every( child => child.is( '$text' ) || schema.isInline( child ) )
+	) );
+}
+
+/**
+ * Returns a key that allows for comparing model nodes.
+ */
+function getNodeKey( node: Node ): string {
+	return JSON.stringify( node.toJSON() );
+}
+
+/**
+ * Creates a deep copy of a model node.
+ */
+function cloneNode( writer: Writer, node: Node ): Node {
+	if ( node.is( '$text' ) ) {
+		return writer.createText( node.data, node.getAttributes() );
+	}
+
+	return writer.cloneElement( node as Element );
+}
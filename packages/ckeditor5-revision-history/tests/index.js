@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	RevisionHistory as RevisionHistoryDLL,
+	RevisionHistoryEditing as RevisionHistoryEditingDLL,
+	RevisionHistoryUI as RevisionHistoryUIDLL,
+	LocalRevisionHistoryAdapter as LocalRevisionHistoryAdapterDLL,
+	createRevisionDiff as createRevisionDiffDLL
+} from '../src';
+import RevisionHistory from '../src/revisionhistory';
+import RevisionHistoryEditing from '../src/revisionhistoryediting';
+import RevisionHistoryUI from '../src/revisionhistoryui';
+import LocalRevisionHistoryAdapter from '../src/localrevisionhistoryadapter';
+import { createRevisionDiff } from '../src/utils';
+
+describe( 'RevisionHistory DLL', () => {
+	it( 'exports RevisionHistory', () => {
+		expect( RevisionHistoryDLL ).to.equal( RevisionHistory );
+	} );
+
+	it( 'exports RevisionHistoryEditing', () => {
+		expect( RevisionHistoryEditingDLL ).to.equal( RevisionHistoryEditing );
+	} );
+
+	it( 'exports RevisionHistoryUI', () => {
+		expect( RevisionHistoryUIDLL ).to.equal( RevisionHistoryUI );
+	} );
+
+	it( 'exports LocalRevisionHistoryAdapter', () => {
+		expect( LocalRevisionHistoryAdapterDLL ).to.equal( LocalRevisionHistoryAdapter );
+	} );
+
+	it( 'exports createRevisionDiff()', () => {
+		expect( createRevisionDiffDLL ).to.equal( createRevisionDiff );
+	} );
+} );
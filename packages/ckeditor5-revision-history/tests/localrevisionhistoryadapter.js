@@ -0,0 +1,49 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import LocalRevisionHistoryAdapter from '../src/localrevisionhistoryadapter';
+
+describe( 'LocalRevisionHistoryAdapter', () => {
+	let adapter, revision;
+
+	beforeEach( () => {
+		revision = { id: 'r1', name: 'Draft', createdAt: new Date( 2023, 0, 1 ), version: 5, data: { main: '<p>Foo</p>' } };
+		adapter = new LocalRevisionHistoryAdapter( [ revision ] );
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should store copies of the initial revisions', () => {
+			expect( adapter.revisions ).to.deep.equal( [ revision ] );
+			expect( adapter.revisions[ 0 ] ).to.not.equal( revision );
+			expect( adapter.revisions[ 0 ].data ).to.not.equal( revision.data );
+			expect( adapter.revisions[ 0 ].createdAt ).to.not.equal( revision.createdAt );
+		} );
+
+		it( 'should work without the initial revisions', () => {
+			expect( new LocalRevisionHistoryAdapter().revisions ).to.deep.equal( [] );
+		} );
+	} );
+
+	describe( 'getRevisions()', () => {
+		it( 'should resolve with copies of the stored revisions', async () => {
+			const revisions = await adapter.getRevisions();
+
+			expect( revisions ).to.deep.equal( [ revision ] );
+			expect( revisions[ 0 ] ).to.not.equal( adapter.revisions[ 0 ] );
+		} );
+	} );
+
+	describe( 'addRevision()', () => {
+		it( 'should store a copy of the revision as the newest one', async () => {
+			const newRevision = { id: 'r2', name: 'Final', createdAt: new Date( 2023, 0, 2 ), version: 8, data: { main: '<p>Bar</p>' } };
+
+			await adapter.addRevision( newRevision );
+
+			expect( adapter.revisions.map( ( { id } ) => id ) ).to.deep.equal( [ 'r1', 'r2' ] );
+			expect( adapter.revisions[ 1 ] ).to.deep.equal( newRevision );
+			expect( adapter.revisions[ 1 ] ).to.not.equal( newRevision );
+		} );
+	} );
+} );
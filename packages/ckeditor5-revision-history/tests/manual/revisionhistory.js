@@ -0,0 +1,72 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals window, document, console */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+import { Plugin } from '@ckeditor/ckeditor5-core';
+
+import RevisionHistory from '../../src/revisionhistory';
+import LocalRevisionHistoryAdapter from '../../src/localrevisionhistoryadapter';
+
+const adapter = new LocalRevisionHistoryAdapter( [
+	{
+		id: 'r1',
+		name: 'Initial draft',
+		createdAt: new Date( 2023, 5, 1, 10, 0 ),
+		version: 0,
+		data: {
+			main: '<h2>Revision history</h2><p>This is the first version of the document.</p>'
+		}
+	},
+	{
+		id: 'r2',
+		name: 'Review',
+		createdAt: new Date( 2023, 5, 2, 14, 30 ),
+		version: 0,
+		data: {
+			main:
+				'<h2>Revision history</h2>' +
+				'<p>This is the reviewed version of the document.</p>' +
+				'<blockquote><p>A quote added during the review.</p></blockquote>'
+		}
+	}
+] );
+
+class RevisionHistoryAdapterPlugin extends Plugin {
+	static get requires() {
+		return [ RevisionHistory ];
+	}
+
+	init() {
+		this.editor.plugins.get( 'RevisionHistoryEditing' ).adapter = adapter;
+	}
+}
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [ ArticlePluginSet, RevisionHistoryAdapterPlugin ],
+		toolbar: [
+			'saveRevision', 'revisionHistory', '|', 'heading', '|', 'bold', 'italic', 'link', '|', 'bulletedList', 'numberedList',
+			'blockQuote', 'insertTable', '|', 'undo', 'redo'
+		],
+		image: {
+			toolbar: [ 'imageStyle:inline', 'imageStyle:block', 'imageStyle:side', '|', 'imageTextAlternative' ]
+		},
+		table: {
+			contentToolbar: [ 'tableColumn', 'tableRow', 'mergeTableCells' ]
+		},
+		revisionHistory: {
+			autoSaveInterval: 30 * 1000
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+		window.revisionHistoryAdapter = adapter;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
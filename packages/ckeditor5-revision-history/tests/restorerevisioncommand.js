@@ -0,0 +1,63 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import RevisionHistoryEditing from '../src/revisionhistoryediting';
+
+describe( 'RestoreRevisionCommand', () => {
+	let editor, command, plugin;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, RevisionHistoryEditing ],
+			revisionHistory: {
+				autoSaveInterval: 0
+			}
+		} );
+
+		command = editor.commands.get( 'restoreRevision' );
+		plugin = editor.plugins.get( RevisionHistoryEditing );
+
+		setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be false when there are no revisions', () => {
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be true when a revision is saved', () => {
+			plugin.saveRevision();
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false in the read-only mode', () => {
+			plugin.saveRevision();
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should restore the revision', async () => {
+			const revision = await plugin.saveRevision();
+
+			setModelData( editor.model, '<paragraph>Bar[]</paragraph>' );
+
+			command.execute( { revisionId: revision.id } );
+
+			expect( getModelData( editor.model, { withoutSelection: true } ) ).to.equal( '<paragraph>Foo</paragraph>' );
+		} );
+	} );
+} );
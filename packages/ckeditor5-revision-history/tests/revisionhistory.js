@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import RevisionHistory from '../src/revisionhistory';
+import RevisionHistoryEditing from '../src/revisionhistoryediting';
+import RevisionHistoryUI from '../src/revisionhistoryui';
+
+describe( 'RevisionHistory', () => {
+	it( 'should be correctly named', () => {
+		expect( RevisionHistory.pluginName ).to.equal( 'RevisionHistory' );
+	} );
+
+	it( 'should require RevisionHistoryEditing and RevisionHistoryUI', () => {
+		expect( RevisionHistory.requires ).to.deep.equal( [ RevisionHistoryEditing, RevisionHistoryUI ] );
+	} );
+} );
@@ -0,0 +1,445 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import { PendingActions } from '@ckeditor/ckeditor5-core';
+import { Notification } from '@ckeditor/ckeditor5-ui';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+import RevisionHistoryEditing from '../src/revisionhistoryediting';
+import SaveRevisionCommand from '../src/saverevisioncommand';
+import RestoreRevisionCommand from '../src/restorerevisioncommand';
+import LocalRevisionHistoryAdapter from '../src/localrevisionhistoryadapter';
+
+describe( 'RevisionHistoryEditing', () => {
+	let editor, model, plugin;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, UndoEditing, RevisionHistoryEditing ],
+			revisionHistory: {
+				autoSaveInterval: 0
+			}
+		} );
+
+		model = editor.model;
+		plugin = editor.plugins.get( RevisionHistoryEditing );
+
+		setModelData( model, '<paragraph>Foo[]</paragraph>' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( RevisionHistoryEditing.pluginName ).to.equal( 'RevisionHistoryEditing' );
+	} );
+
+	it( 'should require PendingActions and Notification', () => {
+		expect( RevisionHistoryEditing.requires ).to.deep.equal( [ PendingActions, Notification ] );
+	} );
+
+	it( 'should register the commands', () => {
+		expect( editor.commands.get( 'saveRevision' ) ).to.be.instanceOf( SaveRevisionCommand );
+		expect( editor.commands.get( 'restoreRevision' ) ).to.be.instanceOf( RestoreRevisionCommand );
+	} );
+
+	it( 'should define the default configuration', async () => {
+		const editor = await VirtualTestEditor.create( { plugins: [ RevisionHistoryEditing ] } );
+
+		expect( editor.config.get( 'revisionHistory.autoSaveInterval' ) ).to.equal( 10 * 60 * 1000 );
+
+		await editor.destroy();
+	} );
+
+	it( 'should start without revisions', () => {
+		expect( plugin.revisions.length ).to.equal( 0 );
+	} );
+
+	describe( 'saveRevision()', () => {
+		it( 'should add a revision with the current data', async () => {
+			const revision = await plugin.saveRevision();
+
+			expect( plugin.revisions.length ).to.equal( 1 );
+			expect( plugin.revisions.get( 0 ) ).to.equal( revision );
+			expect( revision.id ).to.be.a( 'string' );
+			expect( revision.createdAt ).to.be.instanceOf( Date );
+			expect( revision.version ).to.equal( model.document.version );
+			expect( revision.data ).to.deep.equal( { main: '<p>Foo</p>' } );
+		} );
+
+		it( 'should name the revisions after their number by default', async () => {
+			await plugin.saveRevision();
+			await plugin.saveRevision();
+
+			expect( plugin.revisions.map( revision => revision.name ) ).to.deep.equal( [ 'Revision 1', 'Revision 2' ] );
+		} );
+
+		it( 'should use the given name', async () => {
+			const revision = await plugin.saveRevision( 'Draft' );
+
+			expect( revision.name ).to.equal( 'Draft' );
+		} );
+
+		it( 'should add the revision synchronously', () => {
+			plugin.saveRevision();
+
+			expect( plugin.revisions.length ).to.equal( 1 );
+		} );
+
+		describe( 'with an adapter', () => {
+			let adapter;
+
+			beforeEach( () => {
+				adapter = new LocalRevisionHistoryAdapter();
+				plugin.adapter = adapter;
+			} );
+
+			it( 'should pass a copy of the revision to the adapter', async () => {
+				const revision = await plugin.saveRevision();
+
+				expect( adapter.revisions ).to.deep.equal( [ revision ] );
+				expect( adapter.revisions[ 0 ] ).to.not.equal( revision );
+			} );
+
+			it( 'should add a pending action until the revision is saved', async () => {
+				const pendingActions = editor.plugins.get( PendingActions );
+				const promise = plugin.saveRevision();
+
+				expect( pendingActions.hasAny ).to.be.true;
+				expect( pendingActions.first.message ).to.equal( 'Saving revisions' );
+
+				await promise;
+
+				expect( pendingActions.hasAny ).to.be.false;
+			} );
+
+			it( 'should remove the pending action and reject when the adapter fails', async () => {
+				const pendingActions = editor.plugins.get( PendingActions );
+				const error = new Error( 'Failed' );
+
+				sinon.stub( editor.plugins.get( Notification ), 'showWarning' );
+				sinon.stub( adapter, 'addRevision' ).rejects( error );
+
+				try {
+					await plugin.saveRevision();
+
+					throw new Error( 'Expected the promise to be rejected.' );
+				} catch ( err ) {
+					expect( err ).to.equal( error );
+				}
+
+				expect( pendingActions.hasAny ).to.be.false;
+			} );
+
+			it( 'should remove the revision and show a warning when the adapter fails', async () => {
+				const showWarningStub = sinon.stub( editor.plugins.get( Notification ), 'showWarning' );
+
+				sinon.stub( adapter, 'addRevision' ).rejects( new Error( 'Failed' ) );
+
+				const promise = plugin.saveRevision();
+
+				expect( plugin.revisions.length ).to.equal( 1 );
+
+				await promise.catch( () => {} );
+
+				expect( plugin.revisions.length ).to.equal( 0 );
+				sinon.assert.calledOnceWithExactly( showWarningStub, 'The revision could not be saved.', {
+					title: 'Revision history error',
+					namespace: 'revisionHistory'
+				} );
+			} );
+		} );
+	} );
+
+	describe( 'loading the revisions', () => {
+		let adapter;
+
+		function AdapterPlugin( editor ) {
+			editor.plugins.get( 'RevisionHistoryEditing' ).adapter = adapter;
+		}
+
+		beforeEach( () => {
+			adapter = new LocalRevisionHistoryAdapter( [
+				{ id: 'r1', name: 'First', createdAt: new Date( 2023, 0, 1 ), version: 1, data: { main: '<p>Foo</p>' } },
+				{ id: 'r2', name: 'Second', createdAt: new Date( 2023, 0, 2 ), version: 4, data: { main: '<p>Bar</p>' } }
+			] );
+		} );
+
+		it( 'should load the stored revisions when the data is ready', async () => {
+			const editor = await VirtualTestEditor.create( {
+				plugins: [ Paragraph, RevisionHistoryEditing, AdapterPlugin ],
+				revisionHistory: { autoSaveInterval: 0 }
+			} );
+
+			await adapter.getRevisions();
+
+			expect( editor.plugins.get( RevisionHistoryEditing ).revisions.map( revision => revision.id ) ).to.deep.equal( [ 'r1', 'r2' ] );
+
+			await editor.destroy();
+		} );
+
+		it( 'should keep the revisions saved in the meantime as the newest ones', async () => {
+			let resolveRevisions;
+
+			sinon.stub( adapter, 'getRevisions' ).returns( new Promise( resolve => {
+				resolveRevisions = resolve;
+			} ) );
+
+			const editor = await VirtualTestEditor.create( {
+				plugins: [ Paragraph, RevisionHistoryEditing, AdapterPlugin ],
+				revisionHistory: { autoSaveInterval: 0 }
+			} );
+			const revisions = editor.plugins.get( RevisionHistoryEditing ).revisions;
+			const revision = await editor.plugins.get( RevisionHistoryEditing ).saveRevision();
+
+			resolveRevisions( adapter.revisions.slice( 0, 2 ) );
+
+			await adapter.getRevisions.firstCall.returnValue;
+
+			expect( revisions.map( revision => revision.id ) ).to.deep.equal( [ 'r1', 'r2', revision.id ] );
+
+			await editor.destroy();
+		} );
+
+		it( 'should show a warning when the adapter fails', async () => {
+			const showWarningStub = sinon.stub( Notification.prototype, 'showWarning' );
+
+			sinon.stub( adapter, 'getRevisions' ).rejects( new Error( 'Failed' ) );
+
+			const editor = await VirtualTestEditor.create( {
+				plugins: [ Paragraph, RevisionHistoryEditing, AdapterPlugin ],
+				revisionHistory: { autoSaveInterval: 0 }
+			} );
+
+			await adapter.getRevisions.firstCall.returnValue.catch( () => {} );
+
+			expect( editor.plugins.get( RevisionHistoryEditing ).revisions.length ).to.equal( 0 );
+			sinon.assert.calledOnceWithExactly( showWarningStub, 'The revisions could not be loaded.', {
+				title: 'Revision history error',
+				namespace: 'revisionHistory'
+			} );
+
+			await editor.destroy();
+		} );
+	} );
+
+	describe( 'auto-saving', () => {
+		let clock, editor, plugin;
+
+		beforeEach( async () => {
+			clock = sinon.useFakeTimers( { now: Date.now() } );
+
+			editor = await VirtualTestEditor.create( {
+				plugins: [ Paragraph, RevisionHistoryEditing ],
+				revisionHistory: { autoSaveInterval: 1000 }
+			} );
+
+			plugin = editor.plugins.get( RevisionHistoryEditing );
+		} );
+
+		afterEach( async () => {
+			await editor.destroy();
+		} );
+
+		it( 'should save a revision after the content changed', () => {
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+
+			clock.tick( 999 );
+			expect( plugin.revisions.length ).to.equal( 0 );
+
+			clock.tick( 1 );
+			expect( plugin.revisions.length ).to.equal( 1 );
+			expect( plugin.revisions.get( 0 ).data ).to.deep.equal( { main: '<p>Foo</p>' } );
+		} );
+
+		it( 'should save at most one revision per interval', () => {
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+			clock.tick( 500 );
+			setModelData( editor.model, '<paragraph>Bar[]</paragraph>' );
+			clock.tick( 500 );
+
+			expect( plugin.revisions.length ).to.equal( 1 );
+			expect( plugin.revisions.get( 0 ).data ).to.deep.equal( { main: '<p>Bar</p>' } );
+		} );
+
+		it( 'should not save a revision when the content did not change', () => {
+			clock.tick( 5000 );
+
+			expect( plugin.revisions.length ).to.equal( 0 );
+		} );
+
+		it( 'should not save a revision when the content is the same as in the last revision', () => {
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+			plugin.saveRevision();
+
+			setModelData( editor.model, '<paragraph>Bar[]</paragraph>' );
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+			clock.tick( 1000 );
+
+			expect( plugin.revisions.length ).to.equal( 1 );
+		} );
+
+		it( 'should cancel the scheduled auto-save when a revision is saved', () => {
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+			plugin.saveRevision();
+
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+			clock.tick( 1000 );
+
+			expect( plugin.revisions.length ).to.equal( 1 );
+		} );
+
+		it( 'should not keep the revision when the adapter fails to save it', async () => {
+			const showWarningStub = sinon.stub( editor.plugins.get( Notification ), 'showWarning' );
+
+			plugin.adapter = new LocalRevisionHistoryAdapter();
+			sinon.stub( plugin.adapter, 'addRevision' ).rejects( new Error( 'Failed' ) );
+
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+			clock.tick( 1000 );
+
+			expect( plugin.revisions.length ).to.equal( 1 );
+
+			await plugin.adapter.addRevision.firstCall.returnValue.catch( () => {} );
+			await Promise.resolve();
+
+			expect( plugin.revisions.length ).to.equal( 0 );
+			sinon.assert.calledOnce( showWarningStub );
+		} );
+
+		it( 'should cancel the scheduled auto-save when the editor is destroyed', async () => {
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+
+			await editor.destroy();
+			clock.tick( 1000 );
+
+			expect( plugin.revisions.length ).to.equal( 0 );
+		} );
+
+		it( 'should not save revisions automatically when the interval is 0', async () => {
+			const editor = await VirtualTestEditor.create( {
+				plugins: [ Paragraph, RevisionHistoryEditing ],
+				revisionHistory: { autoSaveInterval: 0 }
+			} );
+			const plugin = editor.plugins.get( RevisionHistoryEditing );
+
+			setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+			clock.tick( 1000 );
+
+			expect( plugin.revisions.length ).to.equal( 0 );
+
+			await editor.destroy();
+		} );
+	} );
+
+	describe( 'getRevision()', () => {
+		it( 'should return the revision with the given id', async () => {
+			const revision = await plugin.saveRevision();
+
+			expect( plugin.getRevision( revision.id ) ).to.equal( revision );
+		} );
+
+		it( 'should return null for an unknown revision', () => {
+			expect( plugin.getRevision( 'unknown' ) ).to.be.null;
+		} );
+	} );
+
+	describe( 'restoreRevision()', () => {
+		it( 'should replace the content with the revision data', async () => {
+			const revision = await plugin.saveRevision();
+
+			setModelData( model, '<paragraph>Bar[]</paragraph><paragraph>Baz</paragraph>' );
+			plugin.restoreRevision( revision.id );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<paragraph>Foo</paragraph>' );
+		} );
+
+		it( 'should be undoable', async () => {
+			const revision = await plugin.saveRevision();
+
+			model.change( writer => {
+				writer.insertText( 'Bar', model.document.selection.getFirstPosition() );
+			} );
+
+			plugin.restoreRevision( revision.id );
+			editor.execute( 'undo' );
+
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<paragraph>FooBar</paragraph>' );
+		} );
+
+		it( 'should throw for an unknown revision', () => {
+			expectToThrowCKEditorError( () => {
+				plugin.restoreRevision( 'unknown' );
+			}, /^revision-history-revision-not-found/, plugin, { revisionId: 'unknown' } );
+		} );
+	} );
+
+	describe( 'getRevisionPreview()', () => {
+		it( 'should return the data of the revision', async () => {
+			const revision = await plugin.saveRevision();
+
+			setModelData( model, '<paragraph>Bar[]</paragraph>' );
+
+			expect( plugin.getRevisionPreview( revision.id ) ).to.equal( '<p>Foo</p>' );
+		} );
+
+		it( 'should highlight the changes since the compared revision', async () => {
+			const first = await plugin.saveRevision();
+
+			setModelData( model, '<paragraph>Fox jumps[]</paragraph>' );
+
+			const second = await plugin.saveRevision();
+
+			expect( plugin.getRevisionPreview( second.id, { compareWith: first.id } ) ).to.equal(
+				'<p>Fo' +
+					'<span class="ck-revision-diff ck-revision-diff_deletion">o</span>' +
+					'<span class="ck-revision-diff ck-revision-diff_insertion">x jumps</span>' +
+				'</p>'
+			);
+		} );
+
+		it( 'should return an empty string for a root that does not exist in the revision', async () => {
+			const revision = await plugin.saveRevision();
+
+			expect( plugin.getRevisionPreview( revision.id, { rootName: 'other' } ) ).to.equal( '' );
+		} );
+
+		it( 'should not change the document', async () => {
+			const first = await plugin.saveRevision();
+
+			setModelData( model, '<paragraph>Bar[]</paragraph>' );
+
+			const second = await plugin.saveRevision();
+			const version = model.document.version;
+
+			plugin.getRevisionPreview( second.id, { compareWith: first.id } );
+
+			expect( model.document.version ).to.equal( version );
+			expect( getModelData( model, { withoutSelection: true } ) ).to.equal( '<paragraph>Bar</paragraph>' );
+		} );
+
+		it( 'should throw for an unknown revision', () => {
+			expectToThrowCKEditorError( () => {
+				plugin.getRevisionPreview( 'unknown' );
+			}, /^revision-history-revision-not-found/, plugin, { revisionId: 'unknown' } );
+		} );
+
+		it( 'should throw for an unknown compared revision', async () => {
+			const revision = await plugin.saveRevision();
+
+			expectToThrowCKEditorError( () => {
+				plugin.getRevisionPreview( revision.id, { compareWith: 'unknown' } );
+			}, /^revision-history-revision-not-found/, plugin, { revisionId: 'unknown' } );
+		} );
+	} );
+} );
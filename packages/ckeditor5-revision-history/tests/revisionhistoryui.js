@@ -0,0 +1,243 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { ButtonView, Dialog } from '@ckeditor/ckeditor5-ui';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import RevisionHistoryEditing from '../src/revisionhistoryediting';
+import RevisionHistoryUI from '../src/revisionhistoryui';
+import RevisionHistoryView from '../src/ui/revisionhistoryview';
+
+describe( 'RevisionHistoryUI', () => {
+	let editor, editorElement, plugin, revisionHistory, dialog;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, RevisionHistoryEditing, RevisionHistoryUI ],
+			revisionHistory: {
+				autoSaveInterval: 0
+			}
+		} );
+
+		plugin = editor.plugins.get( RevisionHistoryUI );
+		revisionHistory = editor.plugins.get( RevisionHistoryEditing );
+		dialog = editor.plugins.get( Dialog );
+
+		setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+
+		Dialog._visibleDialogPlugin = null;
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( RevisionHistoryUI.pluginName ).to.equal( 'RevisionHistoryUI' );
+	} );
+
+	it( 'should require Dialog', () => {
+		expect( RevisionHistoryUI.requires ).to.deep.equal( [ Dialog ] );
+	} );
+
+	it( 'should not create the view until the dialog is shown', () => {
+		expect( plugin.view ).to.be.null;
+	} );
+
+	describe( 'the "saveRevision" button', () => {
+		let button;
+
+		beforeEach( () => {
+			button = editor.ui.componentFactory.create( 'saveRevision' );
+		} );
+
+		afterEach( () => {
+			button.destroy();
+		} );
+
+		it( 'should be registered in the component factory', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.label ).to.equal( 'Save revision' );
+			expect( button.icon ).to.match( /^<svg/ );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should be bound to the command', () => {
+			const command = editor.commands.get( 'saveRevision' );
+
+			command.forceDisabled( 'test' );
+
+			expect( button.isEnabled ).to.be.false;
+		} );
+
+		it( 'should save a revision and focus the editing view', () => {
+			const focusSpy = sinon.spy( editor.editing.view, 'focus' );
+
+			button.fire( 'execute' );
+
+			expect( revisionHistory.revisions.length ).to.equal( 1 );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should handle the rejected promise of the command', () => {
+			const promise = Promise.reject( new Error( 'Failed' ) );
+			const catchSpy = sinon.spy( promise, 'catch' );
+
+			sinon.stub( editor, 'execute' ).returns( promise );
+
+			button.fire( 'execute' );
+
+			sinon.assert.calledOnce( catchSpy );
+		} );
+	} );
+
+	describe( 'the "revisionHistory" button', () => {
+		let button;
+
+		beforeEach( () => {
+			button = editor.ui.componentFactory.create( 'revisionHistory' );
+		} );
+
+		afterEach( () => {
+			button.destroy();
+		} );
+
+		it( 'should be registered in the component factory', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.label ).to.equal( 'Revision history' );
+			expect( button.icon ).to.match( /^<svg/ );
+			expect( button.tooltip ).to.be.true;
+		} );
+
+		it( 'should show the revision history dialog', () => {
+			button.fire( 'execute' );
+
+			expect( dialog.id ).to.equal( 'revisionHistory' );
+			expect( dialog.isOpen ).to.be.true;
+			expect( dialog.view.isModal ).to.be.true;
+			expect( dialog.view.className ).to.equal( 'ck-revision-history-dialog' );
+			expect( plugin.view ).to.be.instanceOf( RevisionHistoryView );
+			expect( dialog.view.contentView.children.get( 0 ) ).to.equal( plugin.view );
+		} );
+
+		it( 'should reuse the view when the dialog is shown again', () => {
+			button.fire( 'execute' );
+
+			const view = plugin.view;
+
+			dialog.hide();
+			button.fire( 'execute' );
+
+			expect( plugin.view ).to.equal( view );
+		} );
+	} );
+
+	describe( 'the dialog', () => {
+		let first, second;
+
+		beforeEach( async () => {
+			first = await revisionHistory.saveRevision();
+
+			setModelData( editor.model, '<paragraph>Foo bar[]</paragraph>' );
+
+			second = await revisionHistory.saveRevision();
+
+			setModelData( editor.model, '<paragraph>Baz[]</paragraph>' );
+		} );
+
+		it( 'should select the newest revision and focus the view', () => {
+			const focusSpy = sinon.spy( RevisionHistoryView.prototype, 'focus' );
+
+			showDialog();
+
+			expect( plugin.view.selectedRevisionId ).to.equal( second.id );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should display the selected revision compared with the previous one', () => {
+			showDialog();
+
+			expect( plugin.view.previewView.element.innerHTML ).to.equal(
+				'<p>Foo<span class="ck-revision-diff ck-revision-diff_insertion"> bar</span></p>'
+			);
+		} );
+
+		it( 'should display the oldest revision without comparing it', () => {
+			showDialog();
+
+			plugin.view.selectedRevisionId = first.id;
+
+			expect( plugin.view.previewView.element.innerHTML ).to.equal( '<p>Foo</p>' );
+		} );
+
+		it( 'should clear the preview when no revision is selected', () => {
+			showDialog();
+
+			plugin.view.selectedRevisionId = null;
+
+			expect( plugin.view.previewView.element.innerHTML ).to.equal( '' );
+		} );
+
+		it( 'should restore the selected revision and hide the dialog', () => {
+			showDialog();
+
+			plugin.view.selectedRevisionId = first.id;
+			dialog.view.actionsView.children.get( 0 ).fire( 'execute' );
+
+			expect( getModelData( editor.model, { withoutSelection: true } ) ).to.equal( '<paragraph>Foo</paragraph>' );
+			expect( dialog.isOpen ).to.be.false;
+		} );
+
+		it( 'should not restore a revision when the command is disabled', () => {
+			showDialog();
+
+			editor.commands.get( 'restoreRevision' ).forceDisabled( 'test' );
+			dialog.view.actionsView.children.get( 0 ).fire( 'execute' );
+
+			expect( getModelData( editor.model, { withoutSelection: true } ) ).to.equal( '<paragraph>Baz</paragraph>' );
+			expect( dialog.isOpen ).to.be.false;
+		} );
+	} );
+
+	it( 'should show the empty dialog when there are no revisions', () => {
+		showDialog();
+
+		expect( plugin.view.selectedRevisionId ).to.be.null;
+		expect( plugin.view.hasRevisions ).to.be.false;
+
+		dialog.view.actionsView.children.get( 0 ).fire( 'execute' );
+
+		expect( getModelData( editor.model, { withoutSelection: true } ) ).to.equal( '<paragraph>Foo</paragraph>' );
+	} );
+
+	it( 'should destroy the view when destroyed', () => {
+		showDialog();
+		dialog.hide();
+
+		const destroySpy = sinon.spy( plugin.view, 'destroy' );
+
+		plugin.destroy();
+
+		sinon.assert.calledOnce( destroySpy );
+	} );
+
+	function showDialog() {
+		const button = editor.ui.componentFactory.create( 'revisionHistory' );
+
+		button.fire( 'execute' );
+		button.destroy();
+	}
+} );
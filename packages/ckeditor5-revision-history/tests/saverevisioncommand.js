@@ -0,0 +1,68 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import RevisionHistoryEditing from '../src/revisionhistoryediting';
+
+describe( 'SaveRevisionCommand', () => {
+	let editor, command, plugin;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, RevisionHistoryEditing ],
+			revisionHistory: {
+				autoSaveInterval: 0
+			}
+		} );
+
+		command = editor.commands.get( 'saveRevision' );
+		plugin = editor.plugins.get( RevisionHistoryEditing );
+
+		setModelData( editor.model, '<paragraph>Foo[]</paragraph>' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true', () => {
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be true in the read-only mode', () => {
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should save a revision', async () => {
+			const revision = await command.execute();
+
+			expect( plugin.revisions.last ).to.equal( revision );
+			expect( revision.name ).to.equal( 'Revision 1' );
+			expect( revision.data ).to.deep.equal( { main: '<p>Foo</p>' } );
+		} );
+
+		it( 'should save a revision with the given name', async () => {
+			const revision = await command.execute( { name: 'Draft' } );
+
+			expect( revision.name ).to.equal( 'Draft' );
+		} );
+
+		it( 'should not change the content', () => {
+			const version = editor.model.document.version;
+
+			command.execute();
+
+			expect( editor.model.document.version ).to.equal( version );
+		} );
+	} );
+} );
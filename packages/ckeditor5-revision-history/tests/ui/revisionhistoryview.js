@@ -0,0 +1,130 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { ButtonView, ListView, View } from '@ckeditor/ckeditor5-ui';
+import { Collection, Locale } from '@ckeditor/ckeditor5-utils';
+
+import RevisionHistoryView from '../../src/ui/revisionhistoryview';
+
+describe( 'RevisionHistoryView', () => {
+	let view, revisions;
+
+	beforeEach( () => {
+		revisions = new Collection( [
+			{ id: 'r1', name: 'First', createdAt: new Date( 2023, 0, 1, 10, 30 ), version: 1, data: { main: '<p>Foo</p>' } }
+		] );
+
+		view = new RevisionHistoryView( new Locale(), revisions );
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create the element', () => {
+			expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-revision-history' ) ).to.be.true;
+		} );
+
+		it( 'should set the initial state', () => {
+			expect( view.selectedRevisionId ).to.be.null;
+			expect( view.hasRevisions ).to.be.true;
+		} );
+
+		it( 'should create the list view', () => {
+			expect( view.listView ).to.be.instanceOf( ListView );
+			expect( view.listView.ariaLabel ).to.equal( 'Revisions' );
+			expect( view.listView.element.parentNode.classList.contains( 'ck-revision-history__revisions' ) ).to.be.true;
+		} );
+
+		it( 'should create the preview view', () => {
+			expect( view.previewView ).to.be.instanceOf( View );
+			expect( view.previewView.element.classList.contains( 'ck-content' ) ).to.be.true;
+			expect( view.previewView.element.classList.contains( 'ck-revision-history__preview' ) ).to.be.true;
+		} );
+	} );
+
+	describe( 'the list of revisions', () => {
+		it( 'should contain a button for each revision', () => {
+			const button = getButton( 0 );
+
+			expect( view.listView.items.length ).to.equal( 1 );
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.label ).to.equal( 'First' );
+			expect( button.withText ).to.be.true;
+		} );
+
+		it( 'should display the date of the revision', () => {
+			const dateElement = getButton( 0 ).element.querySelector( 'time' );
+
+			expect( dateElement.classList.contains( 'ck-revision-history__date' ) ).to.be.true;
+			expect( dateElement.getAttribute( 'datetime' ) ).to.equal( revisions.get( 0 ).createdAt.toISOString() );
+			expect( dateElement.textContent ).to.equal( revisions.get( 0 ).createdAt.toLocaleString( 'en' ) );
+		} );
+
+		it( 'should follow the changes of the revisions', () => {
+			revisions.add( { id: 'r2', name: 'Second', createdAt: new Date(), version: 2, data: { main: '' } } );
+
+			expect( view.listView.items.length ).to.equal( 2 );
+			expect( getButton( 1 ).label ).to.equal( 'Second' );
+		} );
+
+		it( 'should select the revision when its button is executed', () => {
+			getButton( 0 ).fire( 'execute' );
+
+			expect( view.selectedRevisionId ).to.equal( 'r1' );
+		} );
+
+		it( 'should mark the button of the selected revision', () => {
+			expect( getButton( 0 ).isOn ).to.be.false;
+
+			view.selectedRevisionId = 'r1';
+
+			expect( getButton( 0 ).isOn ).to.be.true;
+		} );
+	} );
+
+	describe( 'the empty state', () => {
+		it( 'should be hidden when there are revisions', () => {
+			expect( getEmptyElement().classList.contains( 'ck-hidden' ) ).to.be.true;
+		} );
+
+		it( 'should be displayed when there are no revisions', () => {
+			revisions.clear();
+
+			expect( view.hasRevisions ).to.be.false;
+			expect( getEmptyElement().classList.contains( 'ck-hidden' ) ).to.be.false;
+			expect( getEmptyElement().textContent ).to.equal( 'No revisions saved yet.' );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the list view', () => {
+			const spy = sinon.spy( view.listView, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'setPreviewData()', () => {
+		it( 'should display the data in the preview', () => {
+			view.setPreviewData( '<p>Foo</p>' );
+
+			expect( view.previewView.element.innerHTML ).to.equal( '<p>Foo</p>' );
+		} );
+	} );
+
+	function getButton( index ) {
+		return view.listView.items.get( index ).children.get( 0 );
+	}
+
+	function getEmptyElement() {
+		return view.element.querySelector( '.ck-revision-history__empty' );
+	}
+} );
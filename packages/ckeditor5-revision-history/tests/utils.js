@@ -0,0 +1,164 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Model from '@ckeditor/ckeditor5-engine/src/model/model';
+import { parse, stringify } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import { createRevisionDiff, REVISION_DIFF_MARKER_GROUP } from '../src/utils';
+
+describe( 'utils', () => {
+	let model;
+
+	beforeEach( () => {
+		model = new Model();
+
+		model.schema.register( 'paragraph', { inheritAllFrom: '$block' } );
+		model.schema.register( 'heading1', { inheritAllFrom: '$block' } );
+		model.schema.register( 'horizontalLine', { inheritAllFrom: '$blockObject' } );
+		model.schema.register( 'softBreak', { allowWhere: '$text', isInline: true } );
+		model.schema.extend( '$text', { allowAttributes: 'bold' } );
+	} );
+
+	describe( 'REVISION_DIFF_MARKER_GROUP', () => {
+		it( 'should be defined', () => {
+			expect( REVISION_DIFF_MARKER_GROUP ).to.equal( 'revisionDiff' );
+		} );
+	} );
+
+	describe( 'createRevisionDiff()', () => {
+		it( 'should return the content without markers when nothing changed', () => {
+			const result = getDiff(
+				'<paragraph>Foo</paragraph><horizontalLine></horizontalLine>',
+				'<paragraph>Foo</paragraph><horizontalLine></horizontalLine>'
+			);
+
+			expect( result.data ).to.equal( '<paragraph>Foo</paragraph><horizontalLine></horizontalLine>' );
+			expect( result.markers ).to.deep.equal( [] );
+		} );
+
+		it( 'should mark the inserted text', () => {
+			const result = getDiff( '<paragraph>Foo</paragraph>', '<paragraph>Foo bar</paragraph>' );
+
+			expect( result.data ).to.equal( '<paragraph>Foo bar</paragraph>' );
+			expect( result.markers ).to.deep.equal( [
+				[ 'revisionDiff:insertion:0', [ 0, 3 ], [ 0, 7 ] ]
+			] );
+		} );
+
+		it( 'should mark the removed text', () => {
+			const result = getDiff( '<paragraph>Foo bar</paragraph>', '<paragraph>Foo</paragraph>' );
+
+			expect( result.data ).to.equal( '<paragraph>Foo bar</paragraph>' );
+			expect( result.markers ).to.deep.equal( [
+				[ 'revisionDiff:deletion:0', [ 0, 3 ], [ 0, 7 ] ]
+			] );
+		} );
+
+		it( 'should mark the replaced text', () => {
+			const result = getDiff( '<paragraph>Foo bar</paragraph>', '<paragraph>Foo baz</paragraph>' );
+
+			expect( result.data ).to.equal( '<paragraph>Foo barz</paragraph>' );
+			expect( result.markers ).to.deep.equal( [
+				[ 'revisionDiff:deletion:0', [ 0, 6 ], [ 0, 7 ] ],
+				[ 'revisionDiff:insertion:1', [ 0, 7 ], [ 0, 8 ] ]
+			] );
+		} );
+
+		it( 'should treat the text with changed attributes as replaced', () => {
+			const result = getDiff( '<paragraph>Foo bar</paragraph>', '<paragraph>Foo <$text bold="true">bar</$text></paragraph>' );
+
+			expect( result.data ).to.equal( '<paragraph>Foo bar<$text bold="true">bar</$text></paragraph>' );
+			expect( result.markers ).to.deep.equal( [
+				[ 'revisionDiff:deletion:0', [ 0, 4 ], [ 0, 7 ] ],
+				[ 'revisionDiff:insertion:1', [ 0, 7 ], [ 0, 10 ] ]
+			] );
+		} );
+
+		it( 'should compare the inline elements', () => {
+			const result = getDiff( '<paragraph>Foo<softBreak></softBreak>bar</paragraph>', '<paragraph>Foobar</paragraph>' );
+
+			expect( result.data ).to.equal( '<paragraph>Foo<softBreak></softBreak>bar</paragraph>' );
+			expect( result.markers ).to.deep.equal( [
+				[ 'revisionDiff:deletion:0', [ 0, 3 ], [ 0, 4 ] ]
+			] );
+		} );
+
+		it( 'should mark the inserted blocks', () => {
+			const result = getDiff( '<paragraph>Foo</paragraph>', '<paragraph>Foo</paragraph><horizontalLine></horizontalLine>' );
+
+			expect( result.data ).to.equal( '<paragraph>Foo</paragraph><horizontalLine></horizontalLine>' );
+			expect( result.markers ).to.deep.equal( [
+				[ 'revisionDiff:insertion:0', [ 1 ], [ 2 ] ]
+			] );
+		} );
+
+		it( 'should mark the removed blocks', () => {
+			const result = getDiff( '<paragraph>Foo</paragraph><paragraph>Bar</paragraph>', '<paragraph>Bar</paragraph>' );
+
+			expect( result.data ).to.equal( '<paragraph>Foo</paragraph><paragraph>Bar</paragraph>' );
+			expect( result.markers ).to.deep.equal( [
+				[ 'revisionDiff:deletion:0', [ 0 ], [ 1 ] ]
+			] );
+		} );
+
+		it( 'should mark the blocks of different types as removed and inserted', () => {
+			const result = getDiff( '<paragraph>Foo</paragraph>', '<heading1>Foo</heading1>' );
+
+			expect( result.data ).to.equal( '<paragraph>Foo</paragraph><heading1>Foo</heading1>' );
+			expect( result.markers ).to.deep.equal( [
+				[ 'revisionDiff:deletion:0', [ 0 ], [ 1 ] ],
+				[ 'revisionDiff:insertion:1', [ 1 ], [ 2 ] ]
+			] );
+		} );
+
+		it( 'should pair the changed blocks in order', () => {
+			const result = getDiff(
+				'<paragraph>Foo</paragraph><paragraph>Bar</paragraph><paragraph>Baz</paragraph>',
+				'<paragraph>Foo</paragraph><paragraph>Bax</paragraph><paragraph>Qux</paragraph>'
+			);
+
+			expect( result.data ).to.equal(
+				'<paragraph>Foo</paragraph><paragraph>Barx</paragraph><paragraph>BazQux</paragraph>'
+			);
+			expect( result.markers ).to.deep.equal( [
+				[ 'revisionDiff:deletion:0', [ 1, 2 ], [ 1, 3 ] ],
+				[ 'revisionDiff:insertion:1', [ 1, 3 ], [ 1, 4 ] ],
+				[ 'revisionDiff:deletion:2', [ 2, 0 ], [ 2, 3 ] ],
+				[ 'revisionDiff:insertion:3', [ 2, 3 ], [ 2, 6 ] ]
+			] );
+		} );
+
+		it( 'should not modify the compared content', () => {
+			const oldContent = parseFragment( '<paragraph>Foo</paragraph>' );
+			const newContent = parseFragment( '<paragraph>Bar</paragraph>' );
+
+			model.change( writer => createRevisionDiff( model.schema, writer, oldContent, newContent ) );
+
+			expect( stringify( oldContent ) ).to.equal( '<paragraph>Foo</paragraph>' );
+			expect( stringify( newContent ) ).to.equal( '<paragraph>Bar</paragraph>' );
+		} );
+	} );
+
+	function getDiff( oldData, newData ) {
+		return model.change( writer => {
+			const result = createRevisionDiff( model.schema, writer, parseFragment( oldData ), parseFragment( newData ) );
+
+			return {
+				data: stringify( result ),
+				markers: Array.from( result.markers ).map( ( [ name, range ] ) => [ name, range.start.path, range.end.path ] )
+			};
+		} );
+	}
+
+	function parseFragment( data ) {
+		return model.change( writer => {
+			const fragment = writer.createDocumentFragment();
+
+			writer.append( parse( data, model.schema ), fragment );
+
+			return fragment;
+		} );
+	}
+} );
@@ -33,6 +33,7 @@ export default class SelectAllEditing extends Plugin {
 	 */
 	public init(): void {
 		const editor = this.editor;
+		const t = editor.t;
 		const view = editor.editing.view;
 		const viewDocument = view.document;
 
@@ -44,5 +45,14 @@ export default class SelectAllEditing extends Plugin {
 				domEventData.preventDefault();
 			}
 		} );
+
+		editor.accessibility.addKeystrokeInfos( {
+			keystrokes: [
+				{
+					label: t( 'Select all' ),
+					keystroke: 'CTRL+A'
+				}
+			]
+		} );
 	}
 }
@@ -81,4 +81,11 @@ describe( 'SelectAllEditing', () => {
 			sinon.assert.notCalled( domEventDataMock.preventDefault );
 		} );
 	} );
+
+	it( 'should add keystroke accessibility info', () => {
+		expect( editor.accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'common' ).keystrokes ).to.deep.include( {
+			label: 'Select all',
+			keystroke: 'CTRL+A'
+		} );
+	} );
 } );
@@ -19,6 +19,8 @@ import type {
 	TableClipboard,
 	TableColumnResize,
 	TableColumnResizeEditing,
+	TableDragDrop,
+	TableDragDropEditing,
 	TableEditing,
 	TableKeyboard,
 	TableMouse,
@@ -37,12 +39,15 @@ import type {
 	InsertTableCommand,
 	MergeCellCommand,
 	MergeCellsCommand,
+	MoveTableColumnsCommand,
+	MoveTableRowsCommand,
 	RemoveColumnCommand,
 	RemoveRowCommand,
 	SelectColumnCommand,
 	SelectRowCommand,
 	SetHeaderColumnCommand,
 	SetHeaderRowCommand,
+	SortTableRowsCommand,
 	SplitCellCommand,
 	ToggleTableCaptionCommand,
 	TableCellBackgroundColorCommand,
@@ -86,6 +91,8 @@ declare module '@ckeditor/ckeditor5-core' {
 		[ TableClipboard.pluginName ]: TableClipboard;
 		[ TableColumnResize.pluginName ]: TableColumnResize;
 		[ TableColumnResizeEditing.pluginName ]: TableColumnResizeEditing;
+		[ TableDragDrop.pluginName ]: TableDragDrop;
+		[ TableDragDropEditing.pluginName ]: TableDragDropEditing;
 		[ TableEditing.pluginName ]: TableEditing;
 		[ TableKeyboard.pluginName ]: TableKeyboard;
 		[ TableMouse.pluginName ]: TableMouse;
@@ -110,12 +117,15 @@ declare module '@ckeditor/ckeditor5-core' {
 		mergeTableCellDown: MergeCellCommand;
 		mergeTableCellUp: MergeCellCommand;
 		mergeTableCells: MergeCellsCommand;
+		moveTableColumns: MoveTableColumnsCommand;
+		moveTableRows: MoveTableRowsCommand;
 		removeTableColumn: RemoveColumnCommand;
 		removeTableRow: RemoveRowCommand;
 		selectTableColumn: SelectColumnCommand;
 		selectTableRow: SelectRowCommand;
 		setTableColumnHeader: SetHeaderColumnCommand;
 		setTableRowHeader: SetHeaderRowCommand;
+		sortTableRows: SortTableRowsCommand;
 		splitTableCellVertically: SplitCellCommand;
 		splitTableCellHorizontally: SplitCellCommand;
 		toggleTableCaption: ToggleTableCaptionCommand;
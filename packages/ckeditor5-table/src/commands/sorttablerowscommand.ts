@@ -0,0 +1,272 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module table/commands/sorttablerowscommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Element, Node } from 'ckeditor5/src/engine';
+import type TableUtils from '../tableutils';
+
+import TableWalker from '../tablewalker';
+
+/**
+ * The sort table rows command.
+ *
+ * The command is registered by {@link module:table/tableediting~TableEditing} as the `'sortTableRows'` editor command.
+ *
+ * To sort the body rows of the table by the column containing the selected cell, execute the command:
+ *
+ * ```ts
+ * editor.execute( 'sortTableRows', { order: 'descending', mode: 'numeric' } );
+ * ```
+ *
+ * The header rows (see the `headingRows` table attribute) keep their place at the top of the table.
+ *
+ * The values are compared according to the {@link module:utils/locale~Locale#contentLanguage language of the content},
+ * for instance, `1.234,5` is read as a number in German content. The cells that cannot be compared in the given mode
+ * (empty cells, or cells that are not numbers or dates) are moved to the end of the table in both orders.
+ *
+ * The rows joined by cells spanning multiple rows are kept together and sorted by the first of them. The cells of the header rows
+ * never span over the body rows (they are clipped by the table layout post-fixer), so the body rows can always be moved.
+ */
+export default class SortTableRowsCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const tableUtils: TableUtils = this.editor.plugins.get( 'TableUtils' );
+		const selectedCells = tableUtils.getSelectionAffectedTableCells( this.editor.model.document.selection );
+
+		if ( !selectedCells.length ) {
+			this.isEnabled = false;
+
+			return;
+		}
+
+		const table = selectedCells[ 0 ].findAncestor( 'table' )!;
+		const headingRows = table.getAttribute( 'headingRows' ) as number || 0;
+
+		this.isEnabled = tableUtils.getRows( table ) - headingRows > 1;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * Sorts the body rows of the table by the values in the column of the first selected cell.
+	 *
+	 * @fires execute
+	 * @param options.order The order of the rows. Defaults to `'ascending'`.
+	 * @param options.mode The way the values are compared: as `'text'` (default), `'numeric'` values or `'date'` values.
+	 */
+	public override execute( options: { order?: SortOrder; mode?: SortMode } = {} ): void {
+		const { order = 'ascending', mode = 'text' } = options;
+		const model = this.editor.model;
+		const tableUtils: TableUtils = this.editor.plugins.get( 'TableUtils' );
+
+		const selectedCells = tableUtils.getSelectionAffectedTableCells( model.document.selection );
+		const table = selectedCells[ 0 ].findAncestor( 'table' )!;
+		const { column } = tableUtils.getCellLocation( selectedCells[ 0 ] );
+		const headingRows = table.getAttribute( 'headingRows' ) as number || 0;
+		const rowsCount = tableUtils.getRows( table );
+
+		const groups = getRowGroups( table, headingRows, column );
+		const sortedGroups = sortRowGroups( groups, order, mode, this.editor.locale.contentLanguage );
+
+		if ( sortedGroups.every( ( group, index ) => group === groups[ index ] ) ) {
+			return;
+		}
+
+		model.change( writer => {
+			// Moving the groups one by one to the end of the table body puts them in the sorted order.
+			for ( const { firstRow, lastRow } of sortedGroups ) {
+				const rowsRange = writer.createRange( writer.createPositionBefore( firstRow ), writer.createPositionAfter( lastRow ) );
+
+				writer.move( rowsRange, table, rowsCount );
+			}
+		} );
+	}
+}
+
+/**
+ * Splits the body rows of the table into the groups of the rows joined by the cells spanning multiple rows. Each group
+ * comes with the cell in the given column of its first row.
+ */
+function getRowGroups( table: Element, headingRows: number, column: number ): Array<RowGroup> {
+	const groups: Array<RowGroup> = [];
+	let groupEndRow = -1;
+
+	for ( const { row, cellHeight } of new TableWalker( table, { startRow: headingRows } ) ) {
+		if ( row > groupEndRow ) {
+			const [ columnSlot ] = new TableWalker( table, { row, column, includeAllSlots: true } );
+
+			groups.push( {
+				firstRow: table.getChild( row ) as Element,
+				lastRow: table.getChild( row ) as Element,
+				cell: columnSlot && columnSlot.cell
+			} );
+		}
+
+		groupEndRow = Math.max( groupEndRow, row + cellHeight - 1 );
+		groups[ groups.length - 1 ].lastRow = table.getChild( groupEndRow ) as Element;
+	}
+
+	return groups;
+}
+
+/**
+ * Returns the text of the table cell with its blocks separated by spaces.
+ */
+function getCellText( cell: Element ): string {
+	return Array.from( cell.getChildren() ).map( getNodeText ).join( ' ' ).trim();
+}
+
+/**
+ * Returns the text of the node including the text of its descendants.
+ */
+function getNodeText( node: Node ): string {
+	if ( node.is( '$text' ) ) {
+		return node.data;
+	}
+
+	if ( node.is( 'element' ) ) {
+		return Array.from( node.getChildren() ).map( getNodeText ).join( '' );
+	}
+
+	return '';
+}
+
+/**
+ * Sorts the groups of rows by the values of their cells read in the given comparison mode.
+ */
+function sortRowGroups( groups: Array<RowGroup>, order: SortOrder, mode: SortMode, language: string ): Array<RowGroup> {
+	if ( mode == 'numeric' ) {
+		const parts = new Intl.NumberFormat( language ).formatToParts( 12345.6 );
+		const groupSeparator = parts.find( part => part.type == 'group' );
+		const decimalSeparator = parts.find( part => part.type == 'decimal' );
+
+		return sortRowGroupsByValues(
+			groups,
+			order,
+			text => parseNumber( text, groupSeparator ? groupSeparator.value : '', decimalSeparator ? decimalSeparator.value : '.' ),
+			( valueA, valueB ) => valueA - valueB
+		);
+	}
+
+	if ( mode == 'date' ) {
+		const dateFieldsOrder = new Intl.DateTimeFormat( language ).formatToParts( 0 )
+			.map( part => part.type )
+			.filter( ( type ): type is DateField => type == 'day' || type == 'month' || type == 'year' );
+
+		return sortRowGroupsByValues(
+			groups,
+			order,
+			text => parseDate( text, dateFieldsOrder ),
+			( valueA, valueB ) => valueA - valueB
+		);
+	}
+
+	const collator = new Intl.Collator( language );
+
+	return sortRowGroupsByValues(
+		groups,
+		order,
+		text => text || null,
+		( valueA, valueB ) => collator.compare( valueA, valueB )
+	);
+}
+
+/**
+ * Sorts the groups of rows by the values of their cells. The value is `null` if the text of the cell cannot be compared,
+ * and such groups are moved to the end in both orders.
+ *
+ * @param parse Reads the value of the cell text.
+ * @param compare Compares two values that are not `null`.
+ */
+function sortRowGroupsByValues<T extends string | number>(
+	groups: Array<RowGroup>,
+	order: SortOrder,
+	parse: ( text: string ) => T | null,
+	compare: ( valueA: T, valueB: T ) => number
+): Array<RowGroup> {
+	const entries = groups.map( group => ( {
+		group,
+		value: group.cell ? parse( getCellText( group.cell ) ) : null
+	} ) );
+
+	// The sort is stable, so the rows with equal values keep their order.
+	entries.sort( ( entryA, entryB ) => {
+		if ( entryA.value === null || entryB.value === null ) {
+			return Number( entryA.value === null ) - Number( entryB.value === null );
+		}
+
+		return order == 'ascending' ? compare( entryA.value, entryB.value ) : compare( entryB.value, entryA.value );
+	} );
+
+	return entries.map( ( { group } ) => group );
+}
+
+/**
+ * Reads the first number in the text formatted with the given separators, for instance, `1,234.5` in English or `1.234,5` in German.
+ * The currency symbols and units around the number are ignored.
+ */
+function parseNumber( text: string, groupSeparator: string, decimalSeparator: string ): number | null {
+	let normalizedText = text.replace( /\s/g, '' ).replace( /\u2212/g, '-' );
+
+	if ( groupSeparator ) {
+		normalizedText = normalizedText.split( groupSeparator ).join( '' );
+	}
+
+	const match = normalizedText.split( decimalSeparator ).join( '.' ).match( /-?(\d+(\.\d*)?|\.\d+)/ );
+
+	return match ? Number( match[ 0 ] ) : null;
+}
+
+/**
+ * Reads the date in the text and returns its timestamp. The numeric dates, like `19.10.2026`, are read in the order of the fields
+ * used by the content language. The dates starting with a 4-digit year are read as year-month-day. Other dates are read by `Date.parse()`.
+ */
+function parseDate( text: string, dateFieldsOrder: Array<DateField> ): number | null {
+	const match = text.match( /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})\.?$/ );
+
+	if ( !match ) {
+		const timestamp = Date.parse( text );
+
+		return isNaN( timestamp ) ? null : timestamp;
+	}
+
+	const order: Array<DateField> = match[ 1 ].length == 4 ? [ 'year', 'month', 'day' ] : dateFieldsOrder;
+	const fields = { day: 0, month: 0, year: 0 };
+
+	order.forEach( ( field, index ) => {
+		fields[ field ] = Number( match[ index + 1 ] );
+	} );
+
+	if ( fields.year < 100 ) {
+		fields.year += 2000;
+	}
+
+	const date = new Date( fields.year, fields.month - 1, fields.day );
+
+	// Reject the dates like 31.02.2026 that would roll over to the next month.
+	if ( date.getMonth() != fields.month - 1 || date.getDate() != fields.day ) {
+		return null;
+	}
+
+	return date.getTime();
+}
+
+type SortOrder = 'ascending' | 'descending';
+
+type SortMode = 'text' | 'numeric' | 'date';
+
+type DateField = 'day' | 'month' | 'year';
+
+type RowGroup = {
+	firstRow: Element;
+	lastRow: Element;
+	cell: Element | undefined;
+};
@@ -29,6 +29,8 @@ export { default as TableSelection } from './tableselection';
 export { default as TableUtils } from './tableutils';
 export { default as TableColumnResize } from './tablecolumnresize';
 export { default as TableColumnResizeEditing } from './tablecolumnresize/tablecolumnresizeediting';
+export { default as TableDragDrop } from './tabledragdrop';
+export { default as TableDragDropEditing } from './tabledragdrop/tabledragdropediting';
 
 export type { TableConfig } from './tableconfig';
 export type { default as InsertColumnCommand } from './commands/insertcolumncommand';
@@ -36,12 +38,15 @@ export type { default as InsertRowCommand } from './commands/insertrowcommand';
 export type { default as InsertTableCommand } from './commands/inserttablecommand';
 export type { default as MergeCellCommand } from './commands/mergecellcommand';
 export type { default as MergeCellsCommand } from './commands/mergecellscommand';
+export type { default as MoveTableColumnsCommand } from './tabledragdrop/movetablecolumnscommand';
+export type { default as MoveTableRowsCommand } from './tabledragdrop/movetablerowscommand';
 export type { default as RemoveColumnCommand } from './commands/removecolumncommand';
 export type { default as RemoveRowCommand } from './commands/removerowcommand';
 export type { default as SelectColumnCommand } from './commands/selectcolumncommand';
 export type { default as SelectRowCommand } from './commands/selectrowcommand';
 export type { default as SetHeaderColumnCommand } from './commands/setheadercolumncommand';
 export type { default as SetHeaderRowCommand } from './commands/setheaderrowcommand';
+export type { default as SortTableRowsCommand } from './commands/sorttablerowscommand';
 export type { default as SplitCellCommand } from './commands/splitcellcommand';
 export type { default as ToggleTableCaptionCommand } from './tablecaption/toggletablecaptioncommand';
 export type { default as TableCellBackgroundColorCommand } from './tablecellproperties/commands/tablecellbackgroundcolorcommand';
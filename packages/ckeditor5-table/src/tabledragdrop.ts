@@ -0,0 +1,34 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module table/tabledragdrop
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import TableDragDropEditing from './tabledragdrop/tabledragdropediting';
+
+import '../theme/tabledragdrop.css';
+
+/**
+ * The table rows and columns drag and drop feature.
+ *
+ * It provides the possibility to reorder the rows and columns of a table by dragging their handles.
+ */
+export default class TableDragDrop extends Plugin {
+	/**
+	 * @inheritDoc
+ 	 */
+	public static get requires() {
+		return [ TableDragDropEditing ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+ 	 */
+	public static get pluginName() {
+		return 'TableDragDrop' as const;
+	}
+}
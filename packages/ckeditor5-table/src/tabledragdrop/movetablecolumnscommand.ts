@@ -0,0 +1,143 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module table/tabledragdrop/movetablecolumnscommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Element } from 'ckeditor5/src/engine';
+import type TableUtils from '../tableutils';
+
+import TableWalker, { type TableSlot } from '../tablewalker';
+import { updateNumericAttribute } from '../utils/common';
+import { getColumnGroupElement } from '../tablecolumnresize/utils';
+import { canMoveBefore, getHeadingsCountAfterMove, getMovedIndexes, type MovedIndexes } from './utils';
+
+/**
+ * The move table columns command.
+ *
+ * The command is registered by {@link module:table/tabledragdrop/tabledragdropediting~TableDragDropEditing} as
+ * the `'moveTableColumns'` editor command.
+ *
+ * To move the columns containing the selected cells before the column at the given index, execute the command:
+ *
+ * ```ts
+ * editor.execute( 'moveTableColumns', { at: 0 } );
+ * ```
+ *
+ * The index equal to the number of columns moves the columns to the end of the table.
+ *
+ * The columns joined with other columns by the cells spanning multiple columns are moved together with them. The columns
+ * cannot be moved to a place inside such a group of columns.
+ *
+ * The heading columns moved between the body columns stop being the heading columns (and vice versa), updating
+ * the `headingColumns` table attribute. The command is disabled if the selected columns include both heading and body columns.
+ *
+ * The widths of the columns set with the {@link module:table/tablecolumnresize~TableColumnResize} feature are moved
+ * together with the columns.
+ */
+export default class MoveTableColumnsCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = !!this._getMovedColumns();
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * Moves the columns containing the selected cells before the column at the given index. Nothing happens if the columns
+	 * cannot be moved to that place.
+	 *
+	 * @fires execute
+	 * @param options.at The index of the column before which the columns are moved.
+	 */
+	public override execute( options: { at: number } ): void {
+		const { at } = options;
+		const tableUtils: TableUtils = this.editor.plugins.get( 'TableUtils' );
+		const { table, ...movedColumns } = this._getMovedColumns()!;
+		const { first, last } = movedColumns;
+
+		if ( at < 0 || at > tableUtils.getColumns( table ) || ( at >= first && at <= last + 1 ) || !canMoveBefore( table, at, 'column' ) ) {
+			return;
+		}
+
+		const headingColumns = table.getAttribute( 'headingColumns' ) as number || 0;
+		const rowsSlots = getRowsSlots( table );
+
+		this.editor.model.change( writer => {
+			rowsSlots.forEach( ( slots, rowIndex ) => {
+				const movedCells = slots.filter( ( { column } ) => column >= first && column <= last ).map( ( { cell } ) => cell );
+
+				// All the moved columns may be occupied by the cells spanning from the rows above.
+				if ( !movedCells.length ) {
+					return;
+				}
+
+				const row = table.getChild( rowIndex ) as Element;
+				const targetSlot = slots.find( ( { column } ) => column >= at && ( column < first || column > last ) );
+				const targetOffset = targetSlot ? targetSlot.cell.index! : row.childCount;
+
+				const cellsRange = writer.createRange(
+					writer.createPositionBefore( movedCells[ 0 ] ),
+					writer.createPositionAfter( movedCells[ movedCells.length - 1 ] )
+				);
+
+				writer.move( cellsRange, row, targetOffset );
+			} );
+
+			const columnGroup = getColumnGroupElement( table );
+
+			if ( columnGroup ) {
+				const columnsRange = writer.createRange(
+					writer.createPositionAt( columnGroup, first ),
+					writer.createPositionAt( columnGroup, last + 1 )
+				);
+
+				writer.move( columnsRange, columnGroup, at );
+			}
+
+			updateNumericAttribute( 'headingColumns', getHeadingsCountAfterMove( headingColumns, movedColumns, at ), table, writer, 0 );
+		} );
+	}
+
+	/**
+	 * Returns the table and the indexes of the columns moved by the command, or `null` if the columns cannot be moved.
+	 */
+	private _getMovedColumns(): ( MovedIndexes & { table: Element } ) | null {
+		const tableUtils: TableUtils = this.editor.plugins.get( 'TableUtils' );
+		const selectedCells = tableUtils.getSelectionAffectedTableCells( this.editor.model.document.selection );
+
+		if ( !selectedCells.length ) {
+			return null;
+		}
+
+		const table = selectedCells[ 0 ].findAncestor( 'table' )!;
+		const { first, last } = getMovedIndexes( table, tableUtils.getColumnIndexes( selectedCells ), 'column' );
+		const headingColumns = table.getAttribute( 'headingColumns' ) as number || 0;
+
+		if ( first < headingColumns && last >= headingColumns ) {
+			return null;
+		}
+
+		return { table, first, last };
+	}
+}
+
+/**
+ * Returns the slots of the cells anchored in each row of the table, in the order of the columns.
+ */
+function getRowsSlots( table: Element ): Array<Array<TableSlot>> {
+	const rowsSlots: Array<Array<TableSlot>> = [];
+
+	for ( const slot of new TableWalker( table ) ) {
+		rowsSlots[ slot.row ] = rowsSlots[ slot.row ] || [];
+		rowsSlots[ slot.row ].push( slot );
+	}
+
+	return rowsSlots;
+}
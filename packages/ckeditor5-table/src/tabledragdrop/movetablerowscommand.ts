@@ -0,0 +1,99 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module table/tabledragdrop/movetablerowscommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+import type { Element } from 'ckeditor5/src/engine';
+import type TableUtils from '../tableutils';
+
+import { updateNumericAttribute } from '../utils/common';
+import { canMoveBefore, getHeadingsCountAfterMove, getMovedIndexes, type MovedIndexes } from './utils';
+
+/**
+ * The move table rows command.
+ *
+ * The command is registered by {@link module:table/tabledragdrop/tabledragdropediting~TableDragDropEditing} as
+ * the `'moveTableRows'` editor command.
+ *
+ * To move the rows containing the selected cells before the row at the given index, execute the command:
+ *
+ * ```ts
+ * editor.execute( 'moveTableRows', { at: 0 } );
+ * ```
+ *
+ * The index equal to the number of rows moves the rows to the end of the table.
+ *
+ * The rows joined with other rows by the cells spanning multiple rows are moved together with them. The rows cannot be moved
+ * to a place inside such a group of rows.
+ *
+ * The heading rows moved between the body rows stop being the heading rows (and vice versa), updating the `headingRows`
+ * table attribute. The command is disabled if the selected rows include both heading and body rows.
+ */
+export default class MoveTableRowsCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = !!this._getMovedRows();
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * Moves the rows containing the selected cells before the row at the given index. Nothing happens if the rows cannot be
+	 * moved to that place.
+	 *
+	 * @fires execute
+	 * @param options.at The index of the row before which the rows are moved.
+	 */
+	public override execute( options: { at: number } ): void {
+		const { at } = options;
+		const tableUtils: TableUtils = this.editor.plugins.get( 'TableUtils' );
+		const { table, ...movedRows } = this._getMovedRows()!;
+		const { first, last } = movedRows;
+
+		if ( at < 0 || at > tableUtils.getRows( table ) || ( at >= first && at <= last + 1 ) || !canMoveBefore( table, at, 'row' ) ) {
+			return;
+		}
+
+		const headingRows = table.getAttribute( 'headingRows' ) as number || 0;
+
+		this.editor.model.change( writer => {
+			const rowsRange = writer.createRange(
+				writer.createPositionAt( table, first ),
+				writer.createPositionAt( table, last + 1 )
+			);
+
+			writer.move( rowsRange, table, at );
+
+			updateNumericAttribute( 'headingRows', getHeadingsCountAfterMove( headingRows, movedRows, at ), table, writer, 0 );
+		} );
+	}
+
+	/**
+	 * Returns the table and the indexes of the rows moved by the command, or `null` if the rows cannot be moved.
+	 */
+	private _getMovedRows(): ( MovedIndexes & { table: Element } ) | null {
+		const tableUtils: TableUtils = this.editor.plugins.get( 'TableUtils' );
+		const selectedCells = tableUtils.getSelectionAffectedTableCells( this.editor.model.document.selection );
+
+		if ( !selectedCells.length ) {
+			return null;
+		}
+
+		const table = selectedCells[ 0 ].findAncestor( 'table' )!;
+		const { first, last } = getMovedIndexes( table, tableUtils.getRowIndexes( selectedCells ), 'row' );
+		const headingRows = table.getAttribute( 'headingRows' ) as number || 0;
+
+		if ( first < headingRows && last >= headingRows ) {
+			return null;
+		}
+
+		return { table, first, last };
+	}
+}
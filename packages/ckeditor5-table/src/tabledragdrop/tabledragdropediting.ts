@@ -0,0 +1,391 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module table/tabledragdrop/tabledragdropediting
+ */
+
+import { throttle } from 'lodash-es';
+
+import {
+	global,
+	DomEmitterMixin,
+	type EventInfo,
+	type DomEmitter,
+	type ObservableChangeEvent
+} from 'ckeditor5/src/utils';
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+
+import type {
+	DomEventData,
+	DowncastInsertEvent,
+	Element,
+	ViewElement
+} from 'ckeditor5/src/engine';
+
+import TableEditing from '../tableediting';
+import TableUtils from '../tableutils';
+import TableWalker from '../tablewalker';
+
+import MoveTableRowsCommand from './movetablerowscommand';
+import MoveTableColumnsCommand from './movetablecolumnscommand';
+
+import { canMoveBefore, getMovedIndexes, type MovedIndexes } from './utils';
+
+type DraggingData = {
+	direction: 'row' | 'column';
+	modelTable: Element;
+	movedIndexes: MovedIndexes;
+	viewHandle: ViewElement;
+	dropIndex: number | null;
+	viewDropTargets: Array<ViewElement>;
+};
+
+/**
+ * The names of the classes marking the cells at the place where the dragged rows or columns are dropped.
+ */
+const DROP_TARGET_CLASSES = [
+	'ck-table-drop-target_row-before',
+	'ck-table-drop-target_row-after',
+	'ck-table-drop-target_column-before',
+	'ck-table-drop-target_column-after'
+];
+
+/**
+ * The table rows and columns drag and drop editing plugin.
+ *
+ * It registers the `'moveTableRows'` and `'moveTableColumns'` commands and inserts the row and column drag handles
+ * into the table cells in the editing view. Pressing a handle selects the rows or columns of the cell and dropping them
+ * moves them to the place marked by the drop indicator.
+ */
+export default class TableDragDropEditing extends Plugin {
+	/**
+	 * A flag indicating if dragging the rows and columns is allowed. It is not allowed if the editor is in read-only mode
+	 * or the plugin is disabled.
+	 *
+	 * @observable
+	 * @internal
+	 */
+	public declare _isDraggingAllowed: boolean;
+
+	/**
+	 * A temporary storage for the data of the dragged rows or columns. It is initialized when dragging begins, and is purged
+	 * upon completion.
+	 */
+	private _draggingData: DraggingData | null;
+
+	/**
+	 * DOM emitter.
+	 */
+	private _domEmitter: DomEmitter;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ TableEditing, TableUtils ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'TableDragDropEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		this.set( '_isDraggingAllowed', true );
+		this._draggingData = null;
+		this._domEmitter = new ( DomEmitterMixin() )();
+
+		this.on<ObservableChangeEvent<boolean>>( 'change:_isDraggingAllowed', ( evt, name, value ) => {
+			// Toggling the `ck-table-drag-drop_disabled` class shows and hides the drag handles through CSS.
+			const classAction = value ? 'removeClass' : 'addClass';
+
+			editor.editing.view.change( writer => {
+				for ( const root of editor.editing.view.document.roots ) {
+					writer[ classAction ]( 'ck-table-drag-drop_disabled', editor.editing.view.document.getRoot( root.rootName )! );
+				}
+			} );
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+
+		editor.commands.add( 'moveTableRows', new MoveTableRowsCommand( editor ) );
+		editor.commands.add( 'moveTableColumns', new MoveTableColumnsCommand( editor ) );
+
+		this._registerHandleInserter();
+		this._registerDraggingListeners();
+
+		this.bind( '_isDraggingAllowed' ).to(
+			editor, 'isReadOnly',
+			this, 'isEnabled',
+			( isEditorReadOnly, isPluginEnabled ) => !isEditorReadOnly && isPluginEnabled
+		);
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		this._domEmitter.stopListening();
+		super.destroy();
+	}
+
+	/**
+	 * Registers a listener ensuring that each table cell has the row and column drag handles.
+	 */
+	private _registerHandleInserter() {
+		this.editor.conversion.for( 'editingDowncast' ).add( dispatcher => {
+			dispatcher.on<DowncastInsertEvent<Element>>( 'insert:tableCell', ( evt, data, conversionApi ) => {
+				const viewElement = conversionApi.mapper.toViewElement( data.item );
+				const viewWriter = conversionApi.writer;
+
+				for ( const direction of [ 'row', 'column' ] ) {
+					viewWriter.insert(
+						viewWriter.createPositionAt( viewElement!, 'end' ),
+						viewWriter.createUIElement( 'div', { class: `ck-table-drag-handle ck-table-drag-handle_${ direction }` } )
+					);
+				}
+			}, { priority: 'lowest' } );
+		} );
+	}
+
+	/**
+	 * Registers listeners to handle the dragging process.
+	 */
+	private _registerDraggingListeners() {
+		const editingView = this.editor.editing.view;
+
+		editingView.document.on( 'mousedown', this._onMouseDownHandler.bind( this ), { priority: 'high' } );
+
+		this._domEmitter.listenTo( global.window.document, 'mousemove', throttle( this._onMouseMoveHandler.bind( this ), 50 ) );
+		this._domEmitter.listenTo( global.window.document, 'mouseup', this._onMouseUpHandler.bind( this ) );
+	}
+
+	/**
+	 * Handles the `mousedown` event on the drag handle element:
+	 *  * selects the rows or columns of the cell with the handle,
+	 *  * puts the data of the dragged rows or columns in the temporary storage if they can be moved.
+	 *
+	 * @param eventInfo An object containing information about the fired event.
+	 * @param domEventData The data related to the DOM event.
+	 */
+	private _onMouseDownHandler( eventInfo: EventInfo, domEventData: DomEventData ) {
+		const viewHandle = domEventData.target;
+
+		if ( !viewHandle.hasClass( 'ck-table-drag-handle' ) || !this._isDraggingAllowed ) {
+			return;
+		}
+
+		const editor = this.editor;
+		const tableUtils: TableUtils = editor.plugins.get( 'TableUtils' );
+		const viewCell = viewHandle.findAncestor( 'td' ) || viewHandle.findAncestor( 'th' );
+		const modelCell = editor.editing.mapper.toModelElement( viewCell! )!;
+		const modelTable = modelCell.findAncestor( 'table' )!;
+
+		// Do not drag if the table is in a non-editable place.
+		if ( !editor.model.canEditAt( modelTable ) ) {
+			return;
+		}
+
+		domEventData.preventDefault();
+		eventInfo.stop();
+
+		const direction = viewHandle.hasClass( 'ck-table-drag-handle_row' ) ? 'row' : 'column';
+
+		// The dragged rows or columns are selected, so the handle can also be used to select them and the move commands
+		// move them on drop.
+		editor.editing.view.focus();
+		editor.model.change( writer => {
+			writer.setSelection( modelCell, 0 );
+		} );
+		editor.execute( direction == 'row' ? 'selectTableRow' : 'selectTableColumn' );
+
+		if ( !editor.commands.get( direction == 'row' ? 'moveTableRows' : 'moveTableColumns' )!.isEnabled ) {
+			return;
+		}
+
+		const { row, column } = tableUtils.getCellLocation( modelCell );
+		const start = direction == 'row' ? row : column;
+		const size = parseInt( modelCell.getAttribute( direction == 'row' ? 'rowspan' : 'colspan' ) as string || '1' );
+
+		this._draggingData = {
+			direction,
+			modelTable,
+			movedIndexes: getMovedIndexes( modelTable, { first: start, last: start + size - 1 }, direction ),
+			viewHandle,
+			dropIndex: null,
+			viewDropTargets: []
+		};
+
+		editor.editing.view.change( writer => {
+			writer.addClass( 'ck-table-drag-handle__active', viewHandle );
+		} );
+	}
+
+	/**
+	 * Handles the `mousemove` event.
+	 *  * If dragging is not in progress, it does nothing.
+	 *  * If dragging is active but not allowed, it stops the dragging process instantly.
+	 *  * Otherwise it marks the place where the rows or columns would be dropped.
+	 *
+	 * @param eventInfo An object containing information about the fired event.
+	 * @param mouseEventData The native DOM event.
+	 */
+	private _onMouseMoveHandler( eventInfo: EventInfo, mouseEventData: MouseEvent ) {
+		if ( !this._draggingData ) {
+			return;
+		}
+
+		if ( !this._isDraggingAllowed ) {
+			this._stopDragging();
+
+			return;
+		}
+
+		const dropIndex = this._getDropIndex( mouseEventData );
+
+		if ( dropIndex !== this._draggingData.dropIndex ) {
+			this._showDropIndicator( dropIndex );
+		}
+	}
+
+	/**
+	 * Handles the `mouseup` event.
+	 *  * If dragging is not in progress, it does nothing.
+	 *  * Otherwise it moves the rows or columns to the marked place by executing the adequate command.
+	 */
+	private _onMouseUpHandler() {
+		if ( !this._draggingData ) {
+			return;
+		}
+
+		const { direction, dropIndex } = this._draggingData;
+
+		this._stopDragging();
+
+		if ( dropIndex !== null && this._isDraggingAllowed ) {
+			this.editor.execute( direction == 'row' ? 'moveTableRows' : 'moveTableColumns', { at: dropIndex } );
+		}
+	}
+
+	/**
+	 * Returns the index of the row or column before which the dragged rows or columns would be dropped, depending on the cell
+	 * of the dragged table under the pointer. Returns `null` if they cannot be dropped there.
+	 */
+	private _getDropIndex( mouseEventData: MouseEvent ): number | null {
+		const editor = this.editor;
+		const { direction, modelTable, movedIndexes } = this._draggingData!;
+		const domTarget = mouseEventData.target as HTMLElement;
+
+		// The pointer may be over a table nested in a cell of the dragged table.
+		let domCell = domTarget.closest ? domTarget.closest( 'td, th' ) as HTMLElement | null : null;
+
+		while ( domCell ) {
+			const viewCell = editor.editing.view.domConverter.mapDomToView( domCell ) as ViewElement | undefined;
+			const modelCell = viewCell && editor.editing.mapper.toModelElement( viewCell );
+
+			if ( modelCell && modelCell.parent!.parent === modelTable ) {
+				const dropIndex = this._getCellDropIndex( modelCell, domCell, mouseEventData );
+				const isInMovedRange = dropIndex >= movedIndexes.first && dropIndex <= movedIndexes.last + 1;
+
+				return !isInMovedRange && canMoveBefore( modelTable, dropIndex, direction ) ? dropIndex : null;
+			}
+
+			domCell = domCell.parentElement && domCell.parentElement.closest( 'td, th' );
+		}
+
+		return null;
+	}
+
+	/**
+	 * Returns the index of the row or column before the cell if the pointer is over its first half, or after the cell otherwise.
+	 */
+	private _getCellDropIndex( modelCell: Element, domCell: HTMLElement, mouseEventData: MouseEvent ): number {
+		const tableUtils: TableUtils = this.editor.plugins.get( 'TableUtils' );
+		const { direction } = this._draggingData!;
+		const { row, column } = tableUtils.getCellLocation( modelCell );
+		const cellRect = domCell.getBoundingClientRect();
+
+		if ( direction == 'row' ) {
+			const isBefore = mouseEventData.clientY < cellRect.top + cellRect.height / 2;
+
+			return isBefore ? row : row + parseInt( modelCell.getAttribute( 'rowspan' ) as string || '1' );
+		}
+
+		const isLtrContent = this.editor.locale.contentLanguageDirection !== 'rtl';
+		const isBefore = ( mouseEventData.clientX < cellRect.left + cellRect.width / 2 ) === isLtrContent;
+
+		return isBefore ? column : column + parseInt( modelCell.getAttribute( 'colspan' ) as string || '1' );
+	}
+
+	/**
+	 * Marks the cells at the place where the dragged rows or columns would be dropped. Removes the mark if the index is `null`.
+	 */
+	private _showDropIndicator( dropIndex: number | null ) {
+		const editor = this.editor;
+		const tableUtils: TableUtils = editor.plugins.get( 'TableUtils' );
+		const draggingData = this._draggingData!;
+		const { direction, modelTable } = draggingData;
+
+		editor.editing.view.change( writer => {
+			for ( const viewCell of draggingData.viewDropTargets ) {
+				writer.removeClass( DROP_TARGET_CLASSES, viewCell );
+			}
+
+			draggingData.dropIndex = dropIndex;
+			draggingData.viewDropTargets = [];
+
+			if ( dropIndex === null ) {
+				return;
+			}
+
+			// The rows or columns dropped at the end of the table are marked after the last row or column.
+			const count = direction == 'row' ? tableUtils.getRows( modelTable ) : tableUtils.getColumns( modelTable );
+			const isAfter = dropIndex == count;
+			const index = isAfter ? dropIndex - 1 : dropIndex;
+			const walkerOptions = direction == 'row' ? { row: index } : { column: index };
+			const modelCells = new Set<Element>();
+
+			for ( const { cell } of new TableWalker( modelTable, { ...walkerOptions, includeAllSlots: true } ) ) {
+				modelCells.add( cell );
+			}
+
+			for ( const modelCell of modelCells ) {
+				const viewCell = editor.editing.mapper.toViewElement( modelCell );
+
+				if ( viewCell ) {
+					writer.addClass( `ck-table-drop-target_${ direction }-${ isAfter ? 'after' : 'before' }`, viewCell );
+					draggingData.viewDropTargets.push( viewCell );
+				}
+			}
+		} );
+	}
+
+	/**
+	 * Removes the drop indicator and purges the data of the dragged rows or columns.
+	 */
+	private _stopDragging() {
+		this._showDropIndicator( null );
+
+		this.editor.editing.view.change( writer => {
+			writer.removeClass( 'ck-table-drag-handle__active', this._draggingData!.viewHandle );
+		} );
+
+		this._draggingData = null;
+	}
+}
@@ -0,0 +1,116 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module table/tabledragdrop/utils
+ */
+
+import type { Element } from 'ckeditor5/src/engine';
+
+import TableWalker, { type TableSlot } from '../tablewalker';
+
+/**
+ * The indexes of the first and the last row or column of a moved table fragment.
+ */
+export type MovedIndexes = {
+	first: number;
+	last: number;
+};
+
+/**
+ * Extends the given range of rows or columns so that no table cell spans over its edges. Such a range can be moved
+ * without splitting the merged cells.
+ *
+ * In the table below, the range of the row 1 is extended to the rows 0–2, because the cells "a" and "f" span over its edges:
+ *
+ *     ┌───┬───┬───┐
+ *  0  │ a │ b │ c │
+ *     │   ├───┼───┤
+ *  1  │   │ d │ e │
+ *     ├───┤   ├───┤
+ *  2  │ f │   │ g │
+ *     ├───┼───┼───┤
+ *  3  │ h │ i │ j │
+ *     └───┴───┴───┘
+ *
+ * @param table The table model element.
+ * @param indexes The indexes of the first and the last row or column of the range.
+ * @param direction Whether the range of rows or columns is extended.
+ */
+export function getMovedIndexes( table: Element, indexes: MovedIndexes, direction: 'row' | 'column' ): MovedIndexes {
+	let { first, last } = indexes;
+	let isExtended = true;
+
+	// Extending the range for one cell may make it cross another cell, so the table is checked until nothing changes.
+	while ( isExtended ) {
+		isExtended = false;
+
+		for ( const slot of new TableWalker( table ) ) {
+			const { start, end } = getSlotIndexes( slot, direction );
+
+			if ( start <= last && end >= first && ( start < first || end > last ) ) {
+				first = Math.min( first, start );
+				last = Math.max( last, end );
+				isExtended = true;
+			}
+		}
+	}
+
+	return { first, last };
+}
+
+/**
+ * Checks whether the rows or columns can be moved before the row or column with the given index, that is,
+ * whether no table cell spans over that place. The index equal to the number of rows or columns means the end of the table.
+ *
+ * @param table The table model element.
+ * @param index The index of the row or column.
+ * @param direction Whether the rows or columns are moved.
+ */
+export function canMoveBefore( table: Element, index: number, direction: 'row' | 'column' ): boolean {
+	for ( const slot of new TableWalker( table ) ) {
+		const { start, end } = getSlotIndexes( slot, direction );
+
+		if ( start < index && index <= end ) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+/**
+ * Returns the number of the heading rows or columns after moving the range of rows or columns before the given index.
+ *
+ * The moved rows or columns join the header if they are moved between the heading rows or columns and leave it if they
+ * are moved between the body rows or columns. When moved to the edge of the header, they stay in their part of the table.
+ *
+ * @param headingsCount The current number of the heading rows or columns.
+ * @param indexes The indexes of the moved rows or columns. They must not cross the edge of the header.
+ * @param index The index of the row or column before which the range is moved.
+ */
+export function getHeadingsCountAfterMove( headingsCount: number, { first, last }: MovedIndexes, index: number ): number {
+	const count = last - first + 1;
+
+	if ( last < headingsCount && index > headingsCount ) {
+		return headingsCount - count;
+	}
+
+	if ( first >= headingsCount && index < headingsCount ) {
+		return headingsCount + count;
+	}
+
+	return headingsCount;
+}
+
+/**
+ * Returns the indexes of the first and the last row or column occupied by the table slot's cell.
+ */
+function getSlotIndexes( slot: TableSlot, direction: 'row' | 'column' ): { start: number; end: number } {
+	const start = direction == 'row' ? slot.row : slot.column;
+	const size = direction == 'row' ? slot.cellHeight : slot.cellWidth;
+
+	return { start, end: start + size - 1 };
+}
@@ -25,6 +25,7 @@ import SetHeaderColumnCommand from './commands/setheadercolumncommand';
 import MergeCellsCommand from './commands/mergecellscommand';
 import SelectRowCommand from './commands/selectrowcommand';
 import SelectColumnCommand from './commands/selectcolumncommand';
+import SortTableRowsCommand from './commands/sorttablerowscommand';
 import TableUtils from '../src/tableutils';
 
 import injectTableLayoutPostFixer from './converters/table-layout-post-fixer';
@@ -200,6 +201,8 @@ export default class TableEditing extends Plugin {
 		editor.commands.add( 'selectTableRow', new SelectRowCommand( editor ) );
 		editor.commands.add( 'selectTableColumn', new SelectColumnCommand( editor ) );
 
+		editor.commands.add( 'sortTableRows', new SortTableRowsCommand( editor ) );
+
 		injectTableLayoutPostFixer( model );
 		injectTableCellParagraphPostFixer( model );
 
@@ -0,0 +1,511 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { getData, setData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import TableEditing from '../../src/tableediting';
+import TableSelection from '../../src/tableselection';
+import TableCaptionEditing from '../../src/tablecaption/tablecaptionediting';
+import { modelTable } from '../_utils/utils';
+
+import SortTableRowsCommand from '../../src/commands/sorttablerowscommand';
+
+describe( 'SortTableRowsCommand', () => {
+	let editor, model, modelRoot, command;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( { plugins: [ Paragraph, TableEditing, TableSelection, TableCaptionEditing ] } );
+		model = editor.model;
+		modelRoot = model.document.getRoot();
+		command = new SortTableRowsCommand( editor );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true if the selection is inside a table with at least two body rows', () => {
+			setData( model, modelTable( [
+				[ 'a', 'b' ],
+				[ '[]c', 'd' ],
+				[ 'e', 'f' ]
+			], { headingRows: 1 } ) );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be true if the selection contains multiple cells', () => {
+			setData( model, modelTable( [
+				[ 'a', 'b' ],
+				[ 'c', 'd' ]
+			] ) );
+
+			editor.plugins.get( TableSelection ).setCellSelection(
+				modelRoot.getNodeByPath( [ 0, 0, 0 ] ),
+				modelRoot.getNodeByPath( [ 0, 1, 1 ] )
+			);
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false if the selection is outside a table', () => {
+			setData( model, '<paragraph>foo[]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false if the table has less than two body rows', () => {
+			setData( model, modelTable( [
+				[ 'a', 'b' ],
+				[ '[]c', 'd' ]
+			], { headingRows: 1 } ) );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false in the read-only mode', () => {
+			setData( model, modelTable( [
+				[ '[]a' ],
+				[ 'b' ]
+			] ) );
+
+			editor.enableReadOnlyMode( 'unit-test' );
+			command.refresh();
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		describe( 'text mode', () => {
+			it( 'should sort the rows in the ascending order by default', () => {
+				setData( model, modelTable( [
+					[ '[]banana', '1' ],
+					[ 'cherry', '2' ],
+					[ 'apple', '3' ]
+				] ) );
+
+				command.execute();
+
+				expect( getTableText() ).to.deep.equal( [
+					[ 'apple', '3' ],
+					[ 'banana', '1' ],
+					[ 'cherry', '2' ]
+				] );
+			} );
+
+			it( 'should sort the rows in the descending order', () => {
+				setData( model, modelTable( [
+					[ '[]banana', '1' ],
+					[ 'cherry', '2' ],
+					[ 'apple', '3' ]
+				] ) );
+
+				command.execute( { order: 'descending' } );
+
+				expect( getTableText() ).to.deep.equal( [
+					[ 'cherry', '2' ],
+					[ 'banana', '1' ],
+					[ 'apple', '3' ]
+				] );
+			} );
+
+			it( 'should sort the rows by the column of the selected cell', () => {
+				setData( model, modelTable( [
+					[ 'a', 'z' ],
+					[ 'b', '[]x' ],
+					[ 'c', 'y' ]
+				] ) );
+
+				command.execute();
+
+				expect( getTableText() ).to.deep.equal( [
+					[ 'b', 'x' ],
+					[ 'c', 'y' ],
+					[ 'a', 'z' ]
+				] );
+			} );
+
+			it( 'should sort the rows by the column of the selected cells', () => {
+				setData( model, modelTable( [
+					[ 'a', 'z' ],
+					[ 'b', 'x' ],
+					[ 'c', 'y' ]
+				] ) );
+
+				editor.plugins.get( TableSelection ).setCellSelection(
+					modelRoot.getNodeByPath( [ 0, 0, 1 ] ),
+					modelRoot.getNodeByPath( [ 0, 2, 1 ] )
+				);
+
+				command.execute( { order: 'descending' } );
+
+				expect( getTableText() ).to.deep.equal( [
+					[ 'a', 'z' ],
+					[ 'c', 'y' ],
+					[ 'b', 'x' ]
+				] );
+			} );
+
+			it( 'should keep the header rows in place', () => {
+				setData( model, modelTable( [
+					[ 'Fruit', 'Price' ],
+					[ '[]cherry', '2' ],
+					[ 'apple', '3' ]
+				], { headingRows: 1 } ) );
+
+				command.execute();
+
+				expect( getTableText() ).to.deep.equal( [
+					[ 'Fruit', 'Price' ],
+					[ 'apple', '3' ],
+					[ 'cherry', '2' ]
+				] );
+			} );
+
+			it( 'should compare the text according to the content language', async () => {
+				const swedishEditor = await VirtualTestEditor.create( {
+					plugins: [ Paragraph, TableEditing ],
+					language: { content: 'sv' }
+				} );
+
+				setData( swedishEditor.model, modelTable( [
+					[ '[]ö' ],
+					[ 'z' ],
+					[ 'a' ]
+				] ) );
+
+				swedishEditor.execute( 'sortTableRows' );
+
+				expect( getTableText( swedishEditor.model ) ).to.deep.equal( [ [ 'a' ], [ 'z' ], [ 'ö' ] ] );
+
+				await swedishEditor.destroy();
+			} );
+
+			it( 'should read the text of all paragraphs of the cell', () => {
+				setData( model,
+					'<table>' +
+						'<tableRow><tableCell><paragraph>[]b</paragraph></tableCell></tableRow>' +
+						'<tableRow><tableCell><paragraph>a</paragraph><paragraph>b</paragraph></tableCell></tableRow>' +
+						'<tableRow><tableCell><paragraph></paragraph><paragraph>a</paragraph></tableCell></tableRow>' +
+					'</table>'
+				);
+
+				command.execute();
+
+				expect( getTableText() ).to.deep.equal( [ [ 'a' ], [ 'ab' ], [ 'b' ] ] );
+			} );
+
+			it( 'should keep the order of the rows with equal values', () => {
+				setData( model, modelTable( [
+					[ '[]b', '1' ],
+					[ 'a', '2' ],
+					[ 'b', '3' ],
+					[ 'a', '4' ]
+				] ) );
+
+				command.execute( { order: 'descending' } );
+
+				expect( getTableText() ).to.deep.equal( [
+					[ 'b', '1' ],
+					[ 'b', '3' ],
+					[ 'a', '2' ],
+					[ 'a', '4' ]
+				] );
+			} );
+
+			it( 'should move the empty cells to the end of the table in both orders', () => {
+				setData( model, modelTable( [
+					[ '[]', '1' ],
+					[ 'b', '2' ],
+					[ 'a', '3' ]
+				] ) );
+
+				command.execute();
+
+				expect( getTableText() ).to.deep.equal( [
+					[ 'a', '3' ],
+					[ 'b', '2' ],
+					[ '', '1' ]
+				] );
+
+				command.execute( { order: 'descending' } );
+
+				expect( getTableText() ).to.deep.equal( [
+					[ 'b', '2' ],
+					[ 'a', '3' ],
+					[ '', '1' ]
+				] );
+			} );
+
+			it( 'should keep the table caption after the rows', () => {
+				setData( model,
+					'<table>' +
+						'<tableRow><tableCell><paragraph>[]b</paragraph></tableCell></tableRow>' +
+						'<tableRow><tableCell><paragraph>a</paragraph></tableCell></tableRow>' +
+						'<caption>Fruits</caption>' +
+					'</table>'
+				);
+
+				command.execute();
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal(
+					'<table>' +
+						'<tableRow><tableCell><paragraph>a</paragraph></tableCell></tableRow>' +
+						'<tableRow><tableCell><paragraph>b</paragraph></tableCell></tableRow>' +
+						'<caption>Fruits</caption>' +
+					'</table>'
+				);
+			} );
+
+			it( 'should not change the model if the rows are sorted', () => {
+				setData( model, modelTable( [
+					[ '[]a' ],
+					[ 'b' ]
+				] ) );
+
+				const version = model.document.version;
+
+				command.execute();
+
+				expect( model.document.version ).to.equal( version );
+			} );
+
+			it( 'should sort the rows in a single undo step', () => {
+				setData( model, modelTable( [
+					[ '[]c' ],
+					[ 'b' ],
+					[ 'a' ]
+				] ) );
+
+				const batches = new Set();
+
+				model.on( 'applyOperation', ( evt, [ operation ] ) => {
+					batches.add( operation.batch );
+				} );
+
+				command.execute();
+
+				expect( batches.size ).to.equal( 1 );
+			} );
+		} );
+
+		describe( 'numeric mode', () => {
+			it( 'should compare the numbers', () => {
+				setData( model, modelTable( [
+					[ '[]10' ],
+					[ '9' ],
+					[ '-2.5' ],
+					[ '100' ]
+				] ) );
+
+				command.execute( { mode: 'numeric' } );
+
+				expect( getTableText() ).to.deep.equal( [ [ '-2.5' ], [ '9' ], [ '10' ], [ '100' ] ] );
+			} );
+
+			it( 'should read the formatted numbers with currencies and units', () => {
+				setData( model, modelTable( [
+					[ '[]$1,200.50' ],
+					[ '950 kg' ],
+					[ '1,000,000' ],
+					[ '−3' ]
+				] ) );
+
+				command.execute( { mode: 'numeric', order: 'descending' } );
+
+				expect( getTableText() ).to.deep.equal( [ [ '1,000,000' ], [ '$1,200.50' ], [ '950 kg' ], [ '−3' ] ] );
+			} );
+
+			it( 'should read the numbers formatted according to the content language', async () => {
+				const germanEditor = await VirtualTestEditor.create( {
+					plugins: [ Paragraph, TableEditing ],
+					language: { content: 'de' }
+				} );
+
+				setData( germanEditor.model, modelTable( [
+					[ '[]1.200,5' ],
+					[ '3,75' ],
+					[ '20' ]
+				] ) );
+
+				germanEditor.execute( 'sortTableRows', { mode: 'numeric' } );
+
+				expect( getTableText( germanEditor.model ) ).to.deep.equal( [ [ '3,75' ], [ '20' ], [ '1.200,5' ] ] );
+
+				await germanEditor.destroy();
+			} );
+
+			it( 'should move the cells without numbers to the end of the table in both orders', () => {
+				setData( model, modelTable( [
+					[ '[]n/a' ],
+					[ '2' ],
+					[ '' ],
+					[ '1' ]
+				] ) );
+
+				command.execute( { mode: 'numeric' } );
+
+				expect( getTableText() ).to.deep.equal( [ [ '1' ], [ '2' ], [ 'n/a' ], [ '' ] ] );
+
+				command.execute( { mode: 'numeric', order: 'descending' } );
+
+				expect( getTableText() ).to.deep.equal( [ [ '2' ], [ '1' ], [ 'n/a' ], [ '' ] ] );
+			} );
+		} );
+
+		describe( 'date mode', () => {
+			it( 'should compare the dates in the order of the fields used by the content language', () => {
+				setData( model, modelTable( [
+					[ '[]12/01/2023' ],
+					[ '01/12/2023' ],
+					[ '3/5/22' ]
+				] ) );
+
+				command.execute( { mode: 'date' } );
+
+				expect( getTableText() ).to.deep.equal( [ [ '3/5/22' ], [ '01/12/2023' ], [ '12/01/2023' ] ] );
+			} );
+
+			it( 'should read the dates according to the content language', async () => {
+				const germanEditor = await VirtualTestEditor.create( {
+					plugins: [ Paragraph, TableEditing ],
+					language: { content: 'de' }
+				} );
+
+				setData( germanEditor.model, modelTable( [
+					[ '[]12.01.2023' ],
+					[ '01.12.2023' ],
+					[ '3.5.22' ]
+				] ) );
+
+				germanEditor.execute( 'sortTableRows', { mode: 'date' } );
+
+				expect( getTableText( germanEditor.model ) ).to.deep.equal( [ [ '3.5.22' ], [ '12.01.2023' ], [ '01.12.2023' ] ] );
+
+				await germanEditor.destroy();
+			} );
+
+			it( 'should read the dates starting with the year and the dates with month names', () => {
+				setData( model, modelTable( [
+					[ '[]2023-12-01' ],
+					[ 'March 5, 2023' ],
+					[ '2023-01-12' ]
+				] ) );
+
+				command.execute( { mode: 'date', order: 'descending' } );
+
+				expect( getTableText() ).to.deep.equal( [ [ '2023-12-01' ], [ 'March 5, 2023' ], [ '2023-01-12' ] ] );
+			} );
+
+			it( 'should move the cells without valid dates to the end of the table in both orders', () => {
+				setData( model, modelTable( [
+					[ '[]soon' ],
+					[ '02/31/2023' ],
+					[ '01/02/2023' ],
+					[ '01/01/2023' ]
+				] ) );
+
+				command.execute( { mode: 'date' } );
+
+				expect( getTableText() ).to.deep.equal( [ [ '01/01/2023' ], [ '01/02/2023' ], [ 'soon' ], [ '02/31/2023' ] ] );
+
+				command.execute( { mode: 'date', order: 'descending' } );
+
+				expect( getTableText() ).to.deep.equal( [ [ '01/02/2023' ], [ '01/01/2023' ], [ 'soon' ], [ '02/31/2023' ] ] );
+			} );
+		} );
+
+		describe( 'cells spanning multiple rows and columns', () => {
+			it( 'should keep the rows joined by a spanned cell together and sort them by the first row', () => {
+				setData( model, modelTable( [
+					[ '[]c', '1' ],
+					[ { contents: 'b', rowspan: 2 }, '2' ],
+					[ '3' ],
+					[ 'a', '4' ]
+				] ) );
+
+				command.execute();
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ 'a', '4' ],
+					[ { contents: 'b', rowspan: 2 }, '2' ],
+					[ '3' ],
+					[ 'c', '1' ]
+				] ) );
+			} );
+
+			it( 'should sort the rows joined by a spanned cell in other column by the first row', () => {
+				setData( model, modelTable( [
+					[ 'x', '[]3' ],
+					[ 'y', '1' ],
+					[ { contents: 'z', rowspan: 2 }, '2' ],
+					[ '0' ]
+				] ) );
+
+				command.execute( { mode: 'numeric' } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ 'y', '1' ],
+					[ { contents: 'z', rowspan: 2 }, '2' ],
+					[ '0' ],
+					[ 'x', '3' ]
+				] ) );
+			} );
+
+			it( 'should sort the body rows of the table with a header cell spanning over the body rows', () => {
+				// The table layout post-fixer clips the header cell, so it does not join the header and body rows.
+				setData( model, modelTable( [
+					[ { contents: 'a', rowspan: 2 }, 'b' ],
+					[ '[]c' ],
+					[ 'd', 'e' ],
+					[ 'f', 'g' ]
+				], { headingRows: 1 } ) );
+
+				expect( command.isEnabled ).to.be.true;
+
+				command.execute( { order: 'descending' } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ 'a', 'b' ],
+					[ 'f', 'g' ],
+					[ 'd', 'e' ],
+					[ 'c', '' ]
+				], { headingRows: 1 } ) );
+			} );
+
+			it( 'should sort by the cell spanning over the selected column', () => {
+				setData( model, modelTable( [
+					[ 'x', '[]b', 'y' ],
+					[ { contents: 'a', colspan: 2 }, 'z' ],
+					[ 'w', 'c', 'v' ]
+				] ) );
+
+				command.execute();
+
+				expect( getTableText() ).to.deep.equal( [
+					[ 'a', 'z' ],
+					[ 'x', 'b', 'y' ],
+					[ 'w', 'c', 'v' ]
+				] );
+			} );
+		} );
+	} );
+
+	function getTableText( editorModel = model ) {
+		const table = editorModel.document.getRoot().getChild( 0 );
+
+		return Array.from( table.getChildren() )
+			.filter( row => row.is( 'element', 'tableRow' ) )
+			.map( row => Array.from( row.getChildren() ).map( cell => {
+				return Array.from( cell.getChildren() )
+					.map( paragraph => paragraph.isEmpty ? '' : paragraph.getChild( 0 ).data )
+					.join( '' );
+			} ) );
+	}
+} );
@@ -0,0 +1,17 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import TableDragDrop from '../src/tabledragdrop';
+import TableDragDropEditing from '../src/tabledragdrop/tabledragdropediting';
+
+describe( 'TableDragDrop', () => {
+	it( 'should have a name', () => {
+		expect( TableDragDrop.pluginName ).to.equal( 'TableDragDrop' );
+	} );
+
+	it( 'should require TableDragDropEditing', () => {
+		expect( TableDragDrop.requires ).to.deep.equal( [ TableDragDropEditing ] );
+	} );
+} );
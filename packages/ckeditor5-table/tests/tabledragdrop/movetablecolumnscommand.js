@@ -0,0 +1,314 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import { getData, setData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import TableEditing from '../../src/tableediting';
+import TableSelection from '../../src/tableselection';
+import Table from '../../src/table';
+import TableColumnResize from '../../src/tablecolumnresize';
+import { getTableColumnsWidths } from '../../src/tablecolumnresize/utils';
+import { modelTable } from '../_utils/utils';
+
+import MoveTableColumnsCommand from '../../src/tabledragdrop/movetablecolumnscommand';
+
+describe( 'MoveTableColumnsCommand', () => {
+	let editor, model, modelRoot, command, tableSelection;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( { plugins: [ Paragraph, TableEditing, TableSelection, UndoEditing ] } );
+		model = editor.model;
+		modelRoot = model.document.getRoot();
+		command = new MoveTableColumnsCommand( editor );
+		tableSelection = editor.plugins.get( TableSelection );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true if the selection is inside a table cell', () => {
+			setData( model, modelTable( [
+				[ '00[]', '01' ],
+				[ '10', '11' ]
+			] ) );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false if the selection is outside a table', () => {
+			setData( model, '<paragraph>11[]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false if the selection contains both the heading and the body columns', () => {
+			setData( model, modelTable( [
+				[ '00', '01', '02' ],
+				[ '10', '11', '12' ]
+			], { headingColumns: 1 } ) );
+
+			tableSelection.setCellSelection( modelRoot.getNodeByPath( [ 0, 0, 0 ] ), modelRoot.getNodeByPath( [ 0, 0, 1 ] ) );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false if a cell spanning multiple columns joins the heading and the body columns', () => {
+			setData( model, modelTable( [
+				[ '00[]', '01', '02' ],
+				[ { contents: '10', colspan: 2 }, '12' ]
+			], { headingColumns: 1 } ) );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should move the column with the selection to the left', () => {
+			setData( model, modelTable( [
+				[ '00', '01', '02[]' ],
+				[ '10', '11', '12' ]
+			] ) );
+
+			command.execute( { at: 0 } );
+
+			expect( getData( model ) ).to.equal( modelTable( [
+				[ '02[]', '00', '01' ],
+				[ '12', '10', '11' ]
+			] ) );
+		} );
+
+		it( 'should move the column with the selection to the right', () => {
+			setData( model, modelTable( [
+				[ '00[]', '01', '02' ],
+				[ '10', '11', '12' ]
+			] ) );
+
+			command.execute( { at: 2 } );
+
+			expect( getData( model ) ).to.equal( modelTable( [
+				[ '01', '00[]', '02' ],
+				[ '11', '10', '12' ]
+			] ) );
+		} );
+
+		it( 'should move the column with the selection to the end of the table', () => {
+			setData( model, modelTable( [
+				[ '00[]', '01', '02' ],
+				[ '10', '11', '12' ]
+			] ) );
+
+			command.execute( { at: 3 } );
+
+			expect( getData( model ) ).to.equal( modelTable( [
+				[ '01', '02', '00[]' ],
+				[ '11', '12', '10' ]
+			] ) );
+		} );
+
+		it( 'should move all the columns of the selected cells', () => {
+			setData( model, modelTable( [
+				[ '00', '01', '02', '03' ],
+				[ '10', '11', '12', '13' ]
+			] ) );
+
+			tableSelection.setCellSelection( modelRoot.getNodeByPath( [ 0, 0, 2 ] ), modelRoot.getNodeByPath( [ 0, 1, 3 ] ) );
+
+			command.execute( { at: 0 } );
+
+			expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+				[ '02', '03', '00', '01' ],
+				[ '12', '13', '10', '11' ]
+			] ) );
+		} );
+
+		it( 'should move the columns joined by the cells spanning multiple columns together', () => {
+			setData( model, modelTable( [
+				[ '00', { contents: '01', colspan: 2 } ],
+				[ '10', '11', '12[]' ],
+				[ '20', '21', '22' ]
+			] ) );
+
+			command.execute( { at: 0 } );
+
+			expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+				[ { contents: '01', colspan: 2 }, '00' ],
+				[ '11', '12', '10' ],
+				[ '21', '22', '20' ]
+			] ) );
+		} );
+
+		it( 'should move the cells spanning multiple rows together with the column', () => {
+			setData( model, modelTable( [
+				[ '00[]', { contents: '01', rowspan: 2 }, '02' ],
+				[ '10', '12' ],
+				[ '20', '21', '22' ]
+			] ) );
+
+			command.execute( { at: 3 } );
+
+			expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+				[ { contents: '01', rowspan: 2 }, '02', '00' ],
+				[ '12', '10' ],
+				[ '21', '22', '20' ]
+			] ) );
+		} );
+
+		it( 'should move the column next to the cells spanning multiple rows', () => {
+			setData( model, modelTable( [
+				[ '00', { contents: '01', rowspan: 2 }, '02' ],
+				[ '10', '12[]' ],
+				[ '20', '21', '22' ]
+			] ) );
+
+			command.execute( { at: 1 } );
+
+			expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+				[ '00', '02', { contents: '01', rowspan: 2 } ],
+				[ '10', '12' ],
+				[ '20', '22', '21' ]
+			] ) );
+		} );
+
+		it( 'should not move the columns into a group of columns joined by a cell spanning multiple columns', () => {
+			setData( model, modelTable( [
+				[ { contents: '00', colspan: 2 }, '02[]' ],
+				[ '10', '11', '12' ]
+			] ) );
+
+			const version = model.document.version;
+
+			command.execute( { at: 1 } );
+
+			expect( model.document.version ).to.equal( version );
+		} );
+
+		it( 'should do nothing if the columns are moved to their place or outside the table', () => {
+			setData( model, modelTable( [
+				[ '00', '01[]', '02' ],
+				[ '10', '11', '12' ]
+			] ) );
+
+			const version = model.document.version;
+
+			command.execute( { at: 1 } );
+			command.execute( { at: 2 } );
+			command.execute( { at: -1 } );
+			command.execute( { at: 4 } );
+
+			expect( model.document.version ).to.equal( version );
+		} );
+
+		it( 'should be undoable in a single step', () => {
+			setData( model, modelTable( [
+				[ '00', '01', '02[]' ],
+				[ '10', '11', '12' ]
+			], { headingColumns: 1 } ) );
+
+			command.execute( { at: 0 } );
+			editor.execute( 'undo' );
+
+			expect( getData( model ) ).to.equal( modelTable( [
+				[ '00', '01', '02[]' ],
+				[ '10', '11', '12' ]
+			], { headingColumns: 1 } ) );
+		} );
+
+		describe( 'heading columns', () => {
+			it( 'should make the body columns moved between the heading columns the heading columns', () => {
+				setData( model, modelTable( [
+					[ '00', '01', '02[]' ],
+					[ '10', '11', '12' ]
+				], { headingColumns: 2 } ) );
+
+				command.execute( { at: 0 } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '02', '00', '01' ],
+					[ '12', '10', '11' ]
+				], { headingColumns: 3 } ) );
+			} );
+
+			it( 'should make the heading columns moved between the body columns the body columns', () => {
+				setData( model, modelTable( [
+					[ '00[]', '01', '02' ],
+					[ '10', '11', '12' ]
+				], { headingColumns: 1 } ) );
+
+				command.execute( { at: 3 } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '01', '02', '00' ],
+					[ '11', '12', '10' ]
+				] ) );
+			} );
+
+			it( 'should keep the columns moved to the edge of the header in their part of the table', () => {
+				setData( model, modelTable( [
+					[ '00', '01', '02[]' ],
+					[ '10', '11', '12' ]
+				], { headingColumns: 1 } ) );
+
+				command.execute( { at: 1 } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '00', '02', '01' ],
+					[ '10', '12', '11' ]
+				], { headingColumns: 1 } ) );
+			} );
+		} );
+
+		describe( 'column widths', () => {
+			let editorElement;
+
+			beforeEach( async () => {
+				await editor.destroy();
+
+				editorElement = document.createElement( 'div' );
+				document.body.appendChild( editorElement );
+
+				editor = await ClassicTestEditor.create( editorElement, {
+					plugins: [ Paragraph, Table, TableColumnResize ]
+				} );
+				model = editor.model;
+				modelRoot = model.document.getRoot();
+				command = new MoveTableColumnsCommand( editor );
+			} );
+
+			afterEach( () => {
+				editorElement.remove();
+			} );
+
+			it( 'should move the widths together with the columns', () => {
+				setData( model, modelTable( [
+					[ '00', '01', '02[]' ],
+					[ '10', '11', '12' ]
+				], { columnWidths: '20%,30%,50%' } ) );
+
+				command.execute( { at: 0 } );
+
+				expect( getTableColumnsWidths( modelRoot.getChild( 0 ) ) ).to.deep.equal( [ '50%', '20%', '30%' ] );
+			} );
+
+			it( 'should move the widths of the columns joined by the cells spanning multiple columns', () => {
+				setData( model, modelTable( [
+					[ { contents: '00', colspan: 2 }, '02' ],
+					[ '10[]', '11', '12' ]
+				], { columnWidths: '20%,30%,50%' } ) );
+
+				command.execute( { at: 3 } );
+
+				expect( getTableColumnsWidths( modelRoot.getChild( 0 ) ) ).to.deep.equal( [ '50%', '20%', '30%' ] );
+			} );
+		} );
+	} );
+} );
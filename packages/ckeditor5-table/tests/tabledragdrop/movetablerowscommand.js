@@ -0,0 +1,327 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import { getData, setData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import TableEditing from '../../src/tableediting';
+import TableSelection from '../../src/tableselection';
+import TableCaptionEditing from '../../src/tablecaption/tablecaptionediting';
+import { modelTable } from '../_utils/utils';
+
+import MoveTableRowsCommand from '../../src/tabledragdrop/movetablerowscommand';
+
+describe( 'MoveTableRowsCommand', () => {
+	let editor, model, modelRoot, command, tableSelection;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, TableEditing, TableSelection, TableCaptionEditing, UndoEditing ]
+		} );
+		model = editor.model;
+		modelRoot = model.document.getRoot();
+		command = new MoveTableRowsCommand( editor );
+		tableSelection = editor.plugins.get( TableSelection );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true if the selection is inside a table cell', () => {
+			setData( model, modelTable( [
+				[ '00[]', '01' ],
+				[ '10', '11' ]
+			] ) );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be true if the selection contains multiple cells of the heading rows', () => {
+			setData( model, modelTable( [
+				[ '00', '01' ],
+				[ '10', '11' ],
+				[ '20', '21' ]
+			], { headingRows: 2 } ) );
+
+			tableSelection.setCellSelection( modelRoot.getNodeByPath( [ 0, 0, 0 ] ), modelRoot.getNodeByPath( [ 0, 1, 1 ] ) );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false if the selection is outside a table', () => {
+			setData( model, '<paragraph>11[]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be false if the selection contains both the heading and the body rows', () => {
+			setData( model, modelTable( [
+				[ '00', '01' ],
+				[ '10', '11' ],
+				[ '20', '21' ]
+			], { headingRows: 1 } ) );
+
+			tableSelection.setCellSelection( modelRoot.getNodeByPath( [ 0, 0, 0 ] ), modelRoot.getNodeByPath( [ 0, 1, 0 ] ) );
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should move the row with the selection up', () => {
+			setData( model, modelTable( [
+				[ '00', '01' ],
+				[ '10', '11' ],
+				[ '20[]', '21' ]
+			] ) );
+
+			command.execute( { at: 0 } );
+
+			expect( getData( model ) ).to.equal( modelTable( [
+				[ '20[]', '21' ],
+				[ '00', '01' ],
+				[ '10', '11' ]
+			] ) );
+		} );
+
+		it( 'should move the row with the selection down', () => {
+			setData( model, modelTable( [
+				[ '00[]', '01' ],
+				[ '10', '11' ],
+				[ '20', '21' ]
+			] ) );
+
+			command.execute( { at: 2 } );
+
+			expect( getData( model ) ).to.equal( modelTable( [
+				[ '10', '11' ],
+				[ '00[]', '01' ],
+				[ '20', '21' ]
+			] ) );
+		} );
+
+		it( 'should move the row with the selection to the end of the table', () => {
+			setData( model, modelTable( [
+				[ '00[]', '01' ],
+				[ '10', '11' ],
+				[ '20', '21' ]
+			] ) );
+
+			command.execute( { at: 3 } );
+
+			expect( getData( model ) ).to.equal( modelTable( [
+				[ '10', '11' ],
+				[ '20', '21' ],
+				[ '00[]', '01' ]
+			] ) );
+		} );
+
+		it( 'should move all the rows of the selected cells', () => {
+			setData( model, modelTable( [
+				[ '00', '01' ],
+				[ '10', '11' ],
+				[ '20', '21' ],
+				[ '30', '31' ]
+			] ) );
+
+			tableSelection.setCellSelection( modelRoot.getNodeByPath( [ 0, 1, 0 ] ), modelRoot.getNodeByPath( [ 0, 2, 0 ] ) );
+
+			command.execute( { at: 4 } );
+
+			expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+				[ '00', '01' ],
+				[ '30', '31' ],
+				[ '10', '11' ],
+				[ '20', '21' ]
+			] ) );
+		} );
+
+		it( 'should move the rows joined by the cells spanning multiple rows together', () => {
+			setData( model, modelTable( [
+				[ '00', '01' ],
+				[ { contents: '10', rowspan: 2 }, '11[]' ],
+				[ '21' ],
+				[ '30', '31' ]
+			] ) );
+
+			command.execute( { at: 0 } );
+
+			expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+				[ { contents: '10', rowspan: 2 }, '11' ],
+				[ '21' ],
+				[ '00', '01' ],
+				[ '30', '31' ]
+			] ) );
+		} );
+
+		it( 'should move the rows joined with the row of the selection by a cell from the row above', () => {
+			setData( model, modelTable( [
+				[ '00', '01' ],
+				[ { contents: '10', rowspan: 2 }, '11' ],
+				[ '21[]' ],
+				[ '30', '31' ]
+			] ) );
+
+			command.execute( { at: 4 } );
+
+			expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+				[ '00', '01' ],
+				[ '30', '31' ],
+				[ { contents: '10', rowspan: 2 }, '11' ],
+				[ '21' ]
+			] ) );
+		} );
+
+		it( 'should not move the rows into a group of rows joined by a cell spanning multiple rows', () => {
+			setData( model, modelTable( [
+				[ { contents: '00', rowspan: 2 }, '01' ],
+				[ '11' ],
+				[ '20[]', '21' ]
+			] ) );
+
+			const version = model.document.version;
+
+			command.execute( { at: 1 } );
+
+			expect( model.document.version ).to.equal( version );
+		} );
+
+		it( 'should do nothing if the rows are moved to their place', () => {
+			setData( model, modelTable( [
+				[ '00', '01' ],
+				[ '10[]', '11' ],
+				[ '20', '21' ]
+			] ) );
+
+			const version = model.document.version;
+
+			command.execute( { at: 1 } );
+			command.execute( { at: 2 } );
+
+			expect( model.document.version ).to.equal( version );
+		} );
+
+		it( 'should do nothing if the index is outside the table', () => {
+			setData( model, modelTable( [
+				[ '00[]', '01' ],
+				[ '10', '11' ]
+			] ) );
+
+			const version = model.document.version;
+
+			command.execute( { at: -1 } );
+			command.execute( { at: 3 } );
+
+			expect( model.document.version ).to.equal( version );
+		} );
+
+		it( 'should keep the table caption after the rows', () => {
+			setData( model,
+				'<table>' +
+					'<tableRow><tableCell><paragraph>[]00</paragraph></tableCell></tableRow>' +
+					'<tableRow><tableCell><paragraph>10</paragraph></tableCell></tableRow>' +
+					'<caption>Fruits</caption>' +
+				'</table>'
+			);
+
+			command.execute( { at: 2 } );
+
+			expect( getData( model ) ).to.equal(
+				'<table>' +
+					'<tableRow><tableCell><paragraph>10</paragraph></tableCell></tableRow>' +
+					'<tableRow><tableCell><paragraph>[]00</paragraph></tableCell></tableRow>' +
+					'<caption>Fruits</caption>' +
+				'</table>'
+			);
+		} );
+
+		it( 'should be undoable in a single step', () => {
+			setData( model, modelTable( [
+				[ '00', '01' ],
+				[ '10', '11' ],
+				[ '20[]', '21' ]
+			], { headingRows: 1 } ) );
+
+			command.execute( { at: 0 } );
+			editor.execute( 'undo' );
+
+			expect( getData( model ) ).to.equal( modelTable( [
+				[ '00', '01' ],
+				[ '10', '11' ],
+				[ '20[]', '21' ]
+			], { headingRows: 1 } ) );
+		} );
+
+		describe( 'heading rows', () => {
+			it( 'should make the body rows moved between the heading rows the heading rows', () => {
+				setData( model, modelTable( [
+					[ '00', '01' ],
+					[ '10', '11' ],
+					[ '20[]', '21' ]
+				], { headingRows: 2 } ) );
+
+				command.execute( { at: 1 } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '00', '01' ],
+					[ '20', '21' ],
+					[ '10', '11' ]
+				], { headingRows: 3 } ) );
+			} );
+
+			it( 'should make the heading rows moved between the body rows the body rows', () => {
+				setData( model, modelTable( [
+					[ '00[]', '01' ],
+					[ '10', '11' ],
+					[ '20', '21' ]
+				], { headingRows: 1 } ) );
+
+				command.execute( { at: 3 } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '10', '11' ],
+					[ '20', '21' ],
+					[ '00', '01' ]
+				] ) );
+			} );
+
+			it( 'should keep the heading rows moved to the end of the header in the header', () => {
+				setData( model, modelTable( [
+					[ '00[]', '01' ],
+					[ '10', '11' ],
+					[ '20', '21' ]
+				], { headingRows: 2 } ) );
+
+				command.execute( { at: 2 } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '10', '11' ],
+					[ '00', '01' ],
+					[ '20', '21' ]
+				], { headingRows: 2 } ) );
+			} );
+
+			it( 'should keep the body rows moved to the beginning of the body in the body', () => {
+				setData( model, modelTable( [
+					[ '00', '01' ],
+					[ '10', '11' ],
+					[ '20[]', '21' ]
+				], { headingRows: 1 } ) );
+
+				command.execute( { at: 1 } );
+
+				expect( getData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '00', '01' ],
+					[ '20', '21' ],
+					[ '10', '11' ]
+				], { headingRows: 1 } ) );
+			} );
+		} );
+	} );
+} );
@@ -0,0 +1,418 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import TableEditing from '../../src/tableediting';
+import TableSelection from '../../src/tableselection';
+import TableUtils from '../../src/tableutils';
+import TableDragDropEditing from '../../src/tabledragdrop/tabledragdropediting';
+import MoveTableRowsCommand from '../../src/tabledragdrop/movetablerowscommand';
+import MoveTableColumnsCommand from '../../src/tabledragdrop/movetablecolumnscommand';
+import { modelTable } from '../_utils/utils';
+
+describe( 'TableDragDropEditing', () => {
+	let editor, model, modelRoot, editorElement, plugin;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await createEditor();
+	} );
+
+	afterEach( async () => {
+		editorElement.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should have a name', () => {
+		expect( TableDragDropEditing.pluginName ).to.equal( 'TableDragDropEditing' );
+	} );
+
+	it( 'should require TableEditing and TableUtils', () => {
+		expect( TableDragDropEditing.requires ).to.deep.equal( [ TableEditing, TableUtils ] );
+	} );
+
+	it( 'should register the moveTableRows command', () => {
+		expect( editor.commands.get( 'moveTableRows' ) ).to.be.instanceOf( MoveTableRowsCommand );
+	} );
+
+	it( 'should register the moveTableColumns command', () => {
+		expect( editor.commands.get( 'moveTableColumns' ) ).to.be.instanceOf( MoveTableColumnsCommand );
+	} );
+
+	describe( 'drag handles', () => {
+		it( 'should be inserted into each table cell in the editing view', () => {
+			setModelData( model, modelTable( [
+				[ '00', '01' ],
+				[ { contents: '10', colspan: 2 } ]
+			] ) );
+
+			for ( const path of [ [ 0, 0, 0 ], [ 0, 0, 1 ], [ 0, 1, 0 ] ] ) {
+				const viewCell = editor.editing.mapper.toViewElement( modelRoot.getNodeByPath( path ) );
+
+				expect( getViewHandle( viewCell, 'row' ) ).to.not.be.undefined;
+				expect( getViewHandle( viewCell, 'column' ) ).to.not.be.undefined;
+			}
+		} );
+
+		it( 'should be inserted into the table cells added to the table', () => {
+			setModelData( model, modelTable( [
+				[ '00[]', '01' ]
+			] ) );
+
+			editor.execute( 'insertTableRowBelow' );
+
+			const viewCell = editor.editing.mapper.toViewElement( modelRoot.getNodeByPath( [ 0, 1, 1 ] ) );
+
+			expect( getViewHandle( viewCell, 'row' ) ).to.not.be.undefined;
+			expect( getViewHandle( viewCell, 'column' ) ).to.not.be.undefined;
+		} );
+
+		it( 'should not be present in the data', () => {
+			setModelData( model, modelTable( [
+				[ '00', '01' ]
+			] ) );
+
+			expect( editor.getData() ).to.not.contain( 'ck-table-drag-handle' );
+		} );
+
+		it( 'should be disabled by the class of the editable when the editor is read-only', () => {
+			const viewRoot = editor.editing.view.document.getRoot();
+
+			expect( viewRoot.hasClass( 'ck-table-drag-drop_disabled' ) ).to.be.false;
+
+			editor.enableReadOnlyMode( 'test' );
+
+			expect( viewRoot.hasClass( 'ck-table-drag-drop_disabled' ) ).to.be.true;
+
+			editor.disableReadOnlyMode( 'test' );
+
+			expect( viewRoot.hasClass( 'ck-table-drag-drop_disabled' ) ).to.be.false;
+		} );
+
+		it( 'should be disabled by the class of the editable when the plugin is disabled', () => {
+			plugin.forceDisabled( 'test' );
+
+			expect( editor.editing.view.document.getRoot().hasClass( 'ck-table-drag-drop_disabled' ) ).to.be.true;
+		} );
+	} );
+
+	describe( 'dragging', () => {
+		beforeEach( () => {
+			setModelData( model, modelTable( [
+				[ '00', '01', '02' ],
+				[ '10', '11', '12' ],
+				[ '20', '21', '22' ]
+			] ) );
+		} );
+
+		describe( 'on mousedown', () => {
+			it( 'should select the row of the handle and start dragging', () => {
+				const eventInfo = mouseDown( 1, 1, 'row' );
+
+				expect( getSelectedCellsText() ).to.deep.equal( [ '10', '11', '12' ] );
+				expect( getViewHandle( getViewCell( 1, 1 ), 'row' ).hasClass( 'ck-table-drag-handle__active' ) ).to.be.true;
+				sinon.assert.calledOnce( eventInfo.stop );
+			} );
+
+			it( 'should select the column of the handle and start dragging', () => {
+				mouseDown( 1, 2, 'column' );
+
+				expect( getSelectedCellsText() ).to.deep.equal( [ '02', '12', '22' ] );
+				expect( getViewHandle( getViewCell( 1, 2 ), 'column' ).hasClass( 'ck-table-drag-handle__active' ) ).to.be.true;
+			} );
+
+			it( 'should do nothing if the target is not a drag handle', () => {
+				const viewCell = getViewCell( 1, 1 );
+				const eventInfo = { stop: sinon.spy() };
+				const domEventData = { target: viewCell, domEvent: {}, preventDefault: sinon.spy() };
+
+				plugin._onMouseDownHandler( eventInfo, domEventData );
+
+				sinon.assert.notCalled( eventInfo.stop );
+				sinon.assert.notCalled( domEventData.preventDefault );
+			} );
+
+			it( 'should do nothing if the editor is read-only', () => {
+				editor.enableReadOnlyMode( 'test' );
+
+				const eventInfo = mouseDown( 1, 1, 'row' );
+
+				sinon.assert.notCalled( eventInfo.stop );
+				expect( getViewHandle( getViewCell( 1, 1 ), 'row' ).hasClass( 'ck-table-drag-handle__active' ) ).to.be.false;
+			} );
+
+			it( 'should only select the columns if they cannot be moved', () => {
+				setModelData( model, modelTable( [
+					[ { contents: '00', colspan: 2 }, '02' ],
+					[ '10', '11', '12' ]
+				], { headingColumns: 1 } ) );
+
+				mouseDown( 1, 0, 'column' );
+
+				expect( getSelectedCellsText() ).to.deep.equal( [ '00', '10' ] );
+				expect( getViewHandle( getViewCell( 1, 0 ), 'column' ).hasClass( 'ck-table-drag-handle__active' ) ).to.be.false;
+			} );
+		} );
+
+		describe( 'on mousemove', () => {
+			it( 'should mark the cells of the row before which the dragged row would be dropped', () => {
+				mouseDown( 2, 0, 'row' );
+				mouseMove( 0, 1, 'before' );
+
+				expect( getDropTargets() ).to.deep.equal( [ [ '00', 'row-before' ], [ '01', 'row-before' ], [ '02', 'row-before' ] ] );
+			} );
+
+			it( 'should mark the cells of the last row if the dragged row would be dropped at the end of the table', () => {
+				mouseDown( 0, 0, 'row' );
+				mouseMove( 2, 1, 'after' );
+
+				expect( getDropTargets() ).to.deep.equal( [ [ '20', 'row-after' ], [ '21', 'row-after' ], [ '22', 'row-after' ] ] );
+			} );
+
+			it( 'should mark the cells of the column before which the dragged column would be dropped', () => {
+				mouseDown( 0, 0, 'column' );
+				mouseMove( 1, 1, 'after' );
+
+				expect( getDropTargets() ).to.deep.equal( [
+					[ '02', 'column-before' ],
+					[ '12', 'column-before' ],
+					[ '22', 'column-before' ]
+				] );
+			} );
+
+			it( 'should move the mark when the pointer moves to another place', () => {
+				mouseDown( 0, 0, 'column' );
+				mouseMove( 1, 1, 'after' );
+				mouseMove( 1, 2, 'after' );
+
+				expect( getDropTargets() ).to.deep.equal( [
+					[ '02', 'column-after' ],
+					[ '12', 'column-after' ],
+					[ '22', 'column-after' ]
+				] );
+			} );
+
+			it( 'should not mark the cells next to the dragged row', () => {
+				mouseDown( 1, 0, 'row' );
+				mouseMove( 0, 0, 'after' );
+
+				expect( getDropTargets() ).to.deep.equal( [] );
+
+				mouseMove( 2, 0, 'before' );
+
+				expect( getDropTargets() ).to.deep.equal( [] );
+			} );
+
+			it( 'should not mark the place inside the cells spanning multiple rows', () => {
+				setModelData( model, modelTable( [
+					[ '00', '01' ],
+					[ { contents: '10', rowspan: 2 }, '11' ],
+					[ '21' ]
+				] ) );
+
+				mouseDown( 0, 0, 'row' );
+				mouseMove( 2, 0, 'before' );
+
+				expect( getDropTargets() ).to.deep.equal( [] );
+			} );
+
+			it( 'should remove the mark if the pointer leaves the table', () => {
+				mouseDown( 2, 0, 'row' );
+				mouseMove( 0, 1, 'before' );
+
+				plugin._onMouseMoveHandler( {}, { target: document.body, clientX: 0, clientY: 0 } );
+
+				expect( getDropTargets() ).to.deep.equal( [] );
+			} );
+
+			it( 'should do nothing if dragging is not in progress', () => {
+				mouseMove( 0, 1, 'before' );
+
+				expect( getDropTargets() ).to.deep.equal( [] );
+			} );
+
+			it( 'should stop dragging if the editor becomes read-only', () => {
+				mouseDown( 2, 0, 'row' );
+				mouseMove( 0, 1, 'before' );
+
+				editor.enableReadOnlyMode( 'test' );
+				mouseMove( 0, 1, 'after' );
+
+				expect( getDropTargets() ).to.deep.equal( [] );
+				expect( getViewHandle( getViewCell( 2, 0 ), 'row' ).hasClass( 'ck-table-drag-handle__active' ) ).to.be.false;
+
+				plugin._onMouseUpHandler();
+
+				expect( getModelData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '00', '01', '02' ],
+					[ '10', '11', '12' ],
+					[ '20', '21', '22' ]
+				] ) );
+			} );
+		} );
+
+		describe( 'on mouseup', () => {
+			it( 'should move the dragged row to the marked place', () => {
+				mouseDown( 2, 0, 'row' );
+				mouseMove( 0, 1, 'after' );
+				plugin._onMouseUpHandler();
+
+				expect( getModelData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '00', '01', '02' ],
+					[ '20', '21', '22' ],
+					[ '10', '11', '12' ]
+				] ) );
+			} );
+
+			it( 'should move the dragged column to the marked place', () => {
+				mouseDown( 0, 0, 'column' );
+				mouseMove( 2, 2, 'after' );
+				plugin._onMouseUpHandler();
+
+				expect( getModelData( model, { withoutSelection: true } ) ).to.equal( modelTable( [
+					[ '01', '02', '00' ],
+					[ '11', '12', '10' ],
+					[ '21', '22', '20' ]
+				] ) );
+			} );
+
+			it( 'should stop dragging and remove the mark', () => {
+				mouseDown( 2, 0, 'row' );
+				mouseMove( 0, 1, 'before' );
+				plugin._onMouseUpHandler();
+
+				expect( getDropTargets() ).to.deep.equal( [] );
+				expect( getViewHandle( getViewCell( 0, 0 ), 'row' ).hasClass( 'ck-table-drag-handle__active' ) ).to.be.false;
+			} );
+
+			it( 'should not move anything if no place is marked', () => {
+				mouseDown( 2, 0, 'row' );
+
+				const version = model.document.version;
+
+				plugin._onMouseUpHandler();
+
+				expect( model.document.version ).to.equal( version );
+			} );
+
+			it( 'should do nothing if dragging is not in progress', () => {
+				const executeSpy = sinon.spy( editor, 'execute' );
+
+				plugin._onMouseUpHandler();
+
+				sinon.assert.notCalled( executeSpy );
+			} );
+		} );
+
+		describe( 'in the right-to-left content', () => {
+			beforeEach( async () => {
+				await editor.destroy();
+
+				editor = await createEditor( { language: { content: 'ar' } } );
+
+				setModelData( model, modelTable( [
+					[ '00', '01', '02' ],
+					[ '10', '11', '12' ]
+				] ) );
+			} );
+
+			it( 'should mark the place before the column if the pointer is over the right half of the cell', () => {
+				mouseDown( 0, 0, 'column' );
+				mouseMove( 1, 2, 'after' );
+
+				expect( getDropTargets() ).to.deep.equal( [ [ '02', 'column-before' ], [ '12', 'column-before' ] ] );
+			} );
+
+			it( 'should mark the place after the column if the pointer is over the left half of the cell', () => {
+				mouseDown( 0, 2, 'column' );
+				mouseMove( 1, 0, 'before' );
+
+				expect( getDropTargets() ).to.deep.equal( [ [ '01', 'column-before' ], [ '11', 'column-before' ] ] );
+			} );
+		} );
+	} );
+
+	async function createEditor( config = {} ) {
+		const newEditor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, TableEditing, TableSelection, TableDragDropEditing ],
+			...config
+		} );
+
+		model = newEditor.model;
+		modelRoot = model.document.getRoot();
+		plugin = newEditor.plugins.get( TableDragDropEditing );
+
+		return newEditor;
+	}
+
+	function getViewCell( row, column ) {
+		return editor.editing.mapper.toViewElement( modelRoot.getNodeByPath( [ 0, row, column ] ) );
+	}
+
+	function getViewHandle( viewCell, direction ) {
+		return Array.from( viewCell.getChildren() ).find( child => child.hasClass( `ck-table-drag-handle_${ direction }` ) );
+	}
+
+	// Presses the drag handle of the cell at the given position in the model table.
+	function mouseDown( row, column, direction ) {
+		const eventInfo = { stop: sinon.spy() };
+		const domEventData = {
+			target: getViewHandle( getViewCell( row, column ), direction ),
+			domEvent: {},
+			preventDefault: sinon.spy()
+		};
+
+		plugin._onMouseDownHandler( eventInfo, domEventData );
+
+		return eventInfo;
+	}
+
+	// Moves the pointer over the first (the top or the left) or the second half of the cell at the given position
+	// in the model table. Each cell is a 100x20 rectangle in the top left corner of the viewport.
+	function mouseMove( row, column, half ) {
+		const domCell = editor.editing.view.domConverter.mapViewToDom( getViewCell( row, column ) );
+
+		if ( !domCell.getBoundingClientRect.restore ) {
+			sinon.stub( domCell, 'getBoundingClientRect' ).returns( { top: 0, left: 0, width: 100, height: 20 } );
+		}
+
+		const clientPosition = half == 'before' ? { clientX: 10, clientY: 5 } : { clientX: 90, clientY: 15 };
+
+		plugin._onMouseMoveHandler( {}, { target: domCell, ...clientPosition } );
+	}
+
+	function getSelectedCellsText() {
+		return Array.from( model.document.selection.getRanges() )
+			.map( range => range.start.nodeAfter.getChild( 0 ).getChild( 0 ).data );
+	}
+
+	function getDropTargets() {
+		const dropTargets = [];
+
+		for ( const { item } of editor.editing.view.createRangeIn( editor.editing.view.document.getRoot() ) ) {
+			const dropTargetClass = item.is( 'element' ) && Array.from( item.getClassNames() )
+				.find( className => className.startsWith( 'ck-table-drop-target_' ) );
+
+			if ( dropTargetClass ) {
+				const modelCell = editor.editing.mapper.toModelElement( item );
+
+				dropTargets.push( [ modelCell.getChild( 0 ).getChild( 0 ).data, dropTargetClass.replace( 'ck-table-drop-target_', '' ) ] );
+			}
+		}
+
+		return dropTargets;
+	}
+} );
@@ -0,0 +1,105 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { setData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import TableEditing from '../../src/tableediting';
+import { modelTable } from '../_utils/utils';
+
+import { canMoveBefore, getHeadingsCountAfterMove, getMovedIndexes } from '../../src/tabledragdrop/utils';
+
+describe( 'table drag and drop utils', () => {
+	let editor, model, table;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( { plugins: [ Paragraph, TableEditing ] } );
+		model = editor.model;
+
+		//     ┌───┬───┬───┐
+		//  0  │ a │ b │ c │
+		//     │   ├───┼───┤
+		//  1  │   │ d │ e │
+		//     ├───┤   ├───┤
+		//  2  │ f │   │ g │
+		//     ├───┼───┴───┤
+		//  3  │ h │   i   │
+		//     └───┴───────┘
+		setData( model, modelTable( [
+			[ { contents: 'a', rowspan: 2 }, 'b', 'c' ],
+			[ { contents: 'd', rowspan: 2 }, 'e' ],
+			[ 'f', 'g' ],
+			[ 'h', { contents: 'i', colspan: 2 } ]
+		] ) );
+
+		table = model.document.getRoot().getChild( 0 );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'getMovedIndexes()', () => {
+		it( 'should not extend the range of rows if no cell spans over its edges', () => {
+			expect( getMovedIndexes( table, { first: 3, last: 3 }, 'row' ) ).to.deep.equal( { first: 3, last: 3 } );
+			expect( getMovedIndexes( table, { first: 0, last: 2 }, 'row' ) ).to.deep.equal( { first: 0, last: 2 } );
+		} );
+
+		it( 'should extend the range of rows until no cell spans over its edges', () => {
+			expect( getMovedIndexes( table, { first: 1, last: 1 }, 'row' ) ).to.deep.equal( { first: 0, last: 2 } );
+			expect( getMovedIndexes( table, { first: 0, last: 0 }, 'row' ) ).to.deep.equal( { first: 0, last: 2 } );
+		} );
+
+		it( 'should extend the range of columns until no cell spans over its edges', () => {
+			expect( getMovedIndexes( table, { first: 0, last: 0 }, 'column' ) ).to.deep.equal( { first: 0, last: 0 } );
+			expect( getMovedIndexes( table, { first: 1, last: 1 }, 'column' ) ).to.deep.equal( { first: 1, last: 2 } );
+			expect( getMovedIndexes( table, { first: 2, last: 2 }, 'column' ) ).to.deep.equal( { first: 1, last: 2 } );
+		} );
+	} );
+
+	describe( 'canMoveBefore()', () => {
+		it( 'should return true for the edges of the table', () => {
+			expect( canMoveBefore( table, 0, 'row' ) ).to.be.true;
+			expect( canMoveBefore( table, 4, 'row' ) ).to.be.true;
+			expect( canMoveBefore( table, 0, 'column' ) ).to.be.true;
+			expect( canMoveBefore( table, 3, 'column' ) ).to.be.true;
+		} );
+
+		it( 'should return true if no cell spans over the row or column', () => {
+			expect( canMoveBefore( table, 3, 'row' ) ).to.be.true;
+			expect( canMoveBefore( table, 1, 'column' ) ).to.be.true;
+		} );
+
+		it( 'should return false if a cell spans over the row or column', () => {
+			expect( canMoveBefore( table, 1, 'row' ) ).to.be.false;
+			expect( canMoveBefore( table, 2, 'row' ) ).to.be.false;
+			expect( canMoveBefore( table, 2, 'column' ) ).to.be.false;
+		} );
+	} );
+
+	describe( 'getHeadingsCountAfterMove()', () => {
+		it( 'should decrease the number of headings if the heading rows are moved between the body rows', () => {
+			expect( getHeadingsCountAfterMove( 2, { first: 0, last: 1 }, 4 ) ).to.equal( 0 );
+			expect( getHeadingsCountAfterMove( 3, { first: 1, last: 1 }, 5 ) ).to.equal( 2 );
+		} );
+
+		it( 'should increase the number of headings if the body rows are moved between the heading rows', () => {
+			expect( getHeadingsCountAfterMove( 2, { first: 3, last: 4 }, 1 ) ).to.equal( 4 );
+			expect( getHeadingsCountAfterMove( 2, { first: 2, last: 2 }, 0 ) ).to.equal( 3 );
+		} );
+
+		it( 'should not change the number of headings if the rows are moved to the edge of the header', () => {
+			expect( getHeadingsCountAfterMove( 2, { first: 0, last: 0 }, 2 ) ).to.equal( 2 );
+			expect( getHeadingsCountAfterMove( 2, { first: 3, last: 3 }, 2 ) ).to.equal( 2 );
+		} );
+
+		it( 'should not change the number of headings if the rows are moved within their part of the table', () => {
+			expect( getHeadingsCountAfterMove( 2, { first: 0, last: 0 }, 1 ) ).to.equal( 2 );
+			expect( getHeadingsCountAfterMove( 2, { first: 4, last: 4 }, 3 ) ).to.equal( 2 );
+			expect( getHeadingsCountAfterMove( 0, { first: 1, last: 1 }, 0 ) ).to.equal( 0 );
+		} );
+	} );
+} );
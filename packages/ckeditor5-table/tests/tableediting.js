@@ -17,6 +17,7 @@ import RemoveRowCommand from '../src/commands/removerowcommand';
 import RemoveColumnCommand from '../src/commands/removecolumncommand';
 import SelectRowCommand from '../src/commands/selectrowcommand';
 import SelectColumnCommand from '../src/commands/selectcolumncommand';
+import SortTableRowsCommand from '../src/commands/sorttablerowscommand';
 import SplitCellCommand from '../src/commands/splitcellcommand';
 import MergeCellCommand from '../src/commands/mergecellcommand';
 import SetHeaderRowCommand from '../src/commands/setheaderrowcommand';
@@ -128,6 +129,10 @@ describe( 'TableEditing', () => {
 		expect( editor.commands.get( 'selectTableColumn' ) ).to.be.instanceOf( SelectColumnCommand );
 	} );
 
+	it( 'adds sortTableRows command', () => {
+		expect( editor.commands.get( 'sortTableRows' ) ).to.be.instanceOf( SortTableRowsCommand );
+	} );
+
 	it( 'adds splitCellVertically command', () => {
 		expect( editor.commands.get( 'splitTableCellVertically' ) ).to.be.instanceOf( SplitCellCommand );
 	} );
@@ -54,6 +54,18 @@ describe( 'TableKeyboard', () => {
 		expect( TableKeyboard.pluginName ).to.equal( 'TableKeyboard' );
 	} );
 
+	it( 'should add keystroke accessibility info', () => {
+		const group = editor.accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'table' );
+
+		expect( group.label ).to.equal( 'Keystrokes that can be used in a table cell' );
+		expect( group.keystrokes ).to.deep.equal( [
+			{ label: 'Move the selection to the next cell', keystroke: 'Tab' },
+			{ label: 'Move the selection to the previous cell', keystroke: 'Shift+Tab' },
+			{ label: 'Insert a new table row (when in the last cell of a table)', keystroke: 'Tab' },
+			{ label: 'Navigate through the table', keystroke: [ 'arrowup', 'arrowright', 'arrowdown', 'arrowleft' ] }
+		] );
+	} );
+
 	describe( 'Tab key handling', () => {
 		let domEvtDataStub;
 
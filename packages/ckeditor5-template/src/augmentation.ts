@@ -0,0 +1,35 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	Template,
+	TemplateConfig,
+	TemplateEditing,
+	TemplateUI,
+	InsertTemplateCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the content templates feature. Introduced by the
+		 * {@link module:template/templateediting~TemplateEditing} feature.
+		 *
+		 * Read more in {@link module:template/templateconfig~TemplateConfig}.
+		 */
+		template?: TemplateConfig;
+	}
+
+	interface PluginsMap {
+		[ Template.pluginName ]: Template;
+		[ TemplateEditing.pluginName ]: TemplateEditing;
+		[ TemplateUI.pluginName ]: TemplateUI;
+	}
+
+	interface CommandsMap {
+		insertTemplate: InsertTemplateCommand;
+	}
+}
@@ -0,0 +1,17 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module template
+ */
+
+export { default as Template } from './template';
+export { default as TemplateEditing } from './templateediting';
+export { default as TemplateUI } from './templateui';
+export { default as InsertTemplateCommand } from './inserttemplatecommand';
+
+export type { TemplateConfig, TemplateDefinition } from './templateconfig';
+
+import './augmentation';
@@ -0,0 +1,58 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module template/inserttemplatecommand
+ */
+
+import { Command } from 'ckeditor5/src/core';
+
+import type { TemplateDefinition } from './templateconfig';
+
+/**
+ * The insert template command.
+ *
+ * The command is registered by {@link module:template/templateediting~TemplateEditing} as `'insertTemplate'`.
+ *
+ * It inserts the data of the template at the current selection, replacing the selected content:
+ *
+ * ```ts
+ * editor.execute( 'insertTemplate', {
+ * 	title: 'Signature',
+ * 	data: '<p>Best regards,</p><p><strong>John Smith</strong></p>'
+ * } );
+ * ```
+ *
+ * The data is parsed by the {@link module:engine/controller/datacontroller~DataController#parse data controller} and inserted with
+ * {@link module:engine/model/model~Model#insertContent `model.insertContent()`}, so the content not allowed by the schema
+ * is filtered out and the content is split and merged with the blocks at the selection where needed.
+ */
+export default class InsertTemplateCommand extends Command {
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const model = this.editor.model;
+		const schema = model.schema;
+		const position = model.document.selection.getFirstPosition();
+
+		this.isEnabled = !!position && ( schema.checkChild( position, '$text' ) || !!schema.findAllowedParent( position, '$block' ) );
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param definition The definition of the inserted template.
+	 * @fires execute
+	 */
+	public override execute( definition: TemplateDefinition ): void {
+		const editor = this.editor;
+		const model = editor.model;
+
+		model.change( () => {
+			model.insertContent( editor.data.parse( definition.data ) );
+		} );
+	}
+}
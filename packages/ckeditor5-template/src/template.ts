@@ -0,0 +1,39 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module template/template
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import TemplateEditing from './templateediting';
+import TemplateUI from './templateui';
+
+/**
+ * The content templates feature.
+ *
+ * It allows inserting the reusable blocks of content, like disclaimers, tables or signatures, configured in
+ * {@link module:template/templateconfig~TemplateConfig#definitions `config.template.definitions`}. The template is chosen
+ * from the searchable list in the `'insertTemplate'` dropdown and its content not allowed by the schema is filtered out.
+ *
+ * This is a "glue" plugin that loads the {@link module:template/templateediting~TemplateEditing template editing feature}
+ * and the {@link module:template/templateui~TemplateUI template UI feature}.
+ */
+export default class Template extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ TemplateEditing, TemplateUI ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'Template' as const;
+	}
+}
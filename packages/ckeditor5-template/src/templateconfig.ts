@@ -0,0 +1,70 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module template/templateconfig
+ */
+
+/**
+ * The configuration of the {@link module:template/template~Template template feature}.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		template: {
+ * 			definitions: [
+ * 				{
+ * 					title: 'Disclaimer',
+ * 					description: 'The legal disclaimer of the document.',
+ * 					data: '<p><em>This document is provided for information purposes only.</em></p>'
+ * 				},
+ * 				{
+ * 					title: 'Signature',
+ * 					icon: signatureIcon,
+ * 					data: '<p>Best regards,</p><p><strong>John Smith</strong></p>'
+ * 				}
+ * 			]
+ * 		}
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor configuration options}.
+ */
+export interface TemplateConfig {
+
+	/**
+	 * The templates available in the editor, in the order they are listed in the user interface.
+	 */
+	definitions?: Array<TemplateDefinition>;
+}
+
+/**
+ * The definition of a template.
+ */
+export interface TemplateDefinition {
+
+	/**
+	 * The title of the template displayed in the user interface.
+	 */
+	title: string;
+
+	/**
+	 * The additional description of the template displayed in the user interface.
+	 */
+	description?: string;
+
+	/**
+	 * The SVG string of the icon displayed next to the title. When not set, the default template icon is used.
+	 */
+	icon?: string;
+
+	/**
+	 * The HTML data inserted into the document. The content that is not allowed by the editor schema
+	 * (for instance the content of the features that are not loaded) is filtered out.
+	 */
+	data: string;
+}
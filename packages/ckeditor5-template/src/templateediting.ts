@@ -0,0 +1,43 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module template/templateediting
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+
+import InsertTemplateCommand from './inserttemplatecommand';
+
+/**
+ * The template editing feature. It registers the `'insertTemplate'` command inserting the
+ * {@link module:template/templateconfig~TemplateConfig#definitions configured templates}.
+ */
+export default class TemplateEditing extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'TemplateEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'template', {
+			definitions: []
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		this.editor.commands.add( 'insertTemplate', new InsertTemplateCommand( this.editor ) );
+	}
+}
@@ -0,0 +1,77 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module template/templateui
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+import { createDropdown } from 'ckeditor5/src/ui';
+
+import TemplatesView, { type TemplatesExecuteEvent } from './ui/templatesview';
+import type InsertTemplateCommand from './inserttemplatecommand';
+
+import templateIcon from '../theme/icons/template.svg';
+
+/**
+ * The template UI plugin. It registers the `'insertTemplate'` dropdown with the searchable list of the
+ * {@link module:template/templateconfig~TemplateConfig#definitions configured templates}. Choosing a template inserts it
+ * at the selection.
+ */
+export default class TemplateUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'TemplateUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		// Add the `insertTemplate` dropdown to feature components.
+		editor.ui.componentFactory.add( 'insertTemplate', locale => {
+			const command: InsertTemplateCommand = editor.commands.get( 'insertTemplate' )!;
+			const dropdownView = createDropdown( locale );
+			let templatesView: TemplatesView;
+
+			dropdownView.buttonView.set( {
+				label: t( 'Insert template' ),
+				icon: templateIcon,
+				tooltip: true
+			} );
+
+			dropdownView.bind( 'isEnabled' ).to( command );
+
+			// Insert the template when it was chosen from the list.
+			dropdownView.on<TemplatesExecuteEvent>( 'execute', ( evt, data ) => {
+				dropdownView.isOpen = false;
+
+				editor.execute( 'insertTemplate', data.definition );
+				editor.editing.view.focus();
+			} );
+
+			dropdownView.on( 'change:isOpen', () => {
+				if ( !templatesView ) {
+					templatesView = new TemplatesView( locale, editor.config.get( 'template.definitions' )! );
+					templatesView.delegate( 'execute' ).to( dropdownView );
+
+					dropdownView.panelView.children.add( templatesView );
+				}
+
+				// Display all templates again when the dropdown is reopened. The panel focuses the search field by itself.
+				if ( dropdownView.isOpen ) {
+					templatesView.reset();
+				}
+			} );
+
+			return dropdownView;
+		} );
+	}
+}
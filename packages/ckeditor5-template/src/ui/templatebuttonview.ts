@@ -0,0 +1,66 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module template/ui/templatebuttonview
+ */
+
+import { ButtonView, View } from 'ckeditor5/src/ui';
+import type { Locale } from 'ckeditor5/src/utils';
+
+/**
+ * The button of a template in the {@link module:template/ui/templatesview~TemplatesView}. Besides the icon and the title
+ * of the template, it displays its description.
+ *
+ * @internal
+ */
+export default class TemplateButtonView extends ButtonView {
+	/**
+	 * The description of the template.
+	 *
+	 * @observable
+	 */
+	declare public description: string | undefined;
+
+	/**
+	 * The view displaying the {@link #description}.
+	 */
+	public readonly descriptionView: View;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale?: Locale ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+
+		this.set( 'description', undefined );
+
+		this.descriptionView = new View( locale );
+		this.descriptionView.setTemplate( {
+			tag: 'span',
+			attributes: {
+				class: [ 'ck', 'ck-template-button__description', bind.if( 'description', 'ck-hidden', value => !value ) ]
+			},
+			children: [ { text: bind.to( 'description' ) } ]
+		} );
+
+		this.extendTemplate( {
+			attributes: {
+				class: [ 'ck-template-button' ]
+			}
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		this.children.add( this.descriptionView );
+	}
+}
@@ -0,0 +1,239 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module template/ui/templatesview
+ */
+
+import {
+	FocusCycler,
+	LabeledFieldView,
+	ListItemView,
+	ListView,
+	View,
+	ViewCollection,
+	createLabeledInputText,
+	type InputView
+} from 'ckeditor5/src/ui';
+import { FocusTracker, KeystrokeHandler, type Locale } from 'ckeditor5/src/utils';
+
+import TemplateButtonView from './templatebuttonview';
+import type { TemplateDefinition } from '../templateconfig';
+
+import templateIcon from '../../theme/icons/template.svg';
+import '../../theme/template.css';
+
+/**
+ * The view of the template dropdown panel. It displays the search field and the list of the templates whose titles
+ * or descriptions match the search query.
+ *
+ * Choosing a template fires the {@link ~TemplatesExecuteEvent `execute`} event of the view.
+ */
+export default class TemplatesView extends View<HTMLDivElement> {
+	/**
+	 * The labeled input of the search query.
+	 */
+	public readonly filterInputView: LabeledFieldView<InputView>;
+
+	/**
+	 * The list of the templates matching the search query.
+	 */
+	public readonly listView: ListView;
+
+	/**
+	 * Tracks information about the DOM focus in the view.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * Whether any template matches the search query.
+	 *
+	 * @observable
+	 */
+	declare public hasResults: boolean;
+
+	/**
+	 * The definitions of all templates.
+	 */
+	private readonly _definitions: Array<TemplateDefinition>;
+
+	/**
+	 * The focusable children of the view: the search field and the list of the templates.
+	 */
+	private readonly _focusables: ViewCollection;
+
+	/**
+	 * Helps cycling over {@link #_focusables} in the view.
+	 */
+	private readonly _focusCycler: FocusCycler;
+
+	/**
+	 * Creates an instance of the view.
+	 *
+	 * @param locale The localization services instance.
+	 * @param definitions The definitions of all templates.
+	 */
+	constructor( locale: Locale, definitions: Array<TemplateDefinition> ) {
+		super( locale );
+
+		const t = locale.t;
+		const bind = this.bindTemplate;
+
+		this._definitions = definitions;
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+		this.listView = new ListView( locale );
+		this._focusables = new ViewCollection();
+
+		this.set( 'hasResults', true );
+
+		this.filterInputView = new LabeledFieldView( locale, createLabeledInputText );
+		this.filterInputView.label = t( 'Search templates' );
+		this.filterInputView.fieldView.on( 'input', () => {
+			this.filter( ( this.filterInputView.fieldView.element as HTMLInputElement ).value );
+		} );
+
+		this._focusCycler = new FocusCycler( {
+			focusables: this._focusables,
+			focusTracker: this.focusTracker,
+			keystrokeHandler: this.keystrokes,
+			actions: {
+				focusPrevious: 'shift + tab',
+				focusNext: 'tab'
+			}
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-templates' ],
+				tabindex: '-1'
+			},
+			children: [
+				this.filterInputView,
+				this.listView,
+				{
+					tag: 'p',
+					attributes: {
+						class: [ 'ck', 'ck-templates__no-results', bind.if( 'hasResults', 'ck-hidden' ) ]
+					},
+					children: [ t( 'No templates found' ) ]
+				}
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		for ( const view of [ this.filterInputView, this.listView ] ) {
+			this._focusables.add( view );
+			this.focusTracker.add( view.element! );
+		}
+
+		// Start listening for the keystrokes coming from #element.
+		this.keystrokes.listenTo( this.element! );
+
+		// The panel is in the dropdown which is a child of the toolbar, so the toolbar's keystroke handler would
+		// take over the arrow keys in the search field.
+		const stopPropagation = ( data: KeyboardEvent ) => data.stopPropagation();
+
+		this.keystrokes.set( 'arrowright', stopPropagation );
+		this.keystrokes.set( 'arrowleft', stopPropagation );
+
+		this.filter( '' );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Focuses the search field.
+	 */
+	public focus(): void {
+		this.filterInputView.focus();
+	}
+
+	/**
+	 * Resets the search query and displays all templates.
+	 */
+	public reset(): void {
+		const fieldView = this.filterInputView.fieldView;
+
+		fieldView.value = fieldView.element!.value = '';
+		this.filter( '' );
+	}
+
+	/**
+	 * Displays the templates whose titles or descriptions contain the query. The search is case-insensitive.
+	 */
+	public filter( query: string ): void {
+		const normalizedQuery = query.trim().toLowerCase();
+		const definitions = this._definitions.filter( ( { title, description } ) => {
+			return title.toLowerCase().includes( normalizedQuery ) ||
+				!!description && description.toLowerCase().includes( normalizedQuery );
+		} );
+
+		const previousItems = Array.from( this.listView.items );
+
+		this.listView.items.clear();
+
+		for ( const item of previousItems ) {
+			item.destroy();
+		}
+
+		this.listView.items.addMany( definitions.map( definition => this._createListItem( definition ) ) );
+
+		this.hasResults = !!definitions.length;
+	}
+
+	/**
+	 * Creates the list item with the button of the template.
+	 */
+	private _createListItem( definition: TemplateDefinition ): ListItemView {
+		const listItemView = new ListItemView( this.locale );
+		const buttonView = new TemplateButtonView( this.locale );
+
+		buttonView.set( {
+			label: definition.title,
+			description: definition.description,
+			icon: definition.icon || templateIcon,
+			withText: true
+		} );
+
+		buttonView.on( 'execute', () => {
+			this.fire<TemplatesExecuteEvent>( 'execute', { definition } );
+		} );
+
+		listItemView.children.add( buttonView );
+
+		return listItemView;
+	}
+}
+
+/**
+ * Fired when a template is chosen in the view.
+ *
+ * @eventName ~TemplatesView#execute
+ */
+export type TemplatesExecuteEvent = {
+	name: 'execute';
+	args: [ { definition: TemplateDefinition } ];
+};
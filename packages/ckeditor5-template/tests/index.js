@@ -0,0 +1,33 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import {
+	Template as TemplateDLL,
+	TemplateEditing as TemplateEditingDLL,
+	TemplateUI as TemplateUIDLL,
+	InsertTemplateCommand as InsertTemplateCommandDLL
+} from '../src';
+import Template from '../src/template';
+import TemplateEditing from '../src/templateediting';
+import TemplateUI from '../src/templateui';
+import InsertTemplateCommand from '../src/inserttemplatecommand';
+
+describe( 'Template DLL', () => {
+	it( 'exports Template', () => {
+		expect( TemplateDLL ).to.equal( Template );
+	} );
+
+	it( 'exports TemplateEditing', () => {
+		expect( TemplateEditingDLL ).to.equal( TemplateEditing );
+	} );
+
+	it( 'exports TemplateUI', () => {
+		expect( TemplateUIDLL ).to.equal( TemplateUI );
+	} );
+
+	it( 'exports InsertTemplateCommand', () => {
+		expect( InsertTemplateCommandDLL ).to.equal( InsertTemplateCommand );
+	} );
+} );
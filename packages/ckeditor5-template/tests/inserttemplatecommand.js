@@ -0,0 +1,129 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import TableEditing from '@ckeditor/ckeditor5-table/src/tableediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+
+import TemplateEditing from '../src/templateediting';
+
+describe( 'InsertTemplateCommand', () => {
+	let editor, model, command;
+
+	beforeEach( async () => {
+		editor = await createEditor( [ Paragraph, BoldEditing, TemplateEditing ] );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	describe( 'isEnabled', () => {
+		it( 'should be true when the selection is in a paragraph', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be true when a block object is selected', async () => {
+			await editor.destroy();
+			editor = await createEditor( [ Paragraph, TableEditing, TemplateEditing ] );
+
+			setModelData( model, '[<table><tableRow><tableCell><paragraph>Foo</paragraph></tableCell></tableRow></table>]' );
+
+			expect( command.isEnabled ).to.be.true;
+		} );
+
+		it( 'should be false when neither the text nor a block is allowed at the selection', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			model.schema.addChildCheck( ( context, childDefinition ) => {
+				if ( [ '$text', '$block' ].includes( childDefinition.name ) ) {
+					return false;
+				}
+			} );
+			command.refresh();
+
+			expect( command.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should insert the inline content of the template at the selection', () => {
+			setModelData( model, '<paragraph>Foo []bar</paragraph>' );
+
+			command.execute( { title: 'Greeting', data: 'Hello <strong>world</strong>' } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>Foo Hello <$text bold="true">world[]</$text>bar</paragraph>'
+			);
+		} );
+
+		it( 'should insert the blocks of the template merging the first and the last block with the split paragraph', () => {
+			setModelData( model, '<paragraph>Foo[]Bar</paragraph>' );
+
+			command.execute( { title: 'Signature', data: '<p>Best regards,</p><p>John Smith</p>' } );
+
+			expect( getModelData( model ) ).to.equal(
+				'<paragraph>FooBest regards,</paragraph><paragraph>John Smith[]Bar</paragraph>'
+			);
+		} );
+
+		it( 'should replace the selected content', () => {
+			setModelData( model, '<paragraph>[Foo]</paragraph>' );
+
+			command.execute( { title: 'Disclaimer', data: '<p>Disclaimer</p>' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>Disclaimer[]</paragraph>' );
+		} );
+
+		it( 'should filter out the content not allowed by the schema', () => {
+			setModelData( model, '<paragraph>[]</paragraph>' );
+
+			command.execute( {
+				title: 'Table',
+				data: '<table><tr><td>Foo</td><td><i>Bar</i></td></tr></table><p>Baz</p>'
+			} );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>Foo</paragraph><paragraph>Bar</paragraph><paragraph>Baz[]</paragraph>' );
+		} );
+
+		it( 'should insert the content allowed by the schema', async () => {
+			await editor.destroy();
+			editor = await createEditor( [ Paragraph, TableEditing, TemplateEditing ] );
+
+			setModelData( model, '<paragraph>[]</paragraph>' );
+
+			command.execute( { title: 'Table', data: '<table><tr><td>Foo</td></tr></table>' } );
+
+			expect( getModelData( model ) ).to.equal(
+				'[<table><tableRow><tableCell><paragraph>Foo</paragraph></tableCell></tableRow></table>]'
+			);
+		} );
+
+		it( 'should insert the template in a single undo step', () => {
+			setModelData( model, '<paragraph>Foo[]</paragraph>' );
+
+			const spy = sinon.spy();
+
+			model.document.on( 'change', spy );
+
+			command.execute( { title: 'Signature', data: '<p>Best regards,</p><p>John Smith</p>' } );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	async function createEditor( plugins ) {
+		const newEditor = await VirtualTestEditor.create( { plugins } );
+
+		model = newEditor.model;
+		command = newEditor.commands.get( 'insertTemplate' );
+
+		return newEditor;
+	}
+} );
@@ -0,0 +1,55 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals console, window, document */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+
+import Template from '../../src/template';
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [ ArticlePluginSet, Template ],
+		toolbar: [
+			'heading', '|', 'bold', 'italic', 'link', 'bulletedList', 'numberedList', 'insertTable', '|',
+			'insertTemplate', '|', 'undo', 'redo'
+		],
+		template: {
+			definitions: [
+				{
+					title: 'Disclaimer',
+					description: 'The legal notice about the confidentiality of the message',
+					data: '<p><i>This message is confidential and intended solely for the use of the addressee.</i></p>'
+				},
+				{
+					title: 'Price table',
+					description: 'A table of the products with their prices',
+					data: '<table><tbody>' +
+						'<tr><th>Product</th><th>Price</th></tr>' +
+						'<tr><td>Product name</td><td>$0.00</td></tr>' +
+					'</tbody></table>'
+				},
+				{
+					title: 'Signature',
+					icon: '<svg viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">' +
+						'<path d="M3 15h14v1.5H3zm2.5-3 7-7 2 2-7 7H5.5z"/>' +
+					'</svg>',
+					data: '<p>Best regards,</p><p><strong>John Smith</strong><br>Sales department</p>'
+				},
+				{
+					title: 'Unsupported content',
+					description: 'Contains a video that is filtered out by the editor',
+					data: '<p>Watch the video:</p><video src="movie.mp4"></video><p>Thank you!</p>'
+				}
+			]
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
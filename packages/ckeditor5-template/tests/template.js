@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import Template from '../src/template';
+import TemplateEditing from '../src/templateediting';
+import TemplateUI from '../src/templateui';
+
+describe( 'Template', () => {
+	it( 'should be correctly named', () => {
+		expect( Template.pluginName ).to.equal( 'Template' );
+	} );
+
+	it( 'should require TemplateEditing and TemplateUI', () => {
+		expect( Template.requires ).to.deep.equal( [ TemplateEditing, TemplateUI ] );
+	} );
+} );
@@ -0,0 +1,36 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+
+import TemplateEditing from '../src/templateediting';
+import InsertTemplateCommand from '../src/inserttemplatecommand';
+
+describe( 'TemplateEditing', () => {
+	let editor;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, TemplateEditing ]
+		} );
+	} );
+
+	afterEach( () => {
+		return editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( TemplateEditing.pluginName ).to.equal( 'TemplateEditing' );
+	} );
+
+	it( 'should register the command', () => {
+		expect( editor.commands.get( 'insertTemplate' ) ).to.be.instanceOf( InsertTemplateCommand );
+	} );
+
+	it( 'should define the default configuration', () => {
+		expect( editor.config.get( 'template' ) ).to.deep.equal( { definitions: [] } );
+	} );
+} );
@@ -0,0 +1,109 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import DropdownView from '@ckeditor/ckeditor5-ui/src/dropdown/dropdownview';
+
+import TemplateEditing from '../src/templateediting';
+import TemplateUI from '../src/templateui';
+import TemplatesView from '../src/ui/templatesview';
+import templateIcon from '../theme/icons/template.svg';
+
+describe( 'TemplateUI', () => {
+	let editor, element, dropdown, command;
+
+	const definitions = [
+		{ title: 'Disclaimer', data: '<p>Disclaimer</p>' },
+		{ title: 'Signature', data: '<p>Best regards</p>' }
+	];
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = document.createElement( 'div' );
+		document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, TemplateEditing, TemplateUI ],
+			template: { definitions }
+		} );
+
+		command = editor.commands.get( 'insertTemplate' );
+		dropdown = editor.ui.componentFactory.create( 'insertTemplate' );
+		dropdown.render();
+		document.body.appendChild( dropdown.element );
+	} );
+
+	afterEach( async () => {
+		dropdown.element.remove();
+		dropdown.destroy();
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( TemplateUI.pluginName ).to.equal( 'TemplateUI' );
+	} );
+
+	describe( 'the "insertTemplate" dropdown', () => {
+		it( 'should be a dropdown', () => {
+			expect( dropdown ).to.be.instanceOf( DropdownView );
+		} );
+
+		it( 'should have a label, an icon and a tooltip', () => {
+			expect( dropdown.buttonView.label ).to.equal( 'Insert template' );
+			expect( dropdown.buttonView.icon ).to.equal( templateIcon );
+			expect( dropdown.buttonView.tooltip ).to.be.true;
+		} );
+
+		it( 'should bind #isEnabled to the command', () => {
+			command.isEnabled = false;
+			expect( dropdown.isEnabled ).to.be.false;
+
+			command.isEnabled = true;
+			expect( dropdown.isEnabled ).to.be.true;
+		} );
+
+		it( 'should create the panel content when opened for the first time', () => {
+			expect( dropdown.panelView.children.length ).to.equal( 0 );
+
+			dropdown.isOpen = true;
+
+			expect( dropdown.panelView.children.first ).to.be.instanceOf( TemplatesView );
+			expect( dropdown.panelView.children.first.listView.items.length ).to.equal( 2 );
+		} );
+
+		it( 'should reset the search query and focus the search field when opened', () => {
+			dropdown.isOpen = true;
+
+			const templatesView = dropdown.panelView.children.first;
+			const focusSpy = sinon.spy( templatesView, 'focus' );
+
+			templatesView.filter( 'sign' );
+			dropdown.isOpen = false;
+			dropdown.isOpen = true;
+
+			expect( templatesView.listView.items.length ).to.equal( 2 );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should insert the chosen template, close the dropdown and focus the editing view', () => {
+			const executeSpy = sinon.stub( editor, 'execute' );
+			const focusSpy = sinon.stub( editor.editing.view, 'focus' );
+
+			dropdown.isOpen = true;
+			dropdown.panelView.children.first.fire( 'execute', { definition: definitions[ 1 ] } );
+
+			expect( dropdown.isOpen ).to.be.false;
+			sinon.assert.calledOnceWithExactly( executeSpy, 'insertTemplate', definitions[ 1 ] );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+	} );
+} );
@@ -0,0 +1,151 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Event */
+
+import { Locale } from '@ckeditor/ckeditor5-utils';
+import FocusCycler from '@ckeditor/ckeditor5-ui/src/focuscycler';
+import LabeledFieldView from '@ckeditor/ckeditor5-ui/src/labeledfield/labeledfieldview';
+
+import TemplatesView from '../../src/ui/templatesview';
+import TemplateButtonView from '../../src/ui/templatebuttonview';
+import templateIcon from '../../theme/icons/template.svg';
+
+describe( 'TemplatesView', () => {
+	let view;
+
+	const customIcon = '<svg viewBox="0 0 20 20"></svg>';
+	const definitions = [
+		{ title: 'Disclaimer', description: 'The legal notice', data: '<p>Disclaimer</p>' },
+		{ title: 'Signature', icon: customIcon, data: '<p>Best regards</p>' },
+		{ title: 'Price table', description: 'Products with their prices', data: '<table></table>' }
+	];
+
+	beforeEach( () => {
+		view = new TemplatesView( new Locale(), definitions );
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create the element', () => {
+			expect( view.element.classList.contains( 'ck-templates' ) ).to.be.true;
+			expect( view.element.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+		} );
+
+		it( 'should create the search field', () => {
+			expect( view.filterInputView ).to.be.instanceOf( LabeledFieldView );
+			expect( view.filterInputView.label ).to.equal( 'Search templates' );
+		} );
+
+		it( 'should create the focus cycler', () => {
+			expect( view._focusCycler ).to.be.instanceOf( FocusCycler );
+		} );
+	} );
+
+	describe( 'render()', () => {
+		it( 'should display all templates', () => {
+			expect( getTitles() ).to.deep.equal( [ 'Disclaimer', 'Signature', 'Price table' ] );
+		} );
+
+		it( 'should display the templates as the buttons with the icons and the descriptions', () => {
+			const [ disclaimerButton, signatureButton ] = getButtons();
+
+			expect( disclaimerButton ).to.be.instanceOf( TemplateButtonView );
+			expect( disclaimerButton.withText ).to.be.true;
+			expect( disclaimerButton.icon ).to.equal( templateIcon );
+			expect( disclaimerButton.descriptionView.element.textContent ).to.equal( 'The legal notice' );
+			expect( disclaimerButton.descriptionView.element.classList.contains( 'ck-hidden' ) ).to.be.false;
+
+			expect( signatureButton.icon ).to.equal( customIcon );
+			expect( signatureButton.descriptionView.element.classList.contains( 'ck-hidden' ) ).to.be.true;
+		} );
+	} );
+
+	describe( 'filter()', () => {
+		it( 'should display only the templates with the matching titles', () => {
+			view.filter( 'SIGN' );
+
+			expect( getTitles() ).to.deep.equal( [ 'Signature' ] );
+			expect( view.hasResults ).to.be.true;
+		} );
+
+		it( 'should display the templates with the matching descriptions', () => {
+			view.filter( 'price' );
+
+			expect( getTitles() ).to.deep.equal( [ 'Price table' ] );
+		} );
+
+		it( 'should display the message when no template matches', () => {
+			const messageElement = view.element.querySelector( '.ck-templates__no-results' );
+
+			expect( messageElement.classList.contains( 'ck-hidden' ) ).to.be.true;
+
+			view.filter( 'foo' );
+
+			expect( view.listView.items.length ).to.equal( 0 );
+			expect( view.hasResults ).to.be.false;
+			expect( messageElement.classList.contains( 'ck-hidden' ) ).to.be.false;
+		} );
+
+		it( 'should be called when the search query is typed', () => {
+			const inputElement = view.filterInputView.fieldView.element;
+
+			inputElement.value = 'legal';
+			inputElement.dispatchEvent( new Event( 'input' ) );
+
+			expect( getTitles() ).to.deep.equal( [ 'Disclaimer' ] );
+		} );
+	} );
+
+	describe( 'reset()', () => {
+		it( 'should clear the search query and display all templates', () => {
+			const inputElement = view.filterInputView.fieldView.element;
+
+			inputElement.value = 'legal';
+			inputElement.dispatchEvent( new Event( 'input' ) );
+
+			view.reset();
+
+			expect( inputElement.value ).to.equal( '' );
+			expect( view.listView.items.length ).to.equal( 3 );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the search field', () => {
+			const spy = sinon.spy( view.filterInputView, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'execute event', () => {
+		it( 'should be fired when a template is chosen', () => {
+			const spy = sinon.spy();
+
+			view.on( 'execute', spy );
+			getButtons()[ 2 ].fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+			expect( spy.firstCall.args[ 1 ] ).to.deep.equal( { definition: definitions[ 2 ] } );
+		} );
+	} );
+
+	function getButtons() {
+		return Array.from( view.listView.items ).map( item => item.children.first );
+	}
+
+	function getTitles() {
+		return getButtons().map( button => button.label );
+	}
+} );
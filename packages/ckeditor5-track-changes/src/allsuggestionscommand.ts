@@ -0,0 +1,56 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module track-changes/allsuggestionscommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+
+/**
+ * The command accepting or rejecting all suggestions in the document. It is registered by
+ * {@link module:track-changes/trackchangesediting~TrackChangesEditing} as `'acceptAllSuggestions'` and `'rejectAllSuggestions'`.
+ *
+ * ```ts
+ * editor.execute( 'acceptAllSuggestions' );
+ * ```
+ */
+export default class AllSuggestionsCommand extends Command {
+	/**
+	 * Whether the command accepts or rejects suggestions.
+	 */
+	public readonly action: 'accept' | 'reject';
+
+	/**
+	 * Creates an instance of the command.
+	 *
+	 * @param action Whether the command accepts or rejects suggestions.
+	 */
+	constructor( editor: Editor, action: 'accept' | 'reject' ) {
+		super( editor );
+
+		this.action = action;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		this.isEnabled = this.editor.plugins.get( 'TrackChangesEditing' ).getSuggestions().length > 0;
+	}
+
+	/**
+	 * Executes the command.
+	 */
+	public override execute(): void {
+		const trackChanges = this.editor.plugins.get( 'TrackChangesEditing' );
+
+		if ( this.action == 'accept' ) {
+			trackChanges.acceptAllSuggestions();
+		} else {
+			trackChanges.rejectAllSuggestions();
+		}
+	}
+}
@@ -0,0 +1,40 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import type {
+	TrackChangesConfig,
+	TrackChanges,
+	TrackChangesEditing,
+	TrackChangesUI,
+	TrackChangesCommand,
+	SuggestionCommand,
+	AllSuggestionsCommand
+} from './index';
+
+declare module '@ckeditor/ckeditor5-core' {
+	interface EditorConfig {
+
+		/**
+		 * The configuration of the {@link module:track-changes/trackchanges~TrackChanges} feature.
+		 *
+		 * Read more in {@link module:track-changes/trackchangesconfig~TrackChangesConfig}.
+		 */
+		trackChanges?: TrackChangesConfig;
+	}
+
+	interface PluginsMap {
+		[ TrackChanges.pluginName ]: TrackChanges;
+		[ TrackChangesEditing.pluginName ]: TrackChangesEditing;
+		[ TrackChangesUI.pluginName ]: TrackChangesUI;
+	}
+
+	interface CommandsMap {
+		trackChanges: TrackChangesCommand;
+		acceptSuggestion: SuggestionCommand;
+		rejectSuggestion: SuggestionCommand;
+		acceptAllSuggestions: AllSuggestionsCommand;
+		rejectAllSuggestions: AllSuggestionsCommand;
+	}
+}
@@ -0,0 +1,19 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module track-changes
+ */
+
+export { default as TrackChanges } from './trackchanges';
+export { default as TrackChangesEditing, type Suggestion, type SuggestionType } from './trackchangesediting';
+export { default as TrackChangesUI } from './trackchangesui';
+export { default as TrackChangesCommand } from './trackchangescommand';
+export { default as SuggestionCommand } from './suggestioncommand';
+export { default as AllSuggestionsCommand } from './allsuggestionscommand';
+export { getSuggestionMarkerName, parseSuggestionMarkerName, type SuggestionMarkerData } from './utils';
+export type { TrackChangesConfig, SuggestionAuthor } from './trackchangesconfig';
+
+import './augmentation';
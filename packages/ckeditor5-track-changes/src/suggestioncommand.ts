@@ -0,0 +1,83 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module track-changes/suggestioncommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+
+import type { Suggestion } from './trackchangesediting';
+
+/**
+ * The command accepting or rejecting a single suggestion. It is registered by
+ * {@link module:track-changes/trackchangesediting~TrackChangesEditing} as `'acceptSuggestion'` and `'rejectSuggestion'`.
+ *
+ * ```ts
+ * // Accept the suggestion with the given id.
+ * editor.execute( 'acceptSuggestion', { id: 'e1d2f3' } );
+ *
+ * // Reject the suggestion at the selection.
+ * editor.execute( 'rejectSuggestion' );
+ * ```
+ */
+export default class SuggestionCommand extends Command {
+	/**
+	 * The suggestion at the selection that will be resolved when the command is executed without the `id` option.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: Suggestion | null;
+
+	/**
+	 * Whether the command accepts or rejects suggestions.
+	 */
+	public readonly action: 'accept' | 'reject';
+
+	/**
+	 * Creates an instance of the command.
+	 *
+	 * @param action Whether the command accepts or rejects suggestions.
+	 */
+	constructor( editor: Editor, action: 'accept' | 'reject' ) {
+		super( editor );
+
+		this.action = action;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override refresh(): void {
+		const trackChanges = this.editor.plugins.get( 'TrackChangesEditing' );
+		const selectionRange = this.editor.model.document.selection.getFirstRange();
+		const suggestions = selectionRange ? trackChanges.getSuggestionsInRange( selectionRange ) : [];
+
+		this.value = suggestions[ 0 ] || null;
+		this.isEnabled = !!this.value;
+	}
+
+	/**
+	 * Executes the command.
+	 *
+	 * @param options Command options.
+	 * @param options.id The id of the suggestion to resolve. Defaults to the suggestion at the selection.
+	 */
+	public override execute( options: { id?: string } = {} ): void {
+		const trackChanges = this.editor.plugins.get( 'TrackChangesEditing' );
+		const id = options.id || this.value && this.value.id;
+
+		if ( !id ) {
+			return;
+		}
+
+		if ( this.action == 'accept' ) {
+			trackChanges.acceptSuggestion( id );
+		} else {
+			trackChanges.rejectSuggestion( id );
+		}
+	}
+}
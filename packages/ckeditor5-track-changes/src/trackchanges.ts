@@ -0,0 +1,38 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module track-changes/trackchanges
+ */
+
+import { Plugin } from 'ckeditor5/src/core';
+
+import TrackChangesEditing from './trackchangesediting';
+import TrackChangesUI from './trackchangesui';
+
+/**
+ * The track changes feature.
+ *
+ * It introduces the suggestion mode in which changes made in the editor are recorded as suggestions
+ * that can be accepted or rejected later.
+ *
+ * This is a "glue" plugin which loads the {@link module:track-changes/trackchangesediting~TrackChangesEditing track changes
+ * editing feature} and the {@link module:track-changes/trackchangesui~TrackChangesUI track changes UI feature}.
+ */
+export default class TrackChanges extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'TrackChanges' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ TrackChangesEditing, TrackChangesUI ] as const;
+	}
+}
@@ -0,0 +1,51 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module track-changes/trackchangescommand
+ */
+
+import { Command, type Editor } from 'ckeditor5/src/core';
+
+/**
+ * The track changes command. It is registered by {@link module:track-changes/trackchangesediting~TrackChangesEditing}
+ * as `'trackChanges'`.
+ *
+ * Turns the suggestion mode on and off. In the suggestion mode, changes made in the editor are recorded as suggestions.
+ *
+ * ```ts
+ * editor.execute( 'trackChanges' );
+ * ```
+ */
+export default class TrackChangesCommand extends Command {
+	/**
+	 * Flag indicating whether the suggestion mode is on.
+	 *
+	 * @observable
+	 * @readonly
+	 */
+	declare public value: boolean;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		// Switching the mode does not change the data so it should be possible in the read-only mode, too.
+		this.affectsData = false;
+		this.value = false;
+	}
+
+	/**
+	 * Toggles the suggestion mode.
+	 *
+	 * @param options Command options.
+	 * @param options.forceValue If set, the suggestion mode is turned on (`true`) or off (`false`) regardless of its current state.
+	 */
+	public override execute( options: { forceValue?: boolean } = {} ): void {
+		this.value = options.forceValue === undefined ? !this.value : options.forceValue;
+	}
+}
@@ -0,0 +1,60 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module track-changes/trackchangesconfig
+ */
+
+/**
+ * The configuration of the track changes feature.
+ *
+ * ```ts
+ * ClassicEditor
+ * 	.create( editorElement, {
+ * 		trackChanges: ... // Track changes feature options.
+ * 	} )
+ * 	.then( ... )
+ * 	.catch( ... );
+ * ```
+ *
+ * See {@link module:core/editor/editorconfig~EditorConfig all editor options}.
+ */
+export interface TrackChangesConfig {
+
+	/**
+	 * The author of the suggestions created in the editor instance.
+	 *
+	 * ```ts
+	 * ClassicEditor
+	 * 	.create( editorElement, {
+	 * 		plugins: [ TrackChanges, ... ],
+	 * 		trackChanges: {
+	 * 			author: { id: 'u1', name: 'Jane Doe' }
+	 * 		}
+	 * 	} )
+	 * 	.then( ... )
+	 * 	.catch( ... );
+	 * ```
+	 *
+	 * Defaults to an anonymous author with the `'anonymous'` id.
+	 */
+	author?: SuggestionAuthor;
+}
+
+/**
+ * The author of a suggestion.
+ */
+export interface SuggestionAuthor {
+
+	/**
+	 * The unique id of the author. It is stored in the suggestion marker names.
+	 */
+	id: string;
+
+	/**
+	 * The name of the author displayed in the user interface.
+	 */
+	name: string;
+}
@@ -0,0 +1,687 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module track-changes/trackchangesediting
+ */
+
+import { Plugin, type Editor } from 'ckeditor5/src/core';
+import { CKEditorError, uid } from 'ckeditor5/src/utils';
+import {
+	AttributeOperation,
+	InsertOperation,
+	LivePosition,
+	LiveRange,
+	SplitOperation,
+	type Batch,
+	type DocumentSelection,
+	type Marker,
+	type ModelApplyOperationEvent,
+	type ModelDeleteContentEvent,
+	type Operation,
+	type Range,
+	type Selection,
+	type Writer
+} from 'ckeditor5/src/engine';
+import { isEqual } from 'lodash-es';
+
+import TrackChangesCommand from './trackchangescommand';
+import SuggestionCommand from './suggestioncommand';
+import AllSuggestionsCommand from './allsuggestionscommand';
+import {
+	SUGGESTION_MARKER_GROUP,
+	getSuggestionMarkerName,
+	parseSuggestionMarkerName
+} from './utils';
+import type { SuggestionAuthor } from './trackchangesconfig';
+
+import '../theme/trackchanges.css';
+
+/**
+ * The editing part of the track changes feature.
+ *
+ * When the suggestion mode is on (see the {@link module:track-changes/trackchangescommand~TrackChangesCommand `'trackChanges'`}
+ * command), the changes made by the user are not applied to the content directly. Instead, they are recorded as
+ * {@link module:track-changes/trackchangesediting~Suggestion suggestions} stored in `suggestion:*`
+ * {@link module:engine/model/markercollection~MarkerCollection markers}:
+ *
+ * * Content inserted through {@link module:engine/model/model~Model#insertContent} or the model writer (including splitting
+ * blocks) is marked as an insertion suggestion.
+ * * Content removed through {@link module:engine/model/model~Model#deleteContent} stays in the document and is marked as
+ * a deletion suggestion. Content inserted by the same author in the suggestion mode is removed immediately.
+ * * Changes of {@link module:engine/model/schema~AttributeProperties#isFormatting formatting} attributes are marked as
+ * attribute suggestions that remember the previous value of the attribute.
+ *
+ * Suggestions can be accepted or rejected one by one or in bulk using the plugin API or the `'acceptSuggestion'`,
+ * `'rejectSuggestion'`, `'acceptAllSuggestions'` and `'rejectAllSuggestions'` commands.
+ *
+ * **Note:** Moving, renaming and removing content using the model writer directly is not tracked.
+ */
+export default class TrackChangesEditing extends Plugin {
+	/**
+	 * Known suggestion authors, by their ids.
+	 */
+	public readonly authors: Map<string, SuggestionAuthor> = new Map();
+
+	/**
+	 * The author of the suggestions created in this editor instance.
+	 */
+	public readonly currentAuthor: SuggestionAuthor;
+
+	/**
+	 * Indicates whether tracking of the model changes is temporarily disabled,
+	 * for instance, while suggestions are being accepted or rejected.
+	 */
+	private _isTrackingSuspended = false;
+
+	/**
+	 * The model changes collected when the operations were applied, waiting for the post-fixer
+	 * to turn them into suggestion markers.
+	 */
+	private _pendingChanges: Array<PendingChange> = [];
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'TrackChangesEditing' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		editor.config.define( 'trackChanges', {
+			author: {
+				id: 'anonymous',
+				name: editor.t( 'Anonymous' )
+			}
+		} );
+
+		this.currentAuthor = editor.config.get( 'trackChanges.author' )!;
+		this.addAuthor( this.currentAuthor );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const model = editor.model;
+
+		editor.commands.add( 'trackChanges', new TrackChangesCommand( editor ) );
+		editor.commands.add( 'acceptSuggestion', new SuggestionCommand( editor, 'accept' ) );
+		editor.commands.add( 'rejectSuggestion', new SuggestionCommand( editor, 'reject' ) );
+		editor.commands.add( 'acceptAllSuggestions', new AllSuggestionsCommand( editor, 'accept' ) );
+		editor.commands.add( 'rejectAllSuggestions', new AllSuggestionsCommand( editor, 'reject' ) );
+
+		editor.conversion.for( 'editingDowncast' ).markerToHighlight( {
+			model: SUGGESTION_MARKER_GROUP,
+			view: ( { markerName } ) => {
+				const data = parseSuggestionMarkerName( markerName );
+
+				if ( !data ) {
+					return null;
+				}
+
+				return {
+					classes: [ 'ck-suggestion-marker', `ck-suggestion-marker-${ data.type }` ],
+					attributes: {
+						'data-suggestion': data.id,
+						title: this.getAuthor( data.authorId ).name
+					}
+				};
+			}
+		} );
+
+		editor.conversion.for( 'dataDowncast' ).markerToData( {
+			model: SUGGESTION_MARKER_GROUP
+		} );
+
+		editor.conversion.for( 'upcast' ).dataToMarker( {
+			view: SUGGESTION_MARKER_GROUP
+		} );
+
+		// Deleting the content in the suggestion mode marks it as a deletion suggestion instead of removing it.
+		this.listenTo<ModelDeleteContentEvent>( model, 'deleteContent', ( evt, [ selection, options ] ) => {
+			if ( !this.isTracking || selection.isCollapsed ) {
+				return;
+			}
+
+			evt.stop();
+
+			model.change( writer => {
+				if ( this._shouldTrackBatch( writer.batch ) ) {
+					this._trackDeletion( writer, selection, options && options.direction );
+				} else {
+					this._withTrackingSuspended( () => model.deleteContent( selection, options ) );
+				}
+			} );
+		}, { priority: 'high' } );
+
+		// Collect the insertions and attribute changes. They are turned into suggestions by the post-fixer
+		// when all operations of the change block were applied.
+		this.listenTo<ModelApplyOperationEvent>( model, 'applyOperation', ( evt, [ operation ] ) => {
+			this._collectChange( operation );
+		}, { priority: 'low' } );
+
+		model.document.registerPostFixer( writer => this._handlePendingChanges( writer ) );
+	}
+
+	/**
+	 * Indicates whether the changes made in the editor are currently recorded as suggestions.
+	 */
+	public get isTracking(): boolean {
+		return this.editor.commands.get( 'trackChanges' )!.value && !this._isTrackingSuspended;
+	}
+
+	/**
+	 * Registers a suggestion author so their name can be displayed for the suggestions they created.
+	 */
+	public addAuthor( author: SuggestionAuthor ): void {
+		this.authors.set( author.id, author );
+	}
+
+	/**
+	 * Returns the author with the given id. If the author was not {@link #addAuthor registered}, the id is used as the name.
+	 */
+	public getAuthor( id: string ): SuggestionAuthor {
+		return this.authors.get( id ) || { id, name: id };
+	}
+
+	/**
+	 * Returns all suggestions in the document.
+	 */
+	public getSuggestions(): Array<Suggestion> {
+		const suggestions: Array<Suggestion> = [];
+
+		for ( const marker of this.editor.model.markers.getMarkersGroup( SUGGESTION_MARKER_GROUP ) ) {
+			const suggestion = this._createSuggestion( marker );
+
+			if ( suggestion ) {
+				suggestions.push( suggestion );
+			}
+		}
+
+		return suggestions;
+	}
+
+	/**
+	 * Returns the suggestion with the given id or `null` if there is no such suggestion in the document.
+	 */
+	public getSuggestion( id: string ): Suggestion | null {
+		return this.getSuggestions().find( suggestion => suggestion.id == id ) || null;
+	}
+
+	/**
+	 * Returns suggestions intersecting the given range. For a collapsed range, the suggestions containing
+	 * the range position (including their boundaries) are returned.
+	 */
+	public getSuggestionsInRange( range: Range ): Array<Suggestion> {
+		return this.getSuggestions().filter( ( { range: suggestionRange } ) => {
+			if ( range.isCollapsed ) {
+				return suggestionRange.containsPosition( range.start ) ||
+					suggestionRange.start.isEqual( range.start ) ||
+					suggestionRange.end.isEqual( range.start );
+			}
+
+			return suggestionRange.isIntersecting( range );
+		} );
+	}
+
+	/**
+	 * Accepts the suggestion with the given id: an insertion or an attribute change stays in the content
+	 * and the deleted content is removed.
+	 */
+	public acceptSuggestion( id: string ): void {
+		this._resolveSuggestions( [ this._getSuggestionOrThrow( id ).id ], 'accept' );
+	}
+
+	/**
+	 * Rejects the suggestion with the given id: the inserted content is removed, the attribute is restored
+	 * to its previous value and the deleted content stays in the document.
+	 */
+	public rejectSuggestion( id: string ): void {
+		this._resolveSuggestions( [ this._getSuggestionOrThrow( id ).id ], 'reject' );
+	}
+
+	/**
+	 * Accepts all suggestions in the document in a single undo step.
+	 */
+	public acceptAllSuggestions(): void {
+		this._resolveSuggestions( this.getSuggestions().map( suggestion => suggestion.id ), 'accept' );
+	}
+
+	/**
+	 * Rejects all suggestions in the document in a single undo step.
+	 */
+	public rejectAllSuggestions(): void {
+		this._resolveSuggestions( this.getSuggestions().map( suggestion => suggestion.id ), 'reject' );
+	}
+
+	/**
+	 * Creates the suggestion object for the given marker. Returns `null` if the marker name is not a valid suggestion marker name.
+	 */
+	private _createSuggestion( marker: Marker ): Suggestion | null {
+		const data = parseSuggestionMarkerName( marker.name );
+
+		if ( !data ) {
+			return null;
+		}
+
+		const suggestion: Suggestion = {
+			id: data.id,
+			type: data.type,
+			author: this.getAuthor( data.authorId ),
+			markerName: marker.name,
+			range: marker.getRange()
+		};
+
+		if ( data.type == 'attribute' ) {
+			suggestion.attributeKey = data.attributeKey;
+			suggestion.attributeOldValue = data.attributeOldValue;
+		}
+
+		return suggestion;
+	}
+
+	/**
+	 * Returns the suggestion with the given id or throws an error if it does not exist.
+	 */
+	private _getSuggestionOrThrow( id: string ): Suggestion {
+		const suggestion = this.getSuggestion( id );
+
+		if ( !suggestion ) {
+			/**
+			 * The suggestion with the given id does not exist in the document.
+			 *
+			 * @error track-changes-suggestion-not-found
+			 * @param id The id of the suggestion.
+			 */
+			throw new CKEditorError( 'track-changes-suggestion-not-found', this, { id } );
+		}
+
+		return suggestion;
+	}
+
+	/**
+	 * Accepts or rejects suggestions with the given ids in a single change block. Suggestions are fetched
+	 * one by one because resolving a suggestion may change (or remove) the others.
+	 */
+	private _resolveSuggestions( ids: Array<string>, action: 'accept' | 'reject' ): void {
+		const model = this.editor.model;
+
+		model.change( writer => {
+			this._withTrackingSuspended( () => {
+				for ( const id of ids ) {
+					const suggestion = this.getSuggestion( id );
+
+					if ( suggestion ) {
+						this._resolveSuggestion( writer, suggestion, action );
+					}
+				}
+			} );
+		} );
+	}
+
+	/**
+	 * Accepts or rejects a single suggestion.
+	 */
+	private _resolveSuggestion( writer: Writer, suggestion: Suggestion, action: 'accept' | 'reject' ): void {
+		const model = this.editor.model;
+		const { type, range } = suggestion;
+
+		writer.removeMarker( suggestion.markerName );
+
+		if ( type == 'insertion' && action == 'reject' || type == 'deletion' && action == 'accept' ) {
+			model.deleteContent( writer.createSelection( range ), { doNotResetEntireContent: true } );
+		} else if ( type == 'attribute' && action == 'reject' ) {
+			const key = suggestion.attributeKey!;
+			const oldValue = suggestion.attributeOldValue;
+
+			for ( const validRange of Array.from( model.schema.getValidRanges( [ range ], key ) ) ) {
+				if ( oldValue === null ) {
+					writer.removeAttribute( key, validRange );
+				} else {
+					writer.setAttribute( key, oldValue, validRange );
+				}
+			}
+		}
+	}
+
+	/**
+	 * Marks the content of the selection as deleted. The content inserted by the current author in the suggestion mode
+	 * is removed instead. The selection is collapsed next to the deleted content, depending on the deletion direction.
+	 */
+	private _trackDeletion( writer: Writer, selection: Selection | DocumentSelection, direction?: 'forward' | 'backward' ): void {
+		const model = this.editor.model;
+		const suggestions = this.getSuggestions();
+		const ownInsertionRanges = suggestions
+			.filter( suggestion => suggestion.type == 'insertion' && suggestion.author.id == this.currentAuthor.id )
+			.map( suggestion => suggestion.range );
+		const deletionRanges = suggestions
+			.filter( suggestion => suggestion.type == 'deletion' )
+			.map( suggestion => suggestion.range );
+
+		const ranges = Array.from( selection.getRanges() );
+		const collapsePosition = LivePosition.fromPosition(
+			direction == 'backward' ? ranges[ 0 ].start : ranges[ ranges.length - 1 ].end,
+			// Do not let the position follow the content removed below to the graveyard.
+			'toNone'
+		);
+		const rangesToRemove: Array<LiveRange> = [];
+
+		for ( const range of ranges ) {
+			let rangesToMark = [ range ];
+
+			for ( const insertionRange of ownInsertionRanges ) {
+				const intersection = range.getIntersection( insertionRange );
+
+				if ( intersection ) {
+					rangesToRemove.push( LiveRange.fromRange( intersection ) );
+				}
+
+				rangesToMark = rangesToMark.flatMap( rangeToMark => rangeToMark.getDifference( insertionRange ) );
+			}
+
+			// Do not mark the content that is already marked as deleted.
+			for ( const deletionRange of deletionRanges ) {
+				rangesToMark = rangesToMark.flatMap( rangeToMark => rangeToMark.getDifference( deletionRange ) );
+			}
+
+			for ( const rangeToMark of rangesToMark ) {
+				if ( !rangeToMark.isCollapsed ) {
+					this._addSuggestionRange( writer, 'deletion', rangeToMark, true );
+				}
+			}
+		}
+
+		this._withTrackingSuspended( () => {
+			for ( const rangeToRemove of rangesToRemove ) {
+				model.deleteContent( writer.createSelection( rangeToRemove ), { doNotResetEntireContent: true } );
+				rangeToRemove.detach();
+			}
+		} );
+
+		const position = collapsePosition.toPosition();
+
+		collapsePosition.detach();
+
+		if ( selection.is( 'documentSelection' ) ) {
+			writer.setSelection( position );
+		} else {
+			selection.setTo( position );
+		}
+	}
+
+	/**
+	 * Marks the given range with a suggestion marker of the current author. Markers of the same type and author
+	 * that intersect (or touch) the range are merged with it.
+	 *
+	 * @param loose Whether ranges separated only by element boundaries should be merged, too.
+	 */
+	private _addSuggestionRange( writer: Writer, type: 'insertion' | 'deletion', range: Range, loose: boolean = false ): void {
+		const ownSuggestions = this.getSuggestions()
+			.filter( suggestion => suggestion.type == type && suggestion.author.id == this.currentAuthor.id );
+
+		let joinedSuggestion: Suggestion | null = null;
+		let joinedRange = range;
+
+		for ( const suggestion of ownSuggestions ) {
+			const joined = suggestion.range.getJoined( joinedRange, loose );
+
+			if ( !joined ) {
+				continue;
+			}
+
+			joinedRange = joined;
+
+			if ( joinedSuggestion ) {
+				writer.removeMarker( suggestion.markerName );
+			} else {
+				joinedSuggestion = suggestion;
+			}
+		}
+
+		if ( joinedSuggestion ) {
+			writer.updateMarker( joinedSuggestion.markerName, { range: joinedRange } );
+		} else {
+			writer.addMarker( getSuggestionMarkerName( { id: uid(), type, authorId: this.currentAuthor.id } ), {
+				range,
+				usingOperation: true,
+				affectsData: true
+			} );
+		}
+	}
+
+	/**
+	 * Records the result of an insert, split or (formatting) attribute operation if it should be tracked.
+	 * Operations applied on document fragments (e.g. while preparing the content to insert) are ignored.
+	 */
+	private _collectChange( operation: Operation ): void {
+		if ( !this.isTracking || !operation.isDocumentOperation || !operation.batch || !this._shouldTrackBatch( operation.batch ) ) {
+			return;
+		}
+
+		const model = this.editor.model;
+
+		if ( operation instanceof InsertOperation ) {
+			const { position, howMany } = operation;
+
+			if ( position.root != model.document.graveyard ) {
+				this._pendingChanges.push( {
+					type: 'insertion',
+					range: LiveRange.fromRange( model.createRange( position, position.getShiftedBy( howMany ) ) )
+				} );
+			}
+		} else if ( operation instanceof SplitOperation ) {
+			// Rejecting the "gap" between the split elements merges them back.
+			this._pendingChanges.push( {
+				type: 'insertion',
+				range: LiveRange.fromRange( model.createRange( operation.splitPosition, operation.moveTargetPosition ) )
+			} );
+		} else if ( operation instanceof AttributeOperation ) {
+			if ( model.schema.getAttributeProperties( operation.key ).isFormatting ) {
+				this._pendingChanges.push( {
+					type: 'attribute',
+					range: LiveRange.fromRange( operation.range ),
+					key: operation.key,
+					oldValue: operation.oldValue,
+					newValue: operation.newValue
+				} );
+			}
+		}
+	}
+
+	/**
+	 * The post-fixer turning the collected changes into suggestion markers. It also removes suggestion markers
+	 * that no longer contain any content.
+	 */
+	private _handlePendingChanges( writer: Writer ): boolean {
+		const model = this.editor.model;
+		let wasFixed = false;
+
+		for ( const change of this._pendingChanges.splice( 0 ) ) {
+			const range = change.range.toRange();
+
+			change.range.detach();
+
+			if ( range.isCollapsed || range.root == model.document.graveyard ) {
+				continue;
+			}
+
+			if ( change.type == 'insertion' ) {
+				wasFixed = this._trackInsertion( writer, range ) || wasFixed;
+			} else {
+				wasFixed = this._trackAttributeChange( writer, range, change ) || wasFixed;
+			}
+		}
+
+		// Markers of the removed content end up in the graveyard.
+		for ( const marker of Array.from( model.markers.getMarkersGroup( SUGGESTION_MARKER_GROUP ) ) ) {
+			const range = marker.getRange();
+
+			if ( range.isCollapsed || range.root == model.document.graveyard ) {
+				writer.removeMarker( marker );
+				wasFixed = true;
+			}
+		}
+
+		return wasFixed;
+	}
+
+	/**
+	 * Marks the inserted range as an insertion suggestion unless it is already a part of one.
+	 */
+	private _trackInsertion( writer: Writer, range: Range ): boolean {
+		const isAlreadyInserted = this.getSuggestions().some( suggestion =>
+			suggestion.type == 'insertion' && suggestion.range.containsRange( range, true )
+		);
+
+		if ( isAlreadyInserted ) {
+			return false;
+		}
+
+		this._addSuggestionRange( writer, 'insertion', range );
+
+		return true;
+	}
+
+	/**
+	 * Marks the range with changed attribute as an attribute suggestion. Restoring the previous value of the attribute
+	 * on the same range removes the suggestion. Changes of the content inserted by the current author are not tracked.
+	 */
+	private _trackAttributeChange( writer: Writer, range: Range, { key, oldValue, newValue }: PendingAttributeChange ): boolean {
+		const authorId = this.currentAuthor.id;
+		const suggestions = this.getSuggestions();
+
+		const isOwnInsertion = suggestions.some( suggestion =>
+			suggestion.type == 'insertion' && suggestion.author.id == authorId && suggestion.range.containsRange( range, true )
+		);
+
+		if ( isOwnInsertion ) {
+			return false;
+		}
+
+		for ( const suggestion of suggestions ) {
+			if ( suggestion.type != 'attribute' || suggestion.attributeKey != key ) {
+				continue;
+			}
+
+			if ( suggestion.range.isEqual( range ) && isEqual( suggestion.attributeOldValue, newValue === undefined ? null : newValue ) ) {
+				writer.removeMarker( suggestion.markerName );
+
+				return true;
+			}
+
+			if ( suggestion.range.containsRange( range, true ) ) {
+				return false;
+			}
+		}
+
+		const markerName = getSuggestionMarkerName( {
+			id: uid(),
+			type: 'attribute',
+			authorId,
+			attributeKey: key,
+			attributeOldValue: oldValue
+		} );
+
+		writer.addMarker( markerName, {
+			range,
+			usingOperation: true,
+			affectsData: true
+		} );
+
+		return true;
+	}
+
+	/**
+	 * Checks whether the changes in the given batch should be recorded as suggestions. Changes coming from
+	 * other clients, undo steps and batches that should not be undoable are applied as they are.
+	 */
+	private _shouldTrackBatch( batch: Batch ): boolean {
+		return batch.isLocal && batch.isUndoable && !batch.isUndo;
+	}
+
+	/**
+	 * Executes the callback with the tracking of the changes disabled.
+	 */
+	private _withTrackingSuspended( callback: () => void ): void {
+		const wasSuspended = this._isTrackingSuspended;
+
+		this._isTrackingSuspended = true;
+
+		try {
+			callback();
+		} finally {
+			this._isTrackingSuspended = wasSuspended;
+		}
+	}
+}
+
+/**
+ * The type of a suggestion.
+ */
+export type SuggestionType = 'insertion' | 'deletion' | 'attribute';
+
+/**
+ * A change suggested in the suggestion mode. Suggestions are stored in the document as `suggestion:*` markers.
+ */
+export interface Suggestion {
+
+	/**
+	 * The unique id of the suggestion.
+	 */
+	id: string;
+
+	/**
+	 * The type of the suggestion.
+	 */
+	type: SuggestionType;
+
+	/**
+	 * The author of the suggestion.
+	 */
+	author: SuggestionAuthor;
+
+	/**
+	 * The name of the marker storing the suggestion.
+	 */
+	markerName: string;
+
+	/**
+	 * The range of the suggested change.
+	 */
+	range: Range;
+
+	/**
+	 * The key of the attribute changed by an `'attribute'` suggestion.
+	 */
+	attributeKey?: string;
+
+	/**
+	 * The value of the attribute before it was changed by an `'attribute'` suggestion.
+	 * `null` means that the attribute was not set.
+	 */
+	attributeOldValue?: unknown;
+}
+
+type PendingChange = PendingInsertion | PendingAttributeChange;
+
+interface PendingInsertion {
+	type: 'insertion';
+	range: LiveRange;
+}
+
+interface PendingAttributeChange {
+	type: 'attribute';
+	range: LiveRange;
+	key: string;
+	oldValue: unknown;
+	newValue: unknown;
+}
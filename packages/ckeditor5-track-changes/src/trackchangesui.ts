@@ -0,0 +1,97 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module track-changes/trackchangesui
+ */
+
+import { Plugin, icons } from 'ckeditor5/src/core';
+import { ButtonView } from 'ckeditor5/src/ui';
+
+import trackChangesIcon from '../theme/icons/track-changes.svg';
+
+/**
+ * The UI plugin of the track changes feature.
+ *
+ * It registers the following buttons in the editor's {@link module:ui/componentfactory~ComponentFactory component factory}:
+ *
+ * * `'trackChanges'` &ndash; toggles the suggestion mode,
+ * * `'acceptSuggestion'` and `'rejectSuggestion'` &ndash; resolve the suggestion at the selection,
+ * * `'acceptAllSuggestions'` and `'rejectAllSuggestions'` &ndash; resolve all suggestions in the document.
+ */
+export default class TrackChangesUI extends Plugin {
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'TrackChangesUI' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.t;
+
+		editor.ui.componentFactory.add( 'trackChanges', locale => {
+			const command = editor.commands.get( 'trackChanges' )!;
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label: t( 'Track changes' ),
+				icon: trackChangesIcon,
+				tooltip: true,
+				isToggleable: true
+			} );
+
+			view.bind( 'isOn' ).to( command, 'value' );
+			view.bind( 'isEnabled' ).to( command );
+
+			this.listenTo( view, 'execute', () => {
+				editor.execute( 'trackChanges' );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+
+		this._addButton( 'acceptSuggestion', t( 'Accept suggestion' ), icons.check );
+		this._addButton( 'rejectSuggestion', t( 'Reject suggestion' ), icons.cancel );
+		this._addButton( 'acceptAllSuggestions', t( 'Accept all suggestions' ), icons.check );
+		this._addButton( 'rejectAllSuggestions', t( 'Reject all suggestions' ), icons.cancel );
+	}
+
+	/**
+	 * Creates a button executing the command of the same name and registers it in the component factory.
+	 */
+	private _addButton(
+		name: 'acceptSuggestion' | 'rejectSuggestion' | 'acceptAllSuggestions' | 'rejectAllSuggestions',
+		label: string,
+		icon: string
+	): void {
+		const editor = this.editor;
+
+		editor.ui.componentFactory.add( name, locale => {
+			const command = editor.commands.get( name )!;
+			const view = new ButtonView( locale );
+
+			view.set( {
+				label,
+				icon,
+				tooltip: true
+			} );
+
+			view.bind( 'isEnabled' ).to( command );
+
+			this.listenTo( view, 'execute', () => {
+				editor.execute( name );
+				editor.editing.view.focus();
+			} );
+
+			return view;
+		} );
+	}
+}
@@ -0,0 +1,100 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module track-changes/utils
+ */
+
+import type { SuggestionType } from './trackchangesediting';
+
+/**
+ * The name of the marker group used by all suggestions.
+ */
+export const SUGGESTION_MARKER_GROUP = 'suggestion';
+
+/**
+ * The data stored in a suggestion marker name.
+ */
+export interface SuggestionMarkerData {
+
+	/**
+	 * The unique id of the suggestion.
+	 */
+	id: string;
+
+	/**
+	 * The type of the suggestion.
+	 */
+	type: SuggestionType;
+
+	/**
+	 * The id of the suggestion author.
+	 */
+	authorId: string;
+
+	/**
+	 * The key of the attribute changed by an `'attribute'` suggestion.
+	 */
+	attributeKey?: string;
+
+	/**
+	 * The value of the attribute before it was changed by an `'attribute'` suggestion.
+	 * `null` means that the attribute was not set.
+	 */
+	attributeOldValue?: unknown;
+}
+
+/**
+ * Creates the name of a suggestion marker. All parts of the name are URI-encoded so they never contain the `:` separator.
+ *
+ * ```ts
+ * getSuggestionMarkerName( { id: 'e1d2', type: 'insertion', authorId: 'jd' } );
+ * // -> 'suggestion:insertion:e1d2:jd'
+ *
+ * getSuggestionMarkerName( { id: 'e1d2', type: 'attribute', authorId: 'jd', attributeKey: 'bold', attributeOldValue: null } );
+ * // -> 'suggestion:attribute:e1d2:jd:bold:null'
+ * ```
+ */
+export function getSuggestionMarkerName( { id, type, authorId, attributeKey, attributeOldValue }: SuggestionMarkerData ): string {
+	const parts = [ SUGGESTION_MARKER_GROUP, type, id, authorId ];
+
+	if ( type == 'attribute' ) {
+		parts.push( attributeKey!, JSON.stringify( attributeOldValue === undefined ? null : attributeOldValue ) );
+	}
+
+	return parts.map( ( part, index ) => index ? encodeURIComponent( part ) : part ).join( ':' );
+}
+
+/**
+ * Parses the name of a suggestion marker created by {@link ~getSuggestionMarkerName}. Returns `null` if the name
+ * does not belong to a valid suggestion marker.
+ */
+export function parseSuggestionMarkerName( markerName: string ): SuggestionMarkerData | null {
+	const [ group, ...parts ] = markerName.split( ':' );
+
+	if ( group != SUGGESTION_MARKER_GROUP ) {
+		return null;
+	}
+
+	const [ type, id, authorId, attributeKey, attributeOldValue ] = parts.map( decodeURIComponent );
+
+	if ( !id || !authorId ) {
+		return null;
+	}
+
+	if ( type == 'insertion' || type == 'deletion' ) {
+		return { id, type, authorId };
+	}
+
+	if ( type == 'attribute' && attributeKey && attributeOldValue !== undefined ) {
+		try {
+			return { id, type, authorId, attributeKey, attributeOldValue: JSON.parse( attributeOldValue ) };
+		} catch {
+			return null;
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,72 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+
+import TrackChangesEditing from '../src/trackchangesediting';
+
+describe( 'AllSuggestionsCommand', () => {
+	let editor, acceptCommand, rejectCommand;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, TrackChangesEditing ]
+		} );
+
+		acceptCommand = editor.commands.get( 'acceptAllSuggestions' );
+		rejectCommand = editor.commands.get( 'rejectAllSuggestions' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	it( 'should store the action', () => {
+		expect( acceptCommand.action ).to.equal( 'accept' );
+		expect( rejectCommand.action ).to.equal( 'reject' );
+	} );
+
+	describe( 'refresh()', () => {
+		it( 'should be disabled when there are no suggestions', () => {
+			editor.setData( '<p>foo</p>' );
+
+			expect( acceptCommand.isEnabled ).to.be.false;
+			expect( rejectCommand.isEnabled ).to.be.false;
+		} );
+
+		it( 'should be enabled when there are suggestions in the document', () => {
+			editor.setData( '<p>' + suggestion( 'insertion:s1:ann', 'foo' ) + '</p>' );
+
+			expect( acceptCommand.isEnabled ).to.be.true;
+			expect( rejectCommand.isEnabled ).to.be.true;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		beforeEach( () => {
+			editor.setData(
+				'<p>f' + suggestion( 'deletion:s1:ann', 'oo' ) +
+				'b' + suggestion( 'insertion:s2:ann', 'a' ) + 'r</p>'
+			);
+		} );
+
+		it( 'should accept all suggestions', () => {
+			editor.execute( 'acceptAllSuggestions' );
+
+			expect( editor.getData() ).to.equal( '<p>fbar</p>' );
+		} );
+
+		it( 'should reject all suggestions', () => {
+			editor.execute( 'rejectAllSuggestions' );
+
+			expect( editor.getData() ).to.equal( '<p>foobr</p>' );
+		} );
+	} );
+} );
+
+function suggestion( name, content ) {
+	return `<suggestion-start name="${ name }"></suggestion-start>${ content }<suggestion-end name="${ name }"></suggestion-end>`;
+}
@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { TrackChanges as TrackChangesDLL, TrackChangesEditing as TrackChangesEditingDLL } from '../src';
+import TrackChanges from '../src/trackchanges';
+import TrackChangesEditing from '../src/trackchangesediting';
+
+describe( 'TrackChanges DLL', () => {
+	it( 'exports TrackChanges', () => {
+		expect( TrackChangesDLL ).to.equal( TrackChanges );
+	} );
+
+	it( 'exports TrackChangesEditing', () => {
+		expect( TrackChangesEditingDLL ).to.equal( TrackChangesEditing );
+	} );
+} );
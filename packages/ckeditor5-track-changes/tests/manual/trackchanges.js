@@ -0,0 +1,43 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals window, document, console */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+
+import TrackChanges from '../../src/trackchanges';
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [ ArticlePluginSet, TrackChanges ],
+		toolbar: [
+			'trackChanges', 'acceptSuggestion', 'rejectSuggestion', 'acceptAllSuggestions', 'rejectAllSuggestions',
+			'|', 'heading', '|', 'bold', 'italic', 'link', '|', 'bulletedList', 'numberedList', 'blockQuote', 'insertTable',
+			'|', 'undo', 'redo'
+		],
+		image: {
+			toolbar: [ 'imageStyle:inline', 'imageStyle:block', 'imageStyle:side', '|', 'imageTextAlternative' ]
+		},
+		table: {
+			contentToolbar: [ 'tableColumn', 'tableRow', 'mergeTableCells' ]
+		},
+		trackChanges: {
+			author: { id: 'jd', name: 'John Doe' }
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+
+		const trackChanges = editor.plugins.get( 'TrackChangesEditing' );
+
+		trackChanges.addAuthor( { id: 'ann', name: 'Ann' } );
+		trackChanges.addAuthor( { id: 'bob', name: 'Bob' } );
+
+		editor.execute( 'trackChanges' );
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
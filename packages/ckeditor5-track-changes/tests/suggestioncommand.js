@@ -0,0 +1,102 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+
+import TrackChangesEditing from '../src/trackchangesediting';
+
+describe( 'SuggestionCommand', () => {
+	let editor, model, plugin, acceptCommand, rejectCommand;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, TrackChangesEditing ]
+		} );
+
+		model = editor.model;
+		plugin = editor.plugins.get( 'TrackChangesEditing' );
+		acceptCommand = editor.commands.get( 'acceptSuggestion' );
+		rejectCommand = editor.commands.get( 'rejectSuggestion' );
+
+		editor.setData(
+			'<p>f' + suggestion( 'deletion:s1:ann', 'oo' ) +
+			'b' + suggestion( 'insertion:s2:ann', 'a' ) + 'r</p>'
+		);
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	it( 'should store the action', () => {
+		expect( acceptCommand.action ).to.equal( 'accept' );
+		expect( rejectCommand.action ).to.equal( 'reject' );
+	} );
+
+	describe( 'refresh()', () => {
+		it( 'should be enabled and have the suggestion at the selection as the value', () => {
+			setSelection( 2 );
+
+			expect( acceptCommand.isEnabled ).to.be.true;
+			expect( acceptCommand.value.id ).to.equal( 's1' );
+			expect( rejectCommand.value.id ).to.equal( 's1' );
+		} );
+
+		it( 'should be disabled when there is no suggestion at the selection', () => {
+			setSelection( 0 );
+
+			expect( acceptCommand.isEnabled ).to.be.false;
+			expect( acceptCommand.value ).to.be.null;
+		} );
+
+		it( 'should be disabled in the read-only mode', () => {
+			setSelection( 2 );
+			editor.enableReadOnlyMode( 'unit-test' );
+
+			expect( acceptCommand.isEnabled ).to.be.false;
+		} );
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should accept the suggestion at the selection', () => {
+			setSelection( 2 );
+
+			editor.execute( 'acceptSuggestion' );
+
+			expect( editor.getData() ).to.equal(
+				'<p>fb' + suggestion( 'insertion:s2:ann', 'a' ) + 'r</p>'
+			);
+		} );
+
+		it( 'should reject the suggestion at the selection', () => {
+			setSelection( 5 );
+
+			editor.execute( 'rejectSuggestion' );
+
+			expect( editor.getData() ).to.equal(
+				'<p>f' + suggestion( 'deletion:s1:ann', 'oo' ) + 'br</p>'
+			);
+		} );
+
+		it( 'should resolve the suggestion with the given id', () => {
+			setSelection( 2 );
+
+			editor.execute( 'acceptSuggestion', { id: 's2' } );
+
+			expect( plugin.getSuggestions().map( suggestion => suggestion.id ) ).to.deep.equal( [ 's1' ] );
+		} );
+	} );
+
+	function setSelection( offset ) {
+		model.change( writer => {
+			writer.setSelection( model.document.getRoot().getChild( 0 ), offset );
+		} );
+	}
+} );
+
+function suggestion( name, content ) {
+	return `<suggestion-start name="${ name }"></suggestion-start>${ content }<suggestion-end name="${ name }"></suggestion-end>`;
+}
@@ -0,0 +1,18 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import TrackChanges from '../src/trackchanges';
+import TrackChangesEditing from '../src/trackchangesediting';
+import TrackChangesUI from '../src/trackchangesui';
+
+describe( 'TrackChanges', () => {
+	it( 'should be correctly named', () => {
+		expect( TrackChanges.pluginName ).to.equal( 'TrackChanges' );
+	} );
+
+	it( 'should require TrackChangesEditing and TrackChangesUI', () => {
+		expect( TrackChanges.requires ).to.deep.equal( [ TrackChangesEditing, TrackChangesUI ] );
+	} );
+} );
@@ -0,0 +1,62 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+
+import TrackChangesEditing from '../src/trackchangesediting';
+
+describe( 'TrackChangesCommand', () => {
+	let editor, command;
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, TrackChangesEditing ]
+		} );
+
+		command = editor.commands.get( 'trackChanges' );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	it( 'should not affect data', () => {
+		expect( command.affectsData ).to.be.false;
+	} );
+
+	it( 'should be off by default', () => {
+		expect( command.value ).to.be.false;
+	} );
+
+	it( 'should be enabled in the read-only mode', () => {
+		editor.enableReadOnlyMode( 'unit-test' );
+
+		expect( command.isEnabled ).to.be.true;
+	} );
+
+	describe( 'execute()', () => {
+		it( 'should toggle the value', () => {
+			editor.execute( 'trackChanges' );
+
+			expect( command.value ).to.be.true;
+
+			editor.execute( 'trackChanges' );
+
+			expect( command.value ).to.be.false;
+		} );
+
+		it( 'should set the value passed in the forceValue option', () => {
+			editor.execute( 'trackChanges', { forceValue: true } );
+			editor.execute( 'trackChanges', { forceValue: true } );
+
+			expect( command.value ).to.be.true;
+
+			editor.execute( 'trackChanges', { forceValue: false } );
+
+			expect( command.value ).to.be.false;
+		} );
+	} );
+} );
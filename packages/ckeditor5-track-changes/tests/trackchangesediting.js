@@ -0,0 +1,497 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import VirtualTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/virtualtesteditor';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import BoldEditing from '@ckeditor/ckeditor5-basic-styles/src/bold/boldediting';
+import Typing from '@ckeditor/ckeditor5-typing/src/typing';
+import Enter from '@ckeditor/ckeditor5-enter/src/enter';
+import UndoEditing from '@ckeditor/ckeditor5-undo/src/undoediting';
+import { getData as getModelData, setData as setModelData } from '@ckeditor/ckeditor5-engine/src/dev-utils/model';
+import { getData as getViewData } from '@ckeditor/ckeditor5-engine/src/dev-utils/view';
+import { expectToThrowCKEditorError } from '@ckeditor/ckeditor5-utils/tests/_utils/utils';
+
+import TrackChangesEditing from '../src/trackchangesediting';
+import TrackChangesCommand from '../src/trackchangescommand';
+import SuggestionCommand from '../src/suggestioncommand';
+import AllSuggestionsCommand from '../src/allsuggestionscommand';
+
+describe( 'TrackChangesEditing', () => {
+	let editor, model, plugin;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		editor = await VirtualTestEditor.create( {
+			plugins: [ Paragraph, BoldEditing, Typing, Enter, UndoEditing, TrackChangesEditing ],
+			trackChanges: {
+				author: { id: 'jd', name: 'John Doe' }
+			}
+		} );
+
+		model = editor.model;
+		plugin = editor.plugins.get( TrackChangesEditing );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( TrackChangesEditing.pluginName ).to.equal( 'TrackChangesEditing' );
+	} );
+
+	it( 'should register the commands', () => {
+		expect( editor.commands.get( 'trackChanges' ) ).to.be.instanceOf( TrackChangesCommand );
+		expect( editor.commands.get( 'acceptSuggestion' ) ).to.be.instanceOf( SuggestionCommand );
+		expect( editor.commands.get( 'rejectSuggestion' ) ).to.be.instanceOf( SuggestionCommand );
+		expect( editor.commands.get( 'acceptAllSuggestions' ) ).to.be.instanceOf( AllSuggestionsCommand );
+		expect( editor.commands.get( 'rejectAllSuggestions' ) ).to.be.instanceOf( AllSuggestionsCommand );
+	} );
+
+	describe( 'authors', () => {
+		it( 'should use the configured author as the current author', () => {
+			expect( plugin.currentAuthor ).to.deep.equal( { id: 'jd', name: 'John Doe' } );
+			expect( plugin.getAuthor( 'jd' ) ).to.equal( plugin.currentAuthor );
+		} );
+
+		it( 'should use an anonymous author by default', async () => {
+			const editor = await VirtualTestEditor.create( { plugins: [ Paragraph, TrackChangesEditing ] } );
+
+			expect( editor.plugins.get( TrackChangesEditing ).currentAuthor ).to.deep.equal( { id: 'anonymous', name: 'Anonymous' } );
+
+			await editor.destroy();
+		} );
+
+		it( 'should allow adding authors', () => {
+			plugin.addAuthor( { id: 'ann', name: 'Ann' } );
+
+			expect( plugin.getAuthor( 'ann' ) ).to.deep.equal( { id: 'ann', name: 'Ann' } );
+		} );
+
+		it( 'should use the id as the name of an unknown author', () => {
+			expect( plugin.getAuthor( 'xyz' ) ).to.deep.equal( { id: 'xyz', name: 'xyz' } );
+		} );
+	} );
+
+	describe( 'suggestion mode off', () => {
+		it( 'should not track insertions', () => {
+			setModelData( model, '<paragraph>foo[]</paragraph>' );
+
+			editor.execute( 'insertText', { text: 'bar' } );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>foobar[]</paragraph>' );
+			expect( plugin.getSuggestions() ).to.be.empty;
+		} );
+
+		it( 'should not track deletions', () => {
+			setModelData( model, '<paragraph>foo[]</paragraph>' );
+
+			editor.execute( 'delete' );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>fo[]</paragraph>' );
+			expect( plugin.getSuggestions() ).to.be.empty;
+		} );
+	} );
+
+	describe( 'suggestion mode on', () => {
+		beforeEach( () => {
+			setModelData( model, '<paragraph>foo[]bar</paragraph>' );
+			editor.execute( 'trackChanges' );
+		} );
+
+		describe( 'insertions', () => {
+			it( 'should mark inserted text as an insertion', () => {
+				editor.execute( 'insertText', { text: 'xy' } );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>fooxy[]bar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [ 'insertion:jd [0,3]-[0,5]' ] );
+			} );
+
+			it( 'should extend the insertion of the same author when typing', () => {
+				editor.execute( 'insertText', { text: 'x' } );
+				editor.execute( 'insertText', { text: 'y' } );
+
+				expect( stringifySuggestions() ).to.deep.equal( [ 'insertion:jd [0,3]-[0,5]' ] );
+			} );
+
+			it( 'should mark splitting a block as an insertion', () => {
+				editor.execute( 'enter' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>foo</paragraph><paragraph>[]bar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [ 'insertion:jd [0,3]-[1,0]' ] );
+			} );
+
+			it( 'should mark content inserted with Model#insertContent() as an insertion', () => {
+				model.change( writer => {
+					model.insertContent( writer.createText( 'abc' ) );
+				} );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>fooabc[]bar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [ 'insertion:jd [0,3]-[0,6]' ] );
+			} );
+
+			it( 'should not track changes in a batch that is not undoable', () => {
+				model.enqueueChange( { isUndoable: false }, writer => {
+					writer.insertText( 'abc', model.document.selection.getFirstPosition() );
+				} );
+
+				expect( plugin.getSuggestions() ).to.be.empty;
+			} );
+
+			it( 'should not track remote changes', () => {
+				model.enqueueChange( { isLocal: false }, writer => {
+					writer.insertText( 'abc', model.document.selection.getFirstPosition() );
+				} );
+
+				expect( plugin.getSuggestions() ).to.be.empty;
+			} );
+
+			it( 'should not track changes in a document fragment', () => {
+				model.change( writer => {
+					const fragment = writer.createDocumentFragment();
+
+					writer.insertText( 'abc', fragment );
+				} );
+
+				expect( plugin.getSuggestions() ).to.be.empty;
+			} );
+
+			it( 'should be undone together with the content', () => {
+				editor.execute( 'insertText', { text: 'xy' } );
+				editor.execute( 'undo' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>foo[]bar</paragraph>' );
+				expect( plugin.getSuggestions() ).to.be.empty;
+			} );
+		} );
+
+		describe( 'deletions', () => {
+			it( 'should mark deleted content as a deletion and move the selection before it (backward)', () => {
+				editor.execute( 'delete' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>fo[]obar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [ 'deletion:jd [0,2]-[0,3]' ] );
+			} );
+
+			it( 'should mark deleted content as a deletion and move the selection after it (forward)', () => {
+				editor.execute( 'deleteForward' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>foob[]ar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [ 'deletion:jd [0,3]-[0,4]' ] );
+			} );
+
+			it( 'should extend the deletion of the same author', () => {
+				editor.execute( 'delete' );
+				editor.execute( 'delete' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>f[]oobar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [ 'deletion:jd [0,1]-[0,3]' ] );
+			} );
+
+			it( 'should not mark already deleted content again', () => {
+				editor.execute( 'delete' );
+				editor.execute( 'deleteForward' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>foo[]bar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [ 'deletion:jd [0,2]-[0,3]' ] );
+			} );
+
+			it( 'should remove the content inserted by the same author instead of marking it', () => {
+				editor.execute( 'insertText', { text: 'xy' } );
+				editor.execute( 'delete' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>foox[]bar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [ 'insertion:jd [0,3]-[0,4]' ] );
+
+				editor.execute( 'delete' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>foo[]bar</paragraph>' );
+				expect( plugin.getSuggestions() ).to.be.empty;
+			} );
+
+			it( 'should mark the replaced content as a deletion when typing over a selection', () => {
+				setModelData( model, '<paragraph>f[oo]bar</paragraph>', { batchType: { isUndoable: false } } );
+
+				editor.execute( 'insertText', { text: 'x' } );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>foox[]bar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [
+					'deletion:jd [0,1]-[0,3]',
+					'insertion:jd [0,3]-[0,4]'
+				] );
+			} );
+
+			it( 'should collapse a non-document selection passed to Model#deleteContent()', () => {
+				model.change( writer => {
+					const selection = writer.createSelection( writer.createRange(
+						writer.createPositionAt( model.document.getRoot().getChild( 0 ), 1 ),
+						writer.createPositionAt( model.document.getRoot().getChild( 0 ), 3 )
+					) );
+
+					model.deleteContent( selection );
+
+					expect( selection.isCollapsed ).to.be.true;
+					expect( selection.getFirstPosition().path ).to.deep.equal( [ 0, 3 ] );
+				} );
+
+				expect( stringifySuggestions() ).to.deep.equal( [ 'deletion:jd [0,1]-[0,3]' ] );
+			} );
+
+			it( 'should delete the content in a batch that should not be tracked', () => {
+				setModelData( model, '<paragraph>f[oo]bar</paragraph>', { batchType: { isUndoable: false } } );
+
+				model.enqueueChange( { isUndoable: false }, () => {
+					model.deleteContent( model.document.selection );
+				} );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>f[]bar</paragraph>' );
+				expect( plugin.getSuggestions() ).to.be.empty;
+			} );
+		} );
+
+		describe( 'attribute changes', () => {
+			beforeEach( () => {
+				setModelData( model, '<paragraph>[foo]bar</paragraph>', { batchType: { isUndoable: false } } );
+			} );
+
+			it( 'should mark a formatting attribute change', () => {
+				editor.execute( 'bold' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>[<$text bold="true">foo</$text>]bar</paragraph>' );
+				expect( stringifySuggestions() ).to.deep.equal( [ 'attribute:jd [0,0]-[0,3]' ] );
+
+				const suggestion = plugin.getSuggestions()[ 0 ];
+
+				expect( suggestion.attributeKey ).to.equal( 'bold' );
+				expect( suggestion.attributeOldValue ).to.be.null;
+			} );
+
+			it( 'should remove the suggestion when the attribute is restored', () => {
+				editor.execute( 'bold' );
+				editor.execute( 'bold' );
+
+				expect( getModelData( model ) ).to.equal( '<paragraph>[foo]bar</paragraph>' );
+				expect( plugin.getSuggestions() ).to.be.empty;
+			} );
+
+			it( 'should not track non-formatting attributes', () => {
+				model.schema.extend( '$text', { allowAttributes: 'foo' } );
+
+				model.change( writer => {
+					writer.setAttribute( 'foo', 'bar', model.document.selection.getFirstRange() );
+				} );
+
+				expect( plugin.getSuggestions() ).to.be.empty;
+			} );
+
+			it( 'should not track attribute changes of the content inserted by the same author', () => {
+				setModelData( model, '<paragraph>foo[]</paragraph>', { batchType: { isUndoable: false } } );
+
+				editor.execute( 'insertText', { text: 'bar' } );
+
+				model.change( writer => {
+					writer.setSelection( writer.createRange(
+						writer.createPositionFromPath( model.document.getRoot(), [ 0, 3 ] ),
+						writer.createPositionFromPath( model.document.getRoot(), [ 0, 6 ] )
+					) );
+				} );
+
+				editor.execute( 'bold' );
+
+				expect( stringifySuggestions() ).to.deep.equal( [ 'insertion:jd [0,3]-[0,6]' ] );
+			} );
+		} );
+
+		describe( 'suggestion markers', () => {
+			it( 'should remove suggestion markers without content', () => {
+				editor.execute( 'insertText', { text: 'x' } );
+
+				model.change( writer => {
+					const marker = model.markers.getMarkersGroup( 'suggestion' ).next().value;
+
+					writer.remove( marker.getRange() );
+				} );
+
+				expect( Array.from( model.markers ) ).to.be.empty;
+			} );
+		} );
+	} );
+
+	describe( 'conversion', () => {
+		it( 'should highlight suggestions in the editing view', () => {
+			setModelData( model, '<paragraph>foo[]bar</paragraph>' );
+			editor.execute( 'trackChanges' );
+			editor.execute( 'insertText', { text: 'x' } );
+
+			const id = plugin.getSuggestions()[ 0 ].id;
+
+			expect( getViewData( editor.editing.view, { withoutSelection: true } ) ).to.equal(
+				'<p>foo' +
+					'<span class="ck-suggestion-marker ck-suggestion-marker-insertion" ' +
+						`data-suggestion="${ id }" title="John Doe">x</span>` +
+				'bar</p>'
+			);
+		} );
+
+		it( 'should convert suggestions to and from the data', () => {
+			editor.setData( '<p>f' + suggestion( 'deletion:s1:ann', 'oo' ) + 'bar</p>' );
+
+			expect( stringifySuggestions() ).to.deep.equal( [ 'deletion:ann [0,1]-[0,3]' ] );
+			expect( plugin.getSuggestion( 's1' ).author ).to.deep.equal( { id: 'ann', name: 'ann' } );
+
+			expect( editor.getData() ).to.equal( '<p>f' + suggestion( 'deletion:s1:ann', 'oo' ) + 'bar</p>' );
+		} );
+	} );
+
+	describe( 'getSuggestionsInRange()', () => {
+		beforeEach( () => {
+			editor.setData(
+				'<p>f' + suggestion( 'deletion:s1:ann', 'oo' ) +
+				'b' + suggestion( 'insertion:s2:ann', 'a' ) + 'r</p>'
+			);
+		} );
+
+		it( 'should return suggestions containing the position of a collapsed range (including boundaries)', () => {
+			const root = model.document.getRoot();
+
+			expect( getIds( model.createRange( model.createPositionFromPath( root, [ 0, 1 ] ) ) ) ).to.deep.equal( [ 's1' ] );
+			expect( getIds( model.createRange( model.createPositionFromPath( root, [ 0, 2 ] ) ) ) ).to.deep.equal( [ 's1' ] );
+			expect( getIds( model.createRange( model.createPositionFromPath( root, [ 0, 0 ] ) ) ) ).to.deep.equal( [] );
+		} );
+
+		it( 'should return suggestions intersecting a non-collapsed range', () => {
+			const root = model.document.getRoot();
+			const range = model.createRange(
+				model.createPositionFromPath( root, [ 0, 2 ] ),
+				model.createPositionFromPath( root, [ 0, 5 ] )
+			);
+
+			expect( getIds( range ) ).to.deep.equal( [ 's1', 's2' ] );
+		} );
+
+		function getIds( range ) {
+			return plugin.getSuggestionsInRange( range ).map( suggestion => suggestion.id );
+		}
+	} );
+
+	describe( 'accepting and rejecting suggestions', () => {
+		beforeEach( () => {
+			editor.setData(
+				'<p>f' + suggestion( 'deletion:s1:ann', 'oo' ) +
+				'b' + suggestion( 'insertion:s2:ann', 'a' ) + 'r</p>'
+			);
+		} );
+
+		it( 'should remove the deleted content when a deletion is accepted', () => {
+			plugin.acceptSuggestion( 's1' );
+
+			expect( editor.getData() ).to.equal(
+				'<p>fb' + suggestion( 'insertion:s2:ann', 'a' ) + 'r</p>'
+			);
+		} );
+
+		it( 'should keep the deleted content when a deletion is rejected', () => {
+			plugin.rejectSuggestion( 's1' );
+
+			expect( editor.getData() ).to.equal(
+				'<p>foob' + suggestion( 'insertion:s2:ann', 'a' ) + 'r</p>'
+			);
+		} );
+
+		it( 'should keep the inserted content when an insertion is accepted', () => {
+			plugin.acceptSuggestion( 's2' );
+
+			expect( editor.getData() ).to.equal(
+				'<p>f' + suggestion( 'deletion:s1:ann', 'oo' ) + 'bar</p>'
+			);
+		} );
+
+		it( 'should remove the inserted content when an insertion is rejected', () => {
+			plugin.rejectSuggestion( 's2' );
+
+			expect( editor.getData() ).to.equal(
+				'<p>f' + suggestion( 'deletion:s1:ann', 'oo' ) + 'br</p>'
+			);
+		} );
+
+		it( 'should merge the blocks back when a split is rejected', () => {
+			setModelData( model, '<paragraph>foo[]bar</paragraph>' );
+			editor.execute( 'trackChanges' );
+			editor.execute( 'enter' );
+
+			plugin.rejectSuggestion( plugin.getSuggestions()[ 0 ].id );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>foo[]bar</paragraph>' );
+		} );
+
+		it( 'should restore the previous attribute value when an attribute change is rejected', () => {
+			setModelData( model, '<paragraph>[foo]bar</paragraph>' );
+			editor.execute( 'trackChanges' );
+			editor.execute( 'bold' );
+
+			plugin.rejectSuggestion( plugin.getSuggestions()[ 0 ].id );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[foo]bar</paragraph>' );
+			expect( plugin.getSuggestions() ).to.be.empty;
+		} );
+
+		it( 'should keep the attribute value when an attribute change is accepted', () => {
+			setModelData( model, '<paragraph>[foo]bar</paragraph>' );
+			editor.execute( 'trackChanges' );
+			editor.execute( 'bold' );
+
+			plugin.acceptSuggestion( plugin.getSuggestions()[ 0 ].id );
+
+			expect( getModelData( model ) ).to.equal( '<paragraph>[<$text bold="true">foo</$text>]bar</paragraph>' );
+			expect( plugin.getSuggestions() ).to.be.empty;
+		} );
+
+		it( 'should not track the changes made while resolving suggestions', () => {
+			editor.execute( 'trackChanges' );
+
+			plugin.acceptSuggestion( 's1' );
+
+			expect( plugin.getSuggestions().map( suggestion => suggestion.id ) ).to.deep.equal( [ 's2' ] );
+		} );
+
+		it( 'should accept all suggestions in a single undo step', () => {
+			plugin.acceptAllSuggestions();
+
+			expect( editor.getData() ).to.equal( '<p>fbar</p>' );
+
+			editor.execute( 'undo' );
+
+			expect( plugin.getSuggestions() ).to.have.length( 2 );
+		} );
+
+		it( 'should reject all suggestions', () => {
+			plugin.rejectAllSuggestions();
+
+			expect( editor.getData() ).to.equal( '<p>foobr</p>' );
+		} );
+
+		it( 'should throw when the suggestion does not exist', () => {
+			expectToThrowCKEditorError( () => {
+				plugin.acceptSuggestion( 'xyz' );
+			}, 'track-changes-suggestion-not-found', plugin, { id: 'xyz' } );
+
+			expectToThrowCKEditorError( () => {
+				plugin.rejectSuggestion( 'xyz' );
+			}, 'track-changes-suggestion-not-found', plugin, { id: 'xyz' } );
+		} );
+	} );
+
+	function stringifySuggestions() {
+		return plugin.getSuggestions().map( ( { type, author, range } ) =>
+			`${ type }:${ author.id } [${ range.start.path }]-[${ range.end.path }]`
+		);
+	}
+} );
+
+function suggestion( name, content ) {
+	return `<suggestion-start name="${ name }"></suggestion-start>${ content }<suggestion-end name="${ name }"></suggestion-end>`;
+}
@@ -0,0 +1,124 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { global } from '@ckeditor/ckeditor5-utils';
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import Paragraph from '@ckeditor/ckeditor5-paragraph/src/paragraph';
+import { ButtonView } from '@ckeditor/ckeditor5-ui';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import TrackChangesEditing from '../src/trackchangesediting';
+import TrackChangesUI from '../src/trackchangesui';
+
+describe( 'TrackChangesUI', () => {
+	let editor, element;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		element = global.document.createElement( 'div' );
+		global.document.body.appendChild( element );
+
+		editor = await ClassicTestEditor.create( element, {
+			plugins: [ Paragraph, TrackChangesEditing, TrackChangesUI ]
+		} );
+	} );
+
+	afterEach( async () => {
+		element.remove();
+
+		await editor.destroy();
+	} );
+
+	it( 'should be correctly named', () => {
+		expect( TrackChangesUI.pluginName ).to.equal( 'TrackChangesUI' );
+	} );
+
+	describe( 'the "trackChanges" button', () => {
+		let button, command;
+
+		beforeEach( () => {
+			button = editor.ui.componentFactory.create( 'trackChanges' );
+			command = editor.commands.get( 'trackChanges' );
+		} );
+
+		it( 'should be a toggleable button with a label, an icon and a tooltip', () => {
+			expect( button ).to.be.instanceOf( ButtonView );
+			expect( button.label ).to.equal( 'Track changes' );
+			expect( button.icon ).to.match( /^<svg/ );
+			expect( button.tooltip ).to.be.true;
+			expect( button.isToggleable ).to.be.true;
+		} );
+
+		it( 'should have #isOn bound to the command value', () => {
+			command.value = true;
+
+			expect( button.isOn ).to.be.true;
+
+			command.value = false;
+
+			expect( button.isOn ).to.be.false;
+		} );
+
+		it( 'should have #isEnabled bound to the command', () => {
+			command.isEnabled = false;
+
+			expect( button.isEnabled ).to.be.false;
+		} );
+
+		it( 'should execute the command and focus the editing view', () => {
+			const executeSpy = testUtils.sinon.spy( editor, 'execute' );
+			const focusSpy = testUtils.sinon.spy( editor.editing.view, 'focus' );
+
+			button.fire( 'execute' );
+
+			sinon.assert.calledOnceWithExactly( executeSpy, 'trackChanges' );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+	} );
+
+	for ( const [ name, label ] of [
+		[ 'acceptSuggestion', 'Accept suggestion' ],
+		[ 'rejectSuggestion', 'Reject suggestion' ],
+		[ 'acceptAllSuggestions', 'Accept all suggestions' ],
+		[ 'rejectAllSuggestions', 'Reject all suggestions' ]
+	] ) {
+		describe( `the "${ name }" button`, () => {
+			let button, command;
+
+			beforeEach( () => {
+				button = editor.ui.componentFactory.create( name );
+				command = editor.commands.get( name );
+			} );
+
+			it( 'should be a button with a label, an icon and a tooltip', () => {
+				expect( button ).to.be.instanceOf( ButtonView );
+				expect( button.label ).to.equal( label );
+				expect( button.icon ).to.match( /^<svg/ );
+				expect( button.tooltip ).to.be.true;
+			} );
+
+			it( 'should have #isEnabled bound to the command', () => {
+				command.isEnabled = true;
+
+				expect( button.isEnabled ).to.be.true;
+
+				command.isEnabled = false;
+
+				expect( button.isEnabled ).to.be.false;
+			} );
+
+			it( 'should execute the command and focus the editing view', () => {
+				const executeSpy = testUtils.sinon.spy( editor, 'execute' );
+				const focusSpy = testUtils.sinon.spy( editor.editing.view, 'focus' );
+
+				button.fire( 'execute' );
+
+				sinon.assert.calledOnceWithExactly( executeSpy, name );
+				sinon.assert.calledOnce( focusSpy );
+			} );
+		} );
+	}
+} );
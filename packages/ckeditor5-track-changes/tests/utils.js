@@ -0,0 +1,70 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import { getSuggestionMarkerName, parseSuggestionMarkerName } from '../src/utils';
+
+describe( 'track changes utils', () => {
+	describe( 'getSuggestionMarkerName()', () => {
+		it( 'should create the insertion marker name', () => {
+			expect( getSuggestionMarkerName( { id: 'foo', type: 'insertion', authorId: 'jd' } ) )
+				.to.equal( 'suggestion:insertion:foo:jd' );
+		} );
+
+		it( 'should create the deletion marker name', () => {
+			expect( getSuggestionMarkerName( { id: 'foo', type: 'deletion', authorId: 'jd' } ) )
+				.to.equal( 'suggestion:deletion:foo:jd' );
+		} );
+
+		it( 'should create the attribute marker name with the attribute key and the old value', () => {
+			const data = { id: 'foo', type: 'attribute', authorId: 'jd' };
+
+			expect( getSuggestionMarkerName( { ...data, attributeKey: 'bold', attributeOldValue: null } ) )
+				.to.equal( 'suggestion:attribute:foo:jd:bold:null' );
+
+			expect( getSuggestionMarkerName( { ...data, attributeKey: 'fontSize', attributeOldValue: 'big' } ) )
+				.to.equal( 'suggestion:attribute:foo:jd:fontSize:%22big%22' );
+		} );
+
+		it( 'should encode the separator in the name parts', () => {
+			expect( getSuggestionMarkerName( { id: 'foo', type: 'insertion', authorId: 'mailto:jd' } ) )
+				.to.equal( 'suggestion:insertion:foo:mailto%3Ajd' );
+		} );
+	} );
+
+	describe( 'parseSuggestionMarkerName()', () => {
+		it( 'should parse the insertion and deletion marker names', () => {
+			expect( parseSuggestionMarkerName( 'suggestion:insertion:foo:jd' ) ).to.deep.equal( {
+				id: 'foo', type: 'insertion', authorId: 'jd'
+			} );
+
+			expect( parseSuggestionMarkerName( 'suggestion:deletion:foo:mailto%3Ajd' ) ).to.deep.equal( {
+				id: 'foo', type: 'deletion', authorId: 'mailto:jd'
+			} );
+		} );
+
+		it( 'should parse the attribute marker name', () => {
+			expect( parseSuggestionMarkerName( 'suggestion:attribute:foo:jd:fontSize:%22big%22' ) ).to.deep.equal( {
+				id: 'foo', type: 'attribute', authorId: 'jd', attributeKey: 'fontSize', attributeOldValue: 'big'
+			} );
+		} );
+
+		it( 'should return null for a marker from another group', () => {
+			expect( parseSuggestionMarkerName( 'comment:insertion:foo:jd' ) ).to.be.null;
+		} );
+
+		it( 'should return null for an invalid suggestion marker name', () => {
+			expect( parseSuggestionMarkerName( 'suggestion:insertion:foo' ) ).to.be.null;
+			expect( parseSuggestionMarkerName( 'suggestion:unknown:foo:jd' ) ).to.be.null;
+			expect( parseSuggestionMarkerName( 'suggestion:attribute:foo:jd:bold' ) ).to.be.null;
+			expect( parseSuggestionMarkerName( 'suggestion:attribute:foo:jd:bold:%7B' ) ).to.be.null;
+		} );
+
+		it( 'should reverse getSuggestionMarkerName()', () => {
+			const data = { id: 'foo', type: 'attribute', authorId: 'jd', attributeKey: 'linkHref', attributeOldValue: 'http://x.com' };
+
+			expect( parseSuggestionMarkerName( getSuggestionMarkerName( data ) ) ).to.deep.equal( data );
+		} );
+	} );
+} );
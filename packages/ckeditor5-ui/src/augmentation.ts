@@ -4,9 +4,11 @@
  */
 
 import type {
+	AccessibilityHelp,
 	BalloonToolbar,
 	BlockToolbar,
 	ContextualBalloon,
+	Dialog,
 	Notification
 } from './index';
 
@@ -91,9 +93,11 @@ declare module '@ckeditor/ckeditor5-core' {
 	}
 
 	interface PluginsMap {
+		[ AccessibilityHelp.pluginName ]: AccessibilityHelp;
 		[ BalloonToolbar.pluginName ]: BalloonToolbar;
 		[ BlockToolbar.pluginName ]: BlockToolbar;
 		[ ContextualBalloon.pluginName ]: ContextualBalloon;
+		[ Dialog.pluginName ]: Dialog;
 		[ Notification.pluginName ]: Notification;
 	}
 }
@@ -0,0 +1,211 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/bindings/draggableviewmixin
+ */
+
+import type View from '../view';
+import { global, type Constructor, type Mixed } from '@ckeditor/ckeditor5-utils';
+
+/**
+ * A mixin that brings the possibility to observe dragging of the view element.
+ * The view has to implement the {@link ~DraggableView} interface to use it:
+ *
+ * ```js
+ * export default class MyDraggableView extends DraggableViewMixin( View ) implements DraggableView {
+ * 	// ...
+ * }
+ * ```
+ *
+ * Creating a class extending it attaches a set of mouse and touch listeners allowing to observe dragging of the view element:
+ * * `mousedown` and `touchstart` on the view element - starting the dragging.
+ * * `mousemove` and `touchmove` on the document - updating the view coordinates.
+ * * `mouseup` and `touchend` on the document - stopping the dragging.
+ *
+ * The mixin itself does not move the view. Instead, it fires the {@link ~DraggableViewDragEvent `drag`} event
+ * carrying the distance the pointer moved since the last update. The view (or its owner) is responsible for reacting to it.
+ *
+ * @param view The view class that should become draggable.
+ */
+export default function DraggableViewMixin<Base extends Constructor<View>>( view: Base ): Mixed<Base, DraggableView> {
+	abstract class DraggableMixin extends view implements DraggableView {
+		/**
+		 * A flag indicating whether the view is currently being dragged.
+		 *
+		 * @observable
+		 */
+		declare public isDragging: boolean;
+
+		/**
+		 * A bound version of {@link #_onDrag}.
+		 */
+		private _onDragBound = this._onDrag.bind( this );
+
+		/**
+		 * A bound version of {@link #_onDragEnd}.
+		 */
+		private _onDragEndBound = this._onDragEnd.bind( this );
+
+		/**
+		 * The last coordinates of the pointer during the dragging.
+		 */
+		private _lastDraggingCoordinates: { x: number; y: number } = { x: 0, y: 0 };
+
+		/**
+		 * @inheritDoc
+		 */
+		constructor( ...args: Array<any> ) {
+			super( ...args );
+
+			this.on( 'render', () => {
+				this._attachListeners();
+			} );
+
+			this.set( 'isDragging', false );
+		}
+
+		/**
+		 * An element that is used as a handle for dragging the view. `null` means that the view cannot be dragged.
+		 */
+		public abstract get dragHandleElement(): HTMLElement | null;
+
+		/**
+		 * Attaches the listeners for the drag start.
+		 */
+		private _attachListeners() {
+			this.listenTo( this.element!, 'mousedown', this._onDragStart.bind( this ) );
+			this.listenTo( this.element!, 'touchstart', this._onDragStart.bind( this ) );
+		}
+
+		/**
+		 * Attaches the listeners for the dragging and drag end.
+		 */
+		private _attachDragListeners() {
+			this.listenTo( global.document, 'mouseup', this._onDragEndBound );
+			this.listenTo( global.document, 'touchend', this._onDragEndBound );
+			this.listenTo( global.document, 'mousemove', this._onDragBound );
+			this.listenTo( global.document, 'touchmove', this._onDragBound );
+		}
+
+		/**
+		 * Detaches the listeners after the drag end.
+		 */
+		private _detachDragListeners() {
+			this.stopListening( global.document, 'mouseup', this._onDragEndBound );
+			this.stopListening( global.document, 'touchend', this._onDragEndBound );
+			this.stopListening( global.document, 'mousemove', this._onDragBound );
+			this.stopListening( global.document, 'touchmove', this._onDragBound );
+		}
+
+		/**
+		 * Starts the dragging listeners and sets the initial view coordinates.
+		 */
+		private _onDragStart( evt: unknown, domEvt: MouseEvent | TouchEvent ) {
+			if ( !this._isHandleElementPressed( domEvt ) ) {
+				return;
+			}
+
+			this._attachDragListeners();
+
+			this._lastDraggingCoordinates = getPointerCoordinates( domEvt );
+			this.isDragging = true;
+		}
+
+		/**
+		 * Calculates the distance the pointer moved since the last update and fires the
+		 * {@link ~DraggableViewDragEvent `drag`} event.
+		 */
+		private _onDrag( evt: unknown, domEvt: MouseEvent | TouchEvent ) {
+			// If dragging was stopped by some external intervention, stop listening.
+			if ( !this.isDragging ) {
+				this._onDragEnd();
+
+				return;
+			}
+
+			const { x, y } = this._lastDraggingCoordinates;
+			const { x: newX, y: newY } = getPointerCoordinates( domEvt );
+
+			domEvt.preventDefault();
+
+			this.fire<DraggableViewDragEvent>( 'drag', {
+				deltaX: Math.round( newX - x ),
+				deltaY: Math.round( newY - y )
+			} );
+
+			this._lastDraggingCoordinates = { x: newX, y: newY };
+		}
+
+		/**
+		 * Stops the dragging and detaches the dragging listeners.
+		 */
+		private _onDragEnd() {
+			this._detachDragListeners();
+
+			this.isDragging = false;
+		}
+
+		/**
+		 * Checks if the drag handle element was pressed.
+		 */
+		private _isHandleElementPressed( domEvt: MouseEvent | TouchEvent ) {
+			if ( !this.dragHandleElement ) {
+				return false;
+			}
+
+			return this.dragHandleElement === domEvt.target ||
+				( domEvt.target instanceof global.window.Node && this.dragHandleElement.contains( domEvt.target ) );
+		}
+	}
+
+	return DraggableMixin as any;
+}
+
+/**
+ * Returns the coordinates of the pointer (either mouse or the first touch) from the DOM event.
+ */
+function getPointerCoordinates( domEvt: MouseEvent | TouchEvent ): { x: number; y: number } {
+	if ( 'touches' in domEvt ) {
+		return {
+			x: domEvt.touches[ 0 ].clientX,
+			y: domEvt.touches[ 0 ].clientY
+		};
+	}
+
+	return {
+		x: domEvt.clientX,
+		y: domEvt.clientY
+	};
+}
+
+/**
+ * The view that can be dragged using the {@link module:ui/bindings/draggableviewmixin~DraggableViewMixin}.
+ */
+export interface DraggableView extends View {
+
+	/**
+	 * An element that is used as a handle for dragging the view. `null` means that the view cannot be dragged.
+	 */
+	get dragHandleElement(): HTMLElement | null;
+
+	/**
+	 * A flag indicating whether the view is currently being dragged.
+	 */
+	isDragging: boolean;
+}
+
+/**
+ * An event data object fired when the {@link ~DraggableView} is being dragged.
+ *
+ * @eventName ~DraggableView#drag
+ */
+export type DraggableViewDragEvent = {
+	name: 'drag';
+	args: [ {
+		deltaX: number;
+		deltaY: number;
+	} ];
+};
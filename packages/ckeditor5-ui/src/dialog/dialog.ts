@@ -0,0 +1,437 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/dialog/dialog
+ */
+
+import type View from '../view';
+import { type Editor, Plugin } from '@ckeditor/ckeditor5-core';
+import DialogView, { type DialogViewCloseEvent, type DialogViewPosition } from './dialogview';
+import type { DialogActionButtonDefinition } from './dialogactionsview';
+
+/* global document */
+
+/**
+ * The dialog controller class. It is used to show and hide the {@link module:ui/dialog/dialogview~DialogView}.
+ *
+ * A dialog can be either modal (blocking the interaction with the rest of the page) or modeless (allowing the user
+ * to keep editing while it is open). Only one dialog can be visible at a time across all editor instances on the page.
+ *
+ * ```ts
+ * editor.plugins.get( 'Dialog' ).show( {
+ * 	id: 'myDialog',
+ * 	title: 'My dialog',
+ * 	content: myFormView,
+ * 	actionButtons: [
+ * 		{ label: 'Cancel', withText: true, onExecute: () => dialog.hide() }
+ * 	],
+ * 	isModal: true
+ * } );
+ * ```
+ */
+export default class Dialog extends Plugin {
+	/**
+	 * The name of the currently visible dialog view instance.
+	 *
+	 * @observable
+	 */
+	declare public id: string | null;
+
+	/**
+	 * The currently visible dialog view instance.
+	 */
+	public view?: DialogView;
+
+	/**
+	 * A flag indicating whether the dialog is currently visible.
+	 *
+	 * @observable
+	 */
+	declare public isOpen: boolean;
+
+	/**
+	 * The `Dialog` plugin instance which most recently showed the dialog.
+	 *
+	 * Only one dialog can be visible at once, even if there are many editor instances on the page.
+	 * If an editor wants to show a dialog, it should first hide the dialog that is already opened.
+	 * But only the `Dialog` instance that showed the dialog is able do hide it. This is why
+	 * the property needs to be static.
+	 *
+	 * @internal
+	 */
+	public static _visibleDialogPlugin: Dialog | null = null;
+
+	/**
+	 * A configurable callback called when the dialog is hidden.
+	 */
+	private _onHide: ( ( dialog: Dialog ) => void ) | undefined;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'Dialog' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( editor: Editor ) {
+		super( editor );
+
+		this.set( 'id', null );
+		this.set( 'isOpen', false );
+
+		this._initShowHideListeners();
+		this._initFocusToggler();
+		this._initMultiRootIntegration();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		if ( Dialog._visibleDialogPlugin === this ) {
+			this._hide();
+		}
+	}
+
+	/**
+	 * Displays a dialog window.
+	 *
+	 * This method requires a {@link ~DialogDefinition} that defines the dialog's content, title, icon, action buttons, etc.
+	 *
+	 * By specifying the {@link ~DialogDefinition#isModal} property, the dialog can be displayed as a modal (blocking
+	 * the interaction with the rest of the page) or a modeless one (the default).
+	 *
+	 * Any dialog displayed before, by this or any other editor instance, gets hidden first.
+	 *
+	 * @fires show
+	 */
+	public show( dialogDefinition: DialogDefinition ): void {
+		this.hide();
+
+		this.fire<DialogShowEvent>( `show:${ dialogDefinition.id }`, dialogDefinition );
+	}
+
+	/**
+	 * Hides the dialog. The {@link ~DialogHideEvent `hide`} event is fired by the plugin instance which showed the dialog.
+	 *
+	 * @fires hide
+	 */
+	public hide(): void {
+		if ( Dialog._visibleDialogPlugin ) {
+			Dialog._visibleDialogPlugin.fire<DialogHideEvent>( `hide:${ Dialog._visibleDialogPlugin.id! }` );
+		}
+	}
+
+	/**
+	 * Initiates listeners for the `show` and `hide` events emitted by this plugin.
+	 *
+	 * We could not simply decorate the {@link #show} and {@link #hide} methods to fire events,
+	 * because we want to first fire general `show` or `hide` event and then the event with the `id` namespace,
+	 * e.g. `show:findAndReplace`.
+	 */
+	private _initShowHideListeners() {
+		this.on<DialogShowEvent>( 'show', ( evt, args ) => {
+			this._show( args );
+		} );
+
+		// 'low' priority allows to add custom callback between `_show()` and `onShow()`.
+		this.on<DialogShowEvent>( 'show', ( evt, args ) => {
+			if ( args.onShow ) {
+				args.onShow( this );
+			}
+		}, { priority: 'low' } );
+
+		this.on<DialogHideEvent>( 'hide', () => {
+			if ( Dialog._visibleDialogPlugin ) {
+				Dialog._visibleDialogPlugin._hide();
+			}
+		} );
+
+		// 'low' priority allows to add custom callback between `_hide()` and `onHide()`.
+		this.on<DialogHideEvent>( 'hide', () => {
+			if ( this._onHide ) {
+				this._onHide( this );
+				this._onHide = undefined;
+			}
+		}, { priority: 'low' } );
+	}
+
+	/**
+	 * Initiates a keystroke handler for toggling the focus between the editor and a modeless dialog.
+	 */
+	private _initFocusToggler() {
+		const editor = this.editor;
+
+		editor.keystrokes.set( 'Ctrl+F6', ( data, cancel ) => {
+			if ( !this.isOpen || this.view!.isModal ) {
+				return;
+			}
+
+			if ( this.view!.focusTracker.isFocused ) {
+				editor.editing.view.focus();
+			} else {
+				this.view!.focus();
+			}
+
+			cancel();
+		} );
+	}
+
+	/**
+	 * Provides an integration between the root attaching and detaching and positioning of the view.
+	 */
+	private _initMultiRootIntegration() {
+		const model = this.editor.model;
+
+		model.document.on( 'change:data', () => {
+			if ( !this.view ) {
+				return;
+			}
+
+			const changedRoots = model.document.differ.getChangedRoots();
+
+			for ( const changes of changedRoots ) {
+				if ( changes.state ) {
+					this.view.updatePosition();
+				}
+			}
+		} );
+	}
+
+	/**
+	 * Displays a dialog window.
+	 */
+	private _show( {
+		id,
+		icon,
+		title,
+		hasCloseButton = true,
+		content,
+		actionButtons,
+		className,
+		isModal,
+		position,
+		onHide
+	}: DialogDefinition ) {
+		const editor = this.editor;
+
+		this.view = new DialogView( editor.locale, {
+			getCurrentDomRoot: () => {
+				return editor.editing.view.getDomRoot( editor.model.document.selection.anchor!.root.rootName ) || null;
+			},
+			getViewportOffset: () => {
+				return editor.ui.viewportOffset;
+			}
+		} );
+
+		const view = this.view;
+
+		view.on<DialogViewCloseEvent>( 'close', () => {
+			this.hide();
+		} );
+
+		editor.ui.view.body.add( view );
+		editor.ui.focusTracker.add( view.element! );
+		editor.keystrokes.listenTo( view.element! );
+
+		// Unless the user specified a position, modals should always be centered on the screen.
+		// Otherwise, let's keep dialogs centered in the editing root by default.
+		if ( !position ) {
+			position = isModal ? 'screen-center' : 'editor-center';
+		}
+
+		if ( isModal ) {
+			this._lockBodyScroll();
+		}
+
+		view.set( {
+			position,
+			_isVisible: true,
+			className,
+			isModal: !!isModal
+		} );
+
+		view.setupParts( {
+			icon,
+			title,
+			hasCloseButton,
+			content,
+			actionButtons
+		} );
+
+		this.id = id;
+
+		if ( onHide ) {
+			this._onHide = onHide;
+		}
+
+		this.isOpen = true;
+		Dialog._visibleDialogPlugin = this;
+	}
+
+	/**
+	 * Hides the dialog window.
+	 */
+	private _hide() {
+		if ( !this.view ) {
+			return;
+		}
+
+		const editor = this.editor;
+		const view = this.view;
+
+		if ( view.isModal ) {
+			this._unlockBodyScroll();
+		}
+
+		// Reset the content view to prevent its children from being destroyed in the standard
+		// View#destroy() (and collections) chain. If the content children were left in there,
+		// they would have to be re-created by the feature using the dialog every time the dialog
+		// shows up.
+		if ( view.contentView ) {
+			view.contentView.reset();
+		}
+
+		editor.ui.view.body.remove( view );
+		editor.ui.focusTracker.remove( view.element! );
+		editor.keystrokes.stopListening( view.element! );
+
+		view.destroy();
+		editor.editing.view.focus();
+
+		this.id = null;
+		this.isOpen = false;
+		this.view = undefined;
+		Dialog._visibleDialogPlugin = null;
+	}
+
+	/**
+	 * Makes the `<html>` element unscrollable so the content behind the modal dialog stays in place.
+	 */
+	private _lockBodyScroll() {
+		document.documentElement.classList.add( 'ck-dialog-scroll-locked' );
+	}
+
+	/**
+	 * Restores the scrolling of the `<html>` element locked by {@link #_lockBodyScroll}.
+	 */
+	private _unlockBodyScroll() {
+		document.documentElement.classList.remove( 'ck-dialog-scroll-locked' );
+	}
+}
+
+/**
+ * The definition needed to create a {@link module:ui/dialog/dialogview~DialogView}.
+ */
+export interface DialogDefinition {
+
+	/**
+	 * A unique identifier of the dialog. It allows for distinguishing between different dialogs and their visibility.
+	 * For instance, when open, the ID of the currently visible dialog is stored in {@link module:ui/dialog/dialog~Dialog#id}.
+	 *
+	 * The `id` is also passed along the {@link module:ui/dialog/dialog~DialogShowEvent} and
+	 * {@link module:ui/dialog/dialog~DialogHideEvent} events.
+	 */
+	id: string;
+
+	/**
+	 * The SVG string of an icon displayed in dialogs's header. Used only when {@link #title} is also set
+	 * and the header is displayed.
+	 */
+	icon?: string;
+
+	/**
+	 * A title displayed in the dialogs's header. It also works as an accessible name of the dialog used by assistive technologies.
+	 *
+	 * When not set, the header is not displayed. Affects {@link #icon} and {@link #hasCloseButton}.
+	 */
+	title?: string;
+
+	/**
+	 * A flag indicating whether the dialog should have a close button in the header.
+	 * `true` by default. Works when {@link #title} is also set and the header is displayed.
+	 */
+	hasCloseButton?: boolean;
+
+	/**
+	 * The content of the dialog. It can be a single {@link module:ui/view~View} or an array of views.
+	 */
+	content?: View | Array<View>;
+
+	/**
+	 * The action buttons displayed in the dialog's footer.
+	 */
+	actionButtons?: Array<DialogActionButtonDefinition>;
+
+	/**
+	 * An additional CSS class set on the outermost (`.ck.ck-dialog`) container element allowing for visual customization.
+	 */
+	className?: string;
+
+	/**
+	 * When set to `true`, the dialog will become a modal, that is, it will block the UI until it is closed.
+	 */
+	isModal?: boolean;
+
+	/**
+	 * Available dialog positions. By default `'editor-center'` is used for modeless dialogs and `'screen-center'` for modals.
+	 * See {@link module:ui/dialog/dialogview~DialogViewPosition} for all the available options.
+	 */
+	position?: DialogViewPosition;
+
+	/**
+	 * A callback called when the dialog shows up with a `low` priority. It allows for setting up the dialog's
+	 * {@link #content}.
+	 */
+	onShow?: ( dialog: Dialog ) => void;
+
+	/**
+	 * A callback called when the dialog hides with a `low` priority.
+	 * It allows for cleaning up (for example, resetting) the dialog's {@link #content}.
+	 */
+	onHide?: ( dialog: Dialog ) => void;
+}
+
+/**
+ * An event fired after {@link module:ui/dialog/dialog~Dialog#show} is called. You can use it to customize the behavior
+ * of any dialog.
+ *
+ * ```ts
+ * // Changes the position of the "Find and Replace" dialog.
+ * editor.plugins.get( 'Dialog' ).on( 'show:findAndReplace', ( evt, data ) => {
+ * 	Object.assign( data, { position: 'editor-bottom-center' } );
+ * }, { priority: 'high' } );
+ * ```
+ *
+ * @eventName ~Dialog#show
+ */
+export type DialogShowEvent = {
+	name: 'show' | `show:${ string }`;
+	args: [ dialogDefinition: DialogDefinition ];
+};
+
+/**
+ * An event fired after {@link module:ui/dialog/dialog~Dialog#hide} is called. You can use it to customize the behavior
+ * of any dialog.
+ *
+ * ```ts
+ * // Logs after the "Find and Replace" dialog gets hidden
+ * editor.plugins.get( 'Dialog' ).on( 'hide:findAndReplace', () => {
+ * 	console.log( 'The "Find and Replace" dialog was hidden.' );
+ * } );
+ * ```
+ *
+ * @eventName ~Dialog#hide
+ */
+export type DialogHideEvent = {
+	name: 'hide' | `hide:${ string }`;
+	args: [];
+};
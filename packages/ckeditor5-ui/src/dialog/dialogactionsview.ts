@@ -0,0 +1,108 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/dialog/dialogactionsview
+ */
+
+import View from '../view';
+import ButtonView from '../button/buttonview';
+import type ViewCollection from '../viewcollection';
+import type { ButtonExecuteEvent } from '../button/button';
+
+import type { Locale } from '@ckeditor/ckeditor5-utils';
+
+import '../../theme/components/dialog/dialogactions.css';
+
+/**
+ * A dialog actions view class. It contains button views which are used to execute dialog actions
+ * (e.g. "Cancel" or "Replace all").
+ */
+export default class DialogActionsView extends View {
+	/**
+	 * A collection of button views.
+	 */
+	public readonly children: ViewCollection<ButtonView>;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale?: Locale ) {
+		super( locale );
+
+		this.children = this.createCollection();
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-dialog__actions' ]
+			},
+			children: this.children
+		} );
+	}
+
+	/**
+	 * Creates the button views based on the given definitions.
+	 * Then adds them to the {@link #children} collection.
+	 *
+	 * @param definitions The definitions of the buttons.
+	 */
+	public setButtons( definitions: Array<DialogActionButtonDefinition> ): void {
+		for ( const definition of definitions ) {
+			const { onExecute, ...buttonProperties } = definition;
+			const button = new ButtonView( this.locale );
+
+			button.set( {
+				withText: true,
+				...buttonProperties
+			} );
+
+			button.on<ButtonExecuteEvent>( 'execute', () => onExecute() );
+
+			this.children.add( button );
+		}
+	}
+
+	/**
+	 * Focuses the first button.
+	 */
+	public focus(): void {
+		if ( this.children.first ) {
+			this.children.first.focus();
+		}
+	}
+}
+
+/**
+ * A dialog action button definition. It is a slightly modified version
+ * of the {@link module:ui/button/buttonview~ButtonView} properties.
+ */
+export interface DialogActionButtonDefinition {
+
+	/**
+	 * The label of the button.
+	 */
+	label: string;
+
+	/**
+	 * The function executed when the button is clicked.
+	 */
+	onExecute: () => void;
+
+	/**
+	 * An optional CSS class added to the button element (e.g. `ck-button-action` for the main action).
+	 */
+	class?: string;
+
+	/**
+	 * An optional icon (SVG string) displayed in the button.
+	 */
+	icon?: string;
+
+	/**
+	 * Whether the label of the button should be displayed. Defaults to `true`.
+	 */
+	withText?: boolean;
+}
@@ -0,0 +1,53 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/dialog/dialogcontentview
+ */
+
+import View from '../view';
+import type ViewCollection from '../viewcollection';
+
+import type { Locale } from '@ckeditor/ckeditor5-utils';
+
+/**
+ * A dialog content view class. It hosts the views passed as the
+ * {@link module:ui/dialog/dialog~DialogDefinition#content `content`} of the dialog.
+ */
+export default class DialogContentView extends View {
+	/**
+	 * A collection of content items.
+	 */
+	public readonly children: ViewCollection;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale | undefined ) {
+		super( locale );
+
+		this.children = this.createCollection();
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-dialog__content' ]
+			},
+			children: this.children
+		} );
+	}
+
+	/**
+	 * Removes all the child views without destroying them.
+	 *
+	 * The content of the dialog is usually owned by the feature that opened it, so the views
+	 * must survive the destruction of the dialog to be reused the next time it shows up.
+	 */
+	public reset(): void {
+		while ( this.children.length ) {
+			this.children.remove( 0 );
+		}
+	}
+}
@@ -0,0 +1,645 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/dialog/dialogview
+ */
+
+import {
+	KeystrokeHandler,
+	FocusTracker,
+	Rect,
+	global,
+	toUnit,
+	type Locale
+} from '@ckeditor/ckeditor5-utils';
+import { icons } from '@ckeditor/ckeditor5-core';
+
+import View from '../view';
+import ViewCollection from '../viewcollection';
+import ButtonView from '../button/buttonview';
+import FormHeaderView from '../formheader/formheaderview';
+import FocusCycler, { type FocusableView } from '../focuscycler';
+import DraggableViewMixin, { type DraggableView, type DraggableViewDragEvent } from '../bindings/draggableviewmixin';
+import DialogActionsView, { type DialogActionButtonDefinition } from './dialogactionsview';
+import DialogContentView from './dialogcontentview';
+import type EditorUI from '../editorui/editorui';
+import type { ButtonExecuteEvent } from '../button/button';
+
+import '../../theme/components/dialog/dialog.css';
+
+const toPx = toUnit( 'px' );
+
+/**
+ * A dialog view class. It is used by the {@link module:ui/dialog/dialog~Dialog dialog plugin}
+ * and displays the header (with a title and the close button), the content and the action buttons
+ * of the dialog.
+ *
+ * The view consists of an overlay element that covers the whole viewport and the dialog element
+ * positioned inside of it. In the modeless mode, the overlay is transparent and does not catch
+ * pointer events so the rest of the page (including the editor) remains interactive.
+ */
+export default class DialogView extends DraggableViewMixin( View ) implements DraggableView {
+	/**
+	 * A collection of the child views inside of the dialog (header, content, actions).
+	 */
+	public readonly parts: ViewCollection;
+
+	/**
+	 * A header view of the dialog. It is also a drag handle of the dialog.
+	 */
+	public headerView?: FormHeaderView;
+
+	/**
+	 * A close button view. It is automatically added to the header view if present.
+	 */
+	public closeButtonView?: ButtonView;
+
+	/**
+	 * A view with the action buttons available to the user.
+	 */
+	public actionsView?: DialogActionsView;
+
+	/**
+	 * A default dialog element offset from the reference element (e.g. the editor editable).
+	 */
+	public static defaultOffset: number = 15;
+
+	/**
+	 * A view with the dialog content.
+	 */
+	public contentView?: DialogContentView;
+
+	/**
+	 * A keystroke handler instance. It listens to the keystrokes in the dialog.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * A focus tracker instance. It tracks the focus within the dialog.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * A flag indicating if the dialog was moved manually. If so, its position
+	 * will not be updated automatically on the viewport resize or scroll.
+	 */
+	public wasMoved: boolean = false;
+
+	/**
+	 * A flag indicating if this dialog view is a modal.
+	 *
+	 * @observable
+	 */
+	declare public isModal: boolean;
+
+	/**
+	 * A label for the view dialog element to be used by the assistive technologies.
+	 *
+	 * @observable
+	 */
+	declare public ariaLabel: string;
+
+	/**
+	 * A custom class name to be added to the dialog element.
+	 *
+	 * @observable
+	 */
+	declare public className: string | undefined;
+
+	/**
+	 * The position of the dialog view.
+	 *
+	 * @observable
+	 */
+	declare public position: DialogViewPosition;
+
+	/**
+	 * A flag indicating that the dialog is visible.
+	 *
+	 * @observable
+	 * @internal
+	 */
+	declare public _isVisible: boolean;
+
+	/**
+	 * A flag indicating that the dialog is temporarily invisible while its position is being calculated.
+	 *
+	 * @observable
+	 * @internal
+	 */
+	declare public _isTransparent: boolean;
+
+	/**
+	 * The calculated dialog `top` CSS property used for positioning.
+	 *
+	 * @observable
+	 * @internal
+	 */
+	declare public _top: number;
+
+	/**
+	 * The calculated dialog `left` CSS property used for positioning.
+	 *
+	 * @observable
+	 * @internal
+	 */
+	declare public _left: number;
+
+	/**
+	 * A callback returning the DOM root that requested the dialog.
+	 */
+	private _getCurrentDomRoot: () => HTMLElement | null;
+
+	/**
+	 * A callback returning the configured editor viewport offset.
+	 */
+	private _getViewportOffset: () => EditorUI[ 'viewportOffset' ];
+
+	/**
+	 * The list of the focusable elements inside the dialog view.
+	 */
+	private readonly _focusables: ViewCollection<FocusableView>;
+
+	/**
+	 * The focus cycler instance.
+	 */
+	private readonly _focusCycler: FocusCycler;
+
+	/**
+	 * The identifier of the timeout that positions and focuses the dialog after it gets visible.
+	 */
+	private _showTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale,
+		{
+			getCurrentDomRoot,
+			getViewportOffset
+		}: {
+			getCurrentDomRoot: () => HTMLElement | null;
+			getViewportOffset: () => EditorUI[ 'viewportOffset' ];
+		}
+	) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+		const t = locale.t;
+
+		this.set( 'className', '' );
+		this.set( 'ariaLabel', t( 'Editor dialog' ) );
+		this.set( 'isModal', false );
+		this.set( 'position', 'screen-center' );
+		this.set( '_isVisible', false );
+		this.set( '_isTransparent', false );
+		this.set( '_top', 0 );
+		this.set( '_left', 0 );
+
+		this._getCurrentDomRoot = getCurrentDomRoot;
+		this._getViewportOffset = getViewportOffset;
+
+		this.decorate( 'moveTo' );
+
+		this.parts = this.createCollection();
+
+		this.keystrokes = new KeystrokeHandler();
+		this.focusTracker = new FocusTracker();
+		this._focusables = new ViewCollection();
+		this._focusCycler = new FocusCycler( {
+			focusables: this._focusables,
+			focusTracker: this.focusTracker,
+			keystrokeHandler: this.keystrokes,
+			actions: {
+				// Navigate dialog children backwards using the <kbd>Shift</kbd> + <kbd>Tab</kbd> keystroke.
+				focusPrevious: 'shift + tab',
+
+				// Navigate dialog children forwards using the <kbd>Tab</kbd> key.
+				focusNext: 'tab'
+			}
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [
+					'ck',
+					'ck-dialog-overlay',
+					bind.if( 'isModal', 'ck-dialog-overlay__transparent', isModal => !isModal ),
+					bind.if( '_isVisible', 'ck-hidden', value => !value )
+				],
+				// Prevent from editor losing focus when clicking on the modal overlay.
+				tabindex: '-1'
+			},
+			children: [
+				{
+					tag: 'div',
+					attributes: {
+						tabindex: '-1',
+						class: [
+							'ck',
+							'ck-dialog',
+							bind.if( 'isModal', 'ck-dialog_modal' ),
+							bind.to( 'className' )
+						],
+						role: 'dialog',
+						'aria-modal': bind.to( 'isModal', isModal => isModal ? 'true' : 'false' ),
+						'aria-label': bind.to( 'ariaLabel' ),
+						style: {
+							top: bind.to( '_top', top => toPx( top ) ),
+							left: bind.to( '_left', left => toPx( left ) ),
+							visibility: bind.if( '_isTransparent', 'hidden' )
+						}
+					},
+					children: this.parts
+				}
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		this.keystrokes.set( 'Esc', ( data, cancel ) => {
+			this.fire<DialogViewCloseEvent>( 'close', { source: 'escKeyPress' } );
+			cancel();
+		} );
+
+		// Support for dragging the modal.
+		this.on<DraggableViewDragEvent>( 'drag', ( evt, { deltaX, deltaY } ) => {
+			this.wasMoved = true;
+			this.moveBy( deltaX, deltaY );
+		} );
+
+		// Update the dialog position upon the window resize, if the position was not changed manually.
+		this.listenTo( global.window, 'resize', () => {
+			if ( this._isVisible && !this.wasMoved ) {
+				this.updatePosition();
+			}
+		} );
+
+		// Update the dialog position upon the document scroll, if the position was not changed manually.
+		this.listenTo( global.document, 'scroll', () => {
+			if ( this._isVisible && !this.wasMoved ) {
+				this.updatePosition();
+			}
+		} );
+
+		this.on( 'change:_isVisible', ( evt, name, isVisible ) => {
+			if ( isVisible ) {
+				// Let the content render first, then apply the position. Otherwise, the calculated DOM Rects
+				// will not reflect the final look of the dialog. Note that we're not using #_moveOffScreen() here because
+				// it causes a flicker of the dialog at the corner of the screen.
+				this._isTransparent = true;
+
+				// FYI: RAF is too short. We need to wait a bit longer.
+				this._clearShowTimeout();
+				this._showTimeoutId = setTimeout( () => {
+					this._showTimeoutId = null;
+					this.updatePosition();
+
+					this._isTransparent = false;
+
+					// The view must get the focus after it gets visible. But this is only possible
+					// after the dialog is no longer transparent.
+					this.focus();
+				}, 10 );
+			}
+		} );
+
+		this.keystrokes.listenTo( this.element! );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		this._clearShowTimeout();
+
+		super.destroy();
+	}
+
+	/**
+	 * Returns the element that should be used as a drag handle.
+	 */
+	public override get dragHandleElement(): HTMLElement | null {
+		// Modal dialogs should not be draggable.
+		if ( this.headerView && !this.isModal ) {
+			return this.headerView.element;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Creates the dialog parts. Which of them are created depends on the arguments passed to the method.
+	 *
+	 * @param options Configuration of the parts.
+	 * @param options.icon The SVG string of an icon displayed in dialogs's header. Used only when `title` is also passed.
+	 * @param options.title A title displayed in the dialogs's header. Also works as an accessible name of the dialog
+	 * used by assistive technologies.
+	 * @param options.hasCloseButton When set to `true`, the header will have a close button. Requires `title` to be set.
+	 * @param options.content The content of the dialog. It can be a single view or an array of views.
+	 * @param options.actionButtons The action buttons displayed in the dialog's footer.
+	 */
+	public setupParts( { icon, title, hasCloseButton = true, content, actionButtons }: {
+		icon?: string;
+		title?: string;
+		hasCloseButton?: boolean;
+		content?: View | Array<View>;
+		actionButtons?: Array<DialogActionButtonDefinition>;
+	} ): void {
+		if ( title ) {
+			this.headerView = new FormHeaderView( this.locale, { icon } );
+
+			if ( hasCloseButton ) {
+				this.closeButtonView = this._createCloseButton();
+				this.headerView.children.add( this.closeButtonView );
+			}
+
+			this.headerView.label = title;
+			this.ariaLabel = title;
+
+			this.parts.add( this.headerView, 0 );
+		}
+
+		if ( content ) {
+			// Normalize the content specified in the arguments.
+			if ( content instanceof View ) {
+				content = [ content ];
+			}
+
+			this.contentView = new DialogContentView( this.locale );
+			this.contentView.children.addMany( content );
+
+			this.parts.add( this.contentView );
+		}
+
+		if ( actionButtons ) {
+			this.actionsView = new DialogActionsView( this.locale );
+			this.actionsView.setButtons( actionButtons );
+
+			this.parts.add( this.actionsView );
+		}
+
+		this._updateFocusCyclableItems();
+	}
+
+	/**
+	 * Focuses the first focusable element in the dialog.
+	 */
+	public focus(): void {
+		this._focusCycler.focusFirst();
+	}
+
+	/**
+	 * Moves the dialog to the specified position.
+	 *
+	 * The position is constrained to the visible area of the viewport (respecting the editor
+	 * {@link module:ui/editorui/editorui~EditorUI#viewportOffset viewport offset}) so the dialog never gets lost off the screen.
+	 *
+	 * @param left The `left` CSS coordinate of the dialog element (in pixels).
+	 * @param top The `top` CSS coordinate of the dialog element (in pixels).
+	 */
+	public moveTo( left: number, top: number ): void {
+		const viewportRect = this._getViewportRect();
+		const dialogRect = this._getDialogRect();
+
+		// Don't allow the dialog to go beyond the viewport's right edge.
+		if ( left + dialogRect.width > viewportRect.right ) {
+			left = viewportRect.right - dialogRect.width;
+		}
+
+		// Don't allow the dialog to go beyond the viewport's left edge.
+		if ( left < viewportRect.left ) {
+			left = viewportRect.left;
+		}
+
+		// Don't allow the dialog to go beyond the viewport's top edge.
+		if ( top < viewportRect.top ) {
+			top = viewportRect.top;
+		}
+
+		// Note: We don't do the same for the bottom edge because the dialog could go
+		// beyond the viewport's bottom edge and the user wouldn't be able to access it.
+
+		this._left = left;
+		this._top = top;
+	}
+
+	/**
+	 * Moves the dialog by the specified offset.
+	 *
+	 * @param left The horizontal offset (in pixels).
+	 * @param top The vertical offset (in pixels).
+	 */
+	public moveBy( left: number, top: number ): void {
+		this.moveTo( this._left + left, this._top + top );
+	}
+
+	/**
+	 * Recalculates the dialog according to the set position and viewport,
+	 * and moves it to the new position.
+	 */
+	public updatePosition(): void {
+		const viewportRect = this._getViewportRect();
+		const dialogRect = this._getDialogRect();
+		const domRoot = this._getCurrentDomRoot();
+		const defaultOffset = DialogView.defaultOffset;
+
+		let configuredPosition = this.position;
+		let left, top;
+
+		// The dialog cannot be positioned relative to the editable if there is no editable (e.g. a detached root).
+		if ( !domRoot ) {
+			configuredPosition = 'screen-center';
+		}
+
+		if ( configuredPosition == 'screen-center' ) {
+			left = viewportRect.left + ( viewportRect.width - dialogRect.width ) / 2;
+			top = viewportRect.top + ( viewportRect.height - dialogRect.height ) / 2;
+		} else {
+			// The visible part of the editable (it may be partially scrolled out of the viewport).
+			const editableRect = new Rect( domRoot! ).getVisible() || new Rect( domRoot! );
+			const editableCenterLeft = editableRect.left + ( editableRect.width - dialogRect.width ) / 2;
+
+			switch ( configuredPosition ) {
+				case 'editor-top-side':
+					left = this.locale!.contentLanguageDirection === 'rtl' ?
+						editableRect.left + defaultOffset :
+						editableRect.right - dialogRect.width - defaultOffset;
+
+					top = editableRect.top + defaultOffset;
+					break;
+				case 'editor-center':
+					left = editableCenterLeft;
+					top = editableRect.top + ( editableRect.height - dialogRect.height ) / 2;
+					break;
+				case 'editor-top-center':
+					left = editableCenterLeft;
+					top = editableRect.top + defaultOffset;
+					break;
+				case 'editor-bottom-center':
+					left = editableCenterLeft;
+					top = editableRect.bottom - dialogRect.height - defaultOffset;
+					break;
+				case 'editor-above-center':
+					left = editableCenterLeft;
+					top = editableRect.top - dialogRect.height - defaultOffset;
+					break;
+				case 'editor-below-center':
+					left = editableCenterLeft;
+					top = editableRect.bottom + defaultOffset;
+					break;
+			}
+		}
+
+		this.moveTo( Math.round( left! ), Math.round( top! ) );
+	}
+
+	/**
+	 * Cancels the pending positioning and focusing of the dialog that is getting visible.
+	 */
+	private _clearShowTimeout(): void {
+		if ( this._showTimeoutId ) {
+			clearTimeout( this._showTimeoutId );
+			this._showTimeoutId = null;
+		}
+	}
+
+	/**
+	 * Returns the viewport rect shrunk by the configured editor viewport offset.
+	 */
+	private _getViewportRect(): Rect {
+		const viewportRect = new Rect( global.window );
+		const viewportOffset = {
+			top: 0,
+			right: 0,
+			bottom: 0,
+			left: 0,
+			...this._getViewportOffset()
+		};
+
+		viewportRect.top += viewportOffset.top;
+		viewportRect.height -= viewportOffset.top + viewportOffset.bottom;
+		viewportRect.left += viewportOffset.left;
+		viewportRect.right -= viewportOffset.right;
+		viewportRect.width -= viewportOffset.left + viewportOffset.right;
+		viewportRect.bottom -= viewportOffset.bottom;
+
+		return viewportRect;
+	}
+
+	/**
+	 * Returns the rect of the dialog element.
+	 */
+	private _getDialogRect(): Rect {
+		return new Rect( this.element!.firstElementChild as HTMLElement );
+	}
+
+	/**
+	 * Collects all focusable elements inside the dialog parts
+	 * and adds them to the focus tracker and focus cycler.
+	 */
+	private _updateFocusCyclableItems(): void {
+		const focusables: Array<FocusableView> = [];
+
+		if ( this.contentView ) {
+			for ( const child of this.contentView.children ) {
+				if ( isFocusable( child ) ) {
+					focusables.push( child );
+				}
+			}
+		}
+
+		if ( this.actionsView ) {
+			focusables.push( ...this.actionsView.children );
+		}
+
+		if ( this.closeButtonView ) {
+			focusables.push( this.closeButtonView );
+		}
+
+		for ( const focusable of focusables ) {
+			this._focusables.add( focusable );
+			this.focusTracker.add( focusable.element! );
+		}
+	}
+
+	/**
+	 * Creates the close button view that is displayed in the header view corner.
+	 */
+	private _createCloseButton(): ButtonView {
+		const buttonView = new ButtonView( this.locale );
+		const t = this.locale!.t;
+
+		buttonView.set( {
+			label: t( 'Close' ),
+			tooltip: true,
+			icon: icons.cancel
+		} );
+
+		buttonView.on<ButtonExecuteEvent>( 'execute', () => this.fire<DialogViewCloseEvent>( 'close', { source: 'closeButton' } ) );
+
+		return buttonView;
+	}
+}
+
+/**
+ * Checks whether a view is focusable.
+ */
+function isFocusable( view: View & { focus?: unknown } ): view is FocusableView {
+	return typeof view.focus == 'function';
+}
+
+/**
+ * Available dialog view positions:
+ *
+ * * `'screen-center'` &ndash; A fixed position in the center of the screen.
+ * * `'editor-center'` &ndash; A dynamic position in the center of the editor editable area.
+ * * `'editor-top-side'` &ndash; A dynamic position at the top-right (for the left-to-right languages)
+ * or top-left (for right-to-left languages) corner of the editor editable area.
+ * * `'editor-top-center'` &ndash; A dynamic position at the top-center of the editor editable area.
+ * * `'editor-bottom-center'` &ndash; A dynamic position at the bottom-center of the editor editable area.
+ * * `'editor-above-center'` &ndash; A dynamic position centered above the editor editable area.
+ * * `'editor-below-center'` &ndash; A dynamic position centered below the editor editable area.
+ *
+ * The position of a dialog is specified by a {@link module:ui/dialog/dialog~DialogDefinition#position `position` property}
+ * of a definition passed to the {@link module:ui/dialog/dialog~Dialog#show} method.
+ */
+export type DialogViewPosition =
+	'screen-center' |
+	'editor-center' |
+	'editor-top-side' |
+	'editor-top-center' |
+	'editor-bottom-center' |
+	'editor-above-center' |
+	'editor-below-center';
+
+/**
+ * An event fired when the dialog is closed.
+ *
+ * @eventName ~DialogView#close
+ */
+export type DialogViewCloseEvent = {
+	name: 'close';
+	args: [ {
+		source: 'closeButton' | 'escKeyPress';
+	} ];
+};
+
+/**
+ * An event fired when the dialog is moved.
+ *
+ * @eventName ~DialogView#moveTo
+ */
+export type DialogViewMoveToEvent = {
+	name: 'moveTo';
+	args: [ left: number, top: number ];
+};
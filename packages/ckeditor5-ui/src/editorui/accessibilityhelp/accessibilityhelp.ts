@@ -0,0 +1,126 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/editorui/accessibilityhelp/accessibilityhelp
+ */
+
+import { Plugin } from '@ckeditor/ckeditor5-core';
+import ButtonView from '../../button/buttonview';
+import Dialog from '../../dialog/dialog';
+import AccessibilityHelpContentView from './accessibilityhelpcontentview';
+
+import accessibilityIcon from '../../../theme/icons/accessibility.svg';
+import '../../../theme/components/editorui/accessibilityhelp.css';
+
+/**
+ * A plugin that brings the accessibility help dialog to the editor available under the <kbd>Alt</kbd>+<kbd>0</kbd>
+ * keystroke and via the `'accessibilityHelp'` toolbar button. The dialog displays a searchable list of keystrokes
+ * available in the editor, gathered from the {@link module:core/editor/editor~Editor#accessibility editor accessibility}
+ * namespace where editor features register information about their keystrokes.
+ */
+export default class AccessibilityHelp extends Plugin {
+	/**
+	 * The view that displays the dialog content (list of keystrokes).
+	 * Created when the dialog is opened for the first time.
+	 */
+	public contentView: AccessibilityHelpContentView | null = null;
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get requires() {
+		return [ Dialog ] as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public static get pluginName() {
+		return 'AccessibilityHelp' as const;
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public init(): void {
+		const editor = this.editor;
+		const t = editor.locale.t;
+
+		editor.ui.componentFactory.add( 'accessibilityHelp', locale => {
+			const buttonView = new ButtonView( locale );
+
+			buttonView.set( {
+				label: t( 'Accessibility help' ),
+				icon: accessibilityIcon,
+				keystroke: 'Alt+0',
+				tooltip: true
+			} );
+
+			buttonView.on( 'execute', () => this._toggleDialog() );
+
+			return buttonView;
+		} );
+
+		editor.keystrokes.set( 'Alt+0', ( evt, cancel ) => {
+			this._toggleDialog();
+			cancel();
+		} );
+
+		editor.accessibility.addKeystrokeInfos( {
+			categoryId: 'navigation',
+			keystrokes: [
+				{
+					label: t( 'Open the accessibility help dialog' ),
+					keystroke: 'Alt+0'
+				}
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		if ( this.contentView ) {
+			this.contentView.destroy();
+		}
+	}
+
+	/**
+	 * Shows the accessibility help dialog or hides it if it is already visible. Creates the content
+	 * of the dialog when it is shown for the first time.
+	 */
+	private _toggleDialog(): void {
+		const editor = this.editor;
+		const dialog = editor.plugins.get( 'Dialog' );
+		const t = editor.locale.t;
+
+		if ( dialog.id === 'accessibilityHelp' ) {
+			dialog.hide();
+
+			return;
+		}
+
+		if ( !this.contentView ) {
+			this.contentView = new AccessibilityHelpContentView( editor.locale, editor.accessibility.keystrokeInfos );
+		}
+
+		dialog.show( {
+			id: 'accessibilityHelp',
+			className: 'ck-accessibility-help-dialog',
+			title: t( 'Accessibility help' ),
+			icon: accessibilityIcon,
+			hasCloseButton: true,
+			content: this.contentView,
+			isModal: true,
+			onHide: () => {
+				this.contentView!.resetFilter();
+			}
+		} );
+	}
+}
@@ -0,0 +1,462 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/editorui/accessibilityhelp/accessibilityhelpcontentview
+ */
+
+import {
+	FocusTracker,
+	KeystrokeHandler,
+	getEnvKeystrokeText,
+	type Locale
+} from '@ckeditor/ckeditor5-utils';
+
+import type {
+	KeystrokeInfoCategory,
+	KeystrokeInfoDefinition,
+	KeystrokeInfoGroup,
+	KeystrokeInfos
+} from '@ckeditor/ckeditor5-core';
+
+import View from '../../view';
+import type ViewCollection from '../../viewcollection';
+import LabeledFieldView from '../../labeledfield/labeledfieldview';
+import { createLabeledInputText } from '../../labeledfield/utils';
+import type InputTextView from '../../inputtext/inputtextview';
+import type { FocusableView } from '../../focuscycler';
+import type { TemplateDefinition } from '../../template';
+
+/**
+ * The view displaying keystrokes in the accessibility help dialog.
+ *
+ * It consists of a {@link #filterView filter input} and a scrollable list of keystroke {@link #categoryViews categories}.
+ * Typing in the filter input narrows down the list to keystrokes whose labels or key combinations match the query.
+ */
+export default class AccessibilityHelpContentView extends View implements FocusableView {
+	/**
+	 * The labeled input used to filter the list of keystrokes.
+	 */
+	public readonly filterView: LabeledFieldView<InputTextView>;
+
+	/**
+	 * The collection of views representing keystroke categories.
+	 */
+	public readonly categoryViews: ViewCollection<KeystrokeCategoryView>;
+
+	/**
+	 * The message displayed when no keystroke matches the filter query.
+	 */
+	public readonly noResultsView: View;
+
+	/**
+	 * Tracks information about the DOM focus in the view.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * The scrollable container of the {@link #categoryViews}.
+	 */
+	private readonly _keystrokesView: View;
+
+	/**
+	 * Controls the visibility of the {@link #noResultsView}.
+	 *
+	 * @observable
+	 * @internal
+	 */
+	declare public _hasNoResults: boolean;
+
+	/**
+	 * Creates an instance of the view.
+	 *
+	 * @param locale The localization services instance.
+	 * @param keystrokeInfos The keystroke information database to be displayed.
+	 */
+	constructor( locale: Locale, keystrokeInfos: KeystrokeInfos ) {
+		super( locale );
+
+		const t = locale.t;
+		const bind = this.bindTemplate;
+
+		this.set( '_hasNoResults', false );
+
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+		this.categoryViews = this.createCollection();
+
+		for ( const category of keystrokeInfos.values() ) {
+			const categoryView = new KeystrokeCategoryView( locale, category );
+
+			if ( categoryView.groupViews.length ) {
+				this.categoryViews.add( categoryView );
+			}
+		}
+
+		this.filterView = new LabeledFieldView( locale, createLabeledInputText );
+		this.filterView.set( {
+			label: t( 'Filter keystrokes' ),
+			class: 'ck-accessibility-help-dialog__filter'
+		} );
+
+		this.filterView.fieldView.on( 'input', () => {
+			this.filter( this.filterView.fieldView.element!.value );
+		} );
+
+		this.noResultsView = new View( locale );
+		this.noResultsView.setTemplate( {
+			tag: 'p',
+			attributes: {
+				class: [
+					'ck',
+					'ck-accessibility-help-dialog__no-results',
+					bind.if( '_hasNoResults', 'ck-hidden', value => !value )
+				]
+			},
+			children: [
+				t( 'No keystrokes match the query.' )
+			]
+		} );
+
+		this._keystrokesView = new View( locale );
+		this._keystrokesView.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-accessibility-help-dialog__keystrokes' ],
+				tabindex: '-1',
+				role: 'document',
+				'aria-label': t( 'Keystrokes' )
+			},
+			children: [
+				this.noResultsView,
+				...this.categoryViews
+			]
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [ 'ck', 'ck-accessibility-help-dialog__content' ]
+			},
+			children: [
+				this.filterView,
+				this._keystrokesView
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		this.focusTracker.add( this.filterView.element! );
+		this.focusTracker.add( this._keystrokesView.element! );
+		this.keystrokes.listenTo( this.element! );
+
+		// The parent dialog cycles the focus across its focusable children. Make sure the list of keystrokes
+		// can be reached from the filter input (and vice versa) so it can be scrolled using the keyboard.
+		this.keystrokes.set( 'tab', ( data, cancel ) => {
+			if ( this.focusTracker.focusedElement === this.filterView.element ) {
+				this._keystrokesView.element!.focus();
+				cancel();
+			}
+		} );
+
+		this.keystrokes.set( 'shift+tab', ( data, cancel ) => {
+			if ( this.focusTracker.focusedElement === this._keystrokesView.element ) {
+				this.filterView.focus();
+				cancel();
+			}
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+
+	/**
+	 * Focuses the {@link #filterView}.
+	 */
+	public focus(): void {
+		this.filterView.focus();
+	}
+
+	/**
+	 * Narrows down the list of keystrokes to the ones whose labels or key combinations contain the query.
+	 * The comparison is case-insensitive. An empty query shows all keystrokes.
+	 *
+	 * @param query The filter query.
+	 */
+	public filter( query: string ): void {
+		const normalizedQuery = query.trim().toLowerCase();
+		let hasResults = false;
+
+		for ( const categoryView of this.categoryViews ) {
+			hasResults = categoryView.filter( normalizedQuery ) || hasResults;
+		}
+
+		this._hasNoResults = !hasResults;
+	}
+
+	/**
+	 * Clears the {@link #filterView} and shows all keystrokes.
+	 */
+	public resetFilter(): void {
+		const fieldView = this.filterView.fieldView;
+
+		fieldView.element!.value = '';
+		fieldView.isEmpty = true;
+
+		this.filter( '' );
+	}
+}
+
+/**
+ * A view representing a {@link module:core/accessibility~KeystrokeInfoCategory category} of keystrokes.
+ */
+export class KeystrokeCategoryView extends View {
+	/**
+	 * The collection of views representing groups of keystrokes in the category.
+	 */
+	public readonly groupViews: ViewCollection<KeystrokeGroupView>;
+
+	/**
+	 * Controls whether the category is visible.
+	 *
+	 * @observable
+	 */
+	declare public isVisible: boolean;
+
+	constructor( locale: Locale, { label, description, groups }: KeystrokeInfoCategory ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+
+		this.set( 'isVisible', true );
+		this.groupViews = this.createCollection();
+
+		for ( const group of groups.values() ) {
+			if ( group.keystrokes.length ) {
+				this.groupViews.add( new KeystrokeGroupView( locale, group ) );
+			}
+		}
+
+		const children: Array<TemplateDefinition> = [
+			{
+				tag: 'h3',
+				attributes: {
+					class: [ 'ck', 'ck-accessibility-help-dialog__category__label' ]
+				},
+				children: [ label ]
+			}
+		];
+
+		if ( description ) {
+			children.push( {
+				tag: 'p',
+				attributes: {
+					class: [ 'ck', 'ck-accessibility-help-dialog__category__description' ]
+				},
+				children: [ description ]
+			} );
+		}
+
+		this.setTemplate( {
+			tag: 'section',
+			attributes: {
+				class: [
+					'ck',
+					'ck-accessibility-help-dialog__category',
+					bind.if( 'isVisible', 'ck-hidden', value => !value )
+				]
+			},
+			children: [
+				...children,
+				...this.groupViews
+			]
+		} );
+	}
+
+	/**
+	 * Filters the groups of the category. Returns `true` if any keystroke in the category matches the query.
+	 */
+	public filter( query: string ): boolean {
+		let isVisible = false;
+
+		for ( const groupView of this.groupViews ) {
+			isVisible = groupView.filter( query ) || isVisible;
+		}
+
+		this.isVisible = isVisible;
+
+		return isVisible;
+	}
+}
+
+/**
+ * A view representing a {@link module:core/accessibility~KeystrokeInfoGroup group} of keystrokes.
+ */
+export class KeystrokeGroupView extends View {
+	/**
+	 * The collection of views representing keystrokes in the group.
+	 */
+	public readonly keystrokeViews: ViewCollection<KeystrokeView>;
+
+	/**
+	 * Controls whether the group is visible.
+	 *
+	 * @observable
+	 */
+	declare public isVisible: boolean;
+
+	constructor( locale: Locale, { label, keystrokes }: KeystrokeInfoGroup ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+
+		this.set( 'isVisible', true );
+		this.keystrokeViews = this.createCollection();
+
+		for ( const keystrokeInfo of keystrokes ) {
+			this.keystrokeViews.add( new KeystrokeView( locale, keystrokeInfo ) );
+		}
+
+		const children: Array<TemplateDefinition> = [];
+
+		if ( label ) {
+			children.push( {
+				tag: 'h4',
+				attributes: {
+					class: [ 'ck', 'ck-accessibility-help-dialog__group__label' ]
+				},
+				children: [ label ]
+			} );
+		}
+
+		children.push( {
+			tag: 'dl',
+			attributes: {
+				class: [ 'ck', 'ck-accessibility-help-dialog__keystroke-list' ]
+			},
+			children: this.keystrokeViews
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [
+					'ck',
+					'ck-accessibility-help-dialog__group',
+					bind.if( 'isVisible', 'ck-hidden', value => !value )
+				]
+			},
+			children
+		} );
+	}
+
+	/**
+	 * Filters the keystrokes of the group. Returns `true` if any keystroke in the group matches the query.
+	 */
+	public filter( query: string ): boolean {
+		let isVisible = false;
+
+		for ( const keystrokeView of this.keystrokeViews ) {
+			isVisible = keystrokeView.filter( query ) || isVisible;
+		}
+
+		this.isVisible = isVisible;
+
+		return isVisible;
+	}
+}
+
+/**
+ * A view representing a single {@link module:core/accessibility~KeystrokeInfoDefinition keystroke}: its label
+ * and (environment-specific) key combinations.
+ */
+export class KeystrokeView extends View {
+	/**
+	 * Controls whether the keystroke is visible.
+	 *
+	 * @observable
+	 */
+	declare public isVisible: boolean;
+
+	/**
+	 * The lower-cased text the filter query is matched against.
+	 */
+	private readonly _searchableText: string;
+
+	constructor( locale: Locale, { label, keystroke }: KeystrokeInfoDefinition ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+		const keystrokeTexts = ( Array.isArray( keystroke ) ? keystroke : [ keystroke ] ).map( getEnvKeystrokeText );
+		const keystrokeChildren: Array<TemplateDefinition> = [];
+
+		this.set( 'isVisible', true );
+		this._searchableText = [ label, ...keystrokeTexts ].join( ' ' ).toLowerCase();
+
+		keystrokeTexts.forEach( ( keystrokeText, index ) => {
+			if ( index ) {
+				keystrokeChildren.push( { text: ', ' } );
+			}
+
+			keystrokeChildren.push( {
+				tag: 'kbd',
+				children: [ keystrokeText ]
+			} );
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+			attributes: {
+				class: [
+					'ck',
+					'ck-accessibility-help-dialog__keystroke',
+					bind.if( 'isVisible', 'ck-hidden', value => !value )
+				]
+			},
+			children: [
+				{
+					tag: 'dt',
+					attributes: {
+						class: [ 'ck', 'ck-accessibility-help-dialog__keystroke__label' ]
+					},
+					children: [ label ]
+				},
+				{
+					tag: 'dd',
+					attributes: {
+						class: [ 'ck', 'ck-accessibility-help-dialog__keystroke__keys' ]
+					},
+					children: keystrokeChildren
+				}
+			]
+		} );
+	}
+
+	/**
+	 * Shows or hides the keystroke depending on whether it matches the query. Returns the new visibility.
+	 */
+	public filter( query: string ): boolean {
+		this.isVisible = !query || this._searchableText.includes( query );
+
+		return this.isVisible;
+	}
+}
@@ -15,6 +15,8 @@ import PoweredBy from './poweredby';
 
 import type EditorUIView from './editoruiview';
 import type ToolbarView from '../toolbar/toolbarview';
+import type MenuBarView from '../menubar/menubarview';
+import normalizeMenuBarConfig from '../menubar/normalizemenubarconfig';
 import type { UIViewRenderEvent } from '../view';
 
 import {
@@ -291,6 +293,45 @@ export default abstract class EditorUI extends ObservableMixin() {
 		this._focusableToolbarDefinitions.push( { toolbarView, options } );
 	}
 
+	/**
+	 * Fills the menu bar with menus according to the {@link module:core/editor/editorconfig~EditorConfig#menuBar `config.menuBar`}
+	 * and registers it in the editor UI. Used by editor types that provide a menu bar, e.g. the classic editor.
+	 *
+	 * The registered menu bar can be focused by users by pressing the <kbd>Alt</kbd> + <kbd>F9</kbd> keystroke.
+	 * Pressing <kbd>Esc</kbd> when no menu is open brings the focus back to the editing area.
+	 *
+	 * **Note**: The menu bar view must be rendered before calling this method.
+	 *
+	 * @param menuBarView An instance of the menu bar view to be initialized.
+	 */
+	public initMenuBar( menuBarView: MenuBarView ): void {
+		const editor = this.editor;
+		const menuBarViewElement = menuBarView.element!;
+
+		menuBarView.fillFromConfig( normalizeMenuBarConfig( editor.config.get( 'menuBar' ) ), this.componentFactory );
+
+		this.focusTracker.add( menuBarViewElement );
+		editor.keystrokes.listenTo( menuBarViewElement );
+
+		editor.keystrokes.set( 'Alt+F9', ( data, cancel ) => {
+			if ( !isVisible( menuBarViewElement ) || menuBarViewElement.contains( this.focusTracker.focusedElement ) ) {
+				return;
+			}
+
+			menuBarView.focus();
+			cancel();
+		} );
+
+		editor.keystrokes.set( 'Esc', ( data, cancel ) => {
+			if ( !menuBarViewElement.contains( this.focusTracker.focusedElement ) ) {
+				return;
+			}
+
+			editor.editing.view.focus();
+			cancel();
+		} );
+	}
+
 	/**
 	 * Stores all editable elements used by the editor instance.
 	 *
@@ -9,6 +9,7 @@
 
 import View from '../view';
 import type ViewCollection from '../viewcollection';
+import IconView from '../icon/iconview';
 
 import type { Locale } from '@ckeditor/ckeditor5-utils';
 
@@ -53,10 +54,11 @@ export default class FormHeaderView extends View {
 	 * @param locale The locale instance.
 	 * @param options.label A label.
 	 * @param options.class An additional class.
+	 * @param options.icon An optional icon (SVG string) displayed before the label.
 	 */
 	constructor(
 		locale: Locale | undefined,
-		options: { label?: string | null; class?: string | null } = {}
+		options: { label?: string | null; class?: string | null; icon?: string | null } = {}
 	) {
 		super( locale );
 
@@ -94,6 +96,19 @@ export default class FormHeaderView extends View {
 			]
 		} );
 
+		if ( options.icon ) {
+			const iconView = new IconView();
+
+			iconView.content = options.icon;
+			iconView.extendTemplate( {
+				attributes: {
+					class: 'ck-form__header__icon'
+				}
+			} );
+
+			this.children.add( iconView );
+		}
+
 		this.children.add( label );
 	}
 }
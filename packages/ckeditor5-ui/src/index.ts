@@ -12,6 +12,11 @@ export { default as injectCssTransitionDisabler } from './bindings/injectcsstran
 export { default as CssTransitionDisablerMixin, type ViewWithCssTransitionDisabler } from './bindings/csstransitiondisablermixin';
 export { default as submitHandler } from './bindings/submithandler';
 export { default as addKeyboardHandlingForGrid } from './bindings/addkeyboardhandlingforgrid';
+export {
+	default as DraggableViewMixin,
+	type DraggableView,
+	type DraggableViewDragEvent
+} from './bindings/draggableviewmixin';
 
 export { default as BodyCollection } from './editorui/bodycollection';
 
@@ -35,12 +40,25 @@ export {
 
 export { default as ComponentFactory } from './componentfactory';
 
+export { default as Dialog, type DialogDefinition, type DialogShowEvent, type DialogHideEvent } from './dialog/dialog';
+export {
+	default as DialogView,
+	type DialogViewPosition,
+	type DialogViewCloseEvent,
+	type DialogViewMoveToEvent
+} from './dialog/dialogview';
+export { default as DialogActionsView, type DialogActionButtonDefinition } from './dialog/dialogactionsview';
+export { default as DialogContentView } from './dialog/dialogcontentview';
+
 export { default as DropdownView } from './dropdown/dropdownview';
 export { default as DropdownPanelView } from './dropdown/dropdownpanelview';
 export { default as DropdownButtonView } from './dropdown/button/dropdownbuttonview';
 export { default as SplitButtonView } from './dropdown/button/splitbuttonview';
 export * from './dropdown/utils';
 
+export { default as AccessibilityHelp } from './editorui/accessibilityhelp/accessibilityhelp';
+export { default as AccessibilityHelpContentView } from './editorui/accessibilityhelp/accessibilityhelpcontentview';
+
 export { default as EditorUI, type EditorUIReadyEvent, type EditorUIUpdateEvent } from './editorui/editorui';
 export { default as EditorUIView } from './editorui/editoruiview';
 export { default as BoxedEditorUIView } from './editorui/boxed/boxededitoruiview';
@@ -63,6 +81,18 @@ export * from './labeledfield/utils';
 export { default as ListItemView } from './list/listitemview';
 export { default as ListView } from './list/listview';
 
+export { default as MenuBarView } from './menubar/menubarview';
+export { default as MenuBarMenuView } from './menubar/menubarmenuview';
+export { default as MenuBarMenuButtonView, type MenuBarMenuButtonViewMouseEnterEvent } from './menubar/menubarmenubuttonview';
+export { default as MenuBarMenuPanelView, type MenuBarMenuPanelPosition } from './menubar/menubarmenupanelview';
+export { default as MenuBarMenuListView } from './menubar/menubarmenulistview';
+export { default as MenuBarMenuListItemView } from './menubar/menubarmenulistitemview';
+export {
+	default as MenuBarMenuListItemButtonView,
+	type MenuBarMenuListItemButtonViewMouseEnterEvent
+} from './menubar/menubarmenulistitembuttonview';
+export { default as normalizeMenuBarConfig, type NormalizedMenuBarConfig } from './menubar/normalizemenubarconfig';
+
 export { default as Notification } from './notification/notification';
 
 export { default as Model } from './model';
@@ -0,0 +1,87 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/menubar/menubarmenubuttonview
+ */
+
+import ButtonView from '../button/buttonview';
+import IconView from '../icon/iconview';
+
+import type { Locale } from '@ckeditor/ckeditor5-utils';
+
+import dropdownArrowIcon from '../../theme/icons/dropdown-arrow.svg';
+import nextArrowIcon from '../../theme/icons/next-arrow.svg';
+
+/**
+ * A button opening a {@link module:ui/menubar/menubarmenuview~MenuBarMenuView menu} in the
+ * {@link module:ui/menubar/menubarview~MenuBarView menu bar}.
+ *
+ * The button of a top-level menu displays a downward arrow while the button of a nested menu (a sub-menu)
+ * displays an arrow pointing towards the sub-menu.
+ */
+export default class MenuBarMenuButtonView extends ButtonView {
+	/**
+	 * An icon that displays an arrow indicating the button opens a menu.
+	 */
+	public readonly arrowView: IconView;
+
+	/**
+	 * Creates an instance of the menu button view.
+	 *
+	 * @param locale The localization services instance.
+	 * @param isNested When `true`, the button opens a nested menu (a sub-menu).
+	 */
+	constructor( locale?: Locale, isNested: boolean = false ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+
+		this.set( {
+			withText: true,
+			role: 'menuitem'
+		} );
+
+		this.arrowView = new IconView();
+		this.arrowView.content = isNested ? nextArrowIcon : dropdownArrowIcon;
+		this.arrowView.extendTemplate( {
+			attributes: {
+				class: 'ck-menu-bar__menu__button__arrow'
+			}
+		} );
+
+		this.extendTemplate( {
+			attributes: {
+				class: [
+					'ck-menu-bar__menu__button'
+				],
+				'aria-haspopup': true,
+				'aria-expanded': bind.to( 'isOn', value => String( value ) )
+			},
+			on: {
+				mouseenter: bind.to( 'mouseenter' )
+			}
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		this.children.add( this.arrowView );
+	}
+}
+
+/**
+ * Fired when the mouse pointer enters the button.
+ *
+ * @eventName ~MenuBarMenuButtonView#mouseenter
+ */
+export type MenuBarMenuButtonViewMouseEnterEvent = {
+	name: 'mouseenter';
+	args: [];
+};
@@ -0,0 +1,54 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/menubar/menubarmenulistitembuttonview
+ */
+
+import ButtonView from '../button/buttonview';
+
+import type { Locale } from '@ckeditor/ckeditor5-utils';
+
+/**
+ * A button representing a single item in a {@link module:ui/menubar/menubarmenuview~MenuBarMenuView menu}
+ * of the {@link module:ui/menubar/menubarview~MenuBarView menu bar}. It displays its label and keystroke (if any).
+ */
+export default class MenuBarMenuListItemButtonView extends ButtonView {
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale?: Locale ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+
+		this.set( {
+			withText: true,
+			withKeystroke: true,
+			role: 'menuitem'
+		} );
+
+		this.extendTemplate( {
+			attributes: {
+				class: [
+					'ck-menu-bar__menu__item__button'
+				]
+			},
+			on: {
+				mouseenter: bind.to( 'mouseenter' )
+			}
+		} );
+	}
+}
+
+/**
+ * Fired when the mouse pointer enters the button.
+ *
+ * @eventName ~MenuBarMenuListItemButtonView#mouseenter
+ */
+export type MenuBarMenuListItemButtonViewMouseEnterEvent = {
+	name: 'mouseenter';
+	args: [];
+};
@@ -0,0 +1,34 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/menubar/menubarmenulistitemview
+ */
+
+import ListItemView from '../list/listitemview';
+
+import type { Locale } from '@ckeditor/ckeditor5-utils';
+
+/**
+ * A list item in a {@link module:ui/menubar/menubarmenulistview~MenuBarMenuListView menu list}. It hosts either
+ * a {@link module:ui/menubar/menubarmenulistitembuttonview~MenuBarMenuListItemButtonView button} or
+ * a nested {@link module:ui/menubar/menubarmenuview~MenuBarMenuView menu}.
+ */
+export default class MenuBarMenuListItemView extends ListItemView {
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale?: Locale ) {
+		super( locale );
+
+		this.extendTemplate( {
+			attributes: {
+				class: [
+					'ck-menu-bar__menu__item'
+				]
+			}
+		} );
+	}
+}
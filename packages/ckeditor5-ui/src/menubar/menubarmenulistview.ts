@@ -0,0 +1,35 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/menubar/menubarmenulistview
+ */
+
+import ListView from '../list/listview';
+
+import type { Locale } from '@ckeditor/ckeditor5-utils';
+
+/**
+ * A list of items displayed in the panel of a {@link module:ui/menubar/menubarmenuview~MenuBarMenuView menu}.
+ * Its items can be navigated using the <kbd>Arrow up</kbd> and <kbd>Arrow down</kbd> keys.
+ */
+export default class MenuBarMenuListView extends ListView {
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale?: Locale ) {
+		super( locale );
+
+		this.role = 'menu';
+
+		this.extendTemplate( {
+			attributes: {
+				class: [
+					'ck-menu-bar__menu__list'
+				]
+			}
+		} );
+	}
+}
@@ -0,0 +1,91 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/menubar/menubarmenupanelview
+ */
+
+import View from '../view';
+import type ViewCollection from '../viewcollection';
+
+import type { Locale } from '@ckeditor/ckeditor5-utils';
+
+/**
+ * The panel of a {@link module:ui/menubar/menubarmenuview~MenuBarMenuView menu} hosting the list of its items.
+ */
+export default class MenuBarMenuPanelView extends View {
+	/**
+	 * Collection of the child views in this panel.
+	 */
+	public readonly children: ViewCollection;
+
+	/**
+	 * Controls whether the panel is visible.
+	 *
+	 * @observable
+	 */
+	declare public isVisible: boolean;
+
+	/**
+	 * The position of the panel, relative to the menu button.
+	 *
+	 * This property is reflected in the CSS class set to {@link #element} that controls
+	 * the position of the panel.
+	 *
+	 * @observable
+	 * @default 'se'
+	 */
+	declare public position: MenuBarMenuPanelPosition;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale?: Locale ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+
+		this.set( 'isVisible', false );
+		this.set( 'position', 'se' );
+
+		this.children = this.createCollection();
+
+		this.setTemplate( {
+			tag: 'div',
+
+			attributes: {
+				class: [
+					'ck',
+					'ck-reset',
+					'ck-menu-bar__menu__panel',
+					bind.to( 'position', value => `ck-menu-bar__menu__panel_position_${ value }` ),
+					bind.if( 'isVisible', 'ck-hidden', value => !value )
+				],
+				tabindex: '-1'
+			},
+
+			children: this.children,
+
+			on: {
+				// Drag and drop in the panel should not break the selection in the editor.
+				selectstart: bind.to( evt => {
+					if ( ( evt.target as HTMLElement ).tagName.toLocaleLowerCase() === 'input' ) {
+						return;
+					}
+
+					evt.preventDefault();
+				} )
+			}
+		} );
+	}
+}
+
+/**
+ * The position of the {@link module:ui/menubar/menubarmenupanelview~MenuBarMenuPanelView menu panel}:
+ *
+ * * `'se'` and `'sw'` &ndash; below the button, aligned to its left (`'se'`) or right (`'sw'`) edge. Used by top-level menus.
+ * * `'es'` and `'ws'` &ndash; next to the button, on its right (`'es'`) or left (`'ws'`) side. Used by nested menus.
+ */
+export type MenuBarMenuPanelPosition = 'se' | 'sw' | 'es' | 'ws';
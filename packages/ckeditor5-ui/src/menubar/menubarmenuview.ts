@@ -0,0 +1,234 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/menubar/menubarmenuview
+ */
+
+import View from '../view';
+import MenuBarMenuButtonView from './menubarmenubuttonview';
+import MenuBarMenuPanelView, { type MenuBarMenuPanelPosition } from './menubarmenupanelview';
+import MenuBarMenuListView from './menubarmenulistview';
+
+import type { FocusableView } from '../focuscycler';
+
+import {
+	FocusTracker,
+	KeystrokeHandler,
+	type Locale
+} from '@ckeditor/ckeditor5-utils';
+
+/**
+ * A single menu in the {@link module:ui/menubar/menubarview~MenuBarView menu bar}. It consists of a
+ * {@link #buttonView button} and a {@link #panelView panel} with a {@link #listView list} of items.
+ *
+ * The menu can be either a top-level menu (e.g. "Format") or a nested menu (a sub-menu, e.g. "Format > Heading")
+ * displayed as an item in the list of its {@link #parentMenuView parent menu}.
+ *
+ * The menu handles the following keystrokes:
+ *
+ * * <kbd>Arrow down</kbd>, <kbd>Enter</kbd> or <kbd>Space</kbd> on the button of a top-level menu opens the menu and focuses
+ * its first item (<kbd>Arrow up</kbd> focuses the last item),
+ * * <kbd>Arrow right</kbd> (<kbd>Arrow left</kbd> in RTL), <kbd>Enter</kbd> or <kbd>Space</kbd> on the button of a nested menu
+ * opens the menu and focuses its first item,
+ * * <kbd>Arrow left</kbd> (<kbd>Arrow right</kbd> in RTL) in the list of a nested menu closes it and focuses its button,
+ * * <kbd>Esc</kbd> closes the open menu and focuses its button.
+ */
+export default class MenuBarMenuView extends View implements FocusableView {
+	/**
+	 * The button opening the menu.
+	 */
+	public readonly buttonView: MenuBarMenuButtonView;
+
+	/**
+	 * The panel displayed when the menu is open.
+	 */
+	public readonly panelView: MenuBarMenuPanelView;
+
+	/**
+	 * The list of menu items displayed in the {@link #panelView}.
+	 */
+	public readonly listView: MenuBarMenuListView;
+
+	/**
+	 * The parent menu of this menu. `null` for top-level menus.
+	 */
+	public readonly parentMenuView: MenuBarMenuView | null;
+
+	/**
+	 * Tracks information about the DOM focus in the menu.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}. It manages
+	 * keystrokes of the menu.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * The unique identifier of the menu, as specified in the
+	 * {@link module:core/editor/editorconfig~MenuBarMenuConfig#menuId menu bar configuration}.
+	 *
+	 * @observable
+	 */
+	declare public menuId: string | undefined;
+
+	/**
+	 * Controls whether the menu is open, i.e. shows or hides the {@link #panelView panel}.
+	 *
+	 * @observable
+	 */
+	declare public isOpen: boolean;
+
+	/**
+	 * The position of the {@link #panelView panel}, relative to the {@link #buttonView button}.
+	 *
+	 * @observable
+	 */
+	declare public panelPosition: MenuBarMenuPanelPosition;
+
+	/**
+	 * Creates an instance of the menu view.
+	 *
+	 * @param locale The localization services instance.
+	 * @param parentMenuView The parent menu. Pass it when creating a nested menu (a sub-menu).
+	 */
+	constructor( locale: Locale, parentMenuView: MenuBarMenuView | null = null ) {
+		super( locale );
+
+		const bind = this.bindTemplate;
+		const isRtl = locale.uiLanguageDirection === 'rtl';
+
+		this.parentMenuView = parentMenuView;
+		this.buttonView = new MenuBarMenuButtonView( locale, !!parentMenuView );
+		this.panelView = new MenuBarMenuPanelView( locale );
+		this.listView = new MenuBarMenuListView( locale );
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+
+		this.set( 'menuId', undefined );
+		this.set( 'isOpen', false );
+
+		if ( parentMenuView ) {
+			this.set( 'panelPosition', isRtl ? 'ws' : 'es' );
+		} else {
+			this.set( 'panelPosition', isRtl ? 'sw' : 'se' );
+		}
+
+		this.buttonView.bind( 'isOn' ).to( this, 'isOpen' );
+		this.panelView.bind( 'isVisible' ).to( this, 'isOpen' );
+		this.panelView.bind( 'position' ).to( this, 'panelPosition' );
+		this.panelView.children.add( this.listView );
+
+		// Clicking the button toggles the menu.
+		this.buttonView.on( 'execute', () => {
+			this.isOpen = !this.isOpen;
+		} );
+
+		this.setTemplate( {
+			tag: 'div',
+
+			attributes: {
+				class: [
+					'ck',
+					'ck-menu-bar__menu',
+					parentMenuView ? 'ck-menu-bar__menu_nested' : 'ck-menu-bar__menu_top-level',
+					bind.if( 'isOpen', 'ck-menu-bar__menu_open' )
+				],
+				role: 'presentation'
+			},
+
+			children: [
+				this.buttonView,
+				this.panelView
+			]
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		this.focusTracker.add( this.element! );
+		this.keystrokes.listenTo( this.element! );
+
+		const isRtl = this.locale!.uiLanguageDirection === 'rtl';
+		const forwardArrowKey = isRtl ? 'arrowleft' : 'arrowright';
+		const backwardArrowKey = isRtl ? 'arrowright' : 'arrowleft';
+
+		const openAndFocusFirst = ( data: KeyboardEvent, cancel: () => void ) => {
+			if ( data.target !== this.buttonView.element ) {
+				return;
+			}
+
+			this.isOpen = true;
+			this.listView.focus();
+
+			cancel();
+		};
+
+		this.keystrokes.set( 'enter', openAndFocusFirst );
+		this.keystrokes.set( 'space', openAndFocusFirst );
+
+		if ( this.parentMenuView ) {
+			this.keystrokes.set( forwardArrowKey, openAndFocusFirst );
+
+			this.keystrokes.set( backwardArrowKey, ( data, cancel ) => {
+				if ( !this.isOpen || !this.panelView.element!.contains( data.target as Node ) ) {
+					return;
+				}
+
+				this.isOpen = false;
+				this.focus();
+
+				cancel();
+			} );
+		} else {
+			this.keystrokes.set( 'arrowdown', openAndFocusFirst );
+
+			this.keystrokes.set( 'arrowup', ( data, cancel ) => {
+				if ( data.target !== this.buttonView.element ) {
+					return;
+				}
+
+				this.isOpen = true;
+				this.listView.focusLast();
+
+				cancel();
+			} );
+		}
+
+		this.keystrokes.set( 'esc', ( data, cancel ) => {
+			if ( !this.isOpen ) {
+				return;
+			}
+
+			this.isOpen = false;
+			this.focus();
+
+			cancel();
+		} );
+	}
+
+	/**
+	 * Focuses the {@link #buttonView button} of the menu.
+	 */
+	public focus(): void {
+		this.buttonView.focus();
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override destroy(): void {
+		super.destroy();
+
+		this.focusTracker.destroy();
+		this.keystrokes.destroy();
+	}
+}
@@ -0,0 +1,489 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/menubar/menubarview
+ */
+
+import View from '../view';
+import ButtonView from '../button/buttonview';
+import ListSeparatorView from '../list/listseparatorview';
+import clickOutsideHandler from '../bindings/clickoutsidehandler';
+import MenuBarMenuView from './menubarmenuview';
+import MenuBarMenuListItemView from './menubarmenulistitemview';
+import MenuBarMenuListItemButtonView, { type MenuBarMenuListItemButtonViewMouseEnterEvent } from './menubarmenulistitembuttonview';
+
+import type ComponentFactory from '../componentfactory';
+import type ViewCollection from '../viewcollection';
+import type { FocusableView } from '../focuscycler';
+import type { MenuBarMenuButtonViewMouseEnterEvent } from './menubarmenubuttonview';
+import type { NormalizedMenuBarConfig } from './normalizemenubarconfig';
+
+import type {
+	MenuBarCommandItemConfig,
+	MenuBarMenuConfig,
+	MenuBarMenuItemConfig
+} from '@ckeditor/ckeditor5-core';
+
+import {
+	FocusTracker,
+	KeystrokeHandler,
+	logWarning,
+	type Locale,
+	type ObservableChangeEvent
+} from '@ckeditor/ckeditor5-utils';
+
+import { isObject } from 'lodash-es';
+
+import '../../theme/components/menubar/menubar.css';
+
+/**
+ * The application-style menu bar view, hosting top-level {@link module:ui/menubar/menubarmenuview~MenuBarMenuView menus}
+ * (e.g. "File", "Edit", "Format") that can contain items executing editor commands and nested menus.
+ *
+ * The menu bar is usually {@link #fillFromConfig filled} using the
+ * {@link module:core/editor/editorconfig~EditorConfig#menuBar `config.menuBar`} configuration:
+ *
+ * ```ts
+ * const menuBarView = new MenuBarView( locale );
+ *
+ * menuBarView.fillFromConfig( normalizeMenuBarConfig( editor.config.get( 'menuBar' ) ), editor.ui.componentFactory );
+ * menuBarView.render();
+ *
+ * document.body.append( menuBarView.element );
+ * ```
+ *
+ * The top-level menus can be navigated using the <kbd>Arrow left</kbd> and <kbd>Arrow right</kbd> keys. See
+ * {@link module:ui/menubar/menubarmenuview~MenuBarMenuView} to learn about keystrokes available in the menus.
+ */
+export default class MenuBarView extends View implements FocusableView {
+	/**
+	 * A collection of top-level menus.
+	 */
+	public readonly children: ViewCollection<MenuBarMenuView>;
+
+	/**
+	 * All menus of the menu bar (top-level and nested ones).
+	 */
+	public readonly menus: Array<MenuBarMenuView> = [];
+
+	/**
+	 * Tracks information about the DOM focus in the menu bar.
+	 */
+	public readonly focusTracker: FocusTracker;
+
+	/**
+	 * An instance of the {@link module:utils/keystrokehandler~KeystrokeHandler}. It manages
+	 * keystrokes of the menu bar.
+	 */
+	public readonly keystrokes: KeystrokeHandler;
+
+	/**
+	 * Indicates whether any of the top-level menus is open.
+	 *
+	 * @readonly
+	 * @observable
+	 */
+	declare public isOpen: boolean;
+
+	/**
+	 * Label used by assistive technologies to describe the menu bar.
+	 *
+	 * @observable
+	 */
+	declare public ariaLabel: string;
+
+	/**
+	 * @inheritDoc
+	 */
+	constructor( locale: Locale ) {
+		super( locale );
+
+		const t = locale.t;
+		const bind = this.bindTemplate;
+
+		this.children = this.createCollection();
+		this.focusTracker = new FocusTracker();
+		this.keystrokes = new KeystrokeHandler();
+
+		this.set( 'isOpen', false );
+		this.set( 'ariaLabel', t( 'Editor menu bar' ) );
+
+		this.setTemplate( {
+			tag: 'div',
+
+			attributes: {
+				class: [
+					'ck',
+					'ck-menu-bar'
+				],
+				role: 'menubar',
+				'aria-label': bind.to( 'ariaLabel' )
+			},
+
+			children: this.children
+		} );
+	}
+
+	/**
+	 * @inheritDoc
+	 */
+	public override render(): void {
+		super.render();
+
+		const isRtl = this.locale!.uiLanguageDirection === 'rtl';
+
+		this.focusTracker.add( this.element! );
+		this.keystrokes.listenTo( this.element! );
+
+		// Navigate over the top-level menus using arrow keys.
+		this.keystrokes.set( isRtl ? 'arrowleft' : 'arrowright', ( data, cancel ) => {
+			if ( this._focusSiblingTopLevelMenu( data.target as Node, 1 ) ) {
+				cancel();
+			}
+		} );
+
+		this.keystrokes.set( isRtl ? 'arrowright' : 'arrowleft', ( data, cancel ) => {
+			if ( this._focusSiblingTopLevelMenu( data.target as Node, -1 ) ) {
+				cancel();
+			}
+		} );
+
+		// Close all menus when the focus leaves the menu bar.
+		this.focusTracker.on<ObservableChangeEvent<boolean>>( 'change:isFocused', ( evt, name, isFocused ) => {
+			if ( !isFocused ) {
+				this.close();
+			}
+		} );
+
+		// Close all menus when the user clicks outside of the menu bar.
+		clickOutsideHandler( {
+			emitter: this,
+			activator: () => this.isOpen,
+			callback: () => this.close(),
+			contextElements: () => [ this.element! ]
+		} );
+	}
+
+	/**
+	 * Focuses the first top-level menu.
+	 */
+	public focus(): void {
+		if ( this.children.first ) {
+			this.children.first.focus();
+		}
+	}
+
+	/**
+	 * Closes all menus of the menu bar.
+	 */
+	public close(): void {
+		for ( const menuView of this.children ) {
+			menuView.isOpen = false;
+		}
+	}
+
+	/**
+	 * Fills the menu bar with menus and their items based on the
+	 * {@link module:core/editor/editorconfig~EditorConfig#menuBar menu bar configuration}.
+	 *
+	 * Items referring to {@link module:core/editor/editor~Editor#commands commands} that are unavailable are omitted.
+	 * Menus without items are omitted too.
+	 *
+	 * @param config The normalized menu bar configuration.
+	 * @param componentFactory The factory of the editor UI components. It provides access to the editor and its commands.
+	 * It is also used to obtain labels, icons and keystrokes of items that do not specify them.
+	 */
+	public fillFromConfig( config: NormalizedMenuBarConfig, componentFactory: ComponentFactory ): void {
+		const topLevelMenuViews = config.items
+			.map( menuDefinition => this._createMenu( menuDefinition, componentFactory, null ) )
+			.filter( ( menuView ): menuView is MenuBarMenuView => !!menuView );
+
+		this._setUpSiblingMenus( topLevelMenuViews );
+
+		for ( const menuView of topLevelMenuViews ) {
+			menuView.on<ObservableChangeEvent<boolean>>( 'change:isOpen', () => {
+				this.isOpen = topLevelMenuViews.some( menuView => menuView.isOpen );
+			} );
+
+			// When any menu is open, hovering another top-level menu opens it (like in desktop applications).
+			menuView.buttonView.on<MenuBarMenuButtonViewMouseEnterEvent>( 'mouseenter', () => {
+				if ( this.isOpen && !menuView.isOpen ) {
+					menuView.isOpen = true;
+					menuView.focus();
+				}
+			} );
+		}
+
+		this.children.addMany( topLevelMenuViews );
+	}
+
+	/**
+	 * Creates a menu (and its nested menus) based on its definition.
+	 *
+	 * @param definition The definition of the menu.
+	 * @param componentFactory The factory of the editor UI components.
+	 * @param parentMenuView The parent menu or `null` when creating a top-level menu.
+	 * @returns The menu view or `null` if the menu has no items.
+	 */
+	private _createMenu(
+		definition: MenuBarMenuConfig,
+		componentFactory: ComponentFactory,
+		parentMenuView: MenuBarMenuView | null
+	): MenuBarMenuView | null {
+		const locale = this.locale!;
+		const menuView = new MenuBarMenuView( locale, parentMenuView );
+		const childMenuViews: Array<MenuBarMenuView> = [];
+		const itemViews: Array<View> = [];
+
+		menuView.menuId = definition.menuId;
+		menuView.buttonView.label = definition.label;
+
+		for ( const itemDefinition of definition.items ) {
+			if ( itemDefinition === '|' ) {
+				itemViews.push( new ListSeparatorView( locale ) );
+
+				continue;
+			}
+
+			const listItemView = new MenuBarMenuListItemView( locale );
+
+			if ( isMenuDefinition( itemDefinition ) ) {
+				const childMenuView = this._createMenu( itemDefinition, componentFactory, menuView );
+
+				if ( !childMenuView ) {
+					continue;
+				}
+
+				// Hovering a nested menu button opens the nested menu.
+				childMenuView.buttonView.on<MenuBarMenuButtonViewMouseEnterEvent>( 'mouseenter', () => {
+					childMenuView.isOpen = true;
+				} );
+
+				// Closing a menu closes its nested menus.
+				menuView.on<ObservableChangeEvent<boolean>>( 'change:isOpen', ( evt, name, isOpen ) => {
+					if ( !isOpen ) {
+						childMenuView.isOpen = false;
+					}
+				} );
+
+				childMenuViews.push( childMenuView );
+				listItemView.children.add( childMenuView );
+			} else {
+				const buttonView = this._createCommandButton( itemDefinition, componentFactory );
+
+				if ( !buttonView ) {
+					continue;
+				}
+
+				// Hovering a regular item closes open nested menus of the same menu.
+				buttonView.on<MenuBarMenuListItemButtonViewMouseEnterEvent>( 'mouseenter', () => {
+					for ( const childMenuView of childMenuViews ) {
+						childMenuView.isOpen = false;
+					}
+				} );
+
+				listItemView.children.add( buttonView );
+			}
+
+			itemViews.push( listItemView );
+		}
+
+		const filteredItemViews = filterSeparators( itemViews );
+
+		if ( !filteredItemViews.length ) {
+			/**
+			 * There was a problem processing the configuration of the menu bar. The menu has no (available) items
+			 * so it was omitted when rendering the menu bar.
+			 *
+			 * Make sure the plugins providing the commands referenced in the menu are loaded and the
+			 * {@link module:core/editor/editorconfig~EditorConfig#menuBar menu bar configuration} is correct.
+			 *
+			 * @error menu-bar-menu-empty
+			 * @param menuId The identifier of the empty menu.
+			 */
+			logWarning( 'menu-bar-menu-empty', { menuId: definition.menuId } );
+
+			menuView.destroy();
+
+			return null;
+		}
+
+		this._setUpSiblingMenus( childMenuViews );
+
+		menuView.listView.items.addMany( filteredItemViews );
+
+		this.menus.push( menuView );
+
+		return menuView;
+	}
+
+	/**
+	 * Creates a menu item button executing a command.
+	 *
+	 * @param itemDefinition The definition of the item (a name of the command or an object).
+	 * @param componentFactory The factory of the editor UI components.
+	 * @returns The button view or `null` if the command is not available.
+	 */
+	private _createCommandButton(
+		itemDefinition: string | MenuBarCommandItemConfig,
+		componentFactory: ComponentFactory
+	): MenuBarMenuListItemButtonView | null {
+		const editor = componentFactory.editor;
+		const definition = typeof itemDefinition == 'string' ? { command: itemDefinition } : itemDefinition;
+		const { command: commandName, commandValue } = definition;
+		const command = editor.commands.get( commandName );
+
+		if ( !command ) {
+			/**
+			 * There was a problem processing the configuration of the menu bar. The command referenced by the item
+			 * does not exist so the item was omitted when rendering the menu bar.
+			 *
+			 * This warning usually shows up when the {@link module:core/plugin~Plugin} which is supposed
+			 * to provide the command has not been loaded or there is a typo in the configuration.
+			 *
+			 * You can use the following snippet to retrieve all available commands:
+			 *
+			 * ```ts
+			 * Array.from( editor.commands.names() );
+			 * ```
+			 *
+			 * @error menu-bar-item-unavailable
+			 * @param item The definition of the menu bar item.
+			 */
+			logWarning( 'menu-bar-item-unavailable', { item: itemDefinition } );
+
+			return null;
+		}
+
+		let { label, icon, keystroke } = definition as MenuBarCommandItemConfig;
+
+		// Borrow the missing properties from the UI component registered under the name of the command (e.g. a toolbar button).
+		if ( ( !label || !icon || !keystroke ) && componentFactory.has( commandName ) ) {
+			const componentView = componentFactory.create( commandName );
+
+			if ( componentView instanceof ButtonView ) {
+				label = label || componentView.label;
+				icon = icon || componentView.icon;
+				keystroke = keystroke || componentView.keystroke;
+			}
+
+			componentView.destroy();
+		}
+
+		const buttonView = new MenuBarMenuListItemButtonView( this.locale );
+		const isToggleable = commandValue !== undefined || typeof command.value == 'boolean';
+
+		buttonView.set( {
+			label: label || commandName,
+			icon,
+			keystroke,
+			isToggleable
+		} );
+
+		if ( isToggleable ) {
+			buttonView.role = 'menuitemcheckbox';
+
+			buttonView.bind( 'isOn' ).to( command, 'value', value => {
+				return commandValue !== undefined ? value === commandValue : value === true;
+			} );
+		}
+
+		buttonView.bind( 'isEnabled' ).to( command );
+
+		buttonView.on( 'execute', () => {
+			if ( commandValue !== undefined ) {
+				editor.execute( commandName, { value: commandValue } );
+			} else {
+				editor.execute( commandName );
+			}
+
+			this.close();
+			editor.editing.view.focus();
+		} );
+
+		return buttonView;
+	}
+
+	/**
+	 * Makes sure only one of the sibling menus (menus sharing the same parent) is open at a time.
+	 *
+	 * @param menuViews The sibling menus.
+	 */
+	private _setUpSiblingMenus( menuViews: Array<MenuBarMenuView> ): void {
+		for ( const menuView of menuViews ) {
+			menuView.on<ObservableChangeEvent<boolean>>( 'change:isOpen', ( evt, name, isOpen ) => {
+				if ( !isOpen ) {
+					return;
+				}
+
+				for ( const siblingMenuView of menuViews ) {
+					if ( siblingMenuView !== menuView ) {
+						siblingMenuView.isOpen = false;
+					}
+				}
+			} );
+		}
+	}
+
+	/**
+	 * Moves the focus from the top-level menu containing the given DOM node to its sibling. If the former menu was open,
+	 * the sibling gets open and its first item is focused.
+	 *
+	 * @param domNode The DOM node that has the focus.
+	 * @param step `1` to focus the next menu, `-1` to focus the previous one.
+	 * @returns `true` when the focus was moved.
+	 */
+	private _focusSiblingTopLevelMenu( domNode: Node, step: 1 | -1 ): boolean {
+		const menuViews = Array.from( this.children );
+		const currentIndex = menuViews.findIndex( menuView => menuView.element!.contains( domNode ) );
+
+		if ( currentIndex === -1 ) {
+			return false;
+		}
+
+		const currentMenuView = menuViews[ currentIndex ];
+		const siblingMenuView = menuViews[ ( currentIndex + step + menuViews.length ) % menuViews.length ];
+
+		if ( currentMenuView.isOpen ) {
+			siblingMenuView.isOpen = true;
+			siblingMenuView.listView.focus();
+		} else {
+			siblingMenuView.focus();
+		}
+
+		return true;
+	}
+}
+
+/**
+ * Checks whether the menu item definition describes a nested menu.
+ */
+function isMenuDefinition( definition: MenuBarMenuItemConfig ): definition is MenuBarMenuConfig {
+	return isObject( definition ) && 'menuId' in definition;
+}
+
+/**
+ * Removes leading, trailing and duplicated separators from the list of menu items.
+ */
+function filterSeparators( itemViews: Array<View> ): Array<View> {
+	const result: Array<View> = [];
+
+	for ( const itemView of itemViews ) {
+		if ( itemView instanceof ListSeparatorView ) {
+			if ( !result.length || result[ result.length - 1 ] instanceof ListSeparatorView ) {
+				continue;
+			}
+		}
+
+		result.push( itemView );
+	}
+
+	if ( result.length && result[ result.length - 1 ] instanceof ListSeparatorView ) {
+		result.pop();
+	}
+
+	return result;
+}
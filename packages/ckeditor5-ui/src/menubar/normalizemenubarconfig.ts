@@ -0,0 +1,64 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/**
+ * @module ui/menubar/normalizemenubarconfig
+ */
+
+import type { MenuBarConfig, MenuBarMenuConfig } from '@ckeditor/ckeditor5-core';
+
+/**
+ * Normalizes the menu bar configuration (`config.menuBar`), which:
+ *
+ * * may be defined as an `Array` of menus, which is a shorthand for a visible menu bar:
+ *
+ * ```
+ * menuBar: [ { menuId: 'edit', label: 'Edit', items: [ 'undo', 'redo' ] }, ... ]
+ * ```
+ *
+ * * or an `Object`:
+ *
+ * ```
+ * menuBar: {
+ * 	items: [ { menuId: 'edit', label: 'Edit', items: [ 'undo', 'redo' ] }, ... ],
+ * 	isVisible: true
+ * }
+ * ```
+ *
+ * * or may not be defined at all (`undefined`)
+ *
+ * and returns it in the object form. The menu bar defined in the object form is not visible unless `isVisible` is set.
+ *
+ * @param config The value of `config.menuBar`.
+ * @returns A normalized menu bar config object.
+ */
+export default function normalizeMenuBarConfig( config: MenuBarConfig | undefined ): NormalizedMenuBarConfig {
+	if ( Array.isArray( config ) ) {
+		return {
+			items: config,
+			isVisible: true
+		};
+	}
+
+	if ( !config ) {
+		return {
+			items: [],
+			isVisible: false
+		};
+	}
+
+	return Object.assign( {
+		items: [],
+		isVisible: false
+	}, config );
+}
+
+/**
+ * The menu bar configuration in the object form.
+ */
+export interface NormalizedMenuBarConfig {
+	items: Array<MenuBarMenuConfig>;
+	isVisible: boolean;
+}
@@ -0,0 +1,157 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, MouseEvent, Touch, TouchEvent */
+
+import DraggableViewMixin from '../../src/bindings/draggableviewmixin';
+import View from '../../src/view';
+
+describe( 'DraggableViewMixin()', () => {
+	let view, handleElement;
+
+	class TestView extends DraggableViewMixin( View ) {
+		constructor( ...args ) {
+			super( ...args );
+
+			this.setTemplate( {
+				tag: 'div',
+				children: [
+					{ tag: 'div', attributes: { class: 'handle' } },
+					{ tag: 'div', attributes: { class: 'body' } }
+				]
+			} );
+		}
+
+		get dragHandleElement() {
+			return this.element.firstChild;
+		}
+	}
+
+	beforeEach( () => {
+		view = new TestView();
+		view.render();
+		document.body.appendChild( view.element );
+
+		handleElement = view.element.firstChild;
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	it( 'should set #isDragging to false by default', () => {
+		expect( view.isDragging ).to.be.false;
+	} );
+
+	describe( 'mouse', () => {
+		it( 'should start dragging when the handle element was pressed', () => {
+			handleElement.dispatchEvent( new MouseEvent( 'mousedown', { bubbles: true, clientX: 10, clientY: 10 } ) );
+
+			expect( view.isDragging ).to.be.true;
+		} );
+
+		it( 'should not start dragging when other element than the handle was pressed', () => {
+			view.element.lastChild.dispatchEvent( new MouseEvent( 'mousedown', { bubbles: true, clientX: 10, clientY: 10 } ) );
+
+			expect( view.isDragging ).to.be.false;
+		} );
+
+		it( 'should fire the #drag event with the pointer deltas when the mouse moves', () => {
+			const spy = sinon.spy();
+
+			view.on( 'drag', spy );
+
+			handleElement.dispatchEvent( new MouseEvent( 'mousedown', { bubbles: true, clientX: 10, clientY: 10 } ) );
+			document.dispatchEvent( new MouseEvent( 'mousemove', { clientX: 15, clientY: 30 } ) );
+			document.dispatchEvent( new MouseEvent( 'mousemove', { clientX: 12, clientY: 31 } ) );
+
+			sinon.assert.calledTwice( spy );
+			sinon.assert.calledWith( spy.firstCall, sinon.match.any, { deltaX: 5, deltaY: 20 } );
+			sinon.assert.calledWith( spy.secondCall, sinon.match.any, { deltaX: -3, deltaY: 1 } );
+		} );
+
+		it( 'should stop dragging on mouseup', () => {
+			const spy = sinon.spy();
+
+			view.on( 'drag', spy );
+
+			handleElement.dispatchEvent( new MouseEvent( 'mousedown', { bubbles: true, clientX: 10, clientY: 10 } ) );
+			document.dispatchEvent( new MouseEvent( 'mouseup' ) );
+			document.dispatchEvent( new MouseEvent( 'mousemove', { clientX: 15, clientY: 30 } ) );
+
+			expect( view.isDragging ).to.be.false;
+			sinon.assert.notCalled( spy );
+		} );
+
+		it( 'should stop listening when dragging was stopped externally', () => {
+			const spy = sinon.spy();
+
+			view.on( 'drag', spy );
+
+			handleElement.dispatchEvent( new MouseEvent( 'mousedown', { bubbles: true, clientX: 10, clientY: 10 } ) );
+			view.isDragging = false;
+			document.dispatchEvent( new MouseEvent( 'mousemove', { clientX: 15, clientY: 30 } ) );
+			document.dispatchEvent( new MouseEvent( 'mousemove', { clientX: 20, clientY: 30 } ) );
+
+			sinon.assert.notCalled( spy );
+		} );
+	} );
+
+	describe( 'touch', () => {
+		function createTouchEvent( type, target, x, y ) {
+			const touch = new Touch( { identifier: 1, target, clientX: x, clientY: y } );
+
+			return new TouchEvent( type, { bubbles: true, touches: [ touch ] } );
+		}
+
+		it( 'should start dragging when the handle element was touched', () => {
+			handleElement.dispatchEvent( createTouchEvent( 'touchstart', handleElement, 10, 10 ) );
+
+			expect( view.isDragging ).to.be.true;
+		} );
+
+		it( 'should fire the #drag event with the pointer deltas when the touch moves', () => {
+			const spy = sinon.spy();
+
+			view.on( 'drag', spy );
+
+			handleElement.dispatchEvent( createTouchEvent( 'touchstart', handleElement, 10, 10 ) );
+			document.dispatchEvent( createTouchEvent( 'touchmove', document.body, 20, 5 ) );
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledWith( spy, sinon.match.any, { deltaX: 10, deltaY: -5 } );
+		} );
+
+		it( 'should stop dragging on touchend', () => {
+			handleElement.dispatchEvent( createTouchEvent( 'touchstart', handleElement, 10, 10 ) );
+			document.dispatchEvent( new TouchEvent( 'touchend' ) );
+
+			expect( view.isDragging ).to.be.false;
+		} );
+	} );
+
+	describe( 'without the drag handle', () => {
+		it( 'should not start dragging', () => {
+			class NonDraggableView extends TestView {
+				get dragHandleElement() {
+					return null;
+				}
+			}
+
+			const view = new NonDraggableView();
+
+			view.render();
+			document.body.appendChild( view.element );
+
+			view.element.firstChild.dispatchEvent( new MouseEvent( 'mousedown', { bubbles: true, clientX: 10, clientY: 10 } ) );
+
+			expect( view.isDragging ).to.be.false;
+
+			view.element.remove();
+			view.destroy();
+		} );
+	} );
+} );
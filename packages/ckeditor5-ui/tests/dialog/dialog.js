@@ -0,0 +1,360 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { env, keyCodes } from '@ckeditor/ckeditor5-utils';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import View from '../../src/view';
+import Dialog from '../../src/dialog/dialog';
+import DialogView from '../../src/dialog/dialogview';
+
+describe( 'Dialog', () => {
+	let editor, editorElement, dialog;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		// Showing the dialog schedules its positioning and focusing. Keep it under control.
+		testUtils.sinon.useFakeTimers();
+
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, Dialog ]
+		} );
+
+		dialog = editor.plugins.get( Dialog );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+
+		Dialog._visibleDialogPlugin = null;
+	} );
+
+	it( 'should have a name', () => {
+		expect( Dialog.pluginName ).to.equal( 'Dialog' );
+	} );
+
+	it( 'should be loaded', () => {
+		expect( dialog ).to.be.instanceOf( Dialog );
+	} );
+
+	it( 'should set the default values of observable properties', () => {
+		expect( dialog.id ).to.be.null;
+		expect( dialog.isOpen ).to.be.false;
+		expect( dialog.view ).to.be.undefined;
+	} );
+
+	describe( 'show()', () => {
+		it( 'should create and display the dialog view', () => {
+			dialog.show( { id: 'foo', title: 'Foo' } );
+
+			expect( dialog.view ).to.be.instanceOf( DialogView );
+			expect( editor.ui.view.body.has( dialog.view ) ).to.be.true;
+			expect( dialog.view.headerView.label ).to.equal( 'Foo' );
+		} );
+
+		it( 'should set #id and #isOpen', () => {
+			dialog.show( { id: 'foo' } );
+
+			expect( dialog.id ).to.equal( 'foo' );
+			expect( dialog.isOpen ).to.be.true;
+			expect( Dialog._visibleDialogPlugin ).to.equal( dialog );
+		} );
+
+		it( 'should fire the namespaced #show event', () => {
+			const generalSpy = sinon.spy();
+			const namespacedSpy = sinon.spy();
+			const definition = { id: 'foo' };
+
+			dialog.on( 'show', generalSpy );
+			dialog.on( 'show:foo', namespacedSpy );
+
+			dialog.show( definition );
+
+			sinon.assert.calledOnce( generalSpy );
+			sinon.assert.calledOnceWithExactly( namespacedSpy, sinon.match.any, definition );
+		} );
+
+		it( 'should allow modifying the definition in a high-priority #show listener', () => {
+			dialog.on( 'show:foo', ( evt, data ) => {
+				data.position = 'editor-top-center';
+			}, { priority: 'high' } );
+
+			dialog.show( { id: 'foo' } );
+
+			expect( dialog.view.position ).to.equal( 'editor-top-center' );
+		} );
+
+		it( 'should call #onShow after the view was created', () => {
+			const spy = sinon.spy( () => {
+				expect( dialog.view ).to.be.instanceOf( DialogView );
+			} );
+
+			dialog.show( { id: 'foo', onShow: spy } );
+
+			sinon.assert.calledOnceWithExactly( spy, dialog );
+		} );
+
+		it( 'should register the view element in the editor focus tracker and keystroke handler', () => {
+			const focusTrackerSpy = sinon.spy( editor.ui.focusTracker, 'add' );
+			const keystrokesSpy = sinon.spy( editor.keystrokes, 'listenTo' );
+
+			dialog.show( { id: 'foo' } );
+
+			sinon.assert.calledWithExactly( focusTrackerSpy, dialog.view.element );
+			sinon.assert.calledWithExactly( keystrokesSpy, dialog.view.element );
+		} );
+
+		it( 'should pass the definition to the view', () => {
+			const contentView = new View();
+			contentView.setTemplate( { tag: 'div' } );
+
+			dialog.show( {
+				id: 'foo',
+				title: 'Foo',
+				hasCloseButton: false,
+				content: contentView,
+				actionButtons: [ { label: 'Bar', onExecute: () => {} } ],
+				className: 'baz',
+				isModal: true,
+				position: 'editor-top-side'
+			} );
+
+			const view = dialog.view;
+
+			expect( view.closeButtonView ).to.be.undefined;
+			expect( view.contentView.children.first ).to.equal( contentView );
+			expect( view.actionsView.children.first.label ).to.equal( 'Bar' );
+			expect( view.className ).to.equal( 'baz' );
+			expect( view.isModal ).to.be.true;
+			expect( view.position ).to.equal( 'editor-top-side' );
+		} );
+
+		it( 'should center modeless dialogs in the editor by default', () => {
+			dialog.show( { id: 'foo' } );
+
+			expect( dialog.view.position ).to.equal( 'editor-center' );
+		} );
+
+		it( 'should center modal dialogs on the screen by default', () => {
+			dialog.show( { id: 'foo', isModal: true } );
+
+			expect( dialog.view.position ).to.equal( 'screen-center' );
+		} );
+
+		it( 'should lock the document scroll for modal dialogs', () => {
+			dialog.show( { id: 'foo', isModal: true } );
+
+			expect( document.documentElement.classList.contains( 'ck-dialog-scroll-locked' ) ).to.be.true;
+
+			dialog.hide();
+
+			expect( document.documentElement.classList.contains( 'ck-dialog-scroll-locked' ) ).to.be.false;
+		} );
+
+		it( 'should not lock the document scroll for modeless dialogs', () => {
+			dialog.show( { id: 'foo' } );
+
+			expect( document.documentElement.classList.contains( 'ck-dialog-scroll-locked' ) ).to.be.false;
+		} );
+
+		it( 'should hide the previously visible dialog first', () => {
+			const onHideSpy = sinon.spy();
+
+			dialog.show( { id: 'foo', onHide: onHideSpy } );
+
+			const firstView = dialog.view;
+
+			dialog.show( { id: 'bar' } );
+
+			sinon.assert.calledOnce( onHideSpy );
+			expect( editor.ui.view.body.has( firstView ) ).to.be.false;
+			expect( dialog.id ).to.equal( 'bar' );
+		} );
+
+		it( 'should hide the dialog opened by another editor', async () => {
+			const otherElement = document.createElement( 'div' );
+			document.body.appendChild( otherElement );
+
+			const otherEditor = await ClassicTestEditor.create( otherElement, {
+				plugins: [ Paragraph, Dialog ]
+			} );
+
+			const otherDialog = otherEditor.plugins.get( Dialog );
+
+			otherDialog.show( { id: 'foo' } );
+			dialog.show( { id: 'bar' } );
+
+			expect( otherDialog.isOpen ).to.be.false;
+			expect( dialog.isOpen ).to.be.true;
+			expect( Dialog._visibleDialogPlugin ).to.equal( dialog );
+
+			await otherEditor.destroy();
+			otherElement.remove();
+		} );
+	} );
+
+	describe( 'hide()', () => {
+		it( 'should remove and destroy the view', () => {
+			dialog.show( { id: 'foo' } );
+
+			const view = dialog.view;
+			const destroySpy = sinon.spy( view, 'destroy' );
+
+			dialog.hide();
+
+			expect( editor.ui.view.body.has( view ) ).to.be.false;
+			expect( dialog.view ).to.be.undefined;
+			sinon.assert.calledOnce( destroySpy );
+		} );
+
+		it( 'should reset #id and #isOpen', () => {
+			dialog.show( { id: 'foo' } );
+			dialog.hide();
+
+			expect( dialog.id ).to.be.null;
+			expect( dialog.isOpen ).to.be.false;
+			expect( Dialog._visibleDialogPlugin ).to.be.null;
+		} );
+
+		it( 'should not destroy the content views', () => {
+			const contentView = new View();
+			contentView.setTemplate( { tag: 'div' } );
+
+			const destroySpy = sinon.spy( contentView, 'destroy' );
+
+			dialog.show( { id: 'foo', content: contentView } );
+			dialog.hide();
+
+			sinon.assert.notCalled( destroySpy );
+		} );
+
+		it( 'should fire the namespaced #hide event and call #onHide', () => {
+			const hideSpy = sinon.spy();
+			const onHideSpy = sinon.spy();
+
+			dialog.on( 'hide:foo', hideSpy );
+			dialog.show( { id: 'foo', onHide: onHideSpy } );
+			dialog.hide();
+
+			sinon.assert.calledOnce( hideSpy );
+			sinon.assert.calledOnceWithExactly( onHideSpy, dialog );
+			sinon.assert.callOrder( hideSpy, onHideSpy );
+		} );
+
+		it( 'should deregister the view element from the editor focus tracker and keystroke handler', () => {
+			dialog.show( { id: 'foo' } );
+
+			const element = dialog.view.element;
+			const focusTrackerSpy = sinon.spy( editor.ui.focusTracker, 'remove' );
+			const keystrokesSpy = sinon.spy( editor.keystrokes, 'stopListening' );
+
+			dialog.hide();
+
+			sinon.assert.calledWithExactly( focusTrackerSpy, element );
+			sinon.assert.calledWithExactly( keystrokesSpy, element );
+		} );
+
+		it( 'should focus the editing view', () => {
+			const spy = sinon.spy( editor.editing.view, 'focus' );
+
+			dialog.show( { id: 'foo' } );
+			dialog.hide();
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should do nothing when no dialog is visible', () => {
+			expect( () => dialog.hide() ).to.not.throw();
+		} );
+
+		it( 'should be called when the view fires #close', () => {
+			dialog.show( { id: 'foo', title: 'Foo' } );
+			dialog.view.closeButtonView.fire( 'execute' );
+
+			expect( dialog.isOpen ).to.be.false;
+		} );
+
+		it( 'should be called upon the Esc key press in the dialog', () => {
+			dialog.show( { id: 'foo' } );
+
+			dialog.view.keystrokes.press( {
+				keyCode: keyCodes.esc,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			} );
+
+			expect( dialog.isOpen ).to.be.false;
+		} );
+	} );
+
+	describe( 'focus toggling with Ctrl+F6', () => {
+		let keyEvtData;
+
+		beforeEach( () => {
+			keyEvtData = {
+				keyCode: keyCodes.f6,
+				ctrlKey: !env.isMac,
+				metaKey: env.isMac,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+		} );
+
+		it( 'should do nothing when no dialog is open', () => {
+			editor.keystrokes.press( keyEvtData );
+
+			sinon.assert.notCalled( keyEvtData.preventDefault );
+		} );
+
+		it( 'should do nothing when a modal is open', () => {
+			dialog.show( { id: 'foo', isModal: true } );
+
+			editor.keystrokes.press( keyEvtData );
+
+			sinon.assert.notCalled( keyEvtData.preventDefault );
+		} );
+
+		it( 'should focus the modeless dialog when it is not focused', () => {
+			dialog.show( { id: 'foo' } );
+
+			const spy = sinon.spy( dialog.view, 'focus' );
+
+			editor.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+		} );
+
+		it( 'should focus the editing view when the modeless dialog is focused', () => {
+			dialog.show( { id: 'foo' } );
+
+			const spy = sinon.spy( editor.editing.view, 'focus' );
+
+			dialog.view.focusTracker.isFocused = true;
+			editor.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'destroy()', () => {
+		it( 'should hide the visible dialog', () => {
+			dialog.show( { id: 'foo', isModal: true } );
+			dialog.destroy();
+
+			expect( dialog.isOpen ).to.be.false;
+			expect( document.documentElement.classList.contains( 'ck-dialog-scroll-locked' ) ).to.be.false;
+		} );
+	} );
+} );
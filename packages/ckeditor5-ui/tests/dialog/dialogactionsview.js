@@ -0,0 +1,90 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import ButtonView from '../../src/button/buttonview';
+import ViewCollection from '../../src/viewcollection';
+import DialogActionsView from '../../src/dialog/dialogactionsview';
+import { Locale } from '@ckeditor/ckeditor5-utils';
+
+describe( 'DialogActionsView', () => {
+	let view, locale;
+
+	beforeEach( () => {
+		locale = new Locale();
+		view = new DialogActionsView( locale );
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should set view#locale', () => {
+			expect( view.locale ).to.equal( locale );
+		} );
+
+		it( 'should create an empty view#children collection', () => {
+			expect( view.children ).to.be.instanceOf( ViewCollection );
+			expect( view.children ).to.have.length( 0 );
+		} );
+
+		it( 'should set the template', () => {
+			expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-dialog__actions' ) ).to.be.true;
+		} );
+	} );
+
+	describe( 'setButtons()', () => {
+		it( 'should create buttons from the definitions', () => {
+			view.setButtons( [
+				{ label: 'Foo', onExecute: () => {} },
+				{ label: 'Bar', class: 'ck-button-action', withText: false, onExecute: () => {} }
+			] );
+
+			expect( view.children ).to.have.length( 2 );
+			expect( view.children.first ).to.be.instanceOf( ButtonView );
+			expect( view.children.first.label ).to.equal( 'Foo' );
+			expect( view.children.first.withText ).to.be.true;
+			expect( view.children.last.label ).to.equal( 'Bar' );
+			expect( view.children.last.class ).to.equal( 'ck-button-action' );
+			expect( view.children.last.withText ).to.be.false;
+		} );
+
+		it( 'should call #onExecute when a button is executed', () => {
+			const spy = sinon.spy();
+
+			view.setButtons( [ { label: 'Foo', onExecute: spy } ] );
+			view.children.first.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should render the buttons in the view element', () => {
+			view.setButtons( [ { label: 'Foo', onExecute: () => {} } ] );
+
+			expect( view.element.firstChild ).to.equal( view.children.first.element );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the first button', () => {
+			view.setButtons( [
+				{ label: 'Foo', onExecute: () => {} },
+				{ label: 'Bar', onExecute: () => {} }
+			] );
+
+			const spy = sinon.spy( view.children.first, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should not throw when there are no buttons', () => {
+			expect( () => view.focus() ).to.not.throw();
+		} );
+	} );
+} );
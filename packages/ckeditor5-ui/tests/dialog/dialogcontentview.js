@@ -0,0 +1,70 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import View from '../../src/view';
+import ViewCollection from '../../src/viewcollection';
+import DialogContentView from '../../src/dialog/dialogcontentview';
+import { Locale } from '@ckeditor/ckeditor5-utils';
+
+describe( 'DialogContentView', () => {
+	let view, locale;
+
+	beforeEach( () => {
+		locale = new Locale();
+		view = new DialogContentView( locale );
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should set view#locale', () => {
+			expect( view.locale ).to.equal( locale );
+		} );
+
+		it( 'should create an empty view#children collection', () => {
+			expect( view.children ).to.be.instanceOf( ViewCollection );
+			expect( view.children ).to.have.length( 0 );
+		} );
+
+		it( 'should set the template', () => {
+			expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-dialog__content' ) ).to.be.true;
+		} );
+
+		it( 'should bind #children to the template', () => {
+			const child = new View();
+
+			child.setTemplate( { tag: 'div' } );
+			view.children.add( child );
+
+			expect( view.element.firstChild ).to.equal( child.element );
+		} );
+	} );
+
+	describe( 'reset()', () => {
+		it( 'should remove all children without destroying them', () => {
+			const childA = new View();
+			const childB = new View();
+
+			childA.setTemplate( { tag: 'div' } );
+			childB.setTemplate( { tag: 'div' } );
+
+			view.children.addMany( [ childA, childB ] );
+
+			const destroySpyA = sinon.spy( childA, 'destroy' );
+			const destroySpyB = sinon.spy( childB, 'destroy' );
+
+			view.reset();
+
+			expect( view.children ).to.have.length( 0 );
+			expect( view.element.childNodes ).to.have.length( 0 );
+			sinon.assert.notCalled( destroySpyA );
+			sinon.assert.notCalled( destroySpyB );
+		} );
+	} );
+} );
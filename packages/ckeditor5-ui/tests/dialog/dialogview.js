@@ -0,0 +1,552 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, window, Event */
+
+import View from '../../src/view';
+import ButtonView from '../../src/button/buttonview';
+import FormHeaderView from '../../src/formheader/formheaderview';
+import DialogView from '../../src/dialog/dialogview';
+import DialogActionsView from '../../src/dialog/dialogactionsview';
+import DialogContentView from '../../src/dialog/dialogcontentview';
+import { FocusTracker, KeystrokeHandler, Locale, Rect, keyCodes } from '@ckeditor/ckeditor5-utils';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+describe( 'DialogView', () => {
+	let view, locale, domRoot, getCurrentDomRootStub, getViewportOffsetStub, clock;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( () => {
+		// Showing the dialog schedules its positioning and focusing. Keep it under control.
+		clock = testUtils.sinon.useFakeTimers();
+
+		locale = new Locale();
+		domRoot = document.createElement( 'div' );
+		document.body.appendChild( domRoot );
+
+		getCurrentDomRootStub = sinon.stub().returns( domRoot );
+		getViewportOffsetStub = sinon.stub().returns( { top: 0, right: 0, bottom: 0, left: 0 } );
+
+		view = new DialogView( locale, {
+			getCurrentDomRoot: getCurrentDomRootStub,
+			getViewportOffset: getViewportOffsetStub
+		} );
+
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+		domRoot.remove();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should set view#locale', () => {
+			expect( view.locale ).to.equal( locale );
+		} );
+
+		it( 'should create the #parts collection', () => {
+			expect( view.parts ).to.have.length( 0 );
+		} );
+
+		it( 'should create a #keystrokes instance', () => {
+			expect( view.keystrokes ).to.be.instanceOf( KeystrokeHandler );
+		} );
+
+		it( 'should create a #focusTracker instance', () => {
+			expect( view.focusTracker ).to.be.instanceOf( FocusTracker );
+		} );
+
+		it( 'should set the default values of observable properties', () => {
+			expect( view.isModal ).to.be.false;
+			expect( view.ariaLabel ).to.equal( 'Editor dialog' );
+			expect( view.className ).to.equal( '' );
+			expect( view.position ).to.equal( 'screen-center' );
+			expect( view.wasMoved ).to.be.false;
+		} );
+
+		describe( 'template', () => {
+			it( 'should create an overlay element', () => {
+				expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+				expect( view.element.classList.contains( 'ck-dialog-overlay' ) ).to.be.true;
+				expect( view.element.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+			} );
+
+			it( 'should make the overlay transparent for modeless dialogs', () => {
+				expect( view.element.classList.contains( 'ck-dialog-overlay__transparent' ) ).to.be.true;
+
+				view.isModal = true;
+
+				expect( view.element.classList.contains( 'ck-dialog-overlay__transparent' ) ).to.be.false;
+			} );
+
+			it( 'should hide the overlay until the dialog becomes visible', () => {
+				expect( view.element.classList.contains( 'ck-hidden' ) ).to.be.true;
+
+				view._isVisible = true;
+
+				expect( view.element.classList.contains( 'ck-hidden' ) ).to.be.false;
+			} );
+
+			it( 'should create the dialog element with proper attributes', () => {
+				const dialogElement = view.element.firstChild;
+
+				expect( dialogElement.classList.contains( 'ck-dialog' ) ).to.be.true;
+				expect( dialogElement.getAttribute( 'role' ) ).to.equal( 'dialog' );
+				expect( dialogElement.getAttribute( 'aria-label' ) ).to.equal( 'Editor dialog' );
+				expect( dialogElement.getAttribute( 'aria-modal' ) ).to.equal( 'false' );
+			} );
+
+			it( 'should bind #isModal to the dialog element', () => {
+				const dialogElement = view.element.firstChild;
+
+				view.isModal = true;
+
+				expect( dialogElement.classList.contains( 'ck-dialog_modal' ) ).to.be.true;
+				expect( dialogElement.getAttribute( 'aria-modal' ) ).to.equal( 'true' );
+			} );
+
+			it( 'should bind #className to the dialog element', () => {
+				view.className = 'foo';
+
+				expect( view.element.firstChild.classList.contains( 'foo' ) ).to.be.true;
+			} );
+
+			it( 'should bind #_top and #_left to the dialog element styles', () => {
+				view._top = 10;
+				view._left = 20;
+
+				expect( view.element.firstChild.style.top ).to.equal( '10px' );
+				expect( view.element.firstChild.style.left ).to.equal( '20px' );
+			} );
+
+			it( 'should bind #_isTransparent to the dialog element visibility', () => {
+				view._isTransparent = true;
+
+				expect( view.element.firstChild.style.visibility ).to.equal( 'hidden' );
+			} );
+		} );
+	} );
+
+	describe( 'render()', () => {
+		it( 'should fire #close upon the Esc key press', () => {
+			const spy = sinon.spy();
+			const keyEvtData = {
+				keyCode: keyCodes.esc,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			view.on( 'close', spy );
+			view.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnceWithExactly( spy, sinon.match.any, { source: 'escKeyPress' } );
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+		} );
+
+		it( 'should move the dialog upon the #drag event and set #wasMoved', () => {
+			const spy = sinon.spy( view, 'moveBy' );
+
+			view.fire( 'drag', { deltaX: 5, deltaY: 10 } );
+
+			sinon.assert.calledOnceWithExactly( spy, 5, 10 );
+			expect( view.wasMoved ).to.be.true;
+		} );
+
+		it( 'should update the position upon the window resize when the dialog was not moved', () => {
+			const spy = sinon.spy( view, 'updatePosition' );
+
+			view._isVisible = true;
+			window.dispatchEvent( new Event( 'resize' ) );
+
+			sinon.assert.called( spy );
+		} );
+
+		it( 'should not update the position upon the window resize when the dialog was moved', () => {
+			const spy = sinon.spy( view, 'updatePosition' );
+
+			view._isVisible = true;
+			view.wasMoved = true;
+			spy.resetHistory();
+			window.dispatchEvent( new Event( 'resize' ) );
+
+			sinon.assert.notCalled( spy );
+		} );
+
+		it( 'should update the position upon the document scroll when the dialog was not moved', () => {
+			const spy = sinon.spy( view, 'updatePosition' );
+
+			view._isVisible = true;
+			document.dispatchEvent( new Event( 'scroll' ) );
+
+			sinon.assert.called( spy );
+		} );
+
+		it( 'should position and focus the dialog shortly after it becomes visible', () => {
+			const updateSpy = sinon.spy( view, 'updatePosition' );
+			const focusSpy = sinon.spy( view, 'focus' );
+
+			view._isVisible = true;
+
+			expect( view._isTransparent ).to.be.true;
+			sinon.assert.notCalled( updateSpy );
+
+			clock.tick( 10 );
+
+			expect( view._isTransparent ).to.be.false;
+			sinon.assert.calledOnce( updateSpy );
+			sinon.assert.calledOnce( focusSpy );
+		} );
+
+		it( 'should position the dialog only once when it is shown again before the previous positioning', () => {
+			const updateSpy = sinon.spy( view, 'updatePosition' );
+
+			view._isVisible = true;
+			clock.tick( 5 );
+			view._isVisible = false;
+			view._isVisible = true;
+			clock.tick( 10 );
+
+			sinon.assert.calledOnce( updateSpy );
+		} );
+
+		it( 'should not position and focus the dialog if it was destroyed before the timeout', () => {
+			const dialogView = new DialogView( locale, {
+				getCurrentDomRoot: getCurrentDomRootStub,
+				getViewportOffset: getViewportOffsetStub
+			} );
+
+			dialogView.render();
+
+			const updateSpy = sinon.spy( dialogView, 'updatePosition' );
+			const focusSpy = sinon.spy( dialogView, 'focus' );
+
+			dialogView._isVisible = true;
+			dialogView.destroy();
+
+			clock.tick( 10 );
+
+			sinon.assert.notCalled( updateSpy );
+			sinon.assert.notCalled( focusSpy );
+		} );
+	} );
+
+	describe( 'dragHandleElement', () => {
+		it( 'should return null when there is no header', () => {
+			expect( view.dragHandleElement ).to.be.null;
+		} );
+
+		it( 'should return the header element for modeless dialogs', () => {
+			view.setupParts( { title: 'foo' } );
+
+			expect( view.dragHandleElement ).to.equal( view.headerView.element );
+		} );
+
+		it( 'should return null for modal dialogs', () => {
+			view.setupParts( { title: 'foo' } );
+			view.isModal = true;
+
+			expect( view.dragHandleElement ).to.be.null;
+		} );
+	} );
+
+	describe( 'setupParts()', () => {
+		it( 'should create a header with a title and the close button', () => {
+			view.setupParts( { title: 'foo' } );
+
+			expect( view.headerView ).to.be.instanceOf( FormHeaderView );
+			expect( view.headerView.label ).to.equal( 'foo' );
+			expect( view.closeButtonView ).to.be.instanceOf( ButtonView );
+			expect( view.closeButtonView.label ).to.equal( 'Close' );
+			expect( view.headerView.children.last ).to.equal( view.closeButtonView );
+			expect( view.parts.first ).to.equal( view.headerView );
+		} );
+
+		it( 'should use the title as the #ariaLabel', () => {
+			view.setupParts( { title: 'foo' } );
+
+			expect( view.ariaLabel ).to.equal( 'foo' );
+		} );
+
+		it( 'should create a header with an icon', () => {
+			view.setupParts( { title: 'foo', icon: '<svg></svg>' } );
+
+			expect( view.headerView.children.first.content ).to.equal( '<svg></svg>' );
+		} );
+
+		it( 'should not create the close button if #hasCloseButton is false', () => {
+			view.setupParts( { title: 'foo', hasCloseButton: false } );
+
+			expect( view.closeButtonView ).to.be.undefined;
+		} );
+
+		it( 'should not create a header without a title', () => {
+			view.setupParts( {} );
+
+			expect( view.headerView ).to.be.undefined;
+			expect( view.closeButtonView ).to.be.undefined;
+		} );
+
+		it( 'should fire #close when the close button is executed', () => {
+			const spy = sinon.spy();
+
+			view.on( 'close', spy );
+			view.setupParts( { title: 'foo' } );
+			view.closeButtonView.fire( 'execute' );
+
+			sinon.assert.calledOnceWithExactly( spy, sinon.match.any, { source: 'closeButton' } );
+		} );
+
+		it( 'should create a content view from a single view', () => {
+			const contentView = createFocusableView();
+
+			view.setupParts( { content: contentView } );
+
+			expect( view.contentView ).to.be.instanceOf( DialogContentView );
+			expect( view.contentView.children.first ).to.equal( contentView );
+		} );
+
+		it( 'should create a content view from an array of views', () => {
+			const contentViewA = createFocusableView();
+			const contentViewB = createFocusableView();
+
+			view.setupParts( { content: [ contentViewA, contentViewB ] } );
+
+			expect( Array.from( view.contentView.children ) ).to.deep.equal( [ contentViewA, contentViewB ] );
+		} );
+
+		it( 'should create the actions view', () => {
+			view.setupParts( { actionButtons: [ { label: 'Foo', onExecute: () => {} } ] } );
+
+			expect( view.actionsView ).to.be.instanceOf( DialogActionsView );
+			expect( view.actionsView.children.first.label ).to.equal( 'Foo' );
+			expect( view.parts.last ).to.equal( view.actionsView );
+		} );
+	} );
+
+	describe( 'focus cycling', () => {
+		let contentView, keyEvtData;
+
+		beforeEach( () => {
+			contentView = createFocusableView();
+
+			view.setupParts( {
+				title: 'foo',
+				content: [ contentView, new View() ],
+				actionButtons: [ { label: 'Foo', onExecute: () => {} } ]
+			} );
+
+			// Focusable views must be visible.
+			view._isVisible = true;
+
+			keyEvtData = {
+				keyCode: keyCodes.tab,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+		} );
+
+		it( 'should focus the first focusable content child on #focus()', () => {
+			const spy = sinon.spy( contentView, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should focus the next focusable view on Tab', () => {
+			const spy = sinon.spy( view.actionsView.children.first, 'focus' );
+
+			view.focusTracker.isFocused = true;
+			view.focusTracker.focusedElement = contentView.element;
+
+			view.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should focus the previous focusable view on Shift+Tab', () => {
+			const spy = sinon.spy( view.closeButtonView, 'focus' );
+
+			keyEvtData.shiftKey = true;
+			view.focusTracker.isFocused = true;
+			view.focusTracker.focusedElement = contentView.element;
+
+			view.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'moveTo()', () => {
+		beforeEach( () => {
+			testUtils.sinon.stub( view, '_getViewportRect' ).returns( new Rect( {
+				top: 0, left: 0, right: 1000, bottom: 800, width: 1000, height: 800
+			} ) );
+
+			testUtils.sinon.stub( view, '_getDialogRect' ).returns( new Rect( {
+				top: 0, left: 0, right: 200, bottom: 100, width: 200, height: 100
+			} ) );
+		} );
+
+		it( 'should be decorated', () => {
+			const spy = sinon.spy();
+
+			view.on( 'moveTo', spy );
+			view.moveTo( 10, 20 );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should set the position of the dialog', () => {
+			view.moveTo( 10, 20 );
+
+			expect( view._left ).to.equal( 10 );
+			expect( view._top ).to.equal( 20 );
+		} );
+
+		it( 'should not allow the dialog to go beyond the left and top viewport edges', () => {
+			view.moveTo( -100, -100 );
+
+			expect( view._left ).to.equal( 0 );
+			expect( view._top ).to.equal( 0 );
+		} );
+
+		it( 'should not allow the dialog to go beyond the right viewport edge', () => {
+			view.moveTo( 900, 100 );
+
+			expect( view._left ).to.equal( 800 );
+			expect( view._top ).to.equal( 100 );
+		} );
+	} );
+
+	describe( 'moveBy()', () => {
+		it( 'should move the dialog by the given offset', () => {
+			const spy = sinon.stub( view, 'moveTo' );
+
+			view._left = 10;
+			view._top = 20;
+			view.moveBy( 5, -5 );
+
+			sinon.assert.calledOnceWithExactly( spy, 15, 15 );
+		} );
+	} );
+
+	describe( 'updatePosition()', () => {
+		let moveToSpy;
+
+		beforeEach( () => {
+			testUtils.sinon.stub( view, '_getViewportRect' ).returns( new Rect( {
+				top: 0, left: 0, right: 1000, bottom: 800, width: 1000, height: 800
+			} ) );
+
+			testUtils.sinon.stub( view, '_getDialogRect' ).returns( new Rect( {
+				top: 0, left: 0, right: 200, bottom: 100, width: 200, height: 100
+			} ) );
+
+			testUtils.sinon.stub( Rect.prototype, 'getVisible' ).returns( new Rect( {
+				top: 100, left: 100, right: 600, bottom: 500, width: 500, height: 400
+			} ) );
+
+			moveToSpy = sinon.stub( view, 'moveTo' );
+		} );
+
+		it( 'should center the dialog on the screen', () => {
+			view.position = 'screen-center';
+			view.updatePosition();
+
+			sinon.assert.calledOnceWithExactly( moveToSpy, 400, 350 );
+		} );
+
+		it( 'should center the dialog on the screen when there is no DOM root', () => {
+			getCurrentDomRootStub.returns( null );
+
+			view.position = 'editor-center';
+			view.updatePosition();
+
+			sinon.assert.calledOnceWithExactly( moveToSpy, 400, 350 );
+		} );
+
+		it( 'should center the dialog in the editor', () => {
+			view.position = 'editor-center';
+			view.updatePosition();
+
+			sinon.assert.calledOnceWithExactly( moveToSpy, 250, 250 );
+		} );
+
+		it( 'should position the dialog at the top side of the editor (LTR)', () => {
+			view.position = 'editor-top-side';
+			view.updatePosition();
+
+			sinon.assert.calledOnceWithExactly( moveToSpy, 385, 115 );
+		} );
+
+		it( 'should position the dialog at the top side of the editor (RTL)', () => {
+			view.locale.contentLanguageDirection = 'rtl';
+			view.position = 'editor-top-side';
+			view.updatePosition();
+
+			sinon.assert.calledOnceWithExactly( moveToSpy, 115, 115 );
+		} );
+
+		it( 'should position the dialog at the top center of the editor', () => {
+			view.position = 'editor-top-center';
+			view.updatePosition();
+
+			sinon.assert.calledOnceWithExactly( moveToSpy, 250, 115 );
+		} );
+
+		it( 'should position the dialog at the bottom center of the editor', () => {
+			view.position = 'editor-bottom-center';
+			view.updatePosition();
+
+			sinon.assert.calledOnceWithExactly( moveToSpy, 250, 385 );
+		} );
+
+		it( 'should position the dialog above the editor', () => {
+			view.position = 'editor-above-center';
+			view.updatePosition();
+
+			sinon.assert.calledOnceWithExactly( moveToSpy, 250, -15 );
+		} );
+
+		it( 'should position the dialog below the editor', () => {
+			view.position = 'editor-below-center';
+			view.updatePosition();
+
+			sinon.assert.calledOnceWithExactly( moveToSpy, 250, 515 );
+		} );
+	} );
+
+	describe( '_getViewportRect()', () => {
+		it( 'should respect the configured viewport offset', () => {
+			getViewportOffsetStub.returns( { top: 50 } );
+
+			const viewportRect = view._getViewportRect();
+			const windowRect = new Rect( window );
+
+			expect( viewportRect.top ).to.equal( windowRect.top + 50 );
+			expect( viewportRect.height ).to.equal( windowRect.height - 50 );
+		} );
+	} );
+
+	function createFocusableView() {
+		const view = new View();
+
+		view.setTemplate( {
+			tag: 'div',
+			attributes: {
+				tabindex: -1
+			}
+		} );
+
+		view.focus = () => view.element.focus();
+
+		return view;
+	}
+} );
@@ -0,0 +1,197 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
+import { Paragraph } from '@ckeditor/ckeditor5-paragraph';
+import { keyCodes } from '@ckeditor/ckeditor5-utils';
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+import AccessibilityHelp from '../../../src/editorui/accessibilityhelp/accessibilityhelp';
+import AccessibilityHelpContentView from '../../../src/editorui/accessibilityhelp/accessibilityhelpcontentview';
+import Dialog from '../../../src/dialog/dialog';
+import ButtonView from '../../../src/button/buttonview';
+
+describe( 'AccessibilityHelp', () => {
+	let editor, editorElement, plugin, dialog;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( async () => {
+		testUtils.sinon.useFakeTimers();
+
+		editorElement = document.createElement( 'div' );
+		document.body.appendChild( editorElement );
+
+		editor = await ClassicTestEditor.create( editorElement, {
+			plugins: [ Paragraph, AccessibilityHelp ]
+		} );
+
+		plugin = editor.plugins.get( AccessibilityHelp );
+		dialog = editor.plugins.get( Dialog );
+	} );
+
+	afterEach( async () => {
+		await editor.destroy();
+		editorElement.remove();
+
+		Dialog._visibleDialogPlugin = null;
+	} );
+
+	it( 'should have a name', () => {
+		expect( AccessibilityHelp.pluginName ).to.equal( 'AccessibilityHelp' );
+	} );
+
+	it( 'should require the Dialog plugin', () => {
+		expect( AccessibilityHelp.requires ).to.deep.equal( [ Dialog ] );
+	} );
+
+	it( 'should not create the content view until the dialog is shown', () => {
+		expect( plugin.contentView ).to.be.null;
+	} );
+
+	describe( 'init()', () => {
+		describe( 'toolbar button', () => {
+			let button;
+
+			beforeEach( () => {
+				button = editor.ui.componentFactory.create( 'accessibilityHelp' );
+			} );
+
+			afterEach( () => {
+				button.destroy();
+			} );
+
+			it( 'should be registered in the component factory', () => {
+				expect( button ).to.be.instanceOf( ButtonView );
+			} );
+
+			it( 'should have basic properties', () => {
+				expect( button.label ).to.equal( 'Accessibility help' );
+				expect( button.icon ).to.match( /^<svg/ );
+				expect( button.keystroke ).to.equal( 'Alt+0' );
+				expect( button.tooltip ).to.be.true;
+			} );
+
+			it( 'should toggle the dialog on execute', () => {
+				button.fire( 'execute' );
+
+				expect( dialog.id ).to.equal( 'accessibilityHelp' );
+
+				button.fire( 'execute' );
+
+				expect( dialog.isOpen ).to.be.false;
+			} );
+		} );
+
+		it( 'should toggle the dialog on Alt+0', () => {
+			const keyEvtData = {
+				keyCode: keyCodes[ '0' ],
+				altKey: true,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			editor.keystrokes.press( keyEvtData );
+
+			expect( dialog.id ).to.equal( 'accessibilityHelp' );
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+			sinon.assert.calledOnce( keyEvtData.stopPropagation );
+
+			editor.keystrokes.press( keyEvtData );
+
+			expect( dialog.isOpen ).to.be.false;
+		} );
+
+		it( 'should add keystroke info about itself', () => {
+			const keystrokes = editor.accessibility.keystrokeInfos.get( 'navigation' ).groups.get( 'common' ).keystrokes;
+
+			expect( keystrokes ).to.deep.include( {
+				label: 'Open the accessibility help dialog',
+				keystroke: 'Alt+0'
+			} );
+		} );
+	} );
+
+	describe( 'showing the dialog', () => {
+		it( 'should show a modal dialog with the content view', () => {
+			const spy = sinon.spy( dialog, 'show' );
+
+			editor.ui.componentFactory.create( 'accessibilityHelp' ).fire( 'execute' );
+
+			expect( plugin.contentView ).to.be.instanceOf( AccessibilityHelpContentView );
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledWithMatch( spy, {
+				id: 'accessibilityHelp',
+				className: 'ck-accessibility-help-dialog',
+				title: 'Accessibility help',
+				content: plugin.contentView,
+				isModal: true
+			} );
+		} );
+
+		it( 'should reuse the content view', () => {
+			const button = editor.ui.componentFactory.create( 'accessibilityHelp' );
+
+			button.fire( 'execute' );
+
+			const contentView = plugin.contentView;
+
+			button.fire( 'execute' );
+			button.fire( 'execute' );
+
+			expect( plugin.contentView ).to.equal( contentView );
+		} );
+
+		it( 'should display keystrokes added by other features', () => {
+			editor.accessibility.addKeystrokeInfos( {
+				keystrokes: [
+					{ label: 'Foo the content', keystroke: 'Ctrl+Shift+F' }
+				]
+			} );
+
+			editor.ui.componentFactory.create( 'accessibilityHelp' ).fire( 'execute' );
+
+			expect( plugin.contentView.element.textContent ).to.include( 'Foo the content' );
+		} );
+
+		it( 'should reset the filter when the dialog gets hidden', () => {
+			const button = editor.ui.componentFactory.create( 'accessibilityHelp' );
+
+			button.fire( 'execute' );
+
+			const spy = sinon.spy( plugin.contentView, 'resetFilter' );
+
+			button.fire( 'execute' );
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'destroy()', () => {
+		it( 'should destroy the content view', async () => {
+			const editorElement = document.createElement( 'div' );
+			document.body.appendChild( editorElement );
+
+			const editor = await ClassicTestEditor.create( editorElement, {
+				plugins: [ AccessibilityHelp ]
+			} );
+
+			const plugin = editor.plugins.get( AccessibilityHelp );
+
+			editor.ui.componentFactory.create( 'accessibilityHelp' ).fire( 'execute' );
+			editor.plugins.get( Dialog ).hide();
+
+			const spy = sinon.spy( plugin.contentView, 'destroy' );
+
+			await editor.destroy();
+			editorElement.remove();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+} );
@@ -0,0 +1,265 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Event */
+
+import { FocusTracker, KeystrokeHandler, keyCodes } from '@ckeditor/ckeditor5-utils';
+import Locale from '@ckeditor/ckeditor5-utils/src/locale';
+
+import AccessibilityHelpContentView from '../../../src/editorui/accessibilityhelp/accessibilityhelpcontentview';
+import LabeledFieldView from '../../../src/labeledfield/labeledfieldview';
+import ViewCollection from '../../../src/viewcollection';
+
+describe( 'AccessibilityHelpContentView', () => {
+	let view, keystrokeInfos;
+
+	beforeEach( () => {
+		keystrokeInfos = new Map( [
+			[ 'contentEditing', {
+				id: 'contentEditing',
+				label: 'Content editing',
+				description: 'Editing description',
+				groups: new Map( [
+					[ 'common', {
+						id: 'common',
+						keystrokes: [
+							{ label: 'Make text bold', keystroke: 'Ctrl+B' },
+							{ label: 'Undo', keystroke: 'Ctrl+Z' },
+							{ label: 'Redo', keystroke: [ 'Ctrl+Y', 'Ctrl+Shift+Z' ] }
+						]
+					} ],
+					[ 'tables', {
+						id: 'tables',
+						label: 'Tables',
+						keystrokes: [
+							{ label: 'Move to the next cell', keystroke: 'Tab' }
+						]
+					} ],
+					[ 'empty', {
+						id: 'empty',
+						label: 'Empty',
+						keystrokes: []
+					} ]
+				] )
+			} ],
+			[ 'emptyCategory', {
+				id: 'emptyCategory',
+				label: 'Empty category',
+				groups: new Map( [
+					[ 'common', { id: 'common', keystrokes: [] } ]
+				] )
+			} ]
+		] );
+
+		view = new AccessibilityHelpContentView( new Locale(), keystrokeInfos );
+		view.render();
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create element from template', () => {
+			expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-accessibility-help-dialog__content' ) ).to.be.true;
+		} );
+
+		it( 'should create #focusTracker and #keystrokes', () => {
+			expect( view.focusTracker ).to.be.instanceOf( FocusTracker );
+			expect( view.keystrokes ).to.be.instanceOf( KeystrokeHandler );
+		} );
+
+		it( 'should create the #filterView', () => {
+			expect( view.filterView ).to.be.instanceOf( LabeledFieldView );
+			expect( view.filterView.label ).to.equal( 'Filter keystrokes' );
+			expect( view.element.firstChild ).to.equal( view.filterView.element );
+		} );
+
+		it( 'should create the list of keystrokes', () => {
+			const listElement = view.element.lastChild;
+
+			expect( listElement.classList.contains( 'ck-accessibility-help-dialog__keystrokes' ) ).to.be.true;
+			expect( listElement.getAttribute( 'tabindex' ) ).to.equal( '-1' );
+			expect( listElement.getAttribute( 'role' ) ).to.equal( 'document' );
+			expect( listElement.getAttribute( 'aria-label' ) ).to.equal( 'Keystrokes' );
+			expect( listElement.firstChild ).to.equal( view.noResultsView.element );
+		} );
+
+		it( 'should skip categories and groups without keystrokes', () => {
+			expect( view.categoryViews ).to.be.instanceOf( ViewCollection );
+			expect( view.categoryViews.length ).to.equal( 1 );
+			expect( view.categoryViews.first.groupViews.length ).to.equal( 2 );
+		} );
+
+		it( 'should render categories with labels and descriptions', () => {
+			const categoryElement = view.categoryViews.first.element;
+
+			expect( categoryElement.tagName ).to.equal( 'SECTION' );
+			expect( categoryElement.querySelector( 'h3' ).textContent ).to.equal( 'Content editing' );
+			expect( categoryElement.querySelector( 'p' ).textContent ).to.equal( 'Editing description' );
+		} );
+
+		it( 'should render group labels only when specified', () => {
+			const [ commonGroupView, tablesGroupView ] = view.categoryViews.first.groupViews;
+
+			expect( commonGroupView.element.querySelector( 'h4' ) ).to.be.null;
+			expect( tablesGroupView.element.querySelector( 'h4' ).textContent ).to.equal( 'Tables' );
+		} );
+
+		it( 'should render keystrokes with labels and keys', () => {
+			const keystrokeElements = view.categoryViews.first.groupViews.first.element.querySelectorAll( 'dl > div' );
+
+			expect( keystrokeElements.length ).to.equal( 3 );
+			expect( keystrokeElements[ 0 ].querySelector( 'dt' ).textContent ).to.equal( 'Make text bold' );
+			expect( keystrokeElements[ 0 ].querySelector( 'dd' ).innerHTML ).to.match( /^<kbd>(Ctrl\+|⌘)B<\/kbd>$/ );
+		} );
+
+		it( 'should render alternative keystrokes separately', () => {
+			const keystrokeElement = view.categoryViews.first.groupViews.first.keystrokeViews.last.element;
+
+			expect( keystrokeElement.querySelectorAll( 'kbd' ).length ).to.equal( 2 );
+		} );
+
+		it( 'should hide the no results message', () => {
+			expect( view.noResultsView.element.classList.contains( 'ck-hidden' ) ).to.be.true;
+		} );
+	} );
+
+	describe( 'render()', () => {
+		it( 'should move the focus from the filter to the list of keystrokes on Tab', () => {
+			const keyEvtData = {
+				keyCode: keyCodes.tab,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			const listElement = view.element.lastChild;
+			const spy = sinon.spy( listElement, 'focus' );
+
+			view.focusTracker.isFocused = true;
+			view.focusTracker.focusedElement = view.filterView.element;
+
+			view.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+			sinon.assert.calledOnce( keyEvtData.stopPropagation );
+		} );
+
+		it( 'should move the focus from the list of keystrokes to the filter on Shift+Tab', () => {
+			const keyEvtData = {
+				keyCode: keyCodes.tab,
+				shiftKey: true,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			const spy = sinon.spy( view.filterView, 'focus' );
+
+			view.focusTracker.isFocused = true;
+			view.focusTracker.focusedElement = view.element.lastChild;
+
+			view.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+		} );
+
+		it( 'should let the Tab key through when the list of keystrokes is focused', () => {
+			const keyEvtData = {
+				keyCode: keyCodes.tab,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			view.focusTracker.isFocused = true;
+			view.focusTracker.focusedElement = view.element.lastChild;
+
+			view.keystrokes.press( keyEvtData );
+
+			sinon.assert.notCalled( keyEvtData.preventDefault );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the #filterView', () => {
+			const spy = sinon.spy( view.filterView, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'filter()', () => {
+		function getVisibleLabels() {
+			return Array.from( view.element.querySelectorAll( '.ck-accessibility-help-dialog__keystroke:not(.ck-hidden) dt' ) )
+				.map( element => element.textContent );
+		}
+
+		it( 'should filter keystrokes by their labels (case-insensitive)', () => {
+			view.filter( 'BOLD' );
+
+			expect( getVisibleLabels() ).to.deep.equal( [ 'Make text bold' ] );
+		} );
+
+		it( 'should filter keystrokes by their keys', () => {
+			view.filter( 'tab' );
+
+			expect( getVisibleLabels() ).to.deep.equal( [ 'Move to the next cell' ] );
+		} );
+
+		it( 'should hide groups without matching keystrokes', () => {
+			view.filter( 'undo' );
+
+			const [ commonGroupView, tablesGroupView ] = view.categoryViews.first.groupViews;
+
+			expect( commonGroupView.isVisible ).to.be.true;
+			expect( tablesGroupView.isVisible ).to.be.false;
+			expect( tablesGroupView.element.classList.contains( 'ck-hidden' ) ).to.be.true;
+		} );
+
+		it( 'should show the no results message when nothing matches', () => {
+			view.filter( 'nothing matches this' );
+
+			expect( view.categoryViews.first.isVisible ).to.be.false;
+			expect( view.noResultsView.element.classList.contains( 'ck-hidden' ) ).to.be.false;
+		} );
+
+		it( 'should show all keystrokes for an empty query', () => {
+			view.filter( 'undo' );
+			view.filter( '  ' );
+
+			expect( getVisibleLabels() ).to.have.length( 4 );
+			expect( view.noResultsView.element.classList.contains( 'ck-hidden' ) ).to.be.true;
+		} );
+
+		it( 'should be called when typing in the #filterView', () => {
+			const spy = sinon.spy( view, 'filter' );
+
+			view.filterView.fieldView.element.value = 'redo';
+			view.filterView.fieldView.element.dispatchEvent( new Event( 'input' ) );
+
+			sinon.assert.calledOnceWithExactly( spy, 'redo' );
+			expect( getVisibleLabels() ).to.deep.equal( [ 'Redo' ] );
+		} );
+	} );
+
+	describe( 'resetFilter()', () => {
+		it( 'should clear the #filterView and show all keystrokes', () => {
+			view.filterView.fieldView.element.value = 'redo';
+			view.filterView.fieldView.element.dispatchEvent( new Event( 'input' ) );
+
+			view.resetFilter();
+
+			expect( view.filterView.fieldView.element.value ).to.equal( '' );
+			expect( view.filterView.fieldView.isEmpty ).to.be.true;
+			expect( view.element.querySelectorAll( '.ck-accessibility-help-dialog__keystroke.ck-hidden' ) ).to.have.length( 0 );
+		} );
+	} );
+} );
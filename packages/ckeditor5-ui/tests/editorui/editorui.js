@@ -7,13 +7,14 @@ import EditorUI from '../../src/editorui/editorui';
 
 import ComponentFactory from '../../src/componentfactory';
 import ToolbarView from '../../src/toolbar/toolbarview';
+import MenuBarView from '../../src/menubar/menubarview';
 import TooltipManager from '../../src/tooltipmanager';
 import PoweredBy from '../../src/editorui/poweredby';
 
 import FocusTracker from '@ckeditor/ckeditor5-utils/src/focustracker';
 import { keyCodes } from '@ckeditor/ckeditor5-utils/src/keyboard';
 
-import { Editor } from '@ckeditor/ckeditor5-core';
+import { Editor, Command } from '@ckeditor/ckeditor5-core';
 
 import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
 import ClassicTestEditor from '@ckeditor/ckeditor5-core/tests/_utils/classictesteditor';
@@ -473,6 +474,126 @@ describe( 'EditorUI', () => {
 		} );
 	} );
 
+	describe( 'initMenuBar()', () => {
+		let menuBarEditor, menuBarUI, menuBarView, locale;
+
+		beforeEach( () => {
+			locale = { t: val => val, uiLanguageDirection: 'ltr' };
+
+			menuBarEditor = new Editor( {
+				menuBar: [
+					{ menuId: 'edit', label: 'Edit', items: [ 'foo' ] }
+				]
+			} );
+
+			menuBarEditor.commands.add( 'foo', new Command( menuBarEditor ) );
+			menuBarEditor.ui = menuBarUI = new EditorUI( menuBarEditor );
+
+			menuBarView = new MenuBarView( locale );
+			menuBarView.render();
+			document.body.appendChild( menuBarView.element );
+		} );
+
+		afterEach( () => {
+			menuBarView.element.remove();
+			menuBarView.destroy();
+			menuBarUI.destroy();
+		} );
+
+		it( 'should fill the menu bar from the configuration', () => {
+			menuBarUI.initMenuBar( menuBarView );
+
+			expect( menuBarView.children.length ).to.equal( 1 );
+			expect( menuBarView.children.first.menuId ).to.equal( 'edit' );
+			expect( menuBarView.children.first.buttonView.label ).to.equal( 'Edit' );
+		} );
+
+		it( 'should register the menu bar element in the #focusTracker and the editor keystroke handler', () => {
+			const focusTrackerSpy = testUtils.sinon.spy( menuBarUI.focusTracker, 'add' );
+			const keystrokesSpy = testUtils.sinon.spy( menuBarEditor.keystrokes, 'listenTo' );
+
+			menuBarUI.initMenuBar( menuBarView );
+
+			sinon.assert.calledOnceWithExactly( focusTrackerSpy, menuBarView.element );
+			sinon.assert.calledOnceWithExactly( keystrokesSpy, menuBarView.element );
+		} );
+
+		it( 'should focus the menu bar on Alt+F9', () => {
+			const spy = testUtils.sinon.spy( menuBarView, 'focus' );
+			const keyEvtData = {
+				keyCode: keyCodes.f9,
+				altKey: true,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			menuBarUI.initMenuBar( menuBarView );
+			menuBarEditor.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+		} );
+
+		it( 'should not focus the menu bar on Alt+F9 if it is not visible', () => {
+			const spy = testUtils.sinon.spy( menuBarView, 'focus' );
+
+			menuBarView.element.remove();
+			menuBarUI.initMenuBar( menuBarView );
+			menuBarEditor.keystrokes.press( {
+				keyCode: keyCodes.f9,
+				altKey: true,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			} );
+
+			sinon.assert.notCalled( spy );
+		} );
+
+		it( 'should not focus the menu bar on Alt+F9 if it is already focused', () => {
+			const spy = testUtils.sinon.spy( menuBarView, 'focus' );
+
+			menuBarUI.initMenuBar( menuBarView );
+			menuBarUI.focusTracker.focusedElement = menuBarView.element;
+			menuBarEditor.keystrokes.press( {
+				keyCode: keyCodes.f9,
+				altKey: true,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			} );
+
+			sinon.assert.notCalled( spy );
+		} );
+
+		it( 'should focus the editing view on Esc when the menu bar is focused', () => {
+			const spy = testUtils.sinon.stub( menuBarEditor.editing.view, 'focus' );
+			const keyEvtData = {
+				keyCode: keyCodes.esc,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			};
+
+			menuBarUI.initMenuBar( menuBarView );
+			menuBarUI.focusTracker.focusedElement = menuBarView.element;
+			menuBarEditor.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+		} );
+
+		it( 'should not focus the editing view on Esc when the menu bar is not focused', () => {
+			const spy = testUtils.sinon.stub( menuBarEditor.editing.view, 'focus' );
+
+			menuBarUI.initMenuBar( menuBarView );
+			menuBarEditor.keystrokes.press( {
+				keyCode: keyCodes.esc,
+				preventDefault: sinon.spy(),
+				stopPropagation: sinon.spy()
+			} );
+
+			sinon.assert.notCalled( spy );
+		} );
+	} );
+
 	describe( 'Focus handling and navigation between editable areas and editor toolbars', () => {
 		describe( 'addToolbar()', () => {
 			let locale, toolbar;
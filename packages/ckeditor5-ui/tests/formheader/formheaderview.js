@@ -6,6 +6,7 @@
 import View from '../../src/view';
 import ViewCollection from '../../src/viewcollection';
 import FormHeaderView from '../../src/formheader/formheaderview';
+import IconView from '../../src/icon/iconview';
 
 describe( 'FormHeaderView', () => {
 	let view, locale;
@@ -70,6 +71,23 @@ describe( 'FormHeaderView', () => {
 
 				view.destroy();
 			} );
+
+			it( 'should create an icon before the label when passed', () => {
+				const view = new FormHeaderView( locale, {
+					label: 'foo',
+					icon: '<svg viewBox="0 0 20 20"></svg>'
+				} );
+
+				view.render();
+
+				expect( view.children ).to.have.length( 2 );
+				expect( view.children.first ).to.be.instanceOf( IconView );
+				expect( view.children.first.content ).to.equal( '<svg viewBox="0 0 20 20"></svg>' );
+				expect( view.element.firstChild.classList.contains( 'ck-form__header__icon' ) ).to.be.true;
+				expect( view.element.lastChild.textContent ).to.equal( 'foo' );
+
+				view.destroy();
+			} );
 		} );
 
 		describe( 'template bindings', () => {
@@ -0,0 +1,51 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals window, document, console:false */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+import AccessibilityHelp from '../../../src/editorui/accessibilityhelp/accessibilityhelp';
+
+class CustomKeystrokes {
+	constructor( editor ) {
+		editor.accessibility.addKeystrokeInfoCategory( {
+			id: 'customCategory',
+			label: 'Custom category',
+			description: 'Keystrokes registered by a custom plugin.',
+			groups: [
+				{
+					id: 'customGroup',
+					label: 'Custom group',
+					keystrokes: [
+						{ label: 'Do something custom', keystroke: 'Ctrl+Shift+Alt+C' },
+						{ label: 'Do something else', keystroke: [ 'Ctrl+Alt+E', 'Ctrl+Alt+D' ] }
+					]
+				}
+			]
+		} );
+	}
+}
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [ ArticlePluginSet, AccessibilityHelp, CustomKeystrokes ],
+		toolbar: [
+			'accessibilityHelp', '|',
+			'heading', '|', 'bold', 'italic', 'link', 'bulletedList', 'numberedList', 'blockQuote', 'insertTable', 'undo', 'redo'
+		],
+		image: {
+			toolbar: [ 'imageStyle:inline', 'imageStyle:block', 'imageStyle:side', '|', 'imageTextAlternative' ]
+		},
+		table: {
+			contentToolbar: [ 'tableColumn', 'tableRow', 'mergeTableCells' ]
+		}
+	} )
+	.then( editor => {
+		window.editor = editor;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
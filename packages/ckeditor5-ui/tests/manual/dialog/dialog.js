@@ -0,0 +1,101 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals window, document, console:false */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+import { Plugin } from '@ckeditor/ckeditor5-core';
+import View from '../../../src/view';
+import ButtonView from '../../../src/button/buttonview';
+import Dialog from '../../../src/dialog/dialog';
+
+const POSITIONS = [
+	'screen-center',
+	'editor-center',
+	'editor-top-side',
+	'editor-top-center',
+	'editor-bottom-center',
+	'editor-above-center',
+	'editor-below-center'
+];
+
+class DialogButtons extends Plugin {
+	static get requires() {
+		return [ Dialog ];
+	}
+
+	init() {
+		this._addButton( 'modalDialog', 'Modal', { isModal: true } );
+
+		for ( const position of POSITIONS ) {
+			this._addButton( `dialog:${ position }`, position, { position } );
+		}
+	}
+
+	_addButton( name, label, definition ) {
+		const editor = this.editor;
+		const dialog = editor.plugins.get( Dialog );
+
+		editor.ui.componentFactory.add( name, locale => {
+			const buttonView = new ButtonView( locale );
+
+			buttonView.set( { label, withText: true } );
+
+			buttonView.on( 'execute', () => {
+				if ( dialog.id === name ) {
+					dialog.hide();
+
+					return;
+				}
+
+				const contentView = new View( locale );
+
+				contentView.setTemplate( {
+					tag: 'div',
+					attributes: {
+						class: 'manual-test-dialog-content',
+						tabindex: -1
+					},
+					children: [
+						`This is a ${ definition.isModal ? 'modal' : 'modeless' } dialog. Press Esc or click "Close" to hide it.`
+					]
+				} );
+
+				contentView.focus = () => contentView.element.focus();
+
+				dialog.show( {
+					id: name,
+					title: `${ label } dialog`,
+					content: contentView,
+					actionButtons: [
+						{
+							label: 'Close',
+							class: 'ck-button-action',
+							withText: true,
+							onExecute: () => dialog.hide()
+						}
+					],
+					onHide: () => console.log( `Dialog "${ name }" was hidden.` ),
+					...definition
+				} );
+			} );
+
+			return buttonView;
+		} );
+	}
+}
+
+ClassicEditor
+	.create( document.querySelector( '#editor' ), {
+		plugins: [ ArticlePluginSet, DialogButtons ],
+		toolbar: [ 'bold', 'italic', '|', 'modalDialog', ...POSITIONS.map( position => `dialog:${ position }` ) ]
+	} )
+	.then( editor => {
+		window.editor = editor;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
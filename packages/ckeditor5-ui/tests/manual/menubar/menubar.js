@@ -0,0 +1,83 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* globals window, document, console:false */
+
+import ClassicEditor from '@ckeditor/ckeditor5-editor-classic/src/classiceditor';
+import DecoupledEditor from '@ckeditor/ckeditor5-editor-decoupled/src/decouplededitor';
+import ArticlePluginSet from '@ckeditor/ckeditor5-core/tests/_utils/articlepluginset';
+
+const menuBarItems = [
+	{
+		menuId: 'edit',
+		label: 'Edit',
+		items: [ 'undo', 'redo', '|', 'selectAll' ]
+	},
+	{
+		menuId: 'insert',
+		label: 'Insert',
+		items: [ 'blockQuote', { command: 'insertTable', label: 'Table (2x2)' } ]
+	},
+	{
+		menuId: 'format',
+		label: 'Format',
+		items: [
+			'bold',
+			'italic',
+			'|',
+			{
+				menuId: 'headings',
+				label: 'Heading',
+				items: [
+					{ command: 'paragraph', label: 'Paragraph' },
+					{ command: 'heading', commandValue: 'heading1', label: 'Heading 1' },
+					{ command: 'heading', commandValue: 'heading2', label: 'Heading 2' },
+					{ command: 'heading', commandValue: 'heading3', label: 'Heading 3' }
+				]
+			},
+			{
+				menuId: 'lists',
+				label: 'Lists',
+				items: [ 'bulletedList', 'numberedList', '|', 'indent', 'outdent' ]
+			}
+		]
+	}
+];
+
+const toolbar = [ 'heading', '|', 'bold', 'italic', 'link', 'bulletedList', 'numberedList', 'blockQuote', 'insertTable', 'undo', 'redo' ];
+
+ClassicEditor
+	.create( document.querySelector( '#editor-classic' ), {
+		plugins: [ ArticlePluginSet ],
+		toolbar,
+		menuBar: {
+			isVisible: true,
+			items: menuBarItems
+		}
+	} )
+	.then( editor => {
+		window.classicEditor = editor;
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
+
+DecoupledEditor
+	.create( document.querySelector( '#editor-decoupled' ), {
+		plugins: [ ArticlePluginSet ],
+		toolbar,
+		menuBar: {
+			items: menuBarItems
+		}
+	} )
+	.then( editor => {
+		window.decoupledEditor = editor;
+
+		document.querySelector( '#menu-bar-container' ).appendChild( editor.ui.view.menuBarView.element );
+		document.querySelector( '#toolbar-container' ).appendChild( editor.ui.view.toolbar.element );
+	} )
+	.catch( err => {
+		console.error( err.stack );
+	} );
@@ -0,0 +1,84 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global Event */
+
+import MenuBarMenuButtonView from '../../src/menubar/menubarmenubuttonview';
+import ButtonView from '../../src/button/buttonview';
+import IconView from '../../src/icon/iconview';
+
+import dropdownArrowIcon from '../../theme/icons/dropdown-arrow.svg';
+import nextArrowIcon from '../../theme/icons/next-arrow.svg';
+
+describe( 'MenuBarMenuButtonView', () => {
+	let view, locale;
+
+	beforeEach( () => {
+		locale = { t() {}, uiLanguageDirection: 'ltr' };
+
+		view = new MenuBarMenuButtonView( locale );
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should extend ButtonView', () => {
+			expect( view ).to.be.instanceOf( ButtonView );
+		} );
+
+		it( 'should display the label', () => {
+			expect( view.withText ).to.be.true;
+		} );
+
+		it( 'should set the role', () => {
+			expect( view.element.getAttribute( 'role' ) ).to.equal( 'menuitem' );
+		} );
+
+		it( 'should set CSS classes', () => {
+			expect( view.element.classList.contains( 'ck-menu-bar__menu__button' ) ).to.be.true;
+		} );
+
+		it( 'should set aria-haspopup and bind aria-expanded to #isOn', () => {
+			expect( view.element.getAttribute( 'aria-haspopup' ) ).to.equal( 'true' );
+			expect( view.element.getAttribute( 'aria-expanded' ) ).to.equal( 'false' );
+
+			view.isOn = true;
+
+			expect( view.element.getAttribute( 'aria-expanded' ) ).to.equal( 'true' );
+		} );
+
+		it( 'should fire #mouseenter when the mouse pointer enters the button', () => {
+			const spy = sinon.spy();
+
+			view.on( 'mouseenter', spy );
+			view.element.dispatchEvent( new Event( 'mouseenter' ) );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		describe( '#arrowView', () => {
+			it( 'should be an IconView added to the children', () => {
+				expect( view.arrowView ).to.be.instanceOf( IconView );
+				expect( view.children.last ).to.equal( view.arrowView );
+				expect( view.arrowView.element.classList.contains( 'ck-menu-bar__menu__button__arrow' ) ).to.be.true;
+			} );
+
+			it( 'should use a downward arrow for top-level menus', () => {
+				expect( view.arrowView.content ).to.equal( dropdownArrowIcon );
+			} );
+
+			it( 'should use a next arrow for nested menus', () => {
+				const nestedView = new MenuBarMenuButtonView( locale, true );
+
+				expect( nestedView.arrowView.content ).to.equal( nextArrowIcon );
+
+				nestedView.destroy();
+			} );
+		} );
+	} );
+} );
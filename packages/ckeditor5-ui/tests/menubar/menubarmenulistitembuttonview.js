@@ -0,0 +1,48 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global Event */
+
+import MenuBarMenuListItemButtonView from '../../src/menubar/menubarmenulistitembuttonview';
+import ButtonView from '../../src/button/buttonview';
+
+describe( 'MenuBarMenuListItemButtonView', () => {
+	let view;
+
+	beforeEach( () => {
+		view = new MenuBarMenuListItemButtonView( { t() {} } );
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	it( 'should extend ButtonView', () => {
+		expect( view ).to.be.instanceOf( ButtonView );
+	} );
+
+	it( 'should display the label and the keystroke', () => {
+		expect( view.withText ).to.be.true;
+		expect( view.withKeystroke ).to.be.true;
+	} );
+
+	it( 'should set the role', () => {
+		expect( view.element.getAttribute( 'role' ) ).to.equal( 'menuitem' );
+	} );
+
+	it( 'should set CSS classes', () => {
+		expect( view.element.classList.contains( 'ck-menu-bar__menu__item__button' ) ).to.be.true;
+	} );
+
+	it( 'should fire #mouseenter when the mouse pointer enters the button', () => {
+		const spy = sinon.spy();
+
+		view.on( 'mouseenter', spy );
+		view.element.dispatchEvent( new Event( 'mouseenter' ) );
+
+		sinon.assert.calledOnce( spy );
+	} );
+} );
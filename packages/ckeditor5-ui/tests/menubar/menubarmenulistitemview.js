@@ -0,0 +1,29 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import MenuBarMenuListItemView from '../../src/menubar/menubarmenulistitemview';
+import ListItemView from '../../src/list/listitemview';
+
+describe( 'MenuBarMenuListItemView', () => {
+	let view;
+
+	beforeEach( () => {
+		view = new MenuBarMenuListItemView( { t() {} } );
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	it( 'should extend ListItemView', () => {
+		expect( view ).to.be.instanceOf( ListItemView );
+	} );
+
+	it( 'should set CSS classes', () => {
+		expect( view.element.classList.contains( 'ck-list__item' ) ).to.be.true;
+		expect( view.element.classList.contains( 'ck-menu-bar__menu__item' ) ).to.be.true;
+	} );
+} );
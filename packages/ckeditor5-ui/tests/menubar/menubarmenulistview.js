@@ -0,0 +1,33 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import MenuBarMenuListView from '../../src/menubar/menubarmenulistview';
+import ListView from '../../src/list/listview';
+
+describe( 'MenuBarMenuListView', () => {
+	let view;
+
+	beforeEach( () => {
+		view = new MenuBarMenuListView( { t() {} } );
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	it( 'should extend ListView', () => {
+		expect( view ).to.be.instanceOf( ListView );
+	} );
+
+	it( 'should set the role', () => {
+		expect( view.element.getAttribute( 'role' ) ).to.equal( 'menu' );
+	} );
+
+	it( 'should set CSS classes', () => {
+		expect( view.element.classList.contains( 'ck-list' ) ).to.be.true;
+		expect( view.element.classList.contains( 'ck-menu-bar__menu__list' ) ).to.be.true;
+	} );
+} );
@@ -0,0 +1,61 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global Event */
+
+import MenuBarMenuPanelView from '../../src/menubar/menubarmenupanelview';
+import ViewCollection from '../../src/viewcollection';
+
+describe( 'MenuBarMenuPanelView', () => {
+	let view;
+
+	beforeEach( () => {
+		view = new MenuBarMenuPanelView( { t() {} } );
+		view.render();
+	} );
+
+	afterEach( () => {
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should set default properties', () => {
+			expect( view.isVisible ).to.be.false;
+			expect( view.position ).to.equal( 'se' );
+			expect( view.children ).to.be.instanceOf( ViewCollection );
+		} );
+
+		it( 'should set CSS classes', () => {
+			expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-reset' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-menu-bar__menu__panel' ) ).to.be.true;
+		} );
+
+		it( 'should bind the ck-hidden class to #isVisible', () => {
+			expect( view.element.classList.contains( 'ck-hidden' ) ).to.be.true;
+
+			view.isVisible = true;
+
+			expect( view.element.classList.contains( 'ck-hidden' ) ).to.be.false;
+		} );
+
+		it( 'should bind the position class to #position', () => {
+			expect( view.element.classList.contains( 'ck-menu-bar__menu__panel_position_se' ) ).to.be.true;
+
+			view.position = 'es';
+
+			expect( view.element.classList.contains( 'ck-menu-bar__menu__panel_position_se' ) ).to.be.false;
+			expect( view.element.classList.contains( 'ck-menu-bar__menu__panel_position_es' ) ).to.be.true;
+		} );
+
+		it( 'should prevent selectstart in the panel (but not in inputs)', () => {
+			const event = new Event( 'selectstart', { bubbles: true, cancelable: true } );
+
+			view.element.dispatchEvent( event );
+
+			expect( event.defaultPrevented ).to.be.true;
+		} );
+	} );
+} );
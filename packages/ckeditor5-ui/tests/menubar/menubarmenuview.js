@@ -0,0 +1,279 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document */
+
+import MenuBarMenuView from '../../src/menubar/menubarmenuview';
+import MenuBarMenuButtonView from '../../src/menubar/menubarmenubuttonview';
+import MenuBarMenuPanelView from '../../src/menubar/menubarmenupanelview';
+import MenuBarMenuListView from '../../src/menubar/menubarmenulistview';
+import MenuBarMenuListItemView from '../../src/menubar/menubarmenulistitemview';
+import MenuBarMenuListItemButtonView from '../../src/menubar/menubarmenulistitembuttonview';
+
+import { FocusTracker, KeystrokeHandler, keyCodes } from '@ckeditor/ckeditor5-utils';
+
+describe( 'MenuBarMenuView', () => {
+	let view, locale;
+
+	beforeEach( () => {
+		locale = { t() {}, uiLanguageDirection: 'ltr' };
+
+		view = new MenuBarMenuView( locale );
+		view.render();
+
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create child views', () => {
+			expect( view.buttonView ).to.be.instanceOf( MenuBarMenuButtonView );
+			expect( view.panelView ).to.be.instanceOf( MenuBarMenuPanelView );
+			expect( view.listView ).to.be.instanceOf( MenuBarMenuListView );
+			expect( view.panelView.children.first ).to.equal( view.listView );
+		} );
+
+		it( 'should create #focusTracker and #keystrokes', () => {
+			expect( view.focusTracker ).to.be.instanceOf( FocusTracker );
+			expect( view.keystrokes ).to.be.instanceOf( KeystrokeHandler );
+		} );
+
+		it( 'should set default properties', () => {
+			expect( view.menuId ).to.be.undefined;
+			expect( view.isOpen ).to.be.false;
+			expect( view.parentMenuView ).to.be.null;
+		} );
+
+		it( 'should set CSS classes', () => {
+			expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-menu-bar__menu' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-menu-bar__menu_top-level' ) ).to.be.true;
+		} );
+
+		it( 'should bind the ck-menu-bar__menu_open class to #isOpen', () => {
+			expect( view.element.classList.contains( 'ck-menu-bar__menu_open' ) ).to.be.false;
+
+			view.isOpen = true;
+
+			expect( view.element.classList.contains( 'ck-menu-bar__menu_open' ) ).to.be.true;
+		} );
+
+		it( 'should bind the button and the panel to #isOpen', () => {
+			view.isOpen = true;
+
+			expect( view.buttonView.isOn ).to.be.true;
+			expect( view.panelView.isVisible ).to.be.true;
+
+			view.isOpen = false;
+
+			expect( view.buttonView.isOn ).to.be.false;
+			expect( view.panelView.isVisible ).to.be.false;
+		} );
+
+		it( 'should toggle #isOpen when the button is executed', () => {
+			view.buttonView.fire( 'execute' );
+			expect( view.isOpen ).to.be.true;
+
+			view.buttonView.fire( 'execute' );
+			expect( view.isOpen ).to.be.false;
+		} );
+
+		describe( '#panelPosition', () => {
+			it( 'should be "se" for a top-level menu in LTR', () => {
+				expect( view.panelPosition ).to.equal( 'se' );
+				expect( view.panelView.position ).to.equal( 'se' );
+			} );
+
+			it( 'should be "sw" for a top-level menu in RTL', () => {
+				const rtlView = new MenuBarMenuView( { t() {}, uiLanguageDirection: 'rtl' } );
+
+				expect( rtlView.panelPosition ).to.equal( 'sw' );
+
+				rtlView.destroy();
+			} );
+
+			it( 'should be "es" for a nested menu in LTR', () => {
+				const nestedView = new MenuBarMenuView( locale, view );
+
+				expect( nestedView.panelPosition ).to.equal( 'es' );
+				expect( nestedView.parentMenuView ).to.equal( view );
+
+				nestedView.destroy();
+			} );
+
+			it( 'should be "ws" for a nested menu in RTL', () => {
+				const rtlLocale = { t() {}, uiLanguageDirection: 'rtl' };
+				const nestedView = new MenuBarMenuView( rtlLocale, new MenuBarMenuView( rtlLocale ) );
+
+				expect( nestedView.panelPosition ).to.equal( 'ws' );
+
+				nestedView.destroy();
+			} );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the button', () => {
+			const spy = sinon.spy( view.buttonView, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+	} );
+
+	describe( 'keyboard navigation', () => {
+		let itemView, nestedView, nestedItemView;
+
+		beforeEach( () => {
+			itemView = createItem( view );
+
+			nestedView = new MenuBarMenuView( locale, view );
+			nestedItemView = createItem( nestedView );
+
+			const listItemView = new MenuBarMenuListItemView( locale );
+			listItemView.children.add( nestedView );
+			view.listView.items.add( listItemView );
+		} );
+
+		describe( 'in a top-level menu', () => {
+			for ( const key of [ 'arrowdown', 'enter', 'space' ] ) {
+				it( `should open the menu and focus the first item on ${ key } pressed on the button`, () => {
+					const spy = sinon.spy( itemView, 'focus' );
+					const keyEvtData = getKeyEvtData( key, view.buttonView.element );
+
+					view.keystrokes.press( keyEvtData );
+
+					expect( view.isOpen ).to.be.true;
+					sinon.assert.calledOnce( spy );
+					sinon.assert.calledOnce( keyEvtData.preventDefault );
+				} );
+			}
+
+			it( 'should open the menu and focus the last item on arrowup pressed on the button', () => {
+				const spy = sinon.spy( nestedView, 'focus' );
+				const keyEvtData = getKeyEvtData( 'arrowup', view.buttonView.element );
+
+				view.keystrokes.press( keyEvtData );
+
+				expect( view.isOpen ).to.be.true;
+				sinon.assert.calledOnce( spy );
+			} );
+
+			it( 'should not open the menu on arrowdown pressed outside of the button', () => {
+				const keyEvtData = getKeyEvtData( 'arrowdown', itemView.element );
+
+				view.keystrokes.press( keyEvtData );
+
+				expect( view.isOpen ).to.be.false;
+				sinon.assert.notCalled( keyEvtData.preventDefault );
+			} );
+
+			it( 'should close the menu and focus the button on esc', () => {
+				const spy = sinon.spy( view.buttonView, 'focus' );
+				const keyEvtData = getKeyEvtData( 'esc', itemView.element );
+
+				view.isOpen = true;
+				view.keystrokes.press( keyEvtData );
+
+				expect( view.isOpen ).to.be.false;
+				sinon.assert.calledOnce( spy );
+				sinon.assert.calledOnce( keyEvtData.preventDefault );
+			} );
+
+			it( 'should not handle esc when the menu is closed', () => {
+				const keyEvtData = getKeyEvtData( 'esc', view.buttonView.element );
+
+				view.keystrokes.press( keyEvtData );
+
+				sinon.assert.notCalled( keyEvtData.preventDefault );
+			} );
+		} );
+
+		describe( 'in a nested menu', () => {
+			beforeEach( () => {
+				view.isOpen = true;
+			} );
+
+			it( 'should open the menu and focus the first item on arrowright pressed on the button', () => {
+				const spy = sinon.spy( nestedItemView, 'focus' );
+				const keyEvtData = getKeyEvtData( 'arrowright', nestedView.buttonView.element );
+
+				nestedView.keystrokes.press( keyEvtData );
+
+				expect( nestedView.isOpen ).to.be.true;
+				sinon.assert.calledOnce( spy );
+				sinon.assert.calledOnce( keyEvtData.preventDefault );
+			} );
+
+			it( 'should use arrowleft to open the menu in RTL', () => {
+				const rtlLocale = { t() {}, uiLanguageDirection: 'rtl' };
+				const rtlView = new MenuBarMenuView( rtlLocale, new MenuBarMenuView( rtlLocale ) );
+
+				rtlView.render();
+				createItem( rtlView );
+
+				rtlView.keystrokes.press( getKeyEvtData( 'arrowleft', rtlView.buttonView.element ) );
+
+				expect( rtlView.isOpen ).to.be.true;
+
+				rtlView.destroy();
+			} );
+
+			it( 'should not open the menu on arrowdown', () => {
+				const keyEvtData = getKeyEvtData( 'arrowdown', nestedView.buttonView.element );
+
+				nestedView.keystrokes.press( keyEvtData );
+
+				expect( nestedView.isOpen ).to.be.false;
+			} );
+
+			it( 'should close the menu and focus its button on arrowleft pressed in the panel', () => {
+				const spy = sinon.spy( nestedView.buttonView, 'focus' );
+				const keyEvtData = getKeyEvtData( 'arrowleft', nestedItemView.element );
+
+				nestedView.isOpen = true;
+				nestedView.keystrokes.press( keyEvtData );
+
+				expect( nestedView.isOpen ).to.be.false;
+				expect( view.isOpen ).to.be.true;
+				sinon.assert.calledOnce( spy );
+				sinon.assert.calledOnce( keyEvtData.preventDefault );
+			} );
+
+			it( 'should not handle arrowleft pressed on the button', () => {
+				const keyEvtData = getKeyEvtData( 'arrowleft', nestedView.buttonView.element );
+
+				nestedView.keystrokes.press( keyEvtData );
+
+				sinon.assert.notCalled( keyEvtData.preventDefault );
+			} );
+		} );
+	} );
+
+	function createItem( menuView ) {
+		const listItemView = new MenuBarMenuListItemView( locale );
+		const buttonView = new MenuBarMenuListItemButtonView( locale );
+
+		buttonView.label = 'Item';
+		listItemView.children.add( buttonView );
+		menuView.listView.items.add( listItemView );
+
+		return buttonView;
+	}
+
+	function getKeyEvtData( key, target ) {
+		return {
+			keyCode: keyCodes[ key ],
+			target,
+			preventDefault: sinon.spy(),
+			stopPropagation: sinon.spy()
+		};
+	}
+} );
@@ -0,0 +1,491 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+/* global document, Event, console */
+
+import MenuBarView from '../../src/menubar/menubarview';
+import MenuBarMenuView from '../../src/menubar/menubarmenuview';
+import MenuBarMenuListItemButtonView from '../../src/menubar/menubarmenulistitembuttonview';
+import ListSeparatorView from '../../src/list/listseparatorview';
+import ButtonView from '../../src/button/buttonview';
+import ComponentFactory from '../../src/componentfactory';
+import ViewCollection from '../../src/viewcollection';
+
+import { Editor, Command } from '@ckeditor/ckeditor5-core';
+import { FocusTracker, KeystrokeHandler, keyCodes } from '@ckeditor/ckeditor5-utils';
+
+import testUtils from '@ckeditor/ckeditor5-core/tests/_utils/utils';
+
+describe( 'MenuBarView', () => {
+	let view, locale, editor, factory;
+
+	testUtils.createSinonSandbox();
+
+	beforeEach( () => {
+		locale = { t: val => val, uiLanguageDirection: 'ltr' };
+		editor = new Editor();
+		factory = new ComponentFactory( editor );
+
+		for ( const name of [ 'bold', 'italic', 'undo', 'heading' ] ) {
+			editor.commands.add( name, new Command( editor ) );
+		}
+
+		editor.commands.get( 'bold' ).value = false;
+		editor.commands.get( 'heading' ).value = 'paragraph';
+
+		factory.add( 'bold', locale => {
+			const buttonView = new ButtonView( locale );
+
+			buttonView.set( { label: 'Bold', icon: '<svg></svg>', keystroke: 'Ctrl+B' } );
+
+			return buttonView;
+		} );
+
+		view = new MenuBarView( locale );
+		view.render();
+
+		document.body.appendChild( view.element );
+	} );
+
+	afterEach( () => {
+		view.element.remove();
+		view.destroy();
+	} );
+
+	describe( 'constructor()', () => {
+		it( 'should create collections and helpers', () => {
+			expect( view.children ).to.be.instanceOf( ViewCollection );
+			expect( view.menus ).to.deep.equal( [] );
+			expect( view.focusTracker ).to.be.instanceOf( FocusTracker );
+			expect( view.keystrokes ).to.be.instanceOf( KeystrokeHandler );
+		} );
+
+		it( 'should set default properties', () => {
+			expect( view.isOpen ).to.be.false;
+			expect( view.ariaLabel ).to.equal( 'Editor menu bar' );
+		} );
+
+		it( 'should create the element', () => {
+			expect( view.element.classList.contains( 'ck' ) ).to.be.true;
+			expect( view.element.classList.contains( 'ck-menu-bar' ) ).to.be.true;
+			expect( view.element.getAttribute( 'role' ) ).to.equal( 'menubar' );
+			expect( view.element.getAttribute( 'aria-label' ) ).to.equal( 'Editor menu bar' );
+		} );
+	} );
+
+	describe( 'fillFromConfig()', () => {
+		it( 'should create top-level menus', () => {
+			fill( [
+				{ menuId: 'format', label: 'Format', items: [ 'bold' ] },
+				{ menuId: 'edit', label: 'Edit', items: [ 'undo' ] }
+			] );
+
+			expect( view.children.length ).to.equal( 2 );
+			expect( view.children.get( 0 ) ).to.be.instanceOf( MenuBarMenuView );
+			expect( view.children.get( 0 ).menuId ).to.equal( 'format' );
+			expect( view.children.get( 0 ).buttonView.label ).to.equal( 'Format' );
+			expect( view.children.get( 1 ).menuId ).to.equal( 'edit' );
+			expect( view.menus ).to.have.length( 2 );
+		} );
+
+		it( 'should create nested menus', () => {
+			fill( [
+				{ menuId: 'format', label: 'Format', items: [
+					'bold',
+					{ menuId: 'headings', label: 'Heading', items: [
+						{ command: 'heading', commandValue: 'heading1', label: 'Heading 1' }
+					] }
+				] }
+			] );
+
+			const formatMenuView = view.children.first;
+			const nestedMenuView = formatMenuView.listView.items.get( 1 ).children.first;
+
+			expect( nestedMenuView ).to.be.instanceOf( MenuBarMenuView );
+			expect( nestedMenuView.parentMenuView ).to.equal( formatMenuView );
+			expect( nestedMenuView.menuId ).to.equal( 'headings' );
+			expect( view.menus ).to.have.members( [ formatMenuView, nestedMenuView ] );
+		} );
+
+		it( 'should create separators and filter out redundant ones', () => {
+			fill( [
+				{ menuId: 'format', label: 'Format', items: [ '|', 'bold', '|', '|', 'italic', '|' ] }
+			] );
+
+			const items = view.children.first.listView.items;
+
+			expect( items.length ).to.equal( 3 );
+			expect( items.get( 1 ) ).to.be.instanceOf( ListSeparatorView );
+		} );
+
+		it( 'should omit items referring to unavailable commands and log a warning', () => {
+			const warnStub = testUtils.sinon.stub( console, 'warn' );
+
+			fill( [
+				{ menuId: 'format', label: 'Format', items: [ 'bold', 'foo' ] }
+			] );
+
+			expect( view.children.first.listView.items.length ).to.equal( 1 );
+			sinon.assert.calledWithMatch( warnStub, 'menu-bar-item-unavailable', { item: 'foo' } );
+		} );
+
+		it( 'should omit empty menus and log a warning', () => {
+			const warnStub = testUtils.sinon.stub( console, 'warn' );
+
+			fill( [
+				{ menuId: 'format', label: 'Format', items: [ 'bold', { menuId: 'empty', label: 'Empty', items: [ 'foo', '|' ] } ] },
+				{ menuId: 'edit', label: 'Edit', items: [] }
+			] );
+
+			expect( view.children.length ).to.equal( 1 );
+			expect( view.children.first.listView.items.length ).to.equal( 1 );
+			expect( view.menus ).to.have.length( 1 );
+			sinon.assert.calledWithMatch( warnStub, 'menu-bar-menu-empty', { menuId: 'empty' } );
+			sinon.assert.calledWithMatch( warnStub, 'menu-bar-menu-empty', { menuId: 'edit' } );
+		} );
+
+		describe( 'command items', () => {
+			it( 'should borrow the label, the icon and the keystroke from the component factory', () => {
+				const buttonView = fillAndGetFirstButton( [ 'bold' ] );
+
+				expect( buttonView ).to.be.instanceOf( MenuBarMenuListItemButtonView );
+				expect( buttonView.label ).to.equal( 'Bold' );
+				expect( buttonView.icon ).to.equal( '<svg></svg>' );
+				expect( buttonView.keystroke ).to.equal( 'Ctrl+B' );
+			} );
+
+			it( 'should prefer properties from the definition', () => {
+				const buttonView = fillAndGetFirstButton( [ { command: 'bold', label: 'Strong', keystroke: 'Ctrl+Shift+B' } ] );
+
+				expect( buttonView.label ).to.equal( 'Strong' );
+				expect( buttonView.icon ).to.equal( '<svg></svg>' );
+				expect( buttonView.keystroke ).to.equal( 'Ctrl+Shift+B' );
+			} );
+
+			it( 'should not borrow properties from components other than buttons', () => {
+				factory.add( 'undo', () => new MenuBarView( locale ) );
+
+				const buttonView = fillAndGetFirstButton( [ 'undo' ] );
+
+				expect( buttonView.label ).to.equal( 'undo' );
+			} );
+
+			it( 'should use the name of the command as a label as a last resort', () => {
+				const buttonView = fillAndGetFirstButton( [ 'italic' ] );
+
+				expect( buttonView.label ).to.equal( 'italic' );
+				expect( buttonView.icon ).to.be.undefined;
+			} );
+
+			it( 'should bind #isEnabled to the command', () => {
+				const buttonView = fillAndGetFirstButton( [ 'bold' ] );
+
+				editor.commands.get( 'bold' ).isEnabled = false;
+				expect( buttonView.isEnabled ).to.be.false;
+
+				editor.commands.get( 'bold' ).isEnabled = true;
+				expect( buttonView.isEnabled ).to.be.true;
+			} );
+
+			it( 'should bind #isOn to the boolean value of the command', () => {
+				const buttonView = fillAndGetFirstButton( [ 'bold' ] );
+
+				expect( buttonView.isToggleable ).to.be.true;
+				expect( buttonView.role ).to.equal( 'menuitemcheckbox' );
+				expect( buttonView.isOn ).to.be.false;
+
+				editor.commands.get( 'bold' ).value = true;
+				expect( buttonView.isOn ).to.be.true;
+			} );
+
+			it( 'should bind #isOn to the command value matching #commandValue', () => {
+				const buttonView = fillAndGetFirstButton( [ { command: 'heading', commandValue: 'heading1', label: 'Heading 1' } ] );
+
+				expect( buttonView.isToggleable ).to.be.true;
+				expect( buttonView.isOn ).to.be.false;
+
+				editor.commands.get( 'heading' ).value = 'heading1';
+				expect( buttonView.isOn ).to.be.true;
+			} );
+
+			it( 'should not be toggleable for commands without a boolean value', () => {
+				const buttonView = fillAndGetFirstButton( [ 'undo' ] );
+
+				expect( buttonView.isToggleable ).to.be.false;
+				expect( buttonView.role ).to.equal( 'menuitem' );
+			} );
+
+			it( 'should execute the command, close the menus and focus the editing view', () => {
+				const executeSpy = sinon.spy( editor, 'execute' );
+				const focusStub = sinon.stub( editor.editing.view, 'focus' );
+				const buttonView = fillAndGetFirstButton( [ 'bold' ] );
+
+				view.children.first.isOpen = true;
+				buttonView.fire( 'execute' );
+
+				sinon.assert.calledOnceWithExactly( executeSpy, 'bold' );
+				sinon.assert.calledOnce( focusStub );
+				expect( view.children.first.isOpen ).to.be.false;
+			} );
+
+			it( 'should execute the command with the #commandValue', () => {
+				const executeSpy = sinon.spy( editor, 'execute' );
+				const buttonView = fillAndGetFirstButton( [ { command: 'heading', commandValue: 'heading1', label: 'Heading 1' } ] );
+
+				sinon.stub( editor.editing.view, 'focus' );
+				buttonView.fire( 'execute' );
+
+				sinon.assert.calledOnceWithExactly( executeSpy, 'heading', { value: 'heading1' } );
+			} );
+		} );
+
+		describe( 'opening and closing menus', () => {
+			let formatMenuView, editMenuView, headingsMenuView, listsMenuView;
+
+			beforeEach( () => {
+				fill( [
+					{ menuId: 'format', label: 'Format', items: [
+						'bold',
+						{ menuId: 'headings', label: 'Heading', items: [ 'heading' ] },
+						{ menuId: 'lists', label: 'Lists', items: [ 'italic' ] }
+					] },
+					{ menuId: 'edit', label: 'Edit', items: [ 'undo' ] }
+				] );
+
+				[ formatMenuView, editMenuView ] = view.children;
+				headingsMenuView = formatMenuView.listView.items.get( 1 ).children.first;
+				listsMenuView = formatMenuView.listView.items.get( 2 ).children.first;
+			} );
+
+			it( 'should update #isOpen when top-level menus open and close', () => {
+				formatMenuView.isOpen = true;
+				expect( view.isOpen ).to.be.true;
+
+				formatMenuView.isOpen = false;
+				expect( view.isOpen ).to.be.false;
+			} );
+
+			it( 'should close other top-level menus when a menu opens', () => {
+				formatMenuView.isOpen = true;
+				editMenuView.isOpen = true;
+
+				expect( formatMenuView.isOpen ).to.be.false;
+				expect( view.isOpen ).to.be.true;
+			} );
+
+			it( 'should close sibling nested menus when a nested menu opens', () => {
+				formatMenuView.isOpen = true;
+				headingsMenuView.isOpen = true;
+				listsMenuView.isOpen = true;
+
+				expect( headingsMenuView.isOpen ).to.be.false;
+				expect( listsMenuView.isOpen ).to.be.true;
+			} );
+
+			it( 'should close nested menus when the parent menu closes', () => {
+				formatMenuView.isOpen = true;
+				headingsMenuView.isOpen = true;
+
+				formatMenuView.isOpen = false;
+
+				expect( headingsMenuView.isOpen ).to.be.false;
+			} );
+
+			it( 'should open a top-level menu on mouseenter if another menu is open', () => {
+				const focusSpy = sinon.spy( editMenuView, 'focus' );
+
+				formatMenuView.isOpen = true;
+				editMenuView.buttonView.fire( 'mouseenter' );
+
+				expect( editMenuView.isOpen ).to.be.true;
+				expect( formatMenuView.isOpen ).to.be.false;
+				sinon.assert.calledOnce( focusSpy );
+			} );
+
+			it( 'should not open a top-level menu on mouseenter if no menu is open', () => {
+				editMenuView.buttonView.fire( 'mouseenter' );
+
+				expect( editMenuView.isOpen ).to.be.false;
+			} );
+
+			it( 'should open a nested menu on mouseenter', () => {
+				formatMenuView.isOpen = true;
+				headingsMenuView.buttonView.fire( 'mouseenter' );
+
+				expect( headingsMenuView.isOpen ).to.be.true;
+			} );
+
+			it( 'should close nested menus on mouseenter over a regular item', () => {
+				formatMenuView.isOpen = true;
+				headingsMenuView.isOpen = true;
+
+				formatMenuView.listView.items.first.children.first.fire( 'mouseenter' );
+
+				expect( headingsMenuView.isOpen ).to.be.false;
+				expect( formatMenuView.isOpen ).to.be.true;
+			} );
+
+			it( 'should close all menus when the focus leaves the menu bar', () => {
+				formatMenuView.isOpen = true;
+
+				view.focusTracker.isFocused = true;
+				view.focusTracker.isFocused = false;
+
+				expect( formatMenuView.isOpen ).to.be.false;
+			} );
+
+			it( 'should close all menus when clicked outside of the menu bar', () => {
+				formatMenuView.isOpen = true;
+
+				document.body.dispatchEvent( new Event( 'mousedown', { bubbles: true } ) );
+
+				expect( formatMenuView.isOpen ).to.be.false;
+			} );
+
+			it( 'should not close menus when clicked inside of the menu bar', () => {
+				formatMenuView.isOpen = true;
+
+				formatMenuView.buttonView.element.dispatchEvent( new Event( 'mousedown', { bubbles: true } ) );
+
+				expect( formatMenuView.isOpen ).to.be.true;
+			} );
+		} );
+	} );
+
+	describe( 'focus()', () => {
+		it( 'should focus the first top-level menu', () => {
+			fill( [
+				{ menuId: 'format', label: 'Format', items: [ 'bold' ] },
+				{ menuId: 'edit', label: 'Edit', items: [ 'undo' ] }
+			] );
+
+			const spy = sinon.spy( view.children.first, 'focus' );
+
+			view.focus();
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should not throw when there are no menus', () => {
+			expect( () => view.focus() ).to.not.throw();
+		} );
+	} );
+
+	describe( 'close()', () => {
+		it( 'should close all top-level menus', () => {
+			fill( [
+				{ menuId: 'format', label: 'Format', items: [ 'bold' ] }
+			] );
+
+			view.children.first.isOpen = true;
+			view.close();
+
+			expect( view.children.first.isOpen ).to.be.false;
+			expect( view.isOpen ).to.be.false;
+		} );
+	} );
+
+	describe( 'keyboard navigation between top-level menus', () => {
+		let formatMenuView, insertMenuView, editMenuView;
+
+		beforeEach( () => {
+			fill( [
+				{ menuId: 'format', label: 'Format', items: [ 'bold' ] },
+				{ menuId: 'insert', label: 'Insert', items: [ 'heading' ] },
+				{ menuId: 'edit', label: 'Edit', items: [ 'undo' ] }
+			] );
+
+			[ formatMenuView, insertMenuView, editMenuView ] = view.children;
+		} );
+
+		it( 'should focus the next menu on arrowright', () => {
+			const spy = sinon.spy( insertMenuView, 'focus' );
+			const keyEvtData = getKeyEvtData( 'arrowright', formatMenuView.buttonView.element );
+
+			view.keystrokes.press( keyEvtData );
+
+			sinon.assert.calledOnce( spy );
+			sinon.assert.calledOnce( keyEvtData.preventDefault );
+			expect( insertMenuView.isOpen ).to.be.false;
+		} );
+
+		it( 'should focus the previous menu on arrowleft', () => {
+			const spy = sinon.spy( formatMenuView, 'focus' );
+
+			view.keystrokes.press( getKeyEvtData( 'arrowleft', insertMenuView.buttonView.element ) );
+
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should cycle over menus', () => {
+			const nextSpy = sinon.spy( formatMenuView, 'focus' );
+			const previousSpy = sinon.spy( editMenuView, 'focus' );
+
+			view.keystrokes.press( getKeyEvtData( 'arrowright', editMenuView.buttonView.element ) );
+			view.keystrokes.press( getKeyEvtData( 'arrowleft', formatMenuView.buttonView.element ) );
+
+			sinon.assert.calledOnce( nextSpy );
+			sinon.assert.calledOnce( previousSpy );
+		} );
+
+		it( 'should open the sibling menu and focus its first item if the current menu was open', () => {
+			const spy = sinon.spy( insertMenuView.listView, 'focus' );
+
+			formatMenuView.isOpen = true;
+			view.keystrokes.press( getKeyEvtData( 'arrowright', formatMenuView.listView.items.first.children.first.element ) );
+
+			expect( formatMenuView.isOpen ).to.be.false;
+			expect( insertMenuView.isOpen ).to.be.true;
+			sinon.assert.calledOnce( spy );
+		} );
+
+		it( 'should use reversed arrow keys in RTL', () => {
+			const rtlView = new MenuBarView( { t: val => val, uiLanguageDirection: 'rtl' } );
+
+			rtlView.render();
+			rtlView.fillFromConfig( {
+				items: [
+					{ menuId: 'format', label: 'Format', items: [ 'bold' ] },
+					{ menuId: 'edit', label: 'Edit', items: [ 'undo' ] }
+				]
+			}, factory );
+
+			const spy = sinon.spy( rtlView.children.last, 'focus' );
+
+			rtlView.keystrokes.press( getKeyEvtData( 'arrowleft', rtlView.children.first.buttonView.element ) );
+
+			sinon.assert.calledOnce( spy );
+
+			rtlView.destroy();
+		} );
+
+		it( 'should not handle arrow keys pressed outside of menus', () => {
+			const keyEvtData = getKeyEvtData( 'arrowright', view.element );
+
+			view.keystrokes.press( keyEvtData );
+
+			sinon.assert.notCalled( keyEvtData.preventDefault );
+		} );
+	} );
+
+	function fill( items ) {
+		view.fillFromConfig( { items, isVisible: true }, factory );
+	}
+
+	function fillAndGetFirstButton( items ) {
+		fill( [ { menuId: 'menu', label: 'Menu', items } ] );
+
+		return view.children.first.listView.items.first.children.first;
+	}
+
+	function getKeyEvtData( key, target ) {
+		return {
+			keyCode: keyCodes[ key ],
+			target,
+			preventDefault: sinon.spy(),
+			stopPropagation: sinon.spy()
+		};
+	}
+} );
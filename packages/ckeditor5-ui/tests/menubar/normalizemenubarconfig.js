@@ -0,0 +1,50 @@
+/**
+ * @license Copyright (c) 2003-2023, CKSource Holding sp. z o.o. All rights reserved.
+ * For licensing, see LICENSE.md or https://ckeditor.com/legal/ckeditor-oss-license
+ */
+
+import normalizeMenuBarConfig from '../../src/menubar/normalizemenubarconfig';
+
+describe( 'normalizeMenuBarConfig()', () => {
+	it( 'normalizes the config specified as an Array to a visible menu bar', () => {
+		const items = [ { menuId: 'edit', label: 'Edit', items: [ 'undo' ] } ];
+		const normalized = normalizeMenuBarConfig( items );
+
+		expect( normalized ).to.deep.equal( {
+			items,
+			isVisible: true
+		} );
+	} );
+
+	it( 'does not make the menu bar specified as an Object visible by default', () => {
+		const items = [ { menuId: 'edit', label: 'Edit', items: [ 'undo' ] } ];
+
+		expect( normalizeMenuBarConfig( { items } ) ).to.deep.equal( {
+			items,
+			isVisible: false
+		} );
+	} );
+
+	it( 'passes through an already normalized config', () => {
+		const cfg = {
+			items: [ { menuId: 'edit', label: 'Edit', items: [ 'undo' ] } ],
+			isVisible: true
+		};
+
+		expect( normalizeMenuBarConfig( cfg ) ).to.deep.equal( cfg );
+	} );
+
+	it( 'adds missing properties', () => {
+		expect( normalizeMenuBarConfig( { isVisible: true } ) ).to.deep.equal( {
+			items: [],
+			isVisible: true
+		} );
+	} );
+
+	it( 'returns an empty config if config is not defined', () => {
+		expect( normalizeMenuBarConfig() ).to.deep.equal( {
+			items: [],
+			isVisible: false
+		} );
+	} );
+} );
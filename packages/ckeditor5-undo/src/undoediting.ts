@@ -52,6 +52,7 @@ export default class UndoEditing extends Plugin {
 	 */
 	public init(): void {
 		const editor = this.editor;
+		const t = editor.t;
 
 		// Create commands.
 		this._undoCommand = new UndoCommand( editor );
@@ -109,5 +110,18 @@ export default class UndoEditing extends Plugin {
 		editor.keystrokes.set( 'CTRL+Z', 'undo' );
 		editor.keystrokes.set( 'CTRL+Y', 'redo' );
 		editor.keystrokes.set( 'CTRL+SHIFT+Z', 'redo' );
+
+		editor.accessibility.addKeystrokeInfos( {
+			keystrokes: [
+				{
+					label: t( 'Undo' ),
+					keystroke: 'CTRL+Z'
+				},
+				{
+					label: t( 'Redo' ),
+					keystroke: [ 'CTRL+Y', 'CTRL+SHIFT+Z' ]
+				}
+			]
+		} );
 	}
 }
@@ -186,4 +186,18 @@ describe( 'UndoEditing', () => {
 		expect( spy.calledWithExactly( 'redo' ) ).to.be.true;
 		expect( keyEventData.preventDefault.calledOnce ).to.be.true;
 	} );
+
+	it( 'should add keystroke accessibility info', () => {
+		const keystrokes = editor.accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'common' ).keystrokes;
+
+		expect( keystrokes ).to.deep.include( {
+			label: 'Undo',
+			keystroke: 'CTRL+Z'
+		} );
+
+		expect( keystrokes ).to.deep.include( {
+			label: 'Redo',
+			keystroke: [ 'CTRL+Y', 'CTRL+SHIFT+Z' ]
+		} );
+	} );
 } );
@@ -146,6 +146,31 @@ export default class WidgetTypeAround extends Plugin {
 		this._enableInsertContentIntegration();
 		this._enableInsertObjectIntegration();
 		this._enableDeleteContentIntegration();
+
+		const t = editor.t;
+
+		editor.accessibility.addKeystrokeInfoGroup( {
+			id: 'widget',
+			label: t( 'Keystrokes that can be used when a widget is selected (for example: image, table, etc.)' ),
+			keystrokes: [
+				{
+					label: t( 'Insert a new paragraph directly after a widget' ),
+					keystroke: 'Enter'
+				},
+				{
+					label: t( 'Insert a new paragraph directly before a widget' ),
+					keystroke: 'Shift+Enter'
+				},
+				{
+					label: t( 'Move the caret to allow typing directly before a widget' ),
+					keystroke: [ 'arrowup', 'arrowleft' ]
+				},
+				{
+					label: t( 'Move the caret to allow typing directly after a widget' ),
+					keystroke: [ 'arrowdown', 'arrowright' ]
+				}
+			]
+		} );
 	}
 
 	/**
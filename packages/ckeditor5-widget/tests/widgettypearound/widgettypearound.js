@@ -47,6 +47,21 @@ describe( 'WidgetTypeAround', () => {
 			expect( WidgetTypeAround.pluginName ).to.equal( 'WidgetTypeAround' );
 		} );
 
+		it( 'should add keystroke accessibility info', () => {
+			const group = editor.accessibility.keystrokeInfos.get( 'contentEditing' ).groups.get( 'widget' );
+
+			expect( group.label ).to.equal(
+				'Keystrokes that can be used when a widget is selected (for example: image, table, etc.)'
+			);
+
+			expect( group.keystrokes ).to.deep.equal( [
+				{ label: 'Insert a new paragraph directly after a widget', keystroke: 'Enter' },
+				{ label: 'Insert a new paragraph directly before a widget', keystroke: 'Shift+Enter' },
+				{ label: 'Move the caret to allow typing directly before a widget', keystroke: [ 'arrowup', 'arrowleft' ] },
+				{ label: 'Move the caret to allow typing directly after a widget', keystroke: [ 'arrowdown', 'arrowright' ] }
+			] );
+		} );
+
 		describe( '#isEnabled support', () => {
 			it( 'should add class to the editing view root when becoming disabled', () => {
 				editor.plugins.get( WidgetTypeAround ).isEnabled = false;